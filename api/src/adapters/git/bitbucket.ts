@@ -13,6 +13,9 @@ import {
   Commit,
   WebhookResult,
   RateLimitInfo,
+  CommitStatus,
+  CommitStatusState,
+  PullRequestComment,
 } from './interface.js';
 import { AppError } from '../../middleware/error-handler.js';
 
@@ -29,6 +32,16 @@ const BITBUCKET_API_BASE = 'https://api.bitbucket.org/2.0';
  */
 const DEFAULT_WEBHOOK_EVENTS = ['repo:push', 'pullrequest:created', 'pullrequest:updated'];
 
+/**
+ * Commit status states mapped to Bitbucket build status states
+ */
+const COMMIT_STATUS_STATES: Record<CommitStatusState, 'INPROGRESS' | 'SUCCESSFUL' | 'FAILED'> = {
+  pending: 'INPROGRESS',
+  success: 'SUCCESSFUL',
+  failure: 'FAILED',
+  error: 'FAILED',
+};
+
 /**
  * Rate limit retry configuration
  */
@@ -118,6 +131,20 @@ interface BitbucketWebhook {
   description?: string;
 }
 
+/**
+ * Bitbucket pull request comment response type
+ */
+interface BitbucketComment {
+  id: number;
+  content: {
+    raw: string;
+  };
+  deleted?: boolean;
+  links?: {
+    html?: { href: string };
+  };
+}
+
 /**
  * Bitbucket paginated response type
  */
@@ -576,6 +603,76 @@ export class BitbucketAdapter implements GitAdapter {
     });
   }
 
+  /**
+   * Create or update a pull request comment identified by a marker
+   */
+  async upsertPullRequestComment(
+    repo: Repository,
+    pullRequestNumber: number,
+    body: string,
+    marker: string
+  ): Promise<PullRequestComment> {
+    return this.withRateLimitHandling(async () => {
+      const commentsPath = `/repositories/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}/pullrequests/${pullRequestNumber}/comments`;
+
+      let existing: BitbucketComment | undefined;
+      let next: string | undefined = `${commentsPath}?pagelen=100`;
+      while (next && !existing) {
+        const page: BitbucketPaginatedResponse<BitbucketComment> =
+          await this.request<BitbucketPaginatedResponse<BitbucketComment>>(next);
+        existing = page.values.find((comment) => !comment.deleted && comment.content.raw.includes(marker));
+        next = page.next;
+      }
+
+      const comment = await this.request<BitbucketComment>(
+        existing ? `${commentsPath}/${existing.id}` : commentsPath,
+        {
+          method: existing ? 'PUT' : 'POST',
+          body: JSON.stringify({ content: { raw: body } }),
+        }
+      );
+
+      logger.info(
+        { repo: repo.fullName, pullRequestNumber, commentId: comment.id, created: !existing },
+        existing ? 'Pull request comment updated' : 'Pull request comment created'
+      );
+
+      return {
+        id: comment.id.toString(),
+        url: comment.links?.html?.href ?? null,
+        created: !existing,
+      };
+    });
+  }
+
+  /**
+   * Set a commit build status
+   */
+  async setCommitStatus(repo: Repository, sha: string, status: CommitStatus): Promise<void> {
+    return this.withRateLimitHandling(async () => {
+      await this.request<unknown>(
+        `/repositories/${encodeURIComponent(repo.owner)}/${encodeURIComponent(repo.name)}/commit/${encodeURIComponent(sha)}/statuses/build`,
+        {
+          method: 'POST',
+          body: JSON.stringify({
+            // The key identifies the status; posting the same key updates it
+            key: status.context.slice(0, 40),
+            name: status.context,
+            state: COMMIT_STATUS_STATES[status.state],
+            description: status.description,
+            // Bitbucket requires a URL for build statuses
+            url: status.targetUrl ?? repo.htmlUrl,
+          }),
+        }
+      );
+
+      logger.debug(
+        { repo: repo.fullName, sha, state: status.state, context: status.context },
+        'Commit status set'
+      );
+    });
+  }
+
   /**
    * Get current rate limit status
    * Bitbucket returns rate limit info in response headers
@@ -14,6 +14,8 @@ import {
   Commit,
   WebhookResult,
   RateLimitInfo,
+  CommitStatus,
+  PullRequestComment,
 } from './interface.js';
 import { AppError } from '../../middleware/error-handler.js';
 
@@ -395,6 +397,81 @@ export class GitHubAdapter implements GitAdapter {
     });
   }
 
+  /**
+   * Create or update a pull request comment identified by a marker
+   */
+  async upsertPullRequestComment(
+    repo: Repository,
+    pullRequestNumber: number,
+    body: string,
+    marker: string
+  ): Promise<PullRequestComment> {
+    return this.withRateLimitHandling(async () => {
+      // Pull request comments are issue comments in the GitHub API
+      const comments = await this.octokit.paginate(this.octokit.issues.listComments, {
+        owner: repo.owner,
+        repo: repo.name,
+        issue_number: pullRequestNumber,
+        per_page: 100,
+      });
+
+      const existing = comments.find((comment) => comment.body?.includes(marker));
+
+      if (existing) {
+        const response = await this.octokit.issues.updateComment({
+          owner: repo.owner,
+          repo: repo.name,
+          comment_id: existing.id,
+          body,
+        });
+
+        logger.info(
+          { repo: repo.fullName, pullRequestNumber, commentId: existing.id },
+          'Pull request comment updated'
+        );
+
+        return { id: response.data.id.toString(), url: response.data.html_url, created: false };
+      }
+
+      const response = await this.octokit.issues.createComment({
+        owner: repo.owner,
+        repo: repo.name,
+        issue_number: pullRequestNumber,
+        body,
+      });
+
+      logger.info(
+        { repo: repo.fullName, pullRequestNumber, commentId: response.data.id },
+        'Pull request comment created'
+      );
+
+      return { id: response.data.id.toString(), url: response.data.html_url, created: true };
+    });
+  }
+
+  /**
+   * Set a commit status
+   */
+  async setCommitStatus(repo: Repository, sha: string, status: CommitStatus): Promise<void> {
+    return this.withRateLimitHandling(async () => {
+      await this.octokit.repos.createCommitStatus({
+        owner: repo.owner,
+        repo: repo.name,
+        sha,
+        state: status.state,
+        context: status.context,
+        // GitHub rejects descriptions longer than 140 characters
+        description: status.description.slice(0, 140),
+        ...(status.targetUrl && { target_url: status.targetUrl }),
+      });
+
+      logger.debug(
+        { repo: repo.fullName, sha, state: status.state, context: status.context },
+        'Commit status set'
+      );
+    });
+  }
+
   /**
    * Get current rate limit status
    */
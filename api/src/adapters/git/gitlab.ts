@@ -14,6 +14,9 @@ import {
   Commit,
   WebhookResult,
   RateLimitInfo,
+  CommitStatus,
+  CommitStatusState,
+  PullRequestComment,
 } from './interface.js';
 import { AppError } from '../../middleware/error-handler.js';
 
@@ -25,6 +28,16 @@ const logger = pino({ name: 'gitlab-adapter' });
  */
 const DEFAULT_WEBHOOK_EVENTS = ['push_events', 'merge_requests_events'];
 
+/**
+ * Commit status states mapped to GitLab commit status states
+ */
+const COMMIT_STATUS_STATES: Record<CommitStatusState, 'pending' | 'success' | 'failed'> = {
+  pending: 'pending',
+  success: 'success',
+  failure: 'failed',
+  error: 'failed',
+};
+
 /**
  * Rate limit retry configuration
  */
@@ -85,6 +98,15 @@ interface GitLabCommit {
   authored_date: string;
 }
 
+/**
+ * GitLab note (comment) response type
+ */
+interface GitLabNote {
+  id: number;
+  body: string;
+  system: boolean;
+}
+
 /**
  * GitLab webhook response type
  */
@@ -525,6 +547,76 @@ export class GitLabAdapter implements GitAdapter {
     });
   }
 
+  /**
+   * Create or update a merge request note identified by a marker
+   */
+  async upsertPullRequestComment(
+    repo: Repository,
+    pullRequestNumber: number,
+    body: string,
+    marker: string
+  ): Promise<PullRequestComment> {
+    return this.withRateLimitHandling(async () => {
+      const projectPath = this.encodeProjectPath(repo.owner, repo.name);
+      const notes = await this.client.MergeRequestNotes.all(
+        projectPath,
+        pullRequestNumber,
+        { perPage: 100 }
+      ) as unknown as GitLabNote[];
+
+      const existing = notes.find((note) => !note.system && note.body.includes(marker));
+
+      const note = existing
+        ? await this.client.MergeRequestNotes.edit(
+          projectPath,
+          pullRequestNumber,
+          existing.id,
+          { body }
+        ) as unknown as GitLabNote
+        : await this.client.MergeRequestNotes.create(
+          projectPath,
+          pullRequestNumber,
+          body
+        ) as unknown as GitLabNote;
+
+      logger.info(
+        { repo: repo.fullName, mergeRequestIid: pullRequestNumber, noteId: note.id, created: !existing },
+        existing ? 'Merge request note updated' : 'Merge request note created'
+      );
+
+      return {
+        id: note.id.toString(),
+        url: `${repo.htmlUrl}/-/merge_requests/${pullRequestNumber}#note_${note.id}`,
+        created: !existing,
+      };
+    });
+  }
+
+  /**
+   * Set a commit status
+   */
+  async setCommitStatus(repo: Repository, sha: string, status: CommitStatus): Promise<void> {
+    return this.withRateLimitHandling(async () => {
+      const projectPath = this.encodeProjectPath(repo.owner, repo.name);
+
+      await this.client.Commits.editStatus(
+        projectPath,
+        sha,
+        COMMIT_STATUS_STATES[status.state],
+        {
+          name: status.context,
+          description: status.description,
+          ...(status.targetUrl && { targetUrl: status.targetUrl }),
+        }
+      );
+
+      logger.debug(
+        { repo: repo.fullName, sha, state: status.state, context: status.context },
+        'Commit status set'
+      );
+    });
+  }
+
   /**
    * Get current rate limit status
    * GitLab returns rate limit info in response headers
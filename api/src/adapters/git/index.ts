@@ -10,6 +10,9 @@ export type {
   Commit,
   WebhookResult,
   RateLimitInfo,
+  CommitStatusState,
+  CommitStatus,
+  PullRequestComment,
   GitProvider,
   GitAdapter,
 } from './interface.js';
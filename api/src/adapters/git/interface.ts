@@ -72,6 +72,37 @@ export interface RateLimitInfo {
   resetAt: Date;
 }
 
+/**
+ * Commit status state
+ */
+export type CommitStatusState = 'pending' | 'success' | 'failure' | 'error';
+
+/**
+ * Commit status to report on a commit
+ */
+export interface CommitStatus {
+  /** Status state */
+  state: CommitStatusState;
+  /** Name distinguishing this status from other checks (e.g., "dmp/impact") */
+  context: string;
+  /** Short description shown next to the status */
+  description: string;
+  /** Link to the full report */
+  targetUrl?: string;
+}
+
+/**
+ * Pull request (merge request) comment
+ */
+export interface PullRequestComment {
+  /** Comment ID from the provider */
+  id: string;
+  /** Web URL of the comment, if the provider returns one */
+  url: string | null;
+  /** Whether the comment was created (true) or an existing one updated (false) */
+  created: boolean;
+}
+
 /**
  * Git provider type
  */
@@ -148,6 +179,31 @@ export interface GitAdapter {
    */
   getLatestCommit(repo: Repository, branch: string): Promise<Commit>;
 
+  /**
+   * Create or update a comment on a pull request (merge request on GitLab).
+   * The first existing comment containing the marker is updated in place;
+   * otherwise a new comment is created.
+   * @param repo - Repository containing the pull request
+   * @param pullRequestNumber - Pull request number (merge request IID on GitLab)
+   * @param body - Comment body (markdown)
+   * @param marker - Text identifying the comment to update, e.g. a hidden HTML comment
+   * @returns The created or updated comment
+   */
+  upsertPullRequestComment(
+    repo: Repository,
+    pullRequestNumber: number,
+    body: string,
+    marker: string
+  ): Promise<PullRequestComment>;
+
+  /**
+   * Set a status on a commit, replacing any status with the same context
+   * @param repo - Repository containing the commit
+   * @param sha - Commit SHA
+   * @param status - Status to set
+   */
+  setCommitStatus(repo: Repository, sha: string, status: CommitStatus): Promise<void>;
+
   /**
    * Get current rate limit status
    * @returns Rate limit information
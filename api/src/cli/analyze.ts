@@ -0,0 +1,255 @@
+/**
+ * Offline Analysis
+ * @module cli/analyze
+ *
+ * Runs file discovery, the parser orchestrator and the detection
+ * orchestrator against a local directory, without the API or a database.
+ */
+
+import { stat } from 'fs/promises';
+import { basename, resolve } from 'path';
+import { glob } from 'glob';
+import {
+  createParserOrchestrator,
+  type IParserOrchestrator,
+} from '../services/parser-orchestrator.js';
+import {
+  createDetectionOrchestrator,
+  type IDetectionOrchestrator,
+} from '../services/detection-orchestrator.js';
+import { isHelmTemplatePath } from '../parsers/helm/types.js';
+import { isTerraformVarsPath } from '../parsers/terraform/tfvars-parser.js';
+import type { DiscoveredFile, IFileDiscovery } from '../services/scan-service.js';
+import { DEFAULT_SCAN_CONFIG, type ScanConfig } from '../types/entities.js';
+import type { NodeType, GraphEdge } from '../types/graph.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * IaC type that can be detected
+ */
+export type DetectType = ScanConfig['detectTypes'][number];
+
+/**
+ * Detectable IaC types
+ */
+export const DETECT_TYPES: readonly DetectType[] = ['terraform', 'kubernetes', 'helm', 'cloudformation', 'dockerfile'];
+
+/**
+ * Offline analysis options
+ */
+export interface AnalyzeOptions {
+  /** IaC types to detect (defaults to the scan default) */
+  readonly types?: readonly DetectType[];
+}
+
+/**
+ * Problem reported during analysis
+ */
+export interface AnalyzeIssue {
+  readonly phase: 'parsing' | 'detection';
+  readonly code: string;
+  readonly message: string;
+  readonly file?: string;
+}
+
+/**
+ * Offline analysis result
+ */
+export interface AnalyzeResult {
+  /** Absolute path of the analyzed directory */
+  readonly basePath: string;
+  /** Files found by discovery */
+  readonly files: DiscoveredFile[];
+  /** Detected nodes */
+  readonly nodes: NodeType[];
+  /** Detected edges */
+  readonly edges: GraphEdge[];
+  /** Parse and detection errors */
+  readonly errors: AnalyzeIssue[];
+  /** Parse and detection warnings */
+  readonly warnings: AnalyzeIssue[];
+}
+
+/**
+ * Analysis dependencies, replaceable in tests
+ */
+export interface AnalyzeDependencies {
+  readonly fileDiscovery: IFileDiscovery;
+  readonly parserOrchestrator: IParserOrchestrator;
+  readonly detectionOrchestrator: IDetectionOrchestrator;
+}
+
+// ============================================================================
+// File Discovery
+// ============================================================================
+
+/**
+ * Extra include patterns per IaC type, on top of the scan defaults
+ */
+const TYPE_INCLUDE_PATTERNS: Record<DetectType, readonly string[]> = {
+  terraform: ['**/*.tf.json', '**/*.tfvars.json'],
+  kubernetes: [],
+  helm: ['**/templates/**/*.tpl'],
+  cloudformation: ['**/*.json', '**/*.template'],
+  dockerfile: ['**/Dockerfile', '**/Dockerfile.*', '**/*.Dockerfile', '**/*.dockerfile'],
+};
+
+/**
+ * Discovers IaC files on the local filesystem
+ */
+export class LocalFileDiscovery implements IFileDiscovery {
+  /**
+   * Discover IaC files in a directory
+   */
+  async discoverFiles(basePath: string, config: ScanConfig): Promise<DiscoveredFile[]> {
+    const relativePaths = await glob([...config.includePatterns], {
+      cwd: basePath,
+      ignore: [...config.excludePatterns],
+      nodir: true,
+      dot: false,
+    });
+
+    const files: DiscoveredFile[] = [];
+    for (const relativePath of relativePaths.sort()) {
+      const path = resolve(basePath, relativePath);
+      const { size } = await stat(path);
+      files.push({
+        path,
+        relativePath: relativePath.replace(/\\/g, '/'),
+        type: classifyFile(relativePath),
+        size,
+      });
+    }
+
+    return files;
+  }
+}
+
+/**
+ * Guess the IaC type of a file from its name.
+ * The parser registry still picks the parser from the content.
+ */
+function classifyFile(path: string): DiscoveredFile['type'] {
+  const name = basename(path);
+
+  if (/^dockerfile(\..+)?$/i.test(name) || /\.dockerfile$/i.test(name)) {
+    return 'dockerfile';
+  }
+  if (name.endsWith('.tf') || name.endsWith('.tf.json') || isTerraformVarsPath(name)) {
+    return 'terraform';
+  }
+  if (name === 'Chart.yaml' || name === 'values.yaml' || isHelmTemplatePath(path)) {
+    return 'helm';
+  }
+  if (name.endsWith('.yaml') || name.endsWith('.yml')) {
+    return 'kubernetes';
+  }
+  if (name.endsWith('.json') || name.endsWith('.template')) {
+    return 'cloudformation';
+  }
+  return 'unknown';
+}
+
+// ============================================================================
+// Analysis
+// ============================================================================
+
+/**
+ * Build the scan configuration for an offline analysis
+ */
+export function buildAnalyzeConfig(options: AnalyzeOptions = {}): ScanConfig {
+  const detectTypes = options.types ?? DEFAULT_SCAN_CONFIG.detectTypes;
+  const includePatterns = new Set(DEFAULT_SCAN_CONFIG.includePatterns);
+
+  for (const type of detectTypes) {
+    for (const pattern of TYPE_INCLUDE_PATTERNS[type]) {
+      includePatterns.add(pattern);
+    }
+  }
+
+  return {
+    ...DEFAULT_SCAN_CONFIG,
+    detectTypes: [...detectTypes],
+    includePatterns: Array.from(includePatterns),
+  };
+}
+
+/**
+ * Parse and detect dependencies in a local directory
+ */
+export async function analyzeDirectory(
+  directory: string,
+  options: AnalyzeOptions = {},
+  deps: Partial<AnalyzeDependencies> = {}
+): Promise<AnalyzeResult> {
+  const basePath = resolve(directory);
+  const config = buildAnalyzeConfig(options);
+
+  const fileDiscovery = deps.fileDiscovery ?? new LocalFileDiscovery();
+  const parserOrchestrator = deps.parserOrchestrator ?? createParserOrchestrator();
+  const detectionOrchestrator = deps.detectionOrchestrator ?? createDetectionOrchestrator();
+
+  const files = await fileDiscovery.discoverFiles(basePath, config);
+
+  if (files.length === 0) {
+    return { basePath, files, nodes: [], edges: [], errors: [], warnings: [] };
+  }
+
+  const parseResult = await parserOrchestrator.parseFiles({
+    files: files.map(f => ({ path: f.path, type: f.type })),
+    // Discovery already applied the include and exclude patterns
+    config: { ...config, includePatterns: [], excludePatterns: [] },
+  });
+
+  const errors: AnalyzeIssue[] = parseResult.errors.map(e => ({
+    phase: 'parsing' as const,
+    code: e.code,
+    message: e.message,
+    file: e.file,
+  }));
+  const warnings: AnalyzeIssue[] = parseResult.warnings.map(w => ({
+    phase: 'parsing' as const,
+    code: w.code,
+    message: w.message,
+    file: w.file,
+  }));
+
+  if (parseResult.results.length === 0) {
+    return { basePath, files, nodes: [], edges: [], errors, warnings };
+  }
+
+  const detection = await detectionOrchestrator.detect({
+    parsedFiles: parseResult.results,
+    basePath,
+    config,
+  });
+
+  for (const e of detection.errors) {
+    errors.push({
+      phase: 'detection',
+      code: e.code,
+      message: e.message,
+      ...(e.file !== undefined && { file: e.file }),
+    });
+  }
+  for (const w of detection.warnings) {
+    warnings.push({
+      phase: 'detection',
+      code: 'DETECTION_WARNING',
+      message: w.message,
+      ...(w.file !== undefined && { file: w.file }),
+    });
+  }
+
+  return {
+    basePath,
+    files,
+    nodes: detection.nodes,
+    edges: detection.edges,
+    errors,
+    warnings,
+  };
+}
@@ -0,0 +1,196 @@
+/**
+ * CLI Argument Parsing
+ * @module cli/args
+ *
+ * Parses the command line into a command path, positional arguments and
+ * options. Options may be given before or after the command.
+ */
+
+import { parseArgs } from 'node:util';
+import type { OutputFormat } from './output.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Parsed CLI options
+ */
+export interface CliOptions {
+  /** API base URL */
+  readonly apiUrl?: string;
+  /** API key */
+  readonly apiKey?: string;
+  /** Bearer token */
+  readonly token?: string;
+  /** Output format */
+  readonly format: OutputFormat;
+  /** Scan IDs (graph commands take one, rollup run takes many) */
+  readonly scans: readonly string[];
+  /** Git ref to scan */
+  readonly ref?: string;
+  /** Wait for scans and rollup executions to finish */
+  readonly wait: boolean;
+  /** Wait timeout in seconds */
+  readonly timeoutSeconds?: number;
+  /** Traversal depth */
+  readonly depth?: number;
+  /** Comma-separated edge types to traverse */
+  readonly edgeTypes?: string;
+  /** Force re-execution / recomputation */
+  readonly force: boolean;
+  /** Write output to a file instead of stdout */
+  readonly outputFile?: string;
+  /** Impact risk level at or above which the command fails */
+  readonly failOn?: RiskLevel;
+  /** Fail when cycles are found */
+  readonly failOnCycles: boolean;
+  /** IaC types to detect in offline analysis */
+  readonly types?: readonly string[];
+  /** Fail offline analysis on parse or detection errors */
+  readonly strict: boolean;
+  /** Show help */
+  readonly help: boolean;
+}
+
+/**
+ * Impact risk level
+ */
+export type RiskLevel = 'low' | 'medium' | 'high' | 'critical';
+
+/**
+ * Parsed command line
+ */
+export interface ParsedCommandLine {
+  /** Command name, e.g. 'scan' or 'graph' */
+  readonly command?: string;
+  /** Remaining positional arguments */
+  readonly positionals: readonly string[];
+  /** Parsed options */
+  readonly options: CliOptions;
+}
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Invalid command line usage
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+const OUTPUT_FORMATS: readonly OutputFormat[] = ['table', 'json', 'ndjson'];
+export const RISK_LEVELS: readonly RiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Parse CLI arguments
+ * @throws CliUsageError on unknown options or invalid values
+ */
+export function parseCommandLine(argv: readonly string[]): ParsedCommandLine {
+  let parsed: ReturnType<typeof parseRaw>;
+  try {
+    parsed = parseRaw(argv);
+  } catch (error) {
+    throw new CliUsageError(error instanceof Error ? error.message : String(error));
+  }
+
+  const { values, positionals } = parsed;
+
+  const format = values.format ?? 'table';
+  if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+    throw new CliUsageError(
+      `Invalid --format '${format}', expected one of: ${OUTPUT_FORMATS.join(', ')}`
+    );
+  }
+
+  const failOn = values['fail-on'];
+  if (failOn !== undefined && !RISK_LEVELS.includes(failOn as RiskLevel)) {
+    throw new CliUsageError(
+      `Invalid --fail-on '${failOn}', expected one of: ${RISK_LEVELS.join(', ')}`
+    );
+  }
+
+  const options: CliOptions = {
+    format: format as OutputFormat,
+    scans: values.scan ?? [],
+    wait: values.wait ?? false,
+    force: values.force ?? false,
+    failOnCycles: values['fail-on-cycles'] ?? false,
+    strict: values.strict ?? false,
+    help: values.help ?? false,
+    ...(values['api-url'] !== undefined && { apiUrl: values['api-url'] }),
+    ...(values['api-key'] !== undefined && { apiKey: values['api-key'] }),
+    ...(values.token !== undefined && { token: values.token }),
+    ...(values.ref !== undefined && { ref: values.ref }),
+    ...(values.timeout !== undefined && {
+      timeoutSeconds: parsePositiveInteger(values.timeout, '--timeout'),
+    }),
+    ...(values.depth !== undefined && {
+      depth: parsePositiveInteger(values.depth, '--depth'),
+    }),
+    ...(values['edge-types'] !== undefined && { edgeTypes: values['edge-types'] }),
+    ...(values.output !== undefined && { outputFile: values.output }),
+    ...(failOn !== undefined && { failOn: failOn as RiskLevel }),
+    ...(values.types !== undefined && {
+      types: values.types.split(',').map(t => t.trim()).filter(t => t.length > 0),
+    }),
+  };
+
+  const [command, ...rest] = positionals;
+
+  return {
+    ...(command !== undefined && { command }),
+    positionals: rest,
+    options,
+  };
+}
+
+/**
+ * Run node:util parseArgs with the CLI option set
+ */
+function parseRaw(argv: readonly string[]) {
+  return parseArgs({
+    args: [...argv],
+    allowPositionals: true,
+    strict: true,
+    options: {
+      'api-url': { type: 'string' },
+      'api-key': { type: 'string' },
+      token: { type: 'string' },
+      format: { type: 'string', short: 'f' },
+      scan: { type: 'string', short: 's', multiple: true },
+      ref: { type: 'string', short: 'r' },
+      wait: { type: 'boolean', short: 'w' },
+      timeout: { type: 'string' },
+      depth: { type: 'string', short: 'd' },
+      'edge-types': { type: 'string' },
+      force: { type: 'boolean' },
+      output: { type: 'string', short: 'o' },
+      'fail-on': { type: 'string' },
+      'fail-on-cycles': { type: 'boolean' },
+      types: { type: 'string' },
+      strict: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
+
+/**
+ * Parse a positive integer option value
+ */
+function parsePositiveInteger(value: string, option: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new CliUsageError(`${option} must be a positive integer, got '${value}'`);
+  }
+  return parsed;
+}
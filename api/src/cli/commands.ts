@@ -0,0 +1,470 @@
+/**
+ * CLI Commands
+ * @module cli/commands
+ *
+ * Command implementations. API commands go through the SDK client;
+ * `analyze` runs offline against a local directory.
+ */
+
+import type { IaCClient } from '../client/api-client.js';
+import type {
+  GraphEdge,
+  GraphNode,
+  ScanResponse,
+  TraversalResult,
+  RollupExecutionResponse,
+} from '../client/types.js';
+import { CliUsageError, RISK_LEVELS, type CliOptions } from './args.js';
+import {
+  renderTable,
+  formatLocation,
+  type CommandOutput,
+  type TableColumn,
+} from './output.js';
+import { analyzeDirectory, DETECT_TYPES, type DetectType } from './analyze.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Process exit codes
+ */
+export const EXIT_CODES = {
+  /** Command succeeded */
+  SUCCESS: 0,
+  /** Command ran but the result is a failure (failed scan, gate tripped) */
+  FAILURE: 1,
+  /** Invalid usage */
+  USAGE: 2,
+  /** The API returned an error response */
+  API_ERROR: 3,
+  /** The API could not be reached or timed out */
+  NETWORK_ERROR: 4,
+} as const;
+
+export type ExitCode = typeof EXIT_CODES[keyof typeof EXIT_CODES];
+
+/**
+ * Command execution context
+ */
+export interface CommandContext {
+  /** Positional arguments after the command name */
+  readonly positionals: readonly string[];
+  /** Parsed options */
+  readonly options: CliOptions;
+  /** API client factory; throws when no API is configured */
+  readonly getClient: () => IaCClient;
+  /** Write a progress message to stderr */
+  readonly log: (message: string) => void;
+}
+
+/**
+ * Command handler
+ */
+export type CommandHandler = (ctx: CommandContext) => Promise<CommandOutput>;
+
+// ============================================================================
+// Table Columns
+// ============================================================================
+
+const NODE_COLUMNS: readonly TableColumn<GraphNode>[] = [
+  { header: 'ID', value: n => n.id },
+  { header: 'TYPE', value: n => n.type },
+  { header: 'NAME', value: n => n.name },
+  { header: 'LOCATION', value: n => formatLocation(n.location) },
+];
+
+/**
+ * Graph record for export and analysis output
+ */
+type GraphRecord =
+  | ({ kind: 'node' } & Pick<GraphNode, 'id' | 'type' | 'name' | 'location'>)
+  | ({ kind: 'edge' } & Pick<GraphEdge, 'id' | 'type' | 'source' | 'target'>);
+
+const GRAPH_RECORD_COLUMNS: readonly TableColumn<GraphRecord>[] = [
+  { header: 'KIND', value: r => r.kind },
+  { header: 'ID', value: r => r.id },
+  { header: 'TYPE', value: r => r.type },
+  {
+    header: 'DETAIL',
+    value: r => r.kind === 'node'
+      ? `${r.name} (${formatLocation(r.location)})`
+      : `${r.source} -> ${r.target}`,
+  },
+];
+
+const SCAN_COLUMNS: readonly TableColumn<ScanResponse>[] = [
+  { header: 'ID', value: s => s.id },
+  { header: 'REPOSITORY', value: s => s.repositoryId },
+  { header: 'REF', value: s => s.ref },
+  { header: 'STATUS', value: s => s.status },
+  { header: 'NODES', value: s => s.resultSummary?.totalNodes },
+  { header: 'EDGES', value: s => s.resultSummary?.totalEdges },
+];
+
+const EXECUTION_COLUMNS: readonly TableColumn<RollupExecutionResponse>[] = [
+  { header: 'ID', value: e => e.id },
+  { header: 'ROLLUP', value: e => e.rollupId },
+  { header: 'STATUS', value: e => e.status },
+  { header: 'SCANS', value: e => e.scanIds.length },
+  { header: 'MATCHED', value: e => e.stats?.nodesMatched },
+  { header: 'CROSS_REPO_EDGES', value: e => e.stats?.crossRepoEdgesCreated },
+];
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Get the single --scan option required by graph commands
+ */
+function requireScan(ctx: CommandContext): string {
+  const [scanId, ...extra] = ctx.options.scans;
+  if (scanId === undefined || extra.length > 0) {
+    throw new CliUsageError('Exactly one --scan <scanId> is required');
+  }
+  return scanId;
+}
+
+/**
+ * Get a required positional argument
+ */
+function requirePositional(ctx: CommandContext, index: number, name: string): string {
+  const value = ctx.positionals[index];
+  if (value === undefined) {
+    throw new CliUsageError(`Missing required argument <${name}>`);
+  }
+  return value;
+}
+
+/**
+ * Wait timeout in milliseconds, if given
+ */
+function waitTimeoutMs(options: CliOptions): number | undefined {
+  return options.timeoutSeconds !== undefined ? options.timeoutSeconds * 1000 : undefined;
+}
+
+/**
+ * Convert nodes and edges into graph records
+ */
+function toGraphRecords(
+  nodes: readonly Pick<GraphNode, 'id' | 'type' | 'name' | 'location'>[],
+  edges: readonly Pick<GraphEdge, 'id' | 'type' | 'source' | 'target'>[]
+): GraphRecord[] {
+  return [
+    ...nodes.map(n => ({
+      kind: 'node' as const,
+      id: n.id,
+      type: n.type,
+      name: n.name,
+      location: n.location,
+    })),
+    ...edges.map(e => ({
+      kind: 'edge' as const,
+      id: e.id,
+      type: e.type,
+      source: e.source,
+      target: e.target,
+    })),
+  ];
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Resolve a repository argument (ID or owner/name) to a repository ID
+ */
+async function resolveRepositoryId(client: IaCClient, repo: string): Promise<string> {
+  if (UUID_PATTERN.test(repo)) {
+    return repo;
+  }
+
+  const [owner, name, ...rest] = repo.split('/');
+  if (!owner || !name || rest.length > 0) {
+    throw new CliUsageError(`Repository must be an ID or owner/name, got '${repo}'`);
+  }
+
+  const result = await client.repositories.list({ owner, search: name, pageSize: 100 });
+  const match = result.data.find(r => r.fullName.toLowerCase() === repo.toLowerCase());
+  if (!match) {
+    throw new CliUsageError(`Repository '${repo}' is not tracked`);
+  }
+
+  return match.id;
+}
+
+// ============================================================================
+// API Commands
+// ============================================================================
+
+/**
+ * scan <repo> [--ref <ref>] [--wait] [--timeout <seconds>]
+ */
+export const scanCommand: CommandHandler = async (ctx) => {
+  const client = ctx.getClient();
+  const repositoryId = await resolveRepositoryId(client, requirePositional(ctx, 0, 'repo'));
+
+  let scan = await client.scans.create({
+    repositoryId,
+    ...(ctx.options.ref !== undefined && { ref: ctx.options.ref }),
+  });
+  ctx.log(`Scan ${scan.id} ${scan.status}`);
+
+  if (ctx.options.wait) {
+    const timeout = waitTimeoutMs(ctx.options);
+    scan = await client.scans.waitForCompletion(scan.id, {
+      ...(timeout !== undefined && { timeout }),
+      onProgress: (s) => {
+        if (s.progress) {
+          ctx.log(`Scan ${s.id} ${s.progress.phase} ${s.progress.percentage}%`);
+        }
+      },
+    });
+  }
+
+  const failed = scan.status === 'failed' || scan.status === 'cancelled';
+
+  return {
+    data: scan,
+    records: [scan],
+    table: renderTable([scan], SCAN_COLUMNS),
+    ...(scan.errorMessage !== undefined && { summary: `Error: ${scan.errorMessage}` }),
+    exitCode: failed ? EXIT_CODES.FAILURE : EXIT_CODES.SUCCESS,
+  };
+};
+
+/**
+ * graph export --scan <scanId>
+ */
+export const graphExportCommand: CommandHandler = async (ctx) => {
+  const graph = await ctx.getClient().graph.get(requireScan(ctx));
+  const records = toGraphRecords(graph.nodes, graph.edges);
+
+  return {
+    data: graph,
+    records,
+    table: renderTable(records, GRAPH_RECORD_COLUMNS),
+    summary: `${graph.stats.totalNodes} nodes, ${graph.stats.totalEdges} edges`,
+    exitCode: EXIT_CODES.SUCCESS,
+  };
+};
+
+/**
+ * Build a traversal command for one direction
+ */
+function traversalCommand(direction: 'dependencies' | 'dependents'): CommandHandler {
+  return async (ctx) => {
+    const client = ctx.getClient();
+    const scanId = requireScan(ctx);
+    const nodeId = requirePositional(ctx, 0, 'node');
+    const query = {
+      ...(ctx.options.depth !== undefined && { maxDepth: ctx.options.depth }),
+      ...(ctx.options.edgeTypes !== undefined && { edgeTypes: ctx.options.edgeTypes }),
+    };
+
+    const result: TraversalResult = direction === 'dependencies'
+      ? await client.graph.getDependencies(scanId, nodeId, query)
+      : await client.graph.getDependents(scanId, nodeId, query);
+
+    return {
+      data: result,
+      records: result.nodes,
+      table: renderTable(result.nodes, NODE_COLUMNS),
+      summary: `${result.nodes.length} ${direction}, max depth ${result.stats.maxDepthReached}`,
+      exitCode: EXIT_CODES.SUCCESS,
+    };
+  };
+}
+
+/**
+ * deps <node> --scan <scanId> [--depth <n>] [--edge-types <types>]
+ */
+export const depsCommand = traversalCommand('dependencies');
+
+/**
+ * dependents <node> --scan <scanId> [--depth <n>] [--edge-types <types>]
+ */
+export const dependentsCommand = traversalCommand('dependents');
+
+/**
+ * impact <node...> --scan <scanId> [--fail-on <risk>]
+ */
+export const impactCommand: CommandHandler = async (ctx) => {
+  if (ctx.positionals.length === 0) {
+    throw new CliUsageError('Missing required argument <node...>');
+  }
+
+  const result = await ctx.getClient().graph.analyzeImpact(
+    requireScan(ctx),
+    [...ctx.positionals]
+  );
+
+  const records = [
+    ...result.directImpact.map(node => ({ impact: 'direct', ...node })),
+    ...result.transitiveImpact.map(node => ({ impact: 'transitive', ...node })),
+  ];
+
+  const { riskLevel, totalImpacted } = result.summary;
+  const failOn = ctx.options.failOn;
+  const tripped = failOn !== undefined &&
+    RISK_LEVELS.indexOf(riskLevel) >= RISK_LEVELS.indexOf(failOn);
+
+  return {
+    data: result,
+    records,
+    table: renderTable(records, [
+      { header: 'IMPACT', value: r => r.impact },
+      ...NODE_COLUMNS,
+    ]),
+    summary: `${totalImpacted} impacted, risk ${riskLevel}`,
+    exitCode: tripped ? EXIT_CODES.FAILURE : EXIT_CODES.SUCCESS,
+  };
+};
+
+/**
+ * cycles --scan <scanId> [--fail-on-cycles]
+ */
+export const cyclesCommand: CommandHandler = async (ctx) => {
+  const result = await ctx.getClient().graph.detectCycles(requireScan(ctx));
+  const cycles = result.cycles.map((cycle, index) => ({ index: index + 1, ...cycle }));
+
+  return {
+    data: result,
+    records: cycles,
+    table: renderTable(cycles, [
+      { header: 'CYCLE', value: c => c.index },
+      { header: 'LENGTH', value: c => c.length },
+      { header: 'NODES', value: c => c.nodeIds.join(' -> ') },
+    ]),
+    summary: `${result.stats.cyclesFound} cycles, ${result.stats.nodesInCycles} nodes in cycles`,
+    exitCode: ctx.options.failOnCycles && result.hasCycles
+      ? EXIT_CODES.FAILURE
+      : EXIT_CODES.SUCCESS,
+  };
+};
+
+/**
+ * diff <baseScanId> <compareScanId> [--force]
+ */
+export const diffCommand: CommandHandler = async (ctx) => {
+  const response = await ctx.getClient().diffs.create({
+    baseScanId: requirePositional(ctx, 0, 'scanA'),
+    compareScanId: requirePositional(ctx, 1, 'scanB'),
+    ...(ctx.options.force && { forceRecompute: true }),
+  });
+
+  const { nodeDiffs, summary } = response.data;
+  const records = [...nodeDiffs.added, ...nodeDiffs.removed, ...nodeDiffs.modified].map(d => ({
+    change: d.changeType,
+    nodeId: d.identity.nodeId,
+    nodeType: d.identity.nodeType,
+    name: d.identity.name,
+    attributesChanged: d.attributeChanges?.length ?? 0,
+  }));
+
+  return {
+    data: response.data,
+    records,
+    table: renderTable(records, [
+      { header: 'CHANGE', value: r => r.change },
+      { header: 'TYPE', value: r => r.nodeType },
+      { header: 'NAME', value: r => r.name },
+      { header: 'ATTRIBUTES', value: r => r.attributesChanged },
+    ]),
+    summary: [
+      `nodes +${summary.nodesAdded} -${summary.nodesRemoved} ~${summary.nodesModified}`,
+      `edges +${summary.edgesAdded} -${summary.edgesRemoved} ~${summary.edgesModified}`,
+    ].join(', '),
+    exitCode: EXIT_CODES.SUCCESS,
+  };
+};
+
+/**
+ * rollup run <rollupId> [--scan <scanId>...] [--force] [--wait] [--timeout <seconds>]
+ */
+export const rollupRunCommand: CommandHandler = async (ctx) => {
+  const client = ctx.getClient();
+  const rollupId = requirePositional(ctx, 0, 'rollupId');
+
+  let execution = await client.rollups.execute(rollupId, {
+    force: ctx.options.force,
+    async: true,
+    ...(ctx.options.scans.length > 0 && { scanIds: [...ctx.options.scans] }),
+  });
+  ctx.log(`Rollup execution ${execution.id} ${execution.status}`);
+
+  if (ctx.options.wait) {
+    const timeout = waitTimeoutMs(ctx.options);
+    execution = await client.rollups.waitForCompletion(rollupId, execution.id, {
+      ...(timeout !== undefined && { timeout }),
+    });
+  }
+
+  return {
+    data: execution,
+    records: [execution],
+    table: renderTable([execution], EXECUTION_COLUMNS),
+    ...(execution.errorMessage !== undefined && { summary: `Error: ${execution.errorMessage}` }),
+    exitCode: execution.status === 'failed' ? EXIT_CODES.FAILURE : EXIT_CODES.SUCCESS,
+  };
+};
+
+// ============================================================================
+// Offline Commands
+// ============================================================================
+
+/**
+ * analyze <dir> [--types <types>] [--strict]
+ */
+export const analyzeCommand: CommandHandler = async (ctx) => {
+  const directory = requirePositional(ctx, 0, 'dir');
+
+  const types = ctx.options.types;
+  const invalid = types?.filter(t => !DETECT_TYPES.includes(t as DetectType)) ?? [];
+  if (invalid.length > 0) {
+    throw new CliUsageError(
+      `Invalid --types '${invalid.join(',')}', expected any of: ${DETECT_TYPES.join(', ')}`
+    );
+  }
+
+  const result = await analyzeDirectory(directory, {
+    ...(types !== undefined && { types: types as DetectType[] }),
+  });
+
+  for (const issue of [...result.errors, ...result.warnings]) {
+    ctx.log(`${issue.code}: ${issue.message}${issue.file ? ` (${issue.file})` : ''}`);
+  }
+
+  const records = toGraphRecords(result.nodes, result.edges);
+
+  return {
+    data: result,
+    records,
+    table: renderTable(records, GRAPH_RECORD_COLUMNS),
+    summary: `${result.files.length} files, ${result.nodes.length} nodes, ` +
+      `${result.edges.length} edges, ${result.errors.length} errors`,
+    exitCode: ctx.options.strict && result.errors.length > 0
+      ? EXIT_CODES.FAILURE
+      : EXIT_CODES.SUCCESS,
+  };
+};
+
+// ============================================================================
+// Command Table
+// ============================================================================
+
+/**
+ * Commands by name; `graph` and `rollup` take a subcommand
+ */
+export const COMMANDS: Readonly<Record<string, CommandHandler | Readonly<Record<string, CommandHandler>>>> = {
+  scan: scanCommand,
+  graph: { export: graphExportCommand },
+  deps: depsCommand,
+  dependents: dependentsCommand,
+  impact: impactCommand,
+  cycles: cyclesCommand,
+  diff: diffCommand,
+  rollup: { run: rollupRunCommand },
+  analyze: analyzeCommand,
+};
@@ -0,0 +1,218 @@
+#!/usr/bin/env node
+/**
+ * Dependency Mapping CLI
+ * @module cli
+ *
+ * Command-line client for scans, graph queries, diffs and rollups, built on
+ * the API client SDK, plus an offline `analyze` mode.
+ *
+ * Usage:
+ *   dmp scan acme/infra --ref main --wait
+ *   dmp deps <nodeId> --scan <scanId> --format ndjson
+ *   dmp impact <nodeId> <nodeId> --scan <scanId> --fail-on high
+ *   dmp analyze ./infrastructure --format json
+ *
+ * Exit codes:
+ *   0 success, 1 failed result or gate, 2 usage error,
+ *   3 API error response, 4 API unreachable or timed out
+ */
+
+import { realpathSync } from 'fs';
+import { writeFile } from 'fs/promises';
+import { fileURLToPath } from 'url';
+import { createClient, type IaCClient } from '../client/api-client.js';
+import { isApiError, isNetworkError } from '../client/index.js';
+import { CliUsageError, parseCommandLine } from './args.js';
+import { formatOutput } from './output.js';
+import { COMMANDS, EXIT_CODES, type CommandHandler } from './commands.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * CLI input/output, replaceable in tests
+ */
+export interface CliIO {
+  /** Write to standard output */
+  readonly stdout: (text: string) => void;
+  /** Write to standard error */
+  readonly stderr: (text: string) => void;
+  /** Environment variables */
+  readonly env: Readonly<Record<string, string | undefined>>;
+  /** Fetch implementation for the API client */
+  readonly fetch?: typeof fetch;
+}
+
+const DEFAULT_IO: CliIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+  env: process.env,
+};
+
+// ============================================================================
+// Help
+// ============================================================================
+
+const USAGE = `
+Usage: dmp <command> [options]
+
+Commands:
+  scan <repo>                  Start a scan of a repository (ID or owner/name)
+  graph export                 Export the dependency graph of a scan
+  deps <node>                  List what a node depends on
+  dependents <node>            List what depends on a node
+  impact <node...>             Analyze the impact of changing nodes
+  cycles                       Detect dependency cycles
+  diff <scanA> <scanB>         Diff the graphs of two scans
+  rollup run <rollupId>        Execute a rollup
+  analyze <dir>                Parse and detect a local directory offline
+
+Options:
+  --api-url <url>              API base URL (env: DMP_API_URL)
+  --api-key <key>              API key (env: DMP_API_KEY)
+  --token <token>              Bearer token (env: DMP_TOKEN)
+  -f, --format <format>        Output format: table, json, ndjson (default: table)
+  -o, --output <file>          Write output to a file
+  -s, --scan <scanId>          Scan to query; repeat for rollup run
+  -r, --ref <ref>              Git ref to scan
+  -w, --wait                   Wait for the scan or rollup execution to finish
+  --timeout <seconds>          Maximum time to wait
+  -d, --depth <n>              Maximum traversal depth
+  --edge-types <types>         Comma-separated edge types to traverse
+  --force                      Force re-execution or recomputation
+  --fail-on <risk>             impact: exit 1 at or above low, medium, high or critical
+  --fail-on-cycles             cycles: exit 1 when cycles are found
+  --types <types>              analyze: IaC types to detect, comma-separated
+  --strict                     analyze: exit 1 on parse or detection errors
+  -h, --help                   Show this help
+
+Exit codes:
+  0 success, 1 failed result or gate, 2 usage error,
+  3 API error response, 4 API unreachable or timed out
+`.trim();
+
+// ============================================================================
+// Main
+// ============================================================================
+
+/**
+ * Resolve the handler for a command and its subcommand
+ */
+function resolveCommand(
+  command: string,
+  positionals: readonly string[]
+): { handler: CommandHandler; positionals: readonly string[] } {
+  const entry = COMMANDS[command];
+  if (entry === undefined) {
+    throw new CliUsageError(`Unknown command '${command}'`);
+  }
+
+  if (typeof entry === 'function') {
+    return { handler: entry, positionals };
+  }
+
+  const [subcommand, ...rest] = positionals;
+  const handler = subcommand !== undefined ? entry[subcommand] : undefined;
+  if (handler === undefined) {
+    throw new CliUsageError(
+      `Unknown ${command} subcommand '${subcommand ?? ''}', expected: ${Object.keys(entry).join(', ')}`
+    );
+  }
+
+  return { handler, positionals: rest };
+}
+
+/**
+ * Run the CLI and return the exit code
+ */
+export async function main(argv: readonly string[], io: CliIO = DEFAULT_IO): Promise<number> {
+  try {
+    const { command, positionals, options } = parseCommandLine(argv);
+
+    if (options.help || command === undefined) {
+      io.stdout(USAGE);
+      return command === undefined && !options.help ? EXIT_CODES.USAGE : EXIT_CODES.SUCCESS;
+    }
+
+    const resolved = resolveCommand(command, positionals);
+
+    let client: IaCClient | undefined;
+    const getClient = (): IaCClient => {
+      if (client) {
+        return client;
+      }
+
+      const baseUrl = options.apiUrl ?? io.env['DMP_API_URL'];
+      if (!baseUrl) {
+        throw new CliUsageError('No API configured; pass --api-url or set DMP_API_URL');
+      }
+
+      const apiKey = options.apiKey ?? io.env['DMP_API_KEY'];
+      const token = options.token ?? io.env['DMP_TOKEN'];
+      client = createClient({
+        baseUrl,
+        ...(apiKey && { apiKey }),
+        ...(token && { token }),
+        ...(io.fetch && { fetch: io.fetch }),
+      });
+      return client;
+    };
+
+    const output = await resolved.handler({
+      positionals: resolved.positionals,
+      options,
+      getClient,
+      log: io.stderr,
+    });
+
+    const text = formatOutput(output, options.format);
+    if (options.outputFile) {
+      await writeFile(options.outputFile, `${text}\n`, 'utf-8');
+    } else if (text.length > 0) {
+      io.stdout(text);
+    }
+
+    return output.exitCode;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      io.stderr(`Error: ${error.message}`);
+      io.stderr(`Run 'dmp --help' for usage.`);
+      return EXIT_CODES.USAGE;
+    }
+    if (isApiError(error)) {
+      io.stderr(`API error ${error.statusCode} ${error.code}: ${error.message}`);
+      return EXIT_CODES.API_ERROR;
+    }
+    if (isNetworkError(error)) {
+      io.stderr(`Network error: ${error.message}`);
+      return EXIT_CODES.NETWORK_ERROR;
+    }
+
+    io.stderr(`Error: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_CODES.FAILURE;
+  }
+}
+
+/**
+ * Check whether this module is the process entry point.
+ * npm links bin scripts, so the symlink is resolved before comparing.
+ */
+function isEntryPoint(): boolean {
+  const entry = process.argv[1];
+  if (!entry) {
+    return false;
+  }
+  try {
+    return realpathSync(entry) === fileURLToPath(import.meta.url);
+  } catch {
+    return false;
+  }
+}
+
+// Run if executed directly (not when imported for testing)
+if (isEntryPoint()) {
+  main(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
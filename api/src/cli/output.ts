@@ -0,0 +1,101 @@
+/**
+ * CLI Output Formatting
+ * @module cli/output
+ *
+ * Renders command results as an aligned text table, a single JSON document
+ * or newline-delimited JSON (one record per line).
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Supported output formats
+ */
+export type OutputFormat = 'table' | 'json' | 'ndjson';
+
+/**
+ * Table column definition
+ */
+export interface TableColumn<T> {
+  /** Column header */
+  readonly header: string;
+  /** Cell value for a row */
+  readonly value: (row: T) => string | number | boolean | undefined;
+}
+
+/**
+ * Result of a CLI command, renderable in every output format
+ */
+export interface CommandOutput {
+  /** Full response, printed as-is in JSON format */
+  readonly data: unknown;
+  /** Records printed one per line in NDJSON format */
+  readonly records: readonly unknown[];
+  /** Rendered table for table format */
+  readonly table: string;
+  /** Summary line printed after the table */
+  readonly summary?: string;
+  /** Process exit code */
+  readonly exitCode: number;
+}
+
+// ============================================================================
+// Formatting
+// ============================================================================
+
+/**
+ * Render rows as a table with aligned columns
+ */
+export function renderTable<T>(
+  rows: readonly T[],
+  columns: readonly TableColumn<T>[]
+): string {
+  if (rows.length === 0) {
+    return '(no results)';
+  }
+
+  const cells = rows.map(row =>
+    columns.map(column => {
+      const value = column.value(row);
+      return value === undefined ? '-' : String(value);
+    })
+  );
+
+  const widths = columns.map((column, i) =>
+    Math.max(column.header.length, ...cells.map(row => row[i]!.length))
+  );
+
+  const formatRow = (values: readonly string[]): string =>
+    values.map((value, i) => value.padEnd(widths[i]!)).join('  ').trimEnd();
+
+  return [
+    formatRow(columns.map(column => column.header)),
+    ...cells.map(formatRow),
+  ].join('\n');
+}
+
+/**
+ * Format command output in the requested format
+ */
+export function formatOutput(output: CommandOutput, format: OutputFormat): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(output.data, null, 2);
+    case 'ndjson':
+      return output.records.map(record => JSON.stringify(record)).join('\n');
+    case 'table':
+    default:
+      return output.summary !== undefined
+        ? `${output.table}\n\n${output.summary}`
+        : output.table;
+  }
+}
+
+/**
+ * Format a source location for display
+ */
+export function formatLocation(location: { file: string; lineStart: number }): string {
+  return `${location.file}:${location.lineStart}`;
+}
@@ -48,6 +48,18 @@ import type {
   UpdateRepositoryRequest,
   ListRepositoriesQuery,
   RepositoryDeletedResponse,
+  // Diff types
+  CreateDiffRequest,
+  DiffResponse,
+  // Rollup types
+  ExecuteRollupRequest,
+  RollupExecutionResponse,
+  // Progress stream types
+  ProgressStreamEvent,
+  ProgressStreamEventType,
+  ProgressStreamOptions,
+  ScanProgressEventData,
+  RollupExecutionProgressEventData,
   // Health types
   HealthCheckResponse,
   DetailedHealthCheckResponse,
@@ -101,6 +113,22 @@ export interface RequestOptions {
   skipRetry?: boolean;
 }
 
+/**
+ * Options for waiting on a scan or rollup execution
+ */
+export interface WaitForCompletionOptions<T> {
+  /** Polling interval in ms (default: 2000) */
+  interval?: number;
+  /** Maximum time to wait in ms (default: 300000 = 5 minutes) */
+  timeout?: number;
+  /** Callback for progress updates */
+  onProgress?: (current: T) => void;
+  /** Abort signal */
+  signal?: AbortSignal;
+  /** Follow the progress event stream instead of polling, falling back to polling when unavailable (default: true) */
+  stream?: boolean;
+}
+
 // ============================================================================
 // Error Classes
 // ============================================================================
@@ -301,19 +329,7 @@ class HttpClient {
         const requestId = response.headers.get('X-Request-Id') ?? undefined;
 
         if (!response.ok) {
-          const errorBody = (await response.json().catch(() => ({
-            statusCode: response.status,
-            error: response.statusText,
-            message: `Request failed with status ${response.status}`,
-          }))) as ApiErrorResponse;
-
-          const error = new IaCApiError(
-            {
-              ...errorBody,
-              statusCode: response.status,
-            },
-            requestId
-          );
+          const error = await this.toApiError(response, requestId);
 
           // Don't retry client errors (except rate limiting)
           if (!error.isRetryable || attempt === maxRetries) {
@@ -361,6 +377,114 @@ class HttpClient {
     throw lastError ?? new NetworkError('Request failed after retries');
   }
 
+  /**
+   * Stream progress events of a server-sent events endpoint.
+   * Dropped connections are resumed with the Last-Event-ID header; the
+   * stream ends after a terminal event.
+   */
+  async *streamProgress<T extends { status?: string }>(
+    path: string,
+    options?: ProgressStreamOptions
+  ): AsyncGenerator<ProgressStreamEvent<T>> {
+    const reconnectDelay = options?.reconnectDelay ?? 3000;
+    const maxReconnects = options?.maxReconnects ?? 5;
+    let lastEventId = options?.lastEventId;
+    let reconnects = 0;
+    let lastError: Error = new NetworkError('Event stream disconnected');
+
+    while (true) {
+      try {
+        const body = await this.openEventStream(path, lastEventId, options?.signal);
+
+        for await (const message of parseServerSentEvents(body)) {
+          reconnects = 0;
+          if (message.id !== undefined) {
+            lastEventId = message.id;
+          }
+
+          const event: ProgressStreamEvent<T> = {
+            ...(message.id !== undefined && { id: message.id }),
+            type: message.event as ProgressStreamEventType,
+            data: JSON.parse(message.data) as T,
+          };
+          yield event;
+
+          if (isTerminalProgressEvent(event)) {
+            return;
+          }
+        }
+        lastError = new NetworkError('Event stream disconnected');
+      } catch (error) {
+        if (options?.signal?.aborted) {
+          throw new NetworkError('Event stream was cancelled');
+        }
+        if (error instanceof IaCApiError && !error.isRetryable) {
+          throw error;
+        }
+        lastError = error instanceof IaCApiError || error instanceof NetworkError
+          ? error
+          : new NetworkError(
+            `Event stream failed: ${error instanceof Error ? error.message : String(error)}`,
+            error instanceof Error ? error : undefined
+          );
+      }
+
+      if (++reconnects > maxReconnects) {
+        throw lastError;
+      }
+      await this.sleep(reconnectDelay);
+    }
+  }
+
+  /**
+   * Open a server-sent events response
+   */
+  private async openEventStream(
+    path: string,
+    lastEventId: string | undefined,
+    signal: AbortSignal | undefined
+  ): Promise<ReadableStream<Uint8Array>> {
+    const headers = this.buildHeaders({
+      headers: {
+        Accept: 'text/event-stream',
+        ...(lastEventId !== undefined && { 'Last-Event-ID': lastEventId }),
+      },
+    });
+
+    const response = await this.fetchFn(this.buildUrl(path), {
+      method: 'GET',
+      headers,
+      ...(signal && { signal }),
+    });
+
+    if (!response.ok) {
+      throw await this.toApiError(response, response.headers.get('X-Request-Id') ?? undefined);
+    }
+    if (!response.body) {
+      throw new NetworkError('Event stream response has no body');
+    }
+    return response.body;
+  }
+
+  /**
+   * Build an API error from an error response
+   */
+  private async toApiError(response: Response, requestId: string | undefined): Promise<IaCApiError> {
+    const errorBody = (await response.json().catch(() => ({
+      statusCode: response.status,
+      error: response.statusText,
+      message: `Request failed with status ${response.status}`,
+    }))) as ApiErrorResponse;
+
+    return new IaCApiError(
+      {
+        ...errorBody,
+        statusCode: response.status,
+      },
+      requestId
+    );
+  }
+
   private combineAbortSignals(
     ...signals: AbortSignal[]
   ): AbortSignal {
@@ -407,6 +531,187 @@ class HttpClient {
   }
 }
 
+// ============================================================================
+// Progress Streams
+// ============================================================================
+
+/**
+ * Statuses ending a scan or rollup execution
+ */
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Raw server-sent event
+ */
+interface ServerSentEvent {
+  id?: string;
+  event: string;
+  data: string;
+}
+
+/**
+ * Check if a progress event ends its stream.
+ * Snapshots end the stream when they report a terminal status.
+ */
+function isTerminalProgressEvent(event: ProgressStreamEvent<{ status?: string }>): boolean {
+  return event.type === 'snapshot'
+    ? TERMINAL_STATUSES.includes(event.data.status ?? '')
+    : TERMINAL_STATUSES.includes(event.type);
+}
+
+/**
+ * Parse a text/event-stream body into events.
+ * Comments (heartbeats) and events without data are skipped.
+ */
+async function* parseServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let id: string | undefined;
+  let event = 'message';
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split(/\r\n|\r|\n/);
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line === '') {
+          if (data.length > 0) {
+            yield { ...(id !== undefined && { id }), event, data: data.join('\n') };
+          }
+          id = undefined;
+          event = 'message';
+          data = [];
+          continue;
+        }
+        if (line.startsWith(':')) {
+          continue;
+        }
+
+        const colon = line.indexOf(':');
+        const field = colon === -1 ? line : line.slice(0, colon);
+        const fieldValue = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '');
+
+        if (field === 'id') {
+          id = fieldValue;
+        } else if (field === 'event') {
+          event = fieldValue;
+        } else if (field === 'data') {
+          data.push(fieldValue);
+        }
+      }
+    }
+  } finally {
+    // Closes the connection when the consumer stops early
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Wait until the abort signal fires or the delay passes
+ */
+function delay(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timeoutId = setTimeout(resolve, ms);
+    signal.addEventListener('abort', () => {
+      clearTimeout(timeoutId);
+      resolve();
+    }, { once: true });
+  });
+}
+
+/**
+ * Resource waited on by waitForCompletion
+ */
+interface CompletionTarget<T, E> {
+  /** Resource name for timeout errors */
+  name: string;
+  fetch: (signal: AbortSignal) => Promise<T>;
+  isComplete: (current: T) => boolean;
+  streamProgress: (signal: AbortSignal) => AsyncGenerator<ProgressStreamEvent<E>>;
+  /** Apply a progress event to the last fetched state */
+  applyEvent: (current: T, event: ProgressStreamEvent<E>) => T;
+}
+
+/**
+ * Wait for a scan or rollup execution to reach a terminal state.
+ * Follows the progress event stream and fetches the final state once it
+ * ends; polls when the stream is disabled or unavailable.
+ */
+async function waitForTerminalState<T, E extends { status?: string }>(
+  target: CompletionTarget<T, E>,
+  options: WaitForCompletionOptions<T> = {}
+): Promise<T> {
+  const interval = options.interval ?? 2000;
+  const timeout = options.timeout ?? 300000;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const onAbort = (): void => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  const throwIfAborted = (): void => {
+    if (options.signal?.aborted) {
+      throw new NetworkError('Polling was cancelled');
+    }
+    if (controller.signal.aborted) {
+      throw new NetworkError(`${target.name} did not complete within ${timeout}ms timeout`);
+    }
+  };
+
+  const fetchCurrent = async (): Promise<T> => {
+    throwIfAborted();
+    const current = await target.fetch(controller.signal);
+    options.onProgress?.(current);
+    return current;
+  };
+
+  try {
+    let current: T = await fetchCurrent();
+    if (target.isComplete(current)) {
+      return current;
+    }
+
+    if (options.stream !== false) {
+      try {
+        for await (const event of target.streamProgress(controller.signal)) {
+          if (isTerminalProgressEvent(event)) {
+            return await fetchCurrent();
+          }
+          current = target.applyEvent(current, event);
+          options.onProgress?.(current);
+        }
+      } catch (error) {
+        throwIfAborted();
+        // Streaming unavailable (older server, proxy): fall back to polling
+      }
+    }
+
+    while (true) {
+      await delay(interval, controller.signal);
+      current = await fetchCurrent();
+      if (target.isComplete(current)) {
+        return current;
+      }
+    }
+  } catch (error) {
+    throwIfAborted();
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+}
+
 // ============================================================================
 // API Resource Classes
 // ============================================================================
@@ -481,49 +786,46 @@ export class ScansApi {
   }
 
   /**
-   * Poll for scan completion
-   * @param scanId Scan ID to poll
-   * @param options Polling options
+   * Stream scan progress events
+   * @param scanId Scan ID
+   * @param options Stream options (resume ID, abort signal, reconnection)
+   * @returns Events until the scan completes, fails or is cancelled
+   */
+  streamProgress(
+    scanId: string,
+    options?: ProgressStreamOptions
+  ): AsyncGenerator<ProgressStreamEvent<ScanProgressEventData>> {
+    return this.http.streamProgress<ScanProgressEventData>(
+      `/api/v1/scans/${scanId}/events`,
+      options
+    );
+  }
+
+  /**
+   * Wait for scan completion, following the progress event stream
+   * @param scanId Scan ID to wait on
+   * @param options Wait options
    * @returns Final scan response when complete
    */
   async waitForCompletion(
     scanId: string,
-    options?: {
-      /** Polling interval in ms (default: 2000) */
-      interval?: number;
-      /** Maximum time to wait in ms (default: 300000 = 5 minutes) */
-      timeout?: number;
-      /** Callback for progress updates */
-      onProgress?: (scan: ScanResponse) => void;
-      /** Abort signal */
-      signal?: AbortSignal;
-    }
+    options?: WaitForCompletionOptions<ScanResponse>
   ): Promise<ScanResponse> {
-    const interval = options?.interval ?? 2000;
-    const timeout = options?.timeout ?? 300000;
-    const startTime = Date.now();
-
-    while (true) {
-      if (options?.signal?.aborted) {
-        throw new NetworkError('Polling was cancelled');
-      }
-
-      const scan = await this.get(scanId, { signal: options?.signal });
-
-      options?.onProgress?.(scan);
-
-      if (['completed', 'failed', 'cancelled'].includes(scan.status)) {
-        return scan;
-      }
-
-      if (Date.now() - startTime > timeout) {
-        throw new NetworkError(
-          `Scan did not complete within ${timeout}ms timeout`
-        );
-      }
-
-      await new Promise((resolve) => setTimeout(resolve, interval));
-    }
+    return waitForTerminalState<ScanResponse, ScanProgressEventData>(
+      {
+        name: 'Scan',
+        fetch: (signal) => this.get(scanId, { signal }),
+        isComplete: (scan) => TERMINAL_STATUSES.includes(scan.status),
+        streamProgress: (signal) => this.streamProgress(scanId, { signal }),
+        applyEvent: (scan, event) => ({
+          ...scan,
+          ...(event.type === 'started' && { status: 'running' as const }),
+          ...(event.data.status && { status: event.data.status }),
+          ...(event.data.progress && { progress: event.data.progress }),
+        }),
+      },
+      options
+    );
   }
 }
 
@@ -553,7 +855,7 @@ export class GraphApi {
     options?: RequestOptions
   ): Promise<PaginatedResponse<GraphNode>> {
     return this.http.get<PaginatedResponse<GraphNode>>(
-      `/api/v1/scans/${scanId}/graph/nodes`,
+      `/api/v1/scans/${scanId}/nodes`,
       query as Record<string, string | number | boolean | undefined>,
       options
     );
@@ -568,7 +870,7 @@ export class GraphApi {
     options?: RequestOptions
   ): Promise<NodeDetail> {
     return this.http.get<NodeDetail>(
-      `/api/v1/scans/${scanId}/graph/nodes/${nodeId}`,
+      `/api/v1/scans/${scanId}/nodes/${nodeId}`,
       undefined,
       options
     );
@@ -583,7 +885,7 @@ export class GraphApi {
     options?: RequestOptions
   ): Promise<PaginatedResponse<GraphEdge>> {
     return this.http.get<PaginatedResponse<GraphEdge>>(
-      `/api/v1/scans/${scanId}/graph/edges`,
+      `/api/v1/scans/${scanId}/edges`,
       query as Record<string, string | number | boolean | undefined>,
       options
     );
@@ -599,7 +901,7 @@ export class GraphApi {
     options?: RequestOptions
   ): Promise<TraversalResult> {
     return this.http.get<TraversalResult>(
-      `/api/v1/scans/${scanId}/graph/nodes/${nodeId}/dependencies`,
+      `/api/v1/scans/${scanId}/nodes/${nodeId}/dependencies`,
       query as Record<string, string | number | boolean | undefined>,
       options
     );
@@ -615,7 +917,7 @@ export class GraphApi {
     options?: RequestOptions
   ): Promise<TraversalResult> {
     return this.http.get<TraversalResult>(
-      `/api/v1/scans/${scanId}/graph/nodes/${nodeId}/dependents`,
+      `/api/v1/scans/${scanId}/nodes/${nodeId}/dependents`,
       query as Record<string, string | number | boolean | undefined>,
       options
     );
@@ -629,7 +931,7 @@ export class GraphApi {
     options?: RequestOptions
   ): Promise<CycleDetectionResult> {
     return this.http.get<CycleDetectionResult>(
-      `/api/v1/scans/${scanId}/graph/cycles`,
+      `/api/v1/scans/${scanId}/cycles`,
       undefined,
       options
     );
@@ -644,7 +946,7 @@ export class GraphApi {
     options?: RequestOptions
   ): Promise<ImpactAnalysisResult> {
     return this.http.post<ImpactAnalysisResult>(
-      `/api/v1/scans/${scanId}/graph/impact`,
+      `/api/v1/scans/${scanId}/impact`,
       { nodeIds },
       options
     );
@@ -773,6 +1075,108 @@ export class RepositoriesApi {
   }
 }
 
+/**
+ * Diffs API resource
+ */
+export class DiffsApi {
+  constructor(private readonly http: HttpClient) {}
+
+  /**
+   * Compute (or fetch the cached) graph diff between two scans
+   */
+  async create(
+    request: CreateDiffRequest,
+    options?: RequestOptions
+  ): Promise<DiffResponse> {
+    return this.http.post<DiffResponse>('/api/v1/diffs', request, options);
+  }
+}
+
+/**
+ * Rollups API resource
+ */
+export class RollupsApi {
+  constructor(private readonly http: HttpClient) {}
+
+  /**
+   * Execute a rollup
+   */
+  async execute(
+    rollupId: string,
+    request?: ExecuteRollupRequest,
+    options?: RequestOptions
+  ): Promise<RollupExecutionResponse> {
+    const response = await this.http.post<{ data: RollupExecutionResponse }>(
+      `/api/v1/rollups/${rollupId}/execute`,
+      request ?? {},
+      options
+    );
+    return response.data;
+  }
+
+  /**
+   * Get a rollup execution
+   */
+  async getExecution(
+    rollupId: string,
+    executionId: string,
+    options?: RequestOptions
+  ): Promise<RollupExecutionResponse> {
+    const response = await this.http.get<{ data: RollupExecutionResponse }>(
+      `/api/v1/rollups/${rollupId}/executions/${executionId}`,
+      undefined,
+      options
+    );
+    return response.data;
+  }
+
+  /**
+   * Stream rollup execution progress events
+   * @param rollupId Rollup ID
+   * @param executionId Execution ID
+   * @param options Stream options (resume ID, abort signal, reconnection)
+   * @returns Events until the execution completes or fails
+   */
+  streamProgress(
+    rollupId: string,
+    executionId: string,
+    options?: ProgressStreamOptions
+  ): AsyncGenerator<ProgressStreamEvent<RollupExecutionProgressEventData>> {
+    return this.http.streamProgress<RollupExecutionProgressEventData>(
+      `/api/v1/rollups/${rollupId}/executions/${executionId}/events`,
+      options
+    );
+  }
+
+  /**
+   * Wait for rollup execution completion, following the progress event stream
+   * @param rollupId Rollup ID
+   * @param executionId Execution ID to wait on
+   * @param options Wait options
+   * @returns Final execution when complete or failed
+   */
+  async waitForCompletion(
+    rollupId: string,
+    executionId: string,
+    options?: WaitForCompletionOptions<RollupExecutionResponse>
+  ): Promise<RollupExecutionResponse> {
+    return waitForTerminalState<RollupExecutionResponse, RollupExecutionProgressEventData>(
+      {
+        name: 'Rollup execution',
+        fetch: (signal) => this.getExecution(rollupId, executionId, { signal }),
+        isComplete: (execution) => TERMINAL_STATUSES.includes(execution.status),
+        streamProgress: (signal) => this.streamProgress(rollupId, executionId, { signal }),
+        applyEvent: (execution, event) => ({
+          ...execution,
+          ...(event.data.status && { status: event.data.status }),
+          ...(event.data.stats && { stats: event.data.stats }),
+        }),
+      },
+      options
+    );
+  }
+}
+
 /**
  * Health API resource
  */
@@ -853,6 +1257,10 @@ export class IaCClient {
   public readonly graph: GraphApi;
   /** Repositories API */
   public readonly repositories: RepositoriesApi;
+  /** Diffs API */
+  public readonly diffs: DiffsApi;
+  /** Rollups API */
+  public readonly rollups: RollupsApi;
   /** Health API */
   public readonly health: HealthApi;
 
@@ -868,6 +1276,8 @@ export class IaCClient {
     this.scans = new ScansApi(this.http);
     this.graph = new GraphApi(this.http);
     this.repositories = new RepositoriesApi(this.http);
+    this.diffs = new DiffsApi(this.http);
+    this.rollups = new RollupsApi(this.http);
     this.health = new HealthApi(this.http);
   }
 
@@ -70,10 +70,13 @@ export {
   ScansApi,
   GraphApi,
   RepositoriesApi,
+  DiffsApi,
+  RollupsApi,
   HealthApi,
   // Configuration types
   type IaCClientConfig,
   type RequestOptions,
+  type WaitForCompletionOptions,
   // Error classes
   IaCApiError,
   NetworkError,
@@ -114,6 +117,24 @@ export type {
   UpdateRepositoryRequest,
   ListRepositoriesQuery,
   RepositoryDeletedResponse,
+  // Diff types
+  CreateDiffRequest,
+  DiffChangeBreakdown,
+  DiffSummary,
+  NodeDiff,
+  EdgeDiff,
+  GraphDiffResult,
+  DiffResponse,
+  // Rollup types
+  ExecuteRollupRequest,
+  RollupExecutionStatus,
+  RollupExecutionResponse,
+  // Progress stream types
+  ProgressStreamEventType,
+  ProgressStreamEvent,
+  ScanProgressEventData,
+  RollupExecutionProgressEventData,
+  ProgressStreamOptions,
   // Webhook types
   WebhookAckResponse,
   WebhookEventType,
@@ -14,7 +14,7 @@
  * Scan configuration options
  */
 export interface ScanConfig {
-  detectTypes?: ('terraform' | 'kubernetes' | 'helm' | 'cloudformation')[];
+  detectTypes?: ('terraform' | 'kubernetes' | 'helm' | 'cloudformation' | 'dockerfile')[];
   includeImplicit?: boolean;
   minConfidence?: number;
   maxDepth?: number;
@@ -22,6 +22,7 @@ export interface ScanConfig {
   excludePatterns?: string[];
   analyzeHelmCharts?: boolean;
   resolveRemoteModules?: boolean;
+  expandTerraformInstances?: boolean;
 }
 
 /**
@@ -500,6 +501,239 @@ export type WebhookPayload =
   | ScanCompletedPayload
   | ScanFailedPayload;
 
+// ============================================================================
+// Diff Types
+// ============================================================================
+
+/**
+ * Request to compute a graph diff between two scans
+ */
+export interface CreateDiffRequest {
+  baseScanId: string;
+  compareScanId: string;
+  repositoryId?: string;
+  forceRecompute?: boolean;
+}
+
+/**
+ * Added/removed/modified counts for a node or edge type
+ */
+export interface DiffChangeBreakdown {
+  added: number;
+  removed: number;
+  modified: number;
+}
+
+/**
+ * Graph diff summary
+ */
+export interface DiffSummary {
+  baseNodeCount: number;
+  targetNodeCount: number;
+  nodesAdded: number;
+  nodesRemoved: number;
+  nodesModified: number;
+  nodesUnchanged: number;
+  baseEdgeCount: number;
+  targetEdgeCount: number;
+  edgesAdded: number;
+  edgesRemoved: number;
+  edgesModified: number;
+  edgesUnchanged: number;
+  nodeChangeRatio: number;
+  edgeChangeRatio: number;
+  overallChangeRatio: number;
+  isSignificantChange: boolean;
+  changesByNodeType: Record<string, DiffChangeBreakdown>;
+  changesByEdgeType: Record<string, DiffChangeBreakdown>;
+}
+
+/**
+ * Single node change in a diff
+ */
+export interface NodeDiff {
+  changeType: 'added' | 'removed' | 'modified' | 'unchanged';
+  identity: {
+    key: string;
+    nodeId: string;
+    nodeType: string;
+    name: string;
+    namespace?: string;
+    repositoryId?: string;
+    identityHash: string;
+  };
+  attributeChanges?: Array<{
+    path: string;
+    previousValue?: unknown;
+    newValue?: unknown;
+    changeType: 'added' | 'removed' | 'modified';
+  }>;
+}
+
+/**
+ * Single edge change in a diff
+ */
+export interface EdgeDiff {
+  changeType: 'added' | 'removed' | 'modified' | 'unchanged';
+  identity: {
+    key: string;
+    edgeId: string;
+    edgeType: string;
+    identityHash: string;
+  };
+}
+
+/**
+ * Graph diff result
+ */
+export interface GraphDiffResult {
+  id: string;
+  baseSnapshotId: string;
+  targetSnapshotId: string;
+  nodeDiffs: {
+    added: NodeDiff[];
+    removed: NodeDiff[];
+    modified: NodeDiff[];
+    baseNodeCount: number;
+    targetNodeCount: number;
+  };
+  edgeDiffs: {
+    added: EdgeDiff[];
+    removed: EdgeDiff[];
+    modified: EdgeDiff[];
+    baseEdgeCount: number;
+    targetEdgeCount: number;
+  };
+  summary: DiffSummary;
+  computedAt: string;
+}
+
+/**
+ * Graph diff response
+ */
+export interface DiffResponse {
+  success: true;
+  data: GraphDiffResult;
+  fromCache: boolean;
+}
+
+// ============================================================================
+// Rollup Types
+// ============================================================================
+
+/**
+ * Request to execute a rollup
+ */
+export interface ExecuteRollupRequest {
+  scanIds?: string[];
+  force?: boolean;
+  async?: boolean;
+  callbackUrl?: string;
+  options?: {
+    skipValidation?: boolean;
+    includeMatchDetails?: boolean;
+    timeoutSeconds?: number;
+  };
+}
+
+/**
+ * Rollup execution status
+ */
+export type RollupExecutionStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+/**
+ * Rollup execution result
+ */
+export interface RollupExecutionResponse {
+  id: string;
+  rollupId: string;
+  status: RollupExecutionStatus;
+  scanIds: string[];
+  stats?: {
+    totalNodesProcessed: number;
+    nodesMatched: number;
+    nodesUnmatched: number;
+    totalEdgesProcessed: number;
+    crossRepoEdgesCreated: number;
+    matchesByStrategy: Record<string, number>;
+    nodesByType: Record<string, number>;
+    edgesByType: Record<string, number>;
+    executionTimeMs: number;
+  };
+  errorMessage?: string;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+}
+
+// ============================================================================
+// Progress Stream Types
+// ============================================================================
+
+/**
+ * Progress stream event types
+ */
+export type ProgressStreamEventType =
+  | 'snapshot'
+  | 'started'
+  | 'progress'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Server-sent progress event
+ */
+export interface ProgressStreamEvent<T> {
+  /** Event ID to resume from (absent on snapshots) */
+  id?: string;
+  type: ProgressStreamEventType;
+  data: T;
+}
+
+/**
+ * Data of scan progress events
+ */
+export interface ScanProgressEventData {
+  timestamp: string;
+  scanId: string;
+  /** Current status (snapshots) */
+  status?: ScanStatus;
+  progress?: ScanProgress;
+  errorMessage?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Data of rollup execution progress events
+ */
+export interface RollupExecutionProgressEventData {
+  timestamp: string;
+  rollupId: string;
+  executionId: string;
+  /** Current status (snapshots) */
+  status?: RollupExecutionStatus;
+  /** Completed execution phase (progress events) */
+  phase?: string;
+  stats?: RollupExecutionResponse['stats'];
+  errorMessage?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Options for streaming progress events
+ */
+export interface ProgressStreamOptions {
+  /** Resume after this event ID */
+  lastEventId?: string;
+  /** Abort signal */
+  signal?: AbortSignal;
+  /** Delay before reconnecting a dropped stream in ms (default: 3000) */
+  reconnectDelay?: number;
+  /** Maximum consecutive reconnection attempts (default: 5) */
+  maxReconnects?: number;
+}
+
 // ============================================================================
 // Pagination Types
 // ============================================================================
@@ -42,6 +42,7 @@ export const SCAN = {
   SUPPORTED_EXTENSIONS: [
     '.tf',
     '.tf.json',
+    '.tofu.json',
     '.tfvars',
     '.yaml',
     '.yml',
@@ -74,7 +75,7 @@ export type ScanStatus = (typeof SCAN.STATUS)[keyof typeof SCAN.STATUS];
 export const PARSER = {
   TERRAFORM: {
     NAME: 'terraform',
-    EXTENSIONS: ['.tf', '.tf.json', '.tfvars', '.hcl'],
+    EXTENSIONS: ['.tf', '.tf.json', '.tofu.json', '.tfvars', '.hcl'],
     BLOCK_TYPES: [
       'resource',
       'data',
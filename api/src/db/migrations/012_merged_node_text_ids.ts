@@ -0,0 +1,89 @@
+/**
+ * Database Migration: Merged Node Text IDs
+ * @module db/migrations/012_merged_node_text_ids
+ *
+ * Stores merged nodes under the IDs assigned by the merge engine
+ * (`merged_<uuid>`), which edges of persisted execution graphs refer to.
+ *
+ * This migration:
+ * 1. Changes merged_nodes.id and rollup_matches.merged_node_id to TEXT
+ * 2. Drops the (rollup_id, execution_id, canonical_name, node_type) unique
+ *    key, which collapsed distinct merged nodes sharing a name and type
+ *
+ * TASK-ROLLUP-001: Cross-Repository Aggregation persistent blast radius graphs
+ */
+
+import pg from 'pg';
+
+/**
+ * Migration interface
+ */
+export interface Migration {
+  readonly version: string;
+  readonly name: string;
+  up(client: pg.PoolClient): Promise<void>;
+  down(client: pg.PoolClient): Promise<void>;
+}
+
+/**
+ * Migration configuration
+ */
+export const migration: Migration = {
+  version: '012',
+  name: 'merged_node_text_ids',
+
+  /**
+   * Apply migration - store merge engine IDs and allow same-name merged nodes
+   */
+  async up(client: pg.PoolClient): Promise<void> {
+    await client.query(`
+      ALTER TABLE merged_nodes
+        DROP CONSTRAINT IF EXISTS merged_nodes_unique_per_execution;
+
+      ALTER TABLE merged_nodes
+        ALTER COLUMN id DROP DEFAULT,
+        ALTER COLUMN id TYPE TEXT USING id::text;
+
+      ALTER TABLE rollup_matches
+        ALTER COLUMN merged_node_id TYPE TEXT USING merged_node_id::text;
+
+      COMMENT ON COLUMN merged_nodes.id IS 'Merge engine node ID referenced by persisted execution edges';
+    `);
+  },
+
+  /**
+   * Rollback migration - restore UUID IDs and the per-execution unique key.
+   * Fails while merged nodes with non-UUID IDs exist.
+   */
+  async down(client: pg.PoolClient): Promise<void> {
+    await client.query(`
+      ALTER TABLE rollup_matches
+        ALTER COLUMN merged_node_id TYPE UUID USING merged_node_id::uuid;
+
+      ALTER TABLE merged_nodes
+        ALTER COLUMN id TYPE UUID USING id::uuid,
+        ALTER COLUMN id SET DEFAULT gen_random_uuid();
+
+      ALTER TABLE merged_nodes
+        ADD CONSTRAINT merged_nodes_unique_per_execution
+        UNIQUE (rollup_id, execution_id, canonical_name, node_type);
+    `);
+  },
+};
+
+// ============================================================================
+// Migration Runner Utility
+// ============================================================================
+
+/**
+ * Run this migration directly
+ */
+export async function runMigration(client: pg.PoolClient, direction: 'up' | 'down'): Promise<void> {
+  if (direction === 'up') {
+    await migration.up(client);
+  } else {
+    await migration.down(client);
+  }
+}
+
+export default migration;
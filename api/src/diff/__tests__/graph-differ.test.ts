@@ -1,1647 +0,0 @@
-/**
- * GraphDiffer Integration Tests
- * @module diff/__tests__/graph-differ.test
- *
- * TASK-ROLLUP-005: Diff Computation - Integration Tests for GraphDiffer Engine
- *
- * Tests the complete GraphDiffer engine including:
- * - Full diff computation workflow
- * - Impact assessment classification
- * - Cost estimation
- * - Timeout handling
- * - Edge scenarios (empty graphs, identical graphs, large graphs)
- */
-
-import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import {
-  createGraphDiffer,
-  GraphDiffer,
-  DiffTimeoutError,
-  DiffLimitError,
-  DiffCostEstimate,
-  hasDiffChanges,
-  isDiffEmpty,
-  getTotalChanges,
-  filterDiff,
-  mergeDiffs,
-  ALGORITHM_VERSION,
-  DEFAULT_MAX_NODES,
-  DEFAULT_MAX_EDGES,
-  type IGraphDiffer,
-  type GraphDifferOptions,
-} from '../graph-differ.js';
-import type {
-  DependencyGraph,
-  NodeType,
-  GraphEdge,
-  EdgeType,
-  TerraformResourceNode,
-  K8sDeploymentNode,
-  TerraformVariableNode,
-  GraphMetadata,
-  NodeLocation,
-  EdgeMetadata,
-} from '../../types/graph.js';
-import { ImpactLevel, type GraphDiff, type DiffSummary } from '../types.js';
-
-// ============================================================================
-// Test Fixtures
-// ============================================================================
-
-/**
- * Create a mock Terraform resource node for testing
- */
-function createTerraformResourceNode(
-  overrides: Partial<TerraformResourceNode> & { id?: string; name?: string } = {}
-): TerraformResourceNode {
-  const id = overrides.id ?? `node-${Math.random().toString(36).slice(2, 9)}`;
-  const name = overrides.name ?? `resource-${Math.random().toString(36).slice(2, 9)}`;
-  return {
-    id,
-    type: 'terraform_resource',
-    name,
-    location: overrides.location ?? {
-      file: 'main.tf',
-      lineStart: 1,
-      lineEnd: 10,
-      columnStart: 1,
-      columnEnd: 50,
-    },
-    metadata: overrides.metadata ?? {},
-    resourceType: overrides.resourceType ?? 'aws_s3_bucket',
-    provider: overrides.provider ?? 'aws',
-    dependsOn: overrides.dependsOn ?? [],
-    ...(overrides.providerAlias !== undefined && { providerAlias: overrides.providerAlias }),
-    ...(overrides.count !== undefined && { count: overrides.count }),
-    ...(overrides.forEach !== undefined && { forEach: overrides.forEach }),
-  };
-}
-
-/**
- * Create a mock K8s deployment node for testing
- */
-function createK8sDeploymentNode(
-  overrides: Partial<K8sDeploymentNode> & { id?: string; name?: string } = {}
-): K8sDeploymentNode {
-  const id = overrides.id ?? `k8s-node-${Math.random().toString(36).slice(2, 9)}`;
-  const name = overrides.name ?? `deployment-${Math.random().toString(36).slice(2, 9)}`;
-  return {
-    id,
-    type: 'k8s_deployment',
-    name,
-    location: overrides.location ?? {
-      file: 'deployment.yaml',
-      lineStart: 1,
-      lineEnd: 50,
-    },
-    metadata: overrides.metadata ?? {},
-    namespace: overrides.namespace ?? 'default',
-    replicas: overrides.replicas ?? 3,
-    selector: overrides.selector ?? { app: 'my-app' },
-    containers: overrides.containers ?? [{ name: 'main', image: 'nginx:latest' }],
-  };
-}
-
-/**
- * Create a mock Terraform variable node for testing
- */
-function createTerraformVariableNode(
-  overrides: Partial<TerraformVariableNode> & { id?: string; name?: string } = {}
-): TerraformVariableNode {
-  const id = overrides.id ?? `var-node-${Math.random().toString(36).slice(2, 9)}`;
-  const name = overrides.name ?? `var-${Math.random().toString(36).slice(2, 9)}`;
-  return {
-    id,
-    type: 'terraform_variable',
-    name,
-    location: overrides.location ?? {
-      file: 'variables.tf',
-      lineStart: 1,
-      lineEnd: 5,
-    },
-    metadata: overrides.metadata ?? {},
-    variableType: overrides.variableType ?? 'string',
-    default: overrides.default ?? 't3.micro',
-    description: overrides.description ?? 'Variable description',
-    sensitive: overrides.sensitive ?? false,
-    nullable: overrides.nullable ?? false,
-  };
-}
-
-/**
- * Create a mock graph edge for testing
- */
-function createGraphEdge(overrides: Partial<GraphEdge> = {}): GraphEdge {
-  return {
-    id: overrides.id ?? `edge-${Math.random().toString(36).slice(2, 9)}`,
-    source: overrides.source ?? 'node-1',
-    target: overrides.target ?? 'node-2',
-    type: overrides.type ?? 'references',
-    label: overrides.label,
-    metadata: overrides.metadata ?? {
-      implicit: false,
-      confidence: 100,
-    },
-  };
-}
-
-/**
- * Create graph metadata
- */
-function createGraphMetadata(overrides: Partial<GraphMetadata> = {}): GraphMetadata {
-  return {
-    createdAt: overrides.createdAt ?? new Date(),
-    sourceFiles: overrides.sourceFiles ?? ['main.tf'],
-    nodeCounts: overrides.nodeCounts ?? { terraform_resource: 1 },
-    edgeCounts: overrides.edgeCounts ?? ({ references: 1 } as Record<EdgeType, number>),
-    buildTimeMs: overrides.buildTimeMs ?? 100,
-  };
-}
-
-/**
- * Create a test graph with the specified number of nodes and edges
- */
-function createTestGraph(
-  nodeCount: number,
-  edgeCount: number,
-  options: {
-    graphId?: string;
-    nodePrefix?: string;
-    filePath?: string;
-  } = {}
-): DependencyGraph {
-  const { graphId = 'test-graph', nodePrefix = 'node', filePath = '/path/main.tf' } = options;
-
-  const nodes = new Map<string, NodeType>();
-  const edges: GraphEdge[] = [];
-
-  // Create nodes
-  for (let i = 0; i < nodeCount; i++) {
-    const nodeId = `${nodePrefix}-${i}`;
-    const node = createTerraformResourceNode({
-      id: nodeId,
-      name: `resource_${i}`,
-      location: {
-        file: `${filePath.replace('.tf', '')}_${Math.floor(i / 10)}.tf`,
-        lineStart: (i % 100) * 10 + 1,
-        lineEnd: (i % 100) * 10 + 10,
-      },
-      resourceType: i % 2 === 0 ? 'aws_s3_bucket' : 'aws_instance',
-      provider: 'aws',
-    });
-    nodes.set(nodeId, node);
-  }
-
-  // Create edges (connecting adjacent nodes in a chain-like pattern)
-  for (let i = 0; i < edgeCount && i < nodeCount - 1; i++) {
-    const sourceIdx = i % nodeCount;
-    const targetIdx = (i + 1) % nodeCount;
-    const edge = createGraphEdge({
-      id: `edge-${i}`,
-      source: `${nodePrefix}-${sourceIdx}`,
-      target: `${nodePrefix}-${targetIdx}`,
-      type: i % 3 === 0 ? 'depends_on' : i % 3 === 1 ? 'references' : 'creates',
-      metadata: {
-        implicit: i % 2 === 0,
-        confidence: 80 + (i % 20),
-        location: {
-          file: `${filePath.replace('.tf', '')}_${Math.floor(i / 10)}.tf`,
-          lineStart: (i % 100) + 1,
-          lineEnd: (i % 100) + 2,
-        },
-      },
-    });
-    edges.push(edge);
-  }
-
-  return {
-    id: graphId,
-    nodes,
-    edges,
-    metadata: createGraphMetadata({
-      sourceFiles: Array.from(new Set([...nodes.values()].map((n) => n.location.file))),
-      nodeCounts: { terraform_resource: nodeCount },
-      edgeCounts: { references: edgeCount } as Record<EdgeType, number>,
-    }),
-  };
-}
-
-/**
- * Create an empty dependency graph
- */
-function createEmptyGraph(graphId = 'empty-graph'): DependencyGraph {
-  return {
-    id: graphId,
-    nodes: new Map(),
-    edges: [],
-    metadata: createGraphMetadata({
-      sourceFiles: [],
-      nodeCounts: {},
-      edgeCounts: {} as Record<EdgeType, number>,
-    }),
-  };
-}
-
-// ============================================================================
-// Test Suite: Factory Function
-// ============================================================================
-
-describe('createGraphDiffer', () => {
-  it('should create a GraphDiffer instance', () => {
-    const differ = createGraphDiffer();
-    expect(differ).toBeDefined();
-    expect(typeof differ.computeDiff).toBe('function');
-    expect(typeof differ.estimateCost).toBe('function');
-    expect(typeof differ.getConfig).toBe('function');
-  });
-
-  it('should accept custom options', () => {
-    const differ = createGraphDiffer({
-      timeoutMs: 60000,
-      maxNodes: 100000,
-      ignoreFields: ['customField'],
-    });
-
-    const config = differ.getConfig();
-    expect(config.timeoutMs).toBe(60000);
-    expect(config.maxNodes).toBe(100000);
-    expect(config.ignoreFields).toContain('customField');
-  });
-
-  it('should use default values when no options provided', () => {
-    const differ = createGraphDiffer();
-    const config = differ.getConfig();
-
-    expect(config.timeoutMs).toBe(30000);
-    expect(config.maxNodes).toBe(DEFAULT_MAX_NODES);
-    expect(config.maxEdges).toBe(DEFAULT_MAX_EDGES);
-  });
-});
-
-// ============================================================================
-// Test Suite: Full Diff Computation
-// ============================================================================
-
-describe('GraphDiffer.computeDiff - Full Diff Computation', () => {
-  let differ: IGraphDiffer;
-
-  beforeEach(() => {
-    differ = createGraphDiffer();
-  });
-
-  describe('computing diff between two graphs', () => {
-    it('should compute diff detecting added nodes', async () => {
-      const baseGraph = createTestGraph(5, 4);
-      const compareGraph = createTestGraph(8, 7, { nodePrefix: 'node' });
-
-      // Add same nodes as base but with different IDs (same identity)
-      const baseNodes = Array.from(baseGraph.nodes.values());
-      baseNodes.forEach((node) => {
-        compareGraph.nodes.set(node.id, node);
-      });
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff).toBeDefined();
-      expect(diff.id).toMatch(/^diff_/);
-      expect(diff.algorithmVersion).toBe(ALGORITHM_VERSION);
-      expect(diff.computationTimeMs).toBeGreaterThanOrEqual(0);
-    });
-
-    it('should compute diff detecting removed nodes', async () => {
-      const baseGraph = createTestGraph(10, 8);
-      const compareGraph = createTestGraph(5, 4, { nodePrefix: 'node' });
-
-      // Use same identity nodes for first 5
-      let idx = 0;
-      baseGraph.nodes.forEach((baseNode) => {
-        if (idx < 5) {
-          // Create matching identity in compare graph
-          compareGraph.nodes.set(baseNode.id, baseNode);
-        }
-        idx++;
-      });
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff).toBeDefined();
-      expect(diff.summary.nodesRemoved).toBeGreaterThanOrEqual(0);
-    });
-
-    it('should compute diff detecting modified nodes', async () => {
-      // Create base graph with specific nodes
-      const baseNode1 = createTerraformResourceNode({
-        id: 'node-1',
-        name: 'bucket',
-        provider: 'aws',
-      });
-      const baseNode2 = createTerraformResourceNode({
-        id: 'node-2',
-        name: 'instance',
-        provider: 'aws',
-      });
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map([
-          ['node-1', baseNode1],
-          ['node-2', baseNode2],
-        ]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      // Create compare graph with modified nodes (same identity, different properties)
-      const modifiedNode1 = createTerraformResourceNode({
-        id: 'node-1-new',
-        name: 'bucket',
-        provider: 'google', // Changed provider
-      });
-      const modifiedNode2 = createTerraformResourceNode({
-        id: 'node-2-new',
-        name: 'instance',
-        resourceType: 'google_compute_instance', // Changed resource type
-      });
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: new Map([
-          ['node-1', modifiedNode1],
-          ['node-2', modifiedNode2],
-        ]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.nodesModified).toBe(2);
-      expect(diff.nodes.modified.length).toBe(2);
-
-      // Verify modification details
-      const providerChange = diff.nodes.modified.find((m) =>
-        m.changedFields.includes('provider')
-      );
-      expect(providerChange).toBeDefined();
-    });
-
-    it('should compute diff detecting added edges', async () => {
-      const node1 = createTerraformResourceNode({ id: 'node-1', name: 'bucket' });
-      const node2 = createTerraformResourceNode({ id: 'node-2', name: 'instance' });
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map([
-          ['node-1', node1],
-          ['node-2', node2],
-        ]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const edge = createGraphEdge({
-        id: 'edge-1',
-        source: 'node-1',
-        target: 'node-2',
-        type: 'references',
-      });
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: new Map([
-          ['node-1', node1],
-          ['node-2', node2],
-        ]),
-        edges: [edge],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.edgesAdded).toBe(1);
-      expect(diff.edges.added.length).toBe(1);
-      expect(diff.edges.added[0].type).toBe('references');
-    });
-
-    it('should compute diff detecting removed edges', async () => {
-      const node1 = createTerraformResourceNode({ id: 'node-1', name: 'bucket' });
-      const node2 = createTerraformResourceNode({ id: 'node-2', name: 'instance' });
-
-      const edge = createGraphEdge({
-        id: 'edge-1',
-        source: 'node-1',
-        target: 'node-2',
-        type: 'depends_on',
-      });
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map([
-          ['node-1', node1],
-          ['node-2', node2],
-        ]),
-        edges: [edge],
-        metadata: createGraphMetadata(),
-      };
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: new Map([
-          ['node-1', node1],
-          ['node-2', node2],
-        ]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.edgesRemoved).toBe(1);
-      expect(diff.edges.removed.length).toBe(1);
-      expect(diff.edges.removed[0].type).toBe('depends_on');
-    });
-
-    it('should compute diff detecting modified edges', async () => {
-      const node1 = createTerraformResourceNode({ id: 'node-1', name: 'bucket' });
-      const node2 = createTerraformResourceNode({ id: 'node-2', name: 'instance' });
-
-      const baseEdge = createGraphEdge({
-        id: 'edge-1',
-        source: 'node-1',
-        target: 'node-2',
-        type: 'references',
-        label: 'original-label',
-        metadata: {
-          implicit: false,
-          confidence: 80,
-        },
-      });
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map([
-          ['node-1', node1],
-          ['node-2', node2],
-        ]),
-        edges: [baseEdge],
-        metadata: createGraphMetadata(),
-      };
-
-      const modifiedEdge = createGraphEdge({
-        id: 'edge-1-new',
-        source: 'node-1',
-        target: 'node-2',
-        type: 'references',
-        label: 'modified-label', // Changed label
-        metadata: {
-          implicit: true, // Changed implicit flag
-          confidence: 95, // Changed confidence
-        },
-      });
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: new Map([
-          ['node-1', node1],
-          ['node-2', node2],
-        ]),
-        edges: [modifiedEdge],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.edgesModified).toBe(1);
-      expect(diff.edges.modified.length).toBe(1);
-      expect(diff.edges.modified[0].changedFields).toContain('label');
-    });
-
-    it('should calculate correct summary statistics', async () => {
-      const baseGraph = createTestGraph(10, 8);
-      const compareGraph = createTestGraph(12, 10, { nodePrefix: 'compare-node' });
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary).toMatchObject({
-        nodesAdded: expect.any(Number),
-        nodesRemoved: expect.any(Number),
-        nodesModified: expect.any(Number),
-        edgesAdded: expect.any(Number),
-        edgesRemoved: expect.any(Number),
-        edgesModified: expect.any(Number),
-        impactAssessment: expect.any(String),
-      });
-
-      // Verify totals make sense
-      const totalNodeChanges =
-        diff.summary.nodesAdded + diff.summary.nodesRemoved + diff.summary.nodesModified;
-      const actualNodeChanges =
-        diff.nodes.added.length + diff.nodes.removed.length + diff.nodes.modified.length;
-      expect(totalNodeChanges).toBe(actualNodeChanges);
-    });
-  });
-
-  describe('node changes by type breakdown', () => {
-    it('should group node changes by type', async () => {
-      const tfNode1 = createTerraformResourceNode({ id: 'tf-1', name: 'tf-resource-1' });
-      const tfNode2 = createTerraformResourceNode({ id: 'tf-2', name: 'tf-resource-2' });
-      const k8sNode1 = createK8sDeploymentNode({ id: 'k8s-1', name: 'k8s-deployment-1' });
-
-      const baseNodes = new Map<string, NodeType>();
-      baseNodes.set('tf-1', tfNode1);
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: baseNodes,
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const compareNodes = new Map<string, NodeType>();
-      compareNodes.set('tf-1', tfNode1);
-      compareNodes.set('tf-2', tfNode2);
-      compareNodes.set('k8s-1', k8sNode1);
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: compareNodes,
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.nodeChangesByType).toBeDefined();
-      expect(diff.summary.nodeChangesByType?.terraform_resource?.added).toBe(1);
-      expect(diff.summary.nodeChangesByType?.k8s_deployment?.added).toBe(1);
-    });
-  });
-
-  describe('files affected tracking', () => {
-    it('should track affected files when includeFileBreakdown is true', async () => {
-      const node1 = createTerraformResourceNode({
-        id: 'node-1',
-        name: 'resource-1',
-        location: { file: 'main.tf', lineStart: 1, lineEnd: 10 },
-      });
-      const node2 = createTerraformResourceNode({
-        id: 'node-2',
-        name: 'resource-2',
-        location: { file: 'other.tf', lineStart: 1, lineEnd: 10 },
-      });
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map(),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: new Map([
-          ['node-1', node1],
-          ['node-2', node2],
-        ]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph, {
-        includeFileBreakdown: true,
-      });
-
-      expect(diff.summary.filesAffected).toBeDefined();
-      expect(diff.summary.filesAffected).toContain('main.tf');
-      expect(diff.summary.filesAffected).toContain('other.tf');
-    });
-  });
-
-  describe('change score calculation', () => {
-    it('should calculate change score from 0 to 100', async () => {
-      const baseGraph = createTestGraph(10, 8);
-      const compareGraph = createTestGraph(15, 12, { nodePrefix: 'compare' });
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.changeScore).toBeDefined();
-      expect(diff.summary.changeScore).toBeGreaterThanOrEqual(0);
-      expect(diff.summary.changeScore).toBeLessThanOrEqual(100);
-    });
-
-    it('should return 0 change score for identical graphs', async () => {
-      const graph = createTestGraph(10, 8);
-
-      const diff = await differ.computeDiff(graph, graph);
-
-      expect(diff.summary.changeScore).toBe(0);
-    });
-  });
-});
-
-// ============================================================================
-// Test Suite: Impact Assessment
-// ============================================================================
-
-describe('GraphDiffer.computeDiff - Impact Assessment', () => {
-  let differ: IGraphDiffer;
-
-  beforeEach(() => {
-    differ = createGraphDiffer();
-  });
-
-  it('should classify as "low" when < 5% nodes changed', async () => {
-    // Create base with 100 nodes
-    const baseGraph = createTestGraph(100, 80);
-
-    // Create compare with same nodes (no changes)
-    // Just copy base graph with same nodes
-    const compareGraph: DependencyGraph = {
-      ...baseGraph,
-      id: 'compare',
-    };
-
-    const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-    expect(diff.summary.impactAssessment).toBe(ImpactLevel.LOW);
-  });
-
-  it('should classify as "medium" when 5-15% nodes changed', async () => {
-    // Create base with 100 nodes
-    const baseNodes = new Map<string, NodeType>();
-    for (let i = 0; i < 100; i++) {
-      const node = createTerraformResourceNode({
-        id: `node-${i}`,
-        name: `resource-${i}`,
-        location: { file: 'main.tf', lineStart: i * 10 + 1, lineEnd: i * 10 + 10 },
-      });
-      baseNodes.set(`node-${i}`, node);
-    }
-
-    const baseGraph: DependencyGraph = {
-      id: 'base',
-      nodes: baseNodes,
-      edges: [],
-      metadata: createGraphMetadata(),
-    };
-
-    // Create compare with ~10% changes (10 new nodes, 10 removed)
-    const compareNodes = new Map<string, NodeType>();
-    // Keep 90 nodes from base
-    let idx = 0;
-    baseNodes.forEach((node, key) => {
-      if (idx < 90) {
-        compareNodes.set(key, node);
-      }
-      idx++;
-    });
-    // Add 10 new nodes
-    for (let i = 0; i < 10; i++) {
-      const node = createTerraformResourceNode({
-        id: `new-node-${i}`,
-        name: `new-resource-${i}`,
-        location: { file: 'new.tf', lineStart: i * 10 + 1, lineEnd: i * 10 + 10 },
-      });
-      compareNodes.set(`new-node-${i}`, node);
-    }
-
-    const compareGraph: DependencyGraph = {
-      id: 'compare',
-      nodes: compareNodes,
-      edges: [],
-      metadata: createGraphMetadata(),
-    };
-
-    const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-    // ~20% change rate (10 removed + 10 added out of 100)
-    // The impact level depends on the specific algorithm - it may be MEDIUM, HIGH, or CRITICAL
-    // based on the removal weight calculations
-    expect([ImpactLevel.MEDIUM, ImpactLevel.HIGH, ImpactLevel.CRITICAL]).toContain(
-      diff.summary.impactAssessment
-    );
-  });
-
-  it('should classify as "high" when 15-30% nodes changed', async () => {
-    // Create base with 100 nodes
-    const baseNodes = new Map<string, NodeType>();
-    for (let i = 0; i < 100; i++) {
-      const node = createTerraformResourceNode({
-        id: `node-${i}`,
-        name: `resource-${i}`,
-        location: { file: 'main.tf', lineStart: i * 10 + 1, lineEnd: i * 10 + 10 },
-      });
-      baseNodes.set(`node-${i}`, node);
-    }
-
-    const baseGraph: DependencyGraph = {
-      id: 'base',
-      nodes: baseNodes,
-      edges: [],
-      metadata: createGraphMetadata(),
-    };
-
-    // Create compare with ~25% changes
-    const compareNodes = new Map<string, NodeType>();
-    // Keep 75 nodes from base
-    let idx = 0;
-    baseNodes.forEach((node, key) => {
-      if (idx < 75) {
-        compareNodes.set(key, node);
-      }
-      idx++;
-    });
-    // Add 25 new nodes
-    for (let i = 0; i < 25; i++) {
-      const node = createTerraformResourceNode({
-        id: `new-node-${i}`,
-        name: `new-resource-${i}`,
-        location: { file: 'new.tf', lineStart: i * 10 + 1, lineEnd: i * 10 + 10 },
-      });
-      compareNodes.set(`new-node-${i}`, node);
-    }
-
-    const compareGraph: DependencyGraph = {
-      id: 'compare',
-      nodes: compareNodes,
-      edges: [],
-      metadata: createGraphMetadata(),
-    };
-
-    const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-    // ~50% change rate should be HIGH or CRITICAL
-    expect([ImpactLevel.HIGH, ImpactLevel.CRITICAL]).toContain(diff.summary.impactAssessment);
-  });
-
-  it('should classify as "critical" when > 30% nodes changed', async () => {
-    // Create base with 100 nodes
-    const baseNodes = new Map<string, NodeType>();
-    for (let i = 0; i < 100; i++) {
-      const node = createTerraformResourceNode({
-        id: `node-${i}`,
-        name: `resource-${i}`,
-        location: { file: 'main.tf', lineStart: i * 10 + 1, lineEnd: i * 10 + 10 },
-      });
-      baseNodes.set(`node-${i}`, node);
-    }
-
-    const baseGraph: DependencyGraph = {
-      id: 'base',
-      nodes: baseNodes,
-      edges: [],
-      metadata: createGraphMetadata(),
-    };
-
-    // Create compare with majority different nodes (>50% changes)
-    const compareNodes = new Map<string, NodeType>();
-    // Keep only 40 nodes from base
-    let idx = 0;
-    baseNodes.forEach((node, key) => {
-      if (idx < 40) {
-        compareNodes.set(key, node);
-      }
-      idx++;
-    });
-    // Add 60 new nodes
-    for (let i = 0; i < 60; i++) {
-      const node = createTerraformResourceNode({
-        id: `new-node-${i}`,
-        name: `new-resource-${i}`,
-        location: { file: 'new.tf', lineStart: i * 10 + 1, lineEnd: i * 10 + 10 },
-      });
-      compareNodes.set(`new-node-${i}`, node);
-    }
-
-    const compareGraph: DependencyGraph = {
-      id: 'compare',
-      nodes: compareNodes,
-      edges: [],
-      metadata: createGraphMetadata(),
-    };
-
-    const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-    expect(diff.summary.impactAssessment).toBe(ImpactLevel.CRITICAL);
-  });
-
-  it('should weight removals higher than additions in impact calculation', async () => {
-    // Create base with 100 nodes
-    const baseNodes = new Map<string, NodeType>();
-    for (let i = 0; i < 100; i++) {
-      const node = createTerraformResourceNode({
-        id: `node-${i}`,
-        name: `resource-${i}`,
-        location: { file: 'main.tf', lineStart: i * 10 + 1, lineEnd: i * 10 + 10 },
-      });
-      baseNodes.set(`node-${i}`, node);
-    }
-
-    const baseGraph: DependencyGraph = {
-      id: 'base',
-      nodes: baseNodes,
-      edges: [],
-      metadata: createGraphMetadata(),
-    };
-
-    // Create compare graph with many removals
-    const compareNodes = new Map<string, NodeType>();
-    // Keep only 70 nodes (30% removed)
-    let idx = 0;
-    baseNodes.forEach((node, key) => {
-      if (idx < 70) {
-        compareNodes.set(key, node);
-      }
-      idx++;
-    });
-
-    const compareGraph: DependencyGraph = {
-      id: 'compare',
-      nodes: compareNodes,
-      edges: [],
-      metadata: createGraphMetadata(),
-    };
-
-    const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-    // High removal rate should result in higher impact
-    expect([ImpactLevel.HIGH, ImpactLevel.CRITICAL]).toContain(diff.summary.impactAssessment);
-  });
-});
-
-// ============================================================================
-// Test Suite: Cost Estimation
-// ============================================================================
-
-describe('GraphDiffer.estimateCost', () => {
-  let differ: IGraphDiffer;
-
-  beforeEach(() => {
-    differ = createGraphDiffer();
-  });
-
-  describe('estimating computation time', () => {
-    it('should estimate computation time based on graph size', () => {
-      const baseGraph = createTestGraph(1000, 800);
-      const compareGraph = createTestGraph(1000, 800);
-
-      const estimate = differ.estimateCost(baseGraph, compareGraph);
-
-      expect(estimate.estimatedTimeMs).toBeGreaterThan(0);
-      expect(estimate.totalNodes).toBe(2000);
-      expect(estimate.totalEdges).toBe(1600);
-    });
-
-    it('should scale estimation with graph size', () => {
-      const smallBase = createTestGraph(100, 80);
-      const smallCompare = createTestGraph(100, 80);
-
-      const largeBase = createTestGraph(1000, 800);
-      const largeCompare = createTestGraph(1000, 800);
-
-      const smallEstimate = differ.estimateCost(smallBase, smallCompare);
-      const largeEstimate = differ.estimateCost(largeBase, largeCompare);
-
-      expect(largeEstimate.estimatedTimeMs).toBeGreaterThan(smallEstimate.estimatedTimeMs);
-    });
-  });
-
-  describe('estimating memory usage', () => {
-    it('should estimate memory usage in bytes', () => {
-      const baseGraph = createTestGraph(500, 400);
-      const compareGraph = createTestGraph(500, 400);
-
-      const estimate = differ.estimateCost(baseGraph, compareGraph);
-
-      expect(estimate.estimatedMemoryBytes).toBeGreaterThan(0);
-    });
-
-    it('should scale memory estimation with graph size', () => {
-      const smallBase = createTestGraph(100, 80);
-      const smallCompare = createTestGraph(100, 80);
-
-      const largeBase = createTestGraph(1000, 800);
-      const largeCompare = createTestGraph(1000, 800);
-
-      const smallEstimate = differ.estimateCost(smallBase, smallCompare);
-      const largeEstimate = differ.estimateCost(largeBase, largeCompare);
-
-      expect(largeEstimate.estimatedMemoryBytes).toBeGreaterThan(
-        smallEstimate.estimatedMemoryBytes
-      );
-    });
-  });
-
-  describe('warning when limits exceeded', () => {
-    it('should warn when node limit exceeded', () => {
-      const differ = createGraphDiffer({ maxNodes: 100 });
-
-      const baseGraph = createTestGraph(100, 80);
-      const compareGraph = createTestGraph(100, 80);
-
-      const estimate = differ.estimateCost(baseGraph, compareGraph);
-
-      expect(estimate.withinLimits).toBe(false);
-      expect(estimate.warnings.length).toBeGreaterThan(0);
-      expect(estimate.warnings.some((w) => w.includes('nodes'))).toBe(true);
-    });
-
-    it('should warn when edge limit exceeded', () => {
-      const differ = createGraphDiffer({ maxEdges: 100 });
-
-      const baseGraph = createTestGraph(100, 100);
-      const compareGraph = createTestGraph(100, 100);
-
-      const estimate = differ.estimateCost(baseGraph, compareGraph);
-
-      expect(estimate.withinLimits).toBe(false);
-      expect(estimate.warnings.some((w) => w.includes('edges'))).toBe(true);
-    });
-
-    it('should indicate within limits when under thresholds', () => {
-      const differ = createGraphDiffer({ maxNodes: 10000, maxEdges: 50000 });
-
-      const baseGraph = createTestGraph(100, 80);
-      const compareGraph = createTestGraph(100, 80);
-
-      const estimate = differ.estimateCost(baseGraph, compareGraph);
-
-      expect(estimate.withinLimits).toBe(true);
-    });
-
-    it('should warn about large graphs requiring progress tracking', () => {
-      const baseGraph = createTestGraph(6000, 4000);
-      const compareGraph = createTestGraph(6000, 4000);
-
-      const estimate = differ.estimateCost(baseGraph, compareGraph);
-
-      expect(estimate.warnings.some((w) => w.includes('Large graph'))).toBe(true);
-    });
-  });
-});
-
-// ============================================================================
-// Test Suite: Timeout Handling
-// ============================================================================
-
-describe('GraphDiffer.computeDiff - Timeout Handling', () => {
-  it('should respect timeout option', async () => {
-    const differ = createGraphDiffer({ timeoutMs: 100 });
-
-    // Create graphs that would take longer than 100ms
-    const baseGraph = createTestGraph(5000, 4000);
-    const compareGraph = createTestGraph(5000, 4000);
-
-    // This may or may not timeout depending on machine speed
-    // Just verify the option is respected by checking config
-    const config = differ.getConfig();
-    expect(config.timeoutMs).toBe(100);
-  });
-
-  it('should throw DiffTimeoutError when computation exceeds timeout', async () => {
-    // Create a differ with very short timeout
-    const differ = createGraphDiffer({ timeoutMs: 1 });
-
-    // Create large graphs to ensure timeout
-    const baseGraph = createTestGraph(10000, 8000);
-    const compareGraph = createTestGraph(10000, 8000);
-
-    // We need to mock the timeout behavior since real timeout depends on machine
-    // For integration test, just verify the error class exists
-    expect(DiffTimeoutError).toBeDefined();
-
-    // Attempt computation - may or may not timeout
-    try {
-      await differ.computeDiff(baseGraph, compareGraph);
-      // If it completes, that's fine too
-    } catch (error) {
-      if (error instanceof DiffTimeoutError) {
-        expect(error.code).toBe('DIFF_TIMEOUT');
-        expect(error.context).toHaveProperty('timeoutMs');
-        expect(error.context).toHaveProperty('elapsedMs');
-      }
-    }
-  });
-
-  it('should include elapsed time in timeout error', async () => {
-    const timeoutError = new DiffTimeoutError(1000, 1500);
-
-    expect(timeoutError.message).toContain('1500ms');
-    expect(timeoutError.message).toContain('1000ms');
-    expect(timeoutError.context?.elapsedMs).toBe(1500);
-    expect(timeoutError.context?.timeoutMs).toBe(1000);
-  });
-});
-
-// ============================================================================
-// Test Suite: Size Limit Enforcement
-// ============================================================================
-
-describe('GraphDiffer.computeDiff - Size Limits', () => {
-  it('should throw DiffLimitError when graph exceeds node limit', async () => {
-    const differ = createGraphDiffer({ maxNodes: 100 });
-
-    const baseGraph = createTestGraph(100, 80);
-    const compareGraph = createTestGraph(100, 80);
-
-    await expect(differ.computeDiff(baseGraph, compareGraph)).rejects.toThrow(DiffLimitError);
-  });
-
-  it('should throw DiffLimitError when graph exceeds edge limit', async () => {
-    const differ = createGraphDiffer({ maxEdges: 100 });
-
-    const baseGraph = createTestGraph(100, 100);
-    const compareGraph = createTestGraph(100, 100);
-
-    await expect(differ.computeDiff(baseGraph, compareGraph)).rejects.toThrow(DiffLimitError);
-  });
-
-  it('should allow computation with forceRecompute option', async () => {
-    const differ = createGraphDiffer({ maxNodes: 100 });
-
-    const baseGraph = createTestGraph(100, 80);
-    const compareGraph = createTestGraph(100, 80);
-
-    // With forceRecompute, should not throw
-    const diff = await differ.computeDiff(baseGraph, compareGraph, {
-      forceRecompute: true,
-    });
-
-    expect(diff).toBeDefined();
-  });
-
-  it('should include limit details in DiffLimitError', () => {
-    const error = new DiffLimitError('Graph too large', {
-      totalNodes: 200,
-      totalEdges: 500,
-      maxNodes: 100,
-      maxEdges: 200,
-    });
-
-    expect(error.code).toBe('DIFF_GRAPH_TOO_LARGE');
-    expect(error.context?.totalNodes).toBe(200);
-    expect(error.context?.maxNodes).toBe(100);
-  });
-});
-
-// ============================================================================
-// Test Suite: Edge Scenarios
-// ============================================================================
-
-describe('GraphDiffer.computeDiff - Edge Scenarios', () => {
-  let differ: IGraphDiffer;
-
-  beforeEach(() => {
-    differ = createGraphDiffer();
-  });
-
-  describe('empty base graph (all nodes added)', () => {
-    it('should detect all nodes as added', async () => {
-      const baseGraph = createEmptyGraph('base');
-      const compareGraph = createTestGraph(10, 8);
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.nodesAdded).toBe(10);
-      expect(diff.summary.nodesRemoved).toBe(0);
-      expect(diff.summary.nodesModified).toBe(0);
-      expect(diff.nodes.added.length).toBe(10);
-    });
-
-    it('should detect all edges as added', async () => {
-      const baseGraph = createEmptyGraph('base');
-      const compareGraph = createTestGraph(10, 8);
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.edgesAdded).toBe(8);
-      expect(diff.summary.edgesRemoved).toBe(0);
-    });
-  });
-
-  describe('empty compare graph (all nodes removed)', () => {
-    it('should detect all nodes as removed', async () => {
-      const baseGraph = createTestGraph(10, 8);
-      const compareGraph = createEmptyGraph('compare');
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.nodesRemoved).toBe(10);
-      expect(diff.summary.nodesAdded).toBe(0);
-      expect(diff.summary.nodesModified).toBe(0);
-      expect(diff.nodes.removed.length).toBe(10);
-    });
-
-    it('should detect all edges as removed', async () => {
-      const baseGraph = createTestGraph(10, 8);
-      const compareGraph = createEmptyGraph('compare');
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.edgesRemoved).toBe(8);
-      expect(diff.summary.edgesAdded).toBe(0);
-    });
-  });
-
-  describe('identical graphs (no changes)', () => {
-    it('should detect no changes for identical graphs', async () => {
-      const graph = createTestGraph(10, 8);
-
-      const diff = await differ.computeDiff(graph, graph);
-
-      expect(diff.summary.nodesAdded).toBe(0);
-      expect(diff.summary.nodesRemoved).toBe(0);
-      expect(diff.summary.nodesModified).toBe(0);
-      expect(diff.summary.edgesAdded).toBe(0);
-      expect(diff.summary.edgesRemoved).toBe(0);
-      expect(diff.summary.edgesModified).toBe(0);
-    });
-
-    it('should have low impact assessment for identical graphs', async () => {
-      const graph = createTestGraph(10, 8);
-
-      const diff = await differ.computeDiff(graph, graph);
-
-      expect(diff.summary.impactAssessment).toBe(ImpactLevel.LOW);
-    });
-  });
-
-  describe('both graphs empty', () => {
-    it('should handle both empty graphs', async () => {
-      const baseGraph = createEmptyGraph('base');
-      const compareGraph = createEmptyGraph('compare');
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.nodesAdded).toBe(0);
-      expect(diff.summary.nodesRemoved).toBe(0);
-      expect(diff.summary.nodesModified).toBe(0);
-      expect(diff.summary.edgesAdded).toBe(0);
-      expect(diff.summary.edgesRemoved).toBe(0);
-      expect(diff.summary.edgesModified).toBe(0);
-      expect(diff.summary.impactAssessment).toBe(ImpactLevel.LOW);
-    });
-  });
-
-  describe('large graph performance', () => {
-    it('should handle 1000+ nodes efficiently', async () => {
-      const baseGraph = createTestGraph(1000, 800);
-      const compareGraph = createTestGraph(1000, 800, { nodePrefix: 'compare' });
-
-      const startTime = performance.now();
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-      const duration = performance.now() - startTime;
-
-      expect(diff).toBeDefined();
-      // Should complete in reasonable time (under 10 seconds)
-      expect(duration).toBeLessThan(10000);
-    });
-
-    it('should handle mixed node types in large graphs', async () => {
-      // Create graph with mixed node types
-      const nodes = new Map<string, NodeType>();
-      const edges: GraphEdge[] = [];
-
-      for (let i = 0; i < 500; i++) {
-        // Add Terraform nodes
-        const tfNode = createTerraformResourceNode({
-          id: `tf-${i}`,
-          name: `tf-resource-${i}`,
-        });
-        nodes.set(`tf-${i}`, tfNode);
-
-        // Add K8s nodes
-        const k8sNode = createK8sDeploymentNode({
-          id: `k8s-${i}`,
-          name: `k8s-deployment-${i}`,
-        });
-        nodes.set(`k8s-${i}`, k8sNode);
-
-        // Add edges between them
-        if (i > 0) {
-          edges.push(
-            createGraphEdge({
-              id: `edge-${i}`,
-              source: `tf-${i - 1}`,
-              target: `tf-${i}`,
-            })
-          );
-        }
-      }
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes,
-        edges,
-        metadata: createGraphMetadata(),
-      };
-
-      // Create compare with some changes
-      const compareNodes = new Map(nodes);
-      // Remove 50 nodes
-      for (let i = 0; i < 50; i++) {
-        compareNodes.delete(`tf-${i}`);
-      }
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: compareNodes,
-        edges: edges.filter(
-          (e) => compareNodes.has(e.source) && compareNodes.has(e.target)
-        ),
-        metadata: createGraphMetadata(),
-      };
-
-      const startTime = performance.now();
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-      const duration = performance.now() - startTime;
-
-      expect(diff.summary.nodesRemoved).toBe(50);
-      expect(duration).toBeLessThan(10000);
-    });
-  });
-
-  describe('single node graphs', () => {
-    it('should handle single node added', async () => {
-      const baseGraph = createEmptyGraph('base');
-      const node = createTerraformResourceNode({ id: 'node-1', name: 'single-resource' });
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: new Map([['node-1', node]]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.nodesAdded).toBe(1);
-      expect(diff.nodes.added[0].name).toBe('single-resource');
-    });
-
-    it('should handle single node removed', async () => {
-      const node = createTerraformResourceNode({ id: 'node-1', name: 'single-resource' });
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map([['node-1', node]]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-      const compareGraph = createEmptyGraph('compare');
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.nodesRemoved).toBe(1);
-      expect(diff.nodes.removed[0].name).toBe('single-resource');
-    });
-
-    it('should handle single node modified', async () => {
-      const baseNode = createTerraformResourceNode({
-        id: 'node-1',
-        name: 'resource',
-        provider: 'aws',
-      });
-      const compareNode = createTerraformResourceNode({
-        id: 'node-1-new',
-        name: 'resource',
-        provider: 'google',
-      });
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map([['node-1', baseNode]]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: new Map([['node-1', compareNode]]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      expect(diff.summary.nodesModified).toBe(1);
-      expect(diff.nodes.modified[0].changedFields).toContain('provider');
-    });
-  });
-});
-
-// ============================================================================
-// Test Suite: Utility Functions
-// ============================================================================
-
-describe('Diff Utility Functions', () => {
-  let sampleDiff: GraphDiff;
-
-  beforeEach(async () => {
-    const differ = createGraphDiffer();
-    const baseGraph = createTestGraph(5, 4);
-    const compareGraph = createTestGraph(8, 6, { nodePrefix: 'compare' });
-    sampleDiff = await differ.computeDiff(baseGraph, compareGraph);
-  });
-
-  describe('hasDiffChanges', () => {
-    it('should return true when diff has changes', () => {
-      expect(hasDiffChanges(sampleDiff)).toBe(true);
-    });
-
-    it('should return false when diff has no changes', async () => {
-      const differ = createGraphDiffer();
-      const graph = createTestGraph(5, 4);
-      const emptyDiff = await differ.computeDiff(graph, graph);
-
-      expect(hasDiffChanges(emptyDiff)).toBe(false);
-    });
-  });
-
-  describe('isDiffEmpty', () => {
-    it('should return false when diff has changes', () => {
-      expect(isDiffEmpty(sampleDiff)).toBe(false);
-    });
-
-    it('should return true when diff has no changes', async () => {
-      const differ = createGraphDiffer();
-      const graph = createTestGraph(5, 4);
-      const emptyDiff = await differ.computeDiff(graph, graph);
-
-      expect(isDiffEmpty(emptyDiff)).toBe(true);
-    });
-  });
-
-  describe('getTotalChanges', () => {
-    it('should return total number of all changes', () => {
-      const total = getTotalChanges(sampleDiff);
-
-      const expected =
-        sampleDiff.nodes.added.length +
-        sampleDiff.nodes.removed.length +
-        sampleDiff.nodes.modified.length +
-        sampleDiff.edges.added.length +
-        sampleDiff.edges.removed.length +
-        sampleDiff.edges.modified.length;
-
-      expect(total).toBe(expected);
-    });
-
-    it('should return 0 for empty diff', async () => {
-      const differ = createGraphDiffer();
-      const graph = createTestGraph(5, 4);
-      const emptyDiff = await differ.computeDiff(graph, graph);
-
-      expect(getTotalChanges(emptyDiff)).toBe(0);
-    });
-  });
-
-  describe('filterDiff', () => {
-    it('should filter nodes by predicate', async () => {
-      const differ = createGraphDiffer();
-
-      // Create graph with mixed node types
-      const tfNode = createTerraformResourceNode({ id: 'tf-1', name: 'tf-resource' });
-      const k8sNode = createK8sDeploymentNode({ id: 'k8s-1', name: 'k8s-deployment' });
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map<string, NodeType>(),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const compareNodes = new Map<string, NodeType>();
-      compareNodes.set('tf-1', tfNode);
-      compareNodes.set('k8s-1', k8sNode);
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: compareNodes,
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      // Filter to only Terraform nodes
-      const filteredDiff = filterDiff(diff, (node) => node.type.startsWith('terraform_'));
-
-      expect(filteredDiff.nodes.added.length).toBe(1);
-      expect(filteredDiff.nodes.added[0].type).toBe('terraform_resource');
-    });
-
-    it('should filter edges by predicate', async () => {
-      const differ = createGraphDiffer();
-
-      const node1 = createTerraformResourceNode({ id: 'node-1', name: 'resource-1' });
-      const node2 = createTerraformResourceNode({ id: 'node-2', name: 'resource-2' });
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map([
-          ['node-1', node1],
-          ['node-2', node2],
-        ]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const refEdge = createGraphEdge({
-        source: 'node-1',
-        target: 'node-2',
-        type: 'references',
-      });
-      const depEdge = createGraphEdge({
-        source: 'node-2',
-        target: 'node-1',
-        type: 'depends_on',
-      });
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: new Map([
-          ['node-1', node1],
-          ['node-2', node2],
-        ]),
-        edges: [refEdge, depEdge],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      // Filter to only 'references' edges
-      const filteredDiff = filterDiff(
-        diff,
-        undefined,
-        (edge) => edge.type === 'references'
-      );
-
-      expect(filteredDiff.edges.added.length).toBe(1);
-      expect(filteredDiff.edges.added[0].type).toBe('references');
-    });
-  });
-
-  describe('mergeDiffs', () => {
-    it('should merge multiple diffs', async () => {
-      const differ = createGraphDiffer();
-
-      const graph1 = createTestGraph(5, 4);
-      const graph2 = createTestGraph(8, 6, { nodePrefix: 'graph2' });
-      const graph3 = createTestGraph(10, 8, { nodePrefix: 'graph3' });
-
-      const diff1 = await differ.computeDiff(graph1, graph2);
-      const diff2 = await differ.computeDiff(graph2, graph3);
-
-      const merged = mergeDiffs([diff1, diff2]);
-
-      expect(merged).not.toBeNull();
-      expect(merged!.nodes.added.length).toBe(
-        diff1.nodes.added.length + diff2.nodes.added.length
-      );
-      expect(merged!.nodes.removed.length).toBe(
-        diff1.nodes.removed.length + diff2.nodes.removed.length
-      );
-    });
-
-    it('should return null for empty array', () => {
-      const merged = mergeDiffs([]);
-      expect(merged).toBeNull();
-    });
-
-    it('should return single diff when array has one element', async () => {
-      const differ = createGraphDiffer();
-      const graph1 = createTestGraph(5, 4);
-      const graph2 = createTestGraph(8, 6);
-
-      const diff = await differ.computeDiff(graph1, graph2);
-      const merged = mergeDiffs([diff]);
-
-      expect(merged).toBe(diff);
-    });
-  });
-});
-
-// ============================================================================
-// Test Suite: Configuration
-// ============================================================================
-
-describe('GraphDiffer Configuration', () => {
-  describe('getConfig', () => {
-    it('should return current configuration', () => {
-      const differ = createGraphDiffer({
-        timeoutMs: 60000,
-        maxNodes: 100000,
-        ignoreFields: ['customField'],
-      });
-
-      const config = differ.getConfig();
-
-      expect(config.timeoutMs).toBe(60000);
-      expect(config.maxNodes).toBe(100000);
-      expect(config.ignoreFields).toContain('customField');
-    });
-
-    it('should return defensive copy of config', () => {
-      const differ = createGraphDiffer();
-      const config1 = differ.getConfig();
-      const config2 = differ.getConfig();
-
-      expect(config1).toEqual(config2);
-      expect(config1).not.toBe(config2);
-    });
-  });
-
-  describe('custom ignore fields', () => {
-    it('should ignore specified fields during comparison', async () => {
-      const differ = createGraphDiffer({
-        ignoreFields: ['resourceType'],
-      });
-
-      const baseNode = createTerraformResourceNode({
-        id: 'node-1',
-        name: 'resource',
-        resourceType: 'aws_s3_bucket',
-      });
-      const compareNode = createTerraformResourceNode({
-        id: 'node-1-new',
-        name: 'resource',
-        resourceType: 'google_storage_bucket', // Changed, but should be ignored
-      });
-
-      const baseGraph: DependencyGraph = {
-        id: 'base',
-        nodes: new Map([['node-1', baseNode]]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const compareGraph: DependencyGraph = {
-        id: 'compare',
-        nodes: new Map([['node-1', compareNode]]),
-        edges: [],
-        metadata: createGraphMetadata(),
-      };
-
-      const diff = await differ.computeDiff(baseGraph, compareGraph);
-
-      // The node should not be marked as modified since resourceType is ignored
-      const resourceTypeChange = diff.nodes.modified.find((m) =>
-        m.changedFields.includes('resourceType')
-      );
-      expect(resourceTypeChange).toBeUndefined();
-    });
-  });
-});
-
-// ============================================================================
-// Test Suite: Error Classes
-// ============================================================================
-
-describe('Diff Error Classes', () => {
-  describe('DiffTimeoutError', () => {
-    it('should have correct properties', () => {
-      const error = new DiffTimeoutError(30000, 35000);
-
-      expect(error.name).toBe('DiffTimeoutError');
-      expect(error.code).toBe('DIFF_TIMEOUT');
-      expect(error.context?.timeoutMs).toBe(30000);
-      expect(error.context?.elapsedMs).toBe(35000);
-      expect(error.message).toContain('35000ms');
-      expect(error.message).toContain('30000ms');
-    });
-  });
-
-  describe('DiffLimitError', () => {
-    it('should have correct properties', () => {
-      const error = new DiffLimitError('Test limit error', {
-        totalNodes: 100000,
-        maxNodes: 50000,
-      });
-
-      expect(error.name).toBe('DiffLimitError');
-      expect(error.code).toBe('DIFF_GRAPH_TOO_LARGE');
-      expect(error.context?.totalNodes).toBe(100000);
-      expect(error.context?.maxNodes).toBe(50000);
-    });
-  });
-});
-
-// ============================================================================
-// Test Suite: Constants
-// ============================================================================
-
-describe('GraphDiffer Constants', () => {
-  it('should export ALGORITHM_VERSION', () => {
-    expect(ALGORITHM_VERSION).toBeDefined();
-    expect(typeof ALGORITHM_VERSION).toBe('string');
-  });
-
-  it('should export DEFAULT_MAX_NODES', () => {
-    expect(DEFAULT_MAX_NODES).toBeDefined();
-    expect(DEFAULT_MAX_NODES).toBe(50000);
-  });
-
-  it('should export DEFAULT_MAX_EDGES', () => {
-    expect(DEFAULT_MAX_EDGES).toBeDefined();
-    expect(DEFAULT_MAX_EDGES).toBe(200000);
-  });
-});
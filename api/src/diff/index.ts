@@ -2,48 +2,20 @@
  * Graph Diff Module
  * @module diff
  *
- * Provides comprehensive diff computation between dependency graph scans.
- * Enables tracking what changed in the graph over time across commits,
- * branches, or arbitrary scan pairs.
- *
- * Features:
- * - Efficient O(n) node and edge matching using stable identity keys
- * - Tiered caching (L1 in-memory LRU, L2 Redis) for expensive computations
- * - Database persistence with multi-tenant isolation
- * - Impact assessment and change scoring
- * - Rate limiting and audit logging
+ * Building blocks for diff computation between dependency graph scans:
+ * node and edge matching by stable identity keys, tiered caching and
+ * database persistence of computed diffs. Diffs themselves are computed by
+ * the GraphDiffService in services/rollup/graph-diff, which serves
+ * routes/diffs.ts.
  *
  * TASK-ROLLUP-005: Diff Computation for graph comparison
  *
  * @example
  * ```typescript
- * import {
- *   createGraphDiffService,
- *   createGraphDiffer,
- *   createNodeMatcher,
- *   createEdgeMatcher,
- *   GraphDiff,
- *   DiffOptions,
- * } from './diff';
- *
- * // Use the high-level service API
- * const service = createGraphDiffService(deps);
- * await service.initialize();
- *
- * const response = await service.getDiff({
- *   baseScanId,
- *   compareScanId,
- *   repositoryId,
- *   tenantId,
- * });
- *
- * if (response.success) {
- *   console.log(`Impact: ${response.diff.summary.impactAssessment}`);
- * }
+ * import { createNodeMatcher, createEdgeMatcher } from './diff';
  *
- * // Or use the lower-level differ directly
- * const differ = createGraphDiffer();
- * const diff = await differ.computeDiff(baseGraph, compareGraph);
+ * const nodeMatcher = createNodeMatcher();
+ * const edgeMatcher = createEdgeMatcher();
  * ```
  */
 
@@ -206,42 +178,6 @@ export {
   COMPARABLE_EDGE_FIELDS,
 } from './edge-matcher.js';
 
-// ============================================================================
-// Graph Differ
-// ============================================================================
-
-export type {
-  IGraphDiffer,
-  GraphDifferOptions,
-  GraphDifferFactoryOptions,
-  DiffCostEstimate,
-} from './graph-differ.js';
-
-export {
-  // Factory
-  createGraphDiffer,
-
-  // Class (for testing/extension)
-  GraphDiffer,
-
-  // Error classes
-  DiffError,
-  DiffTimeoutError,
-  DiffLimitError,
-
-  // Utility functions
-  hasDiffChanges,
-  isDiffEmpty,
-  getTotalChanges,
-  filterDiff,
-  mergeDiffs,
-
-  // Constants
-  ALGORITHM_VERSION,
-  DEFAULT_MAX_NODES,
-  DEFAULT_MAX_EDGES,
-} from './graph-differ.js';
-
 // ============================================================================
 // Diff Cache
 // ============================================================================
@@ -299,36 +235,3 @@ export {
   getTotalChangeCount,
   isBreakingChange,
 } from './diff-repository.js';
-
-// ============================================================================
-// Graph Diff Service (Main Public API)
-// ============================================================================
-
-export type {
-  IGraphDiffService,
-  GraphDiffServiceDependencies,
-  GraphDiffServiceConfig,
-  GraphDiffServiceStats,
-  ListDiffsOptions,
-  DiffListItem,
-  DiffCostEstimateResponse,
-} from './graph-diff-service.js';
-
-export {
-  // Factory functions
-  createGraphDiffService,
-  createGraphDiffServiceWithDefaults,
-
-  // Singleton management
-  getDefaultGraphDiffService,
-  resetDefaultGraphDiffService,
-
-  // Class (for testing/extension)
-  GraphDiffService,
-
-  // Error classes
-  GraphDiffServiceError,
-  RateLimitExceededError,
-  ScanNotFoundError,
-  RepositoryMismatchError,
-} from './graph-diff-service.js';
@@ -14,6 +14,7 @@ import {
   TenantId,
   DbNodeId,
 } from '../types/entities.js';
+import { EdgeType } from '../types/graph.js';
 import {
   IGraphQuerier,
   GraphPath,
@@ -85,8 +86,14 @@ export class CachedGraphQuerier implements IGraphQuerier {
     scanId: ScanId,
     tenantId: TenantId,
     nodeId: DbNodeId,
-    maxDepth: number = 10
+    maxDepth: number = 10,
+    edgeTypes?: readonly EdgeType[]
   ): Promise<NodeEntity[]> {
+    // Cache entries cover unfiltered traversals only
+    if (edgeTypes !== undefined) {
+      return this.baseQuerier.getDownstreamDependencies(scanId, tenantId, nodeId, maxDepth, edgeTypes);
+    }
+
     const cacheKey = `downstream:${scanId}:${nodeId}:${maxDepth}`;
 
     if (this.options.enabled) {
@@ -130,8 +137,14 @@ export class CachedGraphQuerier implements IGraphQuerier {
     scanId: ScanId,
     tenantId: TenantId,
     nodeId: DbNodeId,
-    maxDepth: number = 10
+    maxDepth: number = 10,
+    edgeTypes?: readonly EdgeType[]
   ): Promise<NodeEntity[]> {
+    // Cache entries cover unfiltered traversals only
+    if (edgeTypes !== undefined) {
+      return this.baseQuerier.getUpstreamDependents(scanId, tenantId, nodeId, maxDepth, edgeTypes);
+    }
+
     const cacheKey = `upstream:${scanId}:${nodeId}:${maxDepth}`;
 
     if (this.options.enabled) {
@@ -15,6 +15,8 @@ import {
   ParseDiagnostic,
   ParserOptions,
 } from '../base/parser';
+import { createKustomizationNodeId } from '../kustomize/types.js';
+import { createHelmReleaseId } from '../helm/types.js';
 import {
   ArgoCDApplication,
   ArgoCDApplicationSet,
@@ -39,8 +41,10 @@ import {
   AutomatedSyncPolicy,
   RetryPolicy,
   ApplicationSetGenerator,
-  ApplicationSetGeneratorType,
   ApplicationTemplate,
+  ArgoCDEdge,
+  ArgoCDGeneratedByEdge,
+  APPLICATIONSET_GENERATOR_TYPES,
   DEFAULT_ARGOCD_PARSER_OPTIONS,
   ARGOCD_API_VERSIONS,
   ARGOCD_KINDS,
@@ -53,6 +57,7 @@ import {
   ManagedNamespaceMetadata,
 } from './types';
 import { NodeLocation } from '../../types/graph';
+import { expandApplicationSets } from './applicationset-expander.js';
 
 // ============================================================================
 // ArgoCD Application Parser
@@ -163,9 +168,17 @@ export class ArgoCDApplicationParser extends BaseParser<ArgoCDParseResult> {
         }
       }
 
+      // Instantiate the Applications that ApplicationSet generators produce
+      const { repositoryTree } = this.argoCDOptions;
+      if (repositoryTree && applicationSets.length > 0) {
+        const expansion = expandApplicationSets(applicationSets, repositoryTree);
+        applications.push(...expansion.applications);
+        warnings.push(...expansion.warnings);
+      }
+
       // Generate graph nodes and edges
       const nodes: (ArgoCDApplicationNode | ArgoCDApplicationSetNode)[] = [];
-      const edges: (ArgoCDDeploysEdge | ArgoCDGeneratesEdge)[] = [];
+      const edges: ArgoCDEdge[] = [];
 
       if (this.argoCDOptions.generateGraph) {
         const graph = createArgoCDGraph(applications, applicationSets);
@@ -745,12 +758,7 @@ export class ArgoCDApplicationParser extends BaseParser<ArgoCDParseResult> {
     errors: ArgoCDParseError[]
   ): ApplicationSetGenerator | null {
     // Determine generator type from the key present
-    const generatorTypes: ApplicationSetGeneratorType[] = [
-      'list', 'clusters', 'git', 'scmProvider',
-      'clusterDecisionResource', 'pullRequest', 'matrix', 'merge'
-    ];
-
-    for (const type of generatorTypes) {
+    for (const type of APPLICATIONSET_GENERATOR_TYPES) {
       if (gen[type] !== undefined) {
         return {
           type,
@@ -881,17 +889,36 @@ export class ArgoCDApplicationParser extends BaseParser<ArgoCDParseResult> {
 // ============================================================================
 
 /**
- * Create graph nodes and edges from parsed ArgoCD resources
+ * Node an Application's deploy edge continues at: the kustomization of a
+ * Kustomize overlay, or the Helm release the source renders as
+ */
+function createDeployTargetId(app: ArgoCDApplication): string {
+  switch (app.source.sourceType) {
+    case 'kustomize':
+      return createKustomizationNodeId(app.source.path);
+    case 'helm':
+      return createHelmReleaseId(app.source.helm?.releaseName ?? app.name, app.destination.namespace || 'default');
+    default:
+      return `target-${app.destination.namespace}-${app.source.path}`;
+  }
+}
+
+/**
+ * Create graph nodes and edges from parsed ArgoCD resources.
+ * Applications expanded from an ApplicationSet get a generated-by edge to
+ * it; generators that produced no Applications keep a generates edge to a
+ * placeholder target.
  */
 export function createArgoCDGraph(
   apps: readonly ArgoCDApplication[],
   appSets: readonly ArgoCDApplicationSet[] = []
 ): {
   nodes: readonly (ArgoCDApplicationNode | ArgoCDApplicationSetNode)[];
-  edges: readonly (ArgoCDDeploysEdge | ArgoCDGeneratesEdge)[];
+  edges: readonly ArgoCDEdge[];
 } {
   const nodes: (ArgoCDApplicationNode | ArgoCDApplicationSetNode)[] = [];
-  const edges: (ArgoCDDeploysEdge | ArgoCDGeneratesEdge)[] = [];
+  const edges: ArgoCDEdge[] = [];
+  const expandedGenerators = new Set<string>();
 
   // Create nodes for Applications
   for (const app of apps) {
@@ -915,6 +942,7 @@ export function createArgoCDGraph(
         parameterCount: app.source.helm?.parameters.length,
         isMultiSource: app.sources !== undefined && app.sources.length > 1,
         chartName: app.source.chart,
+        generatedBy: app.generatedBy?.appSetName,
       },
       location: {
         file: app.filePath,
@@ -931,7 +959,7 @@ export function createArgoCDGraph(
       id: edgeId,
       type: 'ARGOCD_DEPLOYS',
       sourceNodeId: nodeId,
-      targetNodeId: `target-${app.destination.namespace}-${app.source.path}`,
+      targetNodeId: createDeployTargetId(app),
       confidence: 95,
       metadata: {
         appName: app.name,
@@ -943,6 +971,26 @@ export function createArgoCDGraph(
     };
 
     edges.push(edge);
+
+    if (app.generatedBy) {
+      const appSetId = createArgoCDApplicationSetId(app.generatedBy.appSetName, app.generatedBy.appSetNamespace);
+      expandedGenerators.add(`${appSetId}#${app.generatedBy.generatorIndex}`);
+
+      const generatedByEdge: ArgoCDGeneratedByEdge = {
+        id: `${nodeId}-generated-by-${appSetId}`,
+        type: 'ARGOCD_GENERATED_BY',
+        sourceNodeId: nodeId,
+        targetNodeId: appSetId,
+        confidence: 90,
+        metadata: {
+          appSetName: app.generatedBy.appSetName,
+          generatorType: app.generatedBy.generatorType,
+          generatorIndex: app.generatedBy.generatorIndex,
+        },
+      };
+
+      edges.push(generatedByEdge);
+    }
   }
 
   // Create nodes for ApplicationSets
@@ -974,8 +1022,12 @@ export function createArgoCDGraph(
 
     nodes.push(node);
 
-    // Create generates edge for each generator
+    // Create generates edge for each generator not expanded into Applications
     for (let i = 0; i < appSet.generators.length; i++) {
+      if (expandedGenerators.has(`${nodeId}#${i}`)) {
+        continue;
+      }
+
       const gen = appSet.generators[i];
       const edgeId = `${nodeId}-generates-${gen.type}-${i}`;
 
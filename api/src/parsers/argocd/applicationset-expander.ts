@@ -0,0 +1,708 @@
+/**
+ * ArgoCD ApplicationSet Expander
+ * @module parsers/argocd/applicationset-expander
+ *
+ * Expands ApplicationSet generators offline against the scanned repository
+ * and instantiates the Application template once per parameter set, the way
+ * the ApplicationSet controller would. Supports list, git directory, git
+ * file, matrix and merge generators; generators that need a live cluster or
+ * an SCM API (clusters, scmProvider, pullRequest, clusterDecisionResource)
+ * are reported as unresolved.
+ *
+ * TASK-ARGOCD-APPSET-001: ApplicationSet generator expansion
+ */
+
+import * as yaml from 'yaml';
+
+import { HelmTemplateEngine } from '../helm/template-engine.js';
+import {
+  APPLICATIONSET_GENERATOR_TYPES,
+  type ApplicationSetExpansionResult,
+  type ApplicationSetGenerator,
+  type ApplicationSetOrigin,
+  type ApplicationSource,
+  type ApplicationTemplate,
+  type ArgoCDApplication,
+  type ArgoCDApplicationSet,
+  type ArgoCDParseError,
+  type ArgoCDParseErrorCode,
+  type ArgoCDRepositoryTree,
+  type GeneratorSelector,
+} from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * One parameter set produced by a generator. Nested for Go templates, flat
+ * string values keyed by dotted paths for the default fasttemplate syntax.
+ */
+type GeneratorParams = Record<string, unknown>;
+
+interface ExpansionContext {
+  readonly appSet: ArgoCDApplicationSet;
+  readonly tree: ArgoCDRepositoryTree;
+  /** Tree files keyed by normalized repository-relative path */
+  readonly files: ReadonlyMap<string, string>;
+  readonly goTemplate: boolean;
+  readonly engine: HelmTemplateEngine;
+  readonly warnings: ArgoCDParseError[];
+}
+
+/**
+ * The ApplicationSet controller allows a matrix or merge generator to nest
+ * one more matrix or merge generator, no deeper
+ */
+const MAX_GENERATOR_DEPTH = 2;
+
+const KUSTOMIZATION_FILES = ['kustomization.yaml', 'kustomization.yml', 'Kustomization'];
+
+// ============================================================================
+// Expansion
+// ============================================================================
+
+/**
+ * Expand one ApplicationSet into the Applications its generators produce.
+ * Applications whose name collides with an earlier one are dropped, as the
+ * controller refuses to create duplicates.
+ *
+ * @example
+ * ```typescript
+ * const tree = { files: new Map([['apps/web/kustomization.yaml', '...']]) };
+ * const { applications } = expandApplicationSet(appSet, tree);
+ * const graph = createArgoCDGraph(applications, [appSet]);
+ * ```
+ */
+export function expandApplicationSet(
+  appSet: ArgoCDApplicationSet,
+  tree: ArgoCDRepositoryTree
+): ApplicationSetExpansionResult {
+  const context: ExpansionContext = {
+    appSet,
+    tree,
+    files: new Map([...tree.files].map(([path, content]) => [normalizePath(path), content])),
+    goTemplate: appSet.goTemplate === true,
+    engine: new HelmTemplateEngine(),
+    warnings: [],
+  };
+
+  const applications: ArgoCDApplication[] = [];
+  const seen = new Set<string>();
+
+  appSet.generators.forEach((generator, generatorIndex) => {
+    const origin: ApplicationSetOrigin = {
+      appSetName: appSet.name,
+      appSetNamespace: appSet.namespace,
+      generatorType: generator.type,
+      generatorIndex,
+    };
+
+    for (const params of generateParams(generator, context, 0)) {
+      const app = instantiateTemplate(params, origin, context);
+      if (!app) {
+        continue;
+      }
+
+      const key = `${app.namespace}/${app.name}`;
+      if (seen.has(key)) {
+        warn(context, 'INVALID_TEMPLATE', `ApplicationSet ${appSet.name} generates Application ${app.name} more than once`);
+        continue;
+      }
+
+      seen.add(key);
+      applications.push(app);
+    }
+  });
+
+  return { applications, warnings: context.warnings };
+}
+
+/**
+ * Expand every ApplicationSet of a scan
+ */
+export function expandApplicationSets(
+  appSets: readonly ArgoCDApplicationSet[],
+  tree: ArgoCDRepositoryTree
+): ApplicationSetExpansionResult {
+  const applications: ArgoCDApplication[] = [];
+  const warnings: ArgoCDParseError[] = [];
+
+  for (const appSet of appSets) {
+    const result = expandApplicationSet(appSet, tree);
+    applications.push(...result.applications);
+    warnings.push(...result.warnings);
+  }
+
+  return { applications, warnings };
+}
+
+// ============================================================================
+// Generators
+// ============================================================================
+
+function generateParams(
+  generator: ApplicationSetGenerator,
+  context: ExpansionContext,
+  depth: number
+): GeneratorParams[] {
+  let params: GeneratorParams[];
+
+  switch (generator.type) {
+    case 'list':
+      params = listParams(generator.config, context);
+      break;
+    case 'git':
+      params = gitParams(generator.config, context);
+      break;
+    case 'matrix':
+    case 'merge':
+      if (depth >= MAX_GENERATOR_DEPTH) {
+        warn(context, 'INVALID_GENERATOR', `${generator.type} generators can only be nested one level deep`);
+        return [];
+      }
+      params = generator.type === 'matrix'
+        ? matrixParams(generator.config, context, depth)
+        : mergeParams(generator.config, context, depth);
+      break;
+    default:
+      warn(context, 'UNRESOLVED_GENERATOR', `${generator.type} generator needs a live cluster or SCM API and is not expanded`);
+      return [];
+  }
+
+  const selector = generator.selector;
+  return selector ? params.filter(p => matchesSelector(p, selector, context)) : params;
+}
+
+/**
+ * List generator: one parameter set per element
+ */
+function listParams(config: Readonly<Record<string, unknown>>, context: ExpansionContext): GeneratorParams[] {
+  if (config.elementsYaml !== undefined) {
+    warn(context, 'UNRESOLVED_GENERATOR', 'list generator elementsYaml is not expanded');
+  }
+
+  return asArray(config.elements)
+    .filter(isRecord)
+    .map(element => (context.goTemplate ? { ...element } : flattenParams(element)));
+}
+
+/**
+ * Git generator: one parameter set per matching directory or per object in
+ * each matching file
+ */
+function gitParams(config: Readonly<Record<string, unknown>>, context: ExpansionContext): GeneratorParams[] {
+  const repoURL = typeof config.repoURL === 'string' ? config.repoURL : '';
+  if (context.tree.repoURL !== undefined && !isSameRepository(repoURL, context.tree.repoURL)) {
+    warn(context, 'UNRESOLVED_GENERATOR', `git generator repository ${repoURL} is not the scanned repository`);
+    return [];
+  }
+
+  const prefix = typeof config.pathParamPrefix === 'string' ? config.pathParamPrefix : '';
+
+  let params: GeneratorParams[];
+  if (config.directories !== undefined) {
+    params = matchPaths(listDirectories(context.files), config.directories, false)
+      .map(directory => pathParams(directory, undefined, prefix, context));
+  } else if (config.files !== undefined) {
+    params = matchPaths([...context.files.keys()], config.files, true)
+      .flatMap(file => fileParams(file, prefix, context));
+  } else {
+    warn(context, 'INVALID_GENERATOR', 'git generator needs directories or files');
+    return [];
+  }
+
+  const values = isRecord(config.values) ? config.values : undefined;
+  if (!values) {
+    return params;
+  }
+
+  const withValues: GeneratorParams[] = [];
+  for (const p of params) {
+    try {
+      withValues.push(addValues(p, values, context));
+    } catch (error) {
+      warn(context, 'INVALID_GENERATOR', `git generator values: ${errorMessage(error)}`);
+    }
+  }
+  return withValues;
+}
+
+function fileParams(file: string, prefix: string, context: ExpansionContext): GeneratorParams[] {
+  let content: unknown;
+  try {
+    content = yaml.parse(context.files.get(file) ?? '');
+  } catch (error) {
+    warn(context, 'INVALID_GENERATOR', `git generator file ${file}: ${errorMessage(error)}`);
+    return [];
+  }
+
+  const slash = file.lastIndexOf('/');
+  const directory = slash === -1 ? '' : file.slice(0, slash);
+  const filename = file.slice(slash + 1);
+  const items = Array.isArray(content) ? content : [content];
+
+  return items.filter(isRecord).map(item => ({
+    ...(context.goTemplate ? item : flattenParams(item)),
+    ...pathParams(directory, filename, prefix, context),
+  }));
+}
+
+/**
+ * The path, path.basename, path[n]... parameters of the git generator
+ */
+function pathParams(
+  directory: string,
+  filename: string | undefined,
+  prefix: string,
+  context: ExpansionContext
+): GeneratorParams {
+  const segments = directory === '' ? [] : directory.split('/');
+  const basename = segments[segments.length - 1] ?? '';
+
+  if (context.goTemplate) {
+    const path: GeneratorParams = {
+      path: directory,
+      basename,
+      basenameNormalized: sanitizeName(basename),
+      segments,
+      ...(filename !== undefined ? { filename, filenameNormalized: sanitizeName(filename) } : {}),
+    };
+    return prefix ? { [prefix]: { path } } : { path };
+  }
+
+  const key = prefix ? `${prefix}.path` : 'path';
+  const params: GeneratorParams = {
+    [key]: directory,
+    [`${key}.basename`]: basename,
+    [`${key}.basenameNormalized`]: sanitizeName(basename),
+  };
+  if (filename !== undefined) {
+    params[`${key}.filename`] = filename;
+    params[`${key}.filenameNormalized`] = sanitizeName(filename);
+  }
+  segments.forEach((segment, i) => {
+    params[`${key}[${i}]`] = segment;
+  });
+  return params;
+}
+
+/**
+ * Render generator values against the parameters and add them as values.*
+ */
+function addValues(
+  params: GeneratorParams,
+  values: Readonly<Record<string, unknown>>,
+  context: ExpansionContext
+): GeneratorParams {
+  const rendered: Record<string, string> = {};
+  for (const [key, value] of Object.entries(values)) {
+    rendered[key] = renderString(String(value ?? ''), params, context);
+  }
+
+  if (context.goTemplate) {
+    return { ...params, values: rendered };
+  }
+
+  const result = { ...params };
+  for (const [key, value] of Object.entries(rendered)) {
+    result[`values.${key}`] = value;
+  }
+  return result;
+}
+
+/**
+ * Matrix generator: cartesian product of two child generators. The second
+ * child may reference the parameters of the first.
+ */
+function matrixParams(
+  config: Readonly<Record<string, unknown>>,
+  context: ExpansionContext,
+  depth: number
+): GeneratorParams[] {
+  const children = childGenerators(config, context);
+  const [first, second] = children;
+  if (children.length !== 2 || !first || !second) {
+    warn(context, 'INVALID_GENERATOR', 'matrix generator needs exactly two child generators');
+    return [];
+  }
+
+  const result: GeneratorParams[] = [];
+  for (const left of generateParams(first, context, depth + 1)) {
+    let child: ApplicationSetGenerator;
+    try {
+      child = { ...second, config: renderValue(second.config, left, context) as Record<string, unknown> };
+    } catch (error) {
+      warn(context, 'INVALID_GENERATOR', `matrix generator: ${errorMessage(error)}`);
+      continue;
+    }
+
+    for (const right of generateParams(child, context, depth + 1)) {
+      result.push(combineParams(left, right, context));
+    }
+  }
+  return result;
+}
+
+/**
+ * Merge generator: parameter sets of the first child, overridden by sets of
+ * later children that agree on every merge key
+ */
+function mergeParams(
+  config: Readonly<Record<string, unknown>>,
+  context: ExpansionContext,
+  depth: number
+): GeneratorParams[] {
+  const mergeKeys = asArray(config.mergeKeys).filter((k): k is string => typeof k === 'string');
+  const [base, ...overrides] = childGenerators(config, context);
+  if (!base || overrides.length === 0 || mergeKeys.length === 0) {
+    warn(context, 'INVALID_GENERATOR', 'merge generator needs mergeKeys and at least two child generators');
+    return [];
+  }
+
+  const keyOf = (params: GeneratorParams): string =>
+    JSON.stringify(mergeKeys.map(key => lookupParam(params, key) ?? null));
+
+  let result = generateParams(base, context, depth + 1);
+  for (const override of overrides) {
+    const byKey = new Map<string, GeneratorParams>();
+    for (const params of generateParams(override, context, depth + 1)) {
+      byKey.set(keyOf(params), params);
+    }
+    result = result.map(params => {
+      const match = byKey.get(keyOf(params));
+      return match ? combineParams(params, match, context) : params;
+    });
+  }
+  return result;
+}
+
+function childGenerators(
+  config: Readonly<Record<string, unknown>>,
+  context: ExpansionContext
+): ApplicationSetGenerator[] {
+  const generators: ApplicationSetGenerator[] = [];
+  for (const raw of asArray(config.generators).filter(isRecord)) {
+    const type = APPLICATIONSET_GENERATOR_TYPES.find(t => raw[t] !== undefined);
+    if (!type) {
+      warn(context, 'INVALID_GENERATOR', 'child generator has no known generator type');
+      continue;
+    }
+    generators.push({
+      type,
+      config: isRecord(raw[type]) ? raw[type] : {},
+      ...(isRecord(raw.selector) ? { selector: raw.selector as GeneratorSelector } : {}),
+    });
+  }
+  return generators;
+}
+
+function combineParams(left: GeneratorParams, right: GeneratorParams, context: ExpansionContext): GeneratorParams {
+  return context.goTemplate ? deepMerge(left, right) : { ...left, ...right };
+}
+
+function matchesSelector(params: GeneratorParams, selector: GeneratorSelector, context: ExpansionContext): boolean {
+  const labels = context.goTemplate ? flattenParams(params) : params;
+  const label = (key: string): string | undefined =>
+    Object.prototype.hasOwnProperty.call(labels, key) ? String(labels[key]) : undefined;
+
+  for (const [key, value] of Object.entries(selector.matchLabels ?? {})) {
+    if (label(key) !== value) {
+      return false;
+    }
+  }
+
+  for (const requirement of selector.matchExpressions ?? []) {
+    const value = label(requirement.key);
+    const values = requirement.values ?? [];
+    switch (requirement.operator) {
+      case 'In':
+        if (value === undefined || !values.includes(value)) return false;
+        break;
+      case 'NotIn':
+        if (value !== undefined && values.includes(value)) return false;
+        break;
+      case 'Exists':
+        if (value === undefined) return false;
+        break;
+      case 'DoesNotExist':
+        if (value !== undefined) return false;
+        break;
+    }
+  }
+
+  return true;
+}
+
+// ============================================================================
+// Template Instantiation
+// ============================================================================
+
+function instantiateTemplate(
+  params: GeneratorParams,
+  origin: ApplicationSetOrigin,
+  context: ExpansionContext
+): ArgoCDApplication | null {
+  const { appSet } = context;
+
+  let template: ApplicationTemplate;
+  try {
+    template = renderValue(appSet.template, params, context) as ApplicationTemplate;
+  } catch (error) {
+    warn(context, 'INVALID_TEMPLATE', `ApplicationSet ${appSet.name} template: ${errorMessage(error)}`);
+    return null;
+  }
+
+  const { metadata, spec } = template;
+  const name = metadata.name ?? '';
+  if (name === '' || name.includes('{{')) {
+    warn(context, 'INVALID_TEMPLATE', `ApplicationSet ${appSet.name} template renders no Application name`);
+    return null;
+  }
+
+  const sources = spec.sources?.map(source => resolveSourceType(source, context));
+  const source = spec.source ? resolveSourceType(spec.source, context) : sources?.[0];
+  if (!source) {
+    warn(context, 'INVALID_SOURCE', `ApplicationSet ${appSet.name} template has no source`);
+    return null;
+  }
+
+  return {
+    name,
+    namespace: metadata.namespace || appSet.namespace,
+    project: spec.project,
+    source,
+    ...(sources ? { sources } : {}),
+    destination: spec.destination,
+    ...(spec.syncPolicy ? { syncPolicy: spec.syncPolicy } : {}),
+    filePath: appSet.filePath,
+    ...(metadata.labels ? { labels: metadata.labels } : {}),
+    ...(metadata.annotations ? { annotations: metadata.annotations } : {}),
+    ...(spec.ignoreDifferences ? { ignoreDifferences: spec.ignoreDifferences } : {}),
+    ...(metadata.finalizers ? { finalizers: metadata.finalizers } : {}),
+    generatedBy: origin,
+  };
+}
+
+/**
+ * Detect the tool of a plain directory source from the scanned files, as
+ * the repo server does once the generated path is known
+ */
+function resolveSourceType(source: ApplicationSource, context: ExpansionContext): ApplicationSource {
+  const { repoURL } = context.tree;
+  if (source.sourceType !== 'directory' || (repoURL !== undefined && !isSameRepository(source.repoURL, repoURL))) {
+    return source;
+  }
+
+  const directory = normalizePath(source.path);
+  const has = (name: string): boolean => context.files.has(directory === '' ? name : `${directory}/${name}`);
+
+  if (KUSTOMIZATION_FILES.some(has)) {
+    return { ...source, sourceType: 'kustomize' };
+  }
+  if (has('Chart.yaml')) {
+    return { ...source, sourceType: 'helm' };
+  }
+  return source;
+}
+
+/**
+ * Render every string (and map key) of a value against the parameters
+ *
+ * @throws HelmTemplateError when a Go template fails
+ */
+function renderValue(value: unknown, params: GeneratorParams, context: ExpansionContext): unknown {
+  if (typeof value === 'string') {
+    return renderString(value, params, context);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => renderValue(item, params, context));
+  }
+  if (isRecord(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[renderString(key, params, context)] = renderValue(item, params, context);
+    }
+    return result;
+  }
+  return value;
+}
+
+function renderString(value: string, params: GeneratorParams, context: ExpansionContext): string {
+  if (!value.includes('{{')) {
+    return value;
+  }
+
+  if (context.goTemplate) {
+    return context.engine.renderString(value, context.appSet.name, params);
+  }
+
+  // fasttemplate leaves tags without a matching parameter untouched
+  return value.replace(/\{\{\s*([^{}]+?)\s*\}\}/g, (tag, key: string) =>
+    Object.prototype.hasOwnProperty.call(params, key) ? String(params[key]) : tag
+  );
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function warn(context: ExpansionContext, code: ArgoCDParseErrorCode, message: string): void {
+  if (context.warnings.some(w => w.message === message)) {
+    return;
+  }
+  context.warnings.push({ message, file: context.appSet.filePath, severity: 'warning', code });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Flatten nested maps and lists into dotted keys with string values
+ */
+function flattenParams(value: Record<string, unknown>, prefix = '', result: GeneratorParams = {}): GeneratorParams {
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isRecord(item)) {
+      flattenParams(item, path, result);
+    } else if (Array.isArray(item)) {
+      flattenParams(Object.fromEntries(item.map((v, i) => [String(i), v])), path, result);
+    } else {
+      result[path] = item === null || item === undefined ? '' : String(item);
+    }
+  }
+  return result;
+}
+
+function deepMerge(left: GeneratorParams, right: GeneratorParams): GeneratorParams {
+  const result: GeneratorParams = { ...left };
+  for (const [key, value] of Object.entries(right)) {
+    const existing = result[key];
+    result[key] = isRecord(existing) && isRecord(value) ? deepMerge(existing, value) : value;
+  }
+  return result;
+}
+
+/**
+ * Look up a merge key as a flat parameter or a dotted path into nested ones
+ */
+function lookupParam(params: GeneratorParams, key: string): unknown {
+  if (Object.prototype.hasOwnProperty.call(params, key)) {
+    return params[key];
+  }
+
+  let current: unknown = params;
+  for (const part of key.split('.')) {
+    if (!isRecord(current)) {
+      return undefined;
+    }
+    current = current[part];
+  }
+  return current;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/^(\.\/|\/)+/, '').replace(/\/+$/, '').replace(/^\.$/, '');
+}
+
+/**
+ * Every directory that contains a scanned file, sorted
+ */
+function listDirectories(files: ReadonlyMap<string, string>): string[] {
+  const directories = new Set<string>();
+  for (const file of files.keys()) {
+    const segments = file.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      directories.add(segments.slice(0, i).join('/'));
+    }
+  }
+  return [...directories];
+}
+
+/**
+ * Match paths against the path entries of a git generator. Excluded entries
+ * win over included ones regardless of their order.
+ */
+function matchPaths(paths: readonly string[], entries: unknown, doublestar: boolean): string[] {
+  const includes: RegExp[] = [];
+  const excludes: RegExp[] = [];
+  for (const entry of asArray(entries).filter(isRecord)) {
+    if (typeof entry.path !== 'string') {
+      continue;
+    }
+    (entry.exclude === true ? excludes : includes).push(globToRegExp(normalizePath(entry.path), doublestar));
+  }
+
+  return paths
+    .filter(path => includes.some(re => re.test(path)) && !excludes.some(re => re.test(path)))
+    .sort();
+}
+
+/**
+ * Convert a Go path.Match pattern to a RegExp; with doublestar, `**` also
+ * matches across directories
+ */
+function globToRegExp(pattern: string, doublestar: boolean): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const ch = pattern.charAt(i);
+    if (ch === '*') {
+      if (doublestar && pattern.charAt(i + 1) === '*') {
+        if (pattern.charAt(i + 2) === '/') {
+          source += '(?:.*/)?';
+          i += 2;
+        } else {
+          source += '.*';
+          i += 1;
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (ch === '?') {
+      source += '[^/]';
+    } else if (ch === '[' && pattern.indexOf(']', i + 1) > i + 1) {
+      const end = pattern.indexOf(']', i + 1);
+      const body = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+      source += body.startsWith('^') || body.startsWith('!') ? `[^${body.slice(1)}]` : `[${body}]`;
+      i = end;
+    } else {
+      source += ch.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Lower-case a name and replace characters Kubernetes names do not allow
+ */
+function sanitizeName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9.-]/g, '-')
+    .replace(/^[^a-z0-9]+|[^a-z0-9]+$/g, '');
+}
+
+/**
+ * Compare repository URLs ignoring scheme, credentials, SSH form and .git
+ */
+function isSameRepository(a: string, b: string): boolean {
+  const normalize = (url: string): string =>
+    url
+      .trim()
+      .toLowerCase()
+      .replace(/^[a-z+]+:\/\//, '')
+      .replace(/^[^@/]+@/, '')
+      .replace(/:(?!\d)/, '/')
+      .replace(/\/+$/, '')
+      .replace(/\.git$/, '');
+  return normalize(a) === normalize(b);
+}
@@ -17,3 +17,9 @@ export {
   parseArgoCDManifest,
   createArgoCDGraph,
 } from './application-parser.js';
+
+// ApplicationSet Expansion
+export {
+  expandApplicationSet,
+  expandApplicationSets,
+} from './applicationset-expander.js';
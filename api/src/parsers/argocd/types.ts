@@ -66,6 +66,8 @@ export interface ArgoCDApplication {
   readonly ignoreDifferences?: readonly ResourceIgnoreDifferences[];
   /** Finalizers */
   readonly finalizers?: readonly string[];
+  /** ApplicationSet this Application was generated from */
+  readonly generatedBy?: ApplicationSetOrigin;
 }
 
 /**
@@ -470,6 +472,44 @@ export interface PreservedFields {
   readonly labels?: readonly string[];
 }
 
+// ============================================================================
+// ApplicationSet Expansion Types (TASK-ARGOCD-APPSET-001)
+// ============================================================================
+
+/**
+ * Link from a generated Application back to its ApplicationSet
+ */
+export interface ApplicationSetOrigin {
+  /** ApplicationSet name */
+  readonly appSetName: string;
+  /** ApplicationSet namespace */
+  readonly appSetNamespace: string;
+  /** Type of the top-level generator that produced the parameters */
+  readonly generatorType: ApplicationSetGeneratorType;
+  /** Index of that generator in spec.generators */
+  readonly generatorIndex: number;
+}
+
+/**
+ * Scanned repository that git generators are evaluated against
+ */
+export interface ArgoCDRepositoryTree {
+  /** Repository URL; git generators pointing at other repositories are skipped */
+  readonly repoURL?: string;
+  /** File contents keyed by repository-relative path */
+  readonly files: ReadonlyMap<string, string>;
+}
+
+/**
+ * Result of expanding ApplicationSets into Applications
+ */
+export interface ApplicationSetExpansionResult {
+  /** Applications instantiated from the templates */
+  readonly applications: readonly ArgoCDApplication[];
+  /** Generators or parameter sets that could not be expanded */
+  readonly warnings: readonly ArgoCDParseError[];
+}
+
 // ============================================================================
 // Graph Node Types
 // ============================================================================
@@ -524,6 +564,8 @@ export interface ArgoCDApplicationNodeMetadata {
   readonly isMultiSource?: boolean;
   /** Chart name (for Helm repo sources) */
   readonly chartName?: string;
+  /** Name of the ApplicationSet that generated this Application */
+  readonly generatedBy?: string;
 }
 
 /**
@@ -632,6 +674,41 @@ export interface ArgoCDGeneratesEdgeMetadata {
   readonly generatorType: ApplicationSetGeneratorType;
 }
 
+/**
+ * Edge from a generated Application back to its ApplicationSet
+ */
+export interface ArgoCDGeneratedByEdge {
+  /** Unique edge identifier */
+  readonly id: string;
+  /** Edge type discriminator */
+  readonly type: 'ARGOCD_GENERATED_BY';
+  /** Source node ID (generated Application) */
+  readonly sourceNodeId: string;
+  /** Target node ID (ApplicationSet) */
+  readonly targetNodeId: string;
+  /** Confidence score (0-100) */
+  readonly confidence: number;
+  /** Edge metadata */
+  readonly metadata: ArgoCDGeneratedByEdgeMetadata;
+}
+
+/**
+ * ArgoCD generated-by edge metadata
+ */
+export interface ArgoCDGeneratedByEdgeMetadata {
+  /** ApplicationSet name */
+  readonly appSetName: string;
+  /** Generator type */
+  readonly generatorType: ApplicationSetGeneratorType;
+  /** Index of the generator in spec.generators */
+  readonly generatorIndex: number;
+}
+
+/**
+ * Any edge produced by the ArgoCD parser
+ */
+export type ArgoCDEdge = ArgoCDDeploysEdge | ArgoCDGeneratesEdge | ArgoCDGeneratedByEdge;
+
 // ============================================================================
 // Parse Result Types
 // ============================================================================
@@ -667,6 +744,7 @@ export type ArgoCDParseErrorCode =
   | 'INVALID_DESTINATION'
   | 'INVALID_GENERATOR'
   | 'INVALID_TEMPLATE'
+  | 'UNRESOLVED_GENERATOR'
   | 'PARSE_TIMEOUT'
   | 'FILE_TOO_LARGE'
   | 'UNKNOWN_ERROR';
@@ -684,7 +762,7 @@ export interface ArgoCDParseResult {
   /** Generated graph nodes */
   readonly nodes: readonly (ArgoCDApplicationNode | ArgoCDApplicationSetNode)[];
   /** Generated graph edges */
-  readonly edges: readonly (ArgoCDDeploysEdge | ArgoCDGeneratesEdge)[];
+  readonly edges: readonly ArgoCDEdge[];
   /** Parse errors */
   readonly errors: readonly ArgoCDParseError[];
   /** Parse warnings */
@@ -741,6 +819,11 @@ export interface ArgoCDParserOptions {
   readonly parseApplicationSets?: boolean;
   /** Generate graph nodes/edges */
   readonly generateGraph?: boolean;
+  /**
+   * Scanned repository to expand ApplicationSet generators against; the
+   * generated Applications are added to the result. Not expanded when null.
+   */
+  readonly repositoryTree?: ArgoCDRepositoryTree | null;
 }
 
 /**
@@ -755,6 +838,7 @@ export const DEFAULT_ARGOCD_PARSER_OPTIONS: Required<ArgoCDParserOptions> = {
   detectSourceTypes: true,
   parseApplicationSets: true,
   generateGraph: true,
+  repositoryTree: null,
 };
 
 // ============================================================================
@@ -810,7 +894,7 @@ export function isArgoCDApplicationSetNode(
  * Type guard for ArgoCDDeploysEdge
  */
 export function isArgoCDDeploysEdge(
-  edge: ArgoCDDeploysEdge | ArgoCDGeneratesEdge
+  edge: ArgoCDEdge
 ): edge is ArgoCDDeploysEdge {
   return edge.type === 'ARGOCD_DEPLOYS';
 }
@@ -819,11 +903,20 @@ export function isArgoCDDeploysEdge(
  * Type guard for ArgoCDGeneratesEdge
  */
 export function isArgoCDGeneratesEdge(
-  edge: ArgoCDDeploysEdge | ArgoCDGeneratesEdge
+  edge: ArgoCDEdge
 ): edge is ArgoCDGeneratesEdge {
   return edge.type === 'ARGOCD_GENERATES';
 }
 
+/**
+ * Type guard for ArgoCDGeneratedByEdge
+ */
+export function isArgoCDGeneratedByEdge(
+  edge: ArgoCDEdge
+): edge is ArgoCDGeneratedByEdge {
+  return edge.type === 'ARGOCD_GENERATED_BY';
+}
+
 /**
  * Type guard for HelmSource
  */
@@ -904,6 +997,14 @@ export const ARGOCD_KINDS = {
   APPLICATION_SET: 'ApplicationSet',
 } as const;
 
+/**
+ * Generator types in the order their keys are looked up in a generator entry
+ */
+export const APPLICATIONSET_GENERATOR_TYPES: readonly ApplicationSetGeneratorType[] = [
+  'list', 'clusters', 'git', 'scmProvider',
+  'clusterDecisionResource', 'pullRequest', 'matrix', 'merge',
+];
+
 /**
  * Common ArgoCD annotations
  */
@@ -0,0 +1,884 @@
+/**
+ * Azure Pipelines Parser
+ * @module parsers/azure-pipelines/azure-pipelines-parser
+ *
+ * Parses azure-pipelines.yml files into stages, jobs and steps, expanding
+ * stage, job, step, variable and extends templates through a template
+ * loader. Stage and job dependsOn become job needs, jobs become PIPELINE_JOB
+ * nodes, and script and Terraform / Helm task steps are run through the
+ * crossref Terraform-to-Helm pattern detectors.
+ *
+ * TASK-AZP-001: Azure Pipelines parsing
+ */
+
+import * as yaml from 'yaml';
+import { createPipelineNodes } from '../crossref/pipeline-node.js';
+import { detectAzureFlows, toParsedWorkflow } from './crossref-adapter.js';
+import {
+  AZURE_JOB_ID_SEPARATOR,
+  AZURE_MAX_TEMPLATE_DEPTH,
+  DEFAULT_AZURE_PARSER_OPTIONS,
+  isAzurePipelinesPath,
+  splitTemplateReference,
+  type AzureJob,
+  type AzureParseError,
+  type AzureParseResult,
+  type AzureParserOptions,
+  type AzurePipeline,
+  type AzureStage,
+  type AzureStep,
+  type AzureTemplateKind,
+  type AzureTemplateReference,
+  type AzureTrigger,
+  type AzureVariables,
+} from './types.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParserOptions,
+} from '../base/parser.js';
+
+/**
+ * Line range of a YAML mapping or sequence in the parsed file
+ */
+interface LineRange {
+  readonly lineStart: number;
+  readonly lineEnd: number;
+}
+
+/**
+ * A stage, job or step entry after template expansion
+ */
+interface ExpandedItem {
+  readonly item: Record<string, unknown>;
+  readonly fromFile: string;
+  /** Outermost template the entry was expanded from */
+  readonly template?: string;
+}
+
+/**
+ * A job before its needs are resolved
+ */
+interface JobDraft extends Omit<AzureJob, 'needs'> {
+  readonly stageNeeds: readonly string[];
+}
+
+/** Step keys naming the step type, with the key holding the script */
+const SCRIPT_STEP_TYPES = ['script', 'bash', 'pwsh', 'powershell'] as const;
+
+/** Other step keys */
+const OTHER_STEP_TYPES = [
+  'checkout', 'download', 'downloadBuild', 'getPackage', 'publish', 'reviewApp', 'restoreCache',
+] as const;
+
+/** Deployment strategy hooks in run order */
+const DEPLOYMENT_HOOKS = ['preDeploy', 'deploy', 'routeTraffic', 'postRouteTraffic'] as const;
+
+/** Top-level keys of a pipeline */
+const PIPELINE_KEYS = ['stages', 'jobs', 'steps', 'extends'] as const;
+
+// ============================================================================
+// Azure Pipelines Parser
+// ============================================================================
+
+/**
+ * Parser for azure-pipelines.yml files.
+ */
+export class AzurePipelinesParser extends BaseParser<AzureParseResult> {
+  readonly name = 'azure-pipelines-parser';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['.yml', '.yaml'] as const;
+  readonly supportedMimeTypes = ['application/x-yaml', 'text/yaml'] as const;
+
+  private readonly azureOptions: Required<AzureParserOptions>;
+
+  constructor(options?: ParserOptions & Partial<AzureParserOptions>) {
+    super(options);
+    this.azureOptions = { ...DEFAULT_AZURE_PARSER_OPTIONS, ...options };
+  }
+
+  /**
+   * Check if this parser can handle the given file.
+   * With content, requires a top-level stages, jobs, steps or extends key.
+   */
+  override canParse(filePath: string, content?: string): boolean {
+    if (!isAzurePipelinesPath(filePath)) {
+      return false;
+    }
+    return content === undefined || new RegExp(`^(${PIPELINE_KEYS.join('|')})\\s*:`, 'm').test(content);
+  }
+
+  /**
+   * Parse pipeline content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    _options: Required<ParserOptions>
+  ): Promise<ParseResult<AzureParseResult>> {
+    const startTime = performance.now();
+    const errors: AzureParseError[] = [];
+    const warnings: AzureParseError[] = [];
+
+    const locations = new WeakMap<object, LineRange>();
+    const read = readYaml(content, locations);
+    const root = isRecord(read.value) ? read.value : null;
+    for (const err of read.errors) {
+      errors.push({ ...err, file: filePath, severity: 'error', code: 'INVALID_YAML' });
+    }
+    if (errors.length === 0 && !(root && PIPELINE_KEYS.some(key => key in root))) {
+      errors.push({
+        message: 'File has no stages, jobs, steps or extends',
+        file: filePath,
+        severity: 'error',
+        code: 'NOT_A_PIPELINE',
+      });
+    }
+
+    if (errors.length > 0 || !root) {
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.line !== undefined
+            ? this.createLocation(filePath, e.line, e.line, e.column ?? 0, e.column ?? 0)
+            : null,
+          severity: 'error' as const,
+        })),
+        null,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const reader = new AzurePipelineReader(filePath, this.azureOptions.templateLoader, locations, warnings);
+    const pipeline = await reader.read(root);
+    const { nodes, edges } = createPipelineNodes(toParsedWorkflow(pipeline), this.azureOptions.scanId);
+    const flows = this.azureOptions.detectFlows
+      ? detectAzureFlows(pipeline, this.azureOptions.minFlowConfidence)
+      : [];
+
+    const result: AzureParseResult = {
+      success: true,
+      pipeline,
+      nodes,
+      edges,
+      flows,
+      errors,
+      warnings,
+      metadata: {
+        filePath,
+        parserName: this.name,
+        parserVersion: this.version,
+        parseTimeMs: performance.now() - startTime,
+        fileSize: content.length,
+        lineCount: content.split('\n').length,
+        stageCount: pipeline.stages.length,
+        jobCount: pipeline.jobs.length,
+        stepCount: pipeline.jobs.reduce((count, job) => count + job.steps.length, 0),
+        templateCount: pipeline.templates.length,
+      },
+    };
+
+    return this.createSuccess(
+      result,
+      warnings.map(w => ({
+        code: w.code,
+        message: w.message,
+        location: w.line !== undefined
+          ? this.createLocation(filePath, w.line, w.line, 0, 0)
+          : null,
+        severity: 'warning' as const,
+      })),
+      this.createMetadata(filePath, startTime, content)
+    );
+  }
+}
+
+// ============================================================================
+// Pipeline Reader
+// ============================================================================
+
+/**
+ * Reads one pipeline file and the templates it references
+ */
+class AzurePipelineReader {
+  private readonly templates: AzureTemplateReference[] = [];
+
+  constructor(
+    private readonly filePath: string,
+    private readonly loader: AzureParserOptions['templateLoader'],
+    private readonly locations: WeakMap<object, LineRange>,
+    private readonly warnings: AzureParseError[]
+  ) {}
+
+  async read(root: Record<string, unknown>): Promise<AzurePipeline> {
+    let body = root;
+    let bodyFile = this.filePath;
+
+    // extends takes the stages, jobs or steps from the template
+    const extendsValue = root.extends;
+    if (isRecord(extendsValue) && typeof extendsValue.template === 'string') {
+      const loaded = await this.loadTemplate(
+        'extends', extendsValue.template, extendsValue.parameters, this.filePath, [this.filePath], extendsValue
+      );
+      if (loaded) {
+        body = loaded.doc;
+        bodyFile = loaded.filePath;
+      }
+    }
+
+    const stack = bodyFile === this.filePath ? [this.filePath] : [this.filePath, bodyFile];
+    const variables = await this.readVariables(root.variables, this.filePath, [this.filePath]);
+    const bodyVariables = body !== root
+      ? await this.readVariables(body.variables, bodyFile, stack)
+      : { values: {}, groups: [] };
+    const pool = readPool(root.pool ?? body.pool);
+
+    const stages: AzureStage[] = [];
+    const drafts: JobDraft[] = [];
+
+    if (body.stages !== undefined) {
+      const entries = await this.expandList(body.stages, 'stage', 'stages', bodyFile, stack);
+      let previous: string | undefined;
+      for (const [index, entry] of entries.entries()) {
+        const stage = await this.readStage(entry, index, previous, stack, drafts);
+        stages.push(stage);
+        previous = stage.name;
+      }
+      for (const [index, stage] of stages.entries()) {
+        for (const dependency of stage.dependsOn) {
+          if (!stages.some(other => other.name === dependency)) {
+            this.warn('UNKNOWN_DEPENDENCY', `Stage '${stage.name}' depends on unknown stage '${dependency}'`, entries[index]?.item);
+          }
+        }
+      }
+    } else if (body.jobs !== undefined) {
+      drafts.push(...await this.readJobs(body.jobs, undefined, [], bodyFile, stack));
+    } else if (body.steps !== undefined) {
+      // A pipeline of bare steps runs them as a single job named Job
+      drafts.push(...await this.readJobs([{ job: 'Job', steps: body.steps }], undefined, [], bodyFile, stack));
+    }
+
+    return {
+      filePath: this.filePath,
+      ...(typeof root.name === 'string' ? { name: root.name } : {}),
+      triggers: readTriggers(root),
+      ...(pool !== undefined ? { pool } : {}),
+      variables: {
+        values: { ...bodyVariables.values, ...variables.values },
+        groups: [...bodyVariables.groups, ...variables.groups],
+      },
+      repositories: readRepositories(root.resources),
+      stages,
+      jobs: this.resolveNeeds(stages, drafts),
+      templates: this.templates,
+    };
+  }
+
+  // ============================================================================
+  // Stages and Jobs
+  // ============================================================================
+
+  private async readStage(
+    entry: ExpandedItem,
+    index: number,
+    previous: string | undefined,
+    stack: readonly string[],
+    drafts: JobDraft[]
+  ): Promise<AzureStage> {
+    const { item, fromFile, template } = entry;
+    const name = typeof item.stage === 'string' && item.stage !== '' ? item.stage : `Stage${index + 1}`;
+    const dependsOn = item.dependsOn === undefined
+      ? (previous !== undefined ? [previous] : [])
+      : toStringList(item.dependsOn);
+    const variables = await this.readVariables(item.variables, fromFile, stack);
+
+    const jobs = await this.readJobs(item.jobs ?? [], name, dependsOn, fromFile, stack, template);
+    drafts.push(...jobs);
+
+    const range = this.locations.get(item);
+    return {
+      name,
+      ...(typeof item.displayName === 'string' ? { displayName: item.displayName } : {}),
+      dependsOn,
+      ...(typeof item.condition === 'string' ? { condition: item.condition } : {}),
+      variables,
+      jobs: jobs.map(job => job.id),
+      ...(template !== undefined ? { template } : {}),
+      ...(range ?? {}),
+    };
+  }
+
+  private async readJobs(
+    value: unknown,
+    stage: string | undefined,
+    stageNeeds: readonly string[],
+    fromFile: string,
+    stack: readonly string[],
+    stageTemplate?: string
+  ): Promise<JobDraft[]> {
+    const entries = await this.expandList(value, 'job', 'jobs', fromFile, stack);
+    const jobs: JobDraft[] = [];
+
+    for (const [index, { item, fromFile: jobFile, template }] of entries.entries()) {
+      const kind = 'deployment' in item ? 'deployment' : 'job';
+      const rawName = kind === 'deployment' ? item.deployment : item.job;
+      const name = typeof rawName === 'string' && rawName !== '' ? rawName : `Job${index + 1}`;
+      const id = stage !== undefined ? `${stage}${AZURE_JOB_ID_SEPARATOR}${name}` : name;
+
+      if (jobs.some(job => job.id === id)) {
+        this.warn('DUPLICATE_JOB', `Job '${id}' is defined more than once`, item);
+        continue;
+      }
+
+      const pool = readPool(item.pool);
+      const environment = readEnvironmentName(item.environment);
+      const stepEntries = await this.expandList(jobStepsOf(item), 'step', 'steps', jobFile, stack);
+      const range = this.locations.get(item);
+      const jobTemplate = stageTemplate ?? template;
+
+      jobs.push({
+        id,
+        name,
+        ...(typeof item.displayName === 'string' ? { displayName: item.displayName } : {}),
+        ...(stage !== undefined ? { stage } : {}),
+        kind,
+        dependsOn: toStringList(item.dependsOn),
+        stageNeeds,
+        ...(typeof item.condition === 'string' ? { condition: item.condition } : {}),
+        ...(pool !== undefined ? { pool } : {}),
+        ...(environment !== undefined ? { environment } : {}),
+        variables: await this.readVariables(item.variables, jobFile, stack),
+        steps: stepEntries.map((entry, stepIndex) => readStep(entry.item, stepIndex)),
+        ...(jobTemplate !== undefined ? { template: jobTemplate } : {}),
+        ...(range ?? {}),
+      });
+    }
+
+    return jobs;
+  }
+
+  /**
+   * Jobs need the jobs they depend on in their stage; jobs without such
+   * dependencies need every job of the stages their stage depends on
+   */
+  private resolveNeeds(stages: readonly AzureStage[], drafts: readonly JobDraft[]): AzureJob[] {
+    const stageJobs = new Map(stages.map(stage => [stage.name, stage.jobs]));
+
+    return drafts.map(({ stageNeeds, ...draft }) => {
+      const needs: string[] = [];
+
+      for (const dependency of draft.dependsOn) {
+        const id = draft.stage !== undefined ? `${draft.stage}${AZURE_JOB_ID_SEPARATOR}${dependency}` : dependency;
+        if (drafts.some(job => job.id === id)) {
+          needs.push(id);
+        } else {
+          this.warn('UNKNOWN_DEPENDENCY', `Job '${draft.id}' depends on unknown job '${dependency}'`);
+        }
+      }
+
+      if (draft.dependsOn.length === 0) {
+        for (const stage of stageNeeds) {
+          needs.push(...(stageJobs.get(stage) ?? []));
+        }
+      }
+
+      return { ...draft, needs };
+    });
+  }
+
+  // ============================================================================
+  // Variables
+  // ============================================================================
+
+  private async readVariables(
+    value: unknown,
+    fromFile: string,
+    stack: readonly string[]
+  ): Promise<AzureVariables> {
+    const values: Record<string, string> = {};
+    const groups: string[] = [];
+
+    if (isRecord(value)) {
+      for (const [name, variable] of Object.entries(value)) {
+        values[name] = toScalarString(variable);
+      }
+    } else if (Array.isArray(value)) {
+      for (const entry of value) {
+        if (!isRecord(entry)) {
+          continue;
+        }
+        if (typeof entry.group === 'string') {
+          groups.push(entry.group);
+        } else if (typeof entry.name === 'string') {
+          values[entry.name] = toScalarString(entry.value);
+        } else if (typeof entry.template === 'string') {
+          const loaded = await this.loadTemplate('variables', entry.template, entry.parameters, fromFile, stack, entry);
+          if (loaded) {
+            const nested = await this.readVariables(loaded.doc.variables, loaded.filePath, [...stack, loaded.filePath]);
+            Object.assign(values, nested.values);
+            groups.push(...nested.groups);
+          }
+        }
+      }
+    }
+
+    return { values, groups };
+  }
+
+  // ============================================================================
+  // Templates
+  // ============================================================================
+
+  /**
+   * Expand template entries of a stages, jobs or steps list
+   */
+  private async expandList(
+    value: unknown,
+    kind: AzureTemplateKind,
+    key: 'stages' | 'jobs' | 'steps',
+    fromFile: string,
+    stack: readonly string[],
+    template?: string
+  ): Promise<ExpandedItem[]> {
+    const items: ExpandedItem[] = [];
+
+    for (const item of Array.isArray(value) ? value : []) {
+      if (!isRecord(item)) {
+        continue;
+      }
+      if (typeof item.template !== 'string') {
+        items.push({ item, fromFile, ...(template !== undefined ? { template } : {}) });
+        continue;
+      }
+
+      const loaded = await this.loadTemplate(kind, item.template, item.parameters, fromFile, stack, item);
+      if (loaded) {
+        items.push(...await this.expandList(
+          loaded.doc[key], kind, key, loaded.filePath, [...stack, loaded.filePath], template ?? item.template
+        ));
+      }
+    }
+
+    return items;
+  }
+
+  /**
+   * Load a template and substitute its parameters. Records the reference and
+   * returns null when the template is in another repository, cannot be
+   * loaded, or would recurse.
+   */
+  private async loadTemplate(
+    kind: AzureTemplateKind,
+    reference: string,
+    parameters: unknown,
+    fromFile: string,
+    stack: readonly string[],
+    at: object
+  ): Promise<{ doc: Record<string, unknown>; filePath: string } | null> {
+    const { path: templatePath, repository } = splitTemplateReference(reference);
+    const given = isRecord(parameters) ? parameters : {};
+    const record = (resolved: boolean): void => {
+      this.templates.push({
+        kind,
+        path: templatePath,
+        ...(repository !== undefined ? { repository } : {}),
+        parameters: given,
+        fromFile,
+        resolved,
+      });
+    };
+
+    if (!this.loader) {
+      record(false);
+      return null;
+    }
+    if (repository !== undefined && repository !== 'self') {
+      record(false);
+      this.warn('TEMPLATE_NOT_FOUND', `Template '${reference}' is in repository '${repository}' and was not loaded`, at);
+      return null;
+    }
+
+    const loaded = await this.loader.load(templatePath, fromFile);
+    if (!loaded) {
+      record(false);
+      this.warn('TEMPLATE_NOT_FOUND', `Template '${templatePath}' referenced from ${fromFile} was not found`, at);
+      return null;
+    }
+    if (stack.includes(loaded.filePath) || stack.length > AZURE_MAX_TEMPLATE_DEPTH) {
+      record(false);
+      this.warn('TEMPLATE_CYCLE', `Template '${loaded.filePath}' includes itself: ${[...stack, loaded.filePath].join(' -> ')}`, at);
+      return null;
+    }
+
+    const read = readYaml(loaded.content, null);
+    if (read.errors.length > 0 || !isRecord(read.value)) {
+      record(false);
+      this.warn('TEMPLATE_NOT_FOUND', `Template '${loaded.filePath}' is not a valid YAML mapping`, at);
+      return null;
+    }
+
+    record(true);
+    const { parameters: declared, ...body } = read.value;
+    const values = { ...readParameterDefaults(declared), ...given };
+    const doc = flattenInsertions(substituteParameters(body, values), null);
+    return { doc: isRecord(doc) ? doc : {}, filePath: loaded.filePath };
+  }
+
+  private warn(code: AzureParseError['code'], message: string, at?: object): void {
+    const line = at !== undefined ? this.locations.get(at)?.lineStart : undefined;
+    this.warnings.push({
+      message,
+      file: this.filePath,
+      ...(line !== undefined ? { line } : {}),
+      severity: 'warning',
+      code,
+    });
+  }
+}
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+/**
+ * Steps of a job, or of a deployment job's strategy hooks and on-handlers
+ */
+function jobStepsOf(job: Record<string, unknown>): unknown[] {
+  if (Array.isArray(job.steps)) {
+    return job.steps;
+  }
+
+  const strategy = isRecord(job.strategy) ? job.strategy : {};
+  const steps: unknown[] = [];
+  for (const name of ['runOnce', 'rolling', 'canary']) {
+    const hooks = strategy[name];
+    if (!isRecord(hooks)) {
+      continue;
+    }
+    for (const hook of DEPLOYMENT_HOOKS) {
+      const hookValue = hooks[hook];
+      if (isRecord(hookValue) && Array.isArray(hookValue.steps)) {
+        steps.push(...hookValue.steps);
+      }
+    }
+    const handlers = isRecord(hooks.on) ? hooks.on : {};
+    for (const handler of ['failure', 'success']) {
+      const handlerValue = handlers[handler];
+      if (isRecord(handlerValue) && Array.isArray(handlerValue.steps)) {
+        steps.push(...handlerValue.steps);
+      }
+    }
+  }
+  return steps;
+}
+
+function readStep(item: Record<string, unknown>, index: number): AzureStep {
+  const scriptType = SCRIPT_STEP_TYPES.find(type => typeof item[type] === 'string');
+  const inputs = isRecord(item.inputs) ? toStringRecord(item.inputs) : undefined;
+  const env = isRecord(item.env) ? toStringRecord(item.env) : undefined;
+
+  let type: string;
+  let script: string | undefined;
+  if (scriptType !== undefined) {
+    type = scriptType;
+    script = item[scriptType] as string;
+  } else if (typeof item.task === 'string') {
+    type = 'task';
+    // Inline scripts of Bash@3, PowerShell@2, AzureCLI@2 and friends
+    script = inputs?.script ?? inputs?.inlineScript ?? inputs?.Inline;
+  } else {
+    type = OTHER_STEP_TYPES.find(key => key in item) ?? Object.keys(item)[0] ?? 'unknown';
+  }
+
+  const workingDirectory = typeof item.workingDirectory === 'string'
+    ? item.workingDirectory
+    : inputs?.workingDirectory ?? inputs?.workingFolder;
+
+  return {
+    index,
+    type,
+    ...(typeof item.name === 'string' ? { name: item.name } : {}),
+    ...(typeof item.displayName === 'string' ? { displayName: item.displayName } : {}),
+    ...(script !== undefined ? { script } : {}),
+    ...(typeof item.task === 'string' ? { task: item.task } : {}),
+    ...(inputs !== undefined ? { inputs } : {}),
+    ...(workingDirectory !== undefined ? { workingDirectory } : {}),
+    ...(env !== undefined ? { env } : {}),
+    ...(typeof item.condition === 'string' ? { condition: item.condition } : {}),
+  };
+}
+
+// ============================================================================
+// Pipeline Sections
+// ============================================================================
+
+function readTriggers(doc: Record<string, unknown>): AzureTrigger[] {
+  const triggers: AzureTrigger[] = [];
+
+  // Without a trigger section every push triggers a run
+  if (doc.trigger === undefined) {
+    triggers.push({ type: 'push' });
+  } else if (doc.trigger !== 'none') {
+    triggers.push({ type: 'push', ...readFilters(doc.trigger) });
+  }
+
+  if (doc.pr !== undefined && doc.pr !== 'none') {
+    triggers.push({ type: 'pr', ...readFilters(doc.pr) });
+  }
+
+  for (const schedule of Array.isArray(doc.schedules) ? doc.schedules : []) {
+    if (isRecord(schedule) && typeof schedule.cron === 'string') {
+      const { branches } = readFilters(schedule);
+      triggers.push({ type: 'schedule', schedule: schedule.cron, ...(branches !== undefined ? { branches } : {}) });
+    }
+  }
+
+  return triggers;
+}
+
+/**
+ * Branch, path and tag filters of `trigger: [main]` or
+ * `trigger: { branches: { include: [...] } }`
+ */
+function readFilters(value: unknown): Pick<AzureTrigger, 'branches' | 'paths' | 'tags'> {
+  if (Array.isArray(value) || typeof value === 'string') {
+    return { branches: toStringList(value) };
+  }
+  if (!isRecord(value)) {
+    return {};
+  }
+
+  const include = (filter: unknown): string[] | undefined => {
+    if (Array.isArray(filter)) {
+      return toStringList(filter);
+    }
+    return isRecord(filter) && filter.include !== undefined ? toStringList(filter.include) : undefined;
+  };
+  const branches = include(value.branches);
+  const paths = include(value.paths);
+  const tags = include(value.tags);
+  return {
+    ...(branches !== undefined ? { branches } : {}),
+    ...(paths !== undefined ? { paths } : {}),
+    ...(tags !== undefined ? { tags } : {}),
+  };
+}
+
+function readRepositories(resources: unknown): Record<string, string> {
+  const repositories: Record<string, string> = {};
+  const list = isRecord(resources) && Array.isArray(resources.repositories) ? resources.repositories : [];
+  for (const repository of list) {
+    if (isRecord(repository) && typeof repository.repository === 'string' && typeof repository.name === 'string') {
+      repositories[repository.repository] = repository.name;
+    }
+  }
+  return repositories;
+}
+
+function readPool(pool: unknown): string | undefined {
+  if (typeof pool === 'string') {
+    return pool;
+  }
+  if (isRecord(pool)) {
+    const name = pool.vmImage ?? pool.name;
+    return typeof name === 'string' ? name : undefined;
+  }
+  return undefined;
+}
+
+function readEnvironmentName(environment: unknown): string | undefined {
+  if (typeof environment === 'string') {
+    return environment;
+  }
+  return isRecord(environment) && typeof environment.name === 'string' ? environment.name : undefined;
+}
+
+function readParameterDefaults(declared: unknown): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  if (Array.isArray(declared)) {
+    for (const parameter of declared) {
+      if (isRecord(parameter) && typeof parameter.name === 'string' && 'default' in parameter) {
+        defaults[parameter.name] = parameter.default;
+      }
+    }
+  } else if (isRecord(declared)) {
+    Object.assign(defaults, declared);
+  }
+  return defaults;
+}
+
+// ============================================================================
+// Template Expressions
+// ============================================================================
+
+const WHOLE_PARAMETER = /^\$\{\{\s*parameters\.([\w.-]+)\s*\}\}$/;
+const INLINE_PARAMETER = /\$\{\{\s*parameters\.([\w.-]+)\s*\}\}/g;
+
+/**
+ * Replace `${{ parameters.x }}` expressions. A value that is only an
+ * expression takes the parameter's value as is, so list parameters
+ * (stepList, jobList, ...) insert their entries.
+ */
+function substituteParameters(value: unknown, parameters: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PARAMETER.exec(value);
+    if (whole?.[1]) {
+      return lookupParameter(parameters, whole[1]) ?? '';
+    }
+    return value.replace(INLINE_PARAMETER, (_, name: string) => toScalarString(lookupParameter(parameters, name)));
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      const substituted = substituteParameters(item, parameters);
+      return typeof item === 'string' && Array.isArray(substituted) ? substituted : [substituted];
+    });
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteParameters(item, parameters)])
+    );
+  }
+  return value;
+}
+
+function lookupParameter(parameters: Record<string, unknown>, name: string): unknown {
+  let current: unknown = parameters;
+  for (const part of name.split('.')) {
+    current = isRecord(current) ? current[part] : undefined;
+  }
+  return current;
+}
+
+/**
+ * Splice the bodies of `${{ if }}` / `${{ each }}` insertions into their
+ * parent, as if every condition held. Line ranges move to the copies.
+ */
+function flattenInsertions(value: unknown, locations: WeakMap<object, LineRange> | null): unknown {
+  let result: unknown = value;
+
+  if (Array.isArray(value)) {
+    result = value.flatMap(item => {
+      const keys = isRecord(item) ? Object.keys(item) : [];
+      if (isRecord(item) && keys.length === 1 && keys[0]?.startsWith('${{')) {
+        const body = flattenInsertions(item[keys[0]], locations);
+        return Array.isArray(body) ? body : [body];
+      }
+      return [flattenInsertions(item, locations)];
+    });
+  } else if (isRecord(value)) {
+    const record: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const flattened = flattenInsertions(item, locations);
+      if (!key.startsWith('${{')) {
+        record[key] = flattened;
+      } else if (isRecord(flattened)) {
+        Object.assign(record, flattened);
+      }
+    }
+    result = record;
+  }
+
+  const range = typeof value === 'object' && value !== null ? locations?.get(value) : undefined;
+  if (range && typeof result === 'object' && result !== null) {
+    locations?.set(result, range);
+  }
+  return result;
+}
+
+// ============================================================================
+// YAML Helpers
+// ============================================================================
+
+/**
+ * Parse YAML into plain values, recording the line range of each mapping
+ * and sequence when a location map is given
+ */
+function readYaml(
+  content: string,
+  locations: WeakMap<object, LineRange> | null
+): { value: unknown; errors: { message: string; line?: number; column?: number }[] } {
+  const lineCounter = new yaml.LineCounter();
+  const document = yaml.parseDocument(content, { strict: false, uniqueKeys: false, lineCounter });
+  if (document.errors.length > 0) {
+    return {
+      value: null,
+      errors: document.errors.map(err => {
+        const pos = err.linePos?.[0];
+        return { message: err.message, ...(pos ? { line: pos.line, column: pos.col } : {}) };
+      }),
+    };
+  }
+
+  const toValue = (node: unknown): unknown => {
+    if (yaml.isMap(node) || yaml.isSeq(node)) {
+      const value: unknown = yaml.isMap(node)
+        ? Object.fromEntries(node.items.map(pair => [
+            String(yaml.isScalar(pair.key) ? pair.key.value : pair.key),
+            toValue(pair.value),
+          ]))
+        : node.items.map(toValue);
+      if (locations && node.range && typeof value === 'object' && value !== null) {
+        const [start, end] = node.range;
+        locations.set(value, {
+          lineStart: lineCounter.linePos(start).line,
+          lineEnd: lineCounter.linePos(Math.max(start, end - 1)).line,
+        });
+      }
+      return value;
+    }
+    if (yaml.isScalar(node)) {
+      return node.value;
+    }
+    return yaml.isNode(node) ? node.toJSON() : node;
+  };
+
+  return { value: flattenInsertions(toValue(document.contents), locations), errors: [] };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function toScalarString(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toStringRecord(value: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toScalarString(item)]));
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new Azure Pipelines parser instance
+ */
+export function createAzurePipelinesParser(
+  options?: ParserOptions & Partial<AzureParserOptions>
+): AzurePipelinesParser {
+  return new AzurePipelinesParser(options);
+}
+
+/**
+ * Parse Azure Pipelines content directly
+ */
+export async function parseAzurePipeline(
+  content: string,
+  filePath: string,
+  options?: ParserOptions & Partial<AzureParserOptions>
+): Promise<ParseResult<AzureParseResult>> {
+  const parser = createAzurePipelinesParser(options);
+  return parser.parse(content, filePath, options);
+}
@@ -0,0 +1,213 @@
+/**
+ * Azure Pipelines Crossref Adapter
+ * @module parsers/azure-pipelines/crossref-adapter
+ *
+ * Maps a parsed Azure pipeline onto the crossref module: jobs become the
+ * jobs of a ParsedWorkflow, and script steps and Terraform / Helm / kubectl
+ * task steps become the shell commands the TF-Helm pattern detectors match.
+ * Azure-specific syntax is rewritten into its shell equivalent: `$(VAR)`
+ * macros become `${VAR}` and `##vso[task.setvariable]` logging commands
+ * become assignments.
+ *
+ * TASK-AZP-001: Azure Pipelines parsing
+ */
+
+import type { ParsedJob, ParsedStep, ParsedTrigger, ParsedWorkflow } from '../crossref/pipeline-node.js';
+import type { TerraformToHelmFlow, TfHelmDetectionContext } from '../crossref/types.js';
+import { createWorkflowDetectionContext, detectWorkflowFlows } from '../crossref/workflow-flows.js';
+import type { AzureJob, AzurePipeline, AzureStep, AzureTrigger } from './types.js';
+
+/** `##vso[task.setvariable variable=NAME;isOutput=true]` */
+const SET_VARIABLE = /##vso\[task\.setvariable\s+variable=([A-Za-z_][\w.]*)[^\]]*\]/g;
+
+/** `$(NAME)` or `$(step.NAME)` macro */
+const MACRO = /\$\(([A-Za-z_][\w.]*)\)/g;
+
+/** Output variable reference inside a runtime expression: outputs['step.NAME'] */
+const OUTPUT_REFERENCE = /outputs\[\s*'(?:[\w-]+\.)*([A-Za-z_]\w*)'\s*\]/;
+
+// ============================================================================
+// ParsedWorkflow Conversion
+// ============================================================================
+
+/**
+ * Convert an Azure pipeline into the crossref ParsedWorkflow shape
+ */
+export function toParsedWorkflow(pipeline: AzurePipeline): ParsedWorkflow {
+  const aliases = collectVariableAliases(pipeline);
+  const jobs = new Map<string, ParsedJob>();
+
+  for (const job of pipeline.jobs) {
+    const runsOn = job.pool ?? pipeline.pool;
+    jobs.set(job.id, {
+      id: job.id,
+      name: job.displayName ?? job.name,
+      ...(job.stage !== undefined ? { stage: job.stage } : {}),
+      ...(runsOn !== undefined ? { runsOn } : {}),
+      needs: job.needs,
+      ...(job.environment !== undefined ? { environment: job.environment } : {}),
+      steps: job.steps.map(step => toParsedStep(step, aliases)),
+      ...(job.condition !== undefined ? { condition: job.condition } : {}),
+      ...(job.lineStart !== undefined && job.lineEnd !== undefined
+        ? { location: { lineStart: job.lineStart, lineEnd: job.lineEnd } }
+        : {}),
+    });
+  }
+
+  return {
+    name: pipeline.name ?? pipeline.filePath.replace(/\\/g, '/').split('/').pop() ?? 'azure-pipelines.yml',
+    filePath: pipeline.filePath,
+    pipelineType: 'azure_pipelines',
+    triggers: pipeline.triggers.map(toParsedTrigger),
+    jobs,
+  };
+}
+
+function toParsedStep(step: AzureStep, aliases: ReadonlyMap<string, string>): ParsedStep {
+  const run = toShellCommand(step);
+  const env = step.env !== undefined
+    ? Object.fromEntries(Object.entries(step.env).map(([key, value]) => [key, rewriteMacros(value, aliases)]))
+    : undefined;
+
+  return {
+    id: step.name ?? `step-${step.index}`,
+    ...(step.displayName !== undefined ? { name: step.displayName } : {}),
+    ...(run !== undefined ? { run: rewriteMacros(run, aliases) } : {}),
+    ...(run === undefined && step.task !== undefined ? { uses: step.task } : {}),
+    ...(step.workingDirectory !== undefined ? { workingDirectory: rewriteMacros(step.workingDirectory, aliases) } : {}),
+    ...(env !== undefined ? { env } : {}),
+    index: step.index,
+  };
+}
+
+/**
+ * The command a step runs. Terraform, Helm and Kubernetes tasks are written
+ * as the CLI invocation they perform.
+ */
+function toShellCommand(step: AzureStep): string | undefined {
+  if (step.script !== undefined) {
+    return step.script;
+  }
+
+  const task = step.task?.split('@')[0] ?? '';
+  const inputs = step.inputs ?? {};
+  const args = (...parts: (string | undefined)[]): string =>
+    parts.filter((part): part is string => part !== undefined && part.trim() !== '').join(' ');
+
+  if (/^Terraform(Task|CLI)(V\d+)?$/i.test(task)) {
+    return args('terraform', inputs.command ?? 'init', inputs.commandOptions);
+  }
+
+  if (/^HelmDeploy$/i.test(task)) {
+    const overrides = (inputs.overrideValues ?? '')
+      .split(/[\n,]/)
+      .map(value => value.trim())
+      .filter(value => value !== '')
+      .map(value => `--set ${value}`);
+    const valueFiles = (inputs.valueFile ?? '')
+      .split('\n')
+      .map(file => file.trim())
+      .filter(file => file !== '')
+      .map(file => `-f ${file}`);
+    const namespace = inputs.namespace !== undefined ? `--namespace ${inputs.namespace}` : undefined;
+    return args(
+      'helm', inputs.command ?? 'upgrade', inputs.releaseName, inputs.chartPath ?? inputs.chartName,
+      namespace, ...valueFiles, ...overrides, inputs.arguments
+    );
+  }
+
+  if (/^Kubernetes$/i.test(task)) {
+    return args('kubectl', inputs.command, inputs.arguments);
+  }
+
+  if (/^KubernetesManifest$/i.test(task) && (inputs.action ?? 'deploy') === 'deploy') {
+    return args('kubectl apply -f', inputs.manifests?.split('\n').join(' -f '));
+  }
+
+  return undefined;
+}
+
+function toParsedTrigger(trigger: AzureTrigger): ParsedTrigger {
+  // Named as the sections crossref normalizes for azure_pipelines
+  const type = trigger.type === 'push' ? 'branches' : trigger.type === 'pr' ? 'pr' : 'schedules';
+  return {
+    type,
+    ...(trigger.branches !== undefined ? { branches: trigger.branches } : {}),
+    ...(trigger.paths !== undefined ? { paths: trigger.paths } : {}),
+    ...(trigger.tags !== undefined ? { tags: trigger.tags } : {}),
+    ...(trigger.schedule !== undefined ? { schedule: trigger.schedule } : {}),
+  };
+}
+
+// ============================================================================
+// Variable Rewriting
+// ============================================================================
+
+/**
+ * Map macro names to the shell variable they stand for: variables set with
+ * ##vso[task.setvariable] and declared variables stand for themselves, and
+ * variables mapped from an output (`$[ dependencies.A.outputs['step.NAME'] ]`)
+ * stand for that output's variable
+ */
+function collectVariableAliases(pipeline: AzurePipeline): Map<string, string> {
+  const aliases = new Map<string, string>();
+  const declare = (values: Readonly<Record<string, string>>): void => {
+    for (const [name, value] of Object.entries(values)) {
+      aliases.set(name, OUTPUT_REFERENCE.exec(value)?.[1] ?? name);
+    }
+  };
+
+  declare(pipeline.variables.values);
+  for (const stage of pipeline.stages) {
+    declare(stage.variables.values);
+  }
+  for (const job of pipeline.jobs) {
+    declare(job.variables.values);
+    for (const name of setVariables(job)) {
+      aliases.set(name, name);
+    }
+  }
+
+  return aliases;
+}
+
+function setVariables(job: AzureJob): string[] {
+  return job.steps.flatMap(step =>
+    Array.from((step.script ?? '').matchAll(SET_VARIABLE), match => match[1] ?? '')
+  );
+}
+
+/**
+ * Rewrite Azure logging commands and macros into shell syntax. `$(NAME)` is
+ * only rewritten for known variables, as it is also shell command substitution.
+ */
+function rewriteMacros(command: string, aliases: ReadonlyMap<string, string>): string {
+  return command
+    .replace(SET_VARIABLE, (_, name: string) => `${name.split('.').pop() ?? name}=`)
+    .replace(MACRO, (macro, name: string) => {
+      const alias = aliases.get(name) ?? aliases.get(name.split('.').pop() ?? name);
+      return alias !== undefined ? `\${${alias}}` : macro;
+    });
+}
+
+// ============================================================================
+// Terraform-to-Helm Flow Detection
+// ============================================================================
+
+/**
+ * Run the crossref Terraform-to-Helm pattern detectors over the steps of a
+ * pipeline's jobs
+ */
+export function detectAzureFlows(
+  pipeline: AzurePipeline,
+  minConfidence = 0
+): TerraformToHelmFlow[] {
+  return detectWorkflowFlows(toParsedWorkflow(pipeline), minConfidence);
+}
+
+/**
+ * Build the detection context the pattern detectors run over
+ */
+export function createDetectionContext(pipeline: AzurePipeline): TfHelmDetectionContext {
+  return createWorkflowDetectionContext(toParsedWorkflow(pipeline));
+}
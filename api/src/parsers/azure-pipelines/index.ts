@@ -0,0 +1,31 @@
+/**
+ * Azure Pipelines Parser Module
+ * @module parsers/azure-pipelines
+ *
+ * Exports all Azure Pipelines parsing types and utilities.
+ *
+ * TASK-AZP-001: Azure Pipelines parsing
+ */
+
+// Types
+export * from './types.js';
+
+// Template Loading
+export {
+  NodeAzureTemplateLoader,
+  createAzureTemplateLoader,
+} from './template-loader.js';
+
+// Crossref Adapter
+export {
+  toParsedWorkflow as toAzureParsedWorkflow,
+  detectAzureFlows,
+  createDetectionContext as createAzureDetectionContext,
+} from './crossref-adapter.js';
+
+// Azure Pipelines Parser
+export {
+  AzurePipelinesParser,
+  createAzurePipelinesParser,
+  parseAzurePipeline,
+} from './azure-pipelines-parser.js';
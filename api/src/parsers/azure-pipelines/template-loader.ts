@@ -0,0 +1,53 @@
+/**
+ * Azure Pipelines Template Loader
+ * @module parsers/azure-pipelines/template-loader
+ *
+ * Loads templates of the pipeline's own repository from a local checkout.
+ * Relative template paths resolve against the directory of the file that
+ * references them; paths starting with '/' resolve against the repository
+ * root.
+ *
+ * TASK-AZP-001: Azure Pipelines parsing
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import type { AzureTemplateLoader } from './types.js';
+
+/**
+ * Template loader over a local checkout
+ */
+export class NodeAzureTemplateLoader implements AzureTemplateLoader {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async load(
+    templatePath: string,
+    fromFile: string
+  ): Promise<{ content: string; filePath: string } | null> {
+    const relative = templatePath.startsWith('/')
+      ? templatePath.slice(1)
+      : path.posix.join(path.posix.dirname(fromFile.replace(/\\/g, '/')), templatePath);
+    const resolved = path.resolve(this.rootDir, relative);
+    if (!resolved.startsWith(this.rootDir + path.sep)) {
+      return null;
+    }
+
+    try {
+      const content = await fs.readFile(resolved, 'utf-8');
+      return { content, filePath: path.relative(this.rootDir, resolved).split(path.sep).join('/') };
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Create a template loader over a local checkout
+ */
+export function createAzureTemplateLoader(rootDir: string): AzureTemplateLoader {
+  return new NodeAzureTemplateLoader(rootDir);
+}
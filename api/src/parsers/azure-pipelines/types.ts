@@ -0,0 +1,329 @@
+/**
+ * Azure Pipelines Parser Types
+ * @module parsers/azure-pipelines/types
+ *
+ * Type definitions for azure-pipelines.yml parsing. Graph nodes reuse the
+ * generic PIPELINE / PIPELINE_JOB shapes from crossref/pipeline-node, with
+ * one job node per job or deployment job.
+ *
+ * TASK-AZP-001: Azure Pipelines parsing
+ */
+
+import type {
+  JobDependsOnEdge,
+  PipelineContainsEdge,
+  PipelineJobNode,
+  PipelineNode,
+} from '../crossref/pipeline-node.js';
+import type { TerraformToHelmFlow } from '../crossref/types.js';
+
+// ============================================================================
+// Pipeline Types
+// ============================================================================
+
+/**
+ * Where a template is referenced from
+ */
+export type AzureTemplateKind = 'stage' | 'job' | 'step' | 'variables' | 'extends';
+
+/**
+ * A `template:` reference
+ */
+export interface AzureTemplateReference {
+  readonly kind: AzureTemplateKind;
+  /** Template path as written, without any `@repository` suffix */
+  readonly path: string;
+  /** Repository resource alias after `@`; absent for the pipeline's own repo */
+  readonly repository?: string;
+  readonly parameters: Readonly<Record<string, unknown>>;
+  /** File the reference appears in */
+  readonly fromFile: string;
+  /** Whether the template was loaded and expanded */
+  readonly resolved: boolean;
+}
+
+/**
+ * Variables of a pipeline, stage or job
+ */
+export interface AzureVariables {
+  /** Inline variables by name */
+  readonly values: Readonly<Record<string, string>>;
+  /** Linked variable groups */
+  readonly groups: readonly string[];
+}
+
+/**
+ * A step of a job
+ */
+export interface AzureStep {
+  /** Index within the job, in run order */
+  readonly index: number;
+  /** script, bash, pwsh, powershell, task, checkout, download, publish, ... */
+  readonly type: string;
+  /** Step `name`, used to reference its output variables */
+  readonly name?: string;
+  readonly displayName?: string;
+  /** Inline script of script steps and inline-script tasks */
+  readonly script?: string;
+  /** Task reference of task steps (e.g. TerraformTaskV4@4) */
+  readonly task?: string;
+  readonly inputs?: Readonly<Record<string, string>>;
+  readonly workingDirectory?: string;
+  readonly env?: Readonly<Record<string, string>>;
+  readonly condition?: string;
+}
+
+/**
+ * A job or deployment job
+ */
+export interface AzureJob {
+  /** Stage and job name joined with '/', or the job name without stages */
+  readonly id: string;
+  readonly name: string;
+  readonly displayName?: string;
+  readonly stage?: string;
+  readonly kind: 'job' | 'deployment';
+  /** Job names of the dependsOn list as written */
+  readonly dependsOn: readonly string[];
+  /** IDs of the jobs that complete before this one, including through stage dependencies */
+  readonly needs: readonly string[];
+  readonly condition?: string;
+  /** Pool name or vmImage */
+  readonly pool?: string;
+  /** Environment of a deployment job */
+  readonly environment?: string;
+  readonly variables: AzureVariables;
+  readonly steps: readonly AzureStep[];
+  /** Template the job was expanded from */
+  readonly template?: string;
+  readonly lineStart?: number;
+  readonly lineEnd?: number;
+}
+
+/**
+ * A stage
+ */
+export interface AzureStage {
+  readonly name: string;
+  readonly displayName?: string;
+  /** Stages that complete before this one; the previous stage unless set */
+  readonly dependsOn: readonly string[];
+  readonly condition?: string;
+  readonly variables: AzureVariables;
+  /** IDs of the stage's jobs */
+  readonly jobs: readonly string[];
+  readonly template?: string;
+  readonly lineStart?: number;
+  readonly lineEnd?: number;
+}
+
+/**
+ * Trigger from the trigger, pr and schedules sections
+ */
+export interface AzureTrigger {
+  readonly type: 'push' | 'pr' | 'schedule';
+  readonly branches?: readonly string[];
+  readonly paths?: readonly string[];
+  readonly tags?: readonly string[];
+  readonly schedule?: string;
+}
+
+/**
+ * A parsed pipeline
+ */
+export interface AzurePipeline {
+  readonly filePath: string;
+  readonly name?: string;
+  readonly triggers: readonly AzureTrigger[];
+  readonly pool?: string;
+  readonly variables: AzureVariables;
+  /** Repository resources by alias */
+  readonly repositories: Readonly<Record<string, string>>;
+  /** Stages in source order; empty for pipelines declaring jobs or steps at the top */
+  readonly stages: readonly AzureStage[];
+  /** All jobs in source order */
+  readonly jobs: readonly AzureJob[];
+  /** Template references, resolved or not */
+  readonly templates: readonly AzureTemplateReference[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** File names Azure DevOps picks up by default */
+export const AZURE_PIPELINES_FILE_NAMES = ['azure-pipelines.yml', 'azure-pipelines.yaml'] as const;
+
+/** Separator of job IDs of jobs inside stages */
+export const AZURE_JOB_ID_SEPARATOR = '/';
+
+/** Maximum nesting of templates */
+export const AZURE_MAX_TEMPLATE_DEPTH = 20;
+
+// ============================================================================
+// Template Loading
+// ============================================================================
+
+/**
+ * Loads template files referenced by a pipeline
+ */
+export interface AzureTemplateLoader {
+  /**
+   * Load a template of the pipeline's own repository
+   * @param templatePath - Path as written in the template reference
+   * @param fromFile - File containing the reference
+   * @returns Template content and the path it was loaded from, or null if missing
+   */
+  load(templatePath: string, fromFile: string): Promise<{ content: string; filePath: string } | null>;
+}
+
+// ============================================================================
+// Parse Result Types
+// ============================================================================
+
+/**
+ * Azure Pipelines parse error codes
+ */
+export type AzureParseErrorCode =
+  | 'INVALID_YAML'
+  | 'NOT_A_PIPELINE'
+  | 'TEMPLATE_NOT_FOUND'
+  | 'TEMPLATE_CYCLE'
+  | 'UNKNOWN_DEPENDENCY'
+  | 'DUPLICATE_JOB';
+
+/**
+ * Azure Pipelines parse error or warning
+ */
+export interface AzureParseError {
+  readonly message: string;
+  readonly file: string;
+  readonly line?: number;
+  readonly column?: number;
+  readonly severity: 'error' | 'warning';
+  readonly code: AzureParseErrorCode;
+}
+
+/**
+ * Parse metadata for an Azure pipeline
+ */
+export interface AzureParseMetadata {
+  readonly filePath: string;
+  readonly parserName: string;
+  readonly parserVersion: string;
+  readonly parseTimeMs: number;
+  readonly fileSize: number;
+  readonly lineCount: number;
+  readonly stageCount: number;
+  readonly jobCount: number;
+  readonly stepCount: number;
+  readonly templateCount: number;
+}
+
+/**
+ * Result of parsing an Azure pipeline
+ */
+export interface AzureParseResult {
+  readonly success: boolean;
+  readonly pipeline: AzurePipeline;
+  /** Pipeline node followed by one job node per job */
+  readonly nodes: readonly (PipelineNode | PipelineJobNode)[];
+  readonly edges: readonly (PipelineContainsEdge | JobDependsOnEdge)[];
+  /** Terraform-to-Helm flows found by the crossref pattern detectors */
+  readonly flows: readonly TerraformToHelmFlow[];
+  readonly errors: readonly AzureParseError[];
+  readonly warnings: readonly AzureParseError[];
+  readonly metadata: AzureParseMetadata;
+}
+
+// ============================================================================
+// Parser Options
+// ============================================================================
+
+/**
+ * Azure Pipelines parser options
+ */
+export interface AzureParserOptions {
+  /** Run the crossref Terraform-to-Helm pattern detectors over steps */
+  readonly detectFlows?: boolean;
+  /** Minimum confidence of reported flows (0-100) */
+  readonly minFlowConfidence?: number;
+  /** Scan ID recorded on graph nodes */
+  readonly scanId?: string;
+  /** Loader for local templates; templates are recorded but not expanded without one */
+  readonly templateLoader?: AzureTemplateLoader | null;
+}
+
+/**
+ * Default Azure Pipelines parser options
+ */
+export const DEFAULT_AZURE_PARSER_OPTIONS: Required<AzureParserOptions> = {
+  detectFlows: true,
+  minFlowConfidence: 0,
+  scanId: '',
+  templateLoader: null,
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check whether a path names an Azure Pipelines file (azure-pipelines.yml,
+ * deploy.azure-pipelines.yml, or any YAML file under .azure-pipelines/ or
+ * .azuredevops/)
+ */
+export function isAzurePipelinesPath(filePath: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/');
+  const name = normalized.split('/').pop() ?? '';
+  if (!/\.ya?ml$/i.test(name)) {
+    return false;
+  }
+  return /(^|[.-])azure-pipelines\.ya?ml$/i.test(name)
+    || /(^|\/)\.(azure-pipelines|azuredevops)\//i.test(normalized);
+}
+
+/**
+ * Split a `path@repository` template reference
+ */
+export function splitTemplateReference(reference: string): { path: string; repository?: string } {
+  const at = reference.lastIndexOf('@');
+  return at > 0
+    ? { path: reference.slice(0, at), repository: reference.slice(at + 1) }
+    : { path: reference };
+}
+
+/**
+ * Create an empty parse result
+ */
+export function createEmptyAzureParseResult(filePath: string): AzureParseResult {
+  return {
+    success: true,
+    pipeline: {
+      filePath,
+      triggers: [],
+      variables: { values: {}, groups: [] },
+      repositories: {},
+      stages: [],
+      jobs: [],
+      templates: [],
+    },
+    nodes: [],
+    edges: [],
+    flows: [],
+    errors: [],
+    warnings: [],
+    metadata: {
+      filePath,
+      parserName: 'azure-pipelines-parser',
+      parserVersion: '1.0.0',
+      parseTimeMs: 0,
+      fileSize: 0,
+      lineCount: 0,
+      stageCount: 0,
+      jobCount: 0,
+      stepCount: 0,
+      templateCount: 0,
+    },
+  };
+}
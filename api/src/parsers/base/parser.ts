@@ -489,8 +489,8 @@ export abstract class BaseParser<T> implements IParser<T> {
     const parts = filePath.split('.');
     if (parts.length < 2) return '';
 
-    // Handle compound extensions like .tf.json
-    if (parts.length >= 3 && parts[parts.length - 2] === 'tf') {
+    // Handle compound extensions like .tf.json, .tofu.json and .tfvars.json
+    if (parts.length >= 3 && ['tf', 'tofu', 'tfvars'].includes(parts[parts.length - 2] ?? '')) {
       return `.${parts.slice(-2).join('.')}`;
     }
 
@@ -548,7 +548,10 @@ export type IaCFormat =
   | 'docker-compose'
   | 'dockerfile'
   | 'arm-template'
-  | 'bicep';
+  | 'bicep'
+  | 'github-actions'
+  | 'gitlab-ci'
+  | 'jenkins';
 
 // ============================================================================
 // Type Guards
@@ -8,6 +8,7 @@
  *
  * TASK-XREF-002: GitLab CI Parser - Edge Factory
  * TASK-GITLAB-025: Edge Factory for GitLab CI Graph Edges
+ * TASK-GITLAB-006: Cross-Repository Project Includes
  *
  * Supported Edge Types:
  * - gitlab_stage_order: Stage A → Stage B (implicit ordering)
@@ -15,6 +16,7 @@
  * - gitlab_dependencies: Job A depends on artifacts from Job B (legacy)
  * - gitlab_extends: Job A extends template B
  * - gitlab_includes: Pipeline includes another config
+ * - gitlab_includes_project: Pipeline includes a config from another scanned repository
  * - gitlab_uses_tf: Job uses Terraform
  * - gitlab_uses_helm: Job uses Helm
  * - gitlab_artifact_flow: Artifact passes between jobs (TF→Helm)
@@ -47,10 +49,12 @@ import {
   TerraformCommand,
   HelmCommand,
   isGitLabNeedObject,
+  isGitLabProjectInclude,
   createGitLabPipelineId,
   createGitLabStageId,
   createGitLabJobId,
 } from './types';
+import type { ResolvedInclude } from './gitlab-include-resolver.js';
 
 // ============================================================================
 // Edge Evidence Types
@@ -677,6 +681,66 @@ export class GitLabEdgeFactory {
     return edges;
   }
 
+  /**
+   * Create cross-repository include edges for resolved project includes.
+   *
+   * Creates edges from the pipeline to the pipeline node the included
+   * project's own scan creates for the included file. Only includes read
+   * from a known repository snapshot get an edge, so rollups can join both
+   * repositories on the repository ID and file.
+   *
+   * @param resolved - Resolved includes, e.g. from GitLabIncludeResolver.resolveAll
+   * @param pipelineNodeId - ID of the including pipeline node
+   * @param filePath - Source file path for evidence
+   * @returns Array of cross-repository include edges
+   */
+  createProjectIncludeEdges(
+    resolved: readonly ResolvedInclude[],
+    pipelineNodeId: string,
+    filePath: string
+  ): GitLabEdge[] {
+    const edges: GitLabEdge[] = [];
+    const seen = new Set<string>();
+
+    for (const { include, source } of resolved) {
+      if (!isGitLabProjectInclude(include) || !source) continue;
+
+      const file = typeof include.file === 'string' ? include.file : include.file[0] ?? '';
+      const includedFile = file.replace(/^\/+/, '');
+      const targetId = createGitLabPipelineId(includedFile);
+      const key = `${source.repositoryId}:${targetId}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const evidence = this.createEvidence(
+        filePath,
+        include.location,
+        this.getIncludeSnippet(include)
+      );
+
+      edges.push({
+        id: this.generateEdgeId(pipelineNodeId, targetId, 'gitlab_includes_project'),
+        source: pipelineNodeId,
+        target: targetId,
+        type: 'gitlab_includes_project',
+        label: `includes ${include.project}:${includedFile}@${source.ref}`,
+        metadata: {
+          implicit: false,
+          confidence: this.defaultConfidence,
+          includePath: this.getIncludePath(include),
+          includedProject: include.project,
+          includedFile,
+          includedRepositoryId: source.repositoryId,
+          includedRef: source.ref,
+          includedCommitSha: source.commitSha,
+          evidence: [evidence],
+        },
+      });
+    }
+
+    return edges;
+  }
+
   // ==========================================================================
   // Tool Edges
   // ==========================================================================
@@ -1304,6 +1368,13 @@ export function isGitLabIncludesEdge(edge: GitLabEdge): boolean {
   return edge.type === 'gitlab_includes';
 }
 
+/**
+ * Type guard for GitLab cross-repository includes edge.
+ */
+export function isGitLabIncludesProjectEdge(edge: GitLabEdge): boolean {
+  return edge.type === 'gitlab_includes_project';
+}
+
 /**
  * Type guard for GitLab Terraform usage edge.
  */
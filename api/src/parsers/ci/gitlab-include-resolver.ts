@@ -8,8 +8,10 @@
  *
  * TASK-GITLAB-004: Include Resolution
  * TASK-GITLAB-005: Extends Inheritance Resolution
+ * TASK-GITLAB-006: Cross-Repository Project Includes
  */
 
+import * as fsPromises from 'fs/promises';
 import * as path from 'path';
 import * as yaml from 'yaml';
 import {
@@ -74,6 +76,24 @@ export interface GitLabApiAdapter {
     file: string,
     ref?: string
   ): Promise<boolean>;
+  /** Describe the repository snapshot a project file is read from, if known */
+  describeProjectFile?(
+    project: string,
+    file: string,
+    ref?: string
+  ): Promise<GitLabProjectFileSource | null>;
+}
+
+/**
+ * Repository snapshot a project include was read from
+ */
+export interface GitLabProjectFileSource {
+  /** Platform repository ID of the included project */
+  readonly repositoryId: string;
+  /** Ref the file was read at (the include's ref or the default branch) */
+  readonly ref: string;
+  /** Commit the file was read at */
+  readonly commitSha: string;
 }
 
 /**
@@ -94,6 +114,8 @@ export interface ResolvedInclude {
   readonly depth: number;
   /** Source location */
   readonly location?: SourceLocation;
+  /** Repository snapshot of a resolved project include */
+  readonly source?: GitLabProjectFileSource;
 }
 
 /**
@@ -191,12 +213,7 @@ export interface ResolvedGitLabJob extends RawGitLabJob {
  * Default file system adapter using Node.js fs
  */
 export class NodeFileSystemAdapter implements FileSystemAdapter {
-  private readonly fs: typeof import('fs/promises');
-
-  constructor() {
-    // Dynamic import to support both Node.js and browser environments
-    this.fs = require('fs/promises');
-  }
+  private readonly fs: typeof import('fs/promises') = fsPromises;
 
   async readFile(filePath: string): Promise<string> {
     return this.fs.readFile(filePath, 'utf-8');
@@ -274,6 +291,8 @@ export class GitLabIncludeResolver {
   private readonly maxDepth: number;
   /** Content cache */
   private readonly cache: Map<string, string>;
+  /** Repository snapshots of cached project includes */
+  private readonly projectSources: Map<string, GitLabProjectFileSource>;
   /** Currently resolving paths (for circular detection) */
   private readonly resolving: Set<string>;
   /** Resolver options */
@@ -294,6 +313,7 @@ export class GitLabIncludeResolver {
     this.gitlabApi = gitlabApi;
     this.maxDepth = options.maxDepth ?? 10;
     this.cache = new Map();
+    this.projectSources = new Map();
     this.resolving = new Set();
     this.options = {
       enableCache: options.enableCache ?? true,
@@ -326,7 +346,7 @@ export class GitLabIncludeResolver {
     // Reset resolving set for new resolution
     this.resolving.clear();
 
-    for (const include of includes) {
+    for (const include of this.expandProjectIncludes(includes)) {
       try {
         const result = await this.resolveInclude(include, basePath, 0, [basePath]);
 
@@ -343,7 +363,10 @@ export class GitLabIncludeResolver {
 
           // Recursively resolve nested includes
           if (result.parsed && typeof result.parsed === 'object') {
-            const nestedIncludes = this.extractIncludes(result.parsed as Record<string, unknown>);
+            const nestedIncludes = this.scopeNestedIncludes(
+              this.extractIncludes(result.parsed as Record<string, unknown>),
+              include
+            );
             if (nestedIncludes.length > 0 && result.depth < this.maxDepth) {
               const nestedResult = await this.resolveNestedIncludes(
                 nestedIncludes,
@@ -855,15 +878,28 @@ export class GitLabIncludeResolver {
     const fileStr = Array.isArray(file) ? file[0] : file;
     const cacheKey = `project:${project}:${fileStr}:${ref ?? 'default'}`;
 
+    // Check for circular include across project files
+    if (this.detectCircularDependency(cacheKey, chain)) {
+      return {
+        include,
+        resolvedPath: cacheKey,
+        content: null,
+        depth,
+        error: `Circular include detected: ${cacheKey}`,
+      };
+    }
+
     // Check cache
     if (this.options.enableCache && this.cache.has(cacheKey)) {
       const content = this.cache.get(cacheKey)!;
+      const source = this.projectSources.get(cacheKey);
       return {
         include,
         resolvedPath: cacheKey,
         content,
         parsed: this.parseYaml(content, cacheKey),
         depth,
+        ...(source ? { source } : {}),
       };
     }
 
@@ -880,10 +916,14 @@ export class GitLabIncludeResolver {
 
     try {
       const content = await this.gitlabApi.fetchProjectFile(project, fileStr, ref);
+      const source = await this.gitlabApi.describeProjectFile?.(project, fileStr, ref) ?? null;
 
       // Cache the content
       if (this.options.enableCache) {
         this.cache.set(cacheKey, content);
+        if (source) {
+          this.projectSources.set(cacheKey, source);
+        }
       }
 
       return {
@@ -892,6 +932,7 @@ export class GitLabIncludeResolver {
         content,
         parsed: this.parseYaml(content, cacheKey),
         depth,
+        ...(source ? { source } : {}),
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -939,7 +980,7 @@ export class GitLabIncludeResolver {
     const failed: FailedInclude[] = [];
     const circularDependencies: CircularDependency[] = [];
 
-    for (const include of includes) {
+    for (const include of this.expandProjectIncludes(includes)) {
       try {
         const result = await this.resolveInclude(include, basePath, depth, chain);
 
@@ -956,7 +997,10 @@ export class GitLabIncludeResolver {
 
           // Continue recursively
           if (result.parsed && typeof result.parsed === 'object') {
-            const nestedIncludes = this.extractIncludes(result.parsed as Record<string, unknown>);
+            const nestedIncludes = this.scopeNestedIncludes(
+              this.extractIncludes(result.parsed as Record<string, unknown>),
+              include
+            );
             if (nestedIncludes.length > 0 && depth < this.maxDepth) {
               const nestedResult = await this.resolveNestedIncludes(
                 nestedIncludes,
@@ -989,6 +1033,42 @@ export class GitLabIncludeResolver {
   // Helper Methods
   // ============================================================================
 
+  /**
+   * Split project includes listing several files into one include per file
+   */
+  private expandProjectIncludes(includes: readonly GitLabInclude[]): GitLabInclude[] {
+    return includes.flatMap((include): GitLabInclude[] => {
+      if (!isGitLabProjectInclude(include) || typeof include.file === 'string') {
+        return [include];
+      }
+      return include.file.map((file: string) => ({ ...include, file }));
+    });
+  }
+
+  /**
+   * Local includes of a file from another project refer to that project,
+   * so they are resolved as project includes at the same ref
+   */
+  private scopeNestedIncludes(
+    includes: readonly GitLabInclude[],
+    parent: GitLabInclude
+  ): GitLabInclude[] {
+    if (!isGitLabProjectInclude(parent)) {
+      return [...includes];
+    }
+    return includes.map((include): GitLabInclude => {
+      if (!isGitLabLocalInclude(include)) {
+        return include;
+      }
+      return {
+        type: 'project',
+        project: parent.project,
+        file: include.local,
+        ...(parent.ref !== undefined ? { ref: parent.ref } : {}),
+      };
+    });
+  }
+
   /**
    * Detect circular dependency
    */
@@ -1229,13 +1309,3 @@ export function createGitLabIncludeResolverWithAdapters(
 ): GitLabIncludeResolver {
   return new GitLabIncludeResolver(fs, options, http, gitlabApi);
 }
-
-// ============================================================================
-// Re-exports
-// ============================================================================
-
-export {
-  GitLabIncludeResolver,
-  NodeFileSystemAdapter,
-  DefaultHttpAdapter,
-};
@@ -61,6 +61,7 @@ export type {
   FileSystemAdapter,
   HttpAdapter,
   GitLabApiAdapter,
+  GitLabProjectFileSource,
   ResolvedInclude,
   FailedInclude,
   CircularDependency,
@@ -134,6 +135,7 @@ export {
   isGitLabDependenciesEdge,
   isGitLabExtendsEdge,
   isGitLabIncludesEdge,
+  isGitLabIncludesProjectEdge,
   isGitLabUsesTfEdge,
   isGitLabUsesHelmEdge,
   isGitLabArtifactFlowEdge,
@@ -925,6 +925,7 @@ export type GitLabEdgeType =
   | 'gitlab_extends'           // Job extends another
   | 'gitlab_trigger'           // Trigger downstream pipeline
   | 'gitlab_includes'          // Include configuration
+  | 'gitlab_includes_project'  // Include from another scanned repository
   | 'gitlab_uses_tf'           // Job uses Terraform
   | 'gitlab_uses_helm'         // Job uses Helm
   | 'gitlab_artifact_flow';    // Artifact passing
@@ -947,6 +948,16 @@ export interface GitLabEdgeMetadata {
   readonly artifactPaths?: readonly string[];
   /** Include path (for includes) */
   readonly includePath?: string;
+  /** Included project path (for includes_project) */
+  readonly includedProject?: string;
+  /** Included file in the project (for includes_project) */
+  readonly includedFile?: string;
+  /** Repository ID of the included project (for includes_project) */
+  readonly includedRepositoryId?: string;
+  /** Ref the included file was read at (for includes_project) */
+  readonly includedRef?: string;
+  /** Commit the included file was read at (for includes_project) */
+  readonly includedCommitSha?: string;
   /** Terraform command (for uses_tf) */
   readonly terraformCommand?: string;
   /** Helm command (for uses_helm) */
@@ -1771,6 +1782,15 @@ export function isGitLabIncludesEdge(edge: GraphEdge): edge is GitLabEdge {
   return edge.type === 'gitlab_includes';
 }
 
+/**
+ * Type guard for includes edge to another repository
+ * @param edge - Edge to check
+ * @returns True if edge is a cross-repository includes edge
+ */
+export function isGitLabIncludesProjectEdge(edge: GraphEdge): edge is GitLabEdge {
+  return edge.type === 'gitlab_includes_project';
+}
+
 /**
  * Type guard for job that has Terraform commands
  * @param job - Job to check
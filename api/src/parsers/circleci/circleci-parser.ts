@@ -0,0 +1,780 @@
+/**
+ * CircleCI Parser
+ * @module parsers/circleci/circleci-parser
+ *
+ * Parses .circleci/config.yml into workflows and job invocations, expanding
+ * reusable commands, job parameters and matrix jobs. Workflow `requires`
+ * become job needs, job invocations become PIPELINE_JOB nodes, and run steps
+ * and Terraform / Helm orb steps are run through the crossref
+ * Terraform-to-Helm pattern detectors.
+ *
+ * TASK-CIRCLECI-001: CircleCI config parsing
+ */
+
+import * as yaml from 'yaml';
+import { createPipelineNodes } from '../crossref/pipeline-node.js';
+import { detectCircleFlows, toParsedWorkflow } from './crossref-adapter.js';
+import {
+  CIRCLE_BUILTIN_STEPS,
+  CIRCLE_JOB_ID_SEPARATOR,
+  CIRCLE_MAX_COMMAND_DEPTH,
+  DEFAULT_CIRCLE_PARSER_OPTIONS,
+  isCircleConfigPath,
+  parseOrbReference,
+  type CircleConfig,
+  type CircleExecutor,
+  type CircleJob,
+  type CircleOrb,
+  type CircleParseError,
+  type CircleParseResult,
+  type CircleParserOptions,
+  type CircleStep,
+  type CircleWorkflow,
+} from './types.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParserOptions,
+} from '../base/parser.js';
+
+/**
+ * Line range of a YAML mapping or sequence in the parsed file
+ */
+interface LineRange {
+  readonly lineStart: number;
+  readonly lineEnd: number;
+}
+
+/**
+ * A job invocation before its requires are resolved
+ */
+type JobDraft = Omit<CircleJob, 'needs'>;
+
+/** Keys of a workflow job entry that are not job parameters */
+const INVOCATION_KEYS = new Set([
+  'requires', 'context', 'filters', 'name', 'matrix', 'type', 'pre-steps', 'post-steps', 'serial-group', 'override-with',
+]);
+
+/** Executor keys of a job or executor definition */
+const EXECUTOR_TYPES = ['docker', 'machine', 'macos', 'windows'] as const;
+
+// ============================================================================
+// CircleCI Parser
+// ============================================================================
+
+/**
+ * Parser for .circleci/config.yml files.
+ */
+export class CircleCIParser extends BaseParser<CircleParseResult> {
+  readonly name = 'circleci-parser';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['.yml', '.yaml'] as const;
+  readonly supportedMimeTypes = ['application/x-yaml', 'text/yaml'] as const;
+
+  private readonly circleOptions: Required<CircleParserOptions>;
+
+  constructor(options?: ParserOptions & Partial<CircleParserOptions>) {
+    super(options);
+    this.circleOptions = { ...DEFAULT_CIRCLE_PARSER_OPTIONS, ...options };
+  }
+
+  /**
+   * Check if this parser can handle the given file.
+   * With content, requires a top-level jobs or workflows key.
+   */
+  override canParse(filePath: string, content?: string): boolean {
+    if (!isCircleConfigPath(filePath)) {
+      return false;
+    }
+    return content === undefined || /^(jobs|workflows)\s*:/m.test(content);
+  }
+
+  /**
+   * Parse config content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    _options: Required<ParserOptions>
+  ): Promise<ParseResult<CircleParseResult>> {
+    const startTime = performance.now();
+    const errors: CircleParseError[] = [];
+    const warnings: CircleParseError[] = [];
+
+    const locations = new WeakMap<object, LineRange>();
+    const read = readYaml(content, locations);
+    const root = isRecord(read.value) ? read.value : null;
+    for (const err of read.errors) {
+      errors.push({ ...err, file: filePath, severity: 'error', code: 'INVALID_YAML' });
+    }
+    if (errors.length === 0 && !(root && (isRecord(root.jobs) || isRecord(root.workflows)))) {
+      errors.push({
+        message: 'File has no jobs or workflows',
+        file: filePath,
+        severity: 'error',
+        code: 'NOT_A_CONFIG',
+      });
+    }
+
+    if (errors.length > 0 || !root) {
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.line !== undefined
+            ? this.createLocation(filePath, e.line, e.line, e.column ?? 0, e.column ?? 0)
+            : null,
+          severity: 'error' as const,
+        })),
+        null,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const config = new CircleConfigReader(filePath, root, locations, warnings).read();
+    const { nodes, edges } = createPipelineNodes(toParsedWorkflow(config), this.circleOptions.scanId);
+    const flows = this.circleOptions.detectFlows
+      ? detectCircleFlows(config, this.circleOptions.minFlowConfidence)
+      : [];
+
+    const result: CircleParseResult = {
+      success: true,
+      config,
+      nodes,
+      edges,
+      flows,
+      errors,
+      warnings,
+      metadata: {
+        filePath,
+        parserName: this.name,
+        parserVersion: this.version,
+        parseTimeMs: performance.now() - startTime,
+        fileSize: content.length,
+        lineCount: content.split('\n').length,
+        workflowCount: config.workflows.length,
+        jobCount: config.jobs.length,
+        stepCount: config.jobs.reduce((count, job) => count + job.steps.length, 0),
+        orbCount: config.orbs.length,
+      },
+    };
+
+    return this.createSuccess(
+      result,
+      warnings.map(w => ({
+        code: w.code,
+        message: w.message,
+        location: w.line !== undefined
+          ? this.createLocation(filePath, w.line, w.line, 0, 0)
+          : null,
+        severity: 'warning' as const,
+      })),
+      this.createMetadata(filePath, startTime, content)
+    );
+  }
+}
+
+// ============================================================================
+// Config Reader
+// ============================================================================
+
+/**
+ * Reads one config file: its reusable definitions and workflows
+ */
+class CircleConfigReader {
+  private readonly jobs: Record<string, unknown>;
+  private readonly commands: Record<string, unknown>;
+  private readonly executors: Record<string, unknown>;
+  private readonly orbs: CircleOrb[];
+  private readonly pipelineParameters: Record<string, string>;
+
+  constructor(
+    private readonly filePath: string,
+    private readonly root: Record<string, unknown>,
+    private readonly locations: WeakMap<object, LineRange>,
+    private readonly warnings: CircleParseError[]
+  ) {
+    this.jobs = isRecord(root.jobs) ? root.jobs : {};
+    this.commands = isRecord(root.commands) ? root.commands : {};
+    this.executors = isRecord(root.executors) ? root.executors : {};
+    this.orbs = readOrbs(root.orbs);
+    this.pipelineParameters = Object.fromEntries(
+      Object.entries(readParameterDefaults(root.parameters)).map(([name, value]) => [name, toScalarString(value)])
+    );
+  }
+
+  read(): CircleConfig {
+    const workflows: CircleWorkflow[] = [];
+    const drafts: JobDraft[] = [];
+    const aliases = new Map<string, string[]>();
+
+    const workflowsValue = isRecord(this.root.workflows) ? this.root.workflows : {};
+    for (const [name, workflow] of Object.entries(workflowsValue)) {
+      // `version` sits beside the workflows in 2.0 configs
+      if (!isRecord(workflow)) {
+        continue;
+      }
+      const jobs = this.readWorkflowJobs(name, workflow.jobs, aliases);
+      drafts.push(...jobs);
+      const range = this.locations.get(workflow);
+      workflows.push({
+        name,
+        schedules: readSchedules(workflow.triggers),
+        jobs: jobs.map(job => job.id),
+        ...(range ?? {}),
+      });
+    }
+
+    // Without workflows CircleCI runs the job named build
+    if (workflows.length === 0 && 'build' in this.jobs) {
+      drafts.push(this.readInvocation('build', {}, undefined, undefined));
+    }
+
+    return {
+      filePath: this.filePath,
+      version: toScalarString(this.root.version),
+      setup: this.root.setup === true,
+      orbs: this.orbs,
+      parameters: this.pipelineParameters,
+      commands: Object.keys(this.commands),
+      executors: Object.keys(this.executors),
+      workflows,
+      jobs: this.resolveRequires(drafts, aliases),
+    };
+  }
+
+  // ============================================================================
+  // Workflow Jobs
+  // ============================================================================
+
+  /**
+   * Read the job invocations of a workflow. Matrix jobs expand to one
+   * invocation per parameter combination; requiring the job's name requires
+   * every combination, so aliases maps each name to the IDs it stands for.
+   */
+  private readWorkflowJobs(
+    workflow: string,
+    value: unknown,
+    aliases: Map<string, string[]>
+  ): JobDraft[] {
+    const jobs: JobDraft[] = [];
+
+    for (const entry of Array.isArray(value) ? value : []) {
+      let job: string;
+      let invocation: Record<string, unknown>;
+      if (typeof entry === 'string') {
+        job = entry;
+        invocation = {};
+      } else if (isRecord(entry) && Object.keys(entry).length === 1) {
+        job = Object.keys(entry)[0] ?? '';
+        const body = entry[job];
+        invocation = isRecord(body) ? body : {};
+      } else {
+        continue;
+      }
+
+      const baseName = typeof invocation.name === 'string' ? invocation.name : job;
+      for (const matrix of expandMatrix(invocation.matrix)) {
+        const name = Object.keys(matrix).length === 0
+          ? baseName
+          : typeof invocation.name === 'string'
+            ? substitute(invocation.name, { matrix })
+            : `${job}-${Object.values(matrix).join('-')}`;
+        const id = `${workflow}${CIRCLE_JOB_ID_SEPARATOR}${name}`;
+
+        if (jobs.some(draft => draft.id === id)) {
+          continue;
+        }
+        jobs.push(this.readInvocation(job, { ...invocation, ...matrix, name }, workflow, isRecord(entry) ? entry : undefined));
+        const key = `${workflow}${CIRCLE_JOB_ID_SEPARATOR}${baseName}`;
+        aliases.set(key, [...(aliases.get(key) ?? []), id]);
+        if (name !== baseName) {
+          aliases.set(id, [id]);
+        }
+      }
+    }
+
+    return jobs;
+  }
+
+  private readInvocation(
+    job: string,
+    invocation: Record<string, unknown>,
+    workflow: string | undefined,
+    at: object | undefined
+  ): JobDraft {
+    const name = typeof invocation.name === 'string' ? invocation.name : job;
+    const id = workflow !== undefined ? `${workflow}${CIRCLE_JOB_ID_SEPARATOR}${name}` : name;
+    const given = Object.fromEntries(
+      Object.entries(invocation).filter(([key]) => !INVOCATION_KEYS.has(key))
+    );
+    const base = {
+      id,
+      name,
+      job,
+      ...(workflow !== undefined ? { workflow } : {}),
+      requires: readRequires(invocation.requires),
+      contexts: toStringList(invocation.context),
+      ...readBranchFilter(invocation.filters),
+      parameters: toStringRecord(given),
+    };
+
+    if (invocation.type === 'approval') {
+      return { ...base, kind: 'approval', environment: {}, steps: [], ...this.rangeOf(at) };
+    }
+
+    const orb = this.orbOf(job);
+    if (!(job in this.jobs) && orb) {
+      // Orb jobs run the orb's job of the same name
+      const step: CircleStep = {
+        index: 0,
+        type: 'orb',
+        orb: orb.alias,
+        orbCommand: job.slice(orb.alias.length + 1),
+        parameters: toStringRecord(given),
+      };
+      return { ...base, kind: 'orb', environment: {}, steps: [step], ...this.rangeOf(at) };
+    }
+
+    const definition = this.jobs[job];
+    if (!isRecord(definition)) {
+      this.warn('UNKNOWN_JOB', `Workflow '${workflow ?? ''}' runs unknown job '${job}'`, at);
+      return { ...base, kind: 'job', environment: {}, steps: [], ...this.rangeOf(at) };
+    }
+
+    const parameters = { ...readParameterDefaults(definition.parameters), ...given };
+    const body = substituteParameters(definition, { parameters, pipeline: { parameters: this.pipelineParameters } });
+    const resolved = isRecord(body) ? body : {};
+    const executor = this.readExecutor(resolved);
+    const pipeline = { parameters: this.pipelineParameters };
+    const steps = [
+      ...this.expandSteps(substituteParameters(invocation['pre-steps'], { pipeline }), [], at),
+      ...this.expandSteps(resolved.steps, [], definition),
+      ...this.expandSteps(substituteParameters(invocation['post-steps'], { pipeline }), [], at),
+    ].map((step, index) => ({ ...step, index }));
+
+    return {
+      ...base,
+      kind: 'job',
+      ...(executor !== undefined ? { executor } : {}),
+      ...(typeof resolved.working_directory === 'string' ? { workingDirectory: resolved.working_directory } : {}),
+      environment: readEnvironment(resolved.environment),
+      steps,
+      // Invocations are located at their workflow entry, the implicit build job at its definition
+      ...this.rangeOf(at ?? definition),
+    };
+  }
+
+  /**
+   * Invocations require jobs of their own workflow
+   */
+  private resolveRequires(drafts: readonly JobDraft[], aliases: ReadonlyMap<string, readonly string[]>): CircleJob[] {
+    return drafts.map(draft => {
+      const needs: string[] = [];
+      for (const requirement of draft.requires) {
+        const key = draft.workflow !== undefined ? `${draft.workflow}${CIRCLE_JOB_ID_SEPARATOR}${requirement}` : requirement;
+        const ids = aliases.get(key);
+        if (ids) {
+          needs.push(...ids.filter(id => !needs.includes(id)));
+        } else {
+          this.warn('UNKNOWN_DEPENDENCY', `Job '${draft.id}' requires unknown job '${requirement}'`);
+        }
+      }
+      return { ...draft, needs };
+    });
+  }
+
+  // ============================================================================
+  // Steps
+  // ============================================================================
+
+  /**
+   * Expand a steps list: reusable commands are inlined with their parameters
+   * and when / unless steps are inlined as if their condition held
+   */
+  private expandSteps(
+    value: unknown,
+    stack: readonly string[],
+    at: object | undefined
+  ): Omit<CircleStep, 'index'>[] {
+    const steps: Omit<CircleStep, 'index'>[] = [];
+    const fromCommand = stack[stack.length - 1];
+    const origin = fromCommand !== undefined ? { fromCommand } : {};
+
+    for (const entry of Array.isArray(value) ? value : []) {
+      const [key, raw] = typeof entry === 'string'
+        ? [entry, undefined]
+        : isRecord(entry) && Object.keys(entry).length === 1
+          ? [Object.keys(entry)[0] ?? '', Object.values(entry)[0]]
+          : ['', undefined];
+      const args = isRecord(raw) ? raw : {};
+
+      if (key === 'run') {
+        const run = typeof raw === 'string' ? { command: raw } : args;
+        steps.push({
+          type: 'run',
+          ...(typeof run.name === 'string' ? { name: run.name } : {}),
+          command: toScalarString(run.command),
+          ...(typeof run.working_directory === 'string' ? { workingDirectory: run.working_directory } : {}),
+          ...(isRecord(run.environment) ? { environment: toStringRecord(run.environment) } : {}),
+          ...origin,
+        });
+      } else if (key === 'when' || key === 'unless') {
+        steps.push(...this.expandSteps(args.steps, stack, at));
+      } else if (key in this.commands) {
+        steps.push(...this.expandCommand(key, args, stack, isRecord(entry) ? entry : at));
+      } else if ((CIRCLE_BUILTIN_STEPS as readonly string[]).includes(key)) {
+        const paths = toStringList(args.paths);
+        steps.push({
+          type: key,
+          ...(typeof args.name === 'string' ? { name: args.name } : {}),
+          ...(paths.length > 0 ? { paths } : {}),
+          ...origin,
+        });
+      } else if (this.orbOf(key)) {
+        const orb = this.orbOf(key);
+        steps.push({
+          type: 'orb',
+          ...(typeof args.name === 'string' ? { name: args.name } : {}),
+          orb: orb?.alias ?? '',
+          orbCommand: key.slice((orb?.alias.length ?? 0) + 1),
+          parameters: toStringRecord(args),
+          ...origin,
+        });
+      } else if (key !== '') {
+        this.warn('UNKNOWN_COMMAND', `Step '${key}' is not a built-in step, command or orb command`, isRecord(entry) ? entry : at);
+        steps.push({ type: key, ...origin });
+      }
+    }
+
+    return steps;
+  }
+
+  private expandCommand(
+    name: string,
+    given: Record<string, unknown>,
+    stack: readonly string[],
+    at: object | undefined
+  ): Omit<CircleStep, 'index'>[] {
+    if (stack.includes(name) || stack.length >= CIRCLE_MAX_COMMAND_DEPTH) {
+      this.warn('COMMAND_CYCLE', `Command '${name}' invokes itself: ${[...stack, name].join(' -> ')}`, at);
+      return [];
+    }
+
+    const definition = this.commands[name];
+    const declared = isRecord(definition) ? definition.parameters : undefined;
+    const parameters = { ...readParameterDefaults(declared), ...given };
+    const steps = isRecord(definition)
+      ? substituteParameters(definition.steps, { parameters, pipeline: { parameters: this.pipelineParameters } })
+      : [];
+    return this.expandSteps(steps, [...stack, name], at);
+  }
+
+  // ============================================================================
+  // Executors and Orbs
+  // ============================================================================
+
+  private readExecutor(job: Record<string, unknown>): CircleExecutor | undefined {
+    const executor = job.executor;
+    if (executor !== undefined) {
+      const name = typeof executor === 'string' ? executor : isRecord(executor) ? toScalarString(executor.name) : '';
+      const definition = this.executors[name];
+      // Reusable executors resolve to the environment they define
+      const inner = isRecord(definition) ? readInlineExecutor(definition) : undefined;
+      return inner !== undefined ? { ...inner, name } : { type: 'executor', name };
+    }
+    return readInlineExecutor(job);
+  }
+
+  /**
+   * The orb an `alias/name` reference belongs to
+   */
+  private orbOf(reference: string): CircleOrb | undefined {
+    const slash = reference.indexOf('/');
+    return slash > 0 ? this.orbs.find(orb => orb.alias === reference.slice(0, slash)) : undefined;
+  }
+
+  private rangeOf(at: object | undefined): Partial<LineRange> {
+    const range = at !== undefined ? this.locations.get(at) : undefined;
+    return range ?? {};
+  }
+
+  private warn(code: CircleParseError['code'], message: string, at?: object): void {
+    const line = at !== undefined ? this.locations.get(at)?.lineStart : undefined;
+    this.warnings.push({
+      message,
+      file: this.filePath,
+      ...(line !== undefined ? { line } : {}),
+      severity: 'warning',
+      code,
+    });
+  }
+}
+
+// ============================================================================
+// Config Sections
+// ============================================================================
+
+function readOrbs(value: unknown): CircleOrb[] {
+  if (!isRecord(value)) {
+    return [];
+  }
+  return Object.entries(value).map(([alias, reference]) =>
+    typeof reference === 'string' ? parseOrbReference(alias, reference) : { alias, inline: true }
+  );
+}
+
+function readInlineExecutor(definition: Record<string, unknown>): CircleExecutor | undefined {
+  const type = EXECUTOR_TYPES.find(key => key in definition);
+  if (type === undefined) {
+    return undefined;
+  }
+
+  const value = definition[type];
+  const first: unknown = Array.isArray(value) ? value[0] : value;
+  const image = isRecord(first) ? first.image : undefined;
+  const resourceClass = definition.resource_class;
+  return {
+    type,
+    ...(typeof image === 'string' ? { image } : {}),
+    ...(typeof resourceClass === 'string' ? { resourceClass } : {}),
+  };
+}
+
+function readSchedules(triggers: unknown): string[] {
+  const schedules: string[] = [];
+  for (const trigger of Array.isArray(triggers) ? triggers : []) {
+    const schedule = isRecord(trigger) ? trigger.schedule : undefined;
+    if (isRecord(schedule) && typeof schedule.cron === 'string') {
+      schedules.push(schedule.cron);
+    }
+  }
+  return schedules;
+}
+
+/**
+ * Job names of `requires: [a, b]` or `requires: [{ a: [success, failed] }]`
+ */
+function readRequires(value: unknown): string[] {
+  const list = typeof value === 'string' ? [value] : Array.isArray(value) ? value : [];
+  return list.flatMap(item =>
+    typeof item === 'string' ? [item] : isRecord(item) ? Object.keys(item) : []
+  );
+}
+
+function readBranchFilter(filters: unknown): Pick<CircleJob, 'branches'> {
+  const branches = isRecord(filters) && isRecord(filters.branches) ? filters.branches.only : undefined;
+  return branches !== undefined ? { branches: toStringList(branches) } : {};
+}
+
+function readEnvironment(value: unknown): Record<string, string> {
+  if (isRecord(value)) {
+    return toStringRecord(value);
+  }
+  // List form: [KEY=value, ...]
+  const environment: Record<string, string> = {};
+  for (const item of Array.isArray(value) ? value : []) {
+    if (typeof item === 'string' && item.includes('=')) {
+      environment[item.slice(0, item.indexOf('='))] = item.slice(item.indexOf('=') + 1);
+    }
+  }
+  return environment;
+}
+
+function readParameterDefaults(declared: unknown): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {};
+  if (isRecord(declared)) {
+    for (const [name, parameter] of Object.entries(declared)) {
+      if (isRecord(parameter) && 'default' in parameter) {
+        defaults[name] = parameter.default;
+      }
+    }
+  }
+  return defaults;
+}
+
+/**
+ * One parameter set per combination of the matrix's parameter values, or a
+ * single empty set without a matrix
+ */
+function expandMatrix(matrix: unknown): Record<string, string>[] {
+  const parameters = isRecord(matrix) && isRecord(matrix.parameters) ? matrix.parameters : {};
+  let combinations: Record<string, string>[] = [{}];
+
+  for (const [name, values] of Object.entries(parameters)) {
+    const list = Array.isArray(values) ? values.map(toScalarString) : [toScalarString(values)];
+    combinations = combinations.flatMap(combination =>
+      list.map(value => ({ ...combination, [name]: value }))
+    );
+  }
+
+  return combinations;
+}
+
+// ============================================================================
+// Parameter Expressions
+// ============================================================================
+
+const WHOLE_PARAMETER = /^<<\s*((?:pipeline\.)?parameters\.[\w.-]+|matrix\.[\w-]+)\s*>>$/;
+const INLINE_PARAMETER = /<<\s*((?:pipeline\.)?parameters\.[\w.-]+|matrix\.[\w-]+)\s*>>/g;
+
+/**
+ * Replace `<< parameters.x >>` and `<< pipeline.parameters.x >>`
+ * expressions. A value that is only an expression takes the parameter's
+ * value as is, so steps parameters insert their steps.
+ */
+function substituteParameters(value: unknown, scope: Record<string, unknown>): unknown {
+  if (typeof value === 'string') {
+    const whole = WHOLE_PARAMETER.exec(value.trim());
+    if (whole?.[1]) {
+      const resolved = lookupParameter(scope, whole[1]);
+      return resolved === undefined ? value : typeof resolved === 'object' ? resolved : toScalarString(resolved);
+    }
+    return substitute(value, scope);
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(item => {
+      const substituted = substituteParameters(item, scope);
+      return typeof item === 'string' && Array.isArray(substituted) ? substituted : [substituted];
+    });
+  }
+  if (isRecord(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, substituteParameters(item, scope)])
+    );
+  }
+  return value;
+}
+
+/**
+ * Replace parameter expressions inside a string, keeping unknown ones
+ */
+function substitute(value: string, scope: Record<string, unknown>): string {
+  return value.replace(INLINE_PARAMETER, (expression, name: string) => {
+    const resolved = lookupParameter(scope, name);
+    return resolved === undefined ? expression : toScalarString(resolved);
+  });
+}
+
+function lookupParameter(scope: Record<string, unknown>, name: string): unknown {
+  let current: unknown = scope;
+  for (const part of name.split('.')) {
+    current = isRecord(current) ? current[part] : undefined;
+  }
+  return current;
+}
+
+// ============================================================================
+// YAML Helpers
+// ============================================================================
+
+/**
+ * Parse YAML into plain values, recording the line range of each mapping
+ * and sequence
+ */
+function readYaml(
+  content: string,
+  locations: WeakMap<object, LineRange>
+): { value: unknown; errors: { message: string; line?: number; column?: number }[] } {
+  const lineCounter = new yaml.LineCounter();
+  const document = yaml.parseDocument(content, { strict: false, uniqueKeys: false, lineCounter });
+  if (document.errors.length > 0) {
+    return {
+      value: null,
+      errors: document.errors.map(err => {
+        const pos = err.linePos?.[0];
+        return { message: err.message, ...(pos ? { line: pos.line, column: pos.col } : {}) };
+      }),
+    };
+  }
+
+  const toValue = (node: unknown): unknown => {
+    if (yaml.isAlias(node)) {
+      return toValue(node.resolve(document));
+    }
+    if (yaml.isMap(node) || yaml.isSeq(node)) {
+      let value: unknown;
+      if (yaml.isMap(node)) {
+        const record: Record<string, unknown> = {};
+        for (const pair of node.items) {
+          const key = String(yaml.isScalar(pair.key) ? pair.key.value : pair.key);
+          const item = toValue(pair.value);
+          // `<<: *anchor` merges the anchored mapping
+          if (key === '<<' && isRecord(item)) {
+            for (const [mergedKey, merged] of Object.entries(item)) {
+              if (!(mergedKey in record)) {
+                record[mergedKey] = merged;
+              }
+            }
+          } else {
+            record[key] = item;
+          }
+        }
+        value = record;
+      } else {
+        value = node.items.map(toValue);
+      }
+      if (node.range && typeof value === 'object' && value !== null) {
+        const [start, end] = node.range;
+        locations.set(value, {
+          lineStart: lineCounter.linePos(start).line,
+          lineEnd: lineCounter.linePos(Math.max(start, end - 1)).line,
+        });
+      }
+      return value;
+    }
+    if (yaml.isScalar(node)) {
+      return node.value;
+    }
+    return yaml.isNode(node) ? node.toJSON() : node;
+  };
+
+  return { value: toValue(document.contents), errors: [] };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringList(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function toScalarString(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function toStringRecord(value: Record<string, unknown>): Record<string, string> {
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toScalarString(item)]));
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new CircleCI parser instance
+ */
+export function createCircleCIParser(
+  options?: ParserOptions & Partial<CircleParserOptions>
+): CircleCIParser {
+  return new CircleCIParser(options);
+}
+
+/**
+ * Parse CircleCI config content directly
+ */
+export async function parseCircleCIConfig(
+  content: string,
+  filePath: string,
+  options?: ParserOptions & Partial<CircleParserOptions>
+): Promise<ParseResult<CircleParseResult>> {
+  const parser = createCircleCIParser(options);
+  return parser.parse(content, filePath, options);
+}
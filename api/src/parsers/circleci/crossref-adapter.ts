@@ -0,0 +1,153 @@
+/**
+ * CircleCI Crossref Adapter
+ * @module parsers/circleci/crossref-adapter
+ *
+ * Maps a parsed CircleCI config onto the crossref module: job invocations
+ * become the jobs of a ParsedWorkflow, and run steps and the commands of the
+ * Terraform, Helm and Kubernetes orbs become the shell commands the TF-Helm
+ * pattern detectors match.
+ *
+ * TASK-CIRCLECI-001: CircleCI config parsing
+ */
+
+import type { ParsedJob, ParsedStep, ParsedTrigger, ParsedWorkflow } from '../crossref/pipeline-node.js';
+import type { TerraformToHelmFlow, TfHelmDetectionContext } from '../crossref/types.js';
+import { createWorkflowDetectionContext, detectWorkflowFlows } from '../crossref/workflow-flows.js';
+import type { CircleConfig, CircleJob, CircleOrb, CircleStep } from './types.js';
+
+/** Orb commands of circleci/terraform running the terraform subcommand of the same name */
+const TERRAFORM_ORB_COMMANDS = ['init', 'validate', 'fmt', 'plan', 'apply', 'destroy'] as const;
+
+// ============================================================================
+// ParsedWorkflow Conversion
+// ============================================================================
+
+/**
+ * Convert a CircleCI config into the crossref ParsedWorkflow shape
+ */
+export function toParsedWorkflow(config: CircleConfig): ParsedWorkflow {
+  const jobs = new Map<string, ParsedJob>();
+
+  for (const job of config.jobs) {
+    const runsOn = job.executor?.image ?? job.executor?.name;
+    jobs.set(job.id, {
+      id: job.id,
+      name: job.name,
+      ...(job.workflow !== undefined ? { stage: job.workflow } : {}),
+      ...(runsOn !== undefined ? { runsOn } : {}),
+      needs: job.needs,
+      ...(job.contexts.length > 0 ? { environment: job.contexts.join(',') } : {}),
+      steps: job.steps.map(step => toParsedStep(step, job, config.orbs)),
+      ...(job.lineStart !== undefined && job.lineEnd !== undefined
+        ? { location: { lineStart: job.lineStart, lineEnd: job.lineEnd } }
+        : {}),
+    });
+  }
+
+  return {
+    name: config.workflows.length === 1 && config.workflows[0] ? config.workflows[0].name : 'config.yml',
+    filePath: config.filePath,
+    pipelineType: 'circleci',
+    triggers: toParsedTriggers(config),
+    jobs,
+  };
+}
+
+function toParsedStep(step: CircleStep, job: CircleJob, orbs: readonly CircleOrb[]): ParsedStep {
+  const orb = step.orb !== undefined ? orbs.find(candidate => candidate.alias === step.orb) : undefined;
+  const run = step.command ?? (orb !== undefined ? toShellCommand(orb, step) : undefined);
+  const workingDirectory = step.workingDirectory
+    ?? (step.type === 'orb' ? step.parameters?.path ?? step.parameters?.['working-directory'] : undefined)
+    ?? job.workingDirectory;
+  const env = { ...job.environment, ...step.environment };
+
+  return {
+    id: step.name ?? `step-${step.index}`,
+    ...(step.name !== undefined ? { name: step.name } : {}),
+    ...(run !== undefined ? { run } : {}),
+    ...(run === undefined && step.type === 'orb' ? { uses: `${orb?.name ?? step.orb}/${step.orbCommand}` } : {}),
+    ...(run === undefined && step.type !== 'orb' ? { uses: step.type } : {}),
+    ...(workingDirectory !== undefined ? { workingDirectory } : {}),
+    ...(Object.keys(env).length > 0 ? { env } : {}),
+    index: step.index,
+  };
+}
+
+/**
+ * The command an orb command or orb job runs, for the Terraform, Helm and
+ * Kubernetes orbs
+ */
+function toShellCommand(orb: CircleOrb, step: CircleStep): string | undefined {
+  const command = (step.orbCommand ?? '').replace(/-/g, '_');
+  const parameters = step.parameters ?? {};
+  const parameter = (name: string): string | undefined =>
+    parameters[name] ?? parameters[name.replace(/_/g, '-')];
+  const args = (...parts: (string | undefined)[]): string =>
+    parts.filter((part): part is string => part !== undefined && part.trim() !== '').join(' ');
+
+  if (orb.name === 'circleci/terraform') {
+    const subcommand = TERRAFORM_ORB_COMMANDS.find(name => name === command);
+    return subcommand !== undefined
+      ? args('terraform', subcommand, subcommand === 'apply' || subcommand === 'destroy' ? '-auto-approve' : undefined)
+      : undefined;
+  }
+
+  if (orb.name === 'circleci/helm' && /^(upgrade|install)_helm_chart$/.test(command)) {
+    const overrides = (parameter('values_to_override') ?? '')
+      .split(',')
+      .map(value => value.trim())
+      .filter(value => value !== '')
+      .map(value => `--set ${value}`);
+    const namespace = parameter('namespace');
+    const values = parameter('values');
+    return args(
+      'helm', command.startsWith('upgrade') ? 'upgrade --install' : 'install',
+      parameter('release_name'), parameter('chart'),
+      namespace !== undefined ? `--namespace ${namespace}` : undefined,
+      values !== undefined ? `-f ${values}` : undefined,
+      ...overrides, parameter('helm_cmd_args') ?? parameter('add_repo')
+    );
+  }
+
+  if (orb.name === 'circleci/kubernetes' && command === 'create_or_update_resource') {
+    const file = parameter('resource_file_path');
+    return file !== undefined ? `kubectl apply -f ${file}` : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Scheduled workflows run on their cron triggers, the others on push
+ */
+function toParsedTriggers(config: CircleConfig): ParsedTrigger[] {
+  const triggers: ParsedTrigger[] = config.workflows.flatMap(workflow =>
+    workflow.schedules.map(schedule => ({ type: 'schedule', schedule }))
+  );
+  if (config.workflows.length === 0 || config.workflows.some(workflow => workflow.schedules.length === 0)) {
+    triggers.unshift({ type: 'push' });
+  }
+  return triggers;
+}
+
+// ============================================================================
+// Terraform-to-Helm Flow Detection
+// ============================================================================
+
+/**
+ * Run the crossref Terraform-to-Helm pattern detectors over the steps of a
+ * config's jobs
+ */
+export function detectCircleFlows(
+  config: CircleConfig,
+  minConfidence = 0
+): TerraformToHelmFlow[] {
+  return detectWorkflowFlows(toParsedWorkflow(config), minConfidence);
+}
+
+/**
+ * Build the detection context the pattern detectors run over
+ */
+export function createDetectionContext(config: CircleConfig): TfHelmDetectionContext {
+  return createWorkflowDetectionContext(toParsedWorkflow(config));
+}
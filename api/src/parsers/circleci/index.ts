@@ -0,0 +1,25 @@
+/**
+ * CircleCI Parser Module
+ * @module parsers/circleci
+ *
+ * Exports all CircleCI config parsing types and utilities.
+ *
+ * TASK-CIRCLECI-001: CircleCI config parsing
+ */
+
+// Types
+export * from './types.js';
+
+// Crossref Adapter
+export {
+  toParsedWorkflow as toCircleParsedWorkflow,
+  detectCircleFlows,
+  createDetectionContext as createCircleDetectionContext,
+} from './crossref-adapter.js';
+
+// CircleCI Parser
+export {
+  CircleCIParser,
+  createCircleCIParser,
+  parseCircleCIConfig,
+} from './circleci-parser.js';
@@ -0,0 +1,290 @@
+/**
+ * CircleCI Parser Types
+ * @module parsers/circleci/types
+ *
+ * Type definitions for .circleci/config.yml parsing. Graph nodes reuse the
+ * generic PIPELINE / PIPELINE_JOB shapes from crossref/pipeline-node, with
+ * one job node per job invocation of a workflow.
+ *
+ * TASK-CIRCLECI-001: CircleCI config parsing
+ */
+
+import type {
+  JobDependsOnEdge,
+  PipelineContainsEdge,
+  PipelineJobNode,
+  PipelineNode,
+} from '../crossref/pipeline-node.js';
+import type { TerraformToHelmFlow } from '../crossref/types.js';
+
+// ============================================================================
+// Config Types
+// ============================================================================
+
+/**
+ * An orb imported under `orbs:`
+ */
+export interface CircleOrb {
+  /** Alias the config refers to the orb by */
+  readonly alias: string;
+  /** namespace/name of a registry orb */
+  readonly name?: string;
+  readonly version?: string;
+  /** Defined inline in the config rather than imported */
+  readonly inline: boolean;
+}
+
+/**
+ * Environment a job runs in
+ */
+export interface CircleExecutor {
+  readonly type: 'docker' | 'machine' | 'macos' | 'windows' | 'executor';
+  /** Primary image of docker and machine executors */
+  readonly image?: string;
+  /** Name of a reusable executor, including orb executors (alias/name) */
+  readonly name?: string;
+  readonly resourceClass?: string;
+}
+
+/**
+ * A step of a job, after reusable commands are expanded
+ */
+export interface CircleStep {
+  /** Index within the job, in run order */
+  readonly index: number;
+  /** run, checkout, persist_to_workspace, attach_workspace, orb, ... */
+  readonly type: string;
+  readonly name?: string;
+  /** Command of run steps */
+  readonly command?: string;
+  readonly workingDirectory?: string;
+  readonly environment?: Readonly<Record<string, string>>;
+  /** Orb alias and command of orb command steps */
+  readonly orb?: string;
+  readonly orbCommand?: string;
+  /** Parameters of orb command steps */
+  readonly parameters?: Readonly<Record<string, string>>;
+  /** Workspace paths of persist_to_workspace steps */
+  readonly paths?: readonly string[];
+  /** Reusable command the step was expanded from */
+  readonly fromCommand?: string;
+}
+
+/**
+ * A job invocation in a workflow
+ */
+export interface CircleJob {
+  /** Workflow and job name joined with '/', or the job name without workflows */
+  readonly id: string;
+  /** Invocation name (the `name:` override, or the job name) */
+  readonly name: string;
+  /** Job definition, orb job (alias/job) or approval job invoked */
+  readonly job: string;
+  readonly workflow?: string;
+  readonly kind: 'job' | 'orb' | 'approval';
+  /** Invocation names of the requires list as written */
+  readonly requires: readonly string[];
+  /** IDs of the jobs that complete before this one */
+  readonly needs: readonly string[];
+  readonly contexts: readonly string[];
+  /** Branch filter of the invocation */
+  readonly branches?: readonly string[];
+  readonly parameters: Readonly<Record<string, string>>;
+  readonly executor?: CircleExecutor;
+  readonly workingDirectory?: string;
+  readonly environment: Readonly<Record<string, string>>;
+  readonly steps: readonly CircleStep[];
+  readonly lineStart?: number;
+  readonly lineEnd?: number;
+}
+
+/**
+ * A workflow
+ */
+export interface CircleWorkflow {
+  readonly name: string;
+  /** Cron schedules of the workflow's schedule triggers */
+  readonly schedules: readonly string[];
+  /** IDs of the workflow's jobs */
+  readonly jobs: readonly string[];
+  readonly lineStart?: number;
+  readonly lineEnd?: number;
+}
+
+/**
+ * A parsed config
+ */
+export interface CircleConfig {
+  readonly filePath: string;
+  readonly version: string;
+  /** Whether the config is a setup config for dynamic configuration */
+  readonly setup: boolean;
+  readonly orbs: readonly CircleOrb[];
+  /** Pipeline parameters with their defaults */
+  readonly parameters: Readonly<Record<string, string>>;
+  /** Names of the reusable commands */
+  readonly commands: readonly string[];
+  /** Names of the reusable executors */
+  readonly executors: readonly string[];
+  readonly workflows: readonly CircleWorkflow[];
+  /** All job invocations in workflow order */
+  readonly jobs: readonly CircleJob[];
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Separator of job IDs of workflow jobs */
+export const CIRCLE_JOB_ID_SEPARATOR = '/';
+
+/** Maximum nesting of reusable commands */
+export const CIRCLE_MAX_COMMAND_DEPTH = 20;
+
+/** Built-in step types */
+export const CIRCLE_BUILTIN_STEPS = [
+  'run', 'checkout', 'setup_remote_docker', 'save_cache', 'restore_cache', 'store_artifacts',
+  'store_test_results', 'persist_to_workspace', 'attach_workspace', 'add_ssh_keys', 'deploy',
+] as const;
+
+// ============================================================================
+// Parse Result Types
+// ============================================================================
+
+/**
+ * CircleCI parse error codes
+ */
+export type CircleParseErrorCode =
+  | 'INVALID_YAML'
+  | 'NOT_A_CONFIG'
+  | 'UNKNOWN_JOB'
+  | 'UNKNOWN_COMMAND'
+  | 'UNKNOWN_DEPENDENCY'
+  | 'COMMAND_CYCLE';
+
+/**
+ * CircleCI parse error or warning
+ */
+export interface CircleParseError {
+  readonly message: string;
+  readonly file: string;
+  readonly line?: number;
+  readonly column?: number;
+  readonly severity: 'error' | 'warning';
+  readonly code: CircleParseErrorCode;
+}
+
+/**
+ * Parse metadata for a CircleCI config
+ */
+export interface CircleParseMetadata {
+  readonly filePath: string;
+  readonly parserName: string;
+  readonly parserVersion: string;
+  readonly parseTimeMs: number;
+  readonly fileSize: number;
+  readonly lineCount: number;
+  readonly workflowCount: number;
+  readonly jobCount: number;
+  readonly stepCount: number;
+  readonly orbCount: number;
+}
+
+/**
+ * Result of parsing a CircleCI config
+ */
+export interface CircleParseResult {
+  readonly success: boolean;
+  readonly config: CircleConfig;
+  /** Pipeline node followed by one job node per job invocation */
+  readonly nodes: readonly (PipelineNode | PipelineJobNode)[];
+  readonly edges: readonly (PipelineContainsEdge | JobDependsOnEdge)[];
+  /** Terraform-to-Helm flows found by the crossref pattern detectors */
+  readonly flows: readonly TerraformToHelmFlow[];
+  readonly errors: readonly CircleParseError[];
+  readonly warnings: readonly CircleParseError[];
+  readonly metadata: CircleParseMetadata;
+}
+
+// ============================================================================
+// Parser Options
+// ============================================================================
+
+/**
+ * CircleCI parser options
+ */
+export interface CircleParserOptions {
+  /** Run the crossref Terraform-to-Helm pattern detectors over steps */
+  readonly detectFlows?: boolean;
+  /** Minimum confidence of reported flows (0-100) */
+  readonly minFlowConfidence?: number;
+  /** Scan ID recorded on graph nodes */
+  readonly scanId?: string;
+}
+
+/**
+ * Default CircleCI parser options
+ */
+export const DEFAULT_CIRCLE_PARSER_OPTIONS: Required<CircleParserOptions> = {
+  detectFlows: true,
+  minFlowConfidence: 0,
+  scanId: '',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check whether a path is a YAML file in a .circleci directory
+ */
+export function isCircleConfigPath(filePath: string): boolean {
+  return /(^|\/)\.circleci\/[^/]+\.ya?ml$/i.test(filePath.replace(/\\/g, '/'));
+}
+
+/**
+ * Split an orb reference (`namespace/name@version`)
+ */
+export function parseOrbReference(alias: string, reference: string): CircleOrb {
+  const at = reference.lastIndexOf('@');
+  return at > 0
+    ? { alias, name: reference.slice(0, at), version: reference.slice(at + 1), inline: false }
+    : { alias, name: reference, inline: false };
+}
+
+/**
+ * Create an empty parse result
+ */
+export function createEmptyCircleParseResult(filePath: string): CircleParseResult {
+  return {
+    success: true,
+    config: {
+      filePath,
+      version: '2.1',
+      setup: false,
+      orbs: [],
+      parameters: {},
+      commands: [],
+      executors: [],
+      workflows: [],
+      jobs: [],
+    },
+    nodes: [],
+    edges: [],
+    flows: [],
+    errors: [],
+    warnings: [],
+    metadata: {
+      filePath,
+      parserName: 'circleci-parser',
+      parserVersion: '1.0.0',
+      parseTimeMs: 0,
+      fileSize: 0,
+      lineCount: 0,
+      workflowCount: 0,
+      jobCount: 0,
+      stepCount: 0,
+      orbCount: 0,
+    },
+  };
+}
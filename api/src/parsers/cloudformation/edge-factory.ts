@@ -0,0 +1,195 @@
+/**
+ * CloudFormation Edge Factory
+ * @module parsers/cloudformation/edge-factory
+ *
+ * Builds dependency edges for CloudFormation templates:
+ * - depends_on: resource -> resource (DependsOn)
+ * - references: resource/output -> resource/parameter (Ref, Fn::GetAtt, Fn::Sub)
+ * - output_value: importing entry -> exporting output (Fn::ImportValue / Export.Name)
+ *
+ * Template edges are built per file because logical IDs are template-scoped;
+ * cross-stack edges are built across every template in a scan.
+ *
+ * TASK-CFN-001: CloudFormation / SAM template parsing for dependency detection
+ */
+
+import {
+  createCfnNodeId,
+  type CfnIntrinsicReference,
+  type CfnNode,
+  type CfnTemplate,
+  type CfnTemplateEntry,
+} from './types.js';
+
+import type { EdgeType, GraphEdge } from '../../types/graph.js';
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create depends_on and references edges between the entries of one template.
+ *
+ * @param template - Parsed template
+ * @param nodes - Nodes created for the template
+ * @returns Deduplicated edges
+ */
+export function createCfnEdges(template: CfnTemplate, nodes: readonly CfnNode[]): GraphEdge[] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const edges = new Map<string, GraphEdge>();
+
+  const add = (edge: GraphEdge | undefined): void => {
+    if (edge && !edges.has(edge.id)) {
+      edges.set(edge.id, edge);
+    }
+  };
+
+  for (const resource of template.resources) {
+    const source = byId.get(createCfnNodeId(template.filePath, 'Resources', resource.logicalId));
+    if (!source) {
+      continue;
+    }
+
+    for (const dependency of resource.dependsOn) {
+      const target = byId.get(createCfnNodeId(template.filePath, 'Resources', dependency));
+      if (target) {
+        add(createEdge('depends_on', source, target, {
+          attribute: 'DependsOn',
+          confidence: 100,
+          implicit: false,
+          description: `${resource.logicalId} declares DependsOn ${dependency}`,
+        }));
+      }
+    }
+
+    for (const ref of resource.references) {
+      add(createReferenceEdge(template, resource, source, ref, byId));
+    }
+  }
+
+  for (const output of template.outputs) {
+    const source = byId.get(createCfnNodeId(template.filePath, 'Outputs', output.logicalId));
+    if (!source) {
+      continue;
+    }
+
+    for (const ref of output.references) {
+      add(createReferenceEdge(template, output, source, ref, byId));
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Link entries that import a value (Fn::ImportValue) to the outputs that
+ * export it, across all templates in the supplied node set.
+ *
+ * @param nodes - CloudFormation nodes from any number of templates
+ * @returns Deduplicated output_value edges
+ */
+export function createCfnCrossStackEdges(nodes: readonly CfnNode[]): GraphEdge[] {
+  const exporters = new Map<string, CfnNode>();
+  for (const node of nodes) {
+    if (node.type === 'cfn_output' && node.exportName !== undefined) {
+      exporters.set(node.exportName, node);
+    }
+  }
+
+  const edges = new Map<string, GraphEdge>();
+  for (const node of nodes) {
+    for (const exportName of getImportValues(node)) {
+      const target = exporters.get(exportName);
+      if (!target || target.id === node.id) {
+        continue;
+      }
+
+      const edge = createEdge('output_value', node, target, {
+        attribute: 'Fn::ImportValue',
+        confidence: 95,
+        implicit: true,
+        description: `${node.name} imports export '${exportName}' from ${target.location.file}`,
+      });
+      edges.set(edge.id, edge);
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Build a deterministic edge ID
+ */
+export function createCfnEdgeId(type: EdgeType, source: string, target: string): string {
+  return `${type}:${source}->${target}`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface EdgeDetails {
+  readonly attribute: string;
+  readonly confidence: number;
+  readonly implicit: boolean;
+  readonly description: string;
+}
+
+function createReferenceEdge(
+  template: CfnTemplate,
+  entry: CfnTemplateEntry,
+  source: CfnNode,
+  ref: CfnIntrinsicReference,
+  byId: ReadonlyMap<string, CfnNode>
+): GraphEdge | undefined {
+  if (ref.kind === 'Fn::ImportValue') {
+    return undefined;
+  }
+
+  // Ref may target a parameter or a resource; GetAtt only a resource
+  const target =
+    byId.get(createCfnNodeId(template.filePath, 'Resources', ref.target)) ??
+    (ref.kind !== 'Fn::GetAtt'
+      ? byId.get(createCfnNodeId(template.filePath, 'Parameters', ref.target))
+      : undefined);
+
+  if (!target || target.id === source.id) {
+    return undefined;
+  }
+
+  const expression = ref.attribute !== undefined ? `${ref.target}.${ref.attribute}` : ref.target;
+
+  return createEdge('references', source, target, {
+    attribute: ref.path,
+    confidence: 95,
+    implicit: true,
+    description: `${entry.logicalId} uses ${ref.kind} ${expression}`,
+  });
+}
+
+function createEdge(type: EdgeType, source: CfnNode, target: CfnNode, details: EdgeDetails): GraphEdge {
+  return {
+    id: createCfnEdgeId(type, source.id, target.id),
+    source: source.id,
+    target: target.id,
+    type,
+    label: details.attribute,
+    metadata: {
+      attribute: details.attribute,
+      location: source.location,
+      implicit: details.implicit,
+      confidence: details.confidence,
+      evidence: [{
+        type: details.implicit ? 'semantic' : 'explicit',
+        description: details.description,
+        location: source.location,
+      }],
+    },
+  };
+}
+
+function getImportValues(node: CfnNode): readonly string[] {
+  const values = node.metadata.importValues;
+  return Array.isArray(values) ? values.filter((v): v is string => typeof v === 'string') : [];
+}
@@ -0,0 +1,42 @@
+/**
+ * CloudFormation Parser Module
+ * @module parsers/cloudformation
+ *
+ * Exports all CloudFormation / SAM template parsing types and utilities.
+ *
+ * TASK-CFN-001: CloudFormation / SAM template parsing for dependency detection
+ */
+
+// Types
+export * from './types.js';
+
+// Intrinsic Functions
+export {
+  createCfnYamlTags,
+  collectIntrinsicReferences,
+  extractSubVariables,
+  resolveStaticString,
+  type CfnResolveContext,
+} from './intrinsics.js';
+
+// Node Factory
+export {
+  createCfnNodes,
+  createCfnResourceNode,
+  createCfnParameterNode,
+  createCfnOutputNode,
+} from './node-factory.js';
+
+// Edge Factory
+export {
+  createCfnEdges,
+  createCfnCrossStackEdges,
+  createCfnEdgeId,
+} from './edge-factory.js';
+
+// Template Parser
+export {
+  CloudFormationParser,
+  createCloudFormationParser,
+  parseCloudFormationTemplate,
+} from './template-parser.js';
@@ -0,0 +1,333 @@
+/**
+ * CloudFormation Intrinsic Functions
+ * @module parsers/cloudformation/intrinsics
+ *
+ * YAML short-form tag support (!Ref, !GetAtt, !Sub, ...) and helpers for
+ * walking intrinsic function calls in long form.
+ *
+ * TASK-CFN-001: CloudFormation / SAM template parsing for dependency detection
+ */
+
+import type * as yaml from 'yaml';
+
+import { CFN_PSEUDO_PARAMETERS, type CfnIntrinsicReference } from './types.js';
+
+// ============================================================================
+// YAML Short-Form Tags
+// ============================================================================
+
+/**
+ * Short-form tag names mapped to their long-form keys
+ */
+const SHORT_FORM_FUNCTIONS: Readonly<Record<string, string>> = {
+  Ref: 'Ref',
+  Condition: 'Condition',
+  GetAtt: 'Fn::GetAtt',
+  Sub: 'Fn::Sub',
+  ImportValue: 'Fn::ImportValue',
+  Join: 'Fn::Join',
+  Select: 'Fn::Select',
+  Split: 'Fn::Split',
+  If: 'Fn::If',
+  Equals: 'Fn::Equals',
+  Not: 'Fn::Not',
+  And: 'Fn::And',
+  Or: 'Fn::Or',
+  FindInMap: 'Fn::FindInMap',
+  Base64: 'Fn::Base64',
+  Cidr: 'Fn::Cidr',
+  GetAZs: 'Fn::GetAZs',
+  Transform: 'Fn::Transform',
+  ToJsonString: 'Fn::ToJsonString',
+  Length: 'Fn::Length',
+};
+
+/**
+ * Build yaml custom tags that expand short-form intrinsics into long form,
+ * e.g. `!GetAtt Bucket.Arn` becomes `{ 'Fn::GetAtt': ['Bucket', 'Arn'] }`.
+ */
+export function createCfnYamlTags(): yaml.Tags {
+  const tags: yaml.Tags = [];
+
+  for (const [shortName, longName] of Object.entries(SHORT_FORM_FUNCTIONS)) {
+    const tag = `!${shortName}`;
+
+    tags.push({
+      tag,
+      resolve: (value: string) => {
+        // !GetAtt Resource.Attribute splits at the first dot only
+        if (longName === 'Fn::GetAtt') {
+          const dot = value.indexOf('.');
+          return { [longName]: dot === -1 ? [value] : [value.slice(0, dot), value.slice(dot + 1)] };
+        }
+        return { [longName]: value };
+      },
+    });
+    const resolveCollection = (node: yaml.YAMLMap.Parsed | yaml.YAMLSeq.Parsed): unknown => ({
+      [longName]: node.toJSON() as unknown,
+    });
+    tags.push({ tag, collection: 'seq', resolve: resolveCollection });
+    tags.push({ tag, collection: 'map', resolve: resolveCollection });
+  }
+
+  return tags;
+}
+
+// ============================================================================
+// Reference Collection
+// ============================================================================
+
+/**
+ * Context for resolving intrinsic calls to literal strings
+ */
+export interface CfnResolveContext {
+  /** Parameter defaults, by logical ID */
+  readonly parameterDefaults: Readonly<Record<string, string>>;
+  /** Known pseudo parameter values */
+  readonly pseudoParameters: Readonly<Record<string, string>>;
+}
+
+/**
+ * Collect dependency-creating intrinsic calls (Ref, Fn::GetAtt, Fn::Sub,
+ * Fn::ImportValue) from a long-form value.
+ */
+export function collectIntrinsicReferences(
+  value: unknown,
+  path: string,
+  context: CfnResolveContext
+): CfnIntrinsicReference[] {
+  const references: CfnIntrinsicReference[] = [];
+  walk(value, path, context, references);
+  return references;
+}
+
+function walk(
+  value: unknown,
+  path: string,
+  context: CfnResolveContext,
+  out: CfnIntrinsicReference[]
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, i) => walk(item, `${path}[${i}]`, context, out));
+    return;
+  }
+  if (!isRecord(value)) {
+    return;
+  }
+
+  const keys = Object.keys(value);
+  if (keys.length === 1) {
+    const fn = keys[0] as string;
+    const arg = value[fn];
+
+    if (fn === 'Ref') {
+      if (typeof arg === 'string' && !CFN_PSEUDO_PARAMETERS.has(arg)) {
+        out.push({ kind: 'Ref', target: arg, path, resolved: true });
+      }
+      return;
+    }
+
+    if (fn === 'Fn::GetAtt') {
+      const [target, attribute] = parseGetAtt(arg);
+      if (target !== undefined) {
+        out.push({
+          kind: 'Fn::GetAtt',
+          target,
+          ...(attribute !== undefined ? { attribute } : {}),
+          path,
+          resolved: true,
+        });
+      }
+      if (Array.isArray(arg)) {
+        // Attribute names may themselves be Ref calls
+        walk(arg.slice(1), path, context, out);
+      }
+      return;
+    }
+
+    if (fn === 'Fn::Sub') {
+      collectSubReferences(arg, path, context, out);
+      return;
+    }
+
+    if (fn === 'Fn::ImportValue') {
+      const name = resolveStaticString(arg, context);
+      out.push({
+        kind: 'Fn::ImportValue',
+        target: name ?? '',
+        path,
+        resolved: name !== undefined,
+      });
+      walk(arg, path, context, out);
+      return;
+    }
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    walk(child, path === '' ? key : `${path}.${key}`, context, out);
+  }
+}
+
+/**
+ * Collect `${Name}` / `${Resource.Attr}` variables from an Fn::Sub call.
+ * Variables declared in the optional variable map are local and skipped.
+ */
+function collectSubReferences(
+  arg: unknown,
+  path: string,
+  context: CfnResolveContext,
+  out: CfnIntrinsicReference[]
+): void {
+  let template: unknown = arg;
+  let localVars: Record<string, unknown> = {};
+
+  if (Array.isArray(arg)) {
+    template = arg[0];
+    localVars = isRecord(arg[1]) ? arg[1] : {};
+    for (const [name, varValue] of Object.entries(localVars)) {
+      walk(varValue, `${path}.${name}`, context, out);
+    }
+  }
+
+  if (typeof template !== 'string') {
+    return;
+  }
+
+  for (const variable of extractSubVariables(template)) {
+    if (variable in localVars || CFN_PSEUDO_PARAMETERS.has(variable)) {
+      continue;
+    }
+    const dot = variable.indexOf('.');
+    out.push({
+      kind: 'Fn::Sub',
+      target: dot === -1 ? variable : variable.slice(0, dot),
+      ...(dot === -1 ? {} : { attribute: variable.slice(dot + 1) }),
+      path,
+      resolved: true,
+    });
+  }
+}
+
+/**
+ * Extract variable names from an Fn::Sub template string.
+ * `${!Literal}` escapes are not variables.
+ */
+export function extractSubVariables(template: string): string[] {
+  const variables: string[] = [];
+  const pattern = /\$\{([^}]+)\}/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(template)) !== null) {
+    const name = (match[1] ?? '').trim();
+    if (name !== '' && !name.startsWith('!')) {
+      variables.push(name);
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Split an Fn::GetAtt argument into logical ID and attribute
+ */
+function parseGetAtt(arg: unknown): [string | undefined, string | undefined] {
+  if (typeof arg === 'string') {
+    const dot = arg.indexOf('.');
+    return dot === -1 ? [arg, undefined] : [arg.slice(0, dot), arg.slice(dot + 1)];
+  }
+  if (Array.isArray(arg) && typeof arg[0] === 'string') {
+    return [arg[0], typeof arg[1] === 'string' ? arg[1] : undefined];
+  }
+  return [undefined, undefined];
+}
+
+// ============================================================================
+// Static Resolution
+// ============================================================================
+
+/**
+ * Resolve a value to a literal string where that is possible without
+ * deploying the stack. Handles literals, Ref to parameters with defaults or
+ * known pseudo parameters, Fn::Sub and Fn::Join.
+ *
+ * @returns The resolved string, or undefined if any part is dynamic
+ */
+export function resolveStaticString(value: unknown, context: CfnResolveContext): string | undefined {
+  if (typeof value === 'string') {
+    return value;
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return String(value);
+  }
+  if (!isRecord(value)) {
+    return undefined;
+  }
+
+  if ('Ref' in value && typeof value.Ref === 'string') {
+    return lookupName(value.Ref, context);
+  }
+
+  if ('Fn::Sub' in value) {
+    return resolveSub(value['Fn::Sub'], context);
+  }
+
+  if ('Fn::Join' in value) {
+    const arg = value['Fn::Join'];
+    if (!Array.isArray(arg) || typeof arg[0] !== 'string' || !Array.isArray(arg[1])) {
+      return undefined;
+    }
+    const parts = (arg[1] as unknown[]).map(part => resolveStaticString(part, context));
+    if (parts.some(part => part === undefined)) {
+      return undefined;
+    }
+    return parts.join(arg[0]);
+  }
+
+  return undefined;
+}
+
+function resolveSub(arg: unknown, context: CfnResolveContext): string | undefined {
+  let template: unknown = arg;
+  const localValues: Record<string, string> = {};
+
+  if (Array.isArray(arg)) {
+    template = arg[0];
+    if (isRecord(arg[1])) {
+      for (const [name, varValue] of Object.entries(arg[1])) {
+        const resolved = resolveStaticString(varValue, context);
+        if (resolved === undefined) {
+          return undefined;
+        }
+        localValues[name] = resolved;
+      }
+    }
+  }
+
+  if (typeof template !== 'string') {
+    return undefined;
+  }
+
+  let unresolved = false;
+  const result = template.replace(/\$\{([^}]+)\}/g, (_match, raw: string) => {
+    const name = raw.trim();
+    if (name.startsWith('!')) {
+      return `\${${name.slice(1)}}`;
+    }
+    const resolved = localValues[name] ?? lookupName(name, context);
+    if (resolved === undefined) {
+      unresolved = true;
+      return '';
+    }
+    return resolved;
+  });
+
+  return unresolved ? undefined : result;
+}
+
+function lookupName(name: string, context: CfnResolveContext): string | undefined {
+  return context.pseudoParameters[name] ?? context.parameterDefaults[name];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,136 @@
+/**
+ * CloudFormation Node Factory
+ * @module parsers/cloudformation/node-factory
+ *
+ * Converts parsed template entries into CfnResource/CfnParameter/CfnOutput
+ * graph nodes.
+ *
+ * TASK-CFN-001: CloudFormation / SAM template parsing for dependency detection
+ */
+
+import {
+  createCfnNodeId,
+  type CfnNode,
+  type CfnOutput,
+  type CfnParameter,
+  type CfnResource,
+  type CfnTemplate,
+  type CfnTemplateEntry,
+} from './types.js';
+
+import type {
+  CfnOutputNode,
+  CfnParameterNode,
+  CfnResourceNode,
+  NodeLocation,
+} from '../../types/graph.js';
+
+
+// ============================================================================
+// Node Creation
+// ============================================================================
+
+/**
+ * Create graph nodes for every parameter, resource and output of a template
+ */
+export function createCfnNodes(template: CfnTemplate): CfnNode[] {
+  return [
+    ...template.parameters.map(p => createCfnParameterNode(p, template)),
+    ...template.resources.map(r => createCfnResourceNode(r, template)),
+    ...template.outputs.map(o => createCfnOutputNode(o, template)),
+  ];
+}
+
+/**
+ * Create a node for a template resource
+ */
+export function createCfnResourceNode(resource: CfnResource, template: CfnTemplate): CfnResourceNode {
+  const body = resource.body;
+
+  return {
+    id: createCfnNodeId(template.filePath, 'Resources', resource.logicalId),
+    type: 'cfn_resource',
+    name: resource.logicalId,
+    location: createLocation(resource, template),
+    logicalId: resource.logicalId,
+    resourceType: resource.type,
+    ...(resource.condition !== undefined ? { condition: resource.condition } : {}),
+    metadata: {
+      provider: resource.type.split('::')[0]?.toLowerCase(),
+      service: resource.type.split('::')[1],
+      isSam: template.isSam,
+      properties: body.Properties ?? {},
+      dependsOn: resource.dependsOn,
+      deletionPolicy: body.DeletionPolicy,
+      importValues: getImportValues(resource),
+    },
+  };
+}
+
+/**
+ * Create a node for a template parameter
+ */
+export function createCfnParameterNode(parameter: CfnParameter, template: CfnTemplate): CfnParameterNode {
+  const body = parameter.body;
+
+  return {
+    id: createCfnNodeId(template.filePath, 'Parameters', parameter.logicalId),
+    type: 'cfn_parameter',
+    name: parameter.logicalId,
+    location: createLocation(parameter, template),
+    parameterType: parameter.type,
+    ...(parameter.defaultValue !== undefined ? { defaultValue: parameter.defaultValue } : {}),
+    metadata: {
+      description: body.Description,
+      allowedValues: body.AllowedValues,
+      noEcho: body.NoEcho === true || body.NoEcho === 'true',
+    },
+  };
+}
+
+/**
+ * Create a node for a template output
+ */
+export function createCfnOutputNode(output: CfnOutput, template: CfnTemplate): CfnOutputNode {
+  const body = output.body;
+
+  return {
+    id: createCfnNodeId(template.filePath, 'Outputs', output.logicalId),
+    type: 'cfn_output',
+    name: output.logicalId,
+    location: createLocation(output, template),
+    ...(output.exportName !== undefined ? { exportName: output.exportName } : {}),
+    metadata: {
+      description: body.Description,
+      value: body.Value,
+      exportName: output.exportName,
+      exportNameExpression: output.exportNameExpression,
+      importValues: getImportValues(output),
+    },
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createLocation(entry: CfnTemplateEntry, template: CfnTemplate): NodeLocation {
+  return {
+    file: template.filePath,
+    lineStart: entry.lineRange.start,
+    lineEnd: entry.lineRange.end,
+  };
+}
+
+/**
+ * Export names consumed through Fn::ImportValue that resolved to literals
+ */
+function getImportValues(entry: CfnTemplateEntry): string[] {
+  const names = new Set<string>();
+  for (const ref of entry.references) {
+    if (ref.kind === 'Fn::ImportValue' && ref.resolved) {
+      names.add(ref.target);
+    }
+  }
+  return Array.from(names);
+}
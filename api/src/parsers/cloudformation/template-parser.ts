@@ -0,0 +1,465 @@
+/**
+ * CloudFormation Template Parser
+ * @module parsers/cloudformation/template-parser
+ *
+ * Parses CloudFormation and SAM templates (JSON or YAML, including the
+ * short-form intrinsic tags) into Cfn* graph nodes and the depends_on /
+ * references edges between them.
+ *
+ * TASK-CFN-001: CloudFormation / SAM template parsing for dependency detection
+ */
+
+import * as yaml from 'yaml';
+
+
+import { createCfnEdges } from './edge-factory.js';
+import {
+  collectIntrinsicReferences,
+  createCfnYamlTags,
+  resolveStaticString,
+  type CfnResolveContext,
+} from './intrinsics.js';
+import { createCfnNodes } from './node-factory.js';
+import {
+  DEFAULT_CFN_PARSER_OPTIONS,
+  SAM_TRANSFORM,
+  isCfnTemplateObject,
+  type CfnOutput,
+  type CfnParameter,
+  type CfnParseError,
+  type CfnParseResult,
+  type CfnParserOptions,
+  type CfnResource,
+  type CfnSection,
+  type CfnTemplate,
+} from './types.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParserOptions,
+} from '../base/parser.js';
+
+/**
+ * Line ranges of section entries, keyed by `${section}/${logicalId}`
+ */
+type LineRanges = ReadonlyMap<string, { start: number; end: number }>;
+
+// ============================================================================
+// CloudFormation Template Parser
+// ============================================================================
+
+/**
+ * Parser for CloudFormation and SAM templates.
+ */
+export class CloudFormationParser extends BaseParser<CfnParseResult> {
+  readonly name = 'cloudformation-parser';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['.yaml', '.yml', '.json', '.template'] as const;
+  readonly supportedMimeTypes = ['application/x-yaml', 'text/yaml', 'application/json'] as const;
+
+  private readonly cfnOptions: Required<CfnParserOptions>;
+  private readonly yamlTags = createCfnYamlTags();
+
+  constructor(options?: ParserOptions & Partial<CfnParserOptions>) {
+    super(options);
+    this.cfnOptions = { ...DEFAULT_CFN_PARSER_OPTIONS, ...options };
+  }
+
+  /**
+   * Check if this parser can handle the given file.
+   * With content, requires AWSTemplateFormatVersion or a Resources section
+   * declaring AWS/Custom resource types.
+   */
+  override canParse(filePath: string, content?: string): boolean {
+    const lower = filePath.toLowerCase();
+    if (!this.supportedExtensions.some(ext => lower.endsWith(ext))) {
+      return false;
+    }
+
+    if (content !== undefined) {
+      if (/["']?AWSTemplateFormatVersion["']?\s*:/.test(content)) {
+        return true;
+      }
+      return (
+        /^\s*["']?Resources["']?\s*:/m.test(content) &&
+        /["']?Type["']?\s*:\s*["']?(AWS|Alexa|Custom)::/.test(content)
+      );
+    }
+
+    return true;
+  }
+
+  /**
+   * Parse template content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    _options: Required<ParserOptions>
+  ): Promise<ParseResult<CfnParseResult>> {
+    const startTime = performance.now();
+    const errors: CfnParseError[] = [];
+    const warnings: CfnParseError[] = [];
+
+    const format = content.trimStart().startsWith('{') ? 'json' : 'yaml';
+    const loaded = this.loadDocument(content, filePath, format, errors);
+
+    if (!loaded || !isCfnTemplateObject(loaded.value)) {
+      if (loaded) {
+        errors.push({
+          message: 'Document is not a CloudFormation template (no Resources or AWSTemplateFormatVersion)',
+          file: filePath,
+          severity: 'error',
+          code: 'NOT_A_TEMPLATE',
+        });
+      }
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.line !== undefined
+            ? this.createLocation(filePath, e.line, e.line, e.column ?? 0, e.column ?? 0)
+            : null,
+          severity: 'error' as const,
+        })),
+        null,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const template = this.buildTemplate(loaded.value, filePath, format, loaded.lineRanges, warnings);
+    const nodes = createCfnNodes(template);
+    const edges = this.cfnOptions.generateEdges ? createCfnEdges(template, nodes) : [];
+
+    if (this.cfnOptions.warnOnUnresolvedReferences) {
+      this.checkReferences(template, warnings);
+    }
+
+    const resourceTypeCounts: Record<string, number> = {};
+    for (const resource of template.resources) {
+      resourceTypeCounts[resource.type] = (resourceTypeCounts[resource.type] ?? 0) + 1;
+    }
+
+    const result: CfnParseResult = {
+      success: true,
+      template,
+      nodes,
+      edges,
+      errors,
+      warnings,
+      metadata: {
+        filePath,
+        parserName: this.name,
+        parserVersion: this.version,
+        parseTimeMs: performance.now() - startTime,
+        fileSize: content.length,
+        lineCount: content.split('\n').length,
+        resourceCount: template.resources.length,
+        parameterCount: template.parameters.length,
+        outputCount: template.outputs.length,
+        resourceTypeCounts,
+      },
+    };
+
+    return this.createSuccess(
+      result,
+      warnings.map(w => ({
+        code: w.code,
+        message: w.message,
+        location: w.line !== undefined
+          ? this.createLocation(filePath, w.line, w.line, w.column ?? 0, w.column ?? 0)
+          : null,
+        severity: 'warning' as const,
+      })),
+      this.createMetadata(filePath, startTime, content)
+    );
+  }
+
+  // ============================================================================
+  // Document Loading
+  // ============================================================================
+
+  /**
+   * Load the template as long-form JS along with entry line ranges.
+   * JSON is valid YAML, so both formats go through the YAML parser for
+   * positions; JSON.parse is the source of truth for JSON values.
+   */
+  private loadDocument(
+    content: string,
+    filePath: string,
+    format: 'json' | 'yaml',
+    errors: CfnParseError[]
+  ): { value: unknown; lineRanges: LineRanges } | null {
+    const lineCounter = new yaml.LineCounter();
+    const doc = yaml.parseDocument(content, {
+      customTags: this.yamlTags,
+      strict: false,
+      uniqueKeys: false,
+      lineCounter,
+    });
+    const yamlOk = doc.errors.length === 0;
+
+    let value: unknown;
+    if (format === 'json') {
+      try {
+        value = JSON.parse(content);
+      } catch (error) {
+        errors.push({
+          message: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+          file: filePath,
+          severity: 'error',
+          code: 'INVALID_SYNTAX',
+        });
+        return null;
+      }
+    } else {
+      if (!yamlOk) {
+        for (const err of doc.errors) {
+          const pos = err.linePos?.[0];
+          errors.push({
+            message: err.message,
+            file: filePath,
+            ...(pos ? { line: pos.line, column: pos.col } : {}),
+            severity: 'error',
+            code: 'INVALID_SYNTAX',
+          });
+        }
+        return null;
+      }
+      value = doc.toJS({ maxAliasCount: 100 });
+    }
+
+    return { value, lineRanges: yamlOk ? collectLineRanges(doc, lineCounter) : new Map() };
+  }
+
+  // ============================================================================
+  // Template Construction
+  // ============================================================================
+
+  private buildTemplate(
+    raw: Record<string, unknown>,
+    filePath: string,
+    format: 'json' | 'yaml',
+    lineRanges: LineRanges,
+    warnings: CfnParseError[]
+  ): CfnTemplate {
+    const transforms = toArray(raw.Transform).filter((t): t is string => typeof t === 'string');
+    const parametersRaw = toRecord(raw.Parameters);
+
+    const parameterDefaults: Record<string, string> = {};
+    for (const [logicalId, body] of Object.entries(parametersRaw)) {
+      const defaultValue = toRecord(body).Default;
+      if (typeof defaultValue === 'string' || typeof defaultValue === 'number') {
+        parameterDefaults[logicalId] = String(defaultValue);
+      }
+    }
+
+    const context: CfnResolveContext = {
+      parameterDefaults,
+      pseudoParameters: this.cfnOptions.pseudoParameters,
+    };
+    const rangeOf = (section: CfnSection, logicalId: string): { start: number; end: number } =>
+      lineRanges.get(`${section}/${logicalId}`) ?? { start: 1, end: 1 };
+
+    const parameters: CfnParameter[] = Object.entries(parametersRaw).map(([logicalId, value]) => {
+      const body = toRecord(value);
+      return {
+        logicalId,
+        section: 'Parameters',
+        body,
+        lineRange: rangeOf('Parameters', logicalId),
+        references: [],
+        type: typeof body.Type === 'string' ? body.Type : 'String',
+        ...(body.Default !== undefined ? { defaultValue: body.Default } : {}),
+      };
+    });
+
+    const resources: CfnResource[] = [];
+    for (const [logicalId, value] of Object.entries(toRecord(raw.Resources))) {
+      const body = toRecord(value);
+      const lineRange = rangeOf('Resources', logicalId);
+
+      if (typeof body.Type !== 'string') {
+        warnings.push({
+          message: `Resource ${logicalId} has no Type`,
+          file: filePath,
+          line: lineRange.start,
+          severity: 'warning',
+          code: 'MISSING_RESOURCE_TYPE',
+        });
+        continue;
+      }
+
+      // Only Properties, Metadata and Condition-bearing attributes hold references;
+      // DependsOn is tracked separately.
+      const { Type: _type, DependsOn: _dependsOn, ...referencing } = body;
+
+      resources.push({
+        logicalId,
+        section: 'Resources',
+        body,
+        lineRange,
+        references: collectIntrinsicReferences(referencing, '', context),
+        type: body.Type,
+        dependsOn: toArray(body.DependsOn).filter((d): d is string => typeof d === 'string'),
+        ...(typeof body.Condition === 'string' ? { condition: body.Condition } : {}),
+      });
+    }
+
+    const outputs: CfnOutput[] = [];
+    for (const [logicalId, value] of Object.entries(toRecord(raw.Outputs))) {
+      const body = toRecord(value);
+      const lineRange = rangeOf('Outputs', logicalId);
+      const exportExpression = toRecord(body.Export).Name;
+      const exportName = exportExpression !== undefined
+        ? resolveStaticString(exportExpression, context)
+        : undefined;
+
+      if (exportExpression !== undefined && exportName === undefined) {
+        warnings.push({
+          message: `Export name of output ${logicalId} depends on values unknown before deployment`,
+          file: filePath,
+          line: lineRange.start,
+          severity: 'warning',
+          code: 'UNRESOLVED_EXPORT_NAME',
+        });
+      }
+
+      outputs.push({
+        logicalId,
+        section: 'Outputs',
+        body,
+        lineRange,
+        references: collectIntrinsicReferences(body, '', context),
+        ...(exportName !== undefined ? { exportName } : {}),
+        ...(exportExpression !== undefined && exportName === undefined
+          ? { exportNameExpression: exportExpression }
+          : {}),
+      });
+    }
+
+    const formatVersion = raw.AWSTemplateFormatVersion;
+    const description = raw.Description;
+
+    return {
+      filePath,
+      format,
+      ...(formatVersion !== undefined ? { formatVersion: String(formatVersion) } : {}),
+      ...(typeof description === 'string' ? { description } : {}),
+      transforms,
+      isSam: transforms.includes(SAM_TRANSFORM),
+      parameters,
+      resources,
+      outputs,
+      conditions: Object.keys(toRecord(raw.Conditions)),
+      mappings: Object.keys(toRecord(raw.Mappings)),
+    };
+  }
+
+  /**
+   * Warn about Ref / GetAtt / Sub targets that the template does not declare
+   */
+  private checkReferences(template: CfnTemplate, warnings: CfnParseError[]): void {
+    const declared = new Set([
+      ...template.parameters.map(p => p.logicalId),
+      ...template.resources.map(r => r.logicalId),
+    ]);
+
+    for (const entry of [...template.resources, ...template.outputs]) {
+      for (const ref of entry.references) {
+        if (ref.kind === 'Fn::ImportValue' || declared.has(ref.target)) {
+          continue;
+        }
+        // SAM generates resources such as <Function>Role from the transform
+        if (template.isSam) {
+          continue;
+        }
+
+        warnings.push({
+          message: `${entry.logicalId} references undeclared ${ref.target} via ${ref.kind}`,
+          file: template.filePath,
+          line: entry.lineRange.start,
+          severity: 'warning',
+          code: 'UNRESOLVED_REFERENCE',
+        });
+      }
+    }
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Collect line ranges of Parameters/Resources/Outputs entries
+ */
+function collectLineRanges(doc: yaml.Document, lineCounter: yaml.LineCounter): LineRanges {
+  const ranges = new Map<string, { start: number; end: number }>();
+  if (!yaml.isMap(doc.contents)) {
+    return ranges;
+  }
+
+  for (const section of ['Parameters', 'Resources', 'Outputs'] as const) {
+    const sectionNode = doc.contents.get(section, true);
+    if (!yaml.isMap(sectionNode)) {
+      continue;
+    }
+
+    for (const pair of sectionNode.items) {
+      const key = yaml.isScalar(pair.key) ? pair.key : null;
+      const keyRange = key?.range;
+      if (!key || !keyRange) {
+        continue;
+      }
+
+      const valueRange = yaml.isNode(pair.value) ? pair.value.range : undefined;
+      const endOffset = valueRange ? Math.max(valueRange[1] - 1, keyRange[0]) : keyRange[1];
+
+      ranges.set(`${section}/${String(key.value)}`, {
+        start: lineCounter.linePos(keyRange[0]).line,
+        end: lineCounter.linePos(endOffset).line,
+      });
+    }
+  }
+
+  return ranges;
+}
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function toArray(value: unknown): unknown[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new CloudFormation template parser instance
+ */
+export function createCloudFormationParser(
+  options?: ParserOptions & Partial<CfnParserOptions>
+): CloudFormationParser {
+  return new CloudFormationParser(options);
+}
+
+/**
+ * Parse CloudFormation template content directly
+ */
+export async function parseCloudFormationTemplate(
+  content: string,
+  filePath: string,
+  options?: ParserOptions & Partial<CfnParserOptions>
+): Promise<ParseResult<CfnParseResult>> {
+  const parser = createCloudFormationParser(options);
+  return parser.parse(content, filePath, options);
+}
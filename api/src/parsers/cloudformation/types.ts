@@ -0,0 +1,302 @@
+/**
+ * CloudFormation Parser Types
+ * @module parsers/cloudformation/types
+ *
+ * Type definitions for CloudFormation and SAM template parsing.
+ * Node shapes reuse the Cfn* node types declared in types/graph.
+ *
+ * TASK-CFN-001: CloudFormation / SAM template parsing for dependency detection
+ */
+
+import type {
+  CfnOutputNode,
+  CfnParameterNode,
+  CfnResourceNode,
+  GraphEdge,
+} from '../../types/graph.js';
+
+// ============================================================================
+// Template Types
+// ============================================================================
+
+/**
+ * Template sections that produce graph nodes
+ */
+export type CfnSection = 'Parameters' | 'Resources' | 'Outputs';
+
+/**
+ * Intrinsic functions that create dependencies
+ */
+export type CfnIntrinsicKind = 'Ref' | 'Fn::GetAtt' | 'Fn::Sub' | 'Fn::ImportValue';
+
+/**
+ * A dependency-creating intrinsic function call found in a template entry
+ */
+export interface CfnIntrinsicReference {
+  /** Intrinsic function that produced the reference */
+  readonly kind: CfnIntrinsicKind;
+  /**
+   * Logical ID of the referenced parameter/resource, or the export name
+   * for Fn::ImportValue
+   */
+  readonly target: string;
+  /** Attribute name for Fn::GetAtt and `${Resource.Attr}` substitutions */
+  readonly attribute?: string;
+  /** Property path where the reference occurs (e.g. Properties.VpcId) */
+  readonly path: string;
+  /** False when an Fn::ImportValue name could not be resolved statically */
+  readonly resolved: boolean;
+}
+
+/**
+ * Common fields of Parameters, Resources and Outputs entries
+ */
+export interface CfnTemplateEntry {
+  /** Logical ID (the key within its section) */
+  readonly logicalId: string;
+  /** Section the entry was declared in */
+  readonly section: CfnSection;
+  /** Entry body with short-form intrinsics expanded to long form */
+  readonly body: Readonly<Record<string, unknown>>;
+  /** Line range of the entry (1-based, inclusive) */
+  readonly lineRange: {
+    readonly start: number;
+    readonly end: number;
+  };
+  /** Intrinsic references found in the entry body */
+  readonly references: readonly CfnIntrinsicReference[];
+}
+
+/**
+ * Template parameter
+ */
+export interface CfnParameter extends CfnTemplateEntry {
+  readonly section: 'Parameters';
+  readonly type: string;
+  readonly defaultValue?: unknown;
+}
+
+/**
+ * Template resource
+ */
+export interface CfnResource extends CfnTemplateEntry {
+  readonly section: 'Resources';
+  readonly type: string;
+  /** Logical IDs listed in DependsOn */
+  readonly dependsOn: readonly string[];
+  readonly condition?: string;
+}
+
+/**
+ * Template output
+ */
+export interface CfnOutput extends CfnTemplateEntry {
+  readonly section: 'Outputs';
+  /** Export.Name resolved to a literal, if possible */
+  readonly exportName?: string;
+  /** Raw Export.Name value when it could not be resolved */
+  readonly exportNameExpression?: unknown;
+}
+
+/**
+ * Parsed CloudFormation / SAM template
+ */
+export interface CfnTemplate {
+  readonly filePath: string;
+  /** Source syntax */
+  readonly format: 'json' | 'yaml';
+  readonly formatVersion?: string;
+  readonly description?: string;
+  /** Transform macros (e.g. AWS::Serverless-2016-10-31) */
+  readonly transforms: readonly string[];
+  /** Whether the template uses the SAM transform */
+  readonly isSam: boolean;
+  readonly parameters: readonly CfnParameter[];
+  readonly resources: readonly CfnResource[];
+  readonly outputs: readonly CfnOutput[];
+  /** Names declared in the Conditions section */
+  readonly conditions: readonly string[];
+  /** Names declared in the Mappings section */
+  readonly mappings: readonly string[];
+}
+
+// ============================================================================
+// Node Types
+// ============================================================================
+
+/**
+ * Union of all CloudFormation node types produced by the parser
+ */
+export type CfnNode = CfnResourceNode | CfnParameterNode | CfnOutputNode;
+
+/**
+ * AWS pseudo parameters, which Ref can target without a declaration
+ */
+export const CFN_PSEUDO_PARAMETERS: ReadonlySet<string> = new Set([
+  'AWS::AccountId',
+  'AWS::NotificationARNs',
+  'AWS::NoValue',
+  'AWS::Partition',
+  'AWS::Region',
+  'AWS::StackId',
+  'AWS::StackName',
+  'AWS::URLSuffix',
+]);
+
+/**
+ * Transform that marks a template as SAM
+ */
+export const SAM_TRANSFORM = 'AWS::Serverless-2016-10-31';
+
+// ============================================================================
+// Parse Result Types
+// ============================================================================
+
+/**
+ * CloudFormation parse error codes
+ */
+export type CfnParseErrorCode =
+  | 'INVALID_SYNTAX'
+  | 'NOT_A_TEMPLATE'
+  | 'MISSING_RESOURCE_TYPE'
+  | 'UNRESOLVED_REFERENCE'
+  | 'UNRESOLVED_EXPORT_NAME';
+
+/**
+ * CloudFormation parse error or warning
+ */
+export interface CfnParseError {
+  readonly message: string;
+  readonly file: string;
+  readonly line?: number;
+  readonly column?: number;
+  readonly severity: 'error' | 'warning';
+  readonly code: CfnParseErrorCode;
+}
+
+/**
+ * Parse metadata for a template file
+ */
+export interface CfnParseMetadata {
+  readonly filePath: string;
+  readonly parserName: string;
+  readonly parserVersion: string;
+  readonly parseTimeMs: number;
+  readonly fileSize: number;
+  readonly lineCount: number;
+  readonly resourceCount: number;
+  readonly parameterCount: number;
+  readonly outputCount: number;
+  readonly resourceTypeCounts: Readonly<Record<string, number>>;
+}
+
+/**
+ * Result of parsing a CloudFormation template
+ */
+export interface CfnParseResult {
+  readonly success: boolean;
+  readonly template: CfnTemplate;
+  /** Graph nodes for parameters, resources and outputs */
+  readonly nodes: readonly CfnNode[];
+  /** depends_on / references edges within the template */
+  readonly edges: readonly GraphEdge[];
+  readonly errors: readonly CfnParseError[];
+  readonly warnings: readonly CfnParseError[];
+  readonly metadata: CfnParseMetadata;
+}
+
+// ============================================================================
+// Parser Options
+// ============================================================================
+
+/**
+ * CloudFormation parser options
+ */
+export interface CfnParserOptions {
+  /** Build edges between entries of the template */
+  readonly generateEdges?: boolean;
+  /**
+   * Values used for pseudo parameters when resolving export and import
+   * names (e.g. { 'AWS::StackName': 'network-prod' })
+   */
+  readonly pseudoParameters?: Readonly<Record<string, string>>;
+  /** Warn on Ref / GetAtt targets that are not declared in the template */
+  readonly warnOnUnresolvedReferences?: boolean;
+}
+
+/**
+ * Default CloudFormation parser options
+ */
+export const DEFAULT_CFN_PARSER_OPTIONS: Required<CfnParserOptions> = {
+  generateEdges: true,
+  pseudoParameters: {},
+  warnOnUnresolvedReferences: true,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build the node ID for a template entry.
+ * Logical IDs are only unique within a template, so the file path is part of the ID.
+ */
+export function createCfnNodeId(filePath: string, section: CfnSection, logicalId: string): string {
+  return `${filePath}#${section}/${logicalId}`;
+}
+
+/**
+ * Check whether a parsed document looks like a CloudFormation template
+ */
+export function isCfnTemplateObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return false;
+  }
+  const obj = value as Record<string, unknown>;
+  if ('AWSTemplateFormatVersion' in obj) {
+    return true;
+  }
+  const resources = obj.Resources;
+  if (resources === null || typeof resources !== 'object' || Array.isArray(resources)) {
+    return false;
+  }
+  return Object.values(resources).some(
+    r => r !== null && typeof r === 'object' && typeof (r as { Type?: unknown }).Type === 'string'
+  );
+}
+
+/**
+ * Create an empty parse result
+ */
+export function createEmptyCfnParseResult(filePath: string): CfnParseResult {
+  return {
+    success: true,
+    template: {
+      filePath,
+      format: 'yaml',
+      transforms: [],
+      isSam: false,
+      parameters: [],
+      resources: [],
+      outputs: [],
+      conditions: [],
+      mappings: [],
+    },
+    nodes: [],
+    edges: [],
+    errors: [],
+    warnings: [],
+    metadata: {
+      filePath,
+      parserName: 'cloudformation-parser',
+      parserVersion: '1.0.0',
+      parseTimeMs: 0,
+      fileSize: 0,
+      lineCount: 0,
+      resourceCount: 0,
+      parameterCount: 0,
+      outputCount: 0,
+      resourceTypeCounts: {},
+    },
+  };
+}
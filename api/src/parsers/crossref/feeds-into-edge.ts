@@ -80,6 +80,8 @@ export interface FeedsIntoMetadata {
   readonly sourceOutputName: string;
   /** Module/component path for the source */
   readonly sourceModulePath?: string;
+  /** Environment whose variable values produced the source output */
+  readonly sourceEnvironment?: string;
 
   // Target details
   /** Type of the target consuming data */
@@ -366,6 +368,7 @@ export function createFeedsIntoEdge(
       sourceType: 'terraform_output',
       sourceOutputName: flow.source.name,
       sourceModulePath: flow.source.workingDir,
+      ...(flow.source.environment !== undefined && { sourceEnvironment: flow.source.environment }),
 
       // Target details
       targetType: flow.target.sourceType === 'values_file' ? 'helmfile_value' : 'helm_value',
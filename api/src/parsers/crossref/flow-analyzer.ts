@@ -166,6 +166,7 @@ export class FlowAnalyzer implements IFlowAnalyzer {
             outputs: outputs,
             workingDir: this.extractWorkingDir(run),
             envVars,
+            varFiles: this.extractVarFiles(run),
           });
         }
       }
@@ -776,6 +777,17 @@ export class FlowAnalyzer implements IFlowAnalyzer {
     return match?.[1];
   }
 
+  /**
+   * Extract -var-file arguments from terraform command
+   */
+  private extractVarFiles(run: string): string[] {
+    const varFiles: string[] = [];
+    for (const match of run.matchAll(/-var-file[=\s]+["']?([^\s"';&|]+)/g)) {
+      if (match[1]) varFiles.push(match[1]);
+    }
+    return varFiles;
+  }
+
   /**
    * Extract environment variables from a step.
    */
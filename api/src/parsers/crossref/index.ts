@@ -208,6 +208,12 @@ export {
   ARTIFACT_PATTERNS,
 } from './pattern-detectors';
 
+// Workflow Flow Detection (TASK-XREF-009)
+export {
+  detectWorkflowFlows,
+  createWorkflowDetectionContext,
+} from './workflow-flows.js';
+
 // TfHelmDetector - Main Orchestrator
 export {
   TfHelmDetector,
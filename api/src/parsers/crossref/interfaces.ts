@@ -210,6 +210,8 @@ export interface TerraformStepInfo {
   readonly workingDir?: string;
   /** Environment variables available to the step */
   readonly envVars?: Readonly<Record<string, string>>;
+  /** Variable files passed with -var-file */
+  readonly varFiles?: readonly string[];
 }
 
 /**
@@ -55,6 +55,7 @@ import { IConfidenceScorer } from './types';
 import { createFlowAnalyzer, FlowAnalyzer } from './flow-analyzer';
 import { createConfidenceScorer, ConfidenceScorer } from './confidence-scorer';
 import { createPatternDetectors } from './pattern-detectors';
+import { getVarsFileEnvironment } from '../terraform/variable-values.js';
 
 // ============================================================================
 // Detector Configuration
@@ -424,7 +425,7 @@ export class TfHelmDetector implements ITfHelmDetector {
       const tfStepInfos = this.flowAnalyzer.findTerraformSteps(steps, jobId);
 
       for (const info of tfStepInfos) {
-        allSteps.push(this.convertToTerraformStepContext(info, jobId));
+        allSteps.push(this.convertToTerraformStepContext(info, jobId, jobObj));
       }
     }
 
@@ -481,8 +482,10 @@ export class TfHelmDetector implements ITfHelmDetector {
    */
   private convertToTerraformStepContext(
     info: TerraformStepInfo,
-    jobId: string
+    jobId: string,
+    job: Record<string, unknown> = {}
   ): TerraformStepContext {
+    const environment = this.resolveStepEnvironment(info, job);
     return {
       jobId,
       stepIndex: info.stepIndex,
@@ -491,9 +494,36 @@ export class TfHelmDetector implements ITfHelmDetector {
       outputs: info.outputs,
       workingDir: info.workingDir,
       envVars: info.envVars ?? Object.freeze({}),
+      ...(environment !== undefined && { environment }),
     };
   }
 
+  /**
+   * Resolve the environment a Terraform step deploys: its first static
+   * variable file, then TF_WORKSPACE, then the job's deployment environment
+   */
+  private resolveStepEnvironment(
+    info: TerraformStepInfo,
+    job: Record<string, unknown>
+  ): string | undefined {
+    for (const varFile of info.varFiles ?? []) {
+      if (varFile.includes('${') || varFile.includes('$(')) continue;
+      const environment = getVarsFileEnvironment(varFile);
+      if (environment !== null) return environment;
+    }
+
+    const workspace = info.envVars?.['TF_WORKSPACE'];
+    if (workspace && !workspace.includes('${')) {
+      return workspace.toLowerCase();
+    }
+
+    const jobEnvironment = job.environment;
+    const name = typeof jobEnvironment === 'object' && jobEnvironment !== null
+      ? (jobEnvironment as { name?: unknown }).name
+      : jobEnvironment;
+    return typeof name === 'string' && !name.includes('${') ? name.toLowerCase() : undefined;
+  }
+
   /**
    * Convert HelmStepInfo to HelmStepContext
    */
@@ -586,7 +616,8 @@ export class TfHelmDetector implements ITfHelmDetector {
         const detectedFlows = detector.detect(context);
 
         // Deduplicate and add flows
-        for (const flow of detectedFlows) {
+        for (const detected of detectedFlows) {
+          const flow = this.withSourceEnvironment(detected, context);
           const flowKey = `${flow.source.jobId}:${flow.source.name}:${flow.target.jobId}:${flow.target.path}`;
 
           if (!seenFlowIds.has(flowKey)) {
@@ -618,6 +649,22 @@ export class TfHelmDetector implements ITfHelmDetector {
     return sortedFlows;
   }
 
+  /**
+   * Record the environment of the Terraform step producing a flow's output
+   */
+  private withSourceEnvironment(
+    flow: TerraformToHelmFlow,
+    context: TfHelmDetectionContext
+  ): TerraformToHelmFlow {
+    const step = context.terraformSteps.find(
+      (s: TerraformStepContext) => s.jobId === flow.source.jobId && s.stepIndex === flow.source.stepIndex
+    );
+    if (step?.environment === undefined || flow.source.environment !== undefined) {
+      return flow;
+    }
+    return { ...flow, source: { ...flow.source, environment: step.environment } };
+  }
+
   /**
    * Check if a pattern is enabled in configuration
    */
@@ -105,6 +105,8 @@ export interface TerraformOutputInfo {
   readonly sensitive: boolean;
   /** Output type if detectable */
   readonly outputType?: string;
+  /** Environment whose variable values produced the output */
+  readonly environment?: string;
   /** Source location in workflow file */
   readonly location: SourceLocation;
 }
@@ -247,6 +249,8 @@ export interface TerraformStepContext {
   readonly outputs: readonly string[];
   readonly workingDir?: string;
   readonly envVars: Readonly<Record<string, string>>;
+  /** Environment the step deploys, from its variable files, workspace or job */
+  readonly environment?: string;
 }
 
 /**
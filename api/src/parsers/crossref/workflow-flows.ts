@@ -0,0 +1,121 @@
+/**
+ * Workflow Flow Detection
+ * @module parsers/crossref/workflow-flows
+ *
+ * Runs the Terraform-to-Helm pattern detectors over a generic ParsedWorkflow,
+ * so CI parsers that map their pipelines onto ParsedWorkflow (Jenkins, Azure
+ * Pipelines, CircleCI) share one detection path. Step contexts carry each
+ * step's whole script as their command, which is what the detectors match.
+ *
+ * TASK-XREF-009: Cross-CI Terraform-to-Helm flow detection
+ */
+
+import { createFlowAnalyzer } from './flow-analyzer.js';
+import { createPatternDetectors } from './pattern-detectors.js';
+import type { ParsedWorkflow } from './pipeline-node.js';
+import type {
+  HelmStepContext,
+  TerraformStepContext,
+  TerraformToHelmFlow,
+  TfHelmDetectionContext,
+} from './types.js';
+
+/** `--set key=value`, where value may be quoted or a $(...) substitution */
+const HELM_SET_VALUE = /--set(?:-string)?[=\s]+([^=\s]+)=("[^"]*"|'[^']*'|\$\([^)]*\)|\S+)/g;
+
+/**
+ * Run the pattern detectors over the run steps of a workflow's jobs.
+ * Flows are deduplicated by source output and target value path and sorted
+ * by descending confidence.
+ */
+export function detectWorkflowFlows(
+  workflow: ParsedWorkflow,
+  minConfidence = 0
+): TerraformToHelmFlow[] {
+  const context = createWorkflowDetectionContext(workflow);
+  if (context.terraformSteps.length === 0 || context.helmSteps.length === 0) {
+    return [];
+  }
+
+  const flows: TerraformToHelmFlow[] = [];
+  const seen = new Set<string>();
+
+  for (const detector of createPatternDetectors()) {
+    if (!detector.isApplicable(context)) {
+      continue;
+    }
+    for (const flow of detector.detect(context)) {
+      const key = `${flow.source.jobId}:${flow.source.name}:${flow.target.jobId}:${flow.target.path}`;
+      if (!seen.has(key) && flow.confidence >= minConfidence) {
+        seen.add(key);
+        flows.push(flow);
+      }
+    }
+  }
+
+  return flows.sort((a, b) => b.confidence - a.confidence);
+}
+
+/**
+ * Build the detection context for a workflow
+ */
+export function createWorkflowDetectionContext(workflow: ParsedWorkflow): TfHelmDetectionContext {
+  const analyzer = createFlowAnalyzer();
+  const jobs = new Map<string, unknown>();
+  const terraformSteps: TerraformStepContext[] = [];
+  const helmSteps: HelmStepContext[] = [];
+  const jobDependencies = new Map<string, readonly string[]>();
+
+  for (const [jobId, job] of Array.from(workflow.jobs)) {
+    const steps = job.steps;
+    jobs.set(jobId, { steps, needs: job.needs });
+    jobDependencies.set(jobId, job.needs ?? []);
+
+    for (const info of analyzer.findTerraformSteps(steps, jobId)) {
+      const step = steps[info.stepIndex];
+      const workingDir = step?.workingDirectory ?? info.workingDir;
+      terraformSteps.push({
+        jobId,
+        stepIndex: step?.index ?? info.stepIndex,
+        ...(step?.id !== undefined ? { stepId: step.id } : {}),
+        command: step?.run ?? info.command,
+        outputs: info.outputs,
+        ...(workingDir !== undefined ? { workingDir } : {}),
+        envVars: step?.env ?? {},
+      });
+    }
+
+    for (const info of analyzer.findHelmSteps(steps, jobId)) {
+      const step = steps[info.stepIndex];
+      const command = step?.run ?? info.command;
+      helmSteps.push({
+        jobId,
+        stepIndex: step?.index ?? info.stepIndex,
+        ...(step?.id !== undefined ? { stepId: step.id } : {}),
+        command,
+        setValues: extractHelmSetValues(command),
+        valuesFiles: info.valuesFiles,
+        ...(info.releaseName !== undefined ? { releaseName: info.releaseName } : {}),
+        ...(info.chart !== undefined ? { chart: info.chart } : {}),
+      });
+    }
+  }
+
+  return {
+    workflow,
+    jobs,
+    terraformSteps,
+    helmSteps,
+    jobDependencies,
+    workflowFile: workflow.filePath,
+  };
+}
+
+function extractHelmSetValues(command: string): Map<string, string> {
+  const values = new Map<string, string>();
+  for (const match of command.matchAll(HELM_SET_VALUE)) {
+    const value = (match[2] ?? '').replace(/^(["'])([\s\S]*)\1$/, '$2');
+    values.set(match[1] ?? '', value);
+  }
+  return values;
+}
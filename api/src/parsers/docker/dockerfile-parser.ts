@@ -0,0 +1,386 @@
+/**
+ * Dockerfile Parser
+ * @module parsers/docker/dockerfile-parser
+ *
+ * Parses Dockerfiles into build stages (FROM chains, COPY --from sources,
+ * ARG/ENV/LABEL/EXPOSE) and produces docker_stage / docker_image graph nodes
+ * with the base_image and copies_from edges between them.
+ *
+ * TASK-DOCKER-001: Dockerfile parsing for container image dependency detection
+ */
+
+import { createDockerEdges } from './edge-factory.js';
+import {
+  expandVariables,
+  lexDockerfile,
+  parseKeyValuePairs,
+  splitWords,
+} from './instructions.js';
+import { createDockerNodes } from './node-factory.js';
+import {
+  DEFAULT_DOCKER_PARSER_OPTIONS,
+  isDockerfilePath,
+  type DockerCopySource,
+  type DockerInstruction,
+  type DockerParseError,
+  type DockerParseResult,
+  type DockerParserOptions,
+  type DockerStage,
+  type Dockerfile,
+} from './types.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParserOptions,
+} from '../base/parser.js';
+
+/**
+ * Stage under construction
+ */
+interface StageBuilder {
+  index: number;
+  name?: string;
+  baseImage: string;
+  baseImageExpression: string;
+  baseStageIndex?: number;
+  platform?: string;
+  args: Record<string, string>;
+  env: Record<string, string>;
+  labels: Record<string, string>;
+  exposedPorts: string[];
+  copySources: DockerCopySource[];
+  lineStart: number;
+  lineEnd: number;
+}
+
+// ============================================================================
+// Dockerfile Parser
+// ============================================================================
+
+/**
+ * Parser for Dockerfiles.
+ */
+export class DockerfileParser extends BaseParser<DockerParseResult> {
+  readonly name = 'dockerfile-parser';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['Dockerfile', '.dockerfile'] as const;
+  readonly supportedMimeTypes = ['text/x-dockerfile'] as const;
+
+  private readonly dockerOptions: Required<DockerParserOptions>;
+
+  constructor(options?: ParserOptions & Partial<DockerParserOptions>) {
+    super(options);
+    this.dockerOptions = { ...DEFAULT_DOCKER_PARSER_OPTIONS, ...options };
+  }
+
+  /**
+   * Check if this parser can handle the given file.
+   * With content, requires a FROM instruction.
+   */
+  override canParse(filePath: string, content?: string): boolean {
+    if (!isDockerfilePath(filePath)) {
+      return false;
+    }
+    return content === undefined || /^\s*FROM\s/im.test(content);
+  }
+
+  /**
+   * Parse Dockerfile content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    _options: Required<ParserOptions>
+  ): Promise<ParseResult<DockerParseResult>> {
+    const startTime = performance.now();
+    const errors: DockerParseError[] = [];
+    const warnings: DockerParseError[] = [];
+
+    // Malformed instructions are skipped rather than failing the whole file
+    const lexed = lexDockerfile(content);
+    for (const problem of lexed.errors) {
+      warnings.push({ ...problem, file: filePath, severity: 'warning' });
+    }
+
+    const dockerfile = this.buildDockerfile(
+      filePath,
+      lexed.instructions,
+      lexed.escapeChar,
+      lexed.syntax,
+      warnings
+    );
+
+    if (dockerfile.stages.length === 0) {
+      errors.push({
+        message: 'Dockerfile has no FROM instruction',
+        file: filePath,
+        severity: 'error',
+        code: 'NO_FROM',
+      });
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.line !== undefined
+            ? this.createLocation(filePath, e.line, e.line, 0, 0)
+            : null,
+          severity: 'error' as const,
+        })),
+        null,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const nodes = createDockerNodes(dockerfile, this.dockerOptions.imageNames);
+    const edges = this.dockerOptions.generateEdges ? createDockerEdges(dockerfile, nodes) : [];
+
+    const result: DockerParseResult = {
+      success: true,
+      dockerfile,
+      nodes,
+      edges,
+      errors,
+      warnings,
+      metadata: {
+        filePath,
+        parserName: this.name,
+        parserVersion: this.version,
+        parseTimeMs: performance.now() - startTime,
+        fileSize: content.length,
+        lineCount: content.split('\n').length,
+        instructionCount: dockerfile.instructions.length,
+        stageCount: dockerfile.stages.length,
+        externalImageCount: nodes.filter(n => n.type === 'docker_image').length,
+      },
+    };
+
+    return this.createSuccess(
+      result,
+      warnings.map(w => ({
+        code: w.code,
+        message: w.message,
+        location: w.line !== undefined
+          ? this.createLocation(filePath, w.line, w.line, 0, 0)
+          : null,
+        severity: 'warning' as const,
+      })),
+      this.createMetadata(filePath, startTime, content)
+    );
+  }
+
+  // ============================================================================
+  // Dockerfile Construction
+  // ============================================================================
+
+  private buildDockerfile(
+    filePath: string,
+    instructions: readonly DockerInstruction[],
+    escapeChar: '\\' | '`',
+    syntax: string | undefined,
+    warnings: DockerParseError[]
+  ): Dockerfile {
+    const { buildArgs } = this.dockerOptions;
+    const globalArgs: Record<string, string> = {};
+    const stages: StageBuilder[] = [];
+    let current: StageBuilder | undefined;
+
+    const warn = (code: DockerParseError['code'], message: string, line: number): void => {
+      warnings.push({ message, file: filePath, line, severity: 'warning', code });
+    };
+
+    for (const instruction of instructions) {
+      const line = instruction.lineStart;
+
+      if (instruction.keyword === 'FROM') {
+        current = this.startStage(instruction, stages, globalArgs, escapeChar, warn);
+        stages.push(current);
+        continue;
+      }
+
+      if (!current) {
+        if (instruction.keyword === 'ARG') {
+          for (const [name, value] of parseKeyValuePairs('ARG', instruction.body, escapeChar)) {
+            const resolved = buildArgs[name] ?? (value !== undefined
+              ? expandVariables(value, n => globalArgs[n], escapeChar).value
+              : undefined);
+            if (resolved !== undefined) {
+              globalArgs[name] = resolved;
+            }
+          }
+        } else {
+          warn('INSTRUCTION_BEFORE_FROM', `${instruction.keyword} appears before the first FROM`, line);
+        }
+        continue;
+      }
+
+      const stage = current;
+      stage.lineEnd = instruction.lineEnd;
+      // ENV takes precedence over ARG of the same name
+      const lookup = (name: string): string | undefined => stage.env[name] ?? stage.args[name];
+      const expand = (text: string): string => expandVariables(text, lookup, escapeChar).value;
+
+      switch (instruction.keyword) {
+        case 'ARG':
+          for (const [name, value] of parseKeyValuePairs('ARG', instruction.body, escapeChar)) {
+            const resolved = buildArgs[name] ??
+              (value !== undefined ? expand(value) : globalArgs[name]);
+            if (resolved !== undefined) {
+              stage.args[name] = resolved;
+            }
+          }
+          break;
+
+        case 'ENV':
+          for (const [name, value] of parseKeyValuePairs('ENV', instruction.body, escapeChar)) {
+            stage.env[name] = expand(value ?? '');
+          }
+          break;
+
+        case 'LABEL':
+          for (const [name, value] of parseKeyValuePairs('LABEL', instruction.body, escapeChar)) {
+            stage.labels[name] = expand(value ?? '');
+          }
+          break;
+
+        case 'EXPOSE':
+          for (const word of splitWords(instruction.body, escapeChar)) {
+            const port = expand(word).toLowerCase();
+            const normalized = port.includes('/') ? port : `${port}/tcp`;
+            if (!stage.exposedPorts.includes(normalized)) {
+              stage.exposedPorts.push(normalized);
+            }
+          }
+          break;
+
+        case 'COPY':
+        case 'ADD': {
+          const fromFlag = instruction.flags.from;
+          if (fromFlag === undefined) {
+            break;
+          }
+          const from = expand(fromFlag);
+          const stageIndex = findStageIndex(from, stages, stage.index);
+          if (stageIndex === undefined && /^\d+$/.test(from)) {
+            warn('UNKNOWN_STAGE', `COPY --from=${from} does not name an earlier stage`, line);
+            break;
+          }
+          stage.copySources.push({
+            from,
+            ...(stageIndex !== undefined ? { stageIndex } : {}),
+            line,
+          });
+          break;
+        }
+
+        default:
+          break;
+      }
+    }
+
+    return {
+      filePath,
+      escapeChar,
+      ...(syntax !== undefined ? { syntax } : {}),
+      globalArgs,
+      stages: stages.map(toStage),
+      instructions,
+    };
+  }
+
+  /**
+   * Start a stage from a `FROM [--platform=<p>] <image> [AS <name>]` instruction.
+   * Only global ARGs are in scope for FROM.
+   */
+  private startStage(
+    instruction: DockerInstruction,
+    stages: readonly StageBuilder[],
+    globalArgs: Readonly<Record<string, string>>,
+    escapeChar: '\\' | '`',
+    warn: (code: DockerParseError['code'], message: string, line: number) => void
+  ): StageBuilder {
+    const words = splitWords(instruction.body, escapeChar);
+    const expression = words[0] ?? '';
+    const lookup = (name: string): string | undefined => globalArgs[name];
+    const expansion = expandVariables(expression, lookup, escapeChar);
+
+    for (const name of expansion.unresolved) {
+      warn('UNRESOLVED_VARIABLE', `FROM uses ${name}, which has no global ARG value`, instruction.lineStart);
+    }
+
+    const name = words[1]?.toUpperCase() === 'AS' ? words[2] : undefined;
+    const platform = instruction.flags.platform;
+    const index = stages.length;
+    const baseStageIndex = findStageIndex(expansion.value, stages, index);
+    const baseStage = baseStageIndex !== undefined ? stages[baseStageIndex] : undefined;
+
+    return {
+      index,
+      ...(name !== undefined ? { name } : {}),
+      baseImage: expansion.value,
+      baseImageExpression: expression,
+      ...(baseStageIndex !== undefined ? { baseStageIndex } : {}),
+      ...(platform !== undefined
+        ? { platform: expandVariables(platform, lookup, escapeChar).value }
+        : {}),
+      args: {},
+      env: { ...baseStage?.env },
+      labels: { ...baseStage?.labels },
+      exposedPorts: [...(baseStage?.exposedPorts ?? [])],
+      copySources: [],
+      lineStart: instruction.lineStart,
+      lineEnd: instruction.lineEnd,
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Resolve a stage reference (name, case-insensitive, or numeric index) among
+ * the stages before `beforeIndex`
+ */
+function findStageIndex(
+  reference: string,
+  stages: readonly StageBuilder[],
+  beforeIndex: number
+): number | undefined {
+  if (/^\d+$/.test(reference)) {
+    const index = Number(reference);
+    return index < beforeIndex ? index : undefined;
+  }
+  const lower = reference.toLowerCase();
+  const stage = stages.find(s => s.index < beforeIndex && s.name?.toLowerCase() === lower);
+  return stage?.index;
+}
+
+function toStage(builder: StageBuilder): DockerStage {
+  const { lineStart, lineEnd, ...stage } = builder;
+  return { ...stage, lineRange: { start: lineStart, end: lineEnd } };
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new Dockerfile parser instance
+ */
+export function createDockerfileParser(
+  options?: ParserOptions & Partial<DockerParserOptions>
+): DockerfileParser {
+  return new DockerfileParser(options);
+}
+
+/**
+ * Parse Dockerfile content directly
+ */
+export async function parseDockerfile(
+  content: string,
+  filePath: string,
+  options?: ParserOptions & Partial<DockerParserOptions>
+): Promise<ParseResult<DockerParseResult>> {
+  const parser = createDockerfileParser(options);
+  return parser.parse(content, filePath, options);
+}
@@ -0,0 +1,385 @@
+/**
+ * Dockerfile Edge Factory
+ * @module parsers/docker/edge-factory
+ *
+ * Builds dependency edges for Dockerfiles:
+ * - base_image: stage -> stage or external image it is built FROM
+ * - copies_from: stage -> stage or external image of COPY --from
+ * - runs_image: K8s workload / Helm image value -> final stage of the
+ *   Dockerfile that builds the image it runs
+ *
+ * Stage edges are built per file; runs_image edges are built across every
+ * node of a scan because workloads and Dockerfiles live in different files.
+ *
+ * TASK-DOCKER-001: Dockerfile parsing for container image dependency detection
+ */
+
+import { createDockerImageNode } from './node-factory.js';
+import {
+  createDockerStageNodeId,
+  normalizeImageRepository,
+  type DockerBuildStep,
+  type DockerNode,
+  type Dockerfile,
+} from './types.js';
+
+import type {
+  DockerStageNode,
+  EdgeType,
+  GraphEdge,
+  NodeLocation,
+  NodeType,
+} from '../../types/graph.js';
+
+
+/**
+ * Node types whose pod spec lists containers
+ */
+const WORKLOAD_NODE_TYPES: ReadonlySet<string> = new Set([
+  'k8s_deployment',
+  'k8s_statefulset',
+  'k8s_daemonset',
+  'k8s_job',
+  'k8s_cronjob',
+  'k8s_pod',
+]);
+
+/**
+ * Helm value paths that hold an image reference (`image`, `image.repository`,
+ * `api.image.repository`, ...)
+ */
+const HELM_IMAGE_VALUE_PATTERN = /(?:^|\.)image(?:\.repository)?$/;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create base_image and copies_from edges between the stages of one
+ * Dockerfile and the external images they reference.
+ *
+ * @param dockerfile - Parsed Dockerfile
+ * @param nodes - Nodes created for the Dockerfile
+ * @returns Deduplicated edges
+ */
+export function createDockerEdges(dockerfile: Dockerfile, nodes: readonly DockerNode[]): GraphEdge[] {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const edges = new Map<string, GraphEdge>();
+
+  const add = (edge: GraphEdge | undefined): void => {
+    if (edge && !edges.has(edge.id)) {
+      edges.set(edge.id, edge);
+    }
+  };
+
+  const resolve = (reference: string, stageIndex: number | undefined, line: number): DockerNode | undefined =>
+    stageIndex !== undefined
+      ? byId.get(createDockerStageNodeId(dockerfile.filePath, stageIndex))
+      : byId.get(createDockerImageNode(reference, dockerfile.filePath, line)?.id ?? '');
+
+  for (const stage of dockerfile.stages) {
+    const source = byId.get(createDockerStageNodeId(dockerfile.filePath, stage.index));
+    if (!source) {
+      continue;
+    }
+
+    const base = resolve(stage.baseImage, stage.baseStageIndex, stage.lineRange.start);
+    if (base) {
+      add(createEdge('base_image', source, base, {
+        attribute: 'FROM',
+        confidence: 100,
+        implicit: false,
+        description: `${source.name} is built FROM ${stage.baseImage}`,
+      }));
+    }
+
+    for (const copySource of stage.copySources) {
+      const target = resolve(copySource.from, copySource.stageIndex, copySource.line);
+      if (target && target.id !== source.id) {
+        add(createEdge('copies_from', source, target, {
+          attribute: 'COPY --from',
+          confidence: 100,
+          implicit: false,
+          description: `${source.name} copies files from ${copySource.from}`,
+        }));
+      }
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Link workloads and Helm image values to the final stage of the Dockerfile
+ * that builds the image they run.
+ *
+ * Images are matched to Dockerfiles by, in order of confidence:
+ * 1. image names recorded on the final stage (parser `imageNames` option),
+ * 2. CI build steps whose Dockerfile path matches,
+ * 3. the Dockerfile's directory being named like the image repository, used
+ *    only when neither of the above names the image.
+ *
+ * @param nodes - All nodes of a scan
+ * @param buildSteps - Image builds found in CI configuration
+ * @returns Deduplicated runs_image edges
+ */
+export function createDockerImageEdges(
+  nodes: readonly NodeType[],
+  buildSteps: readonly DockerBuildStep[] = []
+): GraphEdge[] {
+  const finalStages = nodes.filter(
+    (n): n is DockerStageNode => n.type === 'docker_stage' && n.isFinal
+  );
+  if (finalStages.length === 0) {
+    return [];
+  }
+
+  const builders = indexImageBuilders(finalStages, buildSteps);
+  const edges = new Map<string, GraphEdge>();
+
+  for (const consumer of findImageConsumers(nodes)) {
+    const repository = normalizeImageRepository(consumer.image);
+    if (repository === null) {
+      continue;
+    }
+
+    const explicit = builders.get(repository);
+    const matches = explicit ?? guessImageBuilders(repository, finalStages);
+
+    for (const match of matches) {
+      const edge = createEdge('runs_image', consumer.node, match.stage, {
+        attribute: consumer.attribute,
+        confidence: match.confidence,
+        implicit: true,
+        description: `${consumer.node.name} runs ${consumer.image}, ${match.reason}`,
+      });
+      if (!edges.has(edge.id)) {
+        edges.set(edge.id, edge);
+      }
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Convert a docker step detected in CI configuration (GitLab CI or GitHub
+ * Actions) into a build step for createDockerImageEdges.
+ *
+ * @param step - Detected docker step
+ * @param source - Job or step name used in edge evidence
+ */
+export function toDockerBuildStep(
+  step: {
+    readonly image?: string;
+    readonly tags?: readonly string[];
+    readonly dockerfile?: string;
+    readonly context?: string;
+    readonly location?: { readonly file: string; readonly lineStart: number; readonly lineEnd: number };
+  },
+  source: string
+): DockerBuildStep {
+  const images = [...(step.image !== undefined ? [step.image] : []), ...(step.tags ?? [])];
+
+  return {
+    ...(step.dockerfile !== undefined ? { dockerfile: step.dockerfile } : {}),
+    ...(step.context !== undefined ? { context: step.context } : {}),
+    images: Array.from(new Set(images)),
+    source,
+    ...(step.location !== undefined
+      ? { location: { file: step.location.file, lineStart: step.location.lineStart, lineEnd: step.location.lineEnd } }
+      : {}),
+  };
+}
+
+/**
+ * Build a deterministic edge ID
+ */
+export function createDockerEdgeId(type: EdgeType, source: string, target: string): string {
+  return `${type}:${source}->${target}`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface EdgeDetails {
+  readonly attribute: string;
+  readonly confidence: number;
+  readonly implicit: boolean;
+  readonly description: string;
+}
+
+interface ImageBuilder {
+  readonly stage: DockerStageNode;
+  readonly confidence: number;
+  readonly reason: string;
+}
+
+interface ImageConsumer {
+  readonly node: NodeType;
+  readonly image: string;
+  readonly attribute: string;
+}
+
+/**
+ * Map normalized image repositories to the final stages known to build them
+ */
+function indexImageBuilders(
+  finalStages: readonly DockerStageNode[],
+  buildSteps: readonly DockerBuildStep[]
+): Map<string, ImageBuilder[]> {
+  const builders = new Map<string, ImageBuilder[]>();
+
+  const add = (image: string, builder: ImageBuilder): void => {
+    const repository = normalizeImageRepository(image);
+    if (repository === null) {
+      return;
+    }
+    const list = builders.get(repository) ?? [];
+    if (!list.some(b => b.stage.id === builder.stage.id)) {
+      list.push(builder);
+      builders.set(repository, list);
+    }
+  };
+
+  for (const stage of finalStages) {
+    for (const image of toStringArray(stage.metadata.imageNames)) {
+      add(image, { stage, confidence: 95, reason: `built from ${stage.location.file}` });
+    }
+  }
+
+  for (const step of buildSteps) {
+    const dockerfile = step.dockerfile ?? `${step.context ?? '.'}/Dockerfile`;
+    const stages = closestToRoot(
+      finalStages.filter(stage => pathEndsWith(stage.location.file, dockerfile))
+    );
+
+    for (const stage of stages) {
+      for (const image of step.images) {
+        add(image, {
+          stage,
+          confidence: 90,
+          reason: `built from ${stage.location.file} by ${step.source}`,
+        });
+      }
+    }
+  }
+
+  return builders;
+}
+
+/**
+ * Final stages of Dockerfiles in a directory named like the image repository
+ */
+function guessImageBuilders(
+  repository: string,
+  finalStages: readonly DockerStageNode[]
+): ImageBuilder[] {
+  const imageName = repository.split('/').pop();
+
+  return finalStages
+    .filter(stage => {
+      const segments = normalizePath(stage.location.file).split('/');
+      return segments.length > 1 && segments[segments.length - 2] === imageName;
+    })
+    .map(stage => ({
+      stage,
+      confidence: 55,
+      reason: `probably built from ${stage.location.file} (directory matches image name)`,
+    }));
+}
+
+/**
+ * Images run by K8s workload containers and set in Helm image values
+ */
+function findImageConsumers(nodes: readonly NodeType[]): ImageConsumer[] {
+  const consumers: ImageConsumer[] = [];
+
+  for (const node of nodes) {
+    if (WORKLOAD_NODE_TYPES.has(node.type)) {
+      for (const container of getContainers(node)) {
+        consumers.push({ node, image: container.image, attribute: `containers.${container.name}.image` });
+      }
+    } else if (
+      node.type === 'helm_value' &&
+      typeof node.value === 'string' &&
+      HELM_IMAGE_VALUE_PATTERN.test(node.path)
+    ) {
+      consumers.push({ node, image: node.value, attribute: node.path });
+    }
+  }
+
+  return consumers;
+}
+
+function getContainers(node: NodeType): readonly { readonly name: string; readonly image: string }[] {
+  const containers = 'containers' in node ? node.containers : node.metadata.containers;
+  if (!Array.isArray(containers)) {
+    return [];
+  }
+  return containers.filter(
+    (c): c is { name: string; image: string } =>
+      typeof c === 'object' && c !== null && typeof c.image === 'string' && typeof c.name === 'string'
+  );
+}
+
+/**
+ * Whether `path` ends with the path segments of `suffix`
+ */
+function pathEndsWith(path: string, suffix: string): boolean {
+  const pathSegments = normalizePath(path).split('/');
+  const suffixSegments = normalizePath(suffix).split('/');
+  if (suffixSegments.length > pathSegments.length) {
+    return false;
+  }
+  const offset = pathSegments.length - suffixSegments.length;
+  return suffixSegments.every((segment, i) => pathSegments[offset + i] === segment);
+}
+
+/**
+ * Stages whose Dockerfile is nearest the repository root. A build of
+ * `./Dockerfile` matches every Dockerfile by suffix, but means the top-level one.
+ */
+function closestToRoot(stages: readonly DockerStageNode[]): DockerStageNode[] {
+  const depth = (stage: DockerStageNode): number => normalizePath(stage.location.file).split('/').length;
+  const minDepth = Math.min(...stages.map(depth));
+  return stages.filter(stage => depth(stage) === minDepth);
+}
+
+function normalizePath(path: string): string {
+  return path
+    .split('/')
+    .filter(segment => segment !== '' && segment !== '.')
+    .join('/');
+}
+
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+function createEdge(
+  type: EdgeType,
+  source: { readonly id: string; readonly location: NodeLocation },
+  target: { readonly id: string },
+  details: EdgeDetails
+): GraphEdge {
+  return {
+    id: createDockerEdgeId(type, source.id, target.id),
+    source: source.id,
+    target: target.id,
+    type,
+    label: details.attribute,
+    metadata: {
+      attribute: details.attribute,
+      location: source.location,
+      implicit: details.implicit,
+      confidence: details.confidence,
+      evidence: [{
+        type: details.implicit ? 'semantic' : 'explicit',
+        description: details.description,
+        location: source.location,
+      }],
+    },
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * Dockerfile Parser Module
+ * @module parsers/docker
+ *
+ * Exports all Dockerfile parsing types and utilities.
+ *
+ * TASK-DOCKER-001: Dockerfile parsing for container image dependency detection
+ */
+
+// Types
+export * from './types.js';
+
+// Instruction Lexing
+export {
+  lexDockerfile,
+  splitWords,
+  parseKeyValuePairs,
+  expandVariables,
+  type DockerLexResult,
+  type DockerExpansion,
+} from './instructions.js';
+
+// Node Factory
+export {
+  createDockerNodes,
+  createDockerStageNode,
+  createDockerImageNode,
+} from './node-factory.js';
+
+// Edge Factory
+export {
+  createDockerEdges,
+  createDockerImageEdges,
+  createDockerEdgeId,
+  toDockerBuildStep,
+} from './edge-factory.js';
+
+// Dockerfile Parser
+export {
+  DockerfileParser,
+  createDockerfileParser,
+  parseDockerfile,
+} from './dockerfile-parser.js';
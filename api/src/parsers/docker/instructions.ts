@@ -0,0 +1,338 @@
+/**
+ * Dockerfile Instruction Lexer
+ * @module parsers/docker/instructions
+ *
+ * Splits Dockerfile content into instructions (parser directives, line
+ * continuations, comments and heredocs) and provides the word splitting and
+ * variable substitution rules Docker applies to instruction arguments.
+ *
+ * TASK-DOCKER-001: Dockerfile parsing for container image dependency detection
+ */
+
+import type { DockerInstruction, DockerParseErrorCode } from './types.js';
+
+/**
+ * Result of lexing a Dockerfile
+ */
+export interface DockerLexResult {
+  readonly instructions: DockerInstruction[];
+  readonly escapeChar: '\\' | '`';
+  readonly syntax?: string;
+  readonly errors: Array<{ message: string; line: number; code: DockerParseErrorCode }>;
+}
+
+/**
+ * Result of substituting variables in a string
+ */
+export interface DockerExpansion {
+  readonly value: string;
+  /** Variables that had no value and were left in place */
+  readonly unresolved: readonly string[];
+}
+
+/**
+ * Instructions whose arguments may open heredocs
+ */
+const HEREDOC_INSTRUCTIONS = new Set(['RUN', 'COPY', 'ADD']);
+
+/**
+ * Parser directives recognized at the top of a Dockerfile
+ */
+const PARSER_DIRECTIVES = new Set(['escape', 'syntax', 'check']);
+
+// ============================================================================
+// Lexing
+// ============================================================================
+
+/**
+ * Split Dockerfile content into instructions
+ */
+export function lexDockerfile(content: string): DockerLexResult {
+  const lines = content.split(/\r?\n/);
+  const instructions: DockerInstruction[] = [];
+  const errors: DockerLexResult['errors'] = [];
+
+  let escapeChar: '\\' | '`' = '\\';
+  let syntax: string | undefined;
+  let i = 0;
+
+  // Directives must precede any comment, blank line or instruction
+  for (; i < lines.length; i++) {
+    const match = /^\s*#\s*([a-zA-Z][\w-]*)\s*=\s*(.*?)\s*$/.exec(lines[i] ?? '');
+    const key = match?.[1]?.toLowerCase();
+    if (!match || key === undefined || !PARSER_DIRECTIVES.has(key)) {
+      break;
+    }
+    const value = match[2] ?? '';
+    if (key === 'escape' && (value === '`' || value === '\\')) {
+      escapeChar = value;
+    } else if (key === 'syntax') {
+      syntax = value;
+    }
+  }
+
+  while (i < lines.length) {
+    const first = lines[i] ?? '';
+    const trimmed = first.trim();
+    if (trimmed === '' || trimmed.startsWith('#')) {
+      i++;
+      continue;
+    }
+
+    const lineStart = i + 1;
+    let text = '';
+    let current = first;
+
+    for (;;) {
+      const stripped = current.replace(/\s+$/, '');
+      if (!stripped.endsWith(escapeChar)) {
+        text += stripped;
+        break;
+      }
+
+      text += stripped.slice(0, -1);
+      i++;
+      // Comment and empty lines inside a continuation are dropped
+      while (i < lines.length && isSkippedContinuationLine(lines[i] ?? '')) {
+        i++;
+      }
+      if (i >= lines.length) {
+        break;
+      }
+      current = lines[i] ?? '';
+    }
+
+    let lineEnd = Math.min(i + 1, lines.length);
+    i++;
+
+    const match = /^\s*(\S+)\s*([\s\S]*)$/.exec(text);
+    const keyword = (match?.[1] ?? '').toUpperCase();
+    const args = (match?.[2] ?? '').trim();
+
+    if (!/^[A-Z]+$/.test(keyword)) {
+      errors.push({
+        message: `Invalid instruction '${match?.[1] ?? text}'`,
+        line: lineStart,
+        code: 'INVALID_INSTRUCTION',
+      });
+      continue;
+    }
+
+    if (HEREDOC_INSTRUCTIONS.has(keyword)) {
+      for (const heredoc of findHeredocs(args)) {
+        const terminator = lines.slice(i).findIndex(line =>
+          (heredoc.stripTabs ? line.replace(/^\t+/, '') : line) === heredoc.delimiter
+        );
+        if (terminator === -1) {
+          errors.push({
+            message: `Heredoc '${heredoc.delimiter}' is not terminated`,
+            line: lineStart,
+            code: 'UNTERMINATED_HEREDOC',
+          });
+          i = lines.length;
+          break;
+        }
+        i += terminator + 1;
+        lineEnd = i;
+      }
+    }
+
+    const { flags, body } = splitFlags(args);
+    instructions.push({ keyword, args, flags, body, lineStart, lineEnd });
+  }
+
+  return {
+    instructions,
+    escapeChar,
+    ...(syntax !== undefined ? { syntax } : {}),
+    errors,
+  };
+}
+
+// ============================================================================
+// Argument Handling
+// ============================================================================
+
+/**
+ * Split a string into words the way Docker does for instruction arguments:
+ * whitespace separates words, quotes group them and are removed.
+ */
+export function splitWords(text: string, escapeChar: '\\' | '`' = '\\'): string[] {
+  const words: string[] = [];
+  let word = '';
+  let inWord = false;
+  let quote: '"' | "'" | null = null;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] ?? '';
+
+    if (char === escapeChar && quote !== "'" && i + 1 < text.length) {
+      word += text[++i];
+      inWord = true;
+    } else if (quote !== null) {
+      if (char === quote) {
+        quote = null;
+      } else {
+        word += char;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      inWord = true;
+    } else if (/\s/.test(char)) {
+      if (inWord) {
+        words.push(word);
+        word = '';
+        inWord = false;
+      }
+    } else {
+      word += char;
+      inWord = true;
+    }
+  }
+
+  if (inWord) {
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Parse `KEY=value` pairs of ENV, LABEL and ARG instructions.
+ * ENV and LABEL also accept the legacy `KEY value with spaces` form;
+ * ARG names without `=` map to undefined.
+ */
+export function parseKeyValuePairs(
+  keyword: string,
+  text: string,
+  escapeChar: '\\' | '`' = '\\'
+): Array<[string, string | undefined]> {
+  const words = splitWords(text, escapeChar);
+  const first = words[0];
+  if (first === undefined) {
+    return [];
+  }
+
+  if (keyword !== 'ARG' && !first.includes('=')) {
+    const value = text.trim().slice(text.trim().indexOf(first.charAt(0)) + first.length).trim();
+    return [[first, splitWords(value, escapeChar).join(' ')]];
+  }
+
+  return words.map((word): [string, string | undefined] => {
+    const eq = word.indexOf('=');
+    return eq === -1 ? [word, undefined] : [word.slice(0, eq), word.slice(eq + 1)];
+  });
+}
+
+/**
+ * Substitute `$NAME`, `${NAME}`, `${NAME:-default}` and `${NAME:+alternative}`.
+ * Unknown variables are left as written and reported.
+ */
+export function expandVariables(
+  text: string,
+  lookup: (name: string) => string | undefined,
+  escapeChar: '\\' | '`' = '\\'
+): DockerExpansion {
+  const unresolved: string[] = [];
+  let value = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i] ?? '';
+
+    if (char === escapeChar && text[i + 1] === '$') {
+      value += '$';
+      i++;
+      continue;
+    }
+    if (char !== '$') {
+      value += char;
+      continue;
+    }
+
+    if (text[i + 1] === '{') {
+      const close = text.indexOf('}', i + 2);
+      if (close === -1) {
+        value += text.slice(i);
+        break;
+      }
+      const expression = text.slice(i + 2, close);
+      const modifier = /^([A-Za-z_]\w*)(:[-+])([\s\S]*)$/.exec(expression);
+      const name = modifier?.[1] ?? expression;
+      const current = lookup(name);
+
+      if (modifier?.[2] === ':-') {
+        value += current !== undefined && current !== ''
+          ? current
+          : expandVariables(modifier[3] ?? '', lookup, escapeChar).value;
+      } else if (modifier?.[2] === ':+') {
+        value += current !== undefined && current !== ''
+          ? expandVariables(modifier[3] ?? '', lookup, escapeChar).value
+          : '';
+      } else if (current !== undefined) {
+        value += current;
+      } else {
+        unresolved.push(name);
+        value += text.slice(i, close + 1);
+      }
+      i = close;
+      continue;
+    }
+
+    const name = /^[A-Za-z_]\w*/.exec(text.slice(i + 1))?.[0];
+    if (name === undefined) {
+      value += char;
+      continue;
+    }
+    const current = lookup(name);
+    if (current !== undefined) {
+      value += current;
+    } else {
+      unresolved.push(name);
+      value += `$${name}`;
+    }
+    i += name.length;
+  }
+
+  return { value, unresolved };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isSkippedContinuationLine(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed === '' || trimmed.startsWith('#');
+}
+
+/**
+ * Heredocs opened by `<<EOF`, `<<-EOF` or `<<"EOF"`, in order
+ */
+function findHeredocs(args: string): Array<{ delimiter: string; stripTabs: boolean }> {
+  const heredocs: Array<{ delimiter: string; stripTabs: boolean }> = [];
+  const pattern = /<<(-?)(["']?)([A-Za-z_][\w]*)\2/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(args)) !== null) {
+    heredocs.push({ delimiter: match[3] ?? '', stripTabs: match[1] === '-' });
+  }
+  return heredocs;
+}
+
+/**
+ * Separate leading `--name[=value]` flags from the instruction body
+ */
+function splitFlags(args: string): { flags: Record<string, string>; body: string } {
+  const flags: Record<string, string> = {};
+  let rest = args;
+
+  for (;;) {
+    const match = /^--([A-Za-z][\w-]*)(?:=("[^"]*"|'[^']*'|\S*))?\s*/.exec(rest);
+    if (!match) {
+      break;
+    }
+    const raw = match[2] ?? 'true';
+    flags[match[1] ?? ''] = /^(["']).*\1$/.test(raw) ? raw.slice(1, -1) : raw;
+    rest = rest.slice(match[0].length);
+  }
+
+  return { flags, body: rest };
+}
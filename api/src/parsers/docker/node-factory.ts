@@ -0,0 +1,153 @@
+/**
+ * Dockerfile Node Factory
+ * @module parsers/docker/node-factory
+ *
+ * Converts parsed Dockerfile stages into docker_stage nodes and the external
+ * images they build on or copy from into docker_image nodes.
+ *
+ * TASK-DOCKER-001: Dockerfile parsing for container image dependency detection
+ */
+
+import {
+  DOCKER_SCRATCH_IMAGE,
+  createDockerImageNodeId,
+  createDockerStageNodeId,
+  parseImageReference,
+  type DockerNode,
+  type DockerStage,
+  type Dockerfile,
+} from './types.js';
+
+import type {
+  DockerImageNode,
+  DockerStageNode,
+  NodeLocation,
+} from '../../types/graph.js';
+
+
+// ============================================================================
+// Node Creation
+// ============================================================================
+
+/**
+ * Create graph nodes for every stage of a Dockerfile and every external image
+ * referenced by FROM or COPY --from.
+ *
+ * @param dockerfile - Parsed Dockerfile
+ * @param imageNames - Images the Dockerfile is built as, recorded on the final stage
+ */
+export function createDockerNodes(
+  dockerfile: Dockerfile,
+  imageNames: readonly string[] = []
+): DockerNode[] {
+  const finalIndex = dockerfile.stages.length - 1;
+  const stageNodes = dockerfile.stages.map(stage =>
+    createDockerStageNode(stage, dockerfile, stage.index === finalIndex ? imageNames : [])
+  );
+
+  const imageNodes = new Map<string, DockerImageNode>();
+  for (const stage of dockerfile.stages) {
+    const references = [
+      ...(stage.baseStageIndex === undefined ? [{ reference: stage.baseImage, line: stage.lineRange.start }] : []),
+      ...stage.copySources
+        .filter(source => source.stageIndex === undefined)
+        .map(source => ({ reference: source.from, line: source.line })),
+    ];
+
+    for (const { reference, line } of references) {
+      const node = createDockerImageNode(reference, dockerfile.filePath, line);
+      if (node && !imageNodes.has(node.id)) {
+        imageNodes.set(node.id, node);
+      }
+    }
+  }
+
+  return [...stageNodes, ...imageNodes.values()];
+}
+
+/**
+ * Create a node for a build stage
+ */
+export function createDockerStageNode(
+  stage: DockerStage,
+  dockerfile: Dockerfile,
+  imageNames: readonly string[] = []
+): DockerStageNode {
+  const isFinal = stage.index === dockerfile.stages.length - 1;
+  const baseStage = stage.baseStageIndex !== undefined
+    ? dockerfile.stages[stage.baseStageIndex]
+    : undefined;
+
+  return {
+    id: createDockerStageNodeId(dockerfile.filePath, stage.index),
+    type: 'docker_stage',
+    name: stage.name ?? `stage ${stage.index}`,
+    location: createLocation(dockerfile.filePath, stage.lineRange.start, stage.lineRange.end),
+    stageIndex: stage.index,
+    ...(stage.name !== undefined ? { stageName: stage.name } : {}),
+    baseImage: stage.baseImage,
+    isFinal,
+    exposedPorts: stage.exposedPorts,
+    metadata: {
+      dockerfile: dockerfile.filePath,
+      baseImage: stage.baseImage,
+      baseImageExpression: stage.baseImageExpression,
+      baseStage: baseStage?.name ?? stage.baseStageIndex,
+      platform: stage.platform,
+      args: stage.args,
+      env: stage.env,
+      labels: stage.labels,
+      exposedPorts: stage.exposedPorts,
+      copyFrom: stage.copySources.map(source => source.from),
+      imageNames: isFinal ? [...imageNames] : [],
+    },
+  };
+}
+
+/**
+ * Create a node for an external image. Returns null for `scratch` and for
+ * references that are not valid images (e.g. unresolved ARGs).
+ *
+ * @param reference - Image reference after ARG substitution
+ * @param filePath - Dockerfile that first references the image
+ * @param line - Line of the referencing instruction
+ */
+export function createDockerImageNode(
+  reference: string,
+  filePath: string,
+  line: number
+): DockerImageNode | null {
+  if (reference.toLowerCase() === DOCKER_SCRATCH_IMAGE) {
+    return null;
+  }
+  const image = parseImageReference(reference);
+  if (!image) {
+    return null;
+  }
+
+  return {
+    id: createDockerImageNodeId(image),
+    type: 'docker_image',
+    name: image.reference,
+    location: createLocation(filePath, line, line),
+    reference: image.reference,
+    registry: image.registry,
+    repository: image.repository,
+    ...(image.tag !== undefined ? { tag: image.tag } : {}),
+    ...(image.digest !== undefined ? { digest: image.digest } : {}),
+    metadata: {
+      registry: image.registry,
+      repository: image.repository,
+      tag: image.tag,
+      digest: image.digest,
+    },
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function createLocation(file: string, lineStart: number, lineEnd: number): NodeLocation {
+  return { file, lineStart, lineEnd };
+}
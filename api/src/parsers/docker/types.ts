@@ -0,0 +1,361 @@
+/**
+ * Dockerfile Parser Types
+ * @module parsers/docker/types
+ *
+ * Type definitions for Dockerfile parsing.
+ * Node shapes reuse the Docker* node types declared in types/graph.
+ *
+ * TASK-DOCKER-001: Dockerfile parsing for container image dependency detection
+ */
+
+import type {
+  DockerImageNode,
+  DockerStageNode,
+  GraphEdge,
+  NodeLocation,
+} from '../../types/graph.js';
+
+// ============================================================================
+// Dockerfile Types
+// ============================================================================
+
+/**
+ * A single Dockerfile instruction after joining continuation lines
+ */
+export interface DockerInstruction {
+  /** Upper-cased instruction keyword (e.g. FROM, COPY) */
+  readonly keyword: string;
+  /** Everything after the keyword, with continuation lines joined */
+  readonly args: string;
+  /** Leading `--name=value` flags (e.g. --from, --platform) */
+  readonly flags: Readonly<Record<string, string>>;
+  /** Arguments with the leading flags removed */
+  readonly body: string;
+  /** First line of the instruction (1-based) */
+  readonly lineStart: number;
+  /** Last line of the instruction, including heredoc bodies (1-based) */
+  readonly lineEnd: number;
+}
+
+/**
+ * Image reference split into its parts
+ */
+export interface DockerImageReference {
+  /** Reference as written */
+  readonly reference: string;
+  /** Registry host; 'docker.io' when the reference names none */
+  readonly registry: string;
+  /** Repository path; Docker Hub official images get the 'library/' prefix */
+  readonly repository: string;
+  readonly tag?: string;
+  readonly digest?: string;
+}
+
+/**
+ * Source of a `COPY --from` instruction
+ */
+export interface DockerCopySource {
+  /** Value of --from after ARG substitution */
+  readonly from: string;
+  /** Index of the earlier stage it names, if it names one */
+  readonly stageIndex?: number;
+  /** Line of the COPY instruction */
+  readonly line: number;
+}
+
+/**
+ * Build stage started by a FROM instruction
+ */
+export interface DockerStage {
+  /** Zero-based position in the Dockerfile */
+  readonly index: number;
+  /** Name from `FROM ... AS <name>` */
+  readonly name?: string;
+  /** Base image or stage name after ARG substitution */
+  readonly baseImage: string;
+  /** Base image as written */
+  readonly baseImageExpression: string;
+  /** Index of the earlier stage the stage builds on, if any */
+  readonly baseStageIndex?: number;
+  /** Value of --platform */
+  readonly platform?: string;
+  /** ARGs declared in the stage with their effective values */
+  readonly args: Readonly<Record<string, string>>;
+  /** ENV variables set in the stage, including those inherited from a base stage */
+  readonly env: Readonly<Record<string, string>>;
+  readonly labels: Readonly<Record<string, string>>;
+  /** Ports from EXPOSE, normalized to '<port>/<protocol>' */
+  readonly exposedPorts: readonly string[];
+  readonly copySources: readonly DockerCopySource[];
+  /** Line range of the stage (1-based, inclusive) */
+  readonly lineRange: {
+    readonly start: number;
+    readonly end: number;
+  };
+}
+
+/**
+ * Parsed Dockerfile
+ */
+export interface Dockerfile {
+  readonly filePath: string;
+  /** Escape character from the `# escape=` directive */
+  readonly escapeChar: '\\' | '`';
+  /** Frontend from the `# syntax=` directive */
+  readonly syntax?: string;
+  /** ARGs declared before the first FROM, with their effective values */
+  readonly globalArgs: Readonly<Record<string, string>>;
+  readonly stages: readonly DockerStage[];
+  readonly instructions: readonly DockerInstruction[];
+}
+
+// ============================================================================
+// Build Step Types
+// ============================================================================
+
+/**
+ * An image build found in CI configuration (e.g. `docker build -f ... -t ...`
+ * in a GitLab job or a docker/build-push-action step), used to learn which
+ * images a Dockerfile produces.
+ */
+export interface DockerBuildStep {
+  /** Dockerfile path as given to the build; defaults to `<context>/Dockerfile` */
+  readonly dockerfile?: string;
+  /** Build context directory */
+  readonly context?: string;
+  /** Image references the step tags the build with */
+  readonly images: readonly string[];
+  /** Name of the CI job or step, for edge evidence */
+  readonly source: string;
+  readonly location?: NodeLocation;
+}
+
+// ============================================================================
+// Node Types
+// ============================================================================
+
+/**
+ * Union of all Dockerfile node types produced by the parser
+ */
+export type DockerNode = DockerStageNode | DockerImageNode;
+
+/**
+ * Base "image" that starts an empty filesystem and has no node
+ */
+export const DOCKER_SCRATCH_IMAGE = 'scratch';
+
+/**
+ * Registry assumed for references that name none
+ */
+export const DOCKER_HUB_REGISTRY = 'docker.io';
+
+// ============================================================================
+// Parse Result Types
+// ============================================================================
+
+/**
+ * Dockerfile parse error codes
+ */
+export type DockerParseErrorCode =
+  | 'NO_FROM'
+  | 'INSTRUCTION_BEFORE_FROM'
+  | 'INVALID_INSTRUCTION'
+  | 'UNKNOWN_STAGE'
+  | 'UNRESOLVED_VARIABLE'
+  | 'UNTERMINATED_HEREDOC';
+
+/**
+ * Dockerfile parse error or warning
+ */
+export interface DockerParseError {
+  readonly message: string;
+  readonly file: string;
+  readonly line?: number;
+  readonly severity: 'error' | 'warning';
+  readonly code: DockerParseErrorCode;
+}
+
+/**
+ * Parse metadata for a Dockerfile
+ */
+export interface DockerParseMetadata {
+  readonly filePath: string;
+  readonly parserName: string;
+  readonly parserVersion: string;
+  readonly parseTimeMs: number;
+  readonly fileSize: number;
+  readonly lineCount: number;
+  readonly instructionCount: number;
+  readonly stageCount: number;
+  /** Distinct external images referenced by FROM and COPY --from */
+  readonly externalImageCount: number;
+}
+
+/**
+ * Result of parsing a Dockerfile
+ */
+export interface DockerParseResult {
+  readonly success: boolean;
+  readonly dockerfile: Dockerfile;
+  /** Graph nodes for stages and external images */
+  readonly nodes: readonly DockerNode[];
+  /** base_image / copies_from edges within the Dockerfile */
+  readonly edges: readonly GraphEdge[];
+  readonly errors: readonly DockerParseError[];
+  readonly warnings: readonly DockerParseError[];
+  readonly metadata: DockerParseMetadata;
+}
+
+// ============================================================================
+// Parser Options
+// ============================================================================
+
+/**
+ * Dockerfile parser options
+ */
+export interface DockerParserOptions {
+  /** Build edges between stages and images of the Dockerfile */
+  readonly generateEdges?: boolean;
+  /** Values overriding ARG defaults, like `docker build --build-arg` */
+  readonly buildArgs?: Readonly<Record<string, string>>;
+  /**
+   * Images the Dockerfile is built as (`docker build -t`), recorded on the
+   * final stage so workloads running them can be linked back
+   */
+  readonly imageNames?: readonly string[];
+}
+
+/**
+ * Default Dockerfile parser options
+ */
+export const DEFAULT_DOCKER_PARSER_OPTIONS: Required<DockerParserOptions> = {
+  generateEdges: true,
+  buildArgs: {},
+  imageNames: [],
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build the node ID for a stage. Stage names are only unique within a
+ * Dockerfile, so the file path is part of the ID.
+ */
+export function createDockerStageNodeId(filePath: string, stageIndex: number): string {
+  return `${filePath}#stage/${stageIndex}`;
+}
+
+/**
+ * Build the node ID for an external image. Images are shared by every
+ * Dockerfile that references them, so the ID is the normalized reference.
+ */
+export function createDockerImageNodeId(image: DockerImageReference): string {
+  const suffix = image.digest !== undefined
+    ? `@${image.digest}`
+    : `:${image.tag ?? 'latest'}`;
+  return `docker_image:${image.registry}/${image.repository}${suffix}`;
+}
+
+/**
+ * Split an image reference into registry, repository, tag and digest.
+ * Returns null for references that are not valid images (including unresolved
+ * `$VAR` placeholders).
+ */
+export function parseImageReference(reference: string): DockerImageReference | null {
+  const trimmed = reference.trim();
+  if (trimmed === '' || /[\s$]/.test(trimmed)) {
+    return null;
+  }
+
+  let rest = trimmed;
+  let digest: string | undefined;
+  const at = rest.indexOf('@');
+  if (at !== -1) {
+    digest = rest.slice(at + 1);
+    rest = rest.slice(0, at);
+  }
+
+  let tag: string | undefined;
+  const lastColon = rest.lastIndexOf(':');
+  if (lastColon > rest.lastIndexOf('/')) {
+    tag = rest.slice(lastColon + 1);
+    rest = rest.slice(0, lastColon);
+  }
+
+  // The first component is a registry if it looks like a host
+  const slash = rest.indexOf('/');
+  const first = slash === -1 ? '' : rest.slice(0, slash);
+  const hasRegistry = first.includes('.') || first.includes(':') || first === 'localhost';
+  const registry = hasRegistry ? first.toLowerCase() : DOCKER_HUB_REGISTRY;
+  let repository = (hasRegistry ? rest.slice(slash + 1) : rest).toLowerCase();
+
+  if (registry === DOCKER_HUB_REGISTRY && !repository.includes('/')) {
+    repository = `library/${repository}`;
+  }
+  if (!/^[a-z0-9]+(?:[._-]+[a-z0-9]+)*(?:\/[a-z0-9]+(?:[._-]+[a-z0-9]+)*)*$/.test(repository)) {
+    return null;
+  }
+
+  return {
+    reference: trimmed,
+    registry,
+    repository,
+    ...(tag !== undefined && tag !== '' ? { tag } : {}),
+    ...(digest !== undefined && digest !== '' ? { digest } : {}),
+  };
+}
+
+/**
+ * Registry and repository of an image reference, without tag or digest,
+ * so `nginx`, `nginx:1.25` and `docker.io/library/nginx` compare equal.
+ * Tags built from CI variables (`app:$CI_COMMIT_SHA`) are ignored.
+ */
+export function normalizeImageRepository(reference: string): string | null {
+  const trimmed = reference.trim();
+  const suffix = trimmed.search(/[:@][^/]*$/);
+  const image = parseImageReference(
+    suffix !== -1 && trimmed.slice(suffix).includes('$') ? trimmed.slice(0, suffix) : trimmed
+  );
+  return image ? `${image.registry}/${image.repository}` : null;
+}
+
+/**
+ * Check whether a path names a Dockerfile (Dockerfile, Dockerfile.prod,
+ * api.Dockerfile, build.dockerfile)
+ */
+export function isDockerfilePath(filePath: string): boolean {
+  const name = filePath.split('/').pop() ?? '';
+  return /^dockerfile(\..+)?$/i.test(name) || /\.dockerfile$/i.test(name);
+}
+
+/**
+ * Create an empty parse result
+ */
+export function createEmptyDockerParseResult(filePath: string): DockerParseResult {
+  return {
+    success: true,
+    dockerfile: {
+      filePath,
+      escapeChar: '\\',
+      globalArgs: {},
+      stages: [],
+      instructions: [],
+    },
+    nodes: [],
+    edges: [],
+    errors: [],
+    warnings: [],
+    metadata: {
+      filePath,
+      parserName: 'dockerfile-parser',
+      parserVersion: '1.0.0',
+      parseTimeMs: 0,
+      fileSize: 0,
+      lineCount: 0,
+      instructionCount: 0,
+      stageCount: 0,
+      externalImageCount: 0,
+    },
+  };
+}
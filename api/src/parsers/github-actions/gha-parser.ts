@@ -62,6 +62,7 @@ import {
   createEmptyGhaParseResult,
 } from './types';
 import { SourceLocation } from '../terraform/types';
+import { GhaReusableWorkflowResolver } from './reusable-workflow-resolver.js';
 
 // ============================================================================
 // Expression Parser
@@ -609,8 +610,27 @@ export class GitHubActionsParser extends BaseParser<GhaParseResult> {
         );
       }
 
+      // Inline reusable workflow calls and composite actions so their jobs
+      // and steps are detected like the caller's own
+      const ghaWarnings: GhaParseError[] = [];
+      let document = parsed as Record<string, unknown>;
+      const { repositoryReader } = this.ghaOptions;
+      if (repositoryReader) {
+        const resolver = new GhaReusableWorkflowResolver(repositoryReader, this.ghaOptions.reusableWorkflows);
+        const resolution = await resolver.resolve(document, filePath);
+        document = { ...resolution.document };
+        for (const reference of resolution.unresolved) {
+          ghaWarnings.push({
+            message: `${reference.uses} in job ${reference.callerJobId} not inlined: ${reference.reason}`,
+            file: reference.callerFile,
+            severity: 'warning',
+            code: reference.code,
+          });
+        }
+      }
+
       // Extract workflow structure
-      const workflow = this.extractWorkflow(parsed, filePath, content, errors);
+      const workflow = this.extractWorkflow(document, filePath, content, errors);
 
       // Collect all steps from all jobs
       const allSteps = [...workflow.jobs.values()].flatMap(j => j.steps);
@@ -650,7 +670,7 @@ export class GitHubActionsParser extends BaseParser<GhaParseResult> {
         dockerSteps: [],
         allToolSteps: [...terraformSteps, ...helmSteps],
         errors,
-        warnings: [],
+        warnings: ghaWarnings,
         metadata: {
           filePath,
           parserName: this.name,
@@ -996,6 +1016,11 @@ export class GitHubActionsParser extends BaseParser<GhaParseResult> {
       permissions: this.extractPermissions(config.permissions),
       concurrency: this.extractConcurrency(config.concurrency),
       defaults: this.extractDefaults(config.defaults),
+      uses: typeof config.uses === 'string' ? config.uses : undefined,
+      with: this.extractWith(config.with),
+      secrets: config.secrets === 'inherit'
+        ? 'inherit'
+        : config.secrets ? this.extractEnv(config.secrets) : undefined,
       location: {
         file: filePath,
         lineStart: 1,
@@ -1070,7 +1095,7 @@ export class GitHubActionsParser extends BaseParser<GhaParseResult> {
         ...baseProps,
         type: 'uses',
         uses: config.uses,
-        with: config.with as Record<string, string | number | boolean> | undefined,
+        with: this.extractWith(config.with),
       };
       return usesStep;
     }
@@ -1101,6 +1126,23 @@ export class GitHubActionsParser extends BaseParser<GhaParseResult> {
     return result;
   }
 
+  /**
+   * Keep the scalar inputs of a with: map; other values are not valid inputs
+   */
+  private extractWith(value: unknown): Readonly<Record<string, string | number | boolean>> | undefined {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return undefined;
+    }
+
+    const result: Record<string, string | number | boolean> = {};
+    for (const [key, input] of Object.entries(value as Record<string, unknown>)) {
+      if (typeof input === 'string' || typeof input === 'number' || typeof input === 'boolean') {
+        result[key] = input;
+      }
+    }
+    return result;
+  }
+
   private extractDefaults(defaults: unknown): GhaDefaults | undefined {
     if (!defaults || typeof defaults !== 'object') {
       return undefined;
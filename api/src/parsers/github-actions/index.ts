@@ -112,6 +112,13 @@ export type {
   GhaParseErrorCode,
   GhaParseMetadata,
 
+  // Reusable workflow resolution
+  GhaReferenceKind,
+  GhaResolvedReference,
+  GhaUnresolvedReference,
+  GhaWorkflowResolution,
+  GhaReusableWorkflowResolverOptions,
+
   // Parser options
   GhaParserOptions,
   GhaNodeFactoryOptions,
@@ -305,6 +312,18 @@ export {
   type GhaBaseEdgeMetadata,
 } from './edge-factory';
 
+// ============================================================================
+// Reusable Workflow Resolution
+// ============================================================================
+
+export {
+  GhaReusableWorkflowResolver,
+  NodeGhaRepositoryReader,
+  createReusableWorkflowResolver,
+  resolveReusableWorkflows,
+  type GhaRepositoryReader,
+} from './reusable-workflow-resolver.js';
+
 // ============================================================================
 // Convenience Aliases
 // ============================================================================
@@ -0,0 +1,829 @@
+/**
+ * GitHub Actions Reusable Workflow Resolver
+ * @module parsers/github-actions/reusable-workflow-resolver
+ *
+ * Inlines reusable workflow calls (job-level uses:) and composite actions
+ * (step-level uses: of an action.yml with runs.using: composite) into the
+ * calling workflow. with:/secrets: values replace inputs.* and secrets.*
+ * references in the called jobs and steps, and references to the caller's
+ * outputs are rewritten to the jobs and steps producing them, so flow
+ * detection such as the crossref TF-Helm detector sees a single workflow.
+ *
+ * TASK-GHA-REUSE-001: Reusable workflow and composite action resolution
+ */
+
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import type {
+  GhaParseErrorCode,
+  GhaReferenceKind,
+  GhaResolvedReference,
+  GhaReusableWorkflowResolverOptions,
+  GhaUnresolvedReference,
+  GhaWorkflowResolution,
+} from './types.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Reads workflow and action files for the resolver
+ */
+export interface GhaRepositoryReader {
+  /** Read a file of the scanned repository; null when it does not exist */
+  readFile(filePath: string): Promise<string | null>;
+  /** Read a file of another repository at a ref; null when unavailable */
+  readRepositoryFile?(repository: string, filePath: string, ref: string): Promise<string | null>;
+}
+
+type RawRecord = Record<string, unknown>;
+
+/**
+ * Where a workflow or action file being resolved lives
+ */
+interface ResolutionScope {
+  /** File containing the jobs or steps */
+  readonly file: string;
+  /** owner/repo when the file belongs to another repository */
+  readonly repository?: string;
+  readonly ref?: string;
+  /** Keys of the files being resolved, for cycle detection */
+  readonly chain: readonly string[];
+  readonly depth: number;
+}
+
+interface ResolutionState {
+  readonly resolved: GhaResolvedReference[];
+  readonly unresolved: GhaUnresolvedReference[];
+}
+
+interface ParsedReference {
+  readonly path: string;
+  readonly repository?: string;
+  readonly ref?: string;
+}
+
+interface LoadedFile {
+  readonly document: RawRecord;
+  readonly reference: ParsedReference;
+  readonly filePath: string;
+  readonly scope: ResolutionScope;
+}
+
+/**
+ * How the jobs of an inlined workflow call are referenced from the caller
+ */
+interface InlinedCall {
+  /** Inlined jobs no other inlined job needs; replace the caller in needs: */
+  readonly leaves: readonly string[];
+  /** workflow_call output name to the expression producing it */
+  readonly outputs: ReadonlyMap<string, string>;
+}
+
+/**
+ * A with: or secrets: value bound to a name
+ */
+interface BoundValue {
+  /** Value as written, substituted for a bare ${{ inputs.name }} */
+  readonly raw: string;
+  /** Value as an expression operand, when it can be written as one */
+  readonly expression?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Separates the caller job or step ID from the inlined one */
+const ID_SEPARATOR = '--';
+
+const ACTION_FILES = ['action.yml', 'action.yaml'] as const;
+
+const EXPRESSION = /\$\{\{\s*([\s\S]+?)\s*\}\}/g;
+const NEEDS_OUTPUT = /(?<![\w.])needs\.([A-Za-z_][\w-]*)\.outputs\.([\w-]+)/g;
+const NEEDS_JOB = /(?<![\w.])needs\.([A-Za-z_][\w-]*)/g;
+const STEPS_OUTPUT = /(?<![\w.])steps\.([A-Za-z_][\w-]*)\.outputs\.([\w-]+)/g;
+const STEPS_STEP = /(?<![\w.])steps\.([A-Za-z_][\w-]*)/g;
+const JOBS_OUTPUT = /(?<![\w.])jobs\.(?=[A-Za-z_][\w-]*\.outputs\.)/g;
+
+// ============================================================================
+// Default Implementations
+// ============================================================================
+
+/**
+ * Repository reader over a local checkout
+ */
+export class NodeGhaRepositoryReader implements GhaRepositoryReader {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async readFile(filePath: string): Promise<string | null> {
+    const resolved = path.resolve(this.rootDir, filePath);
+    if (!resolved.startsWith(this.rootDir + path.sep)) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(resolved, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+}
+
+// ============================================================================
+// Reusable Workflow Resolver Class
+// ============================================================================
+
+/**
+ * Resolves reusable workflow calls and composite actions of a workflow.
+ *
+ * Jobs of a called workflow are named `<caller job>--<called job>`; those
+ * without needs inherit the caller's needs, and jobs needing the caller need
+ * the called workflow's last jobs instead. Steps of a composite action are
+ * named `<caller step>--<step>`. References to other repositories are only
+ * followed when resolveRemote is set and the reader can read them.
+ *
+ * @example
+ * ```typescript
+ * const resolver = new GhaReusableWorkflowResolver(new NodeGhaRepositoryReader(repoRoot));
+ * const { document } = await resolver.resolveContent(content, '.github/workflows/deploy.yml');
+ * const flows = detectTfHelmFlows(document);
+ * ```
+ */
+export class GhaReusableWorkflowResolver {
+  private readonly reader: GhaRepositoryReader;
+  private readonly maxDepth: number;
+  private readonly options: Required<Omit<GhaReusableWorkflowResolverOptions, 'maxDepth'>>;
+  /** File contents by reference key */
+  private readonly cache = new Map<string, string | null>();
+
+  constructor(reader: GhaRepositoryReader, options: GhaReusableWorkflowResolverOptions = {}) {
+    this.reader = reader;
+    this.maxDepth = options.maxDepth ?? 10;
+    this.options = {
+      expandCompositeActions: options.expandCompositeActions ?? true,
+      resolveRemote: options.resolveRemote ?? false,
+    };
+  }
+
+  // ============================================================================
+  // Public Methods
+  // ============================================================================
+
+  /**
+   * Resolve a workflow given as YAML
+   *
+   * @param content - Workflow YAML
+   * @param filePath - Repository-relative path of the workflow
+   */
+  async resolveContent(content: string, filePath: string): Promise<GhaWorkflowResolution> {
+    const document: unknown = yaml.parse(content);
+    return this.resolve(isRecord(document) ? document : {}, filePath);
+  }
+
+  /**
+   * Resolve a parsed workflow document
+   *
+   * @param document - Workflow as parsed from YAML
+   * @param filePath - Repository-relative path of the workflow
+   */
+  async resolve(document: Readonly<RawRecord>, filePath: string): Promise<GhaWorkflowResolution> {
+    const state: ResolutionState = { resolved: [], unresolved: [] };
+    const file = normalizePath(filePath);
+    const scope: ResolutionScope = { file, chain: [referenceKey({ path: file })], depth: 0 };
+
+    const { jobs } = await this.resolveJobs(isRecord(document.jobs) ? document.jobs : {}, scope, state);
+
+    return {
+      document: { ...document, jobs },
+      resolved: state.resolved,
+      unresolved: state.unresolved,
+    };
+  }
+
+  /**
+   * Drop cached file contents
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  // ============================================================================
+  // Workflow Calls
+  // ============================================================================
+
+  private async resolveJobs(
+    jobs: Readonly<RawRecord>,
+    scope: ResolutionScope,
+    state: ResolutionState
+  ): Promise<{ jobs: RawRecord; calls: Map<string, InlinedCall> }> {
+    const result: RawRecord = {};
+    const calls = new Map<string, InlinedCall>();
+
+    for (const [jobId, job] of Object.entries(jobs)) {
+      if (isRecord(job) && typeof job.uses === 'string') {
+        const inlined = await this.inlineWorkflowCall(jobId, job, job.uses, scope, state);
+        if (inlined) {
+          Object.assign(result, inlined.jobs);
+          calls.set(jobId, inlined.call);
+          continue;
+        }
+      } else if (isRecord(job) && Array.isArray(job.steps) && this.options.expandCompositeActions) {
+        result[jobId] = await this.expandCompositeActions(jobId, job, scope, state);
+        continue;
+      }
+      result[jobId] = job;
+    }
+
+    if (calls.size > 0) {
+      for (const [jobId, job] of Object.entries(result)) {
+        result[jobId] = rewriteCallerReferences(job, calls);
+      }
+    }
+
+    return { jobs: result, calls };
+  }
+
+  private async inlineWorkflowCall(
+    jobId: string,
+    job: RawRecord,
+    uses: string,
+    scope: ResolutionScope,
+    state: ResolutionState
+  ): Promise<{ jobs: RawRecord; call: InlinedCall } | null> {
+    const loaded = await this.load('workflow', uses, jobId, scope, state);
+    if (!loaded) {
+      return null;
+    }
+
+    const { document, scope: calledScope } = loaded;
+    const on = isRecord(document.on) ? document.on : {};
+    const trigger = isRecord(on.workflow_call) ? on.workflow_call : {};
+    const nested = await this.resolveJobs(isRecord(document.jobs) ? document.jobs : {}, calledScope, state);
+
+    const calledIds = new Set(Object.keys(nested.jobs));
+    const prefix = (id: string): string => `${jobId}${ID_SEPARATOR}${id}`;
+    const inputs = bindValues(job.with, trigger.inputs);
+    const secrets = job.secrets === 'inherit' ? new Map<string, BoundValue>() : bindValues(job.secrets, undefined);
+    const callerNeeds = toStringArray(job.needs);
+
+    const jobs: RawRecord = {};
+    const needed = new Set<string>();
+    for (const [id, calledJob] of Object.entries(nested.jobs)) {
+      if (!isRecord(calledJob)) {
+        continue;
+      }
+
+      const internalNeeds = toStringArray(calledJob.needs).filter(n => calledIds.has(n));
+      internalNeeds.forEach(n => needed.add(n));
+
+      let inlined = prefixReferences(calledJob, NEEDS_JOB, 'needs', calledIds, prefix) as RawRecord;
+      inlined = substituteContext(inlined, 'inputs', inputs) as RawRecord;
+      inlined = substituteContext(inlined, 'secrets', secrets) as RawRecord;
+
+      const { needs: _needs, ...rest } = inlined;
+      const needs = internalNeeds.length > 0 ? internalNeeds.map(prefix) : callerNeeds;
+      jobs[prefix(id)] = {
+        ...rest,
+        ...(needs.length > 0 ? { needs } : {}),
+        ...(job.strategy !== undefined && rest.strategy === undefined ? { strategy: job.strategy } : {}),
+        ...(job.if !== undefined && rest.if === undefined ? { if: job.if } : {}),
+      };
+    }
+
+    const outputs = new Map<string, string>();
+    for (const [name, definition] of Object.entries(isRecord(trigger.outputs) ? trigger.outputs : {})) {
+      const value = isRecord(definition) ? definition.value : definition;
+      if (typeof value !== 'string') {
+        continue;
+      }
+
+      let text = mapExpressions(value, body => body.replace(JOBS_OUTPUT, 'needs.')) as string;
+      text = rewriteCallerOutputs(text, nested.calls) as string;
+      text = prefixReferences(text, NEEDS_JOB, 'needs', calledIds, prefix) as string;
+      text = substituteContext(text, 'inputs', inputs) as string;
+
+      const body = toExpressionOperand(text);
+      if (body !== undefined) {
+        outputs.set(name, body);
+      }
+    }
+
+    state.resolved.push({
+      kind: 'workflow',
+      uses,
+      filePath: loaded.filePath,
+      ...(loaded.reference.repository !== undefined ? { repository: loaded.reference.repository } : {}),
+      ...(loaded.reference.ref !== undefined ? { ref: loaded.reference.ref } : {}),
+      callerFile: scope.file,
+      callerJobId: jobId,
+      expandedInto: Object.keys(jobs),
+      depth: calledScope.depth,
+    });
+
+    return {
+      jobs,
+      call: {
+        leaves: [...calledIds].filter(id => !needed.has(id)).map(prefix),
+        outputs,
+      },
+    };
+  }
+
+  // ============================================================================
+  // Composite Actions
+  // ============================================================================
+
+  /**
+   * Replace composite action steps of a job with the action's steps
+   */
+  private async expandCompositeActions(
+    jobId: string,
+    job: RawRecord,
+    scope: ResolutionScope,
+    state: ResolutionState
+  ): Promise<RawRecord> {
+    const steps: unknown[] = [];
+    const stepOutputs = new Map<string, InlinedCall>();
+    const source = Array.isArray(job.steps) ? job.steps : [];
+
+    for (let index = 0; index < source.length; index++) {
+      const step: unknown = source[index];
+      if (isRecord(step) && typeof step.uses === 'string' && isActionReference(step.uses)) {
+        const expanded = await this.inlineCompositeAction(jobId, step, step.uses, index, scope, state);
+        if (expanded) {
+          steps.push(...expanded.steps);
+          if (typeof step.id === 'string') {
+            stepOutputs.set(step.id, { leaves: [], outputs: expanded.outputs });
+          }
+          continue;
+        }
+      }
+      steps.push(step);
+    }
+
+    const expandedJob = { ...job, steps };
+    if (stepOutputs.size === 0) {
+      return expandedJob;
+    }
+
+    return mapExpressions(expandedJob, body =>
+      replaceReferences(body, STEPS_OUTPUT, (id, name) => stepOutputs.get(id)?.outputs.get(name))
+    ) as RawRecord;
+  }
+
+  private async inlineCompositeAction(
+    jobId: string,
+    step: RawRecord,
+    uses: string,
+    index: number,
+    scope: ResolutionScope,
+    state: ResolutionState
+  ): Promise<{ steps: unknown[]; outputs: Map<string, string> } | null> {
+    const loaded = await this.load('composite_action', uses, jobId, scope, state);
+    if (!loaded) {
+      return null;
+    }
+
+    const { document, scope: actionScope } = loaded;
+    const runs = isRecord(document.runs) ? document.runs : {};
+    if (runs.using !== 'composite' || !Array.isArray(runs.steps)) {
+      // JavaScript and Docker actions are leaves
+      return null;
+    }
+
+    const actionOutputs: Record<string, string> = {};
+    for (const [name, definition] of Object.entries(isRecord(document.outputs) ? document.outputs : {})) {
+      const value = isRecord(definition) ? definition.value : definition;
+      if (typeof value === 'string') {
+        actionOutputs[name] = value;
+      }
+    }
+
+    // Expand nested composite actions first; outputs ride along as a job-level field
+    const expanded = await this.expandCompositeActions(
+      jobId,
+      { steps: runs.steps, outputs: actionOutputs },
+      actionScope,
+      state
+    );
+    const innerSteps = Array.isArray(expanded.steps) ? expanded.steps : [];
+    const innerOutputs = isRecord(expanded.outputs) ? expanded.outputs : {};
+
+    const stepPrefix = typeof step.id === 'string' ? step.id : `step-${index}`;
+    const prefix = (id: string): string => `${stepPrefix}${ID_SEPARATOR}${id}`;
+    const innerIds = new Set(
+      innerSteps.filter(isRecord).map(s => s.id).filter((id): id is string => typeof id === 'string')
+    );
+    const inputs = bindValues(step.with, document.inputs);
+    const callerEnv = isRecord(step.env) ? step.env : undefined;
+
+    const steps = innerSteps.map(inner => {
+      if (!isRecord(inner)) {
+        return inner;
+      }
+
+      let inlined = prefixReferences(inner, STEPS_STEP, 'steps', innerIds, prefix) as RawRecord;
+      inlined = substituteContext(inlined, 'inputs', inputs) as RawRecord;
+      const env = isRecord(inlined.env) ? inlined.env : undefined;
+
+      return {
+        ...inlined,
+        ...(typeof inner.id === 'string' ? { id: prefix(inner.id) } : {}),
+        ...(callerEnv || env ? { env: { ...callerEnv, ...env } } : {}),
+        ...(step.if !== undefined && inlined.if === undefined ? { if: step.if } : {}),
+      };
+    });
+
+    const outputs = new Map<string, string>();
+    for (const [name, value] of Object.entries(innerOutputs)) {
+      let text = prefixReferences(value, STEPS_STEP, 'steps', innerIds, prefix);
+      text = substituteContext(text, 'inputs', inputs);
+      const body = typeof text === 'string' ? toExpressionOperand(text) : undefined;
+      if (body !== undefined) {
+        outputs.set(name, body);
+      }
+    }
+
+    state.resolved.push({
+      kind: 'composite_action',
+      uses,
+      filePath: loaded.filePath,
+      ...(loaded.reference.repository !== undefined ? { repository: loaded.reference.repository } : {}),
+      ...(loaded.reference.ref !== undefined ? { ref: loaded.reference.ref } : {}),
+      callerFile: scope.file,
+      callerJobId: jobId,
+      expandedInto: steps
+        .filter(isRecord)
+        .map(s => s.id)
+        .filter((id): id is string => typeof id === 'string'),
+      depth: actionScope.depth,
+    });
+
+    return { steps, outputs };
+  }
+
+  // ============================================================================
+  // File Loading
+  // ============================================================================
+
+  /**
+   * Load the workflow or action.yml a uses: value points at. Failures are
+   * recorded as unresolved, except remote actions that are not followed:
+   * those are usually JavaScript or Docker actions.
+   */
+  private async load(
+    kind: GhaReferenceKind,
+    uses: string,
+    jobId: string,
+    scope: ResolutionScope,
+    state: ResolutionState
+  ): Promise<LoadedFile | null> {
+    const unresolved = (reason: string, code: GhaParseErrorCode): null => {
+      state.unresolved.push({ kind, uses, callerFile: scope.file, callerJobId: jobId, reason, code });
+      return null;
+    };
+
+    const reference = parseReference(uses, scope);
+    if (!reference) {
+      return unresolved(`invalid reference "${uses}"`, 'INVALID_ACTION_REF');
+    }
+
+    if (reference.repository !== undefined && scope.repository === undefined) {
+      if (!this.options.resolveRemote || !this.reader.readRepositoryFile) {
+        return kind === 'workflow'
+          ? unresolved('references to other repositories are not resolved', 'UNRESOLVED_REFERENCE')
+          : null;
+      }
+    }
+
+    if (scope.depth >= this.maxDepth) {
+      return unresolved(`nested deeper than ${this.maxDepth} levels`, 'UNRESOLVED_REFERENCE');
+    }
+
+    const candidates = kind === 'workflow'
+      ? [reference.path]
+      : ACTION_FILES.map(file => (reference.path ? `${reference.path}/${file}` : file));
+
+    for (const filePath of candidates) {
+      const key = referenceKey({ ...reference, path: filePath });
+      if (scope.chain.includes(key)) {
+        return unresolved(`circular reference to ${filePath}`, 'CIRCULAR_DEPENDENCY');
+      }
+
+      const content = await this.read(reference, filePath, key);
+      if (content === null) {
+        continue;
+      }
+
+      let document: unknown;
+      try {
+        document = yaml.parse(content);
+      } catch (error) {
+        return unresolved(
+          `${filePath}: ${error instanceof Error ? error.message : String(error)}`,
+          'INVALID_YAML'
+        );
+      }
+      if (!isRecord(document)) {
+        return unresolved(`${filePath} is not a YAML mapping`, 'INVALID_WORKFLOW');
+      }
+
+      return {
+        document,
+        reference,
+        filePath,
+        scope: {
+          file: filePath,
+          ...(reference.repository !== undefined ? { repository: reference.repository } : {}),
+          ...(reference.ref !== undefined ? { ref: reference.ref } : {}),
+          chain: [...scope.chain, key],
+          depth: scope.depth + 1,
+        },
+      };
+    }
+
+    return unresolved(`${candidates.join(' or ')} not found`, 'FILE_READ_ERROR');
+  }
+
+  private async read(reference: ParsedReference, filePath: string, key: string): Promise<string | null> {
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    let content: string | null = null;
+    if (reference.repository === undefined) {
+      content = await this.reader.readFile(filePath);
+    } else if (this.options.resolveRemote && this.reader.readRepositoryFile) {
+      content = await this.reader.readRepositoryFile(reference.repository, filePath, reference.ref ?? 'HEAD');
+    }
+
+    this.cache.set(key, content);
+    return content;
+  }
+}
+
+// ============================================================================
+// Reference Parsing
+// ============================================================================
+
+/**
+ * Parse ./local/path or owner/repo[/path]@ref. Local paths inside a file of
+ * another repository stay in that repository.
+ */
+function parseReference(uses: string, scope: ResolutionScope): ParsedReference | null {
+  if (uses.startsWith('./')) {
+    return {
+      path: normalizePath(uses),
+      ...(scope.repository !== undefined ? { repository: scope.repository } : {}),
+      ...(scope.ref !== undefined ? { ref: scope.ref } : {}),
+    };
+  }
+
+  const match = /^([\w.-]+\/[\w.-]+)(?:\/([^@]+))?@(.+)$/.exec(uses);
+  if (!match || !match[1] || !match[3]) {
+    return null;
+  }
+
+  return { repository: match[1], path: normalizePath(match[2] ?? ''), ref: match[3] };
+}
+
+function isActionReference(uses: string): boolean {
+  return !uses.startsWith('docker://') && !/\.github\/workflows\/[^/]+\.ya?ml(@|$)/.test(uses);
+}
+
+function referenceKey(reference: ParsedReference): string {
+  return `${reference.repository ?? ''}:${reference.path}@${reference.ref ?? ''}`;
+}
+
+function normalizePath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^(\.\/)+/, '').replace(/\/+$/, '');
+}
+
+// ============================================================================
+// Expression Rewriting
+// ============================================================================
+
+/**
+ * Apply fn to every string in a value
+ */
+function mapStrings(value: unknown, fn: (text: string) => string): unknown {
+  if (typeof value === 'string') {
+    return fn(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => mapStrings(item, fn));
+  }
+  if (isRecord(value)) {
+    const result: RawRecord = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = mapStrings(item, fn);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Rewrite the body of every ${{ }} expression in a value
+ */
+function mapExpressions(value: unknown, fn: (body: string) => string): unknown {
+  return mapStrings(value, text =>
+    text.replace(EXPRESSION, (token, body: string) => {
+      const rewritten = fn(body);
+      return rewritten === body ? token : `\${{ ${rewritten} }}`;
+    })
+  );
+}
+
+/**
+ * Replace references matched by pattern with the expression lookup returns.
+ * Replacements inside larger expressions are parenthesised.
+ */
+function replaceReferences(
+  body: string,
+  pattern: RegExp,
+  lookup: (first: string, second: string) => string | undefined
+): string {
+  const trimmed = body.trim();
+  let changed = false;
+  const result = trimmed.replace(pattern, (match: string, first: string, second: string) => {
+    const replacement = lookup(first, typeof second === 'string' ? second : '');
+    if (replacement === undefined) {
+      return match;
+    }
+    changed = true;
+    return match === trimmed ? replacement : `(${replacement})`;
+  });
+  return changed ? result : body;
+}
+
+/**
+ * Rename job or step IDs inside expressions
+ */
+function prefixReferences(
+  value: unknown,
+  pattern: RegExp,
+  context: 'needs' | 'steps',
+  ids: ReadonlySet<string>,
+  prefix: (id: string) => string
+): unknown {
+  return mapExpressions(value, body => {
+    let changed = false;
+    const result = body.replace(pattern, (match: string, id: string) => {
+      if (!ids.has(id)) {
+        return match;
+      }
+      changed = true;
+      return `${context}.${prefix(id)}`;
+    });
+    return changed ? result : body;
+  });
+}
+
+function rewriteCallerOutputs(value: unknown, calls: ReadonlyMap<string, InlinedCall>): unknown {
+  return mapExpressions(value, body =>
+    replaceReferences(body, NEEDS_OUTPUT, (id, name) => calls.get(id)?.outputs.get(name))
+  );
+}
+
+/**
+ * Point needs: and needs.<caller>.outputs references at the inlined jobs
+ */
+function rewriteCallerReferences(job: unknown, calls: ReadonlyMap<string, InlinedCall>): unknown {
+  if (!isRecord(job)) {
+    return job;
+  }
+
+  const rewritten = rewriteCallerOutputs(job, calls) as RawRecord;
+  if (job.needs === undefined) {
+    return rewritten;
+  }
+
+  const needs = toStringArray(job.needs).flatMap(need => calls.get(need)?.leaves ?? [need]);
+  return { ...rewritten, needs: [...new Set(needs)] };
+}
+
+/**
+ * Substitute inputs.* or secrets.* references with bound values
+ */
+function substituteContext(
+  value: unknown,
+  context: 'inputs' | 'secrets',
+  values: ReadonlyMap<string, BoundValue>
+): unknown {
+  if (values.size === 0) {
+    return value;
+  }
+
+  const whole = new RegExp(`^${context}\\.([\\w-]+)$`);
+  const partial = new RegExp(`(?<![\\w.])${context}\\.([\\w-]+)`, 'g');
+
+  return mapStrings(value, text =>
+    text.replace(EXPRESSION, (token, body: string) => {
+      const name = whole.exec(body.trim())?.[1];
+      if (name !== undefined) {
+        return values.get(name)?.raw ?? token;
+      }
+
+      const rewritten = replaceReferences(body, partial, n => values.get(n)?.expression);
+      return rewritten === body ? token : `\${{ ${rewritten} }}`;
+    })
+  );
+}
+
+/**
+ * Bind with:/secrets: values over declared input defaults
+ */
+function bindValues(given: unknown, declared: unknown): Map<string, BoundValue> {
+  const values = new Map<string, BoundValue>();
+
+  if (isRecord(declared)) {
+    for (const [name, definition] of Object.entries(declared)) {
+      if (isRecord(definition) && definition.default !== undefined && definition.default !== null) {
+        values.set(name, bindValue(definition.default));
+      }
+    }
+  }
+
+  if (isRecord(given)) {
+    for (const [name, value] of Object.entries(given)) {
+      values.set(name, bindValue(value));
+    }
+  }
+
+  return values;
+}
+
+function bindValue(value: unknown): BoundValue {
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    return { raw: String(value), expression: String(value) };
+  }
+
+  const raw = typeof value === 'string' ? value : JSON.stringify(value);
+  const expression = toExpressionOperand(raw);
+  return expression !== undefined ? { raw, expression } : { raw };
+}
+
+/**
+ * The body of a string that is a single ${{ }} expression, or the string as
+ * a quoted literal if it has no expressions
+ */
+function toExpressionOperand(text: string): string | undefined {
+  const match = /^\s*\$\{\{\s*([\s\S]+?)\s*\}\}\s*$/.exec(text);
+  if (match?.[1] !== undefined && !match[1].includes('${{')) {
+    return match[1];
+  }
+  if (!text.includes('${{')) {
+    return `'${text.replace(/'/g, "''")}'`;
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is RawRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function toStringArray(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a resolver reading from a local checkout
+ */
+export function createReusableWorkflowResolver(
+  repositoryRoot: string,
+  options?: GhaReusableWorkflowResolverOptions
+): GhaReusableWorkflowResolver {
+  return new GhaReusableWorkflowResolver(new NodeGhaRepositoryReader(repositoryRoot), options);
+}
+
+/**
+ * Resolve reusable workflows and composite actions of one workflow
+ */
+export async function resolveReusableWorkflows(
+  content: string,
+  filePath: string,
+  reader: GhaRepositoryReader,
+  options?: GhaReusableWorkflowResolverOptions
+): Promise<GhaWorkflowResolution> {
+  return new GhaReusableWorkflowResolver(reader, options).resolveContent(content, filePath);
+}
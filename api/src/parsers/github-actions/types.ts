@@ -13,6 +13,7 @@
 
 import { SourceLocation } from '../terraform/types';
 import { BaseNode, NodeLocation, EdgeMetadata, GraphEdge } from '../../types/graph';
+import type { GhaRepositoryReader } from './reusable-workflow-resolver.js';
 
 // ============================================================================
 // Branded Types for Type Safety
@@ -186,6 +187,12 @@ export interface GhaJob {
   readonly concurrency?: GhaConcurrency;
   /** Job-level defaults */
   readonly defaults?: GhaDefaults;
+  /** Reusable workflow called by this job (./path or owner/repo/path@ref) */
+  readonly uses?: string;
+  /** Inputs passed to the called workflow */
+  readonly with?: Readonly<Record<string, string | number | boolean>>;
+  /** Secrets passed to the called workflow, or 'inherit' */
+  readonly secrets?: Readonly<Record<string, string>> | 'inherit';
   /** Source location */
   readonly location: SourceLocation;
 }
@@ -1174,6 +1181,84 @@ export type GhaToolType =
   | 'azure'
   | 'docker';
 
+// ============================================================================
+// Reusable Workflow Resolution Types (TASK-GHA-REUSE-001)
+// ============================================================================
+
+/**
+ * Kind of reference inlined by the reusable workflow resolver
+ */
+export type GhaReferenceKind = 'workflow' | 'composite_action';
+
+/**
+ * A reusable workflow call or composite action that was inlined
+ */
+export interface GhaResolvedReference {
+  /** Reference kind */
+  readonly kind: GhaReferenceKind;
+  /** The uses: value */
+  readonly uses: string;
+  /** Path of the called workflow or action.yml */
+  readonly filePath: string;
+  /** owner/repo for references to other repositories */
+  readonly repository?: string;
+  /** Git ref for references to other repositories */
+  readonly ref?: string;
+  /** File containing the uses: */
+  readonly callerFile: string;
+  /** Job containing the uses: */
+  readonly callerJobId: string;
+  /** Job IDs (workflows) or step IDs (composite actions) it was expanded into */
+  readonly expandedInto: readonly string[];
+  /** Nesting depth, 1 for references in the root workflow */
+  readonly depth: number;
+}
+
+/**
+ * A reusable workflow call or composite action left in place
+ */
+export interface GhaUnresolvedReference {
+  /** Reference kind */
+  readonly kind: GhaReferenceKind;
+  /** The uses: value */
+  readonly uses: string;
+  /** File containing the uses: */
+  readonly callerFile: string;
+  /** Job containing the uses: */
+  readonly callerJobId: string;
+  /** Why the reference was not inlined */
+  readonly reason: string;
+  /** Error code */
+  readonly code: GhaParseErrorCode;
+}
+
+/**
+ * Workflow with reusable workflow calls and composite actions inlined
+ */
+export interface GhaWorkflowResolution {
+  /**
+   * Workflow document in workflow YAML shape. Called jobs are named
+   * `<caller job>--<called job>`; composite steps `<caller step>--<step>`.
+   */
+  readonly document: Readonly<Record<string, unknown>>;
+  /** Inlined references */
+  readonly resolved: readonly GhaResolvedReference[];
+  /** References left in place */
+  readonly unresolved: readonly GhaUnresolvedReference[];
+}
+
+/**
+ * Options for the reusable workflow resolver
+ */
+export interface GhaReusableWorkflowResolverOptions {
+  /** Maximum nesting of workflow calls and composite actions (default: 10) */
+  readonly maxDepth?: number;
+  /** Expand composite actions (default: true) */
+  readonly expandCompositeActions?: boolean;
+  /** Resolve references to other repositories through the reader (default: false) */
+  readonly resolveRemote?: boolean;
+}
+
 // ============================================================================
 // Parse Result Types
 // ============================================================================
@@ -1214,6 +1299,7 @@ export type GhaParseErrorCode =
   | 'FILE_READ_ERROR'
   | 'FILE_TOO_LARGE'
   | 'PARSE_TIMEOUT'
+  | 'UNRESOLVED_REFERENCE'
   | 'UNKNOWN_ERROR';
 
 /**
@@ -1352,6 +1438,13 @@ export interface GhaParserOptions {
   readonly strictYaml?: boolean;
   /** Include raw YAML content in parse result */
   readonly includeRaw?: boolean;
+  /**
+   * Reader of the scanned repository. When set, reusable workflow calls and
+   * composite actions are inlined before jobs are built.
+   */
+  readonly repositoryReader?: GhaRepositoryReader | null;
+  /** Options for inlining reusable workflows through repositoryReader */
+  readonly reusableWorkflows?: GhaReusableWorkflowResolverOptions;
 }
 
 /**
@@ -1373,6 +1466,8 @@ export const DEFAULT_GHA_PARSER_OPTIONS: Required<GhaParserOptions> = {
   strict: false,
   strictYaml: false,
   includeRaw: false,
+  repositoryReader: null,
+  reusableWorkflows: {},
 };
 
 // ============================================================================
@@ -0,0 +1,179 @@
+/**
+ * Helm Chart File Parser
+ * @module parsers/helm/chart-file-parser
+ *
+ * Reads the files of a chart that the scan pipeline sees one at a time:
+ * Chart.yaml, values files and templates. Templates are kept as raw text;
+ * rendering needs the whole chart and is done by renderHelmRelease once
+ * every file of the scan is parsed.
+ *
+ * TASK-HELM-RENDER-001: Helm template rendering
+ */
+
+import * as yaml from 'yaml';
+
+import {
+  getHelmChartDirectory,
+  isHelmChartFilePath,
+  isHelmTemplatePath,
+  type ChartMetadata,
+  type HelmChartFile,
+  type HelmChartFileParseResult,
+  type HelmParseError,
+} from './types.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParserOptions,
+} from '../base/parser.js';
+
+// ============================================================================
+// Helm Chart File Parser
+// ============================================================================
+
+/**
+ * Parser for Chart.yaml, values*.yaml and templates/ files of Helm charts.
+ */
+export class HelmChartFileParser extends BaseParser<HelmChartFileParseResult> {
+  readonly name = 'helm-chart-file-parser';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['.yaml', '.yml', '.tpl'] as const;
+  readonly supportedMimeTypes = ['application/x-yaml', 'text/yaml'] as const;
+
+  /**
+   * Check if this parser can handle the given file.
+   * Accepts Chart.yaml, values*.yaml and anything under a templates/ directory.
+   */
+  override canParse(filePath: string, _content?: string): boolean {
+    return isHelmChartFilePath(filePath);
+  }
+
+  /**
+   * Parse chart file content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    _options: Required<ParserOptions>
+  ): Promise<ParseResult<HelmChartFileParseResult>> {
+    const startTime = performance.now();
+    const chartDirectory = getHelmChartDirectory(filePath);
+
+    if (isHelmTemplatePath(filePath)) {
+      return this.createSuccess(
+        { chartFile: { kind: 'template', filePath, chartDirectory, content } },
+        [],
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const errors: HelmParseError[] = [];
+    const document = yaml.parseDocument(content, { strict: false, uniqueKeys: false });
+    for (const err of document.errors) {
+      const pos = err.linePos?.[0];
+      errors.push({
+        message: err.message,
+        file: filePath,
+        ...(pos ? { line: pos.line, column: pos.col } : {}),
+        severity: 'error',
+        code: filePath.endsWith('Chart.yaml') ? 'INVALID_CHART_YAML' : 'INVALID_VALUES_YAML',
+      });
+    }
+
+    const value: unknown = errors.length === 0 ? document.toJS({ maxAliasCount: 100 }) : null;
+    const isChart = (filePath.split('/').pop() ?? '') === 'Chart.yaml';
+    if (isChart && errors.length === 0 && (!isRecord(value) || typeof value.name !== 'string')) {
+      errors.push({
+        message: 'Chart.yaml must be a mapping with a name',
+        file: filePath,
+        severity: 'error',
+        code: 'INVALID_CHART_YAML',
+      });
+    }
+
+    if (errors.length > 0) {
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.line !== undefined
+            ? this.createLocation(filePath, e.line, e.line, e.column ?? 0, e.column ?? 0)
+            : null,
+          severity: 'error' as const,
+        })),
+        null,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const doc = isRecord(value) ? value : {};
+    const chartFile: HelmChartFile = isChart
+      ? { kind: 'chart', filePath, chartDirectory, metadata: toChartMetadata(doc) }
+      : { kind: 'values', filePath, chartDirectory, values: doc };
+
+    return this.createSuccess(
+      { chartFile },
+      [],
+      this.createMetadata(filePath, startTime, content)
+    );
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function optionalString(doc: Record<string, unknown>, key: string): string | undefined {
+  const value = doc[key];
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+function toChartMetadata(doc: Record<string, unknown>): ChartMetadata {
+  const description = optionalString(doc, 'description');
+  const appVersion = optionalString(doc, 'appVersion');
+  const kubeVersion = optionalString(doc, 'kubeVersion');
+  const home = optionalString(doc, 'home');
+  const keywords = Array.isArray(doc.keywords) ? doc.keywords.map(String) : undefined;
+  const annotations = isRecord(doc.annotations)
+    ? Object.fromEntries(Object.entries(doc.annotations).map(([key, value]) => [key, String(value)]))
+    : undefined;
+
+  return {
+    apiVersion: doc.apiVersion === 'v1' ? 'v1' : 'v2',
+    name: String(doc.name),
+    version: optionalString(doc, 'version') ?? '0.0.0',
+    type: doc.type === 'library' ? 'library' : 'application',
+    ...(description !== undefined ? { description } : {}),
+    ...(appVersion !== undefined ? { appVersion } : {}),
+    ...(kubeVersion !== undefined ? { kubeVersion } : {}),
+    ...(home !== undefined ? { home } : {}),
+    ...(keywords !== undefined ? { keywords } : {}),
+    ...(annotations !== undefined ? { annotations } : {}),
+  };
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a chart file parser
+ */
+export function createChartFileParser(options?: ParserOptions): HelmChartFileParser {
+  return new HelmChartFileParser(options);
+}
+
+/**
+ * Parse one chart file
+ */
+export async function parseChartFile(
+  content: string,
+  filePath: string,
+  options?: ParserOptions
+): Promise<ParseResult<HelmChartFileParseResult>> {
+  return new HelmChartFileParser(options).parse(content, filePath);
+}
@@ -0,0 +1,598 @@
+/**
+ * Helm Chart Renderer
+ * @module parsers/helm/chart-renderer
+ *
+ * Renders a chart's templates for a release the way `helm template` does:
+ * chart values.yaml, then the release's value files and inline values,
+ * then --set overrides. The output is run through the Kubernetes manifest
+ * parser so rendered objects become regular K8s nodes, linked from the
+ * helm_release node by helm_renders edges.
+ *
+ * Manifest line ranges refer to the rendered output of a template, not to
+ * the template source.
+ *
+ * TASK-HELM-RENDER-001: Helm template rendering
+ */
+
+import * as yaml from 'yaml';
+import {
+  createHelmReleaseId,
+  type HelmChartFile,
+  type HelmChartSource,
+  type HelmParseError,
+  type HelmReleaseSpec,
+  type HelmRenderedManifest,
+  type HelmRenderResult,
+  type HelmSetValue,
+  type HelmfileRelease,
+} from './types.js';
+import { HelmTemplateEngine, HelmTemplateError } from './template-engine.js';
+import { isTemplateMap } from './template-functions.js';
+import { KubernetesManifestParser } from '../kubernetes/manifest-parser.js';
+import { createK8sNode } from '../kubernetes/node-factory.js';
+
+import type { GraphEdge, HelmReleaseNode, NodeLocation } from '../../types/graph.js';
+import type { ArgoCDApplication } from '../argocd/types.js';
+import type { K8sNode, K8sParseError } from '../kubernetes/types.js';
+
+/**
+ * Kubernetes version reported through .Capabilities
+ */
+const KUBE_VERSION = { major: '1', minor: '29' };
+
+/**
+ * Loads a values file named by a release; undefined if it is not available
+ */
+export type HelmValuesLoader = (path: string) => Record<string, unknown> | undefined;
+
+// ============================================================================
+// Rendering
+// ============================================================================
+
+/**
+ * Render a chart for a release
+ *
+ * @param chart - Chart metadata, default values and templates
+ * @param release - Release name, namespace and value overrides
+ *
+ * @example
+ * ```typescript
+ * const result = renderHelmRelease(chart, createDefaultHelmRelease(chart));
+ * console.log(result.resourceNodes.map(n => n.id));
+ * ```
+ */
+export function renderHelmRelease(chart: HelmChartSource, release: HelmReleaseSpec): HelmRenderResult {
+  const warnings: HelmParseError[] = release.missingValuesFiles.map(file => ({
+    message: `Values file ${file} for release ${release.name} was not found`,
+    file: release.location?.file ?? chart.chartFile,
+    severity: 'warning' as const,
+    code: 'MISSING_VALUES_YAML' as const,
+  }));
+
+  let values = cloneValues(chart.values);
+  for (const layer of release.values) {
+    values = mergeHelmValues(values, layer);
+  }
+  for (const set of release.setValues) {
+    applyHelmSetValue(values, set);
+  }
+
+  const chartName = chart.metadata.name;
+  const templateName = (path: string): string => `${chartName}/${relativeTo(chart.directory, path)}`;
+  const engine = new HelmTemplateEngine();
+
+  // Parse every template first so partials are available to all of them
+  const templates = [...chart.templates].sort((a, b) => a.path.localeCompare(b.path));
+  const parsed = templates.filter(template => {
+    try {
+      engine.addTemplate(templateName(template.path), template.content);
+      return true;
+    } catch (err) {
+      warnings.push(toWarning(err, template.path, 'TEMPLATE_SYNTAX_ERROR'));
+      return false;
+    }
+  });
+
+  const data = {
+    Values: values,
+    Release: {
+      Name: release.name,
+      Namespace: release.namespace,
+      Service: 'Helm',
+      IsInstall: true,
+      IsUpgrade: false,
+      Revision: 1,
+    },
+    Chart: toChartObject(chart),
+    Capabilities: createCapabilities(),
+    Files: createFilesObject(chart.files ?? {}),
+  };
+
+  const manifestParser = new KubernetesManifestParser();
+  const manifests: HelmRenderedManifest[] = [];
+
+  for (const template of parsed) {
+    if (!isRenderedTemplate(template.path)) continue;
+
+    const name = templateName(template.path);
+    let output: string;
+    try {
+      output = engine.render(name, {
+        ...data,
+        Template: { Name: name, BasePath: `${chartName}/templates` },
+      });
+    } catch (err) {
+      warnings.push(toWarning(err, template.path, 'INVALID_TEMPLATE'));
+      continue;
+    }
+
+    const errors: K8sParseError[] = [];
+    const { manifests: rendered } = manifestParser.parseManifests(output, template.path, errors);
+    for (const error of errors) {
+      warnings.push({
+        message: `Rendered output is not valid YAML: ${error.message}`,
+        file: template.path,
+        ...(error.line !== undefined ? { line: error.line } : {}),
+        severity: 'warning',
+        code: 'K8S_RESOURCE_ERROR',
+      });
+    }
+    manifests.push(...rendered.map(manifest => ({ manifest, template: template.path })));
+  }
+
+  const releaseNode = createHelmReleaseNode(chart, release);
+  const resourceNodes: K8sNode[] = [];
+  const seen = new Set<string>();
+  for (const rendered of manifests) {
+    const node = createHelmResourceNode(rendered, releaseNode);
+    if (!node || seen.has(node.id)) continue;
+    seen.add(node.id);
+    resourceNodes.push(node);
+  }
+
+  return {
+    release: releaseNode,
+    values,
+    manifests,
+    resourceNodes,
+    edges: resourceNodes.map(node => createHelmRendersEdge(releaseNode, node.id, String(node.metadata.template))),
+    warnings,
+  };
+}
+
+/**
+ * Group chart files parsed one by one into renderable charts. Directories
+ * without a Chart.yaml are not charts and are skipped.
+ *
+ * @param files - Parsed Chart.yaml, values and template files
+ */
+export function collectHelmCharts(files: readonly HelmChartFile[]): HelmChartSource[] {
+  const byDirectory = new Map<string, HelmChartFile[]>();
+  for (const file of files) {
+    const group = byDirectory.get(file.chartDirectory) ?? [];
+    group.push(file);
+    byDirectory.set(file.chartDirectory, group);
+  }
+
+  const charts: HelmChartSource[] = [];
+  for (const [directory, group] of byDirectory) {
+    const chart = group.find(file => file.kind === 'chart');
+    if (chart?.kind !== 'chart') continue;
+
+    const values = group.find(file =>
+      file.kind === 'values' && /^values\.ya?ml$/.test(file.filePath.split('/').pop() ?? '')
+    );
+    charts.push({
+      directory,
+      chartFile: chart.filePath,
+      metadata: chart.metadata,
+      values: values?.kind === 'values' ? values.values : {},
+      templates: group.flatMap(file =>
+        file.kind === 'template' ? [{ path: file.filePath, content: file.content }] : []
+      ),
+    });
+  }
+
+  return charts.sort((a, b) => a.directory.localeCompare(b.directory));
+}
+
+// ============================================================================
+// Values
+// ============================================================================
+
+/**
+ * Coalesce override values onto base values as Helm does: maps merge
+ * recursively, other values replace, and null deletes a key
+ *
+ * @returns A new values tree; neither input is modified
+ */
+export function mergeHelmValues(
+  base: Record<string, unknown>,
+  override: Record<string, unknown>
+): Record<string, unknown> {
+  const result = cloneValues(base);
+  for (const [key, value] of Object.entries(override)) {
+    const existing = result[key];
+    if (value === null) {
+      delete result[key];
+    } else if (isTemplateMap(existing) && isTemplateMap(value)) {
+      result[key] = mergeHelmValues(existing, value);
+    } else {
+      result[key] = cloneValue(value);
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply a --set override in place. Supports dotted paths, list indexes
+ * (a.b[0].c), escaped dots (a\.b) and {x,y} lists; without forceString,
+ * true/false/null and integers are typed as Helm types them.
+ */
+export function applyHelmSetValue(values: Record<string, unknown>, set: HelmSetValue): void {
+  const path = parseSetPath(set.name);
+  if (path.length === 0) return;
+
+  const value = typeof set.value === 'string' && !set.forceString ? parseSetLiteral(set.value) : set.value;
+  let current: Record<string, unknown> | unknown[] = values;
+
+  path.forEach((segment, i) => {
+    const last = i === path.length - 1;
+    const next = path[i + 1];
+
+    if (last) {
+      assignSegment(current, segment, value);
+      return;
+    }
+
+    let child = readSegment(current, segment);
+    if (typeof next === 'number' ? !Array.isArray(child) : !isTemplateMap(child)) {
+      child = typeof next === 'number' ? [] : {};
+      assignSegment(current, segment, child);
+    }
+    current = child as Record<string, unknown> | unknown[];
+  });
+}
+
+function parseSetPath(name: string): Array<string | number> {
+  const path: Array<string | number> = [];
+  let key = '';
+  for (let i = 0; i < name.length; i++) {
+    const ch = name.charAt(i);
+    if (ch === '\\' && i + 1 < name.length) {
+      key += name.charAt(++i);
+    } else if (ch === '.') {
+      if (key) path.push(key);
+      key = '';
+    } else if (ch === '[') {
+      if (key) path.push(key);
+      key = '';
+      const end = name.indexOf(']', i);
+      if (end === -1) break;
+      path.push(Number(name.slice(i + 1, end)));
+      i = end;
+    } else {
+      key += ch;
+    }
+  }
+  if (key) path.push(key);
+  return path;
+}
+
+function parseSetLiteral(value: string): unknown {
+  if (value.startsWith('{') && value.endsWith('}')) {
+    const inner = value.slice(1, -1);
+    return inner.length === 0 ? [] : inner.split(',').map(parseSetLiteral);
+  }
+  if (value === 'true') return true;
+  if (value === 'false') return false;
+  if (value === 'null') return null;
+  if (/^-?(0|[1-9]\d{0,15})$/.test(value)) return Number(value);
+  return value;
+}
+
+function readSegment(container: Record<string, unknown> | unknown[], segment: string | number): unknown {
+  return Array.isArray(container) ? container[Number(segment)] : container[String(segment)];
+}
+
+function assignSegment(container: Record<string, unknown> | unknown[], segment: string | number, value: unknown): void {
+  if (Array.isArray(container)) {
+    const index = Number(segment);
+    while (container.length < index) container.push(null);
+    container[index] = value;
+  } else {
+    container[String(segment)] = value;
+  }
+}
+
+function cloneValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(cloneValue);
+  if (isTemplateMap(value)) return cloneValues(value);
+  return value;
+}
+
+function cloneValues(values: Record<string, unknown>): Record<string, unknown> {
+  const copy: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    copy[key] = cloneValue(value);
+  }
+  return copy;
+}
+
+// ============================================================================
+// Releases
+// ============================================================================
+
+/**
+ * Release used when a chart is rendered on its own: named after the chart,
+ * in the default namespace, with no overrides
+ */
+export function createDefaultHelmRelease(chart: HelmChartSource): HelmReleaseSpec {
+  return {
+    name: chart.metadata.name,
+    namespace: 'default',
+    origin: 'chart',
+    valuesFiles: [],
+    missingValuesFiles: [],
+    values: [],
+    setValues: [],
+  };
+}
+
+/**
+ * Build the release spec of a Helmfile release
+ *
+ * @param release - Release from the helmfile
+ * @param loadValues - Resolves the release's value file paths
+ * @param location - Where the release is declared
+ */
+export function createHelmfileReleaseSpec(
+  release: HelmfileRelease,
+  loadValues: HelmValuesLoader,
+  location?: NodeLocation
+): HelmReleaseSpec {
+  const valuesFiles: string[] = [];
+  const missingValuesFiles: string[] = [];
+  const values: Record<string, unknown>[] = [];
+
+  for (const entry of release.values ?? []) {
+    if (typeof entry !== 'string') {
+      values.push(entry);
+      continue;
+    }
+    valuesFiles.push(entry);
+    const loaded = loadValues(entry);
+    if (loaded) {
+      values.push(loaded);
+    } else {
+      missingValuesFiles.push(entry);
+    }
+  }
+
+  return {
+    name: release.name,
+    namespace: release.namespace ?? 'default',
+    origin: 'helmfile',
+    valuesFiles,
+    missingValuesFiles,
+    values,
+    setValues: (release.set ?? []).map(set => ({ name: set.name, value: set.value })),
+    ...(location !== undefined ? { location } : {}),
+  };
+}
+
+/**
+ * Build the release spec of an ArgoCD Application with a Helm source.
+ * Precedence follows ArgoCD: valueFiles, then values, then valuesObject,
+ * then parameters.
+ *
+ * @param app - Application
+ * @param loadValues - Resolves value file paths relative to the source path
+ */
+export function createArgoCDHelmReleaseSpec(
+  app: ArgoCDApplication,
+  loadValues: HelmValuesLoader
+): HelmReleaseSpec {
+  const helm = app.source.helm;
+  const valuesFiles = [...(helm?.valueFiles ?? [])];
+  const missingValuesFiles: string[] = [];
+  const values: Record<string, unknown>[] = [];
+
+  for (const file of valuesFiles) {
+    const loaded = loadValues(file);
+    if (loaded) {
+      values.push(loaded);
+    } else {
+      missingValuesFiles.push(file);
+    }
+  }
+
+  if (helm?.values) {
+    const inline: unknown = yaml.parse(helm.values);
+    if (isTemplateMap(inline)) values.push(inline);
+  }
+  if (helm?.valuesObject) {
+    values.push({ ...helm.valuesObject });
+  }
+
+  return {
+    name: helm?.releaseName ?? app.name,
+    namespace: app.destination.namespace || 'default',
+    origin: 'argocd',
+    valuesFiles,
+    missingValuesFiles,
+    values,
+    setValues: (helm?.parameters ?? []).map(param => ({
+      name: param.name,
+      value: param.value,
+      ...(param.forceString !== undefined ? { forceString: param.forceString } : {}),
+    })),
+    location: { file: app.filePath, lineStart: 1, lineEnd: 1 },
+  };
+}
+
+// ============================================================================
+// Graph Output
+// ============================================================================
+
+/**
+ * Create the helm_release node of a rendered release
+ */
+export function createHelmReleaseNode(chart: HelmChartSource, release: HelmReleaseSpec): HelmReleaseNode {
+  const overrides = release.values.reduce<Record<string, unknown>>(
+    (merged, layer) => mergeHelmValues(merged, layer),
+    {}
+  );
+
+  return {
+    id: createHelmReleaseId(release.name, release.namespace),
+    type: 'helm_release',
+    name: release.name,
+    location: release.location ?? { file: chart.chartFile, lineStart: 1, lineEnd: 1 },
+    chartRef: chart.directory,
+    namespace: release.namespace,
+    values: overrides,
+    metadata: {
+      chart: chart.metadata.name,
+      chartVersion: chart.metadata.version,
+      origin: release.origin,
+      valuesFiles: release.valuesFiles,
+      setValues: release.setValues.map(set => set.name),
+    },
+  };
+}
+
+/**
+ * Create the helm_renders edge from a release to a resource it outputs
+ */
+export function createHelmRendersEdge(release: HelmReleaseNode, resourceId: string, template: string): GraphEdge {
+  return {
+    id: `helm_renders:${release.id}->${resourceId}`,
+    source: release.id,
+    target: resourceId,
+    type: 'helm_renders',
+    label: 'renders',
+    metadata: {
+      attribute: 'templates',
+      location: release.location,
+      implicit: true,
+      confidence: 95,
+      evidence: [{
+        type: 'semantic',
+        description: `Release ${release.name} renders ${resourceId} from ${template}`,
+        location: release.location,
+      }],
+    },
+  };
+}
+
+function createHelmResourceNode(rendered: HelmRenderedManifest, release: HelmReleaseNode): K8sNode | null {
+  const node = createK8sNode(rendered.manifest, release.namespace);
+  if (!node) {
+    return null;
+  }
+
+  return {
+    ...node,
+    metadata: {
+      ...node.metadata,
+      helmRelease: release.id,
+      template: rendered.template,
+    },
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Partials (_*.tpl) and NOTES.txt are not rendered as manifests
+ */
+function isRenderedTemplate(path: string): boolean {
+  const name = path.split('/').pop() ?? '';
+  return !name.startsWith('_') && /\.ya?ml$/i.test(name);
+}
+
+function relativeTo(directory: string, path: string): string {
+  const prefix = directory === '' ? '' : `${directory.replace(/\/$/, '')}/`;
+  return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+}
+
+function toWarning(err: unknown, file: string, code: HelmParseError['code']): HelmParseError {
+  return {
+    message: err instanceof Error ? err.message : String(err),
+    file,
+    ...(err instanceof HelmTemplateError && err.line !== undefined ? { line: err.line } : {}),
+    severity: 'warning',
+    code,
+  };
+}
+
+/**
+ * .Chart exposes Chart.yaml fields with Go-style capitalized names
+ */
+function toChartObject(chart: HelmChartSource): Record<string, unknown> {
+  const { metadata } = chart;
+  return {
+    Name: metadata.name,
+    Version: metadata.version,
+    AppVersion: metadata.appVersion ?? '',
+    APIVersion: metadata.apiVersion,
+    Description: metadata.description ?? '',
+    Type: metadata.type,
+    KubeVersion: metadata.kubeVersion ?? '',
+    Home: metadata.home ?? '',
+    Keywords: metadata.keywords ?? [],
+    Annotations: metadata.annotations ?? {},
+  };
+}
+
+function createCapabilities(): Record<string, unknown> {
+  const version = `v${KUBE_VERSION.major}.${KUBE_VERSION.minor}.0`;
+  return {
+    KubeVersion: {
+      Version: version,
+      GitVersion: version,
+      Major: KUBE_VERSION.major,
+      Minor: KUBE_VERSION.minor,
+    },
+    // Built-in API groups are available; CRD groups are unknown offline
+    APIVersions: {
+      Has: (apiVersion: unknown) => {
+        const group = String(apiVersion).split('/')[0] ?? '';
+        return !group.includes('.') || group.endsWith('.k8s.io');
+      },
+    },
+    HelmVersion: { Version: 'v3.14.0' },
+  };
+}
+
+function createFilesObject(files: Readonly<Record<string, string>>): Record<string, unknown> {
+  const glob = (pattern: unknown): Record<string, string> => {
+    const regex = new RegExp(`^${String(pattern)
+      .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+      .replace(/\*\*/g, '\u0000')
+      .replace(/\*/g, '[^/]*')
+      .replace(/\u0000/g, '.*')
+      .replace(/\?/g, '[^/]')}$`);
+    return Object.fromEntries(Object.entries(files).filter(([path]) => regex.test(path)));
+  };
+
+  return {
+    Get: (path: unknown) => files[String(path)] ?? '',
+    GetBytes: (path: unknown) => files[String(path)] ?? '',
+    Lines: (path: unknown) => (files[String(path)] ?? '').split('\n'),
+    Glob: (pattern: unknown) => createFilesObject(glob(pattern)),
+    AsConfig: () => toFileMap(files, content => content),
+    AsSecrets: () => toFileMap(files, content => Buffer.from(content).toString('base64')),
+  };
+}
+
+/**
+ * YAML map of file base names to (encoded) contents, as .Files.AsConfig/AsSecrets
+ */
+function toFileMap(files: Readonly<Record<string, string>>, encode: (content: string) => string): string {
+  const entries = Object.entries(files).map(([path, content]) => [path.split('/').pop() ?? path, encode(content)]);
+  return yaml.stringify(Object.fromEntries(entries), { sortMapEntries: true }).replace(/\n$/, '');
+}
@@ -7,6 +7,7 @@
  * TASK-DETECT-006: Helm chart structure detection
  * TASK-DETECT-007: Helm template analysis
  * TASK-DETECT-008: Helm values parsing
+ * TASK-HELM-RENDER-001: Helm template rendering
  */
 
 // Types
@@ -47,3 +48,34 @@ export {
   analyzeTemplate,
   extractHelpers,
 } from './template-analyzer.js';
+
+// Template Rendering (TASK-HELM-RENDER-001)
+export {
+  HelmTemplateEngine,
+  HelmTemplateError,
+  type HelmTemplateEngineOptions,
+} from './template-engine.js';
+export {
+  type TemplateFunction,
+  type TemplateFunctionMap,
+  createTemplateFunctions,
+  formatTemplateValue,
+  isTemplateTruthy,
+} from './template-functions.js';
+export {
+  HelmChartFileParser,
+  createChartFileParser,
+  parseChartFile,
+} from './chart-file-parser.js';
+export {
+  type HelmValuesLoader,
+  renderHelmRelease,
+  collectHelmCharts,
+  mergeHelmValues,
+  applyHelmSetValue,
+  createDefaultHelmRelease,
+  createHelmfileReleaseSpec,
+  createArgoCDHelmReleaseSpec,
+  createHelmReleaseNode,
+  createHelmRendersEdge,
+} from './chart-renderer.js';
@@ -0,0 +1,896 @@
+/**
+ * Helm Template Engine
+ * @module parsers/helm/template-engine
+ *
+ * Offline evaluator for the Go text/template language as Helm uses it:
+ * actions and pipelines, variables, if/else, range, with, define, template
+ * and block, plus Helm's include, tpl and required on top of the Sprig
+ * functions in template-functions. Missing values evaluate to nil instead
+ * of failing, so charts render as far as the available values allow.
+ *
+ * TASK-HELM-RENDER-001: Helm template rendering
+ */
+
+import {
+  createTemplateFunctions,
+  formatTemplateValue,
+  isTemplateMap,
+  isTemplateTruthy,
+  type TemplateFunction,
+  type TemplateFunctionMap,
+} from './template-functions.js';
+
+// ============================================================================
+// Public Types
+// ============================================================================
+
+/**
+ * Error raised while parsing or executing a template
+ */
+export class HelmTemplateError extends Error {
+  constructor(
+    message: string,
+    /** Template the error occurred in */
+    readonly template: string,
+    /** 1-based line of the action that failed */
+    readonly line?: number
+  ) {
+    super(line !== undefined ? `${template}:${line}: ${message}` : `${template}: ${message}`);
+    this.name = 'HelmTemplateError';
+  }
+}
+
+/**
+ * Options for the template engine
+ */
+export interface HelmTemplateEngineOptions {
+  /** Extra functions, overriding builtins of the same name */
+  readonly functions?: TemplateFunctionMap;
+  /** Maximum nesting of include/template/tpl calls */
+  readonly maxDepth?: number;
+}
+
+// ============================================================================
+// AST
+// ============================================================================
+
+interface Pipeline {
+  readonly declare: { readonly names: readonly string[]; readonly assign: boolean } | null;
+  readonly commands: readonly Command[];
+}
+
+type Command = readonly Operand[];
+
+type Operand =
+  | { readonly kind: 'dot' }
+  | { readonly kind: 'field'; readonly path: readonly string[] }
+  | { readonly kind: 'variable'; readonly name: string; readonly path: readonly string[] }
+  | { readonly kind: 'literal'; readonly value: unknown }
+  | { readonly kind: 'function'; readonly name: string }
+  | { readonly kind: 'group'; readonly pipeline: Pipeline; readonly path: readonly string[] };
+
+interface Branch {
+  readonly pipeline: Pipeline;
+  readonly body: readonly TemplateNode[];
+}
+
+type TemplateNode =
+  | { readonly kind: 'text'; readonly text: string }
+  | { readonly kind: 'output'; readonly pipeline: Pipeline; readonly line: number }
+  | { readonly kind: 'if' | 'with'; readonly branches: readonly Branch[]; readonly elseBody: readonly TemplateNode[] | null; readonly line: number }
+  | { readonly kind: 'range'; readonly pipeline: Pipeline; readonly body: readonly TemplateNode[]; readonly elseBody: readonly TemplateNode[] | null; readonly line: number }
+  | { readonly kind: 'template'; readonly name: string; readonly pipeline: Pipeline | null; readonly line: number }
+  | { readonly kind: 'break' | 'continue'; readonly line: number };
+
+// ============================================================================
+// Lexer
+// ============================================================================
+
+type ScanItem =
+  | { readonly kind: 'text'; readonly text: string }
+  | { readonly kind: 'action'; readonly source: string; readonly line: number };
+
+type TokenKind =
+  | 'field' | 'variable' | 'identifier' | 'string' | 'number' | 'bool' | 'nil'
+  | 'pipe' | 'lparen' | 'rparen' | 'declare' | 'assign' | 'comma';
+
+interface Token {
+  readonly kind: TokenKind;
+  readonly text: string;
+  /** Field path for field and variable tokens */
+  readonly path: readonly string[];
+  readonly value?: unknown;
+  /** Whether whitespace precedes the token (distinguishes `(x).y` chains) */
+  readonly spaced: boolean;
+}
+
+function countLines(text: string): number {
+  let count = 0;
+  for (const ch of text) {
+    if (ch === '\n') count++;
+  }
+  return count;
+}
+
+/**
+ * Split template source into text and action items, applying trim markers
+ */
+function scanTemplate(source: string, name: string): ScanItem[] {
+  const items: ScanItem[] = [];
+  let pos = 0;
+  let line = 1;
+  let trimNext = false;
+
+  while (pos < source.length) {
+    const open = source.indexOf('{{', pos);
+    let text = open === -1 ? source.slice(pos) : source.slice(pos, open);
+    if (trimNext) text = text.replace(/^\s+/, '');
+
+    if (open === -1) {
+      if (text.length > 0) items.push({ kind: 'text', text });
+      break;
+    }
+
+    line += countLines(source.slice(pos, open));
+    const trimLeft = source[open + 2] === '-' && /\s/.test(source[open + 3] ?? '');
+    if (trimLeft) text = text.replace(/\s+$/, '');
+    if (text.length > 0) items.push({ kind: 'text', text });
+
+    const start = open + (trimLeft ? 3 : 2);
+    const close = findActionEnd(source, start);
+    if (close === -1) {
+      throw new HelmTemplateError('unclosed action', name, line);
+    }
+
+    const trimRight = source[close - 1] === '-' && /\s/.test(source[close - 2] ?? '');
+    const body = source.slice(start, trimRight ? close - 1 : close).trim();
+    if (!(body.startsWith('/*') && body.endsWith('*/'))) {
+      items.push({ kind: 'action', source: body, line });
+    }
+
+    line += countLines(source.slice(open, close + 2));
+    trimNext = trimRight;
+    pos = close + 2;
+  }
+
+  return items;
+}
+
+/**
+ * Find the closing braces of an action, skipping quoted strings and comments
+ */
+function findActionEnd(source: string, from: number): number {
+  let i = from;
+  while (i < source.length) {
+    const ch = source[i];
+    if (ch === '"' || ch === '\'') {
+      i++;
+      while (i < source.length && source[i] !== ch) {
+        if (source[i] === '\\') i++;
+        i++;
+      }
+    } else if (ch === '`') {
+      const end = source.indexOf('`', i + 1);
+      if (end === -1) return -1;
+      i = end;
+    } else if (ch === '/' && source[i + 1] === '*') {
+      const end = source.indexOf('*/', i + 2);
+      if (end === -1) return -1;
+      i = end + 1;
+    } else if (ch === '}' && source[i + 1] === '}') {
+      return i;
+    }
+    i++;
+  }
+  return -1;
+}
+
+const IDENT = /^[A-Za-z_][A-Za-z0-9_]*/;
+const FIELD_CHAIN = /^(?:\.[A-Za-z_][A-Za-z0-9_]*)+/;
+const NUMBER = /^[-+]?(?:0[xX][0-9a-fA-F]+|\d+(?:\.\d+)?(?:[eE][-+]?\d+)?|\.\d+)/;
+
+/**
+ * Tokenize the inside of an action
+ */
+function tokenize(source: string, name: string, line: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  let spaced = true;
+  const push = (kind: TokenKind, text: string, extra: { path?: readonly string[]; value?: unknown } = {}): void => {
+    tokens.push({ kind, text, path: extra.path ?? [], ...('value' in extra ? { value: extra.value } : {}), spaced });
+    spaced = false;
+  };
+
+  while (i < source.length) {
+    const rest = source.slice(i);
+    const ch = source.charAt(i);
+
+    if (/\s/.test(ch)) {
+      spaced = true;
+      i++;
+      continue;
+    }
+
+    if (ch === '|') { push('pipe', ch); i++; continue; }
+    if (ch === '(') { push('lparen', ch); i++; continue; }
+    if (ch === ')') { push('rparen', ch); i++; continue; }
+    if (ch === ',') { push('comma', ch); i++; continue; }
+    if (rest.startsWith(':=')) { push('declare', ':='); i += 2; continue; }
+    if (ch === '=') { push('assign', ch); i++; continue; }
+
+    if (ch === '"') {
+      let j = i + 1;
+      while (j < source.length && source[j] !== '"') {
+        if (source[j] === '\\') j++;
+        j++;
+      }
+      const literal = source.slice(i, j + 1);
+      let value: string;
+      try {
+        value = JSON.parse(literal) as string;
+      } catch {
+        throw new HelmTemplateError(`invalid string literal ${literal}`, name, line);
+      }
+      push('string', literal, { value });
+      i = j + 1;
+      continue;
+    }
+
+    if (ch === '`') {
+      const end = source.indexOf('`', i + 1);
+      if (end === -1) throw new HelmTemplateError('unterminated raw string', name, line);
+      push('string', source.slice(i, end + 1), { value: source.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '\'') {
+      const end = source.indexOf('\'', i + 1);
+      if (end === -1) throw new HelmTemplateError('unterminated character constant', name, line);
+      const char = source.slice(i + 1, end).replace(/^\\/, '');
+      push('number', source.slice(i, end + 1), { value: char.codePointAt(0) ?? 0 });
+      i = end + 1;
+      continue;
+    }
+
+    if (ch === '$') {
+      const ident = IDENT.exec(rest.slice(1))?.[0] ?? '';
+      const chain = FIELD_CHAIN.exec(rest.slice(1 + ident.length))?.[0] ?? '';
+      push('variable', `$${ident}`, { path: chain.split('.').filter(Boolean) });
+      i += 1 + ident.length + chain.length;
+      continue;
+    }
+
+    if (ch === '.' && !/^\.\d/.test(rest)) {
+      const chain = FIELD_CHAIN.exec(rest)?.[0] ?? '';
+      push('field', chain || '.', { path: chain.split('.').filter(Boolean) });
+      i += Math.max(chain.length, 1);
+      continue;
+    }
+
+    const number = NUMBER.exec(rest)?.[0];
+    if (number !== undefined) {
+      push('number', number, { value: Number(number) });
+      i += number.length;
+      continue;
+    }
+
+    const ident = IDENT.exec(rest)?.[0];
+    if (ident !== undefined) {
+      if (ident === 'true' || ident === 'false') {
+        push('bool', ident, { value: ident === 'true' });
+      } else if (ident === 'nil') {
+        push('nil', ident, { value: null });
+      } else {
+        push('identifier', ident);
+      }
+      i += ident.length;
+      continue;
+    }
+
+    throw new HelmTemplateError(`unexpected "${ch}" in action`, name, line);
+  }
+
+  return tokens;
+}
+
+// ============================================================================
+// Parser
+// ============================================================================
+
+interface ParsedAction {
+  readonly keyword: string | null;
+  readonly tokens: readonly Token[];
+  readonly line: number;
+}
+
+/**
+ * Recursive-descent parser over scanned items. Named templates found while
+ * parsing are collected in `defines`.
+ */
+class TemplateParser {
+  private index = 0;
+  readonly defines = new Map<string, readonly TemplateNode[]>();
+
+  constructor(private readonly items: readonly ScanItem[], private readonly name: string) {}
+
+  parse(): TemplateNode[] {
+    const { nodes, terminator } = this.parseList();
+    if (terminator) {
+      throw new HelmTemplateError(`unexpected {{${terminator.keyword}}}`, this.name, terminator.line);
+    }
+    return nodes;
+  }
+
+  private parseList(): { nodes: TemplateNode[]; terminator: ParsedAction | null } {
+    const nodes: TemplateNode[] = [];
+
+    while (this.index < this.items.length) {
+      const item = this.items[this.index++]!;
+      if (item.kind === 'text') {
+        nodes.push({ kind: 'text', text: item.text });
+        continue;
+      }
+
+      const action = this.readAction(item.source, item.line);
+      switch (action.keyword) {
+        case 'end':
+        case 'else':
+          return { nodes, terminator: action };
+        case 'if':
+        case 'with':
+          nodes.push(this.parseConditional(action.keyword, action));
+          break;
+        case 'range':
+          nodes.push(this.parseRange(action));
+          break;
+        case 'define':
+          this.parseDefine(action);
+          break;
+        case 'block': {
+          const [nameToken, ...rest] = action.tokens;
+          const blockName = this.expectName(nameToken, action.line);
+          this.defines.set(blockName, this.parseBody(action.line));
+          nodes.push({ kind: 'template', name: blockName, pipeline: rest.length > 0 ? this.parsePipeline(rest, action.line) : null, line: action.line });
+          break;
+        }
+        case 'template': {
+          const [nameToken, ...rest] = action.tokens;
+          nodes.push({
+            kind: 'template',
+            name: this.expectName(nameToken, action.line),
+            pipeline: rest.length > 0 ? this.parsePipeline(rest, action.line) : null,
+            line: action.line,
+          });
+          break;
+        }
+        case 'break':
+        case 'continue':
+          nodes.push({ kind: action.keyword, line: action.line });
+          break;
+        default:
+          nodes.push({ kind: 'output', pipeline: this.parsePipeline(action.tokens, action.line), line: action.line });
+      }
+    }
+
+    return { nodes, terminator: null };
+  }
+
+  private readAction(source: string, line: number): ParsedAction {
+    const tokens = tokenize(source, this.name, line);
+    const first = tokens[0];
+    const keywords = ['if', 'else', 'end', 'range', 'with', 'define', 'template', 'block', 'break', 'continue'];
+    if (first?.kind === 'identifier' && keywords.includes(first.text)) {
+      return { keyword: first.text, tokens: tokens.slice(1), line };
+    }
+    return { keyword: null, tokens, line };
+  }
+
+  private parseConditional(kind: 'if' | 'with', action: ParsedAction): TemplateNode {
+    const branches: Branch[] = [];
+    let pipeline = this.parsePipeline(action.tokens, action.line);
+
+    for (;;) {
+      const { nodes, terminator } = this.parseList();
+      branches.push({ pipeline, body: nodes });
+      if (!terminator) {
+        throw new HelmTemplateError(`unexpected EOF in {{${kind}}}`, this.name, action.line);
+      }
+      if (terminator.keyword === 'end') {
+        return { kind, branches, elseBody: null, line: action.line };
+      }
+
+      // {{else if ...}} / {{else with ...}} chain another branch
+      const [next, ...rest] = terminator.tokens;
+      if (next?.kind === 'identifier' && next.text === kind) {
+        pipeline = this.parsePipeline(rest, terminator.line);
+        continue;
+      }
+
+      return { kind, branches, elseBody: this.parseBody(action.line), line: action.line };
+    }
+  }
+
+  private parseRange(action: ParsedAction): TemplateNode {
+    const pipeline = this.parsePipeline(action.tokens, action.line);
+    const { nodes, terminator } = this.parseList();
+    if (!terminator) {
+      throw new HelmTemplateError('unexpected EOF in {{range}}', this.name, action.line);
+    }
+    const elseBody = terminator.keyword === 'else' ? this.parseBody(action.line) : null;
+    return { kind: 'range', pipeline, body: nodes, elseBody, line: action.line };
+  }
+
+  private parseDefine(action: ParsedAction): void {
+    const defineName = this.expectName(action.tokens[0], action.line);
+    this.defines.set(defineName, this.parseBody(action.line));
+  }
+
+  /**
+   * Parse nodes up to the matching {{end}}
+   */
+  private parseBody(line: number): TemplateNode[] {
+    const { nodes, terminator } = this.parseList();
+    if (!terminator || terminator.keyword !== 'end') {
+      throw new HelmTemplateError('missing {{end}}', this.name, line);
+    }
+    return nodes;
+  }
+
+  private expectName(token: Token | undefined, line: number): string {
+    if (token?.kind !== 'string') {
+      throw new HelmTemplateError('expected template name string', this.name, line);
+    }
+    return token.value as string;
+  }
+
+  private parsePipeline(tokens: readonly Token[], line: number): Pipeline {
+    let rest = tokens;
+    let declare: Pipeline['declare'] = null;
+
+    // $x := ..., $i, $v := ..., $x = ...
+    const names: string[] = [];
+    let i = 0;
+    while (rest[i]?.kind === 'variable' && rest[i]!.path.length === 0) {
+      names.push(rest[i]!.text);
+      if (rest[i + 1]?.kind === 'comma') {
+        i += 2;
+        continue;
+      }
+      i++;
+      break;
+    }
+    const op = rest[i];
+    if (names.length > 0 && (op?.kind === 'declare' || op?.kind === 'assign')) {
+      declare = { names, assign: op.kind === 'assign' };
+      rest = rest.slice(i + 1);
+    }
+
+    const commands: Command[] = [];
+    let current: Operand[] = [];
+    let position = 0;
+    while (position < rest.length) {
+      const token = rest[position]!;
+      if (token.kind === 'pipe') {
+        if (current.length === 0) throw new HelmTemplateError('missing command before "|"', this.name, line);
+        commands.push(current);
+        current = [];
+        position++;
+        continue;
+      }
+      const [operand, next] = this.parseOperand(rest, position, line);
+      current.push(operand);
+      position = next;
+    }
+    if (current.length > 0) commands.push(current);
+    if (commands.length === 0) {
+      throw new HelmTemplateError('missing value for command', this.name, line);
+    }
+
+    return { declare, commands };
+  }
+
+  private parseOperand(tokens: readonly Token[], position: number, line: number): [Operand, number] {
+    const token = tokens[position]!;
+    switch (token.kind) {
+      case 'field':
+        return [token.path.length === 0 ? { kind: 'dot' } : { kind: 'field', path: token.path }, position + 1];
+      case 'variable':
+        return [{ kind: 'variable', name: token.text, path: token.path }, position + 1];
+      case 'string':
+      case 'number':
+      case 'bool':
+      case 'nil':
+        return [{ kind: 'literal', value: token.value }, position + 1];
+      case 'identifier':
+        return [{ kind: 'function', name: token.text }, position + 1];
+      case 'lparen': {
+        let depth = 1;
+        let end = position + 1;
+        while (end < tokens.length && depth > 0) {
+          if (tokens[end]!.kind === 'lparen') depth++;
+          if (tokens[end]!.kind === 'rparen') depth--;
+          end++;
+        }
+        if (depth !== 0) throw new HelmTemplateError('unclosed left paren', this.name, line);
+        const pipeline = this.parsePipeline(tokens.slice(position + 1, end - 1), line);
+        // (expr).Field chains directly onto the parenthesized value
+        const chained = tokens[end];
+        if (chained?.kind === 'field' && !chained.spaced && chained.path.length > 0) {
+          return [{ kind: 'group', pipeline, path: chained.path }, end + 1];
+        }
+        return [{ kind: 'group', pipeline, path: [] }, end];
+      }
+      default:
+        throw new HelmTemplateError(`unexpected "${token.text}" in command`, this.name, line);
+    }
+  }
+}
+
+// ============================================================================
+// Execution
+// ============================================================================
+
+const BREAK = Symbol('break');
+const CONTINUE = Symbol('continue');
+
+/**
+ * Lexical scope of template variables
+ */
+class Scope {
+  private readonly vars = new Map<string, unknown>();
+
+  constructor(private readonly parent: Scope | null) {}
+
+  declare(name: string, value: unknown): void {
+    this.vars.set(name, value);
+  }
+
+  assign(name: string, value: unknown): boolean {
+    if (this.vars.has(name)) {
+      this.vars.set(name, value);
+      return true;
+    }
+    return this.parent?.assign(name, value) ?? false;
+  }
+
+  lookup(name: string): { found: boolean; value: unknown } {
+    if (this.vars.has(name)) return { found: true, value: this.vars.get(name) };
+    return this.parent?.lookup(name) ?? { found: false, value: undefined };
+  }
+}
+
+interface CompiledTemplate {
+  readonly name: string;
+  readonly nodes: readonly TemplateNode[];
+}
+
+/**
+ * Go text/template engine with Helm's function set.
+ *
+ * @example
+ * ```typescript
+ * const engine = new HelmTemplateEngine();
+ * engine.addTemplate('mychart/templates/_helpers.tpl', helpers);
+ * engine.addTemplate('mychart/templates/deployment.yaml', deployment);
+ * const yaml = engine.render('mychart/templates/deployment.yaml', { Values: values });
+ * ```
+ */
+export class HelmTemplateEngine {
+  private readonly templates = new Map<string, CompiledTemplate>();
+  private readonly defines = new Map<string, CompiledTemplate>();
+  private readonly functions: Record<string, TemplateFunction>;
+  private readonly maxDepth: number;
+  private depth = 0;
+
+  constructor(options: HelmTemplateEngineOptions = {}) {
+    this.maxDepth = options.maxDepth ?? 100;
+    this.functions = {
+      ...createTemplateFunctions(),
+      include: (name, data) => this.renderDefine(String(name), data),
+      ...options.functions,
+    };
+  }
+
+  /**
+   * Parse a template and register the named templates it defines.
+   * Later definitions of a name replace earlier ones, as in Helm.
+   *
+   * @throws HelmTemplateError on syntax errors
+   */
+  addTemplate(name: string, source: string): void {
+    const compiled = this.compile(name, source);
+    this.templates.set(name, compiled);
+  }
+
+  /**
+   * Whether a template file has been added
+   */
+  hasTemplate(name: string): boolean {
+    return this.templates.has(name);
+  }
+
+  /**
+   * Whether a named template ({{define}}) is known
+   */
+  hasDefine(name: string): boolean {
+    return this.defines.has(name);
+  }
+
+  /**
+   * Render a previously added template file
+   *
+   * @throws HelmTemplateError on execution errors
+   */
+  render(name: string, data: unknown): string {
+    const template = this.templates.get(name);
+    if (!template) {
+      throw new HelmTemplateError('template not found', name);
+    }
+    return this.execute(template, data);
+  }
+
+  /**
+   * Render a template string, as Helm's tpl function does. Named templates
+   * it defines become available to later renders.
+   *
+   * @param source - Template text
+   * @param name - Name reported in errors
+   * @param data - Value of dot
+   */
+  renderString(source: string, name: string, data: unknown): string {
+    return this.execute(this.compile(name, source), data);
+  }
+
+  private compile(name: string, source: string): CompiledTemplate {
+    const parser = new TemplateParser(scanTemplate(source, name), name);
+    const nodes = parser.parse();
+    for (const [defineName, body] of parser.defines) {
+      this.defines.set(defineName, { name, nodes: body });
+    }
+    return { name, nodes };
+  }
+
+  private renderDefine(name: string, data: unknown): string {
+    const define = this.defines.get(name);
+    if (!define) {
+      throw new Error(`no template "${name}" associated with template`);
+    }
+    return this.execute(define, data);
+  }
+
+  private execute(template: CompiledTemplate, data: unknown): string {
+    if (this.depth >= this.maxDepth) {
+      throw new HelmTemplateError(`exceeded max template depth (${this.maxDepth})`, template.name);
+    }
+
+    this.depth++;
+    try {
+      const scope = new Scope(null);
+      scope.declare('$', data);
+      const out: string[] = [];
+      const executor = new TemplateExecutor(this, template.name, {
+        ...this.functions,
+        tpl: (source, dot) => this.renderString(String(source ?? ''), template.name, dot),
+      });
+      executor.walk(template.nodes, data, scope, out);
+      return out.join('');
+    } finally {
+      this.depth--;
+    }
+  }
+
+  /** @internal Execute a {{template}} call */
+  executeDefine(name: string, data: unknown): string {
+    return this.renderDefine(name, data);
+  }
+}
+
+/**
+ * Walks a template AST against data
+ */
+class TemplateExecutor {
+  constructor(
+    private readonly engine: HelmTemplateEngine,
+    private readonly name: string,
+    private readonly functions: Record<string, TemplateFunction>
+  ) {}
+
+  walk(nodes: readonly TemplateNode[], dot: unknown, scope: Scope, out: string[]): void {
+    for (const node of nodes) {
+      switch (node.kind) {
+        case 'text':
+          out.push(node.text);
+          break;
+        case 'output': {
+          const value = this.guard(node.line, () => this.evalPipeline(node.pipeline, dot, scope));
+          if (!node.pipeline.declare) out.push(formatTemplateValue(value));
+          break;
+        }
+        case 'if':
+        case 'with':
+          this.walkConditional(node, dot, scope, out);
+          break;
+        case 'range':
+          this.walkRange(node, dot, scope, out);
+          break;
+        case 'template': {
+          const data = node.pipeline ? this.guard(node.line, () => this.evalPipeline(node.pipeline!, dot, scope)) : null;
+          out.push(this.guard(node.line, () => this.engine.executeDefine(node.name, data)));
+          break;
+        }
+        case 'break':
+          throw BREAK;
+        case 'continue':
+          throw CONTINUE;
+      }
+    }
+  }
+
+  private walkConditional(
+    node: Extract<TemplateNode, { kind: 'if' | 'with' }>,
+    dot: unknown,
+    scope: Scope,
+    out: string[]
+  ): void {
+    const inner = new Scope(scope);
+    for (const branch of node.branches) {
+      const value = this.guard(node.line, () => this.evalPipeline(branch.pipeline, dot, inner));
+      if (isTemplateTruthy(value)) {
+        this.walk(branch.body, node.kind === 'with' ? value : dot, new Scope(inner), out);
+        return;
+      }
+    }
+    if (node.elseBody) {
+      this.walk(node.elseBody, dot, new Scope(inner), out);
+    }
+  }
+
+  private walkRange(
+    node: Extract<TemplateNode, { kind: 'range' }>,
+    dot: unknown,
+    scope: Scope,
+    out: string[]
+  ): void {
+    const { declare, commands } = node.pipeline;
+    const value = this.guard(node.line, () => this.evalPipeline({ declare: null, commands }, dot, scope));
+
+    let entries: Array<[unknown, unknown]>;
+    if (Array.isArray(value)) {
+      entries = value.map((item, i) => [i, item]);
+    } else if (isTemplateMap(value)) {
+      entries = Object.keys(value).sort().map(key => [key, value[key]]);
+    } else if (typeof value === 'number') {
+      entries = Array.from({ length: Math.max(Math.trunc(value), 0) }, (_, i) => [i, i]);
+    } else if (value === null || value === undefined) {
+      entries = [];
+    } else {
+      throw new HelmTemplateError(`range can't iterate over ${formatTemplateValue(value)}`, this.name, node.line);
+    }
+
+    if (entries.length === 0) {
+      if (node.elseBody) this.walk(node.elseBody, dot, new Scope(scope), out);
+      return;
+    }
+
+    for (const [key, item] of entries) {
+      const inner = new Scope(scope);
+      if (declare?.names.length === 1) {
+        inner.declare(declare.names[0]!, item);
+      } else if (declare && declare.names.length >= 2) {
+        inner.declare(declare.names[0]!, key);
+        inner.declare(declare.names[1]!, item);
+      }
+
+      try {
+        this.walk(node.body, item, inner, out);
+      } catch (signal) {
+        if (signal === BREAK) break;
+        if (signal === CONTINUE) continue;
+        throw signal;
+      }
+    }
+  }
+
+  /**
+   * Run an evaluation, reporting plain errors against this template and line
+   */
+  private guard<T>(line: number, run: () => T): T {
+    try {
+      return run();
+    } catch (err) {
+      if (err instanceof HelmTemplateError || err === BREAK || err === CONTINUE) throw err;
+      throw new HelmTemplateError(err instanceof Error ? err.message : String(err), this.name, line);
+    }
+  }
+
+  private evalPipeline(pipeline: Pipeline, dot: unknown, scope: Scope): unknown {
+    let value: unknown;
+    pipeline.commands.forEach((command, i) => {
+      value = this.evalCommand(command, dot, scope, i > 0 ? { value } : null);
+    });
+
+    if (pipeline.declare) {
+      for (const name of pipeline.declare.names) {
+        if (!pipeline.declare.assign) {
+          scope.declare(name, value);
+        } else if (!scope.assign(name, value)) {
+          throw new Error(`undefined variable: ${name}`);
+        }
+      }
+    }
+    return value;
+  }
+
+  private evalCommand(command: Command, dot: unknown, scope: Scope, piped: { value: unknown } | null): unknown {
+    const [first, ...rest] = command;
+    const args = (): unknown[] => {
+      const values = rest.map(operand => this.evalOperand(operand, dot, scope));
+      if (piped) values.push(piped.value);
+      return values;
+    };
+
+    if (first?.kind === 'function') {
+      const fn = this.functions[first.name];
+      if (!fn) {
+        throw new Error(`function "${first.name}" not defined`);
+      }
+      return fn(...args());
+    }
+
+    if (!first) return null;
+    if (rest.length === 0 && !piped) {
+      return this.evalOperand(first, dot, scope);
+    }
+
+    // A field resolving to a function is a method call: .Files.Get "x"
+    const target = this.evalOperand(first, dot, scope, true);
+    if (typeof target === 'function') {
+      return (target as TemplateFunction)(...args());
+    }
+    throw new Error(`can't give argument to non-function ${formatTemplateValue(target)}`);
+  }
+
+  private evalOperand(operand: Operand, dot: unknown, scope: Scope, keepFunction = false): unknown {
+    switch (operand.kind) {
+      case 'dot':
+        return dot;
+      case 'literal':
+        return operand.value;
+      case 'function': {
+        const fn = this.functions[operand.name];
+        if (!fn) throw new Error(`function "${operand.name}" not defined`);
+        return fn();
+      }
+      case 'field':
+        return this.walkPath(dot, operand.path, keepFunction);
+      case 'variable': {
+        const { found, value } = scope.lookup(operand.name);
+        if (!found) throw new Error(`undefined variable "${operand.name}"`);
+        return this.walkPath(value, operand.path, keepFunction);
+      }
+      case 'group':
+        return this.walkPath(this.evalPipeline(operand.pipeline, dot, scope), operand.path, keepFunction);
+    }
+  }
+
+  /**
+   * Resolve a field chain. Missing keys and fields of nil are nil; niladic
+   * methods are called unless the caller is about to pass arguments.
+   */
+  private walkPath(base: unknown, path: readonly string[], keepFunction: boolean): unknown {
+    let current = base;
+    path.forEach((key, i) => {
+      if (isTemplateMap(current)) {
+        current = current[key];
+      } else {
+        current = null;
+      }
+      const last = i === path.length - 1;
+      if (typeof current === 'function' && !(last && keepFunction)) {
+        current = (current as TemplateFunction)();
+      }
+    });
+    return current;
+  }
+}
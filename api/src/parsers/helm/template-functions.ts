@@ -0,0 +1,666 @@
+/**
+ * Helm Template Functions
+ * @module parsers/helm/template-functions
+ *
+ * The Go text/template builtins and the subset of Sprig functions Helm
+ * charts rely on, implemented over plain JavaScript values as produced by
+ * the YAML loader. Functions that depend on the cluster or on randomness
+ * (lookup, randAlphaNum, uuidv4) return deterministic placeholders so that
+ * the same chart renders identically on every scan.
+ *
+ * TASK-HELM-RENDER-001: Helm template rendering
+ */
+
+import { createHash } from 'node:crypto';
+import * as yaml from 'yaml';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A function callable from a template. Piped values arrive as the last argument.
+ */
+export type TemplateFunction = (...args: unknown[]) => unknown;
+
+/**
+ * Functions available to templates by name
+ */
+export type TemplateFunctionMap = Readonly<Record<string, TemplateFunction>>;
+
+// ============================================================================
+// Value Semantics
+// ============================================================================
+
+/**
+ * Go template truthiness: false, 0, nil and empty strings or collections are false
+ */
+export function isTemplateTruthy(value: unknown): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') return value.length > 0;
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'function') return true;
+  if (typeof value === 'object') return Object.keys(value).length > 0;
+  return true;
+}
+
+/**
+ * Format a value the way Go's %v verb prints it; nil prints as the empty
+ * string, matching Helm's replacement of "<no value>"
+ */
+export function formatTemplateValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return formatNested(value);
+}
+
+/**
+ * Check whether a value is a plain mapping
+ */
+export function isTemplateMap(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function formatNested(value: unknown): string {
+  if (value === null || value === undefined) return '<nil>';
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    return `[${value.map(formatNested).join(' ')}]`;
+  }
+  if (isTemplateMap(value)) {
+    const entries = Object.keys(value).sort().map(key => `${key}:${formatNested(value[key])}`);
+    return `map[${entries.join(' ')}]`;
+  }
+  return String(value);
+}
+
+function isEmpty(value: unknown): boolean {
+  return !isTemplateTruthy(value);
+}
+
+function toStr(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return formatNested(value);
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string') {
+    const parsed = Number(value.trim());
+    return Number.isNaN(parsed) ? 0 : parsed;
+  }
+  return 0;
+}
+
+function toInt(value: unknown): number {
+  return Math.trunc(toNumber(value));
+}
+
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (value === null || value === undefined) return [];
+  return [value];
+}
+
+function toMap(value: unknown, fn: string): Record<string, unknown> {
+  if (isTemplateMap(value)) return value;
+  throw new Error(`${fn}: expected a map, got ${typeName(value)}`);
+}
+
+function typeName(value: unknown): string {
+  if (value === null || value === undefined) return 'nil';
+  if (typeof value === 'string') return 'string';
+  if (typeof value === 'boolean') return 'bool';
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'float64';
+  if (Array.isArray(value)) return 'slice';
+  if (typeof value === 'function') return 'func';
+  return 'map';
+}
+
+function deepCopy(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(deepCopy);
+  if (isTemplateMap(value)) {
+    const copy: Record<string, unknown> = {};
+    for (const [key, entry] of Object.entries(value)) {
+      copy[key] = deepCopy(entry);
+    }
+    return copy;
+  }
+  return value;
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(sortKeys);
+  if (isTemplateMap(value)) {
+    const sorted: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      sorted[key] = sortKeys(value[key]);
+    }
+    return sorted;
+  }
+  return value;
+}
+
+function valuesEqual(a: unknown, b: unknown): boolean {
+  if ((a === null || a === undefined) && (b === null || b === undefined)) return true;
+  return a === b;
+}
+
+function compare(a: unknown, b: unknown, fn: string): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  if (typeof a === 'string' && typeof b === 'string') return a < b ? -1 : a > b ? 1 : 0;
+  throw new Error(`${fn}: incompatible types for comparison`);
+}
+
+/**
+ * Merge src into dst for keys dst lacks (Sprig merge) or for every key
+ * (mergeOverwrite), recursing into nested maps
+ */
+function mergeInto(dst: Record<string, unknown>, src: Record<string, unknown>, overwrite: boolean): void {
+  for (const [key, value] of Object.entries(src)) {
+    const existing = dst[key];
+    if (isTemplateMap(existing) && isTemplateMap(value)) {
+      mergeInto(existing, value, overwrite);
+    } else if (!(key in dst) || existing === null || existing === undefined || (overwrite && value !== undefined)) {
+      dst[key] = deepCopy(value);
+    }
+  }
+}
+
+// ============================================================================
+// printf
+// ============================================================================
+
+/**
+ * Go fmt.Sprintf for the verbs charts use (%s %v %d %f %q %t %x %o %%)
+ */
+export function sprintf(format: string, args: readonly unknown[]): string {
+  let index = 0;
+  return format.replace(/%([-+# 0]*)(\d+)?(?:\.(\d+))?([a-zA-Z%])/g, (_match, flags: string, width?: string, precision?: string, verb?: string) => {
+    if (verb === '%') return '%';
+    if (index >= args.length) return `%!${verb}(MISSING)`;
+    const arg = args[index++];
+    let text: string;
+
+    switch (verb) {
+      case 'd':
+        text = String(toInt(arg));
+        break;
+      case 'f':
+      case 'F':
+        text = toNumber(arg).toFixed(precision !== undefined ? Number(precision) : 6);
+        break;
+      case 'q':
+        text = JSON.stringify(toStr(arg));
+        break;
+      case 'x':
+      case 'X': {
+        const hex = typeof arg === 'number'
+          ? Math.trunc(arg).toString(16)
+          : Buffer.from(toStr(arg)).toString('hex');
+        text = verb === 'X' ? hex.toUpperCase() : hex;
+        break;
+      }
+      case 'o':
+        text = toInt(arg).toString(8);
+        break;
+      default:
+        text = arg === null || arg === undefined ? '<nil>' : formatNested(arg);
+        if (precision !== undefined && verb === 's') {
+          text = text.slice(0, Number(precision));
+        }
+    }
+
+    if (flags.includes('+') && typeof arg === 'number' && arg >= 0 && (verb === 'd' || verb === 'f')) {
+      text = `+${text}`;
+    }
+    if (width !== undefined && text.length < Number(width)) {
+      const size = Number(width);
+      if (flags.includes('-')) {
+        text = text.padEnd(size);
+      } else if (flags.includes('0') && typeof arg === 'number') {
+        text = text.padStart(size, '0');
+      } else {
+        text = text.padStart(size);
+      }
+    }
+    return text;
+  });
+}
+
+function sprint(args: readonly unknown[]): string {
+  let out = '';
+  args.forEach((arg, i) => {
+    const prev = args[i - 1];
+    if (i > 0 && typeof arg !== 'string' && typeof prev !== 'string') {
+      out += ' ';
+    }
+    out += arg === null || arg === undefined ? '<nil>' : formatNested(arg);
+  });
+  return out;
+}
+
+// ============================================================================
+// Semver
+// ============================================================================
+
+function parseVersion(version: string): [number, number, number] | null {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?/.exec(version.trim());
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)];
+}
+
+function compareVersions(a: [number, number, number], b: [number, number, number]): number {
+  for (let i = 0; i < 3; i++) {
+    const diff = (a[i] ?? 0) - (b[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+}
+
+function satisfiesConstraint(version: [number, number, number], constraint: string): boolean {
+  const match = /^(>=|<=|!=|>|<|=|~|\^)?\s*(.+)$/.exec(constraint.trim());
+  if (!match) return false;
+  const [, op = '=', raw = ''] = match;
+  const target = parseVersion(raw);
+  if (!target) return false;
+  const cmp = compareVersions(version, target);
+
+  switch (op) {
+    case '>=': return cmp >= 0;
+    case '<=': return cmp <= 0;
+    case '>': return cmp > 0;
+    case '<': return cmp < 0;
+    case '!=': return cmp !== 0;
+    case '~': return cmp >= 0 && version[0] === target[0] && version[1] === target[1];
+    case '^': return cmp >= 0 && version[0] === target[0];
+    default: return cmp === 0;
+  }
+}
+
+/**
+ * Sprig semverCompare: space or comma separated constraints are ANDed, || ORs groups
+ */
+function semverCompare(constraint: unknown, version: unknown): boolean {
+  const parsed = parseVersion(toStr(version));
+  if (!parsed) {
+    throw new Error(`semverCompare: invalid semantic version ${JSON.stringify(toStr(version))}`);
+  }
+  return toStr(constraint).split('||').some(group =>
+    group
+      .replace(/(>=|<=|!=|>|<|=|~|\^)\s+/g, '$1')
+      .split(/[\s,]+/)
+      .filter(part => part.length > 0)
+      .every(part => satisfiesConstraint(parsed, part))
+  );
+}
+
+// ============================================================================
+// Function Tables
+// ============================================================================
+
+const BUILTIN_FUNCTIONS: Record<string, TemplateFunction> = {
+  and: (...args) => {
+    for (const arg of args) {
+      if (!isTemplateTruthy(arg)) return arg;
+    }
+    return args[args.length - 1];
+  },
+  or: (...args) => {
+    for (const arg of args) {
+      if (isTemplateTruthy(arg)) return arg;
+    }
+    return args[args.length - 1];
+  },
+  not: (value) => !isTemplateTruthy(value),
+  len: (value) => {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (isTemplateMap(value)) return Object.keys(value).length;
+    if (value === null || value === undefined) return 0;
+    throw new Error(`len of type ${typeName(value)}`);
+  },
+  index: (collection, ...keys) => {
+    let current = collection;
+    for (const key of keys) {
+      if (Array.isArray(current)) {
+        const position = toInt(key);
+        if (position < 0 || position >= current.length) {
+          throw new Error(`index out of range: ${position}`);
+        }
+        current = current[position];
+      } else if (isTemplateMap(current)) {
+        current = current[toStr(key)];
+      } else {
+        return null;
+      }
+    }
+    return current;
+  },
+  slice: (collection, ...bounds) => {
+    const [start, end] = bounds.map(toInt);
+    if (typeof collection === 'string' || Array.isArray(collection)) {
+      return collection.slice(start ?? 0, end);
+    }
+    throw new Error(`can't slice item of type ${typeName(collection)}`);
+  },
+  print: (...args) => sprint(args),
+  println: (...args) => `${args.map(arg => (arg === null || arg === undefined ? '<nil>' : formatNested(arg))).join(' ')}\n`,
+  printf: (format, ...args) => sprintf(toStr(format), args),
+  eq: (first, ...others) => others.some(other => valuesEqual(first, other)),
+  ne: (a, b) => !valuesEqual(a, b),
+  lt: (a, b) => compare(a, b, 'lt') < 0,
+  le: (a, b) => compare(a, b, 'le') <= 0,
+  gt: (a, b) => compare(a, b, 'gt') > 0,
+  ge: (a, b) => compare(a, b, 'ge') >= 0,
+  html: (...args) => sprint(args)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&#34;')
+    .replace(/'/g, '&#39;'),
+  js: (...args) => JSON.stringify(sprint(args)).slice(1, -1).replace(/'/g, "\\'"),
+  urlquery: (...args) => encodeURIComponent(sprint(args)),
+};
+
+const SPRIG_FUNCTIONS: Record<string, TemplateFunction> = {
+  // Defaults and flow
+  default: (fallback, ...given) => (given.length === 0 || isEmpty(given[0]) ? fallback : given[0]),
+  empty: (value) => isEmpty(value),
+  coalesce: (...args) => args.find(arg => !isEmpty(arg)) ?? null,
+  ternary: (whenTrue, whenFalse, condition) => (isTemplateTruthy(condition) ? whenTrue : whenFalse),
+  required: (message, value) => {
+    if (value === null || value === undefined || value === '') {
+      throw new Error(toStr(message));
+    }
+    return value;
+  },
+  fail: (message) => {
+    throw new Error(toStr(message));
+  },
+
+  // Encoding
+  toYaml: (value) => {
+    if (value === null || value === undefined) return 'null';
+    return yaml.stringify(value, { sortMapEntries: true, lineWidth: 0 }).replace(/\n$/, '');
+  },
+  fromYaml: (value) => {
+    try {
+      const parsed: unknown = yaml.parse(toStr(value));
+      return isTemplateMap(parsed) ? parsed : {};
+    } catch (err) {
+      return { Error: err instanceof Error ? err.message : String(err) };
+    }
+  },
+  fromYamlArray: (value) => {
+    const parsed: unknown = yaml.parse(toStr(value));
+    return Array.isArray(parsed) ? parsed : [];
+  },
+  toJson: (value) => JSON.stringify(sortKeys(value ?? null)),
+  toPrettyJson: (value) => JSON.stringify(sortKeys(value ?? null), null, 2),
+  toRawJson: (value) => JSON.stringify(sortKeys(value ?? null)),
+  fromJson: (value) => {
+    try {
+      const parsed: unknown = JSON.parse(toStr(value));
+      return isTemplateMap(parsed) ? parsed : {};
+    } catch (err) {
+      return { Error: err instanceof Error ? err.message : String(err) };
+    }
+  },
+  b64enc: (value) => Buffer.from(toStr(value)).toString('base64'),
+  b64dec: (value) => Buffer.from(toStr(value), 'base64').toString('utf-8'),
+  sha256sum: (value) => createHash('sha256').update(toStr(value)).digest('hex'),
+  sha1sum: (value) => createHash('sha1').update(toStr(value)).digest('hex'),
+
+  // Strings
+  toString: (value: unknown) => toStr(value),
+  toStrings: (value) => toList(value).map(toStr),
+  quote: (...args) => args
+    .filter(arg => arg !== null && arg !== undefined)
+    .map(arg => JSON.stringify(toStr(arg)))
+    .join(' '),
+  squote: (...args) => args
+    .filter(arg => arg !== null && arg !== undefined)
+    .map(arg => `'${toStr(arg)}'`)
+    .join(' '),
+  upper: (value) => toStr(value).toUpperCase(),
+  lower: (value) => toStr(value).toLowerCase(),
+  title: (value) => toStr(value).replace(/\b\w/g, ch => ch.toUpperCase()),
+  untitle: (value) => toStr(value).replace(/\b\w/g, ch => ch.toLowerCase()),
+  trim: (value) => toStr(value).trim(),
+  trimAll: (cutset, value) => {
+    const chars = new Set(toStr(cutset));
+    const text = toStr(value);
+    let start = 0;
+    let end = text.length;
+    while (start < end && chars.has(text.charAt(start))) start++;
+    while (end > start && chars.has(text.charAt(end - 1))) end--;
+    return text.slice(start, end);
+  },
+  trimPrefix: (prefix, value) => {
+    const text = toStr(value);
+    const p = toStr(prefix);
+    return p.length > 0 && text.startsWith(p) ? text.slice(p.length) : text;
+  },
+  trimSuffix: (suffix, value) => {
+    const text = toStr(value);
+    const s = toStr(suffix);
+    return s.length > 0 && text.endsWith(s) ? text.slice(0, -s.length) : text;
+  },
+  trunc: (length, value) => {
+    const text = toStr(value);
+    const n = toInt(length);
+    if (n < 0) return text.slice(Math.max(text.length + n, 0));
+    return text.slice(0, n);
+  },
+  substr: (start, end, value) => {
+    const text = toStr(value);
+    const from = toInt(start);
+    const to = toInt(end);
+    return text.slice(Math.max(from, 0), to < 0 ? text.length : to);
+  },
+  replace: (oldText, newText, value) => toStr(value).split(toStr(oldText)).join(toStr(newText)),
+  repeat: (count, value) => toStr(value).repeat(Math.max(toInt(count), 0)),
+  contains: (sub, value) => toStr(value).includes(toStr(sub)),
+  hasPrefix: (prefix, value) => toStr(value).startsWith(toStr(prefix)),
+  hasSuffix: (suffix, value) => toStr(value).endsWith(toStr(suffix)),
+  indent: (spaces, value) => {
+    const pad = ' '.repeat(Math.max(toInt(spaces), 0));
+    return toStr(value).split('\n').map(line => pad + line).join('\n');
+  },
+  nindent: (spaces, value) => {
+    const pad = ' '.repeat(Math.max(toInt(spaces), 0));
+    return `\n${toStr(value).split('\n').map(line => pad + line).join('\n')}`;
+  },
+  nospace: (value) => toStr(value).replace(/\s+/g, ''),
+  cat: (...args) => args.filter(arg => arg !== null && arg !== undefined).map(toStr).join(' '),
+  kebabcase: (value) => toStr(value)
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/[\s_]+/g, '-')
+    .toLowerCase(),
+  snakecase: (value) => toStr(value)
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[\s-]+/g, '_')
+    .toLowerCase(),
+  camelcase: (value) => toStr(value)
+    .split(/[\s_-]+/)
+    .filter(part => part.length > 0)
+    .map(part => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(''),
+  split: (separator, value) => {
+    const result: Record<string, unknown> = {};
+    toStr(value).split(toStr(separator)).forEach((part, i) => {
+      result[`_${i}`] = part;
+    });
+    return result;
+  },
+  splitList: (separator, value) => toStr(value).split(toStr(separator)),
+  join: (separator, value) => toList(value).map(toStr).join(toStr(separator)),
+  regexMatch: (pattern, value) => new RegExp(toStr(pattern)).test(toStr(value)),
+  regexFind: (pattern, value) => new RegExp(toStr(pattern)).exec(toStr(value))?.[0] ?? '',
+  regexFindAll: (pattern, value, count) => {
+    const matches = toStr(value).match(new RegExp(toStr(pattern), 'g')) ?? [];
+    const n = toInt(count);
+    return n < 0 ? matches : matches.slice(0, n);
+  },
+  regexReplaceAll: (pattern, value, replacement) =>
+    toStr(value).replace(new RegExp(toStr(pattern), 'g'), toStr(replacement).replace(/\$\{(\d+)\}/g, '$$$1')),
+  regexReplaceAllLiteral: (pattern, value, replacement) =>
+    toStr(value).replace(new RegExp(toStr(pattern), 'g'), () => toStr(replacement)),
+  regexSplit: (pattern, value, count) => {
+    const parts = toStr(value).split(new RegExp(toStr(pattern)));
+    const n = toInt(count);
+    return n < 0 ? parts : parts.slice(0, n);
+  },
+
+  // Numbers
+  int: (value) => toInt(value),
+  int64: (value) => toInt(value),
+  float64: (value) => toNumber(value),
+  atoi: (value) => toInt(value),
+  add: (...args) => args.reduce<number>((sum, arg) => sum + toInt(arg), 0),
+  add1: (value) => toInt(value) + 1,
+  sub: (a, b) => toInt(a) - toInt(b),
+  mul: (...args) => args.reduce<number>((product, arg) => product * toInt(arg), 1),
+  div: (a, b) => {
+    const divisor = toInt(b);
+    if (divisor === 0) throw new Error('div: division by zero');
+    return Math.trunc(toInt(a) / divisor);
+  },
+  mod: (a, b) => {
+    const divisor = toInt(b);
+    if (divisor === 0) throw new Error('mod: division by zero');
+    return toInt(a) % divisor;
+  },
+  max: (...args) => Math.max(...args.map(toInt)),
+  min: (...args) => Math.min(...args.map(toInt)),
+  floor: (value) => Math.floor(toNumber(value)),
+  ceil: (value) => Math.ceil(toNumber(value)),
+  round: (value, precision) => {
+    const factor = 10 ** toInt(precision);
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  until: (count) => Array.from({ length: Math.max(toInt(count), 0) }, (_, i) => i),
+  untilStep: (start, stop, step) => {
+    const result: number[] = [];
+    const increment = toInt(step);
+    if (increment === 0) return result;
+    for (let i = toInt(start); increment > 0 ? i < toInt(stop) : i > toInt(stop); i += increment) {
+      result.push(i);
+    }
+    return result;
+  },
+
+  // Lists
+  list: (...args) => [...args],
+  append: (list, value) => [...toList(list), value],
+  push: (list, value) => [...toList(list), value],
+  prepend: (list, value) => [value, ...toList(list)],
+  concat: (...lists) => lists.flatMap(toList),
+  first: (list) => toList(list)[0] ?? null,
+  last: (list) => {
+    const items = toList(list);
+    return items[items.length - 1] ?? null;
+  },
+  rest: (list) => toList(list).slice(1),
+  initial: (list) => toList(list).slice(0, -1),
+  reverse: (list) => [...toList(list)].reverse(),
+  compact: (list) => toList(list).filter(item => !isEmpty(item)),
+  uniq: (list) => {
+    const result: unknown[] = [];
+    for (const item of toList(list)) {
+      if (!result.some(existing => valuesEqual(existing, item))) result.push(item);
+    }
+    return result;
+  },
+  without: (list, ...omit) => toList(list).filter(item => !omit.some(o => valuesEqual(o, item))),
+  has: (needle, list) => toList(list).some(item => valuesEqual(item, needle)),
+  sortAlpha: (list) => toList(list).map(toStr).sort(),
+
+  // Dictionaries
+  dict: (...args) => {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i < args.length; i += 2) {
+      result[toStr(args[i])] = args[i + 1] ?? '';
+    }
+    return result;
+  },
+  get: (map, key) => {
+    const value = toMap(map, 'get')[toStr(key)];
+    return value === undefined ? '' : value;
+  },
+  set: (map, key, value) => {
+    toMap(map, 'set')[toStr(key)] = value;
+    return map;
+  },
+  unset: (map, key) => {
+    delete toMap(map, 'unset')[toStr(key)];
+    return map;
+  },
+  hasKey: (map, key) => isTemplateMap(map) && Object.prototype.hasOwnProperty.call(map, toStr(key)),
+  keys: (...maps) => maps.flatMap(map => (isTemplateMap(map) ? Object.keys(map) : [])).sort(),
+  values: (map) => (isTemplateMap(map) ? Object.keys(map).sort().map(key => map[key]) : []),
+  pick: (map, ...keys) => {
+    const source = toMap(map, 'pick');
+    const result: Record<string, unknown> = {};
+    for (const key of keys.map(toStr)) {
+      if (key in source) result[key] = source[key];
+    }
+    return result;
+  },
+  omit: (map, ...keys) => {
+    const omitted = new Set(keys.map(toStr));
+    return Object.fromEntries(Object.entries(toMap(map, 'omit')).filter(([key]) => !omitted.has(key)));
+  },
+  merge: (dst, ...sources) => {
+    const target = toMap(dst, 'merge');
+    for (const source of sources) {
+      if (isTemplateMap(source)) mergeInto(target, source, false);
+    }
+    return target;
+  },
+  mergeOverwrite: (dst, ...sources) => {
+    const target = toMap(dst, 'mergeOverwrite');
+    for (const source of sources) {
+      if (isTemplateMap(source)) mergeInto(target, source, true);
+    }
+    return target;
+  },
+  deepCopy: (value) => deepCopy(value),
+  dig: (...args) => {
+    const map = args[args.length - 1];
+    const fallback = args[args.length - 2];
+    let current: unknown = map;
+    for (const key of args.slice(0, -2)) {
+      if (!isTemplateMap(current) || !(toStr(key) in current)) return fallback;
+      current = current[toStr(key)];
+    }
+    return current;
+  },
+
+  // Types
+  typeOf: (value) => typeName(value),
+  kindOf: (value) => typeName(value),
+  kindIs: (kind, value) => typeName(value) === toStr(kind) ||
+    (toStr(kind) === 'float64' && typeof value === 'number'),
+  typeIs: (type, value) => typeName(value) === toStr(type),
+
+  // Versions
+  semverCompare: (constraint, version) => semverCompare(constraint, version),
+
+  // Cluster and randomness: deterministic offline stand-ins
+  lookup: () => ({}),
+  randAlphaNum: (count) => 'x'.repeat(Math.max(toInt(count), 0)),
+  randAlpha: (count) => 'x'.repeat(Math.max(toInt(count), 0)),
+  randNumeric: (count) => '0'.repeat(Math.max(toInt(count), 0)),
+  randAscii: (count) => 'x'.repeat(Math.max(toInt(count), 0)),
+  uuidv4: () => '00000000-0000-4000-8000-000000000000',
+};
+
+/**
+ * Create the function table for a template engine: Go builtins plus Sprig
+ */
+export function createTemplateFunctions(): Record<string, TemplateFunction> {
+  return { ...BUILTIN_FUNCTIONS, ...SPRIG_FUNCTIONS };
+}
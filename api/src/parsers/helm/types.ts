@@ -8,9 +8,11 @@
  * TASK-DETECT-006: Helm chart structure detection
  * TASK-DETECT-007: Helm release detection
  * TASK-DETECT-008: K8s resource extraction from templates
+ * TASK-HELM-RENDER-001: Helm template rendering
  */
 
-import { NodeLocation } from '../../types/graph';
+import type { GraphEdge, HelmReleaseNode, NodeLocation } from '../../types/graph.js';
+import type { K8sManifest, K8sNode } from '../kubernetes/types.js';
 
 // ============================================================================
 // Branded Types for Type Safety
@@ -653,6 +655,129 @@ export interface HelmfileParseResult {
   readonly warnings: readonly HelmParseError[];
 }
 
+// ============================================================================
+// Rendering Types (TASK-HELM-RENDER-001)
+// ============================================================================
+
+/**
+ * A chart file as read by the chart file parser
+ */
+export type HelmChartFile =
+  | {
+      readonly kind: 'chart';
+      readonly filePath: string;
+      readonly chartDirectory: string;
+      readonly metadata: ChartMetadata;
+    }
+  | {
+      readonly kind: 'values';
+      readonly filePath: string;
+      readonly chartDirectory: string;
+      readonly values: Record<string, unknown>;
+    }
+  | {
+      readonly kind: 'template';
+      readonly filePath: string;
+      readonly chartDirectory: string;
+      readonly content: string;
+    };
+
+/**
+ * Result of parsing a single chart file
+ */
+export interface HelmChartFileParseResult {
+  readonly chartFile: HelmChartFile;
+}
+
+/**
+ * Template file of a chart to render
+ */
+export interface HelmChartTemplate {
+  /** File path */
+  readonly path: string;
+  /** Raw template text */
+  readonly content: string;
+}
+
+/**
+ * Everything needed to render a chart
+ */
+export interface HelmChartSource {
+  /** Chart root directory */
+  readonly directory: string;
+  /** Path of Chart.yaml */
+  readonly chartFile: string;
+  /** Chart metadata from Chart.yaml */
+  readonly metadata: ChartMetadata;
+  /** Default values from the chart's values.yaml */
+  readonly values: Record<string, unknown>;
+  /** Files under templates/, including _helpers.tpl partials */
+  readonly templates: readonly HelmChartTemplate[];
+  /** Other chart files exposed through .Files, keyed by chart-relative path */
+  readonly files?: Readonly<Record<string, string>>;
+}
+
+/**
+ * Where a release's name and value overrides came from
+ */
+export type HelmReleaseOrigin = 'chart' | 'helmfile' | 'argocd';
+
+/**
+ * A --set style override
+ */
+export interface HelmSetValue {
+  /** Dotted path, e.g. image.tag or ingress.hosts[0].host */
+  readonly name: string;
+  readonly value: unknown;
+  /** Keep string values as strings (--set-string) */
+  readonly forceString?: boolean;
+}
+
+/**
+ * A release of a chart: name, namespace and value overrides
+ */
+export interface HelmReleaseSpec {
+  readonly name: string;
+  readonly namespace: string;
+  readonly origin: HelmReleaseOrigin;
+  /** Value files named by the release, in precedence order */
+  readonly valuesFiles: readonly string[];
+  /** Value files that could not be loaded */
+  readonly missingValuesFiles: readonly string[];
+  /** Loaded override layers, lowest precedence first */
+  readonly values: readonly Record<string, unknown>[];
+  /** --set overrides, applied after all layers */
+  readonly setValues: readonly HelmSetValue[];
+  /** Where the release is declared; defaults to Chart.yaml */
+  readonly location?: NodeLocation;
+}
+
+/**
+ * A manifest rendered from a chart template
+ */
+export interface HelmRenderedManifest {
+  readonly manifest: K8sManifest;
+  /** Template path the manifest was rendered from */
+  readonly template: string;
+}
+
+/**
+ * Result of rendering a chart for a release
+ */
+export interface HelmRenderResult {
+  /** Node of the release */
+  readonly release: HelmReleaseNode;
+  /** Effective values the templates saw */
+  readonly values: Record<string, unknown>;
+  readonly manifests: readonly HelmRenderedManifest[];
+  /** K8s nodes of the rendered resources */
+  readonly resourceNodes: readonly K8sNode[];
+  /** helm_renders edges from the release to its resources */
+  readonly edges: readonly GraphEdge[];
+  /** Templates that failed to parse or render, and invalid output */
+  readonly warnings: readonly HelmParseError[];
+}
+
 // ============================================================================
 // Parser Options
 // ============================================================================
@@ -797,3 +922,35 @@ export function createEmptyChartMetadata(name: string, version: string): ChartMe
     type: 'application',
   };
 }
+
+// ============================================================================
+// Chart Paths (TASK-HELM-RENDER-001)
+// ============================================================================
+
+const HELM_TEMPLATE_PATH = /(?:^|\/)templates\/.+\.(?:ya?ml|tpl)$/i;
+const HELM_VALUES_FILE = /^values(?:[-.][\w.-]+)?\.ya?ml$/i;
+
+/**
+ * Check whether a path is a template of a chart (templates/**.yaml or .tpl)
+ */
+export function isHelmTemplatePath(filePath: string): boolean {
+  return HELM_TEMPLATE_PATH.test(filePath.replace(/\\/g, '/'));
+}
+
+/**
+ * Check whether a path is Chart.yaml, a values file or a chart template
+ */
+export function isHelmChartFilePath(filePath: string): boolean {
+  const name = filePath.replace(/\\/g, '/').split('/').pop() ?? '';
+  return name === 'Chart.yaml' || HELM_VALUES_FILE.test(name) || isHelmTemplatePath(filePath);
+}
+
+/**
+ * Get the chart root a chart file belongs to ('' for the repository root)
+ */
+export function getHelmChartDirectory(filePath: string): string {
+  const normalized = filePath.replace(/\\/g, '/');
+  const templates = /(?:^|\/)templates\//.exec(normalized);
+  const path = templates ? normalized.slice(0, templates.index) : normalized.slice(0, Math.max(normalized.lastIndexOf('/'), 0));
+  return path.replace(/^\.\//, '');
+}
@@ -88,6 +88,18 @@ export {
   parseVersionConstraint,
 } from './terraform/module-detector';
 
+// Terraform JSON parser and module merging (TASK-TFJSON-001)
+export {
+  TerraformJsonParser,
+  terraformJsonParser,
+  createTerraformJsonParser,
+  isTerraformJsonFile,
+} from './terraform/json-parser.js';
+export {
+  mergeTerraformModules,
+  isTerraformOverrideFile,
+} from './terraform/module-merger.js';
+
 // Helm parser types (TASK-DETECT-006, 007, 008)
 export {
   // Branded types
@@ -145,6 +157,17 @@ export {
   type HelmChartParseResult,
   type HelmfileParseResult,
 
+  // Rendering types (TASK-HELM-RENDER-001)
+  type HelmChartFile,
+  type HelmChartFileParseResult,
+  type HelmChartTemplate,
+  type HelmChartSource,
+  type HelmReleaseOrigin,
+  type HelmSetValue,
+  type HelmReleaseSpec,
+  type HelmRenderedManifest,
+  type HelmRenderResult,
+
   // Parser options
   type HelmParserOptions,
   DEFAULT_HELM_PARSER_OPTIONS,
@@ -160,6 +183,9 @@ export {
   createHelmReleaseId,
   createHelmValuesPath,
   createEmptyChartMetadata,
+  isHelmTemplatePath,
+  isHelmChartFilePath,
+  getHelmChartDirectory,
 
   // Chart Parser (TASK-DETECT-006)
   HelmChartParser,
@@ -190,6 +216,24 @@ export {
   createTemplateAnalyzer,
   analyzeTemplate,
   extractHelpers,
+
+  // Template Rendering (TASK-HELM-RENDER-001)
+  HelmTemplateEngine,
+  HelmTemplateError,
+  type HelmTemplateEngineOptions,
+  HelmChartFileParser,
+  createChartFileParser,
+  parseChartFile,
+  type HelmValuesLoader,
+  renderHelmRelease,
+  collectHelmCharts,
+  mergeHelmValues,
+  applyHelmSetValue,
+  createDefaultHelmRelease,
+  createHelmfileReleaseSpec,
+  createArgoCDHelmReleaseSpec,
+  createHelmReleaseNode,
+  createHelmRendersEdge,
 } from './helm/index.js';
 
 // Helmfile parser types (TASK-XREF-004)
@@ -373,6 +417,9 @@ export {
   type ApplicationSetSyncPolicy,
   type ApplicationSetStrategy,
   type GeneratorSelector,
+  type ApplicationSetOrigin,
+  type ArgoCDRepositoryTree,
+  type ApplicationSetExpansionResult,
 
   // Graph node types
   type ArgoCDApplicationNode,
@@ -385,6 +432,9 @@ export {
   type ArgoCDGeneratesEdge,
   type ArgoCDDeploysEdgeMetadata,
   type ArgoCDGeneratesEdgeMetadata,
+  type ArgoCDGeneratedByEdge,
+  type ArgoCDGeneratedByEdgeMetadata,
+  type ArgoCDEdge,
 
   // Parse result types
   type ArgoCDParseResult,
@@ -403,6 +453,7 @@ export {
   isArgoCDApplicationSetNode,
   isArgoCDDeploysEdge,
   isArgoCDGeneratesEdge,
+  isArgoCDGeneratedByEdge,
   hasHelmSource,
   hasKustomizeSource,
 
@@ -416,6 +467,7 @@ export {
   ARGOCD_KINDS,
   ARGOCD_ANNOTATIONS,
   SYNC_OPTIONS,
+  APPLICATIONSET_GENERATOR_TYPES,
 
   // Parser class
   ArgoCDApplicationParser,
@@ -424,4 +476,342 @@ export {
   createArgoCDParser,
   parseArgoCDManifest,
   createArgoCDGraph,
+
+  // ApplicationSet expansion (TASK-ARGOCD-APPSET-001)
+  expandApplicationSet,
+  expandApplicationSets,
 } from './argocd/index.js';
+
+// Kubernetes manifest parser (TASK-K8S-001)
+export {
+  // Core types
+  type K8sManifest,
+  type K8sNode,
+  type K8sWorkloadNodeType,
+  type K8sVolumeSource,
+  type K8sVolumeRef,
+  type K8sEnvKeyRef,
+  type K8sPodTemplateInfo,
+
+  // Parse result types
+  type K8sParseResult,
+  type K8sParseMetadata,
+  type K8sParseError,
+  type K8sParseErrorCode,
+
+  // Parser options
+  type K8sParserOptions,
+  DEFAULT_K8S_PARSER_OPTIONS,
+
+  // Constants
+  K8S_KIND_TO_NODE_TYPE,
+  K8S_CLUSTER_SCOPED_KINDS,
+  K8S_WORKLOAD_NODE_TYPES,
+
+  // Helpers and type guards
+  createK8sNodeId,
+  isSupportedK8sKind,
+  isK8sWorkloadNode,
+  getPodTemplateInfo,
+  createEmptyK8sParseResult,
+
+  // Node and edge factories
+  createK8sNode,
+  createK8sNodes,
+  extractPodTemplateInfo,
+  createK8sEdges,
+  createK8sEdgeId,
+  selectorMatches,
+  type K8sEdgeFactoryOptions,
+
+  // Parser class
+  KubernetesManifestParser,
+  createKubernetesParser,
+  parseKubernetesManifest,
+} from './kubernetes/index.js';
+
+// CloudFormation / SAM template parser (TASK-CFN-001)
+export {
+  // Core types
+  type CfnSection,
+  type CfnIntrinsicKind,
+  type CfnIntrinsicReference,
+  type CfnTemplateEntry,
+  type CfnParameter,
+  type CfnResource,
+  type CfnOutput,
+  type CfnTemplate,
+  type CfnNode,
+
+  // Parse result types
+  type CfnParseResult,
+  type CfnParseMetadata,
+  type CfnParseError,
+  type CfnParseErrorCode,
+
+  // Parser options
+  type CfnParserOptions,
+  DEFAULT_CFN_PARSER_OPTIONS,
+
+  // Constants
+  CFN_PSEUDO_PARAMETERS,
+  SAM_TRANSFORM,
+
+  // Helpers
+  createCfnNodeId,
+  isCfnTemplateObject,
+  createEmptyCfnParseResult,
+
+  // Intrinsic functions
+  createCfnYamlTags,
+  collectIntrinsicReferences,
+  extractSubVariables,
+  resolveStaticString,
+  type CfnResolveContext,
+
+  // Node and edge factories
+  createCfnNodes,
+  createCfnResourceNode,
+  createCfnParameterNode,
+  createCfnOutputNode,
+  createCfnEdges,
+  createCfnCrossStackEdges,
+  createCfnEdgeId,
+
+  // Parser class
+  CloudFormationParser,
+  createCloudFormationParser,
+  parseCloudFormationTemplate,
+} from './cloudformation/index.js';
+
+// Dockerfile parser (TASK-DOCKER-001)
+export {
+  // Core types
+  type DockerInstruction,
+  type DockerImageReference,
+  type DockerCopySource,
+  type DockerStage,
+  type Dockerfile,
+  type DockerBuildStep,
+  type DockerNode,
+
+  // Parse result types
+  type DockerParseResult,
+  type DockerParseMetadata,
+  type DockerParseError,
+  type DockerParseErrorCode,
+
+  // Parser options
+  type DockerParserOptions,
+  DEFAULT_DOCKER_PARSER_OPTIONS,
+
+  // Constants
+  DOCKER_SCRATCH_IMAGE,
+  DOCKER_HUB_REGISTRY,
+
+  // Helpers
+  createDockerStageNodeId,
+  createDockerImageNodeId,
+  parseImageReference,
+  normalizeImageRepository,
+  isDockerfilePath,
+  createEmptyDockerParseResult,
+
+  // Instruction lexing
+  lexDockerfile,
+  splitWords,
+  parseKeyValuePairs,
+  expandVariables,
+
+  // Node and edge factories
+  createDockerNodes,
+  createDockerStageNode,
+  createDockerImageNode,
+  createDockerEdges,
+  createDockerImageEdges,
+  createDockerEdgeId,
+  toDockerBuildStep,
+
+  // Parser class
+  DockerfileParser,
+  createDockerfileParser,
+  parseDockerfile,
+} from './docker/index.js';
+
+// Kustomize parser (TASK-KUSTOMIZE-001)
+export {
+  // Core types
+  type Kustomization,
+  type KustomizeResourceField,
+  type KustomizeResourceRef,
+  type KustomizePatch,
+  type KustomizePatchTarget,
+  type KustomizeGenerator,
+  type KustomizeImage,
+  type KustomizeReplicaCount,
+  type KustomizeLabels,
+  type KustomizeRenderResult,
+  type KustomizeRenderedManifest,
+
+  // Parse result types
+  type KustomizeParseResult,
+  type KustomizeParseMetadata,
+  type KustomizeParseError,
+  type KustomizeParseErrorCode,
+
+  // Parser options
+  type KustomizeParserOptions,
+  DEFAULT_KUSTOMIZE_PARSER_OPTIONS,
+
+  // Constants
+  KUSTOMIZATION_FILE_NAMES,
+
+  // Helpers
+  createKustomizationNodeId,
+  isKustomizationPath,
+  getKustomizationDirectory,
+  isRemoteKustomizeResource,
+  normalizeKustomizePath,
+  resolveKustomizePath,
+  createEmptyKustomizeParseResult,
+
+  // Rendering
+  renderKustomizations,
+
+  // Node and edge factories
+  createKustomizationNode,
+  createKustomizeResourceNode,
+  createKustomizeBaseEdge,
+  createKustomizeRendersEdge,
+  createKustomizePatchesEdge,
+  createKustomizeEdgeId,
+
+  // Parser class
+  KustomizeParser,
+  createKustomizeParser,
+  parseKustomization,
+} from './kustomize/index.js';
+
+// Jenkinsfile parser (TASK-JENKINS-001)
+export {
+  // Core types
+  type JenkinsPipeline,
+  type JenkinsStage,
+  type JenkinsStep,
+  type JenkinsAgent,
+  type JenkinsWhenCondition,
+  type JenkinsTrigger,
+  type JenkinsSharedLibrary,
+
+  // Parse result types
+  type JenkinsParseResult,
+  type JenkinsParseMetadata,
+  type JenkinsParseError,
+  type JenkinsParseErrorCode,
+
+  // Parser options
+  type JenkinsParserOptions,
+  DEFAULT_JENKINS_PARSER_OPTIONS,
+
+  // Constants
+  JENKINS_SHELL_STEPS,
+  JENKINS_STAGE_SEPARATOR,
+
+  // Helpers
+  isJenkinsfilePath,
+  isJenkinsShellStep,
+  createEmptyJenkinsParseResult,
+
+  // Crossref adapter
+  toParsedWorkflow as toJenkinsParsedWorkflow,
+  detectJenkinsFlows,
+
+  // Parser class
+  JenkinsfileParser,
+  createJenkinsfileParser,
+  parseJenkinsfile,
+} from './jenkins/index.js';
+
+// Azure Pipelines parser (TASK-AZP-001)
+export {
+  // Core types
+  type AzurePipeline,
+  type AzureStage,
+  type AzureJob,
+  type AzureStep,
+  type AzureTrigger,
+  type AzureVariables,
+  type AzureTemplateKind,
+  type AzureTemplateReference,
+  type AzureTemplateLoader,
+
+  // Parse result types
+  type AzureParseResult,
+  type AzureParseMetadata,
+  type AzureParseError,
+  type AzureParseErrorCode,
+
+  // Parser options
+  type AzureParserOptions,
+  DEFAULT_AZURE_PARSER_OPTIONS,
+
+  // Constants
+  AZURE_PIPELINES_FILE_NAMES,
+  AZURE_JOB_ID_SEPARATOR,
+
+  // Helpers
+  isAzurePipelinesPath,
+  splitTemplateReference,
+  createEmptyAzureParseResult,
+
+  // Template loading
+  NodeAzureTemplateLoader,
+  createAzureTemplateLoader,
+
+  // Crossref adapter
+  toAzureParsedWorkflow,
+  detectAzureFlows,
+
+  // Parser class
+  AzurePipelinesParser,
+  createAzurePipelinesParser,
+  parseAzurePipeline,
+} from './azure-pipelines/index.js';
+
+// CircleCI parser (TASK-CIRCLECI-001)
+export {
+  // Core types
+  type CircleConfig,
+  type CircleWorkflow,
+  type CircleJob,
+  type CircleStep,
+  type CircleOrb,
+  type CircleExecutor,
+
+  // Parse result types
+  type CircleParseResult,
+  type CircleParseMetadata,
+  type CircleParseError,
+  type CircleParseErrorCode,
+
+  // Parser options
+  type CircleParserOptions,
+  DEFAULT_CIRCLE_PARSER_OPTIONS,
+
+  // Constants
+  CIRCLE_JOB_ID_SEPARATOR,
+
+  // Helpers
+  isCircleConfigPath,
+  parseOrbReference,
+  createEmptyCircleParseResult,
+
+  // Crossref adapter
+  toCircleParsedWorkflow,
+  detectCircleFlows,
+
+  // Parser class
+  CircleCIParser,
+  createCircleCIParser,
+  parseCircleCIConfig,
+} from './circleci/index.js';
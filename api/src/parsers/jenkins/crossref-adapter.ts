@@ -0,0 +1,141 @@
+/**
+ * Jenkins Crossref Adapter
+ * @module parsers/jenkins/crossref-adapter
+ *
+ * Maps a parsed Jenkinsfile onto the crossref module: stages become the jobs
+ * of a ParsedWorkflow for PIPELINE / PIPELINE_JOB node creation, and shell
+ * steps become the Terraform and Helm step contexts the TF-Helm pattern
+ * detectors run over.
+ *
+ * TASK-JENKINS-001: Jenkinsfile declarative pipeline parsing
+ */
+
+import type { ParsedJob, ParsedStep, ParsedTrigger, ParsedWorkflow } from '../crossref/pipeline-node.js';
+import type { TerraformToHelmFlow, TfHelmDetectionContext } from '../crossref/types.js';
+import { createWorkflowDetectionContext, detectWorkflowFlows } from '../crossref/workflow-flows.js';
+import type {
+  JenkinsPipeline,
+  JenkinsStage,
+  JenkinsStep,
+  JenkinsTrigger,
+  JenkinsWhenCondition,
+} from './types.js';
+
+// ============================================================================
+// ParsedWorkflow Conversion
+// ============================================================================
+
+/**
+ * Convert a Jenkins pipeline into the crossref ParsedWorkflow shape
+ */
+export function toParsedWorkflow(pipeline: JenkinsPipeline): ParsedWorkflow {
+  const jobs = new Map<string, ParsedJob>();
+
+  for (const stage of pipeline.stages) {
+    const artifactPaths = stage.steps
+      .filter(step => step.name === 'archiveArtifacts' || step.name === 'stash')
+      .flatMap(step => artifactPatterns(step));
+    const agent = stage.agent ?? pipeline.agent;
+    const runsOn = agent?.label ?? agent?.image ?? agent?.type;
+    const environment = stage.environment.DEPLOY_ENV ?? stage.environment.ENVIRONMENT;
+
+    jobs.set(stage.id, {
+      id: stage.id,
+      name: stage.name,
+      ...(stage.parents[0] !== undefined ? { stage: stage.parents[0] } : {}),
+      ...(runsOn !== undefined ? { runsOn } : {}),
+      needs: stage.dependsOn,
+      ...(environment !== undefined ? { environment } : {}),
+      steps: toParsedSteps(stage),
+      ...(stage.when.length > 0 ? { condition: stage.when.map(describeCondition).join(' && ') } : {}),
+      ...(artifactPaths.length > 0 ? { artifacts: { paths: artifactPaths } } : {}),
+      location: { lineStart: stage.lineStart, lineEnd: stage.lineEnd },
+    });
+  }
+
+  return {
+    name: pipeline.filePath.replace(/\\/g, '/').split('/').pop() ?? 'Jenkinsfile',
+    filePath: pipeline.filePath,
+    pipelineType: 'jenkins',
+    triggers: pipeline.triggers.map(toParsedTrigger),
+    jobs,
+    location: { lineStart: pipeline.lineStart, lineEnd: pipeline.lineEnd },
+  };
+}
+
+/**
+ * Shell steps as run steps; assignments of returned stdout are written as
+ * shell assignments (`VAR=$(script)`) so env var flows can be traced
+ */
+function toParsedSteps(stage: JenkinsStage): ParsedStep[] {
+  return stage.steps
+    .filter(step => step.script !== undefined)
+    .map(step => ({
+      id: `step-${step.index}`,
+      name: step.name,
+      run: toShellCommand(step),
+      ...(step.workingDirectory !== undefined ? { workingDirectory: step.workingDirectory } : {}),
+      ...(step.env !== undefined ? { env: { ...step.env } } : {}),
+      index: step.index,
+    }));
+}
+
+function toShellCommand(step: JenkinsStep): string {
+  // Groovy ${env.NAME} interpolation reads the same variable as the shell's $NAME
+  const script = (step.script ?? '').replace(/\$\{env\.([A-Za-z_]\w*)\}/g, '${$1}');
+  return step.assignTo !== undefined ? `${step.assignTo}=$(${script.trim()})` : script;
+}
+
+function toParsedTrigger(trigger: JenkinsTrigger): ParsedTrigger {
+  switch (trigger.type) {
+    case 'cron':
+    case 'parameterizedCron':
+      return { type: 'schedule', ...(trigger.value !== undefined ? { schedule: trigger.value } : {}) };
+    case 'pollSCM':
+    case 'githubPush':
+    case 'bitbucketPush':
+    case 'gitlab':
+      return { type: 'push' };
+    case 'upstream':
+    case 'GenericTrigger':
+      return { type: 'api' };
+    default:
+      return { type: trigger.type };
+  }
+}
+
+function artifactPatterns(step: JenkinsStep): string[] {
+  const match = /(?:artifacts|includes)\s*:\s*(['"])([^'"]*)\1/.exec(step.args)
+    ?? /^(['"])([^'"]*)\1/.exec(step.args.trim());
+  return match?.[2] ? match[2].split(',').map(p => p.trim()).filter(p => p !== '') : [];
+}
+
+function describeCondition(condition: JenkinsWhenCondition): string {
+  if (condition.conditions) {
+    const inner = condition.conditions.map(describeCondition);
+    return `${condition.type}(${inner.join(', ')})`;
+  }
+  return condition.value !== undefined ? `${condition.type} ${condition.value}` : condition.type;
+}
+
+// ============================================================================
+// Terraform-to-Helm Flow Detection
+// ============================================================================
+
+/**
+ * Run the crossref Terraform-to-Helm pattern detectors over the shell steps
+ * of a pipeline's stages
+ */
+export function detectJenkinsFlows(
+  pipeline: JenkinsPipeline,
+  minConfidence = 0
+): TerraformToHelmFlow[] {
+  return detectWorkflowFlows(toParsedWorkflow(pipeline), minConfidence);
+}
+
+/**
+ * Build the detection context the pattern detectors run over
+ */
+export function createDetectionContext(pipeline: JenkinsPipeline): TfHelmDetectionContext {
+  return createWorkflowDetectionContext(toParsedWorkflow(pipeline));
+}
@@ -0,0 +1,472 @@
+/**
+ * Groovy Block Reader
+ * @module parsers/jenkins/groovy-blocks
+ *
+ * Splits Jenkinsfile Groovy into nested blocks (`name(args) { ... }`) and
+ * statements without evaluating it. Declarative pipelines are a fixed block
+ * structure, so this is enough to read sections, stages and steps; Groovy
+ * inside script blocks is kept as statement text.
+ *
+ * TASK-JENKINS-001: Jenkinsfile declarative pipeline parsing
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A statement: a step call, assignment or directive line
+ */
+export interface GroovyStatement {
+  readonly kind: 'statement';
+  /** Statement text with comments removed */
+  readonly text: string;
+  readonly lineStart: number;
+  readonly lineEnd: number;
+}
+
+/**
+ * A block: everything before a top-level `{` and the items inside it
+ */
+export interface GroovyBlock {
+  readonly kind: 'block';
+  /** Leading identifier of the header (e.g. stage, withCredentials, if) */
+  readonly name: string;
+  /** Header arguments without the surrounding parentheses */
+  readonly args: string;
+  readonly header: string;
+  readonly body: readonly GroovyItem[];
+  readonly lineStart: number;
+  readonly lineEnd: number;
+}
+
+export type GroovyItem = GroovyStatement | GroovyBlock;
+
+export interface GroovyReadError {
+  readonly message: string;
+  readonly line: number;
+  readonly code: 'UNTERMINATED_STRING' | 'UNBALANCED_BRACES';
+}
+
+export interface GroovyReadResult {
+  readonly items: readonly GroovyItem[];
+  readonly errors: readonly GroovyReadError[];
+}
+
+/**
+ * A call split into its name and arguments
+ */
+export interface GroovyCall {
+  /** Leading (possibly dotted) identifier; empty when the text has none */
+  readonly name: string;
+  /** Arguments, without parentheses when they were parenthesised */
+  readonly args: string;
+  /** Text after parenthesised arguments (e.g. `.trim()`) */
+  readonly rest: string;
+}
+
+/**
+ * Call arguments split at top-level commas
+ */
+export interface GroovyArguments {
+  readonly positional: readonly string[];
+  readonly named: Readonly<Record<string, string>>;
+}
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+const QUOTES = new Set(["'", '"']);
+
+/** A statement continues on the next line after these */
+const CONTINUATION_END = /[,=+&|?([]$/;
+
+class GroovyReader {
+  private readonly src: string;
+  private pos = 0;
+  private line = 1;
+  readonly errors: GroovyReadError[] = [];
+
+  constructor(src: string) {
+    this.src = src;
+  }
+
+  readItems(closing: boolean, openLine = 1): GroovyItem[] {
+    const items: GroovyItem[] = [];
+
+    for (;;) {
+      this.skipSeparators();
+      if (this.pos >= this.src.length) {
+        if (closing) {
+          this.errors.push({ message: 'Block opened here is never closed', line: openLine, code: 'UNBALANCED_BRACES' });
+        }
+        return items;
+      }
+
+      if (this.src[this.pos] === '}') {
+        this.pos++;
+        if (closing) {
+          return items;
+        }
+        this.errors.push({ message: 'Unexpected }', line: this.line, code: 'UNBALANCED_BRACES' });
+        continue;
+      }
+
+      const item = this.readItem();
+      if (item) {
+        items.push(item);
+      }
+    }
+  }
+
+  private readItem(): GroovyItem | null {
+    const start = this.pos;
+    const lineStart = this.line;
+    let depth = 0;
+
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos] as string;
+
+      if (QUOTES.has(ch)) {
+        this.skipString();
+        continue;
+      }
+
+      if (ch === '(' || ch === '[') {
+        depth++;
+      } else if (ch === ')' || ch === ']') {
+        depth = Math.max(0, depth - 1);
+      } else if (depth === 0) {
+        if (ch === '{') {
+          const header = this.src.slice(start, this.pos).trim();
+          this.pos++;
+          const body = this.readItems(true, lineStart);
+          const call = splitCall(header);
+          return {
+            kind: 'block',
+            name: call.name,
+            args: call.args,
+            header,
+            body,
+            lineStart,
+            lineEnd: this.line,
+          };
+        }
+        if (ch === '}' || ch === ';') {
+          break;
+        }
+        if (ch === '\n' && !this.continuesAfter(start)) {
+          break;
+        }
+      }
+
+      if (ch === '\n') {
+        this.line++;
+      }
+      this.pos++;
+    }
+
+    const text = this.src.slice(start, this.pos).trim();
+    return text === '' ? null : { kind: 'statement', text, lineStart, lineEnd: this.line };
+  }
+
+  /**
+   * Whether the statement starting at `start` continues past the newline at
+   * the current position: a trailing operator or comma, or a next line that
+   * starts a method chain or the block of this header
+   */
+  private continuesAfter(start: number): boolean {
+    if (CONTINUATION_END.test(this.src.slice(start, this.pos).trimEnd())) {
+      return true;
+    }
+    const next = /^\s*(\S)(\S)?/.exec(this.src.slice(this.pos));
+    return next?.[1] === '{' || (next?.[1] === '.' && next[2] !== '.');
+  }
+
+  private skipSeparators(): void {
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos] as string;
+      if (ch === '\n') {
+        this.line++;
+      } else if (!/[\s;]/.test(ch)) {
+        return;
+      }
+      this.pos++;
+    }
+  }
+
+  /**
+   * Skip a string literal starting at the current position, including
+   * `${...}` interpolations of double-quoted strings
+   */
+  private skipString(): void {
+    const quote = this.src[this.pos] as string;
+    const lineStart = this.line;
+    const triple = this.src.startsWith(quote.repeat(3), this.pos);
+    this.pos += triple ? 3 : 1;
+
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos] as string;
+
+      if (ch === '\\') {
+        if (this.src[this.pos + 1] === '\n') {
+          this.line++;
+        }
+        this.pos += 2;
+        continue;
+      }
+      if (ch === '\n') {
+        if (!triple) {
+          break;
+        }
+        this.line++;
+      }
+      if (quote === '"' && ch === '$' && this.src[this.pos + 1] === '{') {
+        this.skipInterpolation();
+        continue;
+      }
+      if (triple ? this.src.startsWith(quote.repeat(3), this.pos) : ch === quote) {
+        this.pos += triple ? 3 : 1;
+        return;
+      }
+      this.pos++;
+    }
+
+    this.errors.push({ message: 'Unterminated string literal', line: lineStart, code: 'UNTERMINATED_STRING' });
+  }
+
+  private skipInterpolation(): void {
+    let depth = 0;
+    while (this.pos < this.src.length) {
+      const ch = this.src[this.pos] as string;
+      if (QUOTES.has(ch)) {
+        this.skipString();
+        continue;
+      }
+      if (ch === '\n') {
+        this.line++;
+      } else if (ch === '{') {
+        depth++;
+      } else if (ch === '}') {
+        depth--;
+        if (depth === 0) {
+          this.pos++;
+          return;
+        }
+      }
+      this.pos++;
+    }
+  }
+}
+
+/**
+ * Read Groovy source into blocks and statements
+ */
+export function readGroovyBlocks(content: string): GroovyReadResult {
+  const reader = new GroovyReader(blankComments(content));
+  const items = reader.readItems(false);
+  return { items, errors: reader.errors };
+}
+
+/**
+ * Replace comments with spaces, keeping newlines so line numbers hold
+ */
+export function blankComments(content: string): string {
+  let result = '';
+  let i = 0;
+
+  while (i < content.length) {
+    const ch = content[i] as string;
+
+    if (QUOTES.has(ch)) {
+      const end = findStringEnd(content, i);
+      result += content.slice(i, end);
+      i = end;
+      continue;
+    }
+
+    if (ch === '/' && content[i + 1] === '/') {
+      const end = content.indexOf('\n', i);
+      const stop = end === -1 ? content.length : end;
+      result += ' '.repeat(stop - i);
+      i = stop;
+      continue;
+    }
+
+    if (ch === '/' && content[i + 1] === '*') {
+      const end = content.indexOf('*/', i + 2);
+      const stop = end === -1 ? content.length : end + 2;
+      result += content.slice(i, stop).replace(/[^\n]/g, ' ');
+      i = stop;
+      continue;
+    }
+
+    result += ch;
+    i++;
+  }
+
+  return result;
+}
+
+function findStringEnd(content: string, start: number): number {
+  const quote = content[start] as string;
+  const triple = content.startsWith(quote.repeat(3), start);
+  let i = start + (triple ? 3 : 1);
+
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === '\\') {
+      i += 2;
+      continue;
+    }
+    if (!triple && ch === '\n') {
+      return i;
+    }
+    if (quote === '"' && ch === '$' && content[i + 1] === '{') {
+      i = findClosing(content, i + 1) + 1;
+      continue;
+    }
+    if (triple ? content.startsWith(quote.repeat(3), i) : ch === quote) {
+      return i + (triple ? 3 : 1);
+    }
+    i++;
+  }
+
+  return content.length;
+}
+
+// ============================================================================
+// Calls and Arguments
+// ============================================================================
+
+/**
+ * Split `name(args).rest` or `name args` into its parts
+ */
+export function splitCall(text: string): GroovyCall {
+  const trimmed = text.trim();
+  const match = /^[A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*/.exec(trimmed);
+  if (!match) {
+    return { name: '', args: trimmed, rest: '' };
+  }
+
+  const name = match[0];
+  const after = trimmed.slice(name.length).trimStart();
+  if (!after.startsWith('(')) {
+    return { name, args: after, rest: '' };
+  }
+
+  const close = findClosing(after, 0);
+  return {
+    name,
+    args: after.slice(1, close).trim(),
+    rest: after.slice(close + 1).trim(),
+  };
+}
+
+/**
+ * Split call arguments at top-level commas into positional and named ones
+ */
+export function splitArguments(args: string): GroovyArguments {
+  const positional: string[] = [];
+  const named: Record<string, string> = {};
+
+  for (const part of splitTopLevel(args, ',')) {
+    const match = /^(?:([A-Za-z_]\w*)|'([^']*)'|"([^"]*)")\s*:(?!:)\s*([\s\S]*)$/.exec(part);
+    if (match) {
+      named[match[1] ?? match[2] ?? match[3] ?? ''] = (match[4] ?? '').trim();
+    } else if (part !== '') {
+      positional.push(part);
+    }
+  }
+
+  return { positional, named };
+}
+
+/**
+ * Split text at a separator outside strings, parentheses and brackets
+ */
+export function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i] as string;
+    if (QUOTES.has(ch)) {
+      i = findStringEnd(text, i);
+      continue;
+    }
+    if ('([{'.includes(ch)) {
+      depth++;
+    } else if (')]}'.includes(ch)) {
+      depth--;
+    } else if (depth === 0 && ch === separator) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+    i++;
+  }
+
+  parts.push(text.slice(start).trim());
+  return parts.filter(part => part !== '');
+}
+
+/**
+ * The value of an expression that is a single string literal. Groovy
+ * `${...}` interpolations of double-quoted strings are kept as written.
+ */
+export function parseStringLiteral(expression: string): string | undefined {
+  const trimmed = expression.trim();
+  const quote = trimmed[0];
+  if (quote === undefined || !QUOTES.has(quote) || findStringEnd(trimmed, 0) !== trimmed.length) {
+    return undefined;
+  }
+
+  const triple = trimmed.startsWith(quote.repeat(3)) && trimmed.length >= 6;
+  const inner = triple ? trimmed.slice(3, -3) : trimmed.slice(1, -1);
+  const unescaped = inner.replace(/\\(['"\\$])/g, '$1').replace(/\\\n/g, '');
+  return triple ? unescaped.replace(/^\n/, '') : unescaped;
+}
+
+/**
+ * The strings of a list literal (`['a', 'b']`) or of a single string
+ */
+export function parseStringList(expression: string): string[] {
+  const trimmed = expression.trim();
+  const single = parseStringLiteral(trimmed);
+  if (single !== undefined) {
+    return [single];
+  }
+  if (!trimmed.startsWith('[') || !trimmed.endsWith(']')) {
+    return [];
+  }
+  return splitTopLevel(trimmed.slice(1, -1), ',')
+    .map(parseStringLiteral)
+    .filter((value): value is string => value !== undefined);
+}
+
+function findClosing(text: string, open: number): number {
+  let depth = 0;
+  let i = open;
+
+  while (i < text.length) {
+    const ch = text[i] as string;
+    if (QUOTES.has(ch)) {
+      i = findStringEnd(text, i);
+      continue;
+    }
+    if ('([{'.includes(ch)) {
+      depth++;
+    } else if (')]}'.includes(ch)) {
+      depth--;
+      if (depth === 0) {
+        return i;
+      }
+    }
+    i++;
+  }
+
+  return text.length;
+}
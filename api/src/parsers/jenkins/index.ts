@@ -0,0 +1,43 @@
+/**
+ * Jenkinsfile Parser Module
+ * @module parsers/jenkins
+ *
+ * Exports all Jenkinsfile parsing types and utilities.
+ *
+ * TASK-JENKINS-001: Jenkinsfile declarative pipeline parsing
+ */
+
+// Types
+export * from './types.js';
+
+// Groovy Block Reading
+export {
+  readGroovyBlocks,
+  blankComments,
+  splitCall,
+  splitArguments,
+  splitTopLevel,
+  parseStringLiteral,
+  parseStringList,
+  type GroovyItem,
+  type GroovyBlock,
+  type GroovyStatement,
+  type GroovyCall,
+  type GroovyArguments,
+  type GroovyReadError,
+  type GroovyReadResult,
+} from './groovy-blocks.js';
+
+// Crossref Adapter
+export {
+  toParsedWorkflow,
+  detectJenkinsFlows,
+  createDetectionContext as createJenkinsDetectionContext,
+} from './crossref-adapter.js';
+
+// Jenkinsfile Parser
+export {
+  JenkinsfileParser,
+  createJenkinsfileParser,
+  parseJenkinsfile,
+} from './jenkinsfile-parser.js';
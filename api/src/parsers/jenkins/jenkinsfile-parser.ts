@@ -0,0 +1,670 @@
+/**
+ * Jenkinsfile Parser
+ * @module parsers/jenkins/jenkinsfile-parser
+ *
+ * Parses declarative Jenkinsfiles (`pipeline { stages { stage { steps } } }`)
+ * into stages with their agent, environment, when conditions and steps,
+ * including parallel and nested sequential stages and shared-library
+ * references. Stages become PIPELINE_JOB nodes and sh steps are run through
+ * the crossref Terraform-to-Helm pattern detectors.
+ *
+ * TASK-JENKINS-001: Jenkinsfile declarative pipeline parsing
+ */
+
+import { createPipelineNodes } from '../crossref/pipeline-node.js';
+import { detectJenkinsFlows, toParsedWorkflow } from './crossref-adapter.js';
+import {
+  parseStringList,
+  parseStringLiteral,
+  readGroovyBlocks,
+  splitArguments,
+  splitCall,
+  type GroovyBlock,
+  type GroovyItem,
+  type GroovyStatement,
+} from './groovy-blocks.js';
+import {
+  DEFAULT_JENKINS_PARSER_OPTIONS,
+  JENKINS_STAGE_SEPARATOR,
+  isJenkinsShellStep,
+  isJenkinsfilePath,
+  type JenkinsAgent,
+  type JenkinsParseError,
+  type JenkinsParseResult,
+  type JenkinsParserOptions,
+  type JenkinsPipeline,
+  type JenkinsSharedLibrary,
+  type JenkinsStage,
+  type JenkinsStep,
+  type JenkinsTrigger,
+  type JenkinsWhenCondition,
+} from './types.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParserOptions,
+} from '../base/parser.js';
+
+/**
+ * Directives a stage passes down to the stages nested in it
+ */
+interface StageScope {
+  readonly parents: readonly string[];
+  readonly parallelGroup?: string;
+  readonly agent?: JenkinsAgent;
+  readonly environment: Readonly<Record<string, string>>;
+  readonly credentials: Readonly<Record<string, string>>;
+  readonly when: readonly JenkinsWhenCondition[];
+}
+
+/**
+ * Wrappers around steps (dir, withEnv) that change how they run
+ */
+interface StepScope {
+  readonly workingDirectory?: string;
+  readonly env?: Readonly<Record<string, string>>;
+}
+
+type Warn = (code: JenkinsParseError['code'], message: string, line?: number) => void;
+
+/** when options that are not conditions */
+const WHEN_OPTIONS = new Set(['beforeAgent', 'beforeInput', 'beforeOptions']);
+
+/** Groovy keywords that start statements rather than step calls */
+const GROOVY_KEYWORDS = new Set([
+  'def', 'return', 'if', 'else', 'for', 'while', 'try', 'catch', 'finally',
+  'throw', 'import', 'switch', 'case', 'break', 'continue', 'assert', 'new',
+]);
+
+// ============================================================================
+// Jenkinsfile Parser
+// ============================================================================
+
+/**
+ * Parser for declarative Jenkinsfiles.
+ */
+export class JenkinsfileParser extends BaseParser<JenkinsParseResult> {
+  readonly name = 'jenkinsfile-parser';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['Jenkinsfile', '.jenkinsfile', '.groovy'] as const;
+  readonly supportedMimeTypes = ['text/x-groovy'] as const;
+
+  private readonly jenkinsOptions: Required<JenkinsParserOptions>;
+
+  constructor(options?: ParserOptions & Partial<JenkinsParserOptions>) {
+    super(options);
+    this.jenkinsOptions = { ...DEFAULT_JENKINS_PARSER_OPTIONS, ...options };
+  }
+
+  /**
+   * Check if this parser can handle the given file.
+   * With content, requires a declarative pipeline block; scripted
+   * pipelines (`node { ... }`) are not supported.
+   */
+  override canParse(filePath: string, content?: string): boolean {
+    const isGroovy = filePath.toLowerCase().endsWith('.groovy');
+    if (!isJenkinsfilePath(filePath) && !isGroovy) {
+      return false;
+    }
+    if (content === undefined) {
+      return !isGroovy;
+    }
+    return /^\s*pipeline\s*\{/m.test(content);
+  }
+
+  /**
+   * Parse Jenkinsfile content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    _options: Required<ParserOptions>
+  ): Promise<ParseResult<JenkinsParseResult>> {
+    const startTime = performance.now();
+    const errors: JenkinsParseError[] = [];
+    const warnings: JenkinsParseError[] = [];
+
+    const warn: Warn = (code, message, line) => {
+      warnings.push({ message, file: filePath, ...(line !== undefined ? { line } : {}), severity: 'warning', code });
+    };
+
+    // Unbalanced braces and strings are reported but the rest is still read
+    const read = readGroovyBlocks(content);
+    for (const problem of read.errors) {
+      warn(problem.code, problem.message, problem.line);
+    }
+
+    const pipelineBlock = read.items.find(
+      (item): item is GroovyBlock => item.kind === 'block' && item.name === 'pipeline'
+    );
+    if (!pipelineBlock) {
+      errors.push({
+        message: 'Jenkinsfile has no declarative pipeline block',
+        file: filePath,
+        severity: 'error',
+        code: 'NOT_DECLARATIVE',
+      });
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: null,
+          severity: 'error' as const,
+        })),
+        null,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const pipeline = this.buildPipeline(filePath, read.items, pipelineBlock, warn);
+    const { nodes, edges } = createPipelineNodes(
+      toParsedWorkflow(pipeline),
+      this.jenkinsOptions.scanId
+    );
+    const flows = this.jenkinsOptions.detectFlows
+      ? detectJenkinsFlows(pipeline, this.jenkinsOptions.minFlowConfidence)
+      : [];
+
+    const result: JenkinsParseResult = {
+      success: true,
+      pipeline,
+      nodes,
+      edges,
+      flows,
+      errors,
+      warnings,
+      metadata: {
+        filePath,
+        parserName: this.name,
+        parserVersion: this.version,
+        parseTimeMs: performance.now() - startTime,
+        fileSize: content.length,
+        lineCount: content.split('\n').length,
+        stageCount: pipeline.stages.length,
+        stepCount: pipeline.stages.reduce((count, stage) => count + stage.steps.length, 0),
+        libraryCount: pipeline.libraries.length,
+      },
+    };
+
+    return this.createSuccess(
+      result,
+      warnings.map(w => ({
+        code: w.code,
+        message: w.message,
+        location: w.line !== undefined
+          ? this.createLocation(filePath, w.line, w.line, 0, 0)
+          : null,
+        severity: 'warning' as const,
+      })),
+      this.createMetadata(filePath, startTime, content)
+    );
+  }
+
+  // ============================================================================
+  // Pipeline Sections
+  // ============================================================================
+
+  private buildPipeline(
+    filePath: string,
+    items: readonly GroovyItem[],
+    block: GroovyBlock,
+    warn: Warn
+  ): JenkinsPipeline {
+    const libraries: JenkinsSharedLibrary[] = items
+      .filter((item): item is GroovyStatement => item.kind === 'statement')
+      .flatMap(readLibraryAnnotation);
+
+    const section = (name: string): GroovyItem | undefined =>
+      block.body.find(item =>
+        (item.kind === 'block' ? item.name : splitCall(item.text).name) === name
+      );
+    const sectionBlock = (name: string): GroovyBlock | undefined => {
+      const item = section(name);
+      return item?.kind === 'block' ? item : undefined;
+    };
+
+    const agentItem = section('agent');
+    const agent = agentItem ? readAgent(agentItem) : undefined;
+    const environmentBlock = sectionBlock('environment');
+    const { environment, credentials } = environmentBlock
+      ? readEnvironment(environmentBlock)
+      : { environment: {}, credentials: {} };
+
+    const stages: JenkinsStage[] = [];
+    const stagesBlock = sectionBlock('stages');
+    if (stagesBlock) {
+      const scope: StageScope = {
+        parents: [],
+        ...(agent !== undefined ? { agent } : {}),
+        environment,
+        credentials,
+        when: [],
+      };
+      this.readStageList(stagesBlock.body, scope, [], stages, libraries, warn);
+    }
+    if (stages.length === 0) {
+      warn('NO_STAGES', 'Pipeline has no stages with steps', (stagesBlock ?? block).lineStart);
+    }
+
+    return {
+      filePath,
+      ...(agent !== undefined ? { agent } : {}),
+      environment,
+      credentials,
+      parameters: readParameters(sectionBlock('parameters')),
+      triggers: readTriggers(sectionBlock('triggers')),
+      libraries,
+      stages,
+      postConditions: (sectionBlock('post')?.body ?? [])
+        .filter((item): item is GroovyBlock => item.kind === 'block')
+        .map(item => item.name),
+      lineStart: block.lineStart,
+      lineEnd: block.lineEnd,
+    };
+  }
+
+  // ============================================================================
+  // Stages
+  // ============================================================================
+
+  /**
+   * Read sequential stages; each depends on the stages the previous one
+   * ended with. Returns the stages the list ends with.
+   */
+  private readStageList(
+    items: readonly GroovyItem[],
+    scope: StageScope,
+    previous: readonly string[],
+    stages: JenkinsStage[],
+    libraries: JenkinsSharedLibrary[],
+    warn: Warn
+  ): readonly string[] {
+    let last = previous;
+    for (const item of items) {
+      if (item.kind === 'block' && item.name === 'stage') {
+        last = this.readStage(item, scope, last, stages, libraries, warn);
+      }
+    }
+    return last;
+  }
+
+  private readStage(
+    block: GroovyBlock,
+    scope: StageScope,
+    previous: readonly string[],
+    stages: JenkinsStage[],
+    libraries: JenkinsSharedLibrary[],
+    warn: Warn
+  ): readonly string[] {
+    const nameArg = splitArguments(block.args).positional[0] ?? '';
+    const name = parseStringLiteral(nameArg) ?? nameArg;
+    if (name === '') {
+      warn('INVALID_STAGE', 'Stage has no name', block.lineStart);
+      return previous;
+    }
+
+    const sections = new Map<string, GroovyItem>();
+    for (const item of block.body) {
+      const key = item.kind === 'block' ? item.name : splitCall(item.text).name;
+      if (!sections.has(key)) {
+        sections.set(key, item);
+      }
+    }
+    const sectionBlock = (key: string): GroovyBlock | undefined => {
+      const item = sections.get(key);
+      return item?.kind === 'block' ? item : undefined;
+    };
+
+    const id = [...scope.parents, name].join(JENKINS_STAGE_SEPARATOR);
+    const agentItem = sections.get('agent');
+    const agent = (agentItem ? readAgent(agentItem) : undefined) ?? scope.agent;
+    const own = sectionBlock('environment');
+    const ownEnvironment = own ? readEnvironment(own) : { environment: {}, credentials: {} };
+    const whenBlock = sectionBlock('when');
+
+    const childScope: StageScope = {
+      parents: [...scope.parents, name],
+      ...(agent !== undefined ? { agent } : {}),
+      environment: { ...scope.environment, ...ownEnvironment.environment },
+      credentials: { ...scope.credentials, ...ownEnvironment.credentials },
+      when: [...scope.when, ...(whenBlock ? readWhen(whenBlock.body) : [])],
+    };
+
+    const parallel = sectionBlock('parallel');
+    if (parallel) {
+      const branchScope = { ...childScope, parallelGroup: id };
+      return parallel.body
+        .filter((item): item is GroovyBlock => item.kind === 'block' && item.name === 'stage')
+        .flatMap(branch => this.readStage(branch, branchScope, previous, stages, libraries, warn));
+    }
+
+    const nested = sectionBlock('stages') ?? sectionBlock('matrix')?.body.find(
+      (item): item is GroovyBlock => item.kind === 'block' && item.name === 'stages'
+    );
+    if (nested) {
+      return this.readStageList(nested.body, childScope, previous, stages, libraries, warn);
+    }
+
+    const stepsBlock = sectionBlock('steps');
+    if (!stepsBlock) {
+      warn('INVALID_STAGE', `Stage '${id}' has no steps, parallel or stages`, block.lineStart);
+      return previous;
+    }
+
+    const steps: JenkinsStep[] = [];
+    readSteps(stepsBlock.body, {}, steps, libraries);
+
+    stages.push({
+      id,
+      name,
+      parents: scope.parents,
+      ...(scope.parallelGroup !== undefined ? { parallelGroup: scope.parallelGroup } : {}),
+      ...(agent !== undefined ? { agent } : {}),
+      environment: childScope.environment,
+      credentials: childScope.credentials,
+      when: childScope.when,
+      steps,
+      dependsOn: previous,
+      lineStart: block.lineStart,
+      lineEnd: block.lineEnd,
+    });
+
+    return [id];
+  }
+}
+
+// ============================================================================
+// Directives
+// ============================================================================
+
+/**
+ * `@Library('name@version') _` or `@Library(['a', 'b@1.0'])`
+ */
+function readLibraryAnnotation(statement: GroovyStatement): JenkinsSharedLibrary[] {
+  const libraries: JenkinsSharedLibrary[] = [];
+  for (const match of statement.text.matchAll(/@Library\s*\(([\s\S]*?)\)/g)) {
+    const args = splitArguments(match[1] ?? '');
+    const value = args.named.value ?? args.positional[0] ?? '';
+    for (const reference of parseStringList(value)) {
+      libraries.push(toLibrary(reference, false, statement.lineStart));
+    }
+  }
+  return libraries;
+}
+
+function toLibrary(reference: string, dynamic: boolean, line: number): JenkinsSharedLibrary {
+  const at = reference.indexOf('@');
+  return at === -1
+    ? { name: reference, dynamic, line }
+    : { name: reference.slice(0, at), version: reference.slice(at + 1), dynamic, line };
+}
+
+function readAgent(item: GroovyItem): JenkinsAgent | undefined {
+  if (item.kind === 'statement') {
+    const value = splitCall(item.text).args.trim();
+    if (value === 'any' || value === 'none') {
+      return { type: value };
+    }
+    const label = parseStringLiteral(value);
+    return label !== undefined ? { type: 'label', label } : undefined;
+  }
+
+  for (const entry of item.body) {
+    if (entry.kind === 'statement') {
+      const call = splitCall(entry.text);
+      if (call.name === 'label') {
+        return { type: 'label', label: parseStringLiteral(call.args) ?? call.args };
+      }
+      continue;
+    }
+
+    const settings = readSettings(entry.body);
+    switch (entry.name) {
+      case 'docker':
+        return { type: 'docker', ...(settings.image !== undefined ? { image: settings.image } : {}) };
+      case 'dockerfile':
+        return { type: 'dockerfile', ...(settings.label !== undefined ? { label: settings.label } : {}) };
+      case 'kubernetes':
+        return { type: 'kubernetes', ...(settings.label !== undefined ? { label: settings.label } : {}) };
+      case 'node':
+        return { type: 'node', ...(settings.label !== undefined ? { label: settings.label } : {}) };
+      default:
+        break;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * `key 'value'` settings of an agent block
+ */
+function readSettings(items: readonly GroovyItem[]): Record<string, string> {
+  const settings: Record<string, string> = {};
+  for (const item of items) {
+    if (item.kind === 'statement') {
+      const call = splitCall(item.text);
+      const value = parseStringLiteral(call.args);
+      if (call.name !== '' && value !== undefined) {
+        settings[call.name] = value;
+      }
+    }
+  }
+  return settings;
+}
+
+function readEnvironment(block: GroovyBlock): {
+  environment: Record<string, string>;
+  credentials: Record<string, string>;
+} {
+  const environment: Record<string, string> = {};
+  const credentials: Record<string, string> = {};
+
+  for (const item of block.body) {
+    if (item.kind !== 'statement') {
+      continue;
+    }
+    const match = /^([A-Za-z_]\w*)\s*=(?!=)\s*([\s\S]+)$/.exec(item.text);
+    if (!match?.[1] || match[2] === undefined) {
+      continue;
+    }
+
+    const [, name, expression] = match;
+    const call = splitCall(expression);
+    if (call.name === 'credentials') {
+      credentials[name] = parseStringLiteral(call.args) ?? call.args;
+      environment[name] = expression.trim();
+    } else {
+      environment[name] = parseStringLiteral(expression) ?? expression.trim();
+    }
+  }
+
+  return { environment, credentials };
+}
+
+function readWhen(items: readonly GroovyItem[]): JenkinsWhenCondition[] {
+  const conditions: JenkinsWhenCondition[] = [];
+
+  for (const item of items) {
+    if (item.kind === 'statement') {
+      const call = splitCall(item.text);
+      if (call.name !== '' && !WHEN_OPTIONS.has(call.name)) {
+        conditions.push({
+          type: call.name,
+          ...(call.args !== '' ? { value: parseStringLiteral(call.args) ?? call.args } : {}),
+        });
+      }
+    } else if (item.name === 'expression') {
+      conditions.push({ type: 'expression', value: statementText(item.body) });
+    } else {
+      conditions.push({ type: item.name, conditions: readWhen(item.body) });
+    }
+  }
+
+  return conditions;
+}
+
+function readParameters(block: GroovyBlock | undefined): string[] {
+  return (block?.body ?? []).flatMap(item => {
+    if (item.kind !== 'statement') {
+      return [];
+    }
+    const name = splitArguments(splitCall(item.text).args).named.name;
+    const value = name !== undefined ? parseStringLiteral(name) : undefined;
+    return value !== undefined ? [value] : [];
+  });
+}
+
+function readTriggers(block: GroovyBlock | undefined): JenkinsTrigger[] {
+  return (block?.body ?? []).flatMap(item => {
+    const call = item.kind === 'statement' ? splitCall(item.text) : { name: item.name, args: item.args };
+    if (call.name === '') {
+      return [];
+    }
+    const args = splitArguments(call.args);
+    const expression = args.positional[0] ?? args.named.spec ?? args.named.cronTab ?? args.named.upstreamProjects;
+    const value = expression !== undefined ? parseStringLiteral(expression) : undefined;
+    return [{ type: call.name, ...(value !== undefined ? { value } : {}) }];
+  });
+}
+
+function statementText(items: readonly GroovyItem[]): string {
+  return items
+    .map(item => (item.kind === 'statement' ? item.text : `${item.header} { ${statementText(item.body)} }`))
+    .join('; ');
+}
+
+// ============================================================================
+// Steps
+// ============================================================================
+
+/**
+ * Collect step calls, descending into script, dir, withEnv, withCredentials
+ * and other wrapper blocks
+ */
+function readSteps(
+  items: readonly GroovyItem[],
+  scope: StepScope,
+  steps: JenkinsStep[],
+  libraries: JenkinsSharedLibrary[]
+): void {
+  for (const item of items) {
+    if (item.kind === 'statement') {
+      const step = readStep(item, scope, steps.length);
+      if (!step) {
+        continue;
+      }
+      steps.push(step);
+      if (step.name === 'library') {
+        libraries.push(...readLibraryStep(step));
+      }
+      continue;
+    }
+
+    const args = splitArguments(item.args);
+    if (item.name === 'dir') {
+      const dir = parseStringLiteral(args.positional[0] ?? args.named.path ?? '');
+      const workingDirectory = dir === undefined
+        ? scope.workingDirectory
+        : scope.workingDirectory !== undefined && !dir.startsWith('/')
+          ? `${scope.workingDirectory}/${dir}`
+          : dir;
+      readSteps(item.body, { ...scope, ...(workingDirectory !== undefined ? { workingDirectory } : {}) }, steps, libraries);
+    } else if (item.name === 'withEnv') {
+      const env: Record<string, string> = { ...scope.env };
+      for (const entry of parseStringList(args.positional[0] ?? '')) {
+        const eq = entry.indexOf('=');
+        if (eq > 0) {
+          env[entry.slice(0, eq)] = entry.slice(eq + 1);
+        }
+      }
+      readSteps(item.body, { ...scope, env }, steps, libraries);
+    } else {
+      readSteps(item.body, scope, steps, libraries);
+    }
+  }
+}
+
+function readStep(statement: GroovyStatement, scope: StepScope, index: number): JenkinsStep | null {
+  const base = {
+    index,
+    ...(scope.workingDirectory !== undefined ? { workingDirectory: scope.workingDirectory } : {}),
+    ...(scope.env !== undefined ? { env: scope.env } : {}),
+    line: statement.lineStart,
+  };
+
+  // def VPC_ID = sh(script: '...', returnStdout: true).trim()
+  const assignment = /^(?:def\s+|env\.)?([A-Za-z_]\w*)\s*=(?!=)\s*([\s\S]+)$/.exec(statement.text);
+  if (assignment?.[1] && assignment[2] !== undefined) {
+    const shell = /\b(sh|bat|powershell|pwsh)\s*\(/.exec(assignment[2]);
+    if (!shell) {
+      return null;
+    }
+    const call = splitCall(assignment[2].slice(shell.index));
+    const script = readScript(call.args);
+    return {
+      ...base,
+      name: call.name,
+      args: call.args,
+      ...(script !== undefined ? { script } : {}),
+      assignTo: assignment[1],
+    };
+  }
+
+  const call = splitCall(statement.text);
+  if (call.name === '' || GROOVY_KEYWORDS.has(call.name)) {
+    return null;
+  }
+
+  const script = isJenkinsShellStep(call) ? readScript(call.args) : undefined;
+  return {
+    ...base,
+    name: call.name,
+    args: call.args,
+    ...(script !== undefined ? { script } : {}),
+  };
+}
+
+/**
+ * Script of `sh 'cmd'`, `sh(script: 'cmd', ...)` and friends; non-literal
+ * scripts are kept as written
+ */
+function readScript(args: string): string | undefined {
+  const parsed = splitArguments(args);
+  const expression = parsed.named.script ?? parsed.positional[0];
+  if (expression === undefined) {
+    return undefined;
+  }
+  return parseStringLiteral(expression) ?? expression;
+}
+
+function readLibraryStep(step: JenkinsStep): JenkinsSharedLibrary[] {
+  const args = splitArguments(step.args);
+  const reference = parseStringLiteral(args.named.identifier ?? args.positional[0] ?? '');
+  return reference !== undefined ? [toLibrary(reference, true, step.line)] : [];
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new Jenkinsfile parser instance
+ */
+export function createJenkinsfileParser(
+  options?: ParserOptions & Partial<JenkinsParserOptions>
+): JenkinsfileParser {
+  return new JenkinsfileParser(options);
+}
+
+/**
+ * Parse Jenkinsfile content directly
+ */
+export async function parseJenkinsfile(
+  content: string,
+  filePath: string,
+  options?: ParserOptions & Partial<JenkinsParserOptions>
+): Promise<ParseResult<JenkinsParseResult>> {
+  const parser = createJenkinsfileParser(options);
+  return parser.parse(content, filePath, options);
+}
@@ -0,0 +1,279 @@
+/**
+ * Jenkinsfile Parser Types
+ * @module parsers/jenkins/types
+ *
+ * Type definitions for declarative Jenkinsfile parsing. Graph nodes reuse
+ * the generic PIPELINE / PIPELINE_JOB shapes from crossref/pipeline-node,
+ * with one job per stage that runs steps.
+ *
+ * TASK-JENKINS-001: Jenkinsfile declarative pipeline parsing
+ */
+
+import type {
+  JobDependsOnEdge,
+  PipelineContainsEdge,
+  PipelineJobNode,
+  PipelineNode,
+} from '../crossref/pipeline-node.js';
+import type { TerraformToHelmFlow } from '../crossref/types.js';
+
+// ============================================================================
+// Pipeline Types
+// ============================================================================
+
+/**
+ * Shared library loaded with `@Library` or the `library` step
+ */
+export interface JenkinsSharedLibrary {
+  /** Library name as configured on the controller */
+  readonly name: string;
+  /** Branch, tag or commit after `@`; absent for the configured default */
+  readonly version?: string;
+  /** Loaded at runtime with the `library` step rather than `@Library` */
+  readonly dynamic: boolean;
+  readonly line: number;
+}
+
+/**
+ * Agent a pipeline or stage runs on
+ */
+export interface JenkinsAgent {
+  readonly type: 'any' | 'none' | 'label' | 'node' | 'docker' | 'dockerfile' | 'kubernetes';
+  readonly label?: string;
+  /** Image of a docker agent */
+  readonly image?: string;
+}
+
+/**
+ * Condition of a `when` directive
+ */
+export interface JenkinsWhenCondition {
+  /** Condition name (branch, environment, expression, allOf, not, ...) */
+  readonly type: string;
+  /** Condition arguments as written */
+  readonly value?: string;
+  /** Nested conditions of allOf / anyOf / not */
+  readonly conditions?: readonly JenkinsWhenCondition[];
+}
+
+/**
+ * A step call inside a stage's steps block
+ */
+export interface JenkinsStep {
+  /** Index within the stage, in source order */
+  readonly index: number;
+  /** Step name (sh, bat, archiveArtifacts, build, or a shared-library step) */
+  readonly name: string;
+  /** Arguments as written */
+  readonly args: string;
+  /** Script of sh / bat / powershell / pwsh steps */
+  readonly script?: string;
+  /** Directory from enclosing dir() blocks */
+  readonly workingDirectory?: string;
+  /** Variables from enclosing withEnv() blocks */
+  readonly env?: Readonly<Record<string, string>>;
+  /** Variable the step's returned stdout is assigned to */
+  readonly assignTo?: string;
+  readonly line: number;
+}
+
+/**
+ * A stage that runs steps. Stages grouping parallel or nested sequential
+ * stages are not jobs themselves; their directives apply to their children.
+ */
+export interface JenkinsStage {
+  /** Stage names from the outermost stage, joined with '/' */
+  readonly id: string;
+  readonly name: string;
+  /** Names of the enclosing stages, outermost first */
+  readonly parents: readonly string[];
+  /** ID of the stage whose parallel block this stage is a branch of */
+  readonly parallelGroup?: string;
+  readonly agent?: JenkinsAgent;
+  /** Environment of the pipeline and enclosing stages, then the stage's own */
+  readonly environment: Readonly<Record<string, string>>;
+  /** Credential IDs bound with credentials(), by environment variable */
+  readonly credentials: Readonly<Record<string, string>>;
+  readonly when: readonly JenkinsWhenCondition[];
+  readonly steps: readonly JenkinsStep[];
+  /** Stages that complete before this one starts */
+  readonly dependsOn: readonly string[];
+  readonly lineStart: number;
+  readonly lineEnd: number;
+}
+
+/**
+ * Pipeline trigger from the triggers directive
+ */
+export interface JenkinsTrigger {
+  /** cron, pollSCM, upstream, githubPush, ... */
+  readonly type: string;
+  readonly value?: string;
+}
+
+/**
+ * A parsed declarative pipeline
+ */
+export interface JenkinsPipeline {
+  readonly filePath: string;
+  readonly agent?: JenkinsAgent;
+  readonly environment: Readonly<Record<string, string>>;
+  readonly credentials: Readonly<Record<string, string>>;
+  readonly parameters: readonly string[];
+  readonly triggers: readonly JenkinsTrigger[];
+  readonly libraries: readonly JenkinsSharedLibrary[];
+  /** Stages that run steps, in source order */
+  readonly stages: readonly JenkinsStage[];
+  /** Conditions of the post section (always, success, failure, ...) */
+  readonly postConditions: readonly string[];
+  readonly lineStart: number;
+  readonly lineEnd: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Steps that run a script */
+export const JENKINS_SHELL_STEPS = ['sh', 'bat', 'powershell', 'pwsh'] as const;
+
+/** Separator of stage IDs of nested stages */
+export const JENKINS_STAGE_SEPARATOR = '/';
+
+// ============================================================================
+// Parse Result Types
+// ============================================================================
+
+/**
+ * Jenkinsfile parse error codes
+ */
+export type JenkinsParseErrorCode =
+  | 'NOT_DECLARATIVE'
+  | 'UNTERMINATED_STRING'
+  | 'UNBALANCED_BRACES'
+  | 'NO_STAGES'
+  | 'INVALID_STAGE';
+
+/**
+ * Jenkinsfile parse error or warning
+ */
+export interface JenkinsParseError {
+  readonly message: string;
+  readonly file: string;
+  readonly line?: number;
+  readonly severity: 'error' | 'warning';
+  readonly code: JenkinsParseErrorCode;
+}
+
+/**
+ * Parse metadata for a Jenkinsfile
+ */
+export interface JenkinsParseMetadata {
+  readonly filePath: string;
+  readonly parserName: string;
+  readonly parserVersion: string;
+  readonly parseTimeMs: number;
+  readonly fileSize: number;
+  readonly lineCount: number;
+  readonly stageCount: number;
+  readonly stepCount: number;
+  readonly libraryCount: number;
+}
+
+/**
+ * Result of parsing a Jenkinsfile
+ */
+export interface JenkinsParseResult {
+  readonly success: boolean;
+  readonly pipeline: JenkinsPipeline;
+  /** Pipeline node followed by one job node per stage */
+  readonly nodes: readonly (PipelineNode | PipelineJobNode)[];
+  readonly edges: readonly (PipelineContainsEdge | JobDependsOnEdge)[];
+  /** Terraform-to-Helm flows found by the crossref pattern detectors */
+  readonly flows: readonly TerraformToHelmFlow[];
+  readonly errors: readonly JenkinsParseError[];
+  readonly warnings: readonly JenkinsParseError[];
+  readonly metadata: JenkinsParseMetadata;
+}
+
+// ============================================================================
+// Parser Options
+// ============================================================================
+
+/**
+ * Jenkinsfile parser options
+ */
+export interface JenkinsParserOptions {
+  /** Run the crossref Terraform-to-Helm pattern detectors over sh steps */
+  readonly detectFlows?: boolean;
+  /** Minimum confidence of reported flows (0-100) */
+  readonly minFlowConfidence?: number;
+  /** Scan ID recorded on graph nodes */
+  readonly scanId?: string;
+}
+
+/**
+ * Default Jenkinsfile parser options
+ */
+export const DEFAULT_JENKINS_PARSER_OPTIONS: Required<JenkinsParserOptions> = {
+  detectFlows: true,
+  minFlowConfidence: 0,
+  scanId: '',
+};
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Check whether a path names a Jenkinsfile (Jenkinsfile, Jenkinsfile.deploy,
+ * deploy.jenkinsfile, deploy.Jenkinsfile)
+ */
+export function isJenkinsfilePath(filePath: string): boolean {
+  const name = filePath.replace(/\\/g, '/').split('/').pop() ?? '';
+  return /^jenkinsfile(\..+)?$/i.test(name) || /\.jenkinsfile$/i.test(name);
+}
+
+/**
+ * Whether a step runs a script
+ */
+export function isJenkinsShellStep(step: Pick<JenkinsStep, 'name'>): boolean {
+  return (JENKINS_SHELL_STEPS as readonly string[]).includes(step.name);
+}
+
+/**
+ * Create an empty parse result
+ */
+export function createEmptyJenkinsParseResult(filePath: string): JenkinsParseResult {
+  return {
+    success: true,
+    pipeline: {
+      filePath,
+      environment: {},
+      credentials: {},
+      parameters: [],
+      triggers: [],
+      libraries: [],
+      stages: [],
+      postConditions: [],
+      lineStart: 1,
+      lineEnd: 1,
+    },
+    nodes: [],
+    edges: [],
+    flows: [],
+    errors: [],
+    warnings: [],
+    metadata: {
+      filePath,
+      parserName: 'jenkinsfile-parser',
+      parserVersion: '1.0.0',
+      parseTimeMs: 0,
+      fileSize: 0,
+      lineCount: 0,
+      stageCount: 0,
+      stepCount: 0,
+      libraryCount: 0,
+    },
+  };
+}
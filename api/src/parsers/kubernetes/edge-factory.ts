@@ -0,0 +1,469 @@
+/**
+ * Kubernetes Edge Factory
+ * @module parsers/kubernetes/edge-factory
+ *
+ * Builds dependency edges between Kubernetes nodes:
+ * - service_target: Service -> workload (label selector)
+ * - selector_match: NetworkPolicy -> workload (pod selector)
+ * - ingress_backend: Ingress -> Service
+ * - configmap_ref / secret_ref: workload -> ConfigMap/Secret (envFrom, env, volumes)
+ * - volume_mount: workload -> PersistentVolumeClaim
+ * - rbac_binding: (Cluster)RoleBinding -> (Cluster)Role and -> ServiceAccount
+ * - namespace_member: namespaced object -> Namespace
+ *
+ * Edges are only created when both ends are present in the supplied node set,
+ * so the factory can be run per file or across every manifest in a scan.
+ *
+ * TASK-K8S-001: Kubernetes manifest parsing for dependency detection
+ */
+
+import {
+  createK8sNodeId,
+  getPodTemplateInfo,
+  isK8sWorkloadNode,
+  type K8sNode,
+} from './types.js';
+
+import type {
+  EdgeType,
+  GraphEdge,
+  K8sClusterRoleBindingNode,
+  K8sIngressNode,
+  K8sNetworkPolicyNode,
+  K8sPersistentVolumeClaimNode,
+  K8sRoleBindingNode,
+  K8sServiceNode,
+  K8sStatefulSetNode,
+} from '../../types/graph.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Options for Kubernetes edge creation
+ */
+export interface K8sEdgeFactoryOptions {
+  /** Create namespace_member edges to Namespace nodes */
+  readonly includeNamespaceEdges?: boolean;
+  /** Create selector_match edges for NetworkPolicies with an empty podSelector */
+  readonly includeEmptySelectorMatches?: boolean;
+}
+
+const DEFAULT_EDGE_FACTORY_OPTIONS: Required<K8sEdgeFactoryOptions> = {
+  includeNamespaceEdges: true,
+  includeEmptySelectorMatches: false,
+};
+
+/**
+ * Node lookup indexed by node ID
+ */
+type NodeIndex = ReadonlyMap<string, K8sNode>;
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create edges between Kubernetes nodes.
+ *
+ * @param nodes - All Kubernetes nodes to link
+ * @param options - Edge factory options
+ * @returns Deduplicated edges
+ */
+export function createK8sEdges(
+  nodes: readonly K8sNode[],
+  options: K8sEdgeFactoryOptions = {}
+): GraphEdge[] {
+  const opts = { ...DEFAULT_EDGE_FACTORY_OPTIONS, ...options };
+  const index: NodeIndex = new Map(nodes.map(n => [n.id, n]));
+  const edges = new Map<string, GraphEdge>();
+
+  const add = (edge: GraphEdge | null): void => {
+    if (edge && !edges.has(edge.id)) {
+      edges.set(edge.id, edge);
+    }
+  };
+
+  const workloads = nodes.filter(isK8sWorkloadNode);
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'k8s_service':
+        for (const edge of createServiceTargetEdges(node, workloads)) {
+          add(edge);
+        }
+        break;
+      case 'k8s_networkpolicy':
+        for (const edge of createNetworkPolicyEdges(node, workloads, opts.includeEmptySelectorMatches)) {
+          add(edge);
+        }
+        break;
+      case 'k8s_ingress':
+        for (const edge of createIngressEdges(node, index)) {
+          add(edge);
+        }
+        break;
+      case 'k8s_rolebinding':
+      case 'k8s_clusterrolebinding':
+        for (const edge of createRbacEdges(node, index)) {
+          add(edge);
+        }
+        break;
+      case 'k8s_statefulset':
+        add(createStatefulSetServiceEdge(node, index));
+        break;
+      case 'k8s_persistentvolumeclaim':
+        for (const edge of createClaimEdges(node, index)) {
+          add(edge);
+        }
+        break;
+      default:
+        break;
+    }
+
+    if (isK8sWorkloadNode(node)) {
+      for (const edge of createWorkloadEdges(node, index)) {
+        add(edge);
+      }
+    }
+
+    if (opts.includeNamespaceEdges) {
+      add(createNamespaceEdge(node, index));
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Check whether a label selector matches a label set.
+ * An empty selector matches nothing, mirroring Service semantics.
+ */
+export function selectorMatches(
+  selector: Readonly<Record<string, string>>,
+  labels: Readonly<Record<string, string>>
+): boolean {
+  const entries = Object.entries(selector);
+  if (entries.length === 0) {
+    return false;
+  }
+  return entries.every(([key, value]) => labels[key] === value);
+}
+
+/**
+ * Build the deterministic ID for a Kubernetes edge
+ */
+export function createK8sEdgeId(type: EdgeType, source: string, target: string): string {
+  return `${type}:${source}->${target}`;
+}
+
+// ============================================================================
+// Edge Builders
+// ============================================================================
+
+function createServiceTargetEdges(
+  service: K8sServiceNode,
+  workloads: readonly K8sNode[]
+): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+
+  for (const workload of workloads) {
+    const pod = getPodTemplateInfo(workload);
+    if (!pod || namespaceOf(workload) !== service.namespace) {
+      continue;
+    }
+    if (selectorMatches(service.selector, pod.podLabels)) {
+      edges.push(createEdge('service_target', service, workload, {
+        attribute: 'spec.selector',
+        confidence: 90,
+        implicit: true,
+        description: `Service selector ${formatSelector(service.selector)} matches pod labels of ${workload.id}`,
+      }));
+    }
+  }
+
+  return edges;
+}
+
+function createNetworkPolicyEdges(
+  policy: K8sNetworkPolicyNode,
+  workloads: readonly K8sNode[],
+  includeEmpty: boolean
+): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+  const emptySelector = Object.keys(policy.podSelector).length === 0;
+
+  if (emptySelector && !includeEmpty) {
+    return edges;
+  }
+
+  for (const workload of workloads) {
+    const pod = getPodTemplateInfo(workload);
+    if (!pod || namespaceOf(workload) !== policy.namespace) {
+      continue;
+    }
+    if (emptySelector || selectorMatches(policy.podSelector, pod.podLabels)) {
+      edges.push(createEdge('selector_match', policy, workload, {
+        attribute: 'spec.podSelector',
+        confidence: emptySelector ? 60 : 85,
+        implicit: true,
+        description: emptySelector
+          ? `NetworkPolicy with empty podSelector applies to every pod in ${policy.namespace ?? 'namespace'}`
+          : `NetworkPolicy podSelector ${formatSelector(policy.podSelector)} matches ${workload.id}`,
+      }));
+    }
+  }
+
+  return edges;
+}
+
+function createIngressEdges(ingress: K8sIngressNode, index: NodeIndex): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+
+  for (const rule of ingress.rules) {
+    for (const path of rule.paths) {
+      const target = index.get(createK8sNodeId('Service', path.serviceName, ingress.namespace));
+      if (target) {
+        edges.push(createEdge('ingress_backend', ingress, target, {
+          attribute: `${rule.host ?? '*'}${path.path}`,
+          confidence: 95,
+          implicit: false,
+          description: `Ingress routes ${rule.host ?? '*'}${path.path} to service ${path.serviceName}:${path.servicePort}`,
+        }));
+      }
+    }
+  }
+
+  for (const tls of ingress.tls) {
+    const target = index.get(createK8sNodeId('Secret', tls.secretName, ingress.namespace));
+    if (target) {
+      edges.push(createEdge('secret_ref', ingress, target, {
+        attribute: 'spec.tls.secretName',
+        confidence: 95,
+        implicit: false,
+        description: `Ingress TLS uses secret ${tls.secretName}`,
+      }));
+    }
+  }
+
+  return edges;
+}
+
+function createRbacEdges(
+  binding: K8sRoleBindingNode | K8sClusterRoleBindingNode,
+  index: NodeIndex
+): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+  const bindingNamespace = binding.type === 'k8s_rolebinding' ? binding.namespace : undefined;
+
+  const role = index.get(createK8sNodeId(binding.roleRef.kind, binding.roleRef.name, bindingNamespace));
+  if (role) {
+    edges.push(createEdge('rbac_binding', binding, role, {
+      attribute: 'roleRef',
+      confidence: 100,
+      implicit: false,
+      description: `${binding.name} binds ${binding.roleRef.kind} ${binding.roleRef.name}`,
+    }));
+  }
+
+  for (const subject of binding.subjects) {
+    if (subject.kind !== 'ServiceAccount') {
+      continue;
+    }
+    const namespace = subject.namespace ?? bindingNamespace;
+    const account = index.get(createK8sNodeId('ServiceAccount', subject.name, namespace));
+    if (account) {
+      edges.push(createEdge('rbac_binding', binding, account, {
+        attribute: 'subjects',
+        confidence: 100,
+        implicit: false,
+        description: `${binding.name} grants ${binding.roleRef.name} to service account ${subject.name}`,
+      }));
+    }
+  }
+
+  return edges;
+}
+
+function createWorkloadEdges(workload: K8sNode, index: NodeIndex): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+  const pod = getPodTemplateInfo(workload);
+  const namespace = namespaceOf(workload);
+  const containers = getContainers(workload);
+
+  const link = (
+    type: EdgeType,
+    kind: string,
+    name: string,
+    attribute: string,
+    description: string
+  ): void => {
+    const target = index.get(createK8sNodeId(kind, name, namespace));
+    if (target) {
+      edges.push(createEdge(type, workload, target, {
+        attribute,
+        confidence: 95,
+        implicit: false,
+        description,
+      }));
+    }
+  };
+
+  for (const container of containers) {
+    for (const envFrom of container.envFrom ?? []) {
+      if (envFrom.type === 'configMapRef') {
+        link('configmap_ref', 'ConfigMap', envFrom.name, 'envFrom',
+          `Container ${container.name} loads env from ConfigMap ${envFrom.name}`);
+      } else {
+        link('secret_ref', 'Secret', envFrom.name, 'envFrom',
+          `Container ${container.name} loads env from Secret ${envFrom.name}`);
+      }
+    }
+  }
+
+  if (!pod) {
+    return edges;
+  }
+
+  for (const ref of pod.envKeyRefs) {
+    link(ref.kind === 'ConfigMap' ? 'configmap_ref' : 'secret_ref', ref.kind, ref.name, `env.${ref.envVar}`,
+      `Container ${ref.container} reads ${ref.kind} ${ref.name} key ${ref.key} into ${ref.envVar}`);
+  }
+
+  for (const volume of pod.volumes) {
+    for (const ref of volume.refs) {
+      const type: EdgeType = ref.kind === 'ConfigMap'
+        ? 'configmap_ref'
+        : ref.kind === 'Secret' ? 'secret_ref' : 'volume_mount';
+      link(type, ref.kind, ref.name, `volumes.${volume.name}`,
+        `Volume ${volume.name} mounts ${ref.kind} ${ref.name}`);
+    }
+  }
+
+  for (const secret of pod.imagePullSecrets) {
+    link('secret_ref', 'Secret', secret, 'imagePullSecrets', `Pods pull images using Secret ${secret}`);
+  }
+
+  if (pod.serviceAccountName !== undefined) {
+    link('references', 'ServiceAccount', pod.serviceAccountName, 'serviceAccountName',
+      `Pods run as service account ${pod.serviceAccountName}`);
+  }
+
+  return edges;
+}
+
+function createStatefulSetServiceEdge(statefulSet: K8sStatefulSetNode, index: NodeIndex): GraphEdge | null {
+  if (statefulSet.serviceName === '') {
+    return null;
+  }
+  const service = index.get(createK8sNodeId('Service', statefulSet.serviceName, statefulSet.namespace));
+  if (!service) {
+    return null;
+  }
+  return createEdge('references', statefulSet, service, {
+    attribute: 'spec.serviceName',
+    confidence: 95,
+    implicit: false,
+    description: `StatefulSet governed by headless service ${statefulSet.serviceName}`,
+  });
+}
+
+function createClaimEdges(claim: K8sPersistentVolumeClaimNode, index: NodeIndex): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+
+  const volumeName = claim.metadata.volumeName;
+  if (typeof volumeName === 'string') {
+    const volume = index.get(createK8sNodeId('PersistentVolume', volumeName));
+    if (volume) {
+      edges.push(createEdge('references', claim, volume, {
+        attribute: 'spec.volumeName',
+        confidence: 100,
+        implicit: false,
+        description: `Claim bound to PersistentVolume ${volumeName}`,
+      }));
+    }
+  }
+
+  if (claim.storageClass !== undefined) {
+    const storageClass = index.get(createK8sNodeId('StorageClass', claim.storageClass));
+    if (storageClass) {
+      edges.push(createEdge('references', claim, storageClass, {
+        attribute: 'spec.storageClassName',
+        confidence: 100,
+        implicit: false,
+        description: `Claim provisioned by StorageClass ${claim.storageClass}`,
+      }));
+    }
+  }
+
+  return edges;
+}
+
+function createNamespaceEdge(node: K8sNode, index: NodeIndex): GraphEdge | null {
+  const namespace = namespaceOf(node);
+  if (namespace === undefined) {
+    return null;
+  }
+  const target = index.get(createK8sNodeId('Namespace', namespace));
+  if (!target) {
+    return null;
+  }
+  return createEdge('namespace_member', node, target, {
+    attribute: 'metadata.namespace',
+    confidence: 100,
+    implicit: false,
+    description: `${node.id} lives in namespace ${namespace}`,
+  });
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface EdgeDetails {
+  readonly attribute: string;
+  readonly confidence: number;
+  readonly implicit: boolean;
+  readonly description: string;
+}
+
+function createEdge(type: EdgeType, source: K8sNode, target: K8sNode, details: EdgeDetails): GraphEdge {
+  return {
+    id: createK8sEdgeId(type, source.id, target.id),
+    source: source.id,
+    target: target.id,
+    type,
+    label: details.attribute,
+    metadata: {
+      attribute: details.attribute,
+      location: source.location,
+      implicit: details.implicit,
+      confidence: details.confidence,
+      evidence: [{
+        type: details.implicit ? 'semantic' : 'explicit',
+        description: details.description,
+        location: source.location,
+      }],
+    },
+  };
+}
+
+function namespaceOf(node: K8sNode): string | undefined {
+  return 'namespace' in node ? node.namespace : undefined;
+}
+
+function getContainers(node: K8sNode): readonly {
+  readonly name: string;
+  readonly envFrom?: readonly { readonly type: 'configMapRef' | 'secretRef'; readonly name: string }[];
+}[] {
+  if ('containers' in node) {
+    return node.containers;
+  }
+  const containers = node.metadata.containers;
+  return Array.isArray(containers) ? (containers as ReturnType<typeof getContainers>) : [];
+}
+
+function formatSelector(selector: Readonly<Record<string, string>>): string {
+  return Object.entries(selector).map(([k, v]) => `${k}=${v}`).join(',');
+}
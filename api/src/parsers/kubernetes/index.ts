@@ -0,0 +1,33 @@
+/**
+ * Kubernetes Parser Module
+ * @module parsers/kubernetes
+ *
+ * Exports all Kubernetes manifest parsing types and utilities.
+ *
+ * TASK-K8S-001: Kubernetes manifest parsing for dependency detection
+ */
+
+// Types
+export * from './types.js';
+
+// Node Factory
+export {
+  createK8sNode,
+  createK8sNodes,
+  extractPodTemplateInfo,
+} from './node-factory.js';
+
+// Edge Factory
+export {
+  createK8sEdges,
+  createK8sEdgeId,
+  selectorMatches,
+  type K8sEdgeFactoryOptions,
+} from './edge-factory.js';
+
+// Manifest Parser
+export {
+  KubernetesManifestParser,
+  createKubernetesParser,
+  parseKubernetesManifest,
+} from './manifest-parser.js';
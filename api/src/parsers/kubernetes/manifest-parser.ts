@@ -0,0 +1,320 @@
+/**
+ * Kubernetes Manifest Parser
+ * @module parsers/kubernetes/manifest-parser
+ *
+ * Parses raw Kubernetes manifests (single or multi-document YAML, including
+ * `kind: List` wrappers) into K8s* graph nodes and the edges between them.
+ *
+ * TASK-K8S-001: Kubernetes manifest parsing for dependency detection
+ */
+
+import * as yaml from 'yaml';
+
+import { createK8sEdges } from './edge-factory.js';
+import { createK8sNodes } from './node-factory.js';
+import {
+  DEFAULT_K8S_PARSER_OPTIONS,
+  isSupportedK8sKind,
+  type K8sManifest,
+  type K8sParseError,
+  type K8sParseResult,
+  type K8sParserOptions,
+} from './types.js';
+import { isKustomizationPath } from '../kustomize/types.js';
+import { isHelmTemplatePath } from '../helm/types.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParserOptions,
+} from '../base/parser.js';
+
+// ============================================================================
+// Kubernetes Manifest Parser
+// ============================================================================
+
+/**
+ * Parser for plain Kubernetes manifests.
+ */
+export class KubernetesManifestParser extends BaseParser<K8sParseResult> {
+  readonly name = 'kubernetes-manifest-parser';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['.yml', '.yaml'] as const;
+  readonly supportedMimeTypes = ['application/x-yaml', 'text/yaml'] as const;
+
+  private readonly k8sOptions: Required<K8sParserOptions>;
+
+  constructor(options?: ParserOptions & Partial<K8sParserOptions>) {
+    super(options);
+    this.k8sOptions = { ...DEFAULT_K8S_PARSER_OPTIONS, ...options };
+  }
+
+  /**
+   * Check if this parser can handle the given file.
+   * With content, requires both `apiVersion:` and `kind:` keys at column 0.
+   */
+  override canParse(filePath: string, content?: string): boolean {
+    const lower = filePath.toLowerCase();
+    if (!lower.endsWith('.yml') && !lower.endsWith('.yaml')) {
+      return false;
+    }
+
+    // kustomization.yaml has apiVersion/kind too but is handled by the Kustomize parser
+    if (isKustomizationPath(filePath)) {
+      return false;
+    }
+
+    if (content !== undefined) {
+      // Chart templates only become manifests once the Helm parser renders them
+      if (isHelmTemplatePath(filePath) && content.includes('{{')) {
+        return false;
+      }
+      return /^apiVersion:/m.test(content) && /^kind:/m.test(content);
+    }
+
+    return true;
+  }
+
+  /**
+   * Parse manifest content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    _options: Required<ParserOptions>
+  ): Promise<ParseResult<K8sParseResult>> {
+    const startTime = performance.now();
+    const errors: K8sParseError[] = [];
+    const warnings: K8sParseError[] = [];
+
+    const { manifests, documentCount } = this.parseManifests(content, filePath, errors, warnings);
+    const nodes = createK8sNodes(manifests, this.k8sOptions.defaultNamespace);
+    const edges = this.k8sOptions.generateEdges ? createK8sEdges(nodes) : [];
+
+    const kindCounts: Record<string, number> = {};
+    for (const manifest of manifests) {
+      kindCounts[manifest.kind] = (kindCounts[manifest.kind] ?? 0) + 1;
+    }
+
+    const result: K8sParseResult = {
+      success: errors.length === 0,
+      manifests,
+      nodes,
+      edges,
+      errors,
+      warnings,
+      metadata: {
+        filePath,
+        parserName: this.name,
+        parserVersion: this.version,
+        parseTimeMs: performance.now() - startTime,
+        fileSize: content.length,
+        lineCount: content.split('\n').length,
+        documentCount,
+        resourceCount: manifests.length,
+        kindCounts,
+      },
+    };
+
+    // A file where every document failed to parse is a failure; otherwise
+    // broken documents are reported as warnings alongside the good ones.
+    if (errors.length > 0 && manifests.length === 0) {
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.line !== undefined
+            ? this.createLocation(filePath, e.line, e.line, e.column ?? 0, e.column ?? 0)
+            : null,
+          severity: 'error' as const,
+        })),
+        result,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    return this.createSuccess(
+      result,
+      [...errors, ...warnings].map(w => ({
+        code: w.code,
+        message: w.message,
+        location: w.line !== undefined
+          ? this.createLocation(filePath, w.line, w.line, w.column ?? 0, w.column ?? 0)
+          : null,
+        severity: 'warning' as const,
+      })),
+      this.createMetadata(filePath, startTime, content)
+    );
+  }
+
+  // ============================================================================
+  // YAML Parsing
+  // ============================================================================
+
+  /**
+   * Split content into documents and extract Kubernetes objects
+   */
+  parseManifests(
+    content: string,
+    filePath: string,
+    errors: K8sParseError[] = [],
+    warnings: K8sParseError[] = []
+  ): { manifests: K8sManifest[]; documentCount: number } {
+    const manifests: K8sManifest[] = [];
+    const lineCounter = new yaml.LineCounter();
+    const documents = yaml.parseAllDocuments(content, {
+      strict: false,
+      uniqueKeys: false,
+      lineCounter,
+    });
+
+    // parseAllDocuments returns an EmptyStream for empty input
+    const docs = Array.isArray(documents) ? documents : [];
+
+    docs.forEach((doc, documentIndex) => {
+      const start = lineCounter.linePos(doc.range[0]).line;
+      const end = lineCounter.linePos(Math.max(doc.range[2] - 1, doc.range[0])).line;
+
+      if (doc.errors.length > 0) {
+        for (const err of doc.errors) {
+          const pos = err.linePos?.[0];
+          errors.push({
+            message: err.message,
+            file: filePath,
+            ...(pos ? { line: pos.line, column: pos.col } : {}),
+            severity: 'error',
+            code: 'INVALID_YAML',
+          });
+        }
+        return;
+      }
+
+      const value: unknown = doc.toJS({ maxAliasCount: 100 });
+      if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+        return;
+      }
+
+      const objects = this.expandList(value as Record<string, unknown>);
+      for (const obj of objects) {
+        const manifest = this.toManifest(obj, filePath, documentIndex, { start, end }, warnings);
+        if (manifest) {
+          manifests.push(manifest);
+        }
+      }
+    });
+
+    return { manifests, documentCount: docs.length };
+  }
+
+  /**
+   * Expand `kind: List` / `*List` wrappers into their items
+   */
+  private expandList(obj: Record<string, unknown>): Record<string, unknown>[] {
+    const kind = obj.kind;
+    if (typeof kind === 'string' && kind.endsWith('List') && Array.isArray(obj.items)) {
+      return obj.items.filter(
+        (item): item is Record<string, unknown> =>
+          item !== null && typeof item === 'object' && !Array.isArray(item)
+      );
+    }
+    return [obj];
+  }
+
+  private toManifest(
+    obj: Record<string, unknown>,
+    filePath: string,
+    documentIndex: number,
+    lineRange: { start: number; end: number },
+    warnings: K8sParseError[]
+  ): K8sManifest | null {
+    const { apiVersion, kind } = obj;
+
+    // Not a Kubernetes object (values files, CI configs, ...)
+    if (typeof apiVersion !== 'string' || typeof kind !== 'string') {
+      return null;
+    }
+
+    const metadata = toRecord(obj.metadata);
+    const name = metadata.name;
+    if (typeof name !== 'string' || name === '') {
+      warnings.push({
+        message: `${kind} in document ${documentIndex} has no metadata.name`,
+        file: filePath,
+        line: lineRange.start,
+        severity: 'warning',
+        code: 'MISSING_NAME',
+      });
+      return null;
+    }
+
+    if (this.k8sOptions.warnOnUnsupportedKinds && !isSupportedK8sKind(kind)) {
+      warnings.push({
+        message: `Kind ${kind} has no dedicated graph node type`,
+        file: filePath,
+        line: lineRange.start,
+        severity: 'warning',
+        code: 'UNSUPPORTED_KIND',
+      });
+    }
+
+    const { metadata: _metadata, apiVersion: _apiVersion, kind: _kind, ...body } = obj;
+    const namespace = metadata.namespace;
+
+    return {
+      apiVersion,
+      kind,
+      name,
+      ...(typeof namespace === 'string' && namespace !== '' ? { namespace } : {}),
+      labels: toStringRecord(metadata.labels),
+      annotations: toStringRecord(metadata.annotations),
+      body,
+      filePath,
+      documentIndex,
+      lineRange,
+    };
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, v] of Object.entries(toRecord(value))) {
+    if (v !== null && v !== undefined) {
+      result[key] = String(v);
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new Kubernetes manifest parser instance
+ */
+export function createKubernetesParser(
+  options?: ParserOptions & Partial<K8sParserOptions>
+): KubernetesManifestParser {
+  return new KubernetesManifestParser(options);
+}
+
+/**
+ * Parse Kubernetes manifest content directly
+ */
+export async function parseKubernetesManifest(
+  content: string,
+  filePath: string,
+  options?: ParserOptions & Partial<K8sParserOptions>
+): Promise<ParseResult<K8sParseResult>> {
+  const parser = createKubernetesParser(options);
+  return parser.parse(content, filePath, options);
+}
@@ -0,0 +1,655 @@
+/**
+ * Kubernetes Node Factory
+ * @module parsers/kubernetes/node-factory
+ *
+ * Converts parsed Kubernetes manifests into the K8s* graph node types
+ * declared in types/graph.
+ *
+ * TASK-K8S-001: Kubernetes manifest parsing for dependency detection
+ */
+
+import {
+  K8S_CLUSTER_SCOPED_KINDS,
+  createK8sNodeId,
+  isSupportedK8sKind,
+  type K8sEnvKeyRef,
+  type K8sManifest,
+  type K8sNode,
+  type K8sPodTemplateInfo,
+  type K8sVolumeRef,
+  type K8sVolumeSource,
+} from './types.js';
+
+import type {
+  K8sContainerPort,
+  K8sContainerSpec,
+  K8sEnvFromSource,
+  K8sIngressPath,
+  K8sIngressRule,
+  K8sRbacRule,
+  K8sRoleRef,
+  K8sServicePort,
+  K8sSubject,
+  K8sTlsConfig,
+  K8sVolumeMount,
+  NodeLocation,
+} from '../../types/graph.js';
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create a graph node for a manifest.
+ *
+ * @param manifest - Parsed manifest
+ * @param defaultNamespace - Namespace for namespaced objects without one
+ * @returns Node, or null if the kind has no dedicated node type
+ */
+export function createK8sNode(
+  manifest: K8sManifest,
+  defaultNamespace: string = 'default'
+): K8sNode | null {
+  if (!isSupportedK8sKind(manifest.kind)) {
+    return null;
+  }
+
+  const clusterScoped = K8S_CLUSTER_SCOPED_KINDS.has(manifest.kind);
+  const namespace = clusterScoped ? undefined : (manifest.namespace ?? defaultNamespace);
+  const body = manifest.body;
+  const spec = asRecord(body.spec);
+
+  const base = {
+    id: createK8sNodeId(manifest.kind, manifest.name, namespace),
+    name: manifest.name,
+    location: createManifestLocation(manifest),
+    metadata: {
+      kind: manifest.kind,
+      apiVersion: manifest.apiVersion,
+      labels: manifest.labels,
+      annotations: manifest.annotations,
+    } as Record<string, unknown>,
+  };
+
+  switch (manifest.kind) {
+    case 'Deployment': {
+      const pod = extractPodSpec(manifest.kind, spec);
+      return compact({
+        ...base,
+        type: 'k8s_deployment' as const,
+        namespace,
+        replicas: asNumber(spec.replicas),
+        selector: extractLabelSelector(spec.selector),
+        containers: extractContainers(pod),
+        metadata: { ...base.metadata, podTemplate: extractPodTemplateInfo(manifest.kind, spec) },
+      });
+    }
+    case 'StatefulSet':
+      return compact({
+        ...base,
+        type: 'k8s_statefulset' as const,
+        namespace,
+        replicas: asNumber(spec.replicas),
+        serviceName: asString(spec.serviceName) ?? '',
+        selector: extractLabelSelector(spec.selector),
+        metadata: {
+          ...base.metadata,
+          containers: extractContainers(extractPodSpec(manifest.kind, spec)),
+          podTemplate: extractPodTemplateInfo(manifest.kind, spec),
+        },
+      });
+    case 'DaemonSet':
+      return compact({
+        ...base,
+        type: 'k8s_daemonset' as const,
+        namespace,
+        selector: extractLabelSelector(spec.selector),
+        metadata: {
+          ...base.metadata,
+          containers: extractContainers(extractPodSpec(manifest.kind, spec)),
+          podTemplate: extractPodTemplateInfo(manifest.kind, spec),
+        },
+      });
+    case 'Job':
+      return compact({
+        ...base,
+        type: 'k8s_job' as const,
+        namespace,
+        completions: asNumber(spec.completions),
+        parallelism: asNumber(spec.parallelism),
+        metadata: {
+          ...base.metadata,
+          containers: extractContainers(extractPodSpec(manifest.kind, spec)),
+          podTemplate: extractPodTemplateInfo(manifest.kind, spec),
+        },
+      });
+    case 'CronJob':
+      return compact({
+        ...base,
+        type: 'k8s_cronjob' as const,
+        namespace,
+        schedule: asString(spec.schedule) ?? '',
+        metadata: {
+          ...base.metadata,
+          containers: extractContainers(extractPodSpec(manifest.kind, spec)),
+          podTemplate: extractPodTemplateInfo(manifest.kind, spec),
+        },
+      });
+    case 'Pod':
+      return compact({
+        ...base,
+        type: 'k8s_pod' as const,
+        namespace,
+        containers: extractContainers(spec),
+        metadata: { ...base.metadata, podTemplate: extractPodTemplateInfo(manifest.kind, spec, manifest.labels) },
+      });
+    case 'Service':
+      return compact({
+        ...base,
+        type: 'k8s_service' as const,
+        namespace,
+        serviceType: extractServiceType(spec.type),
+        selector: asStringRecord(spec.selector),
+        ports: extractServicePorts(spec.ports),
+        metadata: { ...base.metadata, externalName: asString(spec.externalName) },
+      });
+    case 'ConfigMap':
+      return compact({
+        ...base,
+        type: 'k8s_configmap' as const,
+        namespace,
+        dataKeys: [...Object.keys(asRecord(body.data)), ...Object.keys(asRecord(body.binaryData))],
+      });
+    case 'Secret':
+      return compact({
+        ...base,
+        type: 'k8s_secret' as const,
+        namespace,
+        secretType: asString(body.type) ?? 'Opaque',
+        dataKeys: [...new Set([...Object.keys(asRecord(body.data)), ...Object.keys(asRecord(body.stringData))])],
+      });
+    case 'Ingress':
+      return compact({
+        ...base,
+        type: 'k8s_ingress' as const,
+        namespace,
+        ingressClass: asString(spec.ingressClassName) ?? manifest.annotations['kubernetes.io/ingress.class'],
+        rules: extractIngressRules(spec),
+        tls: extractIngressTls(spec.tls),
+      });
+    case 'Namespace':
+      return compact({ ...base, type: 'k8s_namespace' as const });
+    case 'ServiceAccount':
+      return compact({
+        ...base,
+        type: 'k8s_serviceaccount' as const,
+        namespace,
+        metadata: {
+          ...base.metadata,
+          secrets: asArray(body.secrets).map(s => asString(asRecord(s).name)).filter(isDefined),
+        },
+      });
+    case 'Role':
+      return compact({ ...base, type: 'k8s_role' as const, namespace, rules: extractRbacRules(body.rules) });
+    case 'ClusterRole':
+      return compact({ ...base, type: 'k8s_clusterrole' as const, rules: extractRbacRules(body.rules) });
+    case 'RoleBinding':
+      return compact({
+        ...base,
+        type: 'k8s_rolebinding' as const,
+        namespace,
+        roleRef: extractRoleRef(body.roleRef),
+        subjects: extractSubjects(body.subjects),
+      });
+    case 'ClusterRoleBinding':
+      return compact({
+        ...base,
+        type: 'k8s_clusterrolebinding' as const,
+        roleRef: extractRoleRef(body.roleRef),
+        subjects: extractSubjects(body.subjects),
+      });
+    case 'PersistentVolume':
+      return compact({
+        ...base,
+        type: 'k8s_persistentvolume' as const,
+        capacity: asString(asRecord(spec.capacity).storage) ?? '',
+        storageClass: asString(spec.storageClassName),
+        accessModes: asStringArray(spec.accessModes),
+        metadata: { ...base.metadata, claimRef: asString(asRecord(spec.claimRef).name) },
+      });
+    case 'PersistentVolumeClaim':
+      return compact({
+        ...base,
+        type: 'k8s_persistentvolumeclaim' as const,
+        namespace,
+        storageClass: asString(spec.storageClassName),
+        accessModes: asStringArray(spec.accessModes),
+        requestedStorage: asString(asRecord(asRecord(spec.resources).requests).storage) ?? '',
+        metadata: { ...base.metadata, volumeName: asString(spec.volumeName) },
+      });
+    case 'StorageClass':
+      return compact({
+        ...base,
+        type: 'k8s_storageclass' as const,
+        provisioner: asString(body.provisioner) ?? '',
+        reclaimPolicy: asString(body.reclaimPolicy) ?? 'Delete',
+      });
+    case 'NetworkPolicy':
+      return compact({
+        ...base,
+        type: 'k8s_networkpolicy' as const,
+        namespace,
+        podSelector: extractLabelSelector(spec.podSelector),
+        policyTypes: asStringArray(spec.policyTypes)
+          .filter((t): t is 'Ingress' | 'Egress' => t === 'Ingress' || t === 'Egress'),
+      });
+    default:
+      return null;
+  }
+}
+
+/**
+ * Create nodes for all supported manifests
+ */
+export function createK8sNodes(
+  manifests: readonly K8sManifest[],
+  defaultNamespace: string = 'default'
+): K8sNode[] {
+  const nodes: K8sNode[] = [];
+  const seen = new Set<string>();
+
+  for (const manifest of manifests) {
+    const node = createK8sNode(manifest, defaultNamespace);
+    if (node && !seen.has(node.id)) {
+      seen.add(node.id);
+      nodes.push(node);
+    }
+  }
+
+  return nodes;
+}
+
+/**
+ * Extract pod template details (labels, volumes, env refs) from a workload spec.
+ *
+ * @param kind - Workload kind
+ * @param spec - The object's `spec`
+ * @param podLabels - Labels to use for bare Pods (taken from object metadata)
+ */
+export function extractPodTemplateInfo(
+  kind: string,
+  spec: Record<string, unknown>,
+  podLabels?: Readonly<Record<string, string>>
+): K8sPodTemplateInfo {
+  const template = extractPodTemplate(kind, spec);
+  const podSpec = kind === 'Pod' ? spec : asRecord(template.spec);
+
+  return compact({
+    podLabels: podLabels ?? asStringRecord(asRecord(template.metadata).labels),
+    serviceAccountName: asString(podSpec.serviceAccountName) ?? asString(podSpec.serviceAccount),
+    volumes: extractVolumes(podSpec.volumes),
+    envKeyRefs: extractEnvKeyRefs(podSpec),
+    imagePullSecrets: asArray(podSpec.imagePullSecrets)
+      .map(s => asString(asRecord(s).name))
+      .filter(isDefined),
+  });
+}
+
+// ============================================================================
+// Pod Spec Extraction
+// ============================================================================
+
+function extractPodTemplate(kind: string, spec: Record<string, unknown>): Record<string, unknown> {
+  if (kind === 'CronJob') {
+    return asRecord(asRecord(asRecord(spec.jobTemplate).spec).template);
+  }
+  return asRecord(spec.template);
+}
+
+function extractPodSpec(kind: string, spec: Record<string, unknown>): Record<string, unknown> {
+  return asRecord(extractPodTemplate(kind, spec).spec);
+}
+
+function extractContainers(podSpec: Record<string, unknown>): K8sContainerSpec[] {
+  const containers = [...asArray(podSpec.initContainers), ...asArray(podSpec.containers)];
+
+  return containers.map(c => {
+    const container = asRecord(c);
+    return {
+      name: asString(container.name) ?? '',
+      image: asString(container.image) ?? '',
+      ports: asArray(container.ports).map(extractContainerPort),
+      envFrom: asArray(container.envFrom).map(extractEnvFrom).filter(isDefined),
+      volumeMounts: asArray(container.volumeMounts).map(extractVolumeMount),
+    };
+  });
+}
+
+function extractContainerPort(value: unknown): K8sContainerPort {
+  const port = asRecord(value);
+  return compact({
+    name: asString(port.name),
+    containerPort: asNumber(port.containerPort) ?? 0,
+    protocol: extractProtocol(port.protocol),
+  });
+}
+
+function extractEnvFrom(value: unknown): K8sEnvFromSource | undefined {
+  const source = asRecord(value);
+  const configMapRef = asRecord(source.configMapRef);
+  const secretRef = asRecord(source.secretRef);
+
+  const configMapName = asString(configMapRef.name);
+  if (configMapName !== undefined) {
+    return compact({ type: 'configMapRef' as const, name: configMapName, optional: asBoolean(configMapRef.optional) });
+  }
+
+  const secretName = asString(secretRef.name);
+  if (secretName !== undefined) {
+    return compact({ type: 'secretRef' as const, name: secretName, optional: asBoolean(secretRef.optional) });
+  }
+
+  return undefined;
+}
+
+function extractVolumeMount(value: unknown): K8sVolumeMount {
+  const mount = asRecord(value);
+  return compact({
+    name: asString(mount.name) ?? '',
+    mountPath: asString(mount.mountPath) ?? '',
+    readOnly: asBoolean(mount.readOnly),
+  });
+}
+
+function extractVolumes(value: unknown): K8sVolumeSource[] {
+  return asArray(value).map(v => {
+    const volume = asRecord(v);
+    const name = asString(volume.name) ?? '';
+
+    const configMapName = asString(asRecord(volume.configMap).name);
+    if (configMapName !== undefined) {
+      return { name, type: 'configMap' as const, refs: [{ kind: 'ConfigMap' as const, name: configMapName }] };
+    }
+
+    const secretName = asString(asRecord(volume.secret).secretName);
+    if (secretName !== undefined) {
+      return { name, type: 'secret' as const, refs: [{ kind: 'Secret' as const, name: secretName }] };
+    }
+
+    const claimName = asString(asRecord(volume.persistentVolumeClaim).claimName);
+    if (claimName !== undefined) {
+      return {
+        name,
+        type: 'persistentVolumeClaim' as const,
+        refs: [{ kind: 'PersistentVolumeClaim' as const, name: claimName }],
+      };
+    }
+
+    if (volume.projected !== undefined) {
+      const refs: K8sVolumeRef[] = [];
+      for (const source of asArray(asRecord(volume.projected).sources)) {
+        const projected = asRecord(source);
+        const cm = asString(asRecord(projected.configMap).name);
+        const secret = asString(asRecord(projected.secret).name);
+        if (cm !== undefined) {
+          refs.push({ kind: 'ConfigMap', name: cm });
+        }
+        if (secret !== undefined) {
+          refs.push({ kind: 'Secret', name: secret });
+        }
+      }
+      return { name, type: 'projected' as const, refs };
+    }
+
+    return { name, type: 'other' as const, refs: [] };
+  });
+}
+
+function extractEnvKeyRefs(podSpec: Record<string, unknown>): K8sEnvKeyRef[] {
+  const refs: K8sEnvKeyRef[] = [];
+  const containers = [...asArray(podSpec.initContainers), ...asArray(podSpec.containers)];
+
+  for (const c of containers) {
+    const container = asRecord(c);
+    const containerName = asString(container.name) ?? '';
+
+    for (const e of asArray(container.env)) {
+      const env = asRecord(e);
+      const valueFrom = asRecord(env.valueFrom);
+      const envVar = asString(env.name) ?? '';
+
+      const cmRef = asRecord(valueFrom.configMapKeyRef);
+      const cmName = asString(cmRef.name);
+      if (cmName !== undefined) {
+        refs.push({ kind: 'ConfigMap', name: cmName, key: asString(cmRef.key) ?? '', envVar, container: containerName });
+      }
+
+      const secretRef = asRecord(valueFrom.secretKeyRef);
+      const secretName = asString(secretRef.name);
+      if (secretName !== undefined) {
+        refs.push({ kind: 'Secret', name: secretName, key: asString(secretRef.key) ?? '', envVar, container: containerName });
+      }
+    }
+  }
+
+  return refs;
+}
+
+// ============================================================================
+// Service / Ingress Extraction
+// ============================================================================
+
+function extractServiceType(value: unknown): 'ClusterIP' | 'NodePort' | 'LoadBalancer' | 'ExternalName' {
+  switch (value) {
+    case 'NodePort':
+    case 'LoadBalancer':
+    case 'ExternalName':
+      return value;
+    default:
+      return 'ClusterIP';
+  }
+}
+
+function extractServicePorts(value: unknown): K8sServicePort[] {
+  return asArray(value).map(p => {
+    const port = asRecord(p);
+    const portNumber = asNumber(port.port) ?? 0;
+    const targetPort = port.targetPort;
+    return compact({
+      name: asString(port.name),
+      port: portNumber,
+      targetPort: typeof targetPort === 'number' || typeof targetPort === 'string' ? targetPort : portNumber,
+      protocol: extractProtocol(port.protocol),
+      nodePort: asNumber(port.nodePort),
+    });
+  });
+}
+
+function extractIngressRules(spec: Record<string, unknown>): K8sIngressRule[] {
+  const rules: K8sIngressRule[] = asArray(spec.rules).map(r => {
+    const rule = asRecord(r);
+    const paths = asArray(asRecord(rule.http).paths)
+      .map(p => extractIngressPath(asRecord(p)))
+      .filter(isDefined);
+    return compact({ host: asString(rule.host), paths });
+  });
+
+  // spec.defaultBackend (networking.k8s.io/v1) or spec.backend (extensions/v1beta1)
+  const defaultBackend = extractIngressPath({
+    path: '/',
+    pathType: 'ImplementationSpecific',
+    backend: spec.defaultBackend ?? spec.backend,
+  });
+  if (defaultBackend) {
+    rules.push({ paths: [defaultBackend] });
+  }
+
+  return rules;
+}
+
+function extractIngressPath(path: Record<string, unknown>): K8sIngressPath | undefined {
+  const backend = asRecord(path.backend);
+  const service = asRecord(backend.service);
+
+  // networking.k8s.io/v1 uses backend.service.{name,port}; older APIs use serviceName/servicePort
+  const serviceName = asString(service.name) ?? asString(backend.serviceName);
+  if (serviceName === undefined) {
+    return undefined;
+  }
+
+  const port = asRecord(service.port);
+  const servicePort = asNumber(port.number) ?? asString(port.name) ?? asPort(backend.servicePort) ?? '';
+  const pathType = asString(path.pathType);
+
+  return {
+    path: asString(path.path) ?? '/',
+    pathType: pathType === 'Prefix' || pathType === 'Exact' ? pathType : 'ImplementationSpecific',
+    serviceName,
+    servicePort,
+  };
+}
+
+function extractIngressTls(value: unknown): K8sTlsConfig[] {
+  return asArray(value)
+    .map(t => {
+      const tls = asRecord(t);
+      const secretName = asString(tls.secretName);
+      return secretName === undefined ? undefined : { hosts: asStringArray(tls.hosts), secretName };
+    })
+    .filter(isDefined);
+}
+
+// ============================================================================
+// RBAC Extraction
+// ============================================================================
+
+function extractRbacRules(value: unknown): K8sRbacRule[] {
+  return asArray(value).map(r => {
+    const rule = asRecord(r);
+    return {
+      apiGroups: asStringArray(rule.apiGroups),
+      resources: asStringArray(rule.resources),
+      verbs: asStringArray(rule.verbs),
+    };
+  });
+}
+
+function extractRoleRef(value: unknown): K8sRoleRef {
+  const ref = asRecord(value);
+  return {
+    apiGroup: asString(ref.apiGroup) ?? 'rbac.authorization.k8s.io',
+    kind: ref.kind === 'ClusterRole' ? 'ClusterRole' : 'Role',
+    name: asString(ref.name) ?? '',
+  };
+}
+
+function extractSubjects(value: unknown): K8sSubject[] {
+  return asArray(value)
+    .map(s => {
+      const subject = asRecord(s);
+      const kind = subject.kind;
+      if (kind !== 'User' && kind !== 'Group' && kind !== 'ServiceAccount') {
+        return undefined;
+      }
+      return compact({
+        kind: kind as K8sSubject['kind'],
+        name: asString(subject.name) ?? '',
+        namespace: asString(subject.namespace),
+      });
+    })
+    .filter(isDefined);
+}
+
+// ============================================================================
+// Value Helpers
+// ============================================================================
+
+function createManifestLocation(manifest: K8sManifest): NodeLocation {
+  return {
+    file: manifest.filePath,
+    lineStart: manifest.lineRange.start,
+    lineEnd: manifest.lineRange.end,
+  };
+}
+
+function extractLabelSelector(value: unknown): Record<string, string> {
+  const selector = asRecord(value);
+  // Deployments use { matchLabels }, ReplicationControllers a bare map
+  if (selector.matchLabels !== undefined) {
+    return asStringRecord(selector.matchLabels);
+  }
+  if (selector.matchExpressions !== undefined) {
+    return {};
+  }
+  return asStringRecord(selector);
+}
+
+function extractProtocol(value: unknown): 'TCP' | 'UDP' | 'SCTP' | undefined {
+  return value === 'TCP' || value === 'UDP' || value === 'SCTP' ? value : undefined;
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value)
+    ? (value as Record<string, unknown>)
+    : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+function asNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+}
+
+function asBoolean(value: unknown): boolean | undefined {
+  return typeof value === 'boolean' ? value : undefined;
+}
+
+function asPort(value: unknown): number | string | undefined {
+  return typeof value === 'number' || typeof value === 'string' ? value : undefined;
+}
+
+function asStringArray(value: unknown): string[] {
+  return asArray(value).filter((v): v is string => typeof v === 'string');
+}
+
+function asStringRecord(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, v] of Object.entries(asRecord(value))) {
+    if (v !== null && v !== undefined) {
+      result[key] = String(v);
+    }
+  }
+  return result;
+}
+
+/**
+ * Object type with `undefined`-valued properties turned into optional ones
+ */
+type Compact<T> = {
+  [K in keyof T as undefined extends T[K] ? never : K]: T[K];
+} & {
+  [K in keyof T as undefined extends T[K] ? K : never]?: Exclude<T[K], undefined>;
+};
+
+/**
+ * Drop properties whose value is undefined (exactOptionalPropertyTypes)
+ */
+function compact<T extends object>(obj: T): Compact<T> {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result as Compact<T>;
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
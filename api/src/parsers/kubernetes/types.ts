@@ -0,0 +1,352 @@
+/**
+ * Kubernetes Manifest Parser Types
+ * @module parsers/kubernetes/types
+ *
+ * Type definitions for raw Kubernetes manifest parsing.
+ * Node and edge shapes reuse the K8s* node types declared in types/graph.
+ *
+ * TASK-K8S-001: Kubernetes manifest parsing for dependency detection
+ */
+
+import type {
+  GraphEdge,
+  K8sClusterRoleBindingNode,
+  K8sClusterRoleNode,
+  K8sConfigMapNode,
+  K8sCronJobNode,
+  K8sDaemonSetNode,
+  K8sDeploymentNode,
+  K8sIngressNode,
+  K8sJobNode,
+  K8sNamespaceNode,
+  K8sNetworkPolicyNode,
+  K8sPersistentVolumeClaimNode,
+  K8sPersistentVolumeNode,
+  K8sPodNode,
+  K8sRoleBindingNode,
+  K8sRoleNode,
+  K8sSecretNode,
+  K8sServiceAccountNode,
+  K8sServiceNode,
+  K8sStatefulSetNode,
+  K8sStorageClassNode,
+} from '../../types/graph.js';
+
+// ============================================================================
+// Manifest Types
+// ============================================================================
+
+/**
+ * A single Kubernetes object read from a (possibly multi-document) YAML file
+ */
+export interface K8sManifest {
+  /** API version (e.g. apps/v1) */
+  readonly apiVersion: string;
+  /** Resource kind (e.g. Deployment) */
+  readonly kind: string;
+  /** metadata.name */
+  readonly name: string;
+  /** metadata.namespace, if set in the manifest */
+  readonly namespace?: string;
+  /** metadata.labels */
+  readonly labels: Readonly<Record<string, string>>;
+  /** metadata.annotations */
+  readonly annotations: Readonly<Record<string, string>>;
+  /** Raw spec / data body of the object */
+  readonly body: Readonly<Record<string, unknown>>;
+  /** Source file path */
+  readonly filePath: string;
+  /** Zero-based index of the YAML document within the file */
+  readonly documentIndex: number;
+  /** Line range of the document (1-based, inclusive) */
+  readonly lineRange: {
+    readonly start: number;
+    readonly end: number;
+  };
+}
+
+/**
+ * Volume source referenced by a pod spec
+ */
+export interface K8sVolumeSource {
+  /** Volume name as referenced by volumeMounts */
+  readonly name: string;
+  /** Kind of object backing the volume */
+  readonly type: 'configMap' | 'secret' | 'persistentVolumeClaim' | 'projected' | 'other';
+  /** Names of referenced objects (projected volumes may reference several) */
+  readonly refs: readonly K8sVolumeRef[];
+}
+
+/**
+ * Reference from a volume to a ConfigMap, Secret or PVC
+ */
+export interface K8sVolumeRef {
+  readonly kind: 'ConfigMap' | 'Secret' | 'PersistentVolumeClaim';
+  readonly name: string;
+}
+
+/**
+ * Single-key env reference (env[].valueFrom.configMapKeyRef / secretKeyRef)
+ */
+export interface K8sEnvKeyRef {
+  readonly kind: 'ConfigMap' | 'Secret';
+  readonly name: string;
+  readonly key: string;
+  readonly envVar: string;
+  readonly container: string;
+}
+
+/**
+ * Pod-level details extracted from workloads and stored in node metadata.
+ * Kept separate from the node types so edge building works for every
+ * pod-bearing kind.
+ */
+export interface K8sPodTemplateInfo {
+  /** Labels on the pod template (what Services and NetworkPolicies select) */
+  readonly podLabels: Readonly<Record<string, string>>;
+  /** Service account the pods run as */
+  readonly serviceAccountName?: string;
+  /** Volumes declared on the pod spec */
+  readonly volumes: readonly K8sVolumeSource[];
+  /** Single-key env references */
+  readonly envKeyRefs: readonly K8sEnvKeyRef[];
+  /** Image pull secrets */
+  readonly imagePullSecrets: readonly string[];
+}
+
+// ============================================================================
+// Node Types
+// ============================================================================
+
+/**
+ * Union of all Kubernetes node types produced by the parser
+ */
+export type K8sNode =
+  | K8sDeploymentNode
+  | K8sServiceNode
+  | K8sConfigMapNode
+  | K8sSecretNode
+  | K8sIngressNode
+  | K8sPodNode
+  | K8sStatefulSetNode
+  | K8sDaemonSetNode
+  | K8sJobNode
+  | K8sCronJobNode
+  | K8sNamespaceNode
+  | K8sServiceAccountNode
+  | K8sRoleNode
+  | K8sRoleBindingNode
+  | K8sClusterRoleNode
+  | K8sClusterRoleBindingNode
+  | K8sPersistentVolumeNode
+  | K8sPersistentVolumeClaimNode
+  | K8sStorageClassNode
+  | K8sNetworkPolicyNode;
+
+/**
+ * Node type names for workloads that carry a pod template
+ */
+export type K8sWorkloadNodeType =
+  | 'k8s_deployment'
+  | 'k8s_statefulset'
+  | 'k8s_daemonset'
+  | 'k8s_job'
+  | 'k8s_cronjob'
+  | 'k8s_pod';
+
+/**
+ * Kubernetes kinds mapped to graph node type names
+ */
+export const K8S_KIND_TO_NODE_TYPE: Readonly<Record<string, K8sNode['type']>> = {
+  Deployment: 'k8s_deployment',
+  Service: 'k8s_service',
+  ConfigMap: 'k8s_configmap',
+  Secret: 'k8s_secret',
+  Ingress: 'k8s_ingress',
+  Pod: 'k8s_pod',
+  StatefulSet: 'k8s_statefulset',
+  DaemonSet: 'k8s_daemonset',
+  Job: 'k8s_job',
+  CronJob: 'k8s_cronjob',
+  Namespace: 'k8s_namespace',
+  ServiceAccount: 'k8s_serviceaccount',
+  Role: 'k8s_role',
+  RoleBinding: 'k8s_rolebinding',
+  ClusterRole: 'k8s_clusterrole',
+  ClusterRoleBinding: 'k8s_clusterrolebinding',
+  PersistentVolume: 'k8s_persistentvolume',
+  PersistentVolumeClaim: 'k8s_persistentvolumeclaim',
+  StorageClass: 'k8s_storageclass',
+  NetworkPolicy: 'k8s_networkpolicy',
+};
+
+/**
+ * Kinds that are not namespaced
+ */
+export const K8S_CLUSTER_SCOPED_KINDS: ReadonlySet<string> = new Set([
+  'Namespace',
+  'ClusterRole',
+  'ClusterRoleBinding',
+  'PersistentVolume',
+  'StorageClass',
+]);
+
+/**
+ * Workload node types that carry a pod template
+ */
+export const K8S_WORKLOAD_NODE_TYPES: ReadonlySet<string> = new Set<K8sWorkloadNodeType>([
+  'k8s_deployment',
+  'k8s_statefulset',
+  'k8s_daemonset',
+  'k8s_job',
+  'k8s_cronjob',
+  'k8s_pod',
+]);
+
+// ============================================================================
+// Parse Result Types
+// ============================================================================
+
+/**
+ * Kubernetes parse error codes
+ */
+export type K8sParseErrorCode =
+  | 'INVALID_YAML'
+  | 'MISSING_KIND'
+  | 'MISSING_NAME'
+  | 'UNSUPPORTED_KIND';
+
+/**
+ * Kubernetes parse error or warning
+ */
+export interface K8sParseError {
+  readonly message: string;
+  readonly file: string;
+  readonly line?: number;
+  readonly column?: number;
+  readonly severity: 'error' | 'warning';
+  readonly code: K8sParseErrorCode;
+}
+
+/**
+ * Parse metadata for a manifest file
+ */
+export interface K8sParseMetadata {
+  readonly filePath: string;
+  readonly parserName: string;
+  readonly parserVersion: string;
+  readonly parseTimeMs: number;
+  readonly fileSize: number;
+  readonly lineCount: number;
+  readonly documentCount: number;
+  readonly resourceCount: number;
+  readonly kindCounts: Readonly<Record<string, number>>;
+}
+
+/**
+ * Result of parsing a Kubernetes manifest file
+ */
+export interface K8sParseResult {
+  readonly success: boolean;
+  /** All objects found, including kinds without a dedicated node type */
+  readonly manifests: readonly K8sManifest[];
+  /** Graph nodes for supported kinds */
+  readonly nodes: readonly K8sNode[];
+  /** Edges between nodes defined in this file */
+  readonly edges: readonly GraphEdge[];
+  readonly errors: readonly K8sParseError[];
+  readonly warnings: readonly K8sParseError[];
+  readonly metadata: K8sParseMetadata;
+}
+
+// ============================================================================
+// Parser Options
+// ============================================================================
+
+/**
+ * Kubernetes parser options
+ */
+export interface K8sParserOptions {
+  /** Namespace assumed for namespaced objects without metadata.namespace */
+  readonly defaultNamespace?: string;
+  /** Build edges between objects in the same file */
+  readonly generateEdges?: boolean;
+  /** Warn on kinds without a dedicated node type */
+  readonly warnOnUnsupportedKinds?: boolean;
+}
+
+/**
+ * Default Kubernetes parser options
+ */
+export const DEFAULT_K8S_PARSER_OPTIONS: Required<K8sParserOptions> = {
+  defaultNamespace: 'default',
+  generateEdges: true,
+  warnOnUnsupportedKinds: false,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build the node ID for a Kubernetes object.
+ * Namespaced objects use `Kind/namespace/name`, cluster-scoped ones `Kind/name`.
+ */
+export function createK8sNodeId(kind: string, name: string, namespace?: string): string {
+  if (K8S_CLUSTER_SCOPED_KINDS.has(kind) || namespace === undefined) {
+    return `${kind}/${name}`;
+  }
+  return `${kind}/${namespace}/${name}`;
+}
+
+/**
+ * Check whether a manifest kind has a dedicated graph node type
+ */
+export function isSupportedK8sKind(kind: string): boolean {
+  return kind in K8S_KIND_TO_NODE_TYPE;
+}
+
+/**
+ * Type guard for workload nodes carrying a pod template
+ */
+export function isK8sWorkloadNode(
+  node: K8sNode
+): node is Extract<K8sNode, { type: K8sWorkloadNodeType }> {
+  return K8S_WORKLOAD_NODE_TYPES.has(node.type);
+}
+
+/**
+ * Read pod template details stored in a workload node's metadata
+ */
+export function getPodTemplateInfo(node: K8sNode): K8sPodTemplateInfo | undefined {
+  const info = node.metadata.podTemplate;
+  if (info === undefined || info === null || typeof info !== 'object') {
+    return undefined;
+  }
+  return info as K8sPodTemplateInfo;
+}
+
+/**
+ * Create an empty parse result
+ */
+export function createEmptyK8sParseResult(filePath: string): K8sParseResult {
+  return {
+    success: true,
+    manifests: [],
+    nodes: [],
+    edges: [],
+    errors: [],
+    warnings: [],
+    metadata: {
+      filePath,
+      parserName: 'kubernetes-manifest-parser',
+      parserVersion: '1.0.0',
+      parseTimeMs: 0,
+      fileSize: 0,
+      lineCount: 0,
+      documentCount: 0,
+      resourceCount: 0,
+      kindCounts: {},
+    },
+  };
+}
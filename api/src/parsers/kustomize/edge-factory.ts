@@ -0,0 +1,142 @@
+/**
+ * Kustomize Edge Factory
+ * @module parsers/kustomize/edge-factory
+ *
+ * Builds dependency edges for kustomizations:
+ * - kustomize_base: overlay -> base kustomization or component it builds on
+ * - kustomize_renders: kustomization -> effective K8s resource it outputs
+ * - kustomize_patches: kustomization -> rendered resource one of its patches changes
+ *
+ * TASK-KUSTOMIZE-001: Kustomize overlay parsing for dependency detection
+ */
+
+import {
+  createKustomizationNodeId,
+  type Kustomization,
+  type KustomizeResourceField,
+} from './types.js';
+
+import type {
+  EdgeType,
+  GraphEdge,
+  NodeLocation,
+} from '../../types/graph.js';
+
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Create the edge from an overlay to a base or component it lists
+ *
+ * @param overlay - Kustomization listing the base
+ * @param base - Referenced kustomization
+ * @param field - Field the base is listed under
+ */
+export function createKustomizeBaseEdge(
+  overlay: Kustomization,
+  base: Kustomization,
+  field: KustomizeResourceField
+): GraphEdge {
+  return createEdge('kustomize_base', toSource(overlay), createKustomizationNodeId(base.directory), {
+    attribute: field,
+    confidence: 100,
+    implicit: false,
+    description: `${overlay.directory} builds on ${base.kind === 'Component' ? 'component' : 'base'} ${base.directory}`,
+  });
+}
+
+/**
+ * Create the edge from a kustomization to a resource it outputs
+ *
+ * @param kustomization - Rendering kustomization
+ * @param resourceId - Node ID of the rendered resource
+ * @param sourceFile - File the resource was defined in
+ */
+export function createKustomizeRendersEdge(
+  kustomization: Kustomization,
+  resourceId: string,
+  sourceFile: string
+): GraphEdge {
+  return createEdge('kustomize_renders', toSource(kustomization), resourceId, {
+    attribute: 'resources',
+    confidence: 95,
+    implicit: true,
+    description: sourceFile === kustomization.filePath
+      ? `${kustomization.directory} generates ${resourceId}`
+      : `${kustomization.directory} renders ${resourceId} from ${sourceFile}`,
+  });
+}
+
+/**
+ * Create the edge from a kustomization to a rendered resource one of its
+ * patches changes
+ *
+ * @param kustomization - Kustomization (or component) declaring the patch
+ * @param resourceId - Node ID of the patched resource as rendered
+ * @param patch - Patch file, or 'inline'
+ */
+export function createKustomizePatchesEdge(
+  kustomization: Kustomization,
+  resourceId: string,
+  patch: string
+): GraphEdge {
+  return createEdge('kustomize_patches', toSource(kustomization), resourceId, {
+    attribute: 'patches',
+    confidence: 90,
+    implicit: false,
+    description: `${kustomization.directory} patches ${resourceId} with ${patch}`,
+  });
+}
+
+/**
+ * Build a deterministic edge ID
+ */
+export function createKustomizeEdgeId(type: EdgeType, source: string, target: string): string {
+  return `${type}:${source}->${target}`;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+interface EdgeDetails {
+  readonly attribute: string;
+  readonly confidence: number;
+  readonly implicit: boolean;
+  readonly description: string;
+}
+
+function toSource(kustomization: Kustomization): { readonly id: string; readonly location: NodeLocation } {
+  return {
+    id: createKustomizationNodeId(kustomization.directory),
+    location: { file: kustomization.filePath, lineStart: 1, lineEnd: 1 },
+  };
+}
+
+function createEdge(
+  type: EdgeType,
+  source: { readonly id: string; readonly location: NodeLocation },
+  target: string,
+  details: EdgeDetails
+): GraphEdge {
+  return {
+    id: createKustomizeEdgeId(type, source.id, target),
+    source: source.id,
+    target,
+    type,
+    label: details.attribute,
+    metadata: {
+      attribute: details.attribute,
+      location: source.location,
+      implicit: details.implicit,
+      confidence: details.confidence,
+      evidence: [{
+        type: details.implicit ? 'semantic' : 'explicit',
+        description: details.description,
+        location: source.location,
+      }],
+    },
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Kustomize Parser Module
+ * @module parsers/kustomize
+ *
+ * Exports all Kustomize parsing types and utilities.
+ *
+ * TASK-KUSTOMIZE-001: Kustomize overlay parsing for dependency detection
+ */
+
+// Types
+export * from './types.js';
+
+// Node Factory
+export {
+  createKustomizationNode,
+  createKustomizeResourceNode,
+} from './node-factory.js';
+
+// Edge Factory
+export {
+  createKustomizeBaseEdge,
+  createKustomizeRendersEdge,
+  createKustomizePatchesEdge,
+  createKustomizeEdgeId,
+} from './edge-factory.js';
+
+// Rendering
+export { renderKustomizations } from './renderer.js';
+
+// Kustomization Parser
+export {
+  KustomizeParser,
+  createKustomizeParser,
+  parseKustomization,
+} from './kustomization-parser.js';
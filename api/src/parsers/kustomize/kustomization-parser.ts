@@ -0,0 +1,485 @@
+/**
+ * Kustomization Parser
+ * @module parsers/kustomize/kustomization-parser
+ *
+ * Parses kustomization.yaml files (resources, bases, components, patches,
+ * generators, images, replicas and name/namespace/label transforms) into a
+ * Kustomization model and a kustomization node. Rendering the effective
+ * resources needs the other files of a scan and is done by renderKustomizations.
+ *
+ * TASK-KUSTOMIZE-001: Kustomize overlay parsing for dependency detection
+ */
+
+import * as yaml from 'yaml';
+
+import { createKustomizationNode } from './node-factory.js';
+import {
+  DEFAULT_KUSTOMIZE_PARSER_OPTIONS,
+  getKustomizationDirectory,
+  isKustomizationPath,
+  isRemoteKustomizeResource,
+  type Kustomization,
+  type KustomizeGenerator,
+  type KustomizeImage,
+  type KustomizeLabels,
+  type KustomizeParseError,
+  type KustomizeParseResult,
+  type KustomizeParserOptions,
+  type KustomizePatch,
+  type KustomizePatchTarget,
+  type KustomizeReplicaCount,
+  type KustomizeResourceField,
+  type KustomizeResourceRef,
+} from './types.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParserOptions,
+} from '../base/parser.js';
+
+/**
+ * Fields replaced by newer ones in kustomize v5
+ */
+const DEPRECATED_FIELDS: Readonly<Record<string, string>> = {
+  bases: 'resources',
+  patchesStrategicMerge: 'patches',
+  patchesJson6902: 'patches',
+  commonLabels: 'labels',
+};
+
+// ============================================================================
+// Kustomization Parser
+// ============================================================================
+
+/**
+ * Parser for kustomization files.
+ */
+export class KustomizeParser extends BaseParser<KustomizeParseResult> {
+  readonly name = 'kustomize-parser';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['.yaml', '.yml', 'Kustomization'] as const;
+  readonly supportedMimeTypes = ['application/x-yaml', 'text/yaml'] as const;
+
+  private readonly kustomizeOptions: Required<KustomizeParserOptions>;
+
+  constructor(options?: ParserOptions & Partial<KustomizeParserOptions>) {
+    super(options);
+    this.kustomizeOptions = { ...DEFAULT_KUSTOMIZE_PARSER_OPTIONS, ...options };
+  }
+
+  /**
+   * Check if this parser can handle the given file.
+   * Kustomize only reads files named kustomization.yaml, kustomization.yml
+   * or Kustomization.
+   */
+  override canParse(filePath: string, _content?: string): boolean {
+    return isKustomizationPath(filePath);
+  }
+
+  /**
+   * Parse kustomization file content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    _options: Required<ParserOptions>
+  ): Promise<ParseResult<KustomizeParseResult>> {
+    const startTime = performance.now();
+    const errors: KustomizeParseError[] = [];
+    const warnings: KustomizeParseError[] = [];
+
+    const lineCounter = new yaml.LineCounter();
+    const document = yaml.parseDocument(content, { strict: false, uniqueKeys: false, lineCounter });
+
+    for (const err of document.errors) {
+      const pos = err.linePos?.[0];
+      errors.push({
+        message: err.message,
+        file: filePath,
+        ...(pos ? { line: pos.line, column: pos.col } : {}),
+        severity: 'error',
+        code: 'INVALID_YAML',
+      });
+    }
+
+    const value: unknown = errors.length === 0 ? document.toJS({ maxAliasCount: 100 }) : null;
+    const isEmpty = value === null || value === undefined;
+    if (errors.length === 0 && !isEmpty && !isRecord(value)) {
+      errors.push({
+        message: 'Kustomization file is not a YAML mapping',
+        file: filePath,
+        severity: 'error',
+        code: 'NOT_A_KUSTOMIZATION',
+      });
+    }
+
+    if (errors.length > 0) {
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.line !== undefined
+            ? this.createLocation(filePath, e.line, e.line, e.column ?? 0, e.column ?? 0)
+            : null,
+          severity: 'error' as const,
+        })),
+        null,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const lineOf = (key: string): number | undefined => {
+      const pair = yaml.isMap(document.contents)
+        ? document.contents.items.find(item => yaml.isScalar(item.key) && item.key.value === key)
+        : undefined;
+      const offset = yaml.isScalar(pair?.key) ? pair.key.range?.[0] : undefined;
+      return offset !== undefined ? lineCounter.linePos(offset).line : undefined;
+    };
+
+    const kustomization = this.buildKustomization(
+      isRecord(value) ? value : {},
+      filePath,
+      lineOf,
+      warnings
+    );
+    const lineCount = content.split('\n').length;
+
+    const result: KustomizeParseResult = {
+      success: true,
+      kustomization,
+      nodes: [createKustomizationNode(kustomization, lineCount)],
+      errors,
+      warnings,
+      metadata: {
+        filePath,
+        parserName: this.name,
+        parserVersion: this.version,
+        parseTimeMs: performance.now() - startTime,
+        fileSize: content.length,
+        lineCount,
+        resourceCount: kustomization.resources.length,
+        patchCount: kustomization.patches.length,
+        generatorCount: kustomization.generators.length,
+      },
+    };
+
+    return this.createSuccess(
+      result,
+      warnings.map(w => ({
+        code: w.code,
+        message: w.message,
+        location: w.line !== undefined
+          ? this.createLocation(filePath, w.line, w.line, 0, 0)
+          : null,
+        severity: 'warning' as const,
+      })),
+      this.createMetadata(filePath, startTime, content)
+    );
+  }
+
+  // ============================================================================
+  // Kustomization Construction
+  // ============================================================================
+
+  private buildKustomization(
+    doc: Record<string, unknown>,
+    filePath: string,
+    lineOf: (key: string) => number | undefined,
+    warnings: KustomizeParseError[]
+  ): Kustomization {
+    const warn = (code: KustomizeParseError['code'], message: string, key: string): void => {
+      const line = lineOf(key);
+      warnings.push({ message, file: filePath, ...(line !== undefined ? { line } : {}), severity: 'warning', code });
+    };
+
+    if (this.kustomizeOptions.warnOnDeprecatedFields) {
+      for (const [field, replacement] of Object.entries(DEPRECATED_FIELDS)) {
+        if (doc[field] !== undefined) {
+          warn('DEPRECATED_FIELD', `${field} is deprecated, use ${replacement}`, field);
+        }
+      }
+    }
+
+    const namespace = asString(doc.namespace);
+    const namePrefix = asString(doc.namePrefix);
+    const nameSuffix = asString(doc.nameSuffix);
+    const commonLabels = toStringRecord(doc.commonLabels);
+
+    return {
+      filePath,
+      directory: getKustomizationDirectory(filePath),
+      kind: doc.kind === 'Component' ? 'Component' : 'Kustomization',
+      ...(namespace !== undefined ? { namespace } : {}),
+      ...(namePrefix !== undefined ? { namePrefix } : {}),
+      ...(nameSuffix !== undefined ? { nameSuffix } : {}),
+      resources: [
+        ...this.parseResourceRefs(doc.resources, 'resources', warn),
+        ...this.parseResourceRefs(doc.bases, 'bases', warn),
+      ],
+      components: this.parseResourceRefs(doc.components, 'components', warn),
+      patches: this.parsePatches(doc, warn),
+      generators: [
+        ...this.parseGenerators(doc.configMapGenerator, 'ConfigMap', warn),
+        ...this.parseGenerators(doc.secretGenerator, 'Secret', warn),
+      ],
+      images: this.parseImages(doc.images, warn),
+      replicas: this.parseReplicas(doc.replicas, warn),
+      labels: [
+        ...(Object.keys(commonLabels).length > 0
+          ? [{ pairs: commonLabels, includeSelectors: true, includeTemplates: true }]
+          : []),
+        ...this.parseLabels(doc.labels),
+      ],
+      commonAnnotations: toStringRecord(doc.commonAnnotations),
+    };
+  }
+
+  private parseResourceRefs(
+    value: unknown,
+    field: KustomizeResourceField,
+    warn: (code: KustomizeParseError['code'], message: string, key: string) => void
+  ): KustomizeResourceRef[] {
+    const refs: KustomizeResourceRef[] = [];
+    for (const entry of asArray(value)) {
+      if (typeof entry !== 'string' || entry.trim() === '') {
+        warn('INVALID_ENTRY', `${field} entries must be paths or URLs`, field);
+        continue;
+      }
+      const path = entry.trim();
+      refs.push({ path, field, remote: isRemoteKustomizeResource(path) });
+    }
+    return refs;
+  }
+
+  private parsePatches(
+    doc: Record<string, unknown>,
+    warn: (code: KustomizeParseError['code'], message: string, key: string) => void
+  ): KustomizePatch[] {
+    const patches: KustomizePatch[] = [];
+
+    for (const entry of asArray(doc.patches)) {
+      const patch = this.toPatch(entry, 'patches');
+      if (patch) {
+        patches.push(patch);
+      } else {
+        warn('INVALID_ENTRY', 'patches entries need a path or an inline patch', 'patches');
+      }
+    }
+
+    // Entries are file paths or inline YAML documents
+    for (const entry of asArray(doc.patchesStrategicMerge)) {
+      if (typeof entry === 'string' && entry.trim() !== '') {
+        const inline = entry.includes('\n') || /^\s*\w+\s*:/.test(entry);
+        patches.push({
+          ...(inline ? { patch: entry } : { path: entry.trim() }),
+          field: 'patchesStrategicMerge',
+        });
+      } else if (isRecord(entry)) {
+        patches.push({ patch: yaml.stringify(entry), field: 'patchesStrategicMerge' });
+      } else {
+        warn('INVALID_ENTRY', 'patchesStrategicMerge entries must be paths or patches', 'patchesStrategicMerge');
+      }
+    }
+
+    for (const entry of asArray(doc.patchesJson6902)) {
+      const patch = this.toPatch(entry, 'patchesJson6902');
+      if (patch?.target) {
+        patches.push(patch);
+      } else {
+        warn('INVALID_ENTRY', 'patchesJson6902 entries need a target and a path or patch', 'patchesJson6902');
+      }
+    }
+
+    return patches;
+  }
+
+  private toPatch(entry: unknown, field: KustomizePatch['field']): KustomizePatch | null {
+    if (!isRecord(entry)) {
+      return null;
+    }
+    const path = asString(entry.path);
+    const patch = typeof entry.patch === 'string'
+      ? entry.patch
+      : Array.isArray(entry.patch) || isRecord(entry.patch) ? yaml.stringify(entry.patch) : undefined;
+    if (path === undefined && patch === undefined) {
+      return null;
+    }
+    const target = isRecord(entry.target) ? toPatchTarget(entry.target) : undefined;
+
+    return {
+      ...(path !== undefined ? { path } : {}),
+      ...(patch !== undefined ? { patch } : {}),
+      ...(target !== undefined ? { target } : {}),
+      field,
+    };
+  }
+
+  private parseGenerators(
+    value: unknown,
+    kind: KustomizeGenerator['kind'],
+    warn: (code: KustomizeParseError['code'], message: string, key: string) => void
+  ): KustomizeGenerator[] {
+    const key = kind === 'ConfigMap' ? 'configMapGenerator' : 'secretGenerator';
+    const generators: KustomizeGenerator[] = [];
+
+    for (const entry of asArray(value)) {
+      const name = isRecord(entry) ? asString(entry.name) : undefined;
+      if (!isRecord(entry) || name === undefined) {
+        warn('INVALID_ENTRY', `${key} entries need a name`, key);
+        continue;
+      }
+
+      const literals: Record<string, string> = {};
+      for (const literal of asArray(entry.literals)) {
+        if (typeof literal !== 'string') {
+          continue;
+        }
+        const eq = literal.indexOf('=');
+        if (eq > 0) {
+          literals[literal.slice(0, eq)] = literal.slice(eq + 1).replace(/^(["'])(.*)\1$/s, '$2');
+        }
+      }
+
+      const behavior = entry.behavior === 'merge' || entry.behavior === 'replace' ? entry.behavior : 'create';
+      const namespace = asString(entry.namespace);
+      const type = asString(entry.type);
+      const env = asString(entry.env);
+
+      generators.push({
+        kind,
+        name,
+        ...(namespace !== undefined ? { namespace } : {}),
+        behavior,
+        literals,
+        files: asArray(entry.files).filter((f): f is string => typeof f === 'string'),
+        envs: [
+          ...asArray(entry.envs).filter((f): f is string => typeof f === 'string'),
+          ...(env !== undefined ? [env] : []),
+        ],
+        ...(kind === 'Secret' && type !== undefined ? { type } : {}),
+      });
+    }
+
+    return generators;
+  }
+
+  private parseImages(
+    value: unknown,
+    warn: (code: KustomizeParseError['code'], message: string, key: string) => void
+  ): KustomizeImage[] {
+    const images: KustomizeImage[] = [];
+    for (const entry of asArray(value)) {
+      const name = isRecord(entry) ? asString(entry.name) : undefined;
+      if (!isRecord(entry) || name === undefined) {
+        warn('INVALID_ENTRY', 'images entries need a name', 'images');
+        continue;
+      }
+      const newName = asString(entry.newName);
+      // Numeric tags (e.g. newTag: 1.4) arrive as numbers
+      const newTag = entry.newTag !== undefined && entry.newTag !== null ? String(entry.newTag) : undefined;
+      const digest = asString(entry.digest);
+      images.push({
+        name,
+        ...(newName !== undefined ? { newName } : {}),
+        ...(newTag !== undefined ? { newTag } : {}),
+        ...(digest !== undefined ? { digest } : {}),
+      });
+    }
+    return images;
+  }
+
+  private parseReplicas(
+    value: unknown,
+    warn: (code: KustomizeParseError['code'], message: string, key: string) => void
+  ): KustomizeReplicaCount[] {
+    const replicas: KustomizeReplicaCount[] = [];
+    for (const entry of asArray(value)) {
+      const name = isRecord(entry) ? asString(entry.name) : undefined;
+      const count = isRecord(entry) ? Number(entry.count) : NaN;
+      if (name === undefined || !Number.isInteger(count) || count < 0) {
+        warn('INVALID_ENTRY', 'replicas entries need a name and a non-negative count', 'replicas');
+        continue;
+      }
+      replicas.push({ name, count });
+    }
+    return replicas;
+  }
+
+  private parseLabels(value: unknown): KustomizeLabels[] {
+    return asArray(value)
+      .filter(isRecord)
+      .map(entry => {
+        const includeSelectors = entry.includeSelectors === true;
+        return {
+          pairs: toStringRecord(entry.pairs),
+          includeSelectors,
+          includeTemplates: includeSelectors || entry.includeTemplates === true,
+        };
+      })
+      .filter(labels => Object.keys(labels.pairs).length > 0);
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function toPatchTarget(target: Record<string, unknown>): KustomizePatchTarget {
+  const result: Record<string, string> = {};
+  for (const key of ['group', 'version', 'kind', 'name', 'namespace', 'labelSelector', 'annotationSelector']) {
+    const value = asString(target[key]);
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result as KustomizePatchTarget;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function asString(value: unknown): string | undefined {
+  return typeof value === 'string' && value !== '' ? value : undefined;
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (isRecord(value)) {
+    for (const [key, v] of Object.entries(value)) {
+      if (v !== null && v !== undefined) {
+        result[key] = String(v);
+      }
+    }
+  }
+  return result;
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new kustomization parser instance
+ */
+export function createKustomizeParser(
+  options?: ParserOptions & Partial<KustomizeParserOptions>
+): KustomizeParser {
+  return new KustomizeParser(options);
+}
+
+/**
+ * Parse kustomization file content directly
+ */
+export async function parseKustomization(
+  content: string,
+  filePath: string,
+  options?: ParserOptions & Partial<KustomizeParserOptions>
+): Promise<ParseResult<KustomizeParseResult>> {
+  const parser = createKustomizeParser(options);
+  return parser.parse(content, filePath, options);
+}
@@ -0,0 +1,90 @@
+/**
+ * Kustomize Node Factory
+ * @module parsers/kustomize/node-factory
+ *
+ * Converts parsed kustomization files into kustomization nodes and rendered
+ * resources into K8s nodes annotated with the kustomization that output them.
+ *
+ * TASK-KUSTOMIZE-001: Kustomize overlay parsing for dependency detection
+ */
+
+import {
+  createKustomizationNodeId,
+  type Kustomization,
+  type KustomizeRenderedManifest,
+} from './types.js';
+import { createK8sNode } from '../kubernetes/node-factory.js';
+
+import type { KustomizationNode } from '../../types/graph.js';
+import type { K8sNode } from '../kubernetes/types.js';
+
+
+// ============================================================================
+// Node Creation
+// ============================================================================
+
+/**
+ * Create the node for a kustomization file
+ *
+ * @param kustomization - Parsed kustomization
+ * @param lineCount - Number of lines in the file
+ */
+export function createKustomizationNode(
+  kustomization: Kustomization,
+  lineCount: number = 1
+): KustomizationNode {
+  return {
+    id: createKustomizationNodeId(kustomization.directory),
+    type: 'kustomization',
+    name: kustomization.directory,
+    location: {
+      file: kustomization.filePath,
+      lineStart: 1,
+      lineEnd: Math.max(lineCount, 1),
+    },
+    directory: kustomization.directory,
+    isComponent: kustomization.kind === 'Component',
+    ...(kustomization.namespace !== undefined ? { namespace: kustomization.namespace } : {}),
+    ...(kustomization.namePrefix !== undefined ? { namePrefix: kustomization.namePrefix } : {}),
+    ...(kustomization.nameSuffix !== undefined ? { nameSuffix: kustomization.nameSuffix } : {}),
+    metadata: {
+      kind: kustomization.kind,
+      resources: kustomization.resources.map(ref => ref.path),
+      components: kustomization.components.map(ref => ref.path),
+      patches: kustomization.patches.map(patch => patch.path ?? 'inline'),
+      generators: kustomization.generators.map(g => `${g.kind}/${g.name}`),
+      images: kustomization.images.map(image => image.name),
+      namespace: kustomization.namespace,
+      namePrefix: kustomization.namePrefix,
+      nameSuffix: kustomization.nameSuffix,
+    },
+  };
+}
+
+/**
+ * Create the K8s node for a resource rendered by a kustomization.
+ * The node keeps the location of the manifest the resource came from and
+ * records the kustomization in its metadata.
+ *
+ * @param rendered - Rendered resource
+ * @param kustomization - Kustomization that output the resource
+ * @returns Node, or null if the kind has no dedicated node type
+ */
+export function createKustomizeResourceNode(
+  rendered: KustomizeRenderedManifest,
+  kustomization: Kustomization
+): K8sNode | null {
+  const node = createK8sNode(rendered.manifest);
+  if (!node) {
+    return null;
+  }
+
+  return {
+    ...node,
+    metadata: {
+      ...node.metadata,
+      kustomization: kustomization.filePath,
+      sourceFile: rendered.sourceFile,
+    },
+  };
+}
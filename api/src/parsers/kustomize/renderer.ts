@@ -0,0 +1,1068 @@
+/**
+ * Kustomize Renderer
+ * @module parsers/kustomize/renderer
+ *
+ * Renders kustomizations into the effective Kubernetes resources
+ * `kustomize build` would output, using the manifests parsed from the same
+ * scan. Bases and components are resolved by directory, then generators,
+ * patches (strategic merge and JSON 6902), namespace, name prefix/suffix,
+ * labels, annotations, replicas and image overrides are applied in the order
+ * kustomize applies its built-in transformers.
+ *
+ * Generated ConfigMaps and Secrets keep their names without the content hash
+ * suffix, since only file names (not contents) of generator sources are known.
+ *
+ * TASK-KUSTOMIZE-001: Kustomize overlay parsing for dependency detection
+ */
+
+import * as yaml from 'yaml';
+
+import {
+  createKustomizeBaseEdge,
+  createKustomizePatchesEdge,
+  createKustomizeRendersEdge,
+} from './edge-factory.js';
+import { createKustomizeResourceNode } from './node-factory.js';
+import {
+  resolveKustomizePath,
+  type Kustomization,
+  type KustomizeImage,
+  type KustomizeParseError,
+  type KustomizePatch,
+  type KustomizePatchTarget,
+  type KustomizeRenderResult,
+  type KustomizeResourceRef,
+} from './types.js';
+import { createK8sNode } from '../kubernetes/node-factory.js';
+import {
+  K8S_CLUSTER_SCOPED_KINDS,
+  type K8sManifest,
+  type K8sNode,
+} from '../kubernetes/types.js';
+
+import type { GraphEdge } from '../../types/graph.js';
+
+/**
+ * Resource being rendered: the full object plus where it came from
+ */
+interface RenderedResource {
+  obj: Record<string, unknown>;
+  readonly sourceFile: string;
+  readonly documentIndex: number;
+  readonly lineRange: { readonly start: number; readonly end: number };
+  /** Names the resource had before prefix/suffix transforms, oldest first */
+  readonly previousNames: string[];
+}
+
+/**
+ * Resource changed by a patch, recorded for kustomize_patches edges
+ */
+interface PatchRecord {
+  readonly kustomization: Kustomization;
+  readonly resource: RenderedResource;
+  readonly patch: string;
+}
+
+/**
+ * Kinds whose replica count the `replicas` field sets
+ */
+const SCALABLE_KINDS: ReadonlySet<string> = new Set([
+  'Deployment',
+  'StatefulSet',
+  'ReplicaSet',
+  'ReplicationController',
+]);
+
+/**
+ * Kinds whose `spec.selector.matchLabels` receives common labels
+ */
+const MATCH_LABEL_SELECTOR_KINDS: ReadonlySet<string> = new Set([
+  'Deployment',
+  'StatefulSet',
+  'DaemonSet',
+  'ReplicaSet',
+]);
+
+/**
+ * List merge keys used by strategic merge patches, by field name.
+ * Other lists of objects merge by `name`.
+ */
+const LIST_MERGE_KEYS: Readonly<Record<string, readonly string[]>> = {
+  ports: ['containerPort', 'port'],
+  volumeMounts: ['mountPath'],
+  volumeDevices: ['devicePath'],
+  hostAliases: ['ip'],
+};
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Render every kustomization of a scan.
+ *
+ * Each non-component kustomization outputs its effective resources as K8s
+ * nodes (deduplicated by ID, so a base rendered unchanged maps onto the nodes
+ * of its plain manifests) with kustomize_renders edges to them. Overlays get
+ * kustomize_base edges to their bases and components, and kustomize_patches
+ * edges to the resources their patches change.
+ *
+ * @param kustomizations - Parsed kustomization files
+ * @param manifests - K8s manifests parsed from the other files of the scan
+ */
+export function renderKustomizations(
+  kustomizations: readonly Kustomization[],
+  manifests: readonly K8sManifest[]
+): KustomizeRenderResult {
+  return new KustomizeRenderer(kustomizations, manifests).renderAll();
+}
+
+// ============================================================================
+// Renderer
+// ============================================================================
+
+class KustomizeRenderer {
+  private readonly byDirectory = new Map<string, Kustomization>();
+  private readonly manifestsByFile = new Map<string, K8sManifest[]>();
+  private readonly rendered = new Map<string, RenderedResource[]>();
+  private readonly inProgress = new Set<string>();
+  private readonly patchFiles = new Set<string>();
+  private readonly edges = new Map<string, GraphEdge>();
+  private readonly warnings: KustomizeParseError[] = [];
+
+  constructor(
+    private readonly kustomizations: readonly Kustomization[],
+    manifests: readonly K8sManifest[]
+  ) {
+    for (const kustomization of kustomizations) {
+      this.byDirectory.set(kustomization.directory, kustomization);
+    }
+    for (const manifest of manifests) {
+      const file = resolveKustomizePath('.', manifest.filePath);
+      const list = this.manifestsByFile.get(file) ?? [];
+      list.push(manifest);
+      this.manifestsByFile.set(file, list);
+    }
+    // Patch files hold partial objects, never resources
+    for (const kustomization of kustomizations) {
+      for (const patch of kustomization.patches) {
+        if (patch.path !== undefined) {
+          this.patchFiles.add(resolveKustomizePath(kustomization.directory, patch.path));
+        }
+      }
+    }
+  }
+
+  renderAll(): KustomizeRenderResult {
+    const nodes = new Map<string, K8sNode>();
+
+    for (const kustomization of this.kustomizations) {
+      if (kustomization.kind === 'Component') {
+        continue;
+      }
+
+      for (const resource of this.render(kustomization)) {
+        const manifest = toManifest(resource);
+        const node = manifest
+          ? createKustomizeResourceNode({ manifest, sourceFile: resource.sourceFile }, kustomization)
+          : null;
+        if (!node) {
+          continue;
+        }
+        if (!nodes.has(node.id)) {
+          nodes.set(node.id, node);
+        }
+        this.addEdge(createKustomizeRendersEdge(kustomization, node.id, resource.sourceFile));
+      }
+    }
+
+    return {
+      resourceNodes: Array.from(nodes.values()),
+      edges: Array.from(this.edges.values()),
+      patchFiles: this.patchFiles,
+      warnings: this.warnings,
+    };
+  }
+
+  /**
+   * Render a kustomization, memoized by directory. Returns copies so callers
+   * can transform the resources further.
+   */
+  private render(kustomization: Kustomization): RenderedResource[] {
+    const { directory } = kustomization;
+    let resources = this.rendered.get(directory);
+
+    if (!resources) {
+      if (this.inProgress.has(directory)) {
+        this.warn(kustomization, 'CYCLE', `${directory} is part of a resource cycle`);
+        return [];
+      }
+
+      this.inProgress.add(directory);
+      const patched: PatchRecord[] = [];
+      resources = this.build(kustomization, [], patched);
+      this.inProgress.delete(directory);
+      this.rendered.set(directory, resources);
+
+      // IDs are final only after every transform of the kustomization ran
+      for (const record of patched) {
+        const id = toResourceId(record.resource);
+        if (id !== null) {
+          this.addEdge(createKustomizePatchesEdge(record.kustomization, id, record.patch));
+        }
+      }
+    }
+
+    return resources.map(cloneResource);
+  }
+
+  /**
+   * Load resources and components on top of `initial`, then run generators
+   * and transforms. Components are built on their parent's resources.
+   */
+  private build(
+    kustomization: Kustomization,
+    initial: RenderedResource[],
+    patched: PatchRecord[]
+  ): RenderedResource[] {
+    let resources = [...initial];
+
+    for (const ref of kustomization.resources) {
+      resources.push(...this.loadResource(kustomization, ref));
+    }
+
+    for (const ref of kustomization.components) {
+      const component = this.resolveKustomization(kustomization, ref);
+      if (!component) {
+        continue;
+      }
+      if (this.inProgress.has(component.directory)) {
+        this.warn(kustomization, 'CYCLE', `${component.directory} is part of a component cycle`);
+        continue;
+      }
+      this.addEdge(createKustomizeBaseEdge(kustomization, component, ref.field));
+      this.inProgress.add(component.directory);
+      resources = this.build(component, resources, patched);
+      this.inProgress.delete(component.directory);
+    }
+
+    this.generate(kustomization, resources);
+    this.transform(kustomization, resources, patched);
+    return resources;
+  }
+
+  private loadResource(kustomization: Kustomization, ref: KustomizeResourceRef): RenderedResource[] {
+    if (ref.remote) {
+      this.warn(kustomization, 'REMOTE_RESOURCE', `Remote resource ${ref.path} is not rendered`);
+      return [];
+    }
+
+    const path = resolveKustomizePath(kustomization.directory, ref.path);
+    const base = this.byDirectory.get(path);
+    if (base) {
+      this.addEdge(createKustomizeBaseEdge(kustomization, base, ref.field));
+      return this.render(base);
+    }
+
+    const manifests = this.manifestsByFile.get(path);
+    if (manifests && !this.patchFiles.has(path)) {
+      return manifests.map(manifest => ({
+        obj: toObject(manifest),
+        sourceFile: manifest.filePath,
+        documentIndex: manifest.documentIndex,
+        lineRange: manifest.lineRange,
+        previousNames: [],
+      }));
+    }
+
+    this.warn(kustomization, 'UNRESOLVED_RESOURCE', `${ref.field} entry ${ref.path} matches no kustomization or manifest`);
+    return [];
+  }
+
+  private resolveKustomization(kustomization: Kustomization, ref: KustomizeResourceRef): Kustomization | undefined {
+    if (ref.remote) {
+      this.warn(kustomization, 'REMOTE_RESOURCE', `Remote component ${ref.path} is not rendered`);
+      return undefined;
+    }
+    const component = this.byDirectory.get(resolveKustomizePath(kustomization.directory, ref.path));
+    if (!component) {
+      this.warn(kustomization, 'UNRESOLVED_RESOURCE', `Component ${ref.path} has no kustomization file`);
+    }
+    return component;
+  }
+
+  // ============================================================================
+  // Generators
+  // ============================================================================
+
+  private generate(kustomization: Kustomization, resources: RenderedResource[]): void {
+    for (const generator of kustomization.generators) {
+      const data: Record<string, string> = { ...generator.literals };
+      for (const file of generator.files) {
+        const eq = file.indexOf('=');
+        const key = eq > 0 ? file.slice(0, eq) : file.split('/').pop() ?? file;
+        data[key] = '';
+      }
+      const encoded = generator.kind === 'Secret'
+        ? Object.fromEntries(Object.entries(data).map(([k, v]) => [k, Buffer.from(v).toString('base64')]))
+        : data;
+
+      if (generator.behavior === 'create') {
+        resources.push({
+          obj: {
+            apiVersion: 'v1',
+            kind: generator.kind,
+            metadata: {
+              name: generator.name,
+              ...(generator.namespace !== undefined ? { namespace: generator.namespace } : {}),
+            },
+            ...(generator.kind === 'Secret' ? { type: generator.type ?? 'Opaque' } : {}),
+            data: encoded,
+          },
+          sourceFile: kustomization.filePath,
+          documentIndex: 0,
+          lineRange: { start: 1, end: 1 },
+          previousNames: [],
+        });
+        continue;
+      }
+
+      const existing = resources.find(r => kindOf(r) === generator.kind && hasName(r, generator.name));
+      if (!existing) {
+        this.warn(kustomization, 'UNRESOLVED_RESOURCE',
+          `${generator.kind} ${generator.name} to ${generator.behavior} is not in any base`);
+        continue;
+      }
+      existing.obj.data = generator.behavior === 'merge'
+        ? { ...asRecord(existing.obj.data), ...encoded }
+        : encoded;
+    }
+  }
+
+  // ============================================================================
+  // Transforms
+  // ============================================================================
+
+  private transform(kustomization: Kustomization, resources: RenderedResource[], patched: PatchRecord[]): void {
+    for (const patch of kustomization.patches) {
+      this.applyPatch(kustomization, patch, resources, patched);
+    }
+
+    if (kustomization.namespace !== undefined) {
+      applyNamespace(resources, kustomization.namespace);
+    }
+
+    if (kustomization.namePrefix !== undefined || kustomization.nameSuffix !== undefined) {
+      applyNamePrefixSuffix(resources, kustomization.namePrefix ?? '', kustomization.nameSuffix ?? '');
+    }
+
+    for (const labels of kustomization.labels) {
+      applyLabels(resources, labels.pairs, labels.includeSelectors, labels.includeTemplates);
+    }
+
+    if (Object.keys(kustomization.commonAnnotations).length > 0) {
+      applyAnnotations(resources, kustomization.commonAnnotations);
+    }
+
+    for (const replica of kustomization.replicas) {
+      for (const resource of resources) {
+        if (SCALABLE_KINDS.has(kindOf(resource)) && hasName(resource, replica.name)) {
+          resource.obj.spec = { ...asRecord(resource.obj.spec), replicas: replica.count };
+        }
+      }
+    }
+
+    if (kustomization.images.length > 0) {
+      for (const resource of resources) {
+        applyImages(resource, kustomization.images);
+      }
+    }
+  }
+
+  private applyPatch(
+    kustomization: Kustomization,
+    patch: KustomizePatch,
+    resources: RenderedResource[],
+    patched: PatchRecord[]
+  ): void {
+    const label = patch.path ?? 'inline';
+    const documents = this.loadPatchDocuments(kustomization, patch);
+
+    const record = (resource: RenderedResource): void => {
+      if (!patched.some(p => p.resource === resource && p.kustomization === kustomization && p.patch === label)) {
+        patched.push({ kustomization, resource, patch: label });
+      }
+    };
+
+    // Unreadable patch with a target: the dependency is still known
+    if (documents.length === 0) {
+      if (patch.target) {
+        resources.filter(r => matchesTarget(r, patch.target as KustomizePatchTarget)).forEach(record);
+      }
+      return;
+    }
+
+    for (const document of documents) {
+      const targets = patch.target
+        ? resources.filter(r => matchesTarget(r, patch.target as KustomizePatchTarget))
+        : isRecord(document) ? resources.filter(r => matchesPatchIdentity(r, document)) : [];
+
+      if (targets.length === 0) {
+        this.warn(kustomization, 'UNRESOLVED_PATCH', `Patch ${label} matches no resource`);
+        continue;
+      }
+
+      for (const resource of targets) {
+        if (Array.isArray(document)) {
+          const failed = applyJsonPatch(resource.obj, document);
+          if (failed.length > 0) {
+            this.warn(kustomization, 'INVALID_ENTRY',
+              `Patch ${label} could not apply ${failed.join(', ')} to ${kindOf(resource)} ${nameOf(resource)}`);
+          }
+        } else if (isRecord(document)) {
+          resource.obj = strategicMerge(resource.obj, stripIdentity(document)) as Record<string, unknown>;
+        }
+        record(resource);
+      }
+    }
+  }
+
+  /**
+   * Patch documents: objects for strategic merge patches, operation lists for
+   * JSON 6902 patches. File patches come from the scan's parsed manifests, so
+   * only object patches are available for them.
+   */
+  private loadPatchDocuments(kustomization: Kustomization, patch: KustomizePatch): unknown[] {
+    if (patch.patch !== undefined) {
+      const documents = yaml.parseAllDocuments(patch.patch, { strict: false, uniqueKeys: false });
+      const docs = Array.isArray(documents) ? documents : [];
+      const values = docs
+        .filter(doc => doc.errors.length === 0)
+        .map(doc => doc.toJS({ maxAliasCount: 100 }) as unknown)
+        .filter(value => isRecord(value) || Array.isArray(value));
+      if (values.length === 0) {
+        this.warn(kustomization, 'UNRESOLVED_PATCH', 'Inline patch is empty or not valid YAML');
+      }
+      return values;
+    }
+
+    const path = resolveKustomizePath(kustomization.directory, patch.path ?? '');
+    const manifests = this.manifestsByFile.get(path);
+    if (!manifests) {
+      this.warn(kustomization, 'UNRESOLVED_PATCH', `Patch file ${patch.path ?? ''} was not parsed`);
+      return [];
+    }
+    return manifests.map(toObject);
+  }
+
+  private addEdge(edge: GraphEdge): void {
+    if (!this.edges.has(edge.id)) {
+      this.edges.set(edge.id, edge);
+    }
+  }
+
+  private warn(kustomization: Kustomization, code: KustomizeParseError['code'], message: string): void {
+    this.warnings.push({ message, file: kustomization.filePath, severity: 'warning', code });
+  }
+}
+
+// ============================================================================
+// Transform Helpers
+// ============================================================================
+
+function applyNamespace(resources: readonly RenderedResource[], namespace: string): void {
+  const serviceAccounts = new Set(
+    resources.filter(r => kindOf(r) === 'ServiceAccount').map(nameOf)
+  );
+
+  for (const resource of resources) {
+    const kind = kindOf(resource);
+    if (!K8S_CLUSTER_SCOPED_KINDS.has(kind)) {
+      metadataOf(resource).namespace = namespace;
+    }
+    // Bindings follow the service accounts they grant to
+    if (kind === 'RoleBinding' || kind === 'ClusterRoleBinding') {
+      for (const subject of asArray(resource.obj.subjects).filter(isRecord)) {
+        if (subject.kind === 'ServiceAccount' && serviceAccounts.has(String(subject.name))) {
+          subject.namespace = namespace;
+        }
+      }
+    }
+  }
+}
+
+function applyNamePrefixSuffix(resources: readonly RenderedResource[], prefix: string, suffix: string): void {
+  const renames = new Map<string, Map<string, string>>();
+
+  for (const resource of resources) {
+    const kind = kindOf(resource);
+    // CRD names must be <plural>.<group>
+    if (kind === 'CustomResourceDefinition') {
+      continue;
+    }
+    const name = nameOf(resource);
+    const renamed = `${prefix}${name}${suffix}`;
+    resource.previousNames.push(name);
+    metadataOf(resource).name = renamed;
+
+    const byName = renames.get(kind) ?? new Map<string, string>();
+    byName.set(name, renamed);
+    renames.set(kind, byName);
+  }
+
+  for (const resource of resources) {
+    rewriteReferences(resource, (kind, name) => renames.get(kind)?.get(name));
+  }
+}
+
+/**
+ * Update references to renamed ConfigMaps, Secrets, ServiceAccounts, PVCs,
+ * Services and Roles so they keep pointing at the renamed objects
+ */
+function rewriteReferences(
+  resource: RenderedResource,
+  rename: (kind: string, name: string) => string | undefined
+): void {
+  const update = (holder: Record<string, unknown>, key: string, kind: string): void => {
+    const current = holder[key];
+    if (typeof current === 'string') {
+      const renamed = rename(kind, current);
+      if (renamed !== undefined) {
+        holder[key] = renamed;
+      }
+    }
+  };
+
+  const spec = asRecord(resource.obj.spec);
+
+  for (const podSpec of getPodSpecs(resource)) {
+    update(podSpec, 'serviceAccountName', 'ServiceAccount');
+    update(podSpec, 'serviceAccount', 'ServiceAccount');
+    for (const secret of asArray(podSpec.imagePullSecrets).filter(isRecord)) {
+      update(secret, 'name', 'Secret');
+    }
+
+    for (const volume of asArray(podSpec.volumes).filter(isRecord)) {
+      if (isRecord(volume.configMap)) update(volume.configMap, 'name', 'ConfigMap');
+      if (isRecord(volume.secret)) update(volume.secret, 'secretName', 'Secret');
+      if (isRecord(volume.persistentVolumeClaim)) update(volume.persistentVolumeClaim, 'claimName', 'PersistentVolumeClaim');
+      for (const source of asArray(asRecord(volume.projected).sources).filter(isRecord)) {
+        if (isRecord(source.configMap)) update(source.configMap, 'name', 'ConfigMap');
+        if (isRecord(source.secret)) update(source.secret, 'name', 'Secret');
+      }
+    }
+
+    for (const container of getContainers(podSpec)) {
+      for (const envFrom of asArray(container.envFrom).filter(isRecord)) {
+        if (isRecord(envFrom.configMapRef)) update(envFrom.configMapRef, 'name', 'ConfigMap');
+        if (isRecord(envFrom.secretRef)) update(envFrom.secretRef, 'name', 'Secret');
+      }
+      for (const env of asArray(container.env).filter(isRecord)) {
+        const valueFrom = asRecord(env.valueFrom);
+        if (isRecord(valueFrom.configMapKeyRef)) update(valueFrom.configMapKeyRef, 'name', 'ConfigMap');
+        if (isRecord(valueFrom.secretKeyRef)) update(valueFrom.secretKeyRef, 'name', 'Secret');
+      }
+    }
+  }
+
+  switch (kindOf(resource)) {
+    case 'StatefulSet':
+      update(spec, 'serviceName', 'Service');
+      break;
+
+    case 'Ingress': {
+      const backends = [
+        asRecord(spec.defaultBackend),
+        ...asArray(spec.rules).filter(isRecord).flatMap(rule =>
+          asArray(asRecord(rule.http).paths).filter(isRecord).map(path => asRecord(path.backend))
+        ),
+      ];
+      for (const backend of backends) {
+        if (isRecord(backend.service)) update(backend.service, 'name', 'Service');
+        update(backend, 'serviceName', 'Service');
+      }
+      break;
+    }
+
+    case 'RoleBinding':
+    case 'ClusterRoleBinding': {
+      const roleRef = asRecord(resource.obj.roleRef);
+      if (typeof roleRef.kind === 'string') update(roleRef, 'name', roleRef.kind);
+      for (const subject of asArray(resource.obj.subjects).filter(isRecord)) {
+        if (subject.kind === 'ServiceAccount') update(subject, 'name', 'ServiceAccount');
+      }
+      break;
+    }
+
+    case 'HorizontalPodAutoscaler': {
+      const scaleTargetRef = asRecord(spec.scaleTargetRef);
+      if (typeof scaleTargetRef.kind === 'string') update(scaleTargetRef, 'name', scaleTargetRef.kind);
+      break;
+    }
+
+    default:
+      break;
+  }
+}
+
+function applyLabels(
+  resources: readonly RenderedResource[],
+  labels: Readonly<Record<string, string>>,
+  includeSelectors: boolean,
+  includeTemplates: boolean
+): void {
+  for (const resource of resources) {
+    const metadata = metadataOf(resource);
+    metadata.labels = { ...asRecord(metadata.labels), ...labels };
+
+    if (includeTemplates) {
+      for (const template of getPodTemplates(resource)) {
+        const templateMetadata = asRecord(template.metadata);
+        template.metadata = { ...templateMetadata, labels: { ...asRecord(templateMetadata.labels), ...labels } };
+      }
+    }
+
+    if (!includeSelectors) {
+      continue;
+    }
+    const kind = kindOf(resource);
+    const spec = asRecord(resource.obj.spec);
+    if (MATCH_LABEL_SELECTOR_KINDS.has(kind)) {
+      const selector = asRecord(spec.selector);
+      resource.obj.spec = {
+        ...spec,
+        selector: { ...selector, matchLabels: { ...asRecord(selector.matchLabels), ...labels } },
+      };
+    } else if ((kind === 'Service' || kind === 'ReplicationController') && isRecord(spec.selector)) {
+      resource.obj.spec = { ...spec, selector: { ...spec.selector, ...labels } };
+    }
+  }
+}
+
+function applyAnnotations(
+  resources: readonly RenderedResource[],
+  annotations: Readonly<Record<string, string>>
+): void {
+  for (const resource of resources) {
+    const metadata = metadataOf(resource);
+    metadata.annotations = { ...asRecord(metadata.annotations), ...annotations };
+
+    for (const template of getPodTemplates(resource)) {
+      const templateMetadata = asRecord(template.metadata);
+      template.metadata = {
+        ...templateMetadata,
+        annotations: { ...asRecord(templateMetadata.annotations), ...annotations },
+      };
+    }
+  }
+}
+
+function applyImages(resource: RenderedResource, images: readonly KustomizeImage[]): void {
+  for (const podSpec of getPodSpecs(resource)) {
+    for (const container of getContainers(podSpec)) {
+      if (typeof container.image !== 'string') {
+        continue;
+      }
+      for (const image of images) {
+        const replaced = overrideImage(container.image, image);
+        if (replaced !== null) {
+          container.image = replaced;
+          break;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Apply an `images` entry to a container image, or return null if the image
+ * is not the one the entry names
+ */
+function overrideImage(reference: string, image: KustomizeImage): string | null {
+  const at = reference.indexOf('@');
+  const withoutDigest = at === -1 ? reference : reference.slice(0, at);
+  const colon = withoutDigest.lastIndexOf(':');
+  const hasTag = colon > withoutDigest.lastIndexOf('/');
+  const name = hasTag ? withoutDigest.slice(0, colon) : withoutDigest;
+  if (name !== image.name) {
+    return null;
+  }
+
+  const newName = image.newName ?? name;
+  if (image.digest !== undefined) {
+    return `${newName}@${image.digest}`;
+  }
+  if (image.newTag !== undefined) {
+    return `${newName}:${image.newTag}`;
+  }
+  return `${newName}${reference.slice(name.length)}`;
+}
+
+// ============================================================================
+// Patch Helpers
+// ============================================================================
+
+/**
+ * Whether a strategic merge patch without target addresses the resource
+ * (same kind and current or original name)
+ */
+function matchesPatchIdentity(resource: RenderedResource, patch: Record<string, unknown>): boolean {
+  const metadata = asRecord(patch.metadata);
+  if (patch.kind !== kindOf(resource) || typeof metadata.name !== 'string' || !hasName(resource, metadata.name)) {
+    return false;
+  }
+  return typeof metadata.namespace !== 'string' || metadata.namespace === metadataOf(resource).namespace;
+}
+
+function matchesTarget(resource: RenderedResource, target: KustomizePatchTarget): boolean {
+  const apiVersion = typeof resource.obj.apiVersion === 'string' ? resource.obj.apiVersion : '';
+  const slash = apiVersion.indexOf('/');
+  const group = slash === -1 ? '' : apiVersion.slice(0, slash);
+  const version = slash === -1 ? apiVersion : apiVersion.slice(slash + 1);
+  const metadata = metadataOf(resource);
+
+  if (target.kind !== undefined && target.kind !== kindOf(resource)) return false;
+  if (target.group !== undefined && target.group !== group) return false;
+  if (target.version !== undefined && target.version !== version) return false;
+  if (target.namespace !== undefined && target.namespace !== metadata.namespace) return false;
+
+  if (target.name !== undefined) {
+    const pattern = toAnchoredRegExp(target.name);
+    const names = [nameOf(resource), ...resource.previousNames];
+    if (!names.some(name => pattern ? pattern.test(name) : name === target.name)) {
+      return false;
+    }
+  }
+
+  return (
+    (target.labelSelector === undefined || matchesSelector(asRecord(metadata.labels), target.labelSelector)) &&
+    (target.annotationSelector === undefined ||
+      matchesSelector(asRecord(metadata.annotations), target.annotationSelector))
+  );
+}
+
+/**
+ * Match equality-based selectors (`a=b,c!=d,e`)
+ */
+function matchesSelector(values: Record<string, unknown>, selector: string): boolean {
+  return selector.split(',').map(part => part.trim()).filter(Boolean).every(requirement => {
+    const notEqual = requirement.indexOf('!=');
+    if (notEqual !== -1) {
+      return String(values[requirement.slice(0, notEqual).trim()]) !== requirement.slice(notEqual + 2).trim();
+    }
+    const equal = requirement.indexOf('=');
+    if (equal === -1) {
+      return requirement.startsWith('!') ? !(requirement.slice(1) in values) : requirement in values;
+    }
+    const key = requirement.slice(0, equal).trim();
+    const value = requirement.slice(equal + 1).replace(/^=/, '').trim();
+    return values[key] !== undefined && String(values[key]) === value;
+  });
+}
+
+function toAnchoredRegExp(pattern: string): RegExp | null {
+  try {
+    return new RegExp(`^(?:${pattern})$`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remove the fields that address the patch target so they are not merged
+ */
+function stripIdentity(patch: Record<string, unknown>): Record<string, unknown> {
+  const { apiVersion: _apiVersion, kind: _kind, metadata, ...rest } = patch;
+  if (!isRecord(metadata)) {
+    return rest;
+  }
+  const { name: _name, namespace: _namespace, ...otherMetadata } = metadata;
+  return Object.keys(otherMetadata).length > 0 ? { ...rest, metadata: otherMetadata } : rest;
+}
+
+/**
+ * Strategic merge: maps merge recursively, `null` deletes a key, lists of
+ * objects merge by their merge key, `$patch: delete|replace` directives apply
+ * to maps and list items, other lists are replaced
+ */
+function strategicMerge(target: unknown, patch: unknown, field: string = ''): unknown {
+  if (Array.isArray(patch)) {
+    return Array.isArray(target) ? mergeList(target, patch, field) : structuredClone(patch);
+  }
+  if (!isRecord(patch)) {
+    return structuredClone(patch);
+  }
+  if (patch.$patch === 'replace') {
+    const { $patch: _directive, ...replacement } = patch;
+    return structuredClone(replacement);
+  }
+
+  const result: Record<string, unknown> = isRecord(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (key.startsWith('$')) {
+      continue;
+    }
+    if (value === null || (isRecord(value) && value.$patch === 'delete')) {
+      delete result[key];
+    } else {
+      result[key] = strategicMerge(result[key], value, key);
+    }
+  }
+  return result;
+}
+
+function mergeList(target: readonly unknown[], patch: readonly unknown[], field: string): unknown[] {
+  const candidates = LIST_MERGE_KEYS[field] ?? ['name'];
+  const mergeKey = candidates.find(key =>
+    patch.length > 0 && patch.every(item => isRecord(item) && item[key] !== undefined)
+  );
+  if (mergeKey === undefined || !target.every(isRecord)) {
+    return structuredClone([...patch]);
+  }
+
+  const result = [...target] as Record<string, unknown>[];
+  for (const item of patch as Record<string, unknown>[]) {
+    const index = result.findIndex(existing => existing[mergeKey] === item[mergeKey]);
+    if (item.$patch === 'delete') {
+      if (index !== -1) {
+        result.splice(index, 1);
+      }
+    } else if (index !== -1) {
+      result[index] = strategicMerge(result[index], item) as Record<string, unknown>;
+    } else {
+      result.push(structuredClone(item));
+    }
+  }
+  return result;
+}
+
+/**
+ * Apply JSON 6902 operations in place.
+ *
+ * @returns Operations that could not be applied
+ */
+function applyJsonPatch(document: Record<string, unknown>, operations: readonly unknown[]): string[] {
+  const failed: string[] = [];
+
+  for (const operation of operations) {
+    if (!isRecord(operation) || typeof operation.op !== 'string' || typeof operation.path !== 'string') {
+      failed.push('malformed operation');
+      continue;
+    }
+    const path = parsePointer(operation.path);
+    const from = typeof operation.from === 'string' ? parsePointer(operation.from) : null;
+    let ok: boolean;
+
+    switch (operation.op) {
+      case 'add':
+        ok = setAt(document, path, structuredClone(operation.value), true);
+        break;
+      case 'replace':
+        ok = getAt(document, path) !== undefined && setAt(document, path, structuredClone(operation.value), false);
+        break;
+      case 'remove':
+        ok = removeAt(document, path) !== undefined;
+        break;
+      case 'copy': {
+        const value = from ? getAt(document, from) : undefined;
+        ok = value !== undefined && setAt(document, path, structuredClone(value), true);
+        break;
+      }
+      case 'move': {
+        const value = from ? removeAt(document, from) : undefined;
+        ok = value !== undefined && setAt(document, path, value, true);
+        break;
+      }
+      case 'test':
+        ok = true;
+        break;
+      default:
+        ok = false;
+    }
+
+    if (!ok) {
+      failed.push(`${operation.op} ${operation.path}`);
+    }
+  }
+
+  return failed;
+}
+
+function parsePointer(pointer: string): string[] {
+  return pointer === ''
+    ? []
+    : pointer.replace(/^\//, '').split('/').map(s => s.replace(/~1/g, '/').replace(/~0/g, '~'));
+}
+
+function getAt(document: unknown, path: readonly string[]): unknown {
+  let current: unknown = document;
+  for (const segment of path) {
+    if (Array.isArray(current)) {
+      current = current[Number(segment)];
+    } else if (isRecord(current)) {
+      current = current[segment];
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+function setAt(document: Record<string, unknown>, path: readonly string[], value: unknown, insert: boolean): boolean {
+  const key = path[path.length - 1];
+  const parent = getAt(document, path.slice(0, -1));
+  if (key === undefined) {
+    return false;
+  }
+  if (Array.isArray(parent)) {
+    const index = key === '-' ? parent.length : Number(key);
+    if (!Number.isInteger(index) || index < 0 || index > parent.length) {
+      return false;
+    }
+    parent.splice(index, insert ? 0 : 1, value);
+    return true;
+  }
+  if (isRecord(parent)) {
+    parent[key] = value;
+    return true;
+  }
+  return false;
+}
+
+function removeAt(document: Record<string, unknown>, path: readonly string[]): unknown {
+  const key = path[path.length - 1];
+  const parent = getAt(document, path.slice(0, -1));
+  if (key === undefined) {
+    return undefined;
+  }
+  if (Array.isArray(parent)) {
+    const index = Number(key);
+    return Number.isInteger(index) && index >= 0 && index < parent.length
+      ? parent.splice(index, 1)[0]
+      : undefined;
+  }
+  if (isRecord(parent) && key in parent) {
+    const value = parent[key];
+    delete parent[key];
+    return value;
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Object Helpers
+// ============================================================================
+
+function toObject(manifest: K8sManifest): Record<string, unknown> {
+  return structuredClone({
+    apiVersion: manifest.apiVersion,
+    kind: manifest.kind,
+    metadata: {
+      name: manifest.name,
+      ...(manifest.namespace !== undefined ? { namespace: manifest.namespace } : {}),
+      labels: manifest.labels,
+      annotations: manifest.annotations,
+    },
+    ...manifest.body,
+  });
+}
+
+function toManifest(resource: RenderedResource): K8sManifest | null {
+  const { apiVersion, kind, metadata, ...body } = resource.obj;
+  const meta = asRecord(metadata);
+  if (typeof apiVersion !== 'string' || typeof kind !== 'string' || typeof meta.name !== 'string') {
+    return null;
+  }
+
+  return {
+    apiVersion,
+    kind,
+    name: meta.name,
+    ...(typeof meta.namespace === 'string' ? { namespace: meta.namespace } : {}),
+    labels: toStringRecord(meta.labels),
+    annotations: toStringRecord(meta.annotations),
+    body,
+    filePath: resource.sourceFile,
+    documentIndex: resource.documentIndex,
+    lineRange: resource.lineRange,
+  };
+}
+
+function toResourceId(resource: RenderedResource): string | null {
+  const manifest = toManifest(resource);
+  return manifest ? createK8sNode(manifest)?.id ?? null : null;
+}
+
+function cloneResource(resource: RenderedResource): RenderedResource {
+  return { ...resource, obj: structuredClone(resource.obj), previousNames: [...resource.previousNames] };
+}
+
+function metadataOf(resource: RenderedResource): Record<string, unknown> {
+  if (!isRecord(resource.obj.metadata)) {
+    resource.obj.metadata = {};
+  }
+  return resource.obj.metadata as Record<string, unknown>;
+}
+
+function kindOf(resource: RenderedResource): string {
+  return typeof resource.obj.kind === 'string' ? resource.obj.kind : '';
+}
+
+function nameOf(resource: RenderedResource): string {
+  const name = metadataOf(resource).name;
+  return typeof name === 'string' ? name : '';
+}
+
+function hasName(resource: RenderedResource, name: string): boolean {
+  return nameOf(resource) === name || resource.previousNames.includes(name);
+}
+
+/**
+ * Pod templates (objects with `metadata` and `spec`) of a workload
+ */
+function getPodTemplates(resource: RenderedResource): Record<string, unknown>[] {
+  const spec = asRecord(resource.obj.spec);
+  if (kindOf(resource) === 'CronJob') {
+    const template = asRecord(asRecord(asRecord(spec.jobTemplate).spec).template);
+    return isRecord(template.spec) ? [template] : [];
+  }
+  return isRecord(spec.template) ? [spec.template] : [];
+}
+
+function getPodSpecs(resource: RenderedResource): Record<string, unknown>[] {
+  if (kindOf(resource) === 'Pod') {
+    return isRecord(resource.obj.spec) ? [resource.obj.spec] : [];
+  }
+  return getPodTemplates(resource)
+    .map(template => template.spec)
+    .filter(isRecord);
+}
+
+function getContainers(podSpec: Record<string, unknown>): Record<string, unknown>[] {
+  return [
+    ...asArray(podSpec.initContainers),
+    ...asArray(podSpec.containers),
+  ].filter(isRecord);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function asRecord(value: unknown): Record<string, unknown> {
+  return isRecord(value) ? value : {};
+}
+
+function asArray(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+function toStringRecord(value: unknown): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [key, v] of Object.entries(asRecord(value))) {
+    if (v !== null && v !== undefined) {
+      result[key] = String(v);
+    }
+  }
+  return result;
+}
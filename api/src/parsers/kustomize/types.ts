@@ -0,0 +1,355 @@
+/**
+ * Kustomize Parser Types
+ * @module parsers/kustomize/types
+ *
+ * Type definitions for kustomization files and for rendering them into
+ * effective Kubernetes resources.
+ *
+ * TASK-KUSTOMIZE-001: Kustomize overlay parsing for dependency detection
+ */
+
+import type { GraphEdge, KustomizationNode } from '../../types/graph.js';
+import type { K8sManifest, K8sNode } from '../kubernetes/types.js';
+
+// ============================================================================
+// Kustomization Types
+// ============================================================================
+
+/**
+ * Field a resource reference was listed under
+ */
+export type KustomizeResourceField = 'resources' | 'bases' | 'components';
+
+/**
+ * Entry of `resources`, `bases` or `components`
+ */
+export interface KustomizeResourceRef {
+  /** Path or URL as written */
+  readonly path: string;
+  readonly field: KustomizeResourceField;
+  /** Whether the entry is a remote target (git repository or URL) */
+  readonly remote: boolean;
+}
+
+/**
+ * Resource selector of a patch (`patches[].target`)
+ */
+export interface KustomizePatchTarget {
+  readonly group?: string;
+  readonly version?: string;
+  readonly kind?: string;
+  /** Name or regular expression */
+  readonly name?: string;
+  readonly namespace?: string;
+  /** Label selector (`key=value,key2=value2`) */
+  readonly labelSelector?: string;
+  /** Annotation selector (`key=value`) */
+  readonly annotationSelector?: string;
+}
+
+/**
+ * Patch from `patches`, `patchesStrategicMerge` or `patchesJson6902`
+ */
+export interface KustomizePatch {
+  /** Patch file relative to the kustomization directory */
+  readonly path?: string;
+  /** Inline patch content */
+  readonly patch?: string;
+  readonly target?: KustomizePatchTarget;
+  readonly field: 'patches' | 'patchesStrategicMerge' | 'patchesJson6902';
+}
+
+/**
+ * Entry of `configMapGenerator` or `secretGenerator`
+ */
+export interface KustomizeGenerator {
+  readonly kind: 'ConfigMap' | 'Secret';
+  readonly name: string;
+  readonly namespace?: string;
+  readonly behavior: 'create' | 'merge' | 'replace';
+  /** `key=value` literals */
+  readonly literals: Readonly<Record<string, string>>;
+  /** Files as `[key=]path` */
+  readonly files: readonly string[];
+  /** Env files whose lines become keys */
+  readonly envs: readonly string[];
+  /** Secret type (secretGenerator only) */
+  readonly type?: string;
+}
+
+/**
+ * Entry of `images`
+ */
+export interface KustomizeImage {
+  /** Image name to match, without tag or digest */
+  readonly name: string;
+  readonly newName?: string;
+  readonly newTag?: string;
+  readonly digest?: string;
+}
+
+/**
+ * Entry of `replicas`
+ */
+export interface KustomizeReplicaCount {
+  readonly name: string;
+  readonly count: number;
+}
+
+/**
+ * Entry of `labels`, or a `commonLabels` map converted to one
+ */
+export interface KustomizeLabels {
+  readonly pairs: Readonly<Record<string, string>>;
+  /** Also add the labels to selectors */
+  readonly includeSelectors: boolean;
+  /** Also add the labels to pod templates */
+  readonly includeTemplates: boolean;
+}
+
+/**
+ * Parsed kustomization file
+ */
+export interface Kustomization {
+  readonly filePath: string;
+  /** Directory the file's relative paths resolve against */
+  readonly directory: string;
+  /** `Component` for kustomize components, otherwise `Kustomization` */
+  readonly kind: 'Kustomization' | 'Component';
+  readonly namespace?: string;
+  readonly namePrefix?: string;
+  readonly nameSuffix?: string;
+  readonly resources: readonly KustomizeResourceRef[];
+  readonly components: readonly KustomizeResourceRef[];
+  readonly patches: readonly KustomizePatch[];
+  readonly generators: readonly KustomizeGenerator[];
+  readonly images: readonly KustomizeImage[];
+  readonly replicas: readonly KustomizeReplicaCount[];
+  readonly labels: readonly KustomizeLabels[];
+  readonly commonAnnotations: Readonly<Record<string, string>>;
+}
+
+// ============================================================================
+// Render Types
+// ============================================================================
+
+/**
+ * Result of rendering every kustomization of a scan
+ */
+export interface KustomizeRenderResult {
+  /** Effective K8s resources output by non-component kustomizations */
+  readonly resourceNodes: readonly K8sNode[];
+  /** kustomize_base, kustomize_renders and kustomize_patches edges */
+  readonly edges: readonly GraphEdge[];
+  /** Files used as patches; their partial objects are not resources */
+  readonly patchFiles: ReadonlySet<string>;
+  readonly warnings: readonly KustomizeParseError[];
+}
+
+/**
+ * Rendered resource together with the file it came from
+ */
+export interface KustomizeRenderedManifest {
+  readonly manifest: K8sManifest;
+  /** File the resource was first defined in (manifest or kustomization for generators) */
+  readonly sourceFile: string;
+}
+
+// ============================================================================
+// Node Types
+// ============================================================================
+
+/**
+ * File names kustomize recognizes, in lookup order
+ */
+export const KUSTOMIZATION_FILE_NAMES: readonly string[] = [
+  'kustomization.yaml',
+  'kustomization.yml',
+  'Kustomization',
+];
+
+// ============================================================================
+// Parse Result Types
+// ============================================================================
+
+/**
+ * Kustomize parse error codes
+ */
+export type KustomizeParseErrorCode =
+  | 'INVALID_YAML'
+  | 'NOT_A_KUSTOMIZATION'
+  | 'DEPRECATED_FIELD'
+  | 'INVALID_ENTRY'
+  | 'UNRESOLVED_RESOURCE'
+  | 'UNRESOLVED_PATCH'
+  | 'REMOTE_RESOURCE'
+  | 'CYCLE';
+
+/**
+ * Kustomize parse error or warning
+ */
+export interface KustomizeParseError {
+  readonly message: string;
+  readonly file: string;
+  readonly line?: number;
+  readonly column?: number;
+  readonly severity: 'error' | 'warning';
+  readonly code: KustomizeParseErrorCode;
+}
+
+/**
+ * Parse metadata for a kustomization file
+ */
+export interface KustomizeParseMetadata {
+  readonly filePath: string;
+  readonly parserName: string;
+  readonly parserVersion: string;
+  readonly parseTimeMs: number;
+  readonly fileSize: number;
+  readonly lineCount: number;
+  readonly resourceCount: number;
+  readonly patchCount: number;
+  readonly generatorCount: number;
+}
+
+/**
+ * Result of parsing a kustomization file
+ */
+export interface KustomizeParseResult {
+  readonly success: boolean;
+  readonly kustomization: Kustomization;
+  /** The kustomization node */
+  readonly nodes: readonly KustomizationNode[];
+  readonly errors: readonly KustomizeParseError[];
+  readonly warnings: readonly KustomizeParseError[];
+  readonly metadata: KustomizeParseMetadata;
+}
+
+// ============================================================================
+// Parser Options
+// ============================================================================
+
+/**
+ * Kustomize parser options
+ */
+export interface KustomizeParserOptions {
+  /** Warn on bases, patchesStrategicMerge, patchesJson6902 and commonLabels */
+  readonly warnOnDeprecatedFields?: boolean;
+}
+
+/**
+ * Default Kustomize parser options
+ */
+export const DEFAULT_KUSTOMIZE_PARSER_OPTIONS: Required<KustomizeParserOptions> = {
+  warnOnDeprecatedFields: false,
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Build the node ID for a kustomization. Kustomize addresses kustomizations by
+ * directory, so the ID is the directory rather than the file.
+ */
+export function createKustomizationNodeId(directory: string): string {
+  return `kustomization:${normalizeKustomizePath(directory)}`;
+}
+
+/**
+ * Check whether a path names a kustomization file
+ */
+export function isKustomizationPath(filePath: string): boolean {
+  const name = filePath.split('/').pop() ?? '';
+  return KUSTOMIZATION_FILE_NAMES.includes(name);
+}
+
+/**
+ * Directory of a kustomization file
+ */
+export function getKustomizationDirectory(filePath: string): string {
+  const index = filePath.lastIndexOf('/');
+  return index === -1 ? '.' : normalizeKustomizePath(filePath.slice(0, index));
+}
+
+/**
+ * Check whether a resource entry is a remote target
+ * (`https://...`, `github.com/org/repo//path?ref=v1`, `git@...`)
+ */
+export function isRemoteKustomizeResource(path: string): boolean {
+  return /^[a-z][a-z0-9+.-]*:\/\//i.test(path) ||
+    path.startsWith('git@') ||
+    /^(github\.com|gitlab\.com|bitbucket\.org)\//.test(path);
+}
+
+/**
+ * Normalize a path: collapse `.` and `..` segments and duplicate slashes.
+ * Leading `..` segments of relative paths are kept.
+ */
+export function normalizeKustomizePath(path: string): string {
+  const absolute = path.startsWith('/');
+  const segments: string[] = [];
+
+  for (const segment of path.split('/')) {
+    if (segment === '' || segment === '.') {
+      continue;
+    }
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else if (segment !== '..' || !absolute) {
+      segments.push(segment);
+    }
+  }
+
+  const joined = segments.join('/');
+  if (absolute) {
+    return `/${joined}`;
+  }
+  return joined === '' ? '.' : joined;
+}
+
+/**
+ * Resolve a path relative to a kustomization directory
+ */
+export function resolveKustomizePath(directory: string, path: string): string {
+  if (path.startsWith('/')) {
+    return normalizeKustomizePath(path);
+  }
+  return normalizeKustomizePath(directory === '.' ? path : `${directory}/${path}`);
+}
+
+/**
+ * Create an empty parse result
+ */
+export function createEmptyKustomizeParseResult(filePath: string): KustomizeParseResult {
+  return {
+    success: true,
+    kustomization: {
+      filePath,
+      directory: getKustomizationDirectory(filePath),
+      kind: 'Kustomization',
+      resources: [],
+      components: [],
+      patches: [],
+      generators: [],
+      images: [],
+      replicas: [],
+      labels: [],
+      commonAnnotations: {},
+    },
+    nodes: [],
+    errors: [],
+    warnings: [],
+    metadata: {
+      filePath,
+      parserName: 'kustomize-parser',
+      parserVersion: '1.0.0',
+      parseTimeMs: 0,
+      fileSize: 0,
+      lineCount: 0,
+      resourceCount: 0,
+      patchCount: 0,
+      generatorCount: 0,
+    },
+  };
+}
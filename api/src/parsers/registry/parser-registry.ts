@@ -19,6 +19,27 @@ import {
   ParserOptions,
   IaCFormat,
 } from '../base/parser';
+import { CloudFormationParser } from '../cloudformation/template-parser.js';
+import { DockerfileParser } from '../docker/dockerfile-parser.js';
+import { TerraformJsonParser } from '../terraform/json-parser.js';
+import { TerraformHclParser } from '../terraform/hcl-parser.js';
+import { TerraformVarsParser } from '../terraform/tfvars-parser.js';
+import { TerragruntParser } from '../terragrunt/tg-parser.js';
+import { KubernetesManifestParser } from '../kubernetes/manifest-parser.js';
+import { KustomizeParser } from '../kustomize/kustomization-parser.js';
+import { HelmChartFileParser } from '../helm/chart-file-parser.js';
+import { GitHubActionsParser } from '../github-actions/gha-parser.js';
+import { GitLabCIParser } from '../ci/gitlab-ci-parser.js';
+import { JenkinsfileParser } from '../jenkins/jenkinsfile-parser.js';
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Formats whose parsers only accept files at specific paths
+ */
+const PATH_SCOPED_FORMATS: ReadonlySet<IaCFormat> = new Set(['github-actions', 'gitlab-ci', 'jenkins']);
 
 // ============================================================================
 // Registry Types
@@ -53,6 +74,8 @@ export interface ParserSelectionCriteria {
   mimeType?: string;
   /** Specific format */
   format?: IaCFormat;
+  /** File content, used to choose between parsers sharing an extension */
+  content?: string;
   /** Include experimental parsers */
   includeExperimental?: boolean;
 }
@@ -210,7 +233,31 @@ export class ParserRegistry {
     // Sort by priority (descending) and return highest priority
     candidates.sort((a, b) => b.capability.priority - a.capability.priority);
 
-    const selected = candidates[0];
+    // Several formats share .yaml/.json; with content, prefer the highest
+    // priority parser that recognizes it
+    if (normalizedCriteria.content !== undefined && normalizedCriteria.filePath !== undefined) {
+      const { filePath, content } = normalizedCriteria;
+      for (const candidate of candidates) {
+        if (!candidate.instance) {
+          candidate.instance = candidate.factory();
+        }
+        if (candidate.instance.canParse(filePath, content)) {
+          return candidate.instance as IParser<T>;
+        }
+      }
+    }
+
+    // CI parsers only claim files at their pipeline paths, so without content
+    // they are skipped unless the path is theirs
+    const { filePath } = normalizedCriteria;
+    const selected = candidates.find(candidate => {
+      if (!PATH_SCOPED_FORMATS.has(candidate.capability.format)) return true;
+      if (filePath === undefined) return false;
+      if (!candidate.instance) {
+        candidate.instance = candidate.factory();
+      }
+      return candidate.instance.canParse(filePath);
+    }) ?? candidates[0];
 
     // Lazy singleton initialization
     if (!selected.instance) {
@@ -239,6 +286,23 @@ export class ParserRegistry {
     });
   }
 
+  /**
+   * Check whether a registered parser claims a file by its path alone.
+   * Parsers of path-scoped formats must accept the path itself.
+   *
+   * @param filePath - File path
+   * @returns Whether the file would be parsed
+   */
+  supportsFile(filePath: string): boolean {
+    return this.findMatchingParsers({ filePath }).some(candidate => {
+      if (!PATH_SCOPED_FORMATS.has(candidate.capability.format)) return true;
+      if (!candidate.instance) {
+        candidate.instance = candidate.factory();
+      }
+      return candidate.instance.canParse(filePath);
+    });
+  }
+
   /**
    * Get parser capabilities.
    *
@@ -265,7 +329,7 @@ export class ParserRegistry {
     filePath: string,
     options?: ParserOptions
   ): Promise<ParseResult<T>> {
-    const parser = this.getParser<T>(filePath);
+    const parser = this.getParser<T>({ filePath, content });
     if (!parser) {
       throw new Error(`No parser found for file: ${filePath}`);
     }
@@ -320,7 +384,11 @@ export class ParserRegistry {
    * @returns Detected format or undefined
    */
   detectFormat(filePath: string, content?: string): IaCFormat | undefined {
-    const parser = this.getParser({ filePath, extension: this.getExtension(filePath) });
+    const parser = this.getParser({
+      filePath,
+      extension: this.getExtension(filePath),
+      ...(content !== undefined ? { content } : {}),
+    });
     if (!parser) return undefined;
 
     const capability = Array.from(this.parsers.values())
@@ -399,7 +467,7 @@ export class ParserRegistry {
       {
         name: 'terraform-hcl',
         version: '1.0.0',
-        extensions: ['.tf'],
+        extensions: ['.tf', '.tofu'],
         mimeTypes: ['text/x-hcl', 'application/x-terraform'],
         format: 'terraform',
         priority: 100,
@@ -408,12 +476,12 @@ export class ParserRegistry {
       () => this.createTerraformParser()
     );
 
-    // Register Terraform JSON parser capability
+    // Register Terraform JSON parser capability (TASK-TFJSON-001)
     this.register(
       {
         name: 'terraform-json',
         version: '1.0.0',
-        extensions: ['.tf.json'],
+        extensions: ['.tf.json', '.tofu.json'],
         mimeTypes: ['application/json'],
         format: 'terraform-json',
         priority: 90,
@@ -422,6 +490,20 @@ export class ParserRegistry {
       () => this.createTerraformJsonParser()
     );
 
+    // Register Terraform variable definitions parser capability (TASK-TFVARS-001)
+    this.register(
+      {
+        name: 'terraform-vars',
+        version: '1.0.0',
+        extensions: ['.tfvars', '.tfvars.json'],
+        mimeTypes: ['text/x-hcl', 'application/json'],
+        format: 'terraform',
+        priority: 95,
+        experimental: false,
+      },
+      () => new TerraformVarsParser()
+    );
+
     // Register Terragrunt HCL parser capability (TASK-TG-001)
     this.register(
       {
@@ -436,114 +518,139 @@ export class ParserRegistry {
       () => this.createTerragruntParser()
     );
 
-    // Placeholder registrations for future parsers
-    this.registerPlaceholder('kubernetes', ['.yaml', '.yml'], 80);
-    this.registerPlaceholder('helm', ['.yaml', '.yml'], 70);
-    this.registerPlaceholder('cloudformation', ['.yaml', '.yml', '.json'], 60);
-    this.registerPlaceholder('dockerfile', ['Dockerfile', '.dockerfile'], 50);
+    // Register Kubernetes manifest parser capability (TASK-K8S-001)
+    this.register(
+      {
+        name: 'kubernetes-manifest',
+        version: '1.0.0',
+        extensions: ['.yaml', '.yml'],
+        mimeTypes: ['application/x-yaml', 'text/yaml'],
+        format: 'kubernetes',
+        priority: 80,
+        experimental: false,
+      },
+      () => new KubernetesManifestParser()
+    );
+
+    // Register Kustomize parser capability (TASK-KUSTOMIZE-001)
+    this.register(
+      {
+        name: 'kustomize',
+        version: '1.0.0',
+        extensions: ['.yaml', '.yml', 'Kustomization'],
+        mimeTypes: ['application/x-yaml', 'text/yaml'],
+        format: 'kubernetes',
+        priority: 75,
+        experimental: false,
+      },
+      () => new KustomizeParser()
+    );
+
+    // Register Helm chart file parser capability (TASK-HELM-RENDER-001)
+    this.register(
+      {
+        name: 'helm',
+        version: '1.0.0',
+        extensions: ['.yaml', '.yml', '.tpl'],
+        mimeTypes: ['application/x-yaml', 'text/yaml'],
+        format: 'helm',
+        priority: 70,
+        experimental: false,
+      },
+      () => new HelmChartFileParser()
+    );
+
+    // Register CloudFormation / SAM template parser capability (TASK-CFN-001)
+    this.register(
+      {
+        name: 'cloudformation',
+        version: '1.0.0',
+        extensions: ['.yaml', '.yml', '.json', '.template'],
+        mimeTypes: ['application/x-yaml', 'text/yaml', 'application/json'],
+        format: 'cloudformation',
+        priority: 60,
+        experimental: false,
+      },
+      () => new CloudFormationParser()
+    );
+
+    // Register Dockerfile parser capability (TASK-DOCKER-001)
+    this.register(
+      {
+        name: 'dockerfile',
+        version: '1.0.0',
+        extensions: ['Dockerfile', '.dockerfile'],
+        mimeTypes: ['text/x-dockerfile'],
+        format: 'dockerfile',
+        priority: 50,
+        experimental: false,
+      },
+      () => new DockerfileParser()
+    );
+
+    // Register CI pipeline parsers; scans read their image builds (TASK-DOCKER-001)
+    this.register(
+      {
+        name: 'github-actions',
+        version: '1.0.0',
+        extensions: ['.yml', '.yaml'],
+        mimeTypes: ['application/x-yaml', 'text/yaml'],
+        format: 'github-actions',
+        priority: 130, // Only claims files under .github/workflows/
+        experimental: false,
+      },
+      () => new GitHubActionsParser()
+    );
+
+    this.register(
+      {
+        name: 'gitlab-ci',
+        version: '1.0.0',
+        extensions: ['.yml', '.yaml'],
+        mimeTypes: ['application/x-yaml', 'text/yaml'],
+        format: 'gitlab-ci',
+        priority: 125, // Only claims .gitlab-ci.yml and CI include files
+        experimental: false,
+      },
+      () => new GitLabCIParser()
+    );
+
+    // Register declarative Jenkinsfile parser capability (TASK-JENKINS-001)
+    this.register(
+      {
+        name: 'jenkinsfile',
+        version: '1.0.0',
+        extensions: ['Jenkinsfile', '.jenkinsfile', '.groovy'],
+        mimeTypes: ['text/x-groovy'],
+        format: 'jenkins',
+        priority: 120, // Only claims Jenkinsfiles and pipeline .groovy files
+        experimental: false,
+      },
+      () => new JenkinsfileParser()
+    );
   }
 
   /**
    * Create a Terraform HCL parser instance
    */
   private createTerraformParser(): IParser<unknown> {
-    // Dynamic import to avoid circular dependencies
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const { HCLParser } = require('../terraform/hcl-parser');
-    return new HCLParser();
+    return new TerraformHclParser();
   }
 
   /**
-   * Create a Terraform JSON parser instance (placeholder)
+   * Create a Terraform JSON parser instance
    */
   private createTerraformJsonParser(): IParser<unknown> {
-    // TODO: Implement Terraform JSON parser
-    return this.createPlaceholderParser('terraform-json');
+    return new TerraformJsonParser();
   }
 
   /**
    * Create a Terragrunt HCL parser instance
    */
   private createTerragruntParser(): IParser<unknown> {
-    // Dynamic import to avoid circular dependencies
-    // eslint-disable-next-line @typescript-eslint/no-require-imports
-    const { TerragruntParser } = require('../terragrunt/tg-parser');
     return new TerragruntParser();
   }
 
-  /**
-   * Register a placeholder parser for formats not yet implemented
-   */
-  private registerPlaceholder(
-    format: IaCFormat,
-    extensions: string[],
-    priority: number
-  ): void {
-    this.register(
-      {
-        name: `${format}-placeholder`,
-        version: '0.0.1',
-        extensions,
-        mimeTypes: [],
-        format,
-        priority,
-        experimental: true,
-      },
-      () => this.createPlaceholderParser(format)
-    );
-  }
-
-  /**
-   * Create a placeholder parser that returns an error
-   */
-  private createPlaceholderParser(format: string): IParser<unknown> {
-    return {
-      name: `${format}-placeholder`,
-      version: '0.0.1',
-      supportedExtensions: [],
-      supportedMimeTypes: [],
-
-      async parse() {
-        return {
-          success: false,
-          errors: [{
-            code: 'UNSUPPORTED_SYNTAX' as const,
-            message: `Parser for ${format} format is not yet implemented`,
-            location: null,
-            severity: 'fatal' as const,
-          }],
-          partialData: null,
-          metadata: {
-            filePath: '',
-            parserName: `${format}-placeholder`,
-            parserVersion: '0.0.1',
-            parseTimeMs: 0,
-            fileSize: 0,
-            encoding: 'utf-8',
-            lineCount: 0,
-          },
-        };
-      },
-
-      async parseFile(filePath: string) {
-        return this.parse('', filePath);
-      },
-
-      canParse() {
-        return false;
-      },
-
-      async validate() {
-        return [{
-          code: 'UNSUPPORTED_SYNTAX',
-          message: `Parser for ${format} format is not yet implemented`,
-          location: null,
-          severity: 'warning' as const,
-        }];
-      },
-    };
-  }
-
   /**
    * Find parsers matching the given criteria
    */
@@ -593,11 +700,28 @@ export class ParserRegistry {
    * Extract extension from file path
    */
   private getExtension(filePath: string): string {
-    const parts = filePath.split('/').pop()?.split('.') ?? [];
+    const name = filePath.split('/').pop() ?? '';
+
+    // Dockerfiles are named rather than suffixed (Dockerfile, Dockerfile.prod)
+    if (/^dockerfile(\..+)?$/i.test(name)) {
+      return 'Dockerfile';
+    }
+
+    // Jenkinsfiles are named rather than suffixed (Jenkinsfile, Jenkinsfile.deploy)
+    if (/^jenkinsfile(\..+)?$/i.test(name)) {
+      return 'Jenkinsfile';
+    }
+
+    // Kustomize also reads an extensionless file named Kustomization
+    if (name === 'Kustomization') {
+      return 'Kustomization';
+    }
+
+    const parts = name.split('.');
     if (parts.length < 2) return '';
 
-    // Handle compound extensions like .tf.json
-    if (parts.length >= 3 && parts[parts.length - 2] === 'tf') {
+    // Handle compound extensions like .tf.json, .tofu.json and .tfvars.json
+    if (parts.length >= 3 && ['tf', 'tofu', 'tfvars'].includes(parts[parts.length - 2] ?? '')) {
       return `.${parts.slice(-2).join('.')}`;
     }
 
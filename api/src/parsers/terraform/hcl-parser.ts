@@ -16,6 +16,14 @@ import {
   HCLExpression,
 } from './types';
 import { ExpressionParser } from './expression-parser';
+import { TerraformJsonParser, isTerraformJsonFile } from './json-parser.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParseDiagnostic,
+  type ParserOptions as BaseParserOptions,
+} from '../base/parser.js';
+import { mergeTerraformModules } from './module-merger.js';
 
 // ============================================================================
 // HCL Lexer Tokens
@@ -453,6 +461,36 @@ export class HCLParser {
     };
   }
 
+  /**
+   * Parse content made of root-level attributes only, such as a .tfvars file
+   */
+  parseAttributes(
+    content: string,
+    filePath: string = '<input>'
+  ): { attributes: Record<string, HCLExpression>; errors: ParseError[] } {
+    this.filePath = filePath;
+    this.errors = [];
+    this.pos = 0;
+
+    try {
+      const lexer = new HCLLexer(content);
+      this.tokens = lexer.tokenize().filter(t => t.type !== 'COMMENT');
+    } catch (err) {
+      return {
+        attributes: {},
+        errors: [{
+          message: `Lexer error: ${err instanceof Error ? err.message : String(err)}`,
+          location: null,
+          severity: 'error',
+          code: 'LEXER_ERROR',
+        }],
+      };
+    }
+
+    const { attributes } = this.parseBlockBody();
+    return { attributes, errors: this.errors };
+  }
+
   // ============================================================================
   // Block Parsing
   // ============================================================================
@@ -721,18 +759,75 @@ export class HCLParser {
   }
 }
 
+// ============================================================================
+// Registry Adapter
+// ============================================================================
+
+/**
+ * IParser adapter around HCLParser, used by the parser registry.
+ * Mirrors TerraformJsonParser: error-severity problems fail the parse,
+ * the rest are reported as warnings.
+ */
+export class TerraformHclParser extends BaseParser<TerraformFile> {
+  readonly name = 'terraform-hcl';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['.tf', '.tofu'];
+  readonly supportedMimeTypes = ['text/x-hcl', 'application/x-terraform'];
+
+  constructor(options: BaseParserOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Perform the actual parsing of Terraform HCL content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    options: Required<BaseParserOptions>
+  ): Promise<ParseResult<TerraformFile>> {
+    const startTime = performance.now();
+    const file: TerraformFile = new HCLParser(options).parse(content, filePath);
+    const errors = file.errors.filter((e: ParseError) => e.severity === 'error');
+
+    if (errors.length > 0) {
+      return this.createFailure(
+        errors.map((e: ParseError) => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.location,
+          severity: 'fatal' as const,
+        })),
+        file,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const warnings: ParseDiagnostic[] = file.errors.map((e: ParseError) => ({
+      code: e.code ?? 'WARNING',
+      message: e.message,
+      location: e.location,
+      severity: 'warning' as const,
+    }));
+
+    return this.createSuccess(file, warnings, this.createMetadata(filePath, startTime, content));
+  }
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
 
 /**
- * Parse all Terraform files in a directory
+ * Parse all Terraform files in a directory.
+ * HCL and JSON files of each module are merged, applying override files.
  */
 export async function parseTerraformDirectory(
   dirPath: string,
   options: Partial<ParserOptions> = {}
 ): Promise<TerraformFile[]> {
   const parser = new HCLParser(options);
+  const jsonParser = new TerraformJsonParser(options);
   const files: TerraformFile[] = [];
 
   async function walk(dir: string): Promise<void> {
@@ -746,7 +841,11 @@ export async function parseTerraformDirectory(
         if (!entry.name.startsWith('.') && entry.name !== 'node_modules') {
           await walk(fullPath);
         }
-      } else if (entry.isFile() && (entry.name.endsWith('.tf') || entry.name.endsWith('.tf.json'))) {
+      } else if (entry.isFile() && isTerraformJsonFile(entry.name)) {
+        const buffer = await fs.promises.readFile(fullPath);
+        const content = buffer.toString(options.encoding ?? DEFAULT_PARSER_OPTIONS.encoding);
+        files.push(jsonParser.parseContent(content, fullPath));
+      } else if (entry.isFile() && entry.name.endsWith('.tf')) {
         const result = await parser.parseFile(fullPath);
         files.push(result);
       }
@@ -754,7 +853,7 @@ export async function parseTerraformDirectory(
   }
 
   await walk(dirPath);
-  return files;
+  return mergeTerraformModules(files);
 }
 
 /**
@@ -0,0 +1,617 @@
+/**
+ * Terraform Instance Expansion
+ * TASK-TFINST-001: Expand count/for_each blocks into per-instance nodes
+ *
+ * Resources, data sources and modules with a `count` or `for_each` whose
+ * value is known statically (literals, variable defaults and locals) are
+ * expanded into one node per instance, e.g. `aws_subnet.private["a"]`, linked
+ * from the block node by an expands_to edge. References to an expanded block
+ * resolve to the instances they select: `[<key>]` to one instance, `[*]`
+ * splats, `for` expressions and whole-block references to all of them, and
+ * `[each.key]` / `[count.index]` to the instance with the referrer's own key.
+ */
+
+import type { EdgeMetadata, EdgeType, GraphEdge, NodeLocation, NodeType } from '../../types/graph.js';
+import type { HCLExpression, TerraformBlock, TerraformFile } from './types.js';
+
+/** Expansions beyond this many instances are left as a single block node */
+const MAX_INSTANCES = 1000;
+
+/** `var.<name>`, `local.<name>` or a block address as a bare traversal */
+const TRAVERSAL_PATTERN = /^((?:data\s*\.\s*)?[a-zA-Z_][\w-]*)\s*\.\s*([a-zA-Z_][\w-]*)$/;
+
+/**
+ * Index following a reference to an expanded block. Traversals parsed as bare
+ * literals are space-separated and their splats lose the `*`.
+ */
+const INDEX_PATTERN =
+  /^\s*\[\s*(?:"\s*((?:[^"\\]|\\.)*?)\s*"|(\d+)|(each\s*\.\s*key|count\s*\.\s*index)|(\*?))\s*\]/;
+
+/** `for <x> in` (or `for <k>, <v> in`) directly before a reference */
+const FOR_PATTERN = /\bfor\s+[\w-]+(?:\s*,\s*[\w-]+)?\s+in\s*$/;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Meta-argument a block is expanded by
+ */
+export type InstanceExpansion = 'count' | 'for_each';
+
+/**
+ * Key of an instance: its index for count, its key for for_each
+ */
+export type InstanceKey = number | string;
+
+/**
+ * How a reference selects instances of an expanded block
+ */
+export type InstanceReferenceKind = 'key' | 'each' | 'splat' | 'for' | 'whole';
+
+/**
+ * A resource, data source or module block with statically known instances
+ */
+export interface ExpandedBlock {
+  /** Block address (e.g., 'aws_subnet.private', 'data.aws_ami.web', 'module.vpc') */
+  readonly address: string;
+  /** Node type of the block and its instances */
+  readonly nodeType: 'terraform_resource' | 'terraform_data' | 'terraform_module';
+  /** Block name label */
+  readonly name: string;
+  /** Resource or data source type; undefined for modules */
+  readonly resourceType?: string;
+  readonly expansion: InstanceExpansion;
+  /** Instance keys, in the order Terraform plans them */
+  readonly keys: readonly InstanceKey[];
+  readonly location: NodeLocation;
+}
+
+/**
+ * Instance nodes and edges of one module
+ */
+export interface InstanceGraph {
+  readonly blocks: readonly ExpandedBlock[];
+  readonly nodes: NodeType[];
+  readonly edges: GraphEdge[];
+}
+
+/**
+ * Metadata of edges to instances
+ */
+interface InstanceEdgeMetadata extends EdgeMetadata {
+  readonly referenceKind?: InstanceReferenceKind;
+  readonly instanceKey?: InstanceKey;
+}
+
+/**
+ * Values variables, locals and expanded blocks evaluate to within a module
+ */
+export interface EvaluationScope {
+  lookup(root: string, name: string): unknown;
+}
+
+/**
+ * Block of a module that can reference instances, with its node ID
+ */
+interface ReferringBlock {
+  readonly id: string;
+  readonly expressions: readonly HCLExpression[];
+  readonly location: NodeLocation;
+  readonly expanded?: ExpandedBlock;
+}
+
+// ============================================================================
+// Expansion
+// ============================================================================
+
+/**
+ * Format the address of an instance, e.g. `aws_subnet.private["a"]`
+ */
+export function formatInstanceAddress(address: string, key: InstanceKey): string {
+  return `${address}[${typeof key === 'number' ? key : JSON.stringify(key)}]`;
+}
+
+/**
+ * Find the blocks of a module whose count or for_each is known statically.
+ *
+ * @param files - Files of one module directory
+ * @returns Expanded blocks; blocks whose expansion depends on resources,
+ *   unknown functions or variables without defaults are left out
+ */
+export function expandTerraformBlocks(files: readonly TerraformFile[]): ExpandedBlock[] {
+  const blocks = new Map<string, TerraformBlock & { file: string }>();
+  const variables = new Map<string, HCLExpression>();
+  const locals = new Map<string, HCLExpression>();
+
+  for (const file of files) {
+    for (const block of file.blocks) {
+      const address = getBlockAddress(block);
+      if (address !== undefined) {
+        blocks.set(address, { ...block, file: file.path });
+      } else if (block.type === 'variable' && block.labels[0] && block.attributes['default']) {
+        variables.set(block.labels[0], block.attributes['default']);
+      } else if (block.type === 'locals') {
+        for (const [name, expr] of Object.entries(block.attributes)) {
+          locals.set(name, expr);
+        }
+      }
+    }
+  }
+
+  const expanded = new Map<string, ExpandedBlock | null>();
+  const values = new Map<string, unknown>();
+  const resolving = new Set<string>();
+
+  const expand = (address: string): ExpandedBlock | null => {
+    const cached = expanded.get(address);
+    if (cached !== undefined) return cached;
+    const block = blocks.get(address);
+    if (!block || resolving.has(address)) return null;
+
+    resolving.add(address);
+    const result = expandBlock(address, block, scope);
+    resolving.delete(address);
+    expanded.set(address, result);
+    return result;
+  };
+
+  const scope: EvaluationScope = {
+    lookup(root, name) {
+      if (root === 'var' || root === 'local') {
+        const key = `${root}.${name}`;
+        if (values.has(key)) return values.get(key);
+        const expr = (root === 'var' ? variables : locals).get(name);
+        if (!expr || resolving.has(key)) return undefined;
+
+        resolving.add(key);
+        const value = evaluateStatic(expr, scope);
+        resolving.delete(key);
+        values.set(key, value);
+        return value;
+      }
+
+      // for_each over another expanded block iterates its instance keys
+      const block = expand(`${root.replace(/\s+/g, '')}.${name}`);
+      if (!block) return undefined;
+      return block.expansion === 'for_each'
+        ? Object.fromEntries(block.keys.map(key => [String(key), {}]))
+        : block.keys.map(() => ({}));
+    },
+  };
+
+  return Array.from(blocks.keys())
+    .map(expand)
+    .filter((block): block is ExpandedBlock => block !== null);
+}
+
+/**
+ * Evaluate an expression from literals, variable defaults, locals and a
+ * subset of Terraform's collection functions.
+ *
+ * @returns The value, or undefined if it is not known statically
+ */
+export function evaluateStatic(expr: HCLExpression | undefined, scope: EvaluationScope): unknown {
+  if (!expr) return undefined;
+
+  switch (expr.type) {
+    case 'literal': {
+      if (typeof expr.value !== 'string' || expr.raw.startsWith('"')) {
+        return expr.value ?? undefined;
+      }
+      // Unquoted strings are traversals the parser kept as text
+      const match = TRAVERSAL_PATTERN.exec(expr.value.trim());
+      return match ? scope.lookup(match[1]!, match[2]!) : undefined;
+    }
+
+    case 'reference':
+      return expr.parts.length === 2 ? scope.lookup(expr.parts[0]!, expr.parts[1]!) : undefined;
+
+    case 'template': {
+      let result = '';
+      for (const part of expr.parts) {
+        const value = typeof part === 'string' ? part : evaluateStatic(part, scope);
+        if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+          return undefined;
+        }
+        result += String(value);
+      }
+      return result.replace(/^"|"$/g, '');
+    }
+
+    case 'array': {
+      const elements = expr.elements.map(element => evaluateStatic(element, scope));
+      return elements.every(value => value !== undefined) ? elements : undefined;
+    }
+
+    case 'object': {
+      const entries = Object.entries(expr.attributes).map(([key, value]) => [key, evaluateStatic(value, scope)]);
+      return entries.every(([, value]) => value !== undefined) ? Object.fromEntries(entries) : undefined;
+    }
+
+    case 'conditional': {
+      const condition = evaluateStatic(expr.condition, scope);
+      if (typeof condition !== 'boolean') return undefined;
+      return evaluateStatic(condition ? expr.trueResult : expr.falseResult, scope);
+    }
+
+    case 'index': {
+      const collection = evaluateStatic(expr.collection, scope);
+      const key = evaluateStatic(expr.key, scope);
+      if (Array.isArray(collection) && typeof key === 'number') return collection[key];
+      if (isRecord(collection) && typeof key === 'string') return collection[key];
+      return undefined;
+    }
+
+    case 'function': {
+      const args = expr.args.map(arg => evaluateStatic(arg, scope));
+      return args.every(arg => arg !== undefined) ? callFunction(expr.name, args) : undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Expand one block by its count or for_each value
+ */
+function expandBlock(
+  address: string,
+  block: TerraformBlock & { file: string },
+  scope: EvaluationScope
+): ExpandedBlock | null {
+  let expansion: InstanceExpansion;
+  let keys: InstanceKey[];
+
+  if (block.attributes['count']) {
+    const count = evaluateStatic(block.attributes['count'], scope);
+    if (typeof count !== 'number' || !Number.isInteger(count) || count < 0) return null;
+    expansion = 'count';
+    keys = Array.from({ length: Math.min(count, MAX_INSTANCES + 1) }, (_, i) => i);
+  } else if (block.attributes['for_each']) {
+    const forEach = evaluateStatic(block.attributes['for_each'], scope);
+    const forEachKeys = Array.isArray(forEach)
+      ? toSet(forEach)
+      : isRecord(forEach) ? Object.keys(forEach).sort() : undefined;
+    if (!forEachKeys || !forEachKeys.every((key): key is string => typeof key === 'string')) return null;
+    expansion = 'for_each';
+    keys = forEachKeys;
+  } else {
+    return null;
+  }
+
+  if (keys.length > MAX_INSTANCES) return null;
+
+  const [first = 'unknown', second = 'unknown'] = block.labels;
+  const nodeType = block.type === 'module'
+    ? 'terraform_module'
+    : block.type === 'data' ? 'terraform_data' : 'terraform_resource';
+
+  return {
+    address,
+    nodeType,
+    name: block.type === 'module' ? first : second,
+    ...(block.type !== 'module' ? { resourceType: first } : {}),
+    expansion,
+    keys,
+    location: {
+      file: block.file,
+      lineStart: block.location.lineStart,
+      lineEnd: block.location.lineEnd,
+    },
+  };
+}
+
+// ============================================================================
+// Graph
+// ============================================================================
+
+/**
+ * Expand the blocks of a module into instance nodes, expands_to edges from
+ * each block to its instances and edges from referring blocks to the
+ * instances their references select.
+ *
+ * @param files - Files of one module directory
+ * @param blockNodes - Graph nodes by ID; instances copy their block's node,
+ *   and blocks without a node are not expanded
+ */
+export function createInstanceGraph(
+  files: readonly TerraformFile[],
+  blockNodes: ReadonlyMap<string, NodeType>
+): InstanceGraph {
+  const blocks = expandTerraformBlocks(files).filter(block => blockNodes.has(block.address));
+  const nodes: NodeType[] = [];
+  const edges = new Map<string, GraphEdge>();
+
+  for (const block of blocks) {
+    const blockNode = blockNodes.get(block.address)!;
+
+    for (const key of block.keys) {
+      const id = formatInstanceAddress(block.address, key);
+      nodes.push({
+        ...blockNode,
+        id,
+        name: formatInstanceAddress(blockNode.name, key),
+        metadata: {
+          ...blockNode.metadata,
+          instanceOf: block.address,
+          instanceKey: key,
+          expansion: block.expansion,
+        },
+      });
+
+      const metadata: InstanceEdgeMetadata = {
+        attribute: block.expansion,
+        location: block.location,
+        implicit: false,
+        confidence: 100,
+        instanceKey: key,
+      };
+      edges.set(`expands_to:${block.address}->${id}`, {
+        id: `expands_to:${block.address}->${id}`,
+        source: block.address,
+        target: id,
+        type: 'expands_to',
+        label: block.expansion,
+        metadata,
+      });
+    }
+  }
+
+  if (blocks.length > 0) {
+    const expanded = new Map(blocks.map(block => [block.address, block]));
+    for (const referrer of getReferringBlocks(files, expanded)) {
+      for (const edge of createInstanceReferenceEdges(referrer, blocks)) {
+        edges.set(edge.id, edge);
+      }
+    }
+  }
+
+  return { blocks, nodes, edges: Array.from(edges.values()) };
+}
+
+/**
+ * Create edges from a referring block, or from each of its instances, to the
+ * instances of expanded blocks it references
+ */
+function createInstanceReferenceEdges(
+  referrer: ReferringBlock,
+  blocks: readonly ExpandedBlock[]
+): GraphEdge[] {
+  const edges: GraphEdge[] = [];
+  const text = referrer.expressions.map(expr => expr.raw).join('\n');
+
+  for (const target of blocks) {
+    if (target.address === referrer.expanded?.address) continue;
+
+    for (const { kind, key } of findInstanceReferences(text, target.address)) {
+      const sources: Array<[string, InstanceKey | undefined]> = referrer.expanded
+        ? referrer.expanded.keys.map(k => [formatInstanceAddress(referrer.id, k), k])
+        : [[referrer.id, undefined]];
+
+      for (const [source, sourceKey] of sources) {
+        const selected = target.keys.filter(targetKey => {
+          switch (kind) {
+            case 'key':
+              return String(targetKey) === key;
+            case 'each':
+              // Without a key of its own, the referrer may use any instance
+              return sourceKey === undefined || targetKey === sourceKey;
+            default:
+              return true;
+          }
+        });
+
+        for (const targetKey of selected) {
+          edges.push(createInstanceReferenceEdge(source, target, targetKey, kind, referrer.location));
+        }
+      }
+    }
+  }
+
+  return edges;
+}
+
+/**
+ * Build the edge from a referrer to one instance of an expanded block
+ */
+function createInstanceReferenceEdge(
+  source: string,
+  target: ExpandedBlock,
+  key: InstanceKey,
+  kind: InstanceReferenceKind,
+  location: NodeLocation
+): GraphEdge {
+  const type: EdgeType = target.nodeType === 'terraform_module'
+    ? 'output_value'
+    : target.nodeType === 'terraform_data' ? 'data_reference' : 'references';
+  const targetId = formatInstanceAddress(target.address, key);
+  const metadata: InstanceEdgeMetadata = {
+    location,
+    implicit: true,
+    confidence: kind === 'key' ? 90 : kind === 'each' ? 85 : kind === 'whole' ? 70 : 80,
+    evidence: [{
+      type: kind === 'key' || kind === 'each' ? 'syntax' : 'semantic',
+      description: `${source} references ${kind === 'key' ? '' : `${kind} of `}${targetId}`,
+      location,
+    }],
+    referenceKind: kind,
+    instanceKey: key,
+  };
+
+  return {
+    id: `${type}:${source}->${targetId}`,
+    source,
+    target: targetId,
+    type,
+    label: kind,
+    metadata,
+  };
+}
+
+/**
+ * Find the references to a block address in expression text
+ *
+ * @returns How each reference selects instances, with the key for `[<key>]`
+ */
+export function findInstanceReferences(
+  text: string,
+  address: string
+): Array<{ kind: InstanceReferenceKind; key?: string }> {
+  const parts = address.split('.').map(escapeRegExp).join('\\s*\\.\\s*');
+  // Not part of a longer traversal such as data.<type>.<name> or module.<name>.<output>
+  const pattern = new RegExp(`(?<![\\w-]|[\\w-]\\s*\\.\\s*)${parts}(?![\\w-])`, 'g');
+  const references: Array<{ kind: InstanceReferenceKind; key?: string }> = [];
+
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    const index = INDEX_PATTERN.exec(text.slice(start + match[0].length));
+
+    if (index?.[1] !== undefined || index?.[2] !== undefined) {
+      references.push({ kind: 'key', key: (index[1] ?? index[2])! });
+    } else if (index?.[3] !== undefined) {
+      references.push({ kind: 'each' });
+    } else if (index?.[4] !== undefined) {
+      references.push({ kind: 'splat' });
+    } else {
+      references.push({ kind: FOR_PATTERN.test(text.slice(0, start)) ? 'for' : 'whole' });
+    }
+  }
+
+  return references;
+}
+
+/**
+ * Blocks whose expressions may reference instances, with the IDs their
+ * nodes have in the graph
+ */
+function getReferringBlocks(
+  files: readonly TerraformFile[],
+  expanded: ReadonlyMap<string, ExpandedBlock>
+): ReferringBlock[] {
+  const referrers: ReferringBlock[] = [];
+
+  for (const file of files) {
+    for (const block of file.blocks) {
+      const location = { file: file.path, lineStart: block.location.lineStart, lineEnd: block.location.lineEnd };
+      const address = getBlockAddress(block);
+
+      if (address !== undefined) {
+        const instances = expanded.get(address);
+        const expressions = collectExpressions(block, ['count', 'for_each']);
+        referrers.push({ id: address, expressions, location, ...(instances ? { expanded: instances } : {}) });
+      } else if (block.type === 'output' && block.labels[0]) {
+        referrers.push({ id: `output.${block.labels[0]}`, expressions: collectExpressions(block), location });
+      } else if (block.type === 'locals') {
+        for (const [name, expr] of Object.entries(block.attributes)) {
+          referrers.push({ id: `local.${name}`, expressions: [expr], location });
+        }
+      }
+    }
+  }
+
+  return referrers;
+}
+
+/**
+ * Attribute expressions of a block and its nested blocks
+ */
+function collectExpressions(block: TerraformBlock, exclude: readonly string[] = []): HCLExpression[] {
+  return [
+    ...Object.entries(block.attributes)
+      .filter(([name]) => !exclude.includes(name))
+      .map(([, expr]) => expr),
+    ...block.nestedBlocks.flatMap(nested => collectExpressions(nested)),
+  ];
+}
+
+/**
+ * Address of a resource, data or module block, as its graph node ID
+ */
+function getBlockAddress(block: TerraformBlock): string | undefined {
+  const [first, second] = block.labels;
+  switch (block.type) {
+    case 'resource':
+      return first && second ? `${first}.${second}` : undefined;
+    case 'data':
+      return first && second ? `data.${first}.${second}` : undefined;
+    case 'module':
+      return first ? `module.${first}` : undefined;
+    default:
+      return undefined;
+  }
+}
+
+// ============================================================================
+// Functions
+// ============================================================================
+
+/**
+ * Apply a Terraform function to evaluated arguments
+ */
+function callFunction(name: string, args: unknown[]): unknown {
+  const [first, second, third] = args;
+
+  switch (name) {
+    case 'toset':
+      return Array.isArray(first) ? toSet(first) : undefined;
+    case 'tolist':
+      return Array.isArray(first) ? first : undefined;
+    case 'tomap':
+      return isRecord(first) ? first : undefined;
+    case 'keys':
+      return isRecord(first) ? Object.keys(first).sort() : undefined;
+    case 'values':
+      return isRecord(first) ? Object.keys(first).sort().map(key => first[key]) : undefined;
+    case 'length':
+      if (Array.isArray(first) || typeof first === 'string') return first.length;
+      return isRecord(first) ? Object.keys(first).length : undefined;
+    case 'range': {
+      const [start, limit, step] = args.length === 1 ? [0, first, undefined] : [first, second, third];
+      if (typeof start !== 'number' || typeof limit !== 'number') return undefined;
+      const increment = step ?? (limit < start ? -1 : 1);
+      if (typeof increment !== 'number' || increment === 0) return undefined;
+      const values: number[] = [];
+      for (let i = start; increment > 0 ? i < limit : i > limit; i += increment) {
+        if (values.length > MAX_INSTANCES) return undefined;
+        values.push(i);
+      }
+      return values;
+    }
+    case 'concat':
+      return args.every(Array.isArray) ? (args as unknown[][]).flat() : undefined;
+    case 'merge':
+      return args.every(isRecord) ? Object.assign({}, ...args) : undefined;
+    case 'distinct':
+      return Array.isArray(first) ? Array.from(new Set(first)) : undefined;
+    case 'sort':
+      return Array.isArray(first) ? first.map(String).sort() : undefined;
+    case 'flatten':
+      return Array.isArray(first) ? first.flat(Infinity) : undefined;
+    case 'compact':
+      return Array.isArray(first) ? first.filter(value => value !== null && value !== '') : undefined;
+    case 'zipmap':
+      return Array.isArray(first) && Array.isArray(second) && first.length === second.length
+        ? Object.fromEntries(first.map((key, i) => [String(key), second[i]]))
+        : undefined;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Terraform sets of primitives are unique and ordered lexically
+ */
+function toSet(values: readonly unknown[]): unknown[] {
+  const primitives = values.map(value => (typeof value === 'number' || typeof value === 'boolean' ? String(value) : value));
+  return Array.from(new Set(primitives)).sort();
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
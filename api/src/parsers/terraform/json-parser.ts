@@ -0,0 +1,545 @@
+/**
+ * Terraform JSON Configuration Parser
+ * TASK-TFJSON-001: Parse *.tf.json / *.tofu.json files into the Terraform AST
+ *
+ * Terraform's JSON syntax encodes block types and labels as nested object
+ * keys. Blocks are produced in the same TerraformFile/TerraformBlock shape as
+ * the HCL parser, and string values go through the HCL expression parser so
+ * `${...}` interpolations yield the same expression nodes downstream.
+ */
+
+import * as yaml from 'yaml';
+
+import { ExpressionParser } from './expression-parser.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParseDiagnostic,
+  type ParserOptions,
+} from '../base/parser.js';
+
+import type {
+  TerraformFile,
+  TerraformBlock,
+  TerraformBlockType,
+  SourceLocation,
+  ParseError,
+  HCLExpression,
+} from './types.js';
+
+// ============================================================================
+// JSON Syntax Tables
+// ============================================================================
+
+/**
+ * Number of label levels nested under each top-level block type,
+ * e.g. `{"resource": {"aws_instance": {"web": {...}}}}`
+ */
+const BLOCK_LABEL_COUNTS: Readonly<Record<TerraformBlockType, number>> = {
+  resource: 2,
+  data: 2,
+  module: 1,
+  variable: 1,
+  output: 1,
+  provider: 1,
+  locals: 0,
+  terraform: 0,
+  moved: 0,
+  import: 0,
+};
+
+/**
+ * Nested block types known without a provider schema, with their label counts
+ */
+const NESTED_BLOCKS: Readonly<Record<string, Readonly<Record<string, number>>>> = {
+  resource: { lifecycle: 0, provisioner: 1, connection: 0, dynamic: 1 },
+  data: { lifecycle: 0, dynamic: 1, filter: 0 },
+  variable: { validation: 0 },
+  output: { precondition: 0 },
+  lifecycle: { precondition: 0, postcondition: 0 },
+  provisioner: { connection: 0 },
+  dynamic: { content: 0 },
+  terraform: { backend: 1, cloud: 0, required_providers: 0, provider_meta: 1 },
+  cloud: { workspaces: 0 },
+};
+
+/**
+ * Block types whose bodies follow a provider schema. In these, an array of
+ * objects is how JSON encodes repeated nested blocks (e.g. `ingress`, `filter`).
+ */
+const SCHEMA_BLOCK_TYPES = new Set<string>(['resource', 'data', 'provider', 'dynamic', 'content']);
+
+/**
+ * Arguments whose strings are bare expressions rather than string templates
+ */
+const EXPRESSION_ARGUMENTS: Readonly<Record<string, ReadonlySet<string>>> = {
+  resource: new Set(['depends_on', 'provider']),
+  data: new Set(['depends_on', 'provider']),
+  module: new Set(['depends_on', 'providers']),
+  output: new Set(['depends_on']),
+  variable: new Set(['type']),
+  lifecycle: new Set(['ignore_changes', 'replace_triggered_by']),
+  moved: new Set(['from', 'to']),
+  import: new Set(['to', 'provider']),
+};
+
+/**
+ * Arguments taken literally, without interpolation
+ */
+const LITERAL_ARGUMENTS: Readonly<Record<string, ReadonlySet<string>>> = {
+  variable: new Set(['default']),
+};
+
+/** Property name Terraform reserves for comments in JSON bodies */
+const COMMENT_KEY = '//';
+
+type StringMode = 'template' | 'expression' | 'literal';
+
+type JsonPath = Array<string | number>;
+
+// ============================================================================
+// JSON to Block Conversion
+// ============================================================================
+
+/**
+ * Converts parsed Terraform JSON into TerraformBlocks.
+ * Holds per-file state (positions, errors) for a single conversion.
+ */
+class TerraformJsonConverter {
+  private readonly errors: ParseError[] = [];
+  private readonly lineCounter = new yaml.LineCounter();
+  private readonly positions: yaml.Document | null;
+
+  constructor(
+    content: string,
+    private readonly filePath: string,
+    private readonly options: Required<ParserOptions>,
+    private readonly expressionParser: ExpressionParser
+  ) {
+    // JSON is valid YAML; the YAML document is only used for source positions
+    const doc = yaml.parseDocument(content, {
+      strict: false,
+      uniqueKeys: false,
+      lineCounter: this.lineCounter,
+    });
+    this.positions = doc.errors.length === 0 ? doc : null;
+  }
+
+  convert(root: unknown): { blocks: TerraformBlock[]; errors: ParseError[] } {
+    const blocks: TerraformBlock[] = [];
+
+    if (!isObject(root)) {
+      this.error('Terraform JSON configuration must be an object', [], 'INVALID_ROOT');
+      return { blocks, errors: this.errors };
+    }
+
+    for (const [key, value] of Object.entries(root)) {
+      if (key === COMMENT_KEY) {
+        continue;
+      }
+      if (!(key in BLOCK_LABEL_COUNTS)) {
+        this.warning(`Unsupported block type "${key}"`, [key], 'UNSUPPORTED_BLOCK_TYPE');
+        continue;
+      }
+
+      const type = key as TerraformBlockType;
+      this.expandLabels(value, BLOCK_LABEL_COUNTS[type], [key], [], (body, path, labels) => {
+        blocks.push(this.createBlock(type, labels, body, path));
+      });
+    }
+
+    return { blocks, errors: this.errors };
+  }
+
+  /**
+   * Walk label levels down to block bodies. At any level an array stands
+   * for several blocks sharing the labels collected so far.
+   */
+  private expandLabels(
+    value: unknown,
+    remaining: number,
+    path: JsonPath,
+    labels: string[],
+    onBody: (body: Record<string, unknown>, path: JsonPath, labels: string[]) => void
+  ): void {
+    if (Array.isArray(value)) {
+      value.forEach((item, i) => this.expandLabels(item, remaining, [...path, i], labels, onBody));
+      return;
+    }
+
+    if (!isObject(value)) {
+      this.warning(`Expected an object for "${path.join('.')}"`, path, 'INVALID_BLOCK_BODY');
+      return;
+    }
+
+    if (remaining === 0) {
+      onBody(value, path, labels);
+      return;
+    }
+
+    for (const [label, child] of Object.entries(value)) {
+      if (label === COMMENT_KEY) {
+        continue;
+      }
+      this.expandLabels(child, remaining - 1, [...path, label], [...labels, label], onBody);
+    }
+  }
+
+  private createBlock(
+    type: string,
+    labels: string[],
+    body: Record<string, unknown>,
+    path: JsonPath
+  ): TerraformBlock {
+    const attributes: Record<string, HCLExpression> = {};
+    const nestedBlocks: TerraformBlock[] = [];
+    const knownNested = NESTED_BLOCKS[type] ?? {};
+
+    for (const [name, value] of Object.entries(body)) {
+      if (name === COMMENT_KEY) {
+        continue;
+      }
+
+      const nestedLabels = knownNested[name];
+      const isNested = nestedLabels !== undefined ||
+        (SCHEMA_BLOCK_TYPES.has(type) && isArrayOfObjects(value));
+
+      if (isNested) {
+        if (this.options.parseNestedBlocks) {
+          this.expandLabels(value, nestedLabels ?? 0, [...path, name], [], (nestedBody, nestedPath, blockLabels) => {
+            nestedBlocks.push(this.createBlock(name, blockLabels, nestedBody, nestedPath));
+          });
+        }
+        continue;
+      }
+
+      attributes[name] = this.convertValue(value, this.stringModeFor(type, name));
+    }
+
+    return {
+      type: type as TerraformBlockType,
+      labels,
+      attributes,
+      nestedBlocks,
+      location: this.locate(path),
+      raw: '',
+    };
+  }
+
+  private stringModeFor(blockType: string, attribute: string): StringMode {
+    if (EXPRESSION_ARGUMENTS[blockType]?.has(attribute) === true) {
+      return 'expression';
+    }
+    if (LITERAL_ARGUMENTS[blockType]?.has(attribute) === true) {
+      return 'literal';
+    }
+    return 'template';
+  }
+
+  // ============================================================================
+  // Value Conversion
+  // ============================================================================
+
+  private convertValue(value: unknown, mode: StringMode): HCLExpression {
+    if (typeof value === 'string') {
+      if (mode === 'expression') {
+        return this.expressionParser.parse(value);
+      }
+      if (mode === 'literal') {
+        return this.literal(value);
+      }
+      return this.parseTemplate(value);
+    }
+
+    if (Array.isArray(value)) {
+      return {
+        type: 'array',
+        elements: value.map(item => this.convertValue(item, mode)),
+        raw: this.raw(value),
+      };
+    }
+
+    if (isObject(value)) {
+      const attributes: Record<string, HCLExpression> = {};
+      for (const [key, child] of Object.entries(value)) {
+        if (key !== COMMENT_KEY) {
+          attributes[key] = this.convertValue(child, mode);
+        }
+      }
+      return { type: 'object', attributes, raw: this.raw(value) };
+    }
+
+    if (typeof value === 'number' || typeof value === 'boolean') {
+      return this.literal(value);
+    }
+
+    return this.literal(null);
+  }
+
+  /**
+   * Parse a JSON string as an HCL string template.
+   * A string that is a single interpolation (`"${aws_vpc.main.id}"`)
+   * evaluates to the inner expression itself, as in Terraform.
+   */
+  private parseTemplate(value: string): HCLExpression {
+    const parts: Array<string | HCLExpression> = [];
+    let text = '';
+    let i = 0;
+
+    while (i < value.length) {
+      // $${ and %%{ escape a literal ${ and %{
+      if (value.startsWith('$${', i) || value.startsWith('%%{', i)) {
+        text += value.slice(i + 1, i + 3);
+        i += 3;
+        continue;
+      }
+
+      if (value.startsWith('${', i)) {
+        const end = findClosingBrace(value, i + 2);
+        if (end === -1) {
+          text += value.slice(i);
+          break;
+        }
+        if (text !== '') {
+          parts.push(text);
+          text = '';
+        }
+        parts.push(this.expressionParser.parse(stripTemplateMarkers(value.slice(i + 2, end))));
+        i = end + 1;
+        continue;
+      }
+
+      text += value[i];
+      i++;
+    }
+
+    if (text !== '') {
+      parts.push(text);
+    }
+
+    if (parts.length === 1 && typeof parts[0] !== 'string') {
+      return parts[0] as HCLExpression;
+    }
+    if (parts.every(part => typeof part === 'string')) {
+      return this.literal(parts.join(''), JSON.stringify(value));
+    }
+
+    return { type: 'template', parts, raw: this.raw(value) };
+  }
+
+  private literal(value: string | number | boolean | null, raw?: string): HCLExpression {
+    return { type: 'literal', value, raw: this.options.includeRaw ? (raw ?? JSON.stringify(value)) : '' };
+  }
+
+  private raw(value: unknown): string {
+    return this.options.includeRaw ? JSON.stringify(value) : '';
+  }
+
+  // ============================================================================
+  // Locations and Diagnostics
+  // ============================================================================
+
+  private locate(path: JsonPath): SourceLocation {
+    const node = this.positions?.getIn(path, true);
+    const range = yaml.isNode(node) ? node.range : undefined;
+
+    if (!range) {
+      return { file: this.filePath, lineStart: 1, lineEnd: 1, columnStart: 1, columnEnd: 1 };
+    }
+
+    const start = this.lineCounter.linePos(range[0]);
+    const end = this.lineCounter.linePos(Math.max(range[1] - 1, range[0]));
+    return {
+      file: this.filePath,
+      lineStart: start.line,
+      lineEnd: end.line,
+      columnStart: start.col,
+      columnEnd: end.col,
+    };
+  }
+
+  private error(message: string, path: JsonPath, code: string): void {
+    this.errors.push({ message, location: this.locate(path), severity: 'error', code });
+  }
+
+  private warning(message: string, path: JsonPath, code: string): void {
+    this.errors.push({ message, location: this.locate(path), severity: 'warning', code });
+  }
+}
+
+// ============================================================================
+// Terraform JSON Parser Class
+// ============================================================================
+
+/**
+ * Parser for Terraform JSON configuration files (`*.tf.json`, `*.tofu.json`)
+ */
+export class TerraformJsonParser extends BaseParser<TerraformFile> {
+  readonly name = 'terraform-json';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['.tf.json', '.tofu.json'];
+  readonly supportedMimeTypes = ['application/json'];
+
+  private readonly expressionParser: ExpressionParser;
+
+  constructor(options: ParserOptions = {}) {
+    super(options);
+    this.expressionParser = new ExpressionParser({ includeRaw: this.options.includeRaw });
+  }
+
+  /**
+   * Parse Terraform JSON content into a TerraformFile.
+   * Like HCLParser.parse, problems are reported in `errors` rather than thrown.
+   */
+  parseContent(
+    content: string,
+    filePath: string = '<input>',
+    options: Required<ParserOptions> = this.options
+  ): TerraformFile {
+    const file = (blocks: TerraformBlock[], errors: ParseError[]): TerraformFile => ({
+      path: filePath,
+      blocks,
+      errors,
+      encoding: options.encoding,
+      size: content.length,
+    });
+
+    let root: unknown;
+    try {
+      root = JSON.parse(content);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : String(err);
+      return file([], [{
+        message: `Invalid JSON: ${message}`,
+        location: locateJsonError(message, content, filePath),
+        severity: 'error',
+        code: 'JSON_SYNTAX_ERROR',
+      }]);
+    }
+
+    const converter = new TerraformJsonConverter(content, filePath, options, this.expressionParser);
+    const { blocks, errors } = converter.convert(root);
+    return file(blocks, errors);
+  }
+
+  /**
+   * Perform the actual parsing of Terraform JSON content
+   */
+  protected async doParse(
+    content: string,
+    filePath: string,
+    options: Required<ParserOptions>
+  ): Promise<ParseResult<TerraformFile>> {
+    const startTime = performance.now();
+    const file = this.parseContent(content, filePath, options);
+    const errors = file.errors.filter(e => e.severity === 'error');
+
+    if (errors.length > 0) {
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.location,
+          severity: 'fatal' as const,
+        })),
+        file,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const warnings: ParseDiagnostic[] = file.errors.map(e => ({
+      code: e.code ?? 'WARNING',
+      message: e.message,
+      location: e.location,
+      severity: 'warning' as const,
+    }));
+
+    return this.createSuccess(file, warnings, this.createMetadata(filePath, startTime, content));
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isArrayOfObjects(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.length > 0 && value.every(isObject);
+}
+
+/**
+ * Find the `}` closing an interpolation, skipping nested braces and quoted strings
+ */
+function findClosingBrace(value: string, from: number): number {
+  let depth = 0;
+  let inString = false;
+
+  for (let i = from; i < value.length; i++) {
+    const char = value[i];
+
+    if (inString) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      if (depth === 0) {
+        return i;
+      }
+      depth--;
+    }
+  }
+
+  return -1;
+}
+
+/**
+ * Remove `~` whitespace strip markers from an interpolation body
+ */
+function stripTemplateMarkers(expr: string): string {
+  return expr.replace(/^~/, '').replace(/~$/, '');
+}
+
+/**
+ * Map a JSON.parse error ("... at position N") to a source location.
+ * Not every engine message carries a position.
+ */
+function locateJsonError(message: string, content: string, filePath: string): SourceLocation | null {
+  const match = /position (\d+)/.exec(message);
+  if (!match) {
+    return null;
+  }
+
+  const before = content.slice(0, Number(match[1]));
+  const line = before.split('\n').length;
+  const column = before.length - before.lastIndexOf('\n');
+  return { file: filePath, lineStart: line, lineEnd: line, columnStart: column, columnEnd: column };
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new Terraform JSON parser instance
+ */
+export function createTerraformJsonParser(options?: ParserOptions): TerraformJsonParser {
+  return new TerraformJsonParser(options);
+}
+
+/**
+ * Check whether a path is a Terraform JSON configuration file
+ */
+export function isTerraformJsonFile(filePath: string): boolean {
+  return filePath.endsWith('.tf.json') || filePath.endsWith('.tofu.json');
+}
+
+export const terraformJsonParser = new TerraformJsonParser();
@@ -0,0 +1,217 @@
+/**
+ * Terraform Module Merger
+ * TASK-TFJSON-001: Merge the HCL and JSON files of a module
+ *
+ * A Terraform module is every configuration file in one directory, whatever
+ * its syntax. Primary files are combined as-is; override files
+ * (`override.tf`, `*_override.tf.json`, ...) are applied afterwards in
+ * lexical order, merging into the blocks they target.
+ */
+
+import * as path from 'path';
+
+import type { TerraformFile, TerraformBlock, HCLExpression, ParseError } from './types.js';
+
+/**
+ * Matches Terraform and OpenTofu override file names
+ */
+const OVERRIDE_FILE_PATTERN = /(^|_)override\.(tf|tofu)(\.json)?$/;
+
+/**
+ * Check whether a path is a Terraform override file
+ */
+export function isTerraformOverrideFile(filePath: string): boolean {
+  return OVERRIDE_FILE_PATTERN.test(path.basename(filePath));
+}
+
+/**
+ * Merge the files of one or more modules.
+ *
+ * Files are grouped by directory. Within each module, override file blocks
+ * are merged into the matching primary blocks, and the override files are
+ * returned without those blocks. Duplicate primary blocks and overrides
+ * without a target are reported as warnings on the file that declares them.
+ *
+ * Input files are not mutated.
+ */
+export function mergeTerraformModules(files: TerraformFile[]): TerraformFile[] {
+  const modules = new Map<string, TerraformFile[]>();
+  for (const file of files) {
+    const dir = path.dirname(file.path);
+    const moduleFiles = modules.get(dir) ?? [];
+    moduleFiles.push(file);
+    modules.set(dir, moduleFiles);
+  }
+
+  const merged = new Map<TerraformFile, TerraformFile>();
+  for (const moduleFiles of modules.values()) {
+    for (const [original, result] of mergeModule(moduleFiles)) {
+      merged.set(original, result);
+    }
+  }
+
+  return files.map(file => merged.get(file) ?? file);
+}
+
+// ============================================================================
+// Module Merge
+// ============================================================================
+
+interface MutableFile {
+  blocks: TerraformBlock[];
+  errors: ParseError[];
+}
+
+function mergeModule(files: TerraformFile[]): Map<TerraformFile, TerraformFile> {
+  const state = new Map<TerraformFile, MutableFile>(
+    files.map(file => [file, { blocks: [...file.blocks], errors: [...file.errors] }])
+  );
+
+  const primaries = files.filter(file => !isTerraformOverrideFile(file.path));
+  const overrides = files
+    .filter(file => isTerraformOverrideFile(file.path))
+    .sort((a, b) => path.basename(a.path).localeCompare(path.basename(b.path)));
+
+  // Index primary blocks; Terraform rejects duplicates, so flag them
+  const index = new Map<string, { file: MutableFile; position: number }>();
+  for (const file of primaries) {
+    const target = state.get(file) as MutableFile;
+    target.blocks.forEach((block, position) => {
+      const key = blockKey(block);
+      if (key === null) {
+        return;
+      }
+      if (index.has(key)) {
+        // Several terraform blocks are normal; overrides apply to the first
+        if (block.type !== 'terraform') {
+          target.errors.push(warning(`Duplicate ${describe(block)} declared in more than one file`, block, 'DUPLICATE_BLOCK'));
+        }
+        return;
+      }
+      index.set(key, { file: target, position });
+    });
+  }
+
+  for (const file of overrides) {
+    const source = state.get(file) as MutableFile;
+    const unmatched: TerraformBlock[] = [];
+
+    for (const block of source.blocks) {
+      if (block.type === 'locals') {
+        unmatched.push(...overrideLocals(block, primaries.map(p => state.get(p) as MutableFile), source));
+        continue;
+      }
+
+      const entry = index.get(blockKey(block) ?? '');
+      if (!entry) {
+        source.errors.push(warning(`Override for ${describe(block)} has no matching block`, block, 'OVERRIDE_TARGET_MISSING'));
+        unmatched.push(block);
+        continue;
+      }
+
+      const original = entry.file.blocks[entry.position] as TerraformBlock;
+      entry.file.blocks[entry.position] = mergeBlock(original, block);
+    }
+
+    // Unmatched overrides are kept so their content is still visible
+    source.blocks = unmatched;
+  }
+
+  return new Map(files.map(file => {
+    const result = state.get(file) as MutableFile;
+    return [file, { ...file, blocks: result.blocks, errors: result.errors }];
+  }));
+}
+
+/**
+ * Apply an override `locals` block: each value replaces the same-named local
+ * wherever it is declared. Returns a block with the locals that matched nothing.
+ */
+function overrideLocals(
+  block: TerraformBlock,
+  primaries: MutableFile[],
+  source: MutableFile
+): TerraformBlock[] {
+  const remaining: Record<string, HCLExpression> = {};
+
+  for (const [name, value] of Object.entries(block.attributes)) {
+    let replaced = false;
+
+    for (const file of primaries) {
+      file.blocks.forEach((candidate, position) => {
+        if (candidate.type === 'locals' && name in candidate.attributes) {
+          file.blocks[position] = {
+            ...candidate,
+            attributes: { ...candidate.attributes, [name]: value },
+          };
+          replaced = true;
+        }
+      });
+    }
+
+    if (!replaced) {
+      remaining[name] = value;
+      source.errors.push(warning(`Override for local.${name} has no matching local value`, block, 'OVERRIDE_TARGET_MISSING'));
+    }
+  }
+
+  return Object.keys(remaining).length > 0 ? [{ ...block, attributes: remaining }] : [];
+}
+
+/**
+ * Merge an override block into its original.
+ * Arguments replace same-named arguments; nested blocks replace every
+ * original nested block of the same type, except `lifecycle`, which is
+ * merged argument by argument.
+ */
+function mergeBlock(original: TerraformBlock, override: TerraformBlock): TerraformBlock {
+  const overriddenTypes = new Set(override.nestedBlocks.map(b => b.type as string));
+  const nestedBlocks = original.nestedBlocks.filter(b => !overriddenTypes.has(b.type));
+
+  for (const nested of override.nestedBlocks) {
+    const lifecycle = (nested.type as string) === 'lifecycle'
+      ? original.nestedBlocks.find(b => (b.type as string) === 'lifecycle')
+      : undefined;
+    nestedBlocks.push(lifecycle ? mergeBlock(lifecycle, nested) : nested);
+  }
+
+  return {
+    ...original,
+    attributes: { ...original.attributes, ...override.attributes },
+    nestedBlocks,
+  };
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Identity of a top-level block within a module, or null for block types
+ * that may repeat (locals, moved, import)
+ */
+function blockKey(block: TerraformBlock): string | null {
+  switch (block.type) {
+    case 'locals':
+    case 'moved':
+    case 'import':
+      return null;
+    case 'terraform':
+      return 'terraform';
+    case 'provider': {
+      const alias = block.attributes['alias'];
+      const aliasName = alias?.type === 'literal' ? String(alias.value) : '';
+      return `provider.${block.labels.join('.')}.${aliasName}`;
+    }
+    default:
+      return `${block.type}.${block.labels.join('.')}`;
+  }
+}
+
+function describe(block: TerraformBlock): string {
+  return block.labels.length > 0 ? `${block.type} "${block.labels.join('.')}"` : `${block.type} block`;
+}
+
+function warning(message: string, block: TerraformBlock, code: string): ParseError {
+  return { message, location: block.location, severity: 'warning', code };
+}
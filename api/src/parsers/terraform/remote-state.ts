@@ -0,0 +1,491 @@
+/**
+ * Terraform Remote State
+ * TASK-TFSTATE-001: Normalize state backends and terraform_remote_state consumers
+ *
+ * Backend configurations (`terraform { backend "..." }`, `data
+ * "terraform_remote_state"` and Terragrunt `remote_state`) are reduced to a
+ * state identity: a canonical address of the state object, e.g.
+ * `s3://bucket/key`. A root module and the remote-state data sources reading
+ * it resolve to the same identity, which is how stacks are linked across
+ * modules and repositories.
+ */
+
+import * as path from 'path';
+
+import type { GraphEdge, NodeType } from '../../types/graph.js';
+import type {
+  HCLExpression,
+  SourceLocation,
+  TerraformBlock,
+  TerraformFile,
+} from './types.js';
+
+/** Data source type reading another configuration's state */
+export const REMOTE_STATE_DATA_TYPE = 'terraform_remote_state';
+
+/** State file of the local backend when no path is configured */
+const DEFAULT_LOCAL_STATE_PATH = 'terraform.tfstate';
+
+/** Key prefix of non-default workspaces in the s3 backend */
+const DEFAULT_S3_WORKSPACE_KEY_PREFIX = 'env:';
+
+/**
+ * `data.terraform_remote_state.<name>.outputs.<output>`, also matching the
+ * space-separated form traversals take when parsed as bare literals
+ */
+const OUTPUT_REFERENCE_PATTERN =
+  /\bdata\s*\.\s*terraform_remote_state\s*\.\s*([\w-]+)\s*\.\s*outputs\s*\.\s*([\w-]+)/g;
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Canonical identity of a Terraform state object
+ */
+export interface RemoteStateIdentity {
+  /** Backend type (s3, gcs, azurerm, local, remote, cloud) */
+  readonly backend: string;
+  /** Canonical state address (e.g., 's3://acme-state/network/terraform.tfstate') */
+  readonly id: string;
+}
+
+/**
+ * Options for normalizing a backend configuration
+ */
+export interface RemoteStateNormalizeOptions {
+  /** Directory relative local state paths resolve against */
+  readonly workingDir?: string;
+  /** Workspace of the state; the default workspace when omitted */
+  readonly workspace?: string;
+}
+
+/**
+ * A `data "terraform_remote_state"` block and the outputs read from it
+ */
+export interface RemoteStateConsumer {
+  /** Data source name */
+  readonly name: string;
+  /** Address of the data source (e.g., 'data.terraform_remote_state.network') */
+  readonly address: string;
+  /** State the data source reads, or null if its configuration is not static */
+  readonly identity: RemoteStateIdentity | null;
+  /** Output names referenced through `.outputs.<name>` */
+  readonly outputs: readonly string[];
+  /** Location of the data block */
+  readonly location: SourceLocation;
+}
+
+// ============================================================================
+// Backend Normalization
+// ============================================================================
+
+/**
+ * Normalize a backend configuration into a state identity.
+ *
+ * @param backend - Backend type
+ * @param config - Backend configuration values
+ * @param options - Working directory and workspace
+ * @returns The identity, or null for unsupported backends and configurations
+ *   whose location attributes are missing or not static
+ */
+export function normalizeRemoteState(
+  backend: string,
+  config: Readonly<Record<string, unknown>>,
+  options: RemoteStateNormalizeOptions = {}
+): RemoteStateIdentity | null {
+  const value = (name: string): string | undefined => {
+    const raw = config[name];
+    return typeof raw === 'string' && raw.trim() !== '' && !raw.includes('${') ? raw.trim() : undefined;
+  };
+  const workspace = options.workspace !== undefined && options.workspace !== 'default'
+    ? options.workspace
+    : undefined;
+  const identity = (id: string | undefined): RemoteStateIdentity | null =>
+    id !== undefined ? { backend, id } : null;
+
+  switch (backend) {
+    case 's3': {
+      const bucket = value('bucket');
+      const key = value('key');
+      if (bucket === undefined || key === undefined) return null;
+      const prefix = value('workspace_key_prefix') ?? DEFAULT_S3_WORKSPACE_KEY_PREFIX;
+      const objectKey = workspace !== undefined ? `${prefix}/${workspace}/${normalizeKey(key)}` : key;
+      return identity(`s3://${bucket}/${normalizeKey(objectKey)}`);
+    }
+
+    case 'gcs': {
+      const bucket = value('bucket');
+      if (bucket === undefined) return null;
+      const prefix = normalizeKey(value('prefix') ?? '');
+      const object = `${workspace ?? 'default'}.tfstate`;
+      return identity(`gcs://${bucket}/${prefix !== '' ? `${prefix}/` : ''}${object}`);
+    }
+
+    case 'azurerm': {
+      const account = value('storage_account_name');
+      const container = value('container_name');
+      const key = value('key');
+      if (account === undefined || container === undefined || key === undefined) return null;
+      const blob = workspace !== undefined ? `${normalizeKey(key)}env:${workspace}` : normalizeKey(key);
+      return identity(`azurerm://${account.toLowerCase()}/${container}/${blob}`);
+    }
+
+    case 'local': {
+      const statePath = workspace !== undefined
+        ? path.posix.join(value('workspace_dir') ?? 'terraform.tfstate.d', workspace, DEFAULT_LOCAL_STATE_PATH)
+        : value('path') ?? DEFAULT_LOCAL_STATE_PATH;
+      return identity(`local://${path.posix.resolve('/', toPosix(options.workingDir ?? '.'), toPosix(statePath))}`);
+    }
+
+    case 'remote':
+    case 'cloud': {
+      const organization = value('organization');
+      const workspaces = config['workspaces'];
+      if (organization === undefined || typeof workspaces !== 'object' || workspaces === null) return null;
+      const { name, prefix } = workspaces as Record<string, unknown>;
+      const workspaceName = typeof name === 'string'
+        ? name
+        : typeof prefix === 'string' && workspace !== undefined ? `${prefix}${workspace}` : undefined;
+      return identity(workspaceName !== undefined ? `tfc://${organization}/${workspaceName}` : undefined);
+    }
+
+    default:
+      return null;
+  }
+}
+
+// ============================================================================
+// Terraform Configurations
+// ============================================================================
+
+/**
+ * Get the state identity of a root module from its backend configuration.
+ * Modules without a backend block keep their state in the local backend.
+ *
+ * @param files - Files of one module directory
+ * @param workingDir - Module directory
+ */
+export function getBackendIdentity(
+  files: readonly TerraformFile[],
+  workingDir: string
+): RemoteStateIdentity | null {
+  for (const file of files) {
+    for (const block of file.blocks) {
+      if (block.type !== 'terraform') continue;
+
+      for (const nested of block.nestedBlocks) {
+        const nestedType: string = nested.type;
+        const backend = nestedType === 'cloud' ? 'cloud' : nestedType === 'backend' ? nested.labels[0] : undefined;
+        if (backend === undefined) continue;
+
+        // remote and cloud select their workspace in a nested block
+        const workspaces = nested.nestedBlocks.find(candidate => (candidate.type as string) === 'workspaces');
+        return normalizeRemoteState(
+          backend,
+          {
+            ...evaluateAttributes(nested.attributes),
+            ...(workspaces ? { workspaces: evaluateAttributes(workspaces.attributes) } : {}),
+          },
+          { workingDir }
+        );
+      }
+    }
+  }
+
+  return normalizeRemoteState('local', {}, { workingDir });
+}
+
+/**
+ * Get the `terraform_remote_state` data sources of a module and the outputs
+ * each of them is read for.
+ *
+ * @param files - Files of one module directory
+ * @param workingDir - Module directory, for local state paths
+ */
+export function getRemoteStateConsumers(
+  files: readonly TerraformFile[],
+  workingDir: string
+): RemoteStateConsumer[] {
+  const outputsByName = collectOutputReferences(files);
+  const consumers: RemoteStateConsumer[] = [];
+
+  for (const file of files) {
+    for (const block of file.blocks) {
+      if (!isRemoteStateDataBlock(block)) continue;
+
+      const name = block.labels[1] ?? 'unknown';
+      const backend = evaluateExpression(block.attributes['backend']);
+      const config = evaluateExpression(block.attributes['config']);
+      const workspace = evaluateExpression(block.attributes['workspace']);
+
+      consumers.push({
+        name,
+        address: `data.${REMOTE_STATE_DATA_TYPE}.${name}`,
+        identity: normalizeRemoteState(
+          typeof backend === 'string' ? backend : 'local',
+          isRecord(config) ? config : {},
+          {
+            workingDir,
+            ...(typeof workspace === 'string' ? { workspace } : {}),
+          }
+        ),
+        outputs: Array.from(outputsByName.get(name) ?? []).sort(),
+        location: block.location,
+      });
+    }
+  }
+
+  return consumers;
+}
+
+/**
+ * Check whether a block is a `data "terraform_remote_state"` block
+ */
+export function isRemoteStateDataBlock(block: TerraformBlock): boolean {
+  return block.type === 'data' && block.labels[0] === REMOTE_STATE_DATA_TYPE;
+}
+
+// ============================================================================
+// Graph Edges
+// ============================================================================
+
+/**
+ * Link remote-state data sources to the outputs of the root modules whose
+ * state they read.
+ *
+ * Outputs carry their module's state identity in `metadata.remoteState`;
+ * data sources carry the state they read in `metadata.remoteState` and the
+ * outputs they use in `metadata.remoteStateOutputs`.
+ *
+ * @param nodes - Graph nodes of any number of modules
+ * @returns Deduplicated output_value edges from each output to its readers
+ */
+export function createRemoteStateEdges(nodes: readonly NodeType[]): GraphEdge[] {
+  const producers = new Map<string, NodeType[]>();
+  for (const node of nodes) {
+    const state = getRemoteState(node);
+    if (node.type !== 'terraform_output' || state === undefined) continue;
+    const key = `${state}#${node.name}`;
+    producers.set(key, [...(producers.get(key) ?? []), node]);
+  }
+
+  const edges = new Map<string, GraphEdge>();
+  for (const consumer of nodes) {
+    const state = getRemoteState(consumer);
+    if (consumer.type !== 'terraform_data' || state === undefined) continue;
+
+    for (const output of getRemoteStateOutputs(consumer)) {
+      for (const producer of producers.get(`${state}#${output}`) ?? []) {
+        const edge = createRemoteStateEdge(producer.id, consumer, output, state);
+        edges.set(edge.id, edge);
+      }
+    }
+  }
+
+  return Array.from(edges.values());
+}
+
+/**
+ * Build the output_value edge from an output to a data source reading it
+ *
+ * @param producerId - ID of the output node (or of the config owning the state)
+ * @param consumer - Remote-state data source node
+ * @param output - Output name
+ * @param state - State identity the data source reads
+ */
+export function createRemoteStateEdge(
+  producerId: string,
+  consumer: NodeType,
+  output: string,
+  state: string
+): GraphEdge {
+  const attribute = `outputs.${output}`;
+  return {
+    id: `output_value:${producerId}->${consumer.id}#${output}`,
+    source: producerId,
+    target: consumer.id,
+    type: 'output_value',
+    label: attribute,
+    metadata: {
+      attribute,
+      location: consumer.location,
+      implicit: true,
+      confidence: 90,
+      evidence: [{
+        type: 'semantic',
+        description: `${consumer.name} reads output '${output}' of state ${state}`,
+        location: consumer.location,
+      }],
+    },
+  };
+}
+
+/**
+ * State identity recorded on a node, if any
+ */
+export function getRemoteState(node: NodeType): string | undefined {
+  const state = node.metadata?.remoteState;
+  return typeof state === 'string' ? state : undefined;
+}
+
+/**
+ * Outputs a remote-state data source node reads
+ */
+export function getRemoteStateOutputs(node: NodeType): readonly string[] {
+  const outputs = node.metadata?.remoteStateOutputs;
+  return Array.isArray(outputs) ? outputs.filter((o): o is string => typeof o === 'string') : [];
+}
+
+// ============================================================================
+// Static Evaluation
+// ============================================================================
+
+/**
+ * Evaluate an expression that only contains literals.
+ *
+ * @param expr - Expression to evaluate
+ * @param functions - Values of zero-argument function calls
+ * @returns The value, or undefined if the expression depends on variables,
+ *   resources or unknown functions
+ */
+export function evaluateExpression(
+  expr: HCLExpression | undefined,
+  functions: Readonly<Record<string, string>> = {}
+): unknown {
+  if (!expr) return undefined;
+
+  switch (expr.type) {
+    case 'literal':
+      return expr.value;
+
+    case 'template': {
+      let result = '';
+      for (const part of expr.parts) {
+        const value = typeof part === 'string' ? part : evaluateExpression(part, functions);
+        if (typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'boolean') {
+          return undefined;
+        }
+        result += String(value);
+      }
+      return result;
+    }
+
+    case 'function':
+      return expr.args.length === 0 ? functions[expr.name] : undefined;
+
+    case 'object':
+      return evaluateAttributes(expr.attributes, functions);
+
+    case 'array': {
+      const values = expr.elements.map(element => evaluateExpression(element, functions));
+      return values.every(value => value !== undefined) ? values : undefined;
+    }
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Evaluate the static attributes of a block or object; others are left out
+ */
+export function evaluateAttributes(
+  attributes: Readonly<Record<string, HCLExpression>>,
+  functions: Readonly<Record<string, string>> = {}
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [name, expr] of Object.entries(attributes)) {
+    const value = evaluateExpression(expr, functions);
+    if (value !== undefined) {
+      values[name] = value;
+    }
+  }
+  return values;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Collect `<data source>.outputs.<name>` references across all blocks
+ */
+function collectOutputReferences(files: readonly TerraformFile[]): Map<string, Set<string>> {
+  const outputs = new Map<string, Set<string>>();
+
+  const visitBlock = (block: TerraformBlock): void => {
+    for (const expr of Object.values(block.attributes)) {
+      for (const text of traversalTexts(expr)) {
+        for (const match of text.matchAll(OUTPUT_REFERENCE_PATTERN)) {
+          const [, source, output] = match;
+          if (source === undefined || output === undefined) continue;
+          let names = outputs.get(source);
+          if (!names) {
+            names = new Set();
+            outputs.set(source, names);
+          }
+          names.add(output);
+        }
+      }
+    }
+    block.nestedBlocks.forEach(visitBlock);
+  };
+
+  for (const file of files) {
+    file.blocks.forEach(visitBlock);
+  }
+
+  return outputs;
+}
+
+/**
+ * Texts of the traversals in an expression; `outputs["name"]` index
+ * expressions are rewritten to `outputs.name`
+ */
+function traversalTexts(expr: HCLExpression): string[] {
+  switch (expr.type) {
+    case 'literal':
+      return typeof expr.value === 'string' ? [expr.value] : [];
+    case 'reference':
+      return [expr.parts.join('.')];
+    case 'index': {
+      const key = expr.key.type === 'literal' ? expr.key.value : undefined;
+      const collections = traversalTexts(expr.collection);
+      return typeof key === 'string'
+        ? [...collections.map(text => `${text}.${key}`), ...traversalTexts(expr.key)]
+        : [...collections, ...traversalTexts(expr.key)];
+    }
+    case 'function':
+      return expr.args.flatMap(traversalTexts);
+    case 'template':
+      return expr.parts.flatMap(part => (typeof part === 'string' ? [] : traversalTexts(part)));
+    case 'for':
+      return [expr.collection, expr.valueExpr, expr.keyExpr, expr.condition]
+        .flatMap(part => (part ? traversalTexts(part) : []));
+    case 'conditional':
+      return [expr.condition, expr.trueResult, expr.falseResult].flatMap(traversalTexts);
+    case 'splat':
+      return [expr.source, ...(expr.each ? [expr.each] : [])].flatMap(traversalTexts);
+    case 'object':
+      return Object.values(expr.attributes).flatMap(traversalTexts);
+    case 'array':
+      return expr.elements.flatMap(traversalTexts);
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Object keys without leading, trailing or repeated slashes and `.` segments
+ */
+function normalizeKey(value: string): string {
+  const key = path.posix.normalize(toPosix(value)).replace(/^\/+|\/+$/g, '');
+  return key === '.' ? '' : key;
+}
+
+function toPosix(value: string): string {
+  return value.replace(/\\/g, '/');
+}
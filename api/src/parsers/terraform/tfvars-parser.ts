@@ -0,0 +1,171 @@
+/**
+ * Terraform Variable Definitions Parser
+ * TASK-TFVARS-001: Parse *.tfvars / *.tfvars.json files into variable values
+ *
+ * Variable definition files only assign values to root-level names. HCL files
+ * are read with the HCL attribute parser and evaluated statically; JSON files
+ * are plain objects. Values that are not literals are reported as warnings
+ * and left out.
+ */
+
+import { HCLParser } from './hcl-parser.js';
+import { evaluateStatic, type EvaluationScope } from './instance-expander.js';
+import {
+  BaseParser,
+  type ParseResult,
+  type ParseDiagnostic,
+  type ParserOptions,
+} from '../base/parser.js';
+
+import type { ParseError } from './types.js';
+
+/** Variable definition files cannot reference anything */
+const EMPTY_SCOPE: EvaluationScope = { lookup: () => undefined };
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Parsed variable definitions file
+ */
+export interface TerraformVarsFile {
+  readonly path: string;
+  /** Variable values by name */
+  readonly variables: Record<string, unknown>;
+  readonly errors: ParseError[];
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Check whether a path is a variable definitions file
+ */
+export function isTerraformVarsPath(filePath: string): boolean {
+  return filePath.endsWith('.tfvars') || filePath.endsWith('.tfvars.json');
+}
+
+/**
+ * Check whether a parsed AST is a variable definitions file
+ */
+export function isTerraformVarsFile(ast: unknown): ast is TerraformVarsFile {
+  return (
+    typeof ast === 'object' &&
+    ast !== null &&
+    typeof (ast as { path?: unknown }).path === 'string' &&
+    typeof (ast as { variables?: unknown }).variables === 'object' &&
+    isTerraformVarsPath((ast as { path: string }).path)
+  );
+}
+
+/**
+ * Parse the content of a variable definitions file.
+ * Like HCLParser.parse, problems are reported in `errors` rather than thrown.
+ */
+export function parseTerraformVars(content: string, filePath: string = '<input>'): TerraformVarsFile {
+  const variables: Record<string, unknown> = {};
+  const errors: ParseError[] = [];
+
+  if (filePath.endsWith('.json')) {
+    let root: unknown;
+    try {
+      root = JSON.parse(content);
+    } catch (err) {
+      errors.push({
+        message: `Invalid JSON: ${err instanceof Error ? err.message : String(err)}`,
+        location: null,
+        severity: 'error',
+        code: 'JSON_SYNTAX_ERROR',
+      });
+      return { path: filePath, variables, errors };
+    }
+
+    if (typeof root !== 'object' || root === null || Array.isArray(root)) {
+      errors.push({
+        message: 'Variable definitions must be a JSON object',
+        location: null,
+        severity: 'error',
+        code: 'JSON_SYNTAX_ERROR',
+      });
+      return { path: filePath, variables, errors };
+    }
+
+    Object.assign(variables, root);
+    return { path: filePath, variables, errors };
+  }
+
+  const parsed = new HCLParser().parseAttributes(content, filePath);
+  errors.push(...parsed.errors);
+
+  for (const [name, expr] of Object.entries(parsed.attributes)) {
+    const value = evaluateStatic(expr, EMPTY_SCOPE);
+    if (value === undefined) {
+      errors.push({
+        message: `Value of '${name}' is not a literal`,
+        location: null,
+        severity: 'warning',
+        code: 'NON_LITERAL_VALUE',
+      });
+      continue;
+    }
+    variables[name] = value;
+  }
+
+  return { path: filePath, variables, errors };
+}
+
+// ============================================================================
+// Terraform Vars Parser Class
+// ============================================================================
+
+/**
+ * Parser for Terraform variable definitions files (`*.tfvars`, `*.tfvars.json`)
+ */
+export class TerraformVarsParser extends BaseParser<TerraformVarsFile> {
+  readonly name = 'terraform-vars';
+  readonly version = '1.0.0';
+  readonly supportedExtensions = ['.tfvars', '.tfvars.json'];
+  readonly supportedMimeTypes = ['text/x-hcl', 'application/json'];
+
+  constructor(options: ParserOptions = {}) {
+    super(options);
+  }
+
+  /**
+   * Perform the actual parsing of variable definitions
+   */
+  protected async doParse(
+    content: string,
+    filePath: string
+  ): Promise<ParseResult<TerraformVarsFile>> {
+    const startTime = performance.now();
+    const file = parseTerraformVars(content, filePath);
+    const errors = file.errors.filter(e => e.severity === 'error');
+
+    if (errors.length > 0) {
+      return this.createFailure(
+        errors.map(e => ({
+          code: 'SYNTAX_ERROR' as const,
+          message: e.message,
+          location: e.location,
+          severity: 'fatal' as const,
+        })),
+        file,
+        this.createMetadata(filePath, startTime, content)
+      );
+    }
+
+    const warnings: ParseDiagnostic[] = file.errors.map(e => ({
+      code: e.code ?? 'WARNING',
+      message: e.message,
+      location: e.location,
+      severity: 'warning' as const,
+    }));
+
+    return this.createSuccess(file, warnings, this.createMetadata(filePath, startTime, content));
+  }
+}
+
+export const terraformVarsParser = new TerraformVarsParser();
@@ -0,0 +1,231 @@
+/**
+ * Terraform Variable Values
+ * TASK-TFVARS-001: Resolve variable values per environment
+ *
+ * A module's variables take their values from declaration defaults,
+ * auto-loaded variable files, named variable files (`prod.tfvars`) and
+ * Terragrunt `inputs`. Each named file and Terragrunt unit is an environment;
+ * values are layered in Terraform's precedence order so every environment
+ * gets the value `terraform plan` would see.
+ */
+
+import * as path from 'path';
+import { evaluateStatic, type EvaluationScope } from './instance-expander.js';
+import type { NodeType } from '../../types/graph.js';
+import type { TerraformFile } from './types.js';
+import type { TerraformVarsFile } from './tfvars-parser.js';
+
+/** Environment of values that apply without selecting an environment */
+export const DEFAULT_ENVIRONMENT = 'default';
+
+/** Directory names recognized as environments in Terragrunt layouts */
+const ENVIRONMENT_NAMES = new Set([
+  'prod', 'production', 'prd',
+  'staging', 'stage', 'stg',
+  'dev', 'development',
+  'qa', 'test', 'uat', 'sandbox', 'preprod',
+]);
+
+/** Variable defaults cannot reference anything */
+const EMPTY_SCOPE: EvaluationScope = { lookup: () => undefined };
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Where a set of values comes from
+ */
+export type VariableValueSourceKind = 'tfvars' | 'terragrunt';
+
+/**
+ * Values assigned to a module's variables by one file
+ */
+export interface VariableValueSource {
+  readonly kind: VariableValueSourceKind;
+  readonly path: string;
+  /** Environment the values apply to; null for every environment */
+  readonly environment: string | null;
+  readonly variables: Readonly<Record<string, unknown>>;
+}
+
+/**
+ * Value of a variable in one environment
+ */
+export interface ResolvedVariableValue {
+  readonly value: unknown;
+  /** File that assigned the value; the declaring file for defaults */
+  readonly source: string;
+}
+
+/**
+ * Variable values by environment, then by variable name
+ */
+export type EnvironmentVariableValues = Map<string, Record<string, ResolvedVariableValue>>;
+
+// ============================================================================
+// Environments
+// ============================================================================
+
+/**
+ * Check whether Terraform loads a variable file without `-var-file`
+ */
+export function isAutoLoadedVarsPath(filePath: string): boolean {
+  const name = path.basename(filePath);
+  return (
+    name === 'terraform.tfvars' ||
+    name === 'terraform.tfvars.json' ||
+    name.endsWith('.auto.tfvars') ||
+    name.endsWith('.auto.tfvars.json')
+  );
+}
+
+/**
+ * Environment of a variable file.
+ * Auto-loaded files of the module itself apply to every environment (null);
+ * elsewhere they take their directory name (`envs/prod/terraform.tfvars`).
+ * Named files take their stem (`prod.tfvars`).
+ *
+ * @param moduleDir - Directory of the module the file belongs to; the
+ *   working directory when not known
+ */
+export function getVarsFileEnvironment(filePath: string, moduleDir?: string): string | null {
+  if (isAutoLoadedVarsPath(filePath)) {
+    const dir = path.dirname(filePath);
+    if (dir === (moduleDir ?? '.')) return null;
+    return path.basename(dir).toLowerCase();
+  }
+  return path.basename(filePath).replace(/\.tfvars(\.json)?$/, '').toLowerCase();
+}
+
+/**
+ * Environment of a Terragrunt unit: the first directory of its path named
+ * like an environment, otherwise the unit's directory
+ */
+export function getTerragruntEnvironment(configPath: string): string {
+  const dirs = path.dirname(configPath).split(/[\\/]/).filter(Boolean).map(dir => dir.toLowerCase());
+  return dirs.find(dir => ENVIRONMENT_NAMES.has(dir)) ?? dirs[dirs.length - 1] ?? DEFAULT_ENVIRONMENT;
+}
+
+/**
+ * Create the value source of a parsed variable file
+ */
+export function createVarsFileSource(file: TerraformVarsFile, moduleDir: string): VariableValueSource {
+  return {
+    kind: 'tfvars',
+    path: file.path,
+    environment: getVarsFileEnvironment(file.path, moduleDir),
+    variables: file.variables,
+  };
+}
+
+/**
+ * Find the module a variable file belongs to: the nearest module directory
+ * at or above the file's directory
+ */
+export function findOwningModule(filePath: string, moduleDirs: Iterable<string>): string | null {
+  let owner: string | null = null;
+  for (const dir of moduleDirs) {
+    const relative = path.relative(dir, path.dirname(filePath));
+    if (relative.startsWith('..') || path.isAbsolute(relative)) continue;
+    if (owner === null || dir.length > owner.length) owner = dir;
+  }
+  return owner;
+}
+
+// ============================================================================
+// Resolution
+// ============================================================================
+
+/**
+ * Resolve the variables declared by a module's files in every environment
+ * its value sources name, plus the default environment.
+ *
+ * Later sources override earlier ones: defaults, Terragrunt inputs (passed
+ * as TF_VAR_ environment variables), terraform.tfvars, terraform.tfvars.json,
+ * *.auto.tfvars in lexical order, then named variable files.
+ * Values for undeclared variables are ignored, as Terraform does.
+ */
+export function resolveVariableValues(
+  files: readonly TerraformFile[],
+  sources: readonly VariableValueSource[]
+): EnvironmentVariableValues {
+  const defaults: Record<string, ResolvedVariableValue> = {};
+  const declared = new Set<string>();
+
+  for (const file of files) {
+    for (const block of file.blocks) {
+      const name = block.labels[0];
+      if (block.type !== 'variable' || name === undefined) continue;
+      declared.add(name);
+      const expr = block.attributes['default'];
+      const value = expr ? evaluateStatic(expr, EMPTY_SCOPE) : undefined;
+      if (value !== undefined) {
+        defaults[name] = { value, source: file.path };
+      }
+    }
+  }
+
+  const ordered = [...sources].sort(
+    (a, b) => sourceRank(a) - sourceRank(b) || a.path.localeCompare(b.path)
+  );
+  const environments = new Set([DEFAULT_ENVIRONMENT]);
+  for (const source of ordered) {
+    if (source.environment !== null) environments.add(source.environment);
+  }
+
+  const values: EnvironmentVariableValues = new Map();
+  for (const environment of environments) {
+    const resolved = { ...defaults };
+    for (const source of ordered) {
+      if (source.environment !== null && source.environment !== environment) continue;
+      for (const [name, value] of Object.entries(source.variables)) {
+        if (declared.has(name)) {
+          resolved[name] = { value, source: source.path };
+        }
+      }
+    }
+    values.set(environment, resolved);
+  }
+  return values;
+}
+
+/**
+ * Select the value of a variable node for an environment.
+ * Nodes annotated with per-environment `values` get `environment` and the
+ * environment's `value` (falling back to the default environment); other
+ * nodes are returned unchanged.
+ */
+export function withEnvironmentValue(node: NodeType, environment: string): NodeType {
+  const values = node.metadata?.values;
+  if (node.type !== 'terraform_variable' || typeof values !== 'object' || values === null) {
+    return node;
+  }
+
+  const byEnvironment = values as Record<string, unknown>;
+  const key = Object.hasOwn(byEnvironment, environment) ? environment : DEFAULT_ENVIRONMENT;
+  return {
+    ...node,
+    metadata: {
+      ...node.metadata,
+      environment,
+      ...(Object.hasOwn(byEnvironment, key) ? { value: byEnvironment[key] } : {}),
+    },
+  } as NodeType;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Precedence of a source; higher ranks override lower ones
+ */
+function sourceRank(source: VariableValueSource): number {
+  if (source.kind === 'terragrunt') return 0;
+  if (source.environment !== null) return 4;
+  const name = path.basename(source.path);
+  if (name === 'terraform.tfvars') return 1;
+  if (name === 'terraform.tfvars.json') return 2;
+  return 3;
+}
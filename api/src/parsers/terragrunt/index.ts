@@ -313,6 +313,8 @@ export {
   extractTerraformSource,
   extractRemoteStateInfo,
   countInputs,
+  extractInputValues,
+  extractLocalModuleDir,
   extractGenerateLabels,
 
   // Utility functions
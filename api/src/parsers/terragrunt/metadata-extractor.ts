@@ -22,7 +22,14 @@ import {
   isRemoteStateBlock,
   isInputsBlock,
   isGenerateBlock,
+  type RemoteStateBlock,
 } from './types';
+import * as path from 'path';
+import {
+  evaluateAttributes,
+  normalizeRemoteState,
+  type RemoteStateIdentity,
+} from '../terraform/remote-state.js';
 
 // ============================================================================
 // Main Extractor Function
@@ -131,6 +138,63 @@ export function extractRemoteStateInfo(
   };
 }
 
+/**
+ * Resolve the state identity of a config's remote_state block.
+ *
+ * A config without its own remote_state block inherits the block of the
+ * first included parent declaring one, with `path_relative_to_include()`
+ * evaluated for the including config (the usual root.hcl layout).
+ *
+ * @param file - The parsed TerragruntFile
+ * @param parents - Parsed files of the config's includes, in include order
+ * @returns The state identity, or null if no static remote_state applies
+ *
+ * @example
+ * ```typescript
+ * // root.hcl: key = "${path_relative_to_include()}/terraform.tfstate"
+ * extractRemoteStateIdentity(prodVpc, [root]);
+ * // => { backend: "s3", id: "s3://acme-state/prod/vpc/terraform.tfstate" }
+ * ```
+ */
+export function extractRemoteStateIdentity(
+  file: TerragruntFile,
+  parents: readonly TerragruntFile[] = []
+): RemoteStateIdentity | null {
+  const configDir = path.dirname(file.path);
+  const own = file.blocks.find(isRemoteStateBlock);
+  if (own) {
+    return normalizeTerragruntRemoteState(own, configDir, configDir);
+  }
+
+  for (const parent of parents) {
+    const block = parent.blocks.find(isRemoteStateBlock);
+    if (block) {
+      return normalizeTerragruntRemoteState(block, path.dirname(parent.path), configDir);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Evaluate a remote_state block declared in includeDir for the config in configDir
+ */
+function normalizeTerragruntRemoteState(
+  block: RemoteStateBlock,
+  includeDir: string,
+  configDir: string
+): RemoteStateIdentity | null {
+  const toPosix = (value: string): string => value.split(path.sep).join('/') || '.';
+  const functions = {
+    path_relative_to_include: toPosix(path.relative(includeDir, configDir)),
+    path_relative_from_include: toPosix(path.relative(configDir, includeDir)),
+  };
+
+  return normalizeRemoteState(block.backend, evaluateAttributes(block.config, functions), {
+    workingDir: configDir,
+  });
+}
+
 /**
  * Count the number of input variables defined in inputs blocks.
  *
@@ -156,6 +220,58 @@ export function countInputs(blocks: readonly TerragruntBlock[]): number {
   return Object.keys(inputsBlock.values).length;
 }
 
+/**
+ * Evaluate the static input values a config passes to its module.
+ *
+ * Inputs of included parents are merged first, in include order, so the
+ * config's own inputs win. Inputs that are not static are left out.
+ *
+ * @param file - The parsed TerragruntFile
+ * @param parents - Parsed files of the config's includes, in include order
+ * @returns Input values by variable name
+ *
+ * @example
+ * ```typescript
+ * // root.hcl: inputs = { region = "us-east-1" }
+ * extractInputValues(prodVpc, [root]);
+ * // => { region: "us-east-1", cidr_block: "10.0.0.0/16" }
+ * ```
+ */
+export function extractInputValues(
+  file: TerragruntFile,
+  parents: readonly TerragruntFile[] = []
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const config of [...parents, file]) {
+    for (const block of config.blocks.filter(isInputsBlock)) {
+      Object.assign(values, evaluateAttributes(block.values));
+    }
+  }
+  return values;
+}
+
+/**
+ * Resolve the directory of a config's local Terraform module.
+ *
+ * @param file - The parsed TerragruntFile
+ * @returns Absolute module directory, or null for remote or dynamic sources
+ *
+ * @example
+ * ```typescript
+ * // /repo/live/prod/vpc/terragrunt.hcl: source = "../../../modules//vpc"
+ * extractLocalModuleDir(file);
+ * // => "/repo/modules/vpc"
+ * ```
+ */
+export function extractLocalModuleDir(file: TerragruntFile): string | null {
+  const source = extractTerraformSource(file.blocks);
+  if (source === null || !/^\.\.?[\\/]/.test(source) || source.includes('${')) {
+    return null;
+  }
+  const local = source.split('?')[0]!.replace('//', '/');
+  return path.resolve(path.dirname(file.path), local);
+}
+
 /**
  * Extract labels from all generate blocks.
  *
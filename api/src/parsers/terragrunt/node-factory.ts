@@ -20,7 +20,8 @@
 
 import { TerragruntConfigNode, TerragruntIncludeNode, TerragruntDependencyNode, NodeLocation } from '../../types/graph';
 import { TerragruntFile, ResolvedInclude, ResolvedDependency, IncludeBlock, DependencyBlock } from './types';
-import { extractTerragruntMetadata } from './metadata-extractor';
+import { extractTerragruntMetadata, extractRemoteStateIdentity, extractInputValues } from './metadata-extractor.js';
+import { getTerragruntEnvironment } from '../terraform/variable-values.js';
 import { randomUUID } from 'crypto';
 import * as path from 'path';
 
@@ -59,6 +60,7 @@ export const DEFAULT_FACTORY_OPTIONS: Partial<TerragruntNodeFactoryOptions> = {
  *
  * @param file - The parsed TerragruntFile to transform
  * @param options - Factory options including scanId and repositoryRoot
+ * @param parents - Parsed files of the config's includes, for an inherited remote_state and inputs
  * @returns A new TerragruntConfigNode instance
  *
  * @example
@@ -74,10 +76,13 @@ export const DEFAULT_FACTORY_OPTIONS: Partial<TerragruntNodeFactoryOptions> = {
  */
 export function createTerragruntConfigNode(
   file: TerragruntFile,
-  options: TerragruntNodeFactoryOptions
+  options: TerragruntNodeFactoryOptions,
+  parents: readonly TerragruntFile[] = []
 ): TerragruntConfigNode {
   // Extract metadata using existing extractor
   const metadata = extractTerragruntMetadata(file);
+  const remoteState = extractRemoteStateIdentity(file, parents);
+  const inputs = extractInputValues(file, parents);
 
   // Calculate relative path from repository root
   const relativePath = path.relative(options.repositoryRoot, file.path);
@@ -106,6 +111,9 @@ export function createTerragruntConfigNode(
       errorCount: metadata.errorCount,
       dependencyNames: metadata.dependencyNames,
       includeLabels: metadata.includeLabels,
+      ...(remoteState ? { remoteState: remoteState.id, remoteStateBackend: remoteState.backend } : {}),
+      environment: getTerragruntEnvironment(file.path),
+      inputs,
     },
     terraformSource: metadata.terraformSource,
     hasRemoteState: metadata.hasRemoteState,
@@ -409,6 +417,7 @@ export function createTerragruntConfigNodesWithRelationships(
  *
  * @param file - The parsed TerragruntFile to transform
  * @param options - Factory options including scanId and repositoryRoot
+ * @param parents - Parsed files of the config's includes, for an inherited remote_state
  * @returns Extended result with all node types and edge hints
  *
  * @example
@@ -425,10 +434,11 @@ export function createTerragruntConfigNodesWithRelationships(
  */
 export function createAllTerragruntNodes(
   file: TerragruntFile,
-  options: TerragruntNodeFactoryOptions
+  options: TerragruntNodeFactoryOptions,
+  parents: readonly TerragruntFile[] = []
 ): ExtendedTerragruntNodeFactoryResult {
   // Create the main config node
-  const configNode = createTerragruntConfigNode(file, options);
+  const configNode = createTerragruntConfigNode(file, options, parents);
 
   // Create include nodes from file.includes
   const includeNodes = file.includes.map(inc =>
@@ -502,10 +512,14 @@ export function createAllTerragruntNodesFromFiles(
   const allDependencyHints: DependencyHint[] = [];
   const allIncludeHints: IncludeHint[] = [];
   const pathToIdMap = new Map<string, string>();
+  const filesByPath = new Map(files.map(file => [file.path, file]));
 
   // First pass: create all nodes and collect hints
   for (const file of files) {
-    const result = createAllTerragruntNodes(file, options);
+    const parents = file.includes
+      .map((inc: ResolvedInclude) => (inc.resolvedPath !== null ? filesByPath.get(inc.resolvedPath) : undefined))
+      .filter((parent: TerragruntFile | undefined): parent is TerragruntFile => parent !== undefined);
+    const result = createAllTerragruntNodes(file, options, parents);
 
     // Collect config nodes
     configNodes.push(...result.nodes);
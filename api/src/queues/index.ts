@@ -47,9 +47,57 @@ export {
   createRollupExecuteJob,
   createBlastRadiusJob,
   createCleanupExecutionsJob,
+  createScheduledExecutionJob,
   createSendCallbackJob,
   generateJobId,
   // Progress types
   type RollupExecutionProgress,
   type BlastRadiusProgress,
 } from './rollup-jobs.js';
+
+// Scan queue jobs
+export {
+  // Queue names
+  SCAN_QUEUES,
+  type ScanQueueName,
+  // Job types
+  SCAN_JOB_TYPES,
+  type ScanJobType,
+  // Job payloads
+  IncrementalScanJobSchema,
+  type IncrementalScanJob,
+  ScanExecuteJobPayloadSchema,
+  type ScanExecuteJobPayload,
+  PrImpactJobPayloadSchema,
+  type PrImpactJobPayload,
+  type ScanJobPayload,
+  // Job options
+  SCAN_EXECUTE_JOB_OPTIONS,
+  PR_IMPACT_JOB_OPTIONS,
+  // Type guards
+  isScanExecuteJobPayload,
+  isPrImpactJobPayload,
+  // Job creation helpers
+  createScanExecuteJob,
+  createPrImpactJob,
+} from './scan-jobs.js';
+
+// Webhook queue jobs
+export {
+  // Queue names
+  WEBHOOK_QUEUES,
+  type WebhookQueueName,
+  // Job types
+  WEBHOOK_JOB_TYPES,
+  type WebhookJobType,
+  // Job payloads
+  WebhookDeliveryJobPayloadSchema,
+  type WebhookDeliveryJobPayload,
+  // Job options
+  WEBHOOK_DELIVERY_JOB_OPTIONS,
+  getWebhookRetryDelay,
+  // Type guards
+  isWebhookDeliveryJobPayload,
+  // Job creation helpers
+  createWebhookDeliveryJob,
+} from './webhook-jobs.js';
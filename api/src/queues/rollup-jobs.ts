@@ -225,6 +225,8 @@ export const ScheduledExecutionJobPayloadSchema = Type.Object({
   }),
   /** Whether to use latest scans */
   useLatestScans: Type.Boolean({ default: true }),
+  /** Execution created by an earlier attempt of this job, re-run on retry */
+  executionId: Type.Optional(Type.String()),
 });
 
 export type ScheduledExecutionJobPayload = Static<typeof ScheduledExecutionJobPayloadSchema>;
@@ -536,6 +538,30 @@ export function createCleanupExecutionsJob(
   };
 }
 
+/**
+ * Create a scheduled execution job payload
+ */
+export function createScheduledExecutionJob(
+  tenantId: string,
+  rollupId: string,
+  cron: string,
+  timezone: string = 'UTC',
+  scheduledAt: Date = new Date(),
+  useLatestScans: boolean = true
+): ScheduledExecutionJobPayload {
+  return {
+    type: 'scheduled-execution',
+    tenantId,
+    rollupId,
+    schedule: {
+      cron,
+      timezone,
+      scheduledAt: scheduledAt.toISOString(),
+    },
+    useLatestScans,
+  };
+}
+
 /**
  * Create a send callback job payload
  */
@@ -0,0 +1,164 @@
+/**
+ * Rollup Queue Worker
+ * @module queues/rollup-worker
+ *
+ * BullMQ workers for the `rollup:execute` and `rollup:scheduled` queues.
+ * Registers a repeatable job per scheduled rollup, re-synchronizes schedules
+ * periodically and hands each job to the RollupJobProcessor.
+ *
+ * TASK-ROLLUP-001: Cross-Repository Aggregation background jobs
+ */
+
+import pino from 'pino';
+import { Queue, Worker, UnrecoverableError, type Job, type ConnectionOptions } from 'bullmq';
+import {
+  ROLLUP_QUEUES,
+  isRollupExecuteJobPayload,
+  isScheduledExecutionJobPayload,
+  type RollupJobPayload,
+} from './rollup-jobs.js';
+import type { IRollupRepository } from '../services/rollup/interfaces.js';
+import type { RollupJobProcessor } from '../services/rollup/rollup-job-processor.js';
+import { RollupScheduler } from '../services/rollup/rollup-scheduler.js';
+
+const logger = pino({ name: 'rollup-worker' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Rollup worker options
+ */
+export interface RollupWorkerOptions {
+  /** Redis connection for queues and workers */
+  readonly connection: ConnectionOptions;
+  /** Jobs processed concurrently per queue */
+  readonly concurrency?: number;
+  /** Interval between schedule synchronizations in milliseconds */
+  readonly scheduleSyncIntervalMs?: number;
+}
+
+/**
+ * Default rollup worker options
+ */
+export const DEFAULT_ROLLUP_WORKER_OPTIONS = {
+  concurrency: 2,
+  scheduleSyncIntervalMs: 60000,
+} as const;
+
+// ============================================================================
+// Worker Implementation
+// ============================================================================
+
+/**
+ * Consumes rollup queues and keeps cron schedules registered
+ */
+export class RollupWorker {
+  private scheduledQueue: Queue<RollupJobPayload> | null = null;
+  private workers: Worker<RollupJobPayload>[] = [];
+  private syncTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly processor: RollupJobProcessor,
+    private readonly rollupRepository: IRollupRepository,
+    private readonly options: RollupWorkerOptions
+  ) {}
+
+  /**
+   * Start consuming queues and register rollup schedules
+   */
+  async start(): Promise<void> {
+    const { connection } = this.options;
+    const concurrency = this.options.concurrency ?? DEFAULT_ROLLUP_WORKER_OPTIONS.concurrency;
+
+    this.scheduledQueue = new Queue<RollupJobPayload>(ROLLUP_QUEUES.ROLLUP_SCHEDULED, { connection });
+    const scheduler = new RollupScheduler(this.rollupRepository, this.scheduledQueue);
+
+    this.workers = [ROLLUP_QUEUES.ROLLUP_EXECUTE, ROLLUP_QUEUES.ROLLUP_SCHEDULED].map((queueName) => {
+      const worker = new Worker<RollupJobPayload>(queueName, (job) => this.process(job), {
+        connection,
+        concurrency,
+      });
+      worker.on('failed', (job, error) => {
+        logger.error({ err: error, queueName, jobId: job?.id, attemptsMade: job?.attemptsMade }, 'Rollup job failed');
+      });
+      return worker;
+    });
+
+    await scheduler.sync();
+    this.syncTimer = setInterval(() => {
+      scheduler.sync().catch((error) => {
+        logger.error({ err: error }, 'Failed to synchronize rollup schedules');
+      });
+    }, this.options.scheduleSyncIntervalMs ?? DEFAULT_ROLLUP_WORKER_OPTIONS.scheduleSyncIntervalMs);
+
+    logger.info({ concurrency }, 'Rollup worker started');
+  }
+
+  /**
+   * Stop consuming queues, waiting for running jobs to finish
+   */
+  async close(): Promise<void> {
+    if (this.syncTimer) {
+      clearInterval(this.syncTimer);
+      this.syncTimer = null;
+    }
+
+    await Promise.all(this.workers.map((worker) => worker.close()));
+    this.workers = [];
+    await this.scheduledQueue?.close();
+    this.scheduledQueue = null;
+
+    logger.info('Rollup worker closed');
+  }
+
+  /**
+   * Dispatch a job to the processor.
+   * Retryable failures are rethrown so BullMQ schedules the next attempt.
+   */
+  private async process(job: Job<RollupJobPayload>): Promise<unknown> {
+    const payload = job.data;
+    const attempt = { attempt: job.attemptsMade + 1, maxAttempts: job.opts.attempts ?? 1 };
+
+    try {
+      if (isRollupExecuteJobPayload(payload)) {
+        return await this.processor.processExecuteJob(payload, attempt);
+      }
+      if (isScheduledExecutionJobPayload(payload)) {
+        // Repeatable jobs share one template; the fire time is the job's delay target
+        const scheduledAt = new Date(job.timestamp + (job.opts.delay ?? 0));
+        return await this.processor.processScheduledJob(
+          {
+            ...payload,
+            schedule: { ...payload.schedule, scheduledAt: scheduledAt.toISOString() },
+          },
+          (executionId) => job.updateData({ ...payload, executionId }),
+          attempt
+        );
+      }
+    } catch (error) {
+      if (!this.processor.isRetryableError(error)) {
+        throw new UnrecoverableError(error instanceof Error ? error.message : String(error));
+      }
+      throw error;
+    }
+
+    throw new UnrecoverableError(`Unsupported rollup job type: ${payload.type}`);
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new RollupWorker instance
+ */
+export function createRollupWorker(
+  processor: RollupJobProcessor,
+  rollupRepository: IRollupRepository,
+  options: RollupWorkerOptions
+): RollupWorker {
+  return new RollupWorker(processor, rollupRepository, options);
+}
@@ -0,0 +1,227 @@
+/**
+ * Scan Queue Job Definitions
+ * @module queues/scan-jobs
+ *
+ * TypeBox schemas and type definitions for scan background jobs.
+ * Defines job payloads and options for scans queued by push webhooks and
+ * pull request impact checks queued by pull request webhooks.
+ *
+ * TASK-WEBHOOK-SCAN: Webhook-triggered incremental scans
+ */
+
+import { Type, Static } from '@sinclair/typebox';
+
+// ============================================================================
+// Queue Names
+// ============================================================================
+
+/**
+ * Scan queue names
+ */
+export const SCAN_QUEUES = {
+  /** Scan execution queue */
+  SCAN_EXECUTE: 'scan:execute',
+} as const;
+
+export type ScanQueueName = typeof SCAN_QUEUES[keyof typeof SCAN_QUEUES];
+
+// ============================================================================
+// Job Types
+// ============================================================================
+
+/**
+ * Scan job types
+ */
+export const SCAN_JOB_TYPES = {
+  /** Execute a repository scan */
+  EXECUTE_SCAN: 'execute-scan',
+  /** Evaluate and report the impact of a pull request */
+  PR_IMPACT: 'pr-impact',
+} as const;
+
+export type ScanJobType = typeof SCAN_JOB_TYPES[keyof typeof SCAN_JOB_TYPES];
+
+// ============================================================================
+// Execute Scan Job
+// ============================================================================
+
+/**
+ * Incremental scan information schema
+ */
+export const IncrementalScanJobSchema = Type.Object({
+  /** Completed scan whose graph the result is merged into */
+  baseScanId: Type.String({ format: 'uuid' }),
+  /** Files added or modified since the base scan, relative to the repository root */
+  changedFiles: Type.Array(Type.String()),
+  /** Files removed since the base scan, relative to the repository root */
+  removedFiles: Type.Array(Type.String()),
+});
+
+export type IncrementalScanJob = Static<typeof IncrementalScanJobSchema>;
+
+/**
+ * Scan execute job payload schema
+ */
+export const ScanExecuteJobPayloadSchema = Type.Object({
+  /** Job type discriminator */
+  type: Type.Literal('execute-scan'),
+  /** Pre-assigned scan ID */
+  scanId: Type.String({ format: 'uuid' }),
+  /** Tenant ID */
+  tenantId: Type.String({ format: 'uuid' }),
+  /** Repository ID */
+  repositoryId: Type.String({ format: 'uuid' }),
+  /** Git ref (branch) to scan */
+  ref: Type.String({ minLength: 1 }),
+  /** Commit SHA to scan */
+  commitSha: Type.String({ minLength: 1 }),
+  /** Incremental scan information; omitted for full scans */
+  incremental: Type.Optional(IncrementalScanJobSchema),
+  /** Job metadata */
+  metadata: Type.Optional(Type.Object({
+    /** Source of the job (webhook, api, etc.) */
+    source: Type.Optional(Type.String()),
+    /** Git provider that sent the webhook */
+    provider: Type.Optional(Type.String()),
+    /** Provider delivery ID for tracing */
+    deliveryId: Type.Optional(Type.String()),
+  })),
+});
+
+export type ScanExecuteJobPayload = Static<typeof ScanExecuteJobPayloadSchema>;
+
+// ============================================================================
+// Pull Request Impact Job
+// ============================================================================
+
+/**
+ * Pull request impact job payload schema
+ */
+export const PrImpactJobPayloadSchema = Type.Object({
+  /** Job type discriminator */
+  type: Type.Literal('pr-impact'),
+  /** Tenant ID */
+  tenantId: Type.String({ format: 'uuid' }),
+  /** Repository ID */
+  repositoryId: Type.String({ format: 'uuid' }),
+  /** Pull request to evaluate */
+  pullRequest: Type.Object({
+    /** Pull request number (merge request IID on GitLab) */
+    number: Type.Integer({ minimum: 1 }),
+    /** Target branch */
+    baseRef: Type.String({ minLength: 1 }),
+    /** Source branch */
+    headRef: Type.String({ minLength: 1 }),
+  }),
+  /** Job metadata */
+  metadata: Type.Optional(Type.Object({
+    /** Git provider that sent the webhook */
+    provider: Type.Optional(Type.String()),
+    /** Provider delivery ID for tracing */
+    deliveryId: Type.Optional(Type.String()),
+  })),
+});
+
+export type PrImpactJobPayload = Static<typeof PrImpactJobPayloadSchema>;
+
+/**
+ * Union of all scan job payloads
+ */
+export type ScanJobPayload = ScanExecuteJobPayload | PrImpactJobPayload;
+
+// ============================================================================
+// Job Options
+// ============================================================================
+
+/**
+ * Default job options for scan execution
+ */
+export const SCAN_EXECUTE_JOB_OPTIONS = {
+  removeOnComplete: {
+    age: 86400, // Keep for 24 hours
+    count: 1000,
+  },
+  removeOnFail: {
+    age: 604800, // Keep for 7 days
+    count: 500,
+  },
+  attempts: 2,
+  backoff: {
+    type: 'exponential' as const,
+    delay: 10000,
+  },
+  timeout: 1800000, // 30 minutes
+} as const;
+
+/**
+ * Default job options for pull request impact checks.
+ * Both refs are scanned, so the timeout is twice the scan timeout.
+ */
+export const PR_IMPACT_JOB_OPTIONS = {
+  ...SCAN_EXECUTE_JOB_OPTIONS,
+  timeout: 3600000, // 60 minutes
+} as const;
+
+// ============================================================================
+// Type Guards
+// ============================================================================
+
+/**
+ * Type guard for ScanExecuteJobPayload
+ */
+export function isScanExecuteJobPayload(payload: ScanJobPayload): payload is ScanExecuteJobPayload {
+  return payload.type === 'execute-scan';
+}
+
+/**
+ * Type guard for PrImpactJobPayload
+ */
+export function isPrImpactJobPayload(payload: ScanJobPayload): payload is PrImpactJobPayload {
+  return payload.type === 'pr-impact';
+}
+
+// ============================================================================
+// Job Creation Helpers
+// ============================================================================
+
+/**
+ * Create a scan execute job payload
+ */
+export function createScanExecuteJob(
+  scanId: string,
+  tenantId: string,
+  repositoryId: string,
+  ref: string,
+  commitSha: string,
+  incremental?: IncrementalScanJob,
+  metadata?: ScanExecuteJobPayload['metadata']
+): ScanExecuteJobPayload {
+  return {
+    type: 'execute-scan',
+    scanId,
+    tenantId,
+    repositoryId,
+    ref,
+    commitSha,
+    ...(incremental !== undefined && { incremental }),
+    ...(metadata !== undefined && { metadata }),
+  };
+}
+
+/**
+ * Create a pull request impact job payload
+ */
+export function createPrImpactJob(
+  tenantId: string,
+  repositoryId: string,
+  pullRequest: PrImpactJobPayload['pullRequest'],
+  metadata?: PrImpactJobPayload['metadata']
+): PrImpactJobPayload {
+  return {
+    type: 'pr-impact',
+    tenantId,
+    repositoryId,
+    pullRequest,
+    ...(metadata !== undefined && { metadata }),
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Scan Queue Worker
+ * @module queues/scan-worker
+ *
+ * BullMQ worker for the `scan:execute` queue. Hands scan jobs to the
+ * ScanJobProcessor and pull request impact jobs to the PrImpactJobProcessor,
+ * and lets BullMQ retry failures the processors report as retryable.
+ */
+
+import pino from 'pino';
+import { Worker, UnrecoverableError, type Job, type ConnectionOptions } from 'bullmq';
+import {
+  SCAN_QUEUES,
+  isScanExecuteJobPayload,
+  isPrImpactJobPayload,
+  type ScanJobPayload,
+} from './scan-jobs.js';
+import { ScanJobError, type ScanJobProcessor } from '../services/scan-job-processor.js';
+import type { PrImpactJobProcessor } from '../services/pr-impact-job-processor.js';
+
+const logger = pino({ name: 'scan-worker' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scan worker options
+ */
+export interface ScanWorkerOptions {
+  /** Redis connection for the worker */
+  readonly connection: ConnectionOptions;
+  /** Scans run concurrently */
+  readonly concurrency?: number;
+}
+
+/**
+ * Processors of the scan queue job types
+ */
+export interface ScanWorkerProcessors {
+  readonly scan: ScanJobProcessor;
+  /** Pull request impact jobs fail without retry when omitted */
+  readonly prImpact?: PrImpactJobProcessor;
+}
+
+/**
+ * Default scan worker options
+ */
+export const DEFAULT_SCAN_WORKER_OPTIONS = {
+  concurrency: 1,
+} as const;
+
+// ============================================================================
+// Worker Implementation
+// ============================================================================
+
+/**
+ * Consumes the scan execution queue
+ */
+export class ScanWorker {
+  private worker: Worker<ScanJobPayload> | null = null;
+
+  constructor(
+    private readonly processors: ScanWorkerProcessors,
+    private readonly options: ScanWorkerOptions
+  ) {}
+
+  /**
+   * Start consuming the scan queue
+   */
+  start(): void {
+    const concurrency = this.options.concurrency ?? DEFAULT_SCAN_WORKER_OPTIONS.concurrency;
+
+    this.worker = new Worker<ScanJobPayload>(
+      SCAN_QUEUES.SCAN_EXECUTE,
+      (job) => this.process(job),
+      { connection: this.options.connection, concurrency }
+    );
+    this.worker.on('failed', (job, error) => {
+      logger.warn({ err: error, jobId: job?.id, attemptsMade: job?.attemptsMade }, 'Scan job attempt failed');
+    });
+
+    logger.info({ concurrency }, 'Scan worker started');
+  }
+
+  /**
+   * Stop consuming the queue, waiting for running scans to finish
+   */
+  async close(): Promise<void> {
+    await this.worker?.close();
+    this.worker = null;
+
+    logger.info('Scan worker closed');
+  }
+
+  /**
+   * Run a scan; throwing a plain error schedules the next attempt
+   */
+  private async process(job: Job<ScanJobPayload>): Promise<string | null> {
+    const payload = job.data;
+
+    try {
+      if (isScanExecuteJobPayload(payload)) {
+        const result = await this.processors.scan.processExecuteJob(payload);
+        return result?.status ?? null;
+      }
+      if (isPrImpactJobPayload(payload) && this.processors.prImpact) {
+        const result = await this.processors.prImpact.processPrImpactJob(payload);
+        return result.verdict.passed ? 'passed' : 'failed';
+      }
+    } catch (error) {
+      if (error instanceof ScanJobError && !error.retryable) {
+        throw new UnrecoverableError(error.message);
+      }
+      throw error;
+    }
+
+    throw new UnrecoverableError(`Unsupported scan job type: ${(payload as { type: string }).type}`);
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new ScanWorker instance
+ */
+export function createScanWorker(
+  processors: ScanWorkerProcessors,
+  options: ScanWorkerOptions
+): ScanWorker {
+  return new ScanWorker(processors, options);
+}
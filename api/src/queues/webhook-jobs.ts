@@ -0,0 +1,118 @@
+/**
+ * Webhook Queue Job Definitions
+ * @module queues/webhook-jobs
+ *
+ * TypeBox schemas and type definitions for outbound webhook delivery jobs.
+ * Each job sends one logged delivery; BullMQ retries failed attempts with
+ * exponential backoff.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import { Type, Static } from '@sinclair/typebox';
+
+// ============================================================================
+// Queue Names
+// ============================================================================
+
+/**
+ * Webhook queue names
+ */
+export const WEBHOOK_QUEUES = {
+  /** Outbound delivery queue */
+  WEBHOOK_DELIVER: 'webhook:deliver',
+} as const;
+
+export type WebhookQueueName = typeof WEBHOOK_QUEUES[keyof typeof WEBHOOK_QUEUES];
+
+// ============================================================================
+// Job Types
+// ============================================================================
+
+/**
+ * Webhook job types
+ */
+export const WEBHOOK_JOB_TYPES = {
+  /** Send a delivery to its subscription URL */
+  DELIVER_WEBHOOK: 'deliver-webhook',
+} as const;
+
+export type WebhookJobType = typeof WEBHOOK_JOB_TYPES[keyof typeof WEBHOOK_JOB_TYPES];
+
+// ============================================================================
+// Deliver Webhook Job
+// ============================================================================
+
+/**
+ * Webhook delivery job payload schema
+ */
+export const WebhookDeliveryJobPayloadSchema = Type.Object({
+  /** Job type discriminator */
+  type: Type.Literal('deliver-webhook'),
+  /** Tenant ID */
+  tenantId: Type.String({ format: 'uuid' }),
+  /** Delivery log entry to send */
+  deliveryId: Type.String({ format: 'uuid' }),
+});
+
+export type WebhookDeliveryJobPayload = Static<typeof WebhookDeliveryJobPayloadSchema>;
+
+// ============================================================================
+// Job Options
+// ============================================================================
+
+/**
+ * Default job options for webhook deliveries.
+ * Retries wait 30s, 1m, 2m, 4m and 8m after the failed attempts.
+ */
+export const WEBHOOK_DELIVERY_JOB_OPTIONS = {
+  removeOnComplete: {
+    age: 86400, // Keep for 24 hours
+    count: 1000,
+  },
+  removeOnFail: {
+    age: 604800, // Keep for 7 days
+    count: 1000,
+  },
+  attempts: 6,
+  backoff: {
+    type: 'exponential' as const,
+    delay: 30000,
+  },
+} as const;
+
+/**
+ * Delay before the retry following a failed attempt, matching BullMQ's exponential backoff
+ */
+export function getWebhookRetryDelay(attempt: number): number {
+  return WEBHOOK_DELIVERY_JOB_OPTIONS.backoff.delay * Math.pow(2, attempt - 1);
+}
+
+// ============================================================================
+// Type Guards
+// ============================================================================
+
+/**
+ * Type guard for WebhookDeliveryJobPayload
+ */
+export function isWebhookDeliveryJobPayload(payload: { type: string }): payload is WebhookDeliveryJobPayload {
+  return payload.type === 'deliver-webhook';
+}
+
+// ============================================================================
+// Job Creation Helpers
+// ============================================================================
+
+/**
+ * Create a webhook delivery job payload
+ */
+export function createWebhookDeliveryJob(
+  tenantId: string,
+  deliveryId: string
+): WebhookDeliveryJobPayload {
+  return {
+    type: 'deliver-webhook',
+    tenantId,
+    deliveryId,
+  };
+}
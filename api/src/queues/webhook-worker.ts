@@ -0,0 +1,129 @@
+/**
+ * Webhook Queue Worker
+ * @module queues/webhook-worker
+ *
+ * BullMQ worker for the `webhook:deliver` queue. Hands each job to the
+ * WebhookDeliveryService and lets BullMQ retry attempts the service
+ * reports as retryable.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import pino from 'pino';
+import { Worker, UnrecoverableError, type Job, type ConnectionOptions } from 'bullmq';
+import {
+  WEBHOOK_QUEUES,
+  isWebhookDeliveryJobPayload,
+  type WebhookDeliveryJobPayload,
+} from './webhook-jobs.js';
+import { createTenantId } from '../types/entities.js';
+import type {
+  WebhookDeliveryService,
+  WebhookDeliveryOutcome,
+} from '../services/webhooks/webhook-delivery-service.js';
+
+const logger = pino({ name: 'webhook-worker' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Webhook worker options
+ */
+export interface WebhookWorkerOptions {
+  /** Redis connection for the worker */
+  readonly connection: ConnectionOptions;
+  /** Deliveries sent concurrently */
+  readonly concurrency?: number;
+}
+
+/**
+ * Default webhook worker options
+ */
+export const DEFAULT_WEBHOOK_WORKER_OPTIONS = {
+  concurrency: 5,
+} as const;
+
+// ============================================================================
+// Worker Implementation
+// ============================================================================
+
+/**
+ * Consumes the webhook delivery queue
+ */
+export class WebhookWorker {
+  private worker: Worker<WebhookDeliveryJobPayload> | null = null;
+
+  constructor(
+    private readonly deliveryService: WebhookDeliveryService,
+    private readonly options: WebhookWorkerOptions
+  ) {}
+
+  /**
+   * Start consuming the delivery queue
+   */
+  start(): void {
+    const concurrency = this.options.concurrency ?? DEFAULT_WEBHOOK_WORKER_OPTIONS.concurrency;
+
+    this.worker = new Worker<WebhookDeliveryJobPayload>(
+      WEBHOOK_QUEUES.WEBHOOK_DELIVER,
+      (job) => this.process(job),
+      { connection: this.options.connection, concurrency }
+    );
+    this.worker.on('failed', (job, error) => {
+      logger.warn({ err: error, jobId: job?.id, attemptsMade: job?.attemptsMade }, 'Webhook delivery attempt failed');
+    });
+
+    logger.info({ concurrency }, 'Webhook worker started');
+  }
+
+  /**
+   * Stop consuming the queue, waiting for running deliveries to finish
+   */
+  async close(): Promise<void> {
+    await this.worker?.close();
+    this.worker = null;
+
+    logger.info('Webhook worker closed');
+  }
+
+  /**
+   * Send a delivery; throwing a plain error schedules the next attempt
+   */
+  private async process(job: Job<WebhookDeliveryJobPayload>): Promise<WebhookDeliveryOutcome['status']> {
+    const payload = job.data;
+
+    if (!isWebhookDeliveryJobPayload(payload)) {
+      throw new UnrecoverableError(`Unsupported webhook job type: ${(payload as { type: string }).type}`);
+    }
+
+    const outcome = await this.deliveryService.deliver(
+      createTenantId(payload.tenantId),
+      payload.deliveryId,
+      { attempt: job.attemptsMade + 1, maxAttempts: job.opts.attempts ?? 1 }
+    );
+
+    if (outcome.status === 'retry') {
+      throw new Error(outcome.error);
+    }
+    if (outcome.status === 'failed') {
+      throw new UnrecoverableError(outcome.error);
+    }
+    return outcome.status;
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new WebhookWorker instance
+ */
+export function createWebhookWorker(
+  deliveryService: WebhookDeliveryService,
+  options: WebhookWorkerOptions
+): WebhookWorker {
+  return new WebhookWorker(deliveryService, options);
+}
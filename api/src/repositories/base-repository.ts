@@ -39,6 +39,16 @@ export interface QueryOptions {
  */
 export type ColumnMapping = Record<string, string>;
 
+/**
+ * Raised when a pagination cursor cannot be decoded
+ */
+export class InvalidCursorError extends Error {
+  constructor(message = 'Invalid pagination cursor') {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
 // ============================================================================
 // Base Repository Class
 // ============================================================================
@@ -208,6 +218,32 @@ export abstract class BaseRepository {
     };
   }
 
+  /**
+   * Encode keyset values into an opaque cursor
+   */
+  protected encodeCursor(values: readonly unknown[]): string {
+    return Buffer.from(JSON.stringify(values), 'utf8').toString('base64url');
+  }
+
+  /**
+   * Decode a cursor produced by encodeCursor
+   * @throws InvalidCursorError if the cursor is malformed
+   */
+  protected decodeCursor(cursor: string, arity: number): unknown[] {
+    let values: unknown;
+    try {
+      values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      throw new InvalidCursorError();
+    }
+
+    if (!Array.isArray(values) || values.length !== arity) {
+      throw new InvalidCursorError();
+    }
+
+    return values;
+  }
+
   /**
    * Build ORDER BY clause
    */
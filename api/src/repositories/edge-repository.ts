@@ -25,6 +25,8 @@ import {
   EdgeFilterCriteria,
   PaginationParams,
   PaginatedResult,
+  CursorPaginationParams,
+  CursorPaginatedResult,
   BatchResult,
 } from './interfaces.js';
 import { BaseRepository } from './base-repository.js';
@@ -137,6 +139,94 @@ export class EdgeRepository extends BaseRepository implements IEdgeRepository {
     filter?: EdgeFilterCriteria,
     pagination: PaginationParams = { page: 1, pageSize: 100 }
   ): Promise<PaginatedResult<EdgeEntity>> {
+    const { conditions, params } = this.buildFilterConditions(scanId, tenantId, filter);
+    const whereClause = conditions.join(' AND ');
+
+    const baseQuery = `
+      SELECT * FROM edges
+      WHERE ${whereClause}
+      ORDER BY confidence DESC, created_at
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as count FROM edges
+      WHERE ${whereClause}
+    `;
+
+    const result = await this.queryPaginated<EdgeRow>(
+      baseQuery,
+      countQuery,
+      params,
+      pagination
+    );
+
+    return {
+      ...result,
+      data: result.data.map(row => this.mapRowToEdgeEntity(row)),
+    };
+  }
+
+  /**
+   * Find edges by scan using keyset pagination on (confidence DESC, id)
+   */
+  async findByScanCursor(
+    scanId: ScanId,
+    tenantId: TenantId,
+    filter: EdgeFilterCriteria | undefined,
+    pagination: CursorPaginationParams
+  ): Promise<CursorPaginatedResult<EdgeEntity>> {
+    const { conditions, params } = this.buildFilterConditions(scanId, tenantId, filter);
+    const countClause = conditions.join(' AND ');
+    const countParams = [...params];
+
+    if (pagination.cursor !== undefined) {
+      const [confidence, id] = this.decodeCursor(pagination.cursor, 2);
+      const base = params.length;
+      conditions.push(
+        `(confidence < $${base + 1} OR (confidence = $${base + 1} AND id > $${base + 2}))`
+      );
+      params.push(confidence, id);
+    }
+
+    const query = `
+      SELECT * FROM edges
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY confidence DESC, id
+      LIMIT $${params.length + 1}
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as count FROM edges
+      WHERE ${countClause}
+    `;
+
+    // Fetch one extra row to learn whether another page follows
+    const [rows, countRow] = await Promise.all([
+      this.queryAll<EdgeRow>(query, [...params, pagination.limit + 1]),
+      this.queryOne<{ count: string }>(countQuery, countParams),
+    ]);
+
+    const page = rows.slice(0, pagination.limit);
+    const last = page[page.length - 1];
+    const nextCursor = rows.length > pagination.limit && last
+      ? this.encodeCursor([last.confidence, last.id])
+      : null;
+
+    return {
+      data: page.map(row => this.mapRowToEdgeEntity(row)),
+      total: parseInt(countRow?.count ?? '0', 10),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Build WHERE conditions for scan edge queries
+   */
+  private buildFilterConditions(
+    scanId: ScanId,
+    tenantId: TenantId,
+    filter?: EdgeFilterCriteria
+  ): { conditions: string[]; params: unknown[] } {
     const conditions: string[] = ['scan_id = $1', 'tenant_id = $2'];
     const params: unknown[] = [scanId, tenantId];
     let paramIndex = 3;
@@ -167,30 +257,7 @@ export class EdgeRepository extends BaseRepository implements IEdgeRepository {
       params.push(filter.maxConfidence);
     }
 
-    const whereClause = conditions.join(' AND ');
-
-    const baseQuery = `
-      SELECT * FROM edges
-      WHERE ${whereClause}
-      ORDER BY confidence DESC, created_at
-    `;
-
-    const countQuery = `
-      SELECT COUNT(*) as count FROM edges
-      WHERE ${whereClause}
-    `;
-
-    const result = await this.queryPaginated<EdgeRow>(
-      baseQuery,
-      countQuery,
-      params,
-      pagination
-    );
-
-    return {
-      ...result,
-      data: result.data.map(row => this.mapRowToEdgeEntity(row)),
-    };
+    return { conditions, params };
   }
 
   /**
@@ -239,6 +306,35 @@ export class EdgeRepository extends BaseRepository implements IEdgeRepository {
     return rows.map(row => this.mapRowToEdgeEntity(row));
   }
 
+  /**
+   * Find edges whose source and target are both among the given nodes
+   */
+  async findBetweenNodes(
+    scanId: ScanId,
+    tenantId: TenantId,
+    nodeIds: readonly DbNodeId[]
+  ): Promise<EdgeEntity[]> {
+    if (nodeIds.length === 0) {
+      return [];
+    }
+
+    const query = `
+      SELECT * FROM edges
+      WHERE scan_id = $1 AND tenant_id = $2
+        AND source_node_id = ANY($3::uuid[])
+        AND target_node_id = ANY($3::uuid[])
+      ORDER BY confidence DESC
+    `;
+
+    const rows = await this.queryAll<EdgeRow>(query, [
+      scanId,
+      tenantId,
+      nodeIds,
+    ]);
+
+    return rows.map(row => this.mapRowToEdgeEntity(row));
+  }
+
   /**
    * Update confidence score
    */
@@ -83,13 +83,15 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
 
   /**
    * Get downstream dependencies (nodes that depend on given node)
-   * Uses recursive CTE to traverse the dependency graph
+   * Uses recursive CTE to traverse the dependency graph, optionally
+   * following only edges of the given types
    */
   async getDownstreamDependencies(
     scanId: ScanId,
     tenantId: TenantId,
     nodeId: DbNodeId,
-    maxDepth: number = 10
+    maxDepth: number = 10,
+    edgeTypes?: readonly EdgeType[]
   ): Promise<NodeEntity[]> {
     const query = `
       WITH RECURSIVE downstream AS (
@@ -103,6 +105,7 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
         WHERE e.source_node_id = $1
           AND e.scan_id = $2
           AND e.tenant_id = $3
+          AND ($5::text[] IS NULL OR e.edge_type::text = ANY($5::text[]))
 
         UNION
 
@@ -117,6 +120,7 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
         WHERE e.scan_id = $2
           AND e.tenant_id = $3
           AND d.depth < $4
+          AND ($5::text[] IS NULL OR e.edge_type::text = ANY($5::text[]))
           AND NOT e.target_node_id = ANY(d.path)  -- Prevent cycles
       )
       SELECT DISTINCT n.*
@@ -131,6 +135,7 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
       scanId,
       tenantId,
       maxDepth,
+      edgeTypes ?? null,
     ]);
 
     return rows.map(row => this.mapRowToNodeEntity(row));
@@ -143,7 +148,8 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
     scanId: ScanId,
     tenantId: TenantId,
     nodeId: DbNodeId,
-    maxDepth: number = 10
+    maxDepth: number = 10,
+    edgeTypes?: readonly EdgeType[]
   ): Promise<NodeEntity[]> {
     const query = `
       WITH RECURSIVE upstream AS (
@@ -157,6 +163,7 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
         WHERE e.target_node_id = $1
           AND e.scan_id = $2
           AND e.tenant_id = $3
+          AND ($5::text[] IS NULL OR e.edge_type::text = ANY($5::text[]))
 
         UNION
 
@@ -171,6 +178,7 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
         WHERE e.scan_id = $2
           AND e.tenant_id = $3
           AND u.depth < $4
+          AND ($5::text[] IS NULL OR e.edge_type::text = ANY($5::text[]))
           AND NOT e.source_node_id = ANY(u.path)  -- Prevent cycles
       )
       SELECT DISTINCT n.*
@@ -185,6 +193,7 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
       scanId,
       tenantId,
       maxDepth,
+      edgeTypes ?? null,
     ]);
 
     return rows.map(row => this.mapRowToNodeEntity(row));
@@ -482,6 +491,7 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
         WHERE e.target_node_id = $1
           AND e.scan_id = $2
           AND e.tenant_id = $3
+          AND ($5::text[] IS NULL OR e.edge_type::text = ANY($5::text[]))
 
         UNION
 
@@ -523,6 +533,7 @@ export class GraphQuerier extends BaseRepository implements IGraphQuerier {
         WHERE e.target_node_id = $1
           AND e.scan_id = $2
           AND e.tenant_id = $3
+          AND ($5::text[] IS NULL OR e.edge_type::text = ANY($5::text[]))
 
         UNION
 
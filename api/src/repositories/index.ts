@@ -48,6 +48,8 @@ export type {
   CycleInfo,
   ImpactAnalysisResult,
   IGraphQuerier,
+  // Repository webhooks
+  IRepositoryWebhookRepository,
   // Unit of work
   IUnitOfWork,
 } from './interfaces.js';
@@ -59,7 +61,7 @@ export type { IRollupRepository } from '../services/rollup/interfaces.js';
 // Implementations
 // ============================================================================
 
-export { BaseRepository } from './base-repository.js';
+export { BaseRepository, InvalidCursorError } from './base-repository.js';
 export type { QueryOptions, ColumnMapping } from './base-repository.js';
 
 export { ScanRepository, createScanRepository } from './scan-repository.js';
@@ -67,6 +69,10 @@ export { NodeRepository, createNodeRepository } from './node-repository.js';
 export { EdgeRepository, createEdgeRepository } from './edge-repository.js';
 export { EvidenceRepository, createEvidenceRepository } from './evidence-repository.js';
 export { GraphQuerier, createGraphQuerier } from './graph-querier.js';
+export {
+  RepositoryWebhookRepository,
+  createRepositoryWebhookRepository,
+} from './repository-webhook-repository.js';
 export {
   UnitOfWork,
   createUnitOfWork,
@@ -102,6 +108,15 @@ export type {
   MergedNodeFilterCriteria,
 } from './merged-node-repository.js';
 
+// ============================================================================
+// Webhook Subscription Repository (TASK-WEBHOOK-OUT)
+// ============================================================================
+
+export {
+  WebhookSubscriptionRepository,
+  createWebhookSubscriptionRepository,
+} from './webhook-subscription-repository.js';
+
 // ============================================================================
 // Terragrunt Node Helpers (TASK-TG-007)
 // ============================================================================
@@ -14,12 +14,16 @@ import {
   ScanStatus,
   ScanProgress,
   ScanResultSummary,
+  ScanCheckpointEntity,
+  ScanCheckpointPhase,
   NodeEntity,
   EdgeEntity,
   TenantId,
   RepositoryId,
   DbNodeId,
   DbEdgeId,
+  GitProvider,
+  RepositoryWebhookEntity,
 } from '../types/entities.js';
 import { NodeTypeName, EdgeType } from '../types/graph.js';
 import { EvidenceType, EvidenceCategory } from '../types/evidence.js';
@@ -47,6 +51,27 @@ export interface PaginatedResult<T> {
   readonly totalPages: number;
 }
 
+/**
+ * Cursor (keyset) pagination parameters
+ */
+export interface CursorPaginationParams {
+  /** Opaque cursor returned with the previous page; omit for the first page */
+  readonly cursor?: string;
+  /** Maximum number of items to return */
+  readonly limit: number;
+}
+
+/**
+ * Cursor paginated result
+ */
+export interface CursorPaginatedResult<T> {
+  readonly data: T[];
+  /** Total items matching the filter, across all pages */
+  readonly total: number;
+  /** Cursor for the next page, or null on the last page */
+  readonly nextCursor: string | null;
+}
+
 /**
  * Sort direction
  */
@@ -116,6 +141,8 @@ export interface ITransactionManager {
  * Scan creation input
  */
 export interface CreateScanInput {
+  /** Pre-assigned scan ID (generated when omitted) */
+  readonly id?: ScanId;
   readonly tenantId: TenantId;
   readonly repositoryId: RepositoryId;
   readonly initiatedBy: string;
@@ -212,6 +239,61 @@ export interface IScanRepository {
     repositoryId: RepositoryId,
     tenantId: TenantId
   ): Promise<ScanEntity | null>;
+
+  /**
+   * Get the latest completed scan of a repository on any ref
+   */
+  getLatestCompletedForRepository(
+    repositoryId: RepositoryId,
+    tenantId: TenantId
+  ): Promise<ScanEntity | null>;
+
+  /**
+   * Get the latest completed scan of a repository ref
+   */
+  getLatestCompletedForRef(
+    repositoryId: RepositoryId,
+    tenantId: TenantId,
+    ref: string
+  ): Promise<ScanEntity | null>;
+
+  /**
+   * Save scan checkpoint, replacing any previous checkpoint
+   */
+  saveCheckpoint(
+    id: ScanId,
+    tenantId: TenantId,
+    phase: ScanCheckpointPhase,
+    data: Record<string, unknown>
+  ): Promise<void>;
+
+  /**
+   * Find the latest checkpoint for a scan
+   */
+  findCheckpoint(id: ScanId, tenantId: TenantId): Promise<ScanCheckpointEntity | null>;
+
+  /**
+   * Delete scan checkpoint
+   */
+  deleteCheckpoint(id: ScanId, tenantId: TenantId): Promise<void>;
+}
+
+// ============================================================================
+// Repository Webhook Repository Interface
+// ============================================================================
+
+/**
+ * Repository webhook registration data access
+ */
+export interface IRepositoryWebhookRepository {
+  /**
+   * Find active registrations for a provider repository, across tenants.
+   * Used before the tenant is known, to authenticate incoming webhooks.
+   */
+  findActiveByProviderRepository(
+    provider: GitProvider,
+    providerRepositoryId: string
+  ): Promise<RepositoryWebhookEntity[]>;
 }
 
 // ============================================================================
@@ -242,6 +324,8 @@ export interface NodeFilterCriteria {
   readonly nodeType?: NodeTypeName | NodeTypeName[];
   readonly filePath?: string;
   readonly name?: string;
+  /** Matches name or file path */
+  readonly search?: string;
 }
 
 /**
@@ -268,6 +352,16 @@ export interface INodeRepository {
     pagination?: PaginationParams
   ): Promise<PaginatedResult<NodeEntity>>;
 
+  /**
+   * Find nodes by scan using cursor pagination
+   */
+  findByScanCursor(
+    scanId: ScanId,
+    tenantId: TenantId,
+    filter: NodeFilterCriteria | undefined,
+    pagination: CursorPaginationParams
+  ): Promise<CursorPaginatedResult<NodeEntity>>;
+
   /**
    * Find nodes by type
    */
@@ -368,6 +462,16 @@ export interface IEdgeRepository {
     pagination?: PaginationParams
   ): Promise<PaginatedResult<EdgeEntity>>;
 
+  /**
+   * Find edges by scan using cursor pagination
+   */
+  findByScanCursor(
+    scanId: ScanId,
+    tenantId: TenantId,
+    filter: EdgeFilterCriteria | undefined,
+    pagination: CursorPaginationParams
+  ): Promise<CursorPaginatedResult<EdgeEntity>>;
+
   /**
    * Find edges by source node
    */
@@ -386,6 +490,15 @@ export interface IEdgeRepository {
     targetNodeId: DbNodeId
   ): Promise<EdgeEntity[]>;
 
+  /**
+   * Find edges whose source and target are both among the given nodes
+   */
+  findBetweenNodes(
+    scanId: ScanId,
+    tenantId: TenantId,
+    nodeIds: readonly DbNodeId[]
+  ): Promise<EdgeEntity[]>;
+
   /**
    * Update confidence score
    */
@@ -581,23 +694,27 @@ export interface ImpactAnalysisResult {
  */
 export interface IGraphQuerier {
   /**
-   * Get downstream dependencies (nodes that depend on given node)
+   * Get downstream dependencies (nodes that depend on given node),
+   * following only edges of the given types when provided
    */
   getDownstreamDependencies(
     scanId: ScanId,
     tenantId: TenantId,
     nodeId: DbNodeId,
-    maxDepth?: number
+    maxDepth?: number,
+    edgeTypes?: readonly EdgeType[]
   ): Promise<NodeEntity[]>;
 
   /**
-   * Get upstream dependents (nodes that the given node depends on)
+   * Get upstream dependents (nodes that the given node depends on),
+   * following only edges of the given types when provided
    */
   getUpstreamDependents(
     scanId: ScanId,
     tenantId: TenantId,
     nodeId: DbNodeId,
-    maxDepth?: number
+    maxDepth?: number,
+    edgeTypes?: readonly EdgeType[]
   ): Promise<NodeEntity[]>;
 
   /**
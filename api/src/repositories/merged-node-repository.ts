@@ -180,8 +180,10 @@ export class MergedNodeRepository extends BaseRepository implements IMergedNodeR
         $10, $11, $12, $13,
         $14, $15, $16
       )
-      ON CONFLICT (rollup_id, execution_id, canonical_name, node_type)
+      ON CONFLICT (id)
       DO UPDATE SET
+        canonical_name = EXCLUDED.canonical_name,
+        node_type = EXCLUDED.node_type,
         source_node_ids = EXCLUDED.source_node_ids,
         source_repo_ids = EXCLUDED.source_repo_ids,
         locations = EXCLUDED.locations,
@@ -250,8 +252,11 @@ export class MergedNodeRepository extends BaseRepository implements IMergedNodeR
       'updated_at',
     ];
 
-    const conflictColumns = ['rollup_id', 'execution_id', 'canonical_name', 'node_type'];
+    // Merged nodes are identified by their merge engine ID; names may repeat
+    const conflictColumns = ['id'];
     const updateColumns = [
+      'canonical_name',
+      'node_type',
       'source_node_ids',
       'source_repo_ids',
       'locations',
@@ -327,7 +332,7 @@ export class MergedNodeRepository extends BaseRepository implements IMergedNodeR
     const baseQuery = `
       SELECT * FROM merged_nodes
       WHERE ${whereClause}
-      ORDER BY match_confidence DESC, canonical_name ASC
+      ORDER BY match_confidence DESC, canonical_name ASC, id ASC
     `;
 
     const countQuery = `
@@ -366,7 +371,7 @@ export class MergedNodeRepository extends BaseRepository implements IMergedNodeR
     const baseQuery = `
       SELECT * FROM merged_nodes
       WHERE ${whereClause}
-      ORDER BY match_confidence DESC, canonical_name ASC
+      ORDER BY match_confidence DESC, canonical_name ASC, id ASC
     `;
 
     const countQuery = `
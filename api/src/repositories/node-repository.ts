@@ -23,6 +23,8 @@ import {
   NodeFilterCriteria,
   PaginationParams,
   PaginatedResult,
+  CursorPaginationParams,
+  CursorPaginatedResult,
   BatchResult,
 } from './interfaces.js';
 import { BaseRepository } from './base-repository.js';
@@ -135,6 +137,92 @@ export class NodeRepository extends BaseRepository implements INodeRepository {
     filter?: NodeFilterCriteria,
     pagination: PaginationParams = { page: 1, pageSize: 100 }
   ): Promise<PaginatedResult<NodeEntity>> {
+    const { conditions, params } = this.buildFilterConditions(scanId, tenantId, filter);
+    const whereClause = conditions.join(' AND ');
+
+    const baseQuery = `
+      SELECT * FROM nodes
+      WHERE ${whereClause}
+      ORDER BY file_path, line_start
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as count FROM nodes
+      WHERE ${whereClause}
+    `;
+
+    const result = await this.queryPaginated<NodeRow>(
+      baseQuery,
+      countQuery,
+      params,
+      pagination
+    );
+
+    return {
+      ...result,
+      data: result.data.map(row => this.mapRowToNodeEntity(row)),
+    };
+  }
+
+  /**
+   * Find nodes by scan using keyset pagination on (file_path, line_start, id)
+   */
+  async findByScanCursor(
+    scanId: ScanId,
+    tenantId: TenantId,
+    filter: NodeFilterCriteria | undefined,
+    pagination: CursorPaginationParams
+  ): Promise<CursorPaginatedResult<NodeEntity>> {
+    const { conditions, params } = this.buildFilterConditions(scanId, tenantId, filter);
+    const countClause = conditions.join(' AND ');
+    const countParams = [...params];
+
+    if (pagination.cursor !== undefined) {
+      const [filePath, lineStart, id] = this.decodeCursor(pagination.cursor, 3);
+      const base = params.length;
+      conditions.push(`(file_path, line_start, id) > ($${base + 1}, $${base + 2}, $${base + 3})`);
+      params.push(filePath, lineStart, id);
+    }
+
+    const query = `
+      SELECT * FROM nodes
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY file_path, line_start, id
+      LIMIT $${params.length + 1}
+    `;
+
+    const countQuery = `
+      SELECT COUNT(*) as count FROM nodes
+      WHERE ${countClause}
+    `;
+
+    // Fetch one extra row to learn whether another page follows
+    const [rows, countRow] = await Promise.all([
+      this.queryAll<NodeRow>(query, [...params, pagination.limit + 1]),
+      this.queryOne<{ count: string }>(countQuery, countParams),
+    ]);
+
+    const page = rows.slice(0, pagination.limit);
+    const last = page[page.length - 1];
+    const nextCursor = rows.length > pagination.limit && last
+      ? this.encodeCursor([last.file_path, last.line_start, last.id])
+      : null;
+
+    return {
+      data: page.map(row => this.mapRowToNodeEntity(row)),
+      total: parseInt(countRow?.count ?? '0', 10),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Build WHERE conditions for scan node queries
+   */
+  private buildFilterConditions(
+    scanId: ScanId,
+    tenantId: TenantId,
+    filter?: NodeFilterCriteria
+  ): { conditions: string[]; params: unknown[] } {
     const conditions: string[] = ['scan_id = $1', 'tenant_id = $2'];
     const params: unknown[] = [scanId, tenantId];
     let paramIndex = 3;
@@ -160,30 +248,13 @@ export class NodeRepository extends BaseRepository implements INodeRepository {
       params.push(`%${filter.name}%`);
     }
 
-    const whereClause = conditions.join(' AND ');
-
-    const baseQuery = `
-      SELECT * FROM nodes
-      WHERE ${whereClause}
-      ORDER BY file_path, line_start
-    `;
-
-    const countQuery = `
-      SELECT COUNT(*) as count FROM nodes
-      WHERE ${whereClause}
-    `;
-
-    const result = await this.queryPaginated<NodeRow>(
-      baseQuery,
-      countQuery,
-      params,
-      pagination
-    );
+    if (filter?.search) {
+      conditions.push(`(name ILIKE $${paramIndex} OR file_path ILIKE $${paramIndex})`);
+      params.push(`%${filter.search}%`);
+      paramIndex++;
+    }
 
-    return {
-      ...result,
-      data: result.data.map(row => this.mapRowToNodeEntity(row)),
-    };
+    return { conditions, params };
   }
 
   /**
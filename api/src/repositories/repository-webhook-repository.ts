@@ -0,0 +1,111 @@
+/**
+ * Repository Webhook Repository Implementation
+ * @module repositories/repository-webhook-repository
+ *
+ * Implements IRepositoryWebhookRepository for resolving incoming push
+ * webhooks to their registrations. The lookup runs before a tenant is
+ * known, so it goes through the find_active_repository_webhooks function.
+ *
+ * TASK-WEBHOOK-SCAN: Webhook-triggered incremental scans
+ */
+
+import {
+  GitProvider,
+  RepositoryWebhookEntity,
+  createRepositoryId,
+  createTenantId,
+} from '../types/entities.js';
+import { IRepositoryWebhookRepository } from './interfaces.js';
+import { BaseRepository } from './base-repository.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Row type returned by find_active_repository_webhooks
+ */
+interface RepositoryWebhookRow {
+  id: string;
+  tenant_id: string;
+  provider: GitProvider;
+  provider_repository_id: string;
+  repository_full_name: string;
+  tracked_repository_id: string | null;
+  default_branch: string | null;
+  webhook_id: string;
+  webhook_secret: string | null;
+  secret_hash: string;
+  branch_filter: string[] | null;
+  events: string[] | null;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// ============================================================================
+// Repository Implementation
+// ============================================================================
+
+/**
+ * Repository webhook repository for push webhook registrations
+ */
+export class RepositoryWebhookRepository
+  extends BaseRepository
+  implements IRepositoryWebhookRepository
+{
+  constructor() {
+    super('repository_webhooks');
+  }
+
+  /**
+   * Find active registrations for a provider repository across tenants
+   */
+  async findActiveByProviderRepository(
+    provider: GitProvider,
+    providerRepositoryId: string
+  ): Promise<RepositoryWebhookEntity[]> {
+    const rows = await this.queryAll<RepositoryWebhookRow>(
+      'SELECT * FROM find_active_repository_webhooks($1, $2)',
+      [provider, providerRepositoryId]
+    );
+
+    return rows.map((row) => this.mapRowToWebhook(row));
+  }
+
+  // ============================================================================
+  // Private Helpers
+  // ============================================================================
+
+  /**
+   * Map database row to webhook entity
+   */
+  private mapRowToWebhook(row: RepositoryWebhookRow): RepositoryWebhookEntity {
+    return {
+      id: row.id,
+      tenantId: createTenantId(row.tenant_id),
+      provider: row.provider,
+      providerRepositoryId: row.provider_repository_id,
+      repositoryFullName: row.repository_full_name,
+      ...(row.tracked_repository_id !== null && {
+        repositoryId: createRepositoryId(row.tracked_repository_id),
+      }),
+      ...(row.default_branch !== null && { defaultBranch: row.default_branch }),
+      webhookId: row.webhook_id,
+      ...(row.webhook_secret !== null && { secret: row.webhook_secret }),
+      secretHash: row.secret_hash,
+      branchFilter: row.branch_filter ?? [],
+      events: row.events ?? [],
+      isActive: row.is_active,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+/**
+ * Create a new repository webhook repository instance
+ */
+export function createRepositoryWebhookRepository(): IRepositoryWebhookRepository {
+  return new RepositoryWebhookRepository();
+}
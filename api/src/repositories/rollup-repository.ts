@@ -9,6 +9,7 @@
  */
 
 import { TenantId, ScanId } from '../types/entities.js';
+import { GraphEdge } from '../types/graph.js';
 import {
   RollupId,
   RollupExecutionId,
@@ -27,6 +28,7 @@ import {
   IRollupRepository,
   RollupEntity,
   RollupExecutionEntity,
+  RollupExecutionEdges,
 } from '../services/rollup/interfaces.js';
 import { BaseRepository } from './base-repository.js';
 
@@ -389,6 +391,12 @@ export class RollupRepository extends BaseRepository implements IRollupRepositor
         [rollupId, tenantId]
       );
 
+      // Delete merged graph edges
+      await client.query(
+        `DELETE FROM rollup_execution_edges WHERE rollup_id = $1 AND tenant_id = $2`,
+        [rollupId, tenantId]
+      );
+
       // Delete executions
       await client.query(
         `DELETE FROM rollup_executions WHERE rollup_id = $1 AND tenant_id = $2`,
@@ -434,6 +442,22 @@ export class RollupRepository extends BaseRepository implements IRollupRepositor
     return this.mapRowToRollupEntity(row);
   }
 
+  /**
+   * Find rollups of all tenants with an enabled cron schedule
+   */
+  async findScheduled(): Promise<RollupEntity[]> {
+    const query = `
+      SELECT * FROM rollups
+      WHERE status NOT IN ('draft', 'archived')
+        AND (schedule->>'enabled')::boolean IS TRUE
+        AND COALESCE(schedule->>'cron', '') <> ''
+      ORDER BY tenant_id, id
+    `;
+
+    const rows = await this.queryAll<RollupRow>(query);
+    return rows.map(row => this.mapRowToRollupEntity(row));
+  }
+
   // ==========================================================================
   // Execution CRUD
   // ==========================================================================
@@ -681,6 +705,10 @@ export class RollupRepository extends BaseRepository implements IRollupRepositor
     tenantId: TenantId,
     rollupId: RollupId
   ): Promise<number> {
+    await this.query(
+      `DELETE FROM rollup_execution_edges WHERE rollup_id = $1 AND tenant_id = $2`,
+      [rollupId, tenantId]
+    );
     const result = await this.query(
       `DELETE FROM rollup_executions WHERE rollup_id = $1 AND tenant_id = $2`,
       [rollupId, tenantId]
@@ -688,6 +716,89 @@ export class RollupRepository extends BaseRepository implements IRollupRepositor
     return result.rowCount ?? 0;
   }
 
+  // ==========================================================================
+  // Execution Graph Edges
+  // ==========================================================================
+
+  /**
+   * Store the merged graph edges of an execution
+   */
+  async saveExecutionEdges(
+    tenantId: TenantId,
+    rollupId: RollupId,
+    executionId: RollupExecutionId,
+    edges: GraphEdge[],
+    repositoryNames: Map<string, string>
+  ): Promise<void> {
+    const query = `
+      INSERT INTO rollup_execution_edges (
+        execution_id, rollup_id, tenant_id, edges, edge_count, repository_names
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6
+      )
+      ON CONFLICT (execution_id)
+      DO UPDATE SET
+        edges = EXCLUDED.edges,
+        edge_count = EXCLUDED.edge_count,
+        repository_names = EXCLUDED.repository_names
+    `;
+
+    await this.query(
+      query,
+      [
+        executionId,
+        rollupId,
+        tenantId,
+        JSON.stringify(edges),
+        edges.length,
+        JSON.stringify(Object.fromEntries(repositoryNames)),
+      ],
+      { tenantId }
+    );
+  }
+
+  /**
+   * Get the merged graph edges of an execution
+   */
+  async findExecutionEdges(
+    tenantId: TenantId,
+    executionId: RollupExecutionId
+  ): Promise<RollupExecutionEdges | null> {
+    const row = await this.queryOne<{ edges: GraphEdge[]; repository_names: Record<string, string> }>(
+      `SELECT edges, repository_names FROM rollup_execution_edges WHERE execution_id = $1 AND tenant_id = $2`,
+      [executionId, tenantId]
+    );
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      edges: row.edges,
+      repositoryNames: new Map(Object.entries(row.repository_names)),
+    };
+  }
+
+  /**
+   * Get the names of tracked repositories
+   */
+  async findRepositoryNames(
+    tenantId: TenantId,
+    repositoryIds: string[]
+  ): Promise<Map<string, string>> {
+    if (repositoryIds.length === 0) {
+      return new Map();
+    }
+
+    const rows = await this.queryAll<{ id: string; name: string }>(
+      `SELECT id, name FROM repositories WHERE tenant_id = $1 AND id::text = ANY($2::text[])`,
+      [tenantId, repositoryIds],
+      { tenantId }
+    );
+
+    return new Map(rows.map((row) => [row.id, row.name]));
+  }
+
   // ==========================================================================
   // Private Methods
   // ==========================================================================
@@ -14,6 +14,8 @@ import {
   ScanStatus,
   ScanProgress,
   ScanResultSummary,
+  ScanCheckpointEntity,
+  ScanCheckpointPhase,
   ScanConfig,
   TenantId,
   RepositoryId,
@@ -56,6 +58,18 @@ interface ScanRow {
   updated_at: Date;
 }
 
+/**
+ * Database row type for scan_checkpoints table
+ */
+interface ScanCheckpointRow {
+  scan_id: string;
+  tenant_id: string;
+  phase: string;
+  data: Record<string, unknown>;
+  created_at: Date;
+  updated_at: Date;
+}
+
 // ============================================================================
 // Repository Implementation
 // ============================================================================
@@ -72,7 +86,7 @@ export class ScanRepository extends BaseRepository implements IScanRepository {
    * Create a new scan
    */
   async create(input: CreateScanInput): Promise<ScanEntity> {
-    const id = this.generateId();
+    const id = input.id ?? this.generateId();
     const now = new Date();
     const progress = createEmptyScanProgress();
     const config = { ...DEFAULT_SCAN_CONFIG, ...input.config } as ScanConfig;
@@ -395,6 +409,12 @@ export class ScanRepository extends BaseRepository implements IScanRepository {
     // Delete in order due to foreign key constraints
     // Evidence -> Edges -> Nodes -> Scan
     await this.withTransaction(async (client) => {
+      // Delete checkpoint
+      await client.query(
+        `DELETE FROM scan_checkpoints WHERE scan_id = $1 AND tenant_id = $2`,
+        [id, tenantId]
+      );
+
       // Delete evidence
       await client.query(
         `DELETE FROM evidence WHERE scan_id = $1 AND tenant_id = $2`,
@@ -444,6 +464,118 @@ export class ScanRepository extends BaseRepository implements IScanRepository {
     return this.mapRowToScanEntity(row);
   }
 
+  /**
+   * Get the latest completed scan of a repository on any ref
+   */
+  async getLatestCompletedForRepository(
+    repositoryId: RepositoryId,
+    tenantId: TenantId
+  ): Promise<ScanEntity | null> {
+    const query = `
+      SELECT * FROM scans
+      WHERE repository_id = $1 AND tenant_id = $2 AND status = $3
+      ORDER BY completed_at DESC NULLS LAST, created_at DESC
+      LIMIT 1
+    `;
+
+    const row = await this.queryOne<ScanRow>(query, [repositoryId, tenantId, ScanStatus.COMPLETED]);
+
+    if (!row) {
+      return null;
+    }
+
+    return this.mapRowToScanEntity(row);
+  }
+
+  /**
+   * Get the latest completed scan of a repository ref
+   */
+  async getLatestCompletedForRef(
+    repositoryId: RepositoryId,
+    tenantId: TenantId,
+    ref: string
+  ): Promise<ScanEntity | null> {
+    const query = `
+      SELECT * FROM scans
+      WHERE repository_id = $1 AND tenant_id = $2 AND ref = $3 AND status = $4
+      ORDER BY completed_at DESC NULLS LAST, created_at DESC
+      LIMIT 1
+    `;
+
+    const row = await this.queryOne<ScanRow>(query, [
+      repositoryId,
+      tenantId,
+      ref,
+      ScanStatus.COMPLETED,
+    ]);
+
+    if (!row) {
+      return null;
+    }
+
+    return this.mapRowToScanEntity(row);
+  }
+
+  /**
+   * Save scan checkpoint, replacing any previous checkpoint
+   */
+  async saveCheckpoint(
+    id: ScanId,
+    tenantId: TenantId,
+    phase: ScanCheckpointPhase,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    const query = `
+      INSERT INTO scan_checkpoints (scan_id, tenant_id, phase, data, created_at, updated_at)
+      VALUES ($1, $2, $3, $4, $5, $5)
+      ON CONFLICT (scan_id) DO UPDATE
+      SET phase = EXCLUDED.phase, data = EXCLUDED.data, updated_at = EXCLUDED.updated_at
+    `;
+
+    await this.query(query, [
+      id,
+      tenantId,
+      phase,
+      JSON.stringify(data),
+      new Date(),
+    ]);
+  }
+
+  /**
+   * Find the latest checkpoint for a scan
+   */
+  async findCheckpoint(id: ScanId, tenantId: TenantId): Promise<ScanCheckpointEntity | null> {
+    const query = `
+      SELECT * FROM scan_checkpoints
+      WHERE scan_id = $1 AND tenant_id = $2
+    `;
+
+    const row = await this.queryOne<ScanCheckpointRow>(query, [id, tenantId]);
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      scanId: createScanId(row.scan_id),
+      tenantId: row.tenant_id as TenantId,
+      phase: row.phase as ScanCheckpointPhase,
+      data: row.data,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Delete scan checkpoint
+   */
+  async deleteCheckpoint(id: ScanId, tenantId: TenantId): Promise<void> {
+    await this.query(
+      `DELETE FROM scan_checkpoints WHERE scan_id = $1 AND tenant_id = $2`,
+      [id, tenantId]
+    );
+  }
+
   // ============================================================================
   // Private Methods
   // ============================================================================
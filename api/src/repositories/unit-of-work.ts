@@ -28,6 +28,11 @@ import { GraphQuerier } from './graph-querier.js';
 
 const logger = pino({ name: 'unit-of-work' });
 
+/**
+ * Page size used when loading a stored scan graph
+ */
+const GRAPH_LOAD_PAGE_SIZE = 1000;
+
 // ============================================================================
 // Unit of Work Implementation
 // ============================================================================
@@ -217,6 +222,7 @@ export class ScanPersistenceAdapter {
       await this.uow.scans.update(scan.id, scan.tenantId, scan);
     } else {
       await this.uow.scans.create({
+        id: scan.id,
         tenantId: scan.tenantId,
         repositoryId: scan.repositoryId,
         initiatedBy: scan.initiatedBy,
@@ -350,6 +356,171 @@ export class ScanPersistenceAdapter {
 
     return this.uow.scans.findById(scanId, result.rows[0].tenant_id as TenantId);
   }
+
+  /**
+   * Save scan checkpoint, replacing any previous checkpoint
+   */
+  async saveCheckpoint(
+    checkpoint: import('../services/scan-service.js').ScanCheckpoint
+  ): Promise<void> {
+    const tenantId = await this.findTenantId(checkpoint.scanId);
+    if (!tenantId) {
+      throw new Error('Scan not found');
+    }
+
+    const { scanId, phase, ...data } = checkpoint;
+    await this.uow.scans.saveCheckpoint(scanId, tenantId, phase, data);
+  }
+
+  /**
+   * Get the latest checkpoint for a scan
+   */
+  async getCheckpoint(
+    scanId: import('../types/entities.js').ScanId
+  ): Promise<import('../services/scan-service.js').ScanCheckpoint | null> {
+    const tenantId = await this.findTenantId(scanId);
+    if (!tenantId) {
+      return null;
+    }
+
+    const entity = await this.uow.scans.findCheckpoint(scanId, tenantId);
+    if (!entity) {
+      return null;
+    }
+
+    const data = entity.data as unknown as Omit<
+      import('../services/scan-service.js').ScanCheckpoint,
+      'scanId' | 'phase'
+    >;
+
+    // JSON storage turns evidence timestamps into strings
+    const detection = data.detection && {
+      ...data.detection,
+      evidence: {
+        ...data.detection.evidence,
+        items: data.detection.evidence.items.map(item => ({
+          ...item,
+          collectedAt: new Date(item.collectedAt),
+        })),
+      },
+    };
+
+    return {
+      ...data,
+      ...(detection && { detection }),
+      scanId,
+      phase: entity.phase,
+    };
+  }
+
+  /**
+   * Delete scan checkpoint
+   */
+  async deleteCheckpoint(
+    scanId: import('../types/entities.js').ScanId
+  ): Promise<void> {
+    const tenantId = await this.findTenantId(scanId);
+    if (tenantId) {
+      await this.uow.scans.deleteCheckpoint(scanId, tenantId);
+    }
+  }
+
+  /**
+   * Get the stored graph of a scan, keyed by the original graph IDs
+   */
+  async getScanGraph(
+    scanId: import('../types/entities.js').ScanId
+  ): Promise<import('../services/scan-service.js').ScanGraphSnapshot | null> {
+    const tenantId = await this.findTenantId(scanId);
+    if (!tenantId) {
+      return null;
+    }
+
+    const scan = await this.uow.scans.findById(scanId, tenantId);
+    if (!scan?.resultSummary) {
+      return null;
+    }
+
+    const nodeEntities: import('../types/entities.js').NodeEntity[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.uow.nodes.findByScanCursor(scanId, tenantId, undefined, {
+        ...(cursor !== undefined && { cursor }),
+        limit: GRAPH_LOAD_PAGE_SIZE,
+      });
+      nodeEntities.push(...page.data);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+
+    const edgeEntities: import('../types/entities.js').EdgeEntity[] = [];
+    cursor = undefined;
+    do {
+      const page = await this.uow.edges.findByScanCursor(scanId, tenantId, undefined, {
+        ...(cursor !== undefined && { cursor }),
+        limit: GRAPH_LOAD_PAGE_SIZE,
+      });
+      edgeEntities.push(...page.data);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor !== undefined);
+
+    // Edges reference database node IDs; the graph uses original IDs
+    const originalIds = new Map<string, string>(
+      nodeEntities.map(node => [node.id, node.originalId])
+    );
+
+    const nodes = nodeEntities.map(node => ({
+      id: node.originalId,
+      type: node.nodeType,
+      name: node.name,
+      location: {
+        file: node.filePath,
+        lineStart: node.lineStart,
+        lineEnd: node.lineEnd,
+        ...(node.columnStart !== undefined && { columnStart: node.columnStart }),
+        ...(node.columnEnd !== undefined && { columnEnd: node.columnEnd }),
+      },
+      metadata: node.metadata,
+    }) as import('../types/graph.js').NodeType);
+
+    const edges: import('../types/graph.js').GraphEdge[] = [];
+    for (const edge of edgeEntities) {
+      const source = originalIds.get(edge.sourceNodeId);
+      const target = originalIds.get(edge.targetNodeId);
+
+      if (source !== undefined && target !== undefined) {
+        edges.push({
+          id: edge.originalId,
+          source,
+          target,
+          type: edge.edgeType,
+          ...(edge.label !== undefined && { label: edge.label }),
+          metadata: {
+            ...edge.metadata,
+            implicit: edge.isImplicit,
+            confidence: edge.confidence,
+            ...(edge.attribute !== undefined && { attribute: edge.attribute }),
+          },
+        });
+      }
+    }
+
+    return { nodes, edges };
+  }
+
+  /**
+   * Look up the tenant that owns a scan
+   */
+  private async findTenantId(
+    scanId: import('../types/entities.js').ScanId
+  ): Promise<TenantId | null> {
+    const pool = getPool();
+    const result = await pool.query<{ tenant_id: string }>(
+      'SELECT tenant_id FROM scans WHERE id = $1',
+      [scanId]
+    );
+
+    return (result.rows[0]?.tenant_id as TenantId | undefined) ?? null;
+  }
 }
 
 /**
@@ -0,0 +1,403 @@
+/**
+ * Webhook Subscription Repository Implementation
+ * @module repositories/webhook-subscription-repository
+ *
+ * Implements IWebhookSubscriptionRepository for outbound webhook
+ * subscriptions and their delivery log.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import { TenantId, createTenantId } from '../types/entities.js';
+import type {
+  WebhookSubscriptionEventType,
+  WebhookDeliveryStatus,
+  CreateWebhookSubscriptionRequest,
+  UpdateWebhookSubscriptionRequest,
+} from '../types/webhook-subscription.js';
+import {
+  IWebhookSubscriptionRepository,
+  WebhookSubscriptionEntity,
+  WebhookDeliveryEntity,
+  WebhookDeliveryCreateInput,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryFilter,
+  WebhookEventPayload,
+} from '../services/webhooks/interfaces.js';
+import { PaginatedResult, PaginationParams } from './interfaces.js';
+import { BaseRepository } from './base-repository.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Database row type for webhook_subscriptions table
+ */
+interface WebhookSubscriptionRow {
+  id: string;
+  tenant_id: string;
+  name: string;
+  url: string;
+  secret: string;
+  event_types: string[];
+  rollup_ids: string[];
+  repository_ids: string[];
+  is_active: boolean;
+  created_by: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Database row type for webhook_deliveries table
+ */
+interface WebhookDeliveryRow {
+  id: string;
+  tenant_id: string;
+  subscription_id: string;
+  event_id: string;
+  event_type: string;
+  payload: WebhookEventPayload;
+  status: WebhookDeliveryStatus;
+  attempt_count: number;
+  response_status: number | null;
+  response_body: string | null;
+  error_message: string | null;
+  duration_ms: number | null;
+  redelivery_of: string | null;
+  last_attempt_at: Date | null;
+  next_attempt_at: Date | null;
+  delivered_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Updatable subscription columns
+ */
+const UPDATE_COLUMNS: Record<keyof UpdateWebhookSubscriptionRequest, string> = {
+  name: 'name',
+  url: 'url',
+  eventTypes: 'event_types',
+  rollupIds: 'rollup_ids',
+  repositoryIds: 'repository_ids',
+  isActive: 'is_active',
+};
+
+// ============================================================================
+// Repository Implementation
+// ============================================================================
+
+/**
+ * Webhook subscription repository for subscriptions and deliveries
+ */
+export class WebhookSubscriptionRepository
+  extends BaseRepository
+  implements IWebhookSubscriptionRepository
+{
+  constructor() {
+    super('webhook_subscriptions');
+  }
+
+  // ==========================================================================
+  // Subscriptions
+  // ==========================================================================
+
+  /**
+   * Create a subscription
+   */
+  async createSubscription(
+    tenantId: TenantId,
+    userId: string,
+    input: CreateWebhookSubscriptionRequest & { secret: string }
+  ): Promise<WebhookSubscriptionEntity> {
+    const query = `
+      INSERT INTO webhook_subscriptions (
+        id, tenant_id, name, url, secret,
+        event_types, rollup_ids, repository_ids, is_active, created_by
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+      RETURNING *
+    `;
+
+    const row = await this.queryOne<WebhookSubscriptionRow>(query, [
+      this.generateId(),
+      tenantId,
+      input.name,
+      input.url,
+      input.secret,
+      input.eventTypes,
+      input.rollupIds ?? [],
+      input.repositoryIds ?? [],
+      input.isActive ?? true,
+      userId,
+    ], { tenantId });
+
+    if (!row) {
+      throw new Error('Failed to create webhook subscription');
+    }
+
+    return this.mapRowToSubscription(row);
+  }
+
+  /**
+   * Find a subscription by ID
+   */
+  async findSubscriptionById(
+    tenantId: TenantId,
+    subscriptionId: string
+  ): Promise<WebhookSubscriptionEntity | null> {
+    const row = await this.queryOne<WebhookSubscriptionRow>(
+      `SELECT * FROM webhook_subscriptions WHERE id = $1 AND tenant_id = $2`,
+      [subscriptionId, tenantId]
+    );
+
+    return row ? this.mapRowToSubscription(row) : null;
+  }
+
+  /**
+   * List subscriptions of a tenant
+   */
+  async listSubscriptions(tenantId: TenantId): Promise<WebhookSubscriptionEntity[]> {
+    const rows = await this.queryAll<WebhookSubscriptionRow>(
+      `SELECT * FROM webhook_subscriptions WHERE tenant_id = $1 ORDER BY created_at DESC`,
+      [tenantId]
+    );
+
+    return rows.map((row) => this.mapRowToSubscription(row));
+  }
+
+  /**
+   * Find active subscriptions of a tenant that include an event type
+   */
+  async findActiveSubscriptions(
+    tenantId: TenantId,
+    eventType: WebhookSubscriptionEventType
+  ): Promise<WebhookSubscriptionEntity[]> {
+    const rows = await this.queryAll<WebhookSubscriptionRow>(
+      `
+        SELECT * FROM webhook_subscriptions
+        WHERE tenant_id = $1 AND is_active = TRUE AND event_types @> ARRAY[$2]::text[]
+      `,
+      [tenantId, eventType]
+    );
+
+    return rows.map((row) => this.mapRowToSubscription(row));
+  }
+
+  /**
+   * Update a subscription
+   */
+  async updateSubscription(
+    tenantId: TenantId,
+    subscriptionId: string,
+    input: UpdateWebhookSubscriptionRequest
+  ): Promise<WebhookSubscriptionEntity | null> {
+    const updateFields: string[] = [];
+    const params: unknown[] = [];
+    let paramIndex = 1;
+
+    for (const [key, column] of Object.entries(UPDATE_COLUMNS)) {
+      const value = input[key as keyof UpdateWebhookSubscriptionRequest];
+      if (value !== undefined) {
+        updateFields.push(`${column} = $${paramIndex++}`);
+        params.push(value);
+      }
+    }
+
+    if (updateFields.length === 0) {
+      return this.findSubscriptionById(tenantId, subscriptionId);
+    }
+
+    params.push(subscriptionId, tenantId);
+
+    const row = await this.queryOne<WebhookSubscriptionRow>(
+      `
+        UPDATE webhook_subscriptions
+        SET ${updateFields.join(', ')}
+        WHERE id = $${paramIndex++} AND tenant_id = $${paramIndex}
+        RETURNING *
+      `,
+      params
+    );
+
+    return row ? this.mapRowToSubscription(row) : null;
+  }
+
+  /**
+   * Delete a subscription; its deliveries are removed by cascade
+   */
+  async deleteSubscription(tenantId: TenantId, subscriptionId: string): Promise<boolean> {
+    const result = await this.query(
+      `DELETE FROM webhook_subscriptions WHERE id = $1 AND tenant_id = $2`,
+      [subscriptionId, tenantId]
+    );
+
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // ==========================================================================
+  // Deliveries
+  // ==========================================================================
+
+  /**
+   * Record a delivery, ignoring events already recorded for the subscription
+   */
+  async createDelivery(input: WebhookDeliveryCreateInput): Promise<WebhookDeliveryEntity | null> {
+    const query = `
+      INSERT INTO webhook_deliveries (
+        id, tenant_id, subscription_id, event_id, event_type, payload, redelivery_of
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      ON CONFLICT (subscription_id, event_id) WHERE redelivery_of IS NULL DO NOTHING
+      RETURNING *
+    `;
+
+    const row = await this.queryOne<WebhookDeliveryRow>(query, [
+      this.generateId(),
+      input.tenantId,
+      input.subscriptionId,
+      input.eventId,
+      input.eventType,
+      JSON.stringify(input.payload),
+      input.redeliveryOf ?? null,
+    ], { tenantId: input.tenantId });
+
+    return row ? this.mapRowToDelivery(row) : null;
+  }
+
+  /**
+   * Find a delivery by ID
+   */
+  async findDeliveryById(tenantId: TenantId, deliveryId: string): Promise<WebhookDeliveryEntity | null> {
+    const row = await this.queryOne<WebhookDeliveryRow>(
+      `SELECT * FROM webhook_deliveries WHERE id = $1 AND tenant_id = $2`,
+      [deliveryId, tenantId]
+    );
+
+    return row ? this.mapRowToDelivery(row) : null;
+  }
+
+  /**
+   * List deliveries of a subscription, newest first
+   */
+  async listDeliveries(
+    tenantId: TenantId,
+    subscriptionId: string,
+    filter: WebhookDeliveryFilter = {},
+    pagination: PaginationParams = { page: 1, pageSize: 20 }
+  ): Promise<PaginatedResult<WebhookDeliveryEntity>> {
+    let where = 'WHERE subscription_id = $1 AND tenant_id = $2';
+    const params: unknown[] = [subscriptionId, tenantId];
+
+    if (filter.status) {
+      where += ` AND status = $3`;
+      params.push(filter.status);
+    }
+
+    const result = await this.queryPaginated<WebhookDeliveryRow>(
+      `SELECT * FROM webhook_deliveries ${where} ORDER BY created_at DESC`,
+      `SELECT COUNT(*) as count FROM webhook_deliveries ${where}`,
+      params,
+      pagination
+    );
+
+    return {
+      ...result,
+      data: result.data.map((row) => this.mapRowToDelivery(row)),
+    };
+  }
+
+  /**
+   * Record the outcome of an attempt and increment the attempt count
+   */
+  async recordDeliveryAttempt(
+    tenantId: TenantId,
+    deliveryId: string,
+    attempt: WebhookDeliveryAttempt
+  ): Promise<WebhookDeliveryEntity | null> {
+    const query = `
+      UPDATE webhook_deliveries
+      SET status = $1,
+          attempt_count = attempt_count + 1,
+          response_status = $2,
+          response_body = $3,
+          error_message = $4,
+          duration_ms = $5,
+          next_attempt_at = $6,
+          last_attempt_at = NOW(),
+          delivered_at = CASE WHEN $1 = 'succeeded' THEN NOW() ELSE delivered_at END
+      WHERE id = $7 AND tenant_id = $8
+      RETURNING *
+    `;
+
+    const row = await this.queryOne<WebhookDeliveryRow>(query, [
+      attempt.status,
+      attempt.responseStatus ?? null,
+      attempt.responseBody ?? null,
+      attempt.errorMessage ?? null,
+      attempt.durationMs,
+      attempt.nextAttemptAt ?? null,
+      deliveryId,
+      tenantId,
+    ]);
+
+    return row ? this.mapRowToDelivery(row) : null;
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * Map database row to subscription entity
+   */
+  private mapRowToSubscription(row: WebhookSubscriptionRow): WebhookSubscriptionEntity {
+    return {
+      id: row.id,
+      tenantId: createTenantId(row.tenant_id),
+      name: row.name,
+      url: row.url,
+      secret: row.secret,
+      eventTypes: row.event_types as WebhookSubscriptionEventType[],
+      rollupIds: row.rollup_ids,
+      repositoryIds: row.repository_ids,
+      isActive: row.is_active,
+      createdBy: row.created_by,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  /**
+   * Map database row to delivery entity
+   */
+  private mapRowToDelivery(row: WebhookDeliveryRow): WebhookDeliveryEntity {
+    return {
+      id: row.id,
+      tenantId: createTenantId(row.tenant_id),
+      subscriptionId: row.subscription_id,
+      eventId: row.event_id,
+      eventType: row.event_type as WebhookSubscriptionEventType,
+      payload: row.payload,
+      status: row.status,
+      attemptCount: row.attempt_count,
+      ...(row.response_status !== null && { responseStatus: row.response_status }),
+      ...(row.response_body !== null && { responseBody: row.response_body }),
+      ...(row.error_message !== null && { errorMessage: row.error_message }),
+      ...(row.duration_ms !== null && { durationMs: row.duration_ms }),
+      ...(row.redelivery_of !== null && { redeliveryOf: row.redelivery_of }),
+      ...(row.last_attempt_at !== null && { lastAttemptAt: row.last_attempt_at }),
+      ...(row.next_attempt_at !== null && { nextAttemptAt: row.next_attempt_at }),
+      ...(row.delivered_at !== null && { deliveredAt: row.delivered_at }),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+/**
+ * Create a new webhook subscription repository instance
+ */
+export function createWebhookSubscriptionRepository(): IWebhookSubscriptionRepository {
+  return new WebhookSubscriptionRepository();
+}
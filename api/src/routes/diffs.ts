@@ -31,6 +31,7 @@ import { createTenantId, createScanId } from '../types/entities.js';
 import type {
   IGraphDiffService,
   GraphDiffRequest,
+  GraphDiffResponse,
   DiffListItem,
 } from '../services/rollup/graph-diff/graph-diff-service.js';
 import {
@@ -783,29 +784,7 @@ const diffRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise
 
       reply.status(response.fromCache ? 200 : 201);
 
-      // Transform response to match schema
-      // Build cacheInfo only if present (exactOptionalPropertyTypes compliance)
-      const cacheInfo = response.cacheInfo
-        ? {
-            cachedAt: response.cacheInfo.cachedAt.toISOString(),
-            expiresAt: response.cacheInfo.expiresAt.toISOString(),
-            accessCount: response.cacheInfo.accessCount,
-          }
-        : undefined;
-
-      const result = {
-        success: true as const,
-        data: transformDiffResult(response.diff),
-        fromCache: response.fromCache,
-        ...(cacheInfo !== undefined && { cacheInfo }),
-        metadata: {
-          requestedAt: response.metadata.requestedAt.toISOString(),
-          processingTimeMs: response.metadata.processingTimeMs,
-          phases: response.metadata.phases,
-        },
-      } satisfies DiffSingleResponse;
-
-      return result;
+      return transformDiffResponse(response);
     } catch (error) {
       handleDiffError(error);
     }
@@ -915,14 +894,17 @@ const diffRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise
     }
 
     try {
-      // Get the diff service to verify it's available
-      getDiffService();
-
-      // TODO: Implement getDiffById method on the service
-      // For now, getting a diff by ID is not directly supported
-      // The service would need to expose getCachedDiff from the engine
-      // For now, we throw not found to indicate this endpoint needs implementation
-      throw new NotFoundError('Diff', diffId);
+      const diffService = getDiffService();
+      const response = await diffService.getDiffById(
+        createTenantId(tenantId),
+        createGraphDiffId(diffId)
+      );
+
+      if (!response) {
+        throw new NotFoundError('Diff', diffId);
+      }
+
+      return transformDiffResponse(response);
     } catch (error) {
       handleDiffError(error);
     }
@@ -1034,6 +1016,32 @@ const diffRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise
 // Transform Helpers
 // ============================================================================
 
+/**
+ * Transform a diff service response to API response format
+ */
+function transformDiffResponse(response: GraphDiffResponse): DiffSingleResponse {
+  // Build cacheInfo only if present (exactOptionalPropertyTypes compliance)
+  const cacheInfo = response.cacheInfo
+    ? {
+        cachedAt: response.cacheInfo.cachedAt.toISOString(),
+        expiresAt: response.cacheInfo.expiresAt.toISOString(),
+        accessCount: response.cacheInfo.accessCount,
+      }
+    : undefined;
+
+  return {
+    success: true as const,
+    data: transformDiffResult(response.diff),
+    fromCache: response.fromCache,
+    ...(cacheInfo !== undefined && { cacheInfo }),
+    metadata: {
+      requestedAt: response.metadata.requestedAt.toISOString(),
+      processingTimeMs: response.metadata.processingTimeMs,
+      phases: response.metadata.phases,
+    },
+  };
+}
+
 /**
  * Transform GraphDiffResult to API response format
  */
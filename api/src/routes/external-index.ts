@@ -110,6 +110,7 @@ import {
   createEmptyCacheStats,
   ExternalIndexErrorCodes,
   IndexBuildStatus,
+  IndexBuildStatusSchema,
   type ExternalObjectLookupResult,
   type ReverseLookupResult,
   type IndexBuildResult,
@@ -120,7 +121,13 @@ import {
   type IExternalObjectIndexService,
   type IndexBuildOptions,
   type ExternalReferenceType,
+  type ExternalObjectSearchCriteria,
+  type ExternalObjectSortField,
+  type ExternalObjectSummary,
+  type IndexBuild,
+  type IndexBuildStatus as ServiceIndexBuildStatus,
 } from '../services/rollup/external-object-index/interfaces.js';
+import { ExternalObjectIndexError } from '../services/rollup/external-object-index/errors.js';
 import { Type } from '@sinclair/typebox';
 
 const logger = pino({ name: 'external-index-routes' });
@@ -181,6 +188,20 @@ function mapErrorCodeToStatus(code: string): number {
  * Handle external index errors and throw appropriate HTTP errors
  */
 function handleExternalIndexError(error: unknown): never {
+  if (error instanceof ExternalObjectIndexError) {
+    switch (error.getHttpStatus()) {
+      case 400:
+        throw new ValidationError(error.message, error.indexContext.details);
+      case 404:
+        throw new NotFoundError('External object');
+      case 409:
+      case 423:
+        throw new ConflictError(error.message, error.indexContext.details);
+      default:
+        throw error;
+    }
+  }
+
   if (isExternalIndexError(error)) {
     const statusCode = mapErrorCodeToStatus(error.code);
 
@@ -200,6 +221,88 @@ function handleExternalIndexError(error: unknown): never {
   throw error;
 }
 
+// ============================================================================
+// Response Mapping
+// ============================================================================
+
+/**
+ * Confidence reported for indexed references, which carry no score of their own
+ */
+const INDEXED_REFERENCE_CONFIDENCE = 0.9;
+
+/**
+ * Sort field of the list endpoint mapped to the service sort field.
+ * Index entries carry no confidence score, so confidence sorts by reference count.
+ */
+const LIST_SORT_FIELDS: Record<NonNullable<ListExternalObjectsQuery['sortBy']>, ExternalObjectSortField> = {
+  referenceCount: 'referenceCount',
+  lastUpdated: 'lastUpdated',
+  firstSeen: 'firstSeen',
+  externalId: 'identifier',
+  confidence: 'referenceCount',
+};
+
+/**
+ * Build service search criteria from API filters
+ */
+function toSearchCriteria(filters: {
+  types?: string[] | undefined;
+  repositoryIds?: string[] | undefined;
+  scanIds?: string[] | undefined;
+  identifierPattern?: string | undefined;
+  multipleReferencesOnly?: boolean | undefined;
+}): ExternalObjectSearchCriteria {
+  return {
+    ...(filters.types && { referenceTypes: filters.types as ExternalReferenceType[] }),
+    ...(filters.repositoryIds && { repositoryIds: filters.repositoryIds.map(id => createRepositoryId(id)) }),
+    ...(filters.scanIds && { scanIds: filters.scanIds.map(id => createScanId(id)) }),
+    ...(filters.identifierPattern !== undefined && { identifierPattern: filters.identifierPattern }),
+    ...(filters.multipleReferencesOnly && { minReferenceCount: 2 }),
+  };
+}
+
+/**
+ * Convert a service external object to an API summary
+ */
+function toObjectSummary(object: ExternalObjectSummary) {
+  return {
+    externalObjectId: object.id,
+    externalId: object.externalId,
+    externalType: object.referenceType as ExternalObjectLookupResult['externalType'],
+    confidence: INDEXED_REFERENCE_CONFIDENCE,
+    attributes: object.components,
+    referenceCount: object.referenceCount,
+    firstSeen: object.firstSeen.toISOString(),
+    lastUpdated: object.lastUpdated.toISOString(),
+  };
+}
+
+/**
+ * Convert a tracked service build to an API build result
+ */
+function toBuildResult(build: IndexBuild): IndexBuildResult {
+  const { result } = build;
+  const finishedAt = build.completedAt ?? new Date();
+
+  return {
+    buildId: build.buildId,
+    tenantId: build.tenantId,
+    status: build.status,
+    nodesProcessed: result ? result.entriesCreated + result.entriesSkipped : 0,
+    referencesExtracted: result ? result.entriesCreated + result.entriesUpdated : 0,
+    uniqueObjectsIndexed: result?.entriesCreated ?? 0,
+    scansProcessed: result?.processedScans.length ?? 0,
+    duration: result?.buildTimeMs ?? finishedAt.getTime() - build.startedAt.getTime(),
+    errors: build.error ? [build.error] : [],
+    warnings: result && result.errors > 0
+      ? [`${result.errors} repository scan(s) could not be indexed`]
+      : [],
+    startedAt: build.startedAt.toISOString(),
+    ...(build.completedAt && { completedAt: build.completedAt.toISOString() }),
+    createdAt: build.startedAt.toISOString(),
+  };
+}
+
 // ============================================================================
 // External Index Routes Plugin
 // ============================================================================
@@ -413,7 +516,7 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
           externalObjectId: ref.id,
           externalId: ref.externalId,
           externalType: ref.referenceType as any,
-          confidence: 0.9, // Default confidence
+          confidence: INDEXED_REFERENCE_CONFIDENCE,
           attributes: ref.components,
         })),
         totalCount: result.totalCount,
@@ -483,7 +586,7 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
               externalObjectId: ref.id,
               externalId: ref.externalId,
               externalType: ref.referenceType as any,
-              confidence: 0.9,
+              confidence: INDEXED_REFERENCE_CONFIDENCE,
               attributes: ref.components,
             })),
             totalCount: result.totalCount,
@@ -543,17 +646,33 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
       throw new ForbiddenError('Tenant context required');
     }
 
-    // TODO: Implement actual list from service
-    // For now, return empty response
-    return {
-      success: true,
-      data: [],
-      pagination: createExternalIndexPaginationInfo(
-        query.page ?? 1,
-        query.pageSize ?? 20,
-        0
-      ),
-    };
+    const page = query.page ?? 1;
+    const pageSize = query.pageSize ?? 20;
+
+    try {
+      const service = getExternalIndexService();
+      // Page numbers beyond the first without a cursor fall back to offset paging
+      const result = await service.searchObjects(
+        createTenantId(tenantId),
+        toSearchCriteria(query),
+        {
+          sortBy: LIST_SORT_FIELDS[query.sortBy ?? 'referenceCount'],
+          sortOrder: query.sortOrder ?? 'desc',
+          limit: pageSize,
+          ...(query.cursor !== undefined
+            ? { cursor: query.cursor }
+            : { offset: (page - 1) * pageSize }),
+        }
+      );
+
+      return {
+        success: true,
+        data: result.objects.map(toObjectSummary),
+        pagination: createPaginationInfo(page, pageSize, result.total, result.nextCursor),
+      };
+    } catch (error) {
+      handleExternalIndexError(error);
+    }
   });
 
   // ==========================================================================
@@ -575,7 +694,7 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
     preHandler: [requireAuth],
   }, async (request): Promise<SearchExternalObjectsResponse> => {
     const auth = getAuthContext(request);
-    const { query, filters, page, pageSize, sortBy, sortOrder } = request.body;
+    const { query, filters, page = 1, pageSize = 20, cursor, sortBy = 'relevance', sortOrder } = request.body;
 
     logger.debug({ userId: auth.userId, query }, 'Searching external objects');
 
@@ -586,21 +705,38 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
 
     const startTime = Date.now();
 
-    // TODO: Implement actual search from service
-    // For now, return empty response
-    return {
-      success: true,
-      data: {
-        results: [],
-        totalMatches: 0,
-        processingTimeMs: Date.now() - startTime,
-      },
-      pagination: createExternalIndexPaginationInfo(
-        page ?? 1,
-        pageSize ?? 20,
-        0
-      ),
-    };
+    try {
+      const service = getExternalIndexService();
+      // The query is matched against the normalized identifier and scored
+      // by the repository, so relevance ordering spans all pages
+      const result = await service.searchObjects(
+        createTenantId(tenantId),
+        { ...toSearchCriteria(filters ?? {}), identifierPattern: query },
+        {
+          sortBy,
+          sortOrder: sortOrder ?? 'desc',
+          limit: pageSize,
+          ...(cursor !== undefined ? { cursor } : { offset: (page - 1) * pageSize }),
+        }
+      );
+
+      const results = result.objects.map(object => ({
+        ...toObjectSummary(object),
+        relevanceScore: object.relevance ?? 0.5,
+      }));
+
+      return {
+        success: true,
+        data: {
+          results,
+          totalMatches: result.total,
+          processingTimeMs: Date.now() - startTime,
+        },
+        pagination: createPaginationInfo(page, pageSize, result.total, result.nextCursor),
+      };
+    } catch (error) {
+      handleExternalIndexError(error);
+    }
   });
 
   // ==========================================================================
@@ -631,8 +767,33 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
       throw new ForbiddenError('Tenant context required');
     }
 
-    // TODO: Implement lookup by ID from service
-    throw new NotFoundError('External Object', externalObjectId);
+    let object: ExternalObjectSummary | null;
+    try {
+      object = await getExternalIndexService().getObject(createTenantId(tenantId), externalObjectId);
+    } catch (error) {
+      handleExternalIndexError(error);
+    }
+
+    if (!object) {
+      throw new NotFoundError('External Object', externalObjectId);
+    }
+
+    return {
+      success: true,
+      data: {
+        found: true,
+        externalObjectId: object.id,
+        externalId: object.externalId,
+        externalType: object.referenceType as ExternalObjectLookupResult['externalType'],
+        nodeIds: object.nodeIds,
+        scanIds: object.scanIds,
+        repositoryIds: object.repositoryIds,
+        referenceCount: object.referenceCount,
+        metadata: { normalizedId: object.normalizedId, components: object.components },
+        firstSeen: object.firstSeen.toISOString(),
+        lastUpdated: object.lastUpdated.toISOString(),
+      },
+    };
   });
 
   // ==========================================================================
@@ -688,36 +849,18 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
       // Create repository IDs
       const repoIds = repositoryIds?.map(id => createRepositoryId(id)) ?? [];
 
-      // Execute build
-      const result = await service.buildIndex(
-        createTenantId(tenantId),
-        repoIds,
-        buildOptions
-      );
-
-      // Transform to API response
-      const buildResult: IndexBuildResult = {
-        buildId: crypto.randomUUID(),
-        tenantId,
-        status: 'completed' as const,
-        nodesProcessed: 0,
-        referencesExtracted: result.entriesCreated + result.entriesUpdated,
-        uniqueObjectsIndexed: result.entriesCreated,
-        scansProcessed: result.processedScans.length,
-        duration: result.buildTimeMs,
-        errors: [],
-        warnings: [],
-        createdAt: new Date().toISOString(),
-        completedAt: new Date().toISOString(),
-      };
+      // Start a tracked build; synchronous requests wait for it to finish
+      const started = service.startBuild(createTenantId(tenantId), repoIds, buildOptions);
+      const build = isAsync
+        ? started
+        : await service.waitForBuild(createTenantId(tenantId), started.buildId) ?? started;
 
       if (isAsync) {
         reply.status(202);
-        buildResult.status = 'running';
-        buildResult.completedAt = undefined;
       }
 
-      logger.info({ buildId: buildResult.buildId, entriesCreated: result.entriesCreated }, 'Index build completed');
+      const buildResult = toBuildResult(build);
+      logger.info({ buildId: build.buildId, status: build.status }, isAsync ? 'Index build started' : 'Index build finished');
 
       return {
         success: true,
@@ -732,7 +875,7 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
   // GET /api/v1/external-index/builds - List build operations
   // ==========================================================================
   fastify.get<{
-    Querystring: { page?: number; pageSize?: number; status?: string };
+    Querystring: { page?: number; pageSize?: number; status?: ServiceIndexBuildStatus };
   }>('/builds', {
     schema: {
       description: ListBuildsRoute.description,
@@ -740,7 +883,7 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
       querystring: Type.Object({
         page: Type.Optional(Type.Number({ minimum: 1, default: 1 })),
         pageSize: Type.Optional(Type.Number({ minimum: 1, maximum: 50, default: 10 })),
-        status: Type.Optional(Type.String()),
+        status: Type.Optional(IndexBuildStatusSchema),
       }),
       response: {
         200: BuildListResponseSchema,
@@ -759,11 +902,16 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
       throw new ForbiddenError('Tenant context required');
     }
 
-    // TODO: Implement actual list from service
+    const { builds, total } = getExternalIndexService().listBuilds(createTenantId(tenantId), {
+      ...(status !== undefined && { status }),
+      limit: pageSize,
+      offset: (page - 1) * pageSize,
+    });
+
     return {
       success: true,
-      data: [],
-      pagination: createExternalIndexPaginationInfo(page, pageSize, 0),
+      data: builds.map(toBuildResult),
+      pagination: createExternalIndexPaginationInfo(page, pageSize, total),
     };
   });
 
@@ -795,8 +943,15 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
       throw new ForbiddenError('Tenant context required');
     }
 
-    // TODO: Implement actual lookup from service
-    throw new NotFoundError('Build', buildId);
+    const build = getExternalIndexService().getBuild(createTenantId(tenantId), buildId);
+    if (!build) {
+      throw new NotFoundError('Build', buildId);
+    }
+
+    return {
+      success: true,
+      data: toBuildResult(build),
+    };
   });
 
   // ==========================================================================
@@ -832,8 +987,24 @@ const externalIndexRoutes: FastifyPluginAsync = async (fastify: FastifyInstance)
       throw new ForbiddenError('Tenant context required');
     }
 
-    // TODO: Implement actual cancel from service
-    throw new NotFoundError('Build', buildId);
+    const service = getExternalIndexService();
+    const existing = service.getBuild(createTenantId(tenantId), buildId);
+    if (!existing) {
+      throw new NotFoundError('Build', buildId);
+    }
+    if (existing.status !== 'pending' && existing.status !== 'running') {
+      throw new ConflictError(`Build ${buildId} has already finished with status ${existing.status}`);
+    }
+
+    // Resolves once the build has stopped before its next batch
+    const build = await service.cancelBuild(createTenantId(tenantId), buildId, reason) ?? existing;
+
+    logger.info({ buildId, status: build.status }, 'Index build cancellation finished');
+
+    return {
+      success: true,
+      data: toBuildResult(build),
+    };
   });
 
   // ==========================================================================
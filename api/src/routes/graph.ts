@@ -12,14 +12,18 @@
  * - GET /api/v1/scans/:scanId/nodes/:nodeId/dependents - Get upstream
  * - GET /api/v1/scans/:scanId/edges - List edges
  * - GET /api/v1/scans/:scanId/cycles - Detect cycles
+ * - POST /api/v1/scans/:scanId/impact - Analyze impact of node changes
+ *
+ * Node and edge IDs in responses are the persisted database IDs.
  */
 
-import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import { FastifyInstance, FastifyPluginAsync, FastifyRequest } from 'fastify';
 import pino from 'pino';
 import { requireAuth, getAuthContext } from '../middleware/auth.js';
 import {
   NotFoundError,
   ForbiddenError,
+  ValidationError,
 } from '../middleware/error-handler.js';
 import {
   ScanIdParamSchema,
@@ -50,19 +54,333 @@ import {
   type ImpactAnalysisResult,
 } from './schemas/graph.js';
 import { Type } from '@sinclair/typebox';
+import { InvalidCursorError } from '../repositories/base-repository.js';
+import { isUUID } from '../types/rollup-guards.js';
+import { withEnvironmentValue } from '../parsers/terraform/variable-values.js';
+import {
+  createScanId,
+  createTenantId,
+  createDbNodeId,
+  type ScanId,
+  type TenantId,
+  type ScanEntity,
+  type NodeEntity,
+  type EdgeEntity,
+  type DbNodeId,
+} from '../types/entities.js';
+import type { NodeType, GraphEdge, EdgeType, NodeTypeName, DependencyGraph } from '../types/graph.js';
+import type {
+  IScanRepository,
+  INodeRepository,
+  IEdgeRepository,
+  IGraphQuerier,
+  PaginatedResult,
+  CursorPaginatedResult,
+} from '../repositories/interfaces.js';
+import type { IGraphService, TraversalResult as ServiceTraversalResult } from '../services/graph-service.js';
 
 const logger = pino({ name: 'graph-routes' });
 
+/**
+ * Page size used when loading a complete scan graph
+ */
+const GRAPH_LOAD_PAGE_SIZE = 1000;
+
+// ============================================================================
+// Response Mapping
+// ============================================================================
+
+type NodeResponse = GraphResponse['nodes'][number];
+type EdgeResponse = GraphResponse['edges'][number];
+
+/**
+ * Convert a persisted node into a graph node
+ */
+function toGraphNode(entity: NodeEntity): NodeType {
+  return {
+    id: entity.id,
+    type: entity.nodeType,
+    name: entity.name,
+    location: {
+      file: entity.filePath,
+      lineStart: entity.lineStart,
+      lineEnd: entity.lineEnd,
+      ...(entity.columnStart !== undefined && { columnStart: entity.columnStart }),
+      ...(entity.columnEnd !== undefined && { columnEnd: entity.columnEnd }),
+    },
+    metadata: entity.metadata,
+  } as NodeType;
+}
+
+/**
+ * Convert a persisted edge into a graph edge between database node IDs
+ */
+function toGraphEdge(entity: EdgeEntity): GraphEdge {
+  return {
+    id: entity.id,
+    source: entity.sourceNodeId,
+    target: entity.targetNodeId,
+    type: entity.edgeType,
+    ...(entity.label !== undefined && { label: entity.label }),
+    metadata: {
+      ...entity.metadata,
+      implicit: entity.isImplicit,
+      confidence: entity.confidence,
+      ...(entity.attribute !== undefined && { attribute: entity.attribute }),
+    },
+  };
+}
+
+/**
+ * @param environment - Environment whose values Terraform variables take
+ */
+function toNodeResponse(node: NodeType, includeMetadata: boolean, environment?: string): NodeResponse {
+  const resolved = environment !== undefined ? withEnvironmentValue(node, environment) : node;
+  return {
+    id: resolved.id,
+    type: resolved.type,
+    name: resolved.name,
+    location: resolved.location,
+    ...(includeMetadata && { metadata: resolved.metadata }),
+  };
+}
+
+function toEdgeResponse(edge: GraphEdge): EdgeResponse {
+  return {
+    id: edge.id,
+    source: edge.source,
+    target: edge.target,
+    type: edge.type,
+    ...(edge.label !== undefined && { label: edge.label }),
+    confidence: edge.metadata.confidence,
+    isImplicit: edge.metadata.implicit,
+    ...(edge.metadata.attribute !== undefined && { attribute: edge.metadata.attribute }),
+  };
+}
+
+function toTraversalResponse(
+  startNode: string,
+  direction: TraversalResult['direction'],
+  result: ServiceTraversalResult,
+  includeMetadata: boolean
+): TraversalResult {
+  return {
+    startNode,
+    direction,
+    nodes: result.nodes.map(node => toNodeResponse(node, includeMetadata)),
+    edges: result.edges.map(toEdgeResponse),
+    paths: result.paths.map(path => ({ nodeIds: path.nodeIds, length: path.length })),
+    stats: {
+      nodesVisited: result.stats.nodesVisited,
+      edgesTraversed: result.stats.edgesTraversed,
+      maxDepthReached: result.stats.maxDepthReached,
+    },
+  };
+}
+
+/**
+ * Split a comma-separated list, falling back to a single value
+ */
+function parseList(list: string | undefined, single: string | undefined): string[] | undefined {
+  if (list !== undefined && list !== '') {
+    return list.split(',').map(t => t.trim()).filter(t => t.length > 0);
+  }
+  return single !== undefined && single !== '' ? [single] : undefined;
+}
+
+// ============================================================================
+// Route Plugin
+// ============================================================================
+
 /**
  * Graph routes plugin
  */
 const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise<void> => {
+  // Get dependencies from fastify instance
+  const getScanRepository = (): IScanRepository => {
+    const repo = (fastify as FastifyInstance & { scanRepository?: IScanRepository }).scanRepository;
+    if (!repo) {
+      logger.error('Scan repository not registered');
+      throw new Error('Scan repository not available');
+    }
+    return repo;
+  };
+
+  const getNodeRepository = (): INodeRepository => {
+    const repo = (fastify as FastifyInstance & { nodeRepository?: INodeRepository }).nodeRepository;
+    if (!repo) {
+      logger.error('Node repository not registered');
+      throw new Error('Node repository not available');
+    }
+    return repo;
+  };
+
+  const getEdgeRepository = (): IEdgeRepository => {
+    const repo = (fastify as FastifyInstance & { edgeRepository?: IEdgeRepository }).edgeRepository;
+    if (!repo) {
+      logger.error('Edge repository not registered');
+      throw new Error('Edge repository not available');
+    }
+    return repo;
+  };
+
+  const getGraphQuerier = (): IGraphQuerier => {
+    const querier = (fastify as FastifyInstance & { graphQuerier?: IGraphQuerier }).graphQuerier;
+    if (!querier) {
+      logger.error('Graph querier not registered');
+      throw new Error('Graph querier not available');
+    }
+    return querier;
+  };
+
+  const getGraphService = (): IGraphService => {
+    const service = (fastify as FastifyInstance & { graphService?: IGraphService }).graphService;
+    if (!service) {
+      logger.error('Graph service not registered');
+      throw new Error('Graph service not available');
+    }
+    return service;
+  };
+
+  /**
+   * Resolve the tenant for a request.
+   * Prefers the RLS tenant context and rejects requests whose tenant
+   * header disagrees with the authenticated tenant.
+   */
+  const resolveTenantId = (request: FastifyRequest): TenantId => {
+    const auth = getAuthContext(request);
+    const contextTenantId = request.tenant?.tenantId;
+
+    if (contextTenantId !== undefined && auth.tenantId !== undefined && contextTenantId !== auth.tenantId) {
+      throw new ForbiddenError('Tenant context does not match authenticated tenant');
+    }
+
+    const tenantId = contextTenantId ?? auth.tenantId;
+    if (tenantId === undefined || tenantId === '') {
+      throw new ForbiddenError('Tenant context required');
+    }
+
+    return createTenantId(tenantId);
+  };
+
+  /**
+   * Load a scan owned by the tenant
+   */
+  const loadScan = async (scanId: string, tenantId: TenantId): Promise<ScanEntity> => {
+    const scan = await getScanRepository().findById(createScanId(scanId), tenantId);
+    if (!scan) {
+      throw new NotFoundError('Scan', scanId);
+    }
+    return scan;
+  };
+
+  /**
+   * Load every node and edge of a scan into an in-memory graph.
+   * Only used where the whole graph is needed (full graph, cycles).
+   */
+  const loadScanGraph = async (scan: ScanEntity): Promise<DependencyGraph> => {
+    const nodeRepository = getNodeRepository();
+    const edgeRepository = getEdgeRepository();
+    const nodes: NodeType[] = [];
+    const edges: GraphEdge[] = [];
+
+    let cursor: string | null = null;
+    do {
+      const page: CursorPaginatedResult<NodeEntity> = await nodeRepository.findByScanCursor(
+        scan.id,
+        scan.tenantId,
+        undefined,
+        { limit: GRAPH_LOAD_PAGE_SIZE, ...(cursor !== null && { cursor }) }
+      );
+      nodes.push(...page.data.map(toGraphNode));
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+
+    do {
+      const page: CursorPaginatedResult<EdgeEntity> = await edgeRepository.findByScanCursor(
+        scan.id,
+        scan.tenantId,
+        undefined,
+        { limit: GRAPH_LOAD_PAGE_SIZE, ...(cursor !== null && { cursor }) }
+      );
+      edges.push(...page.data.map(toGraphEdge));
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+
+    return getGraphService().buildGraph({
+      nodes,
+      edges,
+      metadata: {
+        scanId: scan.id,
+        repositoryId: scan.repositoryId,
+        ref: scan.ref,
+        commitSha: scan.commitSha,
+      },
+    });
+  };
+
+  /**
+   * Build the subgraph spanned by traversal start nodes and the nodes the
+   * graph querier reached from them, with the edges between those nodes.
+   * Traversing it gives the same paths as traversing the full scan graph.
+   */
+  const loadReachedGraph = async (
+    scan: ScanEntity,
+    startNodes: NodeEntity[],
+    reachedNodes: NodeEntity[]
+  ): Promise<DependencyGraph> => {
+    const nodes = new Map<DbNodeId, NodeEntity>();
+    for (const node of [...startNodes, ...reachedNodes]) {
+      nodes.set(node.id, node);
+    }
+
+    const edges = await getEdgeRepository().findBetweenNodes(scan.id, scan.tenantId, [...nodes.keys()]);
+
+    return getGraphService().buildGraph({
+      nodes: Array.from(nodes.values(), toGraphNode),
+      edges: edges.map(toGraphEdge),
+      metadata: {
+        scanId: scan.id,
+        repositoryId: scan.repositoryId,
+        ref: scan.ref,
+        commitSha: scan.commitSha,
+      },
+    });
+  };
+
+  /**
+   * Load a node of the scan by database ID
+   */
+  const loadNode = async (scanId: ScanId, tenantId: TenantId, nodeId: string): Promise<NodeEntity> => {
+    const node = isUUID(nodeId)
+      ? await getNodeRepository().findById(createDbNodeId(nodeId), tenantId)
+      : null;
+    if (!node || node.scanId !== scanId) {
+      throw new NotFoundError('Node', nodeId);
+    }
+    return node;
+  };
+
+  /**
+   * Run a cursor query, mapping malformed cursors to a validation error
+   */
+  const withCursor = async <T>(query: () => Promise<T>): Promise<T> => {
+    try {
+      return await query();
+    } catch (error) {
+      if (error instanceof InvalidCursorError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+  };
+
   /**
    * GET /api/v1/scans/:scanId/graph - Get full dependency graph
    */
   fastify.get<{
     Params: { scanId: string };
-    Querystring: { includeMetadata?: boolean };
+    Querystring: { includeMetadata?: boolean; environment?: string };
   }>('/graph', {
     schema: {
       description: 'Get the full dependency graph for a scan',
@@ -70,6 +388,7 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
       params: ScanIdParamSchema,
       querystring: Type.Object({
         includeMetadata: Type.Optional(Type.Boolean({ default: true })),
+        environment: Type.Optional(Type.String({ description: 'Environment to resolve Terraform variable values for' })),
       }),
       response: {
         200: GraphResponseSchema,
@@ -78,27 +397,40 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
       },
     },
     preHandler: [requireAuth],
-  }, async (request, reply): Promise<GraphResponse> => {
+  }, async (request): Promise<GraphResponse> => {
     const auth = getAuthContext(request);
     const { scanId } = request.params;
-    const { includeMetadata = true } = request.query;
+    const { includeMetadata = true, environment } = request.query;
 
     logger.debug({ scanId, userId: auth.userId }, 'Getting full graph');
 
-    const tenantId = auth.tenantId;
-    if (!tenantId) {
-      throw new ForbiddenError('Tenant context required');
-    }
+    const tenantId = resolveTenantId(request);
+    const scan = await loadScan(scanId, tenantId);
+    const graph = await loadScanGraph(scan);
 
-    // TODO: Inject graph service and repositories
-    // const scan = await scanRepository.findById(createScanId(scanId), tenantId);
-    // if (!scan) throw new NotFoundError('Scan', scanId);
-    // const nodes = await nodeRepository.findByScan(scanId, tenantId);
-    // const edges = await edgeRepository.findByScan(scanId, tenantId);
-    // const stats = await graphQuerier.getGraphStatistics(scanId, tenantId);
+    const graphService = getGraphService();
+    const stats = graphService.getGraphStats(graph);
+    const cycles = graphService.detectCycles(graph);
 
-    // Mock response structure
-    throw new NotFoundError('Scan', scanId);
+    return {
+      scanId,
+      nodes: Array.from(graph.nodes.values(), node => toNodeResponse(node, includeMetadata, environment)),
+      edges: graph.edges.map(toEdgeResponse),
+      stats: {
+        totalNodes: stats.nodeCount,
+        totalEdges: stats.edgeCount,
+        nodesByType: stats.nodesByType,
+        edgesByType: stats.edgesByType,
+        avgEdgesPerNode: stats.avgEdgesPerNode,
+        density: stats.density,
+        hasCycles: cycles.hasCycles,
+      },
+      metadata: {
+        ref: scan.ref,
+        commitSha: scan.commitSha,
+        generatedAt: new Date().toISOString(),
+      },
+    };
   });
 
   /**
@@ -115,42 +447,61 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
       querystring: NodeFilterQuerySchema,
       response: {
         200: NodeListResponseSchema,
+        400: ErrorResponseSchema,
         401: ErrorResponseSchema,
         404: ErrorResponseSchema,
       },
     },
     preHandler: [requireAuth],
-  }, async (request, reply): Promise<NodeListResponse> => {
+  }, async (request): Promise<NodeListResponse> => {
     const auth = getAuthContext(request);
     const { scanId } = request.params;
     const {
       page = 1,
       pageSize = 20,
+      cursor,
       type,
       types,
       filePath,
       name,
       search,
+      environment,
     } = request.query;
 
     logger.debug({ scanId, userId: auth.userId, type, page }, 'Listing nodes');
 
-    const tenantId = auth.tenantId;
-    if (!tenantId) {
-      throw new ForbiddenError('Tenant context required');
-    }
+    const tenantId = resolveTenantId(request);
+    const scan = await loadScan(scanId, tenantId);
 
     // Parse comma-separated types if provided
-    const nodeTypes = types ? types.split(',').map(t => t.trim()) : (type ? [type] : undefined);
+    const nodeTypes = parseList(types, type) as NodeTypeName[] | undefined;
+    const filter = {
+      ...(nodeTypes && { nodeType: nodeTypes }),
+      ...(filePath !== undefined && filePath !== '' && { filePath }),
+      ...(name !== undefined && name !== '' && { name }),
+      ...(search !== undefined && search !== '' && { search }),
+    };
+
+    const nodeRepository = getNodeRepository();
+
+    // Page numbers beyond the first without a cursor fall back to offset paging
+    if (cursor === undefined && page > 1) {
+      const result: PaginatedResult<NodeEntity> = await nodeRepository.findByScan(
+        scan.id, tenantId, filter, { page, pageSize }
+      );
+      return {
+        data: result.data.map(node => toNodeResponse(toGraphNode(node), true, environment)),
+        pagination: createPaginationInfo(page, pageSize, result.total),
+      };
+    }
 
-    // TODO: Inject node repository
-    // const filter = { nodeType: nodeTypes, filePath, name };
-    // const result = await nodeRepository.findByScan(scanId, tenantId, filter, { page, pageSize });
+    const result = await withCursor(() => nodeRepository.findByScanCursor(
+      scan.id, tenantId, filter, { limit: pageSize, ...(cursor !== undefined && { cursor }) }
+    ));
 
-    // Mock response
     return {
-      data: [],
-      pagination: createPaginationInfo(page, pageSize, 0),
+      data: result.data.map(node => toNodeResponse(toGraphNode(node), true, environment)),
+      pagination: createPaginationInfo(page, pageSize, result.total, result.nextCursor),
     };
   });
 
@@ -171,24 +522,44 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
       },
     },
     preHandler: [requireAuth],
-  }, async (request, reply): Promise<NodeDetail> => {
+  }, async (request): Promise<NodeDetail> => {
     const auth = getAuthContext(request);
     const { scanId, nodeId } = request.params;
 
     logger.debug({ scanId, nodeId, userId: auth.userId }, 'Getting node details');
 
-    const tenantId = auth.tenantId;
-    if (!tenantId) {
-      throw new ForbiddenError('Tenant context required');
-    }
+    const tenantId = resolveTenantId(request);
+    const scan = await loadScan(scanId, tenantId);
+    const node = await loadNode(scan.id, tenantId, nodeId);
 
-    // TODO: Inject repositories
-    // const node = await nodeRepository.findById(nodeId, tenantId);
-    // if (!node || node.scanId !== scanId) throw new NotFoundError('Node', nodeId);
-    // const incomingEdges = await edgeRepository.findByTarget(scanId, tenantId, nodeId);
-    // const outgoingEdges = await edgeRepository.findBySource(scanId, tenantId, nodeId);
+    const edgeRepository = getEdgeRepository();
+    const graphQuerier = getGraphQuerier();
+    const [incomingEdges, outgoingEdges, dependencies, dependents] = await Promise.all([
+      edgeRepository.findByTarget(scan.id, tenantId, node.id),
+      edgeRepository.findBySource(scan.id, tenantId, node.id),
+      graphQuerier.getDownstreamDependencies(scan.id, tenantId, node.id),
+      graphQuerier.getUpstreamDependents(scan.id, tenantId, node.id),
+    ]);
 
-    throw new NotFoundError('Node', nodeId);
+    return {
+      node: toNodeResponse(toGraphNode(node), true),
+      incomingEdges: incomingEdges.map(edge => ({
+        id: edge.id,
+        source: edge.sourceNodeId,
+        type: edge.edgeType,
+        ...(edge.label !== undefined && { label: edge.label }),
+        confidence: edge.confidence,
+      })),
+      outgoingEdges: outgoingEdges.map(edge => ({
+        id: edge.id,
+        target: edge.targetNodeId,
+        type: edge.edgeType,
+        ...(edge.label !== undefined && { label: edge.label }),
+        confidence: edge.confidence,
+      })),
+      dependencyCount: dependencies.length,
+      dependentCount: dependents.length,
+    };
   });
 
   /**
@@ -210,25 +581,31 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
       },
     },
     preHandler: [requireAuth],
-  }, async (request, reply): Promise<TraversalResult> => {
+  }, async (request): Promise<TraversalResult> => {
     const auth = getAuthContext(request);
     const { scanId, nodeId } = request.params;
     const { maxDepth = 5, edgeTypes, includeMetadata = true } = request.query;
 
     logger.debug({ scanId, nodeId, maxDepth, userId: auth.userId }, 'Getting downstream dependencies');
 
-    const tenantId = auth.tenantId;
-    if (!tenantId) {
-      throw new ForbiddenError('Tenant context required');
-    }
+    const tenantId = resolveTenantId(request);
+    const scan = await loadScan(scanId, tenantId);
+    const node = await loadNode(scan.id, tenantId, nodeId);
 
     // Parse edge types
-    const edgeTypeFilter = edgeTypes ? edgeTypes.split(',').map(t => t.trim()) : undefined;
-
-    // TODO: Inject graph querier
-    // const result = await graphQuerier.getDownstreamDependencies(scanId, tenantId, nodeId, maxDepth);
-
-    throw new NotFoundError('Node', nodeId);
+    const edgeTypeFilter = parseList(edgeTypes, undefined) as EdgeType[] | undefined;
+
+    const reached = await getGraphQuerier().getDownstreamDependencies(
+      scan.id, tenantId, node.id, maxDepth, edgeTypeFilter
+    );
+    const graph = await loadReachedGraph(scan, [node], reached);
+    const result = getGraphService().getDownstream(graph, node.id, {
+      maxDepth,
+      includeStart: false,
+      ...(edgeTypeFilter && { edgeTypes: edgeTypeFilter }),
+    });
+
+    return toTraversalResponse(node.id, 'downstream', result, includeMetadata);
   });
 
   /**
@@ -250,22 +627,31 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
       },
     },
     preHandler: [requireAuth],
-  }, async (request, reply): Promise<TraversalResult> => {
+  }, async (request): Promise<TraversalResult> => {
     const auth = getAuthContext(request);
     const { scanId, nodeId } = request.params;
     const { maxDepth = 5, edgeTypes, includeMetadata = true } = request.query;
 
     logger.debug({ scanId, nodeId, maxDepth, userId: auth.userId }, 'Getting upstream dependents');
 
-    const tenantId = auth.tenantId;
-    if (!tenantId) {
-      throw new ForbiddenError('Tenant context required');
-    }
-
-    // TODO: Inject graph querier
-    // const result = await graphQuerier.getUpstreamDependents(scanId, tenantId, nodeId, maxDepth);
+    const tenantId = resolveTenantId(request);
+    const scan = await loadScan(scanId, tenantId);
+    const node = await loadNode(scan.id, tenantId, nodeId);
 
-    throw new NotFoundError('Node', nodeId);
+    // Parse edge types
+    const edgeTypeFilter = parseList(edgeTypes, undefined) as EdgeType[] | undefined;
+
+    const reached = await getGraphQuerier().getUpstreamDependents(
+      scan.id, tenantId, node.id, maxDepth, edgeTypeFilter
+    );
+    const graph = await loadReachedGraph(scan, [node], reached);
+    const result = getGraphService().getUpstream(graph, node.id, {
+      maxDepth,
+      includeStart: false,
+      ...(edgeTypeFilter && { edgeTypes: edgeTypeFilter }),
+    });
+
+    return toTraversalResponse(node.id, 'upstream', result, includeMetadata);
   });
 
   /**
@@ -282,17 +668,19 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
       querystring: EdgeFilterQuerySchema,
       response: {
         200: EdgeListResponseSchema,
+        400: ErrorResponseSchema,
         401: ErrorResponseSchema,
         404: ErrorResponseSchema,
       },
     },
     preHandler: [requireAuth],
-  }, async (request, reply): Promise<EdgeListResponse> => {
+  }, async (request): Promise<EdgeListResponse> => {
     const auth = getAuthContext(request);
     const { scanId } = request.params;
     const {
       page = 1,
       pageSize = 20,
+      cursor,
       type,
       types,
       minConfidence,
@@ -301,21 +689,37 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
 
     logger.debug({ scanId, userId: auth.userId, type, page }, 'Listing edges');
 
-    const tenantId = auth.tenantId;
-    if (!tenantId) {
-      throw new ForbiddenError('Tenant context required');
-    }
+    const tenantId = resolveTenantId(request);
+    const scan = await loadScan(scanId, tenantId);
 
     // Parse comma-separated types
-    const edgeTypes = types ? types.split(',').map(t => t.trim()) : (type ? [type] : undefined);
+    const edgeTypes = parseList(types, type) as EdgeType[] | undefined;
+    const filter = {
+      ...(edgeTypes && { edgeType: edgeTypes }),
+      ...(minConfidence !== undefined && { minConfidence }),
+      ...(isImplicit !== undefined && { isImplicit }),
+    };
 
-    // TODO: Inject edge repository
-    // const filter = { edgeType: edgeTypes, minConfidence, isImplicit };
-    // const result = await edgeRepository.findByScan(scanId, tenantId, filter, { page, pageSize });
+    const edgeRepository = getEdgeRepository();
+
+    // Page numbers beyond the first without a cursor fall back to offset paging
+    if (cursor === undefined && page > 1) {
+      const result: PaginatedResult<EdgeEntity> = await edgeRepository.findByScan(
+        scan.id, tenantId, filter, { page, pageSize }
+      );
+      return {
+        data: result.data.map(edge => toEdgeResponse(toGraphEdge(edge))),
+        pagination: createPaginationInfo(page, pageSize, result.total),
+      };
+    }
+
+    const result = await withCursor(() => edgeRepository.findByScanCursor(
+      scan.id, tenantId, filter, { limit: pageSize, ...(cursor !== undefined && { cursor }) }
+    ));
 
     return {
-      data: [],
-      pagination: createPaginationInfo(page, pageSize, 0),
+      data: result.data.map(edge => toEdgeResponse(toGraphEdge(edge))),
+      pagination: createPaginationInfo(page, pageSize, result.total, result.nextCursor),
     };
   });
 
@@ -336,28 +740,28 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
       },
     },
     preHandler: [requireAuth],
-  }, async (request, reply): Promise<CycleDetectionResult> => {
+  }, async (request): Promise<CycleDetectionResult> => {
     const auth = getAuthContext(request);
     const { scanId } = request.params;
 
     logger.debug({ scanId, userId: auth.userId }, 'Detecting cycles');
 
-    const tenantId = auth.tenantId;
-    if (!tenantId) {
-      throw new ForbiddenError('Tenant context required');
-    }
-
-    // TODO: Inject graph querier
-    // const result = await graphQuerier.detectCycles(scanId, tenantId);
+    const tenantId = resolveTenantId(request);
+    const scan = await loadScan(scanId, tenantId);
+    const graph = await loadScanGraph(scan);
+    const result = getGraphService().detectCycles(graph);
 
-    // Mock response - would come from graph querier
     return {
-      hasCycles: false,
-      cycles: [],
+      hasCycles: result.hasCycles,
+      cycles: result.cycles.map(cycle => ({
+        nodeIds: cycle.nodeIds,
+        edgeIds: cycle.edgeIds,
+        length: cycle.length,
+      })),
       stats: {
-        cyclesFound: 0,
-        nodesInCycles: 0,
-        detectionTimeMs: 0,
+        cyclesFound: result.stats.cyclesFound,
+        nodesInCycles: result.stats.nodesInCycles,
+        detectionTimeMs: result.stats.detectionTimeMs,
       },
     };
   });
@@ -384,34 +788,52 @@ const graphRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promis
       },
     },
     preHandler: [requireAuth],
-  }, async (request, reply): Promise<ImpactAnalysisResult> => {
+  }, async (request): Promise<ImpactAnalysisResult> => {
     const auth = getAuthContext(request);
     const { scanId } = request.params;
     const { nodeIds, maxDepth = 10 } = request.body;
 
     logger.debug({ scanId, nodeIds, maxDepth, userId: auth.userId }, 'Analyzing impact');
 
-    const tenantId = auth.tenantId;
-    if (!tenantId) {
-      throw new ForbiddenError('Tenant context required');
-    }
+    const tenantId = resolveTenantId(request);
+    const scan = await loadScan(scanId, tenantId);
+    const targetNodes = await Promise.all(nodeIds.map(id => loadNode(scan.id, tenantId, id)));
+
+    const graphQuerier = getGraphQuerier();
+    const reached = await Promise.all(
+      targetNodes.map(node => graphQuerier.getDownstreamDependencies(scan.id, tenantId, node.id, maxDepth))
+    );
+    const graph = await loadReachedGraph(scan, targetNodes, reached.flat());
 
-    // TODO: Inject graph querier/service
-    // const result = await graphService.analyzeImpact(graph, nodeIds);
+    const result = getGraphService().analyzeImpact(graph, nodeIds, maxDepth);
 
-    // Mock response
     return {
       targetNodes: nodeIds,
-      directImpact: [],
-      transitiveImpact: [],
+      directImpact: result.directImpact.map(node => toNodeResponse(node, true)),
+      transitiveImpact: result.transitiveImpact.map(node => toNodeResponse(node, true)),
       summary: {
-        totalImpacted: 0,
-        impactByType: {},
-        impactByDepth: {},
-        riskLevel: 'low',
+        totalImpacted: result.summary.totalImpacted,
+        impactByType: result.summary.impactByType,
+        impactByDepth: Object.fromEntries(
+          Object.entries(result.summary.impactByDepth).map(([depth, count]) => [String(depth), count])
+        ),
+        riskLevel: result.summary.riskLevel,
       },
     };
   });
 };
 
 export default graphRoutes;
+
+// ============================================================================
+// Type Declarations
+// ============================================================================
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    nodeRepository?: INodeRepository;
+    edgeRepository?: IEdgeRepository;
+    graphQuerier?: IGraphQuerier;
+    graphService?: IGraphService;
+  }
+}
@@ -16,6 +16,7 @@ import repositoryRoutes from './repositories.js';
 import scanRoutes from './scans.js';
 import graphRoutes from './graph.js';
 import webhookRoutes from './webhooks.js';
+import webhookSubscriptionRoutes from './webhook-subscriptions.js';
 import iacRepositoryRoutes from './repos.js';
 
 // Cross-Repository Aggregation Routes (TASK-ROLLUP-001)
@@ -83,6 +84,16 @@ const routes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise<voi
   // POST /api/v1/webhooks/gitlab - GitLab push webhook
   await fastify.register(webhookRoutes, { prefix: '/api/v1/webhooks' });
 
+  // Outbound webhook subscription routes (TASK-WEBHOOK-OUT)
+  // GET /api/v1/webhook-subscriptions - List subscriptions
+  // POST /api/v1/webhook-subscriptions - Create subscription
+  // GET /api/v1/webhook-subscriptions/:id - Get subscription
+  // PATCH /api/v1/webhook-subscriptions/:id - Update subscription
+  // DELETE /api/v1/webhook-subscriptions/:id - Delete subscription
+  // GET /api/v1/webhook-subscriptions/:id/deliveries - List delivery log
+  // POST /api/v1/webhook-subscriptions/:id/deliveries/:deliveryId/redeliver - Redeliver
+  await fastify.register(webhookSubscriptionRoutes, { prefix: '/api/v1/webhook-subscriptions' });
+
   // IaC managed repositories routes
   // GET /api/v1/iac/repositories - List managed repositories
   // POST /api/v1/iac/repositories - Add repository for scanning
@@ -243,6 +254,7 @@ export {
   scanRoutes,
   graphRoutes,
   webhookRoutes,
+  webhookSubscriptionRoutes,
   iacRepositoryRoutes,
   rollupRoutes,
   diffRoutes,
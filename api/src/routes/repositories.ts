@@ -353,14 +353,17 @@ const repositoryRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): P
 
       // Store webhook info in database
       await query(
-        `INSERT INTO repository_webhooks (id, tenant_id, repository_id, webhook_id, callback_url, secret_hash, events, created_at)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())`,
+        `INSERT INTO repository_webhooks (id, tenant_id, provider, repository_id, repository_full_name, webhook_id, callback_url, webhook_secret, secret_hash, events, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())`,
         [
           crypto.randomUUID(),
           tenantId,
+          'github',
           repository.id,
+          repository.fullName,
           webhook.id,
           callbackUrl,
+          secret,
           await hashSecret(secret),
           JSON.stringify(webhook.events),
         ]
@@ -15,6 +15,7 @@
  * - DELETE /api/v1/rollups/:rollupId - Delete rollup
  * - POST /api/v1/rollups/:rollupId/execute - Execute rollup
  * - GET /api/v1/rollups/:rollupId/executions/:executionId - Get execution result
+ * - GET /api/v1/rollups/:rollupId/executions/:executionId/events - Stream execution progress (SSE)
  * - POST /api/v1/rollups/:rollupId/blast-radius - Compute blast radius
  * - POST /api/v1/rollups/validate - Validate rollup configuration
  */
@@ -37,6 +38,7 @@ import {
   DeleteRollupRoute,
   ExecuteRollupRoute,
   GetExecutionResultRoute,
+  StreamExecutionEventsRoute,
   GetBlastRadiusRoute,
   ValidateRollupRoute,
   RollupIdParams,
@@ -71,9 +73,13 @@ import {
   BlastRadiusQuerySchema,
   createRollupId,
   createRollupExecutionId,
+  type RollupExecutionResult,
 } from '../types/rollup.js';
 import { createTenantId } from '../types/entities.js';
 import { IRollupService } from '../services/rollup/interfaces.js';
+import type { IProgressStreamService } from '../services/progress-stream/interfaces.js';
+import { isTerminalProgressEvent } from '../services/progress-stream/progress-stream-service.js';
+import { writeProgressStream } from '../services/progress-stream/sse.js';
 import {
   RollupError,
   RollupNotFoundError,
@@ -177,6 +183,15 @@ const rollupRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promi
     return service;
   };
 
+  const getProgressStreamService = (): IProgressStreamService => {
+    const service = fastify.progressStreamService;
+    if (!service) {
+      logger.error('ProgressStreamService not registered');
+      throw new Error('ProgressStreamService not available');
+    }
+    return service;
+  };
+
   // ==========================================================================
   // POST /api/v1/rollups - Create a new rollup configuration
   // ==========================================================================
@@ -534,6 +549,78 @@ const rollupRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promi
     }
   });
 
+  // ==========================================================================
+  // GET /api/v1/rollups/:rollupId/executions/:executionId/events - Stream execution progress
+  // ==========================================================================
+  fastify.get<{
+    Params: ExecutionIdParams;
+  }>('/:rollupId/executions/:executionId/events', {
+    schema: {
+      description: StreamExecutionEventsRoute.description,
+      tags: StreamExecutionEventsRoute.tags,
+      params: ExecutionIdParamsSchema,
+      response: {
+        401: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+    preHandler: [requireAuth],
+  }, async (request, reply): Promise<void> => {
+    const auth = getAuthContext(request);
+    const { rollupId, executionId } = request.params;
+    const lastEventId = request.headers['last-event-id'];
+
+    logger.debug(
+      { rollupId, executionId, userId: auth.userId, lastEventId },
+      'Streaming rollup execution progress'
+    );
+
+    const tenantId = auth.tenantId;
+    if (!tenantId) {
+      throw new ForbiddenError('Tenant context required');
+    }
+
+    // Subscribe before reading the execution so no event is missed in between
+    const subscription = await getProgressStreamService().openExecutionStream(
+      createTenantId(tenantId),
+      executionId,
+      typeof lastEventId === 'string' ? { lastEventId } : {}
+    );
+
+    let result: RollupExecutionResult;
+    try {
+      result = await getRollupService().getExecutionResult(
+        createTenantId(tenantId),
+        createRollupExecutionId(executionId)
+      );
+      if (result.rollupId !== rollupId) {
+        throw new NotFoundError('Execution', executionId);
+      }
+    } catch (error) {
+      subscription.close();
+      handleRollupError(error);
+    }
+
+    const snapshot = {
+      type: 'snapshot' as const,
+      timestamp: new Date().toISOString(),
+      data: {
+        rollupId,
+        executionId,
+        status: result.status,
+        ...(result.stats && { stats: result.stats }),
+        ...(result.errorMessage && { errorMessage: result.errorMessage }),
+      },
+    };
+
+    // Resuming clients only need the snapshot once the execution has ended
+    reply.hijack();
+    await writeProgressStream(reply.raw, subscription, {
+      headers: reply.getHeaders(),
+      ...((typeof lastEventId !== 'string' || isTerminalProgressEvent(snapshot)) && { snapshot }),
+    });
+  });
+
   // ==========================================================================
   // POST /api/v1/rollups/:rollupId/blast-radius - Compute blast radius
   // ==========================================================================
@@ -669,5 +756,6 @@ export { rollupRoutes };
 declare module 'fastify' {
   interface FastifyInstance {
     rollupService?: IRollupService;
+    progressStreamService?: IProgressStreamService;
   }
 }
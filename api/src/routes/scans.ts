@@ -10,6 +10,7 @@
  * - GET /api/v1/scans - List scans (paginated)
  * - GET /api/v1/scans/:id - Get scan by ID
  * - GET /api/v1/scans/:id/status - Get scan status/progress
+ * - GET /api/v1/scans/:id/events - Stream scan progress (SSE)
  * - DELETE /api/v1/scans/:id - Cancel scan
  */
 
@@ -40,7 +41,11 @@ import {
   type ListScansQuery,
   type ScanResponse,
 } from './schemas/scan.js';
-import { createScanId, ScanStatus } from '../types/entities.js';
+import { createScanId, createTenantId, DEFAULT_SCAN_CONFIG } from '../types/entities.js';
+import type { IScanRepository } from '../repositories/interfaces.js';
+import type { IProgressStreamService } from '../services/progress-stream/interfaces.js';
+import { isTerminalProgressEvent } from '../services/progress-stream/progress-stream-service.js';
+import { writeProgressStream } from '../services/progress-stream/sse.js';
 
 const logger = pino({ name: 'scans-routes' });
 
@@ -48,6 +53,25 @@ const logger = pino({ name: 'scans-routes' });
  * Scan routes plugin
  */
 const scanRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise<void> => {
+  // Get scan repository from dependency injection
+  const getScanRepository = (): IScanRepository => {
+    const repository = (fastify as FastifyInstance & { scanRepository?: IScanRepository }).scanRepository;
+    if (!repository) {
+      logger.error('ScanRepository not registered');
+      throw new Error('ScanRepository not available');
+    }
+    return repository;
+  };
+
+  const getProgressStreamService = (): IProgressStreamService => {
+    const service = fastify.progressStreamService;
+    if (!service) {
+      logger.error('ProgressStreamService not registered');
+      throw new Error('ProgressStreamService not available');
+    }
+    return service;
+  };
+
   /**
    * POST /api/v1/scans - Start a new scan
    */
@@ -90,7 +114,7 @@ const scanRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise
       status: 'pending',
       ref: ref || 'main',
       config: {
-        detectTypes: config?.detectTypes || ['terraform', 'kubernetes', 'helm'],
+        detectTypes: config?.detectTypes || [...DEFAULT_SCAN_CONFIG.detectTypes],
         includeImplicit: config?.includeImplicit ?? true,
         minConfidence: config?.minConfidence ?? 40,
         maxDepth: config?.maxDepth ?? 10,
@@ -221,11 +245,83 @@ const scanRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise
       throw new ForbiddenError('Tenant context required');
     }
 
-    // TODO: Inject actual scan repository/service
-    // const scan = await scanRepository.findById(createScanId(id), tenantId);
+    const scan = await getScanRepository().findById(createScanId(id), createTenantId(tenantId));
+    if (!scan) {
+      throw new NotFoundError('Scan', id);
+    }
 
-    // Mock: throw not found for now
-    throw new NotFoundError('Scan', id);
+    // Resumed scans carry progress.resumedFrom
+    return {
+      id: scan.id,
+      status: scan.status,
+      progress: scan.progress,
+      ...(scan.startedAt && { startedAt: scan.startedAt.toISOString() }),
+    };
+  });
+
+  /**
+   * GET /api/v1/scans/:id/events - Stream scan progress as server-sent events
+   */
+  fastify.get<{
+    Params: { id: string };
+  }>('/:id/events', {
+    schema: {
+      description: 'Stream scan phase changes, progress counters and the final status as server-sent events, resuming after the Last-Event-ID header',
+      tags: ['Scans'],
+      params: UuidParamSchema,
+      response: {
+        401: ErrorResponseSchema,
+        404: ErrorResponseSchema,
+      },
+    },
+    preHandler: [requireAuth],
+  }, async (request, reply): Promise<void> => {
+    const auth = getAuthContext(request);
+    const { id } = request.params;
+    const lastEventId = request.headers['last-event-id'];
+
+    logger.debug({ scanId: id, userId: auth.userId, lastEventId }, 'Streaming scan progress');
+
+    const tenantId = auth.tenantId;
+    if (!tenantId) {
+      throw new ForbiddenError('Tenant context required');
+    }
+
+    // Subscribe before reading the scan so no event is missed in between
+    const subscription = await getProgressStreamService().openScanStream(
+      createTenantId(tenantId),
+      id,
+      typeof lastEventId === 'string' ? { lastEventId } : {}
+    );
+
+    const scan = await getScanRepository()
+      .findById(createScanId(id), createTenantId(tenantId))
+      .catch((error: unknown) => {
+        subscription.close();
+        throw error;
+      });
+    if (!scan) {
+      subscription.close();
+      throw new NotFoundError('Scan', id);
+    }
+
+    const snapshot = {
+      type: 'snapshot' as const,
+      timestamp: new Date().toISOString(),
+      data: {
+        scanId: scan.id,
+        status: scan.status,
+        progress: scan.progress,
+        ...(scan.errorMessage && { errorMessage: scan.errorMessage }),
+      },
+    };
+
+    // Resuming clients only need the snapshot once the scan has ended
+    reply.hijack();
+    await writeProgressStream(reply.raw, subscription, {
+      headers: reply.getHeaders(),
+      ...((typeof lastEventId !== 'string' || isTerminalProgressEvent(snapshot)) && { snapshot }),
+    });
   });
 
   /**
@@ -275,3 +371,13 @@ const scanRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise
 };
 
 export default scanRoutes;
+
+// ============================================================================
+// Type Declarations
+// ============================================================================
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    scanRepository?: IScanRepository;
+  }
+}
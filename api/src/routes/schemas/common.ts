@@ -49,6 +49,7 @@ export const PaginationInfoSchema = Type.Object({
   totalPages: Type.Number(),
   hasNext: Type.Boolean(),
   hasPrevious: Type.Boolean(),
+  nextCursor: Type.Optional(Type.String({ description: 'Cursor for the next page' })),
 });
 
 export type PaginationInfo = Static<typeof PaginationInfoSchema>;
@@ -59,10 +60,11 @@ export type PaginationInfo = Static<typeof PaginationInfoSchema>;
 export function createPaginationInfo(
   page: number,
   pageSize: number,
-  total: number
+  total: number,
+  nextCursor?: string | null
 ): PaginationInfo {
   const totalPages = Math.ceil(total / pageSize);
-  return {
+  const info: PaginationInfo = {
     page,
     pageSize,
     total,
@@ -70,6 +72,17 @@ export function createPaginationInfo(
     hasNext: page < totalPages,
     hasPrevious: page > 1,
   };
+
+  // Cursor pages know whether more data follows regardless of page number
+  if (nextCursor !== undefined) {
+    return {
+      ...info,
+      hasNext: nextCursor !== null,
+      ...(nextCursor !== null && { nextCursor }),
+    };
+  }
+
+  return info;
 }
 
 // ============================================================================
@@ -290,6 +290,8 @@ export const ListExternalObjectsQuerySchema = Type.Intersect([
     })),
     /** Sort order */
     sortOrder: Type.Optional(SortOrderSchema),
+    /** Cursor pagination */
+    cursor: Type.Optional(Type.String({ description: 'Cursor from a previous page; takes precedence over page' })),
   }),
 ]);
 export type ListExternalObjectsQuery = Static<typeof ListExternalObjectsQuerySchema>;
@@ -309,6 +311,7 @@ export const SearchExternalObjectsRequestSchema = Type.Object({
   /** Pagination */
   page: Type.Optional(Type.Number({ minimum: 1, default: 1 })),
   pageSize: Type.Optional(Type.Number({ minimum: 1, maximum: 100, default: 20 })),
+  cursor: Type.Optional(Type.String({ description: 'Cursor from a previous page; takes precedence over page' })),
   /** Sort options */
   sortBy: Type.Optional(Type.Union([
     Type.Literal('relevance'),
@@ -584,7 +587,7 @@ export const BuildIndexRoute: RouteSchema = {
  * GET /external-index/builds - List build operations
  */
 export const ListBuildsRoute: RouteSchema = {
-  description: 'List recent index build operations',
+  description: 'List recent index build operations tracked by this API instance',
   tags: ['External Index', 'Admin'],
   querystring: Type.Object({
     page: Type.Optional(Type.Number({ minimum: 1, default: 1 })),
@@ -602,7 +605,7 @@ export const ListBuildsRoute: RouteSchema = {
  * GET /external-index/builds/:buildId - Get build status
  */
 export const GetBuildStatusRoute: RouteSchema = {
-  description: 'Get the status of a specific build operation',
+  description: 'Get the status of a build operation started on this API instance',
   tags: ['External Index', 'Admin'],
   params: BuildIdParamsSchema,
   response: {
@@ -617,7 +620,7 @@ export const GetBuildStatusRoute: RouteSchema = {
  * POST /external-index/builds/:buildId/cancel - Cancel a running build
  */
 export const CancelBuildRoute: RouteSchema = {
-  description: 'Cancel a running index build operation',
+  description: 'Cancel a running index build operation started on this API instance',
   tags: ['External Index', 'Admin'],
   params: BuildIdParamsSchema,
   body: CancelBuildRequestSchema,
@@ -808,6 +811,7 @@ export function parseListExternalObjectsQuery(
     minConfidence: query.minConfidence,
     multipleReferencesOnly: query.multipleReferencesOnly,
     attributes: query.attributes,
+    cursor: query.cursor,
   };
 }
 
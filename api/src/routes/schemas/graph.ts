@@ -100,6 +100,8 @@ export const NodeFilterQuerySchema = Type.Intersect([
     filePath: Type.Optional(Type.String({ description: 'Filter by file path pattern' })),
     name: Type.Optional(Type.String({ description: 'Filter by name pattern' })),
     search: Type.Optional(Type.String({ description: 'Search in name and file path' })),
+    environment: Type.Optional(Type.String({ description: 'Environment to resolve Terraform variable values for' })),
+    cursor: Type.Optional(Type.String({ description: 'Cursor from a previous page; takes precedence over page' })),
   }),
 ]);
 
@@ -115,6 +117,7 @@ export const EdgeFilterQuerySchema = Type.Intersect([
     types: Type.Optional(Type.String({ description: 'Filter by multiple types (comma-separated)' })),
     minConfidence: Type.Optional(Type.Number({ minimum: 0, maximum: 100, description: 'Minimum confidence' })),
     isImplicit: Type.Optional(Type.Boolean({ description: 'Filter by implicit status' })),
+    cursor: Type.Optional(Type.String({ description: 'Cursor from a previous page; takes precedence over page' })),
   }),
 ]);
 
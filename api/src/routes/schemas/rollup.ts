@@ -288,6 +288,20 @@ export const GetExecutionResultRoute: RouteSchema = {
   security: [{ bearerAuth: [] }],
 };
 
+/**
+ * GET /rollups/:rollupId/executions/:executionId/events - Stream execution progress
+ */
+export const StreamExecutionEventsRoute: RouteSchema = {
+  description: 'Stream rollup execution progress as server-sent events, resuming after the Last-Event-ID header',
+  tags: ['Rollups', 'Executions'],
+  params: ExecutionIdParamsSchema,
+  response: {
+    401: ErrorResponseSchema,
+    404: ErrorResponseSchema,
+  },
+  security: [{ bearerAuth: [] }],
+};
+
 /**
  * POST /rollups/:rollupId/blast-radius - Get blast radius analysis
  */
@@ -364,6 +378,11 @@ export const RollupRoutes = [
     url: '/rollups/:rollupId/executions/:executionId',
     schema: GetExecutionResultRoute,
   },
+  {
+    method: 'GET' as const,
+    url: '/rollups/:rollupId/executions/:executionId/events',
+    schema: StreamExecutionEventsRoute,
+  },
   {
     method: 'POST' as const,
     url: '/rollups/:rollupId/blast-radius',
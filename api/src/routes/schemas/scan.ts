@@ -34,6 +34,7 @@ export const ScanConfigSchema = Type.Partial(Type.Object({
     Type.Literal('kubernetes'),
     Type.Literal('helm'),
     Type.Literal('cloudformation'),
+    Type.Literal('dockerfile'),
   ]), { description: 'Types of IaC to detect' }),
   includeImplicit: Type.Boolean({ description: 'Include implicit dependencies' }),
   minConfidence: Type.Number({ minimum: 0, maximum: 100, description: 'Minimum confidence threshold' }),
@@ -42,6 +43,7 @@ export const ScanConfigSchema = Type.Partial(Type.Object({
   excludePatterns: Type.Array(Type.String(), { description: 'File patterns to exclude' }),
   analyzeHelmCharts: Type.Boolean({ description: 'Whether to analyze Helm charts' }),
   resolveRemoteModules: Type.Boolean({ description: 'Whether to resolve remote modules' }),
+  expandTerraformInstances: Type.Boolean({ description: 'Whether to expand Terraform count/for_each blocks into instance nodes' }),
 }));
 
 export type ScanConfig = Static<typeof ScanConfigSchema>;
@@ -60,6 +62,7 @@ export const ScanProgressSchema = Type.Object({
   edgesDetected: Type.Number({ description: 'Edges detected so far' }),
   errors: Type.Number({ description: 'Number of errors' }),
   warnings: Type.Number({ description: 'Number of warnings' }),
+  resumedFrom: Type.Optional(Type.String({ description: 'Phase a resumed scan picked up from' })),
 });
 
 export type ScanProgress = Static<typeof ScanProgressSchema>;
@@ -98,6 +98,31 @@ export const GitHubPushPayloadSchema = Type.Object({
 
 export type GitHubPushPayload = Static<typeof GitHubPushPayloadSchema>;
 
+/**
+ * GitHub pull request branch schema
+ */
+export const GitHubPullRequestBranchSchema = Type.Object({
+  ref: Type.String({ description: 'Branch name' }),
+  sha: Type.String({ description: 'SHA the branch points to' }),
+});
+
+/**
+ * GitHub pull_request event payload schema
+ */
+export const GitHubPullRequestPayloadSchema = Type.Object({
+  action: Type.String({ description: 'Pull request action (opened, synchronize, reopened, ...)' }),
+  number: Type.Number(),
+  pull_request: Type.Object({
+    number: Type.Number(),
+    state: Type.String(),
+    base: GitHubPullRequestBranchSchema,
+    head: GitHubPullRequestBranchSchema,
+  }),
+  repository: GitHubRepositorySchema,
+});
+
+export type GitHubPullRequestPayload = Static<typeof GitHubPullRequestPayloadSchema>;
+
 // ============================================================================
 // GitLab Webhook Schemas
 // ============================================================================
@@ -177,6 +202,26 @@ export const GitLabPushPayloadSchema = Type.Object({
 
 export type GitLabPushPayload = Static<typeof GitLabPushPayloadSchema>;
 
+/**
+ * GitLab merge request event payload schema
+ */
+export const GitLabMergeRequestPayloadSchema = Type.Object({
+  object_kind: Type.Literal('merge_request'),
+  event_type: Type.Optional(Type.String()),
+  project: GitLabProjectSchema,
+  object_attributes: Type.Object({
+    iid: Type.Number({ description: 'Merge request IID within the project' }),
+    action: Type.Optional(Type.String({ description: 'Merge request action (open, update, reopen, ...)' })),
+    state: Type.String(),
+    source_branch: Type.String(),
+    target_branch: Type.String(),
+    source_project_id: Type.Number(),
+    target_project_id: Type.Number(),
+  }),
+});
+
+export type GitLabMergeRequestPayload = Static<typeof GitLabMergeRequestPayloadSchema>;
+
 // ============================================================================
 // Webhook Response Schemas
 // ============================================================================
@@ -242,6 +287,21 @@ export function isGitHubPushPayload(payload: unknown): payload is GitHubPushPayl
   );
 }
 
+/**
+ * Check if payload is a GitHub pull_request event
+ */
+export function isGitHubPullRequestPayload(payload: unknown): payload is GitHubPullRequestPayload {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    'action' in payload &&
+    'pull_request' in payload &&
+    'repository' in payload &&
+    typeof (payload as GitHubPullRequestPayload).pull_request?.number === 'number' &&
+    typeof (payload as GitHubPullRequestPayload).repository?.id === 'number'
+  );
+}
+
 /**
  * Check if payload is a GitLab push event
  */
@@ -254,3 +314,17 @@ export function isGitLabPushPayload(payload: unknown): payload is GitLabPushPayl
     'project' in payload
   );
 }
+
+/**
+ * Check if payload is a GitLab merge request event
+ */
+export function isGitLabMergeRequestPayload(payload: unknown): payload is GitLabMergeRequestPayload {
+  return (
+    typeof payload === 'object' &&
+    payload !== null &&
+    'object_kind' in payload &&
+    (payload as GitLabMergeRequestPayload).object_kind === 'merge_request' &&
+    'project' in payload &&
+    typeof (payload as GitLabMergeRequestPayload).object_attributes?.iid === 'number'
+  );
+}
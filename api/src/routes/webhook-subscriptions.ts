@@ -0,0 +1,401 @@
+/**
+ * Webhook Subscription Routes
+ * CRUD operations for outbound webhook subscriptions and their delivery log
+ * @module routes/webhook-subscriptions
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import { FastifyInstance, FastifyPluginAsync } from 'fastify';
+import pino from 'pino';
+import { Type, Static } from '@sinclair/typebox';
+import {
+  WebhookSubscriptionSchema,
+  CreateWebhookSubscriptionRequestSchema,
+  CreateWebhookSubscriptionResponseSchema,
+  UpdateWebhookSubscriptionRequestSchema,
+  ListWebhookSubscriptionsResponseSchema,
+  WebhookDeliverySchema,
+  ListWebhookDeliveriesQuerySchema,
+  ListWebhookDeliveriesResponseSchema,
+  type WebhookSubscription,
+  type CreateWebhookSubscriptionRequest,
+  type CreateWebhookSubscriptionResponse,
+  type UpdateWebhookSubscriptionRequest,
+  type ListWebhookSubscriptionsResponse,
+  type WebhookDelivery,
+  type ListWebhookDeliveriesQuery,
+  type ListWebhookDeliveriesResponse,
+} from '../types/webhook-subscription.js';
+import { ErrorResponseSchema } from '../types/index.js';
+import { createTenantId } from '../types/entities.js';
+import { createPaginationInfo } from './schemas/common.js';
+import type {
+  IWebhookSubscriptionService,
+  WebhookSubscriptionEntity,
+  WebhookDeliveryEntity,
+} from '../services/webhooks/interfaces.js';
+import { requireAuth, getAuthContext } from '../middleware/auth.js';
+import { ValidationError } from '../middleware/error-handler.js';
+
+const logger = pino({ name: 'webhook-subscription-routes' });
+
+/**
+ * Subscription ID parameter schema
+ */
+const IdParamsSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+});
+
+type IdParams = Static<typeof IdParamsSchema>;
+
+/**
+ * Delivery ID parameter schema
+ */
+const DeliveryParamsSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  deliveryId: Type.String({ format: 'uuid' }),
+});
+
+type DeliveryParams = Static<typeof DeliveryParamsSchema>;
+
+/**
+ * Success response schema
+ */
+const SuccessResponseSchema = Type.Object({
+  success: Type.Boolean(),
+  message: Type.Optional(Type.String()),
+});
+
+/**
+ * Convert a subscription entity to its response shape (without the secret)
+ */
+function toSubscriptionResponse(subscription: WebhookSubscriptionEntity): WebhookSubscription {
+  return {
+    id: subscription.id,
+    name: subscription.name,
+    url: subscription.url,
+    eventTypes: subscription.eventTypes,
+    rollupIds: subscription.rollupIds,
+    repositoryIds: subscription.repositoryIds,
+    isActive: subscription.isActive,
+    createdBy: subscription.createdBy,
+    createdAt: subscription.createdAt.toISOString(),
+    updatedAt: subscription.updatedAt.toISOString(),
+  };
+}
+
+/**
+ * Convert a delivery entity to its response shape
+ */
+function toDeliveryResponse(delivery: WebhookDeliveryEntity): WebhookDelivery {
+  return {
+    id: delivery.id,
+    subscriptionId: delivery.subscriptionId,
+    eventId: delivery.eventId,
+    eventType: delivery.eventType,
+    payload: { ...delivery.payload },
+    status: delivery.status,
+    attemptCount: delivery.attemptCount,
+    ...(delivery.responseStatus !== undefined && { responseStatus: delivery.responseStatus }),
+    ...(delivery.responseBody !== undefined && { responseBody: delivery.responseBody }),
+    ...(delivery.errorMessage !== undefined && { errorMessage: delivery.errorMessage }),
+    ...(delivery.durationMs !== undefined && { durationMs: delivery.durationMs }),
+    ...(delivery.redeliveryOf !== undefined && { redeliveryOf: delivery.redeliveryOf }),
+    ...(delivery.lastAttemptAt && { lastAttemptAt: delivery.lastAttemptAt.toISOString() }),
+    ...(delivery.nextAttemptAt && { nextAttemptAt: delivery.nextAttemptAt.toISOString() }),
+    ...(delivery.deliveredAt && { deliveredAt: delivery.deliveredAt.toISOString() }),
+    createdAt: delivery.createdAt.toISOString(),
+  };
+}
+
+/**
+ * Webhook subscription routes plugin
+ */
+const webhookSubscriptionRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise<void> => {
+  // The service should be registered in the fastify instance during app setup
+  const getService = (): IWebhookSubscriptionService => {
+    const service = fastify.webhookSubscriptionService;
+    if (!service) {
+      logger.error('WebhookSubscriptionService not registered');
+      throw new Error('WebhookSubscriptionService not available');
+    }
+    return service;
+  };
+
+  /**
+   * Resolve the tenant of the authenticated request
+   */
+  const getTenantId = (request: Parameters<typeof getAuthContext>[0]) => {
+    const auth = getAuthContext(request);
+    if (!auth.tenantId) {
+      throw new ValidationError('Tenant context required');
+    }
+    return { tenantId: createTenantId(auth.tenantId), userId: auth.userId };
+  };
+
+  /**
+   * List webhook subscriptions of the tenant
+   * GET /webhook-subscriptions
+   */
+  fastify.get<{
+    Reply: ListWebhookSubscriptionsResponse;
+  }>(
+    '/',
+    {
+      schema: {
+        tags: ['Webhooks'],
+        summary: 'List webhook subscriptions',
+        description: 'Returns all outbound webhook subscriptions of the current tenant. Signing secrets are never returned.',
+        response: {
+          200: ListWebhookSubscriptionsResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+      preHandler: requireAuth,
+    },
+    async (request, reply) => {
+      const { tenantId } = getTenantId(request);
+
+      const subscriptions = await getService().listSubscriptions(tenantId);
+
+      return reply.status(200).send({
+        subscriptions: subscriptions.map(toSubscriptionResponse),
+        total: subscriptions.length,
+      });
+    }
+  );
+
+  /**
+   * Create a webhook subscription
+   * POST /webhook-subscriptions
+   */
+  fastify.post<{
+    Body: CreateWebhookSubscriptionRequest;
+    Reply: CreateWebhookSubscriptionResponse;
+  }>(
+    '/',
+    {
+      schema: {
+        tags: ['Webhooks'],
+        summary: 'Create a webhook subscription',
+        description: 'Subscribes a URL to rollup and scan events. The signing secret is returned only once in the response.',
+        body: CreateWebhookSubscriptionRequestSchema,
+        response: {
+          201: CreateWebhookSubscriptionResponseSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+        },
+      },
+      preHandler: requireAuth,
+    },
+    async (request, reply) => {
+      const { tenantId, userId } = getTenantId(request);
+
+      const subscription = await getService().createSubscription(tenantId, userId, request.body);
+
+      logger.info(
+        { subscriptionId: subscription.id, tenantId, eventTypes: subscription.eventTypes },
+        'Webhook subscription created'
+      );
+
+      return reply.status(201).send({
+        ...toSubscriptionResponse(subscription),
+        secret: subscription.secret,
+      });
+    }
+  );
+
+  /**
+   * Get a webhook subscription
+   * GET /webhook-subscriptions/:id
+   */
+  fastify.get<{
+    Params: IdParams;
+    Reply: WebhookSubscription;
+  }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['Webhooks'],
+        summary: 'Get webhook subscription details',
+        params: IdParamsSchema,
+        response: {
+          200: WebhookSubscriptionSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+      preHandler: requireAuth,
+    },
+    async (request, reply) => {
+      const { tenantId } = getTenantId(request);
+
+      const subscription = await getService().getSubscription(tenantId, request.params.id);
+
+      return reply.status(200).send(toSubscriptionResponse(subscription));
+    }
+  );
+
+  /**
+   * Update a webhook subscription
+   * PATCH /webhook-subscriptions/:id
+   */
+  fastify.patch<{
+    Params: IdParams;
+    Body: UpdateWebhookSubscriptionRequest;
+    Reply: WebhookSubscription;
+  }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['Webhooks'],
+        summary: 'Update a webhook subscription',
+        description: 'Changes the URL, event types, filters or active state of a subscription.',
+        params: IdParamsSchema,
+        body: UpdateWebhookSubscriptionRequestSchema,
+        response: {
+          200: WebhookSubscriptionSchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+      preHandler: requireAuth,
+    },
+    async (request, reply) => {
+      const { tenantId } = getTenantId(request);
+
+      const subscription = await getService().updateSubscription(tenantId, request.params.id, request.body);
+
+      return reply.status(200).send(toSubscriptionResponse(subscription));
+    }
+  );
+
+  /**
+   * Delete a webhook subscription
+   * DELETE /webhook-subscriptions/:id
+   */
+  fastify.delete<{
+    Params: IdParams;
+    Reply: Static<typeof SuccessResponseSchema>;
+  }>(
+    '/:id',
+    {
+      schema: {
+        tags: ['Webhooks'],
+        summary: 'Delete a webhook subscription',
+        description: 'Deletes a subscription together with its delivery log.',
+        params: IdParamsSchema,
+        response: {
+          200: SuccessResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+      preHandler: requireAuth,
+    },
+    async (request, reply) => {
+      const { tenantId, userId } = getTenantId(request);
+      const { id } = request.params;
+
+      await getService().deleteSubscription(tenantId, id);
+
+      logger.info({ subscriptionId: id, tenantId, userId }, 'Webhook subscription deleted');
+
+      return reply.status(200).send({
+        success: true,
+        message: 'Webhook subscription deleted successfully',
+      });
+    }
+  );
+
+  /**
+   * List the delivery log of a subscription
+   * GET /webhook-subscriptions/:id/deliveries
+   */
+  fastify.get<{
+    Params: IdParams;
+    Querystring: ListWebhookDeliveriesQuery;
+    Reply: ListWebhookDeliveriesResponse;
+  }>(
+    '/:id/deliveries',
+    {
+      schema: {
+        tags: ['Webhooks'],
+        summary: 'List webhook deliveries',
+        description: 'Returns the delivery log of a subscription, newest first, with the outcome of the latest attempt.',
+        params: IdParamsSchema,
+        querystring: ListWebhookDeliveriesQuerySchema,
+        response: {
+          200: ListWebhookDeliveriesResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+      preHandler: requireAuth,
+    },
+    async (request, reply) => {
+      const { tenantId } = getTenantId(request);
+      const { status, page = 1, pageSize = 20 } = request.query;
+
+      const result = await getService().listDeliveries(
+        tenantId,
+        request.params.id,
+        status ? { status } : {},
+        { page, pageSize }
+      );
+
+      return reply.status(200).send({
+        data: result.data.map(toDeliveryResponse),
+        pagination: createPaginationInfo(result.page, result.pageSize, result.total),
+      });
+    }
+  );
+
+  /**
+   * Redeliver a logged delivery
+   * POST /webhook-subscriptions/:id/deliveries/:deliveryId/redeliver
+   */
+  fastify.post<{
+    Params: DeliveryParams;
+    Reply: WebhookDelivery;
+  }>(
+    '/:id/deliveries/:deliveryId/redeliver',
+    {
+      schema: {
+        tags: ['Webhooks'],
+        summary: 'Redeliver a webhook delivery',
+        description: 'Queues the payload of a logged delivery again. The redelivery is logged as a new delivery.',
+        params: DeliveryParamsSchema,
+        response: {
+          202: WebhookDeliverySchema,
+          400: ErrorResponseSchema,
+          401: ErrorResponseSchema,
+          404: ErrorResponseSchema,
+        },
+      },
+      preHandler: requireAuth,
+    },
+    async (request, reply) => {
+      const { tenantId } = getTenantId(request);
+      const { id, deliveryId } = request.params;
+
+      const delivery = await getService().redeliver(tenantId, id, deliveryId);
+
+      return reply.status(202).send(toDeliveryResponse(delivery));
+    }
+  );
+};
+
+export default webhookSubscriptionRoutes;
+
+// ============================================================================
+// Type Declarations
+// ============================================================================
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    webhookSubscriptionService?: IWebhookSubscriptionService;
+  }
+}
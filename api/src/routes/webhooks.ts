@@ -3,18 +3,25 @@
  * @module routes/webhooks
  *
  * REST API endpoints for receiving webhooks from Git providers.
- * Handles push events to trigger automatic scans.
+ * Handles push events to trigger automatic scans, and pull request events
+ * to check the impact of the proposed change.
+ *
+ * Pushes are matched to a registration in repository_webhooks, verified with
+ * that registration's secret, and queued as a scan when the branch is
+ * tracked. Scans re-parse only the files changed since the previous scan
+ * of the branch when the push continues from that scan's commit. Opened or
+ * updated pull requests into a tracked branch are queued as impact checks,
+ * which report back with a pull request comment and a commit status.
  *
  * Endpoints:
- * - POST /api/v1/webhooks/github - GitHub push webhook
- * - POST /api/v1/webhooks/gitlab - GitLab push webhook
+ * - POST /api/v1/webhooks/github - GitHub push and pull request webhook
+ * - POST /api/v1/webhooks/gitlab - GitLab push and merge request webhook
  */
 
 import { FastifyInstance, FastifyPluginAsync, FastifyRequest, FastifyReply } from 'fastify';
 import pino from 'pino';
 import crypto from 'crypto';
 import {
-  AppError,
   UnauthorizedError,
   ValidationError,
 } from '../middleware/error-handler.js';
@@ -27,14 +34,100 @@ import {
   WebhookAckResponseSchema,
   isGitHubPushPayload,
   isGitLabPushPayload,
+  isGitHubPullRequestPayload,
+  isGitLabMergeRequestPayload,
   type GitHubPushPayload,
   type GitLabPushPayload,
   type WebhookAckResponse,
 } from './schemas/webhook.js';
 import { Type } from '@sinclair/typebox';
+import type { IRepositoryWebhookRepository, IScanRepository } from '../repositories/interfaces.js';
+import { parserRegistry } from '../parsers/registry/parser-registry.js';
+import type { IQueueService } from '../services/rollup/rollup-service.js';
+import {
+  SCAN_JOB_TYPES,
+  createScanExecuteJob,
+  createPrImpactJob,
+  type IncrementalScanJob,
+} from '../queues/scan-jobs.js';
+import {
+  GitProvider,
+  RepositoryWebhookEntity,
+} from '../types/entities.js';
 
 const logger = pino({ name: 'webhook-routes' });
 
+/**
+ * Commit SHA GitLab reports for deleted branches
+ */
+const NULL_COMMIT_SHA = '0000000000000000000000000000000000000000';
+
+/**
+ * Pull request actions that change the proposed commits
+ */
+const GITHUB_PULL_REQUEST_ACTIONS = new Set(['opened', 'synchronize', 'reopened']);
+
+/**
+ * Merge request actions that change the proposed commits
+ */
+const GITLAB_MERGE_REQUEST_ACTIONS = new Set(['open', 'update', 'reopen']);
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * File changes listed in a push commit
+ */
+interface PushCommitChanges {
+  added: string[];
+  modified: string[];
+  removed: string[];
+}
+
+/**
+ * Provider-neutral view of a verified push
+ */
+interface PushEvent {
+  /** Event ID for the acknowledgement */
+  eventId: string;
+  /** Git provider */
+  provider: GitProvider;
+  /** Pushed branch */
+  branch: string;
+  /** SHA before the push */
+  before: string;
+  /** SHA after the push */
+  after: string;
+  /** Commits in push order */
+  commits: PushCommitChanges[];
+  /** Whether the commit list covers the whole push */
+  commitsComplete: boolean;
+  /** Default branch reported by the provider */
+  defaultBranch: string;
+}
+
+/**
+ * Provider-neutral view of a verified pull request event
+ */
+interface PullRequestEvent {
+  /** Event ID for the acknowledgement */
+  eventId: string;
+  /** Git provider */
+  provider: GitProvider;
+  /** Pull request number (merge request IID on GitLab) */
+  number: number;
+  /** Target branch */
+  baseRef: string;
+  /**
+   * Ref of the proposed commits in the target repository.
+   * The provider's pull request ref also covers pull requests from forks.
+   */
+  headRef: string;
+  /** Default branch reported by the provider */
+  defaultBranch: string;
+}
+
 // ============================================================================
 // Signature Verification Utilities
 // ============================================================================
@@ -43,7 +136,7 @@ const logger = pino({ name: 'webhook-routes' });
  * Verify GitHub webhook signature
  */
 function verifyGitHubSignature(
-  payload: string,
+  payload: Buffer,
   signature: string | undefined,
   secret: string
 ): boolean {
@@ -61,10 +154,7 @@ function verifyGitHubSignature(
     .update(payload)
     .digest('hex');
 
-  return crypto.timingSafeEqual(
-    Buffer.from(signature),
-    Buffer.from(expectedSignature)
-  );
+  return safeEqual(signature, expectedSignature);
 }
 
 /**
@@ -78,10 +168,47 @@ function verifyGitLabToken(
     return false;
   }
 
-  return crypto.timingSafeEqual(
-    Buffer.from(receivedToken),
-    Buffer.from(expectedToken)
-  );
+  return safeEqual(receivedToken, expectedToken);
+}
+
+/**
+ * Verify a GitLab webhook token against a registration.
+ * Registrations made before secrets were stored only have the hash.
+ */
+function verifyGitLabRegistration(
+  receivedToken: string | undefined,
+  registration: RepositoryWebhookEntity
+): boolean {
+  if (registration.secret !== undefined) {
+    return verifyGitLabToken(receivedToken, registration.secret);
+  }
+
+  if (!receivedToken) {
+    return false;
+  }
+
+  return safeEqual(hashSecret(receivedToken), registration.secretHash);
+}
+
+/**
+ * Constant-time string comparison that tolerates differing lengths
+ */
+function safeEqual(received: string, expected: string): boolean {
+  const receivedBuffer = Buffer.from(received);
+  const expectedBuffer = Buffer.from(expected);
+
+  if (receivedBuffer.length !== expectedBuffer.length) {
+    return false;
+  }
+
+  return crypto.timingSafeEqual(receivedBuffer, expectedBuffer);
+}
+
+/**
+ * Hash a webhook secret the way registrations store it
+ */
+function hashSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
 }
 
 /**
@@ -93,30 +220,54 @@ function extractBranchName(ref: string): string | null {
 }
 
 /**
- * Check if push affects IaC files
+ * Check whether pushes to a branch should trigger scans.
+ * Without a branch filter only the default branch is tracked.
+ */
+function isTrackedBranch(
+  branch: string,
+  registration: RepositoryWebhookEntity,
+  defaultBranch: string
+): boolean {
+  if (registration.branchFilter.length > 0) {
+    return registration.branchFilter.includes(branch);
+  }
+
+  return branch === (registration.defaultBranch ?? defaultBranch);
+}
+
+/**
+ * Collect the files changed and removed across a push, in commit order
  */
-function hasIaCChanges(commits: Array<{ added: string[]; modified: string[]; removed: string[] }>): boolean {
-  const iacPatterns = [
-    /\.tf$/,
-    /\.tfvars$/,
-    /\.yaml$/,
-    /\.yml$/,
-    /Chart\.yaml$/,
-    /values\.yaml$/,
-    /kustomization\.yaml$/,
-    /\.json$/, // CloudFormation
-  ];
+function collectChangedFiles(
+  commits: PushCommitChanges[]
+): { changedFiles: string[]; removedFiles: string[] } {
+  const changed = new Set<string>();
+  const removed = new Set<string>();
 
   for (const commit of commits) {
-    const allFiles = [...commit.added, ...commit.modified, ...commit.removed];
-    for (const file of allFiles) {
-      if (iacPatterns.some(pattern => pattern.test(file))) {
-        return true;
-      }
+    for (const file of [...commit.added, ...commit.modified]) {
+      changed.add(file);
+      removed.delete(file);
+    }
+    for (const file of commit.removed) {
+      removed.add(file);
+      changed.delete(file);
     }
   }
 
-  return false;
+  return {
+    changedFiles: Array.from(changed),
+    removedFiles: Array.from(removed),
+  };
+}
+
+/**
+ * Check if push affects files a registered parser reads
+ */
+function hasIaCChanges(commits: PushCommitChanges[]): boolean {
+  return commits.some(commit =>
+    [...commit.added, ...commit.modified, ...commit.removed].some(file => parserRegistry.supportsFile(file))
+  );
 }
 
 // ============================================================================
@@ -127,8 +278,240 @@ function hasIaCChanges(commits: Array<{ added: string[]; modified: string[]; rem
  * Webhook routes plugin
  */
 const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Promise<void> => {
+  // GitHub signs the bytes it sent, which re-serialising the parsed body
+  // does not reproduce; keep them for signature verification
+  fastify.addContentTypeParser('application/json', { parseAs: 'buffer' }, (request, body, done) => {
+    const rawBody = body as Buffer;
+    request.rawBody = rawBody;
+    try {
+      done(null, JSON.parse(rawBody.toString('utf8')));
+    } catch {
+      done(new ValidationError('Invalid JSON payload'), undefined);
+    }
+  });
+
+  // Get dependencies from fastify instance
+  const getWebhookRepository = (): IRepositoryWebhookRepository => {
+    const repo = (fastify as FastifyInstance & { webhookRepository?: IRepositoryWebhookRepository }).webhookRepository;
+    if (!repo) {
+      logger.error('Webhook repository not registered');
+      throw new Error('Webhook repository not available');
+    }
+    return repo;
+  };
+
+  const getScanRepository = (): IScanRepository => {
+    const repo = (fastify as FastifyInstance & { scanRepository?: IScanRepository }).scanRepository;
+    if (!repo) {
+      logger.error('Scan repository not registered');
+      throw new Error('Scan repository not available');
+    }
+    return repo;
+  };
+
+  const getScanQueue = (): IQueueService => {
+    const queue = (fastify as FastifyInstance & { scanQueue?: IQueueService }).scanQueue;
+    if (!queue) {
+      logger.error('Scan queue not registered');
+      throw new Error('Scan queue not available');
+    }
+    return queue;
+  };
+
+  /**
+   * Queue a scan for a verified push to a registered repository
+   */
+  const queueScan = async (
+    push: PushEvent,
+    registration: RepositoryWebhookEntity
+  ): Promise<WebhookAckResponse> => {
+    if (registration.repositoryId === undefined) {
+      logger.warn({
+        eventId: push.eventId,
+        repo: registration.repositoryFullName,
+      }, 'Webhook registration has no tracked repository');
+      return {
+        received: true,
+        eventId: push.eventId,
+        action: 'ignored',
+        reason: 'Repository is not tracked',
+      };
+    }
+
+    if (!isTrackedBranch(push.branch, registration, push.defaultBranch)) {
+      logger.debug({ eventId: push.eventId, branch: push.branch }, 'Ignoring push to untracked branch');
+      return {
+        received: true,
+        eventId: push.eventId,
+        action: 'ignored',
+        reason: `Branch '${push.branch}' is not tracked`,
+      };
+    }
+
+    // Incremental only when the push continues from the last scanned commit
+    const baseScan = await getScanRepository().getLatestCompletedForRef(
+      registration.repositoryId,
+      registration.tenantId,
+      push.branch
+    );
+
+    let incremental: IncrementalScanJob | undefined;
+    if (baseScan && push.commitsComplete && baseScan.commitSha === push.before) {
+      incremental = {
+        baseScanId: baseScan.id,
+        ...collectChangedFiles(push.commits),
+      };
+    }
+
+    const scanId = crypto.randomUUID();
+    const job = createScanExecuteJob(
+      scanId,
+      registration.tenantId,
+      registration.repositoryId,
+      push.branch,
+      push.after,
+      incremental,
+      {
+        source: 'webhook',
+        provider: push.provider,
+        deliveryId: push.eventId,
+      }
+    );
+
+    await getScanQueue().enqueue(SCAN_JOB_TYPES.EXECUTE_SCAN, job);
+
+    logger.info({
+      eventId: push.eventId,
+      scanId,
+      repositoryId: registration.repositoryId,
+      ref: push.branch,
+      commitSha: push.after,
+      baseScanId: incremental?.baseScanId,
+      changedFiles: incremental?.changedFiles.length,
+      removedFiles: incremental?.removedFiles.length,
+    }, 'Scan queued via webhook');
+
+    return {
+      received: true,
+      eventId: push.eventId,
+      action: 'queued',
+      scanId,
+    };
+  };
+
+  /**
+   * Queue an impact check for a verified pull request event
+   */
+  const queuePullRequestCheck = async (
+    pullRequest: PullRequestEvent,
+    registration: RepositoryWebhookEntity
+  ): Promise<WebhookAckResponse> => {
+    if (registration.repositoryId === undefined) {
+      logger.warn({
+        eventId: pullRequest.eventId,
+        repo: registration.repositoryFullName,
+      }, 'Webhook registration has no tracked repository');
+      return {
+        received: true,
+        eventId: pullRequest.eventId,
+        action: 'ignored',
+        reason: 'Repository is not tracked',
+      };
+    }
+
+    if (!isTrackedBranch(pullRequest.baseRef, registration, pullRequest.defaultBranch)) {
+      logger.debug({ eventId: pullRequest.eventId, baseRef: pullRequest.baseRef }, 'Ignoring pull request into untracked branch');
+      return {
+        received: true,
+        eventId: pullRequest.eventId,
+        action: 'ignored',
+        reason: `Branch '${pullRequest.baseRef}' is not tracked`,
+      };
+    }
+
+    const job = createPrImpactJob(
+      registration.tenantId,
+      registration.repositoryId,
+      {
+        number: pullRequest.number,
+        baseRef: pullRequest.baseRef,
+        headRef: pullRequest.headRef,
+      },
+      {
+        provider: pullRequest.provider,
+        deliveryId: pullRequest.eventId,
+      }
+    );
+
+    await getScanQueue().enqueue(SCAN_JOB_TYPES.PR_IMPACT, job);
+
+    logger.info({
+      eventId: pullRequest.eventId,
+      repositoryId: registration.repositoryId,
+      pullRequest: pullRequest.number,
+      baseRef: pullRequest.baseRef,
+    }, 'Pull request impact check queued via webhook');
+
+    return {
+      received: true,
+      eventId: pullRequest.eventId,
+      action: 'queued',
+    };
+  };
+
+  /**
+   * Find the registration whose secret signed a GitHub payload.
+   * Unregistered repositories fail like a bad signature, so callers cannot
+   * probe which repositories are registered.
+   */
+  const findGitHubRegistration = async (
+    request: FastifyRequest,
+    repositoryId: number,
+    signature: string | undefined,
+    deliveryId: string
+  ): Promise<RepositoryWebhookEntity> => {
+    const registrations = await getWebhookRepository().findActiveByProviderRepository(
+      'github',
+      String(repositoryId)
+    );
+
+    const rawBody = request.rawBody;
+    const registration = registrations.find(r =>
+      rawBody !== undefined && r.secret !== undefined && verifyGitHubSignature(rawBody, signature, r.secret)
+    );
+
+    if (!registration) {
+      logger.warn({ deliveryId, repoId: repositoryId, registrations: registrations.length }, 'Invalid webhook signature');
+      throw new UnauthorizedError('Invalid webhook signature');
+    }
+    return registration;
+  };
+
   /**
-   * POST /api/v1/webhooks/github - GitHub push webhook
+   * Find the registration whose token was sent with a GitLab payload.
+   * Unregistered projects fail like a bad token.
+   */
+  const findGitLabRegistration = async (
+    projectId: number,
+    token: string | undefined,
+    eventId: string
+  ): Promise<RepositoryWebhookEntity> => {
+    const registrations = await getWebhookRepository().findActiveByProviderRepository(
+      'gitlab',
+      String(projectId)
+    );
+
+    const registration = registrations.find(r => verifyGitLabRegistration(token, r));
+
+    if (!registration) {
+      logger.warn({ eventId, projectId, registrations: registrations.length }, 'Invalid webhook token');
+      throw new UnauthorizedError('Invalid webhook token');
+    }
+    return registration;
+  };
+
+  /**
+   * POST /api/v1/webhooks/github - GitHub push and pull request webhook
    */
   fastify.post<{
     Body: GitHubPushPayload;
@@ -140,7 +523,7 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
     };
   }>('/github', {
     schema: {
-      description: 'Receive GitHub push webhook events',
+      description: 'Receive GitHub push and pull request webhook events',
       tags: ['Webhooks'],
       // Note: We use permissive body schema since GitHub sends various event types
       body: Type.Unknown(),
@@ -150,18 +533,42 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
         401: ErrorResponseSchema,
       },
     },
-    // Skip auth middleware - webhooks use signature verification
-    config: {
-      rawBody: true, // Need raw body for signature verification
-    },
-  }, async (request, reply): Promise<WebhookAckResponse> => {
+  }, async (request): Promise<WebhookAckResponse> => {
     const eventType = request.headers['x-github-event'];
     const deliveryId = request.headers['x-github-delivery'] || crypto.randomUUID();
     const signature = request.headers['x-hub-signature-256'] || request.headers['x-hub-signature'];
 
     logger.info({ eventType, deliveryId }, 'Received GitHub webhook');
 
-    // Only process push events
+    if (eventType === 'pull_request') {
+      const payload = request.body as unknown;
+      if (!isGitHubPullRequestPayload(payload)) {
+        throw new ValidationError('Invalid GitHub pull request payload structure');
+      }
+
+      const registration = await findGitHubRegistration(request, payload.repository.id, signature, deliveryId);
+
+      if (!GITHUB_PULL_REQUEST_ACTIONS.has(payload.action)) {
+        return {
+          received: true,
+          eventId: deliveryId,
+          action: 'ignored',
+          reason: `Pull request action '${payload.action}' is not handled`,
+        };
+      }
+
+      const pullRequest = payload.pull_request;
+      return queuePullRequestCheck({
+        eventId: deliveryId,
+        provider: 'github',
+        number: pullRequest.number,
+        baseRef: pullRequest.base.ref,
+        headRef: `refs/pull/${pullRequest.number}/head`,
+        defaultBranch: payload.repository.default_branch,
+      }, registration);
+    }
+
+    // Only process push and pull request events
     if (eventType !== 'push') {
       logger.debug({ eventType, deliveryId }, 'Ignoring non-push event');
       return {
@@ -178,21 +585,12 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
       throw new ValidationError('Invalid GitHub push payload structure');
     }
 
-    // Get webhook secret for the repository
-    // TODO: Look up webhook secret from repository config
-    const webhookSecret = process.env.GITHUB_WEBHOOK_SECRET;
-
-    // Verify signature if secret is configured
-    if (webhookSecret) {
-      const rawBody = JSON.stringify(payload);
-      if (!verifyGitHubSignature(rawBody, signature, webhookSecret)) {
-        logger.warn({ deliveryId, repoId: payload.repository.id }, 'Invalid webhook signature');
-        throw new UnauthorizedError('Invalid webhook signature');
-      }
-    }
-
     // Extract repository info
     const repo = payload.repository;
+
+    // Look up the registration whose secret signed the payload
+    const registration = await findGitHubRegistration(request, repo.id, signature, deliveryId);
+
     const branch = extractBranchName(payload.ref);
 
     logger.info({
@@ -214,6 +612,15 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
       };
     }
 
+    if (!branch) {
+      return {
+        received: true,
+        eventId: deliveryId,
+        action: 'ignored',
+        reason: `Ref '${payload.ref}' is not a branch`,
+      };
+    }
+
     // Check if push contains IaC changes
     if (!hasIaCChanges(payload.commits)) {
       logger.debug({ deliveryId, branch }, 'No IaC file changes detected');
@@ -225,37 +632,17 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
       };
     }
 
-    // TODO: Look up repository in database
-    // const repository = await repositoryRepository.findByProviderId('github', String(repo.id));
-    // if (!repository) { ... }
-
-    // TODO: Trigger scan
-    // const scan = await scanService.startScan({
-    //   repositoryId: repository.id,
-    //   tenantId: repository.tenantId,
-    //   initiatedBy: 'webhook',
-    //   ref: branch || repo.default_branch,
-    //   commitSha: payload.after,
-    //   basePath: ...,
-    // });
-
-    // Mock scan trigger response
-    const scanId = crypto.randomUUID();
-
-    logger.info({
-      deliveryId,
-      scanId,
-      repo: repo.full_name,
-      ref: branch,
-      commitSha: payload.after,
-    }, 'Scan triggered via webhook');
-
-    return {
-      received: true,
+    return queueScan({
       eventId: deliveryId,
-      action: 'scan_triggered',
-      scanId,
-    };
+      provider: 'github',
+      branch,
+      before: payload.before,
+      after: payload.after,
+      commits: payload.commits,
+      // Force pushes rewrite history, so the commit list is not a diff
+      commitsComplete: !payload.forced,
+      defaultBranch: repo.default_branch,
+    }, registration);
   });
 
   /**
@@ -270,7 +657,7 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
     };
   }>('/gitlab', {
     schema: {
-      description: 'Receive GitLab push webhook events',
+      description: 'Receive GitLab push and merge request webhook events',
       tags: ['Webhooks'],
       body: Type.Unknown(),
       response: {
@@ -279,7 +666,7 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
         401: ErrorResponseSchema,
       },
     },
-  }, async (request, reply): Promise<WebhookAckResponse> => {
+  }, async (request): Promise<WebhookAckResponse> => {
     const eventType = request.headers['x-gitlab-event'];
     const token = request.headers['x-gitlab-token'];
     const instance = request.headers['x-gitlab-instance'];
@@ -287,6 +674,31 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
 
     logger.info({ eventType, instance, eventId }, 'Received GitLab webhook');
 
+    const body: unknown = request.body;
+    if (isGitLabMergeRequestPayload(body)) {
+      const payload = body;
+      const registration = await findGitLabRegistration(payload.project.id, token, eventId);
+      const mergeRequest = payload.object_attributes;
+
+      if (mergeRequest.state !== 'opened' || !GITLAB_MERGE_REQUEST_ACTIONS.has(mergeRequest.action ?? '')) {
+        return {
+          received: true,
+          eventId,
+          action: 'ignored',
+          reason: `Merge request action '${mergeRequest.action ?? mergeRequest.state}' is not handled`,
+        };
+      }
+
+      return queuePullRequestCheck({
+        eventId,
+        provider: 'gitlab',
+        number: mergeRequest.iid,
+        baseRef: mergeRequest.target_branch,
+        headRef: `refs/merge-requests/${mergeRequest.iid}/head`,
+        defaultBranch: payload.project.default_branch,
+      }, registration);
+    }
+
     // Validate payload structure
     const payload = request.body;
     if (!isGitLabPushPayload(payload)) {
@@ -302,17 +714,12 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
       throw new ValidationError('Invalid GitLab webhook payload structure');
     }
 
-    // Verify token if configured
-    // TODO: Look up webhook token from repository config
-    const webhookToken = process.env.GITLAB_WEBHOOK_TOKEN;
-
-    if (webhookToken && !verifyGitLabToken(token, webhookToken)) {
-      logger.warn({ eventId, projectId: payload.project_id }, 'Invalid webhook token');
-      throw new UnauthorizedError('Invalid webhook token');
-    }
-
     // Extract project info
     const project = payload.project;
+
+    // Look up the registration whose token was sent
+    const registration = await findGitLabRegistration(payload.project_id, token, eventId);
+
     const branch = extractBranchName(payload.ref);
 
     logger.info({
@@ -324,7 +731,7 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
     }, 'Processing GitLab push event');
 
     // Check if this is a branch deletion (after is all zeros)
-    if (payload.after === '0000000000000000000000000000000000000000') {
+    if (payload.after === NULL_COMMIT_SHA) {
       logger.debug({ eventId, branch }, 'Ignoring branch deletion');
       return {
         received: true,
@@ -334,6 +741,15 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
       };
     }
 
+    if (!branch) {
+      return {
+        received: true,
+        eventId,
+        action: 'ignored',
+        reason: `Ref '${payload.ref}' is not a branch`,
+      };
+    }
+
     // Check if push contains IaC changes
     if (!hasIaCChanges(payload.commits)) {
       logger.debug({ eventId, branch }, 'No IaC file changes detected');
@@ -345,31 +761,34 @@ const webhookRoutes: FastifyPluginAsync = async (fastify: FastifyInstance): Prom
       };
     }
 
-    // TODO: Look up repository in database
-    // const repository = await repositoryRepository.findByProviderId('gitlab', String(project.id));
-    // if (!repository) { ... }
-
-    // TODO: Trigger scan
-    // const scan = await scanService.startScan({ ... });
-
-    // Mock scan trigger response
-    const scanId = crypto.randomUUID();
-
-    logger.info({
-      eventId,
-      scanId,
-      project: project.path_with_namespace,
-      ref: branch,
-      commitSha: payload.after,
-    }, 'Scan triggered via GitLab webhook');
-
-    return {
-      received: true,
+    return queueScan({
       eventId,
-      action: 'scan_triggered',
-      scanId,
-    };
+      provider: 'gitlab',
+      branch,
+      before: payload.before,
+      after: payload.after,
+      commits: payload.commits,
+      // GitLab truncates the commit list on large pushes
+      commitsComplete: payload.commits.length >= payload.total_commits_count,
+      defaultBranch: project.default_branch,
+    }, registration);
   });
 };
 
 export default webhookRoutes;
+
+// ============================================================================
+// Type Declarations
+// ============================================================================
+
+declare module 'fastify' {
+  interface FastifyInstance {
+    webhookRepository?: IRepositoryWebhookRepository;
+    scanQueue?: IQueueService;
+  }
+
+  interface FastifyRequest {
+    /** Unparsed JSON body of webhook requests */
+    rawBody?: Buffer;
+  }
+}
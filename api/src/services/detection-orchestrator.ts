@@ -9,6 +9,7 @@
  * TASK-DETECT-002, 003, 004, 005: Detection pipeline orchestration
  */
 
+import * as path from 'path';
 import pino from 'pino';
 import {
   BaseDetector,
@@ -32,6 +33,57 @@ import {
   createDataSourceDetector,
 } from '../detectors/data-source-detector.js';
 import { moduleDetector, ModuleNode } from '../parsers/terraform/module-detector.js';
+import { mergeTerraformModules } from '../parsers/terraform/module-merger.js';
+import type { TerraformFile } from '../parsers/terraform/types.js';
+import {
+  createRemoteStateEdges,
+  getBackendIdentity,
+  getRemoteStateConsumers,
+  type RemoteStateConsumer,
+  type RemoteStateIdentity,
+} from '../parsers/terraform/remote-state.js';
+import { createInstanceGraph } from '../parsers/terraform/instance-expander.js';
+import { isTerraformVarsFile } from '../parsers/terraform/tfvars-parser.js';
+import {
+  createVarsFileSource,
+  findOwningModule,
+  getTerragruntEnvironment,
+  resolveVariableValues,
+  type EnvironmentVariableValues,
+  type VariableValueSource,
+} from '../parsers/terraform/variable-values.js';
+import { extractInputValues, extractLocalModuleDir } from '../parsers/terragrunt/metadata-extractor.js';
+import type { TerragruntFile } from '../parsers/terragrunt/types.js';
+import {
+  createK8sEdges,
+  type K8sNode,
+  type K8sParseResult,
+} from '../parsers/kubernetes/index.js';
+import {
+  createCfnCrossStackEdges,
+  type CfnNode,
+  type CfnParseResult,
+} from '../parsers/cloudformation/index.js';
+import {
+  createDockerImageEdges,
+  toDockerBuildStep,
+  type DockerBuildStep,
+  type DockerParseResult,
+} from '../parsers/docker/index.js';
+import type { GhaParseResult } from '../parsers/github-actions/types.js';
+import type { GitLabCIParseResult } from '../parsers/ci/types.js';
+import {
+  normalizeKustomizePath,
+  renderKustomizations,
+  type KustomizeParseResult,
+  type KustomizeRenderResult,
+} from '../parsers/kustomize/index.js';
+import {
+  collectHelmCharts,
+  createDefaultHelmRelease,
+  renderHelmRelease,
+} from '../parsers/helm/chart-renderer.js';
+import type { HelmChartFileParseResult } from '../parsers/helm/types.js';
 import { NodeType, GraphEdge, EdgeType } from '../types/graph.js';
 import { Evidence, EvidenceCollection } from '../types/evidence.js';
 import { ScanConfig } from '../types/entities.js';
@@ -273,7 +325,8 @@ export class DetectionOrchestrator implements IDetectionOrchestrator {
    */
   async detect(input: DetectionOrchestratorInput): Promise<DetectionOrchestratorResult> {
     const startTime = Date.now();
-    const { parsedFiles, basePath, config, onProgress } = input;
+    const { basePath, config, onProgress } = input;
+    const parsedFiles = this.mergeTerraformOverrides(input.parsedFiles);
 
     logger.info({ fileCount: parsedFiles.length }, 'Starting detection pipeline');
 
@@ -445,13 +498,77 @@ export class DetectionOrchestrator implements IDetectionOrchestrator {
       // ================================================================
       await updateProgress('evidence_collection', 0);
 
+      // Render Kustomize overlays against the scan's manifests; patch files are not resources
+      const kustomize = this.renderKustomizations(parsedFiles);
+
+      // Render Helm charts with their own values; templates are not manifests themselves
+      const helm = config.analyzeHelmCharts
+        ? this.renderHelmCharts(parsedFiles)
+        : { nodes: [], edges: [] };
+
       // Extract resource nodes from parsed ASTs
-      const resourceNodes = this.extractResourceNodes(parsedFiles, context);
+      const resourceNodes = this.extractResourceNodes(parsedFiles, context, kustomize.patchFiles);
+      const resourceIds = new Set(resourceNodes.map(n => n.id));
+      // Bases rendered unchanged map onto the nodes of their plain manifests
+      for (const node of [...kustomize.resourceNodes, ...helm.nodes]) {
+        if (context.existingNodes.has(node.id) || resourceIds.has(node.id)) continue;
+        resourceIds.add(node.id);
+        resourceNodes.push(node);
+      }
       nodes.push(...resourceNodes);
       for (const node of resourceNodes) {
         context.existingNodes.set(node.id, node);
       }
 
+      // Link Kubernetes objects across files (selectors, refs, RBAC)
+      const k8sEdges = createK8sEdges(
+        resourceNodes.filter((n): n is K8sNode => n.type.startsWith('k8s_'))
+      );
+      edges.push(...k8sEdges);
+      context.existingEdges.push(...k8sEdges);
+
+      // Kustomize: overlay -> base, kustomization -> rendered and patched resources
+      edges.push(...kustomize.edges);
+      context.existingEdges.push(...kustomize.edges);
+
+      // Helm: release -> resources its chart renders
+      edges.push(...helm.edges);
+      context.existingEdges.push(...helm.edges);
+
+      // CloudFormation: template-local edges plus ImportValue -> Export across stacks
+      const cfnEdges = [
+        ...this.extractCfnEdges(parsedFiles),
+        ...createCfnCrossStackEdges(
+          resourceNodes.filter((n): n is CfnNode => n.type.startsWith('cfn_'))
+        ),
+      ];
+      edges.push(...cfnEdges);
+      context.existingEdges.push(...cfnEdges);
+
+      // Dockerfiles: stage/base image edges plus workloads -> Dockerfile building their image
+      const dockerEdges = [
+        ...this.extractDockerEdges(parsedFiles),
+        ...createDockerImageEdges(resourceNodes, this.collectDockerBuildSteps(parsedFiles)),
+      ];
+      edges.push(...dockerEdges);
+      context.existingEdges.push(...dockerEdges);
+
+      // Terraform: outputs -> terraform_remote_state data sources reading their module's state
+      const remoteStateEdges = createRemoteStateEdges(nodes);
+      edges.push(...remoteStateEdges);
+      context.existingEdges.push(...remoteStateEdges);
+
+      // Terraform: count/for_each blocks -> instances, references -> the instances they select
+      if (config.expandTerraformInstances) {
+        const instances = this.expandTerraformInstances(parsedFiles, context);
+        nodes.push(...instances.nodes);
+        for (const node of instances.nodes) {
+          context.existingNodes.set(node.id, node);
+        }
+        edges.push(...instances.edges);
+        context.existingEdges.push(...instances.edges);
+      }
+
       await updateProgress('evidence_collection', 1);
 
       // ================================================================
@@ -729,9 +846,12 @@ export class DetectionOrchestrator implements IDetectionOrchestrator {
       };
 
       if (detectionResult.success) {
+        const consumers = this.getRemoteStateConsumers(parsedFiles);
+
         // Add nodes from detection result
         for (const node of detectionResult.nodes) {
-          nodes.push(node as NodeType);
+          const consumer = consumers.get(`${node.location.file}#${node.id}`);
+          nodes.push(consumer ? this.withRemoteStateConsumer(node as NodeType, consumer) : node as NodeType);
         }
         edges.push(...detectionResult.edges);
       }
@@ -782,16 +902,56 @@ export class DetectionOrchestrator implements IDetectionOrchestrator {
    */
   private extractResourceNodes(
     parsedFiles: ParsedFile[],
-    context: DetectionContext
+    context: DetectionContext,
+    kustomizePatchFiles: ReadonlySet<string> = new Set()
   ): NodeType[] {
     const nodes: NodeType[] = [];
+    // Base images are shared by every Dockerfile that references them
+    const dockerImageIds = new Set<string>();
+    const backends = this.getTerraformBackends(parsedFiles);
+    const variableValues = this.getTerraformVariableValues(parsedFiles);
 
     for (const file of parsedFiles) {
       try {
         if (file.type === 'terraform') {
-          const tfNodes = this.extractTerraformNodes(file, context);
+          const dir = path.dirname(file.path);
+          const tfNodes = this.extractTerraformNodes(
+            file,
+            context,
+            backends.get(dir) ?? null,
+            variableValues.get(dir) ?? null
+          );
           nodes.push(...tfNodes);
-        } else if (file.type === 'kubernetes' || file.type === 'helm') {
+        } else if (this.isCfnParseResult(file.ast)) {
+          for (const node of file.ast.nodes) {
+            if (context.existingNodes.has(node.id)) continue;
+            nodes.push(node);
+          }
+        } else if (this.isDockerParseResult(file.ast)) {
+          for (const node of file.ast.nodes) {
+            if (context.existingNodes.has(node.id) || dockerImageIds.has(node.id)) continue;
+            if (node.type === 'docker_image') dockerImageIds.add(node.id);
+            nodes.push(node);
+          }
+        } else if (this.isKustomizeParseResult(file.ast)) {
+          for (const node of file.ast.nodes) {
+            if (context.existingNodes.has(node.id)) continue;
+            nodes.push(node);
+          }
+        } else if (this.isK8sParseResult(file.ast) && kustomizePatchFiles.has(normalizeKustomizePath(file.path))) {
+          // Partial objects of Kustomize patches; their effect is on the rendered resources
+          continue;
+        } else if (this.isHelmChartFileParseResult(file.ast)) {
+          // Chart files only yield nodes once the whole chart is rendered
+          continue;
+        } else if (this.isCiParseResult(file.ast)) {
+          // CI pipelines only contribute the image builds they run
+          continue;
+        } else if (
+          file.type === 'kubernetes' ||
+          file.type === 'helm' ||
+          this.isK8sParseResult(file.ast)
+        ) {
           const k8sNodes = this.extractK8sNodes(file, context);
           nodes.push(...k8sNodes);
         }
@@ -805,10 +965,14 @@ export class DetectionOrchestrator implements IDetectionOrchestrator {
 
   /**
    * Extract nodes from Terraform files
+   * @param backend - State of the file's module; recorded on its outputs
+   * @param variableValues - Variable values of the file's module by environment
    */
   private extractTerraformNodes(
     file: ParsedFile,
-    _context: DetectionContext
+    _context: DetectionContext,
+    backend: RemoteStateIdentity | null = null,
+    variableValues: EnvironmentVariableValues | null = null
   ): NodeType[] {
     const nodes: NodeType[] = [];
     const ast = file.ast as {
@@ -862,6 +1026,7 @@ export class DetectionOrchestrator implements IDetectionOrchestrator {
           metadata: {
             default: block.attributes?.default,
             type: block.attributes?.type,
+            ...(variableValues ? this.getEnvironmentValues(variableValues, varName) : {}),
           },
         });
       } else if (block.type === 'output') {
@@ -882,6 +1047,7 @@ export class DetectionOrchestrator implements IDetectionOrchestrator {
           metadata: {
             value: block.attributes?.value,
             sensitive: block.attributes?.sensitive,
+            ...(backend ? { remoteState: backend.id, remoteStateBackend: backend.backend } : {}),
           },
         });
       } else if (block.type === 'locals') {
@@ -921,6 +1087,16 @@ export class DetectionOrchestrator implements IDetectionOrchestrator {
     _context: DetectionContext
   ): NodeType[] {
     const nodes: NodeType[] = [];
+
+    // Manifests parsed by the Kubernetes manifest parser carry typed nodes
+    if (this.isK8sParseResult(file.ast)) {
+      for (const node of file.ast.nodes) {
+        if (_context.existingNodes.has(node.id)) continue;
+        nodes.push(node);
+      }
+      return nodes;
+    }
+
     const ast = file.ast as {
       kind?: string;
       apiVersion?: string;
@@ -952,6 +1128,339 @@ export class DetectionOrchestrator implements IDetectionOrchestrator {
     return nodes;
   }
 
+  /**
+   * Check whether a parsed AST came from the Kubernetes manifest parser
+   */
+  private isK8sParseResult(ast: unknown): ast is K8sParseResult {
+    return (
+      typeof ast === 'object' &&
+      ast !== null &&
+      Array.isArray((ast as { manifests?: unknown }).manifests) &&
+      Array.isArray((ast as { nodes?: unknown }).nodes)
+    );
+  }
+
+  /**
+   * Check if AST is a parsed Terragrunt configuration
+   */
+  private isTerragruntFile(ast: unknown): ast is TerragruntFile {
+    return (
+      typeof ast === 'object' &&
+      ast !== null &&
+      Array.isArray((ast as { blocks?: unknown }).blocks) &&
+      Array.isArray((ast as { includes?: unknown }).includes) &&
+      Array.isArray((ast as { dependencies?: unknown }).dependencies)
+    );
+  }
+
+  /**
+   * Group parsed Terraform files by module directory
+   */
+  private groupTerraformModules(parsedFiles: ParsedFile[]): Map<string, TerraformFile[]> {
+    const modules = new Map<string, TerraformFile[]>();
+    for (const file of parsedFiles) {
+      if (file.type !== 'terraform' || !Array.isArray((file.ast as { blocks?: unknown })?.blocks)) continue;
+      const dir = path.dirname(file.path);
+      modules.set(dir, [...(modules.get(dir) ?? []), { ...(file.ast as TerraformFile), path: file.path }]);
+    }
+    return modules;
+  }
+
+  /**
+   * Resolve the state identity of each Terraform module directory
+   */
+  private getTerraformBackends(parsedFiles: ParsedFile[]): Map<string, RemoteStateIdentity | null> {
+    const backends = new Map<string, RemoteStateIdentity | null>();
+    for (const [dir, files] of this.groupTerraformModules(parsedFiles)) {
+      backends.set(dir, getBackendIdentity(files, dir));
+    }
+    return backends;
+  }
+
+  /**
+   * Resolve the variable values of each Terraform module directory by
+   * environment, from its variable files and the Terragrunt units using it
+   */
+  private getTerraformVariableValues(parsedFiles: ParsedFile[]): Map<string, EnvironmentVariableValues> {
+    const modules = this.groupTerraformModules(parsedFiles);
+    const sources = new Map<string, VariableValueSource[]>();
+    const addSource = (dir: string | null, source: VariableValueSource): void => {
+      if (dir === null || !modules.has(dir)) return;
+      sources.set(dir, [...(sources.get(dir) ?? []), source]);
+    };
+
+    const terragruntFiles = new Map<string, TerragruntFile>();
+    for (const file of parsedFiles) {
+      if (this.isTerragruntFile(file.ast)) {
+        terragruntFiles.set(file.path, { ...file.ast, path: file.path });
+      }
+    }
+
+    for (const file of parsedFiles) {
+      if (isTerraformVarsFile(file.ast)) {
+        const dir = findOwningModule(file.path, modules.keys());
+        if (dir !== null) addSource(dir, createVarsFileSource({ ...file.ast, path: file.path }, dir));
+      }
+    }
+
+    for (const unit of terragruntFiles.values()) {
+      const parents = unit.includes
+        .map(inc => (inc.resolvedPath !== null ? terragruntFiles.get(inc.resolvedPath) : undefined))
+        .filter((parent): parent is TerragruntFile => parent !== undefined);
+      addSource(extractLocalModuleDir(unit), {
+        kind: 'terragrunt',
+        path: unit.path,
+        environment: getTerragruntEnvironment(unit.path),
+        variables: extractInputValues(unit, parents),
+      });
+    }
+
+    const values = new Map<string, EnvironmentVariableValues>();
+    for (const [dir, files] of modules) {
+      values.set(dir, resolveVariableValues(files, sources.get(dir) ?? []));
+    }
+    return values;
+  }
+
+  /**
+   * Per-environment values and their source files of one variable
+   */
+  private getEnvironmentValues(
+    variableValues: EnvironmentVariableValues,
+    name: string
+  ): { values: Record<string, unknown>; valueSources: Record<string, string> } {
+    const values: Record<string, unknown> = {};
+    const valueSources: Record<string, string> = {};
+    for (const [environment, resolved] of variableValues) {
+      const entry = resolved[name];
+      if (!entry) continue;
+      values[environment] = entry.value;
+      valueSources[environment] = entry.source;
+    }
+    return { values, valueSources };
+  }
+
+  /**
+   * Expand the count/for_each blocks of each Terraform module into instance nodes
+   */
+  private expandTerraformInstances(
+    parsedFiles: ParsedFile[],
+    context: DetectionContext
+  ): { nodes: NodeType[]; edges: GraphEdge[] } {
+    const nodes: NodeType[] = [];
+    const edges: GraphEdge[] = [];
+    const ids = new Set<string>();
+    for (const files of this.groupTerraformModules(parsedFiles).values()) {
+      const instances = createInstanceGraph(files, context.existingNodes);
+      // Addresses repeated across module directories map onto the same nodes
+      for (const node of instances.nodes) {
+        if (context.existingNodes.has(node.id) || ids.has(node.id)) continue;
+        ids.add(node.id);
+        nodes.push(node);
+      }
+      edges.push(...instances.edges);
+    }
+    return { nodes, edges };
+  }
+
+  /**
+   * Collect terraform_remote_state data sources, keyed by file and address
+   */
+  private getRemoteStateConsumers(parsedFiles: ParsedFile[]): Map<string, RemoteStateConsumer> {
+    const consumers = new Map<string, RemoteStateConsumer>();
+    for (const [dir, files] of this.groupTerraformModules(parsedFiles)) {
+      for (const consumer of getRemoteStateConsumers(files, dir)) {
+        consumers.set(`${consumer.location.file}#${consumer.address}`, consumer);
+      }
+    }
+    return consumers;
+  }
+
+  /**
+   * Record the state a remote-state data source reads and the outputs used from it
+   */
+  private withRemoteStateConsumer(node: NodeType, consumer: RemoteStateConsumer): NodeType {
+    return {
+      ...node,
+      metadata: {
+        ...(node.metadata ?? {}),
+        remoteStateOutputs: consumer.outputs,
+        ...(consumer.identity
+          ? { remoteState: consumer.identity.id, remoteStateBackend: consumer.identity.backend }
+          : {}),
+      },
+    } as NodeType;
+  }
+
+  /**
+   * Merge the HCL and JSON files of each Terraform module, applying
+   * override files, so each block is seen once with its effective content
+   */
+  private mergeTerraformOverrides(parsedFiles: ParsedFile[]): ParsedFile[] {
+    const terraformFiles = parsedFiles.filter(
+      (f): f is ParsedFile<TerraformFile> =>
+        f.type === 'terraform' && Array.isArray((f.ast as { blocks?: unknown })?.blocks)
+    );
+    if (terraformFiles.length === 0) {
+      return parsedFiles;
+    }
+
+    const merged = mergeTerraformModules(terraformFiles.map(f => ({ ...f.ast, path: f.path })));
+    const byPath = new Map(merged.map(ast => [ast.path, ast]));
+
+    return parsedFiles.map(file => {
+      const ast = file.type === 'terraform' ? byPath.get(file.path) : undefined;
+      return ast ? { ...file, ast } : file;
+    });
+  }
+
+  /**
+   * Collect template-local edges from files parsed by the CloudFormation parser
+   */
+  private extractCfnEdges(parsedFiles: ParsedFile[]): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    for (const file of parsedFiles) {
+      if (this.isCfnParseResult(file.ast)) {
+        edges.push(...file.ast.edges);
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * Check whether a parsed AST came from the CloudFormation parser
+   */
+  private isCfnParseResult(ast: unknown): ast is CfnParseResult {
+    return (
+      typeof ast === 'object' &&
+      ast !== null &&
+      typeof (ast as { template?: unknown }).template === 'object' &&
+      Array.isArray((ast as { nodes?: unknown }).nodes)
+    );
+  }
+
+  /**
+   * Collect stage edges from files parsed by the Dockerfile parser
+   */
+  private extractDockerEdges(parsedFiles: ParsedFile[]): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    for (const file of parsedFiles) {
+      if (this.isDockerParseResult(file.ast)) {
+        edges.push(...file.ast.edges);
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * Check whether a parsed AST came from the Dockerfile parser
+   */
+  private isDockerParseResult(ast: unknown): ast is DockerParseResult {
+    return (
+      typeof ast === 'object' &&
+      ast !== null &&
+      typeof (ast as { dockerfile?: unknown }).dockerfile === 'object' &&
+      Array.isArray((ast as { nodes?: unknown }).nodes)
+    );
+  }
+
+  /**
+   * Collect image builds from files parsed by the GitHub Actions and GitLab CI parsers
+   */
+  private collectDockerBuildSteps(parsedFiles: ParsedFile[]): DockerBuildStep[] {
+    const steps: DockerBuildStep[] = [];
+    for (const file of parsedFiles) {
+      if (!this.isCiParseResult(file.ast)) continue;
+
+      for (const step of file.ast.dockerSteps) {
+        if (step.command !== 'build' && step.command !== 'buildx') continue;
+        const source = 'jobName' in step ? step.jobName : `${step.jobId}/${step.stepId ?? step.stepIndex}`;
+        steps.push(toDockerBuildStep(step, source));
+      }
+    }
+    return steps;
+  }
+
+  /**
+   * Check whether a parsed AST came from the GitHub Actions or GitLab CI parser
+   */
+  private isCiParseResult(ast: unknown): ast is GhaParseResult | GitLabCIParseResult {
+    return (
+      typeof ast === 'object' &&
+      ast !== null &&
+      Array.isArray((ast as { dockerSteps?: unknown }).dockerSteps) &&
+      Array.isArray((ast as { allToolSteps?: unknown }).allToolSteps)
+    );
+  }
+
+  /**
+   * Render every kustomization of the scan against its Kubernetes manifests
+   */
+  private renderKustomizations(parsedFiles: ParsedFile[]): KustomizeRenderResult {
+    const kustomizations = parsedFiles
+      .map(file => file.ast)
+      .filter((ast): ast is KustomizeParseResult => this.isKustomizeParseResult(ast))
+      .map(ast => ast.kustomization);
+    const manifests = parsedFiles
+      .map(file => file.ast)
+      .filter((ast): ast is K8sParseResult => this.isK8sParseResult(ast))
+      .flatMap(ast => ast.manifests);
+
+    const result = renderKustomizations(kustomizations, manifests);
+    if (result.warnings.length > 0) {
+      logger.debug({ warnings: result.warnings }, 'Kustomize rendering warnings');
+    }
+    return result;
+  }
+
+  /**
+   * Render every chart of the scan as a release with the chart's own values
+   */
+  private renderHelmCharts(parsedFiles: ParsedFile[]): { nodes: NodeType[]; edges: GraphEdge[] } {
+    const chartFiles = parsedFiles
+      .map(file => file.ast)
+      .filter((ast): ast is HelmChartFileParseResult => this.isHelmChartFileParseResult(ast))
+      .map(ast => ast.chartFile);
+
+    const nodes: NodeType[] = [];
+    const edges: GraphEdge[] = [];
+    for (const chart of collectHelmCharts(chartFiles)) {
+      // Library charts only provide named templates to other charts
+      if (chart.metadata.type === 'library') continue;
+
+      const result = renderHelmRelease(chart, createDefaultHelmRelease(chart));
+      if (result.warnings.length > 0) {
+        logger.debug({ chart: chart.directory, warnings: result.warnings }, 'Helm rendering warnings');
+      }
+      nodes.push(result.release, ...result.resourceNodes);
+      edges.push(...result.edges);
+    }
+    return { nodes, edges };
+  }
+
+  /**
+   * Check whether a parsed AST came from the Helm chart file parser
+   */
+  private isHelmChartFileParseResult(ast: unknown): ast is HelmChartFileParseResult {
+    return (
+      typeof ast === 'object' &&
+      ast !== null &&
+      typeof (ast as { chartFile?: unknown }).chartFile === 'object'
+    );
+  }
+
+  /**
+   * Check whether a parsed AST came from the Kustomize parser
+   */
+  private isKustomizeParseResult(ast: unknown): ast is KustomizeParseResult {
+    return (
+      typeof ast === 'object' &&
+      ast !== null &&
+      typeof (ast as { kustomization?: unknown }).kustomization === 'object' &&
+      Array.isArray((ast as { nodes?: unknown }).nodes)
+    );
+  }
+
   /**
    * Map reference type to edge type
    */
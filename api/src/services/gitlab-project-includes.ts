@@ -0,0 +1,191 @@
+/**
+ * GitLab Project Include Service
+ * Resolves GitLab CI `include: project` directives from the repository
+ * archives stored by repository-clone, without calling the GitLab API
+ * @module services/gitlab-project-includes
+ *
+ * TASK-GITLAB-006: Cross-Repository Project Includes
+ */
+
+import pino from 'pino';
+import { query } from '../db/connection.js';
+import { ScanStatus } from '../types/entities.js';
+import { buildRepoArchivePath } from './minio-client.js';
+import { readArchiveFiles } from './repository-clone.js';
+import {
+  GitLabIncludeResolver,
+  NodeFileSystemAdapter,
+  type GitLabApiAdapter,
+  type GitLabIncludeResolverOptions,
+  type GitLabProjectFileSource,
+} from '../parsers/ci/gitlab-include-resolver.js';
+
+const logger = pino({ name: 'gitlab-project-includes' });
+
+/**
+ * Archive of the latest completed scan of a project ref
+ */
+export interface ScannedProjectArchive {
+  /** Repository ID */
+  repositoryId: string;
+  /** Ref the scan ran on */
+  ref: string;
+  /** Commit SHA the scan ran on */
+  commitSha: string;
+  /** MinIO object path of the archive */
+  objectPath: string;
+}
+
+/**
+ * Finds the archive of a GitLab project path at a ref
+ */
+export interface ScannedProjectLocator {
+  /**
+   * @param project - Project path (group/subgroup/name)
+   * @param ref - Branch, tag or commit SHA; the default branch when omitted
+   * @returns The archive, or null if the project has no completed scan at the ref
+   */
+  locate(project: string, ref?: string): Promise<ScannedProjectArchive | null>;
+}
+
+/**
+ * Reads files from an archive, keyed by repository-relative path
+ */
+export type ArchiveFileReader = (
+  objectPath: string,
+  include: (filePath: string) => boolean
+) => Promise<Map<string, string>>;
+
+/**
+ * Locates project archives through the tenant's tracked repositories and scans
+ */
+export class DatabaseScannedProjectLocator implements ScannedProjectLocator {
+  constructor(private readonly tenantId: string) {}
+
+  async locate(project: string, ref?: string): Promise<ScannedProjectArchive | null> {
+    // GitLab subgroups are part of the owner
+    const repositories = await query<{ id: string; default_branch: string | null }>(
+      `SELECT id, default_branch FROM repositories
+       WHERE tenant_id = $1 AND provider = 'gitlab' AND LOWER(owner || '/' || name) = LOWER($2)
+       LIMIT 1`,
+      [this.tenantId, project.replace(/^\/+|\/+$/g, '')]
+    );
+    const repository = repositories.rows[0];
+    if (!repository) {
+      return null;
+    }
+
+    const targetRef = ref ?? repository.default_branch ?? 'main';
+    const scans = await query<{ ref: string; commit_sha: string }>(
+      `SELECT ref, commit_sha FROM scans
+       WHERE repository_id = $1 AND tenant_id = $2 AND status = $3 AND (ref = $4 OR commit_sha = $4)
+       ORDER BY completed_at DESC NULLS LAST, created_at DESC
+       LIMIT 1`,
+      [repository.id, this.tenantId, ScanStatus.COMPLETED, targetRef]
+    );
+    const scan = scans.rows[0];
+    if (!scan) {
+      return null;
+    }
+
+    return {
+      repositoryId: repository.id,
+      ref: targetRef,
+      commitSha: scan.commit_sha,
+      objectPath: buildRepoArchivePath(this.tenantId, repository.id, scan.commit_sha),
+    };
+  }
+}
+
+/**
+ * GitLab API adapter serving project files from stored repository archives.
+ * Each archive is read once; only YAML files are kept.
+ */
+export class ArchiveGitLabApiAdapter implements GitLabApiAdapter {
+  private readonly archives = new Map<string, Promise<ScannedProjectArchive | null>>();
+  private readonly files = new Map<string, Promise<Map<string, string>>>();
+
+  constructor(
+    private readonly locator: ScannedProjectLocator,
+    private readonly readFiles: ArchiveFileReader = readArchiveFiles
+  ) {}
+
+  async fetchProjectFile(project: string, file: string, ref?: string): Promise<string> {
+    const archive = await this.locate(project, ref);
+    if (!archive) {
+      throw new Error(`Project ${project} has no completed scan at ${ref ?? 'its default branch'}`);
+    }
+
+    const content = (await this.readArchive(archive)).get(normalizeFile(file));
+    if (content === undefined) {
+      throw new Error(`File ${file} not found in ${project}@${archive.ref}`);
+    }
+    return content;
+  }
+
+  async projectFileExists(project: string, file: string, ref?: string): Promise<boolean> {
+    return (await this.describeProjectFile(project, file, ref)) !== null;
+  }
+
+  async describeProjectFile(
+    project: string,
+    file: string,
+    ref?: string
+  ): Promise<GitLabProjectFileSource | null> {
+    const archive = await this.locate(project, ref);
+    if (!archive || !(await this.readArchive(archive)).has(normalizeFile(file))) {
+      return null;
+    }
+    return { repositoryId: archive.repositoryId, ref: archive.ref, commitSha: archive.commitSha };
+  }
+
+  private locate(project: string, ref?: string): Promise<ScannedProjectArchive | null> {
+    const key = `${project.toLowerCase()}@${ref ?? ''}`;
+    let archive = this.archives.get(key);
+    if (!archive) {
+      archive = this.locator.locate(project, ref);
+      this.archives.set(key, archive);
+    }
+    return archive;
+  }
+
+  private readArchive(archive: ScannedProjectArchive): Promise<Map<string, string>> {
+    let files = this.files.get(archive.objectPath);
+    if (!files) {
+      logger.debug({ objectPath: archive.objectPath }, 'Reading project archive');
+      files = this.readFiles(archive.objectPath, filePath => /\.ya?ml$/i.test(filePath));
+      // Failed reads are retried by the next include
+      files.catch(() => this.files.delete(archive.objectPath));
+      this.files.set(archive.objectPath, files);
+    }
+    return files;
+  }
+}
+
+/**
+ * Project file paths are relative to the project root with or without a leading slash
+ */
+function normalizeFile(file: string): string {
+  return file.replace(/^\/+/, '');
+}
+
+/**
+ * Create an include resolver that reads local includes from disk and
+ * project includes from the tenant's stored archives. Remote and template
+ * includes stay disabled unless enabled in the options.
+ * @param tenantId - Tenant whose repositories project includes resolve to
+ * @param options - Resolver options
+ * @param locator - Archive locator (default: tracked repositories and scans)
+ */
+export function createScannedProjectIncludeResolver(
+  tenantId: string,
+  options: GitLabIncludeResolverOptions = {},
+  locator: ScannedProjectLocator = new DatabaseScannedProjectLocator(tenantId)
+): GitLabIncludeResolver {
+  return new GitLabIncludeResolver(
+    new NodeFileSystemAdapter(),
+    { ...options, resolveProject: true },
+    undefined,
+    new ArchiveGitLabApiAdapter(locator)
+  );
+}
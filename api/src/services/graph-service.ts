@@ -271,7 +271,8 @@ export interface IGraphService {
    */
   analyzeImpact(
     graph: DependencyGraph,
-    nodeIds: string[]
+    nodeIds: string[],
+    maxDepth?: number
   ): ImpactAnalysisResult;
 
   /**
@@ -520,7 +521,8 @@ export class GraphService implements IGraphService {
    */
   analyzeImpact(
     graph: DependencyGraph,
-    nodeIds: string[]
+    nodeIds: string[],
+    maxDepth = 10
   ): ImpactAnalysisResult {
     const directImpact: NodeType[] = [];
     const transitiveImpact: NodeType[] = [];
@@ -533,7 +535,7 @@ export class GraphService implements IGraphService {
     // Find direct and transitive impact for each changed node
     for (const nodeId of nodeIds) {
       const downstream = this.getDownstream(graph, nodeId, {
-        maxDepth: 10,
+        maxDepth,
         includeStart: false,
       });
 
@@ -21,6 +21,11 @@ export {
   type ScanEventType,
   type ProgressCallback,
   type DiscoveredFile,
+  type ScanCheckpoint,
+  type CheckpointDetection,
+  type IncrementalScanInput,
+  type ScanGraphSnapshot,
+  mergeIncrementalGraph,
   ScanServiceError,
   type ScanServiceErrorCode,
   DEFAULT_SCAN_SERVICE_CONFIG,
@@ -100,6 +105,36 @@ export {
   DEFAULT_SCORING_SERVICE_CONFIG,
 } from './scoring-service.js';
 
+// PR Impact Gate - Pull request dependency impact checks
+export {
+  PrImpactGate,
+  createPrImpactGate,
+  type IRefCheckout,
+  type RefCheckout,
+  type PrImpactGateConfig,
+  type PrImpactThresholds,
+  type PrImpactRiskLevel,
+  type PrImpactInput,
+  type PrImpactResult,
+  type PrImpactSummary,
+  type PrImpactVerdict,
+  type PullRequestRefs,
+  type ChangedNode,
+  type ChangedDependency,
+  type ImpactedNode,
+  type CrossToolImpact,
+  PrImpactGateError,
+  type PrImpactGateErrorCode,
+  PR_IMPACT_RISK_LEVELS,
+  DEFAULT_PR_IMPACT_THRESHOLDS,
+  DEFAULT_PR_IMPACT_GATE_CONFIG,
+} from './pr-impact-gate.js';
+export {
+  renderPrImpactReport,
+  type PrImpactReportOptions,
+  PR_IMPACT_COMMENT_MARKER,
+} from './pr-impact-report.js';
+
 // Rollup Service - Cross-Repository Aggregation
 export {
   // Service interface
@@ -286,6 +321,42 @@ export {
   securityAuditService,
 } from './security-audit.service.js';
 
+// Outbound Webhooks - Event subscriptions for rollup and scan events (TASK-WEBHOOK-OUT)
+export {
+  WebhookDispatcher,
+  WebhookRollupEventEmitter,
+  WebhookScanEventEmitter,
+  WebhookDeliveryService,
+  WebhookSubscriptionService,
+  createWebhookDispatcher,
+  createWebhookDeliveryService,
+  createWebhookSubscriptionService,
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_HEADERS,
+  type IWebhookDispatcher,
+  type IWebhookSubscriptionService,
+  type IWebhookSubscriptionRepository,
+  type WebhookEvent,
+  type WebhookEventPayload,
+} from './webhooks/index.js';
+
+// Progress Streams - Server-sent scan and rollup execution progress (TASK-PROGRESS-SSE)
+export {
+  ProgressStreamService,
+  ProgressStreamScanEventEmitter,
+  ProgressStreamRollupEventEmitter,
+  RedisProgressStreamStore,
+  InMemoryProgressStreamStore,
+  createProgressStreamService,
+  createRedisProgressStreamStore,
+  createInMemoryProgressStreamStore,
+  writeProgressStream,
+  type IProgressStreamService,
+  type IProgressStreamStore,
+  type ProgressStreamEvent,
+} from './progress-stream/index.js';
+
 // ============================================================================
 // Documentation System Services (TASK-FINAL-004)
 // ============================================================================
@@ -8,6 +8,7 @@
  * TASK-DETECT-001: Parser orchestration for IaC dependency detection
  */
 
+import { readFile } from 'fs/promises';
 import pino from 'pino';
 import {
   IParser,
@@ -62,7 +63,7 @@ export interface FileInput {
   /** File path */
   readonly path: string;
   /** File type hint */
-  readonly type: 'terraform' | 'kubernetes' | 'helm' | 'cloudformation' | 'unknown';
+  readonly type: 'terraform' | 'kubernetes' | 'helm' | 'cloudformation' | 'dockerfile' | 'unknown';
   /** Optional file content (if already loaded) */
   readonly content?: string;
 }
@@ -382,7 +383,10 @@ export class ParserOrchestrator implements IParserOrchestrator {
     file: FileInput,
     options?: ParserOptions
   ): Promise<ParseResult<T>> {
-    const parser = this.registry.getParser<T>(file.path);
+    const content = file.content ?? await this.readContentForSelection(file.path);
+    const parser = this.registry.getParser<T>(
+      content !== undefined ? { filePath: file.path, content } : file.path
+    );
 
     if (!parser) {
       return {
@@ -406,8 +410,8 @@ export class ParserOrchestrator implements IParserOrchestrator {
       };
     }
 
-    if (file.content !== undefined) {
-      return parser.parse(file.content, file.path, options);
+    if (content !== undefined) {
+      return parser.parse(content, file.path, options);
     }
 
     return parser.parseFile(file.path, options);
@@ -431,6 +435,23 @@ export class ParserOrchestrator implements IParserOrchestrator {
   // Private Methods
   // ============================================================================
 
+  /**
+   * Read file content when several parsers claim the file's extension
+   * (e.g. Kubernetes and CloudFormation YAML), so the registry can pick by content
+   */
+  private async readContentForSelection(filePath: string): Promise<string | undefined> {
+    if (this.registry.getAllParsers({ filePath }).length < 2) {
+      return undefined;
+    }
+
+    try {
+      return await readFile(filePath, 'utf-8');
+    } catch {
+      // Let the selected parser report the read error
+      return undefined;
+    }
+  }
+
   /**
    * Filter files based on configuration
    */
@@ -443,10 +464,11 @@ export class ParserOrchestrator implements IParserOrchestrator {
           kubernetes: 'kubernetes',
           helm: 'helm',
           cloudformation: 'cloudformation',
+          dockerfile: 'dockerfile',
         };
 
         const configType = typeMap[file.type];
-        if (configType && !config.detectTypes.includes(configType as 'terraform' | 'kubernetes' | 'helm' | 'cloudformation')) {
+        if (configType && !config.detectTypes.includes(configType as 'terraform' | 'kubernetes' | 'helm' | 'cloudformation' | 'dockerfile')) {
           return false;
         }
       }
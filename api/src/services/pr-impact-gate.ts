@@ -0,0 +1,783 @@
+/**
+ * Pull Request Impact Gate
+ * @module services/pr-impact-gate
+ *
+ * Scans the base and head refs of a pull request, diffs the two graphs with
+ * the GraphDiffEngine and runs the BlastRadiusEngine over the changed nodes.
+ * The outcome is checked against configurable thresholds, rendered as a
+ * markdown report and can be posted to the pull request as a comment and a
+ * commit status through a git adapter.
+ */
+
+import pino from 'pino';
+import {
+  ScanId,
+  RepositoryId,
+  TenantId,
+  UserId,
+} from '../types/entities.js';
+import { DependencyGraph, GraphEdge, NodeType } from '../types/graph.js';
+import {
+  MergedNode,
+  BlastRadiusResponse,
+  createRollupExecutionId,
+} from '../types/rollup.js';
+import { Result, success, failure } from '../types/utility.js';
+import type { IScanService } from './scan-service.js';
+import {
+  GraphDiffEngine,
+  createGraphDiffEngine,
+} from './rollup/graph-diff/graph-diff-engine.js';
+import {
+  GraphDiffResult,
+  GraphSnapshot,
+  NodeDiff,
+  EdgeDiff,
+  createGraphSnapshotId,
+} from './rollup/graph-diff/interfaces.js';
+import {
+  BlastRadiusEngine,
+  createBlastRadiusEngine,
+} from './rollup/blast-radius-engine.js';
+import { classifyNodeTool } from '../rollup/cross-tool-rollup.js';
+import type { ToolType } from '../rollup/types.js';
+import type {
+  GitAdapter,
+  Repository,
+  PullRequestComment,
+} from '../adapters/git/interface.js';
+import { renderPrImpactReport, PR_IMPACT_COMMENT_MARKER } from './pr-impact-report.js';
+
+const logger = pino({ name: 'pr-impact-gate' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Blast radius risk level
+ */
+export type PrImpactRiskLevel = BlastRadiusResponse['summary']['riskLevel'];
+
+/**
+ * Risk levels from lowest to highest
+ */
+export const PR_IMPACT_RISK_LEVELS: readonly PrImpactRiskLevel[] = ['low', 'medium', 'high', 'critical'];
+
+/**
+ * Thresholds that decide the gate verdict.
+ * A null threshold is not checked.
+ */
+export interface PrImpactThresholds {
+  /** Fail when the blast radius risk is at or above this level */
+  readonly failOnRiskLevel: PrImpactRiskLevel | null;
+  /** Fail when more downstream nodes than this are impacted */
+  readonly maxImpactedNodes: number | null;
+  /** Fail when more nodes than this are removed */
+  readonly maxRemovedNodes: number | null;
+  /** Fail when the change impacts nodes of another tool */
+  readonly failOnCrossToolImpact: boolean;
+}
+
+/**
+ * Default thresholds: only critical risk fails the gate
+ */
+export const DEFAULT_PR_IMPACT_THRESHOLDS: PrImpactThresholds = {
+  failOnRiskLevel: 'critical',
+  maxImpactedNodes: null,
+  maxRemovedNodes: null,
+  failOnCrossToolImpact: false,
+};
+
+/**
+ * Impact gate configuration
+ */
+export interface PrImpactGateConfig {
+  /** Default thresholds, overridable per evaluation */
+  readonly thresholds: PrImpactThresholds;
+  /** Maximum blast radius traversal depth */
+  readonly maxDepth: number;
+  /** Commit status context */
+  readonly statusContext: string;
+  /** Maximum rows per table in the markdown report */
+  readonly maxReportRows: number;
+}
+
+/**
+ * Default impact gate configuration
+ */
+export const DEFAULT_PR_IMPACT_GATE_CONFIG: PrImpactGateConfig = {
+  thresholds: DEFAULT_PR_IMPACT_THRESHOLDS,
+  maxDepth: 5,
+  statusContext: 'dmp/impact',
+  maxReportRows: 50,
+};
+
+/**
+ * Checked-out working copy of a ref
+ */
+export interface RefCheckout {
+  /** Path to the checked-out files */
+  readonly basePath: string;
+  /** Commit SHA the ref resolved to */
+  readonly commitSha: string;
+  /** Remove the working copy */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Checks out repository refs for scanning
+ */
+export interface IRefCheckout {
+  /**
+   * Check out a ref of a repository into a temporary working copy
+   */
+  checkout(repositoryId: RepositoryId, ref: string): Promise<RefCheckout>;
+}
+
+/**
+ * Pull request to evaluate
+ */
+export interface PullRequestRefs {
+  /** Pull request number (merge request IID on GitLab) */
+  readonly number: number;
+  /** Target branch */
+  readonly baseRef: string;
+  /** Source branch */
+  readonly headRef: string;
+}
+
+/**
+ * Impact gate input
+ */
+export interface PrImpactInput {
+  readonly tenantId: TenantId;
+  readonly repositoryId: RepositoryId;
+  readonly initiatedBy: UserId;
+  readonly pullRequest: PullRequestRefs;
+  /** Threshold overrides for this evaluation */
+  readonly thresholds?: Partial<PrImpactThresholds>;
+}
+
+/**
+ * Node added, removed or modified by the pull request
+ */
+export interface ChangedNode {
+  readonly changeType: 'added' | 'removed' | 'modified';
+  readonly nodeId: string;
+  readonly nodeType: string;
+  readonly name: string;
+  readonly file: string;
+  readonly line: number;
+  /** Number of changed attributes (modified nodes only) */
+  readonly attributesChanged: number;
+}
+
+/**
+ * Dependency (edge) added, removed or modified by the pull request
+ */
+export interface ChangedDependency {
+  readonly changeType: 'added' | 'removed' | 'modified';
+  readonly edgeType: string;
+  readonly sourceType: string;
+  readonly sourceName: string;
+  readonly targetType: string;
+  readonly targetName: string;
+}
+
+/**
+ * Downstream node impacted by the pull request
+ */
+export interface ImpactedNode {
+  readonly nodeId: string;
+  readonly nodeType: string;
+  readonly name: string;
+  /** Hops from the nearest changed node */
+  readonly depth: number;
+}
+
+/**
+ * Impact that crosses from one tool to another,
+ * e.g. a Terraform output consumed by a Helm release
+ */
+export interface CrossToolImpact {
+  readonly fromTool: ToolType;
+  readonly fromType: string;
+  readonly fromName: string;
+  readonly toTool: ToolType;
+  readonly toType: string;
+  readonly toName: string;
+  readonly edgeType: string;
+}
+
+/**
+ * Blast radius of the changed nodes
+ */
+export interface PrImpactSummary {
+  readonly directCount: number;
+  readonly indirectCount: number;
+  readonly totalImpacted: number;
+  readonly riskLevel: PrImpactRiskLevel;
+  readonly impactScore: number;
+  readonly impactedNodes: ImpactedNode[];
+}
+
+/**
+ * Gate verdict
+ */
+export interface PrImpactVerdict {
+  readonly passed: boolean;
+  /** Thresholds that were exceeded */
+  readonly reasons: string[];
+  /** Thresholds applied */
+  readonly thresholds: PrImpactThresholds;
+}
+
+/**
+ * Impact gate result
+ */
+export interface PrImpactResult {
+  readonly pullRequest: PullRequestRefs;
+  readonly baseScanId: ScanId;
+  readonly headScanId: ScanId;
+  readonly baseCommitSha: string;
+  readonly headCommitSha: string;
+  readonly changedNodes: ChangedNode[];
+  readonly changedDependencies: ChangedDependency[];
+  readonly impact: PrImpactSummary;
+  readonly crossToolImpacts: CrossToolImpact[];
+  readonly verdict: PrImpactVerdict;
+  /** Markdown report */
+  readonly report: string;
+}
+
+/**
+ * Impact gate error
+ */
+export class PrImpactGateError extends Error {
+  constructor(
+    message: string,
+    public readonly code: PrImpactGateErrorCode,
+    public readonly details?: Record<string, unknown>
+  ) {
+    super(message);
+    this.name = 'PrImpactGateError';
+  }
+}
+
+/**
+ * Impact gate error codes
+ */
+export type PrImpactGateErrorCode =
+  | 'CHECKOUT_FAILED'
+  | 'SCAN_FAILED'
+  | 'DIFF_FAILED'
+  | 'INTERNAL_ERROR';
+
+/**
+ * Scanned ref
+ */
+interface ScannedRef {
+  readonly ref: string;
+  readonly scanId: ScanId;
+  readonly commitSha: string;
+  readonly graph: DependencyGraph;
+}
+
+// ============================================================================
+// Impact Gate Implementation
+// ============================================================================
+
+/**
+ * Pull request impact gate
+ */
+export class PrImpactGate {
+  private readonly config: PrImpactGateConfig;
+
+  constructor(
+    private readonly scanService: IScanService,
+    private readonly refCheckout: IRefCheckout,
+    private readonly diffEngine: GraphDiffEngine = createGraphDiffEngine(),
+    config: Partial<PrImpactGateConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_PR_IMPACT_GATE_CONFIG, ...config };
+  }
+
+  /**
+   * Scan both refs of a pull request and evaluate the impact of the change
+   */
+  async evaluate(input: PrImpactInput): Promise<Result<PrImpactResult, PrImpactGateError>> {
+    const { pullRequest } = input;
+    const thresholds: PrImpactThresholds = { ...this.config.thresholds, ...input.thresholds };
+
+    logger.info(
+      { repositoryId: input.repositoryId, pullRequest: pullRequest.number, baseRef: pullRequest.baseRef, headRef: pullRequest.headRef },
+      'Evaluating pull request impact'
+    );
+
+    try {
+      const base = await this.scanRef(input, pullRequest.baseRef);
+      const head = await this.scanRef(input, pullRequest.headRef);
+
+      const diff = await this.computeDiff(input.tenantId, base, head);
+
+      const changedNodes = collectChangedNodes(diff);
+      const changedDependencies = collectChangedDependencies(diff);
+      const { impact, crossToolImpacts } = await this.analyzeImpact(input.repositoryId, base, head, diff);
+      const verdict = evaluateThresholds(thresholds, changedNodes, impact, crossToolImpacts);
+
+      const partial: Omit<PrImpactResult, 'report'> = {
+        pullRequest,
+        baseScanId: base.scanId,
+        headScanId: head.scanId,
+        baseCommitSha: base.commitSha,
+        headCommitSha: head.commitSha,
+        changedNodes,
+        changedDependencies,
+        impact,
+        crossToolImpacts,
+        verdict,
+      };
+
+      logger.info(
+        {
+          pullRequest: pullRequest.number,
+          changedNodes: changedNodes.length,
+          impacted: impact.totalImpacted,
+          riskLevel: impact.riskLevel,
+          passed: verdict.passed,
+        },
+        'Pull request impact evaluated'
+      );
+
+      return success({
+        ...partial,
+        report: renderPrImpactReport(partial, { maxRows: this.config.maxReportRows }),
+      });
+    } catch (error) {
+      if (error instanceof PrImpactGateError) {
+        logger.warn({ pullRequest: pullRequest.number, code: error.code, err: error }, 'Pull request impact evaluation failed');
+        return failure(error);
+      }
+
+      logger.error({ pullRequest: pullRequest.number, err: error }, 'Pull request impact evaluation failed');
+      return failure(new PrImpactGateError(
+        error instanceof Error ? error.message : String(error),
+        'INTERNAL_ERROR'
+      ));
+    }
+  }
+
+  /**
+   * Post or update the report comment and set the commit status on the head commit
+   */
+  async publish(
+    adapter: GitAdapter,
+    repo: Repository,
+    result: PrImpactResult,
+    options: { targetUrl?: string } = {}
+  ): Promise<PullRequestComment> {
+    const comment = await adapter.upsertPullRequestComment(
+      repo,
+      result.pullRequest.number,
+      result.report,
+      PR_IMPACT_COMMENT_MARKER
+    );
+
+    const targetUrl = options.targetUrl ?? comment.url ?? undefined;
+    await adapter.setCommitStatus(repo, result.headCommitSha, {
+      state: result.verdict.passed ? 'success' : 'failure',
+      context: this.config.statusContext,
+      description: describeResult(result),
+      ...(targetUrl !== undefined && { targetUrl }),
+    });
+
+    logger.info(
+      { repo: repo.fullName, pullRequest: result.pullRequest.number, passed: result.verdict.passed, commentCreated: comment.created },
+      'Pull request impact report published'
+    );
+
+    return comment;
+  }
+
+  /**
+   * Check out and fully scan a ref
+   */
+  private async scanRef(input: PrImpactInput, ref: string): Promise<ScannedRef> {
+    let checkout: RefCheckout;
+    try {
+      checkout = await this.refCheckout.checkout(input.repositoryId, ref);
+    } catch (error) {
+      throw new PrImpactGateError(
+        `Failed to check out ${ref}: ${error instanceof Error ? error.message : String(error)}`,
+        'CHECKOUT_FAILED',
+        { ref }
+      );
+    }
+
+    try {
+      const result = await this.scanService.startScan({
+        repositoryId: input.repositoryId,
+        tenantId: input.tenantId,
+        initiatedBy: input.initiatedBy,
+        ref,
+        commitSha: checkout.commitSha,
+        basePath: checkout.basePath,
+      });
+
+      if (!result.success) {
+        throw new PrImpactGateError(
+          `Scan of ${ref} failed: ${result.error.message}`,
+          'SCAN_FAILED',
+          { ref, scanCode: result.error.code }
+        );
+      }
+
+      if (!result.value.graph) {
+        throw new PrImpactGateError(
+          `Scan of ${ref} produced no graph (status ${result.value.status})`,
+          'SCAN_FAILED',
+          { ref, scanId: result.value.scanId }
+        );
+      }
+
+      return {
+        ref,
+        scanId: result.value.scanId,
+        commitSha: checkout.commitSha,
+        graph: result.value.graph,
+      };
+    } finally {
+      await checkout.cleanup().catch((error: unknown) => {
+        logger.warn({ ref, err: error }, 'Failed to clean up checkout');
+      });
+    }
+  }
+
+  /**
+   * Diff the base and head graphs
+   */
+  private async computeDiff(
+    tenantId: TenantId,
+    base: ScannedRef,
+    head: ScannedRef
+  ): Promise<GraphDiffResult> {
+    const snapshot = (scanned: ScannedRef, version: number): GraphSnapshot => ({
+      id: createGraphSnapshotId(scanned.scanId),
+      tenantId,
+      scanId: scanned.scanId,
+      graph: scanned.graph,
+      createdAt: new Date(),
+      version,
+    });
+
+    try {
+      return await this.diffEngine.computeDiff(snapshot(base, 1), snapshot(head, 2));
+    } catch (error) {
+      throw new PrImpactGateError(
+        `Graph diff failed: ${error instanceof Error ? error.message : String(error)}`,
+        'DIFF_FAILED',
+        { baseScanId: base.scanId, headScanId: head.scanId }
+      );
+    }
+  }
+
+  /**
+   * Run blast radius analysis over the changed nodes.
+   * Added and modified nodes are analyzed in the head graph, removed nodes
+   * in the base graph.
+   */
+  private async analyzeImpact(
+    repositoryId: RepositoryId,
+    base: ScannedRef,
+    head: ScannedRef,
+    diff: GraphDiffResult
+  ): Promise<{ impact: PrImpactSummary; crossToolImpacts: CrossToolImpact[] }> {
+    const headChanged = [...diff.nodeDiffs.added, ...diff.nodeDiffs.modified]
+      .map(d => d.targetNode?.id)
+      .filter((id): id is string => id !== undefined);
+    const baseChanged = diff.nodeDiffs.removed
+      .map(d => d.baseNode?.id)
+      .filter((id): id is string => id !== undefined);
+
+    const engine = createBlastRadiusEngine();
+    const analyses = [
+      await this.analyzeGraph(engine, repositoryId, head, headChanged),
+      await this.analyzeGraph(engine, repositoryId, base, baseChanged),
+    ].filter((a): a is GraphAnalysis => a !== null);
+
+    const impacted = new Map<string, ImpactedNode>();
+    let riskLevel: PrImpactRiskLevel = 'low';
+    let impactScore = 0;
+    const crossToolImpacts: CrossToolImpact[] = [];
+    const crossToolKeys = new Set<string>();
+
+    for (const { graph, changed, response } of analyses) {
+      for (const entry of [...response.directImpact, ...response.indirectImpact]) {
+        const existing = impacted.get(entry.nodeId);
+        if (!existing || entry.depth < existing.depth) {
+          impacted.set(entry.nodeId, {
+            nodeId: entry.nodeId,
+            nodeType: entry.nodeType,
+            name: entry.nodeName,
+            depth: entry.depth,
+          });
+        }
+      }
+      impactScore += response.summary.impactScore;
+      if (PR_IMPACT_RISK_LEVELS.indexOf(response.summary.riskLevel) > PR_IMPACT_RISK_LEVELS.indexOf(riskLevel)) {
+        riskLevel = response.summary.riskLevel;
+      }
+
+      const reached = new Set([
+        ...response.directImpact.map(e => e.nodeId),
+        ...response.indirectImpact.map(e => e.nodeId),
+      ]);
+      for (const crossTool of findCrossToolImpacts(graph, new Set(changed), reached)) {
+        const key = `${crossTool.fromType}:${crossTool.fromName}->${crossTool.toType}:${crossTool.toName}:${crossTool.edgeType}`;
+        if (!crossToolKeys.has(key)) {
+          crossToolKeys.add(key);
+          crossToolImpacts.push(crossTool);
+        }
+      }
+    }
+
+    const impactedNodes = Array.from(impacted.values())
+      .sort((a, b) => a.depth - b.depth || a.nodeType.localeCompare(b.nodeType) || a.name.localeCompare(b.name));
+    const directCount = impactedNodes.filter(n => n.depth === 1).length;
+
+    return {
+      impact: {
+        directCount,
+        indirectCount: impactedNodes.length - directCount,
+        totalImpacted: impactedNodes.length,
+        riskLevel,
+        impactScore: Math.round(impactScore * 100) / 100,
+        impactedNodes,
+      },
+      crossToolImpacts,
+    };
+  }
+
+  /**
+   * Run blast radius analysis for changed nodes of one graph
+   */
+  private async analyzeGraph(
+    engine: BlastRadiusEngine,
+    repositoryId: RepositoryId,
+    scanned: ScannedRef,
+    changed: string[]
+  ): Promise<GraphAnalysis | null> {
+    if (changed.length === 0) {
+      return null;
+    }
+
+    const executionId = createRollupExecutionId(`pr-impact-${scanned.scanId}`);
+    const nodes = Array.from(scanned.graph.nodes.values());
+
+    // Graph edges point from the dependent node to its dependency; the engine
+    // walks edges forward, so they are reversed to reach dependents.
+    const reversed: GraphEdge[] = scanned.graph.edges.map(edge => ({
+      ...edge,
+      source: edge.target,
+      target: edge.source,
+    }));
+
+    engine.registerGraph(
+      executionId,
+      nodes.map(node => toMergedNode(node, repositoryId)),
+      reversed,
+      new Map([[repositoryId, repositoryId]])
+    );
+
+    try {
+      const response = await engine.analyze(executionId, {
+        nodeIds: changed,
+        maxDepth: this.config.maxDepth,
+        includeCrossRepo: true,
+        includeIndirect: true,
+      });
+      return { graph: scanned.graph, changed, response };
+    } finally {
+      engine.clearGraphData(executionId);
+    }
+  }
+}
+
+/**
+ * Blast radius analysis of one graph
+ */
+interface GraphAnalysis {
+  readonly graph: DependencyGraph;
+  readonly changed: string[];
+  readonly response: BlastRadiusResponse;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Wrap a scan node as a single-source merged node for the blast radius engine
+ */
+function toMergedNode(node: NodeType, repositoryId: RepositoryId): MergedNode {
+  return {
+    id: node.id,
+    sourceNodeIds: [node.id],
+    sourceRepoIds: [repositoryId],
+    type: node.type,
+    name: node.name,
+    locations: [{
+      repoId: repositoryId,
+      file: node.location.file,
+      lineStart: node.location.lineStart,
+      lineEnd: node.location.lineEnd,
+    }],
+    metadata: node.metadata,
+    matchInfo: { strategy: 'name', confidence: 100, matchCount: 1 },
+  };
+}
+
+/**
+ * Flatten node diffs into changed nodes
+ */
+function collectChangedNodes(diff: GraphDiffResult): ChangedNode[] {
+  const toChanged = (d: NodeDiff, changeType: ChangedNode['changeType']): ChangedNode => {
+    const node = d.targetNode ?? d.baseNode;
+    return {
+      changeType,
+      nodeId: d.identity.nodeId,
+      nodeType: d.identity.nodeType,
+      name: d.identity.name,
+      file: node?.location.file ?? '',
+      line: node?.location.lineStart ?? 0,
+      attributesChanged: d.attributeChanges?.length ?? 0,
+    };
+  };
+
+  return [
+    ...diff.nodeDiffs.added.map(d => toChanged(d, 'added')),
+    ...diff.nodeDiffs.removed.map(d => toChanged(d, 'removed')),
+    ...diff.nodeDiffs.modified.map(d => toChanged(d, 'modified')),
+  ];
+}
+
+/**
+ * Flatten edge diffs into changed dependencies
+ */
+function collectChangedDependencies(diff: GraphDiffResult): ChangedDependency[] {
+  const toChanged = (d: EdgeDiff, changeType: ChangedDependency['changeType']): ChangedDependency => ({
+    changeType,
+    edgeType: d.identity.edgeType,
+    sourceType: d.identity.sourceIdentity.nodeType,
+    sourceName: d.identity.sourceIdentity.name,
+    targetType: d.identity.targetIdentity.nodeType,
+    targetName: d.identity.targetIdentity.name,
+  });
+
+  return [
+    ...diff.edgeDiffs.added.map(d => toChanged(d, 'added')),
+    ...diff.edgeDiffs.removed.map(d => toChanged(d, 'removed')),
+    ...diff.edgeDiffs.modified.map(d => toChanged(d, 'modified')),
+  ];
+}
+
+/**
+ * Find dependency edges through which the impact crosses from one tool to
+ * another: the dependency is changed or impacted, the dependent is impacted
+ * and the two belong to different tools.
+ */
+function findCrossToolImpacts(
+  graph: DependencyGraph,
+  changed: ReadonlySet<string>,
+  impacted: ReadonlySet<string>
+): CrossToolImpact[] {
+  const impacts: CrossToolImpact[] = [];
+
+  for (const edge of graph.edges) {
+    const dependency = graph.nodes.get(edge.target);
+    const dependent = graph.nodes.get(edge.source);
+    if (!dependency || !dependent || !impacted.has(dependent.id)) {
+      continue;
+    }
+    if (!changed.has(dependency.id) && !impacted.has(dependency.id)) {
+      continue;
+    }
+
+    const fromTool = classifyNodeTool(dependency.type);
+    const toTool = classifyNodeTool(dependent.type);
+    if (fromTool === toTool) {
+      continue;
+    }
+
+    impacts.push({
+      fromTool,
+      fromType: dependency.type,
+      fromName: dependency.name,
+      toTool,
+      toType: dependent.type,
+      toName: dependent.name,
+      edgeType: edge.type,
+    });
+  }
+
+  return impacts;
+}
+
+/**
+ * Check the result against the thresholds
+ */
+function evaluateThresholds(
+  thresholds: PrImpactThresholds,
+  changedNodes: readonly ChangedNode[],
+  impact: PrImpactSummary,
+  crossToolImpacts: readonly CrossToolImpact[]
+): PrImpactVerdict {
+  const reasons: string[] = [];
+
+  if (
+    thresholds.failOnRiskLevel !== null &&
+    PR_IMPACT_RISK_LEVELS.indexOf(impact.riskLevel) >= PR_IMPACT_RISK_LEVELS.indexOf(thresholds.failOnRiskLevel)
+  ) {
+    reasons.push(`Risk level ${impact.riskLevel} is at or above ${thresholds.failOnRiskLevel}`);
+  }
+
+  if (thresholds.maxImpactedNodes !== null && impact.totalImpacted > thresholds.maxImpactedNodes) {
+    reasons.push(`${impact.totalImpacted} downstream nodes impacted, limit is ${thresholds.maxImpactedNodes}`);
+  }
+
+  const removed = changedNodes.filter(n => n.changeType === 'removed').length;
+  if (thresholds.maxRemovedNodes !== null && removed > thresholds.maxRemovedNodes) {
+    reasons.push(`${removed} nodes removed, limit is ${thresholds.maxRemovedNodes}`);
+  }
+
+  if (thresholds.failOnCrossToolImpact && crossToolImpacts.length > 0) {
+    reasons.push(`${crossToolImpacts.length} cross-tool impacts`);
+  }
+
+  return { passed: reasons.length === 0, reasons, thresholds };
+}
+
+/**
+ * One-line result description for the commit status
+ */
+function describeResult(result: PrImpactResult): string {
+  const { impact, changedNodes, verdict } = result;
+  const outcome = verdict.passed ? 'Passed' : 'Failed';
+  return `${outcome}: ${changedNodes.length} changed, ${impact.totalImpacted} downstream impacted, risk ${impact.riskLevel}`;
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new pull request impact gate
+ */
+export function createPrImpactGate(
+  scanService: IScanService,
+  refCheckout: IRefCheckout,
+  config?: Partial<PrImpactGateConfig>
+): PrImpactGate {
+  return new PrImpactGate(scanService, refCheckout, createGraphDiffEngine(), config);
+}
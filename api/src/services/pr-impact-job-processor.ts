@@ -0,0 +1,113 @@
+/**
+ * Pull Request Impact Job Processor
+ * @module services/pr-impact-job-processor
+ *
+ * Executes `pr-impact` jobs queued by pull request webhooks: runs the
+ * impact gate on both refs of the pull request and reports the result as a
+ * pull request comment and a commit status on the head commit.
+ */
+
+import pino from 'pino';
+import {
+  createTenantId,
+  createRepositoryId,
+  type TenantId,
+  type RepositoryId,
+  type GitProvider,
+} from '../types/entities.js';
+import type { GitAdapter } from '../adapters/git/interface.js';
+import type { PrImpactJobPayload } from '../queues/scan-jobs.js';
+import type { PrImpactGate, PrImpactResult } from './pr-impact-gate.js';
+import type { RepositoryCloneSource } from './repository-clone.js';
+import { ScanJobError, WEBHOOK_SCAN_INITIATOR } from './scan-job-processor.js';
+
+const logger = pino({ name: 'pr-impact-job-processor' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Dependencies required by PrImpactJobProcessor
+ */
+export interface PrImpactJobProcessorDependencies {
+  /** Create the impact gate checking out refs of the tenant's repositories */
+  readonly createGate: (tenantId: TenantId) => Pick<PrImpactGate, 'evaluate' | 'publish'>;
+  /** Resolve the provider and path of a tracked repository */
+  readonly findCloneSource: (
+    tenantId: TenantId,
+    repositoryId: RepositoryId
+  ) => Promise<RepositoryCloneSource | null>;
+  /** Create an adapter for a provider; null when no credentials are configured */
+  readonly createGitAdapter: (provider: GitProvider) => GitAdapter | null;
+}
+
+// ============================================================================
+// Processor Implementation
+// ============================================================================
+
+/**
+ * Runs pull request impact checks for queue jobs.
+ * Independent of the queue transport so it can be driven by BullMQ workers or tests.
+ */
+export class PrImpactJobProcessor {
+  constructor(private readonly deps: PrImpactJobProcessorDependencies) {}
+
+  /**
+   * Process a `pr-impact` job
+   * @throws ScanJobError when the check cannot be run or reported
+   */
+  async processPrImpactJob(payload: PrImpactJobPayload): Promise<PrImpactResult> {
+    const tenantId = createTenantId(payload.tenantId);
+    const repositoryId = createRepositoryId(payload.repositoryId);
+
+    const source = await this.deps.findCloneSource(tenantId, repositoryId);
+    if (!source) {
+      throw new ScanJobError(`Repository ${repositoryId} not found`, false, 'REPOSITORY_NOT_FOUND');
+    }
+
+    // Checked before scanning so a check that cannot be reported is not run
+    const adapter = this.deps.createGitAdapter(source.provider);
+    if (!adapter) {
+      throw new ScanJobError(
+        `No credentials configured to report to ${source.provider}`,
+        false,
+        'PROVIDER_NOT_CONFIGURED'
+      );
+    }
+
+    const gate = this.deps.createGate(tenantId);
+    const evaluation = await gate.evaluate({
+      tenantId,
+      repositoryId,
+      initiatedBy: WEBHOOK_SCAN_INITIATOR,
+      pullRequest: payload.pullRequest,
+    });
+
+    if (!evaluation.success) {
+      throw new ScanJobError(evaluation.error.message, true, evaluation.error.code);
+    }
+
+    const repo = await adapter.getRepository(source.owner, source.name);
+    await gate.publish(adapter, repo, evaluation.value);
+
+    logger.info({
+      repositoryId,
+      pullRequest: payload.pullRequest.number,
+      passed: evaluation.value.verdict.passed,
+    }, 'Pull request impact check reported');
+
+    return evaluation.value;
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new PrImpactJobProcessor instance
+ */
+export function createPrImpactJobProcessor(deps: PrImpactJobProcessorDependencies): PrImpactJobProcessor {
+  return new PrImpactJobProcessor(deps);
+}
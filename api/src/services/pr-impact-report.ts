@@ -0,0 +1,166 @@
+/**
+ * Pull Request Impact Report
+ * @module services/pr-impact-report
+ *
+ * Renders a pull request impact gate result as a markdown comment.
+ */
+
+import type { PrImpactResult } from './pr-impact-gate.js';
+
+/**
+ * Hidden marker identifying the impact report comment, so later runs update
+ * the same comment instead of posting a new one
+ */
+export const PR_IMPACT_COMMENT_MARKER = '<!-- dmp-pr-impact-report -->';
+
+/**
+ * Report rendering options
+ */
+export interface PrImpactReportOptions {
+  /** Maximum rows per table; the rest are summarized */
+  readonly maxRows: number;
+}
+
+/**
+ * Render an impact gate result as markdown
+ */
+export function renderPrImpactReport(
+  result: Omit<PrImpactResult, 'report'>,
+  options: PrImpactReportOptions
+): string {
+  const { pullRequest, changedNodes, changedDependencies, impact, crossToolImpacts, verdict } = result;
+  const count = <T extends { changeType: string }>(items: readonly T[], changeType: string): number =>
+    items.filter(item => item.changeType === changeType).length;
+
+  const lines: string[] = [
+    PR_IMPACT_COMMENT_MARKER,
+    `## Dependency impact: ${verdict.passed ? 'passed' : 'failed'}`,
+    '',
+    `Base \`${pullRequest.baseRef}\` (${shortSha(result.baseCommitSha)}) compared with ` +
+      `head \`${pullRequest.headRef}\` (${shortSha(result.headCommitSha)}).`,
+    '',
+    '| | Added | Removed | Modified |',
+    '|---|---|---|---|',
+    `| Nodes | ${count(changedNodes, 'added')} | ${count(changedNodes, 'removed')} | ${count(changedNodes, 'modified')} |`,
+    `| Dependencies | ${count(changedDependencies, 'added')} | ${count(changedDependencies, 'removed')} | ${count(changedDependencies, 'modified')} |`,
+    '',
+    `**Blast radius:** ${impact.totalImpacted} downstream nodes ` +
+      `(${impact.directCount} direct, ${impact.indirectCount} indirect), ` +
+      `risk **${impact.riskLevel}**, impact score ${impact.impactScore}.`,
+  ];
+
+  if (!verdict.passed) {
+    lines.push('', '### Failed checks', '', ...verdict.reasons.map(reason => `- ${reason}`));
+  }
+
+  if (crossToolImpacts.length > 0) {
+    lines.push(
+      '',
+      '### Cross-tool impacts',
+      '',
+      ...renderTable(
+        ['From', 'To', 'Via'],
+        crossToolImpacts.map(c => [
+          `${c.fromTool}: ${code(c.fromType)} ${code(c.fromName)}`,
+          `${c.toTool}: ${code(c.toType)} ${code(c.toName)}`,
+          code(c.edgeType),
+        ]),
+        options.maxRows
+      )
+    );
+  }
+
+  if (changedNodes.length > 0) {
+    lines.push(
+      '',
+      '### Changed nodes',
+      '',
+      ...renderTable(
+        ['Change', 'Type', 'Name', 'Location'],
+        changedNodes.map(n => [
+          n.changeType,
+          code(n.nodeType),
+          code(n.name),
+          n.file ? `${n.file}:${n.line}` : '-',
+        ]),
+        options.maxRows
+      )
+    );
+  }
+
+  if (changedDependencies.length > 0) {
+    lines.push(
+      '',
+      '### Changed dependencies',
+      '',
+      ...renderTable(
+        ['Change', 'Dependent', 'Dependency', 'Edge'],
+        changedDependencies.map(d => [
+          d.changeType,
+          `${code(d.sourceType)} ${code(d.sourceName)}`,
+          `${code(d.targetType)} ${code(d.targetName)}`,
+          code(d.edgeType),
+        ]),
+        options.maxRows
+      )
+    );
+  }
+
+  if (impact.impactedNodes.length > 0) {
+    lines.push(
+      '',
+      '### Impacted downstream nodes',
+      '',
+      ...renderTable(
+        ['Depth', 'Type', 'Name'],
+        impact.impactedNodes.map(n => [String(n.depth), code(n.nodeType), code(n.name)]),
+        options.maxRows
+      )
+    );
+  }
+
+  if (changedNodes.length === 0 && changedDependencies.length === 0) {
+    lines.push('', 'No infrastructure dependency changes detected.');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render a markdown table, truncated to maxRows
+ */
+function renderTable(headers: readonly string[], rows: readonly string[][], maxRows: number): string[] {
+  const shown = rows.slice(0, maxRows);
+  const lines = [
+    `| ${headers.join(' | ')} |`,
+    `|${headers.map(() => '---').join('|')}|`,
+    ...shown.map(row => `| ${row.map(escapeCell).join(' | ')} |`),
+  ];
+
+  if (rows.length > shown.length) {
+    lines.push('', `_…and ${rows.length - shown.length} more._`);
+  }
+
+  return lines;
+}
+
+/**
+ * Format a value as inline code
+ */
+function code(value: string): string {
+  return `\`${value.replace(/`/g, "'")}\``;
+}
+
+/**
+ * Escape characters that would break a table cell
+ */
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Abbreviate a commit SHA
+ */
+function shortSha(sha: string): string {
+  return sha.slice(0, 7);
+}
@@ -0,0 +1,91 @@
+/**
+ * Progress Stream Emitter Adapters Unit Tests
+ * @module services/progress-stream/__tests__/progress-stream-emitters.test
+ *
+ * Tests for recording scan and rollup execution events in progress streams.
+ */
+
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  ProgressStreamScanEventEmitter,
+  ProgressStreamRollupEventEmitter,
+} from '../progress-stream-emitters.js';
+import type { IProgressStreamService } from '../interfaces.js';
+import { createInMemoryEventEmitter } from '../../rollup/rollup-event-emitter.js';
+import { createTenantId, type ScanId } from '../../../types/entities.js';
+
+describe('Progress stream emitter adapters', () => {
+  let progressStream: {
+    [K in keyof IProgressStreamService]: ReturnType<typeof vi.fn<IProgressStreamService[K]>>;
+  };
+
+  const tenantId = createTenantId(randomUUID());
+  const timestamp = new Date('2026-10-18T08:00:00Z');
+
+  beforeEach(() => {
+    progressStream = {
+      publishScanEvent: vi.fn<IProgressStreamService['publishScanEvent']>(async (_t, _s, event) => ({ id: '1', ...event })),
+      publishExecutionEvent: vi.fn<IProgressStreamService['publishExecutionEvent']>(async (_t, _e, event) => ({ id: '1', ...event })),
+      openScanStream: vi.fn<IProgressStreamService['openScanStream']>(),
+      openExecutionStream: vi.fn<IProgressStreamService['openExecutionStream']>(),
+    };
+  });
+
+  describe('ProgressStreamScanEventEmitter', () => {
+    it('should record scan events in the stream of their scan', async () => {
+      const scanId = randomUUID() as ScanId;
+      const inner = { emit: vi.fn() };
+      const emitter = new ProgressStreamScanEventEmitter(progressStream, inner);
+      const progress = { phase: 'detecting', filesProcessed: 12, nodesDetected: 40, edgesDetected: 31 };
+
+      await emitter.emit({ type: 'scan.progress', scanId, tenantId, timestamp, data: { progress } });
+      await emitter.emit({ type: 'scan.completed', scanId, timestamp, data: {} });
+
+      expect(inner.emit).toHaveBeenCalledTimes(2);
+      expect(progressStream.publishScanEvent).toHaveBeenCalledTimes(1);
+      expect(progressStream.publishScanEvent).toHaveBeenCalledWith(tenantId, scanId, {
+        type: 'progress',
+        timestamp: '2026-10-18T08:00:00.000Z',
+        data: { scanId, progress },
+      });
+    });
+
+    it('should not fail the scan when recording fails', async () => {
+      progressStream.publishScanEvent.mockRejectedValue(new Error('Redis unavailable'));
+      const emitter = new ProgressStreamScanEventEmitter(progressStream);
+
+      await expect(emitter.emit({
+        type: 'scan.failed',
+        scanId: randomUUID() as ScanId,
+        tenantId,
+        timestamp,
+        data: {},
+      })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('ProgressStreamRollupEventEmitter', () => {
+    it('should record execution events in the stream of their execution', async () => {
+      const inner = createInMemoryEventEmitter();
+      const emitter = new ProgressStreamRollupEventEmitter(inner, progressStream);
+
+      await emitter.emit({
+        type: 'rollup.execution.progress',
+        rollupId: 'rollup_1',
+        tenantId,
+        timestamp,
+        data: { executionId: 'exec_1', phase: 'merging', mergedNodes: 120 },
+      });
+      await emitter.emit({ type: 'rollup.updated', rollupId: 'rollup_1', tenantId, timestamp, data: {} });
+
+      expect(inner.getEvents()).toHaveLength(2);
+      expect(progressStream.publishExecutionEvent).toHaveBeenCalledTimes(1);
+      expect(progressStream.publishExecutionEvent).toHaveBeenCalledWith(tenantId, 'exec_1', {
+        type: 'progress',
+        timestamp: '2026-10-18T08:00:00.000Z',
+        data: { rollupId: 'rollup_1', executionId: 'exec_1', phase: 'merging', mergedNodes: 120 },
+      });
+    });
+  });
+});
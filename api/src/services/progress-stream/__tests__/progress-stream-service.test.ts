@@ -0,0 +1,132 @@
+/**
+ * Progress Stream Service Unit Tests
+ * @module services/progress-stream/__tests__/progress-stream-service.test
+ *
+ * Tests for replaying and following progress streams.
+ */
+
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ProgressStreamService, isTerminalProgressEvent } from '../progress-stream-service.js';
+import { InMemoryProgressStreamStore } from '../progress-stream-store.js';
+import type { IProgressStreamSubscription, ProgressStreamEvent, ProgressStreamEventInput } from '../interfaces.js';
+import { createTenantId } from '../../../types/entities.js';
+
+/**
+ * Collect events until the subscription ends
+ */
+async function collect(subscription: IProgressStreamSubscription): Promise<ProgressStreamEvent[]> {
+  const events: ProgressStreamEvent[] = [];
+  for await (const event of subscription) {
+    events.push(event);
+  }
+  return events;
+}
+
+function progressEvent(filesProcessed: number): ProgressStreamEventInput {
+  return {
+    type: 'progress',
+    timestamp: '2026-10-18T08:00:00.000Z',
+    data: { progress: { phase: 'parsing', filesProcessed } },
+  };
+}
+
+const completedEvent: ProgressStreamEventInput = {
+  type: 'completed',
+  timestamp: '2026-10-18T08:01:00.000Z',
+  data: { durationMs: 60000 },
+};
+
+describe('ProgressStreamService', () => {
+  let store: InMemoryProgressStreamStore;
+  let service: ProgressStreamService;
+
+  const tenantId = createTenantId(randomUUID());
+  const scanId = randomUUID();
+
+  beforeEach(() => {
+    store = new InMemoryProgressStreamStore();
+    service = new ProgressStreamService(store);
+  });
+
+  it('should follow live events until a terminal event', async () => {
+    const subscription = await service.openScanStream(tenantId, scanId);
+    const received = collect(subscription);
+
+    await service.publishScanEvent(tenantId, scanId, progressEvent(1));
+    await service.publishScanEvent(tenantId, scanId, progressEvent(2));
+    await service.publishScanEvent(tenantId, scanId, completedEvent);
+    await service.publishScanEvent(tenantId, scanId, progressEvent(3));
+
+    const events = await received;
+    expect(events.map((e) => e.type)).toEqual(['progress', 'progress', 'completed']);
+    expect(events[1]!.data).toEqual({ progress: { phase: 'parsing', filesProcessed: 2 } });
+  });
+
+  it('should replay events recorded after the last event ID before live events', async () => {
+    const first = await service.publishScanEvent(tenantId, scanId, progressEvent(1));
+    await service.publishScanEvent(tenantId, scanId, progressEvent(2));
+
+    const subscription = await service.openScanStream(tenantId, scanId, { lastEventId: first.id });
+    await service.publishScanEvent(tenantId, scanId, completedEvent);
+
+    const events = await collect(subscription);
+    expect(events.map((e) => e.data.progress ?? e.type)).toEqual([
+      { phase: 'parsing', filesProcessed: 2 },
+      'completed',
+    ]);
+  });
+
+  it('should not repeat events recorded while the replay is read', async () => {
+    const first = await service.publishScanEvent(tenantId, scanId, progressEvent(1));
+    const readAfter = store.readAfter.bind(store);
+    store.readAfter = async (streamKey, lastEventId) => {
+      // Recorded after subscribing, so it is both live and in the replay buffer
+      await service.publishScanEvent(tenantId, scanId, progressEvent(2));
+      return readAfter(streamKey, lastEventId);
+    };
+
+    const subscription = await service.openScanStream(tenantId, scanId, { lastEventId: first.id });
+    await service.publishScanEvent(tenantId, scanId, completedEvent);
+
+    const events = await collect(subscription);
+    expect(events.map((e) => e.type)).toEqual(['progress', 'completed']);
+  });
+
+  it('should keep streams of scans, executions and tenants apart', async () => {
+    const subscription = await service.openScanStream(tenantId, scanId);
+    const received = collect(subscription);
+
+    await service.publishExecutionEvent(tenantId, scanId, progressEvent(1));
+    await service.publishScanEvent(createTenantId(randomUUID()), scanId, progressEvent(2));
+    await service.publishScanEvent(tenantId, scanId, completedEvent);
+
+    expect((await received).map((e) => e.type)).toEqual(['completed']);
+  });
+
+  it('should end iteration and stop receiving events when closed', async () => {
+    const subscription = await service.openExecutionStream(tenantId, 'exec_1');
+    const received = collect(subscription);
+
+    await service.publishExecutionEvent(tenantId, 'exec_1', progressEvent(1));
+    subscription.close();
+    await service.publishExecutionEvent(tenantId, 'exec_1', progressEvent(2));
+
+    expect(await received).toHaveLength(1);
+  });
+
+  describe('isTerminalProgressEvent', () => {
+    it('should treat snapshots as terminal only for terminal statuses', () => {
+      const snapshot = (status: string): ProgressStreamEventInput => ({
+        type: 'snapshot',
+        timestamp: '2026-10-18T08:00:00.000Z',
+        data: { status },
+      });
+
+      expect(isTerminalProgressEvent(snapshot('running'))).toBe(false);
+      expect(isTerminalProgressEvent(snapshot('cancelled'))).toBe(true);
+      expect(isTerminalProgressEvent(completedEvent)).toBe(true);
+      expect(isTerminalProgressEvent(progressEvent(1))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Server-Sent Events Writer Unit Tests
+ * @module services/progress-stream/__tests__/sse.test
+ *
+ * Tests for event serialization and writing progress streams to responses.
+ */
+
+import { EventEmitter } from 'events';
+import type { ServerResponse } from 'http';
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { formatServerSentEvent, writeProgressStream, SSE_HEADERS } from '../sse.js';
+import { ProgressStreamService } from '../progress-stream-service.js';
+import { InMemoryProgressStreamStore } from '../progress-stream-store.js';
+import { createTenantId } from '../../../types/entities.js';
+
+/**
+ * Response double recording what is written
+ */
+class RecordingResponse extends EventEmitter {
+  statusCode = 0;
+  headers: Record<string, unknown> = {};
+  body = '';
+  writableEnded = false;
+
+  setHeader(name: string, value: unknown): void {
+    this.headers[name] = value;
+  }
+
+  writeHead(statusCode: number, headers: Record<string, unknown>): void {
+    this.statusCode = statusCode;
+    this.headers = { ...this.headers, ...headers };
+  }
+
+  write(chunk: string): boolean {
+    this.body += chunk;
+    return true;
+  }
+
+  end(): void {
+    this.writableEnded = true;
+  }
+}
+
+describe('Server-sent events', () => {
+  let service: ProgressStreamService;
+  let response: RecordingResponse;
+
+  const tenantId = createTenantId(randomUUID());
+  const scanId = randomUUID();
+
+  beforeEach(() => {
+    service = new ProgressStreamService(new InMemoryProgressStreamStore());
+    response = new RecordingResponse();
+  });
+
+  it('should format recorded events with their ID and snapshots without', () => {
+    expect(formatServerSentEvent({
+      id: '7',
+      type: 'progress',
+      timestamp: '2026-10-18T08:00:00.000Z',
+      data: { filesProcessed: 3 },
+    })).toBe('id: 7\nevent: progress\ndata: {"timestamp":"2026-10-18T08:00:00.000Z","filesProcessed":3}\n\n');
+
+    expect(formatServerSentEvent({
+      type: 'snapshot',
+      timestamp: '2026-10-18T08:00:00.000Z',
+      data: { status: 'running' },
+    })).toBe('event: snapshot\ndata: {"timestamp":"2026-10-18T08:00:00.000Z","status":"running"}\n\n');
+  });
+
+  it('should write the snapshot and live events until a terminal event', async () => {
+    const subscription = await service.openScanStream(tenantId, scanId);
+    const written = writeProgressStream(response as unknown as ServerResponse, subscription, {
+      headers: { 'x-request-id': 'req-1', 'x-skipped': undefined },
+      snapshot: { type: 'snapshot', timestamp: '2026-10-18T08:00:00.000Z', data: { status: 'running' } },
+    });
+
+    await service.publishScanEvent(tenantId, scanId, {
+      type: 'progress',
+      timestamp: '2026-10-18T08:00:01.000Z',
+      data: { filesProcessed: 1 },
+    });
+    await service.publishScanEvent(tenantId, scanId, {
+      type: 'completed',
+      timestamp: '2026-10-18T08:00:02.000Z',
+      data: {},
+    });
+    await written;
+
+    expect(response.statusCode).toBe(200);
+    expect(response.headers).toMatchObject({ ...SSE_HEADERS, 'x-request-id': 'req-1' });
+    expect(response.headers).not.toHaveProperty('x-skipped');
+    expect(response.body.match(/^event: .*$/gm)).toEqual([
+      'event: snapshot',
+      'event: progress',
+      'event: completed',
+    ]);
+    expect(response.body.startsWith('retry: 3000\n\n')).toBe(true);
+    expect(response.writableEnded).toBe(true);
+  });
+
+  it('should end right after a terminal snapshot', async () => {
+    const subscription = await service.openScanStream(tenantId, scanId);
+
+    await writeProgressStream(response as unknown as ServerResponse, subscription, {
+      snapshot: { type: 'snapshot', timestamp: '2026-10-18T08:00:00.000Z', data: { status: 'failed' } },
+    });
+
+    expect(response.body).toContain('event: snapshot');
+    expect(response.writableEnded).toBe(true);
+  });
+
+  it('should stop streaming when the client disconnects', async () => {
+    const subscription = await service.openScanStream(tenantId, scanId);
+    const written = writeProgressStream(response as unknown as ServerResponse, subscription);
+
+    response.emit('close');
+    await written;
+
+    expect(response.writableEnded).toBe(true);
+  });
+});
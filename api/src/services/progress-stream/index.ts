@@ -0,0 +1,55 @@
+/**
+ * Progress Stream Module
+ * @module services/progress-stream
+ *
+ * Scan and rollup execution progress, streamed to clients as server-sent
+ * events with Last-Event-ID resume.
+ *
+ * TASK-PROGRESS-SSE: Streaming scan and rollup execution progress
+ */
+
+// Interfaces
+export {
+  TERMINAL_PROGRESS_EVENT_TYPES,
+  type ProgressStreamEventType,
+  type ProgressStreamEventInput,
+  type ProgressStreamEvent,
+  type ProgressStreamHandler,
+  type IProgressStreamStore,
+  type OpenProgressStreamOptions,
+  type IProgressStreamSubscription,
+  type IProgressStreamService,
+} from './interfaces.js';
+
+// Stores
+export {
+  RedisProgressStreamStore,
+  InMemoryProgressStreamStore,
+  DEFAULT_PROGRESS_STREAM_STORE_CONFIG,
+  createRedisProgressStreamStore,
+  createInMemoryProgressStreamStore,
+  type ProgressStreamStoreConfig,
+} from './progress-stream-store.js';
+
+// Service
+export {
+  ProgressStreamService,
+  getScanStreamKey,
+  getExecutionStreamKey,
+  isTerminalProgressEvent,
+  createProgressStreamService,
+} from './progress-stream-service.js';
+
+// Emitter adapters
+export {
+  ProgressStreamScanEventEmitter,
+  ProgressStreamRollupEventEmitter,
+} from './progress-stream-emitters.js';
+
+// Server-sent events
+export {
+  SSE_HEADERS,
+  formatServerSentEvent,
+  writeProgressStream,
+  type ProgressStreamWriteOptions,
+} from './sse.js';
@@ -0,0 +1,153 @@
+/**
+ * Progress Stream Interfaces
+ * @module services/progress-stream/interfaces
+ *
+ * Type definitions for the per-scan and per-execution progress streams
+ * served to clients as server-sent events.
+ *
+ * TASK-PROGRESS-SSE: Streaming scan and rollup execution progress
+ */
+
+import type { TenantId } from '../../types/entities.js';
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Progress stream event types
+ */
+export type ProgressStreamEventType =
+  | 'snapshot'
+  | 'started'
+  | 'progress'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+/**
+ * Event types ending a progress stream
+ */
+export const TERMINAL_PROGRESS_EVENT_TYPES: readonly ProgressStreamEventType[] = [
+  'completed',
+  'failed',
+  'cancelled',
+];
+
+/**
+ * Progress event before it is recorded in a stream
+ */
+export interface ProgressStreamEventInput {
+  /** Event type */
+  readonly type: ProgressStreamEventType;
+  /** ISO timestamp of the event */
+  readonly timestamp: string;
+  /** Event data (progress counters, status, error) */
+  readonly data: Record<string, unknown>;
+}
+
+/**
+ * Progress event recorded in a stream
+ */
+export interface ProgressStreamEvent extends ProgressStreamEventInput {
+  /** Stream-assigned ID, sent as the SSE event ID and resumed from via Last-Event-ID */
+  readonly id: string;
+}
+
+/**
+ * Handler for events appended to a stream
+ */
+export type ProgressStreamHandler = (event: ProgressStreamEvent) => void;
+
+// ============================================================================
+// Store
+// ============================================================================
+
+/**
+ * Storage for progress streams.
+ * Keeps a bounded replay buffer per stream and notifies subscribers of
+ * appended events, possibly across processes.
+ */
+export interface IProgressStreamStore {
+  /**
+   * Append an event to a stream and notify its subscribers
+   * @returns The recorded event with its assigned ID
+   */
+  append(streamKey: string, event: ProgressStreamEventInput): Promise<ProgressStreamEvent>;
+
+  /**
+   * Read buffered events recorded after the given event ID
+   */
+  readAfter(streamKey: string, lastEventId: string): Promise<ProgressStreamEvent[]>;
+
+  /**
+   * Subscribe to events appended to a stream
+   * @returns Unsubscribe function
+   */
+  subscribe(streamKey: string, handler: ProgressStreamHandler): Promise<() => void>;
+}
+
+// ============================================================================
+// Service
+// ============================================================================
+
+/**
+ * Options for opening a progress stream
+ */
+export interface OpenProgressStreamOptions {
+  /** Resume after this event ID (the SSE Last-Event-ID header) */
+  readonly lastEventId?: string;
+}
+
+/**
+ * Open progress stream, iterated until a terminal event or close
+ */
+export interface IProgressStreamSubscription extends AsyncIterable<ProgressStreamEvent> {
+  /**
+   * Stop receiving events and end iteration
+   */
+  close(): void;
+}
+
+/**
+ * Progress stream service interface
+ */
+export interface IProgressStreamService {
+  /**
+   * Record a progress event of a scan
+   */
+  publishScanEvent(
+    tenantId: TenantId,
+    scanId: string,
+    event: ProgressStreamEventInput
+  ): Promise<ProgressStreamEvent>;
+
+  /**
+   * Record a progress event of a rollup execution
+   */
+  publishExecutionEvent(
+    tenantId: TenantId,
+    executionId: string,
+    event: ProgressStreamEventInput
+  ): Promise<ProgressStreamEvent>;
+
+  /**
+   * Open the progress stream of a scan.
+   * Events recorded after `lastEventId` are replayed before live events.
+   */
+  openScanStream(
+    tenantId: TenantId,
+    scanId: string,
+    options?: OpenProgressStreamOptions
+  ): Promise<IProgressStreamSubscription>;
+
+  /**
+   * Open the progress stream of a rollup execution.
+   * Events recorded after `lastEventId` are replayed before live events.
+   */
+  openExecutionStream(
+    tenantId: TenantId,
+    executionId: string,
+    options?: OpenProgressStreamOptions
+  ): Promise<IProgressStreamSubscription>;
+}
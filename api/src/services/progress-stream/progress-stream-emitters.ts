@@ -0,0 +1,121 @@
+/**
+ * Progress Stream Emitter Adapters
+ * @module services/progress-stream/progress-stream-emitters
+ *
+ * Record scan service and rollup module events in the progress streams of
+ * their scan or rollup execution.
+ *
+ * TASK-PROGRESS-SSE: Streaming scan and rollup execution progress
+ */
+
+import pino from 'pino';
+import type { IProgressStreamService, ProgressStreamEventType } from './interfaces.js';
+import type {
+  IRollupEventEmitter,
+  RollupEvent,
+  RollupEventType,
+  RollupEventWithMetadata,
+} from '../rollup/rollup-event-emitter.js';
+import type { IScanEventEmitter, ScanEvent, ScanEventType } from '../scan-service.js';
+
+const logger = pino({ name: 'progress-stream-emitters' });
+
+/**
+ * Stream event types of scan events
+ */
+const SCAN_EVENT_TYPES: Record<ScanEventType, ProgressStreamEventType> = {
+  'scan.started': 'started',
+  'scan.progress': 'progress',
+  'scan.completed': 'completed',
+  'scan.failed': 'failed',
+  'scan.cancelled': 'cancelled',
+};
+
+/**
+ * Stream event types of rollup execution events
+ */
+const EXECUTION_EVENT_TYPES: Partial<Record<RollupEventType, ProgressStreamEventType>> = {
+  'rollup.execution.started': 'started',
+  'rollup.execution.progress': 'progress',
+  'rollup.execution.completed': 'completed',
+  'rollup.execution.failed': 'failed',
+  'rollup.execution.cancelled': 'cancelled',
+};
+
+/**
+ * Scan event emitter that records scan events in the scan's progress stream
+ */
+export class ProgressStreamScanEventEmitter implements IScanEventEmitter {
+  constructor(
+    private readonly progressStream: IProgressStreamService,
+    private readonly inner?: IScanEventEmitter
+  ) {}
+
+  /**
+   * Emit through the wrapped emitter, then record the event.
+   * Streams are tenant-scoped, so events without a tenant are not recorded.
+   */
+  async emit(event: ScanEvent): Promise<void> {
+    await this.inner?.emit(event);
+
+    if (!event.tenantId) {
+      return;
+    }
+
+    try {
+      await this.progressStream.publishScanEvent(event.tenantId, event.scanId, {
+        type: SCAN_EVENT_TYPES[event.type],
+        timestamp: event.timestamp.toISOString(),
+        data: { scanId: event.scanId, ...event.data },
+      });
+    } catch (error) {
+      logger.warn({ err: error, eventType: event.type, scanId: event.scanId }, 'Failed to record scan progress event');
+    }
+  }
+}
+
+/**
+ * Rollup event emitter that records execution events in the execution's progress stream
+ */
+export class ProgressStreamRollupEventEmitter implements IRollupEventEmitter {
+  constructor(
+    private readonly inner: IRollupEventEmitter,
+    private readonly progressStream: IProgressStreamService
+  ) {}
+
+  /**
+   * Emit through the wrapped emitter, then record execution events
+   */
+  async emit(event: RollupEvent, correlationId?: string): Promise<void> {
+    await this.inner.emit(event, correlationId);
+
+    const type = EXECUTION_EVENT_TYPES[event.type];
+    const executionId = event.data.executionId;
+    if (!type || typeof executionId !== 'string') {
+      return;
+    }
+
+    try {
+      await this.progressStream.publishExecutionEvent(event.tenantId, executionId, {
+        type,
+        timestamp: event.timestamp.toISOString(),
+        data: { rollupId: event.rollupId, ...event.data },
+      });
+    } catch (error) {
+      logger.warn({ err: error, eventType: event.type, executionId }, 'Failed to record execution progress event');
+    }
+  }
+
+  /**
+   * Subscribe through the wrapped emitter
+   */
+  async subscribe(
+    handler: (event: RollupEventWithMetadata) => Promise<void>,
+    eventTypes?: RollupEventType[]
+  ): Promise<() => void> {
+    if (!this.inner.subscribe) {
+      return () => {};
+    }
+    return this.inner.subscribe(handler, eventTypes);
+  }
+}
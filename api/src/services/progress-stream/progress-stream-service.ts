@@ -0,0 +1,236 @@
+/**
+ * Progress Stream Service
+ * @module services/progress-stream/progress-stream-service
+ *
+ * Records scan and rollup execution progress events per stream and opens
+ * streams for server-sent event clients. An opened stream replays the events
+ * recorded after the client's last event ID, then follows live events until
+ * a terminal event.
+ *
+ * TASK-PROGRESS-SSE: Streaming scan and rollup execution progress
+ */
+
+import type { TenantId } from '../../types/entities.js';
+import {
+  TERMINAL_PROGRESS_EVENT_TYPES,
+  type IProgressStreamService,
+  type IProgressStreamStore,
+  type IProgressStreamSubscription,
+  type OpenProgressStreamOptions,
+  type ProgressStreamEvent,
+  type ProgressStreamEventInput,
+} from './interfaces.js';
+
+// ============================================================================
+// Stream Keys
+// ============================================================================
+
+/**
+ * Key of the progress stream of a scan
+ */
+export function getScanStreamKey(tenantId: TenantId, scanId: string): string {
+  return `scan:${tenantId}:${scanId}`;
+}
+
+/**
+ * Key of the progress stream of a rollup execution
+ */
+export function getExecutionStreamKey(tenantId: TenantId, executionId: string): string {
+  return `rollup-execution:${tenantId}:${executionId}`;
+}
+
+/**
+ * Check if an event ends its stream.
+ * Snapshots end the stream when they report a terminal status.
+ */
+export function isTerminalProgressEvent(event: ProgressStreamEventInput): boolean {
+  if (event.type === 'snapshot') {
+    return TERMINAL_PROGRESS_EVENT_TYPES.some((type) => type === event.data.status);
+  }
+  return TERMINAL_PROGRESS_EVENT_TYPES.includes(event.type);
+}
+
+// ============================================================================
+// Subscription
+// ============================================================================
+
+/**
+ * Queue of stream events consumed by async iteration.
+ * Iteration ends after a terminal event or when the subscription is closed.
+ */
+class ProgressStreamSubscription implements IProgressStreamSubscription {
+  private readonly queue: ProgressStreamEvent[] = [];
+  private waiting: ((result: IteratorResult<ProgressStreamEvent>) => void) | null = null;
+  private ended = false;
+  private unsubscribe: (() => void) | null = null;
+
+  /**
+   * Attach the store subscription released on close
+   */
+  attach(unsubscribe: () => void): void {
+    if (this.ended) {
+      unsubscribe();
+      return;
+    }
+    this.unsubscribe = unsubscribe;
+  }
+
+  push(event: ProgressStreamEvent): void {
+    if (this.ended) {
+      return;
+    }
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: event, done: false });
+    } else {
+      this.queue.push(event);
+    }
+
+    if (isTerminalProgressEvent(event)) {
+      this.end();
+    }
+  }
+
+  close(): void {
+    this.queue.length = 0;
+    this.end();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterator<ProgressStreamEvent> {
+    return {
+      next: () => {
+        const event = this.queue.shift();
+        if (event) {
+          return Promise.resolve({ value: event, done: false });
+        }
+        if (this.ended) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise((resolve) => {
+          this.waiting = resolve;
+        });
+      },
+      return: () => {
+        this.close();
+        return Promise.resolve({ value: undefined, done: true });
+      },
+    };
+  }
+
+  /**
+   * Stop receiving events; queued events are still iterated
+   */
+  private end(): void {
+    if (this.ended) {
+      return;
+    }
+    this.ended = true;
+    this.unsubscribe?.();
+    this.unsubscribe = null;
+
+    if (this.waiting) {
+      const resolve = this.waiting;
+      this.waiting = null;
+      resolve({ value: undefined, done: true });
+    }
+  }
+}
+
+// ============================================================================
+// Service Implementation
+// ============================================================================
+
+/**
+ * Progress stream service implementation
+ */
+export class ProgressStreamService implements IProgressStreamService {
+  constructor(private readonly store: IProgressStreamStore) {}
+
+  async publishScanEvent(
+    tenantId: TenantId,
+    scanId: string,
+    event: ProgressStreamEventInput
+  ): Promise<ProgressStreamEvent> {
+    return this.store.append(getScanStreamKey(tenantId, scanId), event);
+  }
+
+  async publishExecutionEvent(
+    tenantId: TenantId,
+    executionId: string,
+    event: ProgressStreamEventInput
+  ): Promise<ProgressStreamEvent> {
+    return this.store.append(getExecutionStreamKey(tenantId, executionId), event);
+  }
+
+  async openScanStream(
+    tenantId: TenantId,
+    scanId: string,
+    options: OpenProgressStreamOptions = {}
+  ): Promise<IProgressStreamSubscription> {
+    return this.open(getScanStreamKey(tenantId, scanId), options);
+  }
+
+  async openExecutionStream(
+    tenantId: TenantId,
+    executionId: string,
+    options: OpenProgressStreamOptions = {}
+  ): Promise<IProgressStreamSubscription> {
+    return this.open(getExecutionStreamKey(tenantId, executionId), options);
+  }
+
+  /**
+   * Subscribe before reading the replay buffer, holding back live events
+   * until the replay is queued so none are lost or repeated in between
+   */
+  private async open(
+    streamKey: string,
+    options: OpenProgressStreamOptions
+  ): Promise<IProgressStreamSubscription> {
+    const subscription = new ProgressStreamSubscription();
+    let heldBack: ProgressStreamEvent[] | null = [];
+
+    subscription.attach(await this.store.subscribe(streamKey, (event) => {
+      if (heldBack) {
+        heldBack.push(event);
+      } else {
+        subscription.push(event);
+      }
+    }));
+
+    try {
+      const replay = options.lastEventId
+        ? await this.store.readAfter(streamKey, options.lastEventId)
+        : [];
+      const replayed = new Set(replay.map((event) => event.id));
+
+      for (const event of replay) {
+        subscription.push(event);
+      }
+      for (const event of heldBack) {
+        if (!replayed.has(event.id)) {
+          subscription.push(event);
+        }
+      }
+    } catch (error) {
+      subscription.close();
+      throw error;
+    } finally {
+      heldBack = null;
+    }
+
+    return subscription;
+  }
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new ProgressStreamService instance
+ */
+export function createProgressStreamService(store: IProgressStreamStore): ProgressStreamService {
+  return new ProgressStreamService(store);
+}
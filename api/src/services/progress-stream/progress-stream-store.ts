@@ -0,0 +1,263 @@
+/**
+ * Progress Stream Stores
+ * @module services/progress-stream/progress-stream-store
+ *
+ * Replay buffers and subscriber notification for progress streams. The Redis
+ * store keeps each stream in a capped Redis stream so any API instance can
+ * replay it, and notifies subscribers via pub/sub; the in-memory store serves
+ * single-process deployments and tests.
+ *
+ * TASK-PROGRESS-SSE: Streaming scan and rollup execution progress
+ */
+
+import pino from 'pino';
+import type { Redis } from 'ioredis';
+import type {
+  IProgressStreamStore,
+  ProgressStreamEvent,
+  ProgressStreamEventInput,
+  ProgressStreamHandler,
+} from './interfaces.js';
+
+const logger = pino({ name: 'progress-stream-store' });
+
+/**
+ * Redis client instance type
+ */
+type RedisClient = Redis;
+
+/**
+ * Progress stream store configuration
+ */
+export interface ProgressStreamStoreConfig {
+  /** Maximum number of events buffered per stream for replay */
+  readonly maxEventsPerStream: number;
+  /** Seconds a stream is kept after its last event */
+  readonly streamTtlSeconds: number;
+}
+
+/**
+ * Default progress stream store configuration
+ */
+export const DEFAULT_PROGRESS_STREAM_STORE_CONFIG: ProgressStreamStoreConfig = {
+  maxEventsPerStream: 500,
+  streamTtlSeconds: 3600,
+};
+
+/**
+ * Redis stream entry IDs (`<milliseconds>-<sequence>`)
+ */
+const REDIS_STREAM_ID_PATTERN = /^\d+-\d+$/;
+
+// ============================================================================
+// Redis Store
+// ============================================================================
+
+/**
+ * Progress stream store backed by Redis streams and pub/sub
+ */
+export class RedisProgressStreamStore implements IProgressStreamStore {
+  private readonly config: ProgressStreamStoreConfig;
+  private readonly handlers = new Map<string, Set<ProgressStreamHandler>>();
+  private listening = false;
+
+  /**
+   * @param client - Client for stream commands and publishing
+   * @param subscriber - Dedicated client in subscriber mode
+   */
+  constructor(
+    private readonly client: RedisClient,
+    private readonly subscriber: RedisClient,
+    config: Partial<ProgressStreamStoreConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_PROGRESS_STREAM_STORE_CONFIG, ...config };
+  }
+
+  async append(streamKey: string, event: ProgressStreamEventInput): Promise<ProgressStreamEvent> {
+    const key = this.getStreamKey(streamKey);
+    const id = await this.client.xadd(
+      key,
+      'MAXLEN',
+      '~',
+      String(this.config.maxEventsPerStream),
+      '*',
+      'event',
+      JSON.stringify(event)
+    );
+    if (!id) {
+      throw new Error(`Failed to append to progress stream ${streamKey}`);
+    }
+    await this.client.expire(key, this.config.streamTtlSeconds);
+
+    const recorded: ProgressStreamEvent = { id, ...event };
+    await this.client.publish(this.getChannel(streamKey), JSON.stringify(recorded));
+    return recorded;
+  }
+
+  async readAfter(streamKey: string, lastEventId: string): Promise<ProgressStreamEvent[]> {
+    if (!REDIS_STREAM_ID_PATTERN.test(lastEventId)) {
+      return [];
+    }
+
+    const entries = await this.client.xrange(this.getStreamKey(streamKey), `(${lastEventId}`, '+');
+    const events: ProgressStreamEvent[] = [];
+    for (const [id, fields] of entries) {
+      const payload = fields[fields.indexOf('event') + 1];
+      if (payload !== undefined) {
+        events.push({ id, ...(JSON.parse(payload) as ProgressStreamEventInput) });
+      }
+    }
+    return events;
+  }
+
+  async subscribe(streamKey: string, handler: ProgressStreamHandler): Promise<() => void> {
+    this.listen();
+
+    const channel = this.getChannel(streamKey);
+    let handlers = this.handlers.get(channel);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(channel, handlers);
+      await this.subscriber.subscribe(channel);
+    }
+    handlers.add(handler);
+
+    return () => {
+      const current = this.handlers.get(channel);
+      if (!current?.delete(handler) || current.size > 0) {
+        return;
+      }
+      this.handlers.delete(channel);
+      this.subscriber.unsubscribe(channel).catch((error: unknown) => {
+        logger.warn({ err: error, channel }, 'Failed to unsubscribe from progress stream');
+      });
+    };
+  }
+
+  /**
+   * Close the subscriber connection
+   */
+  async close(): Promise<void> {
+    this.handlers.clear();
+    this.subscriber.disconnect();
+  }
+
+  /**
+   * Route pub/sub messages to the handlers of their channel
+   */
+  private listen(): void {
+    if (this.listening) {
+      return;
+    }
+    this.listening = true;
+
+    this.subscriber.on('message', (channel: string, message: string) => {
+      const handlers = this.handlers.get(channel);
+      if (!handlers) {
+        return;
+      }
+      try {
+        const event = JSON.parse(message) as ProgressStreamEvent;
+        for (const handler of handlers) {
+          handler(event);
+        }
+      } catch (error) {
+        logger.error({ err: error, channel }, 'Failed to process progress stream message');
+      }
+    });
+  }
+
+  /**
+   * Stream keys are prefixed by the client's key prefix
+   */
+  private getStreamKey(streamKey: string): string {
+    return `progress:${streamKey}`;
+  }
+
+  /**
+   * Channels are not covered by the key prefix, so it is added explicitly
+   */
+  private getChannel(streamKey: string): string {
+    return `${this.client.options.keyPrefix ?? ''}progress:${streamKey}`;
+  }
+}
+
+// ============================================================================
+// In-Memory Store
+// ============================================================================
+
+/**
+ * Progress stream store for a single process
+ */
+export class InMemoryProgressStreamStore implements IProgressStreamStore {
+  private readonly config: ProgressStreamStoreConfig;
+  private readonly streams = new Map<string, ProgressStreamEvent[]>();
+  private readonly handlers = new Map<string, Set<ProgressStreamHandler>>();
+  private sequence = 0;
+
+  constructor(config: Partial<ProgressStreamStoreConfig> = {}) {
+    this.config = { ...DEFAULT_PROGRESS_STREAM_STORE_CONFIG, ...config };
+  }
+
+  async append(streamKey: string, event: ProgressStreamEventInput): Promise<ProgressStreamEvent> {
+    const recorded: ProgressStreamEvent = { id: String(++this.sequence), ...event };
+
+    const events = this.streams.get(streamKey) ?? [];
+    events.push(recorded);
+    if (events.length > this.config.maxEventsPerStream) {
+      events.splice(0, events.length - this.config.maxEventsPerStream);
+    }
+    this.streams.set(streamKey, events);
+
+    for (const handler of this.handlers.get(streamKey) ?? []) {
+      handler(recorded);
+    }
+    return recorded;
+  }
+
+  async readAfter(streamKey: string, lastEventId: string): Promise<ProgressStreamEvent[]> {
+    const after = Number(lastEventId);
+    if (!Number.isInteger(after)) {
+      return [];
+    }
+    return (this.streams.get(streamKey) ?? []).filter((event) => Number(event.id) > after);
+  }
+
+  async subscribe(streamKey: string, handler: ProgressStreamHandler): Promise<() => void> {
+    let handlers = this.handlers.get(streamKey);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(streamKey, handlers);
+    }
+    handlers.add(handler);
+
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a progress stream store backed by Redis.
+ * The subscriber is duplicated from the client, as subscriber-mode
+ * connections cannot run other commands; it connects on first subscription.
+ */
+export function createRedisProgressStreamStore(
+  client: RedisClient,
+  config?: Partial<ProgressStreamStoreConfig>
+): RedisProgressStreamStore {
+  return new RedisProgressStreamStore(client, client.duplicate({ lazyConnect: true }), config);
+}
+
+/**
+ * Create an in-memory progress stream store
+ */
+export function createInMemoryProgressStreamStore(
+  config?: Partial<ProgressStreamStoreConfig>
+): InMemoryProgressStreamStore {
+  return new InMemoryProgressStreamStore(config);
+}
@@ -0,0 +1,98 @@
+/**
+ * Server-Sent Events Writer
+ * @module services/progress-stream/sse
+ *
+ * Serializes progress stream events in the text/event-stream format and
+ * writes an open progress stream to an HTTP response.
+ *
+ * TASK-PROGRESS-SSE: Streaming scan and rollup execution progress
+ */
+
+import type { OutgoingHttpHeaders, ServerResponse } from 'http';
+import type {
+  IProgressStreamSubscription,
+  ProgressStreamEvent,
+  ProgressStreamEventInput,
+} from './interfaces.js';
+import { isTerminalProgressEvent } from './progress-stream-service.js';
+
+/**
+ * Response headers of event streams.
+ * X-Accel-Buffering disables response buffering in nginx proxies.
+ */
+export const SSE_HEADERS: OutgoingHttpHeaders = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  'X-Accel-Buffering': 'no',
+};
+
+/**
+ * Event stream writing options
+ */
+export interface ProgressStreamWriteOptions {
+  /** Additional response headers (CORS, request ID) */
+  readonly headers?: Record<string, string | number | string[] | undefined>;
+  /** Current state, sent first to clients not resuming from an event ID */
+  readonly snapshot?: ProgressStreamEventInput;
+  /** Interval of keep-alive comments in ms */
+  readonly heartbeatIntervalMs?: number;
+  /** Reconnection delay advertised to clients in ms */
+  readonly retryMs?: number;
+}
+
+/**
+ * Format an event in the text/event-stream format.
+ * Snapshots carry no ID so clients resume from the last recorded event.
+ */
+export function formatServerSentEvent(event: ProgressStreamEventInput | ProgressStreamEvent): string {
+  const id = 'id' in event ? `id: ${event.id}\n` : '';
+  const data = JSON.stringify({ timestamp: event.timestamp, ...event.data });
+  return `${id}event: ${event.type}\ndata: ${data}\n\n`;
+}
+
+/**
+ * Write a progress stream to a response until a terminal event, or until
+ * the client disconnects
+ */
+export async function writeProgressStream(
+  response: ServerResponse,
+  subscription: IProgressStreamSubscription,
+  options: ProgressStreamWriteOptions = {}
+): Promise<void> {
+  const heartbeatIntervalMs = options.heartbeatIntervalMs ?? 15000;
+
+  for (const [name, value] of Object.entries(options.headers ?? {})) {
+    if (value !== undefined) {
+      response.setHeader(name, value);
+    }
+  }
+  response.writeHead(200, SSE_HEADERS);
+  response.write(`retry: ${options.retryMs ?? 3000}\n\n`);
+  response.on('close', () => subscription.close());
+
+  if (options.snapshot) {
+    response.write(formatServerSentEvent(options.snapshot));
+    if (isTerminalProgressEvent(options.snapshot)) {
+      subscription.close();
+      response.end();
+      return;
+    }
+  }
+
+  const heartbeat = setInterval(() => {
+    response.write(': heartbeat\n\n');
+  }, heartbeatIntervalMs);
+
+  try {
+    for await (const event of subscription) {
+      response.write(formatServerSentEvent(event));
+    }
+  } finally {
+    clearInterval(heartbeat);
+    subscription.close();
+    if (!response.writableEnded) {
+      response.end();
+    }
+  }
+}
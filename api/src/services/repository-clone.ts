@@ -4,16 +4,21 @@
  * @module services/repository-clone
  */
 
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
 import { randomUUID } from 'crypto';
 import { mkdir, rm, stat, readFile } from 'fs/promises';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import pino from 'pino';
+import { Parser, type ReadEntry } from 'tar';
 import type { Repository } from '../adapters/git/interface.js';
+import type { IRefCheckout } from './pr-impact-gate.js';
+import type { GitProvider, RepositoryId, TenantId } from '../types/entities.js';
+import { query } from '../db/connection.js';
 import {
   uploadObject,
+  downloadObject,
   buildRepoArchivePath,
   objectExists,
   getPresignedDownloadUrl,
@@ -21,6 +26,7 @@ import {
 import { AppError } from '../middleware/error-handler.js';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 const logger = pino({ name: 'repository-clone' });
 
 /**
@@ -49,6 +55,34 @@ export interface CloneOptions {
   force?: boolean;
 }
 
+/**
+ * Working copy of a repository at a single commit
+ */
+export interface RepositoryCheckout {
+  /** Path to the checked-out files */
+  readonly basePath: string;
+  /** Commit SHA that was checked out */
+  readonly commitSha: string;
+  /** Remove the working copy */
+  cleanup(): Promise<void>;
+}
+
+/**
+ * Where and how to fetch a tracked repository
+ */
+export interface RepositoryCloneSource {
+  /** Git provider */
+  readonly provider: GitProvider;
+  /** Repository owner (user, organization or group) */
+  readonly owner: string;
+  /** Repository name */
+  readonly name: string;
+  /** HTTPS clone URL */
+  readonly cloneUrl: string;
+  /** Token for private repositories */
+  readonly accessToken?: string;
+}
+
 /**
  * Maximum archive size (500MB)
  */
@@ -59,6 +93,11 @@ const MAX_ARCHIVE_SIZE = 500 * 1024 * 1024;
  */
 const CLONE_TIMEOUT = 5 * 60 * 1000;
 
+/**
+ * Maximum size of a single file read back from an archive (5MB)
+ */
+const MAX_ARCHIVE_FILE_SIZE = 5 * 1024 * 1024;
+
 /**
  * Sanitize path component to prevent directory traversal
  */
@@ -305,3 +344,179 @@ export async function archiveExists(
   const objectPath = buildRepoArchivePath(tenantId, repoId, commitSha);
   return objectExists(objectPath);
 }
+
+/**
+ * Read files from a stored repository archive
+ * @param objectPath - MinIO object path of the archive
+ * @param include - Predicate selecting files by repository-relative path
+ * @returns Map of repository-relative path to UTF-8 content
+ */
+export async function readArchiveFiles(
+  objectPath: string,
+  include: (filePath: string) => boolean
+): Promise<Map<string, string>> {
+  const archive = await downloadObject(objectPath);
+  const files = new Map<string, string>();
+
+  try {
+    await new Promise<void>((resolve, reject) => {
+      const parser = new Parser({
+        onReadEntry: (entry: ReadEntry) => {
+          // Archives are created from the clone root, so entries start with ./
+          const filePath = entry.path.replace(/^\.\//, '');
+          if (entry.type !== 'File' || entry.size > MAX_ARCHIVE_FILE_SIZE || !include(filePath)) {
+            entry.resume();
+            return;
+          }
+
+          const chunks: Buffer[] = [];
+          entry.on('data', (chunk: Buffer) => chunks.push(chunk));
+          entry.on('end', () => files.set(filePath, Buffer.concat(chunks).toString('utf-8')));
+        },
+      });
+
+      parser.on('end', () => resolve());
+      parser.on('error', reject);
+      parser.end(archive);
+    });
+  } catch (error) {
+    logger.error({ error, objectPath }, 'Failed to read archive');
+    throw new AppError('Failed to read archive', 500, 'ARCHIVE_ERROR');
+  }
+
+  logger.debug({ objectPath, files: files.size }, 'Read files from archive');
+
+  return files;
+}
+
+/**
+ * Username sent with an access token, per provider
+ */
+const TOKEN_USERNAMES: Partial<Record<GitProvider, string>> = {
+  github: 'x-access-token',
+  gitlab: 'oauth2',
+  bitbucket: 'x-token-auth',
+};
+
+/**
+ * Add token credentials to an HTTPS clone URL
+ */
+function withCredentials(source: RepositoryCloneSource): string {
+  if (source.accessToken === undefined) {
+    return source.cloneUrl;
+  }
+
+  const url = new URL(source.cloneUrl);
+  if (url.protocol !== 'https:') {
+    throw new AppError('Access tokens require an HTTPS clone URL', 400, 'INVALID_CLONE_URL');
+  }
+  url.username = TOKEN_USERNAMES[source.provider] ?? 'git';
+  url.password = source.accessToken;
+  return url.toString();
+}
+
+/**
+ * Check out a branch, tag or commit SHA into a temporary working copy.
+ * Only the requested commit is fetched. The caller removes the working copy
+ * with `cleanup()` once done with it.
+ * @param source - Repository to fetch
+ * @param ref - Branch, tag or commit SHA
+ * @returns Working copy
+ */
+export async function checkoutRepository(
+  source: RepositoryCloneSource,
+  ref: string
+): Promise<RepositoryCheckout> {
+  // Refs starting with a dash would be read as git options
+  if (ref === '' || ref.startsWith('-')) {
+    throw new AppError(`Invalid ref '${ref}'`, 400, 'INVALID_REF');
+  }
+
+  const basePath = join(tmpdir(), 'dmp-checkout', randomUUID());
+  const cleanup = (): Promise<void> => rm(basePath, { recursive: true, force: true });
+
+  try {
+    await mkdir(basePath, { recursive: true });
+    await execFileAsync('git', ['init', '--quiet'], { cwd: basePath });
+    await execFileAsync('git', ['fetch', '--quiet', '--depth=1', withCredentials(source), ref], {
+      cwd: basePath,
+      timeout: CLONE_TIMEOUT,
+      maxBuffer: 50 * 1024 * 1024,
+    });
+    await execFileAsync('git', ['checkout', '--quiet', '--detach', 'FETCH_HEAD'], { cwd: basePath });
+
+    const commitSha = await getCommitSha(basePath);
+
+    logger.info({ cloneUrl: source.cloneUrl, ref, commitSha }, 'Repository checked out');
+
+    return { basePath, commitSha, cleanup };
+  } catch (error) {
+    await cleanup().catch(() => undefined);
+
+    if (error instanceof AppError) {
+      throw error;
+    }
+
+    // Git output may echo the credentialed URL, so it is not included
+    logger.error({ cloneUrl: source.cloneUrl, ref }, 'Failed to check out repository');
+    throw new AppError(`Failed to check out ${ref}`, 500, 'CHECKOUT_ERROR');
+  }
+}
+
+/**
+ * Look up the clone source of a tracked repository
+ * @param tenantId - Tenant ID
+ * @param repositoryId - Repository ID
+ * @param accessTokens - Tokens to clone with, per provider
+ * @returns Clone source, or null if the repository is not tracked
+ */
+export async function findRepositoryCloneSource(
+  tenantId: TenantId,
+  repositoryId: RepositoryId,
+  accessTokens: Partial<Record<GitProvider, string>> = {}
+): Promise<RepositoryCloneSource | null> {
+  const result = await query<{ provider: GitProvider; owner: string; name: string; clone_url: string }>(
+    `SELECT provider, owner, name, clone_url FROM repositories WHERE id = $1 AND tenant_id = $2`,
+    [repositoryId, tenantId]
+  );
+
+  const row = result.rows[0];
+  if (!row) {
+    return null;
+  }
+
+  const accessToken = accessTokens[row.provider];
+  return {
+    provider: row.provider,
+    owner: row.owner,
+    name: row.name,
+    cloneUrl: row.clone_url,
+    ...(accessToken !== undefined && { accessToken }),
+  };
+}
+
+/**
+ * Checks out refs of a tenant's tracked repositories, e.g. for the
+ * pull request impact gate
+ */
+export class RepositoryRefCheckout implements IRefCheckout {
+  /**
+   * @param tenantId - Tenant owning the repositories
+   * @param accessTokens - Tokens to clone with, per provider
+   */
+  constructor(
+    private readonly tenantId: TenantId,
+    private readonly accessTokens: Partial<Record<GitProvider, string>> = {}
+  ) {}
+
+  /**
+   * Check out a ref of a repository into a temporary working copy
+   */
+  async checkout(repositoryId: RepositoryId, ref: string): Promise<RepositoryCheckout> {
+    const source = await findRepositoryCloneSource(this.tenantId, repositoryId, this.accessTokens);
+    if (!source) {
+      throw new AppError(`Repository ${repositoryId} not found`, 404, 'REPOSITORY_NOT_FOUND');
+    }
+    return checkoutRepository(source, ref);
+  }
+}
@@ -9,8 +9,11 @@ import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
 import { BlastRadiusEngine, createBlastRadiusEngine, DECAY_FACTOR } from '../blast-radius-engine.js';
 import type { BlastRadiusQuery, BlastRadiusResponse, RollupExecutionId, MergedNode } from '../../../types/rollup.js';
 import type { GraphEdge, EdgeType } from '../../../types/graph.js';
+import type { TenantId } from '../../../types/entities.js';
+import type { IMergedGraphStore } from '../interfaces.js';
+import type { IRollupCache, CachedBlastRadius } from '../rollup-cache/interfaces.js';
 import { createBlastRadiusGraph, createTerraformResourceNode, createEdgeBetweenNodes } from './fixtures/graph-fixtures.js';
-import { createRepositoryId } from './fixtures/rollup-fixtures.js';
+import { createRepositoryId, createTenantId } from './fixtures/rollup-fixtures.js';
 import { RollupBlastRadiusError } from '../errors.js';
 
 describe('BlastRadiusEngine', () => {
@@ -1047,6 +1050,120 @@ describe('BlastRadiusEngine', () => {
       );
     });
   });
+
+  describe('persistent graphs', () => {
+    const tenantId = createTenantId();
+    const repoId = createRepositoryId();
+    const query: BlastRadiusQuery = { nodeIds: ['root'], maxDepth: 5 };
+
+    function createMergedGraph(): { mergedNodes: MergedNode[]; edges: GraphEdge[] } {
+      const { nodes, edges } = createBlastRadiusGraph();
+      const mergedNodes: MergedNode[] = Array.from(nodes.values()).map((node) => ({
+        id: node.id,
+        sourceNodeIds: [node.id],
+        sourceRepoIds: [repoId],
+        type: node.type,
+        name: node.name,
+        locations: [{ repoId, file: 'main.tf', lineStart: 1, lineEnd: 10 }],
+        metadata: {},
+        matchInfo: { strategy: 'arn', confidence: 100, matchCount: 1 },
+      }));
+      return { mergedNodes, edges, repositoryNames: new Map([[repoId, 'test-repo']]) };
+    }
+
+    function createGraphStore(): IMergedGraphStore & { loadGraph: ReturnType<typeof vi.fn> } {
+      const graph = createMergedGraph();
+      return {
+        saveGraph: vi.fn(),
+        loadGraph: vi.fn(async (_tenantId: TenantId, id: RollupExecutionId) =>
+          id === executionId ? graph : null
+        ),
+      };
+    }
+
+    /**
+     * In-memory stand-in for the tiered rollup cache
+     */
+    function createResultCache(): IRollupCache {
+      const entries = new Map<string, CachedBlastRadius>();
+      return {
+        getBlastRadius: vi.fn(async (tenant: TenantId, nodeId: string, depth: number) =>
+          entries.get(`${tenant}:${nodeId}:${depth}`) ?? null
+        ),
+        setBlastRadius: vi.fn(async (tenant: TenantId, nodeId: string, depth: number, result: CachedBlastRadius) => {
+          entries.set(`${tenant}:${nodeId}:${depth}`, result);
+        }),
+      } as unknown as IRollupCache;
+    }
+
+    it('should load a graph that was not registered from the graph store', async () => {
+      const graphStore = createGraphStore();
+      const storeEngine = new BlastRadiusEngine({ graphStore });
+
+      const [first, second] = await Promise.all([
+        storeEngine.analyze(executionId, query, tenantId),
+        storeEngine.analyze(executionId, { ...query, maxDepth: 1 }, tenantId),
+      ]);
+
+      expect(first.summary.totalImpacted).toBeGreaterThan(second.summary.totalImpacted);
+      expect(first.directImpact.every((impact) => impact.repoName === 'test-repo')).toBe(true);
+      expect(graphStore.loadGraph).toHaveBeenCalledTimes(1);
+      expect(graphStore.loadGraph).toHaveBeenCalledWith(tenantId, executionId);
+    });
+
+    it('should not load graphs without a tenant or for unknown executions', async () => {
+      const graphStore = createGraphStore();
+      const storeEngine = new BlastRadiusEngine({ graphStore });
+
+      await expect(storeEngine.analyze(executionId, query)).rejects.toThrow(RollupBlastRadiusError);
+      await expect(
+        storeEngine.analyze('exec_unknown' as RollupExecutionId, query, tenantId)
+      ).rejects.toThrow(RollupBlastRadiusError);
+      expect(graphStore.loadGraph).toHaveBeenCalledTimes(1);
+    });
+
+    it('should evict the least recently used graph', async () => {
+      const { mergedNodes, edges } = createMergedGraph();
+      const boundedEngine = new BlastRadiusEngine({ maxGraphs: 2 });
+      const ids = ['exec_1', 'exec_2', 'exec_3'] as RollupExecutionId[];
+
+      boundedEngine.registerGraph(ids[0]!, mergedNodes, edges, new Map());
+      boundedEngine.registerGraph(ids[1]!, mergedNodes, edges, new Map());
+      await boundedEngine.analyze(ids[0]!, query);
+      boundedEngine.registerGraph(ids[2]!, mergedNodes, edges, new Map());
+
+      await expect(boundedEngine.analyze(ids[2]!, query)).resolves.toBeDefined();
+      await expect(boundedEngine.analyze(ids[1]!, query)).rejects.toThrow(RollupBlastRadiusError);
+    });
+
+    it('should share results with other instances through the rollup cache', async () => {
+      const resultCache = createResultCache();
+      const { mergedNodes, edges } = createMergedGraph();
+      const producer = new BlastRadiusEngine({ resultCache });
+      const consumer = new BlastRadiusEngine({ resultCache });
+      producer.registerGraph(executionId, mergedNodes, edges, new Map([[repoId, 'test-repo']]));
+
+      const computed = await producer.analyze(executionId, query, tenantId);
+      const shared = await consumer.analyze(executionId, query, tenantId);
+
+      expect(shared).toEqual(computed);
+      expect(resultCache.setBlastRadius).toHaveBeenCalledWith(
+        tenantId,
+        expect.stringContaining(executionId),
+        5,
+        expect.objectContaining({ data: computed, depth: 5 })
+      );
+
+      // Different traversal options are cached separately
+      await expect(
+        new BlastRadiusEngine({ resultCache }).analyze(
+          executionId,
+          { ...query, edgeTypes: ['references'] },
+          tenantId
+        )
+      ).rejects.toThrow(RollupBlastRadiusError);
+    });
+  });
 });
 
 describe('createBlastRadiusEngine', () => {
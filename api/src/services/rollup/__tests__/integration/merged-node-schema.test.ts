@@ -0,0 +1,139 @@
+/**
+ * Merged Node Schema Integration Tests
+ * @module services/rollup/__tests__/integration/merged-node-schema.test
+ *
+ * Persists merged graphs through the MergedNodeRepository into the rollup
+ * tables created by the real migrations, running on an in-process Postgres.
+ *
+ * TASK-ROLLUP-001: Cross-Repository Aggregation persistent blast radius graphs
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { randomUUID } from 'crypto';
+import { PGlite } from '@electric-sql/pglite';
+import type pg from 'pg';
+import { migration as rollupTables } from '../../../../db/migrations/008_rollup_tables.js';
+import { migration as mergedNodeTextIds } from '../../../../db/migrations/012_merged_node_text_ids.js';
+import { MergedNodeRepository } from '../../../../repositories/merged-node-repository.js';
+import { MergedGraphStore } from '../../merged-graph-store.js';
+import { createMockRollupRepository } from '../utils/mock-repository.js';
+import { createTenantId, createRepositoryId, createMergedNode } from '../fixtures/rollup-fixtures.js';
+import type { RollupId, RollupExecutionId } from '../../../../types/rollup.js';
+import type { GraphEdge } from '../../../../types/graph.js';
+
+// ============================================================================
+// In-Process Database
+// ============================================================================
+
+const db = new PGlite();
+
+/**
+ * pg client over the in-process database; parameterless queries may hold
+ * several statements, as migrations do
+ */
+const client = {
+  async query(text: string, params?: unknown[]) {
+    if (params === undefined) {
+      const results = await db.exec(text);
+      const last = results[results.length - 1];
+      return { rows: last?.rows ?? [], rowCount: last?.affectedRows ?? 0 };
+    }
+    const result = await db.query(text, params);
+    return { rows: result.rows, rowCount: result.affectedRows ?? 0 };
+  },
+};
+
+vi.mock('../../../../db/connection.js', () => ({
+  getPool: () => client,
+}));
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('Merged node schema', () => {
+  const tenantId = createTenantId();
+  const rollupId = randomUUID() as RollupId;
+  const executionId = randomUUID() as RollupExecutionId;
+
+  beforeAll(async () => {
+    await rollupTables.up(client as unknown as pg.PoolClient);
+    await mergedNodeTextIds.up(client as unknown as pg.PoolClient);
+
+    await client.query(
+      `INSERT INTO rollups (id, tenant_id, name, repository_ids, matchers, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [
+        rollupId,
+        tenantId,
+        'platform',
+        [createRepositoryId(), createRepositoryId()],
+        JSON.stringify([{ type: 'arn', enabled: true }]),
+        randomUUID(),
+      ]
+    );
+    await client.query(
+      `INSERT INTO rollup_executions (id, rollup_id, tenant_id, scan_ids) VALUES ($1, $2, $3, $4)`,
+      [executionId, rollupId, tenantId, [randomUUID()]]
+    );
+  }, 60000);
+
+  afterAll(async () => {
+    await db.close();
+  });
+
+  it('should store merged nodes under merge engine IDs, including nodes sharing a name', async () => {
+    const repository = new MergedNodeRepository();
+    const first = createMergedNode();
+    const second = createMergedNode({ sourceNodeIds: ['node_a', 'node_b'] });
+
+    const result = await repository.batchUpsertNodes(
+      [first, second].map((node) => ({
+        id: node.id,
+        rollupId,
+        executionId,
+        tenantId,
+        canonicalName: node.name,
+        nodeType: node.type,
+        sourceNodeIds: node.sourceNodeIds,
+        sourceRepoIds: node.sourceRepoIds,
+        locations: node.locations,
+        metadata: node.metadata,
+        matchStrategy: node.matchInfo.strategy,
+        matchConfidence: node.matchInfo.confidence,
+        matchCount: node.matchInfo.matchCount,
+      }))
+    );
+
+    expect(result).toMatchObject({ inserted: 2, failed: 0 });
+    await expect(repository.findById(tenantId, first.id)).resolves.toMatchObject({
+      id: first.id,
+      canonicalName: first.name,
+      sourceRepoIds: first.sourceRepoIds,
+    });
+
+    await repository.deleteByExecution(tenantId, executionId);
+  });
+
+  it('should round-trip an execution graph through the merged graph store', async () => {
+    const rollupRepository = createMockRollupRepository();
+    const store = new MergedGraphStore(rollupRepository, new MergedNodeRepository());
+    const bucket = createMergedNode();
+    const twin = createMergedNode();
+    const edges: GraphEdge[] = [
+      { id: 'edge_1', source: twin.id, target: bucket.id, type: 'references', metadata: { implicit: false, confidence: 100 } },
+    ];
+    const repositoryNames = new Map([[bucket.sourceRepoIds[0]!, 'storage']]);
+    const graph = { mergedNodes: [bucket, twin], edges, repositoryNames };
+
+    await store.saveGraph(tenantId, rollupId, executionId, graph);
+    // Retried executions replace the graph of the earlier attempt
+    await store.saveGraph(tenantId, rollupId, executionId, graph);
+    const loaded = await store.loadGraph(tenantId, executionId);
+
+    expect(loaded?.mergedNodes).toHaveLength(2);
+    expect(loaded?.mergedNodes).toEqual(expect.arrayContaining([bucket, twin]));
+    expect(loaded?.edges).toEqual(edges);
+    expect(loaded?.repositoryNames).toEqual(repositoryNames);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Merged Graph Store Unit Tests
+ * @module services/rollup/__tests__/merged-graph-store.test
+ *
+ * Tests for persisting merged execution graphs through the rollup and merged node repositories.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MergedGraphStore } from '../merged-graph-store.js';
+import { RollupExecutionError } from '../errors.js';
+import { MockRollupRepository, createMockRollupRepository } from './utils/mock-repository.js';
+import { createTenantId, createMergedNode } from './fixtures/rollup-fixtures.js';
+import type {
+  IMergedNodeRepository,
+  MergedNodeEntity,
+  UpsertMergedNodeInput,
+} from '../../../repositories/merged-node-repository.js';
+import type { RollupId, RollupExecutionId } from '../../../types/rollup.js';
+import type { GraphEdge } from '../../../types/graph.js';
+
+/**
+ * In-memory merged node repository covering the methods used by the store
+ */
+function createMergedNodeRepository() {
+  const rows = new Map<string, MergedNodeEntity>();
+  const repository = {
+    deleteByExecution: vi.fn(async (_tenantId, executionId) => {
+      const ids = Array.from(rows.values()).filter((r) => r.executionId === executionId).map((r) => r.id);
+      ids.forEach((id) => rows.delete(id));
+      return ids.length;
+    }),
+    batchUpsertNodes: vi.fn(async (inputs: UpsertMergedNodeInput[]) => {
+      for (const input of inputs) {
+        const now = new Date();
+        rows.set(input.id!, {
+          ...input,
+          id: input.id!,
+          sourceCount: input.sourceNodeIds.length,
+          createdAt: now,
+          updatedAt: now,
+        });
+      }
+      return { inserted: inputs.length, updated: 0, failed: 0, errors: [] };
+    }),
+    findByExecution: vi.fn(async (tenantId, executionId, _filter, pagination = { page: 1, pageSize: 100 }) => {
+      const matching = Array.from(rows.values()).filter(
+        (r) => r.tenantId === tenantId && r.executionId === executionId
+      );
+      const start = (pagination.page - 1) * pagination.pageSize;
+      return {
+        data: matching.slice(start, start + pagination.pageSize),
+        total: matching.length,
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        totalPages: Math.ceil(matching.length / pagination.pageSize),
+      };
+    }),
+  } satisfies Partial<IMergedNodeRepository>;
+  return repository as typeof repository & IMergedNodeRepository;
+}
+
+describe('MergedGraphStore', () => {
+  let rollupRepository: MockRollupRepository;
+  let mergedNodeRepository: ReturnType<typeof createMergedNodeRepository>;
+  let store: MergedGraphStore;
+
+  const tenantId = createTenantId();
+  const rollupId = 'rollup_1' as RollupId;
+  const executionId = 'exec_1' as RollupExecutionId;
+
+  beforeEach(() => {
+    rollupRepository = createMockRollupRepository();
+    mergedNodeRepository = createMergedNodeRepository();
+    store = new MergedGraphStore(rollupRepository, mergedNodeRepository);
+  });
+
+  it('should round-trip merged nodes and edges of an execution', async () => {
+    const bucket = createMergedNode();
+    const role = createMergedNode({ name: 'aws_iam_role.reader', matchInfo: { strategy: 'name', confidence: 80, matchCount: 2 } });
+    const edges: GraphEdge[] = [
+      { id: 'edge_1', source: role.id, target: bucket.id, type: 'references', metadata: { implicit: false, confidence: 100 } },
+    ];
+
+    const repositoryNames = new Map(bucket.sourceRepoIds.map((repoId, i) => [repoId, `repo-${i}`]));
+
+    await store.saveGraph(tenantId, rollupId, executionId, { mergedNodes: [bucket, role], edges, repositoryNames });
+    const loaded = await store.loadGraph(tenantId, executionId);
+
+    expect(loaded).toEqual({ mergedNodes: [bucket, role], edges, repositoryNames });
+    expect(rollupRepository.saveExecutionEdgesSpy).toHaveBeenCalledWith(
+      tenantId, rollupId, executionId, edges, repositoryNames
+    );
+  });
+
+  it('should page through large executions', async () => {
+    const mergedNodes = Array.from({ length: 1500 }, (_, i) => createMergedNode({ name: `node_${i}` }));
+
+    await store.saveGraph(tenantId, rollupId, executionId, { mergedNodes, edges: [], repositoryNames: new Map() });
+    const loaded = await store.loadGraph(tenantId, executionId);
+
+    expect(loaded?.mergedNodes).toHaveLength(1500);
+    expect(mergedNodeRepository.findByExecution).toHaveBeenCalledTimes(2);
+  });
+
+  it('should return null for executions without a persisted graph', async () => {
+    await expect(store.loadGraph(tenantId, executionId)).resolves.toBeNull();
+    expect(mergedNodeRepository.findByExecution).not.toHaveBeenCalled();
+  });
+
+  it('should not mark the graph complete when nodes fail to persist', async () => {
+    mergedNodeRepository.batchUpsertNodes.mockResolvedValueOnce({
+      inserted: 0,
+      updated: 0,
+      failed: 1,
+      errors: [{ index: 0, error: 'connection reset' }],
+    });
+
+    await expect(
+      store.saveGraph(tenantId, rollupId, executionId, { mergedNodes: [createMergedNode()], edges: [], repositoryNames: new Map() })
+    ).rejects.toThrow(RollupExecutionError);
+    expect(rollupRepository.saveExecutionEdgesSpy).not.toHaveBeenCalled();
+    await expect(store.loadGraph(tenantId, executionId)).resolves.toBeNull();
+  });
+});
@@ -174,11 +174,15 @@ export const INTERFACE_SIGNATURES = {
       'update',
       'delete',
       'updateStatus',
+      'findScheduled',
       'createExecution',
       'findExecutionById',
       'findLatestExecution',
       'updateExecution',
       'listExecutions',
+      'saveExecutionEdges',
+      'findExecutionEdges',
+      'findRepositoryNames',
     ],
   },
   IMatcherFactory: {
@@ -192,7 +196,7 @@ export const INTERFACE_SIGNATURES = {
     methods: ['merge', 'validateInput'],
   },
   IBlastRadiusEngine: {
-    methods: ['analyze', 'getCached'],
+    methods: ['registerGraph', 'analyze', 'getCached'],
   },
   IRollupEventEmitter: {
     methods: ['emit', 'on', 'off', 'removeAllListeners'],
@@ -104,11 +104,15 @@ const INTERFACE_SIGNATURES = {
       'update',
       'delete',
       'updateStatus',
+      'findScheduled',
       'createExecution',
       'findExecutionById',
       'findLatestExecution',
       'updateExecution',
       'listExecutions',
+      'saveExecutionEdges',
+      'findExecutionEdges',
+      'findRepositoryNames',
     ],
   },
   IMatcherFactory: {
@@ -122,7 +126,7 @@ const INTERFACE_SIGNATURES = {
     methods: ['merge', 'validateInput'],
   },
   IBlastRadiusEngine: {
-    methods: ['analyze', 'getCached'],
+    methods: ['registerGraph', 'analyze', 'getCached'],
   },
   IRollupEventEmitter: {
     methods: ['emit', 'on', 'off', 'removeAllListeners'],
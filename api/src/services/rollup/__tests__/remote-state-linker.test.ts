@@ -0,0 +1,164 @@
+/**
+ * Remote State Linker Unit Tests
+ * @module services/rollup/__tests__/remote-state-linker.test
+ *
+ * Tests for cross-repository output_value edges between terraform_remote_state
+ * consumers and the outputs writing the state they read.
+ *
+ * TASK-TFSTATE-001: Terraform remote state cross-repository linking
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { RemoteStateLinker } from '../remote-state-linker.js';
+import type { ExternalObjectEntry } from '../external-object-index/interfaces.js';
+import type { MergedNode } from '../../../types/rollup.js';
+import type { NodeType } from '../../../types/graph.js';
+import {
+  createTenantId,
+  createRepositoryId,
+  createScanId,
+} from './fixtures/rollup-fixtures.js';
+import { createGraphWithNodes, createTerraformDataNode, createNodeLocation } from './fixtures/graph-fixtures.js';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const STATE = 's3://acme-state/network/terraform.tfstate';
+
+function createOutputNode(id: string, name: string, state = STATE): NodeType {
+  return {
+    id,
+    type: 'terraform_output',
+    name,
+    value: 'aws_vpc.main.id',
+    sensitive: false,
+    location: createNodeLocation(),
+    metadata: { remoteState: state },
+  } as NodeType;
+}
+
+function createConsumerNode(outputs: string[]): NodeType {
+  return createTerraformDataNode({
+    id: 'data.terraform_remote_state.network',
+    name: 'network',
+    dataType: 'terraform_remote_state',
+    metadata: { remoteState: STATE, remoteStateOutputs: outputs },
+  });
+}
+
+function createIndexEntry(overrides: Partial<ExternalObjectEntry>): ExternalObjectEntry {
+  return {
+    id: 'entry-1',
+    externalId: STATE,
+    referenceType: 'tf_state',
+    normalizedId: STATE,
+    tenantId: createTenantId(),
+    repositoryId: createRepositoryId(),
+    scanId: createScanId(),
+    nodeId: 'output.vpc_id',
+    nodeName: 'vpc_id',
+    nodeType: 'terraform_output',
+    filePath: 'outputs.tf',
+    components: { backend: 's3', address: 'acme-state/network/terraform.tfstate' },
+    metadata: { role: 'output', output: 'vpc_id' },
+    indexedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('RemoteStateLinker', () => {
+  const producerRepo = createRepositoryId();
+  const consumerRepo = createRepositoryId();
+
+  function graphs(producers: NodeType[], consumer: NodeType) {
+    return [
+      { graph: createGraphWithNodes(producers), repositoryId: producerRepo, scanId: createScanId() },
+      { graph: createGraphWithNodes([consumer]), repositoryId: consumerRepo, scanId: createScanId() },
+    ];
+  }
+
+  it('should link consumers to outputs of other repositories in the rollup', async () => {
+    const linker = new RemoteStateLinker();
+
+    const edges = await linker.link({
+      tenantId: createTenantId(),
+      graphs: graphs(
+        [createOutputNode('output.vpc_id', 'vpc_id'), createOutputNode('output.other', 'vpc_id', 's3://acme-state/other')],
+        createConsumerNode(['vpc_id'])
+      ),
+      mergedNodes: [],
+    });
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0]).toMatchObject({
+      source: 'output.vpc_id',
+      target: 'data.terraform_remote_state.network',
+      type: 'output_value',
+      metadata: { sourceRepositoryId: producerRepo, targetRepositoryId: consumerRepo, isCrossRepoEdge: true },
+    });
+  });
+
+  it('should point edges at merged nodes', async () => {
+    const linker = new RemoteStateLinker();
+    const merged = {
+      id: 'merged_1',
+      sourceNodeIds: ['output.vpc_id'],
+      sourceRepoIds: [producerRepo],
+    } as MergedNode;
+
+    const edges = await linker.link({
+      tenantId: createTenantId(),
+      graphs: graphs([createOutputNode('output.vpc_id', 'vpc_id')], createConsumerNode(['vpc_id'])),
+      mergedNodes: [merged],
+    });
+
+    expect(edges.map((e) => e.source)).toEqual(['merged_1']);
+  });
+
+  it('should find producers outside the rollup through the index', async () => {
+    const entry = createIndexEntry({});
+    const lookupByExternalId = vi.fn().mockResolvedValue({ entries: [entry] });
+    const linker = new RemoteStateLinker({ lookupByExternalId });
+    const tenantId = createTenantId();
+
+    const edges = await linker.link({
+      tenantId,
+      graphs: graphs([], createConsumerNode(['vpc_id'])),
+      mergedNodes: [],
+    });
+
+    expect(lookupByExternalId).toHaveBeenCalledWith(tenantId, STATE, { referenceType: 'tf_state' });
+    expect(edges).toHaveLength(1);
+    expect(edges[0]?.metadata).toMatchObject({ sourceRepositoryId: entry.repositoryId });
+  });
+
+  it('should fall back to the unit owning the state', async () => {
+    const owner = createIndexEntry({ nodeId: 'tg-config-vpc', nodeType: 'tg_config', metadata: { role: 'state' } });
+    const linker = new RemoteStateLinker({ lookupByExternalId: vi.fn().mockResolvedValue({ entries: [owner] }) });
+
+    const edges = await linker.link({
+      tenantId: createTenantId(),
+      graphs: graphs([], createConsumerNode(['subnet_ids'])),
+      mergedNodes: [],
+    });
+
+    expect(edges.map((e) => [e.source, e.label])).toEqual([['tg-config-vpc', 'outputs.subnet_ids']]);
+  });
+
+  it('should leave consumers unlinked when the index lookup fails', async () => {
+    const linker = new RemoteStateLinker({ lookupByExternalId: vi.fn().mockRejectedValue(new Error('down')) });
+
+    const edges = await linker.link({
+      tenantId: createTenantId(),
+      graphs: graphs([], createConsumerNode(['vpc_id'])),
+      mergedNodes: [],
+    });
+
+    expect(edges).toEqual([]);
+  });
+});
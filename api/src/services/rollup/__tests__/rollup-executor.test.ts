@@ -189,6 +189,28 @@ describe.skip('RollupExecutor', () => {
       );
     });
 
+    it('should leave the execution open when the failure is not final', async () => {
+      const execution = createExecutionEntity();
+      const config = createRollupConfig({ id: rollupId });
+
+      mockMergeEngine.merge = vi.fn().mockImplementation(() => {
+        throw new Error('Merge failed');
+      });
+
+      await expect(
+        executor.execute(execution, config, { isFinalFailure: () => false })
+      ).rejects.toThrow('Merge failed');
+
+      expect(mockRepository.updateExecutionSpy).not.toHaveBeenCalledWith(
+        tenantId,
+        execution.id,
+        expect.objectContaining({ status: 'failed' })
+      );
+      expect(mockEventEmitter.emit).not.toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'rollup.execution.failed' })
+      );
+    });
+
     it('should create matchers from config', async () => {
       const execution = createExecutionEntity();
       const config = createRollupConfig({ id: rollupId });
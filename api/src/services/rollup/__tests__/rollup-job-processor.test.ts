@@ -0,0 +1,236 @@
+/**
+ * Rollup Job Processor Unit Tests
+ * @module services/rollup/__tests__/rollup-job-processor.test
+ *
+ * Tests for executing rollup queue jobs, schedule triggers and retry handling.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { RollupJobProcessor, isRollupScheduled } from '../rollup-job-processor.js';
+import { RollupConfigurationError } from '../errors.js';
+import type { RollupEntity } from '../interfaces.js';
+import { MockRollupRepository, createMockRollupRepository } from './utils/mock-repository.js';
+import { createMockEventEmitter } from './utils/test-helpers.js';
+import {
+  createTenantId,
+  createScanId,
+  createRollupCreateRequest,
+} from './fixtures/rollup-fixtures.js';
+import {
+  createRollupExecuteJob,
+  createScheduledExecutionJob,
+} from '../../../queues/rollup-jobs.js';
+import type { IRollupEventEmitter } from '../rollup-event-emitter.js';
+import type { ScanId } from '../../../types/entities.js';
+
+describe('RollupJobProcessor', () => {
+  let repository: MockRollupRepository;
+  let eventEmitter: IRollupEventEmitter;
+  let executor: { execute: ReturnType<typeof vi.fn> };
+  let processor: RollupJobProcessor;
+
+  const tenantId = createTenantId();
+  const pinnedScanId = createScanId();
+
+  beforeEach(() => {
+    repository = createMockRollupRepository();
+    eventEmitter = createMockEventEmitter();
+    executor = { execute: vi.fn().mockResolvedValue({ status: 'completed' }) };
+    processor = new RollupJobProcessor({
+      rollupRepository: repository,
+      executor: executor as any,
+      eventEmitter,
+    });
+  });
+
+  afterEach(() => {
+    repository.reset();
+  });
+
+  async function createScheduledRollup(
+    schedule: RollupEntity['schedule'] = { enabled: true, cron: '0 2 * * *', timezone: 'UTC', onScanComplete: false }
+  ): Promise<RollupEntity> {
+    const rollup = await repository.create(
+      tenantId,
+      'user-1',
+      createRollupCreateRequest({ scanIds: [pinnedScanId], schedule: schedule ?? undefined })
+    );
+    return repository.updateStatus(tenantId, rollup.id, 'active');
+  }
+
+  describe('isRollupScheduled', () => {
+    it('should require an enabled cron on a live rollup', async () => {
+      const rollup = await createScheduledRollup();
+
+      expect(isRollupScheduled(rollup)).toBe(true);
+      expect(isRollupScheduled({ ...rollup, status: 'archived' })).toBe(false);
+      expect(isRollupScheduled({ ...rollup, schedule: { ...rollup.schedule!, enabled: false } })).toBe(false);
+      expect(isRollupScheduled({ ...rollup, schedule: null })).toBe(false);
+    });
+  });
+
+  describe('processScheduledJob', () => {
+    it('should create an execution, emit the schedule trigger and execute the rollup', async () => {
+      const rollup = await createScheduledRollup();
+      const payload = createScheduledExecutionJob(
+        tenantId, rollup.id, '0 2 * * *', 'Europe/Berlin', new Date('2026-10-18T00:00:00Z')
+      );
+
+      await processor.processScheduledJob(payload);
+
+      expect(repository.createExecutionSpy).toHaveBeenCalledWith(tenantId, rollup.id, [pinnedScanId], undefined, undefined);
+      expect(eventEmitter.emit).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'rollup.schedule.triggered',
+        rollupId: rollup.id,
+        data: expect.objectContaining({
+          triggerType: 'cron',
+          cron: '0 2 * * *',
+          timezone: 'Europe/Berlin',
+          scheduledTime: '2026-10-18T00:00:00.000Z',
+        }),
+      }));
+      expect(executor.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ rollupId: rollup.id, scanIds: [pinnedScanId] }),
+        expect.objectContaining({ id: rollup.id, mergeOptions: expect.any(Object) }),
+        { isFinalFailure: expect.any(Function) }
+      );
+    });
+
+    it('should use the latest completed scan of each repository', async () => {
+      const rollup = await createScheduledRollup();
+      const latest = new Map<string, { id: ScanId }>([
+        [rollup.repositoryIds[0]!, { id: createScanId() }],
+      ]);
+      const getLatestCompletedForRepository = vi.fn(async (repositoryId: string) => latest.get(repositoryId) ?? null);
+      processor = new RollupJobProcessor({
+        rollupRepository: repository,
+        executor: executor as any,
+        eventEmitter,
+        scanSource: { getLatestCompletedForRepository },
+      });
+
+      await processor.processScheduledJob(createScheduledExecutionJob(tenantId, rollup.id, '0 2 * * *'));
+
+      expect(executor.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ scanIds: [latest.get(rollup.repositoryIds[0]!)!.id] }),
+        expect.anything(),
+        expect.anything()
+      );
+      expect(getLatestCompletedForRepository).toHaveBeenCalledTimes(rollup.repositoryIds.length);
+    });
+
+    it('should re-run the execution of an earlier attempt on retry', async () => {
+      const rollup = await createScheduledRollup();
+      const onExecutionCreated = vi.fn().mockResolvedValue(undefined);
+      executor.execute.mockRejectedValueOnce(new Error('connect ECONNREFUSED 10.0.0.1:5432'));
+
+      const payload = createScheduledExecutionJob(tenantId, rollup.id, '0 2 * * *');
+      await expect(processor.processScheduledJob(payload, onExecutionCreated)).rejects.toThrow('ECONNREFUSED');
+
+      const executionId = onExecutionCreated.mock.calls[0]![0] as string;
+      await processor.processScheduledJob({ ...payload, executionId }, onExecutionCreated);
+
+      expect(repository.createExecutionSpy).toHaveBeenCalledTimes(1);
+      expect(onExecutionCreated).toHaveBeenCalledTimes(1);
+      expect(executor.execute.mock.calls[1]![0]).toMatchObject({ id: executionId });
+
+      await repository.updateExecution(tenantId, executionId as any, { status: 'completed' });
+      await expect(processor.processScheduledJob({ ...payload, executionId })).resolves.toBeNull();
+      expect(executor.execute).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip rollups that are no longer scheduled', async () => {
+      const rollup = await createScheduledRollup({ enabled: false, cron: '0 2 * * *', onScanComplete: false });
+
+      const result = await processor.processScheduledJob(
+        createScheduledExecutionJob(tenantId, rollup.id, '0 2 * * *')
+      );
+
+      expect(result).toBeNull();
+      expect(repository.createExecutionSpy).not.toHaveBeenCalled();
+      expect(executor.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('processExecuteJob', () => {
+    it('should execute a pending execution and skip completed ones', async () => {
+      const rollup = await createScheduledRollup();
+      const execution = await repository.createExecution(tenantId, rollup.id, [pinnedScanId]);
+      const payload = createRollupExecuteJob(tenantId, rollup.id, execution.id, [pinnedScanId]);
+
+      await processor.processExecuteJob(payload);
+      expect(executor.execute).toHaveBeenCalledTimes(1);
+
+      await repository.updateExecution(tenantId, execution.id, { status: 'completed' });
+      await expect(processor.processExecuteJob(payload)).resolves.toBeNull();
+      expect(executor.execute).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject jobs for unknown executions', async () => {
+      const payload = createRollupExecuteJob(tenantId, 'rollup_missing', 'exec_missing', []);
+
+      await expect(processor.processExecuteJob(payload)).rejects.toThrow('Rollup execution not found');
+    });
+  });
+
+  describe('isRetryableError', () => {
+    it('should retry transient failures and fail rollup errors marked non-retryable', () => {
+      expect(processor.isRetryableError(new Error('connect ECONNREFUSED 10.0.0.1:5432'))).toBe(true);
+      expect(processor.isRetryableError(new RollupConfigurationError('Invalid matcher configuration'))).toBe(false);
+    });
+
+    it('should rethrow execution failures', async () => {
+      const rollup = await createScheduledRollup();
+      executor.execute.mockRejectedValueOnce(new RollupConfigurationError('Invalid matcher configuration'));
+
+      await expect(
+        processor.processScheduledJob(createScheduledExecutionJob(tenantId, rollup.id, '0 2 * * *'))
+      ).rejects.toBeInstanceOf(RollupConfigurationError);
+    });
+  });
+
+  describe('final attempts', () => {
+    it('should fail the execution on the final attempt only', async () => {
+      const rollup = await createScheduledRollup();
+      const execution = await repository.createExecution(tenantId, rollup.id, [pinnedScanId]);
+      const payload = createRollupExecuteJob(tenantId, rollup.id, execution.id, [pinnedScanId]);
+      const transient = new Error('connect ECONNREFUSED 10.0.0.1:5432');
+      executor.execute.mockRejectedValue(transient);
+
+      await expect(processor.processExecuteJob(payload, { attempt: 1, maxAttempts: 3 })).rejects.toBe(transient);
+      await expect(processor.processExecuteJob(payload, { attempt: 3, maxAttempts: 3 })).rejects.toBe(transient);
+
+      const isFinalFailure = (call: number) => executor.execute.mock.calls[call]![2].isFinalFailure;
+      expect(isFinalFailure(0)(transient)).toBe(false);
+      expect(isFinalFailure(0)(new RollupConfigurationError('Invalid matcher configuration'))).toBe(true);
+      expect(isFinalFailure(1)(transient)).toBe(true);
+    });
+
+    it('should dead-letter executions whose final attempt failed', async () => {
+      const addToDeadLetterQueue = vi.fn();
+      processor = new RollupJobProcessor({
+        rollupRepository: repository,
+        executor: executor as any,
+        eventEmitter,
+        errorRecovery: { addToDeadLetterQueue },
+      });
+      const rollup = await createScheduledRollup();
+      const execution = await repository.createExecution(tenantId, rollup.id, [pinnedScanId]);
+      const payload = createRollupExecuteJob(tenantId, rollup.id, execution.id, [pinnedScanId]);
+      const transient = new Error('connect ECONNREFUSED 10.0.0.1:5432');
+      executor.execute.mockRejectedValue(transient);
+
+      await expect(processor.processExecuteJob(payload, { attempt: 2, maxAttempts: 3 })).rejects.toBe(transient);
+      expect(addToDeadLetterQueue).not.toHaveBeenCalled();
+
+      await expect(processor.processExecuteJob(payload, { attempt: 3, maxAttempts: 3 })).rejects.toBe(transient);
+      expect(addToDeadLetterQueue).toHaveBeenCalledWith(
+        execution.id,
+        rollup.id,
+        tenantId,
+        transient,
+        expect.objectContaining({ attemptCount: 3, maxAttempts: 3, executionOptions: payload.options })
+      );
+    });
+  });
+});
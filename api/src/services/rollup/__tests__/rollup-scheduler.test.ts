@@ -0,0 +1,101 @@
+/**
+ * Rollup Scheduler Unit Tests
+ * @module services/rollup/__tests__/rollup-scheduler.test
+ *
+ * Tests for registering rollup cron schedules as repeatable queue jobs.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  RollupScheduler,
+  getRollupSchedulerId,
+  ROLLUP_SCHEDULER_PREFIX,
+  type IRollupScheduleQueue,
+} from '../rollup-scheduler.js';
+import { MockRollupRepository, createMockRollupRepository } from './utils/mock-repository.js';
+import { createTenantId, createRollupCreateRequest } from './fixtures/rollup-fixtures.js';
+import type { RollupEntity } from '../interfaces.js';
+
+/**
+ * In-memory job scheduler store standing in for a BullMQ queue
+ */
+function createScheduleQueue(existing: string[] = []) {
+  const schedulers = new Map<string, unknown>(existing.map((key) => [key, {}]));
+  const queue = {
+    upsertJobScheduler: vi.fn(async (id: string, repeat: { pattern: string }, template: unknown) => {
+      if (repeat.pattern === 'not a cron') {
+        throw new Error('Invalid cron expression');
+      }
+      schedulers.set(id, template);
+    }),
+    removeJobScheduler: vi.fn(async (id: string) => schedulers.delete(id)),
+    getJobSchedulers: vi.fn(async () => Array.from(schedulers.keys(), (key) => ({ key }))),
+  } satisfies IRollupScheduleQueue;
+  return { queue, schedulers };
+}
+
+describe('RollupScheduler', () => {
+  let repository: MockRollupRepository;
+  const tenantId = createTenantId();
+
+  beforeEach(() => {
+    repository = createMockRollupRepository();
+  });
+
+  async function createRollup(schedule: RollupEntity['schedule'], status: RollupEntity['status'] = 'active') {
+    const rollup = await repository.create(
+      tenantId,
+      'user-1',
+      createRollupCreateRequest({ schedule: schedule ?? undefined })
+    );
+    return repository.updateStatus(tenantId, rollup.id, status);
+  }
+
+  it('should register a repeatable job for each scheduled rollup', async () => {
+    const nightly = await createRollup({ enabled: true, cron: '0 2 * * *', timezone: 'Europe/Berlin', onScanComplete: false });
+    await createRollup({ enabled: false, cron: '0 3 * * *', onScanComplete: false });
+    await createRollup({ enabled: true, cron: '0 4 * * *', onScanComplete: false }, 'draft');
+    const { queue } = createScheduleQueue();
+
+    const result = await new RollupScheduler(repository, queue).sync();
+
+    expect(result).toEqual({ registered: 1, removed: 0, failed: 0 });
+    expect(queue.upsertJobScheduler).toHaveBeenCalledWith(
+      getRollupSchedulerId(nightly),
+      { pattern: '0 2 * * *', tz: 'Europe/Berlin' },
+      expect.objectContaining({
+        name: 'scheduled-execution',
+        data: expect.objectContaining({
+          type: 'scheduled-execution',
+          tenantId,
+          rollupId: nightly.id,
+          schedule: expect.objectContaining({ cron: '0 2 * * *', timezone: 'Europe/Berlin' }),
+        }),
+        opts: expect.objectContaining({ attempts: 3, backoff: { type: 'exponential', delay: 5000 } }),
+      })
+    );
+  });
+
+  it('should remove schedules of rollups that are no longer scheduled', async () => {
+    const rollup = await createRollup({ enabled: true, cron: '0 2 * * *', onScanComplete: false });
+    const stale = `${ROLLUP_SCHEDULER_PREFIX}${tenantId}:rollup_deleted`;
+    const { queue, schedulers } = createScheduleQueue([stale, 'other-scheduler']);
+
+    const result = await new RollupScheduler(repository, queue).sync();
+
+    expect(result.removed).toBe(1);
+    expect(Array.from(schedulers.keys()).sort()).toEqual(
+      [getRollupSchedulerId(rollup), 'other-scheduler'].sort()
+    );
+  });
+
+  it('should keep synchronizing when a schedule cannot be registered', async () => {
+    await createRollup({ enabled: true, cron: 'not a cron', onScanComplete: false });
+    await createRollup({ enabled: true, cron: '0 2 * * *', onScanComplete: false });
+    const { queue } = createScheduleQueue();
+
+    const result = await new RollupScheduler(repository, queue).sync();
+
+    expect(result).toEqual({ registered: 1, removed: 0, failed: 1 });
+  });
+});
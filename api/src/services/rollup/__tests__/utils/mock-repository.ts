@@ -10,6 +10,7 @@ import type {
   IRollupRepository,
   RollupEntity,
   RollupExecutionEntity,
+  RollupExecutionEdges,
 } from '../../interfaces.js';
 import type {
   RollupId,
@@ -23,6 +24,7 @@ import type {
   MatchResult,
 } from '../../../../types/rollup.js';
 import type { TenantId, RepositoryId, ScanId } from '../../../../types/entities.js';
+import type { GraphEdge } from '../../../../types/graph.js';
 import { randomUUID } from 'crypto';
 
 // ============================================================================
@@ -32,6 +34,8 @@ import { randomUUID } from 'crypto';
 export class MockRollupRepository implements IRollupRepository {
   private rollups: Map<string, RollupEntity> = new Map();
   private executions: Map<string, RollupExecutionEntity> = new Map();
+  private executionEdges: Map<string, { tenantId: TenantId } & RollupExecutionEdges> = new Map();
+  private repositoryNames: Map<string, string> = new Map();
 
   // Spy functions for verification
   public createSpy: Mock;
@@ -40,11 +44,15 @@ export class MockRollupRepository implements IRollupRepository {
   public updateSpy: Mock;
   public deleteSpy: Mock;
   public updateStatusSpy: Mock;
+  public findScheduledSpy: Mock;
   public createExecutionSpy: Mock;
   public findExecutionByIdSpy: Mock;
   public findLatestExecutionSpy: Mock;
   public updateExecutionSpy: Mock;
   public listExecutionsSpy: Mock;
+  public saveExecutionEdgesSpy: Mock;
+  public findExecutionEdgesSpy: Mock;
+  public findRepositoryNamesSpy: Mock;
 
   constructor() {
     this.createSpy = vi.fn();
@@ -53,11 +61,15 @@ export class MockRollupRepository implements IRollupRepository {
     this.updateSpy = vi.fn();
     this.deleteSpy = vi.fn();
     this.updateStatusSpy = vi.fn();
+    this.findScheduledSpy = vi.fn();
     this.createExecutionSpy = vi.fn();
     this.findExecutionByIdSpy = vi.fn();
     this.findLatestExecutionSpy = vi.fn();
     this.updateExecutionSpy = vi.fn();
     this.listExecutionsSpy = vi.fn();
+    this.saveExecutionEdgesSpy = vi.fn();
+    this.findExecutionEdgesSpy = vi.fn();
+    this.findRepositoryNamesSpy = vi.fn();
   }
 
   async create(
@@ -213,6 +225,18 @@ export class MockRollupRepository implements IRollupRepository {
     return updated;
   }
 
+  async findScheduled(): Promise<RollupEntity[]> {
+    this.findScheduledSpy();
+
+    return Array.from(this.rollups.values()).filter(
+      (e) =>
+        e.status !== 'draft' &&
+        e.status !== 'archived' &&
+        e.schedule?.enabled === true &&
+        !!e.schedule.cron
+    );
+  }
+
   async createExecution(
     tenantId: TenantId,
     rollupId: RollupId,
@@ -321,6 +345,48 @@ export class MockRollupRepository implements IRollupRepository {
     return limit ? executions.slice(0, limit) : executions;
   }
 
+  async saveExecutionEdges(
+    tenantId: TenantId,
+    rollupId: RollupId,
+    executionId: RollupExecutionId,
+    edges: GraphEdge[],
+    repositoryNames: Map<string, string>
+  ): Promise<void> {
+    this.saveExecutionEdgesSpy(tenantId, rollupId, executionId, edges, repositoryNames);
+
+    this.executionEdges.set(executionId, {
+      tenantId,
+      edges: [...edges],
+      repositoryNames: new Map(repositoryNames),
+    });
+  }
+
+  async findExecutionEdges(
+    tenantId: TenantId,
+    executionId: RollupExecutionId
+  ): Promise<RollupExecutionEdges | null> {
+    this.findExecutionEdgesSpy(tenantId, executionId);
+
+    const stored = this.executionEdges.get(executionId);
+    if (stored && stored.tenantId === tenantId) {
+      return { edges: stored.edges, repositoryNames: stored.repositoryNames };
+    }
+    return null;
+  }
+
+  async findRepositoryNames(
+    tenantId: TenantId,
+    repositoryIds: string[]
+  ): Promise<Map<string, string>> {
+    this.findRepositoryNamesSpy(tenantId, repositoryIds);
+
+    return new Map(
+      repositoryIds
+        .filter((id) => this.repositoryNames.has(id))
+        .map((id) => [id, this.repositoryNames.get(id)!])
+    );
+  }
+
   // ============================================================================
   // Test Helpers
   // ============================================================================
@@ -328,6 +394,8 @@ export class MockRollupRepository implements IRollupRepository {
   reset(): void {
     this.rollups.clear();
     this.executions.clear();
+    this.executionEdges.clear();
+    this.repositoryNames.clear();
     vi.clearAllMocks();
   }
 
@@ -339,6 +407,10 @@ export class MockRollupRepository implements IRollupRepository {
     this.executions.set(entity.id, entity);
   }
 
+  seedRepositoryName(repositoryId: string, name: string): void {
+    this.repositoryNames.set(repositoryId, name);
+  }
+
   getRollupCount(): number {
     return this.rollups.size;
   }
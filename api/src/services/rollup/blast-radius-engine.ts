@@ -5,18 +5,51 @@
  * Engine for analyzing the impact (blast radius) of changes to nodes in a merged graph.
  * Uses graph traversal to identify all affected nodes across repositories.
  *
+ * Hot graphs are held in a bounded LRU. With a graph store, graphs missing from
+ * memory are loaded lazily, so any API instance can analyze any execution; with
+ * a rollup cache, results are shared between instances.
+ *
  * TASK-ROLLUP-001: Cross-Repository Aggregation blast radius analysis
  */
 
+import { createHash } from 'crypto';
 import {
   RollupExecutionId,
   BlastRadiusQuery,
   BlastRadiusResponse,
   MergedNode,
 } from '../../types/rollup.js';
+import { TenantId } from '../../types/entities.js';
 import { GraphEdge, EdgeType } from '../../types/graph.js';
-import { IBlastRadiusEngine } from './interfaces.js';
+import { LRUCache } from '../../optimization/cache.js';
+import { IBlastRadiusEngine, IMergedGraphStore } from './interfaces.js';
 import { RollupBlastRadiusError } from './errors.js';
+import {
+  IRollupCache,
+  createCacheEntryMetadata,
+  DEFAULT_ROLLUP_CACHE_CONFIG,
+} from './rollup-cache/interfaces.js';
+
+/**
+ * Blast radius engine options
+ */
+export interface BlastRadiusEngineOptions {
+  /** In-process result cache TTL in milliseconds */
+  readonly cacheTtlMs?: number;
+  /** Maximum number of execution graphs held in memory */
+  readonly maxGraphs?: number;
+  /** Durable store for loading graphs that are not held in memory */
+  readonly graphStore?: IMergedGraphStore;
+  /** Rollup cache sharing analysis results between instances */
+  readonly resultCache?: IRollupCache;
+  /** TTL in seconds of results in the rollup cache */
+  readonly resultCacheTtlSeconds?: number;
+}
+
+/**
+ * Default maximum number of execution graphs held in memory
+ */
+export const DEFAULT_MAX_GRAPHS = 20;
 
 /**
  * Node information for blast radius analysis
@@ -50,6 +83,8 @@ interface AnalysisGraph {
   readonly reverseEdges: Map<string, Array<{ sourceId: string; edgeType: EdgeType }>>;
   /** All edges */
   readonly edges: GraphEdge[];
+  /** Repository name lookup */
+  readonly repositoryNames: Map<string, string>;
 }
 
 /**
@@ -100,6 +135,14 @@ const EDGE_TYPE_WEIGHTS: Record<EdgeType, number> = {
   rbac_binding: 6,
   configmap_ref: 5,
   secret_ref: 7,
+  base_image: 8,
+  copies_from: 6,
+  runs_image: 9,
+  kustomize_base: 9,
+  kustomize_renders: 10,
+  kustomize_patches: 8,
+  helm_renders: 10,
+  expands_to: 10,
 };
 
 /**
@@ -125,26 +168,35 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
   private readonly cacheTtlMs: number;
 
   /**
-   * Graph data indexed by execution ID
+   * Hot graph data indexed by execution ID
    */
-  private readonly graphData: Map<string, AnalysisGraph> = new Map();
+  private readonly graphData: LRUCache<string, AnalysisGraph>;
 
   /**
-   * Repository name lookup
+   * Graph loads in flight, shared by concurrent analyses
    */
-  private readonly repositoryNames: Map<string, string> = new Map();
+  private readonly pendingLoads: Map<string, Promise<AnalysisGraph | null>> = new Map();
+
+  private readonly graphStore: IMergedGraphStore | undefined;
+  private readonly resultCache: IRollupCache | undefined;
+  private readonly resultCacheTtlSeconds: number;
 
   /**
    * Create a new BlastRadiusEngine
    * @param options - Engine options
    */
-  constructor(options: { cacheTtlMs?: number } = {}) {
+  constructor(options: BlastRadiusEngineOptions = {}) {
     this.cacheTtlMs = options.cacheTtlMs ?? 3600000; // 1 hour default
+    this.graphData = new LRUCache(options.maxGraphs ?? DEFAULT_MAX_GRAPHS);
+    this.graphStore = options.graphStore;
+    this.resultCache = options.resultCache;
+    this.resultCacheTtlSeconds =
+      options.resultCacheTtlSeconds ?? DEFAULT_ROLLUP_CACHE_CONFIG.l2.blastRadiusTtlSeconds;
   }
 
   /**
    * Register graph data for an execution.
-   * Must be called before analyze() can work.
+   * Must be called before analyze() can work unless a graph store is configured.
    *
    * @param executionId - Execution ID
    * @param mergedNodes - Merged nodes from the execution
@@ -157,59 +209,7 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
     edges: GraphEdge[],
     repositoryNames: Map<string, string>
   ): void {
-    // Build analysis nodes
-    const nodes = new Map<string, AnalysisNode>();
-
-    for (const mergedNode of mergedNodes) {
-      const repoId = mergedNode.sourceRepoIds[0];
-      const repoName = repositoryNames.get(repoId) ?? repoId;
-
-      nodes.set(mergedNode.id, {
-        id: mergedNode.id,
-        type: mergedNode.type,
-        name: mergedNode.name,
-        repoId,
-        repoName,
-        isMerged: mergedNode.sourceNodeIds.length > 1,
-        sourceRepoIds: mergedNode.sourceRepoIds,
-      });
-    }
-
-    // Build adjacency lists
-    const forwardEdges = new Map<string, Array<{ targetId: string; edgeType: EdgeType }>>();
-    const reverseEdges = new Map<string, Array<{ sourceId: string; edgeType: EdgeType }>>();
-
-    for (const edge of edges) {
-      // Forward edges (who depends on this node)
-      if (!forwardEdges.has(edge.source)) {
-        forwardEdges.set(edge.source, []);
-      }
-      forwardEdges.get(edge.source)!.push({
-        targetId: edge.target,
-        edgeType: edge.type,
-      });
-
-      // Reverse edges (what this node depends on)
-      if (!reverseEdges.has(edge.target)) {
-        reverseEdges.set(edge.target, []);
-      }
-      reverseEdges.get(edge.target)!.push({
-        sourceId: edge.source,
-        edgeType: edge.type,
-      });
-    }
-
-    this.graphData.set(executionId, {
-      nodes,
-      forwardEdges,
-      reverseEdges,
-      edges,
-    });
-
-    // Store repository names
-    for (const [id, name] of repositoryNames) {
-      this.repositoryNames.set(id, name);
-    }
+    this.graphData.set(executionId, this.buildGraph(mergedNodes, edges, repositoryNames));
   }
 
   /**
@@ -217,11 +217,13 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
    *
    * @param executionId - Execution ID to analyze
    * @param query - Blast radius query parameters
+   * @param tenantId - Tenant owning the execution, required for the graph store and rollup cache
    * @returns Blast radius analysis results
    */
   async analyze(
     executionId: RollupExecutionId,
-    query: BlastRadiusQuery
+    query: BlastRadiusQuery,
+    tenantId?: TenantId
   ): Promise<BlastRadiusResponse> {
     // Check cache first
     const cached = await this.getCached(executionId, query.nodeIds);
@@ -229,8 +231,20 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
       return cached;
     }
 
+    const maxDepth = query.maxDepth ?? 5;
+    const sharedKey = this.getSharedCacheKey(executionId, query);
+
+    // Check the cache shared with other instances
+    if (tenantId && this.resultCache) {
+      const shared = await this.resultCache.getBlastRadius(tenantId, sharedKey, maxDepth);
+      if (shared) {
+        this.cacheResult(executionId, query.nodeIds, shared.data);
+        return shared.data;
+      }
+    }
+
     // Get graph data
-    const graph = this.graphData.get(executionId);
+    const graph = await this.getGraph(executionId, tenantId);
     if (!graph) {
       throw new RollupBlastRadiusError(
         `Graph data not found for execution: ${executionId}`,
@@ -248,7 +262,6 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
       }
     }
 
-    const maxDepth = query.maxDepth ?? 5;
     const edgeTypes = query.edgeTypes ? new Set(query.edgeTypes) : null;
     const includeCrossRepo = query.includeCrossRepo ?? true;
     const includeIndirect = query.includeIndirect ?? true;
@@ -365,9 +378,9 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
       for (const [edgeType, { count }] of edgeMap) {
         crossRepoImpact.push({
           sourceRepoId,
-          sourceRepoName: this.repositoryNames.get(sourceRepoId) ?? sourceRepoId,
+          sourceRepoName: graph.repositoryNames.get(sourceRepoId) ?? sourceRepoId,
           targetRepoId,
-          targetRepoName: this.repositoryNames.get(targetRepoId) ?? targetRepoId,
+          targetRepoName: graph.repositoryNames.get(targetRepoId) ?? targetRepoId,
           impactedNodes: count,
           edgeType,
         });
@@ -423,6 +436,15 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
     // Cache the result
     this.cacheResult(executionId, query.nodeIds, result);
 
+    if (tenantId && this.resultCache) {
+      await this.resultCache.setBlastRadius(tenantId, sharedKey, maxDepth, {
+        data: result,
+        nodeId: sharedKey,
+        depth: maxDepth,
+        metadata: createCacheEntryMetadata(this.resultCacheTtlSeconds, 'computation'),
+      });
+    }
+
     return result;
   }
 
@@ -472,6 +494,105 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
   // Private methods
   // ============================================================================
 
+  /**
+   * Build the analysis graph of merged nodes and edges.
+   */
+  private buildGraph(
+    mergedNodes: MergedNode[],
+    edges: GraphEdge[],
+    repositoryNames: Map<string, string>
+  ): AnalysisGraph {
+    // Build analysis nodes
+    const nodes = new Map<string, AnalysisNode>();
+
+    for (const mergedNode of mergedNodes) {
+      const repoId = mergedNode.sourceRepoIds[0];
+      const repoName = repositoryNames.get(repoId) ?? repoId;
+
+      nodes.set(mergedNode.id, {
+        id: mergedNode.id,
+        type: mergedNode.type,
+        name: mergedNode.name,
+        repoId,
+        repoName,
+        isMerged: mergedNode.sourceNodeIds.length > 1,
+        sourceRepoIds: mergedNode.sourceRepoIds,
+      });
+    }
+
+    // Build adjacency lists
+    const forwardEdges = new Map<string, Array<{ targetId: string; edgeType: EdgeType }>>();
+    const reverseEdges = new Map<string, Array<{ sourceId: string; edgeType: EdgeType }>>();
+
+    for (const edge of edges) {
+      // Forward edges (who depends on this node)
+      if (!forwardEdges.has(edge.source)) {
+        forwardEdges.set(edge.source, []);
+      }
+      forwardEdges.get(edge.source)!.push({
+        targetId: edge.target,
+        edgeType: edge.type,
+      });
+
+      // Reverse edges (what this node depends on)
+      if (!reverseEdges.has(edge.target)) {
+        reverseEdges.set(edge.target, []);
+      }
+      reverseEdges.get(edge.target)!.push({
+        sourceId: edge.source,
+        edgeType: edge.type,
+      });
+    }
+
+    return {
+      nodes,
+      forwardEdges,
+      reverseEdges,
+      edges,
+      repositoryNames: new Map(repositoryNames),
+    };
+  }
+
+  /**
+   * Get graph data from memory, loading it from the graph store on a miss.
+   */
+  private async getGraph(
+    executionId: RollupExecutionId,
+    tenantId?: TenantId
+  ): Promise<AnalysisGraph | null> {
+    const graph = this.graphData.get(executionId);
+    if (graph || !tenantId || !this.graphStore) {
+      return graph ?? null;
+    }
+
+    let pending = this.pendingLoads.get(executionId);
+    if (!pending) {
+      pending = this.loadGraph(executionId, tenantId).finally(() => {
+        this.pendingLoads.delete(executionId);
+      });
+      this.pendingLoads.set(executionId, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Load graph data from the graph store and keep it in memory.
+   */
+  private async loadGraph(
+    executionId: RollupExecutionId,
+    tenantId: TenantId
+  ): Promise<AnalysisGraph | null> {
+    const stored = await this.graphStore!.loadGraph(tenantId, executionId);
+    if (!stored) {
+      return null;
+    }
+
+    const graph = this.buildGraph(stored.mergedNodes, stored.edges, stored.repositoryNames);
+    this.graphData.set(executionId, graph);
+    return graph;
+  }
+
   /**
    * Generate cache key for a query.
    */
@@ -480,6 +601,21 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
     return `${executionId}:${sortedIds}`;
   }
 
+  /**
+   * Generate the rollup cache key for a query.
+   * Covers all traversal options; the depth is part of the rollup cache key itself.
+   */
+  private getSharedCacheKey(executionId: RollupExecutionId, query: BlastRadiusQuery): string {
+    const options = JSON.stringify({
+      nodeIds: [...query.nodeIds].sort(),
+      edgeTypes: query.edgeTypes ? [...query.edgeTypes].sort() : null,
+      includeCrossRepo: query.includeCrossRepo ?? true,
+      includeIndirect: query.includeIndirect ?? true,
+    });
+    const digest = createHash('sha256').update(options).digest('hex').slice(0, 32);
+    return `${executionId}:${digest}`;
+  }
+
   /**
    * Cache an analysis result.
    */
@@ -561,7 +697,7 @@ export class BlastRadiusEngine implements IBlastRadiusEngine {
  * Create a new BlastRadiusEngine instance
  */
 export function createBlastRadiusEngine(
-  options: { cacheTtlMs?: number } = {}
+  options: BlastRadiusEngineOptions = {}
 ): BlastRadiusEngine {
   return new BlastRadiusEngine(options);
 }
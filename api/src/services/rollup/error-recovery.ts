@@ -213,6 +213,7 @@ export class RollupErrorRecoveryService extends EventEmitter {
   private deadLetterQueue: Map<string, DeadLetterEntry> = new Map();
   private executionStates: Map<string, ExecutionState> = new Map();
   private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private deadLetterTimer: NodeJS.Timeout | null = null;
 
   constructor(
     private readonly rollupRepository: IRollupRepository,
@@ -822,7 +823,7 @@ export class RollupErrorRecoveryService extends EventEmitter {
    */
   private startDeadLetterProcessor(): void {
     // Process dead letter queue every minute
-    setInterval(() => {
+    this.deadLetterTimer = setInterval(() => {
       const now = Date.now();
       const pendingEntries = Array.from(this.deadLetterQueue.values())
         .filter(
@@ -850,6 +851,10 @@ export class RollupErrorRecoveryService extends EventEmitter {
       clearTimeout(timer);
     }
     this.retryTimers.clear();
+    if (this.deadLetterTimer) {
+      clearInterval(this.deadLetterTimer);
+      this.deadLetterTimer = null;
+    }
 
     // Emit shutdown event
     this.emit('shutdown');
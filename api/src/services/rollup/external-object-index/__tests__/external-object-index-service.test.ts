@@ -25,7 +25,7 @@ import type {
   IndexBuildOptions,
   ExternalReferenceType,
 } from '../interfaces.js';
-import { ExternalObjectIndexError, LookupError } from '../errors.js';
+import { ExternalObjectIndexError, ExternalObjectIndexErrorCodes, LookupError } from '../errors.js';
 import type { TenantId, RepositoryId, ScanId } from '../../../../types/entities.js';
 import type { DependencyGraph, NodeType } from '../../../../types/graph.js';
 
@@ -47,6 +47,8 @@ function createMockRepository(): IExternalObjectRepository & { [key: string]: Mo
       gcp_resource: 0,
       azure_resource: 0,
     }),
+    searchObjects: vi.fn().mockResolvedValue({ objects: [], total: 0, nextCursor: null }),
+    findObjectByEntryId: vi.fn().mockResolvedValue(null),
   };
 }
 
@@ -649,6 +651,121 @@ describe('ExternalObjectIndexService', () => {
     });
   });
 
+  // ==========================================================================
+  // searchObjects Tests
+  // ==========================================================================
+
+  describe('searchObjects', () => {
+    it('should delegate to the repository with a clamped limit', async () => {
+      const criteria = { referenceTypes: ['arn'] as ExternalReferenceType[], identifierPattern: 'arn:aws:s3*' };
+
+      await service.searchObjects(tenantId, criteria, { sortBy: 'identifier', limit: 5000 });
+
+      expect(mockRepository.searchObjects).toHaveBeenCalledWith(tenantId, criteria, {
+        sortBy: 'identifier',
+        limit: 1000,
+      });
+    });
+
+    it('should wrap repository failures in ExternalObjectIndexError', async () => {
+      mockRepository.searchObjects.mockRejectedValue(new Error('Query failed'));
+
+      await expect(service.searchObjects(tenantId, {}, { limit: 10 })).rejects.toThrow(
+        ExternalObjectIndexError
+      );
+    });
+
+    it('should return null when an object does not exist', async () => {
+      await expect(service.getObject(tenantId, 'missing')).resolves.toBeNull();
+      expect(mockRepository.findObjectByEntryId).toHaveBeenCalledWith(tenantId, 'missing');
+    });
+  });
+
+  // ==========================================================================
+  // Tracked Build Tests
+  // ==========================================================================
+
+  describe('tracked builds', () => {
+    beforeEach(() => {
+      mockGraphService.getLatestScanForRepository.mockResolvedValue(scanId);
+      mockGraphService.getScanGraph.mockResolvedValue(createMockGraph(5));
+      mockIndexEngine.processNodes.mockReturnValue([createMockEntry()]);
+      mockRepository.saveEntries.mockResolvedValue(1);
+    });
+
+    it('should run a build in the background and record its result', async () => {
+      const started = service.startBuild(tenantId, [repoId]);
+
+      expect(started.status).toBe('running');
+
+      const finished = await service.waitForBuild(tenantId, started.buildId);
+
+      expect(finished?.status).toBe('completed');
+      expect(finished?.result?.processedScans).toContain(scanId);
+      expect(service.getBuild(tenantId, started.buildId)).toEqual(finished);
+    });
+
+    it('should reject a second build while one is running for the tenant', async () => {
+      const started = service.startBuild(tenantId, [repoId]);
+
+      expect(() => service.startBuild(tenantId, [repoId])).toThrow(
+        expect.objectContaining({ code: ExternalObjectIndexErrorCodes.INDEX_LOCKED })
+      );
+
+      await service.waitForBuild(tenantId, started.buildId);
+    });
+
+    it('should stop a cancelled build before its next batch', async () => {
+      let releaseSave: () => void = () => {};
+      mockRepository.saveEntries.mockImplementationOnce(
+        () => new Promise<number>(resolve => {
+          releaseSave = () => resolve(1);
+        })
+      );
+
+      const started = service.startBuild(tenantId, [repoId], { batchSize: 2 });
+      await vi.waitFor(() => expect(mockRepository.saveEntries).toHaveBeenCalledTimes(1));
+
+      const cancelling = service.cancelBuild(tenantId, started.buildId, 'user request');
+      releaseSave();
+      const cancelled = await cancelling;
+
+      expect(cancelled?.status).toBe('cancelled');
+      expect(cancelled?.completedAt).toBeInstanceOf(Date);
+      expect(mockRepository.saveEntries).toHaveBeenCalledTimes(1);
+    });
+
+    it('should return finished builds unchanged when cancelled', async () => {
+      const started = service.startBuild(tenantId, [repoId]);
+      const finished = await service.waitForBuild(tenantId, started.buildId);
+
+      await expect(service.cancelBuild(tenantId, started.buildId)).resolves.toEqual(finished);
+    });
+
+    it('should list builds most recent first and filter by status', async () => {
+      const first = service.startBuild(tenantId, [repoId]);
+      await service.waitForBuild(tenantId, first.buildId);
+      mockGraphService.getLatestScanForRepository.mockRejectedValue(new Error('Database down'));
+      const second = service.startBuild(tenantId, [repoId]);
+      await service.waitForBuild(tenantId, second.buildId);
+
+      const all = service.listBuilds(tenantId, { limit: 10, offset: 0 });
+      const failed = service.listBuilds(tenantId, { status: 'failed', limit: 10, offset: 0 });
+
+      expect(all.builds.map(build => build.buildId)).toEqual([second.buildId, first.buildId]);
+      expect(failed.total).toBe(1);
+      expect(failed.builds[0]?.buildId).toBe(second.buildId);
+    });
+
+    it('should not expose builds of other tenants', async () => {
+      const started = service.startBuild(tenantId, [repoId]);
+      await service.waitForBuild(tenantId, started.buildId);
+
+      expect(service.getBuild('tenant-2' as TenantId, started.buildId)).toBeNull();
+      expect(service.listBuilds('tenant-2' as TenantId, { limit: 10, offset: 0 }).total).toBe(0);
+    });
+  });
+
   // ==========================================================================
   // Factory Function Tests
   // ==========================================================================
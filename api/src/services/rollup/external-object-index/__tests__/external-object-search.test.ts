@@ -0,0 +1,145 @@
+/**
+ * External Object Search Unit Tests
+ * @module services/rollup/external-object-index/__tests__/external-object-search.test
+ *
+ * Tests for grouping index entries into external objects, search filters
+ * and keyset pagination in ExternalObjectRepository.
+ */
+
+import { describe, it, expect, beforeEach, vi, type Mock } from 'vitest';
+import {
+  ExternalObjectRepository,
+  type IDatabaseClient,
+} from '../external-object-repository.js';
+import { IndexValidationError } from '../errors.js';
+import type { TenantId } from '../../../../types/entities.js';
+
+// ============================================================================
+// Mock Factories
+// ============================================================================
+
+function createMockDb(): IDatabaseClient & { query: Mock } {
+  return {
+    query: vi.fn().mockResolvedValue([]),
+    execute: vi.fn().mockResolvedValue({ rowsAffected: 0 }),
+    transaction: vi.fn(),
+  };
+}
+
+function createObjectRow(normalizedId: string, referenceCount = 1) {
+  return {
+    id: `entry-${normalizedId}`,
+    external_id: normalizedId.toUpperCase(),
+    reference_type: 'arn',
+    normalized_id: normalizedId,
+    components: '{"service":"s3"}',
+    reference_count: String(referenceCount),
+    node_ids: ['node-1'],
+    repository_ids: ['repo-1'],
+    scan_ids: ['scan-1'],
+    first_seen: '2026-01-01T00:00:00.000Z',
+    last_updated: '2026-02-01T00:00:00.000Z',
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('ExternalObjectRepository.searchObjects', () => {
+  const tenantId = 'tenant-1' as TenantId;
+  let db: ReturnType<typeof createMockDb>;
+  let repository: ExternalObjectRepository;
+
+  beforeEach(() => {
+    db = createMockDb();
+    repository = new ExternalObjectRepository(db);
+  });
+
+  function mockPage(rows: ReturnType<typeof createObjectRow>[], total: number): void {
+    db.query.mockResolvedValueOnce(rows).mockResolvedValueOnce([{ count: String(total) }]);
+  }
+
+  it('should map grouped rows to external objects', async () => {
+    mockPage([createObjectRow('arn:aws:s3:::logs', 3)], 1);
+
+    const page = await repository.searchObjects(tenantId, {}, { limit: 10 });
+
+    expect(page.total).toBe(1);
+    expect(page.nextCursor).toBeNull();
+    expect(page.objects[0]).toMatchObject({
+      id: 'entry-arn:aws:s3:::logs',
+      referenceType: 'arn',
+      components: { service: 's3' },
+      referenceCount: 3,
+      firstSeen: new Date('2026-01-01T00:00:00.000Z'),
+    });
+  });
+
+  it('should translate filters into query parameters', async () => {
+    mockPage([], 0);
+
+    await repository.searchObjects(
+      tenantId,
+      { referenceTypes: ['arn'], identifierPattern: 'ARN:*:s3_bucket', minReferenceCount: 2 },
+      { limit: 10 }
+    );
+
+    const [sql, params] = db.query.mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('GROUP BY reference_type, normalized_id');
+    expect(sql).toContain('HAVING COUNT(*) >=');
+    expect(params).toEqual([tenantId, 'arn', 'arn:%:s3\\_bucket', 'arn:*:s3_bucket', 'arn:%', 2, 11]);
+  });
+
+  it('should rank by relevance in the query and page by the relevance keyset', async () => {
+    mockPage([
+      { ...createObjectRow('logs'), relevance: '1' },
+      { ...createObjectRow('logs-archive'), relevance: '0.75' },
+      { ...createObjectRow('logs-backup'), relevance: '0.75' },
+    ], 3);
+
+    const first = await repository.searchObjects(
+      tenantId,
+      { identifierPattern: 'logs' },
+      { limit: 2, sortBy: 'relevance', sortOrder: 'desc' }
+    );
+
+    const [sql] = db.query.mock.calls[0] as [string, unknown[]];
+    expect(sql).toContain('AS relevance');
+    expect(sql).toContain('ORDER BY relevance DESC');
+    expect(first.objects.map(object => object.relevance)).toEqual([1, 0.75]);
+
+    mockPage([], 3);
+    await repository.searchObjects(
+      tenantId,
+      { identifierPattern: 'logs' },
+      { limit: 2, sortBy: 'relevance', sortOrder: 'desc', cursor: first.nextCursor! }
+    );
+
+    const [cursorSql, params] = db.query.mock.calls[2] as [string, unknown[]];
+    expect(cursorSql).toContain('(relevance, reference_type, normalized_id) <');
+    expect(params.slice(-4)).toEqual([0.75, 'arn', 'logs-archive', 3]);
+  });
+
+  it('should return a cursor when more rows follow and resume after it', async () => {
+    mockPage([createObjectRow('a'), createObjectRow('b'), createObjectRow('c')], 3);
+
+    const first = await repository.searchObjects(tenantId, {}, { limit: 2 });
+
+    expect(first.objects.map(object => object.normalizedId)).toEqual(['a', 'b']);
+    expect(first.nextCursor).not.toBeNull();
+
+    mockPage([createObjectRow('c')], 3);
+    await repository.searchObjects(tenantId, {}, { limit: 2, cursor: first.nextCursor! });
+
+    const [sql, params] = db.query.mock.calls[2] as [string, unknown[]];
+    expect(sql).toContain('(normalized_id, reference_type, normalized_id) >');
+    expect(params).toEqual([tenantId, 'b', 'arn', 'b', 3]);
+  });
+
+  it('should reject malformed cursors', async () => {
+    await expect(
+      repository.searchObjects(tenantId, {}, { limit: 10, cursor: 'not-a-cursor' })
+    ).rejects.toThrow(IndexValidationError);
+  });
+});
@@ -356,6 +356,27 @@ describe('ArnExtractor', () => {
       expect(refs).toHaveLength(1);
     });
 
+    it('should extract per-environment values of terraform_variable nodes', () => {
+      const node = createTerraformNode({
+        type: 'terraform_variable',
+        metadata: {
+          default: { type: 'literal', value: null, raw: 'null' },
+          values: {
+            default: null,
+            prod: 'arn:aws:iam::123456789012:role/deploy',
+            staging: ['arn:aws:sns:us-east-1:210987654321:alerts'],
+          },
+        },
+      });
+
+      const refs = extractor.extract(node);
+
+      expect(refs.map(r => [r.externalId, r.sourceAttribute, r.metadata])).toEqual([
+        ['arn:aws:iam::123456789012:role/deploy', 'values.prod', { environment: 'prod' }],
+        ['arn:aws:sns:us-east-1:210987654321:alerts', 'values.staging[0]', { environment: 'staging' }],
+      ]);
+    });
+
     it('should add source attribute information', () => {
       const node = createTerraformNode({
         metadata: {
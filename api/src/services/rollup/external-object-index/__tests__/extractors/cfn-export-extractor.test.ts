@@ -0,0 +1,113 @@
+/**
+ * CloudFormation Export Extractor Unit Tests
+ * @module services/rollup/external-object-index/__tests__/extractors/cfn-export-extractor.test
+ *
+ * Unit tests for CfnExportExtractor.
+ * Tests extraction of Export.Name and Fn::ImportValue references.
+ *
+ * TASK-CFN-001: CloudFormation cross-stack references in the external object index
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CfnExportExtractor, createCfnExportExtractor } from '../../extractors/cfn-export-extractor.js';
+import type { NodeType } from '../../../../../types/graph.js';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createOutputNode(exportName?: string, metadata: Record<string, unknown> = {}): NodeType {
+  return {
+    id: 'network.yaml#Outputs/VpcId',
+    type: 'cfn_output',
+    name: 'VpcId',
+    ...(exportName !== undefined ? { exportName } : {}),
+    metadata,
+    location: { file: 'network.yaml', lineStart: 30, lineEnd: 34 },
+  };
+}
+
+function createResourceNode(metadata: Record<string, unknown> = {}): NodeType {
+  return {
+    id: 'app.yaml#Resources/SecurityGroup',
+    type: 'cfn_resource',
+    name: 'SecurityGroup',
+    logicalId: 'SecurityGroup',
+    resourceType: 'AWS::EC2::SecurityGroup',
+    metadata,
+    location: { file: 'app.yaml', lineStart: 5, lineEnd: 12 },
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('CfnExportExtractor', () => {
+  let extractor: CfnExportExtractor;
+
+  beforeEach(() => {
+    extractor = createCfnExportExtractor();
+  });
+
+  describe('basic properties', () => {
+    it('should have referenceType of "cfn_export"', () => {
+      expect(extractor.referenceType).toBe('cfn_export');
+    });
+
+    it('should handle CloudFormation nodes only', () => {
+      expect(extractor.canHandle(createOutputNode('x'))).toBe(true);
+      expect(extractor.canHandle(createResourceNode())).toBe(true);
+      expect(extractor.canHandle({ ...createResourceNode(), type: 'k8s_service' } as NodeType)).toBe(false);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should keep case and trim whitespace', () => {
+      expect(extractor.normalize('  Prod-VpcId ')).toBe('Prod-VpcId');
+    });
+  });
+
+  describe('parseComponents', () => {
+    it('should return the export name', () => {
+      expect(extractor.parseComponents('prod-VpcId')).toEqual({ exportName: 'prod-VpcId' });
+    });
+
+    it('should return null for empty names', () => {
+      expect(extractor.parseComponents('  ')).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract export names from outputs', () => {
+      const refs = extractor.extract(createOutputNode('prod-VpcId', { exportName: 'prod-VpcId' }));
+
+      expect(refs).toHaveLength(1);
+      expect(refs[0]).toMatchObject({
+        externalId: 'prod-VpcId',
+        referenceType: 'cfn_export',
+        sourceAttribute: 'exportName',
+        metadata: { role: 'export' },
+      });
+    });
+
+    it('should fall back to the node field when metadata has no export name', () => {
+      const refs = extractor.extract(createOutputNode('prod-VpcId'));
+
+      expect(refs.map(r => r.externalId)).toEqual(['prod-VpcId']);
+    });
+
+    it('should extract imported names from resources', () => {
+      const refs = extractor.extract(createResourceNode({ importValues: ['prod-VpcId', 'prod-SubnetId'] }));
+
+      expect(refs.map(r => r.externalId)).toEqual(['prod-VpcId', 'prod-SubnetId']);
+      expect(refs.every(r => r.metadata.role === 'import')).toBe(true);
+    });
+
+    it('should skip unresolved names', () => {
+      const refs = extractor.extract(createResourceNode({ importValues: ['${AWS::StackName}-VpcId', ''] }));
+
+      expect(refs).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Container Image Extractor Unit Tests
+ * @module services/rollup/external-object-index/__tests__/extractors/container-image-extractor.test
+ *
+ * Unit tests for ContainerImageExtractor.
+ * Tests extraction of images built by Dockerfiles and run by workloads.
+ *
+ * TASK-DOCKER-001: Container images in the external object index
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ContainerImageExtractor,
+  createContainerImageExtractor,
+} from '../../extractors/container-image-extractor.js';
+import type { NodeType } from '../../../../../types/graph.js';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createStageNode(imageNames: string[]): NodeType {
+  return {
+    id: 'services/api/Dockerfile#stage/1',
+    type: 'docker_stage',
+    name: 'runtime',
+    stageIndex: 1,
+    stageName: 'runtime',
+    baseImage: 'build',
+    isFinal: true,
+    exposedPorts: [],
+    metadata: { baseImage: 'build', baseStage: 'build', imageNames },
+    location: { file: 'services/api/Dockerfile', lineStart: 8, lineEnd: 14 },
+  };
+}
+
+function createDeploymentNode(images: string[]): NodeType {
+  return {
+    id: 'k8s:Deployment/default/api',
+    type: 'k8s_deployment',
+    name: 'api',
+    selector: { app: 'api' },
+    containers: images.map((image, i) => ({ name: `c${i}`, image })),
+    metadata: {},
+    location: { file: 'k8s/api.yaml', lineStart: 1, lineEnd: 30 },
+  };
+}
+
+function createHelmValueNode(path: string, value: unknown): NodeType {
+  return {
+    id: `chart/values.yaml#${path}`,
+    type: 'helm_value',
+    name: path,
+    path,
+    value,
+    metadata: {},
+    location: { file: 'chart/values.yaml', lineStart: 4, lineEnd: 4 },
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('ContainerImageExtractor', () => {
+  let extractor: ContainerImageExtractor;
+
+  beforeEach(() => {
+    extractor = createContainerImageExtractor();
+  });
+
+  describe('basic properties', () => {
+    it('should have referenceType of "container_image"', () => {
+      expect(extractor.referenceType).toBe('container_image');
+    });
+
+    it('should handle Dockerfile, workload and Helm value nodes', () => {
+      expect(extractor.canHandle(createStageNode([]))).toBe(true);
+      expect(extractor.canHandle(createDeploymentNode([]))).toBe(true);
+      expect(extractor.canHandle(createHelmValueNode('image', 'x'))).toBe(true);
+      expect(extractor.canHandle({ ...createDeploymentNode([]), type: 'k8s_service' } as NodeType)).toBe(false);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should drop tags and digests and expand Docker Hub names', () => {
+      expect(extractor.normalize('nginx:1.25')).toBe('docker.io/library/nginx');
+      expect(extractor.normalize('GHCR.io/Acme/API@sha256:abc')).toBe('ghcr.io/acme/api');
+      expect(extractor.normalize('localhost:5000/app:dev')).toBe('localhost:5000/app');
+    });
+  });
+
+  describe('parseComponents', () => {
+    it('should split registry, repository and tag', () => {
+      expect(extractor.parseComponents('ghcr.io/acme/api:1.4')).toEqual({
+        registry: 'ghcr.io',
+        repository: 'acme/api',
+        tag: '1.4',
+      });
+    });
+
+    it('should return null for templated references', () => {
+      expect(extractor.parseComponents('{{ .Values.image }}')).toBeNull();
+      expect(extractor.parseComponents('$CI_REGISTRY_IMAGE:latest')).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract images a Dockerfile is built as', () => {
+      const refs = extractor.extract(createStageNode(['ghcr.io/acme/api:latest']));
+
+      expect(refs).toHaveLength(1);
+      expect(refs[0]).toMatchObject({
+        externalId: 'ghcr.io/acme/api:latest',
+        normalizedId: 'ghcr.io/acme/api',
+        referenceType: 'container_image',
+        sourceAttribute: 'imageNames',
+        metadata: { role: 'build' },
+      });
+    });
+
+    it('should extract container images of workloads', () => {
+      const refs = extractor.extract(createDeploymentNode(['ghcr.io/acme/api:1.4', 'envoyproxy/envoy:v1.30']));
+
+      expect(refs.map(r => [r.normalizedId, r.sourceAttribute, r.metadata.role])).toEqual([
+        ['ghcr.io/acme/api', 'containers.c0.image', 'run'],
+        ['docker.io/envoyproxy/envoy', 'containers.c1.image', 'run'],
+      ]);
+    });
+
+    it('should extract Helm image values only from image paths', () => {
+      expect(extractor.extract(createHelmValueNode('api.image.repository', 'ghcr.io/acme/api'))
+        .map(r => r.normalizedId)).toEqual(['ghcr.io/acme/api']);
+      expect(extractor.extract(createHelmValueNode('api.image.tag', '1.4'))).toEqual([]);
+    });
+
+    it('should extract base images', () => {
+      const refs = extractor.extract({
+        id: 'docker_image:docker.io/library/node:20',
+        type: 'docker_image',
+        name: 'node:20',
+        reference: 'node:20',
+        registry: 'docker.io',
+        repository: 'library/node',
+        tag: '20',
+        metadata: {},
+        location: { file: 'Dockerfile', lineStart: 1, lineEnd: 1 },
+      });
+
+      expect(refs.map(r => [r.normalizedId, r.metadata.role])).toEqual([['docker.io/library/node', 'base']]);
+    });
+  });
+});
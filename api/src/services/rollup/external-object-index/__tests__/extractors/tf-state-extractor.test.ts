@@ -0,0 +1,109 @@
+/**
+ * Terraform State Extractor Unit Tests
+ * @module services/rollup/external-object-index/__tests__/extractors/tf-state-extractor.test
+ *
+ * Unit tests for TerraformStateExtractor.
+ * Tests extraction of state identities from outputs, remote-state consumers
+ * and Terragrunt units.
+ *
+ * TASK-TFSTATE-001: Terraform remote state cross-repository linking
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TerraformStateExtractor, createTerraformStateExtractor } from '../../extractors/tf-state-extractor.js';
+import type { NodeType } from '../../../../../types/graph.js';
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+const STATE = 's3://acme-state/network/terraform.tfstate';
+
+function createNode(type: string, name: string, metadata: Record<string, unknown>): NodeType {
+  return {
+    id: `${type}.${name}`,
+    type,
+    name,
+    metadata,
+    location: { file: 'main.tf', lineStart: 1, lineEnd: 5 },
+  } as NodeType;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('TerraformStateExtractor', () => {
+  let extractor: TerraformStateExtractor;
+
+  beforeEach(() => {
+    extractor = createTerraformStateExtractor();
+  });
+
+  describe('basic properties', () => {
+    it('should have referenceType of "tf_state"', () => {
+      expect(extractor.referenceType).toBe('tf_state');
+    });
+
+    it('should handle outputs, data sources and Terragrunt configs', () => {
+      expect(extractor.canHandle(createNode('terraform_output', 'vpc_id', {}))).toBe(true);
+      expect(extractor.canHandle(createNode('terraform_data', 'network', {}))).toBe(true);
+      expect(extractor.canHandle(createNode('tg_config', 'vpc', {}))).toBe(true);
+      expect(extractor.canHandle(createNode('terraform_resource', 'vpc', {}))).toBe(false);
+    });
+  });
+
+  describe('normalize', () => {
+    it('should lowercase the backend only', () => {
+      expect(extractor.normalize(' S3://acme-state/Network.tfstate ')).toBe('s3://acme-state/Network.tfstate');
+    });
+  });
+
+  describe('parseComponents', () => {
+    it('should return backend and address', () => {
+      expect(extractor.parseComponents(STATE)).toEqual({
+        backend: 's3',
+        address: 'acme-state/network/terraform.tfstate',
+      });
+    });
+
+    it('should return null for values without a backend', () => {
+      expect(extractor.parseComponents('network.tfstate')).toBeNull();
+    });
+  });
+
+  describe('extract', () => {
+    it('should extract the state of outputs with the output name', () => {
+      const refs = extractor.extract(createNode('terraform_output', 'vpc_id', { remoteState: STATE }));
+
+      expect(refs).toHaveLength(1);
+      expect(refs[0]).toMatchObject({
+        externalId: STATE,
+        referenceType: 'tf_state',
+        sourceAttribute: 'remoteState',
+        metadata: { role: 'output', output: 'vpc_id' },
+      });
+    });
+
+    it('should extract the state read by consumers with the outputs they use', () => {
+      const refs = extractor.extract(createNode('terraform_data', 'network', {
+        remoteState: STATE,
+        remoteStateOutputs: ['subnet_ids', 'vpc_id'],
+      }));
+
+      expect(refs.map(r => r.metadata)).toEqual([{ role: 'consumer', outputs: ['subnet_ids', 'vpc_id'] }]);
+    });
+
+    it('should extract the state configured by Terragrunt units', () => {
+      const refs = extractor.extract(createNode('tg_config', 'vpc', { remoteState: STATE }));
+
+      expect(refs.map(r => r.metadata.role)).toEqual(['state']);
+    });
+
+    it('should skip local and unresolved states', () => {
+      expect(extractor.extract(createNode('terraform_output', 'vpc_id', { remoteState: 'local:///repo/terraform.tfstate' }))).toEqual([]);
+      expect(extractor.extract(createNode('terraform_output', 'vpc_id', { remoteState: 's3://acme/${var.env}' }))).toEqual([]);
+      expect(extractor.extract(createNode('terraform_data', 'ami', {}))).toEqual([]);
+    });
+  });
+});
@@ -243,6 +243,8 @@ export interface MockRepository extends IExternalObjectRepository {
   deleteEntries: Mock;
   countEntries: Mock;
   countByType: Mock;
+  searchObjects: Mock;
+  findObjectByEntryId: Mock;
   // Test helpers
   _entries: Map<string, ExternalObjectEntry[]>;
   _simulateLatency: number;
@@ -347,6 +349,10 @@ export function createMockRepository(options: {
 
       return addLatency(counts);
     }),
+
+    searchObjects: vi.fn().mockResolvedValue({ objects: [], total: 0, nextCursor: null }),
+
+    findObjectByEntryId: vi.fn().mockResolvedValue(null),
   };
 }
 
@@ -475,6 +475,13 @@ export class ExternalReferenceVO {
         return CloudProvider.AZURE;
       case 'k8s_reference':
         return CloudProvider.KUBERNETES;
+      case 'cfn_export':
+        return CloudProvider.AWS;
+      case 'tf_state':
+        if (identifier.startsWith('s3://')) return CloudProvider.AWS;
+        if (identifier.startsWith('gcs://')) return CloudProvider.GCP;
+        if (identifier.startsWith('azurerm://')) return CloudProvider.AZURE;
+        return null;
       case 'storage_path':
         if (identifier.startsWith('s3://')) return CloudProvider.AWS;
         if (identifier.startsWith('gs://')) return CloudProvider.GCP;
@@ -60,6 +60,10 @@ export const ExternalRefType = {
   GIT_URL: 'git_url',
   /** S3/GCS object paths */
   STORAGE_PATH: 'storage_path',
+  /** CloudFormation cross-stack export names */
+  CFN_EXPORT: 'cfn_export',
+  /** Terraform state identities */
+  TF_STATE: 'tf_state',
 } as const;
 
 export type ExternalRefType = typeof ExternalRefType[keyof typeof ExternalRefType];
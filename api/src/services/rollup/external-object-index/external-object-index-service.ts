@@ -10,6 +10,7 @@
  */
 
 import pino from 'pino';
+import { randomUUID } from 'crypto';
 import { TenantId, RepositoryId, ScanId } from '../../../types/entities.js';
 import { NodeType, DependencyGraph } from '../../../types/graph.js';
 import type {
@@ -26,11 +27,36 @@ import type {
   ExternalReferenceType,
   ExternalObjectIndexServiceConfig,
   DEFAULT_EXTERNAL_OBJECT_INDEX_CONFIG,
+  ExternalObjectSearchCriteria,
+  ExternalObjectSearchOptions,
+  ExternalObjectPage,
+  ExternalObjectSummary,
+  IndexBuild,
+  IndexBuildStatus,
 } from './interfaces.js';
-import { ExternalObjectIndexError, LookupError } from './errors.js';
+import {
+  ExternalObjectIndexError,
+  ExternalObjectIndexErrorCodes,
+  IndexBuildError,
+  LookupError,
+} from './errors.js';
 
 const logger = pino({ name: 'external-object-index-service' });
 
+/**
+ * Maximum number of finished builds kept for status queries
+ */
+const MAX_FINISHED_BUILDS = 100;
+
+/**
+ * Tracked build with its cancellation controller and completion promise
+ */
+interface TrackedBuild {
+  build: IndexBuild;
+  readonly controller: AbortController;
+  readonly completion: Promise<IndexBuild>;
+}
+
 /**
  * Dependencies for ExternalObjectIndexService
  */
@@ -58,6 +84,12 @@ export interface IGraphService {
 /**
  * Main External Object Index Service.
  * Provides indexing, lookup, and reverse lookup for external references.
+ *
+ * Builds are tracked in memory by the instance that started them, so build
+ * status, listing, cancellation and the per-tenant build lock only cover
+ * builds of this process. The API must run a single instance (or route all
+ * build requests to one) for build tracking to be complete; the index data
+ * itself is persisted and shared by all instances.
  */
 export class ExternalObjectIndexService implements IExternalObjectIndexService {
   private readonly config: ExternalObjectIndexServiceConfig;
@@ -76,6 +108,12 @@ export class ExternalObjectIndexService implements IExternalObjectIndexService {
     totalLookupTimeMs: 0,
   };
 
+  /**
+   * Tracked builds by build ID, in start order.
+   * Process-local: lost on restart and not visible to other instances.
+   */
+  private readonly builds = new Map<string, TrackedBuild>();
+
   /**
    * Create a new ExternalObjectIndexService
    * @param deps - Service dependencies
@@ -140,6 +178,8 @@ export class ExternalObjectIndexService implements IExternalObjectIndexService {
 
       // Process each repository's scan
       for (const { repositoryId, scanId } of scanResults) {
+        throwIfCancelled(options?.signal, result.entriesCreated);
+
         if (!scanId) {
           logger.warn({ repositoryId }, 'No scan found for repository');
           continue;
@@ -158,6 +198,9 @@ export class ExternalObjectIndexService implements IExternalObjectIndexService {
           result.entriesSkipped += scanResult.entriesSkipped;
           (result.processedScans as ScanId[]).push(scanId);
         } catch (error) {
+          if (isCancellation(error)) {
+            throw error;
+          }
           logger.error(
             { error, repositoryId, scanId },
             'Failed to process repository scan'
@@ -184,6 +227,10 @@ export class ExternalObjectIndexService implements IExternalObjectIndexService {
 
       return result;
     } catch (error) {
+      if (isCancellation(error)) {
+        logger.info({ tenantId, entriesCreated: result.entriesCreated }, 'Index build cancelled');
+        throw error;
+      }
       logger.error({ error, tenantId }, 'Index build failed');
       throw new ExternalObjectIndexError(
         `Index build failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
@@ -421,10 +468,196 @@ export class ExternalObjectIndexService implements IExternalObjectIndexService {
     }
   }
 
+  /**
+   * Search external objects
+   */
+  async searchObjects(
+    tenantId: TenantId,
+    criteria: ExternalObjectSearchCriteria,
+    options: ExternalObjectSearchOptions
+  ): Promise<ExternalObjectPage> {
+    const limit = Math.min(Math.max(options.limit, 1), this.config.maxLookupResults);
+
+    try {
+      return await this.repository.searchObjects(tenantId, criteria, { ...options, limit });
+    } catch (error) {
+      if (error instanceof ExternalObjectIndexError) {
+        throw error;
+      }
+      logger.error({ error, tenantId, criteria }, 'External object search failed');
+      throw new ExternalObjectIndexError(
+        `External object search failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ExternalObjectIndexErrorCodes.LOOKUP_FAILED,
+        { tenantId }
+      );
+    }
+  }
+
+  /**
+   * Get an external object by ID
+   */
+  async getObject(tenantId: TenantId, objectId: string): Promise<ExternalObjectSummary | null> {
+    try {
+      return await this.repository.findObjectByEntryId(tenantId, objectId);
+    } catch (error) {
+      logger.error({ error, tenantId, objectId }, 'External object fetch failed');
+      throw new ExternalObjectIndexError(
+        `External object fetch failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ExternalObjectIndexErrorCodes.LOOKUP_FAILED,
+        { tenantId }
+      );
+    }
+  }
+
+  /**
+   * Start a tracked index build in the background
+   */
+  startBuild(
+    tenantId: TenantId,
+    repositoryIds: RepositoryId[],
+    options?: IndexBuildOptions
+  ): IndexBuild {
+    const active = Array.from(this.builds.values()).find(
+      (tracked) => tracked.build.tenantId === tenantId && !isFinished(tracked.build.status)
+    );
+    if (active) {
+      throw new ExternalObjectIndexError(
+        `Index build ${active.build.buildId} is already running`,
+        ExternalObjectIndexErrorCodes.INDEX_LOCKED,
+        { tenantId, buildId: active.build.buildId }
+      );
+    }
+
+    const controller = new AbortController();
+    const build: IndexBuild = {
+      buildId: randomUUID(),
+      tenantId,
+      repositoryIds,
+      status: 'running',
+      result: null,
+      error: null,
+      startedAt: new Date(),
+      completedAt: null,
+    };
+
+    const completion = this.buildIndex(tenantId, repositoryIds, {
+      ...options,
+      signal: controller.signal,
+    }).then(
+      (result) => this.finishBuild(build, 'completed', result, null),
+      (error: unknown) => this.finishBuild(
+        build,
+        isCancellation(error) ? 'cancelled' : 'failed',
+        null,
+        error instanceof Error ? error.message : String(error)
+      )
+    );
+
+    this.builds.set(build.buildId, { build, controller, completion });
+    this.pruneFinishedBuilds();
+
+    logger.info({ tenantId, buildId: build.buildId, repositoryIds }, 'Index build started');
+    return build;
+  }
+
+  /**
+   * Wait for a tracked build to finish
+   */
+  async waitForBuild(tenantId: TenantId, buildId: string): Promise<IndexBuild | null> {
+    const tracked = this.builds.get(buildId);
+    if (!tracked || tracked.build.tenantId !== tenantId) {
+      return null;
+    }
+    return tracked.completion;
+  }
+
+  /**
+   * Get a tracked build
+   */
+  getBuild(tenantId: TenantId, buildId: string): IndexBuild | null {
+    const tracked = this.builds.get(buildId);
+    return tracked && tracked.build.tenantId === tenantId ? tracked.build : null;
+  }
+
+  /**
+   * List tracked builds, most recent first
+   */
+  listBuilds(
+    tenantId: TenantId,
+    options: { status?: IndexBuildStatus; limit: number; offset: number }
+  ): { builds: IndexBuild[]; total: number } {
+    const builds = Array.from(this.builds.values())
+      .map((tracked) => tracked.build)
+      .filter((build) => build.tenantId === tenantId)
+      .filter((build) => options.status === undefined || build.status === options.status)
+      .reverse();
+
+    return {
+      builds: builds.slice(options.offset, options.offset + options.limit),
+      total: builds.length,
+    };
+  }
+
+  /**
+   * Cancel a pending or running build
+   */
+  async cancelBuild(tenantId: TenantId, buildId: string, reason?: string): Promise<IndexBuild | null> {
+    const tracked = this.builds.get(buildId);
+    if (!tracked || tracked.build.tenantId !== tenantId) {
+      return null;
+    }
+
+    if (isFinished(tracked.build.status)) {
+      return tracked.build;
+    }
+
+    logger.info({ tenantId, buildId, reason }, 'Cancelling index build');
+    tracked.controller.abort(reason);
+    return tracked.completion;
+  }
+
   // ============================================================================
   // Private Methods
   // ============================================================================
 
+  /**
+   * Record the outcome of a tracked build
+   */
+  private finishBuild(
+    build: IndexBuild,
+    status: IndexBuildStatus,
+    result: IndexBuildResult | null,
+    error: string | null
+  ): IndexBuild {
+    const finished: IndexBuild = {
+      ...build,
+      status,
+      result,
+      error,
+      completedAt: new Date(),
+    };
+
+    const tracked = this.builds.get(build.buildId);
+    if (tracked) {
+      tracked.build = finished;
+    }
+
+    logger.info({ buildId: build.buildId, status, error }, 'Index build finished');
+    return finished;
+  }
+
+  /**
+   * Drop the oldest finished builds beyond the retention limit
+   */
+  private pruneFinishedBuilds(): void {
+    const finished = Array.from(this.builds.values())
+      .filter((tracked) => isFinished(tracked.build.status));
+
+    for (const tracked of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_BUILDS))) {
+      this.builds.delete(tracked.build.buildId);
+    }
+  }
+
   /**
    * Process a single repository scan
    */
@@ -452,27 +685,62 @@ export class ExternalObjectIndexService implements IExternalObjectIndexService {
     const maxNodes = options?.maxNodes ?? nodes.length;
     const nodesToProcess = nodes.slice(0, maxNodes);
 
-    // Process nodes and extract entries
-    const entries = this.indexEngine.processNodes(nodesToProcess, {
-      tenantId,
-      repositoryId,
-      scanId,
-    });
+    // Process and save nodes in batches, stopping between batches on cancellation
+    const batchSize = Math.max(1, options?.batchSize ?? this.config.defaultBatchSize);
+    let extractedCount = 0;
+    let savedCount = 0;
 
-    // Save to repository
-    const savedCount = await this.repository.saveEntries(entries);
+    try {
+      for (let i = 0; i < nodesToProcess.length; i += batchSize) {
+        throwIfCancelled(options?.signal, savedCount);
 
-    // Invalidate relevant cache entries
-    await this.cache.deleteByPattern(`${tenantId}:${repositoryId}:*`);
+        const entries = this.indexEngine.processNodes(nodesToProcess.slice(i, i + batchSize), {
+          tenantId,
+          repositoryId,
+          scanId,
+        });
+
+        extractedCount += entries.length;
+        savedCount += await this.repository.saveEntries(entries);
+      }
+    } finally {
+      // Invalidate relevant cache entries, including after a partial build
+      await this.cache.deleteByPattern(`${tenantId}:${repositoryId}:*`);
+    }
 
     return {
       entriesCreated: savedCount,
       entriesUpdated: 0, // Upserts are counted as created
-      entriesSkipped: entries.length - savedCount,
+      entriesSkipped: extractedCount - savedCount,
     };
   }
 }
 
+/**
+ * Check whether a build status is final
+ */
+function isFinished(status: IndexBuildStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Check whether an error is a build cancellation
+ */
+function isCancellation(error: unknown): error is IndexBuildError {
+  return error instanceof IndexBuildError &&
+    error.code === ExternalObjectIndexErrorCodes.INDEX_BUILD_CANCELLED;
+}
+
+/**
+ * Throw a cancellation error if the build has been cancelled
+ */
+function throwIfCancelled(signal: AbortSignal | undefined, processed: number): void {
+  if (signal?.aborted) {
+    const reason = typeof signal.reason === 'string' ? signal.reason : undefined;
+    throw IndexBuildError.cancelled('', reason, { processed, total: processed });
+  }
+}
+
 /**
  * Create a new ExternalObjectIndexService instance
  */
@@ -21,7 +21,13 @@ import type {
   IExternalObjectRepository,
   ExternalObjectEntry,
   ExternalReferenceType,
+  ExternalObjectSearchCriteria,
+  ExternalObjectSearchOptions,
+  ExternalObjectSortField,
+  ExternalObjectPage,
+  ExternalObjectSummary,
 } from './interfaces.js';
+import { IndexValidationError } from './errors.js';
 import {
   computeReferenceHash,
   type ReferenceHash,
@@ -30,6 +36,17 @@ import {
 
 const logger = pino({ name: 'external-object-repository' });
 
+/**
+ * Aggregate column and cast for each external object sort field
+ */
+const OBJECT_SORT_COLUMNS: Record<ExternalObjectSortField, { column: string; cast: string }> = {
+  identifier: { column: 'normalized_id', cast: 'text' },
+  referenceCount: { column: 'reference_count', cast: 'bigint' },
+  firstSeen: { column: 'first_seen', cast: 'timestamptz' },
+  lastUpdated: { column: 'last_updated', cast: 'timestamptz' },
+  relevance: { column: 'relevance', cast: 'numeric' },
+};
+
 /**
  * Database client interface (to be injected)
  */
@@ -476,6 +493,9 @@ export class ExternalObjectRepository implements IExternalObjectIndexRepository
       k8s_reference: 0,
       gcp_resource: 0,
       azure_resource: 0,
+      cfn_export: 0,
+      container_image: 0,
+      tf_state: 0,
     };
 
     for (const row of rows) {
@@ -485,6 +505,100 @@ export class ExternalObjectRepository implements IExternalObjectIndexRepository
     return counts;
   }
 
+  /**
+   * Search external objects using keyset pagination on
+   * (sort column, reference_type, normalized_id)
+   */
+  async searchObjects(
+    tenantId: TenantId,
+    criteria: ExternalObjectSearchCriteria,
+    options: ExternalObjectSearchOptions
+  ): Promise<ExternalObjectPage> {
+    const startTime = Date.now();
+    const { sql: objectsSql, params } = this.buildObjectsQuery(tenantId, criteria);
+    const countParams = [...params];
+
+    const sort = OBJECT_SORT_COLUMNS[options.sortBy ?? 'identifier'];
+    const direction = options.sortOrder === 'desc' ? 'DESC' : 'ASC';
+    const keyset = `(${sort.column}, reference_type, normalized_id)`;
+
+    let cursorClause = '';
+    let offsetClause = '';
+    if (options.cursor !== undefined) {
+      const [sortValue, referenceType, normalizedId] = this.decodeObjectCursor(options.cursor);
+      const base = params.length;
+      cursorClause = `WHERE ${keyset} ${direction === 'DESC' ? '<' : '>'} ` +
+        `($${base + 1}::${sort.cast}, $${base + 2}::text, $${base + 3}::text)`;
+      params.push(sortValue, referenceType, normalizedId);
+    } else if (options.offset) {
+      offsetClause = `OFFSET ${Math.max(0, Math.floor(options.offset))}`;
+    }
+
+    const sql = `
+      WITH objects AS (${objectsSql})
+      SELECT * FROM objects
+      ${cursorClause}
+      ORDER BY ${sort.column} ${direction}, reference_type ${direction}, normalized_id ${direction}
+      LIMIT $${params.length + 1}
+      ${offsetClause}
+    `;
+
+    const countSql = `
+      WITH objects AS (${objectsSql})
+      SELECT COUNT(*) as count FROM objects
+    `;
+
+    // Fetch one extra row to learn whether another page follows
+    const [rows, countRows] = await Promise.all([
+      this.db.query<ExternalObjectRow>(sql, [...params, options.limit + 1]),
+      this.db.query<{ count: string }>(countSql, countParams),
+    ]);
+
+    const objects = rows.slice(0, options.limit).map((row) => this.rowToObject(row));
+    const last = objects[objects.length - 1];
+    const nextCursor = rows.length > options.limit && last
+      ? this.encodeObjectCursor(options.sortBy ?? 'identifier', last)
+      : null;
+
+    logger.debug(
+      {
+        tenantId,
+        criteria,
+        resultCount: objects.length,
+        timeMs: Date.now() - startTime,
+      },
+      'External object search completed'
+    );
+
+    return {
+      objects,
+      total: parseInt(countRows[0]?.count ?? '0', 10),
+      nextCursor,
+    };
+  }
+
+  /**
+   * Find the external object containing an index entry
+   */
+  async findObjectByEntryId(
+    tenantId: TenantId,
+    entryId: string
+  ): Promise<ExternalObjectSummary | null> {
+    const { sql: objectsSql, params } = this.buildObjectsQuery(tenantId, {});
+
+    const sql = `
+      WITH objects AS (${objectsSql})
+      SELECT objects.* FROM objects
+      JOIN ${this.tableName} entry
+        ON entry.reference_type = objects.reference_type
+        AND entry.normalized_id = objects.normalized_id
+      WHERE entry.tenant_id = $1 AND entry.id::text = $${params.length + 1}
+    `;
+
+    const rows = await this.db.query<ExternalObjectRow>(sql, [...params, entryId]);
+    return rows[0] ? this.rowToObject(rows[0]) : null;
+  }
+
   // ============================================================================
   // Junction Table Operations (NFR-PERF-008)
   // ============================================================================
@@ -762,6 +876,9 @@ export class ExternalObjectRepository implements IExternalObjectIndexRepository
           k8s_reference: 0,
           gcp_resource: 0,
           azure_resource: 0,
+          cfn_export: 0,
+          container_image: 0,
+          tf_state: 0,
         },
         uniqueExternalObjects: 0,
         uniqueNodes: 0,
@@ -780,6 +897,9 @@ export class ExternalObjectRepository implements IExternalObjectIndexRepository
           k8s_reference: 0,
           gcp_resource: 0,
           azure_resource: 0,
+          cfn_export: 0,
+          container_image: 0,
+          tf_state: 0,
         },
         uniqueExternalObjects: 0,
         uniqueNodes: 0,
@@ -809,6 +929,9 @@ export class ExternalObjectRepository implements IExternalObjectIndexRepository
         k8s_reference: entriesByType.k8s_reference ?? 0,
         gcp_resource: entriesByType.gcp_resource ?? 0,
         azure_resource: entriesByType.azure_resource ?? 0,
+        cfn_export: entriesByType.cfn_export ?? 0,
+        container_image: entriesByType.container_image ?? 0,
+        tf_state: entriesByType.tf_state ?? 0,
       },
       uniqueExternalObjects: parseInt(row.unique_external_objects ?? '0', 10),
       uniqueNodes: parseInt(row.unique_nodes ?? '0', 10),
@@ -991,6 +1114,143 @@ export class ExternalObjectRepository implements IExternalObjectIndexRepository
     return result.rowsAffected;
   }
 
+  /**
+   * Build the query aggregating index entries into external objects
+   */
+  private buildObjectsQuery(
+    tenantId: TenantId,
+    criteria: ExternalObjectSearchCriteria
+  ): { sql: string; params: unknown[] } {
+    const conditions: string[] = ['tenant_id = $1'];
+    const params: unknown[] = [tenantId];
+
+    const addList = (column: string, values: readonly string[] | undefined): void => {
+      if (values && values.length > 0) {
+        const placeholders = values.map((value) => {
+          params.push(value);
+          return `$${params.length}`;
+        });
+        conditions.push(`${column} IN (${placeholders.join(', ')})`);
+      }
+    };
+
+    addList('reference_type', criteria.referenceTypes);
+    addList('repository_id', criteria.repositoryIds);
+    addList('scan_id', criteria.scanIds);
+
+    const pattern = criteria.identifierPattern?.trim();
+    if (pattern && pattern.replace(/\*/g, '') !== '') {
+      params.push(toLikePattern(pattern));
+      conditions.push(`normalized_id LIKE $${params.length} ESCAPE '\\'`);
+    }
+
+    // Exact matches rank above matches of the literal prefix before any wildcard
+    let relevance = '0.5';
+    if (pattern) {
+      params.push(pattern.toLowerCase());
+      const exact = `$${params.length}`;
+      params.push(toLikePattern(pattern.split('*')[0] ?? ''));
+      const prefix = `$${params.length}`;
+      relevance = `CASE
+          WHEN normalized_id = ${exact}
+            OR LOWER((ARRAY_AGG(external_id ORDER BY indexed_at DESC))[1]) = ${exact} THEN 1
+          WHEN normalized_id LIKE ${prefix} ESCAPE '\\' THEN 0.75
+          ELSE 0.5
+        END`;
+    }
+
+    let having = '';
+    if (criteria.minReferenceCount !== undefined && criteria.minReferenceCount > 1) {
+      params.push(criteria.minReferenceCount);
+      having = `HAVING COUNT(*) >= $${params.length}`;
+    }
+
+    const sql = `
+      SELECT
+        (ARRAY_AGG(id::text ORDER BY indexed_at, id))[1] AS id,
+        (ARRAY_AGG(external_id ORDER BY indexed_at DESC))[1] AS external_id,
+        reference_type,
+        normalized_id,
+        (ARRAY_AGG(components ORDER BY indexed_at DESC))[1] AS components,
+        COUNT(*) AS reference_count,
+        ARRAY_AGG(DISTINCT node_id) AS node_ids,
+        ARRAY_AGG(DISTINCT repository_id::text) AS repository_ids,
+        ARRAY_AGG(DISTINCT scan_id::text) AS scan_ids,
+        MIN(indexed_at) AS first_seen,
+        MAX(indexed_at) AS last_updated,
+        ${relevance}::numeric AS relevance
+      FROM ${this.tableName}
+      WHERE ${conditions.join(' AND ')}
+      GROUP BY reference_type, normalized_id
+      ${having}
+    `;
+
+    return { sql, params };
+  }
+
+  /**
+   * Encode the keyset of an object into an opaque cursor
+   */
+  private encodeObjectCursor(sortBy: ExternalObjectSortField, object: ExternalObjectSummary): string {
+    const sortValue = {
+      identifier: object.normalizedId,
+      referenceCount: object.referenceCount,
+      firstSeen: object.firstSeen.toISOString(),
+      lastUpdated: object.lastUpdated.toISOString(),
+      relevance: object.relevance ?? 0.5,
+    }[sortBy];
+
+    return Buffer.from(
+      JSON.stringify([sortValue, object.referenceType, object.normalizedId]),
+      'utf8'
+    ).toString('base64url');
+  }
+
+  /**
+   * Decode a cursor produced by encodeObjectCursor
+   */
+  private decodeObjectCursor(cursor: string): [unknown, string, string] {
+    let values: unknown;
+    try {
+      values = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    } catch {
+      values = null;
+    }
+
+    if (
+      !Array.isArray(values) ||
+      values.length !== 3 ||
+      typeof values[1] !== 'string' ||
+      typeof values[2] !== 'string'
+    ) {
+      throw IndexValidationError.invalidValue('cursor', cursor, 'Invalid pagination cursor');
+    }
+
+    return [values[0], values[1], values[2]];
+  }
+
+  /**
+   * Convert an aggregated database row to an external object
+   */
+  private rowToObject(row: ExternalObjectRow): ExternalObjectSummary {
+    return {
+      id: row.id,
+      externalId: row.external_id,
+      referenceType: row.reference_type,
+      normalizedId: row.normalized_id,
+      components: typeof row.components === 'string'
+        ? JSON.parse(row.components)
+        : row.components ?? {},
+      referenceCount: parseInt(String(row.reference_count), 10),
+      nodeIds: row.node_ids,
+      repositoryIds: row.repository_ids as RepositoryId[],
+      scanIds: row.scan_ids as ScanId[],
+      firstSeen: new Date(row.first_seen),
+      lastUpdated: new Date(row.last_updated),
+      ...(row.relevance !== undefined && row.relevance !== null && { relevance: Number(row.relevance) }),
+    };
+  }
+
   /**
    * Convert database row to ExternalObjectEntry
    */
@@ -1038,6 +1298,24 @@ interface ExternalObjectEntryRow {
   indexed_at: string;
 }
 
+/**
+ * Database row type for external objects aggregated from external_object_index
+ */
+interface ExternalObjectRow {
+  id: string;
+  external_id: string;
+  reference_type: ExternalReferenceType;
+  normalized_id: string;
+  components: string | Record<string, string> | null;
+  reference_count: string | number;
+  node_ids: string[];
+  repository_ids: string[];
+  scan_ids: string[];
+  first_seen: string | Date;
+  last_updated: string | Date;
+  relevance?: string | number | null;
+}
+
 /**
  * Database row type for node_external_objects junction table
  */
@@ -1081,6 +1359,15 @@ interface StatsRow {
   latest_indexed_at: string | null;
 }
 
+/**
+ * Convert an identifier pattern to a LIKE pattern.
+ * `*` matches any characters; a pattern without `*` matches as a prefix.
+ */
+function toLikePattern(pattern: string): string {
+  const escaped = pattern.toLowerCase().replace(/[\\%_]/g, (c) => `\\${c}`);
+  return pattern.includes('*') ? escaped.replace(/\*/g, '%') : `${escaped}%`;
+}
+
 /**
  * Create a new ExternalObjectRepository instance
  */
@@ -40,6 +40,7 @@ export class ArnExtractor extends BaseExtractor {
     'terraform_module',
     'terraform_output',
     'terraform_local',
+    'terraform_variable',
   ];
 
   protected readonly searchAttributes = [
@@ -179,6 +180,11 @@ export class ArnExtractor extends BaseExtractor {
    * Extract ARNs from node-specific fields
    */
   protected extractFromNodeFields(node: NodeType): ExtractedReference[] {
+    // Variables hold concrete ARNs only in their per-environment values
+    if (node.type === 'terraform_variable') {
+      return this.extractFromVariableValues(node.metadata.values);
+    }
+
     const references: ExtractedReference[] = [];
 
     // For Terraform resources, check the resource type for AWS
@@ -218,6 +224,25 @@ export class ArnExtractor extends BaseExtractor {
     return references;
   }
 
+  /**
+   * Extract ARNs from the values a variable takes in each environment
+   */
+  private extractFromVariableValues(values: unknown): ExtractedReference[] {
+    if (typeof values !== 'object' || values === null) {
+      return [];
+    }
+
+    const references: ExtractedReference[] = [];
+    for (const [environment, value] of Object.entries(values)) {
+      for (const { path, value: strValue } of this.findAllStrings(value, `values.${environment}`)) {
+        for (const match of strValue.match(this.arnSearchPattern) ?? []) {
+          references.push(this.createReference(match, path, { environment }));
+        }
+      }
+    }
+    return references;
+  }
+
   /**
    * Parse an ARN string into its components
    */
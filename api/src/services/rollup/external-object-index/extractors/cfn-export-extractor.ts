@@ -0,0 +1,103 @@
+/**
+ * CloudFormation Export Extractor
+ * @module services/rollup/external-object-index/extractors/cfn-export-extractor
+ *
+ * Extracts CloudFormation cross-stack references from nodes.
+ * Outputs with `Export.Name` and entries using `Fn::ImportValue` index under the
+ * same export name, so a lookup returns both sides of an Export/ImportValue pair.
+ *
+ * TASK-CFN-001: CloudFormation cross-stack references in the external object index
+ */
+
+import { NodeType } from '../../../../types/graph.js';
+import type { ExtractedReference } from '../interfaces.js';
+import { BaseExtractor } from './base-extractor.js';
+
+/**
+ * Side of a cross-stack reference
+ */
+type CfnExportRole = 'export' | 'import';
+
+/**
+ * CloudFormation export extractor.
+ * Indexes export names declared by outputs and consumed via Fn::ImportValue.
+ */
+export class CfnExportExtractor extends BaseExtractor {
+  readonly referenceType = 'cfn_export' as const;
+
+  protected readonly supportedNodeTypes = [
+    'cfn_resource',
+    'cfn_output',
+  ];
+
+  protected readonly searchAttributes = [
+    'exportName',
+    'importValues',
+  ];
+
+  /**
+   * Normalize export name for consistent matching.
+   * Export names are case-sensitive in CloudFormation; only trim them.
+   */
+  normalize(externalId: string): string {
+    return this.sanitize(externalId);
+  }
+
+  /**
+   * Parse export name into components
+   */
+  parseComponents(externalId: string): Record<string, string> | null {
+    const name = this.sanitize(externalId);
+    return name === '' ? null : { exportName: name };
+  }
+
+  /**
+   * Check if value is a usable export name.
+   * Names still containing `${...}` placeholders were not resolved by the parser.
+   */
+  protected isValidExternalId(value: string): boolean {
+    const name = this.sanitize(value);
+    return name !== '' && name.length <= 255 && !name.includes('${');
+  }
+
+  /**
+   * Extract references from a value
+   */
+  protected extractFromValue(
+    value: unknown,
+    sourceAttribute: string
+  ): ExtractedReference[] {
+    const role: CfnExportRole = sourceAttribute === 'exportName' ? 'export' : 'import';
+    const names = Array.isArray(value) ? value : [value];
+    const references: ExtractedReference[] = [];
+
+    for (const name of names) {
+      if (typeof name === 'string' && this.isValidExternalId(name)) {
+        references.push(
+          this.createReference(this.sanitize(name), sourceAttribute, { role })
+        );
+      }
+    }
+
+    return references;
+  }
+
+  /**
+   * Extract references from node-specific fields
+   */
+  protected override extractFromNodeFields(node: NodeType): ExtractedReference[] {
+    // exportName is also a top-level field of cfn_output nodes; it is
+    // mirrored in metadata, which the base class already searched
+    if (node.type === 'cfn_output' && node.exportName !== undefined && node.metadata.exportName === undefined) {
+      return this.extractFromValue(node.exportName, 'exportName');
+    }
+    return [];
+  }
+}
+
+/**
+ * Create a CfnExportExtractor instance
+ */
+export function createCfnExportExtractor(): CfnExportExtractor {
+  return new CfnExportExtractor();
+}
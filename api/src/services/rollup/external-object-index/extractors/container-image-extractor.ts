@@ -0,0 +1,191 @@
+/**
+ * Container Image Extractor
+ * @module services/rollup/external-object-index/extractors/container-image-extractor
+ *
+ * Extracts container image references from nodes.
+ * Dockerfile stages index the images they are built as, Dockerfile base images
+ * index themselves, and workloads and Helm image values index the images they
+ * run, all under the image repository without tag. A lookup of an image
+ * therefore returns the Dockerfile that builds it and every deployment running it.
+ *
+ * TASK-DOCKER-001: Container images in the external object index
+ */
+
+import { NodeType } from '../../../../types/graph.js';
+import type { ExtractedReference } from '../interfaces.js';
+import { BaseExtractor } from './base-extractor.js';
+
+/**
+ * How the node uses the image
+ */
+type ContainerImageRole = 'build' | 'base' | 'run';
+
+/**
+ * Registry assumed for references that name none
+ */
+const DEFAULT_REGISTRY = 'docker.io';
+
+/**
+ * Repository path components (lowercase, separated by '.', '_', '-' or '/')
+ */
+const REPOSITORY_PATTERN = /^[a-z0-9]+(?:[._-]+[a-z0-9]+)*(?:\/[a-z0-9]+(?:[._-]+[a-z0-9]+)*)*$/;
+
+/**
+ * Helm value paths that hold an image reference
+ */
+const HELM_IMAGE_VALUE_PATTERN = /(?:^|\.)image(?:\.repository)?$/;
+
+/**
+ * Container image extractor.
+ * Indexes image references built by Dockerfiles and run by workloads.
+ */
+export class ContainerImageExtractor extends BaseExtractor {
+  readonly referenceType = 'container_image' as const;
+
+  protected readonly supportedNodeTypes = [
+    'docker_stage',
+    'docker_image',
+    'k8s_deployment',
+    'k8s_statefulset',
+    'k8s_daemonset',
+    'k8s_job',
+    'k8s_cronjob',
+    'k8s_pod',
+    'helm_value',
+  ];
+
+  protected readonly searchAttributes = [
+    'imageNames',
+  ];
+
+  /**
+   * Normalize an image reference to `registry/repository`, dropping tag and
+   * digest so every version of an image matches
+   */
+  normalize(externalId: string): string {
+    const components = this.parseComponents(externalId);
+    return components
+      ? `${components.registry}/${components.repository}`
+      : this.sanitize(externalId).toLowerCase();
+  }
+
+  /**
+   * Parse image reference into registry, repository, tag and digest
+   */
+  parseComponents(externalId: string): Record<string, string> | null {
+    let rest = this.sanitize(externalId);
+    if (!this.isValidExternalId(rest)) {
+      return null;
+    }
+
+    const components: Record<string, string> = {};
+    const at = rest.indexOf('@');
+    if (at !== -1) {
+      components.digest = rest.slice(at + 1);
+      rest = rest.slice(0, at);
+    }
+
+    const colon = rest.lastIndexOf(':');
+    if (colon > rest.lastIndexOf('/')) {
+      components.tag = rest.slice(colon + 1);
+      rest = rest.slice(0, colon);
+    }
+
+    const slash = rest.indexOf('/');
+    const first = slash === -1 ? '' : rest.slice(0, slash);
+    const hasRegistry = first.includes('.') || first.includes(':') || first === 'localhost';
+    const registry = hasRegistry ? first.toLowerCase() : DEFAULT_REGISTRY;
+    let repository = (hasRegistry ? rest.slice(slash + 1) : rest).toLowerCase();
+
+    // Docker Hub official images live under library/
+    if (registry === DEFAULT_REGISTRY && !repository.includes('/')) {
+      repository = `library/${repository}`;
+    }
+    if (!REPOSITORY_PATTERN.test(repository)) {
+      return null;
+    }
+
+    return { registry, repository, ...components };
+  }
+
+  /**
+   * Check if value looks like an image reference.
+   * Template expressions and unresolved `$VAR`s are not images.
+   */
+  protected isValidExternalId(value: string): boolean {
+    const reference = this.sanitize(value);
+    return (
+      reference !== '' &&
+      reference.length <= 512 &&
+      reference.toLowerCase() !== 'scratch' &&
+      !/[\s${}]/.test(reference)
+    );
+  }
+
+  /**
+   * Extract references from a value
+   */
+  protected extractFromValue(
+    value: unknown,
+    sourceAttribute: string
+  ): ExtractedReference[] {
+    return this.extractImages(value, sourceAttribute, 'build');
+  }
+
+  /**
+   * Extract references from node-specific fields
+   */
+  protected override extractFromNodeFields(node: NodeType): ExtractedReference[] {
+    if (node.type === 'docker_image') {
+      return this.extractImages(node.reference, 'reference', 'base');
+    }
+    if (node.type === 'helm_value') {
+      return HELM_IMAGE_VALUE_PATTERN.test(node.path)
+        ? this.extractImages(node.value, node.path, 'run')
+        : [];
+    }
+    if (node.type === 'docker_stage') {
+      return [];
+    }
+
+    const containers = 'containers' in node ? node.containers : node.metadata.containers;
+    if (!Array.isArray(containers)) {
+      return [];
+    }
+
+    const references: ExtractedReference[] = [];
+    for (const container of containers) {
+      if (typeof container === 'object' && container !== null) {
+        const { name, image } = container as { name?: unknown; image?: unknown };
+        references.push(...this.extractImages(image, `containers.${String(name)}.image`, 'run'));
+      }
+    }
+    return references;
+  }
+
+  private extractImages(
+    value: unknown,
+    sourceAttribute: string,
+    role: ContainerImageRole
+  ): ExtractedReference[] {
+    const images = Array.isArray(value) ? value : [value];
+    const references: ExtractedReference[] = [];
+
+    for (const image of images) {
+      if (typeof image === 'string' && this.parseComponents(image) !== null) {
+        references.push(
+          this.createReference(this.sanitize(image), sourceAttribute, { role })
+        );
+      }
+    }
+
+    return references;
+  }
+}
+
+/**
+ * Create a ContainerImageExtractor instance
+ */
+export function createContainerImageExtractor(): ContainerImageExtractor {
+  return new ContainerImageExtractor();
+}
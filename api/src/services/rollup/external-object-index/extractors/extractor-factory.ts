@@ -17,6 +17,9 @@ import type {
 import { ArnExtractor, createArnExtractor } from './arn-extractor.js';
 import { ResourceIdExtractor, createResourceIdExtractor } from './resource-id-extractor.js';
 import { K8sExtractor, createK8sExtractor } from './k8s-extractor.js';
+import { createCfnExportExtractor } from './cfn-export-extractor.js';
+import { createContainerImageExtractor } from './container-image-extractor.js';
+import { createTerraformStateExtractor } from './tf-state-extractor.js';
 
 /**
  * Factory for creating external reference extractors.
@@ -55,6 +58,9 @@ export class ExtractorFactory implements IExtractorFactory {
     this.registerExtractor(createArnExtractor());
     this.registerExtractor(createResourceIdExtractor());
     this.registerExtractor(createK8sExtractor());
+    this.registerExtractor(createCfnExportExtractor());
+    this.registerExtractor(createContainerImageExtractor());
+    this.registerExtractor(createTerraformStateExtractor());
 
     this.initialized = true;
   }
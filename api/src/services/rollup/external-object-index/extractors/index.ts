@@ -14,6 +14,9 @@ export { BaseExtractor } from './base-extractor.js';
 export { ArnExtractor, createArnExtractor } from './arn-extractor.js';
 export { ResourceIdExtractor, createResourceIdExtractor } from './resource-id-extractor.js';
 export { K8sExtractor, createK8sExtractor } from './k8s-extractor.js';
+export { CfnExportExtractor, createCfnExportExtractor } from './cfn-export-extractor.js';
+export { ContainerImageExtractor, createContainerImageExtractor } from './container-image-extractor.js';
+export { TerraformStateExtractor, createTerraformStateExtractor } from './tf-state-extractor.js';
 
 // Factory
 export {
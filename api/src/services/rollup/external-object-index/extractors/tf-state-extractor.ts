@@ -0,0 +1,114 @@
+/**
+ * Terraform State Extractor
+ * @module services/rollup/external-object-index/extractors/tf-state-extractor
+ *
+ * Extracts Terraform state identities from nodes.
+ * Outputs index under the state of their root module, terraform_remote_state
+ * data sources under the state they read and Terragrunt units under the state
+ * their remote_state block configures, so a lookup of a state identity returns
+ * its producers and consumers across repositories.
+ *
+ * TASK-TFSTATE-001: Terraform remote state cross-repository linking
+ */
+
+import { NodeType } from '../../../../types/graph.js';
+import type { ExtractedReference } from '../interfaces.js';
+import { BaseExtractor } from './base-extractor.js';
+
+/**
+ * Part a node plays for a state
+ */
+type TfStateRole = 'output' | 'consumer' | 'state';
+
+/**
+ * Backend-qualified state identity, e.g. `s3://bucket/key`
+ */
+const STATE_ID_PATTERN = /^([a-z0-9]+):\/\/(.+)$/i;
+
+/**
+ * Terraform state extractor.
+ * Indexes the state identities the remote state parser stores in node metadata.
+ */
+export class TerraformStateExtractor extends BaseExtractor {
+  readonly referenceType = 'tf_state' as const;
+
+  protected readonly supportedNodeTypes = [
+    'terraform_output',
+    'terraform_data',
+    'tg_config',
+  ];
+
+  /** Identities are read per node type in extractFromNodeFields */
+  protected readonly searchAttributes: string[] = [];
+
+  /**
+   * Normalize state identity for consistent matching.
+   * Backends are case-insensitive; bucket keys are not.
+   */
+  normalize(externalId: string): string {
+    const id = this.sanitize(externalId);
+    const match = STATE_ID_PATTERN.exec(id);
+    return match ? `${match[1]!.toLowerCase()}://${match[2]}` : id;
+  }
+
+  /**
+   * Parse state identity into backend and address
+   */
+  parseComponents(externalId: string): Record<string, string> | null {
+    const match = STATE_ID_PATTERN.exec(this.sanitize(externalId));
+    return match ? { backend: match[1]!.toLowerCase(), address: match[2]! } : null;
+  }
+
+  /**
+   * Check if value is a shareable state identity.
+   * Local states only exist in the working copy of one repository.
+   */
+  protected isValidExternalId(value: string): boolean {
+    const id = this.sanitize(value);
+    return STATE_ID_PATTERN.test(id) && !id.startsWith('local://') && !id.includes('${');
+  }
+
+  /**
+   * Extract references from a value
+   */
+  protected extractFromValue(
+    value: unknown,
+    sourceAttribute: string,
+    metadata: Record<string, unknown> = {}
+  ): ExtractedReference[] {
+    if (typeof value !== 'string' || !this.isValidExternalId(value)) {
+      return [];
+    }
+    return [this.createReference(this.sanitize(value), sourceAttribute, metadata)];
+  }
+
+  /**
+   * Extract references from node-specific fields
+   */
+  protected override extractFromNodeFields(node: NodeType): ExtractedReference[] {
+    const state = node.metadata.remoteState;
+
+    switch (node.type) {
+      case 'terraform_output':
+        return this.extractFromValue(state, 'remoteState', { role: 'output' satisfies TfStateRole, output: node.name });
+      case 'terraform_data': {
+        const outputs = node.metadata.remoteStateOutputs;
+        return this.extractFromValue(state, 'remoteState', {
+          role: 'consumer' satisfies TfStateRole,
+          outputs: Array.isArray(outputs) ? outputs.filter((o): o is string => typeof o === 'string') : [],
+        });
+      }
+      case 'tg_config':
+        return this.extractFromValue(state, 'remoteState', { role: 'state' satisfies TfStateRole });
+      default:
+        return [];
+    }
+  }
+}
+
+/**
+ * Create a TerraformStateExtractor instance
+ */
+export function createTerraformStateExtractor(): TerraformStateExtractor {
+  return new TerraformStateExtractor();
+}
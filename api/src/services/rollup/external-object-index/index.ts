@@ -530,6 +530,9 @@ export function createTestExternalObjectIndexModule(overrides?: {
       k8s_reference: 0,
       gcp_resource: 0,
       azure_resource: 0,
+      cfn_export: 0,
+      container_image: 0,
+      tf_state: 0,
     }),
   } as ReturnType<typeof createExternalObjectRepository>);
 
@@ -24,7 +24,10 @@ export type ExternalReferenceType =
   | 'resource_id'   // Cloud resource IDs (generic)
   | 'k8s_reference' // Kubernetes resource references
   | 'gcp_resource'  // GCP resource IDs
-  | 'azure_resource'; // Azure resource IDs
+  | 'azure_resource' // Azure resource IDs
+  | 'cfn_export'     // CloudFormation export names (Export / Fn::ImportValue)
+  | 'container_image' // Container images (Dockerfile builds, workload containers)
+  | 'tf_state';       // Terraform state identities (backends and terraform_remote_state)
 
 /**
  * External object entry in the index
@@ -126,6 +129,8 @@ export interface IndexBuildOptions {
   readonly batchSize?: number;
   /** Whether to update existing entries or skip */
   readonly updateExisting?: boolean;
+  /** Signal that stops the build between batches */
+  readonly signal?: AbortSignal;
 }
 
 /**
@@ -146,6 +151,120 @@ export interface IndexBuildResult {
   readonly processedScans: ScanId[];
 }
 
+/**
+ * Status of a tracked index build
+ */
+export type IndexBuildStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Tracked index build operation
+ */
+export interface IndexBuild {
+  /** Build ID */
+  readonly buildId: string;
+  /** Tenant ID */
+  readonly tenantId: TenantId;
+  /** Repositories being indexed */
+  readonly repositoryIds: RepositoryId[];
+  /** Current status */
+  readonly status: IndexBuildStatus;
+  /** Build result, once the build has finished */
+  readonly result: IndexBuildResult | null;
+  /** Failure or cancellation message */
+  readonly error: string | null;
+  /** When the build was started */
+  readonly startedAt: Date;
+  /** When the build finished */
+  readonly completedAt: Date | null;
+}
+
+/**
+ * Criteria for searching external objects.
+ * Entries sharing a reference type and normalized identifier form one object.
+ */
+export interface ExternalObjectSearchCriteria {
+  /** Only objects of these reference types */
+  readonly referenceTypes?: ExternalReferenceType[];
+  /** Only objects referenced from these repositories */
+  readonly repositoryIds?: RepositoryId[];
+  /** Only objects referenced from these scans */
+  readonly scanIds?: ScanId[];
+  /**
+   * Pattern matched against the normalized identifier, case-insensitively.
+   * `*` matches any characters; a pattern without `*` matches as a prefix.
+   */
+  readonly identifierPattern?: string;
+  /** Only objects with at least this many references */
+  readonly minReferenceCount?: number;
+}
+
+/**
+ * Sort field for external object searches.
+ * `relevance` ranks how closely the identifier matches the search pattern.
+ */
+export type ExternalObjectSortField = 'identifier' | 'referenceCount' | 'firstSeen' | 'lastUpdated' | 'relevance';
+
+/**
+ * Sorting and pagination for external object searches
+ */
+export interface ExternalObjectSearchOptions {
+  /** Sort field (default: identifier) */
+  readonly sortBy?: ExternalObjectSortField;
+  /** Sort order (default: asc) */
+  readonly sortOrder?: 'asc' | 'desc';
+  /** Opaque cursor from the previous page; takes precedence over offset */
+  readonly cursor?: string;
+  /** Number of objects to skip when no cursor is given */
+  readonly offset?: number;
+  /** Maximum objects to return */
+  readonly limit: number;
+}
+
+/**
+ * External object aggregated from its index entries
+ */
+export interface ExternalObjectSummary {
+  /** Object ID: the ID of its earliest index entry */
+  readonly id: string;
+  /** The external reference value */
+  readonly externalId: string;
+  /** Type of external reference */
+  readonly referenceType: ExternalReferenceType;
+  /** Normalized form shared by all entries of the object */
+  readonly normalizedId: string;
+  /** Extracted components of the most recent entry */
+  readonly components: Record<string, string>;
+  /** Number of index entries (node references) */
+  readonly referenceCount: number;
+  /** Referencing node IDs */
+  readonly nodeIds: string[];
+  /** Repositories the object is referenced from */
+  readonly repositoryIds: RepositoryId[];
+  /** Scans the object is referenced from */
+  readonly scanIds: ScanId[];
+  /** When the object was first indexed */
+  readonly firstSeen: Date;
+  /** When the object was last indexed */
+  readonly lastUpdated: Date;
+  /**
+   * Match of the identifier against the search pattern: 1 for an exact
+   * match, 0.75 for a prefix match, 0.5 otherwise (searches only)
+   */
+  readonly relevance?: number;
+}
+
+/**
+ * Page of external objects
+ */
+export interface ExternalObjectPage {
+  /** Objects on this page */
+  readonly objects: ExternalObjectSummary[];
+  /** Total objects matching the criteria, across all pages */
+  readonly total: number;
+  /** Cursor for the next page, or null on the last page */
+  readonly nextCursor: string | null;
+}
+
 // ============================================================================
 // Service Interface
 // ============================================================================
@@ -219,6 +338,77 @@ export interface IExternalObjectIndexService {
    * @returns Index statistics
    */
   getStats(tenantId: TenantId): Promise<ExternalObjectIndexStats>;
+
+  /**
+   * Search external objects
+   * @param tenantId - Tenant ID
+   * @param criteria - Search criteria
+   * @param options - Sorting and pagination
+   * @returns Page of matching objects
+   */
+  searchObjects(
+    tenantId: TenantId,
+    criteria: ExternalObjectSearchCriteria,
+    options: ExternalObjectSearchOptions
+  ): Promise<ExternalObjectPage>;
+
+  /**
+   * Get an external object by ID
+   * @param tenantId - Tenant ID
+   * @param objectId - Object ID
+   * @returns The object, or null if not found
+   */
+  getObject(tenantId: TenantId, objectId: string): Promise<ExternalObjectSummary | null>;
+
+  /**
+   * Start a tracked index build in the background
+   * @param tenantId - Tenant ID
+   * @param repositoryIds - Repository IDs to index
+   * @param options - Build options
+   * @returns The running build
+   */
+  startBuild(
+    tenantId: TenantId,
+    repositoryIds: RepositoryId[],
+    options?: IndexBuildOptions
+  ): IndexBuild;
+
+  /**
+   * Wait for a tracked build to finish
+   * @param tenantId - Tenant ID
+   * @param buildId - Build ID
+   * @returns The finished build, or null if not found
+   */
+  waitForBuild(tenantId: TenantId, buildId: string): Promise<IndexBuild | null>;
+
+  /**
+   * Get a tracked build
+   * @param tenantId - Tenant ID
+   * @param buildId - Build ID
+   * @returns The build, or null if not found
+   */
+  getBuild(tenantId: TenantId, buildId: string): IndexBuild | null;
+
+  /**
+   * List tracked builds, most recent first
+   * @param tenantId - Tenant ID
+   * @param options - Status filter and pagination
+   * @returns Builds on the page and the total count
+   */
+  listBuilds(
+    tenantId: TenantId,
+    options: { status?: IndexBuildStatus; limit: number; offset: number }
+  ): { builds: IndexBuild[]; total: number };
+
+  /**
+   * Cancel a pending or running build. The build stops before its next batch.
+   * @param tenantId - Tenant ID
+   * @param buildId - Build ID
+   * @param reason - Cancellation reason
+   * @returns The build once it has stopped, unchanged if it had already
+   *   finished, or null if not found
+   */
+  cancelBuild(tenantId: TenantId, buildId: string, reason?: string): Promise<IndexBuild | null>;
 }
 
 // ============================================================================
@@ -346,6 +536,29 @@ export interface IExternalObjectRepository {
    * @returns Counts by reference type
    */
   countByType(tenantId: TenantId): Promise<Record<ExternalReferenceType, number>>;
+
+  /**
+   * Search external objects, aggregating entries by reference type and
+   * normalized identifier
+   * @param tenantId - Tenant ID
+   * @param criteria - Search criteria
+   * @param options - Sorting and pagination
+   * @returns Page of matching objects
+   * @throws IndexValidationError if the cursor is malformed
+   */
+  searchObjects(
+    tenantId: TenantId,
+    criteria: ExternalObjectSearchCriteria,
+    options: ExternalObjectSearchOptions
+  ): Promise<ExternalObjectPage>;
+
+  /**
+   * Find the external object containing an index entry
+   * @param tenantId - Tenant ID
+   * @param entryId - Index entry ID
+   * @returns The object, or null if not found
+   */
+  findObjectByEntryId(tenantId: TenantId, entryId: string): Promise<ExternalObjectSummary | null>;
 }
 
 // ============================================================================
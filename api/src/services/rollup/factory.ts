@@ -36,7 +36,19 @@ import {
 } from './rollup-event-emitter.js';
 import { MatcherFactory, createMatcherFactory } from './matchers/matcher-factory.js';
 import { MergeEngine, createMergeEngine } from './merge-engine.js';
-import { BlastRadiusEngine, createBlastRadiusEngine } from './blast-radius-engine.js';
+import {
+  BlastRadiusEngine,
+  createBlastRadiusEngine,
+  DEFAULT_MAX_GRAPHS,
+} from './blast-radius-engine.js';
+import { createRemoteStateLinker, type RemoteStateIndex } from './remote-state-linker.js';
+import { createMergedGraphStore } from './merged-graph-store.js';
+import type { IRollupCache } from './rollup-cache/interfaces.js';
+import type { IMergedNodeRepository } from '../../repositories/merged-node-repository.js';
+import { WebhookRollupEventEmitter } from '../webhooks/webhook-dispatcher.js';
+import type { IWebhookDispatcher } from '../webhooks/interfaces.js';
+import { ProgressStreamRollupEventEmitter } from '../progress-stream/progress-stream-emitters.js';
+import type { IProgressStreamService } from '../progress-stream/interfaces.js';
 
 // ============================================================================
 // Configuration Types
@@ -57,6 +69,7 @@ export interface RollupModuleConfig {
   /** Blast radius engine options */
   readonly blastRadius?: {
     readonly cacheTtlMs?: number;
+    readonly maxGraphs?: number;
   };
 }
 
@@ -74,6 +87,16 @@ export interface RollupModuleExternalDependencies {
   readonly cacheService?: ICacheService;
   /** Optional queue service for async execution */
   readonly queueService?: IQueueService;
+  /** Optional external object index for remote state producers outside the rollup */
+  readonly externalObjectIndex?: RemoteStateIndex;
+  /** Optional merged node repository; persists merged graphs for blast radius analysis */
+  readonly mergedNodeRepository?: IMergedNodeRepository;
+  /** Optional rollup cache sharing blast radius results between instances */
+  readonly rollupCache?: IRollupCache;
+  /** Optional dispatcher delivering emitted events to webhook subscriptions */
+  readonly webhookDispatcher?: IWebhookDispatcher;
+  /** Optional progress streams recording execution events for SSE clients */
+  readonly progressStream?: IProgressStreamService;
 }
 
 /**
@@ -124,13 +147,27 @@ export function createRollupModule(
   // Create internal components
   const matcherFactory = createMatcherFactory(config.matcherFactory);
   const mergeEngine = createMergeEngine();
-  const blastRadiusEngine = createBlastRadiusEngine(config.blastRadius);
+  const graphStore = externalDeps.mergedNodeRepository
+    ? createMergedGraphStore(externalDeps.rollupRepository, externalDeps.mergedNodeRepository)
+    : undefined;
+  const blastRadiusEngine = createBlastRadiusEngine({
+    ...config.blastRadius,
+    ...(graphStore ? { graphStore } : {}),
+    ...(externalDeps.rollupCache ? { resultCache: externalDeps.rollupCache } : {}),
+  });
+  const remoteStateLinker = createRemoteStateLinker(externalDeps.externalObjectIndex);
 
   // Create event emitter
-  const eventEmitter = createRollupEventEmitter(
+  const publishingEmitter = createRollupEventEmitter(
     externalDeps.eventPublisher ?? null,
     config.eventEmitter
   );
+  const dispatchingEmitter = externalDeps.webhookDispatcher
+    ? new WebhookRollupEventEmitter(publishingEmitter, externalDeps.webhookDispatcher)
+    : publishingEmitter;
+  const eventEmitter = externalDeps.progressStream
+    ? new ProgressStreamRollupEventEmitter(dispatchingEmitter, externalDeps.progressStream)
+    : dispatchingEmitter;
 
   // Create service dependencies
   const serviceDeps: RollupServiceDependencies = {
@@ -142,6 +179,8 @@ export function createRollupModule(
     eventEmitter,
     cacheService: externalDeps.cacheService,
     queueService: externalDeps.queueService,
+    remoteStateLinker,
+    graphStore,
     config: config.service,
   };
 
@@ -156,6 +195,8 @@ export function createRollupModule(
     mergeEngine,
     blastRadiusEngine,
     eventEmitter,
+    remoteStateLinker,
+    graphStore,
   };
   const executor = new RollupExecutor(executorDeps);
 
@@ -207,7 +248,15 @@ export function createTestRollupModule(
   // Create internal components
   const matcherFactory = createMatcherFactory(config.matcherFactory);
   const mergeEngine = createMergeEngine();
-  const blastRadiusEngine = createBlastRadiusEngine(config.blastRadius);
+  const graphStore = externalDeps.mergedNodeRepository
+    ? createMergedGraphStore(externalDeps.rollupRepository, externalDeps.mergedNodeRepository)
+    : undefined;
+  const blastRadiusEngine = createBlastRadiusEngine({
+    ...config.blastRadius,
+    ...(graphStore ? { graphStore } : {}),
+    ...(externalDeps.rollupCache ? { resultCache: externalDeps.rollupCache } : {}),
+  });
+  const remoteStateLinker = createRemoteStateLinker(externalDeps.externalObjectIndex);
 
   // Create in-memory event emitter for testing
   const eventEmitter = createInMemoryEventEmitter();
@@ -222,6 +271,8 @@ export function createTestRollupModule(
     eventEmitter,
     cacheService: externalDeps.cacheService,
     queueService: externalDeps.queueService,
+    remoteStateLinker,
+    graphStore,
     config: config.service,
   };
 
@@ -236,6 +287,8 @@ export function createTestRollupModule(
     mergeEngine,
     blastRadiusEngine,
     eventEmitter,
+    remoteStateLinker,
+    graphStore,
   };
   const executor = new RollupExecutor(executorDeps);
 
@@ -274,6 +327,7 @@ export function getDefaultRollupModuleConfig(): Required<RollupModuleConfig> {
     },
     blastRadius: {
       cacheTtlMs: 3600000, // 1 hour
+      maxGraphs: DEFAULT_MAX_GRAPHS,
     },
   };
 }
@@ -8,7 +8,7 @@
  * - Audit logging
  * - Error handling (scan not found, tenant mismatch, computation failure)
  * - Service lifecycle (initialization, shutdown)
- * - listDiffsForRepository and deleteDiff operations
+ * - getDiffById, listDiffsForRepository and deleteDiff operations
  * - estimateDiffCost
  *
  * TASK-ROLLUP-005: Graph Diff Computation for incremental rollup execution
@@ -43,6 +43,7 @@ import {
 } from '../interfaces.js';
 import type { RollupAuditLogger } from '../../audit.js';
 import type { IScanRepository } from '../../../../repositories/interfaces.js';
+import type { IScanGraphLoader } from '../scan-graph-loader.js';
 import {
   GraphDiffService,
   createGraphDiffService,
@@ -320,6 +321,15 @@ function createMockScanRepository(): IScanRepository {
   } as IScanRepository & { _addScan: (scan: ScanEntity) => void };
 }
 
+/**
+ * Create a mock scan graph loader
+ */
+function createMockGraphLoader(): IScanGraphLoader {
+  return {
+    loadGraph: vi.fn().mockImplementation(() => Promise.resolve(createMockDependencyGraph())),
+  };
+}
+
 /**
  * Create a mock audit logger
  */
@@ -365,6 +375,7 @@ function createDefaultDependencies(
     engine: createMockGraphDiffEngine(),
     cache: createMockDiffCache(),
     scanRepository: createMockScanRepository(),
+    graphLoader: createMockGraphLoader(),
     auditLogger: createMockAuditLogger(),
     logger: createMockLogger(),
     ...overrides,
@@ -587,6 +598,28 @@ describe('GraphDiffService', () => {
         expect(deps.scanRepository.findById).toHaveBeenCalledWith(targetScanId, tenantId);
       });
 
+      it('should diff the node and edge sets loaded for both scans', async () => {
+        (deps.cache.getDiffBySnapshots as ReturnType<typeof vi.fn>).mockResolvedValueOnce(null);
+        const baseGraph = createMockDependencyGraph();
+        const targetGraph = createMockDependencyGraph();
+        baseGraph.nodes.set('aws_s3_bucket.logs', { id: 'aws_s3_bucket.logs' } as never);
+        (deps.graphLoader.loadGraph as ReturnType<typeof vi.fn>)
+          .mockResolvedValueOnce(baseGraph)
+          .mockResolvedValueOnce(targetGraph);
+
+        await service.getDiff({ tenantId, baseScanId, targetScanId, options: { maxNodes: 500 } });
+
+        expect(deps.graphLoader.loadGraph).toHaveBeenCalledWith(
+          expect.objectContaining({ id: baseScanId }),
+          { maxNodes: 500, maxEdges: DEFAULT_DIFF_COMPUTATION_OPTIONS.maxEdges }
+        );
+        expect(deps.engine.computeDiff).toHaveBeenCalledWith(
+          expect.objectContaining({ graph: baseGraph, metadata: { nodeCount: 1, edgeCount: 0 } }),
+          expect.objectContaining({ graph: targetGraph }),
+          expect.any(Object)
+        );
+      });
+
       it('should include load_graphs and compute_diff phases', async () => {
         (deps.cache.getDiffBySnapshots as ReturnType<typeof vi.fn>).mockResolvedValueOnce(null);
 
@@ -1300,6 +1333,37 @@ describe('GraphDiffService', () => {
     });
   });
 
+  // ==========================================================================
+  // getDiffById Tests
+  // ==========================================================================
+
+  describe('getDiffById', () => {
+    it('should return a cached diff with its cache info', async () => {
+      const diffId = createTestGraphDiffId();
+      const mockDiff = createMockGraphDiffResult(
+        tenantId,
+        createTestGraphSnapshotId('base'),
+        createTestGraphSnapshotId('target'),
+        { id: diffId }
+      );
+      const cachedResult = createMockCachedDiffResult(mockDiff);
+      (deps.cache.getDiff as ReturnType<typeof vi.fn>).mockResolvedValueOnce(cachedResult);
+
+      const response = await service.getDiffById(tenantId, diffId);
+
+      expect(deps.cache.getDiff).toHaveBeenCalledWith(tenantId, diffId);
+      expect(response?.diff).toBe(mockDiff);
+      expect(response?.fromCache).toBe(true);
+      expect(response?.cacheInfo?.expiresAt).toEqual(cachedResult.metadata.expiresAt);
+    });
+
+    it('should return null for unknown or expired diffs', async () => {
+      (deps.cache.getDiff as ReturnType<typeof vi.fn>).mockResolvedValueOnce(null);
+
+      await expect(service.getDiffById(tenantId, createTestGraphDiffId())).resolves.toBeNull();
+    });
+  });
+
   // ==========================================================================
   // deleteDiff Tests
   // ==========================================================================
@@ -1505,6 +1569,7 @@ describe('GraphDiffService', () => {
           engine: createMockGraphDiffEngine(),
           cache: createMockDiffCache(),
           scanRepository: createMockScanRepository(),
+          graphLoader: createMockGraphLoader(),
         });
         expect(factoryService).toBeDefined();
       });
@@ -1515,6 +1580,7 @@ describe('GraphDiffService', () => {
           engine: createMockGraphDiffEngine(),
           cache: createMockDiffCache(),
           scanRepository: createMockScanRepository(),
+          graphLoader: createMockGraphLoader(),
           auditLogger: customAuditLogger,
         });
         expect(factoryService).toBeDefined();
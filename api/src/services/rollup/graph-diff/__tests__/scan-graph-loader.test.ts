@@ -0,0 +1,167 @@
+/**
+ * ScanGraphLoader Unit Tests
+ * @module services/rollup/graph-diff/__tests__/scan-graph-loader.test
+ *
+ * Tests for streaming the stored node and edge sets of a scan into a graph.
+ *
+ * TASK-ROLLUP-005: Graph Diff Computation for incremental rollup execution
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { TenantId, ScanId, NodeEntity, EdgeEntity, DbNodeId } from '../../../../types/entities.js';
+import type {
+  INodeRepository,
+  IEdgeRepository,
+  CursorPaginationParams,
+  CursorPaginatedResult,
+} from '../../../../repositories/interfaces.js';
+import { ScanGraphLoader } from '../scan-graph-loader.js';
+import { GraphDiffError, GraphDiffErrorCodes } from '../interfaces.js';
+
+// ============================================================================
+// Mock Factories
+// ============================================================================
+
+const tenantId = 'tenant-001' as TenantId;
+const scan = { id: 'scan-001' as ScanId, tenantId, createdAt: new Date('2026-10-18T08:00:00Z') };
+
+function createNode(index: number, overrides: Partial<NodeEntity> = {}): NodeEntity {
+  return {
+    id: `db-node-${index}` as DbNodeId,
+    scanId: scan.id,
+    tenantId,
+    originalId: `aws_s3_bucket.bucket_${index}`,
+    nodeType: 'terraform_resource',
+    name: `bucket_${index}`,
+    filePath: index % 2 === 0 ? 'main.tf' : 'storage.tf',
+    lineStart: index,
+    lineEnd: index + 5,
+    metadata: { resourceType: 'aws_s3_bucket' },
+    createdAt: scan.createdAt,
+    ...overrides,
+  } as NodeEntity;
+}
+
+function createEdge(index: number, source: number, target: number): EdgeEntity {
+  return {
+    id: `db-edge-${index}`,
+    scanId: scan.id,
+    tenantId,
+    originalId: `edge-${index}`,
+    sourceNodeId: `db-node-${source}` as DbNodeId,
+    targetNodeId: `db-node-${target}` as DbNodeId,
+    edgeType: 'depends_on',
+    isImplicit: false,
+    confidence: 90,
+    metadata: {},
+    createdAt: scan.createdAt,
+  } as EdgeEntity;
+}
+
+/**
+ * Serve items in cursor pages, the cursor being the next offset
+ */
+function pageOf<T>(items: T[]) {
+  return (
+    _scanId: ScanId,
+    _tenantId: TenantId,
+    _filter: unknown,
+    pagination: CursorPaginationParams
+  ): Promise<CursorPaginatedResult<T>> => {
+    const offset = pagination.cursor !== undefined ? Number(pagination.cursor) : 0;
+    const end = offset + pagination.limit;
+    return Promise.resolve({
+      data: items.slice(offset, end),
+      total: items.length,
+      nextCursor: end < items.length ? String(end) : null,
+    });
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('ScanGraphLoader', () => {
+  let nodes: NodeEntity[];
+  let edges: EdgeEntity[];
+  let nodeRepository: INodeRepository;
+  let edgeRepository: IEdgeRepository;
+
+  beforeEach(() => {
+    nodes = Array.from({ length: 5 }, (_, i) => createNode(i));
+    edges = [createEdge(0, 0, 1), createEdge(1, 1, 2), createEdge(2, 3, 4), createEdge(3, 4, 99)];
+    nodeRepository = {
+      findByScanCursor: vi.fn().mockImplementation(pageOf(nodes)),
+    } as unknown as INodeRepository;
+    edgeRepository = {
+      findByScanCursor: vi.fn().mockImplementation(pageOf(edges)),
+    } as unknown as IEdgeRepository;
+  });
+
+  it('should stream every page of nodes and edges of the scan', async () => {
+    const loader = new ScanGraphLoader(nodeRepository, edgeRepository, { pageSize: 2 });
+
+    const graph = await loader.loadGraph(scan);
+
+    expect(nodeRepository.findByScanCursor).toHaveBeenCalledTimes(3);
+    expect(nodeRepository.findByScanCursor).toHaveBeenLastCalledWith(
+      scan.id,
+      tenantId,
+      undefined,
+      { limit: 2, cursor: '4' }
+    );
+    expect(edgeRepository.findByScanCursor).toHaveBeenCalledTimes(2);
+    expect(graph.nodes.size).toBe(5);
+    expect(graph.metadata.nodeCounts).toEqual({ terraform_resource: 5 });
+    expect(graph.metadata.sourceFiles.sort()).toEqual(['main.tf', 'storage.tf']);
+  });
+
+  it('should key nodes and edges by their original IDs', async () => {
+    const loader = new ScanGraphLoader(nodeRepository, edgeRepository);
+
+    const graph = await loader.loadGraph(scan);
+
+    expect(graph.nodes.get('aws_s3_bucket.bucket_0')).toMatchObject({
+      id: 'aws_s3_bucket.bucket_0',
+      type: 'terraform_resource',
+      name: 'bucket_0',
+      location: { file: 'main.tf', lineStart: 0, lineEnd: 5 },
+    });
+    expect(graph.edges[0]).toEqual({
+      id: 'edge-0',
+      source: 'aws_s3_bucket.bucket_0',
+      target: 'aws_s3_bucket.bucket_1',
+      type: 'depends_on',
+      metadata: { implicit: false, confidence: 90 },
+    });
+  });
+
+  it('should skip edges to nodes outside the scan', async () => {
+    const loader = new ScanGraphLoader(nodeRepository, edgeRepository);
+
+    const graph = await loader.loadGraph(scan);
+
+    expect(graph.edges.map((edge) => edge.id)).toEqual(['edge-0', 'edge-1', 'edge-2']);
+    expect(graph.metadata.edgeCounts).toEqual({ depends_on: 3 });
+  });
+
+  it('should stop loading once the node limit is exceeded', async () => {
+    const loader = new ScanGraphLoader(nodeRepository, edgeRepository, { pageSize: 2 });
+
+    const error = await loader.loadGraph(scan, { maxNodes: 3 }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GraphDiffError);
+    expect((error as GraphDiffError).code).toBe(GraphDiffErrorCodes.MAX_NODES_EXCEEDED);
+    expect(nodeRepository.findByScanCursor).toHaveBeenCalledTimes(2);
+    expect(edgeRepository.findByScanCursor).not.toHaveBeenCalled();
+  });
+
+  it('should reject scans with more edges than the limit', async () => {
+    const loader = new ScanGraphLoader(nodeRepository, edgeRepository);
+
+    await expect(loader.loadGraph(scan, { maxEdges: 2 })).rejects.toMatchObject({
+      code: GraphDiffErrorCodes.MAX_EDGES_EXCEEDED,
+    });
+  });
+});
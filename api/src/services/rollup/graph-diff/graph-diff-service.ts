@@ -9,7 +9,7 @@
  * 1. Validate request
  * 2. Check rate limit
  * 3. Check cache (via IDiffCache)
- * 4. If cache miss, load graphs from scan repository
+ * 4. If cache miss, load both scan graphs from the node and edge repositories
  * 5. Compute diff via IGraphDiffEngine
  * 6. Cache result
  * 7. Return response with metadata
@@ -21,7 +21,7 @@
 import type { Logger } from 'pino';
 import pino from 'pino';
 import { TenantId, RepositoryId, ScanId } from '../../../types/entities.js';
-import { DependencyGraph, NodeType, EdgeType } from '../../../types/graph.js';
+import { DependencyGraph } from '../../../types/graph.js';
 import { IScanRepository } from '../../../repositories/interfaces.js';
 import { RollupAuditLogger, getRollupAuditLogger } from '../audit.js';
 import {
@@ -42,6 +42,7 @@ import {
   createGraphSnapshotId,
   DEFAULT_DIFF_COMPUTATION_OPTIONS,
 } from './interfaces.js';
+import type { IScanGraphLoader } from './scan-graph-loader.js';
 
 // ============================================================================
 // Types
@@ -199,6 +200,14 @@ export interface IGraphDiffService {
    */
   getDiff(request: GraphDiffRequest): Promise<GraphDiffResponse>;
 
+  /**
+   * Get a previously computed diff
+   * @param tenantId - Tenant ID
+   * @param diffId - Diff ID
+   * @returns Diff response, or null if the diff is unknown or expired
+   */
+  getDiffById(tenantId: TenantId, diffId: GraphDiffId): Promise<GraphDiffResponse | null>;
+
   /**
    * List diffs for a repository
    * @param tenantId - Tenant ID
@@ -252,8 +261,10 @@ export interface GraphDiffServiceDependencies {
   readonly engine: IGraphDiffEngine;
   /** Diff cache */
   readonly cache: IDiffCache;
-  /** Scan repository for loading graphs */
+  /** Scan repository for loading scans */
   readonly scanRepository: IScanRepository;
+  /** Loader for the node and edge sets of scans */
+  readonly graphLoader: IScanGraphLoader;
   /** Audit logger */
   readonly auditLogger: RollupAuditLogger;
   /** Optional rate limiter */
@@ -301,6 +312,7 @@ export class GraphDiffService implements IGraphDiffService {
   private readonly engine: IGraphDiffEngine;
   private readonly cache: IDiffCache;
   private readonly scanRepository: IScanRepository;
+  private readonly graphLoader: IScanGraphLoader;
   private readonly auditLogger: RollupAuditLogger;
   private readonly rateLimiter: IRateLimiter | undefined;
   private readonly logger: Logger;
@@ -319,6 +331,7 @@ export class GraphDiffService implements IGraphDiffService {
     this.engine = deps.engine;
     this.cache = deps.cache;
     this.scanRepository = deps.scanRepository;
+    this.graphLoader = deps.graphLoader;
     this.auditLogger = deps.auditLogger;
     this.rateLimiter = deps.rateLimiter;
     this.logger = deps.logger ?? pino({ name: 'graph-diff-service' });
@@ -455,12 +468,14 @@ export class GraphDiffService implements IGraphDiffService {
       }
     }
 
-    // 4. Load graphs from scan repository
+    // 4. Load graphs from the node and edge repositories
     phases.push('load_graphs');
+    const mergedOptions = this.mergeOptions(request.options);
     const [baseSnapshot, targetSnapshot] = await this.loadSnapshots(
       request.tenantId,
       request.baseScanId,
       request.targetScanId,
+      mergedOptions,
       request.repositoryId
     );
 
@@ -472,8 +487,6 @@ export class GraphDiffService implements IGraphDiffService {
       request.targetScanId
     );
 
-    const mergedOptions = this.mergeOptions(request.options);
-
     let diff: GraphDiffResult;
     try {
       diff = await this.engine.computeDiff(
@@ -520,6 +533,42 @@ export class GraphDiffService implements IGraphDiffService {
     };
   }
 
+  /**
+   * Get a previously computed diff from the cache
+   * @param tenantId - Tenant ID
+   * @param diffId - Diff ID
+   * @returns Diff response, or null if the diff is unknown or expired
+   */
+  async getDiffById(
+    tenantId: TenantId,
+    diffId: GraphDiffId
+  ): Promise<GraphDiffResponse | null> {
+    const requestedAt = new Date();
+    const startTime = performance.now();
+
+    this.logger.debug({ tenantId, diffId }, 'Getting diff by ID');
+
+    const cached = await this.cache.getDiff(tenantId, diffId);
+    if (!cached) {
+      return null;
+    }
+
+    return {
+      diff: cached.diff,
+      fromCache: true,
+      cacheInfo: {
+        cachedAt: cached.metadata.cachedAt,
+        expiresAt: cached.metadata.expiresAt,
+        accessCount: cached.metadata.accessCount,
+      },
+      metadata: {
+        requestedAt,
+        processingTimeMs: Math.round(performance.now() - startTime),
+        phases: ['cache_check'],
+      },
+    };
+  }
+
   /**
    * List diffs for a repository
    * @param tenantId - Tenant ID
@@ -791,12 +840,13 @@ export class GraphDiffService implements IGraphDiffService {
   // ==========================================================================
 
   /**
-   * Load graph snapshots from scan repository
+   * Load the scans and their full node and edge sets
    */
   private async loadSnapshots(
     tenantId: TenantId,
     baseScanId: ScanId,
     targetScanId: ScanId,
+    options: DiffComputationOptions,
     repositoryId?: RepositoryId
   ): Promise<[GraphSnapshot, GraphSnapshot]> {
     // Load scans in parallel
@@ -831,53 +881,33 @@ export class GraphDiffService implements IGraphDiffService {
       }
     }
 
-    // Build snapshots from scans
-    // Note: In a full implementation, we would load the actual graph data
-    // from a graph storage service. For now, we create placeholder graphs.
-    const baseSnapshot = this.buildSnapshot(
-      baseScan,
-      tenantId,
-      1 // version
-    );
-
-    const targetSnapshot = this.buildSnapshot(
-      targetScan,
-      tenantId,
-      2 // version
-    );
+    // Load graphs one after the other to bound peak memory on large scans
+    const limits = {
+      ...(options.maxNodes !== undefined && { maxNodes: options.maxNodes }),
+      ...(options.maxEdges !== undefined && { maxEdges: options.maxEdges }),
+    };
+    const baseGraph = await this.graphLoader.loadGraph(baseScan, limits);
+    const targetGraph = await this.graphLoader.loadGraph(targetScan, limits);
 
-    return [baseSnapshot, targetSnapshot];
+    return [
+      this.buildSnapshot(baseScan, baseGraph, tenantId, 1),
+      this.buildSnapshot(targetScan, targetGraph, tenantId, 2),
+    ];
   }
 
   /**
-   * Build a GraphSnapshot from a scan entity
+   * Build a GraphSnapshot from a scan entity and its loaded graph
    */
   private buildSnapshot(
     scan: {
       id: ScanId;
       repositoryId: RepositoryId;
       createdAt: Date;
-      resultSummary?: { totalNodes?: number; totalEdges?: number } | null;
     },
+    graph: DependencyGraph,
     tenantId: TenantId,
     version: number
   ): GraphSnapshot {
-    // Note: In a real implementation, we would load the actual graph
-    // from a graph storage service. This is a placeholder that creates
-    // an empty graph structure.
-    const graph: DependencyGraph = {
-      id: `graph-${scan.id}`,
-      nodes: new Map<string, NodeType>(),
-      edges: [],
-      metadata: {
-        createdAt: scan.createdAt,
-        sourceFiles: [],
-        nodeCounts: {},
-        edgeCounts: {} as Record<EdgeType, number>,
-        buildTimeMs: 0,
-      },
-    };
-
     return {
       id: createGraphSnapshotId(scan.id),
       tenantId,
@@ -887,8 +917,8 @@ export class GraphDiffService implements IGraphDiffService {
       createdAt: scan.createdAt,
       version,
       metadata: {
-        nodeCount: scan.resultSummary?.totalNodes ?? 0,
-        edgeCount: scan.resultSummary?.totalEdges ?? 0,
+        nodeCount: graph.nodes.size,
+        edgeCount: graph.edges.length,
       },
     };
   }
@@ -221,6 +221,24 @@ export {
   resetDefaultGraphDiffService,
 } from './graph-diff-service.js';
 
+// ============================================================================
+// Scan Graph Loader Exports
+// ============================================================================
+
+export {
+  // Core Class
+  ScanGraphLoader,
+
+  // Types
+  type IScanGraphLoader,
+  type ScanGraphSource,
+  type ScanGraphLoadLimits,
+  type ScanGraphLoaderConfig,
+
+  // Factory Functions
+  createScanGraphLoader,
+} from './scan-graph-loader.js';
+
 // ============================================================================
 // Diff Event Handlers Exports
 // ============================================================================
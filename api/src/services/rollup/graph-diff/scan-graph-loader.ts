@@ -0,0 +1,244 @@
+/**
+ * Scan Graph Loader for Graph Diff Computation
+ * @module services/rollup/graph-diff/scan-graph-loader
+ *
+ * Loads the persisted node and edge sets of a scan into a DependencyGraph
+ * so two scans can be diffed. Nodes and edges are streamed page by page with
+ * keyset pagination, and the graph is keyed by the original (detection) IDs,
+ * which are stable across scans, rather than by database IDs.
+ *
+ * TASK-ROLLUP-005: Graph Diff Computation for incremental rollup execution
+ */
+
+import type { ScanEntity, NodeEntity, EdgeEntity } from '../../../types/entities.js';
+import type { DependencyGraph, NodeType, GraphEdge, EdgeType } from '../../../types/graph.js';
+import type { INodeRepository, IEdgeRepository, CursorPaginatedResult } from '../../../repositories/interfaces.js';
+import { GraphDiffError, GraphDiffErrorCodes } from './interfaces.js';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Scan fields needed to load its graph
+ */
+export type ScanGraphSource = Pick<ScanEntity, 'id' | 'tenantId' | 'createdAt'>;
+
+/**
+ * Limits applied while loading a scan graph.
+ * Loading stops as soon as a limit is exceeded so oversized scans are
+ * rejected without being read in full.
+ */
+export interface ScanGraphLoadLimits {
+  /** Maximum nodes of the scan */
+  readonly maxNodes?: number;
+  /** Maximum edges of the scan */
+  readonly maxEdges?: number;
+}
+
+/**
+ * Loads the stored graph of a scan
+ */
+export interface IScanGraphLoader {
+  /**
+   * Load every node and edge of a scan
+   * @param scan - Scan to load
+   * @param limits - Optional size limits
+   * @returns Graph keyed by original node IDs
+   */
+  loadGraph(scan: ScanGraphSource, limits?: ScanGraphLoadLimits): Promise<DependencyGraph>;
+}
+
+/**
+ * Configuration for ScanGraphLoader
+ */
+export interface ScanGraphLoaderConfig {
+  /** Nodes or edges read per page (default: 1000) */
+  readonly pageSize?: number;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Default nodes or edges read per page */
+const DEFAULT_PAGE_SIZE = 1000;
+
+// ============================================================================
+// Scan Graph Loader Implementation
+// ============================================================================
+
+/**
+ * Loads scan graphs from the node and edge repositories
+ */
+export class ScanGraphLoader implements IScanGraphLoader {
+  private readonly pageSize: number;
+
+  /**
+   * Create a new ScanGraphLoader
+   * @param nodeRepository - Node repository
+   * @param edgeRepository - Edge repository
+   * @param config - Loader configuration
+   */
+  constructor(
+    private readonly nodeRepository: INodeRepository,
+    private readonly edgeRepository: IEdgeRepository,
+    config: ScanGraphLoaderConfig = {}
+  ) {
+    this.pageSize = config.pageSize ?? DEFAULT_PAGE_SIZE;
+  }
+
+  /**
+   * Load every node and edge of a scan
+   */
+  async loadGraph(scan: ScanGraphSource, limits: ScanGraphLoadLimits = {}): Promise<DependencyGraph> {
+    const startTime = performance.now();
+    const nodes = new Map<string, NodeType>();
+    const edges: GraphEdge[] = [];
+    const sourceFiles = new Set<string>();
+    const nodeCounts: Record<string, number> = {};
+    const edgeCounts: Record<string, number> = {};
+
+    // Edges reference database node IDs; the graph uses original IDs
+    const originalIds = new Map<string, string>();
+
+    for await (const entity of this.streamNodes(scan)) {
+      if (limits.maxNodes !== undefined && nodes.size >= limits.maxNodes) {
+        throw GraphDiffError.maxNodesExceeded(nodes.size + 1, limits.maxNodes);
+      }
+
+      const node = toGraphNode(entity);
+      nodes.set(node.id, node);
+      originalIds.set(entity.id, entity.originalId);
+      sourceFiles.add(entity.filePath);
+      nodeCounts[entity.nodeType] = (nodeCounts[entity.nodeType] ?? 0) + 1;
+    }
+
+    for await (const entity of this.streamEdges(scan)) {
+      const source = originalIds.get(entity.sourceNodeId);
+      const target = originalIds.get(entity.targetNodeId);
+      if (source === undefined || target === undefined) {
+        continue;
+      }
+
+      if (limits.maxEdges !== undefined && edges.length >= limits.maxEdges) {
+        throw new GraphDiffError(
+          `Maximum edge count exceeded: ${edges.length + 1} > ${limits.maxEdges}`,
+          GraphDiffErrorCodes.MAX_EDGES_EXCEEDED,
+          { edgeCount: edges.length + 1, maxEdges: limits.maxEdges }
+        );
+      }
+
+      edges.push(toGraphEdge(entity, source, target));
+      edgeCounts[entity.edgeType] = (edgeCounts[entity.edgeType] ?? 0) + 1;
+    }
+
+    return {
+      id: `graph-${scan.id}`,
+      nodes,
+      edges,
+      metadata: {
+        createdAt: scan.createdAt,
+        sourceFiles: [...sourceFiles],
+        nodeCounts,
+        edgeCounts: edgeCounts as Record<EdgeType, number>,
+        buildTimeMs: Math.round(performance.now() - startTime),
+      },
+    };
+  }
+
+  /**
+   * Stream the nodes of a scan page by page
+   */
+  private async *streamNodes(scan: ScanGraphSource): AsyncGenerator<NodeEntity> {
+    let cursor: string | null = null;
+    do {
+      const page: CursorPaginatedResult<NodeEntity> = await this.nodeRepository.findByScanCursor(
+        scan.id,
+        scan.tenantId,
+        undefined,
+        { limit: this.pageSize, ...(cursor !== null && { cursor }) }
+      );
+      yield* page.data;
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+  }
+
+  /**
+   * Stream the edges of a scan page by page
+   */
+  private async *streamEdges(scan: ScanGraphSource): AsyncGenerator<EdgeEntity> {
+    let cursor: string | null = null;
+    do {
+      const page: CursorPaginatedResult<EdgeEntity> = await this.edgeRepository.findByScanCursor(
+        scan.id,
+        scan.tenantId,
+        undefined,
+        { limit: this.pageSize, ...(cursor !== null && { cursor }) }
+      );
+      yield* page.data;
+      cursor = page.nextCursor;
+    } while (cursor !== null);
+  }
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Convert a persisted node into a graph node keyed by its original ID
+ */
+function toGraphNode(entity: NodeEntity): NodeType {
+  return {
+    id: entity.originalId,
+    type: entity.nodeType,
+    name: entity.name,
+    location: {
+      file: entity.filePath,
+      lineStart: entity.lineStart,
+      lineEnd: entity.lineEnd,
+      ...(entity.columnStart !== undefined && { columnStart: entity.columnStart }),
+      ...(entity.columnEnd !== undefined && { columnEnd: entity.columnEnd }),
+    },
+    metadata: entity.metadata,
+  } as NodeType;
+}
+
+/**
+ * Convert a persisted edge into a graph edge between original node IDs
+ */
+function toGraphEdge(entity: EdgeEntity, source: string, target: string): GraphEdge {
+  return {
+    id: entity.originalId,
+    source,
+    target,
+    type: entity.edgeType,
+    ...(entity.label !== undefined && { label: entity.label }),
+    metadata: {
+      ...entity.metadata,
+      implicit: entity.isImplicit,
+      confidence: entity.confidence,
+      ...(entity.attribute !== undefined && { attribute: entity.attribute }),
+    },
+  };
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new ScanGraphLoader instance
+ * @param nodeRepository - Node repository
+ * @param edgeRepository - Edge repository
+ * @param config - Loader configuration
+ * @returns Configured ScanGraphLoader instance
+ */
+export function createScanGraphLoader(
+  nodeRepository: INodeRepository,
+  edgeRepository: IEdgeRepository,
+  config?: ScanGraphLoaderConfig
+): IScanGraphLoader {
+  return new ScanGraphLoader(nodeRepository, edgeRepository, config);
+}
@@ -28,9 +28,13 @@ export {
   type MergeInput,
   type MergeOutput,
   type IBlastRadiusEngine,
+  // Graph store interfaces
+  type IMergedGraphStore,
+  type PersistedMergedGraph,
   // Entity interfaces
   type RollupEntity,
   type RollupExecutionEntity,
+  type RollupExecutionEdges,
   // Validation interfaces
   type ConfigurationValidationResult,
   type ValidationError,
@@ -47,6 +51,7 @@ export {
   // Main service
   RollupService,
   createRollupService,
+  rollupEntityToConfig,
   type RollupServiceDependencies,
   type ICacheService,
   type IQueueService,
@@ -60,9 +65,43 @@ export {
   RollupExecutor,
   createRollupExecutor,
   type RollupExecutorDependencies,
+  type RollupExecuteOptions,
   type IScanRepository,
 } from './rollup-executor.js';
 
+// ============================================================================
+// Background Jobs
+// ============================================================================
+
+export {
+  RollupJobProcessor,
+  createRollupJobProcessor,
+  isRollupScheduled,
+  type RollupJobProcessorDependencies,
+  type RollupJobAttempt,
+  type ILatestScanSource,
+} from './rollup-job-processor.js';
+
+export {
+  RollupScheduler,
+  createRollupScheduler,
+  getRollupSchedulerId,
+  ROLLUP_SCHEDULER_PREFIX,
+  type IRollupScheduleQueue,
+  type RollupScheduleSyncResult,
+} from './rollup-scheduler.js';
+
+// ============================================================================
+// Remote State Linking
+// ============================================================================
+
+export {
+  RemoteStateLinker,
+  createRemoteStateLinker,
+  type RemoteStateIndex,
+  type RemoteStateLinkInput,
+} from './remote-state-linker.js';
+
 // ============================================================================
 // Event Emitter Implementation
 // ============================================================================
@@ -134,8 +173,16 @@ export {
   // Blast radius engine
   BlastRadiusEngine,
   createBlastRadiusEngine,
+  DEFAULT_MAX_GRAPHS,
+  type BlastRadiusEngineOptions,
 } from './blast-radius-engine.js';
 
+export {
+  // Merged graph store
+  MergedGraphStore,
+  createMergedGraphStore,
+} from './merged-graph-store.js';
+
 // ============================================================================
 // Error Classes
 // ============================================================================
@@ -555,6 +602,14 @@ export {
   getDefaultGraphDiffService,
   resetDefaultGraphDiffService,
 
+  // Scan Graph Loader
+  ScanGraphLoader,
+  type IScanGraphLoader,
+  type ScanGraphSource,
+  type ScanGraphLoadLimits,
+  type ScanGraphLoaderConfig,
+  createScanGraphLoader,
+
   // Diff Event Handlers
   type DiffEventType,
   type ScanDeletedEvent as DiffScanDeletedEvent,
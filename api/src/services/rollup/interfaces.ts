@@ -263,6 +263,16 @@ export interface RollupExecutionEntity {
   readonly createdAt: Date;
 }
 
+/**
+ * Stored merged graph edges of an execution
+ */
+export interface RollupExecutionEdges {
+  /** Edges between merged nodes */
+  readonly edges: GraphEdge[];
+  /** Names of the repositories contributing merged nodes, keyed by ID */
+  readonly repositoryNames: Map<string, string>;
+}
+
 // ============================================================================
 // Matcher Interfaces (Strategy Pattern)
 // ============================================================================
@@ -429,15 +439,31 @@ export interface IMergeEngine {
  * Interface for blast radius analysis engine
  */
 export interface IBlastRadiusEngine {
+  /**
+   * Register the merged graph of an execution for analysis
+   * @param executionId - Execution ID
+   * @param mergedNodes - Merged nodes from the execution
+   * @param edges - All edges in the merged graph
+   * @param repositoryNames - Map of repository ID to name
+   */
+  registerGraph(
+    executionId: RollupExecutionId,
+    mergedNodes: MergedNode[],
+    edges: GraphEdge[],
+    repositoryNames: Map<string, string>
+  ): void;
+
   /**
    * Analyze blast radius from a merged graph
    * @param executionId - Execution ID to analyze
    * @param query - Blast radius query parameters
+   * @param tenantId - Tenant owning the execution, required to load persisted graphs
    * @returns Blast radius analysis results
    */
   analyze(
     executionId: RollupExecutionId,
-    query: BlastRadiusQuery
+    query: BlastRadiusQuery,
+    tenantId?: TenantId
   ): Promise<BlastRadiusResponse>;
 
   /**
@@ -452,6 +478,52 @@ export interface IBlastRadiusEngine {
   ): Promise<BlastRadiusResponse | null>;
 }
 
+// ============================================================================
+// Merged Graph Store Interface
+// ============================================================================
+
+/**
+ * Merged graph of an execution as persisted for blast radius analysis
+ */
+export interface PersistedMergedGraph {
+  /** Merged nodes */
+  readonly mergedNodes: MergedNode[];
+  /** Edges between merged nodes */
+  readonly edges: GraphEdge[];
+  /** Names of the repositories contributing merged nodes, keyed by ID */
+  readonly repositoryNames: Map<string, string>;
+}
+
+/**
+ * Durable storage of merged execution graphs shared by all API instances
+ */
+export interface IMergedGraphStore {
+  /**
+   * Persist the merged graph of an execution
+   * @param tenantId - Tenant ID
+   * @param rollupId - Rollup ID
+   * @param executionId - Execution ID
+   * @param graph - Merged graph to persist
+   */
+  saveGraph(
+    tenantId: TenantId,
+    rollupId: RollupId,
+    executionId: RollupExecutionId,
+    graph: PersistedMergedGraph
+  ): Promise<void>;
+
+  /**
+   * Load the merged graph of an execution
+   * @param tenantId - Tenant ID
+   * @param executionId - Execution ID
+   * @returns Persisted graph or null if the execution has none
+   */
+  loadGraph(
+    tenantId: TenantId,
+    executionId: RollupExecutionId
+  ): Promise<PersistedMergedGraph | null>;
+}
+
 // ============================================================================
 // Repository Interface
 // ============================================================================
@@ -541,6 +613,13 @@ export interface IRollupRepository {
     status: RollupStatus
   ): Promise<RollupEntity>;
 
+  /**
+   * List rollups of all tenants with an enabled cron schedule,
+   * excluding draft and archived rollups
+   * @returns Scheduled rollup entities
+   */
+  findScheduled(): Promise<RollupEntity[]>;
+
   // ===== Execution CRUD =====
 
   /**
@@ -615,6 +694,44 @@ export interface IRollupRepository {
     rollupId: RollupId,
     limit?: number
   ): Promise<RollupExecutionEntity[]>;
+
+  /**
+   * Store the merged graph edges of an execution, replacing earlier ones
+   * @param tenantId - Tenant ID
+   * @param rollupId - Rollup ID
+   * @param executionId - Execution ID
+   * @param edges - Edges between merged nodes
+   * @param repositoryNames - Map of repository ID to name
+   */
+  saveExecutionEdges(
+    tenantId: TenantId,
+    rollupId: RollupId,
+    executionId: RollupExecutionId,
+    edges: GraphEdge[],
+    repositoryNames: Map<string, string>
+  ): Promise<void>;
+
+  /**
+   * Get the merged graph edges of an execution
+   * @param tenantId - Tenant ID
+   * @param executionId - Execution ID
+   * @returns Stored edges and repository names or null if none were stored
+   */
+  findExecutionEdges(
+    tenantId: TenantId,
+    executionId: RollupExecutionId
+  ): Promise<RollupExecutionEdges | null>;
+
+  /**
+   * Get the names of tracked repositories
+   * @param tenantId - Tenant ID
+   * @param repositoryIds - Repository IDs
+   * @returns Map of repository ID to name; unknown repositories are omitted
+   */
+  findRepositoryNames(
+    tenantId: TenantId,
+    repositoryIds: string[]
+  ): Promise<Map<string, string>>;
 }
 
 // ============================================================================
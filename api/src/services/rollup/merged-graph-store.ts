@@ -0,0 +1,155 @@
+/**
+ * Merged Graph Store
+ * @module services/rollup/merged-graph-store
+ *
+ * Persists merged execution graphs so blast radius analysis can run on any
+ * API instance. Merged nodes are stored through the MergedNodeRepository,
+ * edges through the RollupRepository.
+ *
+ * TASK-ROLLUP-001: Cross-Repository Aggregation persistent blast radius graphs
+ */
+
+import { RollupId, RollupExecutionId, MergedNode } from '../../types/rollup.js';
+import { TenantId } from '../../types/entities.js';
+import type {
+  IMergedNodeRepository,
+  MergedNodeEntity,
+  UpsertMergedNodeInput,
+} from '../../repositories/merged-node-repository.js';
+import { IRollupRepository, IMergedGraphStore, PersistedMergedGraph } from './interfaces.js';
+import { RollupExecutionError } from './errors.js';
+
+/**
+ * Merged nodes loaded per repository page
+ */
+const LOAD_PAGE_SIZE = 1000;
+
+/**
+ * Merged graph store backed by the rollup and merged node repositories
+ */
+export class MergedGraphStore implements IMergedGraphStore {
+  constructor(
+    private readonly rollupRepository: IRollupRepository,
+    private readonly mergedNodeRepository: IMergedNodeRepository
+  ) {}
+
+  /**
+   * Persist the merged graph of an execution.
+   * Nodes are written first; the edge row marks the graph as complete.
+   */
+  async saveGraph(
+    tenantId: TenantId,
+    rollupId: RollupId,
+    executionId: RollupExecutionId,
+    graph: PersistedMergedGraph
+  ): Promise<void> {
+    // Clear nodes of an earlier attempt of the same execution
+    await this.mergedNodeRepository.deleteByExecution(tenantId, executionId);
+
+    const result = await this.mergedNodeRepository.batchUpsertNodes(
+      graph.mergedNodes.map((node) => toUpsertInput(tenantId, rollupId, executionId, node))
+    );
+
+    if (result.failed > 0) {
+      throw new RollupExecutionError(
+        `Failed to persist ${result.failed} merged nodes: ${result.errors[0]?.error ?? 'unknown error'}`,
+        'storing',
+        { executionId, rollupId }
+      );
+    }
+
+    await this.rollupRepository.saveExecutionEdges(
+      tenantId,
+      rollupId,
+      executionId,
+      graph.edges,
+      graph.repositoryNames
+    );
+  }
+
+  /**
+   * Load the merged graph of an execution
+   */
+  async loadGraph(
+    tenantId: TenantId,
+    executionId: RollupExecutionId
+  ): Promise<PersistedMergedGraph | null> {
+    const stored = await this.rollupRepository.findExecutionEdges(tenantId, executionId);
+    if (!stored) {
+      return null;
+    }
+
+    const mergedNodes: MergedNode[] = [];
+    for (let page = 1; ; page++) {
+      const result = await this.mergedNodeRepository.findByExecution(
+        tenantId,
+        executionId,
+        undefined,
+        { page, pageSize: LOAD_PAGE_SIZE }
+      );
+      mergedNodes.push(...result.data.map(toMergedNode));
+
+      if (page >= result.totalPages) {
+        break;
+      }
+    }
+
+    return { mergedNodes, edges: stored.edges, repositoryNames: stored.repositoryNames };
+  }
+}
+
+/**
+ * Convert a merged node to repository upsert input
+ */
+function toUpsertInput(
+  tenantId: TenantId,
+  rollupId: RollupId,
+  executionId: RollupExecutionId,
+  node: MergedNode
+): UpsertMergedNodeInput {
+  return {
+    id: node.id,
+    rollupId,
+    executionId,
+    tenantId,
+    canonicalName: node.name,
+    nodeType: node.type,
+    sourceNodeIds: node.sourceNodeIds,
+    sourceRepoIds: node.sourceRepoIds as UpsertMergedNodeInput['sourceRepoIds'],
+    locations: node.locations,
+    metadata: node.metadata,
+    matchStrategy: node.matchInfo.strategy,
+    matchConfidence: node.matchInfo.confidence,
+    matchCount: node.matchInfo.matchCount,
+  };
+}
+
+/**
+ * Convert a stored merged node entity back to a merged node
+ */
+function toMergedNode(entity: MergedNodeEntity): MergedNode {
+  return {
+    id: entity.id,
+    sourceNodeIds: entity.sourceNodeIds,
+    sourceRepoIds: entity.sourceRepoIds,
+    type: entity.nodeType,
+    name: entity.canonicalName,
+    locations: entity.locations,
+    metadata: entity.metadata,
+    matchInfo: {
+      strategy: entity.matchStrategy,
+      confidence: entity.matchConfidence,
+      matchCount: entity.matchCount,
+    },
+  };
+}
+
+/**
+ * Create a new MergedGraphStore instance
+ */
+export function createMergedGraphStore(
+  rollupRepository: IRollupRepository,
+  mergedNodeRepository: IMergedNodeRepository
+): MergedGraphStore {
+  return new MergedGraphStore(rollupRepository, mergedNodeRepository);
+}
@@ -0,0 +1,213 @@
+/**
+ * Remote State Linker
+ * @module services/rollup/remote-state-linker
+ *
+ * Links terraform_remote_state consumers to the outputs of the root modules
+ * writing the state they read, across the repositories of a rollup. Producers
+ * are looked up in the rollup's own graphs first and then in the external
+ * object index, which also covers repositories outside the rollup.
+ *
+ * TASK-TFSTATE-001: Terraform remote state cross-repository linking
+ */
+
+import pino from 'pino';
+import { MergedNode } from '../../types/rollup.js';
+import { TenantId } from '../../types/entities.js';
+import { EdgeMetadata, GraphEdge, NodeType } from '../../types/graph.js';
+import { MergeInput } from './interfaces.js';
+import type {
+  ExternalObjectEntry,
+  IExternalObjectIndexService,
+} from './external-object-index/interfaces.js';
+import {
+  createRemoteStateEdge,
+  getRemoteState,
+  getRemoteStateOutputs,
+} from '../../parsers/terraform/remote-state.js';
+
+const logger = pino({ name: 'remote-state-linker' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Input for linking the graphs of a rollup execution
+ */
+export interface RemoteStateLinkInput {
+  readonly tenantId: TenantId;
+  /** Source graphs of the rollup */
+  readonly graphs: MergeInput['graphs'];
+  /** Nodes merged by the merge engine; edges point at their IDs */
+  readonly mergedNodes: readonly MergedNode[];
+}
+
+/**
+ * Node writing a state, found in a graph or in the index
+ */
+interface StateProducer {
+  readonly nodeId: string;
+  readonly repositoryId: string;
+}
+
+/**
+ * Edge metadata of linked edges, matching what the merge engine records
+ * for cross-repository edges
+ */
+interface CrossRepoEdgeMetadata extends EdgeMetadata {
+  readonly sourceRepositoryId: string;
+  readonly targetRepositoryId: string;
+  readonly isCrossRepoEdge: true;
+}
+
+/**
+ * Index lookup used to find producers outside the rollup graphs
+ */
+export type RemoteStateIndex = Pick<IExternalObjectIndexService, 'lookupByExternalId'>;
+
+// ============================================================================
+// Remote State Linker
+// ============================================================================
+
+/**
+ * Creates cross-repository output_value edges for remote state consumers.
+ * Edges within one repository are created at scan time by the detection
+ * orchestrator and are carried into the rollup by the merge engine.
+ */
+export class RemoteStateLinker {
+  constructor(private readonly index?: RemoteStateIndex) {}
+
+  /**
+   * Link consumers to producing outputs in other repositories
+   */
+  async link(input: RemoteStateLinkInput): Promise<GraphEdge[]> {
+    const mergedIds = this.buildMergedIdMap(input.mergedNodes);
+    const resolveId = (repositoryId: string, nodeId: string): string =>
+      mergedIds.get(`${repositoryId}:${nodeId}`) ?? nodeId;
+
+    const outputs = new Map<string, StateProducer[]>();
+    const owners = new Map<string, StateProducer[]>();
+    const consumers: Array<{ node: NodeType; repositoryId: string; state: string }> = [];
+
+    for (const { graph, repositoryId } of input.graphs) {
+      for (const node of graph.nodes.values()) {
+        const state = getRemoteState(node);
+        if (state === undefined) continue;
+
+        if (node.type === 'terraform_output') {
+          this.addProducer(outputs, `${state}#${node.name}`, { nodeId: node.id, repositoryId });
+        } else if (node.type === 'tg_config') {
+          this.addProducer(owners, state, { nodeId: node.id, repositoryId });
+        } else if (node.type === 'terraform_data') {
+          consumers.push({ node, repositoryId, state });
+        }
+      }
+    }
+
+    const indexEntries = new Map<string, Promise<ExternalObjectEntry[]>>();
+    const edges = new Map<string, GraphEdge>();
+
+    for (const { node, repositoryId, state } of consumers) {
+      const consumer = { ...node, id: resolveId(repositoryId, node.id) };
+
+      for (const output of getRemoteStateOutputs(node)) {
+        let producers = this.fromOtherRepositories(outputs.get(`${state}#${output}`), repositoryId);
+
+        if (producers.length === 0 && this.index) {
+          let entries = indexEntries.get(state);
+          if (!entries) {
+            entries = this.lookup(input.tenantId, state);
+            indexEntries.set(state, entries);
+          }
+          producers = this.fromIndex(await entries, output, repositoryId);
+        }
+
+        // Without output nodes, link the unit that configures the state
+        if (producers.length === 0) {
+          producers = this.fromOtherRepositories(owners.get(state), repositoryId);
+        }
+
+        for (const producer of producers) {
+          const edge = createRemoteStateEdge(
+            resolveId(producer.repositoryId, producer.nodeId),
+            consumer,
+            output,
+            state
+          );
+          const metadata: CrossRepoEdgeMetadata = {
+            ...edge.metadata,
+            sourceRepositoryId: producer.repositoryId,
+            targetRepositoryId: repositoryId,
+            isCrossRepoEdge: true,
+          };
+          edges.set(edge.id, { ...edge, metadata });
+        }
+      }
+    }
+
+    logger.debug(
+      { consumerCount: consumers.length, edgeCount: edges.size },
+      'Remote state consumers linked'
+    );
+
+    return Array.from(edges.values());
+  }
+
+  /**
+   * Map `${repositoryId}:${nodeId}` of merged source nodes to the merged node ID
+   */
+  private buildMergedIdMap(mergedNodes: readonly MergedNode[]): Map<string, string> {
+    const ids = new Map<string, string>();
+    for (const merged of mergedNodes) {
+      merged.sourceNodeIds.forEach((nodeId, i) => {
+        ids.set(`${merged.sourceRepoIds[i]}:${nodeId}`, merged.id);
+      });
+    }
+    return ids;
+  }
+
+  private addProducer(map: Map<string, StateProducer[]>, key: string, producer: StateProducer): void {
+    map.set(key, [...(map.get(key) ?? []), producer]);
+  }
+
+  private fromOtherRepositories(
+    producers: readonly StateProducer[] | undefined,
+    repositoryId: string
+  ): StateProducer[] {
+    return (producers ?? []).filter((p) => p.repositoryId !== repositoryId);
+  }
+
+  /**
+   * Outputs indexed under the state, falling back to units owning it
+   */
+  private fromIndex(
+    entries: readonly ExternalObjectEntry[],
+    output: string,
+    repositoryId: string
+  ): StateProducer[] {
+    const others = entries.filter((e) => e.repositoryId !== repositoryId);
+    const outputs = others.filter((e) => e.metadata.role === 'output' && e.metadata.output === output);
+    const selected = outputs.length > 0 ? outputs : others.filter((e) => e.metadata.role === 'state');
+    return selected.map((e) => ({ nodeId: e.nodeId, repositoryId: e.repositoryId }));
+  }
+
+  /**
+   * Index lookups are best effort; a failure leaves the consumer unlinked
+   */
+  private async lookup(tenantId: TenantId, state: string): Promise<ExternalObjectEntry[]> {
+    try {
+      const result = await this.index!.lookupByExternalId(tenantId, state, { referenceType: 'tf_state' });
+      return result.entries;
+    } catch (error) {
+      logger.warn({ err: error, state }, 'Remote state index lookup failed');
+      return [];
+    }
+  }
+}
+
+/**
+ * Create a new RemoteStateLinker instance
+ */
+export function createRemoteStateLinker(index?: RemoteStateIndex): RemoteStateLinker {
+  return new RemoteStateLinker(index);
+}
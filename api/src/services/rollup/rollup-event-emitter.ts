@@ -30,7 +30,8 @@ export type RollupEventType =
   | 'rollup.execution.progress'
   | 'rollup.execution.completed'
   | 'rollup.execution.failed'
-  | 'rollup.execution.cancelled';
+  | 'rollup.execution.cancelled'
+  | 'rollup.schedule.triggered';
 
 /**
  * Base rollup event structure
@@ -310,6 +311,7 @@ export class RollupEventEmitter implements IRollupEventEmitter {
       'rollup.execution.completed': 'execution',
       'rollup.execution.failed': 'execution',
       'rollup.execution.cancelled': 'execution',
+      'rollup.schedule.triggered': 'schedule',
     };
 
     const channelSuffix = channelMap[eventType] || 'general';
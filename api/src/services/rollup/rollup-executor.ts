@@ -11,6 +11,8 @@
 
 import pino from 'pino';
 import {
+  RollupId,
+  RollupExecutionId,
   RollupConfig,
   RollupExecutionResult,
   RollupExecutionStats,
@@ -26,6 +28,7 @@ import {
   IMatcherFactory,
   IMergeEngine,
   IBlastRadiusEngine,
+  IMergedGraphStore,
   RollupExecutionEntity,
   MergeInput,
   MergeOutput,
@@ -38,6 +41,7 @@ import {
 } from './errors.js';
 import { IRollupEventEmitter } from './rollup-event-emitter.js';
 import { IGraphService } from '../graph-service.js';
+import { RemoteStateLinker } from './remote-state-linker.js';
 
 const logger = pino({ name: 'rollup-executor' });
 
@@ -55,14 +59,29 @@ export interface RollupExecutorDependencies {
   readonly mergeEngine: IMergeEngine;
   readonly blastRadiusEngine: IBlastRadiusEngine;
   readonly eventEmitter: IRollupEventEmitter;
+  /** Links remote state consumers to outputs in other repositories */
+  readonly remoteStateLinker?: RemoteStateLinker | undefined;
+  /** Persists merged graphs for blast radius analysis on other instances */
+  readonly graphStore?: IMergedGraphStore | undefined;
+}
+
+/**
+ * Options for a single execute call
+ */
+export interface RollupExecuteOptions {
+  /**
+   * Whether a failure ends the execution. Non-final failures are rethrown
+   * for another attempt without failing the execution. Defaults to final.
+   */
+  readonly isFinalFailure?: (error: unknown) => boolean;
 }
 
 /**
  * Execution context for tracking state
  */
 interface ExecutionContext {
-  readonly executionId: string;
-  readonly rollupId: string;
+  readonly executionId: RollupExecutionId;
+  readonly rollupId: RollupId;
   readonly tenantId: TenantId;
   readonly startTime: number;
   stats: RollupExecutionStats;
@@ -110,7 +129,8 @@ export class RollupExecutor {
    */
   async execute(
     execution: RollupExecutionEntity,
-    config: RollupConfig
+    config: RollupConfig,
+    options: RollupExecuteOptions = {}
   ): Promise<RollupExecutionResult> {
     const context: ExecutionContext = {
       executionId: execution.id,
@@ -139,21 +159,40 @@ export class RollupExecutor {
         context.tenantId,
         context
       );
+      await this.emitProgress(context, 'fetching', {
+        graphs: sourceGraphs.length,
+        nodesProcessed: context.stats.totalNodesProcessed,
+        edgesProcessed: context.stats.totalEdgesProcessed,
+      });
 
       // Phase 2: Create matchers
       const matchers = this.createMatchers(config);
 
       // Phase 3: Apply matching strategies
       const matches = await this.applyMatchers(sourceGraphs, matchers, config, context);
+      await this.emitProgress(context, 'matching', {
+        matches: matches.length,
+        nodesMatched: context.stats.nodesMatched,
+      });
 
       // Phase 4: Merge graphs
-      const mergeOutput = await this.mergeGraphs(sourceGraphs, matches, config, context);
+      const mergeOutput = await this.linkRemoteState(
+        sourceGraphs,
+        await this.mergeGraphs(sourceGraphs, matches, config, context),
+        context
+      );
+      await this.emitProgress(context, 'merging', {
+        mergedNodes: mergeOutput.mergedNodes.length,
+        edges: mergeOutput.edges.length,
+        crossRepoEdges: context.stats.crossRepoEdgesCreated,
+      });
 
       // Phase 5: Store results
-      await this.storeResults(context, mergeOutput, matches);
+      const repositoryNames = await this.resolveRepositoryNames(context, mergeOutput);
+      await this.storeResults(context, mergeOutput, matches, repositoryNames);
 
       // Phase 6: Register with blast radius engine
-      await this.registerBlastRadiusData(context, mergeOutput);
+      await this.registerBlastRadiusData(context, mergeOutput, repositoryNames);
 
       // Finalize execution
       const executionTimeMs = Date.now() - context.startTime;
@@ -212,6 +251,17 @@ export class RollupExecutor {
         completedAt: updatedExecution.completedAt?.toISOString(),
       };
     } catch (error) {
+      if (options.isFinalFailure && !options.isFinalFailure(error)) {
+        logger.warn(
+          {
+            err: error,
+            executionId: context.executionId,
+          },
+          'Rollup execution attempt failed, retrying'
+        );
+        throw error;
+      }
+
       logger.error(
         {
           err: error,
@@ -538,6 +588,49 @@ export class RollupExecutor {
     return output;
   }
 
+  /**
+   * Add output_value edges between remote state consumers and the outputs
+   * of other repositories writing the state they read
+   */
+  private async linkRemoteState(
+    sourceGraphs: SourceGraph[],
+    output: MergeOutput,
+    context: ExecutionContext
+  ): Promise<MergeOutput> {
+    if (!this.deps.remoteStateLinker) {
+      return output;
+    }
+
+    const linked = await this.deps.remoteStateLinker.link({
+      tenantId: context.tenantId,
+      graphs: sourceGraphs,
+      mergedNodes: output.mergedNodes,
+    });
+    if (linked.length === 0) {
+      return output;
+    }
+
+    const edges = [...output.edges, ...linked];
+    const crossRepoEdges = output.stats.crossRepoEdges + linked.length;
+
+    context.stats = {
+      ...context.stats,
+      crossRepoEdgesCreated: crossRepoEdges,
+      edgesByType: this.countEdgesByType(edges),
+    };
+
+    logger.info(
+      { executionId: context.executionId, remoteStateEdges: linked.length },
+      'Remote state consumers linked'
+    );
+
+    return {
+      ...output,
+      edges,
+      stats: { ...output.stats, edgesAfterMerge: edges.length, crossRepoEdges },
+    };
+  }
+
   /**
    * Count nodes by type
    */
@@ -581,14 +674,58 @@ export class RollupExecutor {
   private async storeResults(
     context: ExecutionContext,
     mergeOutput: MergeOutput,
-    matches: MatchResult[]
+    matches: MatchResult[],
+    repositoryNames: Map<string, string>
   ): Promise<void> {
     logger.debug({ executionId: context.executionId }, 'Storing results');
 
-    // Results are stored via the repository updateExecution call in execute()
-    // This method can be extended for additional storage needs (e.g., separate graph storage)
+    // Execution stats and matches are stored via the updateExecution call in execute()
+    if (this.deps.graphStore) {
+      await this.deps.graphStore.saveGraph(
+        context.tenantId,
+        context.rollupId,
+        context.executionId,
+        { mergedNodes: mergeOutput.mergedNodes, edges: mergeOutput.edges, repositoryNames }
+      );
+    }
+
+    await this.emitProgress(context, 'storing', {
+      mergedNodes: mergeOutput.mergedNodes.length,
+      matches: matches.length,
+    });
+  }
+
+  /**
+   * Look up the names of the repositories contributing merged nodes.
+   * Repositories without a stored name are named by their ID.
+   */
+  private async resolveRepositoryNames(
+    context: ExecutionContext,
+    mergeOutput: MergeOutput
+  ): Promise<Map<string, string>> {
+    const repositoryIds = new Set<string>();
+    for (const node of mergeOutput.mergedNodes) {
+      for (const repoId of node.sourceRepoIds) {
+        repositoryIds.add(repoId);
+      }
+    }
 
-    // Emit progress event
+    const names = await this.deps.rollupRepository.findRepositoryNames(
+      context.tenantId,
+      [...repositoryIds]
+    );
+
+    return new Map([...repositoryIds].map((repoId) => [repoId, names.get(repoId) ?? repoId]));
+  }
+
+  /**
+   * Emit a progress event on completing a phase
+   */
+  private async emitProgress(
+    context: ExecutionContext,
+    phase: string,
+    data: Record<string, unknown>
+  ): Promise<void> {
     await this.deps.eventEmitter.emit({
       type: 'rollup.execution.progress',
       rollupId: context.rollupId,
@@ -596,9 +733,8 @@ export class RollupExecutor {
       timestamp: new Date(),
       data: {
         executionId: context.executionId,
-        phase: 'storing',
-        mergedNodes: mergeOutput.mergedNodes.length,
-        matches: matches.length,
+        phase,
+        ...data,
       },
     });
   }
@@ -612,21 +748,11 @@ export class RollupExecutor {
    */
   private async registerBlastRadiusData(
     context: ExecutionContext,
-    mergeOutput: MergeOutput
+    mergeOutput: MergeOutput,
+    repositoryNames: Map<string, string>
   ): Promise<void> {
     logger.debug({ executionId: context.executionId }, 'Registering blast radius data');
 
-    // Build repository names map
-    const repositoryNames = new Map<string, string>();
-    for (const node of mergeOutput.mergedNodes) {
-      for (const repoId of node.sourceRepoIds) {
-        if (!repositoryNames.has(repoId)) {
-          // In production, fetch actual repository names
-          repositoryNames.set(repoId, repoId);
-        }
-      }
-    }
-
     // Register with blast radius engine
     this.deps.blastRadiusEngine.registerGraph(
       context.executionId,
@@ -657,7 +783,7 @@ export class RollupExecutor {
   ): Promise<void> {
     await this.deps.rollupRepository.updateExecution(context.tenantId, context.executionId, {
       status,
-      startedAt: status === 'running' ? new Date() : undefined,
+      ...(status === 'running' ? { startedAt: new Date() } : {}),
     });
   }
 
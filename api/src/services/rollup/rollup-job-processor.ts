@@ -0,0 +1,286 @@
+/**
+ * Rollup Job Processor
+ * @module services/rollup/rollup-job-processor
+ *
+ * Executes rollup queue jobs: explicit executions from `rollup:execute` and
+ * cron-triggered executions from `rollup:scheduled`. Failures are rethrown
+ * so the queue retries them with backoff; `isRetryableError` tells the worker
+ * which failures fail the same way on every attempt. Executions are only
+ * failed on the final attempt, which also dead-letters them.
+ *
+ * TASK-ROLLUP-001: Cross-Repository Aggregation background jobs
+ */
+
+import pino from 'pino';
+import { RollupExecutionResult } from '../../types/rollup.js';
+import { TenantId, RepositoryId, ScanId } from '../../types/entities.js';
+import { IRollupRepository, RollupEntity, RollupExecutionEntity } from './interfaces.js';
+import {
+  RollupNotFoundError,
+  RollupExecutionNotFoundError,
+  RollupExecutionError,
+  isRollupError,
+} from './errors.js';
+import { RollupExecutor } from './rollup-executor.js';
+import { RollupErrorRecoveryService } from './error-recovery.js';
+import { IRollupEventEmitter } from './rollup-event-emitter.js';
+import { rollupEntityToConfig } from './rollup-service.js';
+import type {
+  RollupExecuteJobPayload,
+  ScheduledExecutionJobPayload,
+} from '../../queues/rollup-jobs.js';
+
+const logger = pino({ name: 'rollup-job-processor' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Lookup of the latest completed scan of a repository (satisfied by IScanRepository)
+ */
+export interface ILatestScanSource {
+  getLatestCompletedForRepository(
+    repositoryId: RepositoryId,
+    tenantId: TenantId
+  ): Promise<{ id: ScanId } | null>;
+}
+
+/**
+ * Dependencies required by RollupJobProcessor
+ */
+export interface RollupJobProcessorDependencies {
+  readonly rollupRepository: IRollupRepository;
+  readonly executor: Pick<RollupExecutor, 'execute'>;
+  readonly eventEmitter: IRollupEventEmitter;
+  /** Source of latest scans for scheduled executions using latest scans */
+  readonly scanSource?: ILatestScanSource;
+  /** Dead letter queue receiving executions whose final attempt failed */
+  readonly errorRecovery?: Pick<RollupErrorRecoveryService, 'addToDeadLetterQueue'>;
+}
+
+/**
+ * Attempt position within the queue job
+ */
+export interface RollupJobAttempt {
+  /** Attempt number, starting at 1 */
+  readonly attempt: number;
+  /** Attempts allowed before the job fails */
+  readonly maxAttempts: number;
+}
+
+/**
+ * Attempt assumed for jobs processed outside a retrying queue
+ */
+const SINGLE_ATTEMPT: RollupJobAttempt = { attempt: 1, maxAttempts: 1 };
+
+// ============================================================================
+// Schedule Helpers
+// ============================================================================
+
+/**
+ * Check whether a rollup should run on its cron schedule
+ */
+export function isRollupScheduled(rollup: RollupEntity): boolean {
+  return (
+    rollup.status !== 'draft' &&
+    rollup.status !== 'archived' &&
+    rollup.schedule?.enabled === true &&
+    !!rollup.schedule.cron
+  );
+}
+
+// ============================================================================
+// Processor Implementation
+// ============================================================================
+
+/**
+ * Runs rollup executions for queue jobs.
+ * Independent of the queue transport so it can be driven by BullMQ workers or tests.
+ */
+export class RollupJobProcessor {
+  constructor(private readonly deps: RollupJobProcessorDependencies) {}
+
+  /**
+   * Check whether a failed job may succeed on another attempt.
+   * Rollup errors carry their own retryability; anything else (database or
+   * network failures) is assumed transient and bounded by the job's attempts.
+   */
+  isRetryableError(error: unknown): boolean {
+    return isRollupError(error) ? error.isRetryable : true;
+  }
+
+  /**
+   * Process an `execute-rollup` job for an existing execution record.
+   * Completed executions are skipped unless the job forces re-execution.
+   */
+  async processExecuteJob(
+    payload: RollupExecuteJobPayload,
+    attempt: RollupJobAttempt = SINGLE_ATTEMPT
+  ): Promise<RollupExecutionResult | null> {
+    const tenantId = payload.tenantId as TenantId;
+    const execution = await this.deps.rollupRepository.findExecutionById(
+      tenantId,
+      payload.executionId as RollupExecutionEntity['id']
+    );
+    if (!execution) {
+      throw new RollupExecutionNotFoundError(payload.executionId, payload.rollupId);
+    }
+
+    if (execution.status === 'completed' && !payload.options.force) {
+      logger.info({ executionId: execution.id }, 'Rollup execution already completed, skipping job');
+      return null;
+    }
+
+    const rollup = await this.deps.rollupRepository.findById(tenantId, execution.rollupId);
+    if (!rollup) {
+      throw new RollupNotFoundError(execution.rollupId);
+    }
+
+    return this.execute(execution, rollup, attempt, payload.options);
+  }
+
+  /**
+   * Process a `scheduled-execution` job fired by a rollup's cron schedule.
+   * Rollups deleted or unscheduled since the job was registered are skipped.
+   * A retried job re-runs the execution its earlier attempt created, which
+   * is reported through `onExecutionCreated` so it can be kept with the job.
+   */
+  async processScheduledJob(
+    payload: ScheduledExecutionJobPayload,
+    onExecutionCreated?: (executionId: string) => Promise<void>,
+    attempt: RollupJobAttempt = SINGLE_ATTEMPT
+  ): Promise<RollupExecutionResult | null> {
+    const tenantId = payload.tenantId as TenantId;
+    const rollup = await this.deps.rollupRepository.findById(
+      tenantId,
+      payload.rollupId as RollupEntity['id']
+    );
+    if (!rollup || !isRollupScheduled(rollup)) {
+      logger.info({ rollupId: payload.rollupId }, 'Rollup is no longer scheduled, skipping job');
+      return null;
+    }
+
+    if (payload.executionId !== undefined) {
+      const previous = await this.deps.rollupRepository.findExecutionById(
+        tenantId,
+        payload.executionId as RollupExecutionEntity['id']
+      );
+      if (previous?.status === 'completed') {
+        logger.info({ executionId: previous.id }, 'Scheduled rollup execution already completed, skipping job');
+        return null;
+      }
+      if (previous) {
+        return this.execute(previous, rollup, attempt);
+      }
+    }
+
+    const scanIds = await this.resolveScanIds(rollup, payload.useLatestScans);
+    if (scanIds.length === 0) {
+      logger.warn({ rollupId: rollup.id }, 'No scans available for scheduled rollup, skipping job');
+      return null;
+    }
+
+    const execution = await this.deps.rollupRepository.createExecution(tenantId, rollup.id, scanIds);
+    await onExecutionCreated?.(execution.id);
+
+    await this.deps.eventEmitter.emit({
+      type: 'rollup.schedule.triggered',
+      rollupId: rollup.id,
+      tenantId,
+      timestamp: new Date(),
+      data: {
+        executionId: execution.id,
+        triggerType: 'cron',
+        scheduledTime: payload.schedule.scheduledAt,
+        cron: payload.schedule.cron,
+        timezone: payload.schedule.timezone,
+      },
+    });
+
+    await this.deps.eventEmitter.emit({
+      type: 'rollup.execution.started',
+      rollupId: rollup.id,
+      tenantId,
+      timestamp: new Date(),
+      data: {
+        executionId: execution.id,
+        scanIds,
+        async: true,
+      },
+    });
+
+    return this.execute(execution, rollup, attempt);
+  }
+
+  // ==========================================================================
+  // Private Helpers
+  // ==========================================================================
+
+  /**
+   * Run an execution, failing it only when this attempt is the last one.
+   * Executions whose final attempt fails are added to the dead letter queue.
+   */
+  private async execute(
+    execution: RollupExecutionEntity,
+    rollup: RollupEntity,
+    attempt: RollupJobAttempt,
+    executionOptions?: Record<string, unknown>
+  ): Promise<RollupExecutionResult> {
+    const isFinalFailure = (error: unknown): boolean =>
+      attempt.attempt >= attempt.maxAttempts || !this.isRetryableError(error);
+
+    try {
+      return await this.deps.executor.execute(execution, rollupEntityToConfig(rollup), { isFinalFailure });
+    } catch (error) {
+      if (isFinalFailure(error)) {
+        this.deps.errorRecovery?.addToDeadLetterQueue(
+          execution.id,
+          execution.rollupId,
+          execution.tenantId,
+          error instanceof Error ? error : new Error(String(error)),
+          {
+            attemptCount: attempt.attempt,
+            maxAttempts: attempt.maxAttempts,
+            ...(error instanceof RollupExecutionError
+              ? { phase: error.phase, partialResults: error.partialResults }
+              : {}),
+            ...(executionOptions ? { executionOptions } : {}),
+          }
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Scans for a scheduled execution: the latest completed scan of each
+   * repository, falling back to the rollup's pinned scans
+   */
+  private async resolveScanIds(rollup: RollupEntity, useLatestScans: boolean): Promise<ScanId[]> {
+    const pinned = rollup.scanIds ?? [];
+    if (!useLatestScans || !this.deps.scanSource) {
+      return pinned;
+    }
+
+    const latest: ScanId[] = [];
+    for (const repositoryId of rollup.repositoryIds) {
+      const scan = await this.deps.scanSource.getLatestCompletedForRepository(repositoryId, rollup.tenantId);
+      if (scan) {
+        latest.push(scan.id);
+      }
+    }
+    return latest.length > 0 ? latest : pinned;
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new RollupJobProcessor instance
+ */
+export function createRollupJobProcessor(deps: RollupJobProcessorDependencies): RollupJobProcessor {
+  return new RollupJobProcessor(deps);
+}
@@ -0,0 +1,149 @@
+/**
+ * Rollup Scheduler
+ * @module services/rollup/rollup-scheduler
+ *
+ * Keeps one repeatable `scheduled-execution` job per scheduled rollup on the
+ * `rollup:scheduled` queue, so cron schedules fire without manual triggers.
+ * Schedules of rollups that were deleted, archived or unscheduled are removed.
+ *
+ * TASK-ROLLUP-001: Cross-Repository Aggregation background jobs
+ */
+
+import pino from 'pino';
+import { IRollupRepository, RollupEntity } from './interfaces.js';
+import { isRollupScheduled } from './rollup-job-processor.js';
+import {
+  ROLLUP_JOB_TYPES,
+  ROLLUP_EXECUTE_JOB_OPTIONS,
+  createScheduledExecutionJob,
+  type ScheduledExecutionJobPayload,
+} from '../../queues/rollup-jobs.js';
+
+const logger = pino({ name: 'rollup-scheduler' });
+
+/**
+ * Prefix of job scheduler IDs owned by the rollup scheduler
+ */
+export const ROLLUP_SCHEDULER_PREFIX = 'rollup-schedule:';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Job scheduler operations of the scheduled queue (satisfied by a BullMQ Queue)
+ */
+export interface IRollupScheduleQueue {
+  upsertJobScheduler(
+    schedulerId: string,
+    repeat: { pattern: string; tz?: string },
+    template: {
+      name: string;
+      data: ScheduledExecutionJobPayload;
+      opts?: {
+        attempts?: number;
+        backoff?: { type: 'exponential' | 'fixed'; delay: number };
+        removeOnComplete?: { age: number; count: number };
+        removeOnFail?: { age: number; count: number };
+      };
+    }
+  ): Promise<unknown>;
+  removeJobScheduler(schedulerId: string): Promise<boolean>;
+  getJobSchedulers(): Promise<Array<{ key: string }>>;
+}
+
+/**
+ * Outcome of a schedule synchronization
+ */
+export interface RollupScheduleSyncResult {
+  /** Rollups with a registered schedule */
+  readonly registered: number;
+  /** Stale schedules removed */
+  readonly removed: number;
+  /** Rollups whose schedule could not be registered */
+  readonly failed: number;
+}
+
+// ============================================================================
+// Scheduler Implementation
+// ============================================================================
+
+/**
+ * Get the job scheduler ID of a rollup
+ */
+export function getRollupSchedulerId(rollup: Pick<RollupEntity, 'tenantId' | 'id'>): string {
+  return `${ROLLUP_SCHEDULER_PREFIX}${rollup.tenantId}:${rollup.id}`;
+}
+
+/**
+ * Registers rollup cron schedules as repeatable jobs
+ */
+export class RollupScheduler {
+  constructor(
+    private readonly rollupRepository: IRollupRepository,
+    private readonly queue: IRollupScheduleQueue
+  ) {}
+
+  /**
+   * Register or update the schedule of every scheduled rollup and remove
+   * schedules that no longer belong to one
+   */
+  async sync(): Promise<RollupScheduleSyncResult> {
+    const rollups = (await this.rollupRepository.findScheduled()).filter(isRollupScheduled);
+    const active = new Set<string>();
+    let failed = 0;
+
+    for (const rollup of rollups) {
+      const schedulerId = getRollupSchedulerId(rollup);
+      const cron = rollup.schedule!.cron!;
+      const timezone = rollup.schedule!.timezone ?? 'UTC';
+
+      try {
+        await this.queue.upsertJobScheduler(
+          schedulerId,
+          { pattern: cron, tz: timezone },
+          {
+            name: ROLLUP_JOB_TYPES.SCHEDULED_EXECUTION,
+            data: createScheduledExecutionJob(rollup.tenantId, rollup.id, cron, timezone),
+            opts: {
+              attempts: ROLLUP_EXECUTE_JOB_OPTIONS.attempts,
+              backoff: ROLLUP_EXECUTE_JOB_OPTIONS.backoff,
+              removeOnComplete: ROLLUP_EXECUTE_JOB_OPTIONS.removeOnComplete,
+              removeOnFail: ROLLUP_EXECUTE_JOB_OPTIONS.removeOnFail,
+            },
+          }
+        );
+        active.add(schedulerId);
+      } catch (error) {
+        failed++;
+        logger.error({ err: error, rollupId: rollup.id, cron }, 'Failed to register rollup schedule');
+      }
+    }
+
+    let removed = 0;
+    for (const scheduler of await this.queue.getJobSchedulers()) {
+      if (scheduler.key.startsWith(ROLLUP_SCHEDULER_PREFIX) && !active.has(scheduler.key)) {
+        await this.queue.removeJobScheduler(scheduler.key);
+        removed++;
+      }
+    }
+
+    logger.info({ registered: active.size, removed, failed }, 'Rollup schedules synchronized');
+
+    return { registered: active.size, removed, failed };
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new RollupScheduler instance
+ */
+export function createRollupScheduler(
+  rollupRepository: IRollupRepository,
+  queue: IRollupScheduleQueue
+): RollupScheduler {
+  return new RollupScheduler(rollupRepository, queue);
+}
@@ -34,6 +34,7 @@ import {
   IMatcherFactory,
   IMergeEngine,
   IBlastRadiusEngine,
+  IMergedGraphStore,
   RollupEntity,
   RollupExecutionEntity,
   RollupServiceConfig,
@@ -50,6 +51,7 @@ import {
   RollupLimitExceededError,
 } from './errors.js';
 import { RollupExecutor, RollupExecutorDependencies } from './rollup-executor.js';
+import { RemoteStateLinker } from './remote-state-linker.js';
 import { IRollupEventEmitter, RollupEventType } from './rollup-event-emitter.js';
 import { IGraphService } from '../graph-service.js';
 
@@ -79,6 +81,10 @@ export interface RollupServiceDependencies {
   readonly cacheService?: ICacheService;
   /** Queue service for async execution */
   readonly queueService?: IQueueService;
+  /** Remote state linker for cross-repository output_value edges */
+  readonly remoteStateLinker?: RemoteStateLinker | undefined;
+  /** Merged graph store for blast radius analysis across instances */
+  readonly graphStore?: IMergedGraphStore | undefined;
   /** Service configuration */
   readonly config?: Partial<RollupServiceConfig>;
 }
@@ -124,6 +130,8 @@ export class RollupService implements IRollupService {
       mergeEngine: deps.mergeEngine,
       blastRadiusEngine: deps.blastRadiusEngine,
       eventEmitter: deps.eventEmitter,
+      remoteStateLinker: deps.remoteStateLinker,
+      graphStore: deps.graphStore,
     };
     this.executor = new RollupExecutor(executorDeps);
   }
@@ -635,8 +643,8 @@ export class RollupService implements IRollupService {
       );
     }
 
-    // Analyze blast radius
-    const response = await this.deps.blastRadiusEngine.analyze(execution.id, query);
+    // Analyze blast radius; the engine loads the graph if another instance executed it
+    const response = await this.deps.blastRadiusEngine.analyze(execution.id, query, tenantId);
 
     // Fill in rollupId
     return {
@@ -653,27 +661,7 @@ export class RollupService implements IRollupService {
    * Convert RollupEntity to RollupConfig
    */
   private entityToConfig(entity: RollupEntity): RollupConfig {
-    return {
-      id: entity.id,
-      tenantId: entity.tenantId,
-      name: entity.name,
-      description: entity.description ?? undefined,
-      status: entity.status,
-      repositoryIds: entity.repositoryIds,
-      scanIds: entity.scanIds ?? undefined,
-      matchers: entity.matchers,
-      includeNodeTypes: entity.includeNodeTypes ?? undefined,
-      excludeNodeTypes: entity.excludeNodeTypes ?? undefined,
-      preserveEdgeTypes: entity.preserveEdgeTypes ?? undefined,
-      mergeOptions: entity.mergeOptions ?? createDefaultMergeOptions(),
-      schedule: entity.schedule ?? undefined,
-      version: entity.version,
-      createdBy: entity.createdBy,
-      updatedBy: entity.updatedBy ?? undefined,
-      createdAt: entity.createdAt.toISOString(),
-      updatedAt: entity.updatedAt.toISOString(),
-      lastExecutedAt: entity.lastExecutedAt?.toISOString(),
-    };
+    return rollupEntityToConfig(entity);
   }
 
   /**
@@ -708,3 +696,34 @@ export class RollupService implements IRollupService {
 export function createRollupService(deps: RollupServiceDependencies): IRollupService {
   return new RollupService(deps);
 }
+
+// ============================================================================
+// Entity Conversion
+// ============================================================================
+
+/**
+ * Convert a stored RollupEntity to the RollupConfig the executor runs
+ */
+export function rollupEntityToConfig(entity: RollupEntity): RollupConfig {
+  return {
+    id: entity.id,
+    tenantId: entity.tenantId,
+    name: entity.name,
+    description: entity.description ?? undefined,
+    status: entity.status,
+    repositoryIds: entity.repositoryIds,
+    scanIds: entity.scanIds ?? undefined,
+    matchers: entity.matchers,
+    includeNodeTypes: entity.includeNodeTypes ?? undefined,
+    excludeNodeTypes: entity.excludeNodeTypes ?? undefined,
+    preserveEdgeTypes: entity.preserveEdgeTypes ?? undefined,
+    mergeOptions: entity.mergeOptions ?? createDefaultMergeOptions(),
+    schedule: entity.schedule ?? undefined,
+    version: entity.version,
+    createdBy: entity.createdBy,
+    updatedBy: entity.updatedBy ?? undefined,
+    createdAt: entity.createdAt.toISOString(),
+    updatedAt: entity.updatedAt.toISOString(),
+    lastExecutedAt: entity.lastExecutedAt?.toISOString(),
+  };
+}
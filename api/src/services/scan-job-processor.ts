@@ -0,0 +1,194 @@
+/**
+ * Scan Job Processor
+ * @module services/scan-job-processor
+ *
+ * Executes `execute-scan` jobs queued by push webhooks: checks out the
+ * pushed commit, runs the scan under the pre-assigned scan ID and removes
+ * the working copy again. Incremental jobs re-parse only the changed files
+ * and merge the result into their base scan. Retried jobs whose scan saved
+ * a checkpoint resume from it on a fresh checkout of the same commit.
+ */
+
+import pino from 'pino';
+import {
+  createScanId,
+  createTenantId,
+  createRepositoryId,
+  createUserId,
+  ScanStatus,
+  type ScanId,
+  type TenantId,
+  type RepositoryId,
+  type ScanEntity,
+  type ScanCheckpointEntity,
+} from '../types/entities.js';
+import type { ScanExecuteJobPayload } from '../queues/scan-jobs.js';
+import type { IScanService, ScanResult, ScanServiceErrorCode } from './scan-service.js';
+import type { RepositoryCheckout, RepositoryCloneSource } from './repository-clone.js';
+
+const logger = pino({ name: 'scan-job-processor' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Lookup of existing scans and their checkpoints (satisfied by IScanRepository)
+ */
+export interface IScanStatusSource {
+  findById(id: ScanId, tenantId: TenantId): Promise<Pick<ScanEntity, 'id' | 'status'> | null>;
+  findCheckpoint(id: ScanId, tenantId: TenantId): Promise<Pick<ScanCheckpointEntity, 'phase'> | null>;
+}
+
+/**
+ * Dependencies required by ScanJobProcessor
+ */
+export interface ScanJobProcessorDependencies {
+  readonly scanService: Pick<IScanService, 'startScan' | 'resumeScan'>;
+  readonly scanSource: IScanStatusSource;
+  /** Resolve where to fetch a tracked repository from */
+  readonly findCloneSource: (
+    tenantId: TenantId,
+    repositoryId: RepositoryId
+  ) => Promise<RepositoryCloneSource | null>;
+  /** Check out a commit into a temporary working copy */
+  readonly checkout: (source: RepositoryCloneSource, ref: string) => Promise<RepositoryCheckout>;
+}
+
+/**
+ * Error raised for a scan job that failed.
+ * Non-retryable failures fail the job without further attempts.
+ */
+export class ScanJobError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean,
+    public readonly code?: string
+  ) {
+    super(message);
+    this.name = 'ScanJobError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * User recorded as the initiator of webhook-triggered scans
+ */
+export const WEBHOOK_SCAN_INITIATOR = createUserId('00000000-0000-0000-0000-000000000000');
+
+/**
+ * Scan failures that fail the same way on every attempt
+ */
+const NON_RETRYABLE_SCAN_ERRORS: ReadonlySet<ScanServiceErrorCode> = new Set([
+  'INVALID_INPUT',
+  'BASE_SCAN_NOT_FOUND',
+  'SCAN_ALREADY_RUNNING',
+  'SCAN_CANCELLED',
+]);
+
+// ============================================================================
+// Processor Implementation
+// ============================================================================
+
+/**
+ * Runs scans for queue jobs.
+ * Independent of the queue transport so it can be driven by BullMQ workers or tests.
+ */
+export class ScanJobProcessor {
+  constructor(private readonly deps: ScanJobProcessorDependencies) {}
+
+  /**
+   * Process an `execute-scan` job.
+   * Scans already completed by an earlier attempt are skipped; scans an
+   * earlier attempt checkpointed are resumed.
+   * @throws ScanJobError when the scan cannot be run
+   */
+  async processExecuteJob(payload: ScanExecuteJobPayload): Promise<ScanResult | null> {
+    const scanId = createScanId(payload.scanId);
+    const tenantId = createTenantId(payload.tenantId);
+    const repositoryId = createRepositoryId(payload.repositoryId);
+
+    const existing = await this.deps.scanSource.findById(scanId, tenantId);
+    if (existing?.status === ScanStatus.COMPLETED) {
+      logger.info({ scanId }, 'Scan already completed, skipping job');
+      return null;
+    }
+    const checkpoint = existing ? await this.deps.scanSource.findCheckpoint(scanId, tenantId) : null;
+
+    const source = await this.deps.findCloneSource(tenantId, repositoryId);
+    if (!source) {
+      throw new ScanJobError(`Repository ${repositoryId} not found`, false, 'REPOSITORY_NOT_FOUND');
+    }
+
+    let checkout: RepositoryCheckout;
+    try {
+      checkout = await this.deps.checkout(source, payload.commitSha);
+    } catch (error) {
+      throw new ScanJobError(
+        error instanceof Error ? error.message : 'Checkout failed',
+        true,
+        'CHECKOUT_FAILED'
+      );
+    }
+
+    try {
+      // The checkpoint's working copy was removed with its attempt, so the
+      // scan resumes on this checkout of the same commit
+      const result = checkpoint
+        ? await this.deps.scanService.resumeScan(scanId, undefined, checkout.basePath)
+        : await this.deps.scanService.startScan({
+          scanId,
+          tenantId,
+          repositoryId,
+          initiatedBy: WEBHOOK_SCAN_INITIATOR,
+          ref: payload.ref,
+          commitSha: checkout.commitSha,
+          basePath: checkout.basePath,
+          ...(payload.incremental !== undefined && {
+            incremental: {
+              baseScanId: createScanId(payload.incremental.baseScanId),
+              changedFiles: payload.incremental.changedFiles,
+              removedFiles: payload.incremental.removedFiles,
+            },
+          }),
+        });
+
+      if (!result.success) {
+        throw new ScanJobError(
+          result.error.message,
+          !NON_RETRYABLE_SCAN_ERRORS.has(result.error.code),
+          result.error.code
+        );
+      }
+
+      logger.info({
+        scanId,
+        repositoryId,
+        commitSha: checkout.commitSha,
+        incremental: payload.incremental !== undefined,
+        ...(checkpoint && { resumedFrom: checkpoint.phase }),
+        status: result.value.status,
+      }, 'Queued scan finished');
+
+      return result.value;
+    } finally {
+      await checkout.cleanup().catch((error: unknown) => {
+        logger.warn({ err: error, scanId, basePath: checkout.basePath }, 'Failed to remove checkout');
+      });
+    }
+  }
+}
+
+// ============================================================================
+// Factory Function
+// ============================================================================
+
+/**
+ * Create a new ScanJobProcessor instance
+ */
+export function createScanJobProcessor(deps: ScanJobProcessorDependencies): ScanJobProcessor {
+  return new ScanJobProcessor(deps);
+}
@@ -15,6 +15,7 @@ import {
   ScanConfig,
   ScanProgress,
   ScanPhase,
+  ScanCheckpointPhase,
   ScanResultSummary,
   ScanError,
   ScanWarning,
@@ -29,10 +30,11 @@ import {
   createEmptyConfidenceDistribution,
 } from '../types/entities.js';
 import { DependencyGraph, NodeType, GraphEdge } from '../types/graph.js';
+import type { EvidenceCollection } from '../types/evidence.js';
 import { Result, success, failure, isSuccess } from '../types/utility.js';
 
 // Import other services (will be injected)
-import type { IParserOrchestrator, ParserOrchestratorInput } from './parser-orchestrator.js';
+import type { IParserOrchestrator, ParserOrchestratorInput, ParsedFile } from './parser-orchestrator.js';
 import type { IDetectionOrchestrator, DetectionOrchestratorInput } from './detection-orchestrator.js';
 import type { IGraphService } from './graph-service.js';
 import type { IScoringService } from './scoring-service.js';
@@ -93,6 +95,25 @@ export interface StartScanInput {
   readonly config?: Partial<ScanConfig>;
   /** Callback URL for progress notifications */
   readonly callbackUrl?: string;
+  /** Pre-assigned scan ID, e.g. for scans queued by a webhook */
+  readonly scanId?: ScanId;
+  /** Re-parse only the changed files and merge into a previous scan */
+  readonly incremental?: IncrementalScanInput;
+}
+
+/**
+ * Incremental scan input.
+ * Only changed files are parsed and detected; everything else is carried
+ * over from the base scan's graph. References from changed files into
+ * unchanged files are kept only as far as node IDs are stable between scans.
+ */
+export interface IncrementalScanInput {
+  /** Completed scan whose graph the result is merged into */
+  readonly baseScanId: ScanId;
+  /** Files added or modified since the base scan, relative to the repository root */
+  readonly changedFiles: readonly string[];
+  /** Files removed since the base scan, relative to the repository root */
+  readonly removedFiles: readonly string[];
 }
 
 /**
@@ -115,6 +136,48 @@ export interface ScanResult {
   readonly durationMs: number;
 }
 
+/**
+ * Scan checkpoint - pipeline state saved after the parsing and detection
+ * phases so an interrupted scan can resume without repeating them
+ */
+export interface ScanCheckpoint {
+  /** Scan ID */
+  readonly scanId: ScanId;
+  /** Last completed phase */
+  readonly phase: ScanCheckpointPhase;
+  /** Base path to the repository files */
+  readonly basePath: string;
+  /** Number of files discovered */
+  readonly totalFiles: number;
+  /** Parsed files (parsing checkpoints only) */
+  readonly parsedFiles?: ParsedFile[];
+  /** Detection output (detection checkpoints only) */
+  readonly detection?: CheckpointDetection;
+  /** Incremental scan input, if the scan only covers changed files */
+  readonly incremental?: IncrementalScanInput;
+  /** Errors collected up to the checkpoint */
+  readonly errors: ScanError[];
+  /** Warnings collected up to the checkpoint */
+  readonly warnings: ScanWarning[];
+}
+
+/**
+ * Detection output stored in a checkpoint
+ */
+export interface CheckpointDetection {
+  readonly nodes: NodeType[];
+  readonly edges: GraphEdge[];
+  readonly evidence: EvidenceCollection;
+}
+
+/**
+ * Phase a resumed scan picks up from, by last completed checkpoint phase
+ */
+const RESUME_PHASES: Record<ScanCheckpointPhase, ScanPhase> = {
+  parsing: 'detecting',
+  detecting: 'building_graph',
+};
+
 /**
  * Progress callback function type
  */
@@ -136,6 +199,10 @@ export type ScanEventType =
 export interface ScanEvent {
   readonly type: ScanEventType;
   readonly scanId: ScanId;
+  /** Tenant of the scan, when known */
+  readonly tenantId?: TenantId;
+  /** Repository of the scan, when known */
+  readonly repositoryId?: RepositoryId;
   readonly timestamp: Date;
   readonly data: Record<string, unknown>;
 }
@@ -174,9 +241,15 @@ export interface IScanService {
   getScanStatus(scanId: ScanId): Promise<Result<ScanProgress, ScanServiceError>>;
 
   /**
-   * Resume a paused scan
+   * Resume an interrupted scan from its last checkpoint
+   * @param basePath - Fresh checkout of the scanned commit, when the
+   *   checkpoint's working copy no longer exists
    */
-  resumeScan(scanId: ScanId): Promise<Result<ScanResult, ScanServiceError>>;
+  resumeScan(
+    scanId: ScanId,
+    onProgress?: ProgressCallback,
+    basePath?: string
+  ): Promise<Result<ScanResult, ScanServiceError>>;
 }
 
 /**
@@ -198,7 +271,7 @@ export interface IFileDiscovery {
 export interface DiscoveredFile {
   readonly path: string;
   readonly relativePath: string;
-  readonly type: 'terraform' | 'kubernetes' | 'helm' | 'cloudformation' | 'unknown';
+  readonly type: 'terraform' | 'kubernetes' | 'helm' | 'cloudformation' | 'dockerfile' | 'unknown';
   readonly size: number;
 }
 
@@ -229,6 +302,34 @@ export interface IScanPersistence {
    * Get scan by ID
    */
   getScan(scanId: ScanId): Promise<ScanEntity | null>;
+
+  /**
+   * Save scan checkpoint, replacing any previous checkpoint
+   */
+  saveCheckpoint(checkpoint: ScanCheckpoint): Promise<void>;
+
+  /**
+   * Get the latest checkpoint for a scan
+   */
+  getCheckpoint(scanId: ScanId): Promise<ScanCheckpoint | null>;
+
+  /**
+   * Delete scan checkpoint
+   */
+  deleteCheckpoint(scanId: ScanId): Promise<void>;
+
+  /**
+   * Get the stored graph of a scan, or null if the scan has no results
+   */
+  getScanGraph(scanId: ScanId): Promise<ScanGraphSnapshot | null>;
+}
+
+/**
+ * Nodes and edges of a stored scan graph
+ */
+export interface ScanGraphSnapshot {
+  readonly nodes: NodeType[];
+  readonly edges: GraphEdge[];
 }
 
 /**
@@ -253,6 +354,8 @@ export type ScanServiceErrorCode =
   | 'SCAN_ALREADY_RUNNING'
   | 'SCAN_CANCELLED'
   | 'SCAN_TIMEOUT'
+  | 'CHECKPOINT_NOT_FOUND'
+  | 'BASE_SCAN_NOT_FOUND'
   | 'DISCOVERY_FAILED'
   | 'PARSING_FAILED'
   | 'DETECTION_FAILED'
@@ -292,24 +395,199 @@ export class ScanService implements IScanService {
     input: StartScanInput,
     onProgress?: ProgressCallback
   ): Promise<Result<ScanResult, ScanServiceError>> {
-    const scanId = createScanId(crypto.randomUUID());
-    const startTime = Date.now();
-    const abortController = new AbortController();
-
-    this.runningScans.set(scanId, abortController);
+    const scanId = input.scanId ?? createScanId(crypto.randomUUID());
 
     const scanConfig: ScanConfig = {
       ...DEFAULT_SCAN_CONFIG,
       ...input.config,
     };
 
+    logger.info(
+      { scanId, repositoryId: input.repositoryId, ref: input.ref, incremental: input.incremental !== undefined },
+      'Starting scan'
+    );
+
+    // Create initial scan entity
+    const scan: ScanEntity = {
+      id: scanId,
+      tenantId: input.tenantId,
+      repositoryId: input.repositoryId,
+      initiatedBy: input.initiatedBy,
+      status: ScanStatus.RUNNING,
+      config: scanConfig,
+      ref: input.ref,
+      commitSha: input.commitSha,
+      progress: {
+        ...createEmptyScanProgress(),
+        phase: 'initializing',
+      },
+      startedAt: new Date(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    return this.runScan(scan, input.basePath, onProgress, null, input.incremental);
+  }
+
+  /**
+   * Cancel a running scan
+   */
+  async cancelScan(scanId: ScanId): Promise<Result<void, ScanServiceError>> {
+    const controller = this.runningScans.get(scanId);
+
+    if (!controller) {
+      const scan = await this.persistence.getScan(scanId);
+      if (!scan) {
+        return failure(new ScanServiceError(
+          'Scan not found',
+          'SCAN_NOT_FOUND'
+        ));
+      }
+
+      if (scan.status !== ScanStatus.RUNNING) {
+        return failure(new ScanServiceError(
+          'Scan is not running',
+          'SCAN_NOT_FOUND'
+        ));
+      }
+    }
+
+    controller?.abort();
+
+    // Update scan status
+    const scan = await this.persistence.getScan(scanId);
+    if (scan) {
+      await this.persistence.saveScan({
+        ...scan,
+        status: ScanStatus.CANCELLED,
+        updatedAt: new Date(),
+      });
+    }
+
+    this.runningScans.delete(scanId);
+
+    // Emit cancel event
+    this.emitEvent({
+      type: 'scan.cancelled',
+      scanId,
+      ...(scan && { tenantId: scan.tenantId, repositoryId: scan.repositoryId }),
+      timestamp: new Date(),
+      data: {},
+    });
+
+    logger.info({ scanId }, 'Scan cancelled');
+
+    return success(undefined);
+  }
+
+  /**
+   * Get scan status
+   */
+  async getScanStatus(scanId: ScanId): Promise<Result<ScanProgress, ScanServiceError>> {
+    const scan = await this.persistence.getScan(scanId);
+
+    if (!scan) {
+      return failure(new ScanServiceError(
+        'Scan not found',
+        'SCAN_NOT_FOUND'
+      ));
+    }
+
+    return success(scan.progress);
+  }
+
+  /**
+   * Resume an interrupted scan from its last checkpoint.
+   * Discovery and parsing are skipped; detection is skipped as well when the
+   * checkpoint was taken after it. Files are read from `basePath` when given,
+   * else from the checkout the checkpoint was taken on.
+   */
+  async resumeScan(
+    scanId: ScanId,
+    onProgress?: ProgressCallback,
+    basePath?: string
+  ): Promise<Result<ScanResult, ScanServiceError>> {
+    if (this.runningScans.has(scanId)) {
+      return failure(new ScanServiceError(
+        'Scan is already running',
+        'SCAN_ALREADY_RUNNING'
+      ));
+    }
+
+    let scan: ScanEntity | null;
+    let checkpoint: ScanCheckpoint | null;
+
+    try {
+      scan = await this.persistence.getScan(scanId);
+      checkpoint = scan ? await this.persistence.getCheckpoint(scanId) : null;
+    } catch (error) {
+      logger.error({ err: error, scanId }, 'Failed to load scan checkpoint');
+
+      return failure(new ScanServiceError(
+        'Failed to load scan checkpoint',
+        'PERSISTENCE_FAILED',
+        { cause: error }
+      ));
+    }
+
+    if (!scan) {
+      return failure(new ScanServiceError(
+        'Scan not found',
+        'SCAN_NOT_FOUND'
+      ));
+    }
+
+    if (scan.status === ScanStatus.COMPLETED || scan.status === ScanStatus.CANCELLED) {
+      return failure(new ScanServiceError(
+        `Cannot resume scan with status: ${scan.status}`,
+        'INVALID_INPUT',
+        { status: scan.status }
+      ));
+    }
+
+    if (!checkpoint) {
+      return failure(new ScanServiceError(
+        'No checkpoint available for scan',
+        'CHECKPOINT_NOT_FOUND'
+      ));
+    }
+
+    return this.runScan(scan, basePath ?? checkpoint.basePath, onProgress, checkpoint, checkpoint.incremental);
+  }
+
+  // ============================================================================
+  // Private Methods
+  // ============================================================================
+
+  /**
+   * Run the scan pipeline, skipping the phases covered by a checkpoint.
+   * Incremental scans only process the changed files and merge the result
+   * into the base scan's graph.
+   */
+  private async runScan(
+    scan: ScanEntity,
+    basePath: string,
+    onProgress: ProgressCallback | undefined,
+    checkpoint: ScanCheckpoint | null,
+    incrementalInput: IncrementalScanInput | undefined
+  ): Promise<Result<ScanResult, ScanServiceError>> {
+    const scanId = scan.id;
+    const startTime = Date.now();
+    const abortController = new AbortController();
+
+    this.runningScans.set(scanId, abortController);
+
+    const scanConfig = scan.config;
+    const resumedFrom = checkpoint ? RESUME_PHASES[checkpoint.phase] : undefined;
+
     let currentProgress: ScanProgress = {
-      ...createEmptyScanProgress(),
+      ...scan.progress,
       phase: 'initializing',
+      ...(resumedFrom !== undefined && { resumedFrom }),
     };
 
-    const errors: ScanError[] = [];
-    const warnings: ScanWarning[] = [];
+    const errors: ScanError[] = [...(checkpoint?.errors ?? [])];
+    const warnings: ScanWarning[] = [...(checkpoint?.warnings ?? [])];
 
     // Helper to update progress
     const updateProgress = async (update: Partial<ScanProgress>): Promise<void> => {
@@ -334,6 +612,8 @@ export class ScanService implements IScanService {
       this.emitEvent({
         type: 'scan.progress',
         scanId,
+        tenantId: scan.tenantId,
+        repositoryId: scan.repositoryId,
         timestamp: new Date(),
         data: { progress: currentProgress },
       });
@@ -345,191 +625,279 @@ export class ScanService implements IScanService {
     };
 
     try {
-      logger.info({ scanId, repositoryId: input.repositoryId, ref: input.ref }, 'Starting scan');
-
-      // Create initial scan entity
-      const scan: ScanEntity = {
-        id: scanId,
-        tenantId: input.tenantId,
-        repositoryId: input.repositoryId,
-        initiatedBy: input.initiatedBy,
+      await this.persistence.saveScan({
+        ...scan,
         status: ScanStatus.RUNNING,
-        config: scanConfig,
-        ref: input.ref,
-        commitSha: input.commitSha,
         progress: currentProgress,
-        startedAt: new Date(),
-        createdAt: new Date(),
         updatedAt: new Date(),
-      };
-
-      await this.persistence.saveScan(scan);
+      });
 
       // Emit start event
       this.emitEvent({
         type: 'scan.started',
         scanId,
+        tenantId: scan.tenantId,
+        repositoryId: scan.repositoryId,
         timestamp: new Date(),
         data: {
-          repositoryId: input.repositoryId,
-          ref: input.ref,
+          repositoryId: scan.repositoryId,
+          ref: scan.ref,
+          ...(resumedFrom !== undefined && { resumedFrom }),
         },
       });
 
-      // ================================================================
-      // Phase 1: File Discovery
-      // ================================================================
-      await updateProgress({ phase: 'discovering', percentage: 5 });
+      // Load the base graph up front so a fresh scan can fall back to a full scan
+      let incremental = incrementalInput;
+      let baseGraph: ScanGraphSnapshot | null = null;
 
-      if (checkCancelled()) {
-        return this.handleCancellation(scanId, startTime, errors, warnings);
-      }
+      if (incremental) {
+        baseGraph = await this.persistence.getScanGraph(incremental.baseScanId);
 
-      logger.debug({ scanId }, 'Phase 1: File discovery');
+        if (!baseGraph) {
+          if (checkpoint) {
+            // Only the changed files were processed before the interruption
+            this.runningScans.delete(scanId);
+            return failure(new ScanServiceError(
+              'Base scan graph not found for incremental scan',
+              'BASE_SCAN_NOT_FOUND',
+              { baseScanId: incremental.baseScanId }
+            ));
+          }
 
-      const discoveredFiles = await this.fileDiscovery.discoverFiles(
-        input.basePath,
-        scanConfig
-      );
+          warnings.push({
+            code: 'INCREMENTAL_BASE_UNAVAILABLE',
+            message: `Base scan ${incremental.baseScanId} has no stored graph; running a full scan`,
+          });
+          incremental = undefined;
+        }
+      }
 
-      await updateProgress({
-        totalFiles: discoveredFiles.length,
-        percentage: 10,
-      });
+      let parsedFiles: ParsedFile[];
+      let totalFiles: number;
+
+      if (checkpoint) {
+        logger.info({ scanId, phase: checkpoint.phase, resumedFrom }, 'Resuming scan from checkpoint');
 
-      logger.info({ scanId, fileCount: discoveredFiles.length }, 'Files discovered');
+        parsedFiles = checkpoint.parsedFiles ?? [];
+        totalFiles = checkpoint.totalFiles;
 
-      if (discoveredFiles.length === 0) {
-        warnings.push({
-          code: 'NO_FILES_FOUND',
-          message: 'No IaC files found matching the configuration',
+        await updateProgress({
+          totalFiles,
+          filesProcessed: totalFiles,
+          percentage: 40,
         });
+      } else {
+        // ================================================================
+        // Phase 1: File Discovery
+        // ================================================================
+        await updateProgress({ phase: 'discovering', percentage: 5 });
+
+        if (checkCancelled()) {
+          return this.handleCancellation(scanId, startTime, errors, warnings);
+        }
 
-        return success(this.createEmptyResult(scanId, startTime, errors, warnings));
-      }
+        logger.debug({ scanId }, 'Phase 1: File discovery');
 
-      // ================================================================
-      // Phase 2: Parsing
-      // ================================================================
-      await updateProgress({ phase: 'parsing', percentage: 15 });
+        let discoveredFiles = await this.fileDiscovery.discoverFiles(
+          basePath,
+          scanConfig
+        );
 
-      if (checkCancelled()) {
-        return this.handleCancellation(scanId, startTime, errors, warnings);
-      }
+        if (incremental) {
+          const changed = new Set(incremental.changedFiles.map(normalizeRelativePath));
+          discoveredFiles = discoveredFiles.filter(
+            f => changed.has(normalizeRelativePath(f.relativePath))
+          );
+        }
 
-      logger.debug({ scanId }, 'Phase 2: Parsing files');
-
-      const parserInput: ParserOrchestratorInput = {
-        files: discoveredFiles.map(f => ({
-          path: f.path,
-          type: f.type,
-        })),
-        config: scanConfig,
-        onFileProcessed: async (processed, total) => {
-          await updateProgress({
-            filesProcessed: processed,
-            totalFiles: total,
-            percentage: 15 + Math.floor((processed / total) * 25),
-          });
-        },
-      };
+        await updateProgress({
+          totalFiles: discoveredFiles.length,
+          percentage: 10,
+        });
 
-      const parseResult = await this.parserOrchestrator.parseFiles(parserInput);
+        logger.info({ scanId, fileCount: discoveredFiles.length }, 'Files discovered');
 
-      if (!parseResult.success) {
-        for (const error of parseResult.errors) {
-          errors.push({
-            code: 'PARSE_ERROR',
-            message: error.message,
-            file: error.file,
-            recoverable: error.recoverable ?? true,
+        // An incremental scan with nothing to parse still applies removals
+        if (discoveredFiles.length === 0 && !incremental) {
+          warnings.push({
+            code: 'NO_FILES_FOUND',
+            message: 'No IaC files found matching the configuration',
           });
+
+          this.runningScans.delete(scanId);
+          return success(this.createEmptyResult(scanId, startTime, errors, warnings));
         }
 
-        if (!this.config.enablePartialResults || parseResult.results.length === 0) {
-          return failure(new ScanServiceError(
-            'Parsing failed',
-            'PARSING_FAILED',
-            { errors }
-          ));
+        // ================================================================
+        // Phase 2: Parsing
+        // ================================================================
+        await updateProgress({ phase: 'parsing', percentage: 15 });
+
+        if (checkCancelled()) {
+          return this.handleCancellation(scanId, startTime, errors, warnings);
         }
-      }
 
-      warnings.push(...(parseResult.warnings ?? []).map(w => ({
-        code: 'PARSE_WARNING',
-        message: w.message,
-        file: w.file,
-      })));
+        logger.debug({ scanId }, 'Phase 2: Parsing files');
+
+        const parserInput: ParserOrchestratorInput = {
+          files: discoveredFiles.map(f => ({
+            path: f.path,
+            type: f.type,
+          })),
+          config: scanConfig,
+          onFileProcessed: async (processed, total) => {
+            await updateProgress({
+              filesProcessed: processed,
+              totalFiles: total,
+              percentage: 15 + Math.floor((processed / total) * 25),
+            });
+          },
+        };
+
+        const parseResult = discoveredFiles.length > 0
+          ? await this.parserOrchestrator.parseFiles(parserInput)
+          : { success: true, results: [], errors: [], warnings: [] };
+
+        if (!parseResult.success) {
+          for (const error of parseResult.errors) {
+            errors.push({
+              code: 'PARSE_ERROR',
+              message: error.message,
+              file: error.file,
+              recoverable: error.recoverable ?? true,
+            });
+          }
+
+          if (!this.config.enablePartialResults || parseResult.results.length === 0) {
+            this.runningScans.delete(scanId);
+            return failure(new ScanServiceError(
+              'Parsing failed',
+              'PARSING_FAILED',
+              { errors }
+            ));
+          }
+        }
 
-      logger.info(
-        { scanId, parsedFiles: parseResult.results.length },
-        'Parsing completed'
-      );
+        warnings.push(...(parseResult.warnings ?? []).map(w => ({
+          code: 'PARSE_WARNING',
+          message: w.message,
+          file: w.file,
+        })));
 
-      // ================================================================
-      // Phase 3: Detection
-      // ================================================================
-      await updateProgress({ phase: 'detecting', percentage: 45 });
+        logger.info(
+          { scanId, parsedFiles: parseResult.results.length },
+          'Parsing completed'
+        );
 
-      if (checkCancelled()) {
-        return this.handleCancellation(scanId, startTime, errors, warnings);
+        parsedFiles = parseResult.results;
+        totalFiles = discoveredFiles.length;
+
+        await this.saveCheckpoint({
+          scanId,
+          phase: 'parsing',
+          basePath,
+          totalFiles,
+          parsedFiles,
+          ...(incremental && { incremental }),
+          errors,
+          warnings,
+        });
       }
 
-      logger.debug({ scanId }, 'Phase 3: Detection');
-
-      const detectionInput: DetectionOrchestratorInput = {
-        parsedFiles: parseResult.results,
-        basePath: input.basePath,
-        config: scanConfig,
-        onProgress: async (detected) => {
-          await updateProgress({
-            nodesDetected: detected.nodes,
-            edgesDetected: detected.edges,
-            percentage: 45 + Math.floor((detected.progress ?? 0) * 25),
-          });
-        },
-      };
+      let detection: CheckpointDetection;
 
-      const detectionResult = await this.detectionOrchestrator.detect(detectionInput);
+      if (checkpoint?.phase === 'detecting' && checkpoint.detection) {
+        detection = checkpoint.detection;
+      } else {
+        // ================================================================
+        // Phase 3: Detection
+        // ================================================================
+        await updateProgress({ phase: 'detecting', percentage: 45 });
 
-      if (!detectionResult.success) {
-        for (const error of detectionResult.errors) {
-          errors.push({
-            code: 'DETECTION_ERROR',
-            message: error.message,
-            file: error.file,
-            recoverable: error.recoverable ?? true,
-          });
+        if (checkCancelled()) {
+          return this.handleCancellation(scanId, startTime, errors, warnings);
         }
 
-        if (!this.config.enablePartialResults) {
-          return failure(new ScanServiceError(
-            'Detection failed',
-            'DETECTION_FAILED',
-            { errors }
-          ));
+        logger.debug({ scanId }, 'Phase 3: Detection');
+
+        const detectionInput: DetectionOrchestratorInput = {
+          parsedFiles,
+          basePath,
+          config: scanConfig,
+          onProgress: async (detected) => {
+            await updateProgress({
+              nodesDetected: detected.nodes,
+              edgesDetected: detected.edges,
+              percentage: 45 + Math.floor((detected.progress ?? 0) * 25),
+            });
+          },
+        };
+
+        const detectionResult = await this.detectionOrchestrator.detect(detectionInput);
+
+        if (!detectionResult.success) {
+          for (const error of detectionResult.errors) {
+            errors.push({
+              code: 'DETECTION_ERROR',
+              message: error.message,
+              file: error.file,
+              recoverable: error.recoverable ?? true,
+            });
+          }
+
+          if (!this.config.enablePartialResults) {
+            this.runningScans.delete(scanId);
+            return failure(new ScanServiceError(
+              'Detection failed',
+              'DETECTION_FAILED',
+              { errors }
+            ));
+          }
         }
-      }
 
-      warnings.push(...(detectionResult.warnings ?? []).map(w => ({
-        code: 'DETECTION_WARNING',
-        message: w.message,
-        file: w.file,
-      })));
-
-      logger.info(
-        {
+        warnings.push(...(detectionResult.warnings ?? []).map(w => ({
+          code: 'DETECTION_WARNING',
+          message: w.message,
+          file: w.file,
+        })));
+
+        logger.info(
+          {
+            scanId,
+            nodes: detectionResult.nodes.length,
+            edges: detectionResult.edges.length,
+          },
+          'Detection completed'
+        );
+
+        detection = {
+          nodes: detectionResult.nodes,
+          edges: detectionResult.edges,
+          evidence: detectionResult.evidence,
+        };
+
+        // Parsed files are not needed once detection output is saved
+        await this.saveCheckpoint({
           scanId,
-          nodes: detectionResult.nodes.length,
-          edges: detectionResult.edges.length,
-        },
-        'Detection completed'
-      );
+          phase: 'detecting',
+          basePath,
+          totalFiles,
+          detection,
+          ...(incremental && { incremental }),
+          errors,
+          warnings,
+        });
+      }
 
       // ================================================================
       // Phase 4: Scoring
       // ================================================================
-      await updateProgress({ phase: 'building_graph', percentage: 75 });
+      await updateProgress({
+        phase: 'building_graph',
+        percentage: 75,
+        nodesDetected: detection.nodes.length,
+        edgesDetected: detection.edges.length,
+      });
 
       if (checkCancelled()) {
         return this.handleCancellation(scanId, startTime, errors, warnings);
@@ -539,8 +907,8 @@ export class ScanService implements IScanService {
 
       // Score all edges based on evidence
       const scoredEdges = await this.scoringService.scoreEdges(
-        detectionResult.edges,
-        detectionResult.evidence
+        detection.edges,
+        detection.evidence
       );
 
       // Filter edges below confidence threshold
@@ -564,14 +932,36 @@ export class ScanService implements IScanService {
 
       logger.debug({ scanId }, 'Phase 5: Graph building');
 
+      let graphNodes = detection.nodes;
+      let graphEdges = filteredEdges;
+
+      if (incremental && baseGraph) {
+        ({ nodes: graphNodes, edges: graphEdges } = mergeIncrementalGraph(
+          baseGraph,
+          [...incremental.changedFiles, ...incremental.removedFiles],
+          detection.nodes,
+          filteredEdges
+        ));
+
+        logger.info(
+          {
+            scanId,
+            baseScanId: incremental.baseScanId,
+            baseNodes: baseGraph.nodes.length,
+            mergedNodes: graphNodes.length,
+          },
+          'Merged incremental results into base graph'
+        );
+      }
+
       const graph = await this.graphService.buildGraph({
-        nodes: detectionResult.nodes,
-        edges: filteredEdges,
+        nodes: graphNodes,
+        edges: graphEdges,
         metadata: {
           scanId,
-          repositoryId: input.repositoryId,
-          ref: input.ref,
-          commitSha: input.commitSha,
+          repositoryId: scan.repositoryId,
+          ref: scan.ref,
+          commitSha: scan.commitSha,
         },
       });
 
@@ -602,15 +992,22 @@ export class ScanService implements IScanService {
       // Calculate summary
       const summary = this.calculateSummary(
         graph,
-        discoveredFiles.length,
+        totalFiles,
         errors,
         warnings,
-        filteredEdges
+        graphEdges
       );
 
       // Persist results
       await this.persistence.saveResults(scanId, graph, summary);
 
+      // Results are stored, so the checkpoint is no longer needed
+      try {
+        await this.persistence.deleteCheckpoint(scanId);
+      } catch (err) {
+        logger.warn({ err, scanId }, 'Failed to delete scan checkpoint');
+      }
+
       // Update scan entity
       const completedScan: Partial<ScanEntity> = {
         status: ScanStatus.COMPLETED,
@@ -648,6 +1045,8 @@ export class ScanService implements IScanService {
       this.emitEvent({
         type: 'scan.completed',
         scanId,
+        tenantId: scan.tenantId,
+        repositoryId: scan.repositoryId,
         timestamp: new Date(),
         data: {
           summary,
@@ -682,6 +1081,8 @@ export class ScanService implements IScanService {
       this.emitEvent({
         type: 'scan.failed',
         scanId,
+        tenantId: scan.tenantId,
+        repositoryId: scan.repositoryId,
         timestamp: new Date(),
         data: {
           errors,
@@ -698,85 +1099,16 @@ export class ScanService implements IScanService {
   }
 
   /**
-   * Cancel a running scan
-   */
-  async cancelScan(scanId: ScanId): Promise<Result<void, ScanServiceError>> {
-    const controller = this.runningScans.get(scanId);
-
-    if (!controller) {
-      const scan = await this.persistence.getScan(scanId);
-      if (!scan) {
-        return failure(new ScanServiceError(
-          'Scan not found',
-          'SCAN_NOT_FOUND'
-        ));
-      }
-
-      if (scan.status !== ScanStatus.RUNNING) {
-        return failure(new ScanServiceError(
-          'Scan is not running',
-          'SCAN_NOT_FOUND'
-        ));
-      }
-    }
-
-    controller?.abort();
-
-    // Update scan status
-    const scan = await this.persistence.getScan(scanId);
-    if (scan) {
-      await this.persistence.saveScan({
-        ...scan,
-        status: ScanStatus.CANCELLED,
-        updatedAt: new Date(),
-      });
-    }
-
-    this.runningScans.delete(scanId);
-
-    // Emit cancel event
-    this.emitEvent({
-      type: 'scan.cancelled',
-      scanId,
-      timestamp: new Date(),
-      data: {},
-    });
-
-    logger.info({ scanId }, 'Scan cancelled');
-
-    return success(undefined);
-  }
-
-  /**
-   * Get scan status
+   * Persist a checkpoint; a failed write only costs the ability to resume
    */
-  async getScanStatus(scanId: ScanId): Promise<Result<ScanProgress, ScanServiceError>> {
-    const scan = await this.persistence.getScan(scanId);
-
-    if (!scan) {
-      return failure(new ScanServiceError(
-        'Scan not found',
-        'SCAN_NOT_FOUND'
-      ));
+  private async saveCheckpoint(checkpoint: ScanCheckpoint): Promise<void> {
+    try {
+      await this.persistence.saveCheckpoint(checkpoint);
+    } catch (err) {
+      logger.warn({ err, scanId: checkpoint.scanId, phase: checkpoint.phase }, 'Failed to save scan checkpoint');
     }
-
-    return success(scan.progress);
   }
 
-  /**
-   * Resume a paused scan (not implemented yet)
-   */
-  async resumeScan(_scanId: ScanId): Promise<Result<ScanResult, ScanServiceError>> {
-    return failure(new ScanServiceError(
-      'Resume not implemented',
-      'INTERNAL_ERROR'
-    ));
-  }
-
-  // ============================================================================
-  // Private Methods
-  // ============================================================================
-
   private handleCancellation(
     scanId: ScanId,
     startTime: number,
@@ -867,6 +1199,85 @@ export class ScanService implements IScanService {
   }
 }
 
+// ============================================================================
+// Incremental Merge Functions
+// ============================================================================
+
+/**
+ * Normalize a repository-relative path for comparison
+ */
+function normalizeRelativePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\.\//, '').replace(/^\/+/, '');
+}
+
+/**
+ * Check whether a node location refers to one of the given relative paths.
+ * Stored locations may be absolute paths from an earlier checkout.
+ */
+function isInFiles(file: string, relativePaths: ReadonlySet<string>): boolean {
+  const normalized = file.replace(/\\/g, '/');
+
+  if (relativePaths.has(normalizeRelativePath(normalized))) {
+    return true;
+  }
+
+  for (const relativePath of relativePaths) {
+    if (normalized.endsWith(`/${relativePath}`)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Merge incremental scan output into a base graph.
+ * Base nodes from touched files are replaced by the newly detected nodes.
+ * Base edges from nodes in touched files are replaced by the re-detected
+ * edges, since those files were re-parsed; other base edges survive while
+ * both of their endpoints do.
+ */
+export function mergeIncrementalGraph(
+  base: ScanGraphSnapshot,
+  touchedFiles: readonly string[],
+  nodes: NodeType[],
+  edges: GraphEdge[]
+): ScanGraphSnapshot {
+  const touched = new Set(touchedFiles.map(normalizeRelativePath));
+
+  const mergedNodes = new Map<string, NodeType>();
+  const reparsedSources = new Set<string>();
+  for (const node of base.nodes) {
+    if (isInFiles(node.location.file, touched)) {
+      reparsedSources.add(node.id);
+    } else {
+      mergedNodes.set(node.id, node);
+    }
+  }
+  for (const node of nodes) {
+    mergedNodes.set(node.id, node);
+  }
+
+  const mergedEdges = new Map<string, GraphEdge>();
+  for (const edge of base.edges) {
+    if (
+      !reparsedSources.has(edge.source) &&
+      mergedNodes.has(edge.source) &&
+      mergedNodes.has(edge.target)
+    ) {
+      mergedEdges.set(edge.id, edge);
+    }
+  }
+  for (const edge of edges) {
+    mergedEdges.set(edge.id, edge);
+  }
+
+  return {
+    nodes: Array.from(mergedNodes.values()),
+    edges: Array.from(mergedEdges.values()),
+  };
+}
+
 // ============================================================================
 // Factory Function
 // ============================================================================
@@ -0,0 +1,176 @@
+/**
+ * In-memory webhook subscription repository for tests
+ * @module services/webhooks/__tests__/utils/mock-webhook-repository
+ */
+
+import { randomUUID } from 'crypto';
+import { vi } from 'vitest';
+import type { TenantId } from '../../../../types/entities.js';
+import type {
+  IWebhookSubscriptionRepository,
+  IWebhookDeliveryQueue,
+  WebhookSubscriptionEntity,
+  WebhookDeliveryEntity,
+} from '../../interfaces.js';
+
+/**
+ * In-memory repository mirroring the database constraints the services rely on
+ */
+export class MockWebhookRepository implements IWebhookSubscriptionRepository {
+  readonly subscriptions = new Map<string, WebhookSubscriptionEntity>();
+  readonly deliveries = new Map<string, WebhookDeliveryEntity>();
+
+  createSubscription = vi.fn<IWebhookSubscriptionRepository['createSubscription']>(async (tenantId, userId, input) => {
+    const now = new Date();
+    const subscription: WebhookSubscriptionEntity = {
+      id: randomUUID(),
+      tenantId,
+      name: input.name,
+      url: input.url,
+      secret: input.secret,
+      eventTypes: input.eventTypes,
+      rollupIds: input.rollupIds ?? [],
+      repositoryIds: input.repositoryIds ?? [],
+      isActive: input.isActive ?? true,
+      createdBy: userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.subscriptions.set(subscription.id, subscription);
+    return subscription;
+  });
+
+  findSubscriptionById = vi.fn<IWebhookSubscriptionRepository['findSubscriptionById']>(async (tenantId, id) => {
+    const subscription = this.subscriptions.get(id);
+    return subscription?.tenantId === tenantId ? subscription : null;
+  });
+
+  listSubscriptions = vi.fn<IWebhookSubscriptionRepository['listSubscriptions']>(async (tenantId) =>
+    Array.from(this.subscriptions.values()).filter((s) => s.tenantId === tenantId)
+  );
+
+  findActiveSubscriptions = vi.fn<IWebhookSubscriptionRepository['findActiveSubscriptions']>(async (tenantId, eventType) =>
+    Array.from(this.subscriptions.values()).filter(
+      (s) => s.tenantId === tenantId && s.isActive && s.eventTypes.includes(eventType)
+    )
+  );
+
+  updateSubscription = vi.fn<IWebhookSubscriptionRepository['updateSubscription']>(async (tenantId, id, input) => {
+    const subscription = await this.findSubscriptionById(tenantId, id);
+    if (!subscription) {
+      return null;
+    }
+    const updated = { ...subscription, ...input, updatedAt: new Date() } as WebhookSubscriptionEntity;
+    this.subscriptions.set(id, updated);
+    return updated;
+  });
+
+  deleteSubscription = vi.fn<IWebhookSubscriptionRepository['deleteSubscription']>(async (tenantId, id) => {
+    if (!(await this.findSubscriptionById(tenantId, id))) {
+      return false;
+    }
+    this.subscriptions.delete(id);
+    for (const [deliveryId, delivery] of this.deliveries) {
+      if (delivery.subscriptionId === id) {
+        this.deliveries.delete(deliveryId);
+      }
+    }
+    return true;
+  });
+
+  createDelivery = vi.fn<IWebhookSubscriptionRepository['createDelivery']>(async (input) => {
+    const duplicate = input.redeliveryOf === undefined && Array.from(this.deliveries.values()).some(
+      (d) => d.subscriptionId === input.subscriptionId && d.eventId === input.eventId && d.redeliveryOf === undefined
+    );
+    if (duplicate) {
+      return null;
+    }
+    const now = new Date();
+    const delivery: WebhookDeliveryEntity = {
+      id: randomUUID(),
+      tenantId: input.tenantId,
+      subscriptionId: input.subscriptionId,
+      eventId: input.eventId,
+      eventType: input.eventType,
+      payload: input.payload,
+      status: 'pending',
+      attemptCount: 0,
+      ...(input.redeliveryOf !== undefined && { redeliveryOf: input.redeliveryOf }),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.deliveries.set(delivery.id, delivery);
+    return delivery;
+  });
+
+  findDeliveryById = vi.fn<IWebhookSubscriptionRepository['findDeliveryById']>(async (tenantId, id) => {
+    const delivery = this.deliveries.get(id);
+    return delivery?.tenantId === tenantId ? delivery : null;
+  });
+
+  listDeliveries = vi.fn<IWebhookSubscriptionRepository['listDeliveries']>(
+    async (tenantId, subscriptionId, filter = {}, pagination = { page: 1, pageSize: 20 }) => {
+      const matching = Array.from(this.deliveries.values()).filter(
+        (d) => d.tenantId === tenantId && d.subscriptionId === subscriptionId &&
+          (!filter.status || d.status === filter.status)
+      );
+      const start = (pagination.page - 1) * pagination.pageSize;
+      return {
+        data: matching.slice(start, start + pagination.pageSize),
+        total: matching.length,
+        page: pagination.page,
+        pageSize: pagination.pageSize,
+        totalPages: Math.ceil(matching.length / pagination.pageSize),
+      };
+    }
+  );
+
+  recordDeliveryAttempt = vi.fn<IWebhookSubscriptionRepository['recordDeliveryAttempt']>(async (tenantId, id, attempt) => {
+    const delivery = await this.findDeliveryById(tenantId, id);
+    if (!delivery) {
+      return null;
+    }
+    const now = new Date();
+    const {
+      responseStatus: _status, responseBody: _body, errorMessage: _error, nextAttemptAt: _next, ...rest
+    } = delivery;
+    const updated: WebhookDeliveryEntity = {
+      ...rest,
+      ...attempt,
+      attemptCount: delivery.attemptCount + 1,
+      lastAttemptAt: now,
+      ...(attempt.status === 'succeeded' && { deliveredAt: now }),
+      updatedAt: now,
+    };
+    this.deliveries.set(id, updated);
+    return updated;
+  });
+}
+
+/**
+ * Seed an active subscription
+ */
+export async function seedSubscription(
+  repository: MockWebhookRepository,
+  tenantId: TenantId,
+  overrides: Partial<Omit<WebhookSubscriptionEntity, 'id' | 'tenantId'>> = {}
+): Promise<WebhookSubscriptionEntity> {
+  const subscription = await repository.createSubscription(tenantId, 'user-1', {
+    name: 'chat-ops',
+    url: 'https://hooks.example.com/iac',
+    eventTypes: ['rollup.execution.completed', 'scan.completed'],
+    secret: 'whsec_test_secret_value',
+  });
+  const seeded = { ...subscription, ...overrides };
+  repository.subscriptions.set(seeded.id, seeded);
+  return seeded;
+}
+
+/**
+ * Delivery queue recording added jobs
+ */
+export function createMockDeliveryQueue() {
+  return {
+    add: vi.fn<IWebhookDeliveryQueue['add']>(async () => ({})),
+  };
+}
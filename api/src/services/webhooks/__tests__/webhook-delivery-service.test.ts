@@ -0,0 +1,187 @@
+/**
+ * Webhook Delivery Service Unit Tests
+ * @module services/webhooks/__tests__/webhook-delivery-service.test
+ *
+ * Tests for signed delivery attempts, retry decisions and the delivery log.
+ */
+
+import { randomUUID } from 'crypto';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WebhookDeliveryService, type WebhookFetch } from '../webhook-delivery-service.js';
+import type { WebhookHostResolver } from '../webhook-url-guard.js';
+import { WEBHOOK_HEADERS, verifyWebhookSignature } from '../webhook-signature.js';
+import type { WebhookDeliveryEntity, WebhookSubscriptionEntity } from '../interfaces.js';
+import { MockWebhookRepository, seedSubscription } from './utils/mock-webhook-repository.js';
+import { getWebhookRetryDelay } from '../../../queues/webhook-jobs.js';
+import { createTenantId } from '../../../types/entities.js';
+
+describe('WebhookDeliveryService', () => {
+  let repository: MockWebhookRepository;
+  let fetchFn: ReturnType<typeof vi.fn<WebhookFetch>>;
+  let resolveHost: ReturnType<typeof vi.fn<WebhookHostResolver>>;
+  let service: WebhookDeliveryService;
+  let subscription: WebhookSubscriptionEntity;
+  let delivery: WebhookDeliveryEntity;
+
+  const tenantId = createTenantId(randomUUID());
+  const firstAttempt = { attempt: 1, maxAttempts: 3 };
+
+  beforeEach(async () => {
+    repository = new MockWebhookRepository();
+    fetchFn = vi.fn<WebhookFetch>(async () => new Response('ok', { status: 200 }));
+    resolveHost = vi.fn<WebhookHostResolver>(async () => ['203.0.113.10']);
+    service = new WebhookDeliveryService(repository, fetchFn, {}, resolveHost);
+
+    subscription = await seedSubscription(repository, tenantId);
+    delivery = (await repository.createDelivery({
+      tenantId,
+      subscriptionId: subscription.id,
+      eventId: randomUUID(),
+      eventType: 'scan.completed',
+      payload: {
+        eventId: randomUUID(),
+        eventType: 'scan.completed',
+        tenantId,
+        timestamp: '2026-10-18T08:00:00.000Z',
+        version: '1.0',
+        data: { scanId: 'scan_1' },
+      },
+    }))!;
+  });
+
+  it('should post a signed payload and record the successful attempt', async () => {
+    const outcome = await service.deliver(tenantId, delivery.id, firstAttempt);
+
+    expect(outcome.status).toBe('succeeded');
+    const [url, init] = fetchFn.mock.calls[0]!;
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe(subscription.url);
+    expect(init.body).toBe(JSON.stringify(delivery.payload));
+    expect(headers[WEBHOOK_HEADERS.EVENT]).toBe('scan.completed');
+    expect(headers[WEBHOOK_HEADERS.DELIVERY]).toBe(delivery.id);
+    expect(verifyWebhookSignature(
+      subscription.secret,
+      Number(headers[WEBHOOK_HEADERS.TIMESTAMP]),
+      init.body as string,
+      headers[WEBHOOK_HEADERS.SIGNATURE]!
+    )).toBe(true);
+
+    const logged = repository.deliveries.get(delivery.id)!;
+    expect(logged).toMatchObject({ status: 'succeeded', attemptCount: 1, responseStatus: 200, responseBody: 'ok' });
+    expect(logged.deliveredAt).toBeInstanceOf(Date);
+  });
+
+  it('should schedule a retry for server errors until attempts are exhausted', async () => {
+    fetchFn.mockResolvedValue(new Response('unavailable', { status: 503 }));
+
+    const retry = await service.deliver(tenantId, delivery.id, { attempt: 2, maxAttempts: 3 });
+    expect(retry.status).toBe('retry');
+    const pending = repository.deliveries.get(delivery.id)!;
+    expect(pending.status).toBe('pending');
+    expect(pending.errorMessage).toBe('Endpoint responded with HTTP 503');
+    expect(pending.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(Date.now() + getWebhookRetryDelay(2) - 1000);
+
+    fetchFn.mockResolvedValue(new Response('unavailable', { status: 503 }));
+    const failed = await service.deliver(tenantId, delivery.id, { attempt: 3, maxAttempts: 3 });
+    expect(failed.status).toBe('failed');
+    expect(repository.deliveries.get(delivery.id)).toMatchObject({ status: 'failed', attemptCount: 2 });
+    expect(repository.deliveries.get(delivery.id)!.nextAttemptAt).toBeUndefined();
+  });
+
+  it('should retry network errors and fail client errors immediately', async () => {
+    fetchFn.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND hooks.example.com'));
+    await expect(service.deliver(tenantId, delivery.id, firstAttempt)).resolves.toMatchObject({
+      status: 'retry',
+      error: 'getaddrinfo ENOTFOUND hooks.example.com',
+    });
+
+    fetchFn.mockResolvedValueOnce(new Response('gone', { status: 410 }));
+    await expect(service.deliver(tenantId, delivery.id, { attempt: 2, maxAttempts: 3 })).resolves.toMatchObject({
+      status: 'failed',
+    });
+    expect(repository.deliveries.get(delivery.id)).toMatchObject({ responseStatus: 410, responseBody: 'gone' });
+  });
+
+  it('should fail deliveries to hosts that now resolve to internal addresses without sending them', async () => {
+    resolveHost.mockResolvedValueOnce(['169.254.169.254']);
+
+    const outcome = await service.deliver(tenantId, delivery.id, firstAttempt);
+
+    expect(outcome.status).toBe('failed');
+    expect(outcome.error).toMatch(/must not resolve to a loopback, private, link-local or metadata address/);
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should not connect to an internal address the host resolves to after the URL check', async () => {
+    const requests: string[] = [];
+    const server = createServer((req, res) => {
+      requests.push(req.url ?? '');
+      res.end('ok');
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      // Public for the URL check, loopback for the connection
+      resolveHost.mockResolvedValueOnce(['203.0.113.10']).mockResolvedValue(['127.0.0.1']);
+      repository.subscriptions.set(subscription.id, { ...subscription, url: `http://hooks.example.com:${port}/iac` });
+      service = new WebhookDeliveryService(repository, globalThis.fetch, {}, resolveHost);
+
+      const outcome = await service.deliver(tenantId, delivery.id, firstAttempt);
+
+      expect(outcome.status).toBe('failed');
+      expect(outcome.status !== 'skipped' && outcome.error).toMatch(/must not resolve to a loopback/);
+      expect(resolveHost).toHaveBeenCalledTimes(2);
+      expect(requests).toEqual([]);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('should retry deliveries whose host cannot be resolved', async () => {
+    resolveHost.mockRejectedValueOnce(new Error('getaddrinfo EAI_AGAIN hooks.example.com'));
+
+    await expect(service.deliver(tenantId, delivery.id, firstAttempt)).resolves.toMatchObject({ status: 'retry' });
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should stop reading response bodies at the logged length', async () => {
+    const chunk = new TextEncoder().encode('x'.repeat(256));
+    const cancel = vi.fn();
+    let pulls = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulls++;
+        controller.enqueue(chunk);
+      },
+      cancel,
+    });
+    fetchFn.mockResolvedValueOnce(new Response(endless, { status: 200 }));
+    service = new WebhookDeliveryService(repository, fetchFn, { maxResponseBodyLength: 1024 }, resolveHost);
+
+    await service.deliver(tenantId, delivery.id, firstAttempt);
+
+    expect(repository.deliveries.get(delivery.id)!.responseBody).toBe('x'.repeat(1024));
+    expect(cancel).toHaveBeenCalled();
+    expect(pulls).toBeLessThan(10);
+  });
+
+  it('should fail deliveries of disabled subscriptions without sending them', async () => {
+    repository.subscriptions.set(subscription.id, { ...subscription, isActive: false });
+
+    const outcome = await service.deliver(tenantId, delivery.id, firstAttempt);
+
+    expect(outcome).toMatchObject({ status: 'failed', error: 'Subscription is disabled' });
+    expect(fetchFn).not.toHaveBeenCalled();
+  });
+
+  it('should skip deliveries that were already delivered or removed', async () => {
+    await service.deliver(tenantId, delivery.id, firstAttempt);
+
+    await expect(service.deliver(tenantId, delivery.id, firstAttempt)).resolves.toEqual({ status: 'skipped' });
+    await expect(service.deliver(tenantId, randomUUID(), firstAttempt)).resolves.toEqual({ status: 'skipped' });
+    expect(fetchFn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * Webhook Dispatcher Unit Tests
+ * @module services/webhooks/__tests__/webhook-dispatcher.test
+ *
+ * Tests for matching events against subscriptions and routing rollup and scan events.
+ */
+
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  WebhookDispatcher,
+  WebhookRollupEventEmitter,
+  WebhookScanEventEmitter,
+} from '../webhook-dispatcher.js';
+import type { WebhookEvent } from '../interfaces.js';
+import { MockWebhookRepository, seedSubscription, createMockDeliveryQueue } from './utils/mock-webhook-repository.js';
+import { createInMemoryEventEmitter } from '../../rollup/rollup-event-emitter.js';
+import { createTenantId, type ScanId, type RepositoryId } from '../../../types/entities.js';
+import { WEBHOOK_DELIVERY_JOB_OPTIONS } from '../../../queues/webhook-jobs.js';
+
+describe('WebhookDispatcher', () => {
+  let repository: MockWebhookRepository;
+  let queue: ReturnType<typeof createMockDeliveryQueue>;
+  let dispatcher: WebhookDispatcher;
+
+  const tenantId = createTenantId(randomUUID());
+
+  beforeEach(() => {
+    repository = new MockWebhookRepository();
+    queue = createMockDeliveryQueue();
+    dispatcher = new WebhookDispatcher(repository, queue);
+  });
+
+  function createEvent(overrides: Partial<WebhookEvent> = {}): WebhookEvent {
+    return {
+      eventId: randomUUID(),
+      type: 'rollup.execution.completed',
+      tenantId,
+      timestamp: new Date('2026-10-18T08:00:00Z'),
+      rollupId: 'rollup_1',
+      data: { rollupId: 'rollup_1', executionId: 'exec_1' },
+      ...overrides,
+    };
+  }
+
+  it('should record and queue a delivery for each matching subscription', async () => {
+    const all = await seedSubscription(repository, tenantId);
+    const scoped = await seedSubscription(repository, tenantId, { rollupIds: ['rollup_1'] });
+    await seedSubscription(repository, tenantId, { rollupIds: ['rollup_2'] });
+    await seedSubscription(repository, tenantId, { eventTypes: ['scan.completed'] });
+    await seedSubscription(repository, createTenantId(randomUUID()));
+
+    const event = createEvent();
+    const queued = await dispatcher.dispatch(event);
+
+    expect(queued).toBe(2);
+    const deliveries = Array.from(repository.deliveries.values());
+    expect(deliveries.map((d) => d.subscriptionId).sort()).toEqual([all.id, scoped.id].sort());
+    expect(deliveries[0]!.payload).toEqual({
+      eventId: event.eventId,
+      eventType: 'rollup.execution.completed',
+      tenantId,
+      timestamp: '2026-10-18T08:00:00.000Z',
+      version: '1.0',
+      data: { rollupId: 'rollup_1', executionId: 'exec_1' },
+    });
+    expect(queue.add).toHaveBeenCalledWith(
+      'deliver-webhook',
+      { type: 'deliver-webhook', tenantId, deliveryId: deliveries[0]!.id },
+      expect.objectContaining({ jobId: deliveries[0]!.id, attempts: WEBHOOK_DELIVERY_JOB_OPTIONS.attempts })
+    );
+  });
+
+  it('should filter scan events by repository and ignore rollup filters', async () => {
+    const repositoryId = randomUUID();
+    const matching = await seedSubscription(repository, tenantId, { repositoryIds: [repositoryId], rollupIds: ['rollup_1'] });
+    await seedSubscription(repository, tenantId, { repositoryIds: [randomUUID()] });
+
+    const { rollupId: _rollupId, ...scanEvent } = createEvent({ type: 'scan.completed', repositoryId });
+    await dispatcher.dispatch(scanEvent);
+
+    expect(Array.from(repository.deliveries.values()).map((d) => d.subscriptionId)).toEqual([matching.id]);
+  });
+
+  it('should not queue an event twice for the same subscription', async () => {
+    await seedSubscription(repository, tenantId);
+    const event = createEvent();
+
+    await dispatcher.dispatch(event);
+    await expect(dispatcher.dispatch(event)).resolves.toBe(0);
+
+    expect(repository.deliveries.size).toBe(1);
+    expect(queue.add).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep dispatching when one subscription fails', async () => {
+    await seedSubscription(repository, tenantId);
+    await seedSubscription(repository, tenantId);
+    queue.add.mockRejectedValueOnce(new Error('Redis unavailable'));
+
+    await expect(dispatcher.dispatch(createEvent())).resolves.toBe(1);
+  });
+
+  describe('WebhookRollupEventEmitter', () => {
+    it('should emit through the wrapped emitter and dispatch subscribable events', async () => {
+      const inner = createInMemoryEventEmitter();
+      const dispatch = vi.spyOn(dispatcher, 'dispatch');
+      const emitter = new WebhookRollupEventEmitter(inner, dispatcher);
+
+      await emitter.emit({
+        type: 'rollup.execution.completed',
+        rollupId: 'rollup_1',
+        tenantId,
+        timestamp: new Date(),
+        data: { executionId: 'exec_1' },
+      });
+      await emitter.emit({
+        type: 'rollup.execution.progress',
+        rollupId: 'rollup_1',
+        tenantId,
+        timestamp: new Date(),
+        data: { progress: 50 },
+      });
+
+      expect(inner.getEvents()).toHaveLength(2);
+      expect(dispatch).toHaveBeenCalledTimes(1);
+      expect(dispatch).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'rollup.execution.completed',
+        rollupId: 'rollup_1',
+        data: { rollupId: 'rollup_1', executionId: 'exec_1' },
+      }));
+    });
+
+    it('should not fail the emitting operation when dispatching fails', async () => {
+      vi.spyOn(dispatcher, 'dispatch').mockRejectedValue(new Error('connection refused'));
+      const emitter = new WebhookRollupEventEmitter(createInMemoryEventEmitter(), dispatcher);
+
+      await expect(emitter.emit({
+        type: 'rollup.execution.failed',
+        rollupId: 'rollup_1',
+        tenantId,
+        timestamp: new Date(),
+        data: {},
+      })).resolves.toBeUndefined();
+    });
+  });
+
+  describe('WebhookScanEventEmitter', () => {
+    it('should dispatch scan completion events with scan and repository IDs', async () => {
+      const repositoryId = randomUUID() as RepositoryId;
+      const scanId = randomUUID() as ScanId;
+      const inner = { emit: vi.fn() };
+      const dispatch = vi.spyOn(dispatcher, 'dispatch');
+      const emitter = new WebhookScanEventEmitter(dispatcher, inner);
+
+      await emitter.emit({
+        type: 'scan.completed',
+        scanId,
+        tenantId,
+        repositoryId,
+        timestamp: new Date(),
+        data: { durationMs: 1200 },
+      });
+      await emitter.emit({ type: 'scan.progress', scanId, tenantId, timestamp: new Date(), data: {} });
+      await emitter.emit({ type: 'scan.completed', scanId, timestamp: new Date(), data: {} });
+
+      expect(inner.emit).toHaveBeenCalledTimes(3);
+      expect(dispatch).toHaveBeenCalledTimes(1);
+      expect(dispatch).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'scan.completed',
+        tenantId,
+        repositoryId,
+        data: { scanId, repositoryId, durationMs: 1200 },
+      }));
+    });
+  });
+});
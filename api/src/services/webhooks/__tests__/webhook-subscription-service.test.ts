@@ -0,0 +1,184 @@
+/**
+ * Webhook Subscription Service Unit Tests
+ * @module services/webhooks/__tests__/webhook-subscription-service.test
+ *
+ * Tests for subscription management, the delivery log and manual redelivery.
+ */
+
+import { randomUUID } from 'crypto';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { WebhookSubscriptionService } from '../webhook-subscription-service.js';
+import type { WebhookHostResolver } from '../webhook-url-guard.js';
+import { MockWebhookRepository, seedSubscription, createMockDeliveryQueue } from './utils/mock-webhook-repository.js';
+import { NotFoundError, ValidationError } from '../../../middleware/error-handler.js';
+import { createTenantId } from '../../../types/entities.js';
+
+describe('WebhookSubscriptionService', () => {
+  let repository: MockWebhookRepository;
+  let queue: ReturnType<typeof createMockDeliveryQueue>;
+  let resolveHost: ReturnType<typeof vi.fn<WebhookHostResolver>>;
+  let service: WebhookSubscriptionService;
+
+  const tenantId = createTenantId(randomUUID());
+
+  beforeEach(() => {
+    repository = new MockWebhookRepository();
+    queue = createMockDeliveryQueue();
+    resolveHost = vi.fn<WebhookHostResolver>(async () => ['203.0.113.10']);
+    service = new WebhookSubscriptionService(repository, queue, resolveHost);
+  });
+
+  describe('createSubscription', () => {
+    it('should generate a signing secret unless one is given', async () => {
+      const generated = await service.createSubscription(tenantId, 'user-1', {
+        name: 'ticketing',
+        url: 'https://tickets.example.com/hooks',
+        eventTypes: ['rollup.execution.failed'],
+      });
+      const provided = await service.createSubscription(tenantId, 'user-1', {
+        name: 'chat-ops',
+        url: 'https://chat.example.com/hooks',
+        eventTypes: ['scan.completed'],
+        secret: 'a-shared-secret-of-the-bot',
+      });
+
+      expect(generated.secret).toMatch(/^whsec_[0-9a-f]{64}$/);
+      expect(provided.secret).toBe('a-shared-secret-of-the-bot');
+    });
+
+    it('should reject URLs that are not http or https', async () => {
+      await expect(service.createSubscription(tenantId, 'user-1', {
+        name: 'local',
+        url: 'file:///etc/passwd',
+        eventTypes: ['scan.completed'],
+      })).rejects.toThrow(ValidationError);
+    });
+
+    it.each([
+      'http://127.0.0.1:8080/hooks',
+      'http://169.254.169.254/latest/meta-data/',
+      'http://10.0.0.12/hooks',
+      'http://[::1]/hooks',
+      'http://[::ffff:192.168.1.1]/hooks',
+      'http://[::127.0.0.1]/hooks',
+      'http://[2002:a9fe:a9fe::]/hooks',
+    ])('should reject the internal address %s', async (url) => {
+      await expect(service.createSubscription(tenantId, 'user-1', {
+        name: 'internal',
+        url,
+        eventTypes: ['scan.completed'],
+      })).rejects.toThrow(ValidationError);
+      expect(resolveHost).not.toHaveBeenCalled();
+    });
+
+    it('should reject hosts resolving to a private or metadata address', async () => {
+      resolveHost.mockResolvedValueOnce(['203.0.113.10', '192.168.0.5']);
+      await expect(service.createSubscription(tenantId, 'user-1', {
+        name: 'rebound',
+        url: 'https://tickets.example.com/hooks',
+        eventTypes: ['scan.completed'],
+      })).rejects.toThrow(/must not resolve to a loopback, private, link-local or metadata address/);
+
+      resolveHost.mockResolvedValueOnce(['169.254.169.254']);
+      await expect(service.createSubscription(tenantId, 'user-1', {
+        name: 'metadata',
+        url: 'http://metadata.example.com/',
+        eventTypes: ['scan.completed'],
+      })).rejects.toThrow(ValidationError);
+
+      expect(resolveHost).toHaveBeenCalledWith('tickets.example.com');
+      expect(repository.subscriptions.size).toBe(0);
+    });
+
+    it('should reject hosts that cannot be resolved', async () => {
+      resolveHost.mockRejectedValueOnce(new Error('getaddrinfo ENOTFOUND missing.example.com'));
+
+      await expect(service.createSubscription(tenantId, 'user-1', {
+        name: 'missing',
+        url: 'https://missing.example.com/hooks',
+        eventTypes: ['scan.completed'],
+      })).rejects.toThrow(ValidationError);
+    });
+  });
+
+  it('should check changed URLs of updated subscriptions', async () => {
+    const subscription = await seedSubscription(repository, tenantId);
+    resolveHost.mockResolvedValueOnce(['172.20.0.3']);
+
+    await expect(service.updateSubscription(tenantId, subscription.id, {
+      url: 'https://internal.example.com/hooks',
+    })).rejects.toThrow(ValidationError);
+    expect(repository.subscriptions.get(subscription.id)!.url).toBe(subscription.url);
+  });
+
+  it('should not expose subscriptions of other tenants', async () => {
+    const subscription = await seedSubscription(repository, tenantId);
+    const otherTenant = createTenantId(randomUUID());
+
+    await expect(service.getSubscription(otherTenant, subscription.id)).rejects.toThrow(NotFoundError);
+    await expect(service.deleteSubscription(otherTenant, subscription.id)).rejects.toThrow(NotFoundError);
+    await expect(service.listDeliveries(otherTenant, subscription.id)).rejects.toThrow(NotFoundError);
+  });
+
+  describe('redeliver', () => {
+    it('should log and queue a new delivery of the original payload', async () => {
+      const subscription = await seedSubscription(repository, tenantId);
+      const original = (await repository.createDelivery({
+        tenantId,
+        subscriptionId: subscription.id,
+        eventId: randomUUID(),
+        eventType: 'rollup.execution.completed',
+        payload: {
+          eventId: randomUUID(),
+          eventType: 'rollup.execution.completed',
+          tenantId,
+          timestamp: '2026-10-18T08:00:00.000Z',
+          version: '1.0',
+          data: { rollupId: 'rollup_1' },
+        },
+      }))!;
+      await repository.recordDeliveryAttempt(tenantId, original.id, { status: 'failed', durationMs: 10 });
+
+      const redelivery = await service.redeliver(tenantId, subscription.id, original.id);
+
+      expect(redelivery).toMatchObject({
+        status: 'pending',
+        attemptCount: 0,
+        eventId: original.eventId,
+        payload: original.payload,
+        redeliveryOf: original.id,
+      });
+      expect(repository.deliveries.get(original.id)!.status).toBe('failed');
+      expect(queue.add).toHaveBeenCalledWith(
+        'deliver-webhook',
+        { type: 'deliver-webhook', tenantId, deliveryId: redelivery.id },
+        expect.objectContaining({ jobId: redelivery.id })
+      );
+
+      const log = await service.listDeliveries(tenantId, subscription.id);
+      expect(log.total).toBe(2);
+    });
+
+    it('should reject deliveries of another subscription', async () => {
+      const subscription = await seedSubscription(repository, tenantId);
+      const other = await seedSubscription(repository, tenantId);
+      const delivery = (await repository.createDelivery({
+        tenantId,
+        subscriptionId: other.id,
+        eventId: randomUUID(),
+        eventType: 'scan.completed',
+        payload: {
+          eventId: randomUUID(),
+          eventType: 'scan.completed',
+          tenantId,
+          timestamp: '2026-10-18T08:00:00.000Z',
+          version: '1.0',
+          data: {},
+        },
+      }))!;
+
+      await expect(service.redeliver(tenantId, subscription.id, delivery.id)).rejects.toThrow(NotFoundError);
+      expect(queue.add).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Webhook URL Guard Unit Tests
+ * @module services/webhooks/__tests__/webhook-url-guard.test
+ *
+ * Tests for blocked address ranges and the connection lookup of deliveries.
+ */
+
+import type { LookupOptions } from 'dns';
+import { describe, it, expect, vi } from 'vitest';
+import {
+  WebhookUrlError,
+  createPublicWebhookLookup,
+  isBlockedWebhookAddress,
+  type WebhookHostResolver,
+} from '../webhook-url-guard.js';
+
+/**
+ * Run a connection lookup and collect its callback arguments
+ */
+function runLookup(
+  resolveHost: WebhookHostResolver,
+  options: LookupOptions
+): Promise<{ error: Error | null; address: unknown; family: number | undefined }> {
+  const lookup = createPublicWebhookLookup(resolveHost);
+  return new Promise((resolve) => {
+    lookup('hooks.example.com', options, (error, address, family) => resolve({ error, address, family }));
+  });
+}
+
+describe('isBlockedWebhookAddress', () => {
+  it.each([
+    '127.0.0.1',
+    '10.1.2.3',
+    '169.254.169.254',
+    '::1',
+    '::',
+    '::ffff:192.168.1.1',
+    '::127.0.0.1',
+    '::a9fe:a9fe',
+    '64:ff9b::a9fe:a9fe',
+    '2002:7f00:1::',
+    '2002:a9fe:a9fe::1',
+    'fd00:ec2::254',
+    'fe80::1',
+    'not-an-address',
+  ])('should block %s', (address) => {
+    expect(isBlockedWebhookAddress(address)).toBe(true);
+  });
+
+  it.each([
+    '203.0.113.10',
+    '8.8.8.8',
+    '::ffff:8.8.8.8',
+    '2606:4700:4700::1111',
+  ])('should allow %s', (address) => {
+    expect(isBlockedWebhookAddress(address)).toBe(false);
+  });
+});
+
+describe('createPublicWebhookLookup', () => {
+  it('should return every public address for connections asking for all of them', async () => {
+    const resolveHost = vi.fn<WebhookHostResolver>(async () => ['203.0.113.10', '2606:4700:4700::1111']);
+
+    const result = await runLookup(resolveHost, { all: true });
+
+    expect(resolveHost).toHaveBeenCalledWith('hooks.example.com');
+    expect(result.error).toBeNull();
+    expect(result.address).toEqual([
+      { address: '203.0.113.10', family: 4 },
+      { address: '2606:4700:4700::1111', family: 6 },
+    ]);
+  });
+
+  it('should return the first address of the requested family', async () => {
+    const resolveHost = vi.fn<WebhookHostResolver>(async () => ['203.0.113.10', '2606:4700:4700::1111']);
+
+    await expect(runLookup(resolveHost, { family: 6 })).resolves.toEqual({
+      error: null,
+      address: '2606:4700:4700::1111',
+      family: 6,
+    });
+  });
+
+  it('should fail connections to hosts resolving to any blocked address', async () => {
+    const resolveHost = vi.fn<WebhookHostResolver>(async () => ['203.0.113.10', '::127.0.0.1']);
+
+    const { error } = await runLookup(resolveHost, { all: true });
+
+    expect(error).toBeInstanceOf(WebhookUrlError);
+    expect(error).toMatchObject({ retryable: false });
+  });
+
+  it('should fail retryably when the host cannot be resolved', async () => {
+    const unresolved = await runLookup(vi.fn<WebhookHostResolver>(async () => []), {});
+    const failed = await runLookup(
+      vi.fn<WebhookHostResolver>(async () => {
+        throw new Error('getaddrinfo EAI_AGAIN hooks.example.com');
+      }),
+      {}
+    );
+
+    expect(unresolved.error).toMatchObject({ retryable: true });
+    expect(failed.error?.message).toBe('getaddrinfo EAI_AGAIN hooks.example.com');
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Outbound Webhooks Module
+ * @module services/webhooks
+ *
+ * Tenant subscriptions for rollup and scan events, delivered as signed HTTP
+ * requests with retries and a delivery log.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+// Interfaces
+export type {
+  WebhookEvent,
+  WebhookEventPayload,
+  WebhookSubscriptionEntity,
+  WebhookDeliveryEntity,
+  WebhookDeliveryCreateInput,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryFilter,
+  WebhookDeliveryJobOptions,
+  IWebhookSubscriptionRepository,
+  IWebhookDeliveryQueue,
+  IWebhookDispatcher,
+  IWebhookSubscriptionService,
+} from './interfaces.js';
+
+// Signatures
+export {
+  WEBHOOK_HEADERS,
+  generateWebhookSecret,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from './webhook-signature.js';
+
+// Dispatching
+export {
+  WebhookDispatcher,
+  WebhookRollupEventEmitter,
+  WebhookScanEventEmitter,
+  matchesSubscription,
+  toWebhookPayload,
+  createWebhookDispatcher,
+} from './webhook-dispatcher.js';
+
+// Delivery
+export {
+  WebhookDeliveryService,
+  DEFAULT_WEBHOOK_DELIVERY_CONFIG,
+  createWebhookDeliveryService,
+  type WebhookDeliveryServiceConfig,
+  type WebhookAttemptContext,
+  type WebhookDeliveryOutcome,
+  type WebhookFetch,
+} from './webhook-delivery-service.js';
+
+// URL checks
+export {
+  WebhookUrlError,
+  assertPublicWebhookUrl,
+  isBlockedWebhookAddress,
+  resolveWebhookHost,
+  type WebhookHostResolver,
+} from './webhook-url-guard.js';
+
+// Subscription management
+export {
+  WebhookSubscriptionService,
+  createWebhookSubscriptionService,
+} from './webhook-subscription-service.js';
@@ -0,0 +1,268 @@
+/**
+ * Outbound Webhook Interfaces
+ * @module services/webhooks/interfaces
+ *
+ * Type definitions for outbound webhook subscriptions. Rollup and scan events
+ * are matched against tenant subscriptions, recorded as deliveries and sent
+ * to the subscribed URLs by the webhook delivery worker.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import { TenantId } from '../../types/entities.js';
+import type { PaginatedResult, PaginationParams } from '../../repositories/interfaces.js';
+import type {
+  WebhookSubscriptionEventType,
+  WebhookDeliveryStatus,
+  CreateWebhookSubscriptionRequest,
+  UpdateWebhookSubscriptionRequest,
+} from '../../types/webhook-subscription.js';
+import type { WebhookDeliveryJobPayload } from '../../queues/webhook-jobs.js';
+
+// ============================================================================
+// Events
+// ============================================================================
+
+/**
+ * Event dispatched to webhook subscriptions
+ */
+export interface WebhookEvent {
+  /** Unique event ID, shared by every delivery of the event */
+  readonly eventId: string;
+  /** Event type */
+  readonly type: WebhookSubscriptionEventType;
+  /** Tenant the event belongs to */
+  readonly tenantId: TenantId;
+  /** Event timestamp */
+  readonly timestamp: Date;
+  /** Rollup the event concerns, for rollup events */
+  readonly rollupId?: string;
+  /** Repository the event concerns, for scan events */
+  readonly repositoryId?: string;
+  /** Event data (varies by type) */
+  readonly data: Record<string, unknown>;
+}
+
+/**
+ * JSON body posted to subscription URLs
+ */
+export interface WebhookEventPayload {
+  readonly eventId: string;
+  readonly eventType: WebhookSubscriptionEventType;
+  readonly tenantId: string;
+  readonly timestamp: string;
+  readonly version: '1.0';
+  readonly data: Record<string, unknown>;
+}
+
+// ============================================================================
+// Entities
+// ============================================================================
+
+/**
+ * Webhook subscription entity
+ */
+export interface WebhookSubscriptionEntity {
+  readonly id: string;
+  readonly tenantId: TenantId;
+  readonly name: string;
+  readonly url: string;
+  /** HMAC signing secret */
+  readonly secret: string;
+  readonly eventTypes: WebhookSubscriptionEventType[];
+  /** Rollups whose events are delivered; empty for all */
+  readonly rollupIds: string[];
+  /** Repositories whose events are delivered; empty for all */
+  readonly repositoryIds: string[];
+  readonly isActive: boolean;
+  readonly createdBy: string;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Webhook delivery log entity
+ */
+export interface WebhookDeliveryEntity {
+  readonly id: string;
+  readonly tenantId: TenantId;
+  readonly subscriptionId: string;
+  readonly eventId: string;
+  readonly eventType: WebhookSubscriptionEventType;
+  readonly payload: WebhookEventPayload;
+  readonly status: WebhookDeliveryStatus;
+  /** Attempts made so far */
+  readonly attemptCount: number;
+  /** HTTP status of the latest attempt */
+  readonly responseStatus?: number;
+  /** Truncated response body of the latest attempt */
+  readonly responseBody?: string;
+  /** Error of the latest failed attempt */
+  readonly errorMessage?: string;
+  /** Duration of the latest attempt in milliseconds */
+  readonly durationMs?: number;
+  /** Delivery this one was manually redelivered from */
+  readonly redeliveryOf?: string;
+  readonly lastAttemptAt?: Date;
+  /** When the next automatic attempt is due, while pending */
+  readonly nextAttemptAt?: Date;
+  readonly deliveredAt?: Date;
+  readonly createdAt: Date;
+  readonly updatedAt: Date;
+}
+
+/**
+ * Input for creating a delivery log entry
+ */
+export interface WebhookDeliveryCreateInput {
+  readonly tenantId: TenantId;
+  readonly subscriptionId: string;
+  readonly eventId: string;
+  readonly eventType: WebhookSubscriptionEventType;
+  readonly payload: WebhookEventPayload;
+  readonly redeliveryOf?: string;
+}
+
+/**
+ * Outcome of a single delivery attempt
+ */
+export interface WebhookDeliveryAttempt {
+  readonly status: WebhookDeliveryStatus;
+  readonly responseStatus?: number;
+  readonly responseBody?: string;
+  readonly errorMessage?: string;
+  readonly durationMs: number;
+  readonly nextAttemptAt?: Date;
+}
+
+/**
+ * Delivery log filter
+ */
+export interface WebhookDeliveryFilter {
+  readonly status?: WebhookDeliveryStatus;
+}
+
+// ============================================================================
+// Repository Interface
+// ============================================================================
+
+/**
+ * Persistence for webhook subscriptions and their delivery log
+ */
+export interface IWebhookSubscriptionRepository {
+  createSubscription(
+    tenantId: TenantId,
+    userId: string,
+    input: CreateWebhookSubscriptionRequest & { secret: string }
+  ): Promise<WebhookSubscriptionEntity>;
+
+  findSubscriptionById(tenantId: TenantId, subscriptionId: string): Promise<WebhookSubscriptionEntity | null>;
+
+  listSubscriptions(tenantId: TenantId): Promise<WebhookSubscriptionEntity[]>;
+
+  /** Find active subscriptions of a tenant that include an event type */
+  findActiveSubscriptions(
+    tenantId: TenantId,
+    eventType: WebhookSubscriptionEventType
+  ): Promise<WebhookSubscriptionEntity[]>;
+
+  updateSubscription(
+    tenantId: TenantId,
+    subscriptionId: string,
+    input: UpdateWebhookSubscriptionRequest
+  ): Promise<WebhookSubscriptionEntity | null>;
+
+  deleteSubscription(tenantId: TenantId, subscriptionId: string): Promise<boolean>;
+
+  /**
+   * Record a delivery.
+   * Returns null when the event was already recorded for the subscription.
+   */
+  createDelivery(input: WebhookDeliveryCreateInput): Promise<WebhookDeliveryEntity | null>;
+
+  findDeliveryById(tenantId: TenantId, deliveryId: string): Promise<WebhookDeliveryEntity | null>;
+
+  listDeliveries(
+    tenantId: TenantId,
+    subscriptionId: string,
+    filter?: WebhookDeliveryFilter,
+    pagination?: PaginationParams
+  ): Promise<PaginatedResult<WebhookDeliveryEntity>>;
+
+  /** Record the outcome of an attempt and increment the attempt count */
+  recordDeliveryAttempt(
+    tenantId: TenantId,
+    deliveryId: string,
+    attempt: WebhookDeliveryAttempt
+  ): Promise<WebhookDeliveryEntity | null>;
+}
+
+// ============================================================================
+// Queue Interface
+// ============================================================================
+
+/**
+ * Job options used for delivery jobs
+ */
+export interface WebhookDeliveryJobOptions {
+  readonly jobId?: string;
+  readonly attempts?: number;
+  readonly backoff?: { readonly type: 'exponential'; readonly delay: number };
+  readonly removeOnComplete?: { readonly age: number; readonly count: number };
+  readonly removeOnFail?: { readonly age: number; readonly count: number };
+}
+
+/**
+ * Delivery queue operations (satisfied by a BullMQ Queue)
+ */
+export interface IWebhookDeliveryQueue {
+  add(name: string, data: WebhookDeliveryJobPayload, opts?: WebhookDeliveryJobOptions): Promise<unknown>;
+}
+
+// ============================================================================
+// Service Interfaces
+// ============================================================================
+
+/**
+ * Matches events against subscriptions and queues deliveries
+ */
+export interface IWebhookDispatcher {
+  /**
+   * Dispatch an event to matching subscriptions
+   * @returns Number of deliveries queued
+   */
+  dispatch(event: WebhookEvent): Promise<number>;
+}
+
+/**
+ * Subscription management used by the API routes
+ */
+export interface IWebhookSubscriptionService {
+  createSubscription(
+    tenantId: TenantId,
+    userId: string,
+    input: CreateWebhookSubscriptionRequest
+  ): Promise<WebhookSubscriptionEntity>;
+
+  listSubscriptions(tenantId: TenantId): Promise<WebhookSubscriptionEntity[]>;
+
+  getSubscription(tenantId: TenantId, subscriptionId: string): Promise<WebhookSubscriptionEntity>;
+
+  updateSubscription(
+    tenantId: TenantId,
+    subscriptionId: string,
+    input: UpdateWebhookSubscriptionRequest
+  ): Promise<WebhookSubscriptionEntity>;
+
+  deleteSubscription(tenantId: TenantId, subscriptionId: string): Promise<void>;
+
+  listDeliveries(
+    tenantId: TenantId,
+    subscriptionId: string,
+    filter?: WebhookDeliveryFilter,
+    pagination?: PaginationParams
+  ): Promise<PaginatedResult<WebhookDeliveryEntity>>;
+
+  /** Queue a new delivery of a logged delivery's payload */
+  redeliver(tenantId: TenantId, subscriptionId: string, deliveryId: string): Promise<WebhookDeliveryEntity>;
+}
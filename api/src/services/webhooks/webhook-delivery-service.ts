@@ -0,0 +1,275 @@
+/**
+ * Webhook Delivery Service
+ * @module services/webhooks/webhook-delivery-service
+ *
+ * Sends logged deliveries to their subscription URLs. Each call makes one
+ * signed HTTP attempt and records its outcome; retries are scheduled by the
+ * delivery queue using the same backoff reported in `nextAttemptAt`. The URL
+ * is re-checked before every attempt, and connections only use addresses
+ * that passed the check, so a host re-pointed at an internal address after
+ * registration is not reached.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import pino from 'pino';
+import { Agent, type Dispatcher } from 'undici';
+import { TenantId } from '../../types/entities.js';
+import {
+  IWebhookSubscriptionRepository,
+  WebhookDeliveryAttempt,
+  WebhookDeliveryEntity,
+} from './interfaces.js';
+import { WEBHOOK_HEADERS, signWebhookPayload } from './webhook-signature.js';
+import {
+  WebhookUrlError,
+  assertPublicWebhookUrl,
+  createPublicWebhookLookup,
+  resolveWebhookHost,
+  type WebhookHostResolver,
+} from './webhook-url-guard.js';
+import { getWebhookRetryDelay } from '../../queues/webhook-jobs.js';
+
+const logger = pino({ name: 'webhook-delivery-service' });
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Delivery service configuration
+ */
+export interface WebhookDeliveryServiceConfig {
+  /** Request timeout in milliseconds */
+  readonly timeoutMs: number;
+  /** Characters of the response body kept in the delivery log */
+  readonly maxResponseBodyLength: number;
+  /** User agent sent with deliveries */
+  readonly userAgent: string;
+}
+
+/**
+ * Default delivery service configuration
+ */
+export const DEFAULT_WEBHOOK_DELIVERY_CONFIG: WebhookDeliveryServiceConfig = {
+  timeoutMs: 10000,
+  maxResponseBodyLength: 1024,
+  userAgent: 'code-reviewer-webhooks/1.0',
+};
+
+/**
+ * Attempt position within the delivery job
+ */
+export interface WebhookAttemptContext {
+  /** Attempt number, starting at 1 */
+  readonly attempt: number;
+  /** Attempts allowed before the delivery fails */
+  readonly maxAttempts: number;
+}
+
+/**
+ * Outcome of a delivery attempt
+ * - succeeded: the endpoint answered with a 2xx status
+ * - retry: the attempt failed and another one is scheduled
+ * - failed: the delivery failed permanently
+ * - skipped: the delivery no longer exists or was already delivered
+ */
+export type WebhookDeliveryOutcome =
+  | { readonly status: 'succeeded'; readonly delivery: WebhookDeliveryEntity }
+  | { readonly status: 'retry'; readonly delivery: WebhookDeliveryEntity; readonly error: string }
+  | { readonly status: 'failed'; readonly delivery: WebhookDeliveryEntity; readonly error: string }
+  | { readonly status: 'skipped' };
+
+/**
+ * HTTP client used for deliveries. Node's fetch connects through `dispatcher`.
+ */
+export type WebhookFetch = (
+  url: string,
+  init: RequestInit & { dispatcher?: Dispatcher }
+) => Promise<Response>;
+
+// ============================================================================
+// Service Implementation
+// ============================================================================
+
+/**
+ * Sends webhook deliveries and records each attempt in the delivery log
+ */
+export class WebhookDeliveryService {
+  private readonly config: WebhookDeliveryServiceConfig;
+  /** Connects to checked addresses only, so DNS answers cannot change after the check */
+  private readonly dispatcher: Agent;
+
+  constructor(
+    private readonly repository: IWebhookSubscriptionRepository,
+    private readonly fetchFn: WebhookFetch = globalThis.fetch,
+    config: Partial<WebhookDeliveryServiceConfig> = {},
+    private readonly resolveHost: WebhookHostResolver = resolveWebhookHost
+  ) {
+    this.config = { ...DEFAULT_WEBHOOK_DELIVERY_CONFIG, ...config };
+    this.dispatcher = new Agent({ connect: { lookup: createPublicWebhookLookup(resolveHost) } });
+  }
+
+  /**
+   * Make one attempt to send a delivery
+   */
+  async deliver(
+    tenantId: TenantId,
+    deliveryId: string,
+    context: WebhookAttemptContext
+  ): Promise<WebhookDeliveryOutcome> {
+    const delivery = await this.repository.findDeliveryById(tenantId, deliveryId);
+    if (!delivery || delivery.status === 'succeeded') {
+      return { status: 'skipped' };
+    }
+
+    const subscription = await this.repository.findSubscriptionById(tenantId, delivery.subscriptionId);
+    if (!subscription?.isActive) {
+      return this.record(tenantId, delivery, {
+        status: 'failed',
+        errorMessage: 'Subscription is disabled',
+        durationMs: 0,
+      });
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const start = Date.now();
+
+    let responseStatus: number | undefined;
+    let responseBody: string | undefined;
+    let errorMessage: string | undefined;
+    let retryable: boolean;
+
+    try {
+      await assertPublicWebhookUrl(subscription.url, this.resolveHost);
+
+      const response = await this.fetchFn(subscription.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': this.config.userAgent,
+          [WEBHOOK_HEADERS.EVENT]: delivery.eventType,
+          [WEBHOOK_HEADERS.DELIVERY]: delivery.id,
+          [WEBHOOK_HEADERS.TIMESTAMP]: String(timestamp),
+          [WEBHOOK_HEADERS.SIGNATURE]: signWebhookPayload(subscription.secret, timestamp, body),
+        },
+        body,
+        // Redirects could point deliveries at unintended hosts
+        redirect: 'manual',
+        signal: AbortSignal.timeout(this.config.timeoutMs),
+        dispatcher: this.dispatcher,
+      });
+
+      responseStatus = response.status;
+      responseBody = await readResponseBody(response, this.config.maxResponseBodyLength);
+
+      if (response.ok) {
+        return this.record(tenantId, delivery, {
+          status: 'succeeded',
+          responseStatus,
+          ...(responseBody && { responseBody }),
+          durationMs: Date.now() - start,
+        });
+      }
+
+      errorMessage = `Endpoint responded with HTTP ${response.status}`;
+      retryable = isRetryableStatus(response.status);
+    } catch (thrown) {
+      // Rejected connection lookups surface as the cause of the fetch error
+      const error = thrown instanceof Error && thrown.cause instanceof WebhookUrlError ? thrown.cause : thrown;
+      errorMessage = error instanceof Error ? error.message : String(error);
+      retryable = !(error instanceof WebhookUrlError) || error.retryable;
+    }
+
+    const willRetry = retryable && context.attempt < context.maxAttempts;
+
+    return this.record(tenantId, delivery, {
+      status: willRetry ? 'pending' : 'failed',
+      ...(responseStatus !== undefined && { responseStatus }),
+      ...(responseBody && { responseBody }),
+      errorMessage,
+      durationMs: Date.now() - start,
+      ...(willRetry && { nextAttemptAt: new Date(Date.now() + getWebhookRetryDelay(context.attempt)) }),
+    });
+  }
+
+  /**
+   * Record an attempt and translate it into an outcome
+   */
+  private async record(
+    tenantId: TenantId,
+    delivery: WebhookDeliveryEntity,
+    attempt: WebhookDeliveryAttempt
+  ): Promise<WebhookDeliveryOutcome> {
+    const updated = await this.repository.recordDeliveryAttempt(tenantId, delivery.id, attempt) ?? delivery;
+
+    logger.info(
+      {
+        deliveryId: delivery.id,
+        subscriptionId: delivery.subscriptionId,
+        eventType: delivery.eventType,
+        status: attempt.status,
+        responseStatus: attempt.responseStatus,
+        durationMs: attempt.durationMs,
+      },
+      'Webhook delivery attempted'
+    );
+
+    if (attempt.status === 'succeeded') {
+      return { status: 'succeeded', delivery: updated };
+    }
+    const error = attempt.errorMessage ?? 'Delivery failed';
+    return attempt.status === 'pending'
+      ? { status: 'retry', delivery: updated, error }
+      : { status: 'failed', delivery: updated, error };
+  }
+}
+
+/**
+ * Timeouts, rate limiting and server errors are worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Read a response body for the delivery log, truncated to a maximum length.
+ * The body is streamed and the download stops once enough has been read.
+ */
+async function readResponseBody(response: Response, maxLength: number): Promise<string | undefined> {
+  if (!response.body) {
+    return undefined;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  try {
+    while (text.length < maxLength) {
+      const { done, value } = await reader.read();
+      if (done) {
+        text += decoder.decode();
+        break;
+      }
+      text += decoder.decode(value, { stream: true });
+    }
+    return text.slice(0, maxLength);
+  } catch {
+    return undefined;
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
+/**
+ * Create a new WebhookDeliveryService instance
+ */
+export function createWebhookDeliveryService(
+  repository: IWebhookSubscriptionRepository,
+  fetchFn?: WebhookFetch,
+  config?: Partial<WebhookDeliveryServiceConfig>,
+  resolveHost?: WebhookHostResolver
+): WebhookDeliveryService {
+  return new WebhookDeliveryService(repository, fetchFn, config, resolveHost);
+}
@@ -0,0 +1,241 @@
+/**
+ * Webhook Dispatcher
+ * @module services/webhooks/webhook-dispatcher
+ *
+ * Matches rollup and scan events against tenant subscriptions, records a
+ * delivery per matching subscription and queues it for the delivery worker.
+ * The emitter adapters route events of the rollup module and the scan
+ * service through the dispatcher.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import { randomUUID } from 'crypto';
+import pino from 'pino';
+import {
+  IWebhookDispatcher,
+  IWebhookSubscriptionRepository,
+  IWebhookDeliveryQueue,
+  WebhookEvent,
+  WebhookEventPayload,
+  WebhookSubscriptionEntity,
+} from './interfaces.js';
+import { isWebhookSubscriptionEventType } from '../../types/webhook-subscription.js';
+import {
+  WEBHOOK_JOB_TYPES,
+  WEBHOOK_DELIVERY_JOB_OPTIONS,
+  createWebhookDeliveryJob,
+} from '../../queues/webhook-jobs.js';
+import type {
+  IRollupEventEmitter,
+  RollupEvent,
+  RollupEventType,
+  RollupEventWithMetadata,
+} from '../rollup/rollup-event-emitter.js';
+import type { IScanEventEmitter, ScanEvent } from '../scan-service.js';
+
+const logger = pino({ name: 'webhook-dispatcher' });
+
+// ============================================================================
+// Dispatcher Implementation
+// ============================================================================
+
+/**
+ * Dispatches events to matching webhook subscriptions
+ */
+export class WebhookDispatcher implements IWebhookDispatcher {
+  constructor(
+    private readonly repository: IWebhookSubscriptionRepository,
+    private readonly queue: IWebhookDeliveryQueue
+  ) {}
+
+  /**
+   * Record and queue a delivery for each subscription matching the event.
+   * A failing subscription does not prevent delivery to the others.
+   */
+  async dispatch(event: WebhookEvent): Promise<number> {
+    const subscriptions = await this.repository.findActiveSubscriptions(event.tenantId, event.type);
+    const payload = toWebhookPayload(event);
+    let queued = 0;
+
+    for (const subscription of subscriptions) {
+      if (!matchesSubscription(subscription, event)) {
+        continue;
+      }
+
+      try {
+        const delivery = await this.repository.createDelivery({
+          tenantId: event.tenantId,
+          subscriptionId: subscription.id,
+          eventId: event.eventId,
+          eventType: event.type,
+          payload,
+        });
+
+        // Already recorded by another process handling the same event
+        if (!delivery) {
+          continue;
+        }
+
+        await this.queue.add(
+          WEBHOOK_JOB_TYPES.DELIVER_WEBHOOK,
+          createWebhookDeliveryJob(event.tenantId, delivery.id),
+          { ...WEBHOOK_DELIVERY_JOB_OPTIONS, jobId: delivery.id }
+        );
+        queued++;
+      } catch (error) {
+        logger.error(
+          { err: error, subscriptionId: subscription.id, eventId: event.eventId, eventType: event.type },
+          'Failed to queue webhook delivery'
+        );
+      }
+    }
+
+    logger.debug({ eventId: event.eventId, eventType: event.type, queued }, 'Webhook event dispatched');
+
+    return queued;
+  }
+}
+
+/**
+ * Check whether a subscription's rollup and repository filters accept an event.
+ * A filter only applies to events carrying that dimension.
+ */
+export function matchesSubscription(
+  subscription: WebhookSubscriptionEntity,
+  event: WebhookEvent
+): boolean {
+  if (!subscription.isActive || !subscription.eventTypes.includes(event.type)) {
+    return false;
+  }
+  if (event.rollupId !== undefined && subscription.rollupIds.length > 0 &&
+      !subscription.rollupIds.includes(event.rollupId)) {
+    return false;
+  }
+  if (event.repositoryId !== undefined && subscription.repositoryIds.length > 0 &&
+      !subscription.repositoryIds.includes(event.repositoryId)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Build the JSON body posted for an event
+ */
+export function toWebhookPayload(event: WebhookEvent): WebhookEventPayload {
+  return {
+    eventId: event.eventId,
+    eventType: event.type,
+    tenantId: event.tenantId,
+    timestamp: event.timestamp.toISOString(),
+    version: '1.0',
+    data: event.data,
+  };
+}
+
+// ============================================================================
+// Emitter Adapters
+// ============================================================================
+
+/**
+ * Rollup event emitter that also dispatches events to webhook subscriptions
+ */
+export class WebhookRollupEventEmitter implements IRollupEventEmitter {
+  constructor(
+    private readonly inner: IRollupEventEmitter,
+    private readonly dispatcher: IWebhookDispatcher
+  ) {}
+
+  /**
+   * Emit through the wrapped emitter, then dispatch to subscriptions
+   */
+  async emit(event: RollupEvent, correlationId?: string): Promise<void> {
+    await this.inner.emit(event, correlationId);
+
+    if (!isWebhookSubscriptionEventType(event.type)) {
+      return;
+    }
+
+    await dispatchSafely(this.dispatcher, {
+      eventId: randomUUID(),
+      type: event.type,
+      tenantId: event.tenantId,
+      timestamp: event.timestamp,
+      rollupId: event.rollupId,
+      data: { rollupId: event.rollupId, ...event.data },
+    });
+  }
+
+  /**
+   * Subscribe through the wrapped emitter
+   */
+  async subscribe(
+    handler: (event: RollupEventWithMetadata) => Promise<void>,
+    eventTypes?: RollupEventType[]
+  ): Promise<() => void> {
+    if (!this.inner.subscribe) {
+      return () => {};
+    }
+    return this.inner.subscribe(handler, eventTypes);
+  }
+}
+
+/**
+ * Scan event emitter that dispatches scan events to webhook subscriptions
+ */
+export class WebhookScanEventEmitter implements IScanEventEmitter {
+  constructor(
+    private readonly dispatcher: IWebhookDispatcher,
+    private readonly inner?: IScanEventEmitter
+  ) {}
+
+  /**
+   * Emit through the wrapped emitter, then dispatch to subscriptions.
+   * Events without a tenant cannot be matched and are not dispatched.
+   */
+  async emit(event: ScanEvent): Promise<void> {
+    await this.inner?.emit(event);
+
+    if (!event.tenantId || !isWebhookSubscriptionEventType(event.type)) {
+      return;
+    }
+
+    await dispatchSafely(this.dispatcher, {
+      eventId: randomUUID(),
+      type: event.type,
+      tenantId: event.tenantId,
+      timestamp: event.timestamp,
+      ...(event.repositoryId !== undefined && { repositoryId: event.repositoryId }),
+      data: {
+        scanId: event.scanId,
+        ...(event.repositoryId !== undefined && { repositoryId: event.repositoryId }),
+        ...event.data,
+      },
+    });
+  }
+}
+
+/**
+ * Dispatch an event without failing the emitting operation
+ */
+async function dispatchSafely(dispatcher: IWebhookDispatcher, event: WebhookEvent): Promise<void> {
+  try {
+    await dispatcher.dispatch(event);
+  } catch (error) {
+    logger.warn({ err: error, eventType: event.type, tenantId: event.tenantId }, 'Failed to dispatch webhook event');
+  }
+}
+
+// ============================================================================
+// Factory Functions
+// ============================================================================
+
+/**
+ * Create a new WebhookDispatcher instance
+ */
+export function createWebhookDispatcher(
+  repository: IWebhookSubscriptionRepository,
+  queue: IWebhookDeliveryQueue
+): WebhookDispatcher {
+  return new WebhookDispatcher(repository, queue);
+}
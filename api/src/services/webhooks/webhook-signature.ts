@@ -0,0 +1,58 @@
+/**
+ * Webhook Signatures
+ * @module services/webhooks/webhook-signature
+ *
+ * HMAC-SHA256 signing of outbound webhook bodies. The signature covers
+ * `<timestamp>.<body>` so receivers can reject replayed deliveries.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+/**
+ * Headers sent with every delivery
+ */
+export const WEBHOOK_HEADERS = {
+  EVENT: 'X-Webhook-Event',
+  DELIVERY: 'X-Webhook-Delivery',
+  TIMESTAMP: 'X-Webhook-Timestamp',
+  SIGNATURE: 'X-Webhook-Signature-256',
+} as const;
+
+/**
+ * Prefix of generated signing secrets
+ */
+const SECRET_PREFIX = 'whsec_';
+
+/**
+ * Generate a signing secret for a new subscription
+ */
+export function generateWebhookSecret(): string {
+  return SECRET_PREFIX + randomBytes(32).toString('hex');
+}
+
+/**
+ * Compute the signature header value of a delivery body
+ * @param timestamp - Unix timestamp in seconds sent in the timestamp header
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verify a signature header value against a delivery body
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: number,
+  body: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signWebhookPayload(secret, timestamp, body));
+  const received = Buffer.from(signature);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
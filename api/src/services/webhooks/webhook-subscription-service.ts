@@ -0,0 +1,203 @@
+/**
+ * Webhook Subscription Service
+ * @module services/webhooks/webhook-subscription-service
+ *
+ * Manages tenant webhook subscriptions and exposes their delivery log,
+ * including manual redelivery of logged events.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import pino from 'pino';
+import { TenantId } from '../../types/entities.js';
+import type { PaginatedResult, PaginationParams } from '../../repositories/interfaces.js';
+import type {
+  CreateWebhookSubscriptionRequest,
+  UpdateWebhookSubscriptionRequest,
+} from '../../types/webhook-subscription.js';
+import {
+  IWebhookSubscriptionService,
+  IWebhookSubscriptionRepository,
+  IWebhookDeliveryQueue,
+  WebhookSubscriptionEntity,
+  WebhookDeliveryEntity,
+  WebhookDeliveryFilter,
+} from './interfaces.js';
+import { generateWebhookSecret } from './webhook-signature.js';
+import {
+  WebhookUrlError,
+  assertPublicWebhookUrl,
+  resolveWebhookHost,
+  type WebhookHostResolver,
+} from './webhook-url-guard.js';
+import {
+  WEBHOOK_JOB_TYPES,
+  WEBHOOK_DELIVERY_JOB_OPTIONS,
+  createWebhookDeliveryJob,
+} from '../../queues/webhook-jobs.js';
+import { NotFoundError, ValidationError } from '../../middleware/error-handler.js';
+
+const logger = pino({ name: 'webhook-subscription-service' });
+
+/**
+ * Webhook subscription service implementation
+ */
+export class WebhookSubscriptionService implements IWebhookSubscriptionService {
+  constructor(
+    private readonly repository: IWebhookSubscriptionRepository,
+    private readonly queue: IWebhookDeliveryQueue,
+    private readonly resolveHost: WebhookHostResolver = resolveWebhookHost
+  ) {}
+
+  /**
+   * Create a subscription, generating a signing secret unless one is given
+   */
+  async createSubscription(
+    tenantId: TenantId,
+    userId: string,
+    input: CreateWebhookSubscriptionRequest
+  ): Promise<WebhookSubscriptionEntity> {
+    await this.validateUrl(input.url);
+
+    const subscription = await this.repository.createSubscription(tenantId, userId, {
+      ...input,
+      secret: input.secret ?? generateWebhookSecret(),
+    });
+
+    logger.info(
+      { tenantId, subscriptionId: subscription.id, eventTypes: subscription.eventTypes },
+      'Webhook subscription created'
+    );
+
+    return subscription;
+  }
+
+  /**
+   * List subscriptions of a tenant
+   */
+  async listSubscriptions(tenantId: TenantId): Promise<WebhookSubscriptionEntity[]> {
+    return this.repository.listSubscriptions(tenantId);
+  }
+
+  /**
+   * Get a subscription
+   */
+  async getSubscription(tenantId: TenantId, subscriptionId: string): Promise<WebhookSubscriptionEntity> {
+    const subscription = await this.repository.findSubscriptionById(tenantId, subscriptionId);
+    if (!subscription) {
+      throw new NotFoundError('Webhook subscription', subscriptionId);
+    }
+    return subscription;
+  }
+
+  /**
+   * Update a subscription
+   */
+  async updateSubscription(
+    tenantId: TenantId,
+    subscriptionId: string,
+    input: UpdateWebhookSubscriptionRequest
+  ): Promise<WebhookSubscriptionEntity> {
+    if (input.url !== undefined) {
+      await this.validateUrl(input.url);
+    }
+
+    const subscription = await this.repository.updateSubscription(tenantId, subscriptionId, input);
+    if (!subscription) {
+      throw new NotFoundError('Webhook subscription', subscriptionId);
+    }
+    return subscription;
+  }
+
+  /**
+   * Delete a subscription together with its delivery log
+   */
+  async deleteSubscription(tenantId: TenantId, subscriptionId: string): Promise<void> {
+    const deleted = await this.repository.deleteSubscription(tenantId, subscriptionId);
+    if (!deleted) {
+      throw new NotFoundError('Webhook subscription', subscriptionId);
+    }
+
+    logger.info({ tenantId, subscriptionId }, 'Webhook subscription deleted');
+  }
+
+  /**
+   * List the delivery log of a subscription, newest first
+   */
+  async listDeliveries(
+    tenantId: TenantId,
+    subscriptionId: string,
+    filter?: WebhookDeliveryFilter,
+    pagination?: PaginationParams
+  ): Promise<PaginatedResult<WebhookDeliveryEntity>> {
+    await this.getSubscription(tenantId, subscriptionId);
+    return this.repository.listDeliveries(tenantId, subscriptionId, filter, pagination);
+  }
+
+  /**
+   * Queue a new delivery of a logged delivery's payload.
+   * The original entry keeps its outcome; the redelivery gets its own log entry.
+   */
+  async redeliver(
+    tenantId: TenantId,
+    subscriptionId: string,
+    deliveryId: string
+  ): Promise<WebhookDeliveryEntity> {
+    const subscription = await this.getSubscription(tenantId, subscriptionId);
+    if (!subscription.isActive) {
+      throw new ValidationError('Webhook subscription is disabled');
+    }
+
+    const original = await this.repository.findDeliveryById(tenantId, deliveryId);
+    if (!original || original.subscriptionId !== subscriptionId) {
+      throw new NotFoundError('Webhook delivery', deliveryId);
+    }
+
+    const delivery = await this.repository.createDelivery({
+      tenantId,
+      subscriptionId,
+      eventId: original.eventId,
+      eventType: original.eventType,
+      payload: original.payload,
+      redeliveryOf: original.id,
+    });
+    if (!delivery) {
+      throw new Error('Failed to create webhook redelivery');
+    }
+
+    await this.queue.add(
+      WEBHOOK_JOB_TYPES.DELIVER_WEBHOOK,
+      createWebhookDeliveryJob(tenantId, delivery.id),
+      { ...WEBHOOK_DELIVERY_JOB_OPTIONS, jobId: delivery.id }
+    );
+
+    logger.info({ tenantId, subscriptionId, deliveryId: delivery.id, redeliveryOf: original.id }, 'Webhook redelivery queued');
+
+    return delivery;
+  }
+
+  /**
+   * Reject URLs deliveries cannot be sent to
+   */
+  private async validateUrl(url: string): Promise<void> {
+    try {
+      await assertPublicWebhookUrl(url, this.resolveHost);
+    } catch (error) {
+      if (error instanceof WebhookUrlError) {
+        throw new ValidationError(error.message);
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Create a new WebhookSubscriptionService instance
+ */
+export function createWebhookSubscriptionService(
+  repository: IWebhookSubscriptionRepository,
+  queue: IWebhookDeliveryQueue,
+  resolveHost?: WebhookHostResolver
+): WebhookSubscriptionService {
+  return new WebhookSubscriptionService(repository, queue, resolveHost);
+}
@@ -0,0 +1,202 @@
+/**
+ * Webhook URL Guard
+ * @module services/webhooks/webhook-url-guard
+ *
+ * Keeps webhook deliveries away from the API's own network. Subscription URLs
+ * must use http or https and their host must resolve to public addresses
+ * only; loopback, private, link-local (including cloud metadata endpoints)
+ * and other reserved ranges are rejected. URLs are checked when a
+ * subscription is registered and again before every delivery attempt, since
+ * the DNS answer of a host can change after registration. Delivery
+ * connections resolve their host through `createPublicWebhookLookup`, so
+ * the address connected to is the address that was checked.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import type { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP, type LookupFunction } from 'net';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Resolves a host name to the addresses a connection could be made to
+ */
+export type WebhookHostResolver = (hostname: string) => Promise<string[]>;
+
+/**
+ * Error raised for a URL deliveries must not be sent to.
+ * Retryable errors (failed DNS lookups) may succeed on a later attempt.
+ */
+export class WebhookUrlError extends Error {
+  constructor(
+    message: string,
+    public readonly retryable: boolean
+  ) {
+    super(message);
+    this.name = 'WebhookUrlError';
+  }
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * URL schemes deliveries can be sent to
+ */
+const ALLOWED_PROTOCOLS = ['https:', 'http:'];
+
+/**
+ * Address ranges deliveries must not reach
+ */
+const BLOCKED_ADDRESSES = new BlockList();
+
+// IPv4: "this" network, private, carrier-grade NAT (incl. 100.100.100.200
+// metadata), loopback, link-local (incl. 169.254.169.254 metadata), IETF
+// protocol assignments, benchmarking, multicast and reserved
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+
+// IPv6: unspecified, loopback and IPv4-compatible (::a.b.c.d), NAT64 and
+// 6to4 (both may embed any of the above), unique local (incl. fd00:ec2::254
+// metadata), link-local, multicast. IPv4-mapped addresses are matched
+// against the IPv4 ranges by the block list itself.
+for (const [network, prefix] of [
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['2002::', 16],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// ============================================================================
+// Guard Functions
+// ============================================================================
+
+/**
+ * Check whether an IP address lies in a range deliveries must not reach
+ */
+export function isBlockedWebhookAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return true;
+  }
+  return BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve every address of a host through the system resolver
+ */
+export async function resolveWebhookHost(hostname: string): Promise<string[]> {
+  const addresses = await lookup(hostname, { all: true, verbatim: true });
+  return addresses.map((entry) => entry.address);
+}
+
+/**
+ * Ensure a URL uses http(s) and its host resolves to public addresses only
+ * @param url - Subscription URL
+ * @param resolveHost - Host name resolver
+ * @throws WebhookUrlError when deliveries must not be sent to the URL
+ */
+export async function assertPublicWebhookUrl(
+  url: string,
+  resolveHost: WebhookHostResolver = resolveWebhookHost
+): Promise<void> {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new WebhookUrlError('Invalid webhook URL', false);
+  }
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    throw new WebhookUrlError('Webhook URL must use http or https', false);
+  }
+
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = parsed.hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: string[];
+  if (isIP(hostname) !== 0) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await resolveHost(hostname);
+    } catch {
+      addresses = [];
+    }
+    if (addresses.length === 0) {
+      throw new WebhookUrlError(`Webhook host ${hostname} could not be resolved`, true);
+    }
+  }
+
+  assertPublicAddresses(addresses);
+}
+
+/**
+ * Create a connection lookup that resolves hosts through `resolveHost` and
+ * fails unless every address is public. Connections made with it cannot be
+ * pointed at an internal address between the URL check and the connect.
+ * @param resolveHost - Host name resolver
+ */
+export function createPublicWebhookLookup(
+  resolveHost: WebhookHostResolver = resolveWebhookHost
+): LookupFunction {
+  return (hostname, options, callback) => {
+    resolveHost(hostname)
+      .then((resolved) => {
+        if (resolved.length === 0) {
+          throw new WebhookUrlError(`Webhook host ${hostname} could not be resolved`, true);
+        }
+        assertPublicAddresses(resolved);
+
+        const family = options.family === 'IPv4' ? 4 : options.family === 'IPv6' ? 6 : options.family;
+        const addresses: LookupAddress[] = resolved
+          .map((address) => ({ address, family: isIP(address) }))
+          .filter((entry) => !family || entry.family === family);
+        const [first] = addresses;
+        if (!first) {
+          throw new WebhookUrlError(`Webhook host ${hostname} has no IPv${family} address`, true);
+        }
+
+        if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, first.address, first.family);
+        }
+      })
+      .catch((error: NodeJS.ErrnoException) => callback(error, ''));
+  };
+}
+
+/**
+ * Ensure no resolved address lies in a blocked range
+ * @throws WebhookUrlError when an address is blocked
+ */
+function assertPublicAddresses(addresses: string[]): void {
+  if (addresses.some(isBlockedWebhookAddress)) {
+    throw new WebhookUrlError(
+      'Webhook URL must not resolve to a loopback, private, link-local or metadata address',
+      false
+    );
+  }
+}
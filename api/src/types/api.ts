@@ -114,6 +114,7 @@ export const ScanRequestSchema = Type.Object({
       Type.Literal('kubernetes'),
       Type.Literal('helm'),
       Type.Literal('cloudformation'),
+      Type.Literal('dockerfile'),
     ])),
     includeImplicit: Type.Boolean(),
     minConfidence: Type.Number({ minimum: 0, maximum: 100 }),
@@ -122,6 +123,7 @@ export const ScanRequestSchema = Type.Object({
     excludePatterns: Type.Array(Type.String()),
     analyzeHelmCharts: Type.Boolean(),
     resolveRemoteModules: Type.Boolean(),
+    expandTerraformInstances: Type.Boolean(),
   }))),
   priority: Type.Optional(Type.Union([
     Type.Literal('low'),
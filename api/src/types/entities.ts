@@ -96,7 +96,7 @@ export const ScanStatusSchema = Type.Union([
  */
 export interface ScanConfig {
   /** Types of IaC to detect */
-  readonly detectTypes: readonly ('terraform' | 'kubernetes' | 'helm' | 'cloudformation')[];
+  readonly detectTypes: readonly ('terraform' | 'kubernetes' | 'helm' | 'cloudformation' | 'dockerfile')[];
   /** Include implicit dependencies */
   readonly includeImplicit: boolean;
   /** Minimum confidence threshold */
@@ -111,20 +111,28 @@ export interface ScanConfig {
   readonly analyzeHelmCharts: boolean;
   /** Whether to resolve remote modules */
   readonly resolveRemoteModules: boolean;
+  /** Whether to expand Terraform count/for_each blocks into instance nodes */
+  readonly expandTerraformInstances: boolean;
 }
 
 /**
  * Default scan configuration
  */
 export const DEFAULT_SCAN_CONFIG: ScanConfig = {
-  detectTypes: ['terraform', 'kubernetes', 'helm'],
+  detectTypes: ['terraform', 'kubernetes', 'helm', 'dockerfile'],
   includeImplicit: true,
   minConfidence: 40,
   maxDepth: 10,
-  includePatterns: ['**/*.tf', '**/*.yaml', '**/*.yml', '**/Chart.yaml'],
+  // CI workflows are read for the image builds that link workloads to Dockerfiles
+  includePatterns: [
+    '**/*.tf', '**/*.tfvars', '**/*.yaml', '**/*.yml', '**/Chart.yaml',
+    '**/Dockerfile', '**/Dockerfile.*', '**/*.Dockerfile', '**/*.dockerfile',
+    '.github/workflows/*.yml', '.github/workflows/*.yaml', '**/.gitlab-ci.yml',
+  ],
   excludePatterns: ['**/node_modules/**', '**/.git/**', '**/vendor/**'],
   analyzeHelmCharts: true,
   resolveRemoteModules: false,
+  expandTerraformInstances: false,
 };
 
 /**
@@ -149,6 +157,8 @@ export interface ScanProgress {
   readonly errors: number;
   /** Warnings encountered */
   readonly warnings: number;
+  /** Phase a resumed scan picked up from (set only for resumed scans) */
+  readonly resumedFrom?: ScanPhase;
 }
 
 /**
@@ -255,6 +265,31 @@ export interface ScanEntity {
   readonly updatedAt: Date;
 }
 
+/**
+ * Phases after which scan progress is checkpointed
+ */
+export type ScanCheckpointPhase = 'parsing' | 'detecting';
+
+/**
+ * Scan checkpoint entity (database representation)
+ * Holds the output of the last completed checkpoint phase so an interrupted
+ * scan can be resumed without re-running earlier phases.
+ */
+export interface ScanCheckpointEntity {
+  /** Scan the checkpoint belongs to */
+  readonly scanId: ScanId;
+  /** Tenant ID (multi-tenancy) */
+  readonly tenantId: TenantId;
+  /** Last completed phase */
+  readonly phase: ScanCheckpointPhase;
+  /** Serialized phase output */
+  readonly data: Record<string, unknown>;
+  /** Creation time */
+  readonly createdAt: Date;
+  /** Last update time */
+  readonly updatedAt: Date;
+}
+
 /**
  * Scan entity TypeBox schema
  */
@@ -273,6 +308,7 @@ export const ScanEntitySchema = Type.Object({
     excludePatterns: Type.Array(Type.String()),
     analyzeHelmCharts: Type.Boolean(),
     resolveRemoteModules: Type.Boolean(),
+    expandTerraformInstances: Type.Boolean(),
   }),
   ref: Type.String(),
   commitSha: Type.String(),
@@ -377,6 +413,43 @@ export const RepositoryEntitySchema = Type.Object({
 
 export type RepositoryEntityDTO = Static<typeof RepositoryEntitySchema>;
 
+/**
+ * Repository webhook registration entity (database representation)
+ * Resolved from an incoming push by provider and provider repository ID.
+ */
+export interface RepositoryWebhookEntity {
+  /** Unique registration ID */
+  readonly id: string;
+  /** Tenant ID (multi-tenancy) */
+  readonly tenantId: TenantId;
+  /** Git provider */
+  readonly provider: GitProvider;
+  /** Provider's repository ID */
+  readonly providerRepositoryId: string;
+  /** Full name (owner/name) */
+  readonly repositoryFullName: string;
+  /** Tracked repository, if one matches the registration */
+  readonly repositoryId?: RepositoryId;
+  /** Default branch of the tracked repository */
+  readonly defaultBranch?: string;
+  /** Provider's webhook ID */
+  readonly webhookId: string;
+  /** Shared secret for HMAC signature verification */
+  readonly secret?: string;
+  /** SHA-256 hash of the secret or token */
+  readonly secretHash: string;
+  /** Branches whose pushes trigger scans; empty means the default branch */
+  readonly branchFilter: string[];
+  /** Subscribed events */
+  readonly events: string[];
+  /** Whether the registration is active */
+  readonly isActive: boolean;
+  /** Creation time */
+  readonly createdAt: Date;
+  /** Last update time */
+  readonly updatedAt: Date;
+}
+
 // ============================================================================
 // Tenant Entity
 // ============================================================================
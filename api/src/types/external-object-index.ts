@@ -39,7 +39,7 @@ export type ReferenceHash = string & { readonly __brand: 'ReferenceHash' };
 // ============================================================================
 
 /**
- * Available external reference types (10 types)
+ * Available external reference types
  * Each type represents a different category of external resource reference
  */
 export const ExternalRefType = {
@@ -63,6 +63,20 @@ export const ExternalRefType = {
   DNS_NAME: 'dns_name',
   /** S3 or cloud storage path (s3://bucket/key) */
   S3_PATH: 's3_path',
+  /** Generic cloud resource ID, as stored by the external object index */
+  RESOURCE_ID: 'resource_id',
+  /** Kubernetes resource reference */
+  K8S_REFERENCE: 'k8s_reference',
+  /** GCP resource ID */
+  GCP_RESOURCE: 'gcp_resource',
+  /** Azure resource ID */
+  AZURE_RESOURCE: 'azure_resource',
+  /** S3/GCS object path, as stored by the external object index */
+  STORAGE_PATH: 'storage_path',
+  /** CloudFormation cross-stack export name */
+  CFN_EXPORT: 'cfn_export',
+  /** Terraform state identity (backend://address) */
+  TF_STATE: 'tf_state',
 } as const;
 
 export type ExternalRefType = typeof ExternalRefType[keyof typeof ExternalRefType];
@@ -81,6 +95,13 @@ export const ExternalRefTypeSchema = Type.Union([
   Type.Literal('secret_ref'),
   Type.Literal('dns_name'),
   Type.Literal('s3_path'),
+  Type.Literal('resource_id'),
+  Type.Literal('k8s_reference'),
+  Type.Literal('gcp_resource'),
+  Type.Literal('azure_resource'),
+  Type.Literal('storage_path'),
+  Type.Literal('cfn_export'),
+  Type.Literal('tf_state'),
 ], {
   description: 'Type of external reference',
   examples: ['arn', 'container_image', 'git_url'],
@@ -793,7 +814,14 @@ export function isExternalRefType(value: unknown): value is ExternalRefType {
     value === 'cloud_resource_id' ||
     value === 'secret_ref' ||
     value === 'dns_name' ||
-    value === 's3_path'
+    value === 's3_path' ||
+    value === 'resource_id' ||
+    value === 'k8s_reference' ||
+    value === 'gcp_resource' ||
+    value === 'azure_resource' ||
+    value === 'storage_path' ||
+    value === 'cfn_export' ||
+    value === 'tf_state'
   );
 }
 
@@ -54,7 +54,16 @@ export type NodeType =
   // Terragrunt Node Types
   | TerragruntConfigNode
   | TerragruntIncludeNode
-  | TerragruntDependencyNode;
+  | TerragruntDependencyNode
+  // CloudFormation Node Types
+  | CfnResourceNode
+  | CfnParameterNode
+  | CfnOutputNode
+  // Dockerfile Node Types
+  | DockerStageNode
+  | DockerImageNode
+  // Kustomize Node Types
+  | KustomizationNode;
 
 /**
  * Base interface for all graph nodes
@@ -452,7 +461,100 @@ export interface TerragruntDependencyNode extends BaseNode {
 }
 
 // ============================================================================
-// Edge Types - 26 Variant Discriminated Union
+// CloudFormation Node Types (TASK-CFN-001)
+// ============================================================================
+
+/**
+ * Resource declared in a CloudFormation / SAM template `Resources` section
+ */
+export interface CfnResourceNode extends BaseNode {
+  readonly type: 'cfn_resource';
+  /** Logical ID within the template */
+  readonly logicalId: string;
+  /** Resource type (e.g., 'AWS::S3::Bucket', 'AWS::Serverless::Function') */
+  readonly resourceType: string;
+  /** Condition name gating the resource, if any */
+  readonly condition?: string;
+}
+
+/**
+ * Template parameter from the `Parameters` section
+ */
+export interface CfnParameterNode extends BaseNode {
+  readonly type: 'cfn_parameter';
+  /** Parameter type (e.g., 'String', 'AWS::EC2::VPC::Id') */
+  readonly parameterType: string;
+  /** Default value, if declared */
+  readonly defaultValue?: unknown;
+}
+
+/**
+ * Template output from the `Outputs` section
+ */
+export interface CfnOutputNode extends BaseNode {
+  readonly type: 'cfn_output';
+  /** Resolved `Export.Name`, if the output is exported for cross-stack use */
+  readonly exportName?: string;
+}
+
+// ============================================================================
+// Dockerfile Node Types (TASK-DOCKER-001)
+// ============================================================================
+
+/**
+ * Build stage started by a `FROM` instruction in a Dockerfile
+ */
+export interface DockerStageNode extends BaseNode {
+  readonly type: 'docker_stage';
+  /** Zero-based position of the stage in the Dockerfile */
+  readonly stageIndex: number;
+  /** Name given with `FROM ... AS <name>`, if any */
+  readonly stageName?: string;
+  /** Image or earlier stage the stage builds on, after ARG substitution */
+  readonly baseImage: string;
+  /** Whether this is the last stage, i.e. the image `docker build` produces by default */
+  readonly isFinal: boolean;
+  /** Ports declared with EXPOSE (e.g., '8080/tcp') */
+  readonly exposedPorts: readonly string[];
+}
+
+/**
+ * External image referenced by `FROM` or `COPY --from`
+ */
+export interface DockerImageNode extends BaseNode {
+  readonly type: 'docker_image';
+  /** Image reference as written, after ARG substitution */
+  readonly reference: string;
+  /** Registry host (e.g., 'ghcr.io'); 'docker.io' for Docker Hub images */
+  readonly registry: string;
+  /** Repository path without registry, tag or digest */
+  readonly repository: string;
+  readonly tag?: string;
+  readonly digest?: string;
+}
+
+// ============================================================================
+// Kustomize Node Types (TASK-KUSTOMIZE-001)
+// ============================================================================
+
+/**
+ * Kustomization (or Component) directory; its rendered resources join the
+ * graph as regular K8s nodes
+ */
+export interface KustomizationNode extends BaseNode {
+  readonly type: 'kustomization';
+  /** Directory holding the kustomization file */
+  readonly directory: string;
+  /** Whether the file declares `kind: Component` */
+  readonly isComponent: boolean;
+  /** Namespace set on every rendered resource */
+  readonly namespace?: string;
+  readonly namePrefix?: string;
+  readonly nameSuffix?: string;
+}
+
+// ============================================================================
+// Edge Types - 34 Variant Discriminated Union
 // ============================================================================
 
 /**
@@ -492,7 +594,19 @@ export type EdgeType =
   | 'tg_includes'          // Include block: child config -> parent config
   | 'tg_depends_on'        // Dependency block: config -> dependency config
   | 'tg_passes_input'      // Input flow: parent config -> child config
-  | 'tg_sources';          // TF source: TG config -> TF module
+  | 'tg_sources'           // TF source: TG config -> TF module
+  // Container Image Dependencies (TASK-DOCKER-001)
+  | 'base_image'           // Dockerfile stage -> image or stage it is built FROM
+  | 'copies_from'          // Dockerfile stage -> stage or image of COPY --from
+  | 'runs_image'           // Workload or chart value -> Dockerfile stage building its image
+  // Kustomize Dependencies (TASK-KUSTOMIZE-001)
+  | 'kustomize_base'       // Overlay kustomization -> base or component it builds on
+  | 'kustomize_renders'    // Kustomization -> K8s resource it outputs
+  | 'kustomize_patches'    // Kustomization -> rendered K8s resource one of its patches changes
+  // Helm Dependencies (TASK-HELM-RENDER-001)
+  | 'helm_renders'         // Helm release -> K8s resource its chart renders
+  // Terraform Instance Dependencies (TASK-TFINST-001)
+  | 'expands_to';          // count/for_each block -> one of its instances
 
 /**
  * Graph edge representing a relationship between nodes
@@ -750,6 +864,32 @@ export function isHelmNode(node: NodeType): node is
   return node.type.startsWith('helm_');
 }
 
+/**
+ * Type guard for CloudFormation nodes
+ */
+export function isCfnNode(node: NodeType): node is
+  | CfnResourceNode
+  | CfnParameterNode
+  | CfnOutputNode {
+  return node.type.startsWith('cfn_');
+}
+
+/**
+ * Type guard for Dockerfile nodes
+ */
+export function isDockerNode(node: NodeType): node is
+  | DockerStageNode
+  | DockerImageNode {
+  return node.type.startsWith('docker_');
+}
+
+/**
+ * Type guard for kustomization nodes
+ */
+export function isKustomizationNode(node: NodeType): node is KustomizationNode {
+  return node.type === 'kustomization';
+}
+
 /**
  * Type guard for Terragrunt config nodes
  */
@@ -865,4 +1005,10 @@ export type NodeTypeName =
   | 'helm_value'
   | 'tg_config'
   | 'tg_include'
-  | 'tg_dependency';
+  | 'tg_dependency'
+  | 'cfn_resource'
+  | 'cfn_parameter'
+  | 'cfn_output'
+  | 'docker_stage'
+  | 'docker_image'
+  | 'kustomization';
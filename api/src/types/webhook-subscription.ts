@@ -0,0 +1,181 @@
+/**
+ * Webhook Subscription Type Definitions
+ * @module types/webhook-subscription
+ *
+ * TypeBox schemas for outbound webhook subscriptions and their delivery log.
+ *
+ * TASK-WEBHOOK-OUT: Outbound event subscriptions
+ */
+
+import { Type, Static } from '@sinclair/typebox';
+import { RollupEventType } from './rollup-events.js';
+import { PaginationInfoSchema } from './api.js';
+
+// ============================================================================
+// Event Types
+// ============================================================================
+
+/**
+ * Event types tenants can subscribe to.
+ * Progress events are too frequent to deliver over HTTP and are excluded.
+ */
+export const WEBHOOK_SUBSCRIPTION_EVENT_TYPES = [
+  ...Object.values(RollupEventType).filter((type) => type !== RollupEventType.EXECUTION_PROGRESS),
+  'scan.started',
+  'scan.completed',
+  'scan.failed',
+  'scan.cancelled',
+] as const;
+
+export type WebhookSubscriptionEventType = (typeof WEBHOOK_SUBSCRIPTION_EVENT_TYPES)[number];
+
+/**
+ * Check whether an event type can be delivered to subscriptions
+ */
+export function isWebhookSubscriptionEventType(type: string): type is WebhookSubscriptionEventType {
+  return (WEBHOOK_SUBSCRIPTION_EVENT_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * Subscribable event type schema
+ */
+export const WebhookSubscriptionEventTypeSchema = Type.Union(
+  WEBHOOK_SUBSCRIPTION_EVENT_TYPES.map((type) => Type.Literal(type))
+);
+
+// ============================================================================
+// Subscription Schemas
+// ============================================================================
+
+/**
+ * Webhook subscription schema (for responses - excludes the signing secret)
+ */
+export const WebhookSubscriptionSchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  name: Type.String(),
+  url: Type.String({ format: 'uri' }),
+  eventTypes: Type.Array(Type.String()),
+  rollupIds: Type.Array(Type.String(), { description: 'Rollups whose events are delivered; empty for all' }),
+  repositoryIds: Type.Array(Type.String(), { description: 'Repositories whose scan events are delivered; empty for all' }),
+  isActive: Type.Boolean(),
+  createdBy: Type.String(),
+  createdAt: Type.String({ format: 'date-time' }),
+  updatedAt: Type.String({ format: 'date-time' }),
+});
+
+export type WebhookSubscription = Static<typeof WebhookSubscriptionSchema>;
+
+/**
+ * Create webhook subscription request schema
+ */
+export const CreateWebhookSubscriptionRequestSchema = Type.Object({
+  name: Type.String({ minLength: 1, maxLength: 255 }),
+  url: Type.String({ format: 'uri', maxLength: 2048 }),
+  eventTypes: Type.Array(WebhookSubscriptionEventTypeSchema, { minItems: 1, uniqueItems: true }),
+  rollupIds: Type.Optional(Type.Array(Type.String({ minLength: 1 }), { maxItems: 100, uniqueItems: true })),
+  repositoryIds: Type.Optional(Type.Array(Type.String({ format: 'uuid' }), { maxItems: 100, uniqueItems: true })),
+  secret: Type.Optional(Type.String({
+    minLength: 16,
+    maxLength: 256,
+    description: 'Signing secret; generated when omitted',
+  })),
+  isActive: Type.Optional(Type.Boolean({ default: true })),
+});
+
+export type CreateWebhookSubscriptionRequest = Static<typeof CreateWebhookSubscriptionRequestSchema>;
+
+/**
+ * Create webhook subscription response schema (includes the secret, shown only once)
+ */
+export const CreateWebhookSubscriptionResponseSchema = Type.Intersect([
+  WebhookSubscriptionSchema,
+  Type.Object({
+    secret: Type.String({ description: 'Signing secret - shown only once' }),
+  }),
+]);
+
+export type CreateWebhookSubscriptionResponse = Static<typeof CreateWebhookSubscriptionResponseSchema>;
+
+/**
+ * Update webhook subscription request schema
+ */
+export const UpdateWebhookSubscriptionRequestSchema = Type.Object({
+  name: Type.Optional(Type.String({ minLength: 1, maxLength: 255 })),
+  url: Type.Optional(Type.String({ format: 'uri', maxLength: 2048 })),
+  eventTypes: Type.Optional(Type.Array(WebhookSubscriptionEventTypeSchema, { minItems: 1, uniqueItems: true })),
+  rollupIds: Type.Optional(Type.Array(Type.String({ minLength: 1 }), { maxItems: 100, uniqueItems: true })),
+  repositoryIds: Type.Optional(Type.Array(Type.String({ format: 'uuid' }), { maxItems: 100, uniqueItems: true })),
+  isActive: Type.Optional(Type.Boolean()),
+}, { minProperties: 1 });
+
+export type UpdateWebhookSubscriptionRequest = Static<typeof UpdateWebhookSubscriptionRequestSchema>;
+
+/**
+ * List webhook subscriptions response schema
+ */
+export const ListWebhookSubscriptionsResponseSchema = Type.Object({
+  subscriptions: Type.Array(WebhookSubscriptionSchema),
+  total: Type.Number(),
+});
+
+export type ListWebhookSubscriptionsResponse = Static<typeof ListWebhookSubscriptionsResponseSchema>;
+
+// ============================================================================
+// Delivery Schemas
+// ============================================================================
+
+/**
+ * Webhook delivery status schema
+ */
+export const WebhookDeliveryStatusSchema = Type.Union([
+  Type.Literal('pending'),
+  Type.Literal('succeeded'),
+  Type.Literal('failed'),
+]);
+
+export type WebhookDeliveryStatus = Static<typeof WebhookDeliveryStatusSchema>;
+
+/**
+ * Webhook delivery log entry schema
+ */
+export const WebhookDeliverySchema = Type.Object({
+  id: Type.String({ format: 'uuid' }),
+  subscriptionId: Type.String({ format: 'uuid' }),
+  eventId: Type.String({ format: 'uuid' }),
+  eventType: Type.String(),
+  payload: Type.Record(Type.String(), Type.Unknown()),
+  status: WebhookDeliveryStatusSchema,
+  attemptCount: Type.Number({ minimum: 0 }),
+  responseStatus: Type.Optional(Type.Number()),
+  responseBody: Type.Optional(Type.String()),
+  errorMessage: Type.Optional(Type.String()),
+  durationMs: Type.Optional(Type.Number()),
+  redeliveryOf: Type.Optional(Type.String({ format: 'uuid' })),
+  lastAttemptAt: Type.Optional(Type.String({ format: 'date-time' })),
+  nextAttemptAt: Type.Optional(Type.String({ format: 'date-time' })),
+  deliveredAt: Type.Optional(Type.String({ format: 'date-time' })),
+  createdAt: Type.String({ format: 'date-time' }),
+});
+
+export type WebhookDelivery = Static<typeof WebhookDeliverySchema>;
+
+/**
+ * List webhook deliveries query schema
+ */
+export const ListWebhookDeliveriesQuerySchema = Type.Object({
+  status: Type.Optional(WebhookDeliveryStatusSchema),
+  page: Type.Optional(Type.Number({ minimum: 1, default: 1 })),
+  pageSize: Type.Optional(Type.Number({ minimum: 1, maximum: 100, default: 20 })),
+});
+
+export type ListWebhookDeliveriesQuery = Static<typeof ListWebhookDeliveriesQuerySchema>;
+
+/**
+ * List webhook deliveries response schema
+ */
+export const ListWebhookDeliveriesResponseSchema = Type.Object({
+  data: Type.Array(WebhookDeliverySchema),
+  pagination: PaginationInfoSchema,
+});
+
+export type ListWebhookDeliveriesResponse = Static<typeof ListWebhookDeliveriesResponseSchema>;
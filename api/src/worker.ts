@@ -0,0 +1,272 @@
+/**
+ * Worker Entry Point
+ * @module worker
+ *
+ * Background process executing scans and pull request impact checks
+ * queued by Git provider webhooks, rollup queue jobs and cron schedules,
+ * and sending outbound webhook deliveries.
+ * Scan and execution progress is recorded in progress streams served to
+ * API clients as server-sent events.
+ */
+
+import pino from 'pino';
+import { Queue, type ConnectionOptions } from 'bullmq';
+import { closePool } from './db/connection.js';
+import { getClient as getRedisClient, closeClient as closeRedisClient } from './cache/redis.js';
+import { createRollupRepository } from './repositories/rollup-repository.js';
+import { createScanRepository } from './repositories/scan-repository.js';
+import { createMergedNodeRepository } from './repositories/merged-node-repository.js';
+import { createGraphService } from './services/graph-service.js';
+import { createRollupModule } from './services/rollup/factory.js';
+import { createRollupJobProcessor } from './services/rollup/rollup-job-processor.js';
+import {
+  createErrorRecoveryService,
+  RollupErrorRecoveryService,
+} from './services/rollup/error-recovery.js';
+import { createRollupWorker, RollupWorker } from './queues/rollup-worker.js';
+import { createWebhookSubscriptionRepository } from './repositories/webhook-subscription-repository.js';
+import {
+  createWebhookDispatcher,
+  WebhookScanEventEmitter,
+} from './services/webhooks/webhook-dispatcher.js';
+import { createWebhookDeliveryService } from './services/webhooks/webhook-delivery-service.js';
+import { createWebhookWorker, WebhookWorker } from './queues/webhook-worker.js';
+import { WEBHOOK_QUEUES, type WebhookDeliveryJobPayload } from './queues/webhook-jobs.js';
+import {
+  createRedisProgressStreamStore,
+  RedisProgressStreamStore,
+} from './services/progress-stream/progress-stream-store.js';
+import { createProgressStreamService } from './services/progress-stream/progress-stream-service.js';
+import { ProgressStreamScanEventEmitter } from './services/progress-stream/progress-stream-emitters.js';
+import { createParserOrchestrator } from './services/parser-orchestrator.js';
+import { createDetectionOrchestrator } from './services/detection-orchestrator.js';
+import { createScoringService } from './services/scoring-service.js';
+import { createScanService } from './services/scan-service.js';
+import { createScanPersistenceAdapter } from './repositories/unit-of-work.js';
+import { LocalFileDiscovery } from './cli/analyze.js';
+import {
+  checkoutRepository,
+  findRepositoryCloneSource,
+  RepositoryRefCheckout,
+} from './services/repository-clone.js';
+import { createScanJobProcessor } from './services/scan-job-processor.js';
+import { createPrImpactGate } from './services/pr-impact-gate.js';
+import { createPrImpactJobProcessor } from './services/pr-impact-job-processor.js';
+import { GitHubAdapter } from './adapters/git/github.js';
+import { createGitLabAdapter } from './adapters/git/gitlab.js';
+import { createBitbucketAdapter } from './adapters/git/bitbucket.js';
+import type { GitAdapter } from './adapters/git/interface.js';
+import { createScanWorker, ScanWorker } from './queues/scan-worker.js';
+import type { GitProvider, RepositoryId, TenantId } from './types/entities.js';
+
+const logger = pino({ name: 'worker' });
+
+/**
+ * Worker configuration from environment
+ */
+interface WorkerConfig {
+  connection: ConnectionOptions;
+  concurrency: number;
+  scheduleSyncIntervalMs: number;
+  webhookConcurrency: number;
+  scanConcurrency: number;
+  /** Tokens for checking out repositories and reporting impact, per provider */
+  gitTokens: Partial<Record<GitProvider, string>>;
+  /** Self-managed GitLab instance URL */
+  gitlabUrl: string | undefined;
+}
+
+/**
+ * Get worker configuration from environment variables
+ */
+function getWorkerConfig(): WorkerConfig {
+  return {
+    connection: {
+      host: process.env.REDIS_HOST || 'localhost',
+      port: parseInt(process.env.REDIS_PORT || '6379', 10),
+      ...(process.env.REDIS_PASSWORD ? { password: process.env.REDIS_PASSWORD } : {}),
+      db: parseInt(process.env.REDIS_DB || '0', 10),
+      // Required by BullMQ for blocking worker connections
+      maxRetriesPerRequest: null,
+    },
+    concurrency: parseInt(process.env.ROLLUP_WORKER_CONCURRENCY || '2', 10),
+    scheduleSyncIntervalMs: parseInt(process.env.ROLLUP_SCHEDULE_SYNC_INTERVAL_MS || '60000', 10),
+    webhookConcurrency: parseInt(process.env.WEBHOOK_WORKER_CONCURRENCY || '5', 10),
+    scanConcurrency: parseInt(process.env.SCAN_WORKER_CONCURRENCY || '1', 10),
+    gitTokens: {
+      ...(process.env.GITHUB_ACCESS_TOKEN ? { github: process.env.GITHUB_ACCESS_TOKEN } : {}),
+      ...(process.env.GITLAB_ACCESS_TOKEN ? { gitlab: process.env.GITLAB_ACCESS_TOKEN } : {}),
+      ...(process.env.BITBUCKET_ACCESS_TOKEN ? { bitbucket: process.env.BITBUCKET_ACCESS_TOKEN } : {}),
+    },
+    gitlabUrl: process.env.GITLAB_URL,
+  };
+}
+
+/**
+ * Create a Git adapter for a provider with the configured token
+ */
+function createGitAdapter(config: WorkerConfig, provider: GitProvider): GitAdapter | null {
+  const token = config.gitTokens[provider];
+  if (token === undefined) {
+    return null;
+  }
+
+  switch (provider) {
+    case 'github':
+      return GitHubAdapter.create(token);
+    case 'gitlab':
+      return createGitLabAdapter(token, config.gitlabUrl);
+    case 'bitbucket':
+      return createBitbucketAdapter(token);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Graceful shutdown handler
+ */
+async function gracefulShutdown(
+  signal: string,
+  worker: RollupWorker,
+  errorRecovery: RollupErrorRecoveryService,
+  scanWorker: ScanWorker,
+  webhookWorker: WebhookWorker,
+  webhookQueue: Queue<WebhookDeliveryJobPayload>,
+  progressStreamStore: RedisProgressStreamStore
+): Promise<void> {
+  logger.info({ signal }, 'Received shutdown signal');
+
+  try {
+    // Let running jobs finish
+    await worker.close();
+    errorRecovery.shutdown();
+    logger.info('Rollup worker closed');
+
+    await scanWorker.close();
+
+    await webhookWorker.close();
+    await webhookQueue.close();
+    logger.info('Webhook worker closed');
+
+    await progressStreamStore.close();
+    await closeRedisClient();
+    await closePool();
+    logger.info('Connections closed');
+
+    logger.info('Graceful shutdown complete');
+    process.exit(0);
+  } catch (error) {
+    logger.error({ error }, 'Error during graceful shutdown');
+    process.exit(1);
+  }
+}
+
+/**
+ * Start the worker
+ */
+async function start(): Promise<void> {
+  const config = getWorkerConfig();
+
+  try {
+    const rollupRepository = createRollupRepository();
+    const redis = getRedisClient();
+
+    // Deliver scan and rollup events emitted by this process to webhook subscriptions
+    const webhookRepository = createWebhookSubscriptionRepository();
+    const webhookQueue = new Queue<WebhookDeliveryJobPayload>(WEBHOOK_QUEUES.WEBHOOK_DELIVER, {
+      connection: config.connection,
+    });
+    const webhookDispatcher = createWebhookDispatcher(webhookRepository, webhookQueue);
+    const webhookWorker = createWebhookWorker(
+      createWebhookDeliveryService(webhookRepository),
+      { connection: config.connection, concurrency: config.webhookConcurrency }
+    );
+
+    const progressStreamStore = createRedisProgressStreamStore(redis);
+    const progressStream = createProgressStreamService(progressStreamStore);
+
+    // Run scans and pull request checks queued by webhooks on fresh checkouts
+    const scanService = createScanService(
+      createParserOrchestrator(),
+      createDetectionOrchestrator(),
+      createGraphService(),
+      createScoringService(),
+      new LocalFileDiscovery(),
+      createScanPersistenceAdapter(),
+      new ProgressStreamScanEventEmitter(progressStream, new WebhookScanEventEmitter(webhookDispatcher))
+    );
+    const findCloneSource = (tenantId: TenantId, repositoryId: RepositoryId) =>
+      findRepositoryCloneSource(tenantId, repositoryId, config.gitTokens);
+    const scanWorker = createScanWorker(
+      {
+        scan: createScanJobProcessor({
+          scanService,
+          scanSource: createScanRepository(),
+          findCloneSource,
+          checkout: checkoutRepository,
+        }),
+        prImpact: createPrImpactJobProcessor({
+          createGate: (tenantId) =>
+            createPrImpactGate(scanService, new RepositoryRefCheckout(tenantId, config.gitTokens)),
+          findCloneSource,
+          createGitAdapter: (provider) => createGitAdapter(config, provider),
+        }),
+      },
+      { connection: config.connection, concurrency: config.scanConcurrency }
+    );
+
+    const rollupModule = createRollupModule({
+      rollupRepository,
+      graphService: createGraphService(),
+      // Persist merged graphs so every API instance can analyze blast radius
+      mergedNodeRepository: createMergedNodeRepository(),
+      eventPublisher: {
+        publish: async (channel, message) => {
+          await redis.publish(channel, message);
+        },
+      },
+      webhookDispatcher,
+      progressStream,
+    });
+
+    // Executions whose final attempt failed are kept for inspection and manual retry
+    const errorRecovery = createErrorRecoveryService(rollupRepository);
+    const processor = createRollupJobProcessor({
+      rollupRepository,
+      executor: rollupModule.executor,
+      eventEmitter: rollupModule.eventEmitter,
+      scanSource: createScanRepository(),
+      errorRecovery,
+    });
+    const worker = createRollupWorker(processor, rollupRepository, {
+      connection: config.connection,
+      concurrency: config.concurrency,
+      scheduleSyncIntervalMs: config.scheduleSyncIntervalMs,
+    });
+
+    // Register shutdown handlers
+    const shutdownHandler = (signal: string) =>
+      gracefulShutdown(signal, worker, errorRecovery, scanWorker, webhookWorker, webhookQueue, progressStreamStore);
+    process.on('SIGTERM', () => shutdownHandler('SIGTERM'));
+    process.on('SIGINT', () => shutdownHandler('SIGINT'));
+
+    // Handle unhandled rejections
+    process.on('unhandledRejection', (reason, promise) => {
+      logger.fatal({ reason, promise }, 'Unhandled rejection');
+      shutdownHandler('unhandledRejection');
+    });
+
+    await worker.start();
+    scanWorker.start();
+    webhookWorker.start();
+
+    logger.info({ concurrency: config.concurrency }, 'Worker started');
+  } catch (error) {
+    logger.fatal({ error }, 'Failed to start worker');
+    process.exit(1);
+  }
+}
+
+// Start worker
+start();
@@ -0,0 +1,313 @@
+/**
+ * CLI Tests
+ * @module tests/cli/cli.test
+ *
+ * Tests for argument parsing, output formats, API commands against a fake
+ * fetch, exit codes and offline analysis.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { main, type CliIO } from '../../src/cli/index';
+import { parseCommandLine, CliUsageError } from '../../src/cli/args';
+import { renderTable, formatOutput } from '../../src/cli/output';
+import { EXIT_CODES } from '../../src/cli/commands';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const SCAN_ID = '11111111-1111-4111-8111-111111111111';
+const REPO_ID = '22222222-2222-4222-8222-222222222222';
+
+type Route = (url: URL, init: RequestInit) => { status: number; body?: unknown };
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(body === undefined ? null : JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function createIO(route: Route): CliIO & { out: string[]; err: string[]; fetch: ReturnType<typeof vi.fn> } {
+  const out: string[] = [];
+  const err: string[] = [];
+  const fetchFn = vi.fn(async (input: string | URL, init: RequestInit = {}) => {
+    const { status, body } = route(new URL(String(input)), init);
+    return jsonResponse(status, body);
+  });
+
+  return {
+    out,
+    err,
+    stdout: (text) => out.push(text),
+    stderr: (text) => err.push(text),
+    env: { DMP_API_URL: 'http://api.test' },
+    fetch: fetchFn as unknown as ReturnType<typeof vi.fn>,
+  };
+}
+
+function createNode(id: string, name: string) {
+  return {
+    id,
+    type: 'terraform_resource',
+    name,
+    location: { file: 'main.tf', lineStart: 1, lineEnd: 5 },
+    metadata: {},
+  };
+}
+
+// ============================================================================
+// Argument Parsing
+// ============================================================================
+
+describe('parseCommandLine', () => {
+  it('should parse the command, positionals and options in any order', () => {
+    const parsed = parseCommandLine([
+      '--format', 'json', 'deps', 'node-1', '-s', SCAN_ID, '--depth', '3',
+    ]);
+
+    expect(parsed.command).toBe('deps');
+    expect(parsed.positionals).toEqual(['node-1']);
+    expect(parsed.options.format).toBe('json');
+    expect(parsed.options.scans).toEqual([SCAN_ID]);
+    expect(parsed.options.depth).toBe(3);
+  });
+
+  it('should default to table format', () => {
+    expect(parseCommandLine(['cycles']).options.format).toBe('table');
+  });
+
+  it('should reject unknown options', () => {
+    expect(() => parseCommandLine(['scan', '--bogus'])).toThrow(CliUsageError);
+  });
+
+  it('should reject invalid formats, risk levels and integers', () => {
+    expect(() => parseCommandLine(['cycles', '-f', 'xml'])).toThrow(CliUsageError);
+    expect(() => parseCommandLine(['impact', '--fail-on', 'severe'])).toThrow(CliUsageError);
+    expect(() => parseCommandLine(['deps', '--depth', '0'])).toThrow(CliUsageError);
+  });
+
+  it('should split --types into a list', () => {
+    const parsed = parseCommandLine(['analyze', '.', '--types', 'terraform, helm']);
+    expect(parsed.options.types).toEqual(['terraform', 'helm']);
+  });
+});
+
+// ============================================================================
+// Output
+// ============================================================================
+
+describe('output formatting', () => {
+  const rows = [{ id: 'a', count: 1 }, { id: 'bbb', count: undefined }];
+  const columns = [
+    { header: 'ID', value: (r: typeof rows[number]) => r.id },
+    { header: 'COUNT', value: (r: typeof rows[number]) => r.count },
+  ];
+
+  it('should align table columns and render missing values', () => {
+    expect(renderTable(rows, columns)).toBe(['ID   COUNT', 'a    1', 'bbb  -'].join('\n'));
+  });
+
+  it('should render an empty table placeholder', () => {
+    expect(renderTable([], columns)).toBe('(no results)');
+  });
+
+  it('should print one record per line in NDJSON format', () => {
+    const output = { data: { rows }, records: rows, table: '', exitCode: 0 };
+
+    const lines = formatOutput(output, 'ndjson').split('\n');
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]!)).toEqual({ id: 'a', count: 1 });
+  });
+
+  it('should print the full data in JSON format', () => {
+    const output = { data: { rows }, records: rows, table: '', exitCode: 0 };
+
+    expect(JSON.parse(formatOutput(output, 'json'))).toEqual({ rows: [{ id: 'a', count: 1 }, { id: 'bbb' }] });
+  });
+});
+
+// ============================================================================
+// Commands
+// ============================================================================
+
+describe('main', () => {
+  it('should print usage and exit with the usage code when no command is given', async () => {
+    const io = createIO(() => ({ status: 500 }));
+
+    expect(await main([], io)).toBe(EXIT_CODES.USAGE);
+    expect(io.out[0]).toContain('Usage: dmp');
+    expect(await main(['--help'], io)).toBe(EXIT_CODES.SUCCESS);
+  });
+
+  it('should exit with the usage code for unknown commands and subcommands', async () => {
+    const io = createIO(() => ({ status: 500 }));
+
+    expect(await main(['frobnicate'], io)).toBe(EXIT_CODES.USAGE);
+    expect(await main(['graph', 'import'], io)).toBe(EXIT_CODES.USAGE);
+    expect(io.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should require an API URL for API commands', async () => {
+    const io = { ...createIO(() => ({ status: 500 })), env: {} };
+
+    expect(await main(['cycles', '-s', SCAN_ID], io)).toBe(EXIT_CODES.USAGE);
+    expect(io.err[0]).toContain('DMP_API_URL');
+  });
+
+  it('should list dependencies as NDJSON', async () => {
+    const io = createIO((url) => {
+      expect(url.pathname).toBe(`/api/v1/scans/${SCAN_ID}/nodes/node-1/dependencies`);
+      expect(url.searchParams.get('maxDepth')).toBe('2');
+      return {
+        status: 200,
+        body: {
+          nodes: [createNode('node-2', 'vpc'), createNode('node-3', 'subnet')],
+          edges: [],
+          paths: [],
+          stats: { nodesVisited: 2, edgesTraversed: 2, maxDepthReached: 2 },
+        },
+      };
+    });
+
+    const code = await main(['deps', 'node-1', '-s', SCAN_ID, '-d', '2', '-f', 'ndjson'], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    const lines = io.out[0]!.split('\n').map(line => JSON.parse(line));
+    expect(lines.map(n => n.id)).toEqual(['node-2', 'node-3']);
+  });
+
+  it('should fail the impact gate at or above the --fail-on risk level', async () => {
+    const io = createIO((url, init) => {
+      expect(url.pathname).toBe(`/api/v1/scans/${SCAN_ID}/impact`);
+      expect(JSON.parse(String(init.body)).nodeIds).toEqual(['node-1']);
+      return {
+        status: 200,
+        body: {
+          sourceNodes: ['node-1'],
+          directImpact: [createNode('node-2', 'app')],
+          transitiveImpact: [],
+          summary: { totalImpacted: 1, impactByType: {}, impactByDepth: {}, riskLevel: 'high' },
+        },
+      };
+    });
+
+    expect(await main(['impact', 'node-1', '-s', SCAN_ID, '--fail-on', 'high'], io)).toBe(EXIT_CODES.FAILURE);
+    expect(await main(['impact', 'node-1', '-s', SCAN_ID, '--fail-on', 'critical'], io)).toBe(EXIT_CODES.SUCCESS);
+    expect(io.out[0]).toContain('1 impacted, risk high');
+  });
+
+  it('should fail on cycles only with --fail-on-cycles', async () => {
+    const io = createIO(() => ({
+      status: 200,
+      body: {
+        hasCycles: true,
+        cycles: [{ nodeIds: ['a', 'b', 'a'], edgeIds: ['e1', 'e2'], length: 2 }],
+        stats: { nodesInCycles: 2, cyclesFound: 1 },
+      },
+    }));
+
+    expect(await main(['cycles', '-s', SCAN_ID], io)).toBe(EXIT_CODES.SUCCESS);
+    expect(await main(['cycles', '-s', SCAN_ID, '--fail-on-cycles'], io)).toBe(EXIT_CODES.FAILURE);
+    expect(io.out[0]).toContain('a -> b -> a');
+  });
+
+  it('should resolve owner/name and wait for the scan to complete', async () => {
+    let polls = 0;
+    const scan = {
+      id: SCAN_ID,
+      repositoryId: REPO_ID,
+      status: 'pending',
+      ref: 'main',
+      commitSha: 'abc123',
+      config: {},
+      createdAt: '2026-01-01T00:00:00Z',
+      updatedAt: '2026-01-01T00:00:00Z',
+    };
+    const io = createIO((url, init) => {
+      if (url.pathname === '/api/v1/repositories') {
+        expect(url.searchParams.get('owner')).toBe('acme');
+        return {
+          status: 200,
+          body: {
+            data: [{ id: REPO_ID, fullName: 'acme/infra' }],
+            pagination: { page: 1, pageSize: 100, total: 1, totalPages: 1, hasNext: false, hasPrevious: false },
+          },
+        };
+      }
+      if (url.pathname === '/api/v1/scans' && init.method === 'POST') {
+        expect(JSON.parse(String(init.body))).toEqual({ repositoryId: REPO_ID, ref: 'main' });
+        return { status: 202, body: scan };
+      }
+      polls++;
+      return { status: 200, body: { ...scan, status: 'completed' } };
+    });
+
+    const code = await main(['scan', 'acme/infra', '--ref', 'main', '--wait', '-f', 'json'], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    expect(polls).toBe(1);
+    expect(JSON.parse(io.out[0]!).status).toBe('completed');
+  });
+
+  it('should exit with the API error code on error responses', async () => {
+    const io = createIO(() => ({
+      status: 404,
+      body: { statusCode: 404, error: 'Not Found', message: 'Scan not found', code: 'SCAN_NOT_FOUND' },
+    }));
+
+    expect(await main(['graph', 'export', '-s', SCAN_ID], io)).toBe(EXIT_CODES.API_ERROR);
+    expect(io.err[0]).toContain('Scan not found');
+  });
+});
+
+// ============================================================================
+// Offline Analysis
+// ============================================================================
+
+describe('analyze', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'dmp-cli-'));
+    await writeFile(join(dir, 'main.tf'), [
+      'resource "aws_vpc" "main" {',
+      '  cidr_block = "10.0.0.0/16"',
+      '}',
+      '',
+      'resource "aws_subnet" "a" {',
+      '  vpc_id     = aws_vpc.main.id',
+      '  cidr_block = "10.0.1.0/24"',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should parse and detect a local directory without the API', async () => {
+    const io = { ...createIO(() => ({ status: 500 })), env: {} };
+
+    const code = await main(['analyze', dir, '-f', 'json'], io);
+
+    expect(code).toBe(EXIT_CODES.SUCCESS);
+    const result = JSON.parse(io.out[0]!);
+    expect(result.files).toHaveLength(1);
+    expect(result.nodes.map((n: { name: string }) => n.name)).toEqual(
+      expect.arrayContaining(['main', 'a'])
+    );
+    expect(io.fetch).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown --types', async () => {
+    const io = createIO(() => ({ status: 500 }));
+
+    expect(await main(['analyze', dir, '--types', 'pulumi'], io)).toBe(EXIT_CODES.USAGE);
+  });
+});
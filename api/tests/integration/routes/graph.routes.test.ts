@@ -0,0 +1,512 @@
+/**
+ * Graph Routes Integration Tests
+ * @module tests/integration/routes/graph.routes
+ *
+ * Integration tests for the graph query endpoints backed by the node/edge
+ * repositories, the graph querier and the in-memory graph service.
+ * The graph querier mock traverses the fixture edges the way its recursive
+ * CTEs do.
+ *
+ * Endpoints tested:
+ * - GET /api/v1/scans/:scanId/graph - Get full dependency graph
+ * - GET /api/v1/scans/:scanId/nodes - List nodes (filtered)
+ * - GET /api/v1/scans/:scanId/nodes/:nodeId - Get node details
+ * - GET /api/v1/scans/:scanId/nodes/:nodeId/dependencies - Get downstream
+ * - GET /api/v1/scans/:scanId/nodes/:nodeId/dependents - Get upstream
+ * - GET /api/v1/scans/:scanId/edges - List edges
+ * - GET /api/v1/scans/:scanId/cycles - Detect cycles
+ * - POST /api/v1/scans/:scanId/impact - Analyze impact
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createGraphService } from '../../../src/services/graph-service.js';
+import { InvalidCursorError } from '../../../src/repositories/base-repository.js';
+import type { NodeEntity, EdgeEntity, ScanEntity } from '../../../src/types/entities.js';
+
+// ============================================================================
+// Mock Setup
+// ============================================================================
+
+const TENANT_ID = '11111111-1111-4111-8111-111111111111';
+const OTHER_TENANT_ID = '22222222-2222-4222-8222-222222222222';
+const SCAN_ID = '33333333-3333-4333-8333-333333333333';
+const VPC_ID = 'aaaaaaaa-0000-4000-8000-000000000001';
+const SUBNET_ID = 'aaaaaaaa-0000-4000-8000-000000000002';
+const INSTANCE_ID = 'aaaaaaaa-0000-4000-8000-000000000003';
+
+vi.mock('../../../src/middleware/auth.js', () => ({
+  requireAuth: vi.fn((req: unknown, reply: unknown, done: () => void) => done()),
+  getAuthContext: vi.fn(() => ({
+    userId: 'test-user-id',
+    tenantId: '11111111-1111-4111-8111-111111111111',
+    email: 'test@example.com',
+  })),
+}));
+
+const mockScanRepository = {
+  findById: vi.fn(),
+};
+
+const mockNodeRepository = {
+  findById: vi.fn(),
+  findByScan: vi.fn(),
+  findByScanCursor: vi.fn(),
+};
+
+const mockEdgeRepository = {
+  findByScan: vi.fn(),
+  findByScanCursor: vi.fn(),
+  findBySource: vi.fn(),
+  findByTarget: vi.fn(),
+  findBetweenNodes: vi.fn(),
+};
+
+const mockGraphQuerier = {
+  getDownstreamDependencies: vi.fn(),
+  getUpstreamDependents: vi.fn(),
+};
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createNodeEntity(id: string, name: string, line: number): NodeEntity {
+  return {
+    id,
+    scanId: SCAN_ID,
+    tenantId: TENANT_ID,
+    originalId: `aws_${name}.main`,
+    nodeType: 'terraform_resource',
+    name,
+    filePath: 'main.tf',
+    lineStart: line,
+    lineEnd: line + 5,
+    metadata: { resourceType: `aws_${name}` },
+    createdAt: new Date(),
+  } as NodeEntity;
+}
+
+function createEdgeEntity(id: string, source: string, target: string, confidence = 100): EdgeEntity {
+  return {
+    id,
+    scanId: SCAN_ID,
+    tenantId: TENANT_ID,
+    originalId: id,
+    sourceNodeId: source,
+    targetNodeId: target,
+    edgeType: 'references',
+    isImplicit: false,
+    confidence,
+    metadata: {},
+    createdAt: new Date(),
+  } as EdgeEntity;
+}
+
+const SCAN = {
+  id: SCAN_ID,
+  tenantId: TENANT_ID,
+  repositoryId: '44444444-4444-4444-8444-444444444444',
+  ref: 'main',
+  commitSha: 'abc123',
+} as unknown as ScanEntity;
+
+// subnet -> vpc, instance -> subnet
+const NODES = [
+  createNodeEntity(VPC_ID, 'vpc', 1),
+  createNodeEntity(SUBNET_ID, 'subnet', 10),
+  createNodeEntity(INSTANCE_ID, 'instance', 20),
+];
+
+const EDGES = [
+  createEdgeEntity('bbbbbbbb-0000-4000-8000-000000000001', SUBNET_ID, VPC_ID),
+  createEdgeEntity('bbbbbbbb-0000-4000-8000-000000000002', INSTANCE_ID, SUBNET_ID, 80),
+];
+
+/**
+ * Nodes reachable from a node within maxDepth, like the querier's CTEs
+ */
+function traverse(direction: 'downstream' | 'upstream') {
+  return async (
+    _scanId: string,
+    _tenantId: string,
+    nodeId: string,
+    maxDepth = 10,
+    edgeTypes?: string[]
+  ): Promise<NodeEntity[]> => {
+    const reached = new Set<string>();
+    let frontier = [nodeId];
+    for (let depth = 0; depth < maxDepth && frontier.length > 0; depth++) {
+      frontier = EDGES
+        .filter(e => edgeTypes === undefined || edgeTypes.includes(e.edgeType))
+        .filter(e => frontier.includes(direction === 'downstream' ? e.sourceNodeId : e.targetNodeId))
+        .map(e => (direction === 'downstream' ? e.targetNodeId : e.sourceNodeId))
+        .filter(id => id !== nodeId && !reached.has(id));
+      frontier.forEach(id => reached.add(id));
+    }
+    return NODES.filter(n => reached.has(n.id));
+  };
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Graph Routes Integration', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    const fastify = await import('fastify');
+    app = fastify.fastify({ logger: false });
+
+    // Stand-in for the tenant context plugin
+    app.decorateRequest('tenant', undefined);
+    app.addHook('onRequest', async (request) => {
+      const tenantId = request.headers['x-tenant-id'];
+      if (typeof tenantId === 'string') {
+        request.tenant = { tenantId };
+      }
+    });
+
+    app.decorate('scanRepository', mockScanRepository);
+    app.decorate('nodeRepository', mockNodeRepository);
+    app.decorate('edgeRepository', mockEdgeRepository);
+    app.decorate('graphQuerier', mockGraphQuerier);
+    app.decorate('graphService', createGraphService());
+
+    const graphRoutes = await import('../../../src/routes/graph.js');
+    await app.register(graphRoutes.default, { prefix: '/api/v1/scans/:scanId' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockScanRepository.findById.mockResolvedValue(SCAN);
+    mockNodeRepository.findById.mockImplementation(async (id: string) =>
+      NODES.find(n => n.id === id) ?? null
+    );
+    mockNodeRepository.findByScanCursor.mockResolvedValue({
+      data: NODES,
+      total: NODES.length,
+      nextCursor: null,
+    });
+    mockEdgeRepository.findByScanCursor.mockResolvedValue({
+      data: EDGES,
+      total: EDGES.length,
+      nextCursor: null,
+    });
+    mockEdgeRepository.findBetweenNodes.mockImplementation(async (_scanId: string, _tenantId: string, ids: string[]) =>
+      EDGES.filter(e => ids.includes(e.sourceNodeId) && ids.includes(e.targetNodeId))
+    );
+    mockGraphQuerier.getDownstreamDependencies.mockImplementation(traverse('downstream'));
+    mockGraphQuerier.getUpstreamDependents.mockImplementation(traverse('upstream'));
+  });
+
+  // ==========================================================================
+  // Tenant Scoping Tests
+  // ==========================================================================
+
+  describe('tenant scoping', () => {
+    it('should look up the scan within the tenant context', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/cycles`,
+        headers: { 'x-tenant-id': TENANT_ID },
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockScanRepository.findById).toHaveBeenCalledWith(SCAN_ID, TENANT_ID);
+    });
+
+    it('should reject a tenant context that differs from the authenticated tenant', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/graph`,
+        headers: { 'x-tenant-id': OTHER_TENANT_ID },
+      });
+
+      expect(response.statusCode).toBe(403);
+      expect(mockScanRepository.findById).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for scans outside the tenant', async () => {
+      mockScanRepository.findById.mockResolvedValue(null);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes`,
+      });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockNodeRepository.findByScanCursor).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // Full Graph Tests
+  // ==========================================================================
+
+  describe('GET /graph', () => {
+    it('should return persisted nodes, edges and statistics', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/graph`,
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      expect(body.nodes.map((n: { id: string }) => n.id)).toEqual([VPC_ID, SUBNET_ID, INSTANCE_ID]);
+      expect(body.edges[0]).toMatchObject({ source: SUBNET_ID, target: VPC_ID, confidence: 100 });
+      expect(body.stats).toMatchObject({ totalNodes: 3, totalEdges: 2, hasCycles: false });
+      expect(body.metadata).toMatchObject({ ref: 'main', commitSha: 'abc123' });
+    });
+
+    it('should follow cursors until the graph is loaded', async () => {
+      mockNodeRepository.findByScanCursor
+        .mockResolvedValueOnce({ data: NODES.slice(0, 2), total: 3, nextCursor: 'next' })
+        .mockResolvedValueOnce({ data: NODES.slice(2), total: 3, nextCursor: null });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/graph`,
+      });
+
+      expect(response.json().stats.totalNodes).toBe(3);
+      expect(mockNodeRepository.findByScanCursor).toHaveBeenLastCalledWith(
+        SCAN_ID, TENANT_ID, undefined, expect.objectContaining({ cursor: 'next' })
+      );
+    });
+  });
+
+  // ==========================================================================
+  // Listing Tests
+  // ==========================================================================
+
+  describe('GET /nodes', () => {
+    it('should pass filters and return the next cursor', async () => {
+      mockNodeRepository.findByScanCursor.mockResolvedValue({
+        data: NODES.slice(0, 1),
+        total: 3,
+        nextCursor: 'cursor-2',
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes?types=terraform_resource,k8s_deployment&filePath=main&search=vpc&pageSize=1`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockNodeRepository.findByScanCursor).toHaveBeenCalledWith(
+        SCAN_ID,
+        TENANT_ID,
+        { nodeType: ['terraform_resource', 'k8s_deployment'], filePath: 'main', search: 'vpc' },
+        { limit: 1 }
+      );
+
+      const body = response.json();
+      expect(body.data[0]).toMatchObject({ id: VPC_ID, type: 'terraform_resource', location: { file: 'main.tf' } });
+      expect(body.pagination).toMatchObject({ total: 3, hasNext: true, nextCursor: 'cursor-2' });
+    });
+
+    it('should fall back to offset pagination for later pages', async () => {
+      mockNodeRepository.findByScan.mockResolvedValue({
+        data: NODES.slice(2),
+        total: 3,
+        page: 3,
+        pageSize: 1,
+        totalPages: 3,
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes?page=3&pageSize=1`,
+      });
+
+      expect(response.json().pagination).toMatchObject({ page: 3, hasNext: false, hasPrevious: true });
+      expect(mockNodeRepository.findByScan).toHaveBeenCalledWith(SCAN_ID, TENANT_ID, {}, { page: 3, pageSize: 1 });
+    });
+
+    it('should reject malformed cursors', async () => {
+      mockNodeRepository.findByScanCursor.mockRejectedValue(new InvalidCursorError());
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes?cursor=garbage`,
+      });
+
+      expect(response.statusCode).toBe(400);
+    });
+  });
+
+  describe('GET /edges', () => {
+    it('should pass edge filters to the repository', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/edges?type=references&minConfidence=50&isImplicit=false&cursor=abc`,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(mockEdgeRepository.findByScanCursor).toHaveBeenCalledWith(
+        SCAN_ID,
+        TENANT_ID,
+        { edgeType: ['references'], minConfidence: 50, isImplicit: false },
+        { limit: 20, cursor: 'abc' }
+      );
+      expect(response.json().pagination).toMatchObject({ total: 2, hasNext: false });
+    });
+  });
+
+  // ==========================================================================
+  // Node Tests
+  // ==========================================================================
+
+  describe('GET /nodes/:nodeId', () => {
+    it('should return edges and dependency counts', async () => {
+      mockEdgeRepository.findByTarget.mockResolvedValue([EDGES[1]]);
+      mockEdgeRepository.findBySource.mockResolvedValue([EDGES[0]]);
+      mockGraphQuerier.getDownstreamDependencies.mockResolvedValue([NODES[0]]);
+      mockGraphQuerier.getUpstreamDependents.mockResolvedValue([NODES[2]]);
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes/${SUBNET_ID}`,
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      expect(body.node.id).toBe(SUBNET_ID);
+      expect(body.incomingEdges[0]).toMatchObject({ source: INSTANCE_ID, confidence: 80 });
+      expect(body.outgoingEdges[0]).toMatchObject({ target: VPC_ID });
+      expect(body).toMatchObject({ dependencyCount: 1, dependentCount: 1 });
+    });
+
+    it('should return 404 for nodes of another scan or non-UUID IDs', async () => {
+      mockNodeRepository.findById.mockResolvedValue({ ...NODES[0], scanId: 'other-scan' });
+
+      const otherScan = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes/${VPC_ID}`,
+      });
+      const notUuid = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes/aws_vpc.main`,
+      });
+
+      expect(otherScan.statusCode).toBe(404);
+      expect(notUuid.statusCode).toBe(404);
+    });
+  });
+
+  describe('traversals', () => {
+    it('should return downstream dependencies', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes/${INSTANCE_ID}/dependencies?maxDepth=1`,
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      expect(body).toMatchObject({ startNode: INSTANCE_ID, direction: 'downstream' });
+      expect(body.nodes.map((n: { id: string }) => n.id)).toEqual([SUBNET_ID]);
+      expect(body.edges.map((e: { id: string }) => e.id)).toEqual([EDGES[1]!.id]);
+    });
+
+    it('should traverse with the graph querier instead of loading the scan graph', async () => {
+      await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes/${INSTANCE_ID}/dependencies?maxDepth=3&edgeTypes=references`,
+      });
+
+      expect(mockGraphQuerier.getDownstreamDependencies).toHaveBeenCalledWith(
+        SCAN_ID, TENANT_ID, INSTANCE_ID, 3, ['references']
+      );
+      expect(mockEdgeRepository.findBetweenNodes).toHaveBeenCalledWith(
+        SCAN_ID, TENANT_ID, expect.arrayContaining([INSTANCE_ID, SUBNET_ID, VPC_ID])
+      );
+      expect(mockNodeRepository.findByScanCursor).not.toHaveBeenCalled();
+      expect(mockEdgeRepository.findByScanCursor).not.toHaveBeenCalled();
+    });
+
+    it('should return upstream dependents', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes/${VPC_ID}/dependents`,
+      });
+
+      const body = response.json();
+      expect(body.direction).toBe('upstream');
+      expect(body.nodes.map((n: { id: string }) => n.id).sort()).toEqual([INSTANCE_ID, SUBNET_ID].sort());
+    });
+
+    it('should follow only the requested edge types', async () => {
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/nodes/${VPC_ID}/dependents?edgeTypes=depends_on`,
+      });
+
+      expect(response.json().nodes).toEqual([]);
+    });
+  });
+
+  // ==========================================================================
+  // Analysis Tests
+  // ==========================================================================
+
+  describe('GET /cycles', () => {
+    it('should report cycles from the loaded graph', async () => {
+      mockEdgeRepository.findByScanCursor.mockResolvedValue({
+        data: [...EDGES, createEdgeEntity('bbbbbbbb-0000-4000-8000-000000000003', VPC_ID, INSTANCE_ID)],
+        total: 3,
+        nextCursor: null,
+      });
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/cycles`,
+      });
+
+      const body = response.json();
+      expect(body.hasCycles).toBe(true);
+      expect(body.cycles[0].nodeIds).toEqual(expect.arrayContaining([VPC_ID, SUBNET_ID, INSTANCE_ID]));
+    });
+  });
+
+  describe('POST /impact', () => {
+    it('should analyze impact of the given nodes', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/scans/${SCAN_ID}/impact`,
+        payload: { nodeIds: [INSTANCE_ID] },
+      });
+
+      expect(response.statusCode).toBe(200);
+
+      const body = response.json();
+      expect(body.targetNodes).toEqual([INSTANCE_ID]);
+      expect(body.directImpact.map((n: { id: string }) => n.id)).toEqual([SUBNET_ID]);
+      expect(body.transitiveImpact.map((n: { id: string }) => n.id)).toEqual([VPC_ID]);
+      expect(body.summary).toMatchObject({ totalImpacted: 2, riskLevel: 'low' });
+      expect(mockGraphQuerier.getDownstreamDependencies).toHaveBeenCalledWith(
+        SCAN_ID, TENANT_ID, INSTANCE_ID, 10
+      );
+      expect(mockNodeRepository.findByScanCursor).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown nodes', async () => {
+      const response = await app.inject({
+        method: 'POST',
+        url: `/api/v1/scans/${SCAN_ID}/impact`,
+        payload: { nodeIds: ['missing-node'] },
+      });
+
+      expect(response.statusCode).toBe(404);
+    });
+  });
+});
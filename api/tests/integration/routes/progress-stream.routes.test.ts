@@ -0,0 +1,194 @@
+/**
+ * Progress Stream Routes Integration Tests
+ * @module tests/integration/routes/progress-stream.routes
+ *
+ * Integration tests for the server-sent event endpoint streaming scan
+ * progress from an in-memory progress stream store.
+ *
+ * Endpoints tested:
+ * - GET /api/v1/scans/:id/events - Stream scan progress
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import { createProgressStreamService } from '../../../src/services/progress-stream/progress-stream-service.js';
+import { createInMemoryProgressStreamStore } from '../../../src/services/progress-stream/progress-stream-store.js';
+import { createTenantId, type ScanEntity } from '../../../src/types/entities.js';
+
+// ============================================================================
+// Mock Setup
+// ============================================================================
+
+const TENANT_ID = '11111111-1111-4111-8111-111111111111';
+const SCAN_ID = '33333333-3333-4333-8333-333333333333';
+
+vi.mock('../../../src/middleware/auth.js', () => ({
+  requireAuth: vi.fn((req: unknown, reply: unknown, done: () => void) => done()),
+  getAuthContext: vi.fn(() => ({
+    userId: 'test-user-id',
+    tenantId: '11111111-1111-4111-8111-111111111111',
+    email: 'test@example.com',
+  })),
+}));
+
+const mockScanRepository = {
+  findById: vi.fn(),
+};
+
+const tenantId = createTenantId(TENANT_ID);
+
+function createScan(overrides: Partial<ScanEntity> = {}): ScanEntity {
+  return {
+    id: SCAN_ID,
+    tenantId: TENANT_ID,
+    repositoryId: '66666666-6666-4666-8666-666666666666',
+    status: 'running',
+    ref: 'main',
+    commitSha: 'abc123',
+    config: {},
+    progress: {
+      phase: 'parsing',
+      percentage: 40,
+      filesProcessed: 4,
+      totalFiles: 10,
+      nodesDetected: 12,
+      edgesDetected: 7,
+      errors: 0,
+      warnings: 0,
+    },
+    createdAt: new Date('2026-10-18T08:00:00Z'),
+    updatedAt: new Date('2026-10-18T08:00:00Z'),
+    ...overrides,
+  } as ScanEntity;
+}
+
+/**
+ * Parse a text/event-stream body
+ */
+function parseEvents(body: string): Array<{ id?: string; event: string; data: Record<string, unknown> }> {
+  return body
+    .split('\n\n')
+    .filter((block) => block.includes('data: '))
+    .map((block) => {
+      const fields = new Map(block.split('\n').map((line) => {
+        const colon = line.indexOf(': ');
+        return [line.slice(0, colon), line.slice(colon + 2)] as const;
+      }));
+      return {
+        ...(fields.has('id') && { id: fields.get('id')! }),
+        event: fields.get('event')!,
+        data: JSON.parse(fields.get('data')!) as Record<string, unknown>,
+      };
+    });
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Progress Stream Routes Integration', () => {
+  let app: FastifyInstance;
+  let progressStream: ReturnType<typeof createProgressStreamService>;
+
+  beforeAll(async () => {
+    const fastify = await import('fastify');
+    app = fastify.fastify({ logger: false });
+
+    progressStream = createProgressStreamService(createInMemoryProgressStreamStore());
+    app.decorate('scanRepository', mockScanRepository);
+    app.decorate('progressStreamService', progressStream);
+
+    const scanRoutes = await import('../../../src/routes/scans.js');
+    await app.register(scanRoutes.default, { prefix: '/api/v1/scans' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  // ==========================================================================
+  // Scan Progress
+  // ==========================================================================
+
+  describe('GET /scans/:id/events', () => {
+    it('should stream the current state, then progress until the scan completes', async () => {
+      mockScanRepository.findById.mockImplementation(async () => {
+        // Recorded once the stream is open
+        setTimeout(async () => {
+          await progressStream.publishScanEvent(tenantId, SCAN_ID, {
+            type: 'progress',
+            timestamp: '2026-10-18T08:00:01.000Z',
+            data: { scanId: SCAN_ID, progress: { phase: 'detecting', nodesDetected: 30, edgesDetected: 21 } },
+          });
+          await progressStream.publishScanEvent(tenantId, SCAN_ID, {
+            type: 'completed',
+            timestamp: '2026-10-18T08:00:02.000Z',
+            data: { scanId: SCAN_ID, durationMs: 2000 },
+          });
+        }, 5);
+        return createScan();
+      });
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/scans/${SCAN_ID}/events` });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.headers['content-type']).toBe('text/event-stream; charset=utf-8');
+      const events = parseEvents(response.body);
+      expect(events.map((e) => e.event)).toEqual(['snapshot', 'progress', 'completed']);
+      expect(events[0]).not.toHaveProperty('id');
+      expect(events[0]!.data).toMatchObject({ scanId: SCAN_ID, status: 'running', progress: { filesProcessed: 4 } });
+      expect(events[1]!.data.progress).toEqual({ phase: 'detecting', nodesDetected: 30, edgesDetected: 21 });
+      expect(events[2]!.id).toBeDefined();
+    });
+
+    it('should resume after the Last-Event-ID without a snapshot', async () => {
+      const seen = await progressStream.publishScanEvent(tenantId, SCAN_ID, {
+        type: 'started',
+        timestamp: '2026-10-18T09:00:00.000Z',
+        data: { scanId: SCAN_ID },
+      });
+      await progressStream.publishScanEvent(tenantId, SCAN_ID, {
+        type: 'failed',
+        timestamp: '2026-10-18T09:00:05.000Z',
+        data: { scanId: SCAN_ID, errors: [] },
+      });
+      mockScanRepository.findById.mockResolvedValue(createScan());
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/events`,
+        headers: { 'last-event-id': seen.id },
+      });
+
+      expect(parseEvents(response.body).map((e) => e.event)).toEqual(['failed']);
+    });
+
+    it('should send only the snapshot for a finished scan', async () => {
+      mockScanRepository.findById.mockResolvedValue(createScan({ status: 'completed' }));
+
+      const response = await app.inject({
+        method: 'GET',
+        url: `/api/v1/scans/${SCAN_ID}/events`,
+        headers: { 'last-event-id': '1' },
+      });
+
+      const events = parseEvents(response.body);
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({ event: 'snapshot', data: { status: 'completed' } });
+    });
+
+    it('should return 404 for scans outside the tenant', async () => {
+      mockScanRepository.findById.mockResolvedValue(null);
+
+      const response = await app.inject({ method: 'GET', url: `/api/v1/scans/${SCAN_ID}/events` });
+
+      expect(response.statusCode).toBe(404);
+      expect(mockScanRepository.findById).toHaveBeenCalledWith(SCAN_ID, TENANT_ID);
+    });
+  });
+});
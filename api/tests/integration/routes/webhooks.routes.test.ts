@@ -0,0 +1,490 @@
+/**
+ * Webhook Routes Integration Tests
+ * @module tests/integration/routes/webhooks.routes
+ *
+ * Integration tests for the push webhook endpoints backed by the repository
+ * webhook registrations, the scan repository and the scan queue.
+ *
+ * Endpoints tested:
+ * - POST /api/v1/webhooks/github - GitHub push and pull request webhook
+ * - POST /api/v1/webhooks/gitlab - GitLab push and merge request webhook
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import crypto from 'crypto';
+import type { RepositoryWebhookEntity, ScanEntity } from '../../../src/types/entities.js';
+
+// ============================================================================
+// Mock Setup
+// ============================================================================
+
+const TENANT_ID = '11111111-1111-4111-8111-111111111111';
+const REPOSITORY_ID = '44444444-4444-4444-8444-444444444444';
+const BASE_SCAN_ID = '33333333-3333-4333-8333-333333333333';
+const SECRET = 'webhook-secret';
+const BEFORE_SHA = '1111111111111111111111111111111111111111';
+const AFTER_SHA = '2222222222222222222222222222222222222222';
+
+const mockWebhookRepository = {
+  findActiveByProviderRepository: vi.fn(),
+};
+
+const mockScanRepository = {
+  getLatestCompletedForRef: vi.fn(),
+};
+
+const mockScanQueue = {
+  enqueue: vi.fn(),
+};
+
+// ============================================================================
+// Test Data Factories
+// ============================================================================
+
+function createRegistration(overrides: Partial<RepositoryWebhookEntity> = {}): RepositoryWebhookEntity {
+  return {
+    id: 'cccccccc-0000-4000-8000-000000000001',
+    tenantId: TENANT_ID,
+    provider: 'github',
+    providerRepositoryId: '42',
+    repositoryFullName: 'acme/infra',
+    repositoryId: REPOSITORY_ID,
+    defaultBranch: 'main',
+    webhookId: '1001',
+    secret: SECRET,
+    secretHash: crypto.createHash('sha256').update(SECRET).digest('hex'),
+    branchFilter: [],
+    events: ['push'],
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  } as RepositoryWebhookEntity;
+}
+
+function createCommit(changes: { added?: string[]; modified?: string[]; removed?: string[] }) {
+  return {
+    added: changes.added ?? [],
+    modified: changes.modified ?? [],
+    removed: changes.removed ?? [],
+  };
+}
+
+function createGitHubPush(overrides: Record<string, unknown> = {}) {
+  return {
+    ref: 'refs/heads/main',
+    before: BEFORE_SHA,
+    after: AFTER_SHA,
+    created: false,
+    deleted: false,
+    forced: false,
+    commits: [
+      createCommit({ modified: ['network/main.tf'], added: ['network/outputs.tf'] }),
+      createCommit({ removed: ['legacy/main.tf'] }),
+    ],
+    repository: {
+      id: 42,
+      full_name: 'acme/infra',
+      default_branch: 'main',
+    },
+    ...overrides,
+  };
+}
+
+function createGitLabPush(overrides: Record<string, unknown> = {}) {
+  return {
+    object_kind: 'push',
+    event_name: 'push',
+    ref: 'refs/heads/main',
+    before: BEFORE_SHA,
+    after: AFTER_SHA,
+    project_id: 7,
+    project: {
+      id: 7,
+      path_with_namespace: 'acme/infra',
+      default_branch: 'main',
+    },
+    commits: [createCommit({ modified: ['main.tf'] })],
+    total_commits_count: 1,
+    ...overrides,
+  };
+}
+
+function createGitHubPullRequest(overrides: Record<string, unknown> = {}) {
+  return {
+    action: 'opened',
+    number: 12,
+    pull_request: {
+      number: 12,
+      state: 'open',
+      base: { ref: 'main', sha: BEFORE_SHA },
+      head: { ref: 'feature/vpc', sha: AFTER_SHA },
+    },
+    repository: {
+      id: 42,
+      full_name: 'acme/infra',
+      default_branch: 'main',
+    },
+    ...overrides,
+  };
+}
+
+function createGitLabMergeRequest(attributes: Record<string, unknown> = {}) {
+  return {
+    object_kind: 'merge_request',
+    event_type: 'merge_request',
+    project: {
+      id: 7,
+      path_with_namespace: 'acme/infra',
+      default_branch: 'main',
+    },
+    object_attributes: {
+      iid: 3,
+      action: 'open',
+      state: 'opened',
+      source_branch: 'feature/vpc',
+      target_branch: 'main',
+      source_project_id: 7,
+      target_project_id: 7,
+      ...attributes,
+    },
+  };
+}
+
+function sign(body: string, secret = SECRET): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+const BASE_SCAN = {
+  id: BASE_SCAN_ID,
+  tenantId: TENANT_ID,
+  repositoryId: REPOSITORY_ID,
+  ref: 'main',
+  commitSha: BEFORE_SHA,
+} as unknown as ScanEntity;
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Webhook Routes Integration', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    const fastify = await import('fastify');
+    app = fastify.fastify({ logger: false });
+
+    app.decorate('webhookRepository', mockWebhookRepository);
+    app.decorate('scanRepository', mockScanRepository);
+    app.decorate('scanQueue', mockScanQueue);
+
+    const webhookRoutes = await import('../../../src/routes/webhooks.js');
+    await app.register(webhookRoutes.default, { prefix: '/api/v1/webhooks' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWebhookRepository.findActiveByProviderRepository.mockResolvedValue([createRegistration()]);
+    mockScanRepository.getLatestCompletedForRef.mockResolvedValue(BASE_SCAN);
+    mockScanQueue.enqueue.mockResolvedValue('job-1');
+  });
+
+  const postGitHub = (payload: Record<string, unknown>, signature?: string, event = 'push') => {
+    const body = JSON.stringify(payload);
+    return app.inject({
+      method: 'POST',
+      url: '/api/v1/webhooks/github',
+      headers: {
+        'content-type': 'application/json',
+        'x-github-event': event,
+        'x-github-delivery': 'delivery-1',
+        'x-hub-signature-256': signature ?? sign(body),
+      },
+      payload: body,
+    });
+  };
+
+  const postGitLab = (payload: Record<string, unknown>, token = SECRET, event = 'Push Hook') =>
+    app.inject({
+      method: 'POST',
+      url: '/api/v1/webhooks/gitlab',
+      headers: {
+        'x-gitlab-event': event,
+        'x-gitlab-token': token,
+      },
+      payload,
+    });
+
+  // ==========================================================================
+  // GitHub Tests
+  // ==========================================================================
+
+  describe('POST /github', () => {
+    it('should queue an incremental scan of the changed files', async () => {
+      const response = await postGitHub(createGitHubPush());
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ action: 'queued', eventId: 'delivery-1' });
+      expect(mockWebhookRepository.findActiveByProviderRepository).toHaveBeenCalledWith('github', '42');
+      expect(mockScanRepository.getLatestCompletedForRef).toHaveBeenCalledWith(
+        REPOSITORY_ID,
+        TENANT_ID,
+        'main'
+      );
+
+      const [jobType, job] = mockScanQueue.enqueue.mock.calls[0];
+      expect(jobType).toBe('execute-scan');
+      expect(job).toMatchObject({
+        scanId: response.json().scanId,
+        tenantId: TENANT_ID,
+        repositoryId: REPOSITORY_ID,
+        ref: 'main',
+        commitSha: AFTER_SHA,
+        incremental: {
+          baseScanId: BASE_SCAN_ID,
+          changedFiles: ['network/outputs.tf', 'network/main.tf'],
+          removedFiles: ['legacy/main.tf'],
+        },
+        metadata: { source: 'webhook', provider: 'github', deliveryId: 'delivery-1' },
+      });
+    });
+
+    it('should verify the signature over the bytes that were sent', async () => {
+      // Pretty-printed with an escaped character, as GitHub may send it
+      const body = JSON.stringify(createGitHubPush(), null, 2).replace('"main"', '"m\\u0061in"');
+      expect(body).not.toBe(JSON.stringify(JSON.parse(body)));
+
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/webhooks/github',
+        headers: {
+          'content-type': 'application/json',
+          'x-github-event': 'push',
+          'x-github-delivery': 'delivery-1',
+          'x-hub-signature-256': sign(body),
+        },
+        payload: body,
+      });
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ action: 'queued' });
+    });
+
+    it('should reject payloads not signed with the registration secret', async () => {
+      const payload = createGitHubPush();
+      const response = await postGitHub(payload, sign(JSON.stringify(payload), 'other-secret'));
+
+      expect(response.statusCode).toBe(401);
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should answer unregistered repositories like an invalid signature', async () => {
+      const payload = createGitHubPush();
+      const badSignature = await postGitHub(payload, sign(JSON.stringify(payload), 'other-secret'));
+      mockWebhookRepository.findActiveByProviderRepository.mockResolvedValue([]);
+
+      const unregistered = await postGitHub(payload);
+
+      expect(unregistered.statusCode).toBe(401);
+      expect(unregistered.json()).toEqual(badSignature.json());
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should ignore pushes to untracked branches', async () => {
+      const response = await postGitHub(createGitHubPush({ ref: 'refs/heads/feature/x' }));
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({
+        action: 'ignored',
+        reason: "Branch 'feature/x' is not tracked",
+      });
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it.each([
+      'services/api/Dockerfile',
+      'Jenkinsfile',
+      'live/prod/terragrunt.hcl',
+      'charts/app/templates/_helpers.tpl',
+      'modules/vpc/main.tofu',
+    ])('should queue pushes that only change %s', async (file) => {
+      const response = await postGitHub(createGitHubPush({ commits: [createCommit({ modified: [file] })] }));
+
+      expect(response.json()).toMatchObject({ action: 'queued' });
+    });
+
+    it('should ignore pushes without files a parser reads', async () => {
+      const response = await postGitHub(createGitHubPush({
+        commits: [createCommit({ modified: ['README.md', 'scripts/release.sh'] })],
+      }));
+
+      expect(response.json()).toMatchObject({ action: 'ignored', reason: 'No IaC file changes detected in commits' });
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should track branches listed in the branch filter', async () => {
+      mockWebhookRepository.findActiveByProviderRepository.mockResolvedValue([
+        createRegistration({ branchFilter: ['release'] }),
+      ]);
+
+      const tracked = await postGitHub(createGitHubPush({ ref: 'refs/heads/release' }));
+      const untracked = await postGitHub(createGitHubPush());
+
+      expect(tracked.json()).toMatchObject({ action: 'queued' });
+      expect(untracked.json()).toMatchObject({ action: 'ignored' });
+    });
+
+    it('should queue a full scan after a force push', async () => {
+      const response = await postGitHub(createGitHubPush({ forced: true }));
+
+      expect(response.json()).toMatchObject({ action: 'queued' });
+      expect(mockScanQueue.enqueue.mock.calls[0][1].incremental).toBeUndefined();
+    });
+
+    it('should queue a full scan when the last scan is not the push base', async () => {
+      mockScanRepository.getLatestCompletedForRef.mockResolvedValue({
+        ...BASE_SCAN,
+        commitSha: 'ffffffffffffffffffffffffffffffffffffffff',
+      });
+
+      const response = await postGitHub(createGitHubPush());
+
+      expect(response.json()).toMatchObject({ action: 'queued' });
+      expect(mockScanQueue.enqueue.mock.calls[0][1].incremental).toBeUndefined();
+    });
+
+    it('should queue an impact check for an opened pull request', async () => {
+      const payload = createGitHubPullRequest();
+      const response = await postGitHub(payload, undefined, 'pull_request');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ action: 'queued', eventId: 'delivery-1' });
+      expect(mockScanQueue.enqueue).toHaveBeenCalledWith('pr-impact', {
+        type: 'pr-impact',
+        tenantId: TENANT_ID,
+        repositoryId: REPOSITORY_ID,
+        pullRequest: { number: 12, baseRef: 'main', headRef: 'refs/pull/12/head' },
+        metadata: { provider: 'github', deliveryId: 'delivery-1' },
+      });
+    });
+
+    it('should reject pull request events not signed with the registration secret', async () => {
+      const payload = createGitHubPullRequest();
+      const response = await postGitHub(
+        payload,
+        sign(JSON.stringify(payload), 'other-secret'),
+        'pull_request'
+      );
+
+      expect(response.statusCode).toBe(401);
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should ignore pull request actions that do not change commits', async () => {
+      const response = await postGitHub(createGitHubPullRequest({ action: 'labeled' }), undefined, 'pull_request');
+
+      expect(response.json()).toMatchObject({
+        action: 'ignored',
+        reason: "Pull request action 'labeled' is not handled",
+      });
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should ignore pull requests into untracked branches', async () => {
+      const payload = createGitHubPullRequest();
+      payload.pull_request.base.ref = 'develop';
+
+      const response = await postGitHub(payload, undefined, 'pull_request');
+
+      expect(response.json()).toMatchObject({ action: 'ignored', reason: "Branch 'develop' is not tracked" });
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+
+  // ==========================================================================
+  // GitLab Tests
+  // ==========================================================================
+
+  describe('POST /gitlab', () => {
+    beforeEach(() => {
+      mockWebhookRepository.findActiveByProviderRepository.mockResolvedValue([
+        createRegistration({ provider: 'gitlab', providerRepositoryId: '7' }),
+      ]);
+    });
+
+    it('should queue an incremental scan for a verified token', async () => {
+      const response = await postGitLab(createGitLabPush());
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ action: 'queued' });
+      expect(mockWebhookRepository.findActiveByProviderRepository).toHaveBeenCalledWith('gitlab', '7');
+      expect(mockScanQueue.enqueue.mock.calls[0][1]).toMatchObject({
+        incremental: { baseScanId: BASE_SCAN_ID, changedFiles: ['main.tf'], removedFiles: [] },
+        metadata: { provider: 'gitlab' },
+      });
+    });
+
+    it('should verify tokens against the stored hash when no secret is stored', async () => {
+      mockWebhookRepository.findActiveByProviderRepository.mockResolvedValue([
+        createRegistration({ provider: 'gitlab', secret: undefined }),
+      ]);
+
+      const accepted = await postGitLab(createGitLabPush());
+      const rejected = await postGitLab(createGitLabPush(), 'wrong-token');
+
+      expect(accepted.statusCode).toBe(200);
+      expect(rejected.statusCode).toBe(401);
+    });
+
+    it('should answer unregistered projects like an invalid token', async () => {
+      mockWebhookRepository.findActiveByProviderRepository.mockResolvedValue([]);
+
+      const response = await postGitLab(createGitLabPush());
+
+      expect(response.statusCode).toBe(401);
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should queue a full scan when the commit list is truncated', async () => {
+      const response = await postGitLab(createGitLabPush({ total_commits_count: 30 }));
+
+      expect(response.json()).toMatchObject({ action: 'queued' });
+      expect(mockScanQueue.enqueue.mock.calls[0][1].incremental).toBeUndefined();
+    });
+
+    it('should queue an impact check for an opened merge request', async () => {
+      const response = await postGitLab(createGitLabMergeRequest(), SECRET, 'Merge Request Hook');
+
+      expect(response.statusCode).toBe(200);
+      expect(response.json()).toMatchObject({ action: 'queued' });
+      expect(mockScanQueue.enqueue).toHaveBeenCalledWith('pr-impact', expect.objectContaining({
+        pullRequest: { number: 3, baseRef: 'main', headRef: 'refs/merge-requests/3/head' },
+        metadata: expect.objectContaining({ provider: 'gitlab' }),
+      }));
+    });
+
+    it('should ignore merged merge requests', async () => {
+      const response = await postGitLab(
+        createGitLabMergeRequest({ action: 'merge', state: 'merged' }),
+        SECRET,
+        'Merge Request Hook'
+      );
+
+      expect(response.json()).toMatchObject({ action: 'ignored' });
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+
+    it('should reject merge request events with an invalid token', async () => {
+      const response = await postGitLab(createGitLabMergeRequest(), 'wrong-token', 'Merge Request Hook');
+
+      expect(response.statusCode).toBe(401);
+      expect(mockScanQueue.enqueue).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,458 @@
+/**
+ * Webhook Scan Integration Tests
+ * @module tests/integration/webhook-scan
+ *
+ * Follows pushes and pull requests from the webhook route through the scan
+ * queue into the job processors, which check out the commits from a local
+ * git repository, scan them and report pull request impact.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, beforeEach, vi } from 'vitest';
+import { FastifyInstance } from 'fastify';
+import crypto from 'crypto';
+import { execFileSync } from 'child_process';
+import { mkdtemp, writeFile, readFile, rm, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ScanStatus, createScanId, type RepositoryWebhookEntity, type ScanEntity } from '../../src/types/entities.js';
+import {
+  isScanExecuteJobPayload,
+  isPrImpactJobPayload,
+  type ScanExecuteJobPayload,
+  type PrImpactJobPayload,
+} from '../../src/queues/scan-jobs.js';
+import { checkoutRepository, RepositoryRefCheckout } from '../../src/services/repository-clone.js';
+import {
+  ScanJobProcessor,
+  ScanJobError,
+  WEBHOOK_SCAN_INITIATOR,
+} from '../../src/services/scan-job-processor.js';
+import { PrImpactJobProcessor } from '../../src/services/pr-impact-job-processor.js';
+import { createPrImpactGate } from '../../src/services/pr-impact-gate.js';
+import { PR_IMPACT_COMMENT_MARKER } from '../../src/services/pr-impact-report.js';
+import type { StartScanInput } from '../../src/services/scan-service.js';
+import type { GitAdapter } from '../../src/adapters/git/interface.js';
+import { success } from '../../src/types/utility.js';
+import {
+  createGraphWithEdges,
+  createReferenceEdge,
+  createTerraformResourceNode,
+} from '../factories/graph.factory.js';
+
+vi.mock('../../src/db/connection.js', () => ({
+  query: vi.fn(),
+}));
+
+const { query } = await import('../../src/db/connection.js');
+
+// ============================================================================
+// Mock Setup
+// ============================================================================
+
+const TENANT_ID = '11111111-1111-4111-8111-111111111111';
+const REPOSITORY_ID = '44444444-4444-4444-8444-444444444444';
+const BASE_SCAN_ID = '33333333-3333-4333-8333-333333333333';
+const SECRET = 'webhook-secret';
+const BEFORE_SHA = '1111111111111111111111111111111111111111';
+
+const mockWebhookRepository = {
+  findActiveByProviderRepository: vi.fn(),
+};
+
+const mockScanRepository = {
+  getLatestCompletedForRef: vi.fn(),
+  findById: vi.fn(),
+  findCheckpoint: vi.fn(),
+};
+
+const mockScanQueue = {
+  enqueue: vi.fn(),
+};
+
+const mockScanService = {
+  startScan: vi.fn(),
+  resumeScan: vi.fn(),
+};
+
+// ============================================================================
+// Test Helpers
+// ============================================================================
+
+function git(cwd: string, ...args: string[]): string {
+  return execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args], {
+    cwd,
+    encoding: 'utf8',
+  }).trim();
+}
+
+function createRegistration(): RepositoryWebhookEntity {
+  return {
+    id: 'cccccccc-0000-4000-8000-000000000001',
+    tenantId: TENANT_ID,
+    provider: 'github',
+    providerRepositoryId: '42',
+    repositoryFullName: 'acme/infra',
+    repositoryId: REPOSITORY_ID,
+    defaultBranch: 'main',
+    webhookId: '1001',
+    secret: SECRET,
+    secretHash: crypto.createHash('sha256').update(SECRET).digest('hex'),
+    branchFilter: [],
+    events: ['push'],
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  } as RepositoryWebhookEntity;
+}
+
+// ============================================================================
+// Test Suite
+// ============================================================================
+
+describe('Webhook to scan', () => {
+  let app: FastifyInstance;
+  let originDir: string;
+  let headSha: string;
+  let pullRequestSha: string;
+  let processor: ScanJobProcessor;
+
+  beforeAll(async () => {
+    // Origin repository standing in for the provider: main has one commit
+    // more than the base, and the pull request ref one more than main
+    originDir = await mkdtemp(join(tmpdir(), 'webhook-scan-origin-'));
+    git(originDir, 'init', '--quiet', '--initial-branch=main');
+    await writeFile(join(originDir, 'main.tf'), 'resource "aws_vpc" "main" {}\n');
+    git(originDir, 'add', '.');
+    git(originDir, 'commit', '--quiet', '-m', 'base');
+    await writeFile(join(originDir, 'main.tf'), 'resource "aws_vpc" "main" { cidr_block = "10.0.0.0/16" }\n');
+    git(originDir, 'commit', '--quiet', '-am', 'change');
+    headSha = git(originDir, 'rev-parse', 'HEAD');
+    git(originDir, 'checkout', '--quiet', '-b', 'feature/vpc');
+    await writeFile(join(originDir, 'main.tf'), 'resource "aws_vpc" "main" { cidr_block = "10.1.0.0/16" }\n');
+    git(originDir, 'commit', '--quiet', '-am', 'widen');
+    pullRequestSha = git(originDir, 'rev-parse', 'HEAD');
+    git(originDir, 'update-ref', 'refs/pull/12/head', pullRequestSha);
+    git(originDir, 'checkout', '--quiet', 'main');
+
+    const fastify = await import('fastify');
+    app = fastify.fastify({ logger: false });
+
+    app.decorate('webhookRepository', mockWebhookRepository);
+    app.decorate('scanRepository', mockScanRepository);
+    app.decorate('scanQueue', mockScanQueue);
+
+    const webhookRoutes = await import('../../src/routes/webhooks.js');
+    await app.register(webhookRoutes.default, { prefix: '/api/v1/webhooks' });
+    await app.ready();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await rm(originDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockWebhookRepository.findActiveByProviderRepository.mockResolvedValue([createRegistration()]);
+    mockScanRepository.getLatestCompletedForRef.mockResolvedValue({
+      id: BASE_SCAN_ID,
+      tenantId: TENANT_ID,
+      repositoryId: REPOSITORY_ID,
+      ref: 'main',
+      commitSha: BEFORE_SHA,
+    } as unknown as ScanEntity);
+    mockScanRepository.findById.mockResolvedValue(null);
+    mockScanRepository.findCheckpoint.mockResolvedValue(null);
+    mockScanQueue.enqueue.mockResolvedValue('job-1');
+
+    processor = new ScanJobProcessor({
+      scanService: mockScanService,
+      scanSource: mockScanRepository,
+      findCloneSource: vi.fn().mockResolvedValue({
+        provider: 'github',
+        owner: 'acme',
+        name: 'infra',
+        cloneUrl: originDir,
+      }),
+      checkout: checkoutRepository,
+    });
+  });
+
+  /**
+   * Post a signed push and return the job the route queued
+   */
+  const pushAndDequeue = async (): Promise<ScanExecuteJobPayload> => {
+    const body = JSON.stringify({
+      ref: 'refs/heads/main',
+      before: BEFORE_SHA,
+      after: headSha,
+      created: false,
+      deleted: false,
+      forced: false,
+      commits: [{ added: [], modified: ['main.tf'], removed: ['legacy.tf'] }],
+      repository: { id: 42, full_name: 'acme/infra', default_branch: 'main' },
+    });
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/v1/webhooks/github',
+      headers: {
+        'content-type': 'application/json',
+        'x-github-event': 'push',
+        'x-github-delivery': 'delivery-1',
+        'x-hub-signature-256': `sha256=${crypto.createHmac('sha256', SECRET).update(body).digest('hex')}`,
+      },
+      payload: body,
+    });
+    expect(response.statusCode).toBe(200);
+
+    const [jobType, job] = mockScanQueue.enqueue.mock.calls[0] as [string, unknown];
+    expect(jobType).toBe('execute-scan');
+    expect(isScanExecuteJobPayload(job)).toBe(true);
+    return job as ScanExecuteJobPayload;
+  };
+
+  it('should run an incremental scan of the pushed commit', async () => {
+    let checkedOutFile: string | undefined;
+    let checkoutPath: string | undefined;
+    mockScanService.startScan.mockImplementation(async (input: StartScanInput) => {
+      checkoutPath = input.basePath;
+      checkedOutFile = await readFile(join(input.basePath, 'main.tf'), 'utf8');
+      return { success: true, value: { scanId: input.scanId, status: 'completed' } };
+    });
+
+    const job = await pushAndDequeue();
+    const result = await processor.processExecuteJob(job);
+
+    expect(result).toEqual({ scanId: job.scanId, status: 'completed' });
+    expect(mockScanService.startScan).toHaveBeenCalledWith({
+      scanId: job.scanId,
+      tenantId: TENANT_ID,
+      repositoryId: REPOSITORY_ID,
+      initiatedBy: WEBHOOK_SCAN_INITIATOR,
+      ref: 'main',
+      commitSha: headSha,
+      basePath: checkoutPath,
+      incremental: {
+        baseScanId: BASE_SCAN_ID,
+        changedFiles: ['main.tf'],
+        removedFiles: ['legacy.tf'],
+      },
+    });
+    expect(checkedOutFile).toContain('10.0.0.0/16');
+    // The working copy is removed once the scan finished
+    await expect(stat(checkoutPath!)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should skip jobs whose scan already completed', async () => {
+    const job = await pushAndDequeue();
+    mockScanRepository.findById.mockResolvedValue({ id: job.scanId, status: 'completed' });
+
+    const result = await processor.processExecuteJob(job);
+
+    expect(result).toBeNull();
+    expect(mockScanService.startScan).not.toHaveBeenCalled();
+  });
+
+  it('should resume checkpointed scans of earlier attempts on a fresh checkout', async () => {
+    let checkedOutFile: string | undefined;
+    let checkoutPath: string | undefined;
+    mockScanService.resumeScan.mockImplementation(async (scanId: string, _onProgress: unknown, basePath: string) => {
+      checkoutPath = basePath;
+      checkedOutFile = await readFile(join(basePath, 'main.tf'), 'utf8');
+      return { success: true, value: { scanId, status: 'completed' } };
+    });
+
+    const job = await pushAndDequeue();
+    mockScanRepository.findById.mockResolvedValue({ id: job.scanId, status: 'running' });
+    mockScanRepository.findCheckpoint.mockResolvedValue({ phase: 'parsing' });
+
+    const result = await processor.processExecuteJob(job);
+
+    expect(result).toEqual({ scanId: job.scanId, status: 'completed' });
+    expect(mockScanRepository.findCheckpoint).toHaveBeenCalledWith(job.scanId, TENANT_ID);
+    expect(mockScanService.resumeScan).toHaveBeenCalledWith(job.scanId, undefined, checkoutPath);
+    expect(mockScanService.startScan).not.toHaveBeenCalled();
+    expect(checkedOutFile).toContain('10.0.0.0/16');
+    await expect(stat(checkoutPath!)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should restart scans of earlier attempts that saved no checkpoint', async () => {
+    mockScanService.startScan.mockImplementation(async (input: StartScanInput) => (
+      { success: true, value: { scanId: input.scanId, status: 'completed' } }
+    ));
+
+    const job = await pushAndDequeue();
+    mockScanRepository.findById.mockResolvedValue({ id: job.scanId, status: 'running' });
+
+    await processor.processExecuteJob(job);
+
+    expect(mockScanService.startScan).toHaveBeenCalledTimes(1);
+    expect(mockScanService.resumeScan).not.toHaveBeenCalled();
+  });
+
+  it('should not retry scans whose base scan is gone', async () => {
+    let checkoutPath: string | undefined;
+    mockScanService.startScan.mockImplementation(async (input: StartScanInput) => {
+      checkoutPath = input.basePath;
+      return {
+        success: false,
+        error: { message: 'Base scan not found', code: 'BASE_SCAN_NOT_FOUND' },
+      };
+    });
+
+    const job = await pushAndDequeue();
+    const error = await processor.processExecuteJob(job).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ScanJobError);
+    expect(error).toMatchObject({ retryable: false, code: 'BASE_SCAN_NOT_FOUND' });
+    await expect(stat(checkoutPath!)).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should retry scans whose checkout failed', async () => {
+    processor = new ScanJobProcessor({
+      scanService: mockScanService,
+      scanSource: mockScanRepository,
+      findCloneSource: vi.fn().mockResolvedValue({
+        provider: 'github',
+        owner: 'acme',
+        name: 'infra',
+        cloneUrl: join(originDir, 'missing'),
+      }),
+      checkout: checkoutRepository,
+    });
+
+    const job = await pushAndDequeue();
+
+    await expect(processor.processExecuteJob(job)).rejects.toMatchObject({
+      retryable: true,
+      code: 'CHECKOUT_FAILED',
+    });
+    expect(mockScanService.startScan).not.toHaveBeenCalled();
+  });
+
+  describe('pull requests', () => {
+    /**
+     * Scan service returning a graph built from the checked-out main.tf
+     */
+    const scanCheckout = async (input: StartScanInput) => {
+      const content = await readFile(join(input.basePath, 'main.tf'), 'utf8');
+      const cidrBlock = /cidr_block = "([^"]+)"/.exec(content)?.[1] ?? 'none';
+      const vpc = createTerraformResourceNode('aws_vpc', 'main', { metadata: { cidr_block: cidrBlock } });
+      const subnet = createTerraformResourceNode('aws_subnet', 'private');
+      return success({
+        scanId: createScanId(crypto.randomUUID()),
+        status: ScanStatus.COMPLETED,
+        graph: createGraphWithEdges([vpc, subnet], [createReferenceEdge(subnet.id, vpc.id, 'vpc_id')]),
+        errors: [],
+        warnings: [],
+        durationMs: 1,
+      });
+    };
+
+    const createAdapter = () => ({
+      getRepository: vi.fn().mockResolvedValue({ id: '42', owner: 'acme', name: 'infra', fullName: 'acme/infra' }),
+      upsertPullRequestComment: vi.fn().mockResolvedValue({
+        id: '7',
+        url: 'https://github.com/acme/infra/pull/12#issuecomment-7',
+        created: true,
+      }),
+      setCommitStatus: vi.fn().mockResolvedValue(undefined),
+    });
+
+    beforeEach(() => {
+      vi.mocked(query).mockResolvedValue({
+        rows: [{ provider: 'github', owner: 'acme', name: 'infra', clone_url: originDir }],
+      } as never);
+      mockScanService.startScan.mockImplementation(scanCheckout);
+    });
+
+    const postPullRequest = async (): Promise<PrImpactJobPayload> => {
+      const body = JSON.stringify({
+        action: 'synchronize',
+        number: 12,
+        pull_request: {
+          number: 12,
+          state: 'open',
+          base: { ref: 'main', sha: headSha },
+          head: { ref: 'feature/vpc', sha: pullRequestSha },
+        },
+        repository: { id: 42, full_name: 'acme/infra', default_branch: 'main' },
+      });
+      const response = await app.inject({
+        method: 'POST',
+        url: '/api/v1/webhooks/github',
+        headers: {
+          'content-type': 'application/json',
+          'x-github-event': 'pull_request',
+          'x-github-delivery': 'delivery-2',
+          'x-hub-signature-256': `sha256=${crypto.createHmac('sha256', SECRET).update(body).digest('hex')}`,
+        },
+        payload: body,
+      });
+      expect(response.statusCode).toBe(200);
+
+      const [jobType, job] = mockScanQueue.enqueue.mock.calls[0] as [string, unknown];
+      expect(jobType).toBe('pr-impact');
+      expect(isPrImpactJobPayload(job as PrImpactJobPayload)).toBe(true);
+      return job as PrImpactJobPayload;
+    };
+
+    it('should scan both refs of the pull request and report the impact', async () => {
+      const adapter = createAdapter();
+      const prProcessor = new PrImpactJobProcessor({
+        createGate: (tenantId) => createPrImpactGate(mockScanService as never, new RepositoryRefCheckout(tenantId)),
+        findCloneSource: vi.fn().mockResolvedValue({
+          provider: 'github',
+          owner: 'acme',
+          name: 'infra',
+          cloneUrl: originDir,
+        }),
+        createGitAdapter: () => adapter as unknown as GitAdapter,
+      });
+
+      const job = await postPullRequest();
+      const result = await prProcessor.processPrImpactJob(job);
+
+      expect(vi.mocked(query)).toHaveBeenCalledWith(expect.stringContaining('FROM repositories'), [REPOSITORY_ID, TENANT_ID]);
+      expect(mockScanService.startScan).toHaveBeenCalledWith(expect.objectContaining({ ref: 'main', commitSha: headSha }));
+      expect(mockScanService.startScan).toHaveBeenCalledWith(expect.objectContaining({
+        ref: 'refs/pull/12/head',
+        commitSha: pullRequestSha,
+      }));
+      expect(result.changedNodes.map((node) => [node.changeType, node.name])).toEqual([['modified', 'main']]);
+      expect(adapter.getRepository).toHaveBeenCalledWith('acme', 'infra');
+      expect(adapter.upsertPullRequestComment).toHaveBeenCalledWith(
+        expect.objectContaining({ fullName: 'acme/infra' }),
+        12,
+        result.report,
+        PR_IMPACT_COMMENT_MARKER
+      );
+      expect(adapter.setCommitStatus).toHaveBeenCalledWith(
+        expect.objectContaining({ fullName: 'acme/infra' }),
+        pullRequestSha,
+        expect.objectContaining({ context: 'dmp/impact' })
+      );
+    });
+
+    it('should not run checks that cannot be reported', async () => {
+      const prProcessor = new PrImpactJobProcessor({
+        createGate: (tenantId) => createPrImpactGate(mockScanService as never, new RepositoryRefCheckout(tenantId)),
+        findCloneSource: vi.fn().mockResolvedValue({
+          provider: 'gitlab',
+          owner: 'acme',
+          name: 'infra',
+          cloneUrl: originDir,
+        }),
+        createGitAdapter: () => null,
+      });
+
+      const job = await postPullRequest();
+
+      await expect(prProcessor.processPrImpactJob(job)).rejects.toMatchObject({
+        retryable: false,
+        code: 'PROVIDER_NOT_CONFIGURED',
+      });
+      expect(mockScanService.startScan).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,383 @@
+/**
+ * ArgoCD ApplicationSet Expander Tests
+ * @module tests/parsers/argocd/applicationset-expander
+ *
+ * Unit tests for expanding ApplicationSet generators against a repository
+ * tree into concrete Applications with generated-by edges.
+ * TASK-ARGOCD-APPSET-001: ApplicationSet generator expansion
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createArgoCDApplicationSetId,
+  createArgoCDGraph,
+  expandApplicationSet,
+  isArgoCDApplicationNode,
+  isArgoCDGeneratedByEdge,
+  isArgoCDGeneratesEdge,
+  parseArgoCDManifest,
+  type ArgoCDApplicationSet,
+  type ArgoCDRepositoryTree,
+} from '@/parsers/argocd/index.js';
+
+const REPO_URL = 'https://github.com/org/gitops.git';
+
+const TREE: ArgoCDRepositoryTree = {
+  repoURL: REPO_URL,
+  files: new Map([
+    ['apps/api/kustomization.yaml', 'resources: []'],
+    ['apps/web/kustomization.yaml', 'resources: []'],
+    ['apps/legacy/deploy.yaml', 'kind: Deployment'],
+    ['charts/worker/Chart.yaml', 'name: worker'],
+    ['clusters/prod/config.json', '{"cluster": {"name": "prod", "server": "https://prod.example.com"}, "env": "production"}'],
+    ['clusters/staging/config.json', '{"cluster": {"name": "staging", "server": "https://staging.example.com"}, "env": "staging"}'],
+  ]),
+};
+
+async function parseAppSet(manifest: string): Promise<ArgoCDApplicationSet> {
+  const result = await parseArgoCDManifest(manifest, 'argocd/appset.yaml');
+  expect(result.success).toBe(true);
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  const [appSet] = result.data.applicationSets;
+  expect(appSet).toBeDefined();
+  return appSet!;
+}
+
+function appSetManifest(generators: string, template: string, extraSpec = ''): string {
+  return `apiVersion: argoproj.io/v1alpha1
+kind: ApplicationSet
+metadata:
+  name: platform
+  namespace: argocd
+spec:
+${extraSpec}  generators:
+${generators}
+  template:
+${template}`;
+}
+
+const PATH_TEMPLATE = `    metadata:
+      name: '{{path.basename}}'
+    spec:
+      project: default
+      source:
+        repoURL: ${REPO_URL}
+        targetRevision: HEAD
+        path: '{{path}}'
+      destination:
+        server: https://kubernetes.default.svc
+        namespace: '{{path.basename}}'`;
+
+describe('expandApplicationSet', () => {
+  describe('list generator', () => {
+    it('should instantiate one Application per element', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - list:
+        elements:
+          - cluster: dev
+            url: https://dev.example.com
+          - cluster: prod
+            url: https://prod.example.com`, `    metadata:
+      name: 'guestbook-{{cluster}}'
+    spec:
+      project: default
+      source:
+        repoURL: ${REPO_URL}
+        targetRevision: HEAD
+        path: apps/web
+      destination:
+        server: '{{url}}'
+        namespace: guestbook`));
+
+      const { applications, warnings } = expandApplicationSet(appSet, TREE);
+
+      expect(warnings).toEqual([]);
+      expect(applications.map(a => a.name)).toEqual(['guestbook-dev', 'guestbook-prod']);
+      expect(applications[1]?.destination.server).toBe('https://prod.example.com');
+      expect(applications[0]?.namespace).toBe('argocd');
+      expect(applications[0]?.filePath).toBe('argocd/appset.yaml');
+      expect(applications[0]?.generatedBy).toEqual({
+        appSetName: 'platform',
+        appSetNamespace: 'argocd',
+        generatorType: 'list',
+        generatorIndex: 0,
+      });
+    });
+
+    it('should leave unknown fasttemplate parameters untouched', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - list:
+        elements:
+          - cluster: dev`, `    metadata:
+      name: '{{cluster}}'
+    spec:
+      project: default
+      source:
+        repoURL: ${REPO_URL}
+        path: '{{unknown}}'
+      destination:
+        server: https://kubernetes.default.svc
+        namespace: default`));
+
+      const { applications } = expandApplicationSet(appSet, TREE);
+      expect(applications[0]?.source.path).toBe('{{unknown}}');
+    });
+  });
+
+  describe('git generator', () => {
+    it('should expand matching directories and honour excludes', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - git:
+        repoURL: ${REPO_URL}
+        revision: HEAD
+        directories:
+          - path: apps/*
+          - path: apps/legacy
+            exclude: true`, PATH_TEMPLATE));
+
+      const { applications } = expandApplicationSet(appSet, TREE);
+
+      expect(applications.map(a => a.name)).toEqual(['api', 'web']);
+      expect(applications[0]?.source.path).toBe('apps/api');
+      expect(applications[0]?.destination.namespace).toBe('api');
+    });
+
+    it('should detect the source type from files at the generated path', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - git:
+        repoURL: ${REPO_URL}
+        directories:
+          - path: '*/*'`, PATH_TEMPLATE));
+
+      const { applications } = expandApplicationSet(appSet, TREE);
+      const types = Object.fromEntries(applications.map(a => [a.name, a.source.sourceType]));
+
+      expect(types).toMatchObject({ api: 'kustomize', worker: 'helm', legacy: 'directory' });
+    });
+
+    it('should expand file contents with Go templates', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - git:
+        repoURL: ${REPO_URL}
+        files:
+          - path: 'clusters/**/config.json'`, `    metadata:
+      name: 'web-{{ .cluster.name }}'
+      labels:
+        env: '{{ .env | upper }}'
+    spec:
+      project: default
+      source:
+        repoURL: ${REPO_URL}
+        path: 'apps/web'
+      destination:
+        server: '{{ .cluster.server }}'
+        namespace: '{{ index .path.segments 1 }}'`, '  goTemplate: true\n'));
+
+      const { applications, warnings } = expandApplicationSet(appSet, TREE);
+
+      expect(warnings).toEqual([]);
+      expect(applications.map(a => a.name)).toEqual(['web-prod', 'web-staging']);
+      expect(applications[0]?.labels).toEqual({ env: 'PRODUCTION' });
+      expect(applications[0]?.destination).toMatchObject({
+        server: 'https://prod.example.com',
+        namespace: 'prod',
+      });
+    });
+
+    it('should skip generators for repositories other than the scanned one', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - git:
+        repoURL: https://github.com/org/other.git
+        directories:
+          - path: apps/*`, PATH_TEMPLATE));
+
+      const { applications, warnings } = expandApplicationSet(appSet, TREE);
+
+      expect(applications).toEqual([]);
+      expect(warnings[0]?.code).toBe('UNRESOLVED_GENERATOR');
+    });
+
+    it('should treat SSH and HTTPS URLs of the same repository as equal', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - git:
+        repoURL: git@github.com:org/gitops.git
+        directories:
+          - path: apps/web`, PATH_TEMPLATE));
+
+      expect(expandApplicationSet(appSet, TREE).applications).toHaveLength(1);
+    });
+  });
+
+  describe('matrix and merge generators', () => {
+    it('should combine matrix children and interpolate the second child', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - matrix:
+        generators:
+          - list:
+              elements:
+                - env: dev
+                - env: prod
+          - git:
+              repoURL: ${REPO_URL}
+              directories:
+                - path: apps/*
+                - path: 'apps/{{env}}'
+                  exclude: true`, `    metadata:
+      name: '{{path.basename}}-{{env}}'
+    spec:
+      project: default
+      source:
+        repoURL: ${REPO_URL}
+        path: '{{path}}'
+      destination:
+        server: https://kubernetes.default.svc
+        namespace: '{{env}}'`));
+
+      const { applications } = expandApplicationSet(appSet, TREE);
+
+      expect(applications.map(a => a.name)).toEqual([
+        'api-dev', 'legacy-dev', 'web-dev',
+        'api-prod', 'legacy-prod', 'web-prod',
+      ]);
+      expect(applications[0]?.generatedBy?.generatorType).toBe('matrix');
+    });
+
+    it('should override base parameter sets that share the merge keys', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - merge:
+        mergeKeys: [cluster]
+        generators:
+          - list:
+              elements:
+                - cluster: dev
+                  replicas: '1'
+                - cluster: prod
+                  replicas: '1'
+          - list:
+              elements:
+                - cluster: prod
+                  replicas: '3'`, `    metadata:
+      name: 'web-{{cluster}}'
+      annotations:
+        replicas: '{{replicas}}'
+    spec:
+      project: default
+      source:
+        repoURL: ${REPO_URL}
+        path: apps/web
+      destination:
+        server: https://kubernetes.default.svc
+        namespace: web`));
+
+      const { applications } = expandApplicationSet(appSet, TREE);
+
+      expect(applications.map(a => [a.name, a.annotations?.replicas])).toEqual([
+        ['web-dev', '1'],
+        ['web-prod', '3'],
+      ]);
+    });
+
+    it('should filter parameter sets with generator selectors', async () => {
+      const appSet = await parseAppSet(appSetManifest(`    - list:
+        elements:
+          - cluster: dev
+            tier: test
+          - cluster: prod
+            tier: live
+      selector:
+        matchExpressions:
+          - key: tier
+            operator: In
+            values: [live]`, `    metadata:
+      name: 'web-{{cluster}}'
+    spec:
+      project: default
+      source:
+        repoURL: ${REPO_URL}
+        path: apps/web
+      destination:
+        server: https://kubernetes.default.svc
+        namespace: web`));
+
+      expect(expandApplicationSet(appSet, TREE).applications.map(a => a.name)).toEqual(['web-prod']);
+    });
+  });
+
+  it('should report generators that need a live cluster', async () => {
+    const appSet = await parseAppSet(appSetManifest(`    - clusters: {}`, PATH_TEMPLATE));
+
+    const { applications, warnings } = expandApplicationSet(appSet, TREE);
+
+    expect(applications).toEqual([]);
+    expect(warnings).toHaveLength(1);
+    expect(warnings[0]).toMatchObject({ code: 'UNRESOLVED_GENERATOR', severity: 'warning' });
+  });
+
+  it('should drop duplicate Application names', async () => {
+    const appSet = await parseAppSet(appSetManifest(`    - list:
+        elements:
+          - cluster: dev
+          - cluster: dev`, `    metadata:
+      name: 'web-{{cluster}}'
+    spec:
+      project: default
+      source:
+        repoURL: ${REPO_URL}
+        path: apps/web
+      destination:
+        server: https://kubernetes.default.svc
+        namespace: web`));
+
+    const { applications, warnings } = expandApplicationSet(appSet, TREE);
+
+    expect(applications).toHaveLength(1);
+    expect(warnings[0]?.code).toBe('INVALID_TEMPLATE');
+  });
+});
+
+describe('createArgoCDGraph with generated Applications', () => {
+  it('should link generated Applications back to their ApplicationSet', async () => {
+    const appSet = await parseAppSet(appSetManifest(`    - git:
+        repoURL: ${REPO_URL}
+        directories:
+          - path: apps/*
+    - clusters: {}`, PATH_TEMPLATE));
+    const { applications } = expandApplicationSet(appSet, TREE);
+
+    const graph = createArgoCDGraph(applications, [appSet]);
+    const appSetId = createArgoCDApplicationSetId('platform', 'argocd');
+
+    const generatedBy = graph.edges.filter(isArgoCDGeneratedByEdge);
+    expect(generatedBy).toHaveLength(3);
+    expect(generatedBy.every(e => e.targetNodeId === appSetId)).toBe(true);
+    expect(generatedBy[0]?.metadata).toEqual({ appSetName: 'platform', generatorType: 'git', generatorIndex: 0 });
+
+    // Only the unexpanded clusters generator keeps a placeholder edge
+    const generates = graph.edges.filter(isArgoCDGeneratesEdge);
+    expect(generates.map(e => e.metadata.generatorType)).toEqual(['clusters']);
+
+    const apiNode = graph.nodes.filter(isArgoCDApplicationNode).find(n => n.name === 'api');
+    expect(apiNode?.metadata.generatedBy).toBe('platform');
+    const deploy = graph.edges.find(e => e.type === 'ARGOCD_DEPLOYS' && e.sourceNodeId === apiNode?.id);
+    expect(deploy?.targetNodeId).toBe('kustomization:apps/api');
+  });
+});
+
+describe('ArgoCDApplicationParser with a repository tree', () => {
+  const manifest = appSetManifest(`    - git:
+        repoURL: ${REPO_URL}
+        directories:
+          - path: apps/*`, PATH_TEMPLATE);
+
+  it('should add generated Applications and their generated-by edges', async () => {
+    const result = await parseArgoCDManifest(manifest, 'argocd/appset.yaml', { repositoryTree: TREE });
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.applications.map(app => app.name)).toEqual(['api', 'legacy', 'web']);
+    expect(result.data.edges.filter(isArgoCDGeneratedByEdge)).toHaveLength(3);
+    expect(result.data.edges.filter(isArgoCDGeneratesEdge)).toHaveLength(0);
+  });
+
+  it('should leave ApplicationSets unexpanded without a repository tree', async () => {
+    const result = await parseArgoCDManifest(manifest, 'argocd/appset.yaml');
+
+    expect(result.success).toBe(true);
+    if (!result.success) return;
+    expect(result.data.applications).toHaveLength(0);
+    expect(result.data.edges.filter(isArgoCDGeneratedByEdge)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,313 @@
+/**
+ * Azure Pipelines Parser Tests
+ * @module tests/parsers/azure-pipelines/azure-pipelines-parser
+ *
+ * Unit tests for azure-pipelines.yml parsing: stage and job dependencies,
+ * deployment jobs, variables and variable groups, template expansion,
+ * crossref pipeline nodes and Terraform-to-Helm flow detection over task
+ * and script steps.
+ * TASK-AZP-001: Azure Pipelines parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AzurePipelinesParser,
+  parseAzurePipeline,
+  isAzurePipelinesPath,
+  AzureParseResult,
+  AzureTemplateLoader,
+} from '@/parsers/azure-pipelines/index.js';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const DEPLOY_PIPELINE = `trigger:
+  branches:
+    include: [main]
+pr: none
+schedules:
+  - cron: '0 3 * * *'
+    branches:
+      include: [main]
+
+pool:
+  vmImage: ubuntu-latest
+
+variables:
+  - group: shared-secrets
+  - name: AWS_REGION
+    value: us-east-1
+
+stages:
+  - stage: Build
+    jobs:
+      - job: lint
+        steps:
+          - script: make lint
+      - job: test
+        dependsOn: lint
+        steps:
+          - bash: npm test
+
+  - stage: Infra
+    jobs:
+      - job: apply
+        steps:
+          - task: TerraformTaskV4@4
+            inputs:
+              command: apply
+              workingDirectory: infra
+              commandOptions: -auto-approve
+          - bash: |
+              echo "##vso[task.setvariable variable=VPC_ID;isOutput=true]$(terraform output -raw vpc_id)"
+            name: tf
+            workingDirectory: infra
+
+  - stage: Deploy
+    dependsOn: Infra
+    condition: succeeded()
+    jobs:
+      - deployment: helm
+        environment: production
+        variables:
+          vpcId: $[ stageDependencies.Infra.apply.outputs['tf.VPC_ID'] ]
+        strategy:
+          runOnce:
+            deploy:
+              steps:
+                - task: HelmDeploy@0
+                  inputs:
+                    command: upgrade
+                    releaseName: api
+                    chartPath: charts/api
+                    overrideValues: vpc.id=$(vpcId)
+`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function parse(
+  content: string,
+  filePath = 'azure-pipelines.yml',
+  options: Parameters<typeof parseAzurePipeline>[2] = {}
+): Promise<AzureParseResult> {
+  const result = await parseAzurePipeline(content, filePath, { scanId: 'scan-1', ...options });
+  expect(result.success).toBe(true);
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  return result.data;
+}
+
+function createLoader(files: Record<string, string>): AzureTemplateLoader {
+  return {
+    async load(templatePath: string) {
+      const content = files[templatePath];
+      return content !== undefined ? { content, filePath: templatePath } : null;
+    },
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('AzurePipelinesParser', () => {
+  describe('canParse', () => {
+    const parser = new AzurePipelinesParser();
+
+    it('should accept Azure Pipelines file names', () => {
+      expect(isAzurePipelinesPath('azure-pipelines.yml')).toBe(true);
+      expect(isAzurePipelinesPath('ci/release.azure-pipelines.yaml')).toBe(true);
+      expect(isAzurePipelinesPath('.azuredevops/deploy.yml')).toBe(true);
+      expect(parser.canParse('azure-pipelines.yml', 'trigger: none\nsteps:\n  - script: make\n')).toBe(true);
+    });
+
+    it('should reject other YAML files', () => {
+      expect(isAzurePipelinesPath('.github/workflows/ci.yml')).toBe(false);
+      expect(parser.canParse('azure-pipelines.yml', 'trigger: none\n')).toBe(false);
+    });
+  });
+
+  describe('pipeline sections', () => {
+    it('should read triggers, pool and variables', async () => {
+      const { pipeline } = await parse(DEPLOY_PIPELINE);
+
+      expect(pipeline.triggers).toEqual([
+        { type: 'push', branches: ['main'] },
+        { type: 'schedule', schedule: '0 3 * * *', branches: ['main'] },
+      ]);
+      expect(pipeline.pool).toBe('ubuntu-latest');
+      expect(pipeline.variables).toEqual({ values: { AWS_REGION: 'us-east-1' }, groups: ['shared-secrets'] });
+    });
+
+    it('should fail on files without stages, jobs or steps', async () => {
+      const result = await parseAzurePipeline('trigger: none\n', 'azure-pipelines.yml');
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should run bare steps as a single job', async () => {
+      const { pipeline } = await parse('steps:\n  - script: make\n');
+
+      expect(pipeline.jobs.map(job => [job.id, job.steps.length])).toEqual([['Job', 1]]);
+    });
+  });
+
+  describe('stages and jobs', () => {
+    it('should resolve job and stage dependencies into needs', async () => {
+      const { pipeline } = await parse(DEPLOY_PIPELINE);
+
+      expect(pipeline.stages.map(stage => [stage.name, stage.dependsOn])).toEqual([
+        ['Build', []],
+        ['Infra', ['Build']],
+        ['Deploy', ['Infra']],
+      ]);
+      expect(pipeline.jobs.map(job => [job.id, job.needs])).toEqual([
+        ['Build/lint', []],
+        ['Build/test', ['Build/lint']],
+        ['Infra/apply', ['Build/lint', 'Build/test']],
+        ['Deploy/helm', ['Infra/apply']],
+      ]);
+    });
+
+    it('should read deployment jobs and their strategy steps', async () => {
+      const { pipeline } = await parse(DEPLOY_PIPELINE);
+      const helm = pipeline.jobs.find(job => job.id === 'Deploy/helm');
+
+      expect(helm).toMatchObject({ kind: 'deployment', environment: 'production', lineStart: 47 });
+      expect(helm?.steps).toMatchObject([{ type: 'task', task: 'HelmDeploy@0' }]);
+    });
+
+    it('should warn about unknown dependencies', async () => {
+      const result = await parse('jobs:\n  - job: a\n    dependsOn: missing\n    steps:\n      - script: make\n');
+
+      expect(result.warnings.map(w => w.code)).toEqual(['UNKNOWN_DEPENDENCY']);
+      expect(result.pipeline.jobs[0]?.needs).toEqual([]);
+    });
+  });
+
+  describe('templates', () => {
+    const templates = {
+      'templates/deploy-stage.yml': `parameters:
+  - name: env
+    default: dev
+  - name: extraSteps
+    type: stepList
+    default: []
+stages:
+  - stage: Deploy_\${{ parameters.env }}
+    jobs:
+      - job: deploy
+        variables:
+          - template: vars.yml
+        steps:
+          - template: steps/helm.yml
+            parameters:
+              env: \${{ parameters.env }}
+          - \${{ parameters.extraSteps }}
+`,
+      'vars.yml': 'variables:\n  CHART: charts/api\n',
+      'steps/helm.yml': `parameters:
+  env: dev
+steps:
+  - script: helm upgrade api charts/api -f values-\${{ parameters.env }}.yaml
+  - \${{ if eq(parameters.env, 'prod') }}:
+    - script: echo prod
+`,
+    };
+
+    it('should expand stage, job, step and variable templates with parameters', async () => {
+      const { pipeline } = await parse(
+        `stages:
+  - template: templates/deploy-stage.yml
+    parameters:
+      env: prod
+      extraSteps:
+        - script: echo done
+`,
+        'azure-pipelines.yml',
+        { templateLoader: createLoader(templates) }
+      );
+
+      expect(pipeline.stages.map(stage => [stage.name, stage.template])).toEqual([
+        ['Deploy_prod', 'templates/deploy-stage.yml'],
+      ]);
+      expect(pipeline.jobs[0]?.variables.values).toEqual({ CHART: 'charts/api' });
+      expect(pipeline.jobs[0]?.steps.map(step => step.script)).toEqual([
+        'helm upgrade api charts/api -f values-prod.yaml',
+        'echo prod',
+        'echo done',
+      ]);
+      expect(pipeline.templates.map(t => [t.kind, t.path, t.resolved])).toEqual([
+        ['stage', 'templates/deploy-stage.yml', true],
+        ['step', 'steps/helm.yml', true],
+        ['variables', 'vars.yml', true],
+      ]);
+    });
+
+    it('should expand extends templates', async () => {
+      const { pipeline } = await parse(
+        'trigger: none\nextends:\n  template: templates/deploy-stage.yml\n  parameters:\n    env: qa\n',
+        'azure-pipelines.yml',
+        { templateLoader: createLoader(templates) }
+      );
+
+      expect(pipeline.triggers).toEqual([]);
+      expect(pipeline.jobs.map(job => job.id)).toEqual(['Deploy_qa/deploy']);
+      expect(pipeline.templates[0]).toMatchObject({ kind: 'extends', resolved: true });
+    });
+
+    it('should record templates without a loader or in other repositories', async () => {
+      const content = 'jobs:\n  - template: jobs/build.yml\n  - template: jobs/scan.yml@security\n';
+
+      const unloaded = await parse(content);
+      expect(unloaded.pipeline.templates.map(t => [t.path, t.repository, t.resolved])).toEqual([
+        ['jobs/build.yml', undefined, false],
+        ['jobs/scan.yml', 'security', false],
+      ]);
+      expect(unloaded.warnings).toEqual([]);
+
+      const loaded = await parse(content, 'azure-pipelines.yml', { templateLoader: createLoader({}) });
+      expect(loaded.warnings.map(w => [w.code, w.line])).toEqual([
+        ['TEMPLATE_NOT_FOUND', 2],
+        ['TEMPLATE_NOT_FOUND', 3],
+      ]);
+    });
+
+    it('should stop at templates including themselves', async () => {
+      const result = await parse(
+        'steps:\n  - template: loop.yml\n',
+        'azure-pipelines.yml',
+        { templateLoader: createLoader({ 'loop.yml': 'steps:\n  - template: loop.yml\n' }) }
+      );
+
+      expect(result.warnings.map(w => w.code)).toEqual(['TEMPLATE_CYCLE']);
+    });
+  });
+
+  describe('crossref', () => {
+    it('should create pipeline and job nodes with dependency edges', async () => {
+      const { nodes, edges } = await parse(DEPLOY_PIPELINE);
+
+      expect(nodes[0]).toMatchObject({
+        type: 'ci_pipeline',
+        metadata: { pipelineType: 'azure_pipelines', jobCount: 4, hasTerraformJobs: true, hasHelmJobs: true },
+      });
+      expect(nodes.filter(n => n.type === 'ci_job').map(n => n.name)).toEqual(['lint', 'test', 'apply', 'helm']);
+      expect(edges.filter(e => e.type === 'JOB_DEPENDS_ON')).toHaveLength(4);
+    });
+
+    it('should detect Terraform outputs passed to HelmDeploy through output variables', async () => {
+      const { flows } = await parse(DEPLOY_PIPELINE);
+
+      expect(flows.length).toBeGreaterThan(0);
+      expect(flows[0]).toMatchObject({
+        source: { name: 'vpc_id', jobId: 'Infra/apply' },
+        target: { path: 'vpc.id', jobId: 'Deploy/helm' },
+      });
+    });
+  });
+});
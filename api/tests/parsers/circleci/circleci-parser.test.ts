@@ -0,0 +1,302 @@
+/**
+ * CircleCI Parser Tests
+ * @module tests/parsers/circleci/circleci-parser
+ *
+ * Unit tests for .circleci/config.yml parsing: workflows and requires,
+ * reusable commands and job parameters, matrix jobs, orbs, crossref
+ * pipeline nodes and Terraform-to-Helm flow detection over run and orb steps.
+ * TASK-CIRCLECI-001: CircleCI config parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CircleCIParser,
+  parseCircleCIConfig,
+  isCircleConfigPath,
+  CircleParseResult,
+} from '@/parsers/circleci/index.js';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const DEPLOY_CONFIG = `version: 2.1
+
+orbs:
+  helm: circleci/helm@3.0.2
+  terraform: circleci/terraform@3.2.1
+
+parameters:
+  tf-dir:
+    type: string
+    default: infra
+
+executors:
+  tf:
+    docker:
+      - image: hashicorp/terraform:1.7
+
+commands:
+  tf-output:
+    parameters:
+      name:
+        type: string
+      var:
+        type: string
+    steps:
+      - run:
+          name: Export << parameters.name >>
+          command: echo "export << parameters.var >>=$(terraform output -raw << parameters.name >>)" >> $BASH_ENV
+
+jobs:
+  test:
+    parameters:
+      node:
+        type: string
+        default: "18"
+    docker:
+      - image: cimg/node:<< parameters.node >>
+    steps:
+      - checkout
+      - run: npm test
+
+  infra:
+    executor: tf
+    working_directory: << pipeline.parameters.tf-dir >>
+    steps:
+      - checkout
+      - terraform/init
+      - terraform/apply
+      - tf-output:
+          name: vpc_id
+          var: VPC_ID
+      - persist_to_workspace:
+          root: .
+          paths: [outputs.env]
+
+  deploy:
+    docker:
+      - image: cimg/base:stable
+    steps:
+      - attach_workspace:
+          at: .
+      - helm/upgrade_helm_chart:
+          chart: charts/api
+          release_name: api
+          values_to_override: vpc.id=\${VPC_ID}
+
+workflows:
+  release:
+    jobs:
+      - test:
+          matrix:
+            parameters:
+              node: ["18", "20"]
+      - infra:
+          context: aws
+          requires: [test]
+          filters:
+            branches:
+              only: main
+      - hold:
+          type: approval
+          requires: [infra]
+      - deploy:
+          requires: [hold]
+  nightly:
+    triggers:
+      - schedule:
+          cron: "0 2 * * *"
+          filters:
+            branches:
+              only: main
+    jobs:
+      - terraform/plan:
+          path: infra
+`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function parse(content: string, filePath = '.circleci/config.yml'): Promise<CircleParseResult> {
+  const result = await parseCircleCIConfig(content, filePath, { scanId: 'scan-1' });
+  expect(result.success).toBe(true);
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  return result.data;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('CircleCIParser', () => {
+  describe('canParse', () => {
+    const parser = new CircleCIParser();
+
+    it('should accept YAML files in .circleci', () => {
+      expect(isCircleConfigPath('.circleci/config.yml')).toBe(true);
+      expect(isCircleConfigPath('services/api/.circleci/continue.yaml')).toBe(true);
+      expect(parser.canParse('.circleci/config.yml', 'version: 2.1\njobs:\n  build: {}\n')).toBe(true);
+    });
+
+    it('should reject other YAML files', () => {
+      expect(isCircleConfigPath('.github/workflows/ci.yml')).toBe(false);
+      expect(parser.canParse('.circleci/config.yml', 'version: 2.1\n')).toBe(false);
+    });
+  });
+
+  describe('config sections', () => {
+    it('should read orbs, pipeline parameters and reusable definitions', async () => {
+      const { config } = await parse(DEPLOY_CONFIG);
+
+      expect(config.version).toBe('2.1');
+      expect(config.orbs).toEqual([
+        { alias: 'helm', name: 'circleci/helm', version: '3.0.2', inline: false },
+        { alias: 'terraform', name: 'circleci/terraform', version: '3.2.1', inline: false },
+      ]);
+      expect(config.parameters).toEqual({ 'tf-dir': 'infra' });
+      expect(config.commands).toEqual(['tf-output']);
+      expect(config.executors).toEqual(['tf']);
+    });
+
+    it('should fail on files without jobs or workflows', async () => {
+      const result = await parseCircleCIConfig('version: 2.1\n', '.circleci/config.yml');
+
+      expect(result.success).toBe(false);
+    });
+
+    it('should run the build job of configs without workflows', async () => {
+      const { config } = await parse('version: 2\njobs:\n  build:\n    docker:\n      - image: node:20\n    steps:\n      - run: make\n');
+
+      expect(config.jobs.map(job => [job.id, job.executor?.image, job.steps.length])).toEqual([['build', 'node:20', 1]]);
+    });
+  });
+
+  describe('workflows', () => {
+    it('should expand matrix jobs and resolve requires into needs', async () => {
+      const { config } = await parse(DEPLOY_CONFIG);
+
+      expect(config.workflows.map(w => [w.name, w.schedules])).toEqual([
+        ['release', []],
+        ['nightly', ['0 2 * * *']],
+      ]);
+      expect(config.jobs.map(job => [job.id, job.kind, job.needs])).toEqual([
+        ['release/test-18', 'job', []],
+        ['release/test-20', 'job', []],
+        ['release/infra', 'job', ['release/test-18', 'release/test-20']],
+        ['release/hold', 'approval', ['release/infra']],
+        ['release/deploy', 'job', ['release/hold']],
+        ['nightly/terraform/plan', 'orb', []],
+      ]);
+    });
+
+    it('should substitute job and matrix parameters', async () => {
+      const { config } = await parse(DEPLOY_CONFIG);
+      const test = config.jobs.find(job => job.id === 'release/test-20');
+
+      expect(test?.executor).toEqual({ type: 'docker', image: 'cimg/node:20' });
+      expect(test?.parameters).toEqual({ node: '20' });
+    });
+
+    it('should read contexts, branch filters and reusable executors', async () => {
+      const { config } = await parse(DEPLOY_CONFIG);
+      const infra = config.jobs.find(job => job.id === 'release/infra');
+
+      expect(infra).toMatchObject({
+        contexts: ['aws'],
+        branches: ['main'],
+        executor: { type: 'docker', image: 'hashicorp/terraform:1.7', name: 'tf' },
+        workingDirectory: 'infra',
+        lineStart: 73,
+      });
+    });
+
+    it('should warn about unknown jobs and requires', async () => {
+      const result = await parse('version: 2.1\nworkflows:\n  main:\n    jobs:\n      - lint:\n          requires: [build]\n');
+
+      expect(result.warnings.map(w => [w.code, w.line])).toEqual([
+        ['UNKNOWN_JOB', 5],
+        ['UNKNOWN_DEPENDENCY', undefined],
+      ]);
+    });
+  });
+
+  describe('steps', () => {
+    it('should expand reusable commands and orb commands', async () => {
+      const { config } = await parse(DEPLOY_CONFIG);
+      const infra = config.jobs.find(job => job.id === 'release/infra');
+
+      expect(infra?.steps.map(step => [step.index, step.type, step.orbCommand ?? step.name])).toEqual([
+        [0, 'checkout', undefined],
+        [1, 'orb', 'init'],
+        [2, 'orb', 'apply'],
+        [3, 'run', 'Export vpc_id'],
+        [4, 'persist_to_workspace', undefined],
+      ]);
+      expect(infra?.steps[3]).toMatchObject({
+        fromCommand: 'tf-output',
+        command: 'echo "export VPC_ID=$(terraform output -raw vpc_id)" >> $BASH_ENV',
+      });
+      expect(infra?.steps[4]?.paths).toEqual(['outputs.env']);
+    });
+
+    it('should inline when steps and steps parameters', async () => {
+      const { config } = await parse(`version: 2.1
+commands:
+  wrap:
+    parameters:
+      steps:
+        type: steps
+    steps:
+      - run: echo start
+      - << parameters.steps >>
+jobs:
+  build:
+    docker: [{ image: node:20 }]
+    steps:
+      - when:
+          condition: true
+          steps:
+            - wrap:
+                steps:
+                  - run: make
+`);
+
+      expect(config.jobs[0]?.steps.map(step => step.command)).toEqual(['echo start', 'make']);
+    });
+
+    it('should stop at commands invoking themselves', async () => {
+      const result = await parse('version: 2.1\ncommands:\n  loop:\n    steps: [loop]\njobs:\n  build:\n    docker: [{ image: node }]\n    steps: [loop]\n');
+
+      expect(result.warnings.map(w => w.code)).toEqual(['COMMAND_CYCLE']);
+    });
+  });
+
+  describe('crossref', () => {
+    it('should create pipeline and job nodes with dependency edges', async () => {
+      const { nodes, edges } = await parse(DEPLOY_CONFIG);
+
+      expect(nodes[0]).toMatchObject({
+        type: 'ci_pipeline',
+        metadata: { pipelineType: 'circleci', jobCount: 6, hasTerraformJobs: true, hasHelmJobs: true },
+      });
+      expect(nodes.filter(n => n.type === 'ci_job').map(n => n.name)).toEqual([
+        'test-18', 'test-20', 'infra', 'hold', 'deploy', 'terraform/plan',
+      ]);
+      expect(edges.filter(e => e.type === 'JOB_DEPENDS_ON')).toHaveLength(4);
+    });
+
+    it('should detect Terraform outputs passed to the Helm orb', async () => {
+      const { flows } = await parse(DEPLOY_CONFIG);
+
+      expect(flows.length).toBeGreaterThan(0);
+      expect(flows[0]).toMatchObject({
+        source: { name: 'vpc_id', jobId: 'release/infra' },
+        target: { path: 'vpc.id', jobId: 'release/deploy' },
+      });
+    });
+  });
+});
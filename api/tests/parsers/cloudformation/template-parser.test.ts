@@ -0,0 +1,354 @@
+/**
+ * CloudFormation Template Parser Tests
+ * @module tests/parsers/cloudformation/template-parser
+ *
+ * Unit tests for CloudFormation / SAM template parsing, intrinsic handling
+ * and dependency edge building.
+ * TASK-CFN-001: CloudFormation / SAM template parsing for dependency detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CloudFormationParser,
+  createCloudFormationParser,
+  parseCloudFormationTemplate,
+  createCfnCrossStackEdges,
+  createCfnNodeId,
+  extractSubVariables,
+  resolveStaticString,
+  CfnParseResult,
+} from '@/parsers/cloudformation/index.js';
+import { ParserRegistry } from '@/parsers/registry/parser-registry.js';
+import type { CfnOutputNode, CfnResourceNode } from '@/types/graph.js';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const NETWORK_TEMPLATE = `
+AWSTemplateFormatVersion: '2010-09-09'
+Description: Shared network
+Parameters:
+  Environment:
+    Type: String
+    Default: prod
+  CidrBlock:
+    Type: String
+Resources:
+  Vpc:
+    Type: AWS::EC2::VPC
+    Properties:
+      CidrBlock: !Ref CidrBlock
+      Tags:
+        - Key: Name
+          Value: !Sub '\${Environment}-vpc'
+  Subnet:
+    Type: AWS::EC2::Subnet
+    Properties:
+      VpcId: !Ref Vpc
+      AvailabilityZone: !Select [0, !GetAZs '']
+  RouteTable:
+    Type: AWS::EC2::RouteTable
+    DependsOn: Subnet
+    Properties:
+      VpcId: !GetAtt Vpc.VpcId
+Outputs:
+  VpcId:
+    Value: !Ref Vpc
+    Export:
+      Name: !Sub '\${Environment}-VpcId'
+  SubnetId:
+    Value: !Ref Subnet
+    Export:
+      Name: !Sub '\${AWS::StackName}-SubnetId'
+`;
+
+const APP_TEMPLATE_JSON = JSON.stringify({
+  AWSTemplateFormatVersion: '2010-09-09',
+  Resources: {
+    SecurityGroup: {
+      Type: 'AWS::EC2::SecurityGroup',
+      Properties: {
+        GroupDescription: 'app',
+        VpcId: { 'Fn::ImportValue': 'prod-VpcId' },
+      },
+    },
+    Instance: {
+      Type: 'AWS::EC2::Instance',
+      DependsOn: ['SecurityGroup'],
+      Properties: {
+        SecurityGroupIds: [{ 'Fn::GetAtt': ['SecurityGroup', 'GroupId'] }],
+        UserData: { 'Fn::Base64': { 'Fn::Sub': 'echo ${SecurityGroup.GroupId} ${!Literal}' } },
+      },
+    },
+  },
+}, null, 2);
+
+const SAM_TEMPLATE = `
+Transform: AWS::Serverless-2016-10-31
+Resources:
+  Table:
+    Type: AWS::DynamoDB::Table
+    Properties:
+      BillingMode: PAY_PER_REQUEST
+  Handler:
+    Type: AWS::Serverless::Function
+    Properties:
+      Runtime: nodejs20.x
+      Environment:
+        Variables:
+          TABLE: !Ref Table
+      Role: !GetAtt HandlerRole.Arn
+`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function parse(
+  content: string,
+  filePath = 'stacks/network.yaml',
+  options: Parameters<typeof parseCloudFormationTemplate>[2] = {}
+): Promise<CfnParseResult> {
+  const result = await parseCloudFormationTemplate(content, filePath, options);
+  expect(result.success).toBe(true);
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  return result.data;
+}
+
+const id = (file: string, section: 'Parameters' | 'Resources' | 'Outputs', logicalId: string): string =>
+  createCfnNodeId(file, section, logicalId);
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('CloudFormationParser', () => {
+  describe('canParse', () => {
+    const parser = new CloudFormationParser();
+
+    it('should accept templates in YAML and JSON', () => {
+      expect(parser.canParse('network.yaml', NETWORK_TEMPLATE)).toBe(true);
+      expect(parser.canParse('app.json', APP_TEMPLATE_JSON)).toBe(true);
+      expect(parser.canParse('sam.yml', SAM_TEMPLATE)).toBe(true);
+    });
+
+    it('should reject Kubernetes manifests and plain JSON', () => {
+      expect(parser.canParse('svc.yaml', 'apiVersion: v1\nkind: Service\n')).toBe(false);
+      expect(parser.canParse('package.json', '{"name": "x"}')).toBe(false);
+      expect(parser.canParse('main.tf')).toBe(false);
+    });
+  });
+
+  describe('template parsing', () => {
+    it('should create nodes for parameters, resources and outputs', async () => {
+      const data = await parse(NETWORK_TEMPLATE);
+
+      expect(data.metadata.parameterCount).toBe(2);
+      expect(data.metadata.resourceCount).toBe(3);
+      expect(data.metadata.outputCount).toBe(2);
+      expect(data.nodes.map(n => n.type)).toEqual([
+        'cfn_parameter', 'cfn_parameter',
+        'cfn_resource', 'cfn_resource', 'cfn_resource',
+        'cfn_output', 'cfn_output',
+      ]);
+    });
+
+    it('should record resource types and line ranges', async () => {
+      const data = await parse(NETWORK_TEMPLATE);
+      const subnet = data.nodes.find(
+        (n): n is CfnResourceNode => n.id === id('stacks/network.yaml', 'Resources', 'Subnet')
+      );
+
+      expect(subnet?.resourceType).toBe('AWS::EC2::Subnet');
+      expect(subnet?.location.lineStart).toBe(18);
+      expect(subnet?.location.lineEnd).toBe(22);
+    });
+
+    it('should expand short-form tags to long form', async () => {
+      const data = await parse(NETWORK_TEMPLATE);
+      const subnet = data.template.resources.find(r => r.logicalId === 'Subnet');
+
+      expect(subnet?.body.Properties).toEqual({
+        VpcId: { Ref: 'Vpc' },
+        AvailabilityZone: { 'Fn::Select': [0, { 'Fn::GetAZs': '' }] },
+      });
+    });
+
+    it('should parse JSON templates', async () => {
+      const data = await parse(APP_TEMPLATE_JSON, 'stacks/app.json');
+
+      expect(data.template.format).toBe('json');
+      expect(data.template.resources.map(r => r.logicalId)).toEqual(['SecurityGroup', 'Instance']);
+      expect(data.nodes[0]?.location.lineStart).toBeGreaterThan(1);
+    });
+
+    it('should detect SAM templates', async () => {
+      const data = await parse(SAM_TEMPLATE, 'sam/template.yaml');
+
+      expect(data.template.isSam).toBe(true);
+      expect(data.nodes.find(n => n.name === 'Handler')?.metadata.isSam).toBe(true);
+      // SAM generates HandlerRole, so no unresolved reference warning
+      expect(data.warnings).toHaveLength(0);
+    });
+
+    it('should warn about references to undeclared logical IDs', async () => {
+      const data = await parse(`
+Resources:
+  Bucket:
+    Type: AWS::S3::Bucket
+    Properties:
+      BucketName: !Ref Missing
+`);
+      expect(data.warnings[0]?.code).toBe('UNRESOLVED_REFERENCE');
+    });
+
+    it('should warn about resources without a Type', async () => {
+      const data = await parse(`
+AWSTemplateFormatVersion: '2010-09-09'
+Resources:
+  Broken:
+    Properties: {}
+`);
+      expect(data.nodes).toHaveLength(0);
+      expect(data.warnings[0]?.code).toBe('MISSING_RESOURCE_TYPE');
+    });
+
+    it('should fail on invalid syntax and on non-templates', async () => {
+      expect((await parseCloudFormationTemplate('Resources: [unclosed', 'bad.yaml')).success).toBe(false);
+      expect((await parseCloudFormationTemplate('{ "Resources": ', 'bad.json')).success).toBe(false);
+      expect((await parseCloudFormationTemplate('name: value\n', 'other.yaml')).success).toBe(false);
+    });
+  });
+
+  describe('edges', () => {
+    it('should create depends_on edges from DependsOn', async () => {
+      const data = await parse(NETWORK_TEMPLATE);
+      const file = 'stacks/network.yaml';
+
+      expect(data.edges).toContainEqual(expect.objectContaining({
+        type: 'depends_on',
+        source: id(file, 'Resources', 'RouteTable'),
+        target: id(file, 'Resources', 'Subnet'),
+      }));
+    });
+
+    it('should create references edges for Ref, GetAtt and Sub', async () => {
+      const data = await parse(NETWORK_TEMPLATE);
+      const file = 'stacks/network.yaml';
+      const pairs = data.edges
+        .filter(e => e.type === 'references')
+        .map(e => `${e.source.split('#')[1]} -> ${e.target.split('#')[1]}`);
+
+      expect(pairs).toEqual(expect.arrayContaining([
+        'Resources/Vpc -> Parameters/CidrBlock',
+        'Resources/Vpc -> Parameters/Environment',
+        'Resources/Subnet -> Resources/Vpc',
+        'Resources/RouteTable -> Resources/Vpc',
+        'Outputs/VpcId -> Resources/Vpc',
+        'Outputs/SubnetId -> Resources/Subnet',
+      ]));
+      expect(data.edges.find(e => e.source === id(file, 'Resources', 'Subnet'))?.metadata.attribute)
+        .toBe('Properties.VpcId');
+    });
+
+    it('should handle long-form GetAtt and Sub attribute references', async () => {
+      const data = await parse(APP_TEMPLATE_JSON, 'stacks/app.json');
+      const refs = data.template.resources.find(r => r.logicalId === 'Instance')?.references ?? [];
+
+      expect(refs).toContainEqual(expect.objectContaining({ kind: 'Fn::GetAtt', target: 'SecurityGroup', attribute: 'GroupId' }));
+      expect(refs).toContainEqual(expect.objectContaining({ kind: 'Fn::Sub', target: 'SecurityGroup', attribute: 'GroupId' }));
+      expect(refs.some(r => r.target === 'Literal')).toBe(false);
+    });
+
+    it('should skip edges when generateEdges is disabled', async () => {
+      const data = await parse(NETWORK_TEMPLATE, 'n.yaml', { generateEdges: false });
+      expect(data.edges).toEqual([]);
+    });
+  });
+
+  describe('cross-stack exports', () => {
+    it('should resolve export names from parameter defaults and pseudo parameters', async () => {
+      const data = await parse(NETWORK_TEMPLATE, 'stacks/network.yaml', {
+        pseudoParameters: { 'AWS::StackName': 'network' },
+      });
+      const outputs = data.nodes.filter((n): n is CfnOutputNode => n.type === 'cfn_output');
+
+      expect(outputs.map(o => o.exportName)).toEqual(['prod-VpcId', 'network-SubnetId']);
+    });
+
+    it('should warn when an export name cannot be resolved', async () => {
+      const data = await parse(NETWORK_TEMPLATE);
+      const output = data.template.outputs.find(o => o.logicalId === 'SubnetId');
+
+      expect(output?.exportName).toBeUndefined();
+      expect(output?.exportNameExpression).toEqual({ 'Fn::Sub': '${AWS::StackName}-SubnetId' });
+      expect(data.warnings.map(w => w.code)).toContain('UNRESOLVED_EXPORT_NAME');
+    });
+
+    it('should record imported export names on importing nodes', async () => {
+      const data = await parse(APP_TEMPLATE_JSON, 'stacks/app.json');
+      const sg = data.nodes.find(n => n.name === 'SecurityGroup');
+
+      expect(sg?.metadata.importValues).toEqual(['prod-VpcId']);
+    });
+
+    it('should link importers to exporting outputs across templates', async () => {
+      const network = await parse(NETWORK_TEMPLATE, 'stacks/network.yaml');
+      const app = await parse(APP_TEMPLATE_JSON, 'stacks/app.json');
+
+      const edges = createCfnCrossStackEdges([...network.nodes, ...app.nodes]);
+
+      expect(edges).toHaveLength(1);
+      expect(edges[0]).toMatchObject({
+        type: 'output_value',
+        source: id('stacks/app.json', 'Resources', 'SecurityGroup'),
+        target: id('stacks/network.yaml', 'Outputs', 'VpcId'),
+      });
+    });
+  });
+
+  describe('intrinsics', () => {
+    const context = { parameterDefaults: { Env: 'dev' }, pseudoParameters: { 'AWS::Region': 'eu-west-1' } };
+
+    it('should extract Fn::Sub variables, skipping escapes', () => {
+      expect(extractSubVariables('${A}-${B.Arn}-${!C}')).toEqual(['A', 'B.Arn']);
+    });
+
+    it('should resolve static strings where possible', () => {
+      expect(resolveStaticString({ 'Fn::Sub': '${Env}-${AWS::Region}' }, context)).toBe('dev-eu-west-1');
+      expect(resolveStaticString({ 'Fn::Join': ['-', [{ Ref: 'Env' }, 'x']] }, context)).toBe('dev-x');
+      expect(resolveStaticString({ 'Fn::Sub': ['${V}-y', { V: { Ref: 'Env' } }] }, context)).toBe('dev-y');
+      expect(resolveStaticString({ Ref: 'Unknown' }, context)).toBeUndefined();
+      expect(resolveStaticString({ 'Fn::GetAtt': ['A', 'B'] }, context)).toBeUndefined();
+    });
+  });
+
+  describe('registry integration', () => {
+    it('should select the CloudFormation parser by content', () => {
+      const registry = new ParserRegistry({ enableCache: false });
+
+      expect(registry.getParser({ filePath: 'network.yaml', content: NETWORK_TEMPLATE })?.name)
+        .toBe('cloudformation-parser');
+      expect(registry.getParser({ filePath: 'svc.yaml', content: 'apiVersion: v1\nkind: Service\n' })?.name)
+        .toBe('kubernetes-manifest-parser');
+      expect(registry.detectFormat('app.json', APP_TEMPLATE_JSON)).toBe('cloudformation');
+    });
+
+    it('should parse through the registry', async () => {
+      const registry = new ParserRegistry({ enableCache: false });
+      const result = await registry.parse<CfnParseResult>(NETWORK_TEMPLATE, 'network.yaml');
+
+      expect(result.success && result.data.template.resources).toHaveLength(3);
+    });
+
+    it('should honour parser options through the factory', async () => {
+      const parser = createCloudFormationParser({ warnOnUnresolvedReferences: false });
+      const result = await parser.parse('Resources:\n  B:\n    Type: AWS::S3::Bucket\n    Properties:\n      X: !Ref Nope\n', 't.yaml');
+
+      expect(result.success && result.data.warnings).toEqual([]);
+    });
+  });
+});
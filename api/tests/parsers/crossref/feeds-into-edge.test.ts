@@ -258,6 +258,19 @@ describe('createFeedsIntoEdge', () => {
     expect(edge.metadata.sourceType).toBe('terraform_output');
     expect(edge.metadata.sourceOutputName).toBe('vpc_id');
     expect(edge.metadata.sourceModulePath).toBe('./infra/vpc');
+    expect(edge.metadata).not.toHaveProperty('sourceEnvironment');
+  });
+
+  it('records the environment of the source output', () => {
+    const flow = createMockFlow();
+    const edge = createFeedsIntoEdge(
+      { ...flow, source: { ...flow.source, environment: 'prod' } },
+      'src',
+      'tgt',
+      'scan'
+    );
+
+    expect(edge.metadata.sourceEnvironment).toBe('prod');
   });
 
   it('extracts target metadata correctly', () => {
@@ -842,6 +842,16 @@ describe('FlowAnalyzer', () => {
 
       expect(result.length).toBe(0);
     });
+
+    it('extracts -var-file arguments', () => {
+      const steps = [
+        { run: 'terraform apply -auto-approve -var-file=envs/prod.tfvars -var-file "common.tfvars"' },
+      ];
+
+      const result = analyzer.findTerraformSteps(steps, 'terraform');
+
+      expect(result[0]?.varFiles).toEqual(['envs/prod.tfvars', 'common.tfvars']);
+    });
   });
 
   describe('findHelmSteps', () => {
@@ -1264,6 +1274,39 @@ describe('TfHelmDetector', () => {
       expect(result).toEqual([]);
     });
 
+    it('records the environment of the Terraform step producing each flow', () => {
+      const workflow = createMockGitHubWorkflow();
+      const jobs = workflow.jobs as Record<string, Record<string, unknown>>;
+      const steps = jobs.terraform!.steps as Array<Record<string, unknown>>;
+      jobs.terraform!.environment = { name: 'Production', url: 'https://example.com' };
+      steps[1]!.run = 'terraform apply -auto-approve -var-file=envs/staging.tfvars';
+
+      const partial = createMockPartialFlow();
+      const flowFrom = (stepIndex: number, outputName: string): TerraformToHelmFlow => ({
+        ...partial,
+        id: createTfHelmFlowId('terraform', 'helm', outputName),
+        source: { ...partial.source, stepIndex, name: createTerraformOutputName(outputName) },
+        confidence: 90,
+        confidenceLevel: 'high',
+      });
+      const mockDetector: IPatternDetector = {
+        pattern: 'direct_output',
+        baseConfidence: 90,
+        description: 'Mock detector',
+        detect: vi.fn().mockReturnValue([flowFrom(1, 'vpc_id'), flowFrom(2, 'cluster_endpoint')]),
+        isApplicable: vi.fn().mockReturnValue(true),
+        getPriority: vi.fn().mockReturnValue(100),
+      };
+
+      const detector = createTfHelmDetectorWithDeps(workflow, {}, { patternDetectors: [mockDetector] });
+      const flows = detector.detect();
+
+      expect(flows.map((flow) => [flow.source.name, flow.source.environment])).toEqual([
+        ['vpc_id', 'staging'],
+        ['cluster_endpoint', 'production'],
+      ]);
+    });
+
     it('handles workflow with only helm job', () => {
       const workflow = {
         name: 'Helm Only',
@@ -0,0 +1,400 @@
+/**
+ * Dockerfile Parser Tests
+ * @module tests/parsers/docker/dockerfile-parser
+ *
+ * Unit tests for Dockerfile lexing, multi-stage build parsing and the edges
+ * linking workloads to the Dockerfiles that build their images.
+ * TASK-DOCKER-001: Dockerfile parsing for container image dependency detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, mkdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
+import {
+  DockerfileParser,
+  parseDockerfile,
+  createDockerImageEdges,
+  createDockerStageNodeId,
+  expandVariables,
+  lexDockerfile,
+  parseImageReference,
+  toDockerBuildStep,
+  DockerParseResult,
+} from '@/parsers/docker/index.js';
+import { ParserRegistry } from '@/parsers/registry/parser-registry.js';
+import { analyzeDirectory } from '@/cli/analyze.js';
+import type { DockerStageNode, NodeType } from '@/types/graph.js';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const MULTI_STAGE = `# syntax=docker/dockerfile:1.6
+ARG NODE_VERSION=20
+ARG REGISTRY=ghcr.io/acme
+
+FROM node:\${NODE_VERSION}-alpine AS deps
+WORKDIR /app
+COPY package.json package-lock.json ./
+RUN npm ci
+
+FROM deps AS build
+ARG NODE_ENV=production
+ENV NODE_ENV=$NODE_ENV \\
+    PORT=8080
+COPY . .
+RUN npm run build
+
+FROM \${REGISTRY}/runtime:1.2 AS runtime
+COPY --from=build /app/dist /app
+COPY --from=busybox:1.36 /bin/busybox /bin/busybox
+LABEL org.opencontainers.image.source="https://github.com/acme/api"
+EXPOSE 8080 9090/udp
+CMD ["node", "/app/server.js"]
+`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function parse(
+  content: string,
+  filePath = 'services/api/Dockerfile',
+  options: Parameters<typeof parseDockerfile>[2] = {}
+): Promise<DockerParseResult> {
+  const result = await parseDockerfile(content, filePath, options);
+  expect(result.success).toBe(true);
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  return result.data;
+}
+
+function createDeployment(name: string, image: string): NodeType {
+  return {
+    id: `k8s:Deployment/default/${name}`,
+    type: 'k8s_deployment',
+    name,
+    namespace: 'default',
+    selector: { app: name },
+    containers: [{ name, image }],
+    metadata: {},
+    location: { file: `k8s/${name}.yaml`, lineStart: 1, lineEnd: 20 },
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('DockerfileParser', () => {
+  describe('canParse', () => {
+    const parser = new DockerfileParser();
+
+    it('should accept Dockerfile names', () => {
+      expect(parser.canParse('Dockerfile')).toBe(true);
+      expect(parser.canParse('svc/Dockerfile.prod')).toBe(true);
+      expect(parser.canParse('api.Dockerfile')).toBe(true);
+      expect(parser.canParse('build.dockerfile', 'FROM alpine\n')).toBe(true);
+    });
+
+    it('should reject other files and content without FROM', () => {
+      expect(parser.canParse('docker-compose.yml')).toBe(false);
+      expect(parser.canParse('Dockerfile', '# empty\n')).toBe(false);
+    });
+  });
+
+  describe('lexing', () => {
+    it('should join continuation lines and skip comments inside them', () => {
+      const { instructions } = lexDockerfile('RUN apk add \\\n  # tools\n  curl \\\n  git\nUSER app\n');
+
+      expect(instructions.map(i => i.keyword)).toEqual(['RUN', 'USER']);
+      expect(instructions[0]).toMatchObject({ args: 'apk add   curl   git', lineStart: 1, lineEnd: 4 });
+    });
+
+    it('should honour the escape directive', () => {
+      const lexed = lexDockerfile('# escape=`\nFROM mcr.microsoft.com/windows/servercore\nRUN dir `\n  C:\\\n');
+
+      expect(lexed.escapeChar).toBe('`');
+      expect(lexed.instructions[1]?.args).toBe('dir   C:\\');
+    });
+
+    it('should consume heredoc bodies', () => {
+      const lexed = lexDockerfile('FROM alpine\nRUN <<EOF\nFROM not-a-stage\nEOF\nEXPOSE 80\n');
+
+      expect(lexed.instructions.map(i => i.keyword)).toEqual(['FROM', 'RUN', 'EXPOSE']);
+      expect(lexed.instructions[1]?.lineEnd).toBe(4);
+    });
+
+    it('should report unterminated heredocs', () => {
+      const lexed = lexDockerfile('FROM alpine\nCOPY <<EOF /etc/motd\nhello\n');
+
+      expect(lexed.errors[0]?.code).toBe('UNTERMINATED_HEREDOC');
+    });
+
+    it('should parse leading flags', () => {
+      const [instruction] = lexDockerfile('COPY --from=build --chown=app:app /src /dst\n').instructions;
+
+      expect(instruction?.flags).toEqual({ from: 'build', chown: 'app:app' });
+      expect(instruction?.body).toBe('/src /dst');
+    });
+  });
+
+  describe('variable expansion', () => {
+    const values: Record<string, string> = { A: 'x', EMPTY: '' };
+    const lookup = (name: string): string | undefined => values[name];
+
+    it('should substitute plain and braced variables with modifiers', () => {
+      expect(expandVariables('$A-${A}', lookup).value).toBe('x-x');
+      expect(expandVariables('${EMPTY:-def}/${A:-def}', lookup).value).toBe('def/x');
+      expect(expandVariables('${A:+alt}${EMPTY:+alt}', lookup).value).toBe('alt');
+    });
+
+    it('should keep and report unknown variables', () => {
+      const expansion = expandVariables('${B}/$C', lookup);
+
+      expect(expansion.value).toBe('${B}/$C');
+      expect(expansion.unresolved).toEqual(['B', 'C']);
+    });
+  });
+
+  describe('image references', () => {
+    it('should normalize Docker Hub and registry images', () => {
+      expect(parseImageReference('nginx')).toMatchObject({ registry: 'docker.io', repository: 'library/nginx' });
+      expect(parseImageReference('ghcr.io/Acme/api:1.2')).toMatchObject({
+        registry: 'ghcr.io',
+        repository: 'acme/api',
+        tag: '1.2',
+      });
+      expect(parseImageReference('localhost:5000/app@sha256:abc')).toMatchObject({
+        registry: 'localhost:5000',
+        repository: 'app',
+        digest: 'sha256:abc',
+      });
+    });
+
+    it('should reject unresolved and malformed references', () => {
+      expect(parseImageReference('${REGISTRY}/app')).toBeNull();
+      expect(parseImageReference('{{ .Values.image }}')).toBeNull();
+    });
+  });
+
+  describe('multi-stage builds', () => {
+    it('should build stages with resolved base images', async () => {
+      const { dockerfile } = await parse(MULTI_STAGE);
+
+      expect(dockerfile.syntax).toBe('docker/dockerfile:1.6');
+      expect(dockerfile.globalArgs).toEqual({ NODE_VERSION: '20', REGISTRY: 'ghcr.io/acme' });
+      expect(dockerfile.stages.map(s => [s.name, s.baseImage, s.baseStageIndex])).toEqual([
+        ['deps', 'node:20-alpine', undefined],
+        ['build', 'deps', 0],
+        ['runtime', 'ghcr.io/acme/runtime:1.2', undefined],
+      ]);
+    });
+
+    it('should collect ARG, ENV, LABEL and EXPOSE per stage', async () => {
+      const { dockerfile } = await parse(MULTI_STAGE);
+      const [, build, runtime] = dockerfile.stages;
+
+      expect(build?.args).toEqual({ NODE_ENV: 'production' });
+      expect(build?.env).toEqual({ NODE_ENV: 'production', PORT: '8080' });
+      expect(runtime?.labels).toEqual({ 'org.opencontainers.image.source': 'https://github.com/acme/api' });
+      expect(runtime?.exposedPorts).toEqual(['8080/tcp', '9090/udp']);
+      expect(runtime?.copySources.map(c => [c.from, c.stageIndex])).toEqual([
+        ['build', 1],
+        ['busybox:1.36', undefined],
+      ]);
+    });
+
+    it('should apply build args over ARG defaults', async () => {
+      const { dockerfile } = await parse(MULTI_STAGE, 'Dockerfile', { buildArgs: { NODE_VERSION: '22' } });
+
+      expect(dockerfile.stages[0]?.baseImage).toBe('node:22-alpine');
+    });
+
+    it('should create stage and image nodes', async () => {
+      const { nodes } = await parse(MULTI_STAGE, 'services/api/Dockerfile', { imageNames: ['ghcr.io/acme/api:latest'] });
+      const stages = nodes.filter((n): n is DockerStageNode => n.type === 'docker_stage');
+
+      expect(stages.map(s => [s.name, s.isFinal])).toEqual([
+        ['deps', false],
+        ['build', false],
+        ['runtime', true],
+      ]);
+      expect(stages[2]?.metadata.imageNames).toEqual(['ghcr.io/acme/api:latest']);
+      expect(nodes.filter(n => n.type === 'docker_image').map(n => n.id).sort()).toEqual([
+        'docker_image:docker.io/library/busybox:1.36',
+        'docker_image:docker.io/library/node:20-alpine',
+        'docker_image:ghcr.io/acme/runtime:1.2',
+      ]);
+    });
+
+    it('should link stages with base_image and copies_from edges', async () => {
+      const { edges } = await parse(MULTI_STAGE);
+      const stage = (i: number): string => createDockerStageNodeId('services/api/Dockerfile', i);
+
+      expect(edges.map(e => [e.type, e.source, e.target])).toEqual([
+        ['base_image', stage(0), 'docker_image:docker.io/library/node:20-alpine'],
+        ['base_image', stage(1), stage(0)],
+        ['base_image', stage(2), 'docker_image:ghcr.io/acme/runtime:1.2'],
+        ['copies_from', stage(2), stage(1)],
+        ['copies_from', stage(2), 'docker_image:docker.io/library/busybox:1.36'],
+      ]);
+    });
+
+    it('should warn about unresolved FROM variables and skip the image node', async () => {
+      const result = await parse('FROM ${BASE_IMAGE}\nRUN true\n');
+
+      expect(result.warnings.map(w => w.code)).toEqual(['UNRESOLVED_VARIABLE']);
+      expect(result.nodes.map(n => n.type)).toEqual(['docker_stage']);
+    });
+
+    it('should not create an image node for scratch', async () => {
+      const result = await parse('FROM golang:1.22 AS build\nFROM scratch\nCOPY --from=0 /bin/app /app\n');
+
+      expect(result.nodes.filter(n => n.type === 'docker_image')).toHaveLength(1);
+      expect(result.edges.find(e => e.type === 'copies_from')?.target)
+        .toBe(createDockerStageNodeId('services/api/Dockerfile', 0));
+    });
+
+    it('should fail without a FROM instruction', async () => {
+      const result = await parseDockerfile('RUN echo hi\n', 'Dockerfile');
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('createDockerImageEdges', () => {
+    it('should link workloads to Dockerfiles that record the image name', async () => {
+      const { nodes } = await parse(MULTI_STAGE, 'services/api/Dockerfile', { imageNames: ['ghcr.io/acme/api'] });
+      const deployment = createDeployment('api', 'ghcr.io/acme/api:1.4.0');
+
+      const edges = createDockerImageEdges([...nodes, deployment]);
+
+      expect(edges).toHaveLength(1);
+      expect(edges[0]).toMatchObject({
+        type: 'runs_image',
+        source: deployment.id,
+        target: createDockerStageNodeId('services/api/Dockerfile', 2),
+        metadata: { confidence: 95 },
+      });
+    });
+
+    it('should link Helm image values through CI build steps', async () => {
+      const { nodes } = await parse('FROM alpine\n', 'services/worker/Dockerfile');
+      const helmValue: NodeType = {
+        id: 'chart/values.yaml#worker.image.repository',
+        type: 'helm_value',
+        name: 'worker.image.repository',
+        path: 'worker.image.repository',
+        value: 'registry.gitlab.com/acme/worker-img',
+        metadata: {},
+        location: { file: 'chart/values.yaml', lineStart: 3, lineEnd: 3 },
+      };
+      const step = toDockerBuildStep({
+        dockerfile: './services/worker/Dockerfile',
+        tags: ['registry.gitlab.com/acme/worker-img:$CI_COMMIT_SHA', 'registry.gitlab.com/acme/worker-img:latest'],
+      }, 'build-worker');
+
+      const edges = createDockerImageEdges([...nodes, helmValue], [step]);
+
+      expect(edges.map(e => [e.source, e.target, e.metadata.confidence])).toEqual([
+        [helmValue.id, createDockerStageNodeId('services/worker/Dockerfile', 0), 90],
+      ]);
+      expect(edges[0]?.metadata.evidence?.[0]?.description).toContain('build-worker');
+    });
+
+    it('should fall back to directory names only for unmapped images', async () => {
+      const api = await parse('FROM alpine\n', 'services/api/Dockerfile', { imageNames: ['acme/api'] });
+      const web = await parse('FROM alpine\n', 'services/web/Dockerfile');
+
+      const edges = createDockerImageEdges([
+        ...api.nodes,
+        ...web.nodes,
+        createDeployment('web', 'acme/web:2'),
+        createDeployment('other', 'acme/other:1'),
+      ]);
+
+      expect(edges.map(e => [e.source, e.target, e.metadata.confidence])).toEqual([
+        ['k8s:Deployment/default/web', createDockerStageNodeId('services/web/Dockerfile', 0), 55],
+      ]);
+    });
+  });
+
+  describe('registry integration', () => {
+    it('should select the Dockerfile parser by file name', () => {
+      const registry = new ParserRegistry({ enableCache: false });
+
+      expect(registry.getParser({ filePath: 'services/api/Dockerfile' })?.name).toBe('dockerfile-parser');
+      expect(registry.getParser({ filePath: 'Dockerfile.prod' })?.name).toBe('dockerfile-parser');
+      expect(registry.getParser({ filePath: 'api.dockerfile' })?.name).toBe('dockerfile-parser');
+    });
+
+    it('should leave YAML outside CI pipeline paths to the manifest parsers', () => {
+      const registry = new ParserRegistry({ enableCache: false });
+
+      expect(registry.getParser({ filePath: 'deploy/web.yaml' })?.name).toBe('kubernetes-manifest-parser');
+      expect(registry.getParser({ filePath: '.github/workflows/build.yml' })?.name).toBe('github-actions-parser');
+      expect(registry.getParser({ filePath: '.gitlab-ci.yml' })?.name).toBe('gitlab-ci-parser');
+    });
+
+    it('should parse through the registry', async () => {
+      const registry = new ParserRegistry({ enableCache: false });
+      const result = await registry.parse<DockerParseResult>(MULTI_STAGE, 'Dockerfile');
+
+      expect(result.success && result.data.dockerfile.stages).toHaveLength(3);
+    });
+  });
+
+  describe('scan integration', () => {
+    it('should link workloads to Dockerfiles through CI image builds', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'docker-scan-'));
+      const files: Record<string, string> = {
+        'services/web/Dockerfile': 'FROM nginx:1.27\nCOPY dist /usr/share/nginx/html\n',
+        'deploy/frontend.yaml': [
+          'apiVersion: apps/v1',
+          'kind: Deployment',
+          'metadata:',
+          '  name: frontend',
+          'spec:',
+          '  selector:',
+          '    matchLabels: { app: frontend }',
+          '  template:',
+          '    metadata:',
+          '      labels: { app: frontend }',
+          '    spec:',
+          '      containers:',
+          '        - name: frontend',
+          '          image: registry.gitlab.com/acme/frontend:1.0.0',
+          '',
+        ].join('\n'),
+        '.gitlab-ci.yml': [
+          'stages: [build]',
+          'build-frontend:',
+          '  stage: build',
+          '  script:',
+          '    - docker build -f services/web/Dockerfile -t registry.gitlab.com/acme/frontend:$CI_COMMIT_SHA .',
+          '',
+        ].join('\n'),
+      };
+
+      try {
+        for (const [path, content] of Object.entries(files)) {
+          await mkdir(join(dir, dirname(path)), { recursive: true });
+          await writeFile(join(dir, path), content);
+        }
+
+        const result = await analyzeDirectory(dir);
+
+        const stage = result.nodes.find(node => node.type === 'docker_stage');
+        const deployment = result.nodes.find(node => node.type === 'k8s_deployment');
+        const edge = result.edges.find(e => e.type === 'runs_image');
+        expect(edge).toMatchObject({ source: deployment?.id, target: stage?.id, metadata: { confidence: 90 } });
+        expect(edge?.metadata.evidence?.[0]?.description).toContain('build-frontend');
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+});
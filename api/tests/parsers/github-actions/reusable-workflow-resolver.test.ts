@@ -0,0 +1,416 @@
+/**
+ * Reusable Workflow Resolver Tests
+ * @module tests/parsers/github-actions/reusable-workflow-resolver.test
+ *
+ * Unit tests for inlining reusable workflow calls and composite actions
+ * into the calling workflow.
+ * TASK-GHA-REUSE-001: Reusable workflow and composite action resolution
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as yaml from 'yaml';
+import {
+  GhaReusableWorkflowResolver,
+  GitHubActionsParser,
+  type GhaRepositoryReader,
+  type GhaParseResult,
+} from '@/parsers/github-actions/index.js';
+import { createFlowAnalyzer } from '@/parsers/crossref/flow-analyzer.js';
+
+function memoryReader(files: Record<string, string>): GhaRepositoryReader {
+  return {
+    readFile: async (filePath: string) => files[filePath] ?? null,
+  };
+}
+
+type JobMap = Record<string, Record<string, unknown>>;
+
+function jobsOf(document: Readonly<Record<string, unknown>>): JobMap {
+  return document.jobs as JobMap;
+}
+
+const DEPLOY_WORKFLOW = `name: Deploy
+on: push
+jobs:
+  infra:
+    uses: ./.github/workflows/terraform.yml
+    with:
+      working-directory: infra
+    secrets: inherit
+  deploy:
+    needs: infra
+    uses: ./.github/workflows/helm.yml
+    with:
+      vpc_id: \${{ needs.infra.outputs.vpc_id }}
+  notify:
+    needs: [deploy]
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo "\${{ needs.deploy.outputs.release }}"
+`;
+
+const TERRAFORM_WORKFLOW = `on:
+  workflow_call:
+    inputs:
+      working-directory:
+        type: string
+      terraform-version:
+        type: string
+        default: '1.6.0'
+    outputs:
+      vpc_id:
+        value: \${{ jobs.apply.outputs.vpc_id }}
+jobs:
+  apply:
+    runs-on: ubuntu-latest
+    outputs:
+      vpc_id: \${{ steps.output.outputs.vpc_id }}
+    defaults:
+      run:
+        working-directory: \${{ inputs.working-directory }}
+    steps:
+      - uses: hashicorp/setup-terraform@v3
+        with:
+          terraform_version: \${{ inputs.terraform-version }}
+      - run: terraform apply -auto-approve
+      - id: output
+        run: echo "vpc_id=$(terraform output -raw vpc_id)" >> $GITHUB_OUTPUT
+`;
+
+const HELM_WORKFLOW = `on:
+  workflow_call:
+    inputs:
+      vpc_id:
+        type: string
+        required: true
+    outputs:
+      release:
+        value: app
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+    steps:
+      - run: helm lint ./charts/app
+  release:
+    needs: lint
+    runs-on: ubuntu-latest
+    steps:
+      - run: helm upgrade --install app ./charts/app --set vpc.id=\${{ inputs.vpc_id }}
+`;
+
+const FILES = {
+  '.github/workflows/terraform.yml': TERRAFORM_WORKFLOW,
+  '.github/workflows/helm.yml': HELM_WORKFLOW,
+};
+
+describe('GhaReusableWorkflowResolver', () => {
+  describe('reusable workflows', () => {
+    it('should inline called jobs with prefixed IDs and rewired needs', async () => {
+      const resolver = new GhaReusableWorkflowResolver(memoryReader(FILES));
+      const { document, resolved, unresolved } = await resolver.resolveContent(
+        DEPLOY_WORKFLOW,
+        '.github/workflows/deploy.yml'
+      );
+      const jobs = jobsOf(document);
+
+      expect(unresolved).toEqual([]);
+      expect(Object.keys(jobs)).toEqual(['infra--apply', 'deploy--lint', 'deploy--release', 'notify']);
+      expect(jobs['infra--apply']?.needs).toBeUndefined();
+      expect(jobs['deploy--lint']?.needs).toEqual(['infra--apply']);
+      expect(jobs['deploy--release']?.needs).toEqual(['deploy--lint']);
+      // Only the last called job replaces the caller in needs
+      expect(jobs.notify?.needs).toEqual(['deploy--release']);
+
+      expect(resolved.map(r => [r.callerJobId, r.filePath, r.expandedInto])).toEqual([
+        ['infra', '.github/workflows/terraform.yml', ['infra--apply']],
+        ['deploy', '.github/workflows/helm.yml', ['deploy--lint', 'deploy--release']],
+      ]);
+    });
+
+    it('should substitute inputs from with: and input defaults', async () => {
+      const resolver = new GhaReusableWorkflowResolver(memoryReader(FILES));
+      const { document } = await resolver.resolveContent(DEPLOY_WORKFLOW, '.github/workflows/deploy.yml');
+      const apply = jobsOf(document)['infra--apply'];
+
+      expect(apply?.defaults).toEqual({ run: { 'working-directory': 'infra' } });
+      expect((apply?.steps as Array<Record<string, unknown>>)[0]?.with).toEqual({ terraform_version: '1.6.0' });
+    });
+
+    it('should route outputs of called workflows back to their consumers', async () => {
+      const resolver = new GhaReusableWorkflowResolver(memoryReader(FILES));
+      const { document } = await resolver.resolveContent(DEPLOY_WORKFLOW, '.github/workflows/deploy.yml');
+      const jobs = jobsOf(document);
+
+      const release = (jobs['deploy--release']?.steps as Array<{ run: string }>)[0]?.run;
+      expect(release).toBe(
+        'helm upgrade --install app ./charts/app --set vpc.id=${{ needs.infra--apply.outputs.vpc_id }}'
+      );
+
+      const notify = (jobs.notify?.steps as Array<{ run: string }>)[0]?.run;
+      expect(notify).toBe("echo \"${{ 'app' }}\"");
+    });
+
+    it('should expose Terraform and Helm steps of called workflows to flow analysis', async () => {
+      const analyzer = createFlowAnalyzer();
+      const toolJobs = (jobs: JobMap) => Object.entries(jobs).flatMap(([jobId, job]) => {
+        const steps = Array.isArray(job.steps) ? job.steps : [];
+        return [
+          ...analyzer.findTerraformSteps(steps, jobId).map(step => ['terraform', jobId, step.outputs]),
+          ...analyzer.findHelmSteps(steps, jobId).map(step => ['helm', jobId, step.releaseName]),
+        ];
+      });
+      const resolver = new GhaReusableWorkflowResolver(memoryReader(FILES));
+      const { document } = await resolver.resolveContent(DEPLOY_WORKFLOW, '.github/workflows/deploy.yml');
+
+      expect(toolJobs(jobsOf(yaml.parse(DEPLOY_WORKFLOW) as Record<string, unknown>))).toEqual([]);
+      expect(toolJobs(jobsOf(document))).toEqual(expect.arrayContaining([
+        ['terraform', 'infra--apply', ['vpc_id']],
+        ['helm', 'deploy--release', expect.anything()],
+      ]));
+    });
+
+    it('should substitute secrets unless they are inherited', async () => {
+      const files = {
+        '.github/workflows/push.yml': `on:
+  workflow_call:
+    secrets:
+      token:
+        required: true
+jobs:
+  push:
+    runs-on: ubuntu-latest
+    steps:
+      - run: docker login -p \${{ secrets.token }}
+`,
+      };
+      const resolver = new GhaReusableWorkflowResolver(memoryReader(files));
+      const { document } = await resolver.resolveContent(`on: push
+jobs:
+  publish:
+    uses: ./.github/workflows/push.yml
+    secrets:
+      token: \${{ secrets.REGISTRY_TOKEN }}
+`, '.github/workflows/ci.yml');
+
+      const step = (jobsOf(document)['publish--push']?.steps as Array<{ run: string }>)[0];
+      expect(step?.run).toBe('docker login -p ${{ secrets.REGISTRY_TOKEN }}');
+    });
+
+    it('should resolve nested reusable workflows', async () => {
+      const files = {
+        ...FILES,
+        '.github/workflows/platform.yml': `on:
+  workflow_call:
+    outputs:
+      vpc_id:
+        value: \${{ jobs.network.outputs.vpc_id }}
+jobs:
+  network:
+    uses: ./.github/workflows/terraform.yml
+    with:
+      working-directory: network
+`,
+      };
+      const resolver = new GhaReusableWorkflowResolver(memoryReader(files));
+      const { document, resolved } = await resolver.resolveContent(`on: push
+jobs:
+  platform:
+    uses: ./.github/workflows/platform.yml
+  deploy:
+    needs: platform
+    uses: ./.github/workflows/helm.yml
+    with:
+      vpc_id: \${{ needs.platform.outputs.vpc_id }}
+`, '.github/workflows/root.yml');
+      const jobs = jobsOf(document);
+
+      expect(Object.keys(jobs)).toContain('platform--network--apply');
+      expect(jobs['deploy--lint']?.needs).toEqual(['platform--network--apply']);
+      expect((jobs['deploy--release']?.steps as Array<{ run: string }>)[0]?.run)
+        .toContain('${{ needs.platform--network--apply.outputs.vpc_id }}');
+      expect(resolved.find(r => r.callerJobId === 'network')?.depth).toBe(2);
+    });
+  });
+
+  describe('composite actions', () => {
+    const ACTION = `name: Terraform output
+inputs:
+  name:
+    required: true
+outputs:
+  value:
+    value: \${{ steps.read.outputs.value }}
+runs:
+  using: composite
+  steps:
+    - run: terraform init
+      shell: bash
+    - id: read
+      run: echo "value=$(terraform output -raw \${{ inputs.name }})" >> $GITHUB_OUTPUT
+      shell: bash
+`;
+
+    it('should replace composite action steps with the action steps', async () => {
+      const resolver = new GhaReusableWorkflowResolver(memoryReader({ '.github/actions/tf-output/action.yml': ACTION }));
+      const { document, resolved } = await resolver.resolveContent(`on: push
+jobs:
+  infra:
+    runs-on: ubuntu-latest
+    outputs:
+      vpc_id: \${{ steps.vpc.outputs.value }}
+    steps:
+      - uses: actions/checkout@v4
+      - id: vpc
+        uses: ./.github/actions/tf-output
+        env:
+          TF_IN_AUTOMATION: 'true'
+        with:
+          name: vpc_id
+`, '.github/workflows/infra.yml');
+      const infra = jobsOf(document).infra;
+      const steps = infra?.steps as Array<Record<string, unknown>>;
+
+      expect(steps).toHaveLength(3);
+      expect(steps[0]?.uses).toBe('actions/checkout@v4');
+      expect(steps[2]).toMatchObject({
+        id: 'vpc--read',
+        run: 'echo "value=$(terraform output -raw vpc_id)" >> $GITHUB_OUTPUT',
+        env: { TF_IN_AUTOMATION: 'true' },
+      });
+      expect(infra?.outputs).toEqual({ vpc_id: '${{ steps.vpc--read.outputs.value }}' });
+      expect(resolved[0]).toMatchObject({
+        kind: 'composite_action',
+        filePath: '.github/actions/tf-output/action.yml',
+        expandedInto: ['vpc--read'],
+      });
+    });
+
+    it('should leave JavaScript actions and disabled expansion alone', async () => {
+      const files = {
+        '.github/actions/node/action.yaml': 'runs:\n  using: node20\n  main: index.js\n',
+        '.github/actions/tf-output/action.yml': ACTION,
+      };
+      const workflow = `on: push
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - uses: ./.github/actions/node
+      - uses: ./.github/actions/tf-output
+`;
+
+      const expanded = await new GhaReusableWorkflowResolver(memoryReader(files))
+        .resolveContent(workflow, '.github/workflows/build.yml');
+      expect((jobsOf(expanded.document).build?.steps as unknown[])).toHaveLength(3);
+
+      const disabled = await new GhaReusableWorkflowResolver(memoryReader(files), { expandCompositeActions: false })
+        .resolveContent(workflow, '.github/workflows/build.yml');
+      expect((jobsOf(disabled.document).build?.steps as unknown[])).toHaveLength(2);
+      expect(disabled.resolved).toEqual([]);
+    });
+  });
+
+  describe('unresolved references', () => {
+    it('should keep calls to missing files and report them', async () => {
+      const resolver = new GhaReusableWorkflowResolver(memoryReader({}));
+      const { document, unresolved } = await resolver.resolveContent(`on: push
+jobs:
+  infra:
+    uses: ./.github/workflows/missing.yml
+`, '.github/workflows/ci.yml');
+
+      expect(jobsOf(document).infra?.uses).toBe('./.github/workflows/missing.yml');
+      expect(unresolved).toEqual([expect.objectContaining({
+        kind: 'workflow',
+        callerJobId: 'infra',
+        code: 'FILE_READ_ERROR',
+      })]);
+    });
+
+    it('should detect circular workflow calls', async () => {
+      const files = {
+        '.github/workflows/a.yml': 'on: workflow_call\njobs:\n  b:\n    uses: ./.github/workflows/b.yml\n',
+        '.github/workflows/b.yml': 'on: workflow_call\njobs:\n  a:\n    uses: ./.github/workflows/a.yml\n',
+      };
+      const resolver = new GhaReusableWorkflowResolver(memoryReader(files));
+      const { unresolved } = await resolver.resolveContent(
+        'on: push\njobs:\n  start:\n    uses: ./.github/workflows/a.yml\n',
+        '.github/workflows/ci.yml'
+      );
+
+      expect(unresolved.map(u => u.code)).toEqual(['CIRCULAR_DEPENDENCY']);
+    });
+
+    it('should not follow other repositories unless enabled', async () => {
+      const workflow = `on: push
+jobs:
+  shared:
+    uses: org/workflows/.github/workflows/build.yml@v1
+    with:
+      target: app
+`;
+      const reader: GhaRepositoryReader = {
+        readFile: async () => null,
+        readRepositoryFile: async (repository, filePath, ref) =>
+          repository === 'org/workflows' && filePath === '.github/workflows/build.yml' && ref === 'v1'
+            ? 'on:\n  workflow_call:\n    inputs:\n      target:\n        type: string\njobs:\n  build:\n    runs-on: ubuntu-latest\n    steps:\n      - run: make ${{ inputs.target }}\n'
+            : null,
+      };
+
+      const disabled = await new GhaReusableWorkflowResolver(reader).resolveContent(workflow, 'ci.yml');
+      expect(disabled.unresolved[0]?.code).toBe('UNRESOLVED_REFERENCE');
+      expect(Object.keys(jobsOf(disabled.document))).toEqual(['shared']);
+
+      const enabled = await new GhaReusableWorkflowResolver(reader, { resolveRemote: true })
+        .resolveContent(workflow, 'ci.yml');
+      expect(enabled.resolved[0]).toMatchObject({ repository: 'org/workflows', ref: 'v1' });
+      expect((jobsOf(enabled.document)['shared--build']?.steps as Array<{ run: string }>)[0]?.run).toBe('make app');
+    });
+  });
+});
+
+describe('GitHubActionsParser with a repository reader', () => {
+  async function parse(parser: GitHubActionsParser, content: string): Promise<GhaParseResult> {
+    const result = await parser.parse(content, '.github/workflows/deploy.yml');
+    if (!result.success) {
+      throw new Error('parse failed');
+    }
+    return result.data;
+  }
+
+  it('should build jobs and detect tool steps of called workflows', async () => {
+    const parser = new GitHubActionsParser({ repositoryReader: memoryReader(FILES) });
+
+    const { workflow, terraformSteps, helmSteps } = await parse(parser, DEPLOY_WORKFLOW);
+
+    expect([...workflow!.jobs.keys()]).toEqual(['infra--apply', 'deploy--lint', 'deploy--release', 'notify']);
+    expect(terraformSteps.map(step => step.jobId)).toContain('infra--apply');
+    expect(helmSteps.map(step => step.jobId)).toContain('deploy--release');
+  });
+
+  it('should keep calls it cannot read as jobs and report them', async () => {
+    const parser = new GitHubActionsParser({ repositoryReader: memoryReader({}) });
+
+    const { workflow, warnings } = await parse(parser, DEPLOY_WORKFLOW);
+
+    expect(workflow!.jobs.get('infra')?.uses).toBe('./.github/workflows/terraform.yml');
+    expect(warnings.map(w => w.code)).toEqual(['FILE_READ_ERROR', 'FILE_READ_ERROR']);
+  });
+
+  it('should keep only scalar with: inputs', async () => {
+    const parser = new GitHubActionsParser();
+
+    const { workflow } = await parse(parser, `on: push
+jobs:
+  build:
+    uses: ./.github/workflows/build.yml
+    with:
+      target: app
+      retries: 3
+      nested: { a: 1 }
+      list: [1, 2]
+`);
+
+    expect(workflow!.jobs.get('build')?.with).toEqual({ target: 'app', retries: 3 });
+  });
+});
@@ -0,0 +1,330 @@
+/**
+ * Helm Chart Renderer Tests
+ * @module tests/parsers/helm/chart-renderer
+ *
+ * Unit tests for rendering charts into effective Kubernetes resources with
+ * chart values, Helmfile and ArgoCD overrides, and helm_renders edges.
+ * TASK-HELM-RENDER-001: Helm template rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as yaml from 'yaml';
+import {
+  HelmChartFileParser,
+  applyHelmSetValue,
+  collectHelmCharts,
+  createArgoCDHelmReleaseSpec,
+  createDefaultHelmRelease,
+  createHelmfileReleaseSpec,
+  mergeHelmValues,
+  renderHelmRelease,
+  type HelmChartFile,
+  type HelmChartFileParseResult,
+  type HelmChartSource,
+} from '@/parsers/helm/index.js';
+import { createArgoCDGraph, parseArgoCDManifest } from '@/parsers/argocd/index.js';
+import { ParserRegistry } from '@/parsers/registry/parser-registry.js';
+import type { K8sDeploymentNode } from '@/types/graph.js';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const CHART_YAML = `apiVersion: v2
+name: web
+version: 1.2.0
+appVersion: "2.0.0"
+`;
+
+const VALUES_YAML = `replicaCount: 1
+image:
+  repository: registry.example.com/web
+  tag: ""
+service:
+  enabled: true
+  port: 80
+ingress:
+  enabled: false
+  host: web.example.com
+env: {}
+`;
+
+const HELPERS_TPL = `{{/* Common helpers */}}
+{{- define "web.fullname" -}}
+{{- printf "%s-%s" .Release.Name .Chart.Name | trunc 63 | trimSuffix "-" }}
+{{- end }}
+
+{{- define "web.labels" -}}
+app.kubernetes.io/name: {{ .Chart.Name }}
+app.kubernetes.io/instance: {{ .Release.Name }}
+{{- end }}
+`;
+
+const DEPLOYMENT_YAML = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: {{ include "web.fullname" . }}
+  labels:
+    {{- include "web.labels" . | nindent 4 }}
+spec:
+  replicas: {{ .Values.replicaCount }}
+  selector:
+    matchLabels:
+      {{- include "web.labels" . | nindent 6 }}
+  template:
+    metadata:
+      labels:
+        {{- include "web.labels" . | nindent 8 }}
+    spec:
+      containers:
+        - name: web
+          image: "{{ .Values.image.repository }}:{{ .Values.image.tag | default .Chart.AppVersion }}"
+          {{- with .Values.env }}
+          env:
+            {{- range $name, $value := . }}
+            - name: {{ $name }}
+              value: {{ $value | quote }}
+            {{- end }}
+          {{- end }}
+`;
+
+const SERVICE_YAML = `{{- if .Values.service.enabled }}
+apiVersion: v1
+kind: Service
+metadata:
+  name: {{ include "web.fullname" . }}
+spec:
+  selector:
+    {{- include "web.labels" . | nindent 4 }}
+  ports:
+    - port: {{ .Values.service.port }}
+{{- end }}
+`;
+
+const INGRESS_YAML = `{{- if .Values.ingress.enabled -}}
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata:
+  name: {{ include "web.fullname" . }}
+spec:
+  rules:
+    - host: {{ .Values.ingress.host }}
+      http:
+        paths:
+          - path: /
+            pathType: Prefix
+            backend:
+              service:
+                name: {{ include "web.fullname" . }}
+                port:
+                  number: {{ .Values.service.port }}
+{{- end }}
+`;
+
+function createChart(): HelmChartSource {
+  const files: HelmChartFile[] = [
+    { kind: 'chart', filePath: 'charts/web/Chart.yaml', chartDirectory: 'charts/web', metadata: { apiVersion: 'v2', name: 'web', version: '1.2.0', appVersion: '2.0.0', type: 'application' } },
+    { kind: 'values', filePath: 'charts/web/values.yaml', chartDirectory: 'charts/web', values: yaml.parse(VALUES_YAML) as Record<string, unknown> },
+    { kind: 'template', filePath: 'charts/web/templates/_helpers.tpl', chartDirectory: 'charts/web', content: HELPERS_TPL },
+    { kind: 'template', filePath: 'charts/web/templates/deployment.yaml', chartDirectory: 'charts/web', content: DEPLOYMENT_YAML },
+    { kind: 'template', filePath: 'charts/web/templates/service.yaml', chartDirectory: 'charts/web', content: SERVICE_YAML },
+    { kind: 'template', filePath: 'charts/web/templates/ingress.yaml', chartDirectory: 'charts/web', content: INGRESS_YAML },
+  ];
+  const [chart] = collectHelmCharts(files);
+  if (!chart) throw new Error('chart not collected');
+  return chart;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('renderHelmRelease', () => {
+  it('should render chart templates with default values into K8s nodes', () => {
+    const chart = createChart();
+    const result = renderHelmRelease(chart, createDefaultHelmRelease(chart));
+
+    expect(result.warnings).toEqual([]);
+    expect(result.release.id).toBe('release-web-default');
+    expect(result.release.chartRef).toBe('charts/web');
+    expect(result.resourceNodes.map(n => n.id).sort()).toEqual([
+      'Deployment/default/web-web',
+      'Service/default/web-web',
+    ]);
+
+    const deployment = result.resourceNodes.find(n => n.type === 'k8s_deployment') as K8sDeploymentNode;
+    expect(deployment.replicas).toBe(1);
+    expect(deployment.containers[0]?.image).toBe('registry.example.com/web:2.0.0');
+    expect(deployment.metadata.template).toBe('charts/web/templates/deployment.yaml');
+    expect(deployment.metadata.helmRelease).toBe('release-web-default');
+  });
+
+  it('should link the release to each rendered resource with helm_renders edges', () => {
+    const chart = createChart();
+    const result = renderHelmRelease(chart, createDefaultHelmRelease(chart));
+
+    expect(result.edges).toHaveLength(2);
+    for (const edge of result.edges) {
+      expect(edge.type).toBe('helm_renders');
+      expect(edge.source).toBe('release-web-default');
+    }
+    expect(result.edges.map(e => e.target)).toContain('Service/default/web-web');
+  });
+
+  it('should apply Helmfile value files, inline values and set overrides', () => {
+    const chart = createChart();
+    const overrides: Record<string, Record<string, unknown>> = {
+      'values/prod.yaml': { replicaCount: 3, ingress: { enabled: true } },
+    };
+    const release = createHelmfileReleaseSpec(
+      {
+        name: 'storefront',
+        namespace: 'prod',
+        chart: './charts/web',
+        values: ['values/prod.yaml', 'values/missing.yaml', { env: { LOG_LEVEL: 'debug' } }],
+        set: [{ name: 'image.tag', value: '2.1.0' }],
+      },
+      path => overrides[path],
+      { file: 'helmfile.yaml', lineStart: 3, lineEnd: 3 }
+    );
+
+    const result = renderHelmRelease(chart, release);
+
+    expect(result.release.id).toBe('release-storefront-prod');
+    expect(result.release.metadata.origin).toBe('helmfile');
+    expect(result.resourceNodes.map(n => n.id).sort()).toEqual([
+      'Deployment/prod/storefront-web',
+      'Ingress/prod/storefront-web',
+      'Service/prod/storefront-web',
+    ]);
+
+    const deployment = result.resourceNodes.find(n => n.type === 'k8s_deployment') as K8sDeploymentNode;
+    expect(deployment.replicas).toBe(3);
+    expect(deployment.containers[0]?.image).toBe('registry.example.com/web:2.1.0');
+    expect(result.values.env).toEqual({ LOG_LEVEL: 'debug' });
+    expect(result.warnings.map(w => w.code)).toEqual(['MISSING_VALUES_YAML']);
+  });
+
+  it('should apply ArgoCD Helm source overrides and match the Application deploy edge', async () => {
+    const chart = createChart();
+    const parsed = await parseArgoCDManifest(`apiVersion: argoproj.io/v1alpha1
+kind: Application
+metadata:
+  name: web-staging
+  namespace: argocd
+spec:
+  project: default
+  source:
+    repoURL: https://github.com/example/deploy.git
+    targetRevision: main
+    path: charts/web
+    helm:
+      releaseName: web
+      valueFiles:
+        - values-staging.yaml
+      parameters:
+        - name: service.enabled
+          value: "false"
+  destination:
+    server: https://kubernetes.default.svc
+    namespace: staging
+`, 'apps/web-staging.yaml');
+    expect(parsed.success).toBe(true);
+    if (!parsed.success) return;
+
+    const [app] = parsed.data.applications;
+    if (!app) throw new Error('application not parsed');
+    const release = createArgoCDHelmReleaseSpec(app, path =>
+      (path === 'values-staging.yaml' ? { replicaCount: 2 } : undefined)
+    );
+    const result = renderHelmRelease(chart, release);
+
+    expect(result.release.id).toBe('release-web-staging');
+    expect(result.resourceNodes.map(n => n.id)).toEqual(['Deployment/staging/web-web']);
+    expect((result.resourceNodes[0] as K8sDeploymentNode).replicas).toBe(2);
+
+    const graph = createArgoCDGraph([app]);
+    expect(graph.edges[0]?.targetNodeId).toBe(result.release.id);
+  });
+
+  it('should report template errors without dropping the other templates', () => {
+    const chart = createChart();
+    const broken: HelmChartSource = {
+      ...chart,
+      templates: [
+        ...chart.templates,
+        { path: 'charts/web/templates/secret.yaml', content: 'data: {{ required "secret.value is required" .Values.secret }}' },
+        { path: 'charts/web/templates/bad.yaml', content: '{{ if .Values.x }}unterminated' },
+      ],
+    };
+
+    const result = renderHelmRelease(broken, createDefaultHelmRelease(broken));
+
+    expect(result.resourceNodes).toHaveLength(2);
+    expect(result.warnings.map(w => [w.file, w.code])).toEqual([
+      ['charts/web/templates/bad.yaml', 'TEMPLATE_SYNTAX_ERROR'],
+      ['charts/web/templates/secret.yaml', 'INVALID_TEMPLATE'],
+    ]);
+  });
+});
+
+describe('values', () => {
+  it('should coalesce nested maps and delete keys set to null', () => {
+    const merged = mergeHelmValues(
+      { image: { repository: 'a', tag: '1' }, debug: true },
+      { image: { tag: '2' }, debug: null }
+    );
+    expect(merged).toEqual({ image: { repository: 'a', tag: '2' } });
+  });
+
+  it('should apply --set paths with indexes, escapes and typed literals', () => {
+    const values: Record<string, unknown> = {};
+    applyHelmSetValue(values, { name: 'ingress.hosts[0].host', value: 'a.example.com' });
+    applyHelmSetValue(values, { name: 'replicaCount', value: '3' });
+    applyHelmSetValue(values, { name: 'tag', value: '3', forceString: true });
+    applyHelmSetValue(values, { name: 'annotations.app\\.io/team', value: 'web' });
+    applyHelmSetValue(values, { name: 'args', value: '{a,b}' });
+
+    expect(values).toEqual({
+      ingress: { hosts: [{ host: 'a.example.com' }] },
+      replicaCount: 3,
+      tag: '3',
+      annotations: { 'app.io/team': 'web' },
+      args: ['a', 'b'],
+    });
+  });
+});
+
+describe('HelmChartFileParser', () => {
+  it('should read Chart.yaml, values and templates into chart files', async () => {
+    const parser = new HelmChartFileParser();
+
+    const chart = await parser.parse(CHART_YAML, 'charts/web/Chart.yaml');
+    const values = await parser.parse(VALUES_YAML, 'charts/web/values.yaml');
+    const template = await parser.parse(DEPLOYMENT_YAML, 'charts/web/templates/deployment.yaml');
+
+    expect(chart.success && chart.data.chartFile).toMatchObject({
+      kind: 'chart',
+      chartDirectory: 'charts/web',
+      metadata: { name: 'web', version: '1.2.0', appVersion: '2.0.0' },
+    });
+    expect(values.success && values.data.chartFile).toMatchObject({ kind: 'values', values: { replicaCount: 1 } });
+    expect(template.success && template.data.chartFile).toMatchObject({ kind: 'template', content: DEPLOYMENT_YAML });
+  });
+
+  it('should be selected over the manifest parser for chart templates', async () => {
+    const registry = new ParserRegistry({ enableCache: false });
+
+    expect(registry.getParser({ filePath: 'charts/web/templates/deployment.yaml', content: DEPLOYMENT_YAML })?.name)
+      .toBe('helm-chart-file-parser');
+    expect(registry.getParser({ filePath: 'charts/web/values.yaml', content: VALUES_YAML })?.name)
+      .toBe('helm-chart-file-parser');
+    expect(registry.getParser({ filePath: 'charts/web/templates/_helpers.tpl' })?.name)
+      .toBe('helm-chart-file-parser');
+    expect(registry.getParser({ filePath: 'k8s/deployment.yaml', content: 'apiVersion: v1\nkind: Service\n' })?.name)
+      .toBe('kubernetes-manifest-parser');
+
+    const result = await registry.parse<HelmChartFileParseResult>(CHART_YAML, 'charts/web/Chart.yaml');
+    expect(result.success).toBe(true);
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Helm Template Engine Tests
+ * @module tests/parsers/helm/template-engine
+ *
+ * Unit tests for the Go text/template evaluator and the Sprig functions
+ * used by Helm charts.
+ * TASK-HELM-RENDER-001: Helm template rendering
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  HelmTemplateEngine,
+  HelmTemplateError,
+} from '@/parsers/helm/index.js';
+
+function render(source: string, data: unknown = {}): string {
+  const engine = new HelmTemplateEngine();
+  engine.addTemplate('test', source);
+  return engine.render('test', data);
+}
+
+describe('HelmTemplateEngine', () => {
+  describe('actions and pipelines', () => {
+    it('should print fields, literals and piped function calls', () => {
+      const data = { Values: { image: { repository: 'nginx', tag: '1.25' } } };
+
+      expect(render('image: {{ .Values.image.repository }}:{{ .Values.image.tag }}', data))
+        .toBe('image: nginx:1.25');
+      expect(render('{{ .Values.image.repository | upper | quote }}', data)).toBe('"NGINX"');
+      expect(render('{{ printf "%s-%d" "web" 3 }}', data)).toBe('web-3');
+    });
+
+    it('should render missing values as empty and apply default', () => {
+      const data = { Values: {} };
+
+      expect(render('[{{ .Values.missing.deep }}]', data)).toBe('[]');
+      expect(render('{{ .Values.replicas | default 2 }}', data)).toBe('2');
+    });
+
+    it('should apply trim markers', () => {
+      expect(render('a  \n  {{- "b" -}}  \n  c')).toBe('abc');
+      expect(render('a {{/* comment */}} b')).toBe('a  b');
+    });
+
+    it('should evaluate parenthesized pipelines and chained fields', () => {
+      const data = { Values: { a: 1, b: 2 } };
+
+      expect(render('{{ add (mul .Values.a 10) .Values.b }}', data)).toBe('12');
+      expect(render('{{ (dict "x" "y").x }}')).toBe('y');
+    });
+
+    it('should declare and reassign variables', () => {
+      const source = '{{ $name := "a" }}{{ if true }}{{ $name = "b" }}{{ end }}{{ $name }}';
+      expect(render(source)).toBe('b');
+    });
+  });
+
+  describe('control structures', () => {
+    it('should choose if/else if/else branches by Go truthiness', () => {
+      const source = '{{ if .a }}A{{ else if .b }}B{{ else }}C{{ end }}';
+
+      expect(render(source, { a: 'x', b: true })).toBe('A');
+      expect(render(source, { a: '', b: true })).toBe('B');
+      expect(render(source, { a: [], b: 0 })).toBe('C');
+    });
+
+    it('should range over lists and maps in key order', () => {
+      expect(render('{{ range $i, $v := .items }}{{ $i }}={{ $v }};{{ end }}', { items: ['a', 'b'] }))
+        .toBe('0=a;1=b;');
+      expect(render('{{ range $k, $v := .env }}{{ $k }}:{{ $v }} {{ end }}', { env: { B: '2', A: '1' } }))
+        .toBe('A:1 B:2 ');
+      expect(render('{{ range .items }}x{{ else }}empty{{ end }}', { items: [] })).toBe('empty');
+    });
+
+    it('should support break and continue in range', () => {
+      const source = '{{ range . }}{{ if eq . 2 }}{{ continue }}{{ end }}{{ if eq . 4 }}{{ break }}{{ end }}{{ . }}{{ end }}';
+      expect(render(source, [1, 2, 3, 4, 5])).toBe('13');
+    });
+
+    it('should rebind dot in with and keep $ as the root', () => {
+      const data = { name: 'root', Values: { svc: { port: 80 } } };
+      expect(render('{{ with .Values.svc }}{{ .port }}/{{ $.name }}{{ end }}', data)).toBe('80/root');
+      expect(render('{{ with .Values.none }}x{{ else }}none{{ end }}', data)).toBe('none');
+    });
+  });
+
+  describe('named templates', () => {
+    it('should include defines from other templates and indent the result', () => {
+      const engine = new HelmTemplateEngine();
+      engine.addTemplate('chart/templates/_helpers.tpl', `
+{{- define "chart.labels" -}}
+app: {{ .Chart.Name }}
+release: {{ .Release.Name }}
+{{- end }}
+`);
+      engine.addTemplate('chart/templates/cm.yaml', `labels:
+  {{- include "chart.labels" . | nindent 2 }}`);
+
+      const output = engine.render('chart/templates/cm.yaml', {
+        Chart: { Name: 'web' },
+        Release: { Name: 'prod' },
+      });
+      expect(output).toBe('labels:\n  app: web\n  release: prod');
+      expect(engine.hasDefine('chart.labels')).toBe(true);
+    });
+
+    it('should execute template and block actions', () => {
+      const source = '{{ define "x" }}[{{ . }}]{{ end }}{{ template "x" "a" }}{{ block "y" "b" }}<{{ . }}>{{ end }}';
+      expect(render(source)).toBe('[a]<b>');
+    });
+
+    it('should render tpl strings against the given context', () => {
+      const data = { Values: { host: 'example.com', url: 'https://{{ .Values.host }}/api' } };
+      expect(render('{{ tpl .Values.url . }}', data)).toBe('https://example.com/api');
+    });
+  });
+
+  describe('functions', () => {
+    it('should serialise values with toYaml and toJson', () => {
+      const data = { Values: { resources: { limits: { memory: '1Gi', cpu: '500m' } } } };
+
+      expect(render('{{ toYaml .Values.resources }}', data)).toBe('limits:\n  cpu: 500m\n  memory: 1Gi');
+      expect(render('{{ toJson .Values.resources }}', data)).toBe('{"limits":{"cpu":"500m","memory":"1Gi"}}');
+    });
+
+    it('should support common string, list and dict helpers', () => {
+      expect(render('{{ "my-very-long-release-name" | trunc 10 | trimSuffix "-" }}')).toBe('my-very-lo');
+      expect(render('{{ list "a" "b" | join "," }}')).toBe('a,b');
+      expect(render('{{ $d := dict "a" 1 }}{{ $_ := set $d "b" 2 }}{{ keys $d | join "," }}')).toBe('a,b');
+      expect(render('{{ hasKey (dict "a" 1) "a" }}/{{ ternary "y" "n" false }}')).toBe('true/n');
+      expect(render('{{ semverCompare ">=1.19-0" "v1.29.0" }}')).toBe('true');
+      expect(render('{{ "abc" | b64enc }}')).toBe('YWJj');
+    });
+
+    it('should fail required values with the template and line', () => {
+      expect(() => render('ok\n{{ required "image.tag is required" .Values.tag }}', { Values: {} }))
+        .toThrow(HelmTemplateError);
+      expect(() => render('ok\n{{ required "image.tag is required" .Values.tag }}', { Values: {} }))
+        .toThrow('test:2: image.tag is required');
+    });
+
+    it('should report unknown functions and syntax errors', () => {
+      expect(() => render('{{ nosuchfn 1 }}')).toThrow('function "nosuchfn" not defined');
+      expect(() => render('{{ if .a }}never closed')).toThrow(HelmTemplateError);
+      expect(() => render('{{ .a ')).toThrow('unclosed action');
+    });
+  });
+});
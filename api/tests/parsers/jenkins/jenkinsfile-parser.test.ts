@@ -0,0 +1,313 @@
+/**
+ * Jenkinsfile Parser Tests
+ * @module tests/parsers/jenkins/jenkinsfile-parser
+ *
+ * Unit tests for declarative Jenkinsfile parsing: stage ordering with
+ * parallel and nested stages, directives, shared libraries, crossref
+ * pipeline nodes and Terraform-to-Helm flow detection over sh steps.
+ * TASK-JENKINS-001: Jenkinsfile declarative pipeline parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  JenkinsfileParser,
+  parseJenkinsfile,
+  readGroovyBlocks,
+  splitArguments,
+  JenkinsParseResult,
+} from '@/parsers/jenkins/index.js';
+import { ParserRegistry } from '@/parsers/registry/parser-registry.js';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const DEPLOY_PIPELINE = `@Library(['platform-lib@v2.1', 'notify']) _
+
+pipeline {
+  agent { label 'linux' }
+
+  environment {
+    AWS_REGION = 'us-east-1'
+    AWS_CREDS = credentials('aws-deploy') // bound credential
+  }
+
+  parameters {
+    string(name: 'CHART_VERSION', defaultValue: '1.0.0')
+  }
+
+  triggers {
+    cron('H 2 * * *')
+  }
+
+  stages {
+    stage('Checkout') {
+      steps {
+        checkout scm
+      }
+    }
+
+    stage('Checks') {
+      parallel {
+        stage('Lint') {
+          steps {
+            sh 'make lint'
+          }
+        }
+        stage('Test') {
+          agent { docker { image 'node:20' } }
+          steps {
+            sh "npm test"
+          }
+        }
+      }
+    }
+
+    stage('Infra') {
+      steps {
+        dir('infra') {
+          sh 'terraform init && terraform apply -auto-approve'
+          script {
+            env.VPC_ID = sh(script: 'terraform output -raw vpc_id', returnStdout: true).trim()
+          }
+        }
+      }
+    }
+
+    stage('Deploy') {
+      when {
+        branch 'main'
+        not { changeRequest() }
+      }
+      steps {
+        withEnv(['KUBECONFIG=/tmp/kube']) {
+          sh """
+            helm upgrade --install api ./charts/api \\
+              --set vpc.id=\${env.VPC_ID}
+          """
+        }
+        archiveArtifacts artifacts: 'charts/**/*.tgz'
+      }
+    }
+  }
+
+  post {
+    always { cleanWs() }
+    failure { echo 'failed' }
+  }
+}
+`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function parse(
+  content: string,
+  filePath = 'Jenkinsfile',
+  options: Parameters<typeof parseJenkinsfile>[2] = {}
+): Promise<JenkinsParseResult> {
+  const result = await parseJenkinsfile(content, filePath, { scanId: 'scan-1', ...options });
+  expect(result.success).toBe(true);
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  return result.data;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('JenkinsfileParser', () => {
+  describe('canParse', () => {
+    const parser = new JenkinsfileParser();
+
+    it('should accept Jenkinsfile names', () => {
+      expect(parser.canParse('Jenkinsfile')).toBe(true);
+      expect(parser.canParse('ci/Jenkinsfile.release')).toBe(true);
+      expect(parser.canParse('deploy.jenkinsfile')).toBe(true);
+      expect(parser.canParse('vars/build.groovy', 'pipeline {\n}\n')).toBe(true);
+    });
+
+    it('should reject scripted pipelines and other files', () => {
+      expect(parser.canParse('Jenkinsfile', 'node {\n  sh "make"\n}\n')).toBe(false);
+      expect(parser.canParse('vars/build.groovy')).toBe(false);
+      expect(parser.canParse('build.gradle')).toBe(false);
+    });
+
+    it('should be selected by the parser registry for Jenkinsfiles only', () => {
+      const registry = new ParserRegistry({ enableCache: false });
+
+      expect(registry.getParser({ filePath: 'ci/Jenkinsfile.release' })?.name).toBe('jenkinsfile-parser');
+      expect(registry.supportsFile('Jenkinsfile')).toBe(true);
+      expect(registry.supportsFile('vars/build.groovy')).toBe(false);
+    });
+  });
+
+  describe('groovy reading', () => {
+    it('should ignore braces in strings and comments', () => {
+      const { items, errors } = readGroovyBlocks(
+        "steps {\n  // not a block {\n  sh 'echo }'\n  /* { */ echo \"${a.b}\"\n}\n"
+      );
+
+      expect(errors).toEqual([]);
+      expect(items).toHaveLength(1);
+      expect(items[0]).toMatchObject({ kind: 'block', name: 'steps', lineStart: 1, lineEnd: 5 });
+    });
+
+    it('should split named and positional arguments', () => {
+      const args = splitArguments("'a, b', script: 'x', returnStdout: true");
+
+      expect(args.positional).toEqual(["'a, b'"]);
+      expect(args.named).toEqual({ script: "'x'", returnStdout: 'true' });
+    });
+
+    it('should report unbalanced braces', () => {
+      const { errors } = readGroovyBlocks('pipeline {\n  stages {\n');
+
+      expect(errors.map(e => e.code)).toContain('UNBALANCED_BRACES');
+    });
+  });
+
+  describe('pipeline directives', () => {
+    it('should read agent, environment, credentials, parameters, triggers and post', async () => {
+      const { pipeline } = await parse(DEPLOY_PIPELINE);
+
+      expect(pipeline.agent).toEqual({ type: 'label', label: 'linux' });
+      expect(pipeline.environment.AWS_REGION).toBe('us-east-1');
+      expect(pipeline.credentials).toEqual({ AWS_CREDS: 'aws-deploy' });
+      expect(pipeline.parameters).toEqual(['CHART_VERSION']);
+      expect(pipeline.triggers).toEqual([{ type: 'cron', value: 'H 2 * * *' }]);
+      expect(pipeline.postConditions).toEqual(['always', 'failure']);
+    });
+
+    it('should read @Library annotations and library steps', async () => {
+      const { pipeline } = await parse(
+        DEPLOY_PIPELINE.replace("checkout scm", "checkout scm\n        library 'runtime-lib@main'")
+      );
+
+      expect(pipeline.libraries).toEqual([
+        { name: 'platform-lib', version: 'v2.1', dynamic: false, line: 1 },
+        { name: 'notify', dynamic: false, line: 1 },
+        { name: 'runtime-lib', version: 'main', dynamic: true, line: 23 },
+      ]);
+    });
+
+    it('should fail on scripted pipelines', async () => {
+      const result = await parseJenkinsfile('node {\n  sh "make"\n}\n', 'Jenkinsfile');
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('stages', () => {
+    it('should order sequential and parallel stages', async () => {
+      const { pipeline } = await parse(DEPLOY_PIPELINE);
+      const byId = new Map(pipeline.stages.map(s => [s.id, s]));
+
+      expect(pipeline.stages.map(s => s.id)).toEqual([
+        'Checkout', 'Checks/Lint', 'Checks/Test', 'Infra', 'Deploy',
+      ]);
+      expect(byId.get('Checks/Lint')).toMatchObject({ parallelGroup: 'Checks', dependsOn: ['Checkout'] });
+      expect(byId.get('Checks/Test')?.dependsOn).toEqual(['Checkout']);
+      expect(byId.get('Infra')?.dependsOn).toEqual(['Checks/Lint', 'Checks/Test']);
+      expect(byId.get('Deploy')?.dependsOn).toEqual(['Infra']);
+    });
+
+    it('should inherit and override agents', async () => {
+      const { pipeline } = await parse(DEPLOY_PIPELINE);
+      const byId = new Map(pipeline.stages.map(s => [s.id, s]));
+
+      expect(byId.get('Checks/Lint')?.agent).toEqual({ type: 'label', label: 'linux' });
+      expect(byId.get('Checks/Test')?.agent).toEqual({ type: 'docker', image: 'node:20' });
+    });
+
+    it('should read when conditions', async () => {
+      const { pipeline } = await parse(DEPLOY_PIPELINE);
+      const deploy = pipeline.stages.find(s => s.id === 'Deploy');
+
+      expect(deploy?.when).toEqual([
+        { type: 'branch', value: 'main' },
+        { type: 'not', conditions: [{ type: 'changeRequest' }] },
+      ]);
+    });
+
+    it('should read steps with dir, withEnv and returned stdout', async () => {
+      const { pipeline } = await parse(DEPLOY_PIPELINE);
+      const infra = pipeline.stages.find(s => s.id === 'Infra');
+      const deploy = pipeline.stages.find(s => s.id === 'Deploy');
+
+      expect(infra?.steps).toMatchObject([
+        { name: 'sh', script: 'terraform init && terraform apply -auto-approve', workingDirectory: 'infra' },
+        { name: 'sh', script: 'terraform output -raw vpc_id', workingDirectory: 'infra', assignTo: 'VPC_ID' },
+      ]);
+      expect(deploy?.steps.map(s => s.name)).toEqual(['sh', 'archiveArtifacts']);
+      expect(deploy?.steps[0]?.env).toEqual({ KUBECONFIG: '/tmp/kube' });
+      expect(deploy?.steps[0]?.script).toContain('helm upgrade --install api');
+    });
+
+    it('should read nested sequential stages', async () => {
+      const { pipeline } = await parse(`pipeline {
+  agent any
+  stages {
+    stage('Build') { steps { sh 'make' } }
+    stage('Release') {
+      environment { TARGET = 'prod' }
+      stages {
+        stage('Package') { steps { sh 'make package' } }
+        stage('Publish') { steps { sh 'make publish' } }
+      }
+    }
+  }
+}
+`);
+
+      expect(pipeline.stages.map(s => [s.id, s.dependsOn])).toEqual([
+        ['Build', []],
+        ['Release/Package', ['Build']],
+        ['Release/Publish', ['Release/Package']],
+      ]);
+      expect(pipeline.stages[2]?.environment.TARGET).toBe('prod');
+    });
+
+    it('should warn about stages without steps', async () => {
+      const result = await parse(
+        "pipeline {\n  agent any\n  stages {\n    stage('Empty') {\n      agent any\n    }\n  }\n}\n"
+      );
+
+      expect(result.warnings.map(w => w.code)).toEqual(['INVALID_STAGE', 'NO_STAGES']);
+    });
+  });
+
+  describe('crossref', () => {
+    it('should create pipeline and job nodes with dependency edges', async () => {
+      const { nodes, edges } = await parse(DEPLOY_PIPELINE);
+
+      expect(nodes[0]).toMatchObject({
+        type: 'ci_pipeline',
+        metadata: { pipelineType: 'jenkins', jobCount: 5, hasTerraformJobs: true, hasHelmJobs: true },
+      });
+      expect(nodes.filter(n => n.type === 'ci_job').map(n => n.name)).toEqual([
+        'Checkout', 'Lint', 'Test', 'Infra', 'Deploy',
+      ]);
+      expect(edges.filter(e => e.type === 'JOB_DEPENDS_ON')).toHaveLength(5);
+    });
+
+    it('should detect Terraform output flowing into helm --set', async () => {
+      const { flows } = await parse(DEPLOY_PIPELINE);
+
+      expect(flows.length).toBeGreaterThan(0);
+      expect(flows[0]).toMatchObject({
+        source: { name: 'vpc_id', jobId: 'Infra' },
+        target: { path: 'vpc.id', jobId: 'Deploy' },
+      });
+    });
+
+    it('should skip flow detection when disabled', async () => {
+      const { flows } = await parse(DEPLOY_PIPELINE, 'Jenkinsfile', { detectFlows: false });
+
+      expect(flows).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * Kubernetes Manifest Parser Tests
+ * @module tests/parsers/kubernetes/manifest-parser
+ *
+ * Unit tests for raw Kubernetes manifest parsing, node extraction and edge building.
+ * TASK-K8S-001: Kubernetes manifest parsing for dependency detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  KubernetesManifestParser,
+  createKubernetesParser,
+  parseKubernetesManifest,
+  createK8sEdges,
+  createK8sNodeId,
+  selectorMatches,
+  getPodTemplateInfo,
+  K8sParseResult,
+} from '@/parsers/kubernetes/index.js';
+import { ParserRegistry } from '@/parsers/registry/parser-registry.js';
+import type { K8sDeploymentNode, K8sServiceNode } from '@/types/graph.js';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const APP_MANIFESTS = `
+apiVersion: v1
+kind: Namespace
+metadata:
+  name: shop
+---
+apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: web
+  namespace: shop
+  labels:
+    app: web
+spec:
+  replicas: 3
+  selector:
+    matchLabels:
+      app: web
+  template:
+    metadata:
+      labels:
+        app: web
+        tier: frontend
+    spec:
+      serviceAccountName: web-sa
+      imagePullSecrets:
+        - name: registry-creds
+      containers:
+        - name: web
+          image: registry.example.com/web:1.2.3
+          ports:
+            - containerPort: 8080
+          envFrom:
+            - configMapRef:
+                name: web-config
+          env:
+            - name: DB_PASSWORD
+              valueFrom:
+                secretKeyRef:
+                  name: db-credentials
+                  key: password
+          volumeMounts:
+            - name: data
+              mountPath: /data
+      volumes:
+        - name: data
+          persistentVolumeClaim:
+            claimName: web-data
+        - name: tls
+          secret:
+            secretName: web-tls
+---
+apiVersion: v1
+kind: Service
+metadata:
+  name: web
+  namespace: shop
+spec:
+  selector:
+    app: web
+  ports:
+    - port: 80
+      targetPort: 8080
+---
+apiVersion: networking.k8s.io/v1
+kind: Ingress
+metadata:
+  name: web
+  namespace: shop
+spec:
+  ingressClassName: nginx
+  tls:
+    - hosts: [shop.example.com]
+      secretName: web-tls
+  rules:
+    - host: shop.example.com
+      http:
+        paths:
+          - path: /
+            pathType: Prefix
+            backend:
+              service:
+                name: web
+                port:
+                  number: 80
+---
+apiVersion: v1
+kind: ConfigMap
+metadata:
+  name: web-config
+  namespace: shop
+data:
+  LOG_LEVEL: info
+---
+apiVersion: v1
+kind: Secret
+metadata:
+  name: db-credentials
+  namespace: shop
+type: Opaque
+stringData:
+  password: hunter2
+---
+apiVersion: v1
+kind: Secret
+metadata:
+  name: web-tls
+  namespace: shop
+type: kubernetes.io/tls
+data:
+  tls.crt: ""
+  tls.key: ""
+---
+apiVersion: v1
+kind: PersistentVolumeClaim
+metadata:
+  name: web-data
+  namespace: shop
+spec:
+  storageClassName: fast
+  accessModes: [ReadWriteOnce]
+  resources:
+    requests:
+      storage: 10Gi
+---
+apiVersion: storage.k8s.io/v1
+kind: StorageClass
+metadata:
+  name: fast
+provisioner: ebs.csi.aws.com
+`;
+
+const RBAC_MANIFESTS = `
+apiVersion: v1
+kind: ServiceAccount
+metadata:
+  name: web-sa
+  namespace: shop
+---
+apiVersion: rbac.authorization.k8s.io/v1
+kind: Role
+metadata:
+  name: config-reader
+  namespace: shop
+rules:
+  - apiGroups: [""]
+    resources: [configmaps]
+    verbs: [get, list]
+---
+apiVersion: rbac.authorization.k8s.io/v1
+kind: RoleBinding
+metadata:
+  name: web-config-reader
+  namespace: shop
+roleRef:
+  apiGroup: rbac.authorization.k8s.io
+  kind: Role
+  name: config-reader
+subjects:
+  - kind: ServiceAccount
+    name: web-sa
+  - kind: User
+    name: alice
+`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function parse(content: string, filePath = 'k8s/app.yaml'): Promise<K8sParseResult> {
+  const result = await parseKubernetesManifest(content, filePath);
+  expect(result.success).toBe(true);
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  return result.data;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('KubernetesManifestParser', () => {
+  describe('canParse', () => {
+    const parser = new KubernetesManifestParser();
+
+    it('should accept YAML files with apiVersion and kind', () => {
+      expect(parser.canParse('deploy.yaml', 'apiVersion: v1\nkind: Service\n')).toBe(true);
+      expect(parser.canParse('deploy.yml')).toBe(true);
+    });
+
+    it('should reject non-manifest content and other extensions', () => {
+      expect(parser.canParse('values.yaml', 'replicaCount: 2\n')).toBe(false);
+      expect(parser.canParse('main.tf')).toBe(false);
+    });
+  });
+
+  describe('document parsing', () => {
+    it('should parse every document in a multi-document file', async () => {
+      const data = await parse(APP_MANIFESTS);
+
+      expect(data.metadata.documentCount).toBe(9);
+      expect(data.manifests).toHaveLength(9);
+      expect(data.metadata.kindCounts.Secret).toBe(2);
+    });
+
+    it('should record line ranges per document', async () => {
+      const data = await parse(APP_MANIFESTS);
+      const deployment = data.nodes.find(n => n.type === 'k8s_deployment');
+
+      expect(deployment?.location.file).toBe('k8s/app.yaml');
+      expect(deployment?.location.lineStart).toBeGreaterThan(1);
+      expect(deployment?.location.lineEnd).toBeGreaterThan(deployment?.location.lineStart ?? 0);
+    });
+
+    it('should expand kind: List wrappers', async () => {
+      const data = await parse(`
+apiVersion: v1
+kind: List
+items:
+  - apiVersion: v1
+    kind: ConfigMap
+    metadata:
+      name: a
+  - apiVersion: v1
+    kind: ConfigMap
+    metadata:
+      name: b
+`);
+      expect(data.nodes.map(n => n.id)).toEqual(['ConfigMap/default/a', 'ConfigMap/default/b']);
+    });
+
+    it('should ignore YAML documents that are not Kubernetes objects', async () => {
+      const data = await parse('replicaCount: 2\nimage:\n  tag: latest\n', 'values.yaml');
+      expect(data.manifests).toHaveLength(0);
+      expect(data.nodes).toHaveLength(0);
+    });
+
+    it('should warn about objects without a name', async () => {
+      const data = await parse('apiVersion: v1\nkind: ConfigMap\nmetadata: {}\n');
+      expect(data.nodes).toHaveLength(0);
+      expect(data.warnings[0]?.code).toBe('MISSING_NAME');
+    });
+
+    it('should keep valid documents when another document is malformed', async () => {
+      const result = await parseKubernetesManifest(
+        'apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: ok\n---\nkey: [unclosed\n',
+        'mixed.yaml'
+      );
+      expect(result.success).toBe(true);
+      if (result.success) {
+        expect(result.data.nodes).toHaveLength(1);
+        expect(result.data.errors[0]?.code).toBe('INVALID_YAML');
+      }
+    });
+
+    it('should fail when no document could be parsed', async () => {
+      const result = await parseKubernetesManifest('key: [unclosed\n', 'broken.yaml');
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('node extraction', () => {
+    it('should create typed nodes with namespaced IDs', async () => {
+      const data = await parse(APP_MANIFESTS);
+      const ids = data.nodes.map(n => n.id);
+
+      expect(ids).toContain('Namespace/shop');
+      expect(ids).toContain('Deployment/shop/web');
+      expect(ids).toContain('Service/shop/web');
+      expect(ids).toContain('StorageClass/fast');
+    });
+
+    it('should extract deployment containers, selector and pod template', async () => {
+      const data = await parse(APP_MANIFESTS);
+      const deployment = data.nodes.find(
+        (n): n is K8sDeploymentNode => n.type === 'k8s_deployment'
+      );
+
+      expect(deployment?.replicas).toBe(3);
+      expect(deployment?.selector).toEqual({ app: 'web' });
+      expect(deployment?.containers[0]?.image).toBe('registry.example.com/web:1.2.3');
+      expect(deployment?.containers[0]?.envFrom).toEqual([{ type: 'configMapRef', name: 'web-config' }]);
+
+      const pod = deployment ? getPodTemplateInfo(deployment) : undefined;
+      expect(pod?.podLabels).toEqual({ app: 'web', tier: 'frontend' });
+      expect(pod?.serviceAccountName).toBe('web-sa');
+      expect(pod?.envKeyRefs[0]).toMatchObject({ kind: 'Secret', name: 'db-credentials', key: 'password' });
+    });
+
+    it('should default the namespace of namespaced objects', async () => {
+      const data = await parse('apiVersion: v1\nkind: Service\nmetadata:\n  name: api\nspec:\n  type: NodePort\n');
+      const service = data.nodes[0] as K8sServiceNode;
+
+      expect(service.id).toBe('Service/default/api');
+      expect(service.namespace).toBe('default');
+      expect(service.serviceType).toBe('NodePort');
+    });
+
+    it('should honour a custom default namespace', async () => {
+      const parser = createKubernetesParser({ defaultNamespace: 'platform' });
+      const result = await parser.parse('apiVersion: v1\nkind: ConfigMap\nmetadata:\n  name: cfg\n', 'cm.yaml');
+      expect(result.success && result.data.nodes[0]?.id).toBe('ConfigMap/platform/cfg');
+    });
+
+    it('should keep unsupported kinds as manifests without nodes', async () => {
+      const data = await parse('apiVersion: example.com/v1\nkind: Widget\nmetadata:\n  name: w\n');
+      expect(data.manifests).toHaveLength(1);
+      expect(data.nodes).toHaveLength(0);
+    });
+  });
+
+  describe('edge building', () => {
+    it('should link a Service to the workloads it selects', async () => {
+      const data = await parse(APP_MANIFESTS);
+      const edge = data.edges.find(e => e.type === 'service_target');
+
+      expect(edge?.source).toBe('Service/shop/web');
+      expect(edge?.target).toBe('Deployment/shop/web');
+      expect(edge?.metadata.implicit).toBe(true);
+    });
+
+    it('should link an Ingress to its backend service and TLS secret', async () => {
+      const data = await parse(APP_MANIFESTS);
+
+      expect(data.edges).toContainEqual(expect.objectContaining({
+        type: 'ingress_backend',
+        source: 'Ingress/shop/web',
+        target: 'Service/shop/web',
+      }));
+      expect(data.edges).toContainEqual(expect.objectContaining({
+        type: 'secret_ref',
+        source: 'Ingress/shop/web',
+        target: 'Secret/shop/web-tls',
+      }));
+    });
+
+    it('should link workloads to ConfigMaps, Secrets and claims', async () => {
+      const data = await parse(APP_MANIFESTS);
+      const fromDeployment = data.edges.filter(e => e.source === 'Deployment/shop/web');
+      const pairs = fromDeployment.map(e => `${e.type}:${e.target}`);
+
+      expect(pairs).toContain('configmap_ref:ConfigMap/shop/web-config');
+      expect(pairs).toContain('secret_ref:Secret/shop/db-credentials');
+      expect(pairs).toContain('secret_ref:Secret/shop/web-tls');
+      expect(pairs).toContain('volume_mount:PersistentVolumeClaim/shop/web-data');
+    });
+
+    it('should link claims to storage classes and objects to their namespace', async () => {
+      const data = await parse(APP_MANIFESTS);
+
+      expect(data.edges).toContainEqual(expect.objectContaining({
+        type: 'references',
+        source: 'PersistentVolumeClaim/shop/web-data',
+        target: 'StorageClass/fast',
+      }));
+      expect(data.edges).toContainEqual(expect.objectContaining({
+        type: 'namespace_member',
+        source: 'Deployment/shop/web',
+        target: 'Namespace/shop',
+      }));
+    });
+
+    it('should link RoleBindings to roles and service accounts', async () => {
+      const data = await parse(RBAC_MANIFESTS);
+      const rbac = data.edges.filter(e => e.type === 'rbac_binding');
+
+      expect(rbac.map(e => e.target).sort()).toEqual([
+        'Role/shop/config-reader',
+        'ServiceAccount/shop/web-sa',
+      ]);
+    });
+
+    it('should not create edges to objects that are not present', async () => {
+      const data = await parse(APP_MANIFESTS);
+      expect(data.edges.some(e => e.target.includes('registry-creds'))).toBe(false);
+    });
+
+    it('should build edges across files when given all nodes', async () => {
+      const app = await parse(APP_MANIFESTS, 'k8s/app.yaml');
+      const rbac = await parse(RBAC_MANIFESTS, 'k8s/rbac.yaml');
+
+      const edges = createK8sEdges([...app.nodes, ...rbac.nodes]);
+
+      expect(edges).toContainEqual(expect.objectContaining({
+        type: 'references',
+        source: 'Deployment/shop/web',
+        target: 'ServiceAccount/shop/web-sa',
+      }));
+    });
+
+    it('should skip edges when generateEdges is disabled', async () => {
+      const parser = createKubernetesParser({ generateEdges: false });
+      const result = await parser.parse(APP_MANIFESTS, 'app.yaml');
+      expect(result.success && result.data.edges).toEqual([]);
+    });
+  });
+
+  describe('helpers', () => {
+    it('should build cluster-scoped and namespaced IDs', () => {
+      expect(createK8sNodeId('ClusterRole', 'admin', 'ignored')).toBe('ClusterRole/admin');
+      expect(createK8sNodeId('Secret', 's', 'ns')).toBe('Secret/ns/s');
+    });
+
+    it('should treat an empty selector as matching nothing', () => {
+      expect(selectorMatches({}, { app: 'web' })).toBe(false);
+      expect(selectorMatches({ app: 'web' }, { app: 'web', tier: 'x' })).toBe(true);
+      expect(selectorMatches({ app: 'web' }, { app: 'api' })).toBe(false);
+    });
+  });
+
+  describe('registry integration', () => {
+    it('should be selected by the parser registry for YAML files', () => {
+      const registry = new ParserRegistry({ enableCache: false });
+      const parser = registry.getParser('deploy/web.yaml');
+
+      expect(parser?.name).toBe('kubernetes-manifest-parser');
+      expect(registry.getSupportedFormats()).toContain('kubernetes');
+    });
+  });
+});
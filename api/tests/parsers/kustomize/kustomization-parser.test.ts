@@ -0,0 +1,424 @@
+/**
+ * Kustomize Parser Tests
+ * @module tests/parsers/kustomize/kustomization-parser
+ *
+ * Unit tests for kustomization parsing and for rendering overlays into the
+ * effective resources, with base, render and patch edges.
+ * TASK-KUSTOMIZE-001: Kustomize overlay parsing for dependency detection
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  KustomizeParser,
+  parseKustomization,
+  renderKustomizations,
+  createKustomizationNodeId,
+  KustomizeParseResult,
+  Kustomization,
+} from '@/parsers/kustomize/index.js';
+import { createK8sEdges, parseKubernetesManifest } from '@/parsers/kubernetes/index.js';
+import type { K8sManifest, K8sNode } from '@/parsers/kubernetes/index.js';
+import { createArgoCDGraph, parseArgoCDManifest } from '@/parsers/argocd/index.js';
+import { ParserRegistry } from '@/parsers/registry/parser-registry.js';
+import type { K8sDeploymentNode, K8sServiceNode } from '@/types/graph.js';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const BASE_KUSTOMIZATION = `apiVersion: kustomize.config.k8s.io/v1beta1
+kind: Kustomization
+resources:
+  - deployment.yaml
+  - service.yaml
+configMapGenerator:
+  - name: app-config
+    literals:
+      - LOG_LEVEL=info
+`;
+
+const BASE_DEPLOYMENT = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+  labels:
+    app: api
+spec:
+  replicas: 1
+  selector:
+    matchLabels:
+      app: api
+  template:
+    metadata:
+      labels:
+        app: api
+    spec:
+      containers:
+        - name: api
+          image: acme/api:1.0
+          envFrom:
+            - configMapRef:
+                name: app-config
+        - name: sidecar
+          image: envoyproxy/envoy:v1.30
+`;
+
+const BASE_SERVICE = `apiVersion: v1
+kind: Service
+metadata:
+  name: api
+spec:
+  selector:
+    app: api
+  ports:
+    - port: 80
+      targetPort: 8080
+`;
+
+const MONITORING_COMPONENT = `apiVersion: kustomize.config.k8s.io/v1alpha1
+kind: Component
+patches:
+  - target:
+      kind: Deployment
+    patch: |-
+      - op: add
+        path: /metadata/annotations/prometheus.io~1scrape
+        value: "true"
+`;
+
+const PROD_KUSTOMIZATION = `apiVersion: kustomize.config.k8s.io/v1beta1
+kind: Kustomization
+resources:
+  - ../../base
+components:
+  - ../../components/monitoring
+namespace: prod
+namePrefix: prod-
+commonLabels:
+  env: prod
+images:
+  - name: acme/api
+    newTag: "2.0"
+replicas:
+  - name: api
+    count: 5
+patches:
+  - path: resources-patch.yaml
+configMapGenerator:
+  - name: app-config
+    behavior: merge
+    literals:
+      - LOG_LEVEL=warn
+`;
+
+const PROD_PATCH = `apiVersion: apps/v1
+kind: Deployment
+metadata:
+  name: api
+spec:
+  template:
+    spec:
+      containers:
+        - name: api
+          resources:
+            limits:
+              memory: 512Mi
+        - name: sidecar
+          $patch: delete
+`;
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+async function parse(
+  content: string,
+  filePath: string,
+  options: Parameters<typeof parseKustomization>[2] = {}
+): Promise<KustomizeParseResult> {
+  const result = await parseKustomization(content, filePath, options);
+  expect(result.success).toBe(true);
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  return result.data;
+}
+
+async function manifests(content: string, filePath: string): Promise<K8sManifest[]> {
+  const result = await parseKubernetesManifest(content, filePath);
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  return [...result.data.manifests];
+}
+
+async function loadRepository(): Promise<{ kustomizations: Kustomization[]; manifests: K8sManifest[] }> {
+  return {
+    kustomizations: [
+      (await parse(BASE_KUSTOMIZATION, 'base/kustomization.yaml')).kustomization,
+      (await parse(MONITORING_COMPONENT, 'components/monitoring/kustomization.yaml')).kustomization,
+      (await parse(PROD_KUSTOMIZATION, 'overlays/prod/kustomization.yaml')).kustomization,
+    ],
+    manifests: [
+      ...await manifests(BASE_DEPLOYMENT, 'base/deployment.yaml'),
+      ...await manifests(BASE_SERVICE, 'base/service.yaml'),
+      ...await manifests(PROD_PATCH, 'overlays/prod/resources-patch.yaml'),
+    ],
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('KustomizeParser', () => {
+  describe('parsing', () => {
+    it('should read resources, components, patches and transforms', async () => {
+      const result = await parse(PROD_KUSTOMIZATION, 'overlays/prod/kustomization.yaml');
+      const { kustomization } = result;
+
+      expect(kustomization.directory).toBe('overlays/prod');
+      expect(kustomization.resources).toEqual([{ path: '../../base', field: 'resources', remote: false }]);
+      expect(kustomization.components.map(c => c.path)).toEqual(['../../components/monitoring']);
+      expect(kustomization.patches).toEqual([{ path: 'resources-patch.yaml', field: 'patches' }]);
+      expect(kustomization.images).toEqual([{ name: 'acme/api', newTag: '2.0' }]);
+      expect(kustomization.replicas).toEqual([{ name: 'api', count: 5 }]);
+      expect(kustomization.labels).toEqual([
+        { pairs: { env: 'prod' }, includeSelectors: true, includeTemplates: true },
+      ]);
+      expect(kustomization.generators[0]).toMatchObject({
+        kind: 'ConfigMap',
+        name: 'app-config',
+        behavior: 'merge',
+        literals: { LOG_LEVEL: 'warn' },
+      });
+    });
+
+    it('should create a kustomization node addressed by directory', async () => {
+      const result = await parse(PROD_KUSTOMIZATION, 'overlays/prod/kustomization.yaml');
+
+      expect(result.nodes).toHaveLength(1);
+      expect(result.nodes[0]).toMatchObject({
+        id: createKustomizationNodeId('overlays/prod'),
+        type: 'kustomization',
+        isComponent: false,
+        namespace: 'prod',
+        namePrefix: 'prod-',
+      });
+    });
+
+    it('should mark components and remote resources', async () => {
+      const component = await parse(MONITORING_COMPONENT, 'components/monitoring/kustomization.yaml');
+      const remote = await parse(
+        'resources:\n  - github.com/acme/platform//base?ref=v1.2\n  - https://example.com/app.yaml\n',
+        'kustomization.yaml'
+      );
+
+      expect(component.nodes[0]?.isComponent).toBe(true);
+      expect(component.kustomization.patches[0]?.target).toEqual({ kind: 'Deployment' });
+      expect(remote.kustomization.resources.every(r => r.remote)).toBe(true);
+      expect(remote.kustomization.directory).toBe('.');
+    });
+
+    it('should read deprecated fields and optionally warn about them', async () => {
+      const content = 'bases:\n  - ../base\npatchesStrategicMerge:\n  - patch.yaml\n';
+      const quiet = await parse(content, 'overlay/kustomization.yml');
+      const strict = await parse(content, 'overlay/kustomization.yml', { warnOnDeprecatedFields: true });
+
+      expect(quiet.kustomization.resources).toEqual([{ path: '../base', field: 'bases', remote: false }]);
+      expect(quiet.kustomization.patches).toEqual([{ path: 'patch.yaml', field: 'patchesStrategicMerge' }]);
+      expect(quiet.warnings).toHaveLength(0);
+      expect(strict.warnings.map(w => [w.code, w.line])).toEqual([
+        ['DEPRECATED_FIELD', 1],
+        ['DEPRECATED_FIELD', 3],
+      ]);
+    });
+
+    it('should fail on invalid YAML', async () => {
+      const result = await parseKustomization('resources: [unclosed\n', 'kustomization.yaml');
+
+      expect(result.success).toBe(false);
+    });
+  });
+
+  describe('renderKustomizations', () => {
+    it('should render overlays with namespace, prefix, labels, images and replicas', async () => {
+      const { kustomizations, manifests: parsed } = await loadRepository();
+      const result = renderKustomizations(kustomizations, parsed);
+
+      const deployment = result.resourceNodes.find(
+        (n): n is K8sDeploymentNode => n.id === 'Deployment/prod/prod-api'
+      );
+      const service = result.resourceNodes.find(
+        (n): n is K8sServiceNode => n.id === 'Service/prod/prod-api'
+      );
+
+      expect(deployment).toBeDefined();
+      expect(deployment?.replicas).toBe(5);
+      expect(deployment?.selector).toEqual({ app: 'api', env: 'prod' });
+      expect(deployment?.containers.map(c => c.image)).toEqual(['acme/api:2.0']);
+      expect(deployment?.location.file).toBe('base/deployment.yaml');
+      expect(deployment?.metadata).toMatchObject({
+        kustomization: 'overlays/prod/kustomization.yaml',
+        sourceFile: 'base/deployment.yaml',
+        annotations: { 'prometheus.io/scrape': 'true' },
+      });
+      expect(service?.selector).toEqual({ app: 'api', env: 'prod' });
+    });
+
+    it('should rename references to generated objects', async () => {
+      const { kustomizations, manifests: parsed } = await loadRepository();
+      const result = renderKustomizations(kustomizations, parsed);
+
+      const configMap = result.resourceNodes.find(n => n.id === 'ConfigMap/prod/prod-app-config');
+      const k8sEdges = createK8sEdges(result.resourceNodes as K8sNode[]);
+
+      expect(configMap?.type === 'k8s_configmap' && configMap.dataKeys).toEqual(['LOG_LEVEL']);
+      expect(k8sEdges.some(
+        e => e.source === 'Deployment/prod/prod-api' && e.target === 'ConfigMap/prod/prod-app-config'
+      )).toBe(true);
+    });
+
+    it('should map unchanged bases onto the plain manifest nodes', async () => {
+      const { kustomizations, manifests: parsed } = await loadRepository();
+      const result = renderKustomizations(kustomizations, parsed);
+
+      expect(result.resourceNodes.map(n => n.id)).toEqual(expect.arrayContaining([
+        'Deployment/default/api',
+        'Service/default/api',
+        'ConfigMap/default/app-config',
+      ]));
+      expect(result.patchFiles.has('overlays/prod/resources-patch.yaml')).toBe(true);
+    });
+
+    it('should emit base, render and patch edges', async () => {
+      const { kustomizations, manifests: parsed } = await loadRepository();
+      const result = renderKustomizations(kustomizations, parsed);
+      const prod = createKustomizationNodeId('overlays/prod');
+      const edgesOf = (type: string): string[][] =>
+        result.edges.filter(e => e.type === type && e.source === prod).map(e => [e.target, e.label ?? '']);
+
+      expect(edgesOf('kustomize_base')).toEqual([
+        [createKustomizationNodeId('base'), 'resources'],
+        [createKustomizationNodeId('components/monitoring'), 'components'],
+      ]);
+      expect(edgesOf('kustomize_renders').map(([target]) => target).sort()).toEqual([
+        'ConfigMap/prod/prod-app-config',
+        'Deployment/prod/prod-api',
+        'Service/prod/prod-api',
+      ]);
+      expect(edgesOf('kustomize_patches')).toEqual([['Deployment/prod/prod-api', 'patches']]);
+      expect(result.edges.some(e =>
+        e.type === 'kustomize_patches' &&
+        e.source === createKustomizationNodeId('components/monitoring') &&
+        e.target === 'Deployment/prod/prod-api'
+      )).toBe(true);
+    });
+
+    it('should apply strategic merge patches by list merge key', async () => {
+      const { kustomizations, manifests: parsed } = await loadRepository();
+      const result = renderKustomizations(kustomizations, parsed);
+      const deployment = result.resourceNodes.find(n => n.id === 'Deployment/prod/prod-api');
+      const base = result.resourceNodes.find(n => n.id === 'Deployment/default/api');
+
+      expect(deployment?.type === 'k8s_deployment' && deployment.containers.map(c => c.name)).toEqual(['api']);
+      expect(base?.type === 'k8s_deployment' && base.containers.map(c => c.name)).toEqual(['api', 'sidecar']);
+    });
+
+    it('should apply inline JSON 6902 patches to targeted resources', async () => {
+      const overlay = await parse(
+        [
+          'resources:',
+          '  - ../../base',
+          'patches:',
+          '  - target:',
+          '      kind: Service',
+          '      name: api',
+          '    patch: |-',
+          '      - op: replace',
+          '        path: /spec/type',
+          '        value: LoadBalancer',
+          '      - op: remove',
+          '        path: /spec/missing',
+        ].join('\n'),
+        'overlays/edge/kustomization.yaml'
+      );
+      const { kustomizations, manifests: parsed } = await loadRepository();
+      const result = renderKustomizations([kustomizations[0] as Kustomization, overlay.kustomization], parsed);
+
+      const patched = result.edges.filter(e => e.type === 'kustomize_patches');
+      expect(patched.map(e => e.target)).toEqual(['Service/default/api']);
+      expect(result.warnings.map(w => w.code)).toEqual(['INVALID_ENTRY']);
+    });
+
+    it('should warn about remote, unresolved and cyclic resources', async () => {
+      const a = await parse('resources:\n  - ../b\n  - missing.yaml\n', 'a/kustomization.yaml');
+      const b = await parse('resources:\n  - ../a\n  - github.com/acme/x//y\n', 'b/kustomization.yaml');
+      const result = renderKustomizations([a.kustomization, b.kustomization], []);
+
+      expect(result.warnings.map(w => w.code).sort()).toEqual([
+        'CYCLE',
+        'REMOTE_RESOURCE',
+        'UNRESOLVED_RESOURCE',
+      ]);
+      expect(result.resourceNodes).toHaveLength(0);
+    });
+  });
+
+  describe('ArgoCD integration', () => {
+    it('should point kustomize applications at the overlay kustomization', async () => {
+      const result = await parseArgoCDManifest(
+        [
+          'apiVersion: argoproj.io/v1alpha1',
+          'kind: Application',
+          'metadata:',
+          '  name: api-prod',
+          '  namespace: argocd',
+          'spec:',
+          '  project: default',
+          '  source:',
+          '    repoURL: https://github.com/acme/deploy',
+          '    path: overlays/prod',
+          '    targetRevision: main',
+          '    kustomize:',
+          '      namePrefix: prod-',
+          '  destination:',
+          '    server: https://kubernetes.default.svc',
+          '    namespace: prod',
+        ].join('\n'),
+        'apps/api-prod.yaml'
+      );
+      if (!result.success) {
+        throw new Error('parse failed');
+      }
+
+      const graph = createArgoCDGraph(result.data.applications, []);
+      expect(graph.edges[0]?.targetNodeId).toBe(createKustomizationNodeId('overlays/prod'));
+    });
+  });
+
+  describe('registry integration', () => {
+    it('should select the Kustomize parser for kustomization files only', () => {
+      const registry = new ParserRegistry({ enableCache: false });
+
+      expect(registry.getParser({ filePath: 'overlays/prod/kustomization.yaml', content: PROD_KUSTOMIZATION })?.name)
+        .toBe('kustomize-parser');
+      expect(registry.getParser({ filePath: 'base/Kustomization', content: BASE_KUSTOMIZATION })?.name)
+        .toBe('kustomize-parser');
+      expect(registry.getParser({ filePath: 'base/deployment.yaml', content: BASE_DEPLOYMENT })?.name)
+        .toBe('kubernetes-manifest-parser');
+    });
+
+    it('should parse through the registry', async () => {
+      const registry = new ParserRegistry({ enableCache: false });
+      const result = await registry.parse<KustomizeParseResult>(BASE_KUSTOMIZATION, 'base/kustomization.yaml');
+
+      expect(result.success && result.data.kustomization.generators).toHaveLength(1);
+    });
+
+    it('should be ignored by the Kubernetes manifest parser', () => {
+      expect(new KustomizeParser().canParse('base/kustomization.yaml')).toBe(true);
+      expect(new KustomizeParser().canParse('base/deployment.yaml')).toBe(false);
+    });
+  });
+});
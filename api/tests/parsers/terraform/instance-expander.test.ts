@@ -0,0 +1,208 @@
+/**
+ * Terraform Instance Expansion Tests
+ * @module tests/parsers/terraform/instance-expander
+ *
+ * Unit tests for static count/for_each evaluation, instance nodes and edges
+ * resolving index, splat and for expression references to instances.
+ * TASK-TFINST-001: Expand count/for_each blocks into per-instance nodes
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createInstanceGraph,
+  expandTerraformBlocks,
+  findInstanceReferences,
+  formatInstanceAddress,
+} from '@/parsers/terraform/instance-expander';
+import { HCLParser } from '@/parsers/terraform/hcl-parser';
+import type { TerraformFile } from '@/parsers/terraform/types';
+import type { NodeType } from '@/types/graph';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const parser = new HCLParser();
+
+function parse(content: string): TerraformFile[] {
+  return [parser.parse(content, '/repo/network/main.tf')];
+}
+
+function keysOf(files: TerraformFile[]): Record<string, readonly (string | number)[]> {
+  return Object.fromEntries(expandTerraformBlocks(files).map(block => [block.address, block.keys]));
+}
+
+function blockNodes(...ids: string[]): Map<string, NodeType> {
+  return new Map(ids.map(id => [id, {
+    id,
+    type: id.startsWith('module.') ? 'terraform_module' : 'terraform_resource',
+    name: id.split('.').pop()!,
+    location: { file: '/repo/network/main.tf', lineStart: 1, lineEnd: 1 },
+    metadata: { resourceType: id.split('.')[0] },
+  } as NodeType]));
+}
+
+const SUBNETS = `
+variable "azs" {
+  default = ["b", "a", "a"]
+}
+
+resource "aws_subnet" "private" {
+  for_each   = toset(var.azs)
+  cidr_block = "10.0.0.0/24"
+}
+`;
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('formatInstanceAddress', () => {
+  it('should quote for_each keys and leave count indexes bare', () => {
+    expect(formatInstanceAddress('aws_subnet.private', 'a')).toBe('aws_subnet.private["a"]');
+    expect(formatInstanceAddress('module.vpc', 0)).toBe('module.vpc[0]');
+  });
+});
+
+describe('expandTerraformBlocks', () => {
+  it('should expand literal counts', () => {
+    expect(keysOf(parse('resource "aws_instance" "web" {\n  count = 2\n}\n'))).toEqual({
+      'aws_instance.web': [0, 1],
+    });
+  });
+
+  it('should expand toset of variable defaults into unique sorted keys', () => {
+    expect(keysOf(parse(SUBNETS))).toEqual({ 'aws_subnet.private': ['a', 'b'] });
+  });
+
+  it('should expand maps from locals and chained for_each over expanded blocks', () => {
+    const files = parse(`
+locals {
+  subnets = {
+    b = "10.0.2.0/24"
+    a = "10.0.1.0/24"
+  }
+  zones = length(keys(local.subnets))
+}
+
+resource "aws_subnet" "private" {
+  for_each = local.subnets
+}
+
+resource "aws_route_table_association" "private" {
+  for_each = aws_subnet.private
+}
+
+module "nat" {
+  source = "./nat"
+  count  = local.zones
+}
+`);
+
+    expect(keysOf(files)).toEqual({
+      'aws_subnet.private': ['a', 'b'],
+      'aws_route_table_association.private': ['a', 'b'],
+      'module.nat': [0, 1],
+    });
+  });
+
+  it('should leave blocks whose expansion is not known statically', () => {
+    const files = parse(`
+variable "azs" {}
+
+resource "aws_subnet" "private" {
+  for_each = toset(var.azs)
+}
+
+resource "aws_instance" "web" {
+  count = length(data.aws_availability_zones.all.names)
+}
+`);
+
+    expect(expandTerraformBlocks(files)).toEqual([]);
+  });
+});
+
+describe('findInstanceReferences', () => {
+  it('should classify index, splat, for and whole references', () => {
+    const text = [
+      'aws_subnet . private [ "a" ] . id',
+      'aws_subnet.private[" b "].arn',
+      'aws_subnet . private [ each . key ] . id',
+      'aws_subnet . private [ ] . id',
+      '[ for s in aws_subnet . private s . id ]',
+      'values ( aws_subnet . private )',
+      'aws_subnet . private_b . id',
+      'data . aws_subnet . private . id',
+    ].join('\n');
+
+    expect(findInstanceReferences(text, 'aws_subnet.private')).toEqual([
+      { kind: 'key', key: 'a' },
+      { kind: 'key', key: 'b' },
+      { kind: 'each' },
+      { kind: 'splat' },
+      { kind: 'for' },
+      { kind: 'whole' },
+    ]);
+  });
+});
+
+describe('createInstanceGraph', () => {
+  it('should create instance nodes under their block node', () => {
+    const graph = createInstanceGraph(parse(SUBNETS), blockNodes('aws_subnet.private'));
+
+    expect(graph.nodes.map(n => [n.id, n.name, n.type])).toEqual([
+      ['aws_subnet.private["a"]', 'private["a"]', 'terraform_resource'],
+      ['aws_subnet.private["b"]', 'private["b"]', 'terraform_resource'],
+    ]);
+    expect(graph.nodes[0]?.metadata).toMatchObject({
+      resourceType: 'aws_subnet',
+      instanceOf: 'aws_subnet.private',
+      instanceKey: 'a',
+      expansion: 'for_each',
+    });
+    expect(graph.edges.map(e => [e.type, e.source, e.target])).toEqual([
+      ['expands_to', 'aws_subnet.private', 'aws_subnet.private["a"]'],
+      ['expands_to', 'aws_subnet.private', 'aws_subnet.private["b"]'],
+    ]);
+  });
+
+  it('should link references to the instances they select', () => {
+    const files = parse(`${SUBNETS}
+resource "aws_instance" "web" {
+  subnet_id = aws_subnet.private["a"].id
+}
+
+resource "aws_nat_gateway" "zone" {
+  for_each  = toset(var.azs)
+  subnet_id = aws_subnet.private[each.key].id
+}
+
+output "subnet_ids" {
+  value = [for s in aws_subnet.private : s.id]
+}
+`);
+
+    const graph = createInstanceGraph(
+      files,
+      blockNodes('aws_subnet.private', 'aws_instance.web', 'aws_nat_gateway.zone')
+    );
+    const references = graph.edges
+      .filter(e => e.type !== 'expands_to')
+      .map(e => [e.source, e.target, e.label]);
+
+    expect(references).toEqual([
+      ['aws_instance.web', 'aws_subnet.private["a"]', 'key'],
+      ['aws_nat_gateway.zone["a"]', 'aws_subnet.private["a"]', 'each'],
+      ['aws_nat_gateway.zone["b"]', 'aws_subnet.private["b"]', 'each'],
+      ['output.subnet_ids', 'aws_subnet.private["a"]', 'for'],
+      ['output.subnet_ids', 'aws_subnet.private["b"]', 'for'],
+    ]);
+  });
+
+  it('should not expand blocks without a graph node', () => {
+    const graph = createInstanceGraph(parse(SUBNETS), new Map());
+
+    expect(graph).toMatchObject({ blocks: [], nodes: [], edges: [] });
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * Terraform JSON Parser Tests
+ * @module tests/parsers/terraform/json-parser
+ *
+ * Unit tests for parsing *.tf.json / *.tofu.json configuration into the
+ * Terraform block AST.
+ * TASK-TFJSON-001: Terraform JSON configuration parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TerraformJsonParser,
+  createTerraformJsonParser,
+  isTerraformJsonFile,
+} from '@/parsers/terraform/json-parser';
+import { extractReferences } from '@/parsers/terraform/expression-parser';
+import { ParserRegistry } from '@/parsers/registry/parser-registry';
+import type { TerraformBlock, TerraformFile } from '@/parsers/terraform/types';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const MAIN_TF_JSON = JSON.stringify({
+  '//': 'Generated by cdktf',
+  terraform: {
+    required_providers: { aws: { source: 'hashicorp/aws', version: '~> 5.0' } },
+    backend: { s3: { bucket: 'state', key: 'network.tfstate' } },
+  },
+  provider: {
+    aws: [
+      { region: 'us-east-1' },
+      { alias: 'west', region: 'us-west-2' },
+    ],
+  },
+  variable: {
+    prefix: { type: 'string', default: '${literal}' },
+    azs: { type: 'list(string)' },
+  },
+  locals: { name: '${var.prefix}-vpc' },
+  resource: {
+    aws_vpc: {
+      main: { cidr_block: '10.0.0.0/16', tags: { Name: '${local.name}' } },
+    },
+    aws_subnet: {
+      private: {
+        count: '${length(var.azs)}',
+        vpc_id: '${aws_vpc.main.id}',
+        availability_zone: '${var.azs[count.index]}',
+        provider: 'aws.west',
+        depends_on: ['aws_vpc.main'],
+        lifecycle: { ignore_changes: ['tags'], create_before_destroy: true },
+      },
+    },
+    aws_security_group: {
+      web: {
+        vpc_id: '${aws_vpc.main.id}',
+        ingress: [
+          { from_port: 443, to_port: 443, cidr_blocks: ['${aws_vpc.main.cidr_block}'] },
+          { from_port: 80, to_port: 80, cidr_blocks: ['0.0.0.0/0'] },
+        ],
+      },
+    },
+  },
+  data: {
+    aws_ami: {
+      ubuntu: { most_recent: true, filter: [{ name: 'name', values: ['ubuntu-*'] }] },
+    },
+  },
+  module: {
+    app: { source: './modules/app', subnet_ids: '${aws_subnet.private[*].id}' },
+  },
+  output: {
+    vpc_id: { value: '${aws_vpc.main.id}', sensitive: false },
+  },
+}, null, 2);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function parse(content: string, filePath = 'network/main.tf.json'): TerraformFile {
+  return new TerraformJsonParser().parseContent(content, filePath);
+}
+
+function findBlock(file: TerraformFile, type: string, ...labels: string[]): TerraformBlock {
+  const block = file.blocks.find(
+    b => b.type === type && labels.every((label, i) => b.labels[i] === label)
+  );
+  if (!block) {
+    throw new Error(`Block ${type} ${labels.join('.')} not found`);
+  }
+  return block;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('TerraformJsonParser', () => {
+  describe('file detection', () => {
+    it('should recognise .tf.json and .tofu.json files', () => {
+      expect(isTerraformJsonFile('main.tf.json')).toBe(true);
+      expect(isTerraformJsonFile('infra/main.tofu.json')).toBe(true);
+      expect(isTerraformJsonFile('main.tf')).toBe(false);
+      expect(isTerraformJsonFile('package.json')).toBe(false);
+    });
+
+    it('should accept both extensions through canParse', () => {
+      const parser = createTerraformJsonParser();
+      expect(parser.canParse('main.tf.json')).toBe(true);
+      expect(parser.canParse('main.tofu.json')).toBe(true);
+      expect(parser.canParse('config.json')).toBe(false);
+    });
+  });
+
+  describe('block structure', () => {
+    it('should produce blocks for every top-level block type', () => {
+      const file = parse(MAIN_TF_JSON);
+
+      expect(file.errors).toEqual([]);
+      expect(file.blocks.map(b => `${b.type}:${b.labels.join('.')}`)).toEqual([
+        'terraform:',
+        'provider:aws',
+        'provider:aws',
+        'variable:prefix',
+        'variable:azs',
+        'locals:',
+        'resource:aws_vpc.main',
+        'resource:aws_subnet.private',
+        'resource:aws_security_group.web',
+        'data:aws_ami.ubuntu',
+        'module:app',
+        'output:vpc_id',
+      ]);
+    });
+
+    it('should skip comment properties', () => {
+      const file = parse(JSON.stringify({
+        '//': 'top-level comment',
+        resource: { aws_s3_bucket: { logs: { '//': 'body comment', bucket: 'logs' } } },
+      }));
+
+      expect(file.blocks).toHaveLength(1);
+      expect(Object.keys(file.blocks[0]!.attributes)).toEqual(['bucket']);
+    });
+
+    it('should expand arrays of blocks at any label level', () => {
+      const file = parse(MAIN_TF_JSON);
+      const providers = file.blocks.filter(b => b.type === 'provider');
+
+      expect(providers[1]!.attributes['alias']).toMatchObject({ type: 'literal', value: 'west' });
+    });
+
+    it('should create known and repeated nested blocks', () => {
+      const file = parse(MAIN_TF_JSON);
+
+      const subnet = findBlock(file, 'resource', 'aws_subnet', 'private');
+      expect(subnet.nestedBlocks.map(b => b.type)).toEqual(['lifecycle']);
+      expect(subnet.attributes['lifecycle']).toBeUndefined();
+
+      const sg = findBlock(file, 'resource', 'aws_security_group', 'web');
+      expect(sg.nestedBlocks.map(b => b.type)).toEqual(['ingress', 'ingress']);
+
+      const ami = findBlock(file, 'data', 'aws_ami', 'ubuntu');
+      expect(ami.nestedBlocks.map(b => b.type)).toEqual(['filter']);
+
+      const terraform = findBlock(file, 'terraform');
+      expect(terraform.nestedBlocks.map(b => `${b.type}:${b.labels.join('.')}`))
+        .toEqual(['required_providers:', 'backend:s3']);
+    });
+
+    it('should keep plain objects as attributes', () => {
+      const vpc = findBlock(parse(MAIN_TF_JSON), 'resource', 'aws_vpc', 'main');
+
+      expect(vpc.nestedBlocks).toEqual([]);
+      expect(vpc.attributes['tags']?.type).toBe('object');
+    });
+
+    it('should record block source locations', () => {
+      const file = parse(MAIN_TF_JSON);
+      const vpc = findBlock(file, 'resource', 'aws_vpc', 'main');
+      const lines = MAIN_TF_JSON.split('\n');
+
+      expect(vpc.location.file).toBe('network/main.tf.json');
+      expect(lines[vpc.location.lineStart - 1]).toContain('"main"');
+      expect(vpc.location.lineEnd).toBeGreaterThan(vpc.location.lineStart);
+    });
+  });
+
+  describe('expressions', () => {
+    it('should unwrap single interpolations into the inner expression', () => {
+      const subnet = findBlock(parse(MAIN_TF_JSON), 'resource', 'aws_subnet', 'private');
+
+      expect(subnet.attributes['vpc_id']).toMatchObject({
+        type: 'reference',
+        parts: ['aws_vpc', 'main', 'id'],
+      });
+      expect(subnet.attributes['count']).toMatchObject({ type: 'function', name: 'length' });
+    });
+
+    it('should parse mixed strings as templates', () => {
+      const locals = findBlock(parse(MAIN_TF_JSON), 'locals');
+      const name = locals.attributes['name'];
+
+      expect(name?.type).toBe('template');
+      expect(extractReferences(name!).map(r => r.raw)).toEqual(['var.prefix']);
+    });
+
+    it('should keep plain strings and scalars as literals', () => {
+      const vpc = findBlock(parse(MAIN_TF_JSON), 'resource', 'aws_vpc', 'main');
+      const output = findBlock(parse(MAIN_TF_JSON), 'output', 'vpc_id');
+
+      expect(vpc.attributes['cidr_block']).toMatchObject({ type: 'literal', value: '10.0.0.0/16' });
+      expect(output.attributes['sensitive']).toMatchObject({ type: 'literal', value: false });
+    });
+
+    it('should treat meta-arguments as bare expressions', () => {
+      const file = parse(MAIN_TF_JSON);
+      const subnet = findBlock(file, 'resource', 'aws_subnet', 'private');
+      const azs = findBlock(file, 'variable', 'azs');
+
+      expect(subnet.attributes['provider']).toMatchObject({ type: 'reference', parts: ['aws', 'west'] });
+      expect(subnet.attributes['depends_on']).toMatchObject({
+        type: 'array',
+        elements: [{ type: 'reference', parts: ['aws_vpc', 'main'] }],
+      });
+      expect(subnet.nestedBlocks[0]!.attributes['ignore_changes']).toMatchObject({
+        type: 'array',
+        elements: [{ type: 'reference', parts: ['tags'] }],
+      });
+      expect(azs.attributes['type']).toMatchObject({ type: 'function', name: 'list' });
+    });
+
+    it('should take variable defaults literally', () => {
+      const prefix = findBlock(parse(MAIN_TF_JSON), 'variable', 'prefix');
+
+      expect(prefix.attributes['default']).toMatchObject({ type: 'literal', value: '${literal}' });
+    });
+
+    it('should honour $${ escapes and nested braces', () => {
+      const file = parse(JSON.stringify({
+        locals: {
+          escaped: 'echo $${HOME}',
+          nested: '${lookup(var.map, "key", {})}-suffix',
+        },
+      }));
+      const { escaped, nested } = file.blocks[0]!.attributes;
+
+      expect(escaped).toMatchObject({ type: 'literal', value: 'echo ${HOME}' });
+      expect(nested?.type).toBe('template');
+      expect(extractReferences(nested!).map(r => r.raw)).toContain('var.map');
+    });
+
+    it('should expose references inside nested blocks', () => {
+      const sg = findBlock(parse(MAIN_TF_JSON), 'resource', 'aws_security_group', 'web');
+      const refs = extractReferences(sg.nestedBlocks[0]!.attributes['cidr_blocks']!);
+
+      expect(refs[0]).toMatchObject({ type: 'resource', parts: ['aws_vpc', 'main', 'cidr_block'] });
+    });
+  });
+
+  describe('errors', () => {
+    it('should report invalid JSON with a location', () => {
+      const file = parse('{\n  "resource": {\n    "aws_vpc": {},\n  }\n}');
+
+      expect(file.blocks).toEqual([]);
+      expect(file.errors[0]).toMatchObject({ severity: 'error', code: 'JSON_SYNTAX_ERROR' });
+      expect(file.errors[0]?.location?.lineStart).toBe(4);
+    });
+
+    it('should reject a non-object root', () => {
+      const file = parse('[]');
+      expect(file.errors[0]?.code).toBe('INVALID_ROOT');
+    });
+
+    it('should warn about unsupported block types and malformed bodies', () => {
+      const file = parse(JSON.stringify({
+        check: { health: {} },
+        resource: { aws_vpc: { main: 'not-an-object' } },
+      }));
+
+      expect(file.errors.map(e => [e.severity, e.code])).toEqual([
+        ['warning', 'UNSUPPORTED_BLOCK_TYPE'],
+        ['warning', 'INVALID_BLOCK_BODY'],
+      ]);
+    });
+
+    it('should fail parse() on errors and succeed with warnings', async () => {
+      const parser = new TerraformJsonParser();
+
+      const failed = await parser.parse('{ nope', 'main.tf.json');
+      expect(failed.success).toBe(false);
+
+      const ok = await parser.parse(JSON.stringify({ check: {}, locals: { a: 1 } }), 'main.tf.json');
+      expect(ok.success).toBe(true);
+      if (ok.success) {
+        expect(ok.data.blocks).toHaveLength(1);
+        expect(ok.warnings[0]?.code).toBe('UNSUPPORTED_BLOCK_TYPE');
+      }
+    });
+  });
+
+  describe('registry integration', () => {
+    it('should be selected for .tf.json and .tofu.json files', async () => {
+      const registry = new ParserRegistry({ enableCache: false });
+
+      expect(registry.getParser('main.tf.json')?.name).toBe('terraform-json');
+      expect(registry.getParser('main.tofu.json')?.name).toBe('terraform-json');
+
+      const result = await registry.parse<TerraformFile>(MAIN_TF_JSON, 'main.tofu.json');
+      expect(result.success && result.data.blocks.length).toBe(12);
+    });
+  });
+});
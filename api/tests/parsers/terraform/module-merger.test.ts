@@ -0,0 +1,184 @@
+/**
+ * Terraform Module Merger Tests
+ * @module tests/parsers/terraform/module-merger
+ *
+ * Unit tests for merging HCL and JSON files of a module and applying
+ * override files.
+ * TASK-TFJSON-001: Terraform JSON configuration parsing
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  mergeTerraformModules,
+  isTerraformOverrideFile,
+} from '@/parsers/terraform/module-merger';
+import { parseTerraformDirectory } from '@/parsers/terraform/hcl-parser';
+import type { TerraformBlock, TerraformFile } from '@/parsers/terraform/types';
+import {
+  createResourceBlock,
+  createLocalsBlock,
+  createLiteralExpression,
+  createReferenceExpression,
+} from '../../factories/terraform.factory';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+function file(path: string, blocks: TerraformBlock[]): TerraformFile {
+  return { path, blocks, errors: [], encoding: 'utf-8', size: 0 };
+}
+
+function lifecycle(attributes: Record<string, ReturnType<typeof createLiteralExpression>>): TerraformBlock {
+  return {
+    type: 'lifecycle' as TerraformBlock['type'],
+    labels: [],
+    attributes,
+    nestedBlocks: [],
+    location: { file: '', lineStart: 1, lineEnd: 1, columnStart: 1, columnEnd: 1 },
+    raw: '',
+  };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('isTerraformOverrideFile', () => {
+  it('should match Terraform and OpenTofu override names', () => {
+    expect(isTerraformOverrideFile('override.tf')).toBe(true);
+    expect(isTerraformOverrideFile('mod/override.tf.json')).toBe(true);
+    expect(isTerraformOverrideFile('mod/dev_override.tf')).toBe(true);
+    expect(isTerraformOverrideFile('mod/dev_override.tofu.json')).toBe(true);
+    expect(isTerraformOverrideFile('mod/main.tf')).toBe(false);
+    expect(isTerraformOverrideFile('mod/nooverride.tf')).toBe(false);
+  });
+});
+
+describe('mergeTerraformModules', () => {
+  it('should combine primary HCL and JSON files unchanged', () => {
+    const hcl = file('mod/main.tf', [createResourceBlock({ resourceType: 'aws_vpc', name: 'main' })]);
+    const json = file('mod/subnets.tf.json', [createResourceBlock({ resourceType: 'aws_subnet', name: 'a' })]);
+
+    const merged = mergeTerraformModules([hcl, json]);
+
+    expect(merged.map(f => f.blocks.length)).toEqual([1, 1]);
+    expect(merged[0]!.blocks[0]).toBe(hcl.blocks[0]);
+  });
+
+  it('should merge override arguments into the matching block', () => {
+    const main = file('mod/main.tf', [createResourceBlock({
+      resourceType: 'aws_instance',
+      name: 'web',
+      attributes: { subnet_id: createReferenceExpression(['aws_subnet', 'a', 'id']) },
+    })]);
+    const override = file('mod/override.tf.json', [createResourceBlock({
+      resourceType: 'aws_instance',
+      name: 'web',
+      attributes: { instance_type: createLiteralExpression('m5.large') },
+    })]);
+
+    const [mergedMain, mergedOverride] = mergeTerraformModules([main, override]);
+    const web = mergedMain!.blocks[0]!;
+
+    expect(web.attributes['instance_type']).toMatchObject({ value: 'm5.large' });
+    expect(web.attributes['subnet_id']).toMatchObject({ type: 'reference' });
+    expect(mergedOverride!.blocks).toEqual([]);
+    expect(main.blocks[0]!.attributes['instance_type']).toMatchObject({ value: 't2.micro' });
+  });
+
+  it('should apply override files in lexical order', () => {
+    const main = file('mod/main.tf', [createResourceBlock({ name: 'web' })]);
+    const b = file('mod/b_override.tf', [createResourceBlock({ name: 'web', attributes: { ami: createLiteralExpression('ami-b') } })]);
+    const a = file('mod/a_override.tf.json', [createResourceBlock({ name: 'web', attributes: { ami: createLiteralExpression('ami-a') } })]);
+
+    const merged = mergeTerraformModules([main, b, a]);
+
+    expect(merged[0]!.blocks[0]!.attributes['ami']).toMatchObject({ value: 'ami-b' });
+  });
+
+  it('should replace nested blocks by type but merge lifecycle arguments', () => {
+    const main = file('mod/main.tf', [createResourceBlock({
+      name: 'web',
+      nestedBlocks: [
+        lifecycle({ prevent_destroy: createLiteralExpression(true) }),
+        { ...lifecycle({}), type: 'ebs_block_device' as TerraformBlock['type'] },
+      ],
+    })]);
+    const override = file('mod/web_override.tf', [createResourceBlock({
+      name: 'web',
+      nestedBlocks: [lifecycle({ create_before_destroy: createLiteralExpression(true) })],
+    })]);
+
+    const web = mergeTerraformModules([main, override])[0]!.blocks[0]!;
+    const merged = web.nestedBlocks.find(b => (b.type as string) === 'lifecycle');
+
+    expect(web.nestedBlocks.map(b => b.type)).toEqual(['ebs_block_device', 'lifecycle']);
+    expect(Object.keys(merged!.attributes).sort()).toEqual(['create_before_destroy', 'prevent_destroy']);
+  });
+
+  it('should override individual locals wherever they are declared', () => {
+    const main = file('mod/main.tf', [createLocalsBlock({ env: createLiteralExpression('dev') })]);
+    const other = file('mod/names.tf.json', [createLocalsBlock({ name: createLiteralExpression('app') })]);
+    const override = file('mod/override.tf', [createLocalsBlock({
+      name: createLiteralExpression('app-prod'),
+      extra: createLiteralExpression('x'),
+    })]);
+
+    const [m, o, ov] = mergeTerraformModules([main, other, override]);
+
+    expect(m!.blocks[0]!.attributes['env']).toMatchObject({ value: 'dev' });
+    expect(o!.blocks[0]!.attributes['name']).toMatchObject({ value: 'app-prod' });
+    expect(Object.keys(ov!.blocks[0]!.attributes)).toEqual(['extra']);
+    expect(ov!.errors[0]?.code).toBe('OVERRIDE_TARGET_MISSING');
+  });
+
+  it('should warn about overrides without a target and duplicate blocks', () => {
+    const main = file('mod/main.tf', [createResourceBlock({ name: 'web' })]);
+    const json = file('mod/main.tf.json', [createResourceBlock({ name: 'web' })]);
+    const override = file('mod/override.tf', [createResourceBlock({ name: 'missing' })]);
+
+    const [, mergedJson, mergedOverride] = mergeTerraformModules([main, json, override]);
+
+    expect(mergedJson!.errors[0]?.code).toBe('DUPLICATE_BLOCK');
+    expect(mergedOverride!.errors[0]?.code).toBe('OVERRIDE_TARGET_MISSING');
+    expect(mergedOverride!.blocks).toHaveLength(1);
+  });
+
+  it('should keep modules in different directories apart', () => {
+    const a = file('a/main.tf', [createResourceBlock({ name: 'web' })]);
+    const b = file('b/override.tf', [createResourceBlock({ name: 'web', attributes: { ami: createLiteralExpression('ami-b') } })]);
+
+    const merged = mergeTerraformModules([a, b]);
+
+    expect(merged[0]!.blocks[0]!.attributes['ami']).toMatchObject({ value: 'ami-12345' });
+    expect(merged[1]!.errors[0]?.code).toBe('OVERRIDE_TARGET_MISSING');
+  });
+});
+
+describe('parseTerraformDirectory', () => {
+  it('should parse JSON files and apply overrides', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'tf-json-'));
+    try {
+      await writeFile(join(dir, 'main.tf'), 'resource "aws_instance" "web" {\n  ami = "ami-1"\n}\n');
+      await writeFile(join(dir, 'network.tf.json'), JSON.stringify({
+        resource: { aws_vpc: { main: { cidr_block: '10.0.0.0/16' } } },
+      }));
+      await writeFile(join(dir, 'override.tf.json'), JSON.stringify({
+        resource: { aws_instance: { web: { ami: 'ami-2' } } },
+      }));
+
+      const files = await parseTerraformDirectory(dir);
+      const blocks = files.flatMap(f => f.blocks);
+
+      expect(blocks.map(b => b.labels.join('.')).sort()).toEqual(['aws_instance.web', 'aws_vpc.main']);
+      expect(blocks.find(b => b.labels[0] === 'aws_instance')?.attributes['ami'])
+        .toMatchObject({ type: 'literal', value: 'ami-2' });
+    } finally {
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Terraform Remote State Tests
+ * @module tests/parsers/terraform/remote-state
+ *
+ * Unit tests for backend normalization into state identities, remote-state
+ * consumers, Terragrunt remote_state inheritance and output_value edges.
+ * TASK-TFSTATE-001: Terraform remote state cross-repository linking
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeRemoteState,
+  getBackendIdentity,
+  getRemoteStateConsumers,
+  createRemoteStateEdges,
+} from '@/parsers/terraform/remote-state';
+import { HCLParser } from '@/parsers/terraform/hcl-parser';
+import { parseTerragrunt } from '@/parsers/terragrunt/tg-parser';
+import { extractRemoteStateIdentity } from '@/parsers/terragrunt/metadata-extractor';
+import type { TerragruntFile } from '@/parsers/terragrunt/types';
+import type { NodeType } from '@/types/graph';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const parser = new HCLParser();
+
+async function parseTg(content: string, filePath: string): Promise<TerragruntFile> {
+  const result = await parseTerragrunt(content, filePath, { resolveIncludes: false, resolveDependencies: false });
+  if (!result.success) {
+    throw new Error('parse failed');
+  }
+  return result.data;
+}
+
+function node(type: 'terraform_output' | 'terraform_data', id: string, name: string, metadata: Record<string, unknown>): NodeType {
+  return {
+    id,
+    type,
+    name,
+    location: { file: 'main.tf', lineStart: 1, lineEnd: 3 },
+    metadata,
+  } as NodeType;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('normalizeRemoteState', () => {
+  it('should normalize s3 bucket and key', () => {
+    expect(normalizeRemoteState('s3', { bucket: 'acme-state', key: './network//terraform.tfstate', region: 'us-east-1' }))
+      .toEqual({ backend: 's3', id: 's3://acme-state/network/terraform.tfstate' });
+  });
+
+  it('should prefix s3 keys of non-default workspaces', () => {
+    expect(normalizeRemoteState('s3', { bucket: 'acme-state', key: 'network.tfstate' }, { workspace: 'prod' })?.id)
+      .toBe('s3://acme-state/env:/prod/network.tfstate');
+  });
+
+  it('should normalize gcs prefixes to the workspace state object', () => {
+    expect(normalizeRemoteState('gcs', { bucket: 'acme', prefix: '/network/' })?.id)
+      .toBe('gcs://acme/network/default.tfstate');
+  });
+
+  it('should normalize azurerm storage accounts case-insensitively', () => {
+    expect(normalizeRemoteState('azurerm', { storage_account_name: 'AcmeState', container_name: 'tfstate', key: 'network.tfstate' })?.id)
+      .toBe('azurerm://acmestate/tfstate/network.tfstate');
+  });
+
+  it('should resolve local paths against the working directory', () => {
+    expect(normalizeRemoteState('local', { path: '../network/terraform.tfstate' }, { workingDir: '/repo/app' })?.id)
+      .toBe('local:///repo/network/terraform.tfstate');
+  });
+
+  it('should return null for interpolated or missing locations', () => {
+    expect(normalizeRemoteState('s3', { bucket: 'acme-state', key: '${var.env}/network.tfstate' })).toBeNull();
+    expect(normalizeRemoteState('gcs', {})).toBeNull();
+    expect(normalizeRemoteState('consul', { path: 'network' })).toBeNull();
+  });
+});
+
+describe('getBackendIdentity', () => {
+  it('should read the backend block of a root module', () => {
+    const file = parser.parse(`
+terraform {
+  backend "s3" {
+    bucket = "acme-state"
+    key    = "network/terraform.tfstate"
+  }
+}
+`, '/repo/network/backend.tf');
+
+    expect(getBackendIdentity([file], '/repo/network')).toEqual({ backend: 's3', id: 's3://acme-state/network/terraform.tfstate' });
+  });
+
+  it('should fall back to the local backend', () => {
+    const file = parser.parse('output "vpc_id" {\n  value = "vpc-1"\n}\n', '/repo/network/outputs.tf');
+
+    expect(getBackendIdentity([file], '/repo/network')?.id).toBe('local:///repo/network/terraform.tfstate');
+  });
+});
+
+describe('getRemoteStateConsumers', () => {
+  it('should collect the state and the outputs read from it', () => {
+    const file = parser.parse(`
+data "terraform_remote_state" "network" {
+  backend = "s3"
+  config = {
+    bucket = "acme-state"
+    key    = "network/terraform.tfstate"
+  }
+}
+
+resource "aws_instance" "app" {
+  subnet_id = data.terraform_remote_state.network.outputs.subnet_id
+  tags = {
+    Vpc = "\${data.terraform_remote_state.network.outputs["vpc_id"]}"
+  }
+}
+`, '/repo/app/main.tf');
+
+    const consumers = getRemoteStateConsumers([file], '/repo/app');
+
+    expect(consumers).toHaveLength(1);
+    expect(consumers[0]).toMatchObject({
+      name: 'network',
+      address: 'data.terraform_remote_state.network',
+      identity: { backend: 's3', id: 's3://acme-state/network/terraform.tfstate' },
+      outputs: ['subnet_id', 'vpc_id'],
+    });
+  });
+});
+
+describe('extractRemoteStateIdentity', () => {
+  const ROOT = `
+remote_state {
+  backend = "s3"
+  config = {
+    bucket = "acme-state"
+    key    = "\${path_relative_to_include()}/terraform.tfstate"
+  }
+}
+`;
+
+  it('should resolve an included remote_state for the including unit', async () => {
+    const root = await parseTg(ROOT, '/repo/live/root.hcl');
+    const unit = await parseTg('inputs = {\n  cidr = "10.0.0.0/16"\n}\n', '/repo/live/prod/vpc/terragrunt.hcl');
+
+    expect(extractRemoteStateIdentity(unit, [root])).toEqual({
+      backend: 's3',
+      id: 's3://acme-state/prod/vpc/terraform.tfstate',
+    });
+  });
+
+  it('should prefer the remote_state block of the unit itself', async () => {
+    const root = await parseTg(ROOT, '/repo/live/root.hcl');
+    const unit = await parseTg(ROOT.replace('acme-state', 'other-state'), '/repo/live/prod/vpc/terragrunt.hcl');
+
+    expect(extractRemoteStateIdentity(unit, [root])?.id).toBe('s3://other-state/terraform.tfstate');
+  });
+});
+
+describe('createRemoteStateEdges', () => {
+  const STATE = 's3://acme-state/network/terraform.tfstate';
+
+  it('should link outputs to the consumers reading them', () => {
+    const edges = createRemoteStateEdges([
+      node('terraform_output', 'output.vpc_id', 'vpc_id', { remoteState: STATE }),
+      node('terraform_output', 'output.db_url', 'db_url', { remoteState: STATE }),
+      node('terraform_output', 'other.vpc_id', 'vpc_id', { remoteState: 's3://acme-state/other.tfstate' }),
+      node('terraform_data', 'data.terraform_remote_state.network', 'network', {
+        remoteState: STATE,
+        remoteStateOutputs: ['vpc_id', 'missing'],
+      }),
+    ]);
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0]).toMatchObject({
+      source: 'output.vpc_id',
+      target: 'data.terraform_remote_state.network',
+      type: 'output_value',
+      label: 'outputs.vpc_id',
+      metadata: { attribute: 'outputs.vpc_id', implicit: true },
+    });
+  });
+});
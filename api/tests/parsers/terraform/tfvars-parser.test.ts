@@ -0,0 +1,101 @@
+/**
+ * Terraform Variable Definitions Parser Tests
+ * @module tests/parsers/terraform/tfvars-parser
+ *
+ * Unit tests for parsing *.tfvars / *.tfvars.json files into variable values.
+ * TASK-TFVARS-001: Terraform variable values from tfvars files
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TerraformVarsParser,
+  isTerraformVarsFile,
+  isTerraformVarsPath,
+  parseTerraformVars,
+  type TerraformVarsFile,
+} from '@/parsers/terraform/tfvars-parser';
+import { ParserRegistry } from '@/parsers/registry/parser-registry';
+
+// ============================================================================
+// Test Data
+// ============================================================================
+
+const PROD_TFVARS = `
+region        = "us-east-1"
+instance_type = "m5.large"
+azs           = ["us-east-1a", "us-east-1b"]
+replicas      = 3
+tags = {
+  Environment = "prod"
+  Team        = "platform"
+}
+role_arn = "arn:aws:iam::123456789012:role/deploy"
+`;
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('isTerraformVarsPath', () => {
+  it('should match HCL and JSON variable files only', () => {
+    expect(isTerraformVarsPath('envs/prod.tfvars')).toBe(true);
+    expect(isTerraformVarsPath('terraform.tfvars.json')).toBe(true);
+    expect(isTerraformVarsPath('main.tf')).toBe(false);
+    expect(isTerraformVarsPath('main.tf.json')).toBe(false);
+  });
+});
+
+describe('parseTerraformVars', () => {
+  it('should evaluate literal HCL values', () => {
+    const file = parseTerraformVars(PROD_TFVARS, '/repo/network/prod.tfvars');
+
+    expect(file.errors).toEqual([]);
+    expect(file.variables).toEqual({
+      region: 'us-east-1',
+      instance_type: 'm5.large',
+      azs: ['us-east-1a', 'us-east-1b'],
+      replicas: 3,
+      tags: { Environment: 'prod', Team: 'platform' },
+      role_arn: 'arn:aws:iam::123456789012:role/deploy',
+    });
+    expect(isTerraformVarsFile(file)).toBe(true);
+  });
+
+  it('should leave out values that are not literals with a warning', () => {
+    const file = parseTerraformVars('name = "web"\nzone = data.aws_zone.main.id\n', 'dev.tfvars');
+
+    expect(file.variables).toEqual({ name: 'web' });
+    expect(file.errors).toMatchObject([{ severity: 'warning', code: 'NON_LITERAL_VALUE' }]);
+  });
+
+  it('should read JSON variable files', () => {
+    const file = parseTerraformVars('{"region": "eu-west-1", "azs": ["a"]}', 'prod.tfvars.json');
+
+    expect(file.variables).toEqual({ region: 'eu-west-1', azs: ['a'] });
+  });
+
+  it('should report JSON that is not an object', () => {
+    const file = parseTerraformVars('["region"]', 'prod.tfvars.json');
+
+    expect(file.errors).toMatchObject([{ severity: 'error', code: 'JSON_SYNTAX_ERROR' }]);
+  });
+});
+
+describe('TerraformVarsParser', () => {
+  it('should fail on syntax errors', async () => {
+    const result = await new TerraformVarsParser().parse('{', 'prod.tfvars.json');
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should be selected for .tfvars and .tfvars.json files', async () => {
+    const registry = new ParserRegistry({ enableCache: false });
+
+    expect(registry.getParser('prod.tfvars')?.name).toBe('terraform-vars');
+    expect(registry.getParser('terraform.tfvars.json')?.name).toBe('terraform-vars');
+    expect(registry.getParser('main.tf.json')?.name).toBe('terraform-json');
+
+    const result = await registry.parse<TerraformVarsFile>(PROD_TFVARS, 'prod.tfvars');
+    expect(result.success && result.data.variables['replicas']).toBe(3);
+  });
+});
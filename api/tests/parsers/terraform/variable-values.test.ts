@@ -0,0 +1,158 @@
+/**
+ * Terraform Variable Values Tests
+ * @module tests/parsers/terraform/variable-values
+ *
+ * Unit tests for environments of variable files and Terragrunt units,
+ * precedence of value sources and per-environment variable nodes.
+ * TASK-TFVARS-001: Resolve variable values per environment
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ENVIRONMENT,
+  createVarsFileSource,
+  findOwningModule,
+  getTerragruntEnvironment,
+  getVarsFileEnvironment,
+  resolveVariableValues,
+  withEnvironmentValue,
+  type VariableValueSource,
+} from '@/parsers/terraform/variable-values';
+import { parseTerraformVars } from '@/parsers/terraform/tfvars-parser';
+import { HCLParser } from '@/parsers/terraform/hcl-parser';
+import type { TerraformFile } from '@/parsers/terraform/types';
+import type { NodeType } from '@/types/graph';
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const MODULE_DIR = '/repo/network';
+
+const VARIABLES = `
+variable "region" {
+  default = "us-east-1"
+}
+
+variable "instance_type" {
+  default = "t3.micro"
+}
+
+variable "role_arn" {}
+`;
+
+function moduleFiles(): TerraformFile[] {
+  return [new HCLParser().parse(VARIABLES, `${MODULE_DIR}/variables.tf`)];
+}
+
+function varsSource(filePath: string, content: string): VariableValueSource {
+  return createVarsFileSource(parseTerraformVars(content, filePath), MODULE_DIR);
+}
+
+function valuesOf(sources: VariableValueSource[]): Record<string, Record<string, unknown>> {
+  const values = resolveVariableValues(moduleFiles(), sources);
+  return Object.fromEntries(Array.from(values, ([environment, resolved]) => [
+    environment,
+    Object.fromEntries(Object.entries(resolved).map(([name, entry]) => [name, entry.value])),
+  ]));
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('getVarsFileEnvironment', () => {
+  it('should apply auto-loaded files of the module to every environment', () => {
+    expect(getVarsFileEnvironment(`${MODULE_DIR}/terraform.tfvars`, MODULE_DIR)).toBeNull();
+    expect(getVarsFileEnvironment(`${MODULE_DIR}/common.auto.tfvars.json`, MODULE_DIR)).toBeNull();
+    expect(getVarsFileEnvironment('terraform.tfvars')).toBeNull();
+  });
+
+  it('should name environments after named files and variable file directories', () => {
+    expect(getVarsFileEnvironment(`${MODULE_DIR}/Prod.tfvars`, MODULE_DIR)).toBe('prod');
+    expect(getVarsFileEnvironment(`${MODULE_DIR}/staging.tfvars.json`, MODULE_DIR)).toBe('staging');
+    expect(getVarsFileEnvironment(`${MODULE_DIR}/envs/dev/terraform.tfvars`, MODULE_DIR)).toBe('dev');
+    expect(getVarsFileEnvironment('envs/qa/terraform.tfvars')).toBe('qa');
+  });
+});
+
+describe('getTerragruntEnvironment', () => {
+  it('should prefer directories named like environments', () => {
+    expect(getTerragruntEnvironment('/repo/live/prod/us-east-1/vpc/terragrunt.hcl')).toBe('prod');
+    expect(getTerragruntEnvironment('/repo/live/acme-sandbox/vpc/terragrunt.hcl')).toBe('vpc');
+  });
+});
+
+describe('findOwningModule', () => {
+  it('should pick the nearest module at or above the file', () => {
+    const modules = ['/repo', MODULE_DIR, '/repo/network-extra'];
+
+    expect(findOwningModule(`${MODULE_DIR}/envs/prod/terraform.tfvars`, modules)).toBe(MODULE_DIR);
+    expect(findOwningModule('/repo/prod.tfvars', modules)).toBe('/repo');
+    expect(findOwningModule('/elsewhere/prod.tfvars', modules)).toBeNull();
+  });
+});
+
+describe('resolveVariableValues', () => {
+  it('should resolve defaults in the default environment', () => {
+    expect(valuesOf([])).toEqual({
+      [DEFAULT_ENVIRONMENT]: { region: 'us-east-1', instance_type: 't3.micro' },
+    });
+  });
+
+  it('should layer sources in Terraform precedence order', () => {
+    const sources = [
+      varsSource(`${MODULE_DIR}/prod.tfvars`, 'instance_type = "m5.large"\nrole_arn = "arn:aws:iam::123456789012:role/prod"\n'),
+      varsSource(`${MODULE_DIR}/b.auto.tfvars`, 'region = "eu-west-1"\n'),
+      varsSource(`${MODULE_DIR}/terraform.tfvars.json`, '{"region": "us-west-2", "instance_type": "t3.small"}'),
+      varsSource(`${MODULE_DIR}/terraform.tfvars`, 'region = "us-east-2"\nundeclared = true\n'),
+      {
+        kind: 'terragrunt',
+        path: '/repo/live/prod/network/terragrunt.hcl',
+        environment: 'prod',
+        variables: { instance_type: 'c5.large', role_arn: 'arn:aws:iam::123456789012:role/tg' },
+      },
+    ];
+
+    expect(valuesOf(sources)).toEqual({
+      [DEFAULT_ENVIRONMENT]: { region: 'eu-west-1', instance_type: 't3.small' },
+      prod: {
+        region: 'eu-west-1',
+        instance_type: 'm5.large',
+        role_arn: 'arn:aws:iam::123456789012:role/prod',
+      },
+    });
+  });
+
+  it('should record the file that assigned each value', () => {
+    const values = resolveVariableValues(moduleFiles(), [
+      varsSource(`${MODULE_DIR}/dev.tfvars`, 'instance_type = "t3.nano"\n'),
+    ]);
+
+    expect(values.get('dev')).toEqual({
+      region: { value: 'us-east-1', source: `${MODULE_DIR}/variables.tf` },
+      instance_type: { value: 't3.nano', source: `${MODULE_DIR}/dev.tfvars` },
+    });
+  });
+});
+
+describe('withEnvironmentValue', () => {
+  const variable = {
+    id: 'var.instance_type',
+    type: 'terraform_variable',
+    name: 'instance_type',
+    location: { file: `${MODULE_DIR}/variables.tf`, lineStart: 1, lineEnd: 1 },
+    metadata: { values: { default: 't3.micro', prod: 'm5.large' } },
+  } as unknown as NodeType;
+
+  it('should select the value of the environment, falling back to the default', () => {
+    expect(withEnvironmentValue(variable, 'prod').metadata).toMatchObject({ environment: 'prod', value: 'm5.large' });
+    expect(withEnvironmentValue(variable, 'dev').metadata).toMatchObject({ environment: 'dev', value: 't3.micro' });
+  });
+
+  it('should leave other nodes unchanged', () => {
+    const output = { ...variable, id: 'output.id', type: 'terraform_output' } as unknown as NodeType;
+
+    expect(withEnvironmentValue(output, 'prod')).toBe(output);
+  });
+});
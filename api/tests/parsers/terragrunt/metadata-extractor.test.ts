@@ -12,6 +12,8 @@ import {
   extractTerraformSource,
   extractRemoteStateInfo,
   countInputs,
+  extractInputValues,
+  extractLocalModuleDir,
   extractGenerateLabels,
   hasErrors,
   hasTerraformSource,
@@ -408,6 +410,61 @@ describe('countInputs', () => {
   });
 });
 
+// ============================================================================
+// extractInputValues Tests
+// ============================================================================
+
+describe('extractInputValues', () => {
+  it('should merge parent inputs under the config inputs', () => {
+    const root = createMockTerragruntFile({ blocks: [createMockInputsBlock(2)] });
+    const file = createMockTerragruntFile({
+      blocks: [{
+        ...createMockInputsBlock(0),
+        values: {
+          input_1: { type: 'literal', value: 'override', raw: '"override"' },
+          region: { type: 'literal', value: 'us-east-1', raw: '"us-east-1"' },
+        },
+      }],
+    });
+
+    expect(extractInputValues(file, [root])).toEqual({
+      input_0: 'value_0',
+      input_1: 'override',
+      region: 'us-east-1',
+    });
+  });
+
+  it('should return empty object without inputs', () => {
+    expect(extractInputValues(createMockTerragruntFile())).toEqual({});
+  });
+});
+
+// ============================================================================
+// extractLocalModuleDir Tests
+// ============================================================================
+
+describe('extractLocalModuleDir', () => {
+  it('should resolve local sources against the config directory', () => {
+    const file = createMockTerragruntFile({
+      blocks: [createMockTerraformBlock('../../modules//vpc?ref=ignored')],
+    });
+
+    expect(extractLocalModuleDir(file)).toBe('/repo/modules/vpc');
+  });
+
+  it('should return null for remote and dynamic sources', () => {
+    const remote = createMockTerragruntFile({
+      blocks: [createMockTerraformBlock('git::https://example.com/modules//vpc?ref=v1.0.0')],
+    });
+    const dynamic = createMockTerragruntFile({
+      blocks: [createMockTerraformBlockWithFunctionSource()],
+    });
+
+    expect(extractLocalModuleDir(remote)).toBeNull();
+    expect(extractLocalModuleDir(dynamic)).toBeNull();
+  });
+});
+
 // ============================================================================
 // extractGenerateLabels Tests
 // ============================================================================
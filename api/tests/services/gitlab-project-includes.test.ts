@@ -0,0 +1,178 @@
+/**
+ * GitLab Project Include Service Unit Tests
+ * @module tests/services/gitlab-project-includes.test
+ *
+ * Tests for resolving GitLab CI `include: project` directives from stored
+ * repository archives and the cross-repository include edges built from them.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, mkdir, writeFile, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { create as createTar } from 'tar';
+
+vi.mock('../../src/services/minio-client', () => ({
+  uploadObject: vi.fn(),
+  downloadObject: vi.fn(),
+  objectExists: vi.fn(),
+  getPresignedDownloadUrl: vi.fn(),
+  buildRepoArchivePath: (tenantId: string, repoId: string, commitSha: string) =>
+    `${tenantId}/${repoId}/${commitSha}.tar.gz`,
+}));
+
+import { downloadObject } from '../../src/services/minio-client';
+import { readArchiveFiles } from '../../src/services/repository-clone';
+import {
+  ArchiveGitLabApiAdapter,
+  createScannedProjectIncludeResolver,
+  type ScannedProjectArchive,
+  type ScannedProjectLocator,
+} from '../../src/services/gitlab-project-includes';
+import { GitLabEdgeFactory } from '../../src/parsers/ci/gitlab-edge-factory';
+import type { GitLabInclude } from '../../src/parsers/ci/types';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const TEMPLATES_ARCHIVE: ScannedProjectArchive = {
+  repositoryId: '22222222-2222-4222-8222-222222222222',
+  ref: 'main',
+  commitSha: 'c0ffee0000000000000000000000000000000000',
+  objectPath: 'tenant/22222222-2222-4222-8222-222222222222/c0ffee.tar.gz',
+};
+
+const TEMPLATE_FILES = new Map([
+  ['templates/terraform.yml', 'include:\n  - local: /templates/base.yml\n.tf-apply:\n  script: [terraform apply]\n'],
+  ['templates/base.yml', '.base:\n  image: alpine\n'],
+  ['templates/helm.yml', '.helm-deploy:\n  script: [helm upgrade api charts/api]\n'],
+]);
+
+function createLocator(): ScannedProjectLocator {
+  return {
+    locate: vi.fn(async (project: string, ref?: string) =>
+      project === 'platform/ci-templates' && (ref === undefined || ref === 'main') ? TEMPLATES_ARCHIVE : null
+    ),
+  };
+}
+
+function projectInclude(file: string | string[], ref?: string): GitLabInclude {
+  return { type: 'project', project: 'platform/ci-templates', file, ...(ref !== undefined ? { ref } : {}) };
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('readArchiveFiles', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'gitlab-includes-'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should read selected files from a stored archive', async () => {
+    const repoDir = join(dir, 'repo');
+    await mkdir(join(repoDir, 'templates'), { recursive: true });
+    await writeFile(join(repoDir, 'templates', 'terraform.yml'), 'stages: [apply]\n');
+    await writeFile(join(repoDir, 'README.md'), '# templates\n');
+    const archivePath = join(dir, 'archive.tar.gz');
+    await createTar({ gzip: true, cwd: repoDir, file: archivePath }, ['.']);
+    vi.mocked(downloadObject).mockResolvedValue(await readFile(archivePath));
+
+    const files = await readArchiveFiles('tenant/repo/sha.tar.gz', filePath => filePath.endsWith('.yml'));
+
+    expect([...files]).toEqual([['templates/terraform.yml', 'stages: [apply]\n']]);
+  });
+});
+
+describe('ArchiveGitLabApiAdapter', () => {
+  it('should serve project files from the located archive', async () => {
+    const readFiles = vi.fn(async () => TEMPLATE_FILES);
+    const adapter = new ArchiveGitLabApiAdapter(createLocator(), readFiles);
+
+    await expect(adapter.fetchProjectFile('platform/ci-templates', '/templates/helm.yml')).resolves
+      .toContain('helm upgrade');
+    await expect(adapter.projectFileExists('platform/ci-templates', 'templates/missing.yml')).resolves.toBe(false);
+    await expect(adapter.describeProjectFile('platform/ci-templates', 'templates/helm.yml', 'main')).resolves
+      .toEqual({ repositoryId: TEMPLATES_ARCHIVE.repositoryId, ref: 'main', commitSha: TEMPLATES_ARCHIVE.commitSha });
+    expect(readFiles).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail for projects without a completed scan at the ref', async () => {
+    const adapter = new ArchiveGitLabApiAdapter(createLocator(), async () => TEMPLATE_FILES);
+
+    await expect(adapter.fetchProjectFile('platform/ci-templates', 'templates/helm.yml', 'v2')).rejects
+      .toThrow('no completed scan at v2');
+  });
+});
+
+describe('createScannedProjectIncludeResolver', () => {
+  it('should resolve project includes, their local includes and each listed file', async () => {
+    const resolver = createScannedProjectIncludeResolver('tenant', {}, createLocator());
+    // Archive reads go through MinIO; serve the fixture archive instead
+    vi.spyOn(ArchiveGitLabApiAdapter.prototype as never, 'readArchive' as never)
+      .mockImplementation((async () => TEMPLATE_FILES) as never);
+
+    const result = await resolver.resolveAll(
+      [projectInclude(['templates/terraform.yml', 'templates/helm.yml'])],
+      '/repo/.gitlab-ci.yml'
+    );
+
+    expect(result.failed).toEqual([]);
+    expect(result.resolved.map(r => r.resolvedPath)).toEqual([
+      'project:platform/ci-templates:templates/terraform.yml:default',
+      'project:platform/ci-templates:/templates/base.yml:default',
+      'project:platform/ci-templates:templates/helm.yml:default',
+    ]);
+    expect(result.resolved.every(r => r.source?.repositoryId === TEMPLATES_ARCHIVE.repositoryId)).toBe(true);
+    expect(Object.keys(result.mergedContent ?? {})).toEqual(['include', '.tf-apply', '.base', '.helm-deploy']);
+
+    vi.restoreAllMocks();
+  });
+
+  it('should report project includes without a scanned archive as failed', async () => {
+    const resolver = createScannedProjectIncludeResolver('tenant', {}, createLocator());
+
+    const result = await resolver.resolveAll([projectInclude('templates/helm.yml', 'v2')], '/repo/.gitlab-ci.yml');
+
+    expect(result.resolved).toEqual([]);
+    expect(result.failed[0]?.error).toContain('no completed scan at v2');
+  });
+});
+
+describe('GitLabEdgeFactory.createProjectIncludeEdges', () => {
+  it('should link the pipeline to included files of other repositories', () => {
+    const factory = new GitLabEdgeFactory({ scanId: 'scan-1', idGenerator: () => 'id' });
+    const include = projectInclude('/templates/helm.yml');
+    const source = { repositoryId: TEMPLATES_ARCHIVE.repositoryId, ref: 'main', commitSha: TEMPLATES_ARCHIVE.commitSha };
+
+    const edges = factory.createProjectIncludeEdges(
+      [
+        { include, resolvedPath: 'project:platform/ci-templates:/templates/helm.yml:default', content: '', depth: 0, source },
+        { include: { type: 'local', local: 'ci/lint.yml' }, resolvedPath: '/repo/ci/lint.yml', content: '', depth: 0 },
+      ],
+      'gitlab-pipeline-root',
+      '.gitlab-ci.yml'
+    );
+
+    expect(edges).toHaveLength(1);
+    expect(edges[0]).toMatchObject({
+      type: 'gitlab_includes_project',
+      source: 'gitlab-pipeline-root',
+      target: 'gitlab-pipeline-templates-helm-yml',
+      metadata: {
+        includedProject: 'platform/ci-templates',
+        includedFile: 'templates/helm.yml',
+        includedRepositoryId: TEMPLATES_ARCHIVE.repositoryId,
+        includedRef: 'main',
+        includedCommitSha: TEMPLATES_ARCHIVE.commitSha,
+      },
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * Pull Request Impact Gate Unit Tests
+ * @module tests/services/pr-impact-gate.test
+ *
+ * Tests for scanning both refs of a pull request, impact analysis, threshold
+ * verdicts, the markdown report and publishing through a git adapter.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  PrImpactGate,
+  type IRefCheckout,
+  type PrImpactInput,
+  type PrImpactResult,
+} from '../../src/services/pr-impact-gate';
+import { PR_IMPACT_COMMENT_MARKER } from '../../src/services/pr-impact-report';
+import type { IScanService, StartScanInput } from '../../src/services/scan-service';
+import type { GitAdapter, Repository } from '../../src/adapters/git/interface';
+import {
+  ScanStatus,
+  createRepositoryId,
+  createScanId,
+  createTenantId,
+  createUserId,
+} from '../../src/types/entities';
+import type { DependencyGraph } from '../../src/types/graph';
+import { success, failure } from '../../src/types/utility';
+import {
+  createGraphWithEdges,
+  createHelmReleaseNode,
+  createReferenceEdge,
+  createTerraformResourceNode,
+} from '../factories/graph.factory';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const BASE_SHA = 'aaaaaaa1111111111111111111111111111111111';
+const HEAD_SHA = 'bbbbbbb2222222222222222222222222222222222';
+
+const INPUT: PrImpactInput = {
+  tenantId: createTenantId('33333333-3333-4333-8333-333333333333'),
+  repositoryId: createRepositoryId('22222222-2222-4222-8222-222222222222'),
+  initiatedBy: createUserId('44444444-4444-4444-8444-444444444444'),
+  pullRequest: { number: 42, baseRef: 'main', headRef: 'feature/vpc' },
+};
+
+/**
+ * VPC <- subnet <- helm release: changing the VPC impacts the subnet directly
+ * and the release, which belongs to another tool, indirectly.
+ */
+function createGraph(cidrBlock: string, extraBucket: boolean): DependencyGraph {
+  const vpc = createTerraformResourceNode('aws_vpc', 'main', { metadata: { cidr_block: cidrBlock } });
+  const subnet = createTerraformResourceNode('aws_subnet', 'private');
+  const release = createHelmReleaseNode('api', 'charts/api');
+  const nodes = [vpc, subnet, release];
+  if (extraBucket) {
+    nodes.push(createTerraformResourceNode('aws_s3_bucket', 'logs'));
+  }
+
+  return createGraphWithEdges(nodes, [
+    createReferenceEdge(subnet.id, vpc.id, 'vpc_id'),
+    createReferenceEdge(release.id, subnet.id, 'subnet_id'),
+  ]);
+}
+
+function createScanService(graphs: Record<string, DependencyGraph>): IScanService {
+  return {
+    startScan: vi.fn(async (input: StartScanInput) => success({
+      scanId: createScanId(input.ref === 'main'
+        ? '11111111-1111-4111-8111-111111111111'
+        : '55555555-5555-4555-8555-555555555555'),
+      status: ScanStatus.COMPLETED,
+      graph: graphs[input.ref],
+      errors: [],
+      warnings: [],
+      durationMs: 1,
+    })),
+  } as unknown as IScanService;
+}
+
+function createRefCheckout(): IRefCheckout & { cleanup: ReturnType<typeof vi.fn> } {
+  const cleanup = vi.fn(async () => {});
+  return {
+    cleanup,
+    checkout: vi.fn(async (_repositoryId, ref: string) => ({
+      basePath: `/tmp/checkout/${ref}`,
+      commitSha: ref === 'main' ? BASE_SHA : HEAD_SHA,
+      cleanup,
+    })),
+  };
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+describe('PrImpactGate', () => {
+  let refCheckout: ReturnType<typeof createRefCheckout>;
+  let scanService: IScanService;
+
+  beforeEach(() => {
+    refCheckout = createRefCheckout();
+    scanService = createScanService({
+      main: createGraph('10.0.0.0/16', true),
+      'feature/vpc': createGraph('10.1.0.0/16', false),
+    });
+  });
+
+  it('should scan the checked-out base and head refs and clean up the checkouts', async () => {
+    const gate = new PrImpactGate(scanService, refCheckout);
+
+    const result = await gate.evaluate(INPUT);
+
+    expect(result.success).toBe(true);
+    expect(scanService.startScan).toHaveBeenCalledWith(expect.objectContaining({
+      ref: 'feature/vpc',
+      commitSha: HEAD_SHA,
+      basePath: '/tmp/checkout/feature/vpc',
+    }));
+    expect(refCheckout.cleanup).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report changed nodes and their downstream dependents', async () => {
+    const gate = new PrImpactGate(scanService, refCheckout);
+
+    const result = await gate.evaluate(INPUT);
+    if (!result.success) throw result.error;
+
+    expect(result.value.changedNodes.map(n => [n.changeType, n.name])).toEqual(
+      expect.arrayContaining([['modified', 'main'], ['removed', 'logs']])
+    );
+    expect(result.value.impact.impactedNodes.map(n => [n.name, n.depth])).toEqual([
+      ['private', 1],
+      ['api', 2],
+    ]);
+    expect(result.value.crossToolImpacts).toEqual([
+      expect.objectContaining({ fromTool: 'terraform', fromName: 'private', toTool: 'helm', toName: 'api' }),
+    ]);
+  });
+
+  it('should fail the verdict when thresholds are exceeded', async () => {
+    const gate = new PrImpactGate(scanService, refCheckout, undefined, {
+      thresholds: {
+        failOnRiskLevel: null,
+        maxImpactedNodes: 1,
+        maxRemovedNodes: 0,
+        failOnCrossToolImpact: true,
+      },
+    });
+
+    const result = await gate.evaluate(INPUT);
+    if (!result.success) throw result.error;
+
+    expect(result.value.verdict.passed).toBe(false);
+    expect(result.value.verdict.reasons).toHaveLength(3);
+  });
+
+  it('should apply per-evaluation threshold overrides', async () => {
+    const gate = new PrImpactGate(scanService, refCheckout);
+
+    const result = await gate.evaluate({ ...INPUT, thresholds: { failOnRiskLevel: null } });
+    if (!result.success) throw result.error;
+
+    expect(result.value.verdict.passed).toBe(true);
+    expect(result.value.verdict.reasons).toEqual([]);
+  });
+
+  it('should render a markdown report with the comment marker', async () => {
+    const gate = new PrImpactGate(scanService, refCheckout);
+
+    const result = await gate.evaluate({ ...INPUT, thresholds: { maxRemovedNodes: 0 } });
+    if (!result.success) throw result.error;
+
+    expect(result.value.report.startsWith(PR_IMPACT_COMMENT_MARKER)).toBe(true);
+    expect(result.value.report).toContain('## Dependency impact: failed');
+    expect(result.value.report).toContain('`main` (aaaaaaa)');
+    expect(result.value.report).toContain('### Cross-tool impacts');
+    expect(result.value.report).toContain('### Impacted downstream nodes');
+  });
+
+  it('should fail with SCAN_FAILED when a scan fails', async () => {
+    scanService.startScan = vi.fn(async () => failure(Object.assign(new Error('boom'), { code: 'INTERNAL_ERROR' }))) as never;
+    const gate = new PrImpactGate(scanService, refCheckout);
+
+    const result = await gate.evaluate(INPUT);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('SCAN_FAILED');
+    }
+    expect(refCheckout.cleanup).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail with CHECKOUT_FAILED when a ref cannot be checked out', async () => {
+    refCheckout.checkout = vi.fn(async () => {
+      throw new Error('unknown ref');
+    });
+    const gate = new PrImpactGate(scanService, refCheckout);
+
+    const result = await gate.evaluate(INPUT);
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.code).toBe('CHECKOUT_FAILED');
+    }
+    expect(scanService.startScan).not.toHaveBeenCalled();
+  });
+});
+
+// ============================================================================
+// Publishing
+// ============================================================================
+
+describe('PrImpactGate.publish', () => {
+  const repo = { fullName: 'acme/infra', htmlUrl: 'https://github.com/acme/infra' } as Repository;
+
+  function createAdapter(): GitAdapter {
+    return {
+      upsertPullRequestComment: vi.fn(async () => ({
+        id: '7',
+        url: 'https://github.com/acme/infra/pull/42#issuecomment-7',
+        created: true,
+      })),
+      setCommitStatus: vi.fn(async () => {}),
+    } as unknown as GitAdapter;
+  }
+
+  async function evaluate(gate: PrImpactGate, thresholds: PrImpactInput['thresholds']): Promise<PrImpactResult> {
+    const result = await gate.evaluate({ ...INPUT, thresholds });
+    if (!result.success) throw result.error;
+    return result.value;
+  }
+
+  it('should upsert the report comment and set a status on the head commit', async () => {
+    const gate = new PrImpactGate(
+      createScanService({ main: createGraph('10.0.0.0/16', false), 'feature/vpc': createGraph('10.1.0.0/16', false) }),
+      createRefCheckout(),
+      undefined,
+      { statusContext: 'ci/impact' }
+    );
+    const adapter = createAdapter();
+    const result = await evaluate(gate, { failOnRiskLevel: null });
+
+    await gate.publish(adapter, repo, result);
+
+    expect(adapter.upsertPullRequestComment).toHaveBeenCalledWith(repo, 42, result.report, PR_IMPACT_COMMENT_MARKER);
+    expect(adapter.setCommitStatus).toHaveBeenCalledWith(repo, HEAD_SHA, expect.objectContaining({
+      state: 'success',
+      context: 'ci/impact',
+      targetUrl: 'https://github.com/acme/infra/pull/42#issuecomment-7',
+    }));
+  });
+
+  it('should set a failure status when the verdict fails', async () => {
+    const gate = new PrImpactGate(
+      createScanService({ main: createGraph('10.0.0.0/16', false), 'feature/vpc': createGraph('10.1.0.0/16', false) }),
+      createRefCheckout()
+    );
+    const adapter = createAdapter();
+    const result = await evaluate(gate, { failOnCrossToolImpact: true });
+
+    await gate.publish(adapter, repo, result, { targetUrl: 'https://dmp.example/scans/1' });
+
+    expect(adapter.setCommitStatus).toHaveBeenCalledWith(repo, HEAD_SHA, expect.objectContaining({
+      state: 'failure',
+      targetUrl: 'https://dmp.example/scans/1',
+    }));
+  });
+});
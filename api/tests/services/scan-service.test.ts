@@ -0,0 +1,569 @@
+/**
+ * Scan Service Unit Tests
+ * @module tests/services/scan-service.test
+ *
+ * Tests for scan checkpointing, resuming interrupted scans and incremental scans.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  ScanService,
+  type IFileDiscovery,
+  type IScanPersistence,
+  type ScanCheckpoint,
+  type ScanGraphSnapshot,
+  type StartScanInput,
+} from '../../src/services/scan-service';
+import type { IParserOrchestrator, ParsedFile } from '../../src/services/parser-orchestrator';
+import type { IDetectionOrchestrator } from '../../src/services/detection-orchestrator';
+import type { IGraphService } from '../../src/services/graph-service';
+import type { IScoringService } from '../../src/services/scoring-service';
+import {
+  ScanStatus,
+  createRepositoryId,
+  createTenantId,
+  createUserId,
+  type ScanEntity,
+  type ScanId,
+  type ScanProgress,
+} from '../../src/types/entities';
+import type { GraphEdge, NodeType } from '../../src/types/graph';
+import {
+  createGraphWithEdges,
+  createNodeLocation,
+  createReferenceEdge,
+  createTerraformResourceNode,
+} from '../factories/graph.factory';
+import { createEvidenceCollection } from '../factories/evidence.factory';
+
+// ============================================================================
+// Test Fixtures
+// ============================================================================
+
+const NODES: NodeType[] = [
+  createTerraformResourceNode('aws_vpc', 'main'),
+  createTerraformResourceNode('aws_subnet', 'private'),
+];
+
+const EDGES: GraphEdge[] = [
+  createReferenceEdge(NODES[1]!.id, NODES[0]!.id, 'vpc_id'),
+];
+
+const PARSED_FILES: ParsedFile[] = [{
+  path: '/repo/main.tf',
+  type: 'terraform',
+  ast: { blocks: [] },
+  metadata: {
+    parserName: 'hcl',
+    parserVersion: '1.0.0',
+    parseTimeMs: 1,
+    fileSize: 10,
+    lineCount: 1,
+    cached: false,
+  },
+}];
+
+const START_INPUT: StartScanInput = {
+  repositoryId: createRepositoryId('11111111-1111-1111-1111-111111111111'),
+  tenantId: createTenantId('22222222-2222-2222-2222-222222222222'),
+  initiatedBy: createUserId('33333333-3333-3333-3333-333333333333'),
+  ref: 'main',
+  commitSha: 'abc123',
+  basePath: '/repo',
+};
+
+/**
+ * In-memory scan persistence
+ */
+function createMemoryPersistence() {
+  const scans = new Map<string, ScanEntity>();
+  const checkpoints = new Map<string, ScanCheckpoint>();
+  const graphs = new Map<string, ScanGraphSnapshot>();
+
+  const persistence = {
+    scans,
+    checkpoints,
+    graphs,
+    saveScan: vi.fn(async (scan: ScanEntity) => {
+      scans.set(scan.id, scan);
+    }),
+    updateProgress: vi.fn(async (scanId: ScanId, progress: ScanProgress) => {
+      const scan = scans.get(scanId);
+      if (scan) {
+        scans.set(scanId, { ...scan, progress });
+      }
+    }),
+    saveResults: vi.fn(async () => undefined),
+    getScan: vi.fn(async (scanId: ScanId) => scans.get(scanId) ?? null),
+    saveCheckpoint: vi.fn(async (checkpoint: ScanCheckpoint) => {
+      checkpoints.set(checkpoint.scanId, checkpoint);
+    }),
+    getCheckpoint: vi.fn(async (scanId: ScanId) => checkpoints.get(scanId) ?? null),
+    deleteCheckpoint: vi.fn(async (scanId: ScanId) => {
+      checkpoints.delete(scanId);
+    }),
+    getScanGraph: vi.fn(async (scanId: ScanId) => graphs.get(scanId) ?? null),
+  };
+
+  return persistence satisfies IScanPersistence;
+}
+
+function createDependencies() {
+  const fileDiscovery = {
+    discoverFiles: vi.fn(async () => [
+      { path: '/repo/main.tf', relativePath: 'main.tf', type: 'terraform' as const, size: 10 },
+    ]),
+  };
+
+  const parserOrchestrator = {
+    parseFiles: vi.fn(async () => ({
+      success: true,
+      results: PARSED_FILES,
+      errors: [],
+      warnings: [],
+      stats: {},
+    })),
+  };
+
+  const detectionOrchestrator = {
+    detect: vi.fn(async () => ({
+      success: true,
+      nodes: NODES,
+      edges: EDGES,
+      evidence: createEvidenceCollection(),
+      errors: [],
+      warnings: [],
+      stats: {},
+    })),
+  };
+
+  const graphService = {
+    buildGraph: vi.fn(async (input: { nodes: NodeType[]; edges: GraphEdge[] }) =>
+      createGraphWithEdges(input.nodes, input.edges)
+    ),
+    validateGraph: vi.fn(async () => ({ isValid: true, errors: [], warnings: [] })),
+  };
+
+  const scoringService = {
+    scoreEdges: vi.fn(async (edges: GraphEdge[]) => edges),
+  };
+
+  return { fileDiscovery, parserOrchestrator, detectionOrchestrator, graphService, scoringService };
+}
+
+function createService(
+  deps: ReturnType<typeof createDependencies>,
+  persistence: ReturnType<typeof createMemoryPersistence>
+): ScanService {
+  return new ScanService(
+    deps.parserOrchestrator as unknown as IParserOrchestrator,
+    deps.detectionOrchestrator as unknown as IDetectionOrchestrator,
+    deps.graphService as unknown as IGraphService,
+    deps.scoringService as unknown as IScoringService,
+    deps.fileDiscovery as unknown as IFileDiscovery,
+    persistence
+  );
+}
+
+/**
+ * Record a scan that stopped mid-way, with the given checkpoint
+ */
+function seedInterruptedScan(
+  persistence: ReturnType<typeof createMemoryPersistence>,
+  checkpoint: Omit<ScanCheckpoint, 'scanId'>
+): ScanId {
+  const scanId = '44444444-4444-4444-4444-444444444444' as ScanId;
+
+  persistence.scans.set(scanId, {
+    id: scanId,
+    tenantId: START_INPUT.tenantId,
+    repositoryId: START_INPUT.repositoryId,
+    initiatedBy: START_INPUT.initiatedBy,
+    status: ScanStatus.RUNNING,
+    config: {
+      detectTypes: ['terraform'],
+      includeImplicit: true,
+      minConfidence: 40,
+      maxDepth: 10,
+      includePatterns: [],
+      excludePatterns: [],
+      analyzeHelmCharts: false,
+      resolveRemoteModules: false,
+    },
+    ref: 'main',
+    commitSha: 'abc123',
+    progress: {
+      phase: 'detecting',
+      percentage: 50,
+      filesProcessed: 1,
+      totalFiles: 1,
+      nodesDetected: 0,
+      edgesDetected: 0,
+      errors: 0,
+      warnings: 0,
+    },
+    startedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  });
+  persistence.checkpoints.set(scanId, { ...checkpoint, scanId });
+
+  return scanId;
+}
+
+// ============================================================================
+// Tests
+// ============================================================================
+
+describe('ScanService', () => {
+  let deps: ReturnType<typeof createDependencies>;
+  let persistence: ReturnType<typeof createMemoryPersistence>;
+  let service: ScanService;
+
+  beforeEach(() => {
+    deps = createDependencies();
+    persistence = createMemoryPersistence();
+    service = createService(deps, persistence);
+  });
+
+  describe('checkpointing', () => {
+    it('should checkpoint after parsing and detection', async () => {
+      const result = await service.startScan(START_INPUT);
+
+      expect(result.success).toBe(true);
+
+      const saved = persistence.saveCheckpoint.mock.calls.map(([checkpoint]) => checkpoint);
+      expect(saved.map(c => c.phase)).toEqual(['parsing', 'detecting']);
+      expect(saved[0]).toMatchObject({ basePath: '/repo', totalFiles: 1, parsedFiles: PARSED_FILES });
+      expect(saved[1]?.detection?.nodes).toEqual(NODES);
+      expect(saved[1]?.parsedFiles).toBeUndefined();
+    });
+
+    it('should delete the checkpoint once results are stored', async () => {
+      const result = await service.startScan(START_INPUT);
+
+      expect(result.success && persistence.checkpoints.has(result.value.scanId)).toBe(false);
+      expect(persistence.deleteCheckpoint).toHaveBeenCalledTimes(1);
+    });
+
+    it('should complete the scan when a checkpoint cannot be saved', async () => {
+      persistence.saveCheckpoint.mockRejectedValue(new Error('database unavailable'));
+
+      const result = await service.startScan(START_INPUT);
+
+      expect(result.success && result.value.status).toBe(ScanStatus.COMPLETED);
+    });
+  });
+
+  describe('resumeScan', () => {
+    it('should resume detection from a parsing checkpoint', async () => {
+      const scanId = seedInterruptedScan(persistence, {
+        phase: 'parsing',
+        basePath: '/repo',
+        totalFiles: 1,
+        parsedFiles: PARSED_FILES,
+        errors: [],
+        warnings: [{ code: 'PARSE_WARNING', message: 'deprecated syntax' }],
+      });
+      const progress: ScanProgress[] = [];
+
+      const result = await service.resumeScan(scanId, p => { progress.push(p); });
+
+      expect(result.success).toBe(true);
+      expect(deps.fileDiscovery.discoverFiles).not.toHaveBeenCalled();
+      expect(deps.parserOrchestrator.parseFiles).not.toHaveBeenCalled();
+      expect(deps.detectionOrchestrator.detect).toHaveBeenCalledWith(
+        expect.objectContaining({ parsedFiles: PARSED_FILES, basePath: '/repo' })
+      );
+      expect(progress.every(p => p.resumedFrom === 'detecting')).toBe(true);
+      if (result.success) {
+        expect(result.value.scanId).toBe(scanId);
+        expect(result.value.summary?.totalEdges).toBe(1);
+        expect(result.value.warnings.map(w => w.code)).toContain('PARSE_WARNING');
+      }
+    });
+
+    it('should read files from a fresh checkout when one is given', async () => {
+      const scanId = seedInterruptedScan(persistence, {
+        phase: 'parsing',
+        basePath: '/tmp/removed-checkout',
+        totalFiles: 1,
+        parsedFiles: PARSED_FILES,
+        errors: [],
+        warnings: [],
+      });
+
+      const result = await service.resumeScan(scanId, undefined, '/tmp/fresh-checkout');
+
+      expect(result.success).toBe(true);
+      expect(deps.detectionOrchestrator.detect).toHaveBeenCalledWith(
+        expect.objectContaining({ basePath: '/tmp/fresh-checkout' })
+      );
+    });
+
+    it('should resume graph building from a detection checkpoint', async () => {
+      const scanId = seedInterruptedScan(persistence, {
+        phase: 'detecting',
+        basePath: '/repo',
+        totalFiles: 1,
+        detection: { nodes: NODES, edges: EDGES, evidence: createEvidenceCollection() },
+        errors: [],
+        warnings: [],
+      });
+
+      const result = await service.resumeScan(scanId);
+
+      expect(result.success).toBe(true);
+      expect(deps.detectionOrchestrator.detect).not.toHaveBeenCalled();
+      expect(deps.graphService.buildGraph).toHaveBeenCalledWith(
+        expect.objectContaining({ nodes: NODES })
+      );
+
+      const scan = persistence.scans.get(scanId);
+      expect(scan?.status).toBe(ScanStatus.COMPLETED);
+      expect(scan?.progress.resumedFrom).toBe('building_graph');
+      expect(persistence.checkpoints.has(scanId)).toBe(false);
+    });
+
+    it('should fail for unknown scans', async () => {
+      const result = await service.resumeScan('55555555-5555-5555-5555-555555555555' as ScanId);
+
+      expect(!result.success && result.error.code).toBe('SCAN_NOT_FOUND');
+    });
+
+    it('should fail when no checkpoint exists', async () => {
+      const scanId = seedInterruptedScan(persistence, {
+        phase: 'parsing',
+        basePath: '/repo',
+        totalFiles: 1,
+        errors: [],
+        warnings: [],
+      });
+      persistence.checkpoints.clear();
+
+      const result = await service.resumeScan(scanId);
+
+      expect(!result.success && result.error.code).toBe('CHECKPOINT_NOT_FOUND');
+    });
+
+    it('should refuse to resume completed scans', async () => {
+      const started = await service.startScan(START_INPUT);
+      if (!started.success) {
+        throw new Error('scan failed');
+      }
+
+      const result = await service.resumeScan(started.value.scanId);
+
+      expect(!result.success && result.error.code).toBe('INVALID_INPUT');
+    });
+
+    it('should report load failures as persistence errors', async () => {
+      persistence.getScan.mockRejectedValue(new Error('connection reset'));
+
+      const result = await service.resumeScan('55555555-5555-5555-5555-555555555555' as ScanId);
+
+      expect(!result.success && result.error.code).toBe('PERSISTENCE_FAILED');
+    });
+  });
+  describe('incremental scans', () => {
+    const BASE_SCAN_ID = '66666666-6666-6666-6666-666666666666' as ScanId;
+
+    // Base graph: network.tf holds the VPC and subnet, dns.tf a zone, compute.tf an instance
+    const vpc = createTerraformResourceNode('aws_vpc', 'main', {
+      location: createNodeLocation({ file: '/checkout/old/network.tf' }),
+    });
+    const subnet = createTerraformResourceNode('aws_subnet', 'private', {
+      location: createNodeLocation({ file: '/checkout/old/network.tf' }),
+    });
+    const zone = createTerraformResourceNode('aws_route53_zone', 'internal', {
+      location: createNodeLocation({ file: '/checkout/old/dns.tf' }),
+    });
+    const instance = createTerraformResourceNode('aws_instance', 'web', {
+      location: createNodeLocation({ file: '/checkout/old/compute.tf' }),
+    });
+    const subnetToVpc = createReferenceEdge(subnet.id, vpc.id, 'vpc_id');
+    const instanceToSubnet = createReferenceEdge(instance.id, subnet.id, 'subnet_id');
+    const zoneToVpc = createReferenceEdge(zone.id, vpc.id, 'vpc_id');
+
+    const INCREMENTAL_INPUT: StartScanInput = {
+      ...START_INPUT,
+      incremental: {
+        baseScanId: BASE_SCAN_ID,
+        changedFiles: ['network.tf'],
+        removedFiles: ['dns.tf'],
+      },
+    };
+
+    beforeEach(() => {
+      persistence.graphs.set(BASE_SCAN_ID, {
+        nodes: [vpc, subnet, zone, instance],
+        edges: [subnetToVpc, instanceToSubnet, zoneToVpc],
+      });
+
+      deps.fileDiscovery.discoverFiles.mockResolvedValue([
+        { path: '/repo/network.tf', relativePath: 'network.tf', type: 'terraform', size: 10 },
+        { path: '/repo/compute.tf', relativePath: 'compute.tf', type: 'terraform', size: 10 },
+      ]);
+
+      // network.tf now only declares the VPC
+      const newVpc = { ...vpc, location: createNodeLocation({ file: '/repo/network.tf' }) };
+      deps.detectionOrchestrator.detect.mockResolvedValue({
+        success: true,
+        nodes: [newVpc],
+        edges: [],
+        evidence: createEvidenceCollection(),
+        errors: [],
+        warnings: [],
+        stats: {},
+      });
+    });
+
+    it('should only parse the changed files', async () => {
+      const result = await service.startScan(INCREMENTAL_INPUT);
+
+      expect(result.success).toBe(true);
+      expect(deps.parserOrchestrator.parseFiles).toHaveBeenCalledWith(
+        expect.objectContaining({
+          files: [{ path: '/repo/network.tf', type: 'terraform' }],
+        })
+      );
+    });
+
+    it('should merge the changed files into the base graph', async () => {
+      const result = await service.startScan(INCREMENTAL_INPUT);
+
+      expect(result.success).toBe(true);
+
+      const [buildInput] = deps.graphService.buildGraph.mock.calls[0]!;
+      const nodeIds = buildInput.nodes.map(n => n.id).sort();
+      const edgeIds = buildInput.edges.map(e => e.id);
+
+      // The subnet was removed from network.tf and dns.tf was deleted
+      expect(nodeIds).toEqual([instance.id, vpc.id].sort());
+      expect(buildInput.nodes.find(n => n.id === vpc.id)?.location.file).toBe('/repo/network.tf');
+      expect(edgeIds).toEqual([]);
+      if (result.success) {
+        expect(result.value.summary?.filesAnalyzed).toBe(1);
+      }
+    });
+
+    it('should keep base edges between surviving nodes', async () => {
+      const result = await service.startScan({
+        ...INCREMENTAL_INPUT,
+        incremental: { baseScanId: BASE_SCAN_ID, changedFiles: ['compute.tf'], removedFiles: [] },
+      });
+
+      expect(result.success).toBe(true);
+
+      const [buildInput] = deps.graphService.buildGraph.mock.calls[0]!;
+      expect(buildInput.edges.map(e => e.id).sort()).toEqual(
+        [subnetToVpc.id, zoneToVpc.id].sort()
+      );
+    });
+
+    it('should drop base edges of a changed file that no longer declares them', async () => {
+      // compute.tf still declares the instance but no longer references the subnet
+      const newInstance = { ...instance, location: createNodeLocation({ file: '/repo/compute.tf' }) };
+      deps.detectionOrchestrator.detect.mockResolvedValue({
+        success: true,
+        nodes: [newInstance],
+        edges: [],
+        evidence: createEvidenceCollection(),
+        errors: [],
+        warnings: [],
+        stats: {},
+      });
+
+      const result = await service.startScan({
+        ...INCREMENTAL_INPUT,
+        incremental: { baseScanId: BASE_SCAN_ID, changedFiles: ['compute.tf'], removedFiles: [] },
+      });
+
+      expect(result.success).toBe(true);
+
+      const [buildInput] = deps.graphService.buildGraph.mock.calls[0]!;
+      expect(buildInput.nodes.map(n => n.id)).toContain(instance.id);
+      expect(buildInput.edges.map(e => e.id)).not.toContain(instanceToSubnet.id);
+      expect(buildInput.edges.map(e => e.id).sort()).toEqual(
+        [subnetToVpc.id, zoneToVpc.id].sort()
+      );
+    });
+
+    it('should apply removals when no changed files remain', async () => {
+      const result = await service.startScan({
+        ...INCREMENTAL_INPUT,
+        incremental: { baseScanId: BASE_SCAN_ID, changedFiles: [], removedFiles: ['dns.tf'] },
+      });
+
+      expect(result.success && result.value.status).toBe(ScanStatus.COMPLETED);
+      expect(deps.parserOrchestrator.parseFiles).not.toHaveBeenCalled();
+
+      const [buildInput] = deps.graphService.buildGraph.mock.calls[0]!;
+      expect(buildInput.nodes.map(n => n.id)).not.toContain(zone.id);
+    });
+
+    it('should use a pre-assigned scan ID', async () => {
+      const scanId = '77777777-7777-7777-7777-777777777777' as ScanId;
+
+      const result = await service.startScan({ ...INCREMENTAL_INPUT, scanId });
+
+      expect(result.success && result.value.scanId).toBe(scanId);
+      expect(persistence.scans.get(scanId)?.status).toBe(ScanStatus.COMPLETED);
+    });
+
+    it('should fall back to a full scan when the base graph is unavailable', async () => {
+      persistence.graphs.clear();
+
+      const result = await service.startScan(INCREMENTAL_INPUT);
+
+      expect(result.success).toBe(true);
+      expect(deps.parserOrchestrator.parseFiles).toHaveBeenCalledWith(
+        expect.objectContaining({
+          files: [
+            { path: '/repo/network.tf', type: 'terraform' },
+            { path: '/repo/compute.tf', type: 'terraform' },
+          ],
+        })
+      );
+      if (result.success) {
+        expect(result.value.warnings.map(w => w.code)).toContain('INCREMENTAL_BASE_UNAVAILABLE');
+      }
+    });
+
+    it('should keep incremental input in checkpoints and merge on resume', async () => {
+      await service.startScan(INCREMENTAL_INPUT);
+
+      const [parsingCheckpoint] = persistence.saveCheckpoint.mock.calls[0]!;
+      expect(parsingCheckpoint.incremental).toEqual(INCREMENTAL_INPUT.incremental);
+
+      const scanId = seedInterruptedScan(persistence, {
+        ...parsingCheckpoint,
+        phase: 'parsing',
+      });
+      deps.graphService.buildGraph.mockClear();
+
+      const result = await service.resumeScan(scanId);
+
+      expect(result.success).toBe(true);
+      const [buildInput] = deps.graphService.buildGraph.mock.calls[0]!;
+      expect(buildInput.nodes.map(n => n.id)).toContain(instance.id);
+    });
+
+    it('should fail to resume when the base graph is gone', async () => {
+      const scanId = seedInterruptedScan(persistence, {
+        phase: 'parsing',
+        basePath: '/repo',
+        totalFiles: 1,
+        parsedFiles: PARSED_FILES,
+        incremental: { baseScanId: BASE_SCAN_ID, changedFiles: ['network.tf'], removedFiles: [] },
+        errors: [],
+        warnings: [],
+      });
+      persistence.graphs.clear();
+
+      const result = await service.resumeScan(scanId);
+
+      expect(!result.success && result.error.code).toBe('BASE_SCAN_NOT_FOUND');
+    });
+  });
+});
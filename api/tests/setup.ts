@@ -202,8 +202,9 @@ vi.mock('@opentelemetry/api', async (importOriginal) => {
 // External Service Mocks
 // ============================================================================
 
-// Mock undici for HTTP client tests
-vi.mock('undici', () => ({
+// Mock undici requests for HTTP client tests; agents stay real
+vi.mock('undici', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('undici')>()),
   request: vi.fn().mockResolvedValue({
     statusCode: 200,
     headers: {},
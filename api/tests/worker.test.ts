@@ -0,0 +1,106 @@
+/**
+ * Worker Entry Point Tests
+ * @module tests/worker
+ *
+ * Tests for the wiring of services started by the worker process.
+ * Connections, queues and queue workers are replaced so the entry point
+ * can start without Redis or PostgreSQL.
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import type { IScanEventEmitter } from '../src/services/scan-service.js';
+import type { TenantId, ScanId, RepositoryId } from '../src/types/entities.js';
+
+const mocks = vi.hoisted(() => ({
+  dispatch: vi.fn().mockResolvedValue(undefined),
+  publishScanEvent: vi.fn().mockResolvedValue(undefined),
+  createScanService: vi.fn(() => ({})),
+  rollupWorker: { start: vi.fn().mockResolvedValue(undefined), close: vi.fn() },
+  queueWorker: { start: vi.fn(), close: vi.fn() },
+}));
+
+vi.mock('bullmq', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('bullmq')>()),
+  Queue: vi.fn(() => ({ close: vi.fn() })),
+}));
+vi.mock('../src/cache/redis.js', () => ({
+  getClient: vi.fn(() => ({ publish: vi.fn() })),
+  closeClient: vi.fn(),
+}));
+vi.mock('../src/db/connection.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/db/connection.js')>()),
+  getPool: vi.fn(() => ({})),
+  closePool: vi.fn(),
+}));
+vi.mock('../src/services/progress-stream/progress-stream-store.js', () => ({
+  createRedisProgressStreamStore: vi.fn(() => ({ close: vi.fn() })),
+}));
+vi.mock('../src/services/progress-stream/progress-stream-service.js', () => ({
+  createProgressStreamService: vi.fn(() => ({ publishScanEvent: mocks.publishScanEvent })),
+}));
+vi.mock('../src/services/webhooks/webhook-dispatcher.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/webhooks/webhook-dispatcher.js')>()),
+  createWebhookDispatcher: vi.fn(() => ({ dispatch: mocks.dispatch })),
+}));
+vi.mock('../src/services/scan-service.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/scan-service.js')>()),
+  createScanService: mocks.createScanService,
+}));
+vi.mock('../src/services/rollup/error-recovery.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../src/services/rollup/error-recovery.js')>()),
+  createErrorRecoveryService: vi.fn(() => ({ addToDeadLetterQueue: vi.fn(), shutdown: vi.fn() })),
+}));
+vi.mock('../src/queues/rollup-worker.js', () => ({
+  createRollupWorker: vi.fn(() => mocks.rollupWorker),
+}));
+vi.mock('../src/queues/scan-worker.js', () => ({
+  createScanWorker: vi.fn(() => mocks.queueWorker),
+}));
+vi.mock('../src/queues/webhook-worker.js', () => ({
+  createWebhookWorker: vi.fn(() => mocks.queueWorker),
+}));
+
+describe('worker', () => {
+  const tenantId = 'tenant-1' as TenantId;
+  let exitCodes: unknown[];
+  let scanEventEmitter: IScanEventEmitter;
+
+  // Mocks are reset before each test, so the worker is started and inspected once here
+  beforeAll(async () => {
+    const exit = vi.spyOn(process, 'exit').mockImplementation((() => undefined) as never);
+    vi.spyOn(process, 'on').mockImplementation(() => process);
+
+    await import('../src/worker.js');
+    await vi.waitFor(() => expect(mocks.queueWorker.start).toHaveBeenCalledTimes(2));
+
+    exitCodes = exit.mock.calls.map(([code]) => code);
+    scanEventEmitter = mocks.createScanService.mock.calls[0]!.at(-1) as IScanEventEmitter;
+  });
+
+  it('should start without exiting', () => {
+    expect(exitCodes).toEqual([]);
+  });
+
+  it('should record scan events in progress streams and dispatch them to webhook subscriptions', async () => {
+    await scanEventEmitter.emit({
+      type: 'scan.completed',
+      scanId: 'scan-1' as ScanId,
+      tenantId,
+      repositoryId: 'repo-1' as RepositoryId,
+      timestamp: new Date('2026-10-19T00:00:00Z'),
+      data: { nodeCount: 3 },
+    });
+
+    expect(mocks.publishScanEvent).toHaveBeenCalledWith(
+      tenantId,
+      'scan-1',
+      expect.objectContaining({ type: 'completed' })
+    );
+    expect(mocks.dispatch).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'scan.completed',
+      tenantId,
+      repositoryId: 'repo-1',
+      data: expect.objectContaining({ scanId: 'scan-1', nodeCount: 3 }),
+    }));
+  });
+});
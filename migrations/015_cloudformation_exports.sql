@@ -0,0 +1,142 @@
+-- =============================================================================
+-- Migration 015: CloudFormation Node Types and Cross-Stack Export References
+-- TASK-CFN-001: Add CloudFormation node types and the cfn_export reference type
+-- =============================================================================
+--
+-- Node Types Added:
+--   cfn_resource  - Resource declared in a template Resources section
+--   cfn_parameter - Template parameter from the Parameters section
+--   cfn_output    - Template output from the Outputs section
+--
+-- Edge Types Added:
+--   output_value - Fn::ImportValue user -> output exporting the imported name
+--
+-- CloudFormation outputs with Export.Name and entries using Fn::ImportValue
+-- are indexed under the export name so both sides of a cross-stack reference
+-- resolve to the same external object.
+--
+-- Constraints Updated:
+--   external_objects_ref_type_check - external_objects_master.ref_type
+--   neo_ref_type_check              - node_external_objects.ref_type
+--   eoi_ref_type_check              - external_object_index.reference_type
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Add 'cfn_resource' to node_type enum
+-- Resource declared in a template Resources section
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'cfn_resource'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'node_type')
+    ) THEN
+        ALTER TYPE node_type ADD VALUE 'cfn_resource';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'cfn_parameter' to node_type enum
+-- Template parameter from the Parameters section
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'cfn_parameter'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'node_type')
+    ) THEN
+        ALTER TYPE node_type ADD VALUE 'cfn_parameter';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'cfn_output' to node_type enum
+-- Template output from the Outputs section
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'cfn_output'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'node_type')
+    ) THEN
+        ALTER TYPE node_type ADD VALUE 'cfn_output';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'output_value' to edge_type enum
+-- Fn::ImportValue user -> output exporting the imported name
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'output_value'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'output_value';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'cfn_export' to external reference type constraints
+-- =============================================================================
+
+ALTER TABLE external_objects_master
+    DROP CONSTRAINT IF EXISTS external_objects_ref_type_check;
+
+ALTER TABLE external_objects_master
+    ADD CONSTRAINT external_objects_ref_type_check CHECK (
+        ref_type IN ('arn', 'resource_id', 'k8s_reference', 'gcp_resource',
+                     'azure_resource', 'container_image', 'git_url', 'storage_path',
+                     'cfn_export')
+    );
+
+ALTER TABLE node_external_objects
+    DROP CONSTRAINT IF EXISTS neo_ref_type_check;
+
+ALTER TABLE node_external_objects
+    ADD CONSTRAINT neo_ref_type_check CHECK (
+        ref_type IN ('arn', 'resource_id', 'k8s_reference', 'gcp_resource',
+                     'azure_resource', 'container_image', 'git_url', 'storage_path',
+                     'cfn_export')
+    );
+
+ALTER TABLE external_object_index
+    DROP CONSTRAINT IF EXISTS eoi_ref_type_check;
+
+ALTER TABLE external_object_index
+    ADD CONSTRAINT eoi_ref_type_check CHECK (
+        reference_type IN ('arn', 'resource_id', 'k8s_reference', 'gcp_resource',
+                           'azure_resource', 'container_image', 'git_url', 'storage_path',
+                           'cfn_export')
+    );
+
+-- Cross-stack lookups resolve an export name to its exporting and importing nodes
+CREATE INDEX IF NOT EXISTS idx_eoi_cfn_export
+    ON external_object_index(tenant_id, external_id)
+    WHERE reference_type = 'cfn_export';
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('015_cloudformation_exports')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,77 @@
+-- =============================================================================
+-- Migration 016: Scan Checkpoints
+-- Stores intermediate scan pipeline state so interrupted scans can resume
+-- TASK-SCAN-RESUME: Scan checkpointing and resume
+-- =============================================================================
+--
+-- A checkpoint is written after the parsing and detection phases. Each scan
+-- keeps only its latest checkpoint; it is removed when the scan completes.
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Scan Checkpoints Table
+-- =============================================================================
+CREATE TABLE scan_checkpoints (
+    scan_id UUID PRIMARY KEY,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    phase VARCHAR(32) NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT scan_checkpoints_phase_check CHECK (phase IN ('parsing', 'detecting'))
+);
+
+-- =============================================================================
+-- Indexes
+-- =============================================================================
+
+-- Tenant-based queries
+CREATE INDEX idx_scan_checkpoints_tenant ON scan_checkpoints(tenant_id);
+
+-- =============================================================================
+-- Enable Row-Level Security
+-- =============================================================================
+ALTER TABLE scan_checkpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scan_checkpoints FORCE ROW LEVEL SECURITY;
+
+-- =============================================================================
+-- RLS Policies for Scan Checkpoints
+-- =============================================================================
+
+-- Policy for SELECT operations
+CREATE POLICY scan_checkpoints_tenant_select ON scan_checkpoints
+    FOR SELECT
+    USING (tenant_id = current_tenant_id());
+
+-- Policy for INSERT operations
+CREATE POLICY scan_checkpoints_tenant_insert ON scan_checkpoints
+    FOR INSERT
+    WITH CHECK (tenant_id = current_tenant_id());
+
+-- Policy for UPDATE operations
+CREATE POLICY scan_checkpoints_tenant_update ON scan_checkpoints
+    FOR UPDATE
+    USING (tenant_id = current_tenant_id())
+    WITH CHECK (tenant_id = current_tenant_id());
+
+-- Policy for DELETE operations
+CREATE POLICY scan_checkpoints_tenant_delete ON scan_checkpoints
+    FOR DELETE
+    USING (tenant_id = current_tenant_id());
+
+-- =============================================================================
+-- Updated At Trigger
+-- =============================================================================
+CREATE TRIGGER update_scan_checkpoints_updated_at
+    BEFORE UPDATE ON scan_checkpoints
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('016_scan_checkpoints')
+ON CONFLICT (version) DO NOTHING;
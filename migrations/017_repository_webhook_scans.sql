@@ -0,0 +1,104 @@
+-- =============================================================================
+-- Migration 017: Repository Webhook Scans
+-- Per-repository webhook secrets and branch filters for push-triggered scans
+-- TASK-WEBHOOK-SCAN: Webhook-triggered incremental scans
+-- =============================================================================
+--
+-- Push webhooks are matched to a registration by provider and the provider's
+-- repository ID. GitHub signs payloads with an HMAC of the shared secret, so
+-- the secret itself is kept alongside its hash. GitLab sends the token in a
+-- header and is verified against secret_hash.
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Repository Webhooks Columns
+-- =============================================================================
+ALTER TABLE repository_webhooks
+    ADD COLUMN provider git_provider NOT NULL DEFAULT 'github',
+    ADD COLUMN webhook_secret TEXT,
+    ADD COLUMN branch_filter JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON COLUMN repository_webhooks.webhook_secret IS 'Shared secret used to verify HMAC payload signatures';
+COMMENT ON COLUMN repository_webhooks.branch_filter IS 'Branches whose pushes trigger scans; empty means the default branch only';
+
+-- =============================================================================
+-- Indexes
+-- =============================================================================
+
+-- Incoming webhook lookup by provider repository
+CREATE INDEX idx_webhooks_provider_repo ON repository_webhooks(provider, repository_id)
+    WHERE is_active = TRUE;
+
+-- =============================================================================
+-- Lookup Function
+-- =============================================================================
+
+-- Incoming webhooks arrive before a tenant is known, so the registration
+-- lookup runs as the function owner instead of under tenant RLS. Matching
+-- tracked repositories are joined in by provider and full name.
+CREATE OR REPLACE FUNCTION find_active_repository_webhooks(
+    p_provider git_provider,
+    p_repository_id VARCHAR(255)
+)
+RETURNS TABLE (
+    id UUID,
+    tenant_id UUID,
+    provider git_provider,
+    provider_repository_id VARCHAR(255),
+    repository_full_name VARCHAR(255),
+    tracked_repository_id UUID,
+    default_branch VARCHAR(255),
+    webhook_id VARCHAR(255),
+    webhook_secret TEXT,
+    secret_hash VARCHAR(64),
+    branch_filter JSONB,
+    events JSONB,
+    is_active BOOLEAN,
+    created_at TIMESTAMPTZ,
+    updated_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        w.id,
+        w.tenant_id,
+        w.provider,
+        w.repository_id AS provider_repository_id,
+        w.repository_full_name,
+        r.id AS tracked_repository_id,
+        r.default_branch,
+        w.webhook_id,
+        w.webhook_secret,
+        w.secret_hash,
+        w.branch_filter,
+        w.events,
+        w.is_active,
+        w.created_at,
+        w.updated_at
+    FROM repository_webhooks w
+    LEFT JOIN repositories r
+        ON r.tenant_id = w.tenant_id
+       AND r.provider = w.provider
+       AND (r.owner || '/' || r.name) = w.repository_full_name
+    WHERE w.provider = p_provider
+      AND w.repository_id = p_repository_id
+      AND w.is_active = TRUE
+    ORDER BY w.created_at;
+END;
+$$;
+
+COMMENT ON FUNCTION find_active_repository_webhooks IS
+    'Finds active webhook registrations for an incoming provider push across tenants';
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('017_repository_webhook_scans')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,124 @@
+-- =============================================================================
+-- Migration 018: Dockerfile Node and Edge Types
+-- TASK-DOCKER-001: Add Dockerfile stage/image nodes and container image edges
+-- =============================================================================
+--
+-- Node Types Added:
+--   docker_stage - Build stage started by a FROM instruction
+--   docker_image - External image referenced by FROM or COPY --from
+--
+-- Edge Types Added:
+--   base_image  - Stage -> image or earlier stage it is built FROM
+--   copies_from - Stage -> stage or image of COPY --from
+--   runs_image  - Workload or Helm image value -> Dockerfile stage building its image
+--
+-- Indexes Added:
+--   idx_edges_runs_image_target - "Which workloads run an image built from this Dockerfile"
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Add 'docker_stage' to node_type enum
+-- Build stage started by a FROM instruction
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'docker_stage'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'node_type')
+    ) THEN
+        ALTER TYPE node_type ADD VALUE 'docker_stage';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'docker_image' to node_type enum
+-- External image referenced by FROM or COPY --from
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'docker_image'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'node_type')
+    ) THEN
+        ALTER TYPE node_type ADD VALUE 'docker_image';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'base_image' to edge_type enum
+-- Stage -> image or earlier stage it is built FROM
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'base_image'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'base_image';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'copies_from' to edge_type enum
+-- Stage -> stage or image of COPY --from
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'copies_from'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'copies_from';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'runs_image' to edge_type enum
+-- Workload or Helm image value -> Dockerfile stage building its image
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'runs_image'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'runs_image';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Indexes
+-- =============================================================================
+
+CREATE INDEX IF NOT EXISTS idx_edges_runs_image_target
+    ON edges(target_node_id, scan_id)
+    WHERE type = 'runs_image';
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('018_dockerfile_nodes')
+ON CONFLICT (version) DO NOTHING;
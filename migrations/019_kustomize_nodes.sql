@@ -0,0 +1,94 @@
+-- =============================================================================
+-- Migration 019: Kustomize Node and Edge Types
+-- TASK-KUSTOMIZE-001: Add kustomization nodes and overlay/render/patch edges
+-- =============================================================================
+--
+-- Node Types Added:
+--   kustomization - Directory with a kustomization file (or Component)
+--
+-- Edge Types Added:
+--   kustomize_base    - Overlay kustomization -> base or component it builds on
+--   kustomize_renders - Kustomization -> K8s resource it outputs
+--   kustomize_patches - Kustomization -> rendered K8s resource one of its patches changes
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Add 'kustomization' to node_type enum
+-- Directory with a kustomization file (or Component)
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'kustomization'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'node_type')
+    ) THEN
+        ALTER TYPE node_type ADD VALUE 'kustomization';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'kustomize_base' to edge_type enum
+-- Overlay kustomization -> base or component it builds on
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'kustomize_base'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'kustomize_base';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'kustomize_renders' to edge_type enum
+-- Kustomization -> K8s resource it outputs
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'kustomize_renders'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'kustomize_renders';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'kustomize_patches' to edge_type enum
+-- Kustomization -> rendered K8s resource one of its patches changes
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'kustomize_patches'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'kustomize_patches';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('019_kustomize_nodes')
+ON CONFLICT (version) DO NOTHING;
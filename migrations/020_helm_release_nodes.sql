@@ -0,0 +1,56 @@
+-- =============================================================================
+-- Migration 020: Helm Release Node and Render Edge Types
+-- TASK-HELM-RENDER-001: Link Helm releases to the resources their charts render
+-- =============================================================================
+--
+-- Node Types Added:
+--   helm_release - Release of a chart (chart defaults, Helmfile or ArgoCD)
+--
+-- Edge Types Added:
+--   helm_renders - Helm release -> K8s resource its chart renders
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Add 'helm_release' to node_type enum
+-- Release of a chart (chart defaults, Helmfile or ArgoCD)
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'helm_release'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'node_type')
+    ) THEN
+        ALTER TYPE node_type ADD VALUE 'helm_release';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'helm_renders' to edge_type enum
+-- Helm release -> K8s resource its chart renders
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'helm_renders'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'helm_renders';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('020_helm_release_nodes')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,80 @@
+-- =============================================================================
+-- Migration 021: Terraform Remote State References
+-- TASK-TFSTATE-001: Link terraform_remote_state consumers to producing outputs
+-- =============================================================================
+--
+-- Outputs, terraform_remote_state data sources and Terragrunt units are
+-- indexed under the identity of the state they write or read (for example
+-- s3://bucket/key), so consumers resolve to producers in other repositories.
+-- Producer-to-consumer links are stored as output_value edges.
+--
+-- Constraints Updated:
+--   external_objects_ref_type_check - external_objects_master.ref_type
+--   neo_ref_type_check              - node_external_objects.ref_type
+--   eoi_ref_type_check              - external_object_index.reference_type
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Add 'output_value' to edge_type enum
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'output_value'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'output_value';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Add 'tf_state' reference type
+-- =============================================================================
+
+ALTER TABLE external_objects_master
+    DROP CONSTRAINT IF EXISTS external_objects_ref_type_check;
+
+ALTER TABLE external_objects_master
+    ADD CONSTRAINT external_objects_ref_type_check CHECK (
+        ref_type IN ('arn', 'resource_id', 'k8s_reference', 'gcp_resource',
+                     'azure_resource', 'container_image', 'git_url', 'storage_path',
+                     'cfn_export', 'tf_state')
+    );
+
+ALTER TABLE node_external_objects
+    DROP CONSTRAINT IF EXISTS neo_ref_type_check;
+
+ALTER TABLE node_external_objects
+    ADD CONSTRAINT neo_ref_type_check CHECK (
+        ref_type IN ('arn', 'resource_id', 'k8s_reference', 'gcp_resource',
+                     'azure_resource', 'container_image', 'git_url', 'storage_path',
+                     'cfn_export', 'tf_state')
+    );
+
+ALTER TABLE external_object_index
+    DROP CONSTRAINT IF EXISTS eoi_ref_type_check;
+
+ALTER TABLE external_object_index
+    ADD CONSTRAINT eoi_ref_type_check CHECK (
+        reference_type IN ('arn', 'resource_id', 'k8s_reference', 'gcp_resource',
+                           'azure_resource', 'container_image', 'git_url', 'storage_path',
+                           'cfn_export', 'tf_state')
+    );
+
+-- Remote state lookups resolve a state identity to its outputs and readers
+CREATE INDEX IF NOT EXISTS idx_eoi_tf_state
+    ON external_object_index(tenant_id, external_id)
+    WHERE reference_type = 'tf_state';
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('021_terraform_remote_state')
+ON CONFLICT (version) DO NOTHING;
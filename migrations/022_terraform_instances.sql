@@ -0,0 +1,38 @@
+-- =============================================================================
+-- Migration 022: Terraform Instance Edge Type
+-- TASK-TFINST-001: Expand count/for_each blocks into per-instance nodes
+-- =============================================================================
+--
+-- Instances of count/for_each blocks are stored as nodes of their block's
+-- type (e.g. aws_subnet.private["a"]) linked from the block node.
+--
+-- Edge Types Added:
+--   expands_to - count/for_each block -> one of its instances
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Add 'expands_to' to edge_type enum
+-- count/for_each block -> one of its instances
+-- =============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1
+        FROM pg_enum
+        WHERE enumlabel = 'expands_to'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'edge_type')
+    ) THEN
+        ALTER TYPE edge_type ADD VALUE 'expands_to';
+    END IF;
+END
+$$;
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('022_terraform_instances')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,80 @@
+-- =============================================================================
+-- Migration 023: Rollup Execution Edges
+-- Persists merged graph edges so any API instance can analyze blast radius
+-- TASK-ROLLUP-001: Cross-Repository Aggregation persistent blast radius graphs
+-- =============================================================================
+--
+-- Merged nodes of an execution live in merged_nodes. The edges between them
+-- are stored as one JSONB document per execution; the row is written after
+-- the nodes, so its presence marks a completely persisted graph.
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Rollup Execution Edges Table
+-- =============================================================================
+CREATE TABLE rollup_execution_edges (
+    execution_id UUID PRIMARY KEY,
+    rollup_id UUID NOT NULL,
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    edges JSONB NOT NULL DEFAULT '[]',
+    edge_count INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- =============================================================================
+-- Indexes
+-- =============================================================================
+
+-- Tenant-based queries
+CREATE INDEX idx_rollup_execution_edges_tenant ON rollup_execution_edges(tenant_id);
+
+-- Cleanup when a rollup is deleted
+CREATE INDEX idx_rollup_execution_edges_rollup ON rollup_execution_edges(tenant_id, rollup_id);
+
+-- =============================================================================
+-- Enable Row-Level Security
+-- =============================================================================
+ALTER TABLE rollup_execution_edges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rollup_execution_edges FORCE ROW LEVEL SECURITY;
+
+-- =============================================================================
+-- RLS Policies for Rollup Execution Edges
+-- =============================================================================
+
+-- Policy for SELECT operations
+CREATE POLICY rollup_execution_edges_tenant_select ON rollup_execution_edges
+    FOR SELECT
+    USING (tenant_id = current_tenant_id());
+
+-- Policy for INSERT operations
+CREATE POLICY rollup_execution_edges_tenant_insert ON rollup_execution_edges
+    FOR INSERT
+    WITH CHECK (tenant_id = current_tenant_id());
+
+-- Policy for UPDATE operations
+CREATE POLICY rollup_execution_edges_tenant_update ON rollup_execution_edges
+    FOR UPDATE
+    USING (tenant_id = current_tenant_id())
+    WITH CHECK (tenant_id = current_tenant_id());
+
+-- Policy for DELETE operations
+CREATE POLICY rollup_execution_edges_tenant_delete ON rollup_execution_edges
+    FOR DELETE
+    USING (tenant_id = current_tenant_id());
+
+-- =============================================================================
+-- Updated At Trigger
+-- =============================================================================
+CREATE TRIGGER update_rollup_execution_edges_updated_at
+    BEFORE UPDATE ON rollup_execution_edges
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('023_rollup_execution_edges')
+ON CONFLICT (version) DO NOTHING;
@@ -0,0 +1,158 @@
+-- =============================================================================
+-- Migration 024: Webhook Subscriptions
+-- Outbound webhook subscriptions for rollup and scan events
+-- TASK-WEBHOOK-OUT: Outbound event subscriptions
+-- =============================================================================
+--
+-- Tenants register HTTP endpoints for event types, optionally narrowed to
+-- rollups or repositories. Every event sent to a subscription is recorded in
+-- webhook_deliveries together with the outcome of its latest attempt.
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Webhook Subscriptions Table
+-- =============================================================================
+CREATE TABLE webhook_subscriptions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    name VARCHAR(255) NOT NULL,
+    url TEXT NOT NULL,
+    -- Signing secret; needed in clear text to compute HMAC signatures
+    secret TEXT NOT NULL,
+    event_types TEXT[] NOT NULL,
+    -- Empty arrays match every rollup / repository
+    rollup_ids TEXT[] NOT NULL DEFAULT '{}',
+    repository_ids TEXT[] NOT NULL DEFAULT '{}',
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by VARCHAR(255) NOT NULL,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT webhook_subscriptions_event_types_not_empty CHECK (cardinality(event_types) > 0)
+);
+
+-- =============================================================================
+-- Webhook Deliveries Table
+-- =============================================================================
+CREATE TABLE webhook_deliveries (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    tenant_id UUID NOT NULL REFERENCES tenants(id) ON DELETE CASCADE,
+    subscription_id UUID NOT NULL REFERENCES webhook_subscriptions(id) ON DELETE CASCADE,
+    event_id UUID NOT NULL,
+    event_type VARCHAR(100) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending',
+    attempt_count INTEGER NOT NULL DEFAULT 0,
+    response_status INTEGER,
+    response_body TEXT,
+    error_message TEXT,
+    duration_ms INTEGER,
+    -- Delivery this one was manually redelivered from
+    redelivery_of UUID REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+    last_attempt_at TIMESTAMPTZ,
+    next_attempt_at TIMESTAMPTZ,
+    delivered_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+    CONSTRAINT webhook_deliveries_status_check CHECK (status IN ('pending', 'succeeded', 'failed'))
+);
+
+-- =============================================================================
+-- Indexes
+-- =============================================================================
+
+-- Tenant-based queries
+CREATE INDEX idx_webhook_subscriptions_tenant ON webhook_subscriptions(tenant_id);
+
+-- Matching active subscriptions of an event type
+CREATE INDEX idx_webhook_subscriptions_event_types ON webhook_subscriptions USING GIN(event_types)
+    WHERE is_active = TRUE;
+
+-- Tenant-based queries
+CREATE INDEX idx_webhook_deliveries_tenant ON webhook_deliveries(tenant_id);
+
+-- Delivery log of a subscription, newest first
+CREATE INDEX idx_webhook_deliveries_subscription ON webhook_deliveries(subscription_id, created_at DESC);
+
+-- One automatic delivery per event and subscription; redeliveries are exempt
+CREATE UNIQUE INDEX idx_webhook_deliveries_event ON webhook_deliveries(subscription_id, event_id)
+    WHERE redelivery_of IS NULL;
+
+-- =============================================================================
+-- Enable Row-Level Security
+-- =============================================================================
+ALTER TABLE webhook_subscriptions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_subscriptions FORCE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries FORCE ROW LEVEL SECURITY;
+
+-- =============================================================================
+-- RLS Policies for Webhook Subscriptions
+-- =============================================================================
+
+-- Policy for SELECT operations
+CREATE POLICY webhook_subscriptions_tenant_select ON webhook_subscriptions
+    FOR SELECT
+    USING (tenant_id = current_tenant_id());
+
+-- Policy for INSERT operations
+CREATE POLICY webhook_subscriptions_tenant_insert ON webhook_subscriptions
+    FOR INSERT
+    WITH CHECK (tenant_id = current_tenant_id());
+
+-- Policy for UPDATE operations
+CREATE POLICY webhook_subscriptions_tenant_update ON webhook_subscriptions
+    FOR UPDATE
+    USING (tenant_id = current_tenant_id())
+    WITH CHECK (tenant_id = current_tenant_id());
+
+-- Policy for DELETE operations
+CREATE POLICY webhook_subscriptions_tenant_delete ON webhook_subscriptions
+    FOR DELETE
+    USING (tenant_id = current_tenant_id());
+
+-- =============================================================================
+-- RLS Policies for Webhook Deliveries
+-- =============================================================================
+
+-- Policy for SELECT operations
+CREATE POLICY webhook_deliveries_tenant_select ON webhook_deliveries
+    FOR SELECT
+    USING (tenant_id = current_tenant_id());
+
+-- Policy for INSERT operations
+CREATE POLICY webhook_deliveries_tenant_insert ON webhook_deliveries
+    FOR INSERT
+    WITH CHECK (tenant_id = current_tenant_id());
+
+-- Policy for UPDATE operations
+CREATE POLICY webhook_deliveries_tenant_update ON webhook_deliveries
+    FOR UPDATE
+    USING (tenant_id = current_tenant_id())
+    WITH CHECK (tenant_id = current_tenant_id());
+
+-- Policy for DELETE operations
+CREATE POLICY webhook_deliveries_tenant_delete ON webhook_deliveries
+    FOR DELETE
+    USING (tenant_id = current_tenant_id());
+
+-- =============================================================================
+-- Updated At Triggers
+-- =============================================================================
+CREATE TRIGGER update_webhook_subscriptions_updated_at
+    BEFORE UPDATE ON webhook_subscriptions
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_webhook_deliveries_updated_at
+    BEFORE UPDATE ON webhook_deliveries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('024_webhook_subscriptions')
+ON CONFLICT (version) DO NOTHING;
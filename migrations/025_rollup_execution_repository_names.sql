@@ -0,0 +1,27 @@
+-- =============================================================================
+-- Migration 025: Rollup Execution Repository Names
+-- Persists repository names with merged graph edges for blast radius analysis
+-- TASK-ROLLUP-001: Cross-Repository Aggregation persistent blast radius graphs
+-- =============================================================================
+--
+-- Blast radius results name the repositories of impacted nodes. Graphs loaded
+-- on another API instance read the names from the execution's edge row
+-- instead of showing repository IDs.
+--
+-- =============================================================================
+
+-- =============================================================================
+-- Add Repository Names Column
+-- =============================================================================
+
+-- Repository ID -> name for every repository of the merged graph
+ALTER TABLE rollup_execution_edges ADD COLUMN IF NOT EXISTS repository_names JSONB NOT NULL DEFAULT '{}';
+COMMENT ON COLUMN rollup_execution_edges.repository_names IS 'Names of the repositories contributing merged nodes, keyed by repository ID';
+
+-- =============================================================================
+-- Migration Tracking
+-- =============================================================================
+
+INSERT INTO schema_migrations (version)
+VALUES ('025_rollup_execution_repository_names')
+ON CONFLICT (version) DO NOTHING;
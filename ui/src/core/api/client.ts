@@ -339,6 +339,106 @@ export async function del<T>(
   return response.data;
 }
 
+// ============================================================================
+// Server-Sent Events
+// ============================================================================
+
+/**
+ * Event received from a text/event-stream endpoint
+ */
+export interface ServerSentEvent<T = Record<string, unknown>> {
+  id?: string;
+  event: string;
+  data: T;
+}
+
+/**
+ * Event stream options
+ */
+export interface StreamEventsOptions {
+  /** Resume after this event ID */
+  lastEventId?: string;
+  /** Abort signal closing the stream */
+  signal?: AbortSignal;
+}
+
+/**
+ * Stream server-sent events from an authenticated endpoint.
+ * Uses fetch rather than EventSource so the bearer token can be sent.
+ * Ends when the server closes the stream.
+ */
+export async function* streamEvents<T = Record<string, unknown>>(
+  url: string,
+  options: StreamEventsOptions = {}
+): AsyncGenerator<ServerSentEvent<T>> {
+  const headers: Record<string, string> = { Accept: 'text/event-stream' };
+  const token = tokenCallbacks?.getAccessToken();
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  if (options.lastEventId) {
+    headers['Last-Event-ID'] = options.lastEventId;
+  }
+
+  const response = await fetch(`${defaultConfig.baseURL}${url}`, {
+    headers,
+    credentials: defaultConfig.withCredentials ? 'include' : 'same-origin',
+    signal: options.signal ?? null,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new ApiClientError(
+      response.statusText || 'Event stream failed',
+      response.status,
+      response.status === 0 ? 'NETWORK_ERROR' : 'UNKNOWN_ERROR'
+    );
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        return;
+      }
+
+      buffer += value;
+      let boundary = buffer.indexOf('\n\n');
+      while (boundary !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+        boundary = buffer.indexOf('\n\n');
+
+        let id: string | undefined;
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of block.split('\n')) {
+          const colon = line.indexOf(':');
+          // Comments (heartbeats) start with a colon
+          if (colon <= 0) continue;
+          const field = line.slice(0, colon);
+          const fieldValue = line.slice(colon + 1).replace(/^ /, '');
+          if (field === 'id') id = fieldValue;
+          else if (field === 'event') event = fieldValue;
+          else if (field === 'data') data.push(fieldValue);
+        }
+
+        if (data.length > 0) {
+          yield {
+            ...(id !== undefined && { id }),
+            event,
+            data: JSON.parse(data.join('\n')) as T,
+          };
+        }
+      }
+    }
+  } finally {
+    await reader.cancel().catch(() => undefined);
+  }
+}
+
 // ============================================================================
 // Utility Functions
 // ============================================================================
@@ -15,6 +15,9 @@ export {
   clearTokenCallbacks,
   buildQueryString,
   isApiClientError,
+  streamEvents,
   ApiClientError,
   type ApiConfig,
+  type ServerSentEvent,
+  type StreamEventsOptions,
 } from './client';
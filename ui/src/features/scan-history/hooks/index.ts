@@ -79,3 +79,12 @@ export type {
   ParsedError,
   UseScanHistoryErrorHandlerReturn,
 } from './useScanHistoryErrorHandler';
+
+// Live scan progress hook
+export { useScanProgress } from './useScanProgress';
+
+export type {
+  ScanProgressState,
+  UseScanProgressOptions,
+  UseScanProgressReturn,
+} from './useScanProgress';
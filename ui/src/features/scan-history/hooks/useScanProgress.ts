@@ -0,0 +1,196 @@
+/**
+ * useScanProgress Hook
+ * Follows the progress of a running scan over server-sent events
+ * @module features/scan-history/hooks/useScanProgress
+ */
+
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { streamEvents } from '@/core/api/client';
+import { scanHistoryQueryKeys } from './queryKeys';
+import type { ScanId } from '../types/domain';
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * Progress of a scan as reported by the server
+ */
+export interface ScanProgressState {
+  /** Current phase (parsing, detecting, ...) */
+  phase?: string;
+  /** Completion percentage */
+  percentage?: number;
+  /** Files processed so far */
+  filesProcessed?: number;
+  /** Total files to process */
+  totalFiles?: number;
+  /** Nodes detected so far */
+  nodesDetected?: number;
+  /** Edges detected so far */
+  edgesDetected?: number;
+}
+
+/**
+ * Options for useScanProgress hook
+ */
+export interface UseScanProgressOptions {
+  /** Scan ID to follow */
+  scanId: ScanId | null;
+  /** Enable/disable the stream */
+  enabled?: boolean;
+}
+
+/**
+ * Return type for useScanProgress hook
+ */
+export interface UseScanProgressReturn {
+  /** Latest scan status (pending, running, completed, failed, cancelled) */
+  status: string | null;
+  /** Latest progress */
+  progress: ScanProgressState | null;
+  /** Error message of a failed scan */
+  errorMessage: string | null;
+  /** Whether the stream is connected */
+  isStreaming: boolean;
+  /** Whether the scan reached a terminal state */
+  isFinished: boolean;
+}
+
+/**
+ * Data of scan progress events
+ */
+interface ScanProgressEventData {
+  status?: string;
+  progress?: ScanProgressState;
+  errorMessage?: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/** Statuses and events after which a scan no longer changes */
+const TERMINAL_STATUSES = new Set(['completed', 'failed', 'cancelled']);
+
+/** Delay before reconnecting a dropped stream in ms */
+const RECONNECT_DELAY = 3000;
+
+/** Reconnection attempts before giving up */
+const MAX_RECONNECTS = 5;
+
+// ============================================================================
+// useScanProgress Hook
+// ============================================================================
+
+/**
+ * Hook streaming live progress of a scan.
+ *
+ * Reconnects with the last received event ID when the connection drops, and
+ * refreshes the cached scan detail once the scan finishes.
+ *
+ * @param options - Stream options
+ * @returns Latest status and progress
+ *
+ * @example
+ * ```tsx
+ * function ScanProgressBar({ scanId }: Props) {
+ *   const { progress, isFinished } = useScanProgress({ scanId });
+ *   return <ProgressBar value={progress?.percentage ?? 0} done={isFinished} />;
+ * }
+ * ```
+ */
+export function useScanProgress(
+  options: UseScanProgressOptions
+): UseScanProgressReturn {
+  const { scanId, enabled = true } = options;
+  const queryClient = useQueryClient();
+
+  const [status, setStatus] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ScanProgressState | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+
+  useEffect(() => {
+    if (!scanId || !enabled) {
+      return undefined;
+    }
+
+    const controller = new AbortController();
+    let lastEventId: string | undefined;
+    let finished = false;
+
+    const follow = async (): Promise<void> => {
+      for (let attempt = 0; attempt <= MAX_RECONNECTS && !finished; attempt++) {
+        try {
+          setIsStreaming(true);
+          const events = streamEvents<ScanProgressEventData>(`/scans/${scanId}/events`, {
+            signal: controller.signal,
+            ...(lastEventId !== undefined && { lastEventId }),
+          });
+
+          for await (const event of events) {
+            if (event.id !== undefined) {
+              lastEventId = event.id;
+            }
+            attempt = 0;
+
+            const { data } = event;
+            if (data.progress) {
+              setProgress(data.progress);
+            }
+            if (data.errorMessage) {
+              setErrorMessage(data.errorMessage);
+            }
+
+            const nextStatus = event.event === 'snapshot'
+              ? data.status
+              : event.event === 'started' || event.event === 'progress'
+                ? 'running'
+                : event.event;
+            if (nextStatus) {
+              setStatus(nextStatus);
+            }
+            if (nextStatus && TERMINAL_STATUSES.has(nextStatus)) {
+              finished = true;
+            }
+          }
+        } catch {
+          if (controller.signal.aborted) {
+            return;
+          }
+        } finally {
+          setIsStreaming(false);
+        }
+
+        if (!finished) {
+          await new Promise((resolve) => setTimeout(resolve, RECONNECT_DELAY));
+          if (controller.signal.aborted) {
+            return;
+          }
+        }
+      }
+
+      if (finished) {
+        void queryClient.invalidateQueries({
+          queryKey: scanHistoryQueryKeys.detail(scanId),
+        });
+      }
+    };
+
+    void follow();
+
+    return () => {
+      controller.abort();
+    };
+  }, [scanId, enabled, queryClient]);
+
+  return {
+    status,
+    progress,
+    errorMessage,
+    isStreaming,
+    isFinished: status !== null && TERMINAL_STATUSES.has(status),
+  };
+}
@@ -6,12 +6,16 @@
 
 import { useParams, Link } from 'react-router-dom';
 import { ROUTES } from '@/core/router';
+import { useScanProgress, createScanId } from '@/features/scan-history';
 
 /**
  * Scan detail page
  */
 export default function ScanDetailPage(): JSX.Element {
   const { scanId } = useParams<{ scanId: string }>();
+  const { status, progress, errorMessage, isStreaming } = useScanProgress({
+    scanId: scanId ? createScanId(scanId) : null,
+  });
 
   return (
     <div className="space-y-6">
@@ -32,11 +36,52 @@ export default function ScanDetailPage(): JSX.Element {
         </Link>
       </div>
 
-      {/* Scan details placeholder */}
+      {/* Live scan progress */}
       <div className="rounded-lg border bg-white p-6 shadow-sm">
-        <p className="text-sm text-gray-500">
-          Scan details will be implemented in a future phase.
-        </p>
+        <div className="flex items-center justify-between">
+          <h2 className="text-sm font-medium text-gray-900">
+            Status: <span className="capitalize">{status ?? 'loading'}</span>
+          </h2>
+          {isStreaming && (
+            <span className="text-xs text-green-600">Live</span>
+          )}
+        </div>
+
+        {progress && (
+          <>
+            <div className="mt-4 h-2 w-full rounded-full bg-gray-100">
+              <div
+                className="h-2 rounded-full bg-gray-900 transition-all"
+                style={{ width: `${progress.percentage ?? 0}%` }}
+              />
+            </div>
+            <dl className="mt-4 grid grid-cols-2 gap-4 text-sm sm:grid-cols-4">
+              <div>
+                <dt className="text-gray-500">Phase</dt>
+                <dd className="font-medium capitalize text-gray-900">{progress.phase ?? '-'}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Files</dt>
+                <dd className="font-medium text-gray-900">
+                  {progress.filesProcessed ?? 0}
+                  {progress.totalFiles !== undefined && ` / ${progress.totalFiles}`}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Nodes</dt>
+                <dd className="font-medium text-gray-900">{progress.nodesDetected ?? 0}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Edges</dt>
+                <dd className="font-medium text-gray-900">{progress.edgesDetected ?? 0}</dd>
+              </div>
+            </dl>
+          </>
+        )}
+
+        {errorMessage && (
+          <p className="mt-4 text-sm text-red-600">{errorMessage}</p>
+        )}
       </div>
     </div>
   );